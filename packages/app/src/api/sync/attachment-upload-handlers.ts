@@ -0,0 +1,159 @@
+/**
+ * Attachment Upload Handlers
+ *
+ * HTTP handlers for chunked, resumable upload of the files behind synced
+ * attachments. The attachment record itself arrives through /api/sync/push.
+ */
+
+import type { Request, Response, NextFunction } from 'express';
+import { AttachmentUploadService, MAX_CHUNK_SIZE, type Database } from '@care-commons/core';
+import { z } from 'zod';
+
+type Handler = (req: Request, res: Response, next: NextFunction) => Promise<void>;
+
+const StartUploadRequestSchema = z.object({
+  fileSize: z.number().int().nonnegative(),
+  checksum: z.string().regex(/^[\da-f]{64}$/i),
+  chunkSize: z.number().int().positive().max(MAX_CHUNK_SIZE).optional(),
+});
+
+const ChunkIndexSchema = z.coerce.number().int().nonnegative();
+
+/**
+ * Create attachment upload handlers with database dependency
+ */
+export function createAttachmentUploadHandlers(db: Database): {
+  handleStartUpload: Handler;
+  handleGetUploadStatus: Handler;
+  handleUploadChunk: Handler;
+  handleCompleteUpload: Handler;
+  handleDownloadFile: Handler;
+} {
+  const uploads = new AttachmentUploadService(db);
+
+  /**
+   * Organization of the signed-in user, or null after answering 401
+   */
+  const requireOrganization = (req: Request, res: Response): string | null => {
+    const organizationId = req.user?.organizationId;
+    // eslint-disable-next-line @typescript-eslint/strict-boolean-expressions
+    if (!req.user?.userId || !organizationId) {
+      res.status(401).json({
+        error: 'Unauthorized',
+        message: 'You must be logged in',
+      });
+      return null;
+    }
+    return organizationId;
+  };
+
+  /**
+   * Start or resume an upload
+   *
+   * POST /api/sync/attachments/:attachmentId/upload
+   */
+  const handleStartUpload: Handler = async (req, res, next) => {
+    try {
+      const organizationId = requireOrganization(req, res);
+      if (organizationId === null) return;
+
+      const result = StartUploadRequestSchema.safeParse(req.body);
+      if (result.success === false) {
+        res.status(400).json({
+          error: 'Invalid request',
+          details: result.error.issues,
+        });
+        return;
+      }
+
+      res.json(await uploads.startUpload(req.params['attachmentId']!, organizationId, result.data));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Get which chunks the server has
+   *
+   * GET /api/sync/attachments/:attachmentId/upload
+   */
+  const handleGetUploadStatus: Handler = async (req, res, next) => {
+    try {
+      const organizationId = requireOrganization(req, res);
+      if (organizationId === null) return;
+
+      res.json(await uploads.getUploadStatus(req.params['attachmentId']!, organizationId));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Upload one chunk as the raw request body
+   *
+   * PUT /api/sync/attachments/:attachmentId/upload/chunks/:chunkIndex
+   */
+  const handleUploadChunk: Handler = async (req, res, next) => {
+    try {
+      const organizationId = requireOrganization(req, res);
+      if (organizationId === null) return;
+
+      const chunkIndex = ChunkIndexSchema.safeParse(req.params['chunkIndex']);
+      if (chunkIndex.success === false || !Buffer.isBuffer(req.body)) {
+        res.status(400).json({
+          error: 'Invalid request',
+          message: 'Send the chunk as an application/octet-stream body',
+        });
+        return;
+      }
+
+      res.json(await uploads.uploadChunk(req.params['attachmentId']!, organizationId, chunkIndex.data, req.body));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Verify the received file and finish the upload
+   *
+   * POST /api/sync/attachments/:attachmentId/upload/complete
+   */
+  const handleCompleteUpload: Handler = async (req, res, next) => {
+    try {
+      const organizationId = requireOrganization(req, res);
+      if (organizationId === null) return;
+
+      res.json(await uploads.completeUpload(req.params['attachmentId']!, organizationId));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Download an uploaded file
+   *
+   * GET /api/sync/attachments/:attachmentId/file
+   */
+  const handleDownloadFile: Handler = async (req, res, next) => {
+    try {
+      const organizationId = requireOrganization(req, res);
+      if (organizationId === null) return;
+
+      const file = await uploads.readFile(req.params['attachmentId']!, organizationId);
+      res.setHeader('Content-Type', file.mimeType);
+      res.setHeader('Content-Disposition', `inline; filename="${file.fileName.replaceAll('"', '')}"`);
+      res.setHeader('Cache-Control', 'private, no-store');
+      res.send(file.data);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  return {
+    handleStartUpload,
+    handleGetUploadStatus,
+    handleUploadChunk,
+    handleCompleteUpload,
+    handleDownloadFile,
+  };
+}
@@ -13,6 +13,7 @@ import { z } from 'zod';
  * Zod schemas for request validation
  */
 const PullChangesRequestSchema = z.object({
+  cursor: z.string().regex(/^\d+$/).optional(),
   lastPulledAt: z.coerce.number().int().nonnegative(),
   entities: z.string().transform((val) => val.split(',')),
   organizationId: z.string(),
@@ -24,13 +25,26 @@ const PullChangesRequestSchema = z.object({
 const PushChangesRequestSchema = z.object({
   changes: z.array(z.object({
     id: z.string(),
-    entityType: z.enum(['VISIT', 'EVV_RECORD', 'TIME_ENTRY', 'TASK', 'CLIENT', 'CAREGIVER', 'GEOFENCE']),
+    entityType: z.enum([
+      'VISIT',
+      'EVV_RECORD',
+      'TIME_ENTRY',
+      'TASK',
+      'CLIENT',
+      'CAREGIVER',
+      'GEOFENCE',
+      'MEDICATION_ADMINISTRATION',
+      'VISIT_NOTE',
+      'INCIDENT',
+      'ATTACHMENT',
+    ]),
     entityId: z.string(),
     operationType: z.enum(['CREATE', 'UPDATE', 'DELETE']),
     data: z.record(z.string(), z.unknown()),
     version: z.number().int().nonnegative(),
     createdAt: z.number().int().nonnegative(),
     updatedAt: z.number().int().nonnegative(),
+    baseFieldVersions: z.record(z.string(), z.number().int().nonnegative()).optional(),
   })),
   deviceId: z.string(),
   timestamp: z.number().int().nonnegative(),
@@ -90,6 +104,7 @@ export function createSyncHandlers(_db: Database): {
         changes: [],
         timestamp: Date.now(),
         hasMore: false,
+        nextCursor: request.cursor ?? '0',
       });
     } catch (error) {
       next(error);
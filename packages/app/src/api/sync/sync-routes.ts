@@ -4,23 +4,25 @@
  * Express routes for offline-first synchronization.
  */
 
-import { Router } from 'express';
+import express, { Router } from 'express';
 import type { Database } from '@care-commons/core';
-import { AuthMiddleware } from '@care-commons/core';
+import { AuthMiddleware, MAX_CHUNK_SIZE } from '@care-commons/core';
 import { createSyncHandlers } from './sync-handlers';
+import { createAttachmentUploadHandlers } from './attachment-upload-handlers';
 import { syncLimiter } from '../../middleware/rate-limit';
 
 export function createSyncRouter(db: Database): Router {
   const router = Router();
   const authMiddleware = new AuthMiddleware(db);
   const syncHandlers = createSyncHandlers(db);
+  const uploadHandlers = createAttachmentUploadHandlers(db);
 
   // All sync routes require authentication
   router.use(authMiddleware.requireAuth);
 
   /**
    * Pull changes from server
-   * GET /api/sync/pull?lastPulledAt=<timestamp>&entities=VISIT,TASK&organizationId=<uuid>
+   * GET /api/sync/pull?cursor=<cursor>&lastPulledAt=<timestamp>&entities=VISIT,TASK&organizationId=<uuid>
    */
   router.get('/pull', syncLimiter, syncHandlers.handlePullChanges);
 
@@ -37,5 +39,41 @@ export function createSyncRouter(db: Database): Router {
    */
   router.get('/status', syncHandlers.handleSyncStatus);
 
+  /**
+   * Start or resume a chunked attachment upload
+   * POST /api/sync/attachments/:attachmentId/upload
+   * Body: { fileSize: 123, checksum: "<sha256 hex>", chunkSize: 524288 }
+   */
+  router.post('/attachments/:attachmentId/upload', uploadHandlers.handleStartUpload);
+
+  /**
+   * Get the chunks received so far
+   * GET /api/sync/attachments/:attachmentId/upload
+   */
+  router.get('/attachments/:attachmentId/upload', uploadHandlers.handleGetUploadStatus);
+
+  /**
+   * Upload one chunk
+   * PUT /api/sync/attachments/:attachmentId/upload/chunks/:chunkIndex
+   * Body: chunk bytes (application/octet-stream)
+   */
+  router.put(
+    '/attachments/:attachmentId/upload/chunks/:chunkIndex',
+    express.raw({ type: 'application/octet-stream', limit: MAX_CHUNK_SIZE }),
+    uploadHandlers.handleUploadChunk
+  );
+
+  /**
+   * Verify the file against its checksum and finish the upload
+   * POST /api/sync/attachments/:attachmentId/upload/complete
+   */
+  router.post('/attachments/:attachmentId/upload/complete', uploadHandlers.handleCompleteUpload);
+
+  /**
+   * Download an uploaded attachment file
+   * GET /api/sync/attachments/:attachmentId/file
+   */
+  router.get('/attachments/:attachmentId/file', uploadHandlers.handleDownloadFile);
+
   return router;
 }
@@ -0,0 +1,143 @@
+/**
+ * Analytics Routes Tests
+ *
+ * Tests for scheduled report administration: who may create, change and
+ * delete schedules, and what reaches the report service
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import express, { Express, Request, Response, NextFunction } from 'express';
+import request from 'supertest';
+import type { Database } from '@care-commons/core';
+import { createAnalyticsRouter } from '../analytics';
+import { errorHandler } from '../../middleware/error-handler';
+
+const mockReports = {
+  getScheduledReports: vi.fn(),
+  scheduleReport: vi.fn(),
+  updateScheduledReport: vi.fn(),
+  deleteScheduledReport: vi.fn(),
+};
+
+// Authenticate from a test header instead of a signed JWT
+vi.mock('@care-commons/core', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@care-commons/core')>();
+  return {
+    ...actual,
+    AuthMiddleware: vi.fn(function () {
+      return {
+        requireAuth: (req: Request, res: Response, next: NextFunction) => {
+          const roles = req.header('x-test-roles');
+          if (roles === undefined) {
+            res.status(401).json({ success: false, error: 'No authentication token provided' });
+            return;
+          }
+          req.user = {
+            userId: 'user-1',
+            email: 'user@example.org',
+            organizationId: 'org-1',
+            branchIds: ['branch-1'],
+            roles: roles.split(','),
+            permissions: [],
+            tokenVersion: 1,
+          };
+          next();
+        },
+      };
+    }),
+  };
+});
+
+vi.mock('@care-commons/analytics-reporting', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@care-commons/analytics-reporting')>();
+  return {
+    ...actual,
+    ReportService: vi.fn(function () {
+      return mockReports;
+    }),
+  };
+});
+
+const scheduleInput = {
+  name: 'Weekly productivity',
+  reportType: 'PRODUCTIVITY',
+  exportFormat: 'CSV',
+  frequency: 'WEEKLY',
+  timeOfDay: '07:00',
+  dayOfWeek: 1,
+  timezone: 'America/Chicago',
+  recipients: ['director@example.org'],
+};
+
+describe('Analytics Routes', () => {
+  let app: Express;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    app = express();
+    app.use(express.json());
+    app.use('/api/analytics', createAnalyticsRouter({} as Database));
+    app.use(errorHandler);
+  });
+
+  it('should let report readers list schedules', async () => {
+    mockReports.getScheduledReports.mockResolvedValue([]);
+
+    const response = await request(app).get('/api/analytics/schedules').set('x-test-roles', 'BRANCH_ADMIN');
+
+    expect(response.status).toBe(200);
+    expect(mockReports.getScheduledReports).toHaveBeenCalledWith('org-1', undefined, expect.anything());
+  });
+
+  it.each([
+    ['creating', (agent: ReturnType<typeof request>) => agent.post('/api/analytics/schedules')],
+    ['changing', (agent: ReturnType<typeof request>) => agent.patch('/api/analytics/schedules/schedule-1')],
+    ['deleting', (agent: ReturnType<typeof request>) => agent.delete('/api/analytics/schedules/schedule-1')],
+  ])('should reject %s a schedule without reports:schedule', async (_action, send) => {
+    const response = await send(request(app)).set('x-test-roles', 'COORDINATOR').send(scheduleInput);
+
+    expect(response.status).toBe(403);
+    expect(response.body).toEqual({
+      success: false,
+      error: 'Insufficient permissions',
+      code: 'INSUFFICIENT_PERMISSIONS',
+    });
+    expect(mockReports.scheduleReport).not.toHaveBeenCalled();
+    expect(mockReports.updateScheduledReport).not.toHaveBeenCalled();
+    expect(mockReports.deleteScheduledReport).not.toHaveBeenCalled();
+  });
+
+  it('should let org admins schedule reports for their organization', async () => {
+    mockReports.scheduleReport.mockResolvedValue({ id: 'schedule-1', ...scheduleInput });
+
+    const response = await request(app)
+      .post('/api/analytics/schedules')
+      .set('x-test-roles', 'ORG_ADMIN')
+      .send(scheduleInput);
+
+    expect(response.status).toBe(201);
+    expect(mockReports.scheduleReport).toHaveBeenCalledWith(
+      'org-1',
+      scheduleInput,
+      expect.objectContaining({ userId: 'user-1', organizationId: 'org-1' })
+    );
+  });
+
+  it('should let org admins pause a schedule', async () => {
+    mockReports.updateScheduledReport.mockResolvedValue({ id: 'schedule-1', isActive: false });
+
+    const response = await request(app)
+      .patch('/api/analytics/schedules/schedule-1')
+      .set('x-test-roles', 'ORG_ADMIN')
+      .send({ isActive: false });
+
+    expect(response.status).toBe(200);
+    expect(mockReports.updateScheduledReport).toHaveBeenCalledWith(
+      'schedule-1',
+      'org-1',
+      { isActive: false },
+      expect.anything()
+    );
+  });
+});
@@ -54,6 +54,7 @@ vi.mock('@care-commons/payroll-processing', () => ({
   PayrollRepository: vi.fn(function() {
     return mockPayrollRepository;
   }),
+  createEVVRecordProvider: vi.fn().mockReturnValue({}),
 }));
 
 describe('Payroll Routes', () => {
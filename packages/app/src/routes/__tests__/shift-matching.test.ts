@@ -0,0 +1,368 @@
+/**
+ * Shift Matching Routes Tests
+ *
+ * Tests for the open shift marketplace endpoints: permission checks for
+ * schedulers and caregivers, caregiver ownership of proposals, request
+ * validation and response shapes
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import express, { Express, Request, Response, NextFunction } from 'express';
+import request from 'supertest';
+import { Database, NotFoundError } from '@care-commons/core';
+import { createShiftMatchingRouter } from '../shift-matching';
+import { errorHandler } from '../../middleware/error-handler';
+
+const mockHandlers = {
+  searchOpenShifts: vi.fn(),
+  createOpenShift: vi.fn(),
+  getOpenShift: vi.fn(),
+  getProposalsForShift: vi.fn(),
+  matchOpenShift: vi.fn(),
+  getMatchCandidates: vi.fn(),
+  searchProposals: vi.fn(),
+  createManualProposal: vi.fn(),
+  getProposal: vi.fn(),
+  respondToProposal: vi.fn(),
+  withdrawProposal: vi.fn(),
+  getMatchingMetrics: vi.fn(),
+  getCaregiverIdForUser: vi.fn(),
+  getAvailableShifts: vi.fn(),
+  claimShift: vi.fn(),
+  getCaregiverProposals: vi.fn(),
+  markProposalViewed: vi.fn(),
+  acceptProposal: vi.fn(),
+  rejectProposal: vi.fn(),
+  getDefaultConfiguration: vi.fn(),
+  createConfiguration: vi.fn(),
+  updateConfiguration: vi.fn(),
+  expireStaleProposals: vi.fn(),
+};
+
+vi.mock('@care-commons/shift-matching', () => ({
+  ShiftMatchingHandlers: vi.fn(function () {
+    return mockHandlers;
+  }),
+}));
+
+// Authenticate from a test header instead of a signed JWT
+vi.mock('@care-commons/core', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@care-commons/core')>();
+  return {
+    ...actual,
+    AuthMiddleware: vi.fn(function () {
+      return {
+        requireAuth: (req: Request, res: Response, next: NextFunction) => {
+          const roles = req.header('x-test-roles');
+          if (roles === undefined) {
+            res.status(401).json({ success: false, error: 'No authentication token provided' });
+            return;
+          }
+          req.user = {
+            userId: 'user-1',
+            email: 'user@example.org',
+            organizationId: 'org-1',
+            branchIds: ['branch-1'],
+            roles: roles.split(','),
+            permissions: [],
+            tokenVersion: 1,
+          };
+          next();
+        },
+      };
+    }),
+    getNotificationService: vi.fn().mockReturnValue({ send: vi.fn() }),
+  };
+});
+
+const proposal = { id: 'proposal-1', caregiverId: 'caregiver-1', openShiftId: 'shift-1', proposalStatus: 'SENT' };
+
+describe('Shift Matching Routes', () => {
+  let app: Express;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    app = express();
+    app.use(express.json());
+    app.use('/api/shift-matching', createShiftMatchingRouter({ getPool: vi.fn().mockReturnValue({}) } as unknown as Database));
+    app.use(errorHandler);
+
+    mockHandlers.getCaregiverIdForUser.mockResolvedValue('caregiver-1');
+    mockHandlers.getProposal.mockResolvedValue(proposal);
+  });
+
+  it('should require authentication', async () => {
+    const response = await request(app).get('/api/shift-matching/open-shifts');
+
+    expect(response.status).toBe(401);
+  });
+
+  describe('open shifts', () => {
+    it('should list open shifts for the web marketplace', async () => {
+      mockHandlers.searchOpenShifts.mockResolvedValue({
+        items: [{ id: 'shift-1' }],
+        total: 21,
+        page: 1,
+        limit: 20,
+        totalPages: 2,
+      });
+
+      const response = await request(app)
+        .get('/api/shift-matching/open-shifts')
+        .set('x-test-roles', 'CAREGIVER')
+        .query({ matchingStatus: 'NEW,MATCHED', isUrgent: 'true', dateFrom: '2025-01-20' });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ items: [{ id: 'shift-1' }], total: 21, page: 1, limit: 20, hasMore: true });
+      expect(mockHandlers.searchOpenShifts).toHaveBeenCalledWith(
+        { matchingStatus: ['NEW', 'MATCHED'], isUrgent: true, dateFrom: new Date('2025-01-20') },
+        { page: 1, limit: 20 },
+        expect.objectContaining({ organizationId: 'org-1' })
+      );
+    });
+
+    it('should reject invalid dates', async () => {
+      const response = await request(app)
+        .get('/api/shift-matching/open-shifts')
+        .set('x-test-roles', 'SCHEDULER')
+        .query({ dateFrom: 'next week' });
+
+      expect(response.status).toBe(400);
+      expect(mockHandlers.searchOpenShifts).not.toHaveBeenCalled();
+    });
+
+    it('should let schedulers post an unassigned visit', async () => {
+      mockHandlers.createOpenShift.mockResolvedValue({ id: 'shift-1', matchingStatus: 'NEW' });
+
+      const response = await request(app)
+        .post('/api/shift-matching/open-shifts')
+        .set('x-test-roles', 'SCHEDULER')
+        .send({ visitId: 'visit-1', priority: 'HIGH' });
+
+      expect(response.status).toBe(201);
+      expect(mockHandlers.createOpenShift).toHaveBeenCalledWith(
+        { visitId: 'visit-1', priority: 'HIGH' },
+        expect.objectContaining({ userId: 'user-1' })
+      );
+    });
+
+    it('should not let caregivers post open shifts', async () => {
+      const response = await request(app)
+        .post('/api/shift-matching/open-shifts')
+        .set('x-test-roles', 'CAREGIVER')
+        .send({ visitId: 'visit-1' });
+
+      expect(response.status).toBe(403);
+      expect(response.body.code).toBe('INSUFFICIENT_PERMISSIONS');
+      expect(mockHandlers.createOpenShift).not.toHaveBeenCalled();
+    });
+
+    it('should require a visit', async () => {
+      const response = await request(app)
+        .post('/api/shift-matching/open-shifts')
+        .set('x-test-roles', 'COORDINATOR')
+        .send({ priority: 'URGENT' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('visitId is required');
+    });
+
+    it('should hide proposals on an open shift from caregivers', async () => {
+      mockHandlers.getOpenShift.mockResolvedValue({ id: 'shift-1' });
+      mockHandlers.getProposalsForShift.mockResolvedValue([proposal]);
+
+      const caregiverView = await request(app).get('/api/shift-matching/open-shifts/shift-1').set('x-test-roles', 'CAREGIVER');
+      const schedulerView = await request(app).get('/api/shift-matching/open-shifts/shift-1').set('x-test-roles', 'SCHEDULER');
+
+      expect(caregiverView.body).toEqual({ id: 'shift-1' });
+      expect(schedulerView.body).toEqual({ id: 'shift-1', proposals: [proposal] });
+    });
+
+    it('should return 404 for an open shift outside the organization', async () => {
+      mockHandlers.getOpenShift.mockResolvedValue(null);
+
+      const response = await request(app).get('/api/shift-matching/open-shifts/shift-9').set('x-test-roles', 'SCHEDULER');
+
+      expect(response.status).toBe(404);
+    });
+
+    it('should run matching and return ranked candidates', async () => {
+      mockHandlers.matchOpenShift.mockResolvedValue({
+        openShift: { id: 'shift-1', matchingStatus: 'PROPOSED' },
+        candidates: [{ caregiverId: 'caregiver-1' }, { caregiverId: 'caregiver-2' }],
+        proposalsCreated: [proposal],
+        eligibleCount: 2,
+        ineligibleCount: 3,
+      });
+
+      const response = await request(app)
+        .post('/api/shift-matching/open-shifts/shift-1/match')
+        .set('x-test-roles', 'ORG_ADMIN')
+        .send({ maxCandidates: 2, autoPropose: true });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toMatchObject({ total: 2, proposalsCreated: [proposal], eligibleCount: 2 });
+      expect(mockHandlers.matchOpenShift).toHaveBeenCalledWith(
+        'shift-1',
+        { maxCandidates: 2, autoPropose: true },
+        expect.anything()
+      );
+    });
+  });
+
+  describe('proposals', () => {
+    it('should send manual proposals with a notification by default', async () => {
+      mockHandlers.createManualProposal.mockResolvedValue(proposal);
+
+      const response = await request(app)
+        .post('/api/shift-matching/proposals')
+        .set('x-test-roles', 'SCHEDULER')
+        .send({ openShiftId: 'shift-1', caregiverId: 'caregiver-1', urgencyFlag: true });
+
+      expect(response.status).toBe(201);
+      expect(mockHandlers.createManualProposal).toHaveBeenCalledWith(
+        expect.objectContaining({
+          openShiftId: 'shift-1',
+          caregiverId: 'caregiver-1',
+          proposalMethod: 'MANUAL',
+          sendNotification: true,
+          urgencyFlag: true,
+        }),
+        expect.anything()
+      );
+    });
+
+    it('should not let caregivers search every proposal', async () => {
+      const response = await request(app)
+        .get('/api/shift-matching/proposals')
+        .set('x-test-roles', 'CAREGIVER')
+        .query({ caregiverId: 'caregiver-2' });
+
+      expect(response.status).toBe(403);
+      expect(mockHandlers.searchProposals).not.toHaveBeenCalled();
+    });
+
+    it('should withdraw a proposal', async () => {
+      mockHandlers.withdrawProposal.mockResolvedValue({ ...proposal, proposalStatus: 'WITHDRAWN' });
+
+      const response = await request(app)
+        .post('/api/shift-matching/proposals/proposal-1/withdraw')
+        .set('x-test-roles', 'COORDINATOR');
+
+      expect(response.status).toBe(200);
+      expect(response.body.proposalStatus).toBe('WITHDRAWN');
+    });
+
+    it('should surface service errors with their status', async () => {
+      mockHandlers.withdrawProposal.mockRejectedValue(new NotFoundError('Proposal not found'));
+
+      const response = await request(app)
+        .post('/api/shift-matching/proposals/proposal-9/withdraw')
+        .set('x-test-roles', 'COORDINATOR');
+
+      expect(response.status).toBe(404);
+      expect(response.body.error).toBe('Proposal not found');
+    });
+  });
+
+  describe('caregiver self-service', () => {
+    it('should claim a shift as the signed-in caregiver', async () => {
+      mockHandlers.claimShift.mockResolvedValue({ ...proposal, proposalMethod: 'CAREGIVER_SELF_SELECT' });
+
+      const response = await request(app)
+        .post('/api/shift-matching/caregiver/shifts/shift-1/claim')
+        .set('x-test-roles', 'CAREGIVER');
+
+      expect(response.status).toBe(201);
+      expect(mockHandlers.claimShift).toHaveBeenCalledWith('shift-1', 'caregiver-1', expect.anything());
+    });
+
+    it('should refuse self-service to users without a caregiver record', async () => {
+      mockHandlers.getCaregiverIdForUser.mockResolvedValue(null);
+
+      const response = await request(app)
+        .get('/api/shift-matching/caregiver/shifts/available')
+        .set('x-test-roles', 'CAREGIVER');
+
+      expect(response.status).toBe(403);
+      expect(mockHandlers.getAvailableShifts).not.toHaveBeenCalled();
+    });
+
+    it('should accept the caregiver\'s own proposal', async () => {
+      mockHandlers.acceptProposal.mockResolvedValue({ ...proposal, proposalStatus: 'ACCEPTED' });
+
+      const response = await request(app)
+        .post('/api/shift-matching/caregiver/proposals/proposal-1/accept')
+        .set('x-test-roles', 'CAREGIVER')
+        .send({ notes: 'See you then' });
+
+      expect(response.status).toBe(200);
+      expect(mockHandlers.acceptProposal).toHaveBeenCalledWith('proposal-1', 'See you then', expect.anything());
+    });
+
+    it('should not let a caregiver answer another caregiver\'s proposal', async () => {
+      mockHandlers.getProposal.mockResolvedValue({ ...proposal, caregiverId: 'caregiver-2' });
+
+      const response = await request(app)
+        .post('/api/shift-matching/caregiver/proposals/proposal-1/accept')
+        .set('x-test-roles', 'CAREGIVER');
+
+      expect(response.status).toBe(404);
+      expect(mockHandlers.acceptProposal).not.toHaveBeenCalled();
+    });
+
+    it('should require a known rejection category', async () => {
+      const response = await request(app)
+        .post('/api/shift-matching/caregiver/proposals/proposal-1/reject')
+        .set('x-test-roles', 'CAREGIVER')
+        .send({ rejectionCategory: 'BAD_WEATHER' });
+
+      expect(response.status).toBe(400);
+      expect(mockHandlers.rejectProposal).not.toHaveBeenCalled();
+    });
+
+    it('should reject the caregiver\'s own proposal', async () => {
+      mockHandlers.rejectProposal.mockResolvedValue({ ...proposal, proposalStatus: 'REJECTED' });
+
+      const response = await request(app)
+        .post('/api/shift-matching/caregiver/proposals/proposal-1/reject')
+        .set('x-test-roles', 'CAREGIVER')
+        .send({ rejectionCategory: 'TOO_FAR', rejectionReason: 'Over 30 miles' });
+
+      expect(response.status).toBe(200);
+      expect(mockHandlers.rejectProposal).toHaveBeenCalledWith(
+        'proposal-1',
+        'Over 30 miles',
+        'TOO_FAR',
+        undefined,
+        expect.anything()
+      );
+    });
+  });
+
+  describe('administration', () => {
+    it('should expire stale proposals on demand', async () => {
+      mockHandlers.expireStaleProposals.mockResolvedValue({ success: true, expiredCount: 3, message: 'Expired 3 stale proposal(s)' });
+
+      const response = await request(app)
+        .post('/api/shift-matching/admin/expire-stale-proposals')
+        .set('x-test-roles', 'SCHEDULER');
+
+      expect(response.status).toBe(200);
+      expect(response.body.expiredCount).toBe(3);
+    });
+
+    it('should limit matching configuration changes to admins', async () => {
+      mockHandlers.createConfiguration.mockResolvedValue({ id: 'config-1' });
+      const body = { name: 'Default', weights: { skillMatch: 20 }, isDefault: true };
+
+      const scheduler = await request(app).post('/api/shift-matching/configurations').set('x-test-roles', 'SCHEDULER').send(body);
+      const admin = await request(app).post('/api/shift-matching/configurations').set('x-test-roles', 'ORG_ADMIN').send(body);
+
+      expect(scheduler.status).toBe(403);
+      expect(admin.status).toBe(201);
+      expect(mockHandlers.createConfiguration).toHaveBeenCalledTimes(1);
+    });
+  });
+});
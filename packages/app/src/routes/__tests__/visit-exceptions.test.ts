@@ -0,0 +1,193 @@
+/**
+ * Visit Exception Routes Tests
+ *
+ * Tests for the visit exception queue endpoints: authentication, queue
+ * filters and paging, and acknowledge, resolve and escalate validation
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import express, { Express, Request, Response, NextFunction } from 'express';
+import request from 'supertest';
+import type { Database } from '@care-commons/core';
+import type { Pool } from 'pg';
+import { createVisitExceptionRouter } from '../visit-exceptions';
+import { errorHandler } from '../../middleware/error-handler';
+
+// Authenticate from a test header instead of a signed JWT
+vi.mock('@care-commons/core', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@care-commons/core')>();
+  return {
+    ...actual,
+    AuthMiddleware: vi.fn(function () {
+      return {
+        requireAuth: (req: Request, res: Response, next: NextFunction) => {
+          const roles = req.header('x-test-roles');
+          if (roles === undefined) {
+            res.status(401).json({ success: false, error: 'No authentication token provided' });
+            return;
+          }
+          req.user = {
+            userId: 'coordinator-1',
+            email: 'coordinator@example.org',
+            organizationId: 'org-123',
+            branchIds: ['branch-123'],
+            roles: roles.split(','),
+            permissions: ['visits:read', 'visits:update'],
+            tokenVersion: 1,
+          };
+          next();
+        },
+      };
+    }),
+    getNotificationService: vi.fn().mockReturnValue({ send: vi.fn() }),
+  };
+});
+
+const exceptionRow = {
+  id: 'exception-1',
+  organization_id: 'org-123',
+  branch_id: 'branch-123',
+  visit_id: 'visit-123',
+  client_id: 'client-123',
+  caregiver_id: 'caregiver-456',
+  exception_type: 'NO_SHOW_CAREGIVER',
+  severity: 'CRITICAL',
+  detected_at: new Date('2025-11-25T15:00:00Z'),
+  automatic: true,
+  description: 'Caregiver has not clocked in 75 minutes after the scheduled start',
+  details: { minutesLate: 75 },
+  requires_followup: true,
+  escalation_level: 0,
+  status: 'OPEN',
+  created_at: new Date('2025-11-25T15:00:00Z'),
+  updated_at: new Date('2025-11-25T15:00:00Z'),
+};
+
+describe('Visit Exception Routes', () => {
+  let app: Express;
+  let query: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    query = vi.fn().mockResolvedValue({ rows: [] });
+    const db = { getPool: vi.fn().mockReturnValue({ query } as unknown as Pool) } as unknown as Database;
+
+    app = express();
+    app.use(express.json());
+    app.use('/api/visits/exceptions', createVisitExceptionRouter(db));
+    app.use(errorHandler);
+  });
+
+  it('should require authentication, whatever user headers are sent', async () => {
+    const response = await request(app)
+      .get('/api/visits/exceptions')
+      .set('X-User-Id', 'someone')
+      .set('X-User-Roles', 'SUPER_ADMIN');
+
+    expect(response.status).toBe(401);
+    expect(query).not.toHaveBeenCalled();
+  });
+
+  it('should list the organization exception queue with filters', async () => {
+    query
+      .mockResolvedValueOnce({ rows: [{ count: '1' }] })
+      .mockResolvedValueOnce({ rows: [exceptionRow] });
+
+    const response = await request(app)
+      .get('/api/visits/exceptions')
+      .set('x-test-roles', 'COORDINATOR')
+      .query({ status: 'OPEN,ESCALATED', severity: 'CRITICAL' });
+
+    const [countQuery, countValues] = query.mock.calls[0] as [string, unknown[]];
+    expect(countQuery).toContain('organization_id = $1');
+    expect(countValues).toEqual(['org-123', ['CRITICAL'], ['OPEN', 'ESCALATED']]);
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({
+      success: true,
+      data: [expect.objectContaining({ id: 'exception-1', exceptionType: 'NO_SHOW_CAREGIVER' })],
+      meta: { total: 1, page: 1, limit: 25, totalPages: 1 },
+    });
+  });
+
+  it.each([
+    [{ limit: '100000' }, 100, 0],
+    [{ limit: 'lots', page: 'two' }, 25, 0],
+    [{ limit: '0', page: '-3' }, 1, 0],
+    [{ limit: '10', page: '3' }, 10, 20],
+  ])('should page %o as limit %i offset %i', async (params, limit, offset) => {
+    query.mockResolvedValueOnce({ rows: [{ count: '0' }] });
+
+    await request(app).get('/api/visits/exceptions').set('x-test-roles', 'COORDINATOR').query(params).expect(200);
+
+    const [, dataValues] = query.mock.calls[1] as [string, unknown[]];
+    expect(dataValues.slice(-2)).toEqual([limit, offset]);
+  });
+
+  it('should return 404 for a missing exception', async () => {
+    const response = await request(app).get('/api/visits/exceptions/exception-1').set('x-test-roles', 'COORDINATOR');
+
+    expect(response.status).toBe(404);
+  });
+
+  it('should acknowledge an exception for the coordinator', async () => {
+    query
+      .mockResolvedValueOnce({ rows: [exceptionRow] })
+      .mockResolvedValueOnce({
+        rows: [{ ...exceptionRow, status: 'IN_PROGRESS', followup_assigned_to: 'coordinator-1' }],
+      });
+
+    const response = await request(app)
+      .post('/api/visits/exceptions/exception-1/acknowledge')
+      .set('x-test-roles', 'COORDINATOR');
+
+    expect(response.status).toBe(200);
+    expect(response.body.data).toMatchObject({ status: 'IN_PROGRESS', followupAssignedTo: 'coordinator-1' });
+  });
+
+  it('should return 400 when resolving without a resolution', async () => {
+    const response = await request(app)
+      .post('/api/visits/exceptions/exception-1/resolve')
+      .set('x-test-roles', 'COORDINATOR')
+      .send({});
+
+    expect(response.status).toBe(400);
+    expect(response.body).toEqual({ success: false, error: 'resolution is required' });
+    expect(query).not.toHaveBeenCalled();
+  });
+
+  it('should resolve an exception', async () => {
+    query
+      .mockResolvedValueOnce({ rows: [exceptionRow] })
+      .mockResolvedValueOnce({
+        rows: [{ ...exceptionRow, status: 'RESOLVED', resolution: 'Backup caregiver covered the visit' }],
+      });
+
+    const response = await request(app)
+      .post('/api/visits/exceptions/exception-1/resolve')
+      .set('x-test-roles', 'COORDINATOR')
+      .send({ resolution: 'Backup caregiver covered the visit' });
+
+    expect(response.status).toBe(200);
+    expect(response.body.data).toMatchObject({ status: 'RESOLVED', resolution: 'Backup caregiver covered the visit' });
+  });
+
+  it('should return 400 when escalating to an invalid user', async () => {
+    const response = await request(app)
+      .post('/api/visits/exceptions/exception-1/escalate')
+      .set('x-test-roles', 'COORDINATOR')
+      .send({ escalatedTo: 'not-a-uuid', escalationReason: 'Needs a supervisor' });
+
+    expect(response.status).toBe(400);
+    expect(response.body).toEqual({ success: false, error: 'escalatedTo must be a valid user ID' });
+  });
+
+  it('should reject caregivers working the queue', async () => {
+    const response = await request(app)
+      .post('/api/visits/exceptions/exception-1/acknowledge')
+      .set('x-test-roles', 'CAREGIVER');
+
+    expect(response.status).toBe(403);
+    expect(query).not.toHaveBeenCalled();
+  });
+});
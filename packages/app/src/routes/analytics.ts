@@ -3,10 +3,46 @@
  */
 
 import { Router, Request, Response, NextFunction } from 'express';
-import { Database, AuthMiddleware } from '@care-commons/core';
-import { AnalyticsService } from '@care-commons/analytics-reporting';
+import { Database, AuthMiddleware, UserContext, getPermissionService } from '@care-commons/core';
+import { AnalyticsService, ReportService } from '@care-commons/analytics-reporting';
 import { ExportService } from '@care-commons/analytics-reporting';
-import type { AnalyticsQueryOptions, ExportFormat, Report } from '@care-commons/analytics-reporting';
+import type {
+  AnalyticsQueryOptions,
+  ExportFormat,
+  Report,
+  CreateScheduledReportInput,
+  UpdateScheduledReportInput,
+} from '@care-commons/analytics-reporting';
+
+/**
+ * Build the service context from the authenticated user
+ */
+function getUserContext(req: Request): UserContext {
+  const user = req.user!;
+  return {
+    userId: user.userId,
+    organizationId: user.organizationId,
+    branchIds: [],
+    roles: user.roles,
+    permissions: user.permissions,
+  };
+}
+
+/**
+ * Scheduled reports email organization data on a recurring basis, so
+ * creating and changing them needs reports:schedule (org admins have it)
+ */
+function requireSchedulePermission(req: Request, res: Response, next: NextFunction): void {
+  if (!getPermissionService().hasPermission(getUserContext(req), 'reports:schedule')) {
+    res.status(403).json({
+      success: false,
+      error: 'Insufficient permissions',
+      code: 'INSUFFICIENT_PERMISSIONS',
+    });
+    return;
+  }
+  next();
+}
 
 export function createAnalyticsRouter(db: Database): Router {
   const router = Router();
@@ -252,5 +288,118 @@ export function createAnalyticsRouter(db: Database): Router {
     }
   });
 
+  /**
+   * GET /api/analytics/schedules
+   * List scheduled reports for the organization
+   */
+  router.get('/schedules', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const context = getUserContext(req);
+      const service = new ReportService(db);
+
+      const branchId = req.query['branchId'] as string | undefined;
+      const schedules = await service.getScheduledReports(context.organizationId!, branchId, context);
+      res.json(schedules);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * POST /api/analytics/schedules
+   * Schedule a report for recurring email delivery
+   */
+  router.post('/schedules', requireSchedulePermission, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const context = getUserContext(req);
+      const service = new ReportService(db);
+
+      const schedule = await service.scheduleReport(
+        context.organizationId!,
+        req.body as CreateScheduledReportInput,
+        context
+      );
+      res.status(201).json(schedule);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * GET /api/analytics/schedules/:id
+   * Get a scheduled report
+   */
+  router.get('/schedules/:id', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const context = getUserContext(req);
+      const service = new ReportService(db);
+
+      const schedule = await service.getScheduledReport(req.params['id']!, context.organizationId!, context);
+      res.json(schedule);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * PATCH /api/analytics/schedules/:id
+   * Update a scheduled report (including pausing it with isActive: false)
+   */
+  router.patch('/schedules/:id', requireSchedulePermission, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const context = getUserContext(req);
+      const service = new ReportService(db);
+
+      const schedule = await service.updateScheduledReport(
+        req.params['id']!,
+        context.organizationId!,
+        req.body as UpdateScheduledReportInput,
+        context
+      );
+      res.json(schedule);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * DELETE /api/analytics/schedules/:id
+   * Delete a scheduled report
+   */
+  router.delete('/schedules/:id', requireSchedulePermission, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const context = getUserContext(req);
+      const service = new ReportService(db);
+
+      await service.deleteScheduledReport(req.params['id']!, context.organizationId!, context);
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * GET /api/analytics/schedules/:id/runs
+   * Delivery history for a scheduled report, including failures
+   */
+  router.get('/schedules/:id/runs', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const context = getUserContext(req);
+      const service = new ReportService(db);
+
+      const requested = parseInt((req.query['limit'] as string | undefined) ?? '50', 10);
+      const limit = Number.isNaN(requested) ? 50 : Math.min(Math.max(requested, 1), 200);
+      const runs = await service.getScheduledReportRuns(
+        req.params['id']!,
+        context.organizationId!,
+        context,
+        limit
+      );
+      res.json(runs);
+    } catch (error) {
+      next(error);
+    }
+  });
+
   return router;
 }
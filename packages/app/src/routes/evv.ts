@@ -1,20 +1,109 @@
 /**
  * EVV (Electronic Visit Verification) Routes
  * 
- * RESTful API endpoints for EVV clock-in/out and record management
+ * RESTful API endpoints for EVV clock-in/out and record management,
+ * the EVV exception queue, the revision (correction) workflow, and
+ * supervisor review of geofence calibration proposals
  * 
  * NOTE: This is a simplified implementation for demo purposes.
  * Full EVV functionality with state compliance is available via the demo routes.
  */
 
 import { Router, Request, Response, NextFunction } from 'express';
-import { Database, AuthMiddleware } from '@care-commons/core';
-import { EVVRepository } from '@care-commons/time-tracking-evv';
+import { Database, AuthMiddleware, UserContext } from '@care-commons/core';
+import {
+  EVVRepository,
+  EVVRevisionRepository,
+  EVVExceptionQueueRepository,
+  EVVExceptionQueueService,
+  EVVRevisionService,
+  GeofenceCalibrationRepository,
+  GeofenceCalibrationService,
+  EVVService,
+  EVVValidator,
+  IntegrationService,
+  TelephonyRepository,
+  TelephonyIVRService,
+  createClientProvider,
+  createCaregiverProvider,
+  type EVVExceptionQueueFilters,
+  type ReportEVVExceptionInput,
+  type AssignEVVExceptionInput,
+  type ResolveEVVExceptionInput,
+  type EscalateEVVExceptionInput,
+  type CreateEVVRevisionRequestInput,
+  type ReviewEVVRevisionRequestInput,
+  type ReviewGeofenceCalibrationInput,
+  type SetTelephonyPinInput,
+} from '@care-commons/time-tracking-evv';
+import { createVisitProvider } from '@care-commons/scheduling-visits';
+
+/**
+ * Build UserContext from authenticated request
+ */
+function getUserContext(req: Request): UserContext {
+  const user = req.user!;
+  return {
+    userId: user.userId,
+    organizationId: user.organizationId,
+    branchIds: user.branchIds,
+    roles: user.roles,
+    permissions: user.permissions,
+  };
+}
+
+/**
+ * Parse a comma-separated query parameter into a list
+ */
+function parseListParam<T extends string>(value: unknown): T[] | undefined {
+  if (typeof value !== 'string' || value === '') {
+    return undefined;
+  }
+  return value.split(',').map(item => item.trim()).filter(item => item !== '') as T[];
+}
+
+/**
+ * Parse an optional ISO date query parameter
+ */
+function parseDateParam(value: unknown): Date | undefined {
+  if (typeof value !== 'string' || value === '') {
+    return undefined;
+  }
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+}
 
 export function createEVVRouter(db: Database): Router {
   const router = Router();
   const authMiddleware = new AuthMiddleware(db);
   const evvRepository = new EVVRepository(db);
+  const exceptionQueueService = new EVVExceptionQueueService(new EVVExceptionQueueRepository(db));
+  const visitProvider = createVisitProvider(db.getPool(), db);
+  const evvService = new EVVService(
+    evvRepository,
+    new IntegrationService(db),
+    visitProvider,
+    createClientProvider(db),
+    createCaregiverProvider(db),
+    db,
+    new EVVValidator(),
+    exceptionQueueService
+  );
+  const revisionService = new EVVRevisionService(
+    new EVVRevisionRepository(db),
+    evvRepository,
+    exceptionQueueService,
+    evvService
+  );
+  const calibrationService = new GeofenceCalibrationService(
+    new GeofenceCalibrationRepository(db),
+    evvRepository
+  );
+  const telephonyService = new TelephonyIVRService(
+    new TelephonyRepository(db),
+    evvService,
+    visitProvider
+  );
 
   // All EVV routes require authentication
   router.use(authMiddleware.requireAuth);
@@ -66,6 +155,377 @@ export function createEVVRouter(db: Database): Router {
     }
   });
 
+  /**
+   * GET /api/evv/exceptions
+   * Prioritized exception queue (URGENT first, then by SLA deadline)
+   */
+  router.get('/exceptions', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const context = getUserContext(req);
+
+      const filters: EVVExceptionQueueFilters = {};
+      if (typeof req.query.branchId === 'string' && req.query.branchId !== '') {
+        filters.branchId = req.query.branchId;
+      }
+      if (typeof req.query.assignedTo === 'string' && req.query.assignedTo !== '') {
+        filters.assignedTo = req.query.assignedTo;
+      }
+      filters.status = parseListParam(req.query.status);
+      filters.severity = parseListParam(req.query.severity);
+      filters.priority = parseListParam(req.query.priority);
+      filters.exceptionType = parseListParam(req.query.exceptionType);
+      filters.dateFrom = parseDateParam(req.query.dateFrom);
+      filters.dateTo = parseDateParam(req.query.dateTo);
+      filters.onlyOverdue = req.query.onlyOverdue === 'true';
+      filters.onlyUnassigned = req.query.onlyUnassigned === 'true';
+
+      const pagination = {
+        page: parseInt((typeof req.query.page === 'string' && req.query.page !== '') ? req.query.page : '1', 10),
+        limit: parseInt((typeof req.query.limit === 'string' && req.query.limit !== '') ? req.query.limit : '25', 10),
+      };
+
+      const queue = await exceptionQueueService.getQueue(filters, pagination, context);
+      res.json(queue);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * GET /api/evv/exceptions/stats
+   * Queue statistics for a period (defaults to the last 30 days)
+   */
+  router.get('/exceptions/stats', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const context = getUserContext(req);
+      const periodEnd = parseDateParam(req.query.to) ?? new Date();
+      const periodStart = parseDateParam(req.query.from) ??
+        new Date(periodEnd.getTime() - 30 * 24 * 60 * 60 * 1000);
+
+      const stats = await exceptionQueueService.getQueueStats(periodStart, periodEnd, context);
+      res.json(stats);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * GET /api/evv/exceptions/:exceptionId
+   * Get a single exception
+   */
+  router.get('/exceptions/:exceptionId', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const context = getUserContext(req);
+      const exception = await exceptionQueueService.getException(req.params.exceptionId!, context);
+      res.json(exception);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * POST /api/evv/exceptions
+   * Manually report an exception (supervisor, audit or aggregator rejection)
+   */
+  router.post('/exceptions', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const context = getUserContext(req);
+      const input = req.body as ReportEVVExceptionInput;
+
+      if (typeof input.evvRecordId !== 'string' || input.evvRecordId === '') {
+        res.status(400).json({ error: 'evvRecordId is required' });
+        return;
+      }
+      if (!Array.isArray(input.issues)) {
+        res.status(400).json({ error: 'issues must be an array' });
+        return;
+      }
+
+      const record = await evvRepository.getEVVRecordById(input.evvRecordId);
+      if (record === null) {
+        res.status(404).json({ error: 'EVV record not found' });
+        return;
+      }
+
+      const exception = await exceptionQueueService.reportException(input, record, context);
+      res.status(201).json(exception);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * POST /api/evv/exceptions/:exceptionId/assign
+   * Assign an exception to a coordinator
+   */
+  router.post('/exceptions/:exceptionId/assign', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const context = getUserContext(req);
+      const body = req.body as Omit<Partial<AssignEVVExceptionInput>, 'dueDate'> & { dueDate?: string };
+
+      if (typeof body.assignedTo !== 'string' || body.assignedTo === '') {
+        res.status(400).json({ error: 'assignedTo is required' });
+        return;
+      }
+
+      const input: AssignEVVExceptionInput = {
+        assignedTo: body.assignedTo,
+        assignedToRole: body.assignedToRole ?? 'COORDINATOR',
+        dueDate: parseDateParam(body.dueDate),
+      };
+
+      const exception = await exceptionQueueService.assignException(req.params.exceptionId!, input, context);
+      res.json(exception);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * POST /api/evv/exceptions/:exceptionId/resolve
+   * Resolve an exception
+   */
+  router.post('/exceptions/:exceptionId/resolve', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const context = getUserContext(req);
+      const input = req.body as ResolveEVVExceptionInput;
+
+      if (typeof input.resolutionMethod !== 'string' || typeof input.resolutionNotes !== 'string') {
+        res.status(400).json({ error: 'resolutionMethod and resolutionNotes are required' });
+        return;
+      }
+
+      const exception = await exceptionQueueService.resolveException(req.params.exceptionId!, input, context);
+      res.json(exception);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * POST /api/evv/exceptions/:exceptionId/escalate
+   * Escalate an exception
+   */
+  router.post('/exceptions/:exceptionId/escalate', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const context = getUserContext(req);
+      const input = req.body as EscalateEVVExceptionInput;
+
+      if (typeof input.escalatedTo !== 'string' || typeof input.escalationReason !== 'string') {
+        res.status(400).json({ error: 'escalatedTo and escalationReason are required' });
+        return;
+      }
+
+      const exception = await exceptionQueueService.escalateException(req.params.exceptionId!, input, context);
+      res.json(exception);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * GET /api/evv/revision-requests
+   * Pending revision requests awaiting review in the user's organization
+   */
+  router.get('/revision-requests', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const context = getUserContext(req);
+      const requests = await revisionService.getPendingRevisionRequests(context);
+      res.json({ items: requests, total: requests.length });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * POST /api/evv/revision-requests/:requestId/approve
+   * Approve a revision request (supervisor, then compliance if required)
+   */
+  router.post('/revision-requests/:requestId/approve', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const context = getUserContext(req);
+      const body = req.body as Partial<ReviewEVVRevisionRequestInput>;
+      const input: ReviewEVVRevisionRequestInput = {
+        reviewerName: body.reviewerName ?? req.user!.email,
+        comments: body.comments,
+        conditions: body.conditions,
+      };
+
+      const result = await revisionService.approveRevisionRequest(req.params.requestId!, input, context);
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * POST /api/evv/revision-requests/:requestId/deny
+   * Deny a revision request
+   */
+  router.post('/revision-requests/:requestId/deny', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const context = getUserContext(req);
+      const body = req.body as Partial<ReviewEVVRevisionRequestInput>;
+      const input: ReviewEVVRevisionRequestInput = {
+        reviewerName: body.reviewerName ?? req.user!.email,
+        comments: body.comments,
+      };
+
+      const request = await revisionService.denyRevisionRequest(req.params.requestId!, input, context);
+      res.json(request);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * POST /api/evv/revision-requests/:requestId/cancel
+   * Cancel your own pending revision request
+   */
+  router.post('/revision-requests/:requestId/cancel', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const context = getUserContext(req);
+      const request = await revisionService.cancelRevisionRequest(req.params.requestId!, context);
+      res.json(request);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * GET /api/evv/records/:id/revisions
+   * Audit trail: original data, revision history (with hash chain check) and access log
+   */
+  router.get('/records/:id/revisions', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const context = getUserContext(req);
+      const auditTrail = await revisionService.getAuditTrail(req.params.id!, req.user!.email, context);
+      const requests = await revisionService.getRevisionRequests(req.params.id!, context);
+      res.json({ ...auditTrail, requests });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * POST /api/evv/records/:id/revisions
+   * Request a correction to an EVV record
+   */
+  router.post('/records/:id/revisions', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const context = getUserContext(req);
+      const body = req.body as Partial<CreateEVVRevisionRequestInput>;
+
+      if (!Array.isArray(body.changes) || typeof body.requestReason !== 'string' ||
+        typeof body.requestJustification !== 'string') {
+        res.status(400).json({ error: 'changes, requestReason and requestJustification are required' });
+        return;
+      }
+
+      const input: CreateEVVRevisionRequestInput = {
+        evvRecordId: req.params.id!,
+        changes: body.changes,
+        requestReason: body.requestReason,
+        requestReasonCode: body.requestReasonCode,
+        requestJustification: body.requestJustification,
+        requestedByName: body.requestedByName ?? req.user!.email,
+        supportingDocuments: body.supportingDocuments,
+        exceptionId: body.exceptionId,
+      };
+
+      const request = await revisionService.requestRevision(input, context);
+      res.status(201).json(request);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * GET /api/evv/geofence-calibrations
+   * Geofence calibration proposals awaiting supervisor review
+   */
+  router.get('/geofence-calibrations', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const context = getUserContext(req);
+      const proposals = await calibrationService.getPendingProposals(context);
+      res.json({ items: proposals, total: proposals.length });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * POST /api/evv/geofences/:geofenceId/calibrations
+   * Propose a calibrated geofence from recent verified clock-ins
+   */
+  router.post('/geofences/:geofenceId/calibrations', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const context = getUserContext(req);
+      const proposal = await calibrationService.proposeCalibration(req.params.geofenceId!, context);
+      if (proposal === null) {
+        // Too few clock-ins, or the current geofence already fits them
+        res.json({ proposal: null });
+        return;
+      }
+      res.status(201).json({ proposal });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * POST /api/evv/geofence-calibrations/:proposalId/approve
+   * Approve a calibration proposal and apply it to the geofence
+   */
+  router.post('/geofence-calibrations/:proposalId/approve', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const context = getUserContext(req);
+      const body = req.body as Partial<ReviewGeofenceCalibrationInput>;
+      const result = await calibrationService.approveProposal(
+        req.params.proposalId!,
+        { notes: body.notes },
+        context
+      );
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * POST /api/evv/geofence-calibrations/:proposalId/reject
+   * Reject a calibration proposal (reason required)
+   */
+  router.post('/geofence-calibrations/:proposalId/reject', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const context = getUserContext(req);
+      const body = req.body as Partial<ReviewGeofenceCalibrationInput>;
+      const proposal = await calibrationService.rejectProposal(
+        req.params.proposalId!,
+        { notes: body.notes },
+        context
+      );
+      res.json(proposal);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * PUT /api/evv/telephony/caregivers/:caregiverId/pin
+   * Set the PIN a caregiver enters when clocking in or out by phone
+   */
+  router.put('/telephony/caregivers/:caregiverId/pin', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const context = getUserContext(req);
+      const body = req.body as Partial<SetTelephonyPinInput>;
+      await telephonyService.setCaregiverPin(req.params.caregiverId!, { pin: body.pin ?? '' }, context);
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  });
+
   /**
    * GET /api/evv/:id
    * Get EVV record by ID
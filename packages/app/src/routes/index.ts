@@ -6,7 +6,7 @@
 
 import { Express, Router } from 'express';
 import { Database, PermissionService, UserRepository, AuthMiddleware } from '@care-commons/core';
-import { createClientRouter, ClientService, ClientRepository } from '@care-commons/client-demographics';
+import { createClientRouter, ClientService, ClientRepository, ClientAuditService } from '@care-commons/client-demographics';
 import { CarePlanService, CarePlanRepository } from '@care-commons/care-plans-tasks';
 import { createCarePlanHandlers } from '@care-commons/care-plans-tasks';
 import { createHealthRouter } from './health';
@@ -30,9 +30,22 @@ import docsRoutes from './docs.routes';
 import { createPayrollRouter } from './payroll';
 import adminRoutes from './admin';
 import { createWhiteLabelRouter } from './white-label';
-import { AuditService, AuditRepository, AuditFindingRepository, CorrectiveActionRepository, createAuditRoutes } from '@care-commons/quality-assurance-audits';
+import {
+  AuditService,
+  AuditTemplateService,
+  AuditRepository,
+  AuditFindingRepository,
+  CorrectiveActionRepository,
+  AuditSampleRepository,
+  AuditChecklistResponseRepository,
+  createAuditRoutes
+} from '@care-commons/quality-assurance-audits';
 import { createSearchRouter } from './search.js';
-import { MedicationService, createMedicationHandlers } from '@care-commons/medication-management';
+import {
+  MedicationService,
+  MedicationScheduleService,
+  createMedicationHandlers,
+} from '@care-commons/medication-management';
 import { IncidentService, createIncidentHandlers } from '@care-commons/incident-reporting';
 import {
   FamilyEngagementService,
@@ -40,15 +53,21 @@ import {
   FamilyMemberRepository,
   NotificationRepository,
   ActivityFeedRepository,
-  MessageRepository
+  MessageRepository,
+  VisitSummaryRepository,
+  ProgressReportRepository,
+  FamilyConsentRepository
 } from '@care-commons/family-engagement';
 import { createVisitRouter } from './visits.js';
+import { createVisitExceptionRouter } from './visit-exceptions.js';
 import pushNotificationRouter from './push-notifications.js';
 import { createEVVRouter } from './evv.js';
 import { createUsageRouter } from './usage.js';
 import { createVerificationRouter } from './verification.js';
 import { createImportRoutes } from './import-routes.js';
 import { createBillingRouter } from './billing.js';
+import { createShiftMatchingRouter } from './shift-matching.js';
+import { createRetentionRouter } from './retention.js';
 
 /**
  * Helper to create router from care plan handlers object
@@ -118,10 +137,35 @@ function createMedicationRouter(handlers: ReturnType<typeof createMedicationHand
   router.patch('/medications/:medicationId', handlers.updateMedication);
   router.post('/medications/:medicationId/discontinue', handlers.discontinueMedication);
 
+  // Drug-allergy and duplicate-therapy check endpoints
+  router.post('/medications/safety-check', handlers.checkMedicationSafety);
+  router.get('/clients/:clientId/medication-safety-overrides', handlers.getClientSafetyOverrides);
+
   // Medication administration endpoints
   router.post('/medications/:medicationId/administer', handlers.recordAdministration);
   router.get('/medications/:medicationId/administrations', handlers.getMedicationAdministrations);
 
+  // PRN follow-up endpoints
+  router.get('/prn-follow-ups', handlers.getPendingPrnFollowUps);
+  router.post('/administrations/:administrationId/prn-follow-up', handlers.recordPrnFollowUp);
+
+  // Controlled substance endpoints
+  router.post('/medications/:medicationId/controlled-stock', handlers.receiveControlledStock);
+  router.post('/medications/:medicationId/controlled-waste', handlers.recordControlledWaste);
+  router.get('/medications/:medicationId/count-ledger', handlers.getControlledSubstanceLedger);
+  router.post('/controlled-substances/handoff-counts', handlers.recordShiftHandoffCount);
+  router.get('/controlled-substances/discrepancies', handlers.getOpenCountDiscrepancies);
+  router.post(
+    '/controlled-substances/discrepancies/:reconciliationId/resolve',
+    handlers.resolveCountDiscrepancy
+  );
+
+  // Dose schedule and MAR endpoints
+  router.get('/clients/:clientId/dose-times', handlers.getClientDoseTimes);
+  router.put('/clients/:clientId/dose-times', handlers.setClientDoseTimes);
+  router.post('/clients/:clientId/dose-schedule', handlers.generateClientSchedule);
+  router.get('/clients/:clientId/mar', handlers.getMarGrid);
+
   return router;
 }
 
@@ -176,6 +220,18 @@ function createFamilyEngagementRouter(handlers: ReturnType<typeof createFamilyEn
   router.get('/family-engagement/messages/family-member/:familyMemberId/threads', handlers.getThreadsForFamilyMember);
   router.get('/family-engagement/messages/threads/:threadId/messages', handlers.getMessagesInThread);
 
+  // Visit Summary & Progress Report endpoints
+  router.get('/family-engagement/visit-summaries/visits/:visitId/draft', handlers.draftVisitSummary);
+  router.post('/family-engagement/visit-summaries', handlers.publishVisitSummary);
+  router.get('/family-engagement/visit-summaries/family-member/:familyMemberId', handlers.getVisitSummariesForFamilyMember);
+  router.post('/family-engagement/progress-reports', handlers.generateProgressReport);
+  router.get('/family-engagement/progress-reports/family-member/:familyMemberId', handlers.getProgressReportsForFamilyMember);
+
+  // Consent endpoints
+  router.post('/family-engagement/consents', handlers.grantConsent);
+  router.get('/family-engagement/consents/client/:clientId', handlers.getConsentsForClient);
+  router.post('/family-engagement/consents/:id/revoke', handlers.revokeConsent);
+
   // Dashboard endpoint
   router.get('/family-engagement/dashboard/family-member/:familyMemberId', handlers.getFamilyDashboard);
 
@@ -246,11 +302,21 @@ export function setupRoutes(app: Express, db: Database): void {
   app.use('/api/caregivers', generalApiLimiter, caregiverRouter);
   console.log('  ✓ Caregiver & Staff Management routes registered (with rate limiting)');
 
+  // Visit exception queue, ahead of the visit routes it is nested under
+  const visitExceptionRouter = createVisitExceptionRouter(db);
+  app.use('/api/visits/exceptions', generalApiLimiter, visitExceptionRouter);
+  console.log('  ✓ Visit Exception routes registered (with rate limiting)');
+
   // Visit & Scheduling routes
   const visitRouter = createVisitRouter(db);
   app.use('/api/visits', generalApiLimiter, visitRouter);
   console.log('  ✓ Visit & Scheduling routes registered (with rate limiting)');
 
+  // Shift Matching routes (open shift marketplace)
+  const shiftMatchingRouter = createShiftMatchingRouter(db);
+  app.use('/api/shift-matching', generalApiLimiter, shiftMatchingRouter);
+  console.log('  ✓ Shift Matching routes registered (with rate limiting)');
+
   // Demo routes (interactive demo system) - includes EVV clock-in/out
   const demoRouter = createDemoRouter(db);
   app.use('/api/demo', evvLimiter, demoRouter);
@@ -288,7 +354,10 @@ export function setupRoutes(app: Express, db: Database): void {
     auditRepository,
     auditFindingRepository,
     correctiveActionRepository,
-    permissionService
+    permissionService,
+    new AuditTemplateService(permissionService),
+    new AuditSampleRepository(db),
+    new AuditChecklistResponseRepository(db)
   );
   const auditRouter = Router();
   createAuditRoutes(auditService, auditRouter, db);
@@ -302,7 +371,7 @@ export function setupRoutes(app: Express, db: Database): void {
 
   // Medication Management routes
   const medicationService = new MedicationService(db);
-  const medicationHandlers = createMedicationHandlers(medicationService);
+  const medicationHandlers = createMedicationHandlers(medicationService, new MedicationScheduleService(db));
   const medicationRouter = createMedicationRouter(medicationHandlers, db);
   app.use('/api', generalApiLimiter, medicationRouter);
   console.log('  ✓ Medication Management routes registered (with rate limiting)');
@@ -319,6 +388,9 @@ export function setupRoutes(app: Express, db: Database): void {
   const notificationRepo = new NotificationRepository(db);
   const activityFeedRepo = new ActivityFeedRepository(db);
   const messageRepo = new MessageRepository(db);
+  const visitSummaryRepo = new VisitSummaryRepository(db);
+  const progressReportRepo = new ProgressReportRepository(db);
+  const consentRepo = new FamilyConsentRepository(db);
   const familyEngagementService = new FamilyEngagementService(
     familyMemberRepo,
     notificationRepo,
@@ -327,7 +399,11 @@ export function setupRoutes(app: Express, db: Database): void {
     permissionService,
     userRepository,
     clientService,
-    carePlanService
+    carePlanService,
+    visitSummaryRepo,
+    progressReportRepo,
+    consentRepo,
+    new ClientAuditService(db)
   );
   const familyEngagementHandlers = createFamilyEngagementHandlers(familyEngagementService);
   const familyEngagementRouter = createFamilyEngagementRouter(familyEngagementHandlers, db);
@@ -365,5 +441,10 @@ export function setupRoutes(app: Express, db: Database): void {
   app.use('/api/billing', generalApiLimiter, billingRouter);
   console.log('  ✓ Billing & Invoicing routes registered (with rate limiting)');
 
+  // Data Retention routes (policies, legal holds, dry runs)
+  const retentionRouter = createRetentionRouter(db);
+  app.use('/api/retention', generalApiLimiter, retentionRouter);
+  console.log('  ✓ Data Retention routes registered (with rate limiting)');
+
   console.log('API routes setup complete\n');
 }
@@ -14,6 +14,7 @@ import {
   PayrollService,
   PayStubGeneratorService,
   PayrollRepository,
+  createEVVRecordProvider,
   CreatePayPeriodInput,
   CompileTimeSheetInput,
   CreatePayRunInput,
@@ -33,7 +34,7 @@ import { requireAuth } from '../middleware/auth-context';
 export function createPayrollRouter(db: Database): Router {
   const router = Router();
   const pool = db.getPool();
-  const payrollService = new PayrollService(pool);
+  const payrollService = new PayrollService(pool, createEVVRecordProvider(db));
   const payStubGenerator = new PayStubGeneratorService();
   const payrollRepository = new PayrollRepository(pool);
 
@@ -0,0 +1,268 @@
+/**
+ * Data retention API routes
+ *
+ * Compliance administration of how long records are kept:
+ * - Retention policies per kind of record and state
+ * - Legal holds on clients, caregivers and incidents
+ * - Dry runs of the purge and the history of every run
+ *
+ * Purges themselves run from scripts/data-retention.ts, on the host that
+ * keeps the archives.
+ */
+
+import { Router, Request, Response, NextFunction } from 'express';
+import {
+  Database,
+  AuthMiddleware,
+  UserContext,
+  ValidationError,
+  LegalHoldService,
+  RetentionPolicyService,
+  RetentionService,
+  RETENTION_ENTITY_TYPES,
+  getPermissionService,
+  type LegalHoldSubjectType,
+  type RetentionEntityType,
+  type StateCode,
+} from '@care-commons/core';
+import { z } from 'zod';
+
+const LEGAL_HOLD_SUBJECT_TYPES: LegalHoldSubjectType[] = ['CLIENT', 'CAREGIVER', 'INCIDENT'];
+
+const SetPolicySchema = z.object({
+  entityType: z.enum(RETENTION_ENTITY_TYPES as [RetentionEntityType, ...RetentionEntityType[]]),
+  stateCode: z.string().length(2).toUpperCase().nullable().optional(),
+  retentionYears: z.number().int().positive(),
+  notes: z.string().max(2000).nullable().optional(),
+});
+
+const PlaceLegalHoldSchema = z.object({
+  subjectType: z.enum(LEGAL_HOLD_SUBJECT_TYPES as [LegalHoldSubjectType, ...LegalHoldSubjectType[]]),
+  subjectId: z.uuid(),
+  reason: z.string().trim().min(1).max(2000),
+  matterReference: z.string().max(200).nullable().optional(),
+});
+
+const ReleaseLegalHoldSchema = z.object({
+  reason: z.string().trim().min(1).max(2000),
+});
+
+const DryRunSchema = z.object({
+  asOf: z.coerce.date().optional(),
+});
+
+/**
+ * Build the service context from the authenticated user
+ */
+function getUserContext(req: Request): UserContext {
+  const user = req.user!;
+  return {
+    userId: user.userId,
+    organizationId: user.organizationId,
+    branchIds: user.branchIds,
+    roles: user.roles,
+    permissions: user.permissions,
+  };
+}
+
+/**
+ * Organization of the signed-in user
+ */
+function requireOrganizationId(req: Request): string {
+  const organizationId = req.user?.organizationId;
+  if (organizationId === undefined || organizationId === '') {
+    throw new ValidationError('An organization is required');
+  }
+  return organizationId;
+}
+
+/**
+ * Parse a request body, reporting every problem at once
+ */
+function parseBody<T>(schema: z.ZodType<T>, body: unknown): T {
+  const result = schema.safeParse(body);
+  if (result.success === false) {
+    throw new ValidationError('Invalid request', { issues: result.error.issues });
+  }
+  return result.data;
+}
+
+/**
+ * Retention is compliance administration; every route needs admin:compliance
+ */
+function requireCompliancePermission(req: Request, res: Response, next: NextFunction): void {
+  if (!getPermissionService().hasPermission(getUserContext(req), 'admin:compliance')) {
+    res.status(403).json({
+      success: false,
+      error: 'Insufficient permissions',
+      code: 'INSUFFICIENT_PERMISSIONS',
+    });
+    return;
+  }
+  next();
+}
+
+export function createRetentionRouter(db: Database): Router {
+  const router = Router();
+  const authMiddleware = new AuthMiddleware(db);
+  const policies = new RetentionPolicyService(db);
+  const legalHolds = new LegalHoldService(db);
+  const retention = new RetentionService(db);
+
+  router.use(authMiddleware.requireAuth, requireCompliancePermission);
+
+  /**
+   * GET /api/retention/policies
+   * Retention periods in force for each kind of record, with the policies behind them
+   */
+  router.get('/policies', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      res.json({ items: await policies.getSchedules(requireOrganizationId(req)) });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * PUT /api/retention/policies
+   * Set the retention period for a kind of record, in every state or one
+   */
+  router.put('/policies', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const input = parseBody(SetPolicySchema, req.body);
+      const policy = await policies.setPolicy(
+        requireOrganizationId(req),
+        {
+          entityType: input.entityType,
+          stateCode: (input.stateCode ?? null) as StateCode | null,
+          retentionYears: input.retentionYears,
+          notes: input.notes ?? null,
+        },
+        getUserContext(req).userId
+      );
+      res.json(policy);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * DELETE /api/retention/policies/:policyId
+   * Fall back to the broader policy or the default
+   */
+  router.delete('/policies/:policyId', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      await policies.deletePolicy(requireOrganizationId(req), req.params['policyId']!);
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * GET /api/retention/legal-holds
+   * Active legal holds; ?includeReleased=true for all of them
+   */
+  router.get('/legal-holds', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const subjectType = typeof req.query['subjectType'] === 'string' ? req.query['subjectType'] : undefined;
+      if (subjectType !== undefined && !LEGAL_HOLD_SUBJECT_TYPES.includes(subjectType as LegalHoldSubjectType)) {
+        throw new ValidationError(`subjectType must be one of ${LEGAL_HOLD_SUBJECT_TYPES.join(', ')}`);
+      }
+
+      const holds = await legalHolds.listLegalHolds(requireOrganizationId(req), {
+        ...(subjectType !== undefined && { subjectType: subjectType as LegalHoldSubjectType }),
+        ...(typeof req.query['subjectId'] === 'string' && { subjectId: req.query['subjectId'] }),
+        includeReleased: req.query['includeReleased'] === 'true',
+      });
+      res.json({ items: holds, total: holds.length });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * POST /api/retention/legal-holds
+   * Place a legal hold on a client, caregiver or incident
+   */
+  router.post('/legal-holds', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const input = parseBody(PlaceLegalHoldSchema, req.body);
+      const hold = await legalHolds.placeLegalHold(
+        requireOrganizationId(req),
+        {
+          subjectType: input.subjectType,
+          subjectId: input.subjectId,
+          reason: input.reason,
+          matterReference: input.matterReference ?? null,
+        },
+        getUserContext(req).userId
+      );
+      res.status(201).json(hold);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * POST /api/retention/legal-holds/:holdId/release
+   * Release a legal hold
+   */
+  router.post('/legal-holds/:holdId/release', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const input = parseBody(ReleaseLegalHoldSchema, req.body);
+      const hold = await legalHolds.releaseLegalHold(requireOrganizationId(req), req.params['holdId']!, {
+        reason: input.reason,
+        releasedBy: getUserContext(req).userId,
+      });
+      res.json(hold);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * POST /api/retention/dry-runs
+   * Report what a purge would delete, as of now or an earlier date
+   */
+  router.post('/dry-runs', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const input = parseBody(DryRunSchema, req.body ?? {});
+      const run = await retention.dryRun(requireOrganizationId(req), {
+        ...(input.asOf !== undefined && { asOf: input.asOf }),
+        startedBy: getUserContext(req).userId,
+      });
+      res.status(201).json(run);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * GET /api/retention/runs
+   * Recent dry runs and purges
+   */
+  router.get('/runs', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const limit = Number.parseInt(typeof req.query['limit'] === 'string' ? req.query['limit'] : '20', 10);
+      const runs = await retention.listRuns(requireOrganizationId(req), Number.isNaN(limit) ? 20 : Math.min(Math.max(limit, 1), 100));
+      res.json({ items: runs, total: runs.length });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * GET /api/retention/runs/:runId
+   * One run with its report and archive files
+   */
+  router.get('/runs/:runId', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      res.json(await retention.getRun(requireOrganizationId(req), req.params['runId']!));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,645 @@
+/**
+ * Shift Matching API routes
+ *
+ * Open shift marketplace for schedulers and caregivers:
+ * - Schedulers post unassigned visits as open shifts, run matching and send proposals
+ * - Caregivers browse and claim open shifts and respond to proposals
+ * - Admins manage matching configurations and expire unanswered proposals
+ */
+
+import { Router, Request, Response, NextFunction } from 'express';
+import {
+  Database,
+  AuthMiddleware,
+  UserContext,
+  PaginationParams,
+  ValidationError,
+  NotFoundError,
+  PermissionError,
+  getPermissionService,
+  getNotificationService,
+} from '@care-commons/core';
+import { ShiftMatchingHandlers } from '@care-commons/shift-matching';
+import type {
+  AssignmentProposal,
+  MatchingConfiguration,
+  MatchingStatus,
+  MatchQuality,
+  OpenShiftFilters,
+  ProposalFilters,
+  ProposalStatus,
+  ShiftPriority,
+} from '@care-commons/shift-matching';
+
+const REJECTION_CATEGORIES = [
+  'TOO_FAR',
+  'TIME_CONFLICT',
+  'PERSONAL_REASON',
+  'PREFER_DIFFERENT_CLIENT',
+  'RATE_TOO_LOW',
+  'ALREADY_BOOKED',
+  'NOT_INTERESTED',
+  'OTHER',
+];
+
+const SHIFT_PRIORITIES: ShiftPriority[] = ['LOW', 'NORMAL', 'HIGH', 'CRITICAL'];
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * Build the service context from the authenticated user
+ */
+function getUserContext(req: Request): UserContext {
+  const user = req.user!;
+  return {
+    userId: user.userId,
+    organizationId: user.organizationId,
+    branchIds: user.branchIds,
+    roles: user.roles,
+    permissions: user.permissions,
+  };
+}
+
+/**
+ * Require a permission, honouring role and resource wildcards (e.g. schedules:*)
+ */
+function requirePermission(permission: string) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (!getPermissionService().hasPermission(getUserContext(req), permission)) {
+      res.status(403).json({
+        success: false,
+        error: 'Insufficient permissions',
+        code: 'INSUFFICIENT_PERMISSIONS',
+      });
+      return;
+    }
+    next();
+  };
+}
+
+function queryString(req: Request, name: string): string | undefined {
+  // eslint-disable-next-line security/detect-object-injection
+  const value = req.query[name];
+  return typeof value === 'string' && value !== '' ? value : undefined;
+}
+
+/**
+ * Comma-separated or repeated query parameter as a list
+ */
+function queryList(req: Request, name: string): string[] | undefined {
+  // eslint-disable-next-line security/detect-object-injection
+  const value = req.query[name];
+  const values = (Array.isArray(value) ? value : [value])
+    .filter((v): v is string => typeof v === 'string')
+    .flatMap((v) => v.split(','))
+    .map((v) => v.trim())
+    .filter((v) => v !== '');
+  return values.length > 0 ? values : undefined;
+}
+
+function queryDate(req: Request, name: string): Date | undefined {
+  const value = queryString(req, name);
+  if (value === undefined) {
+    return undefined;
+  }
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new ValidationError(`Invalid date for ${name}`, { [name]: value });
+  }
+  return date;
+}
+
+function getPagination(req: Request): PaginationParams {
+  const page = Number.parseInt(queryString(req, 'page') ?? '1', 10);
+  const limit = Number.parseInt(queryString(req, 'limit') ?? String(DEFAULT_PAGE_SIZE), 10);
+  return {
+    page: Number.isNaN(page) || page < 1 ? 1 : page,
+    limit: Number.isNaN(limit) ? DEFAULT_PAGE_SIZE : Math.min(Math.max(limit, 1), MAX_PAGE_SIZE),
+  };
+}
+
+function requireBodyString(body: Record<string, unknown>, field: string): string {
+  // eslint-disable-next-line security/detect-object-injection
+  const value = body[field];
+  if (typeof value !== 'string' || value.trim() === '') {
+    throw new ValidationError(`${field} is required`, { field });
+  }
+  return value;
+}
+
+function optionalBodyString(body: Record<string, unknown>, field: string): string | undefined {
+  // eslint-disable-next-line security/detect-object-injection
+  const value = body[field];
+  return typeof value === 'string' ? value : undefined;
+}
+
+export function createShiftMatchingRouter(db: Database): Router {
+  const router = Router();
+  const authMiddleware = new AuthMiddleware(db);
+  const handlers = new ShiftMatchingHandlers(db.getPool(), getNotificationService(db));
+
+  // All routes require authentication with proper JWT verification
+  router.use(authMiddleware.requireAuth);
+
+  /**
+   * Caregiver record linked to the signed-in user
+   */
+  async function requireCaregiverId(context: UserContext): Promise<string> {
+    const caregiverId = await handlers.getCaregiverIdForUser(context);
+    if (caregiverId === null) {
+      throw new PermissionError('No caregiver record is linked to this user', {
+        userId: context.userId,
+      });
+    }
+    return caregiverId;
+  }
+
+  /**
+   * Proposal offered to the signed-in caregiver
+   *
+   * Proposals for other caregivers are reported as not found.
+   */
+  async function requireOwnProposal(
+    proposalId: string,
+    context: UserContext
+  ): Promise<AssignmentProposal> {
+    const caregiverId = await requireCaregiverId(context);
+    const proposal = await handlers.getProposal(proposalId, context);
+    if (proposal?.caregiverId !== caregiverId) {
+      throw new NotFoundError('Proposal not found', { proposalId });
+    }
+    return proposal;
+  }
+
+  // ==========================================================================
+  // OPEN SHIFTS
+  // ==========================================================================
+
+  /**
+   * GET /api/shift-matching/open-shifts
+   * Search open shifts
+   */
+  router.get('/open-shifts', requirePermission('schedules:read'), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const context = getUserContext(req);
+      const isUrgent = queryString(req, 'isUrgent');
+      const dateFrom = queryDate(req, 'dateFrom');
+      const dateTo = queryDate(req, 'dateTo');
+      const priority = queryList(req, 'priority') as ShiftPriority[] | undefined;
+      const matchingStatus = queryList(req, 'matchingStatus') as MatchingStatus[] | undefined;
+
+      const filters: OpenShiftFilters = {
+        ...(queryString(req, 'branchId') !== undefined && { branchId: queryString(req, 'branchId') }),
+        ...(queryString(req, 'clientId') !== undefined && { clientId: queryString(req, 'clientId') }),
+        ...(queryString(req, 'serviceTypeId') !== undefined && { serviceTypeId: queryString(req, 'serviceTypeId') }),
+        ...(dateFrom !== undefined && { dateFrom }),
+        ...(dateTo !== undefined && { dateTo }),
+        ...(priority !== undefined && { priority }),
+        ...(matchingStatus !== undefined && { matchingStatus }),
+        ...(isUrgent !== undefined && { isUrgent: isUrgent === 'true' }),
+      };
+
+      const result = await handlers.searchOpenShifts(filters, getPagination(req), context);
+      res.json({
+        items: result.items,
+        total: result.total,
+        page: result.page,
+        limit: result.limit,
+        hasMore: result.page < result.totalPages,
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * POST /api/shift-matching/open-shifts
+   * Post an unassigned visit as an open shift
+   */
+  router.post('/open-shifts', requirePermission('schedules:create'), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const context = getUserContext(req);
+      const body = req.body as Record<string, unknown>;
+      const visitId = requireBodyString(body, 'visitId');
+      const priority = body['priority'] as ShiftPriority | undefined;
+      if (priority !== undefined && !SHIFT_PRIORITIES.includes(priority)) {
+        throw new ValidationError(`priority must be one of ${SHIFT_PRIORITIES.join(', ')}`);
+      }
+      const fillByDate = optionalBodyString(body, 'fillByDate');
+      if (fillByDate !== undefined && Number.isNaN(new Date(fillByDate).getTime())) {
+        throw new ValidationError('Invalid date for fillByDate', { fillByDate });
+      }
+      const internalNotes = optionalBodyString(body, 'internalNotes');
+
+      const openShift = await handlers.createOpenShift(
+        {
+          visitId,
+          ...(priority !== undefined && { priority }),
+          ...(fillByDate !== undefined && { fillByDate: new Date(fillByDate) }),
+          ...(internalNotes !== undefined && { internalNotes }),
+        },
+        context
+      );
+      res.status(201).json(openShift);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * GET /api/shift-matching/open-shifts/:id
+   * Get an open shift with its proposals
+   */
+  router.get('/open-shifts/:id', requirePermission('schedules:read'), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const context = getUserContext(req);
+      const openShift = await handlers.getOpenShift(req.params['id']!, context);
+      if (openShift === null) {
+        throw new NotFoundError('Open shift not found', { openShiftId: req.params['id'] });
+      }
+
+      // Proposals name the caregivers involved, so only schedulers see them
+      const canAssign = getPermissionService().hasPermission(context, 'schedules:assign');
+      const proposals = canAssign ? await handlers.getProposalsForShift(openShift.id, context) : undefined;
+
+      res.json({ ...openShift, ...(proposals !== undefined && { proposals }) });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * POST /api/shift-matching/open-shifts/:id/match
+   * Run matching, optionally sending proposals to the top candidates
+   */
+  router.post('/open-shifts/:id/match', requirePermission('schedules:assign'), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const context = getUserContext(req);
+      const body = req.body as Record<string, unknown>;
+      const maxCandidates = body['maxCandidates'];
+      if (maxCandidates !== undefined && (typeof maxCandidates !== 'number' || !Number.isInteger(maxCandidates) || maxCandidates < 1)) {
+        throw new ValidationError('maxCandidates must be a positive integer');
+      }
+
+      const result = await handlers.matchOpenShift(
+        req.params['id']!,
+        {
+          ...(typeof body['configurationId'] === 'string' && { configurationId: body['configurationId'] }),
+          ...(maxCandidates !== undefined && { maxCandidates }),
+          autoPropose: body['autoPropose'] === true,
+        },
+        context
+      );
+
+      res.json({
+        items: result.candidates,
+        total: result.candidates.length,
+        openShift: result.openShift,
+        proposalsCreated: result.proposalsCreated,
+        eligibleCount: result.eligibleCount,
+        ineligibleCount: result.ineligibleCount,
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * GET /api/shift-matching/open-shifts/:id/candidates
+   * Preview ranked candidates without sending proposals
+   */
+  router.get('/open-shifts/:id/candidates', requirePermission('schedules:assign'), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const candidates = await handlers.getMatchCandidates(req.params['id']!, getUserContext(req));
+      res.json({ items: candidates, total: candidates.length });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // ==========================================================================
+  // PROPOSALS (SCHEDULER)
+  // ==========================================================================
+
+  /**
+   * GET /api/shift-matching/proposals
+   * Search proposals
+   */
+  router.get('/proposals', requirePermission('schedules:assign'), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const context = getUserContext(req);
+      const dateFrom = queryDate(req, 'dateFrom');
+      const dateTo = queryDate(req, 'dateTo');
+      const proposalStatus = queryList(req, 'proposalStatus') as ProposalStatus[] | undefined;
+      const matchQuality = queryList(req, 'matchQuality') as MatchQuality[] | undefined;
+
+      const filters: ProposalFilters = {
+        ...(queryString(req, 'caregiverId') !== undefined && { caregiverId: queryString(req, 'caregiverId') }),
+        ...(queryString(req, 'openShiftId') !== undefined && { openShiftId: queryString(req, 'openShiftId') }),
+        ...(proposalStatus !== undefined && { proposalStatus }),
+        ...(matchQuality !== undefined && { matchQuality }),
+        ...(dateFrom !== undefined && { proposedDateFrom: dateFrom }),
+        ...(dateTo !== undefined && { proposedDateTo: dateTo }),
+      };
+
+      const result = await handlers.searchProposals(filters, getPagination(req), context);
+      res.json({
+        items: result.items,
+        total: result.total,
+        page: result.page,
+        limit: result.limit,
+        hasMore: result.page < result.totalPages,
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * POST /api/shift-matching/proposals
+   * Propose a shift to a specific caregiver
+   */
+  router.post('/proposals', requirePermission('schedules:assign'), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const context = getUserContext(req);
+      const body = req.body as Record<string, unknown>;
+      const notes = optionalBodyString(body, 'notes');
+
+      const proposal = await handlers.createManualProposal(
+        {
+          openShiftId: requireBodyString(body, 'openShiftId'),
+          caregiverId: requireBodyString(body, 'caregiverId'),
+          proposalMethod: 'MANUAL',
+          sendNotification: body['sendNotification'] !== false,
+          notificationMethod: 'PUSH',
+          urgencyFlag: body['urgencyFlag'] === true,
+          ...(notes !== undefined && { notes }),
+        },
+        context
+      );
+      res.status(201).json(proposal);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * GET /api/shift-matching/proposals/:id
+   * Get a proposal
+   */
+  router.get('/proposals/:id', requirePermission('schedules:assign'), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const proposal = await handlers.getProposal(req.params['id']!, getUserContext(req));
+      if (proposal === null) {
+        throw new NotFoundError('Proposal not found', { proposalId: req.params['id'] });
+      }
+      res.json(proposal);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * POST /api/shift-matching/proposals/:id/respond
+   * Record a caregiver's answer on their behalf (e.g. taken by phone)
+   */
+  router.post('/proposals/:id/respond', requirePermission('schedules:assign'), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const body = req.body as Record<string, unknown>;
+      if (typeof body['accept'] !== 'boolean') {
+        throw new ValidationError('accept must be true or false');
+      }
+      const rejectionReason = optionalBodyString(body, 'rejectionReason');
+      const notes = optionalBodyString(body, 'notes');
+
+      const proposal = await handlers.respondToProposal(
+        req.params['id']!,
+        {
+          proposalId: req.params['id']!,
+          accept: body['accept'],
+          responseMethod: 'PHONE',
+          ...(rejectionReason !== undefined && { rejectionReason }),
+          ...(notes !== undefined && { notes }),
+        },
+        getUserContext(req)
+      );
+      res.json(proposal);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * POST /api/shift-matching/proposals/:id/withdraw
+   * Withdraw an unanswered proposal
+   */
+  router.post('/proposals/:id/withdraw', requirePermission('schedules:assign'), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const proposal = await handlers.withdrawProposal(req.params['id']!, getUserContext(req));
+      res.json(proposal);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * GET /api/shift-matching/metrics
+   * Matching performance for a period (default: last 30 days)
+   */
+  router.get('/metrics', requirePermission('schedules:assign'), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const dateTo = queryDate(req, 'dateTo') ?? new Date();
+      const dateFrom = queryDate(req, 'dateFrom') ?? new Date(dateTo.getTime() - 30 * 24 * 60 * 60 * 1000);
+
+      const metrics = await handlers.getMatchingMetrics(dateFrom, dateTo, getUserContext(req));
+      res.json(metrics);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // ==========================================================================
+  // CAREGIVER SELF-SERVICE
+  // ==========================================================================
+
+  /**
+   * GET /api/shift-matching/caregiver/shifts/available
+   * Open shifts the signed-in caregiver is eligible to claim
+   */
+  router.get('/caregiver/shifts/available', requirePermission('schedules:read'), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const context = getUserContext(req);
+      const caregiverId = await requireCaregiverId(context);
+      const shifts = await handlers.getAvailableShifts(caregiverId, context);
+      res.json({ items: shifts, total: shifts.length });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * POST /api/shift-matching/caregiver/shifts/:id/claim
+   * Claim an open shift
+   */
+  router.post('/caregiver/shifts/:id/claim', requirePermission('schedules:read'), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const context = getUserContext(req);
+      const caregiverId = await requireCaregiverId(context);
+      const proposal = await handlers.claimShift(req.params['id']!, caregiverId, context);
+      res.status(201).json(proposal);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * GET /api/shift-matching/caregiver/proposals
+   * Shift offers sent to the signed-in caregiver
+   */
+  router.get('/caregiver/proposals', requirePermission('schedules:read'), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const context = getUserContext(req);
+      const caregiverId = await requireCaregiverId(context);
+      const proposals = await handlers.getCaregiverProposals(caregiverId, queryList(req, 'status'), context);
+      res.json({ items: proposals, total: proposals.length });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * POST /api/shift-matching/caregiver/proposals/:id/view
+   * Mark a shift offer as viewed
+   */
+  router.post('/caregiver/proposals/:id/view', requirePermission('schedules:read'), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const context = getUserContext(req);
+      const proposal = await requireOwnProposal(req.params['id']!, context);
+      res.json(await handlers.markProposalViewed(proposal.id, context));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * POST /api/shift-matching/caregiver/proposals/:id/accept
+   * Accept a shift offer
+   */
+  router.post('/caregiver/proposals/:id/accept', requirePermission('schedules:read'), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const context = getUserContext(req);
+      const proposal = await requireOwnProposal(req.params['id']!, context);
+      const notes = optionalBodyString(req.body as Record<string, unknown>, 'notes');
+      res.json(await handlers.acceptProposal(proposal.id, notes, context));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * POST /api/shift-matching/caregiver/proposals/:id/reject
+   * Decline a shift offer
+   */
+  router.post('/caregiver/proposals/:id/reject', requirePermission('schedules:read'), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const context = getUserContext(req);
+      const body = req.body as Record<string, unknown>;
+      const rejectionCategory = requireBodyString(body, 'rejectionCategory');
+      if (!REJECTION_CATEGORIES.includes(rejectionCategory)) {
+        throw new ValidationError(`rejectionCategory must be one of ${REJECTION_CATEGORIES.join(', ')}`);
+      }
+
+      const proposal = await requireOwnProposal(req.params['id']!, context);
+      res.json(
+        await handlers.rejectProposal(
+          proposal.id,
+          optionalBodyString(body, 'rejectionReason') ?? '',
+          rejectionCategory,
+          optionalBodyString(body, 'notes'),
+          context
+        )
+      );
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // ==========================================================================
+  // CONFIGURATION & ADMIN
+  // ==========================================================================
+
+  /**
+   * GET /api/shift-matching/configurations/default
+   * Default matching configuration for the organization or a branch
+   */
+  router.get('/configurations/default', requirePermission('schedules:assign'), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const context = getUserContext(req);
+      const config = await handlers.getDefaultConfiguration(
+        context.organizationId!,
+        queryString(req, 'branchId'),
+        context
+      );
+      if (config === null) {
+        throw new NotFoundError('No default matching configuration');
+      }
+      res.json(config);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * POST /api/shift-matching/configurations
+   * Create a matching configuration
+   */
+  router.post('/configurations', requirePermission('settings:update'), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const body = req.body as Record<string, unknown>;
+      requireBodyString(body, 'name');
+      if (typeof body['weights'] !== 'object' || body['weights'] === null) {
+        throw new ValidationError('weights is required');
+      }
+
+      const config = await handlers.createConfiguration(
+        body as unknown as Omit<MatchingConfiguration, 'id' | 'createdAt' | 'updatedAt' | 'version'>,
+        getUserContext(req)
+      );
+      res.status(201).json(config);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * PATCH /api/shift-matching/configurations/:id
+   * Update a matching configuration
+   */
+  router.patch('/configurations/:id', requirePermission('settings:update'), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const config = await handlers.updateConfiguration(
+        req.params['id']!,
+        req.body as Partial<MatchingConfiguration>,
+        getUserContext(req)
+      );
+      res.json(config);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * POST /api/shift-matching/admin/expire-stale-proposals
+   * Expire unanswered proposals now instead of waiting for the worker
+   */
+  router.post('/admin/expire-stale-proposals', requirePermission('schedules:assign'), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      res.json(await handlers.expireStaleProposals(getUserContext(req)));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,258 @@
+/**
+ * Visit exception API routes
+ *
+ * Coordinators work the visit exception queue: list, acknowledge, resolve
+ * and escalate exceptions raised by the detector or reported by staff.
+ * Mounted at /api/visits/exceptions, ahead of the visit routes.
+ */
+
+import { Router, Request, Response, NextFunction } from 'express';
+import {
+  Database,
+  AuthMiddleware,
+  UserContext,
+  PaginationParams,
+  isValidUUID,
+  getNotificationService,
+} from '@care-commons/core';
+import {
+  VisitExceptionRepository,
+  VisitExceptionService,
+  VisitExceptionFilters,
+} from '@care-commons/scheduling-visits';
+
+const DEFAULT_PAGE_SIZE = 25;
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * Build UserContext from authenticated request
+ */
+function getUserContext(req: Request): UserContext {
+  const user = req.user!;
+  return {
+    userId: user.userId,
+    organizationId: user.organizationId,
+    branchIds: user.branchIds,
+    roles: user.roles,
+    permissions: user.permissions,
+  };
+}
+
+/**
+ * Parse a comma-separated query parameter into a list
+ */
+function parseListParam<T extends string>(value: unknown): T[] | undefined {
+  if (typeof value !== 'string' || value === '') {
+    return undefined;
+  }
+  return value.split(',').map(item => item.trim()).filter(item => item !== '') as T[];
+}
+
+/**
+ * Parse an optional ISO date query parameter
+ */
+function parseDateParam(value: unknown): Date | undefined {
+  if (typeof value !== 'string' || value === '') {
+    return undefined;
+  }
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * Build exception queue filters from query parameters, leaving out
+ * anything not supplied
+ */
+function parseExceptionFilters(query: Request['query']): VisitExceptionFilters {
+  const filters: VisitExceptionFilters = {};
+  const single = (value: unknown): string | undefined =>
+    typeof value === 'string' && value !== '' ? value : undefined;
+
+  const branchId = single(query['branch_id']);
+  const visitId = single(query['visit_id']);
+  const caregiverId = single(query['caregiver_id']);
+  const status = parseListParam<NonNullable<VisitExceptionFilters['status']>[number]>(query['status']);
+  const severity = parseListParam<NonNullable<VisitExceptionFilters['severity']>[number]>(query['severity']);
+  const exceptionType = parseListParam<NonNullable<VisitExceptionFilters['exceptionType']>[number]>(query['type']);
+  const dateFrom = parseDateParam(query['start_date']);
+  const dateTo = parseDateParam(query['end_date']);
+
+  if (branchId !== undefined) filters.branchIds = [branchId];
+  if (visitId !== undefined) filters.visitId = visitId;
+  if (caregiverId !== undefined) filters.caregiverId = caregiverId;
+  if (status !== undefined) filters.status = status;
+  if (severity !== undefined) filters.severity = severity;
+  if (exceptionType !== undefined) filters.exceptionType = exceptionType;
+  if (query['automatic'] === 'true' || query['automatic'] === 'false') {
+    filters.automatic = query['automatic'] === 'true';
+  }
+  if (dateFrom !== undefined) filters.dateFrom = dateFrom;
+  if (dateTo !== undefined) filters.dateTo = dateTo;
+
+  return filters;
+}
+
+/**
+ * Page and page size from query parameters; bad values fall back to the
+ * defaults and the page size is capped
+ */
+function getPagination(query: Request['query']): PaginationParams {
+  const page = typeof query['page'] === 'string' ? Number.parseInt(query['page'], 10) : Number.NaN;
+  const limit = typeof query['limit'] === 'string' ? Number.parseInt(query['limit'], 10) : Number.NaN;
+  return {
+    page: Number.isNaN(page) || page < 1 ? 1 : page,
+    limit: Number.isNaN(limit) ? DEFAULT_PAGE_SIZE : Math.min(Math.max(limit, 1), MAX_PAGE_SIZE),
+  };
+}
+
+export function createVisitExceptionRouter(db: Database): Router {
+  const router = Router();
+  const authMiddleware = new AuthMiddleware(db);
+
+  const exceptionService = new VisitExceptionService(
+    new VisitExceptionRepository(db.getPool()),
+    getNotificationService(db)
+  );
+
+  // All routes require authentication with proper JWT verification
+  router.use(authMiddleware.requireAuth);
+
+  /**
+   * GET /api/visits/exceptions
+   * Visit exception queue, most severe first
+   *
+   * Query params:
+   * - status, severity, type: comma-separated lists
+   * - branch_id, visit_id, caregiver_id: UUID filters
+   * - automatic: true for detector-raised exceptions only, false for staff-reported
+   * - start_date, end_date: detection date range
+   * - page, limit: pagination (default 1 and 25, at most 100 per page)
+   *
+   * Returns: Paginated exceptions
+   */
+  router.get('/', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const result = await exceptionService.getExceptions(
+        parseExceptionFilters(req.query),
+        getPagination(req.query),
+        getUserContext(req)
+      );
+
+      res.json({
+        success: true,
+        data: result.items,
+        meta: {
+          total: result.total,
+          page: result.page,
+          limit: result.limit,
+          totalPages: result.totalPages,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * GET /api/visits/exceptions/:exceptionId
+   * Get a single visit exception
+   */
+  router.get('/:exceptionId', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const exception = await exceptionService.getException(req.params['exceptionId']!, getUserContext(req));
+      res.json({ success: true, data: exception });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * POST /api/visits/exceptions/:exceptionId/acknowledge
+   * Take ownership of an exception, which stops automatic escalation
+   */
+  router.post('/:exceptionId/acknowledge', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const exception = await exceptionService.acknowledgeException(req.params['exceptionId']!, getUserContext(req));
+      res.json({ success: true, data: exception });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * POST /api/visits/exceptions/:exceptionId/resolve
+   * Resolve an exception
+   *
+   * Body:
+   * - resolution: string (required) - what was done
+   * - requiresFollowup: boolean (optional)
+   * - followupAssignedTo: UUID (optional)
+   */
+  router.post('/:exceptionId/resolve', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { resolution, requiresFollowup, followupAssignedTo } = req.body;
+
+      if (typeof resolution !== 'string' || resolution.trim() === '') {
+        res.status(400).json({
+          success: false,
+          error: 'resolution is required',
+        });
+        return;
+      }
+
+      const exception = await exceptionService.resolveException(
+        req.params['exceptionId']!,
+        {
+          resolution,
+          ...(typeof requiresFollowup === 'boolean' && { requiresFollowup }),
+          ...(typeof followupAssignedTo === 'string' && followupAssignedTo !== '' && { followupAssignedTo }),
+        },
+        getUserContext(req)
+      );
+      res.json({ success: true, data: exception });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * POST /api/visits/exceptions/:exceptionId/escalate
+   * Escalate an exception to another user, who is notified
+   *
+   * Body:
+   * - escalatedTo: UUID (required) - user to escalate to
+   * - escalationReason: string (required)
+   */
+  router.post('/:exceptionId/escalate', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { escalatedTo, escalationReason } = req.body;
+
+      if (typeof escalatedTo !== 'string' || !isValidUUID(escalatedTo)) {
+        res.status(400).json({
+          success: false,
+          error: 'escalatedTo must be a valid user ID',
+        });
+        return;
+      }
+
+      if (typeof escalationReason !== 'string' || escalationReason.trim() === '') {
+        res.status(400).json({
+          success: false,
+          error: 'escalationReason is required',
+        });
+        return;
+      }
+
+      const exception = await exceptionService.escalateException(
+        req.params['exceptionId']!,
+        { escalatedTo, escalationReason },
+        getUserContext(req)
+      );
+      res.json({ success: true, data: exception });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  return router;
+}
@@ -5,9 +5,13 @@
  */
 
 import { Router, Request, Response, NextFunction } from 'express';
-import { Database, isValidUUID } from '@care-commons/core';
+import { Database, isValidUUID, getNotificationService } from '@care-commons/core';
 import { requireAuth } from '../middleware/auth-context.js';
-import { ScheduleRepository } from '@care-commons/scheduling-visits';
+import {
+  ScheduleRepository,
+  AuthorizationForecastRepository,
+  AuthorizationForecastService,
+} from '@care-commons/scheduling-visits';
 
 /**
  * Validates date range parameters for calendar/list endpoints
@@ -74,6 +78,11 @@ function validateDateRangeParams(
 export function createVisitRouter(db: Database): Router {
   const router = Router();
 
+  const forecastService = new AuthorizationForecastService(
+    new AuthorizationForecastRepository(db.getPool()),
+    getNotificationService(db)
+  );
+
   // All routes require authentication
   router.use(requireAuth);
 
@@ -283,6 +292,32 @@ export function createVisitRouter(db: Database): Router {
     }
   });
 
+  /**
+   * GET /api/visits/clients/:clientId/authorization-forecast
+   * Forecast a client's service authorizations from their scheduled visits
+   *
+   * Returns: Per authorization, the units scheduled visits will use, the
+   * projected remaining units and low-unit and expiration flags, plus
+   * scheduled visits no authorization covers
+   */
+  router.get('/clients/:clientId/authorization-forecast', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const clientId = req.params['clientId']!;
+      if (!isValidUUID(clientId)) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid client ID format',
+        });
+        return;
+      }
+
+      const forecast = await forecastService.getClientForecast(clientId, req.userContext!);
+      res.json({ success: true, data: forecast });
+    } catch (error) {
+      next(error);
+    }
+  });
+
   /**
    * PUT /api/visits/:id/assign
    * Assign a caregiver to a visit
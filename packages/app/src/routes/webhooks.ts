@@ -1,11 +1,27 @@
 /**
  * Webhooks Routes
  * 
- * Handles incoming webhooks from external services (Stripe, etc.)
+ * Handles incoming webhooks from external services (Stripe, telephony IVR, etc.)
  */
 
 import express, { Request, Response } from 'express';
 import { getDatabase, BillingRepository, createEmailService, createStripeService } from '@care-commons/core';
+import { createVisitProvider } from '@care-commons/scheduling-visits';
+import {
+  EVVRepository,
+  EVVExceptionQueueRepository,
+  EVVExceptionQueueService,
+  EVVService,
+  EVVValidator,
+  IntegrationService,
+  TelephonyRepository,
+  TelephonyIVRService,
+  createClientProvider,
+  createCaregiverProvider,
+  parseIVRWebhookInput,
+  renderIVRResponse,
+  verifyIVRWebhookSignature,
+} from '@care-commons/time-tracking-evv';
 
 const router = express.Router();
 
@@ -289,4 +305,102 @@ async function handleTrialWillEnd(
   // Future: Send trial ending reminder email
 }
 
+/**
+ * Telephony IVR webhook handler
+ *
+ * Each step of a phone clock-in/out call is posted here by the telephony
+ * provider; the response tells the provider what to say and collect next.
+ *
+ * @swagger
+ * /webhooks/ivr:
+ *   post:
+ *     summary: Handle telephony IVR call steps
+ *     description: Phone clock-in/out for caregivers calling from a client's registered phone
+ *     tags: [Webhooks]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/x-www-form-urlencoded:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               CallSid:
+ *                 type: string
+ *               From:
+ *                 type: string
+ *               To:
+ *                 type: string
+ *               Digits:
+ *                 type: string
+ *               CallStatus:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: TwiML-style XML instructions
+ *       400:
+ *         description: Missing call parameters
+ *       401:
+ *         description: Invalid webhook signature
+ *       503:
+ *         description: IVR webhook not configured
+ */
+router.post('/ivr', async (req: Request, res: Response) => {
+  const secret = process.env.IVR_WEBHOOK_SECRET;
+  if (secret === undefined || secret === '') {
+    console.error('[Webhook] IVR_WEBHOOK_SECRET is not set');
+    return res.status(503).json({ error: 'IVR webhook not configured' });
+  }
+  if (process.env.TELEPHONY_PIN_SECRET === undefined || process.env.TELEPHONY_PIN_SECRET === '') {
+    console.error('[Webhook] TELEPHONY_PIN_SECRET is not set');
+    return res.status(503).json({ error: 'IVR webhook not configured' });
+  }
+
+  const signature = req.headers['x-ivr-signature'] ?? req.headers['x-twilio-signature'];
+  if (typeof signature !== 'string') {
+    return res.status(400).json({ error: 'Missing IVR signature header' });
+  }
+
+  // Providers sign the exact URL they were configured with, which differs
+  // from the one seen here when running behind a proxy
+  const params = (req.body ?? {}) as Record<string, unknown>;
+  const url = process.env.IVR_WEBHOOK_URL ?? `${req.protocol}://${req.get('host')}${req.originalUrl}`;
+  if (!verifyIVRWebhookSignature(secret, url, params, signature)) {
+    console.error('[Webhook] Invalid IVR signature');
+    return res.status(401).json({ error: 'Invalid signature' });
+  }
+
+  const input = parseIVRWebhookInput(params);
+  if (input === null) {
+    return res.status(400).json({ error: 'Missing CallSid, From or To' });
+  }
+
+  try {
+    const db = getDatabase();
+    const visitProvider = createVisitProvider(db.getPool(), db);
+    const evvService = new EVVService(
+      new EVVRepository(db),
+      new IntegrationService(db),
+      visitProvider,
+      createClientProvider(db),
+      createCaregiverProvider(db),
+      db,
+      new EVVValidator(),
+      new EVVExceptionQueueService(new EVVExceptionQueueRepository(db))
+    );
+    const ivrService = new TelephonyIVRService(new TelephonyRepository(db), evvService, visitProvider);
+
+    const response = await ivrService.handleCall(input);
+    return res.type('text/xml').send(renderIVRResponse(response));
+  } catch (error) {
+    console.error('[Webhook] Error processing IVR webhook:', error);
+    // The caller is still on the line: apologise rather than leave them in silence
+    return res.type('text/xml').send(renderIVRResponse({
+      instructions: [
+        { verb: 'SAY', text: 'Sorry, we are unable to take your call right now. Please try again later.' },
+        { verb: 'HANGUP' },
+      ],
+    }));
+  }
+});
+
 export default router;
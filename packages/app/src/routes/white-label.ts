@@ -10,6 +10,11 @@ import {
   BrandingRepository,
   FeatureFlagRepository,
   WhiteLabelService,
+  EmailTemplateRepository,
+  EmailTemplateService,
+  createEmailService,
+  DomainMappingRepository,
+  DomainMappingService,
 } from '@care-commons/core';
 import { z } from 'zod';
 
@@ -65,6 +70,63 @@ export function createWhiteLabelRouter(db: Database): Router {
     dependsOn: z.array(z.string()).optional(),
     conflictsWith: z.array(z.string()).optional(),
   });
+
+  const templateVariablesSchema = z.record(
+    z.string(),
+    z.union([z.string(), z.number(), z.boolean(), z.null()])
+  );
+
+  const emailAttachmentSchema = z.object({
+    filename: z.string().min(1),
+    contentType: z.string().min(1),
+    url: z.string().url().optional(),
+    content: z.string().optional(),
+    inline: z.boolean().optional(),
+    cid: z.string().optional(),
+  });
+
+  const emailTemplateContentSchema = z.object({
+    subject: z.string().min(1).max(500),
+    bodyText: z.string().min(1),
+    bodyHtml: z.string().optional(),
+    previewText: z.string().max(200).optional(),
+    availableVariables: z.array(z.string()).optional(),
+    defaultValues: z.record(z.string(), z.string()).optional(),
+    customCss: z.string().optional(),
+    useOrgBranding: z.boolean().optional(),
+  });
+
+  const createEmailTemplateSchema = emailTemplateContentSchema.extend({
+    templateKey: z.string().min(1).max(100),
+    templateName: z.string().min(1).max(200),
+    description: z.string().optional(),
+    fromName: z.string().optional(),
+    fromEmail: z.string().email().optional(),
+    replyToEmail: z.string().email().optional(),
+    attachments: z.array(emailAttachmentSchema).optional(),
+    language: z.string().min(2).max(10).optional(),
+    locale: z.string().min(2).max(10).optional(),
+    status: z.enum(['DRAFT', 'ACTIVE', 'ARCHIVED']).optional(),
+  });
+
+  const previewEmailTemplateSchema = emailTemplateContentSchema.extend({
+    variables: templateVariablesSchema.optional(),
+  });
+
+  const createDomainSchema = z.object({
+    domain: z.string().min(3).max(253),
+    domainType: z.enum(['SUBDOMAIN', 'CUSTOM_DOMAIN']),
+    isPrimary: z.boolean().optional(),
+    forceHttps: z.boolean().optional(),
+    includeWww: z.boolean().optional(),
+    autoRenewSsl: z.boolean().optional(),
+  });
+
+  const testEmailSchema = z.object({
+    testRecipient: z.string().email(),
+    testVariables: templateVariablesSchema.optional(),
+    notes: z.string().optional(),
+  });
    
 
   // Helper to get service instances
@@ -74,6 +136,18 @@ export function createWhiteLabelRouter(db: Database): Router {
     return new WhiteLabelService(brandingRepo, featureFlagRepo);
   }
 
+  function getDomainMappingService(): DomainMappingService {
+    return new DomainMappingService(new DomainMappingRepository(db), new BrandingRepository(db));
+  }
+
+  function getEmailTemplateService(): EmailTemplateService {
+    return new EmailTemplateService(
+      new EmailTemplateRepository(db),
+      new BrandingRepository(db),
+      createEmailService()
+    );
+  }
+
   /**
    * Get organization branding
    * @route GET /api/white-label/branding
@@ -99,14 +173,15 @@ export function createWhiteLabelRouter(db: Database): Router {
     asyncHandler(async (req: Request, res: Response) => {
       const service = getWhiteLabelService();
 
-      // Allow unauthenticated access for theme (for login page)
-      if (req.user?.organizationId === undefined) {
+      // Allow unauthenticated access for theme (for login page); on a custom
+      // domain the organization comes from the Host header
+      const organizationId = req.user?.organizationId ?? req.tenant?.organizationId;
+      if (organizationId === undefined) {
         const defaultTheme = await service.getCompiledTheme('00000000-0000-0000-0000-000000000000');
         res.json(defaultTheme);
         return;
       }
 
-      const organizationId = req.user.organizationId;
       const theme = await service.getCompiledTheme(organizationId);
       res.json(theme);
     })
@@ -271,6 +346,272 @@ export function createWhiteLabelRouter(db: Database): Router {
     })
   );
 
+  /**
+   * List the organization's domains
+   * @route GET /api/white-label/domains
+   */
+  router.get(
+    '/domains',
+    authMiddleware.requireAuth,
+    authMiddleware.requireRole(['ORG_ADMIN', 'SUPER_ADMIN']),
+    asyncHandler(async (req: Request, res: Response) => {
+      const service = getDomainMappingService();
+      const organizationId = req.user!.organizationId;
+
+      const domains = await service.listDomains(organizationId);
+      res.json(domains);
+    })
+  );
+
+  /**
+   * Add a domain; the response includes the DNS records to create
+   * @route POST /api/white-label/domains
+   */
+  router.post(
+    '/domains',
+    authMiddleware.requireAuth,
+    authMiddleware.requireRole(['ORG_ADMIN', 'SUPER_ADMIN']),
+    asyncHandler(async (req: Request, res: Response) => {
+      const service = getDomainMappingService();
+      const organizationId = req.user!.organizationId;
+      const userId = req.user!.userId;
+
+      const validatedData = createDomainSchema.parse(req.body);
+      const result = await service.addDomain(organizationId, validatedData, userId);
+
+      res.status(201).json(result);
+    })
+  );
+
+  /**
+   * DNS setup instructions for a domain
+   * @route GET /api/white-label/domains/:id/instructions
+   */
+  router.get(
+    '/domains/:id/instructions',
+    authMiddleware.requireAuth,
+    authMiddleware.requireRole(['ORG_ADMIN', 'SUPER_ADMIN']),
+    asyncHandler(async (req: Request, res: Response) => {
+      const service = getDomainMappingService();
+      const organizationId = req.user!.organizationId;
+
+      const domain = await service.getDomain(organizationId, req.params.id as string);
+      res.json(service.getInstructions(domain));
+    })
+  );
+
+  /**
+   * Check the domain's DNS TXT record and activate it when it matches
+   * @route POST /api/white-label/domains/:id/verify
+   */
+  router.post(
+    '/domains/:id/verify',
+    authMiddleware.requireAuth,
+    authMiddleware.requireRole(['ORG_ADMIN', 'SUPER_ADMIN']),
+    asyncHandler(async (req: Request, res: Response) => {
+      const service = getDomainMappingService();
+      const organizationId = req.user!.organizationId;
+      const userId = req.user!.userId;
+
+      const result = await service.verifyDomain(organizationId, req.params.id as string, userId);
+      res.json(result);
+    })
+  );
+
+  /**
+   * Remove a domain
+   * @route DELETE /api/white-label/domains/:id
+   */
+  router.delete(
+    '/domains/:id',
+    authMiddleware.requireAuth,
+    authMiddleware.requireRole(['ORG_ADMIN', 'SUPER_ADMIN']),
+    asyncHandler(async (req: Request, res: Response) => {
+      const service = getDomainMappingService();
+      const organizationId = req.user!.organizationId;
+
+      await service.removeDomain(organizationId, req.params.id as string);
+      res.status(204).send();
+    })
+  );
+
+  /**
+   * List the organization's email templates and system defaults
+   * @route GET /api/white-label/email-templates
+   */
+  router.get(
+    '/email-templates',
+    authMiddleware.requireAuth,
+    authMiddleware.requireRole(['ORG_ADMIN', 'SUPER_ADMIN']),
+    asyncHandler(async (req: Request, res: Response) => {
+      const service = getEmailTemplateService();
+      const organizationId = req.user!.organizationId;
+
+      const filters = z
+        .object({
+          templateKey: z.string().optional(),
+          status: z.enum(['DRAFT', 'ACTIVE', 'ARCHIVED']).optional(),
+          language: z.string().optional(),
+        })
+        .parse(req.query);
+      const templates = await service.listTemplates(organizationId, filters);
+
+      res.json(templates);
+    })
+  );
+
+  /**
+   * Preview unsaved template content
+   * @route POST /api/white-label/email-templates/preview
+   */
+  router.post(
+    '/email-templates/preview',
+    authMiddleware.requireAuth,
+    authMiddleware.requireRole(['ORG_ADMIN', 'SUPER_ADMIN']),
+    asyncHandler(async (req: Request, res: Response) => {
+      const service = getEmailTemplateService();
+      const organizationId = req.user!.organizationId;
+
+      const validatedData = previewEmailTemplateSchema.parse(req.body);
+      const preview = await service.previewDraft(organizationId, validatedData);
+
+      res.json(preview);
+    })
+  );
+
+  /**
+   * Get an email template
+   * @route GET /api/white-label/email-templates/:id
+   */
+  router.get(
+    '/email-templates/:id',
+    authMiddleware.requireAuth,
+    authMiddleware.requireRole(['ORG_ADMIN', 'SUPER_ADMIN']),
+    asyncHandler(async (req: Request, res: Response) => {
+      const service = getEmailTemplateService();
+      const organizationId = req.user!.organizationId;
+
+      const template = await service.getTemplate(organizationId, req.params.id as string);
+      res.json(template);
+    })
+  );
+
+  /**
+   * Create an email template. Creating it as ACTIVE archives the
+   * organization's previous active template for the same key.
+   * @route POST /api/white-label/email-templates
+   */
+  router.post(
+    '/email-templates',
+    authMiddleware.requireAuth,
+    authMiddleware.requireRole(['ORG_ADMIN', 'SUPER_ADMIN']),
+    asyncHandler(async (req: Request, res: Response) => {
+      const service = getEmailTemplateService();
+      const organizationId = req.user!.organizationId;
+      const userId = req.user!.userId;
+
+      const validatedData = createEmailTemplateSchema.parse(req.body);
+      const template = await service.createTemplate(organizationId, validatedData, userId);
+
+      res.status(201).json(template);
+    })
+  );
+
+  /**
+   * Update an email template
+   * @route PATCH /api/white-label/email-templates/:id
+   */
+  router.patch(
+    '/email-templates/:id',
+    authMiddleware.requireAuth,
+    authMiddleware.requireRole(['ORG_ADMIN', 'SUPER_ADMIN']),
+    asyncHandler(async (req: Request, res: Response) => {
+      const service = getEmailTemplateService();
+      const organizationId = req.user!.organizationId;
+      const userId = req.user!.userId;
+
+      const validatedData = createEmailTemplateSchema
+        .omit({ templateKey: true })
+        .partial()
+        .parse(req.body);
+      const template = await service.updateTemplate(
+        organizationId,
+        req.params.id as string,
+        validatedData,
+        userId
+      );
+
+      res.json(template);
+    })
+  );
+
+  /**
+   * Archive an email template; the system default applies again
+   * @route DELETE /api/white-label/email-templates/:id
+   */
+  router.delete(
+    '/email-templates/:id',
+    authMiddleware.requireAuth,
+    authMiddleware.requireRole(['ORG_ADMIN', 'SUPER_ADMIN']),
+    asyncHandler(async (req: Request, res: Response) => {
+      const service = getEmailTemplateService();
+      const organizationId = req.user!.organizationId;
+      const userId = req.user!.userId;
+
+      await service.archiveTemplate(organizationId, req.params.id as string, userId);
+      res.status(204).send();
+    })
+  );
+
+  /**
+   * Render a saved template with sample variables
+   * @route POST /api/white-label/email-templates/:id/preview
+   */
+  router.post(
+    '/email-templates/:id/preview',
+    authMiddleware.requireAuth,
+    authMiddleware.requireRole(['ORG_ADMIN', 'SUPER_ADMIN']),
+    asyncHandler(async (req: Request, res: Response) => {
+      const service = getEmailTemplateService();
+      const organizationId = req.user!.organizationId;
+
+      const { variables } = z
+        .object({ variables: templateVariablesSchema.optional() })
+        .parse(req.body ?? {});
+      const preview = await service.previewTemplate(
+        organizationId,
+        req.params.id as string,
+        variables
+      );
+
+      res.json(preview);
+    })
+  );
+
+  /**
+   * Send a template to a test recipient
+   * @route POST /api/white-label/email-templates/:id/test
+   */
+  router.post(
+    '/email-templates/:id/test',
+    authMiddleware.requireAuth,
+    authMiddleware.requireRole(['ORG_ADMIN', 'SUPER_ADMIN']),
+    asyncHandler(async (req: Request, res: Response) => {
+      const service = getEmailTemplateService();
+      const organizationId = req.user!.organizationId;
+      const userId = req.user!.userId;
+
+      const validatedData = testEmailSchema.parse(req.body);
+      const rendered = await service.sendTestEmail(
+        organizationId,
+        { ...validatedData, templateId: req.params.id as string },
+        userId
+      );
+
+      res.json({ sent: true, recipient: validatedData.testRecipient, rendered });
+    })
+  );
+
   return router;
 }
 
@@ -25,7 +25,29 @@ import { errorHandler, notFoundHandler } from './middleware/error-handler';
 import { securityHeaders } from './middleware/security-headers';
 import { configureCsrfProtection } from './middleware/csrf';
 import { generalApiLimiter } from './middleware/rate-limit';
-import { initializeDatabase, getDatabase } from '@care-commons/core';
+import { initializeDatabase, getDatabase, createEmailService, TenantResolutionMiddleware } from '@care-commons/core';
+import { ReportSchedulerService, initializeReportSchedulerWorker } from '@care-commons/analytics-reporting';
+import { ShiftMatchingService, initializeProposalExpirationWorker } from '@care-commons/shift-matching';
+import {
+  VisitExceptionRepository,
+  VisitExceptionService,
+  initializeVisitExceptionWorker,
+  AuthorizationForecastRepository,
+  AuthorizationForecastService,
+  initializeAuthorizationAlertWorker,
+} from '@care-commons/scheduling-visits';
+import {
+  EVVRepository,
+  EVVExceptionQueueRepository,
+  EVVExceptionQueueService,
+  EVVRevisionRepository,
+  EVVRevisionService,
+  GeofenceCalibrationRepository,
+  GeofenceCalibrationService,
+  initializeGeofenceCalibrationWorker,
+  initializeEVVExceptionSlaWorker,
+} from '@care-commons/time-tracking-evv';
+import { MedicationScheduleService, initializeMedicationDoseWorker } from '@care-commons/medication-management';
 import { initCacheService } from '@care-commons/core/service/cache.service';
 import { setupRoutes } from './routes/index';
 import { swaggerSpec } from './config/swagger';
@@ -173,6 +195,9 @@ function setupMiddleware(): void {
   // CSRF protection
   configureCsrfProtection(app);
 
+  // Resolve the organization from custom domains (before auth, so login pages can be branded)
+  app.use(new TenantResolutionMiddleware(getDatabase()).resolveTenant);
+
   // User context extraction
   app.use(authContextMiddleware);
 
@@ -296,6 +321,68 @@ async function start(): Promise<void> {
       console.log(`   Health check: http://0.0.0.0:${PORT}/health`);
       console.log(`   API docs: http://0.0.0.0:${PORT}/api-docs\n`);
     });
+
+    // Scheduled report delivery needs a long-running process, so it only
+    // runs here and not in the Vercel serverless function
+    if (process.env['REPORT_SCHEDULER_ENABLED'] !== 'false') {
+      initializeReportSchedulerWorker(
+        new ReportSchedulerService(getDatabase(), createEmailService())
+      );
+    }
+
+    // Unanswered shift proposals expire so the shift can be offered again
+    if (process.env['PROPOSAL_EXPIRATION_ENABLED'] !== 'false') {
+      initializeProposalExpirationWorker(new ShiftMatchingService(getDatabase().getPool()));
+    }
+
+    // Missed clock-ins, early clock-outs, skipped tasks and geofence
+    // failures are raised as visit exceptions and paged to coordinators
+    if (process.env['VISIT_EXCEPTION_DETECTION_ENABLED'] !== 'false') {
+      initializeVisitExceptionWorker(
+        new VisitExceptionService(new VisitExceptionRepository(getDatabase().getPool()))
+      );
+    }
+
+    // Coordinators are alerted when scheduled visits will run a service
+    // authorization low, and before an authorization expires
+    if (process.env['AUTHORIZATION_ALERTS_ENABLED'] !== 'false') {
+      initializeAuthorizationAlertWorker(
+        new AuthorizationForecastService(new AuthorizationForecastRepository(getDatabase().getPool()))
+      );
+    }
+
+    // Geofences with noisy clock-in history get calibration proposals;
+    // nothing is applied until a supervisor approves
+    if (process.env['GEOFENCE_CALIBRATION_ENABLED'] !== 'false') {
+      initializeGeofenceCalibrationWorker(
+        new GeofenceCalibrationService(
+          new GeofenceCalibrationRepository(getDatabase()),
+          new EVVRepository(getDatabase())
+        )
+      );
+    }
+
+    // EVV exceptions past their SLA are escalated, and revision requests
+    // nobody reviewed in time expire
+    if (process.env['EVV_EXCEPTION_SLA_ENABLED'] !== 'false') {
+      const exceptionQueueService = new EVVExceptionQueueService(
+        new EVVExceptionQueueRepository(getDatabase())
+      );
+      initializeEVVExceptionSlaWorker(
+        exceptionQueueService,
+        new EVVRevisionService(
+          new EVVRevisionRepository(getDatabase()),
+          new EVVRepository(getDatabase()),
+          exceptionQueueService
+        )
+      );
+    }
+
+    // Scheduled doses are kept a week ahead and aligned with visits; doses
+    // nobody records become MISSED and the client's nurse is alerted
+    if (process.env['MEDICATION_DOSE_WORKER_ENABLED'] !== 'false') {
+      initializeMedicationDoseWorker(new MedicationScheduleService(getDatabase()));
+    }
   } catch (error) {
     console.error('Failed to start server:', error);
     process.exit(1);
@@ -0,0 +1,121 @@
+import type { Knex } from 'knex';
+
+/**
+ * EVV Revision Requests
+ *
+ * Holds proposed corrections to EVV records until a supervisor (and, for
+ * records already submitted to a payor, compliance) approves or denies them.
+ * Approved requests are written to the append-only evv_revisions table;
+ * this table only tracks the approval workflow.
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable('evv_revision_requests', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('evv_record_id').notNullable();
+    table.uuid('visit_id').notNullable();
+    table.uuid('organization_id').notNullable();
+
+    // Exception that prompted the correction (optional)
+    table.uuid('exception_id');
+
+    // Requested changes
+    table.jsonb('requested_changes').notNullable();
+    table.text('request_reason').notNullable();
+    table.string('request_reason_code', 50);
+    table.text('request_justification').notNullable();
+    table.jsonb('supporting_documents');
+
+    // Requester
+    table.uuid('requested_by').notNullable();
+    table.string('requested_by_name', 200).notNullable();
+    table.string('requested_by_role', 50).notNullable();
+    table.timestamp('requested_at').notNullable().defaultTo(knex.fn.now());
+
+    // Approval workflow
+    table.string('status', 20).notNullable().defaultTo('PENDING');
+    table.boolean('requires_supervisor_approval').notNullable().defaultTo(true);
+    table.boolean('requires_compliance_approval').notNullable().defaultTo(false);
+    table.jsonb('supervisor_approval');
+    table.jsonb('compliance_approval');
+
+    // Implementation
+    table.timestamp('implemented_at');
+    table.uuid('implemented_by');
+    table.text('implementation_notes');
+
+    // Expiration
+    table.timestamp('expires_at').notNullable();
+
+    // State-specific
+    table.jsonb('state_specific_data');
+
+    // Audit
+    table.timestamp('created_at').notNullable().defaultTo(knex.fn.now());
+    table.timestamp('updated_at').notNullable().defaultTo(knex.fn.now());
+  });
+
+  await knex.raw(`
+    ALTER TABLE evv_revision_requests
+    ADD CONSTRAINT chk_revision_request_status CHECK (status IN ('PENDING', 'APPROVED', 'DENIED', 'CANCELLED', 'EXPIRED'))
+  `);
+
+  await knex.raw(`
+    ALTER TABLE evv_revision_requests
+    ADD CONSTRAINT fk_revision_request_evv_record FOREIGN KEY (evv_record_id)
+        REFERENCES evv_records(id) ON DELETE CASCADE
+  `);
+
+  await knex.raw(`
+    ALTER TABLE evv_revision_requests
+    ADD CONSTRAINT fk_revision_request_visit FOREIGN KEY (visit_id)
+        REFERENCES visits(id) ON DELETE CASCADE
+  `);
+
+  await knex.raw(`
+    ALTER TABLE evv_revision_requests
+    ADD CONSTRAINT fk_revision_request_organization FOREIGN KEY (organization_id)
+        REFERENCES organizations(id) ON DELETE RESTRICT
+  `);
+
+  await knex.raw(`
+    ALTER TABLE evv_revision_requests
+    ADD CONSTRAINT fk_revision_request_exception FOREIGN KEY (exception_id)
+        REFERENCES evv_exception_queue(id) ON DELETE SET NULL
+  `);
+
+  await knex.schema.alterTable('evv_revision_requests', (table) => {
+    table.index(['evv_record_id', 'requested_at'], 'idx_revision_requests_record');
+    table.index(['exception_id'], 'idx_revision_requests_exception');
+    table.index(['requested_by', 'requested_at'], 'idx_revision_requests_requested_by');
+  });
+
+  await knex.raw(`
+    CREATE INDEX idx_revision_requests_pending ON evv_revision_requests(organization_id, expires_at)
+    WHERE status = 'PENDING'
+  `);
+
+  await knex.raw(`
+    CREATE OR REPLACE FUNCTION update_evv_revision_requests_updated_at()
+    RETURNS TRIGGER AS $$
+    BEGIN
+        NEW.updated_at = NOW();
+        RETURN NEW;
+    END;
+    $$ LANGUAGE plpgsql
+  `);
+
+  await knex.raw(`
+    CREATE TRIGGER trigger_evv_revision_requests_updated_at
+        BEFORE UPDATE ON evv_revision_requests
+        FOR EACH ROW
+        EXECUTE FUNCTION update_evv_revision_requests_updated_at()
+  `);
+
+  await knex.raw("COMMENT ON TABLE evv_revision_requests IS 'Pending and decided EVV correction requests; approved changes are recorded in evv_revisions'");
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.raw('DROP TRIGGER IF EXISTS trigger_evv_revision_requests_updated_at ON evv_revision_requests');
+  await knex.raw('DROP FUNCTION IF EXISTS update_evv_revision_requests_updated_at()');
+  await knex.schema.dropTableIfExists('evv_revision_requests');
+}
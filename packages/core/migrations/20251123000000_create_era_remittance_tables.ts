@@ -0,0 +1,139 @@
+import type { Knex } from 'knex';
+
+/**
+ * ERA (X12 835) remittance import
+ *
+ * era_remittances records each imported 835 transaction so the same check or
+ * EFT trace is never posted twice. Remittance lines that cannot be matched to
+ * a claim or claim line are kept in era_reconciliation_items for billing staff
+ * to work instead of being dropped.
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable('era_remittances', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('organization_id').notNullable();
+    table.uuid('branch_id').notNullable();
+    table.uuid('payer_id').notNullable();
+
+    // Payment (BPR/TRN)
+    table.string('trace_number', 50).notNullable();
+    table.string('payment_method', 10).notNullable();
+    table.decimal('payment_amount', 12, 2).notNullable();
+    table.date('payment_date').notNullable();
+    table.uuid('payment_id');
+
+    // Parties (N1 loops)
+    table.string('payer_name', 200).notNullable();
+    table.string('payer_identifier', 50);
+
+    // Source
+    table.string('file_name', 255);
+    table.text('raw_content').notNullable();
+
+    // Matching results
+    table.integer('claim_count').notNullable().defaultTo(0);
+    table.integer('matched_claim_count').notNullable().defaultTo(0);
+    table.integer('unmatched_item_count').notNullable().defaultTo(0);
+
+    // Audit
+    table.timestamp('imported_at').notNullable().defaultTo(knex.fn.now());
+    table.uuid('imported_by').notNullable();
+    table.timestamp('created_at').notNullable().defaultTo(knex.fn.now());
+    table.timestamp('updated_at').notNullable().defaultTo(knex.fn.now());
+
+    table.foreign('organization_id').references('id').inTable('organizations').onDelete('RESTRICT');
+    table.foreign('branch_id').references('id').inTable('branches').onDelete('RESTRICT');
+    table.foreign('payer_id').references('id').inTable('payers').onDelete('RESTRICT');
+    table.foreign('payment_id').references('id').inTable('payments').onDelete('SET NULL');
+  });
+
+  await knex.raw('CREATE UNIQUE INDEX idx_era_remittances_trace ON era_remittances(organization_id, payer_id, trace_number)');
+  await knex.raw('CREATE INDEX idx_era_remittances_payment_date ON era_remittances(organization_id, payment_date DESC)');
+
+  await knex.schema.createTable('era_reconciliation_items', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('organization_id').notNullable();
+    table.uuid('remittance_id').notNullable();
+    table.uuid('claim_id');
+
+    // Remittance detail as received
+    table.string('patient_control_number', 50).notNullable();
+    table.string('payer_claim_control_number', 50);
+    table.string('procedure_code', 20);
+    table.jsonb('modifiers');
+    table.date('service_date');
+    table.decimal('charge_amount', 10, 2).notNullable();
+    table.decimal('paid_amount', 10, 2).notNullable();
+    table.jsonb('adjustments').notNullable().defaultTo('[]');
+    table.jsonb('remark_codes').notNullable().defaultTo('[]');
+
+    // Why it needs attention
+    table.string('reason', 30).notNullable();
+    table.text('description').notNullable();
+
+    // Worklist
+    table.string('status', 20).notNullable().defaultTo('OPEN');
+    table.uuid('resolved_by');
+    table.timestamp('resolved_at');
+    table.text('resolution_notes');
+
+    table.timestamp('created_at').notNullable().defaultTo(knex.fn.now());
+    table.timestamp('updated_at').notNullable().defaultTo(knex.fn.now());
+
+    table.foreign('organization_id').references('id').inTable('organizations').onDelete('RESTRICT');
+    table.foreign('remittance_id').references('id').inTable('era_remittances').onDelete('CASCADE');
+    table.foreign('claim_id').references('id').inTable('claims').onDelete('SET NULL');
+  });
+
+  await knex.raw(`
+    ALTER TABLE era_reconciliation_items ADD CONSTRAINT chk_era_reconciliation_reason CHECK (
+      reason IN ('CLAIM_NOT_FOUND', 'LINE_NOT_MATCHED', 'STATUS_CONFLICT', 'CLAIM_REVERSAL', 'OVERPAYMENT')
+    )
+  `);
+  await knex.raw(`
+    ALTER TABLE era_reconciliation_items ADD CONSTRAINT chk_era_reconciliation_status CHECK (
+      status IN ('OPEN', 'RESOLVED', 'DISMISSED')
+    )
+  `);
+
+  await knex.raw('CREATE INDEX idx_era_reconciliation_remittance ON era_reconciliation_items(remittance_id)');
+  await knex.raw(`
+    CREATE INDEX idx_era_reconciliation_open ON era_reconciliation_items(organization_id, created_at)
+    WHERE status = 'OPEN'
+  `);
+
+  await knex.raw(`
+    CREATE OR REPLACE FUNCTION update_era_updated_at()
+    RETURNS TRIGGER AS $$
+    BEGIN
+        NEW.updated_at = NOW();
+        RETURN NEW;
+    END;
+    $$ LANGUAGE plpgsql
+  `);
+
+  await knex.raw(`
+    CREATE TRIGGER trigger_era_remittances_updated_at
+        BEFORE UPDATE ON era_remittances
+        FOR EACH ROW
+        EXECUTE FUNCTION update_era_updated_at();
+  `);
+
+  await knex.raw(`
+    CREATE TRIGGER trigger_era_reconciliation_items_updated_at
+        BEFORE UPDATE ON era_reconciliation_items
+        FOR EACH ROW
+        EXECUTE FUNCTION update_era_updated_at();
+  `);
+
+  await knex.raw(`COMMENT ON TABLE era_remittances IS 'Imported X12 835 remittance advice, one row per check or EFT trace'`);
+  await knex.raw(`COMMENT ON TABLE era_reconciliation_items IS 'Remittance lines that could not be posted automatically'`);
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.raw('DROP TRIGGER IF EXISTS trigger_era_reconciliation_items_updated_at ON era_reconciliation_items');
+  await knex.raw('DROP TRIGGER IF EXISTS trigger_era_remittances_updated_at ON era_remittances');
+  await knex.raw('DROP FUNCTION IF EXISTS update_era_updated_at()');
+  await knex.schema.dropTableIfExists('era_reconciliation_items');
+  await knex.schema.dropTableIfExists('era_remittances');
+}
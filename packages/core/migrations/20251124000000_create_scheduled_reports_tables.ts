@@ -0,0 +1,143 @@
+import type { Knex } from 'knex';
+
+/**
+ * Scheduled report delivery
+ *
+ * scheduled_reports holds each recurring report (what to run, how often, in
+ * which timezone and who receives it). next_run_at is kept in UTC so the
+ * scheduler only has to pick up rows that are due. Every attempt is written
+ * to scheduled_report_runs, including failures, so delivery problems are
+ * visible to the organization.
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable('scheduled_reports', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('organization_id').notNullable();
+    table.uuid('branch_id');
+
+    // What to run
+    table.string('name', 200).notNullable();
+    table.string('report_type', 50).notNullable();
+    table.string('export_format', 10).notNullable();
+    table.jsonb('parameters').notNullable().defaultTo('{}');
+
+    // When to run (local to timezone)
+    table.string('frequency', 10).notNullable();
+    table.string('time_of_day', 5).notNullable();
+    table.integer('day_of_week');
+    table.integer('day_of_month');
+    table.string('timezone', 64).notNullable();
+
+    // Delivery
+    table.jsonb('recipients').notNullable();
+
+    // Scheduler state
+    table.boolean('is_active').notNullable().defaultTo(true);
+    table.timestamp('next_run_at');
+    table.timestamp('last_run_at');
+    table.string('last_run_status', 20);
+    table.integer('consecutive_failures').notNullable().defaultTo(0);
+
+    // Audit
+    table.timestamp('created_at').notNullable().defaultTo(knex.fn.now());
+    table.uuid('created_by').notNullable();
+    table.timestamp('updated_at').notNullable().defaultTo(knex.fn.now());
+    table.uuid('updated_by').notNullable();
+    table.timestamp('deleted_at');
+    table.uuid('deleted_by');
+
+    table.foreign('organization_id').references('id').inTable('organizations').onDelete('CASCADE');
+    table.foreign('branch_id').references('id').inTable('branches').onDelete('SET NULL');
+  });
+
+  await knex.raw(`
+    ALTER TABLE scheduled_reports ADD CONSTRAINT chk_scheduled_reports_frequency CHECK (
+      frequency IN ('DAILY', 'WEEKLY', 'MONTHLY')
+    )
+  `);
+  await knex.raw(`
+    ALTER TABLE scheduled_reports ADD CONSTRAINT chk_scheduled_reports_export_format CHECK (
+      export_format IN ('PDF', 'EXCEL', 'CSV')
+    )
+  `);
+  await knex.raw(`
+    ALTER TABLE scheduled_reports ADD CONSTRAINT chk_scheduled_reports_day_of_week CHECK (
+      day_of_week IS NULL OR day_of_week BETWEEN 0 AND 6
+    )
+  `);
+  await knex.raw(`
+    ALTER TABLE scheduled_reports ADD CONSTRAINT chk_scheduled_reports_day_of_month CHECK (
+      day_of_month IS NULL OR day_of_month BETWEEN 1 AND 31
+    )
+  `);
+
+  await knex.raw(`
+    CREATE INDEX idx_scheduled_reports_due ON scheduled_reports(next_run_at)
+    WHERE is_active = true AND deleted_at IS NULL
+  `);
+  await knex.raw(`
+    CREATE INDEX idx_scheduled_reports_organization ON scheduled_reports(organization_id)
+    WHERE deleted_at IS NULL
+  `);
+
+  await knex.schema.createTable('scheduled_report_runs', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('scheduled_report_id').notNullable();
+    table.uuid('organization_id').notNullable();
+
+    table.string('status', 20).notNullable();
+    table.timestamp('scheduled_for').notNullable();
+    table.timestamp('started_at').notNullable().defaultTo(knex.fn.now());
+    table.timestamp('completed_at');
+
+    // Report covered by this run
+    table.timestamp('period_start').notNullable();
+    table.timestamp('period_end').notNullable();
+    table.string('report_id', 50);
+    table.string('file_name', 255);
+    table.integer('file_size');
+    table.jsonb('recipients').notNullable().defaultTo('[]');
+
+    table.text('error_message');
+
+    table.foreign('scheduled_report_id').references('id').inTable('scheduled_reports').onDelete('CASCADE');
+    table.foreign('organization_id').references('id').inTable('organizations').onDelete('CASCADE');
+  });
+
+  await knex.raw(`
+    ALTER TABLE scheduled_report_runs ADD CONSTRAINT chk_scheduled_report_runs_status CHECK (
+      status IN ('RUNNING', 'SUCCEEDED', 'FAILED')
+    )
+  `);
+
+  await knex.raw(`
+    CREATE INDEX idx_scheduled_report_runs_schedule ON scheduled_report_runs(scheduled_report_id, started_at DESC)
+  `);
+
+  await knex.raw(`
+    CREATE OR REPLACE FUNCTION update_scheduled_reports_updated_at()
+    RETURNS TRIGGER AS $$
+    BEGIN
+        NEW.updated_at = NOW();
+        RETURN NEW;
+    END;
+    $$ LANGUAGE plpgsql
+  `);
+
+  await knex.raw(`
+    CREATE TRIGGER trigger_scheduled_reports_updated_at
+        BEFORE UPDATE ON scheduled_reports
+        FOR EACH ROW
+        EXECUTE FUNCTION update_scheduled_reports_updated_at();
+  `);
+
+  await knex.raw(`COMMENT ON TABLE scheduled_reports IS 'Recurring analytics reports emailed to recipients'`);
+  await knex.raw(`COMMENT ON TABLE scheduled_report_runs IS 'Delivery history for scheduled reports, including failed runs'`);
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.raw('DROP TRIGGER IF EXISTS trigger_scheduled_reports_updated_at ON scheduled_reports');
+  await knex.raw('DROP FUNCTION IF EXISTS update_scheduled_reports_updated_at()');
+  await knex.schema.dropTableIfExists('scheduled_report_runs');
+  await knex.schema.dropTableIfExists('scheduled_reports');
+}
@@ -0,0 +1,69 @@
+import type { Knex } from 'knex';
+
+/**
+ * Automatic visit exception detection
+ *
+ * visit_exceptions gains the organization and branch of the visit so the
+ * exception queue can be scoped without joining visits, plus escalation and
+ * notification tracking. Automatically detected exceptions are unique per
+ * visit and exception type, so repeated detector runs never duplicate them.
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('visit_exceptions', (table) => {
+    table.uuid('organization_id');
+    table.uuid('branch_id');
+
+    // Rule-specific facts (minutes late, incomplete tasks, geofence distance)
+    table.jsonb('details').notNullable().defaultTo('{}');
+
+    // Coordinator notification and escalation
+    table.timestamp('notified_at');
+    table.integer('escalation_level').notNullable().defaultTo(0);
+    table.timestamp('escalated_at');
+    table.uuid('escalated_to');
+    table.text('escalation_reason');
+
+    table.foreign('escalated_to').references('id').inTable('users');
+  });
+
+  await knex.raw(`
+    UPDATE visit_exceptions ve
+    SET organization_id = v.organization_id,
+        branch_id = v.branch_id
+    FROM visits v
+    WHERE v.id = ve.visit_id
+  `);
+
+  await knex.raw('ALTER TABLE visit_exceptions ALTER COLUMN organization_id SET NOT NULL');
+  await knex.raw('ALTER TABLE visit_exceptions ALTER COLUMN branch_id SET NOT NULL');
+
+  await knex.raw(`
+    CREATE INDEX idx_exceptions_org_status
+    ON visit_exceptions(organization_id, status, severity)
+  `);
+  await knex.raw(`
+    CREATE UNIQUE INDEX idx_exceptions_automatic_unique
+    ON visit_exceptions(visit_id, exception_type)
+    WHERE automatic = true
+  `);
+
+  await knex.raw("COMMENT ON COLUMN visit_exceptions.details IS 'JSONB: Facts recorded by the detection rule'");
+  await knex.raw("COMMENT ON COLUMN visit_exceptions.escalation_level IS 'Number of times the exception has been escalated'");
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.raw('DROP INDEX IF EXISTS idx_exceptions_automatic_unique');
+  await knex.raw('DROP INDEX IF EXISTS idx_exceptions_org_status');
+
+  await knex.schema.alterTable('visit_exceptions', (table) => {
+    table.dropForeign(['escalated_to']);
+    table.dropColumn('escalation_reason');
+    table.dropColumn('escalated_to');
+    table.dropColumn('escalated_at');
+    table.dropColumn('escalation_level');
+    table.dropColumn('notified_at');
+    table.dropColumn('details');
+    table.dropColumn('branch_id');
+    table.dropColumn('organization_id');
+  });
+}
@@ -0,0 +1,45 @@
+import type { Knex } from 'knex';
+
+/**
+ * Scoped family consent
+ *
+ * Information-sharing consent is granted per family member for specific
+ * scopes (visit schedule, clinical notes, medications, billing). The
+ * signatory's name is kept alongside the client or guardian reference so
+ * the consent record stands on its own if the signatory is later removed.
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('family_consent', (table) => {
+    table.specificType('scopes', 'TEXT[]').notNullable().defaultTo('{}');
+    table.string('signed_by_name', 255);
+  });
+
+  await knex.raw(`
+    ALTER TABLE family_consent
+    ADD CONSTRAINT valid_family_consent_scopes CHECK (
+      scopes <@ ARRAY['VISIT_SCHEDULE', 'CLINICAL_NOTES', 'MEDICATIONS', 'BILLING']::TEXT[]
+    )
+  `);
+
+  await knex.raw(`
+    ALTER TABLE family_consent
+    ADD CONSTRAINT family_consent_single_signatory CHECK (
+      signed_by_client_id IS NULL OR signed_by_guardian_id IS NULL
+    )
+  `);
+
+  await knex.raw('CREATE INDEX IF NOT EXISTS idx_family_consent_client_member ON family_consent(client_id, family_member_id) WHERE revoked_at IS NULL');
+
+  await knex.raw("COMMENT ON COLUMN family_consent.scopes IS 'Information the family member may see: VISIT_SCHEDULE, CLINICAL_NOTES, MEDICATIONS, BILLING'");
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.raw('DROP INDEX IF EXISTS idx_family_consent_client_member');
+  await knex.raw('ALTER TABLE family_consent DROP CONSTRAINT IF EXISTS family_consent_single_signatory');
+  await knex.raw('ALTER TABLE family_consent DROP CONSTRAINT IF EXISTS valid_family_consent_scopes');
+
+  await knex.schema.alterTable('family_consent', (table) => {
+    table.dropColumn('signed_by_name');
+    table.dropColumn('scopes');
+  });
+}
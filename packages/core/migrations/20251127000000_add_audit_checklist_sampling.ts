@@ -0,0 +1,111 @@
+import type { Knex } from 'knex';
+
+/**
+ * Audit checklist execution with record sampling
+ *
+ * An audit can review a random sample of client charts or caregiver files
+ * against its template's checklist. Each sampled record gets its own set of
+ * checklist responses. Predefined templates are identified by slug rather
+ * than by a row in audit_templates, so template references become strings.
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable('audit_samples', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('uuid_generate_v4()'));
+
+    table.uuid('audit_id').notNullable();
+    table.string('sample_type', 50).notNullable();
+
+    // Sampled record
+    table.uuid('entity_id').notNullable();
+    table.string('entity_name', 255).notNullable();
+    table.uuid('branch_id');
+    table.integer('sequence_number').notNullable();
+
+    // Seed the sample was drawn with, so the draw can be reproduced
+    table.string('sampling_seed', 100).notNullable();
+
+    table.uuid('organization_id').notNullable();
+
+    // Audit fields
+    table.timestamp('created_at').notNullable().defaultTo(knex.fn.now());
+    table.uuid('created_by').notNullable();
+    table.timestamp('updated_at').notNullable().defaultTo(knex.fn.now());
+    table.uuid('updated_by').notNullable();
+    table.integer('version').notNullable().defaultTo(1);
+
+    // Foreign keys
+    table.foreign('audit_id').references('id').inTable('audits').onDelete('CASCADE');
+    table.foreign('branch_id').references('id').inTable('branches');
+    table.foreign('organization_id').references('id').inTable('organizations');
+    table.foreign('created_by').references('id').inTable('users');
+    table.foreign('updated_by').references('id').inTable('users');
+
+    table.unique(['audit_id', 'entity_id']);
+    table.check(`sample_type IN ('CLIENT_CHART', 'CAREGIVER_FILE')`);
+  });
+
+  await knex.raw('CREATE INDEX idx_audit_samples_audit ON audit_samples(audit_id, sequence_number)');
+
+  await knex.schema.alterTable('audit_checklist_responses', (table) => {
+    table.dropForeign(['template_id']);
+  });
+
+  await knex.raw('ALTER TABLE audit_checklist_responses ALTER COLUMN template_id TYPE VARCHAR(100)');
+  await knex.raw('ALTER TABLE audits ALTER COLUMN template_id TYPE VARCHAR(100)');
+
+  await knex.schema.alterTable('audit_checklist_responses', (table) => {
+    table.uuid('sample_id');
+    table.string('result', 20).notNullable().defaultTo('NOT_APPLICABLE');
+
+    table.foreign('sample_id').references('id').inTable('audit_samples').onDelete('CASCADE');
+    table.check(`result IN ('PASS', 'FAIL', 'NOT_APPLICABLE')`);
+  });
+
+  // One response per checklist item per sampled record (or per audit when unsampled)
+  await knex.raw(`
+    CREATE UNIQUE INDEX idx_audit_checklist_responses_item
+    ON audit_checklist_responses(audit_id, COALESCE(sample_id, '00000000-0000-0000-0000-000000000000'::uuid), item_id)
+  `);
+
+  await knex.raw(`
+    CREATE OR REPLACE FUNCTION update_audit_samples_updated_at()
+    RETURNS TRIGGER AS $$
+    BEGIN
+      NEW.updated_at = NOW();
+      NEW.version = OLD.version + 1;
+      RETURN NEW;
+    END;
+    $$ LANGUAGE plpgsql
+  `);
+
+  await knex.raw(`
+    CREATE TRIGGER audit_samples_updated_at
+      BEFORE UPDATE ON audit_samples
+      FOR EACH ROW
+      EXECUTE FUNCTION update_audit_samples_updated_at()
+  `);
+
+  await knex.raw("COMMENT ON TABLE audit_samples IS 'Client charts or caregiver files randomly selected for review in an audit'");
+  await knex.raw("COMMENT ON COLUMN audit_checklist_responses.result IS 'Response normalized to PASS, FAIL or NOT_APPLICABLE for scoring'");
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.raw('DROP INDEX IF EXISTS idx_audit_checklist_responses_item');
+
+  await knex.schema.alterTable('audit_checklist_responses', (table) => {
+    table.dropForeign(['sample_id']);
+    table.dropColumn('sample_id');
+    table.dropColumn('result');
+  });
+
+  await knex.raw('ALTER TABLE audits ALTER COLUMN template_id TYPE UUID USING template_id::uuid');
+  await knex.raw('ALTER TABLE audit_checklist_responses ALTER COLUMN template_id TYPE UUID USING template_id::uuid');
+
+  await knex.schema.alterTable('audit_checklist_responses', (table) => {
+    table.foreign('template_id').references('id').inTable('audit_templates');
+  });
+
+  await knex.raw('DROP TRIGGER IF EXISTS audit_samples_updated_at ON audit_samples');
+  await knex.raw('DROP FUNCTION IF EXISTS update_audit_samples_updated_at()');
+  await knex.schema.dropTableIfExists('audit_samples');
+}
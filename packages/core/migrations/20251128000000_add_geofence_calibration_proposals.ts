@@ -0,0 +1,109 @@
+import type { Knex } from 'knex';
+
+/**
+ * Geofence calibration proposals
+ *
+ * The calibration job (or a supervisor on demand) proposes a tightened or
+ * reshaped geofence from the distribution of past verified clock-ins. A
+ * proposal records the geofence it was computed against and the evidence
+ * behind it, and only changes the geofence once a supervisor approves it.
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable('geofence_calibration_proposals', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('uuid_generate_v4()'));
+
+    table.uuid('geofence_id').notNullable();
+    table.uuid('organization_id').notNullable();
+    table.uuid('client_id').notNullable();
+
+    // Geofence at the time of the proposal
+    table.string('current_shape', 50).notNullable();
+    table.integer('current_radius_meters').notNullable();
+    table.jsonb('current_polygon_points');
+
+    // Proposed geofence
+    table.string('proposed_shape', 50).notNullable();
+    table.integer('proposed_radius_meters').notNullable();
+    table.jsonb('proposed_polygon_points');
+
+    // Evidence
+    table.integer('sample_size').notNullable();
+    table.timestamp('sample_start_date').notNullable();
+    table.timestamp('sample_end_date').notNullable();
+    table.decimal('current_coverage', 5, 4).notNullable();
+    table.decimal('proposed_coverage', 5, 4).notNullable();
+    table.integer('current_area_square_meters').notNullable();
+    table.integer('proposed_area_square_meters').notNullable();
+    table.text('rationale').notNullable();
+
+    // Review
+    table.string('status', 50).notNullable().defaultTo('PENDING');
+    table.timestamp('proposed_at').notNullable().defaultTo(knex.fn.now());
+    table.uuid('requested_by'); // Null when proposed by the calibration job
+    table.timestamp('reviewed_at');
+    table.uuid('reviewed_by');
+    table.text('review_notes');
+
+    table.timestamp('created_at').notNullable().defaultTo(knex.fn.now());
+    table.timestamp('updated_at').notNullable().defaultTo(knex.fn.now());
+
+    // Constraints
+    table.check(`current_shape IN ('CIRCLE', 'POLYGON')`);
+    table.check(`proposed_shape IN ('CIRCLE', 'POLYGON')`);
+    table.check(`proposed_radius_meters BETWEEN 10 AND 500`);
+    table.check(`proposed_shape != 'POLYGON' OR proposed_polygon_points IS NOT NULL`);
+    table.check(`sample_size > 0`);
+    table.check(`status IN ('PENDING', 'APPROVED', 'REJECTED', 'SUPERSEDED')`);
+
+    // Foreign keys
+    table.foreign('geofence_id').references('id').inTable('geofences').onDelete('CASCADE');
+    table.foreign('organization_id').references('id').inTable('organizations');
+    table.foreign('client_id').references('id').inTable('clients');
+    table.foreign('requested_by').references('id').inTable('users');
+    table.foreign('reviewed_by').references('id').inTable('users');
+  });
+
+  // At most one proposal per geofence awaits review
+  await knex.raw(`
+    CREATE UNIQUE INDEX idx_geofence_calibration_proposals_pending
+    ON geofence_calibration_proposals(geofence_id)
+    WHERE status = 'PENDING'
+  `);
+  await knex.raw(`
+    CREATE INDEX idx_geofence_calibration_proposals_org
+    ON geofence_calibration_proposals(organization_id, status, proposed_at)
+  `);
+
+  await knex.raw(`
+    CREATE OR REPLACE FUNCTION update_geofence_calibration_proposals_updated_at()
+    RETURNS TRIGGER AS $$
+    BEGIN
+      NEW.updated_at = NOW();
+      RETURN NEW;
+    END;
+    $$ LANGUAGE plpgsql
+  `);
+
+  await knex.raw(`
+    CREATE TRIGGER trigger_geofence_calibration_proposals_updated_at
+      BEFORE UPDATE ON geofence_calibration_proposals
+      FOR EACH ROW
+      EXECUTE FUNCTION update_geofence_calibration_proposals_updated_at()
+  `);
+
+  // Clock-in history is read per client when calibrating
+  await knex.raw(`
+    CREATE INDEX idx_time_entries_client_clock_in
+    ON time_entries(client_id, entry_timestamp)
+    WHERE entry_type = 'CLOCK_IN'
+  `);
+
+  await knex.raw("COMMENT ON TABLE geofence_calibration_proposals IS 'Geofence changes proposed from past clock-in locations, pending supervisor approval'");
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.raw('DROP INDEX IF EXISTS idx_time_entries_client_clock_in');
+  await knex.raw('DROP TRIGGER IF EXISTS trigger_geofence_calibration_proposals_updated_at ON geofence_calibration_proposals');
+  await knex.raw('DROP FUNCTION IF EXISTS update_geofence_calibration_proposals_updated_at()');
+  await knex.schema.dropTableIfExists('geofence_calibration_proposals');
+}
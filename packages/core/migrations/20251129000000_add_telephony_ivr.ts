@@ -0,0 +1,95 @@
+import type { Knex } from 'knex';
+
+/**
+ * Telephony (IVR) visit verification
+ *
+ * Caregivers clock in and out by calling from the client's home phone. They
+ * identify themselves with a telephony PIN (stored hashed, unique within the
+ * organization), and the calling number is matched against the client's
+ * registered phones. Each call is kept as a session row: the IVR webhook is
+ * stateless between provider requests, and the session doubles as the audit
+ * trail for telephony clock events.
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('caregivers', (table) => {
+    table.string('telephony_pin_hash', 64);
+    table.timestamp('telephony_pin_set_at');
+  });
+
+  await knex.raw(`
+    CREATE UNIQUE INDEX idx_caregivers_telephony_pin
+    ON caregivers(organization_id, telephony_pin_hash)
+    WHERE telephony_pin_hash IS NOT NULL AND deleted_at IS NULL
+  `);
+
+  // Calling numbers are matched on their last 10 digits, ignoring formatting
+  await knex.raw(`
+    CREATE INDEX idx_clients_primary_phone_digits
+    ON clients(RIGHT(REGEXP_REPLACE(primary_phone->>'number', '[^0-9]', '', 'g'), 10))
+    WHERE deleted_at IS NULL
+  `);
+  await knex.raw(`
+    CREATE INDEX idx_clients_alternate_phone_digits
+    ON clients(RIGHT(REGEXP_REPLACE(alternate_phone->>'number', '[^0-9]', '', 'g'), 10))
+    WHERE deleted_at IS NULL
+  `);
+
+  await knex.schema.createTable('ivr_call_sessions', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('uuid_generate_v4()'));
+    table.string('call_sid', 100).notNullable().unique();
+    table.string('from_number', 20).notNullable();
+    table.string('to_number', 20).notNullable();
+
+    table.string('state', 50).notNullable().defaultTo('AWAITING_PIN');
+    table.integer('attempts').notNullable().defaultTo(0);
+    table.integer('pin_attempts').notNullable().defaultTo(0);
+
+    // Resolved as the call progresses
+    table.uuid('organization_id');
+    table.uuid('caregiver_id');
+    table.uuid('client_id');
+    table.uuid('visit_id');
+    table.uuid('evv_record_id');
+    table.jsonb('task_codes');
+
+    table.string('outcome', 50);
+    table.text('outcome_detail');
+
+    table.timestamp('started_at').notNullable().defaultTo(knex.fn.now());
+    table.timestamp('last_activity_at').notNullable().defaultTo(knex.fn.now());
+    table.timestamp('ended_at');
+
+    table.check(`state IN ('AWAITING_PIN', 'AWAITING_ACTION', 'AWAITING_TASK_CODES', 'COMPLETED', 'FAILED')`);
+    table.check(`outcome IS NULL OR outcome IN ('CLOCKED_IN', 'CLOCKED_OUT', 'PHONE_NOT_REGISTERED', 'PIN_REJECTED', 'NO_INPUT', 'NO_VISIT', 'CLOCK_EVENT_REJECTED', 'ABANDONED')`);
+
+    table.foreign('organization_id').references('id').inTable('organizations');
+    table.foreign('caregiver_id').references('id').inTable('caregivers');
+    table.foreign('client_id').references('id').inTable('clients');
+    table.foreign('visit_id').references('id').inTable('visits');
+    table.foreign('evv_record_id').references('id').inTable('evv_records');
+  });
+
+  await knex.raw(`
+    CREATE INDEX idx_ivr_call_sessions_caregiver
+    ON ivr_call_sessions(caregiver_id, started_at)
+    WHERE caregiver_id IS NOT NULL
+  `);
+  await knex.raw(`
+    CREATE INDEX idx_ivr_call_sessions_org
+    ON ivr_call_sessions(organization_id, started_at)
+  `);
+
+  await knex.raw("COMMENT ON TABLE ivr_call_sessions IS 'Telephony (IVR) clock-in/out calls: per-call state between webhook requests and audit trail'");
+  await knex.raw("COMMENT ON COLUMN caregivers.telephony_pin_hash IS 'SHA-256 of organization ID and IVR PIN; PINs are never stored in clear'");
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('ivr_call_sessions');
+  await knex.raw('DROP INDEX IF EXISTS idx_clients_alternate_phone_digits');
+  await knex.raw('DROP INDEX IF EXISTS idx_clients_primary_phone_digits');
+  await knex.raw('DROP INDEX IF EXISTS idx_caregivers_telephony_pin');
+  await knex.schema.alterTable('caregivers', (table) => {
+    table.dropColumn('telephony_pin_set_at');
+    table.dropColumn('telephony_pin_hash');
+  });
+}
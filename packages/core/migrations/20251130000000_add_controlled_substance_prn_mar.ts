@@ -0,0 +1,168 @@
+import type { Knex } from 'knex';
+
+/**
+ * Controlled substance and PRN support for the MAR
+ *
+ * - PRN orders carry their indication and dosing limits; PRN doses record a
+ *   reason and get an effectiveness follow-up.
+ * - Controlled substances (DEA schedule II-V) keep a running count on hand.
+ *   Every change to the count is an immutable ledger entry, wasted quantities
+ *   are witnessed, and the count is reconciled at each shift handoff.
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('medications', (table) => {
+    table.boolean('is_prn').notNullable().defaultTo(false);
+    table.text('prn_indication');
+    table.integer('prn_min_interval_minutes');
+    table.integer('prn_max_doses_per_day');
+    table.integer('prn_follow_up_minutes');
+
+    table.string('controlled_schedule', 3);
+    table.string('count_unit', 50);
+    table.decimal('count_on_hand', 10, 2);
+  });
+
+  await knex.raw(`
+    ALTER TABLE medications
+    ADD CONSTRAINT chk_medications_controlled_schedule
+    CHECK (controlled_schedule IS NULL OR controlled_schedule IN ('II', 'III', 'IV', 'V'))
+  `);
+  await knex.raw(`
+    ALTER TABLE medications
+    ADD CONSTRAINT chk_medications_count_on_hand
+    CHECK (count_on_hand IS NULL OR count_on_hand >= 0)
+  `);
+
+  await knex.schema.alterTable('medication_administrations', (table) => {
+    table.text('prn_reason');
+    table.timestamp('prn_follow_up_due_at');
+    table.string('prn_effectiveness', 30);
+    table.text('prn_follow_up_notes');
+    table.timestamp('prn_follow_up_at');
+    table.uuid('prn_follow_up_by').references('id').inTable('users');
+
+    table.decimal('quantity_given', 10, 2);
+    table.decimal('quantity_wasted', 10, 2);
+    table.text('waste_reason');
+    table.uuid('waste_witnessed_by').references('id').inTable('users');
+    table.decimal('count_after', 10, 2);
+  });
+
+  await knex.raw(`
+    ALTER TABLE medication_administrations
+    ADD CONSTRAINT chk_med_admin_prn_effectiveness
+    CHECK (prn_effectiveness IS NULL OR prn_effectiveness IN ('EFFECTIVE', 'PARTIALLY_EFFECTIVE', 'NOT_EFFECTIVE'))
+  `);
+
+  // PRN doses still awaiting an effectiveness check
+  await knex.raw(`
+    CREATE INDEX idx_med_admin_prn_follow_up_due
+    ON medication_administrations(organization_id, prn_follow_up_due_at)
+    WHERE prn_follow_up_due_at IS NOT NULL AND prn_follow_up_at IS NULL
+  `);
+
+  await knex.schema.createTable('controlled_substance_reconciliations', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('uuid_generate_v4()'));
+    table.uuid('organization_id').notNullable().references('id').inTable('organizations').onDelete('CASCADE');
+    table.uuid('medication_id').notNullable().references('id').inTable('medications').onDelete('CASCADE');
+    table.uuid('client_id').notNullable().references('id').inTable('clients').onDelete('CASCADE');
+
+    table.decimal('expected_count', 10, 2).notNullable();
+    table.decimal('counted_quantity', 10, 2).notNullable();
+    table.decimal('discrepancy', 10, 2).notNullable();
+    table.string('status', 20).notNullable();
+
+    table.uuid('counted_by').notNullable().references('id').inTable('users'); // Outgoing staff
+    table.uuid('witnessed_by').notNullable().references('id').inTable('users'); // Incoming staff
+    table.timestamp('counted_at').notNullable().defaultTo(knex.fn.now());
+    table.text('notes');
+    table.timestamp('alerted_at');
+
+    table.uuid('resolved_by').references('id').inTable('users');
+    table.timestamp('resolved_at');
+    table.text('resolution_notes');
+    table.boolean('count_adjusted');
+  });
+
+  await knex.raw(`
+    ALTER TABLE controlled_substance_reconciliations
+    ADD CONSTRAINT chk_cs_reconciliations_status
+    CHECK (status IN ('MATCHED', 'DISCREPANCY', 'RESOLVED'))
+  `);
+  await knex.raw('CREATE INDEX idx_cs_reconciliations_medication ON controlled_substance_reconciliations(medication_id, counted_at DESC)');
+  await knex.raw(`
+    CREATE INDEX idx_cs_reconciliations_open
+    ON controlled_substance_reconciliations(organization_id, counted_at)
+    WHERE status = 'DISCREPANCY'
+  `);
+
+  await knex.schema.createTable('controlled_substance_count_entries', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('uuid_generate_v4()'));
+    table.uuid('organization_id').notNullable().references('id').inTable('organizations').onDelete('CASCADE');
+    table.uuid('medication_id').notNullable().references('id').inTable('medications').onDelete('CASCADE');
+    table.uuid('client_id').notNullable().references('id').inTable('clients').onDelete('CASCADE');
+
+    table.string('entry_type', 20).notNullable();
+    table.decimal('quantity_change', 10, 2).notNullable();
+    table.decimal('balance_after', 10, 2).notNullable();
+    table.uuid('administration_id').references('id').inTable('medication_administrations');
+    table.uuid('reconciliation_id').references('id').inTable('controlled_substance_reconciliations');
+    table.text('reason');
+
+    table.uuid('recorded_by').notNullable().references('id').inTable('users');
+    table.uuid('witnessed_by').references('id').inTable('users');
+    table.timestamp('recorded_at').notNullable().defaultTo(knex.fn.now());
+  });
+
+  await knex.raw(`
+    ALTER TABLE controlled_substance_count_entries
+    ADD CONSTRAINT chk_cs_count_entries_type
+    CHECK (entry_type IN ('RECEIVED', 'ADMINISTERED', 'WASTED', 'ADJUSTED'))
+  `);
+  await knex.raw(`
+    ALTER TABLE controlled_substance_count_entries
+    ADD CONSTRAINT chk_cs_count_entries_balance
+    CHECK (balance_after >= 0)
+  `);
+  await knex.raw('CREATE INDEX idx_cs_count_entries_medication ON controlled_substance_count_entries(medication_id, recorded_at DESC)');
+
+  await knex.raw("COMMENT ON COLUMN medications.controlled_schedule IS 'DEA controlled substance schedule (II-V); null for non-controlled medications'");
+  await knex.raw("COMMENT ON COLUMN medications.count_on_hand IS 'Running count of a controlled substance, equal to the balance of its latest count ledger entry'");
+  await knex.raw("COMMENT ON COLUMN medication_administrations.prn_follow_up_due_at IS 'When the effectiveness of a PRN dose should be assessed'");
+  await knex.raw("COMMENT ON TABLE controlled_substance_count_entries IS 'Immutable count ledger for controlled substances: stock received, administered, wasted and adjusted'");
+  await knex.raw("COMMENT ON TABLE controlled_substance_reconciliations IS 'Physical controlled substance counts at shift handoff, witnessed by the incoming staff member'");
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('controlled_substance_count_entries');
+  await knex.schema.dropTableIfExists('controlled_substance_reconciliations');
+
+  await knex.raw('DROP INDEX IF EXISTS idx_med_admin_prn_follow_up_due');
+  await knex.raw('ALTER TABLE medication_administrations DROP CONSTRAINT IF EXISTS chk_med_admin_prn_effectiveness');
+  await knex.schema.alterTable('medication_administrations', (table) => {
+    table.dropColumn('prn_reason');
+    table.dropColumn('prn_follow_up_due_at');
+    table.dropColumn('prn_effectiveness');
+    table.dropColumn('prn_follow_up_notes');
+    table.dropColumn('prn_follow_up_at');
+    table.dropColumn('prn_follow_up_by');
+    table.dropColumn('quantity_given');
+    table.dropColumn('quantity_wasted');
+    table.dropColumn('waste_reason');
+    table.dropColumn('waste_witnessed_by');
+    table.dropColumn('count_after');
+  });
+
+  await knex.raw('ALTER TABLE medications DROP CONSTRAINT IF EXISTS chk_medications_controlled_schedule');
+  await knex.raw('ALTER TABLE medications DROP CONSTRAINT IF EXISTS chk_medications_count_on_hand');
+  await knex.schema.alterTable('medications', (table) => {
+    table.dropColumn('is_prn');
+    table.dropColumn('prn_indication');
+    table.dropColumn('prn_min_interval_minutes');
+    table.dropColumn('prn_max_doses_per_day');
+    table.dropColumn('prn_follow_up_minutes');
+    table.dropColumn('controlled_schedule');
+    table.dropColumn('count_unit');
+    table.dropColumn('count_on_hand');
+  });
+}
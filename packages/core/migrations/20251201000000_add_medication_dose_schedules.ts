@@ -0,0 +1,85 @@
+import type { Knex } from 'knex';
+
+/**
+ * Scheduled doses for the MAR
+ *
+ * - Medication frequencies (QD, BID, Q6H, weekly, ...) are expanded into
+ *   scheduled doses in the client's timezone. A client can have their own
+ *   dose times per frequency (e.g. BID at 10:00 and 22:00 for a late riser).
+ * - Doses are aligned with the client's visits so they fall while a
+ *   caregiver is there.
+ * - Doses still open after their administration window are recorded as
+ *   MISSED by the system, so administered_by is only required for doses that
+ *   someone actually recorded.
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable('medication_dose_times', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('uuid_generate_v4()'));
+    table.uuid('organization_id').notNullable().references('id').inTable('organizations').onDelete('CASCADE');
+    table.uuid('client_id').notNullable().references('id').inTable('clients').onDelete('CASCADE');
+
+    table.string('sig_code', 10).notNullable(); // QD, BID, TID, QID, QHS, WEEKLY, Q<n>H
+    table.specificType('times', 'VARCHAR(5)[]').notNullable(); // Local HH:MM
+
+    table.timestamp('created_at').notNullable().defaultTo(knex.fn.now());
+    table.uuid('created_by').notNullable().references('id').inTable('users');
+    table.timestamp('updated_at').notNullable().defaultTo(knex.fn.now());
+    table.uuid('updated_by').notNullable().references('id').inTable('users');
+
+    table.unique(['client_id', 'sig_code']);
+  });
+
+  await knex.schema.createTable('medication_scheduled_doses', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('uuid_generate_v4()'));
+    table.uuid('organization_id').notNullable().references('id').inTable('organizations').onDelete('CASCADE');
+    table.uuid('client_id').notNullable().references('id').inTable('clients').onDelete('CASCADE');
+    table.uuid('medication_id').notNullable().references('id').inTable('medications').onDelete('CASCADE');
+
+    table.timestamp('scheduled_for').notNullable();
+    table.timestamp('original_scheduled_for'); // Sig time, when moved into a visit
+    table.uuid('visit_id').references('id').inTable('visits').onDelete('SET NULL');
+
+    table.string('status', 20).notNullable().defaultTo('SCHEDULED');
+    table.uuid('administration_id').references('id').inTable('medication_administrations');
+    table.timestamp('missed_alerted_at');
+
+    table.timestamp('created_at').notNullable().defaultTo(knex.fn.now());
+    table.timestamp('updated_at').notNullable().defaultTo(knex.fn.now());
+
+    table.unique(['medication_id', 'scheduled_for']);
+  });
+
+  await knex.raw(`
+    ALTER TABLE medication_scheduled_doses
+    ADD CONSTRAINT chk_med_scheduled_doses_status
+    CHECK (status IN ('SCHEDULED', 'GIVEN', 'REFUSED', 'HELD', 'MISSED'))
+  `);
+  await knex.raw('CREATE INDEX idx_med_scheduled_doses_client ON medication_scheduled_doses(client_id, scheduled_for)');
+  // Open doses, scanned for missed-dose detection
+  await knex.raw(`
+    CREATE INDEX idx_med_scheduled_doses_open
+    ON medication_scheduled_doses(scheduled_for)
+    WHERE status = 'SCHEDULED'
+  `);
+
+  await knex.raw('ALTER TABLE medication_administrations ALTER COLUMN administered_by DROP NOT NULL');
+  await knex.raw(`
+    ALTER TABLE medication_administrations
+    ADD CONSTRAINT chk_med_admin_administered_by
+    CHECK (administered_by IS NOT NULL OR status = 'MISSED')
+  `);
+
+  await knex.raw("COMMENT ON TABLE medication_dose_times IS 'Client-specific local dose times per medication frequency, overriding the default times'");
+  await knex.raw("COMMENT ON TABLE medication_scheduled_doses IS 'Scheduled doses expanded from medication frequencies, one row per dose on the MAR'");
+  await knex.raw("COMMENT ON COLUMN medication_scheduled_doses.visit_id IS 'Visit during which the dose is due; null when no caregiver visit covers it'");
+  await knex.raw("COMMENT ON COLUMN medication_administrations.administered_by IS 'User who recorded the administration; null for doses the system recorded as missed'");
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('medication_scheduled_doses');
+  await knex.schema.dropTableIfExists('medication_dose_times');
+
+  await knex.raw('ALTER TABLE medication_administrations DROP CONSTRAINT IF EXISTS chk_med_admin_administered_by');
+  await knex.raw("DELETE FROM medication_administrations WHERE administered_by IS NULL");
+  await knex.raw('ALTER TABLE medication_administrations ALTER COLUMN administered_by SET NOT NULL');
+}
@@ -0,0 +1,49 @@
+import type { Knex } from 'knex';
+
+/**
+ * Medication safety overrides
+ *
+ * New medication orders are checked against the client's documented
+ * allergies and active medications. Blocking alerts can only be overridden
+ * with a reason; each accepted alert is kept here with who overrode it and
+ * the version of the drug reference that raised it.
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable('medication_safety_overrides', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('uuid_generate_v4()'));
+    table.uuid('organization_id').notNullable().references('id').inTable('organizations').onDelete('CASCADE');
+    table.uuid('client_id').notNullable().references('id').inTable('clients').onDelete('CASCADE');
+    table.uuid('medication_id').notNullable().references('id').inTable('medications').onDelete('CASCADE');
+
+    table.string('alert_type', 30).notNullable();
+    table.string('alert_severity', 10).notNullable();
+    table.text('message').notNullable();
+    table.string('allergen', 200);
+    table.uuid('conflicting_medication_id').references('id').inTable('medications').onDelete('SET NULL');
+    table.string('drug_class', 50);
+
+    table.text('reason').notNullable();
+    table.string('reference_version', 50).notNullable();
+    table.uuid('overridden_by').notNullable().references('id').inTable('users');
+    table.timestamp('overridden_at').notNullable().defaultTo(knex.fn.now());
+  });
+
+  await knex.raw(`
+    ALTER TABLE medication_safety_overrides
+    ADD CONSTRAINT chk_med_safety_overrides_alert_type
+    CHECK (alert_type IN ('ALLERGY', 'ALLERGY_CROSS_REACTIVITY', 'DUPLICATE_INGREDIENT', 'DUPLICATE_THERAPY'))
+  `);
+  await knex.raw(`
+    ALTER TABLE medication_safety_overrides
+    ADD CONSTRAINT chk_med_safety_overrides_alert_severity
+    CHECK (alert_severity IN ('WARNING', 'BLOCK'))
+  `);
+  await knex.raw('CREATE INDEX idx_med_safety_overrides_client ON medication_safety_overrides(client_id, overridden_at DESC)');
+  await knex.raw('CREATE INDEX idx_med_safety_overrides_medication ON medication_safety_overrides(medication_id)');
+
+  await knex.raw("COMMENT ON TABLE medication_safety_overrides IS 'Drug-allergy and duplicate-therapy alerts accepted with a reason when a blocked medication order was entered'");
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('medication_safety_overrides');
+}
@@ -0,0 +1,28 @@
+import type { Knex } from 'knex';
+
+/**
+ * Authorization forecast alerts
+ *
+ * Scheduling forecasts how scheduled visits will burn each service
+ * authorization's remaining units and alerts coordinators when the
+ * forecast runs low or the authorization is about to expire. These columns
+ * record when each alert went out so it is sent once; the low-units alert
+ * is cleared again if the forecast recovers (e.g. visits are cancelled or
+ * the authorization is extended).
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('service_authorizations', (table) => {
+    table.timestamp('low_units_alerted_at');
+    table.timestamp('expiration_alerted_at');
+  });
+
+  await knex.raw("COMMENT ON COLUMN service_authorizations.low_units_alerted_at IS 'When coordinators were alerted that scheduled visits leave the authorization low on units'");
+  await knex.raw("COMMENT ON COLUMN service_authorizations.expiration_alerted_at IS 'When coordinators were alerted that the authorization is about to expire'");
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('service_authorizations', (table) => {
+    table.dropColumn('low_units_alerted_at');
+    table.dropColumn('expiration_alerted_at');
+  });
+}
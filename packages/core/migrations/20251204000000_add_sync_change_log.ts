@@ -0,0 +1,192 @@
+import type { Knex } from 'knex';
+
+/**
+ * Sync change log
+ *
+ * Offline devices used to pull by updated_at, which skips rows sharing a
+ * timestamp at page boundaries and never sees deletions. Every write to a
+ * synced table now appends to sync_change_log, which devices page through
+ * with a cursor:
+ *
+ * - Entries are read in (xact_id, seq) order, and only once the writing
+ *   transaction is older than every transaction still in progress.
+ *   Transactions commit in a different order from the one they take
+ *   sequence numbers in, so a cursor on seq alone would move past a change
+ *   still being committed and skip it.
+ * - Soft deletes (deleted_at set) and hard deletes are logged as DELETE
+ *   tombstones; restoring a soft-deleted row is logged as CREATE
+ * - The log carries the caregiver the row belonged to before the write, so a
+ *   visit reassigned away from a caregiver reaches their device as a
+ *   tombstone
+ * - sync_field_versions keeps, per record, the sequence of the last change
+ *   to each field. Devices send back the field versions they last pulled so
+ *   edits to different fields of the same record merge instead of one
+ *   overwriting the other.
+ *
+ * Existing rows are logged once as CREATE so devices can bootstrap from the
+ * log. Care plan tasks are not logged: task_instances has no organization.
+ */
+
+interface SyncedTable {
+  table: string;
+  entityType: string;
+  branchColumn: string | null;
+  caregiverColumn: string | null;
+  softDelete: boolean;
+}
+
+const SYNCED_TABLES: SyncedTable[] = [
+  { table: 'visits', entityType: 'VISIT', branchColumn: 'branch_id', caregiverColumn: 'assigned_caregiver_id', softDelete: true },
+  { table: 'evv_records', entityType: 'EVV_RECORD', branchColumn: 'branch_id', caregiverColumn: 'caregiver_id', softDelete: false },
+  { table: 'time_entries', entityType: 'TIME_ENTRY', branchColumn: null, caregiverColumn: 'caregiver_id', softDelete: false },
+  { table: 'clients', entityType: 'CLIENT', branchColumn: 'branch_id', caregiverColumn: null, softDelete: true },
+  { table: 'caregivers', entityType: 'CAREGIVER', branchColumn: 'primary_branch_id', caregiverColumn: null, softDelete: true },
+  { table: 'geofences', entityType: 'GEOFENCE', branchColumn: null, caregiverColumn: null, softDelete: false },
+];
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable('sync_change_log', (table) => {
+    table.bigIncrements('seq');
+    // Transaction that wrote the entry; see pullChanges
+    table.specificType('xact_id', 'xid8').notNullable().defaultTo(knex.raw('pg_current_xact_id()'));
+    table.uuid('organization_id').notNullable();
+    table.uuid('branch_id');
+    table.uuid('caregiver_id');
+    table.uuid('previous_caregiver_id');
+    table.string('entity_type', 32).notNullable();
+    table.uuid('entity_id').notNullable();
+    table.string('operation', 16).notNullable();
+    table.specificType('changed_fields', 'text[]').notNullable().defaultTo('{}');
+    table.timestamp('changed_at').notNullable().defaultTo(knex.fn.now());
+
+    table.check(`operation IN ('CREATE', 'UPDATE', 'DELETE')`);
+  });
+
+  await knex.raw('CREATE INDEX idx_sync_change_log_org_position ON sync_change_log(organization_id, xact_id, seq)');
+  await knex.raw('CREATE INDEX idx_sync_change_log_entity ON sync_change_log(entity_type, entity_id)');
+  await knex.raw('CREATE INDEX idx_sync_change_log_changed_at ON sync_change_log(changed_at)');
+
+  await knex.schema.createTable('sync_field_versions', (table) => {
+    table.string('entity_type', 32).notNullable();
+    table.uuid('entity_id').notNullable();
+    table.jsonb('field_versions').notNullable().defaultTo('{}');
+
+    table.primary(['entity_type', 'entity_id']);
+  });
+
+  await knex.raw(`
+    CREATE OR REPLACE FUNCTION record_sync_change()
+    RETURNS TRIGGER AS $$
+    DECLARE
+      synced_entity_type TEXT := TG_ARGV[0];
+      branch_column TEXT := NULLIF(TG_ARGV[1], '');
+      caregiver_column TEXT := NULLIF(TG_ARGV[2], '');
+      internal_fields TEXT[] := ARRAY[
+        'id', 'version', 'created_at', 'updated_at', 'created_by',
+        'updated_by', 'deleted_at', 'deleted_by', 'organization_id'
+      ];
+      new_row JSONB;
+      old_row JSONB;
+      current_row JSONB;
+      change_operation TEXT;
+      fields TEXT[];
+      change_seq BIGINT;
+    BEGIN
+      IF TG_OP <> 'INSERT' THEN
+        old_row := to_jsonb(OLD);
+      END IF;
+      IF TG_OP <> 'DELETE' THEN
+        new_row := to_jsonb(NEW);
+      END IF;
+      current_row := COALESCE(new_row, old_row);
+
+      IF TG_OP = 'DELETE' THEN
+        change_operation := 'DELETE';
+      ELSIF TG_OP = 'INSERT' OR (old_row->>'deleted_at' IS NOT NULL AND new_row->>'deleted_at' IS NULL) THEN
+        change_operation := 'CREATE';
+      ELSIF old_row->>'deleted_at' IS NULL AND new_row->>'deleted_at' IS NOT NULL THEN
+        change_operation := 'DELETE';
+      ELSE
+        change_operation := 'UPDATE';
+      END IF;
+
+      IF change_operation <> 'DELETE' THEN
+        SELECT COALESCE(array_agg(field.key ORDER BY field.key), '{}')
+        INTO fields
+        FROM jsonb_each(new_row) AS field
+        WHERE NOT field.key = ANY(internal_fields)
+          AND (old_row IS NULL OR field.value IS DISTINCT FROM old_row->field.key);
+
+        -- Writes that only touch bookkeeping columns are not changes
+        IF change_operation = 'UPDATE' AND cardinality(fields) = 0 THEN
+          RETURN NULL;
+        END IF;
+      ELSE
+        fields := '{}';
+      END IF;
+
+      INSERT INTO sync_change_log (
+        organization_id, branch_id, caregiver_id, previous_caregiver_id,
+        entity_type, entity_id, operation, changed_fields
+      ) VALUES (
+        (current_row->>'organization_id')::uuid,
+        (current_row->>branch_column)::uuid,
+        (new_row->>caregiver_column)::uuid,
+        (old_row->>caregiver_column)::uuid,
+        synced_entity_type,
+        (current_row->>'id')::uuid,
+        change_operation,
+        fields
+      )
+      RETURNING seq INTO change_seq;
+
+      IF TG_OP = 'DELETE' THEN
+        DELETE FROM sync_field_versions
+        WHERE entity_type = synced_entity_type
+          AND entity_id = (old_row->>'id')::uuid;
+      ELSIF cardinality(fields) > 0 THEN
+        INSERT INTO sync_field_versions (entity_type, entity_id, field_versions)
+        SELECT synced_entity_type, (new_row->>'id')::uuid, jsonb_object_agg(field, change_seq)
+        FROM unnest(fields) AS field
+        ON CONFLICT (entity_type, entity_id) DO UPDATE
+        SET field_versions = sync_field_versions.field_versions || EXCLUDED.field_versions;
+      END IF;
+
+      RETURN NULL;
+    END;
+    $$ LANGUAGE plpgsql
+  `);
+
+  for (const synced of SYNCED_TABLES) {
+    await knex.raw(
+      `INSERT INTO sync_change_log (organization_id, branch_id, caregiver_id, entity_type, entity_id, operation)
+       SELECT organization_id, ${synced.branchColumn ?? 'NULL'}, ${synced.caregiverColumn ?? 'NULL'}, ?, id, 'CREATE'
+       FROM ${synced.table}
+       ${synced.softDelete ? 'WHERE deleted_at IS NULL' : ''}
+       ORDER BY updated_at`,
+      [synced.entityType]
+    );
+
+    await knex.raw(`
+      CREATE TRIGGER ${synced.table}_sync_change_log
+        AFTER INSERT OR UPDATE OR DELETE ON ${synced.table}
+        FOR EACH ROW
+        EXECUTE FUNCTION record_sync_change('${synced.entityType}', '${synced.branchColumn ?? ''}', '${synced.caregiverColumn ?? ''}')
+    `);
+  }
+
+  await knex.raw("COMMENT ON TABLE sync_change_log IS 'Append-only log of writes to synced tables; (xact_id, seq) is the cursor offline devices pull from'");
+  await knex.raw("COMMENT ON COLUMN sync_change_log.xact_id IS 'Writing transaction; entries are only pulled once it is older than every transaction in progress'");
+  await knex.raw("COMMENT ON COLUMN sync_change_log.previous_caregiver_id IS 'Caregiver the row belonged to before the write, so reassignment reaches their device as a tombstone'");
+  await knex.raw("COMMENT ON COLUMN sync_change_log.changed_fields IS 'Fields whose value changed; empty for tombstones'");
+  await knex.raw("COMMENT ON TABLE sync_field_versions IS 'Per record, the change log seq that last changed each field'");
+}
+
+export async function down(knex: Knex): Promise<void> {
+  for (const synced of SYNCED_TABLES) {
+    await knex.raw(`DROP TRIGGER IF EXISTS ${synced.table}_sync_change_log ON ${synced.table}`);
+  }
+  await knex.raw('DROP FUNCTION IF EXISTS record_sync_change()');
+  await knex.schema.dropTableIfExists('sync_field_versions');
+  await knex.schema.dropTableIfExists('sync_change_log');
+}
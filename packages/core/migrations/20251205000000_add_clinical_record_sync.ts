@@ -0,0 +1,132 @@
+import type { Knex } from 'knex';
+
+/**
+ * Offline sync of clinical records
+ *
+ * Aides lose MAR entries and incident drafts when they chart without signal.
+ * Medication administrations, visit notes (with their signatures), incident
+ * reports and photo attachments now sync through the change log like visits
+ * and EVV records:
+ *
+ * - visit_notes gets the version column pushed edits are checked against
+ * - attachments holds photo and document metadata for any synced record;
+ *   the file itself is uploaded in chunks to attachment_chunks so an upload
+ *   cut off by a dropped connection resumes where it stopped, and is only
+ *   marked UPLOADED once the checksum of the whole file matches
+ * - The four tables are logged to sync_change_log with the same trigger as
+ *   the other synced tables. The MAR and incidents have no branch or
+ *   caregiver column, so they sync to every device in the organization
+ *   that asks for them.
+ */
+
+interface SyncedTable {
+  table: string;
+  entityType: string;
+  branchColumn: string | null;
+  caregiverColumn: string | null;
+  softDelete: boolean;
+  /** Column existing rows are backfilled in order of */
+  orderColumn: string;
+}
+
+const SYNCED_TABLES: SyncedTable[] = [
+  { table: 'medication_administrations', entityType: 'MEDICATION_ADMINISTRATION', branchColumn: null, caregiverColumn: null, softDelete: false, orderColumn: 'created_at' },
+  { table: 'visit_notes', entityType: 'VISIT_NOTE', branchColumn: null, caregiverColumn: 'caregiver_id', softDelete: true, orderColumn: 'updated_at' },
+  { table: 'incidents', entityType: 'INCIDENT', branchColumn: null, caregiverColumn: null, softDelete: false, orderColumn: 'updated_at' },
+  { table: 'attachments', entityType: 'ATTACHMENT', branchColumn: 'branch_id', caregiverColumn: 'caregiver_id', softDelete: true, orderColumn: 'updated_at' },
+];
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('visit_notes', (table) => {
+    table.integer('version').notNullable().defaultTo(1);
+  });
+
+  await knex.schema.createTable('attachments', (table) => {
+    // Generated on the device, so the record syncs before its file uploads
+    table.uuid('id').primary();
+    table.uuid('organization_id').notNullable().references('id').inTable('organizations').onDelete('CASCADE');
+    table.uuid('branch_id').references('id').inTable('branches');
+    table.uuid('caregiver_id').references('id').inTable('caregivers');
+
+    // Record the attachment belongs to
+    table.string('entity_type', 32).notNullable();
+    table.uuid('entity_id').notNullable();
+
+    table.string('attachment_type', 20).notNullable().defaultTo('PHOTO');
+    table.string('file_name', 255).notNullable();
+    table.string('mime_type', 100).notNullable();
+    table.bigInteger('file_size').notNullable();
+    table.string('checksum', 64).notNullable();
+    table.text('caption');
+    table.jsonb('metadata').notNullable().defaultTo('{}');
+
+    // Upload
+    table.string('upload_status', 20).notNullable().defaultTo('PENDING');
+    table.integer('chunk_size');
+    table.timestamp('uploaded_at');
+
+    table.timestamp('created_at').notNullable().defaultTo(knex.fn.now());
+    table.uuid('created_by').notNullable().references('id').inTable('users');
+    table.timestamp('updated_at').notNullable().defaultTo(knex.fn.now());
+    table.uuid('updated_by').notNullable().references('id').inTable('users');
+    table.integer('version').notNullable().defaultTo(1);
+    table.timestamp('deleted_at');
+    table.uuid('deleted_by').references('id').inTable('users');
+
+    table.check(`entity_type IN ('VISIT', 'VISIT_NOTE', 'INCIDENT', 'MEDICATION_ADMINISTRATION')`);
+    table.check(`attachment_type IN ('PHOTO', 'SIGNATURE', 'DOCUMENT')`);
+    table.check(`upload_status IN ('PENDING', 'UPLOADING', 'UPLOADED', 'FAILED')`);
+    table.check('file_size >= 0');
+  });
+
+  await knex.raw('CREATE INDEX idx_attachments_entity ON attachments(entity_type, entity_id) WHERE deleted_at IS NULL');
+  await knex.raw("CREATE INDEX idx_attachments_pending_upload ON attachments(organization_id, upload_status) WHERE upload_status <> 'UPLOADED'");
+
+  await knex.schema.createTable('attachment_chunks', (table) => {
+    table.uuid('attachment_id').notNullable().references('id').inTable('attachments').onDelete('CASCADE');
+    table.integer('chunk_index').notNullable();
+    table.binary('data').notNullable();
+    table.integer('size').notNullable();
+    table.timestamp('received_at').notNullable().defaultTo(knex.fn.now());
+
+    table.primary(['attachment_id', 'chunk_index']);
+    table.check('chunk_index >= 0');
+  });
+
+  for (const synced of SYNCED_TABLES) {
+    await knex.raw(
+      `INSERT INTO sync_change_log (organization_id, branch_id, caregiver_id, entity_type, entity_id, operation)
+       SELECT organization_id, ${synced.branchColumn ?? 'NULL'}, ${synced.caregiverColumn ?? 'NULL'}, ?, id, 'CREATE'
+       FROM ${synced.table}
+       ${synced.softDelete ? 'WHERE deleted_at IS NULL' : ''}
+       ORDER BY ${synced.orderColumn}`,
+      [synced.entityType]
+    );
+
+    await knex.raw(`
+      CREATE TRIGGER ${synced.table}_sync_change_log
+        AFTER INSERT OR UPDATE OR DELETE ON ${synced.table}
+        FOR EACH ROW
+        EXECUTE FUNCTION record_sync_change('${synced.entityType}', '${synced.branchColumn ?? ''}', '${synced.caregiverColumn ?? ''}')
+    `);
+  }
+
+  await knex.raw("COMMENT ON TABLE attachments IS 'Photos, signatures and documents attached to synced records; the file is uploaded in chunks'");
+  await knex.raw("COMMENT ON COLUMN attachments.checksum IS 'SHA-256 of the whole file, hex encoded; the upload completes only when the received chunks match it'");
+  await knex.raw("COMMENT ON TABLE attachment_chunks IS 'Received chunks of attachment files, so interrupted uploads resume from the first missing chunk'");
+}
+
+export async function down(knex: Knex): Promise<void> {
+  for (const synced of SYNCED_TABLES) {
+    await knex.raw(`DROP TRIGGER IF EXISTS ${synced.table}_sync_change_log ON ${synced.table}`);
+    await knex('sync_change_log').where('entity_type', synced.entityType).delete();
+    await knex('sync_field_versions').where('entity_type', synced.entityType).delete();
+  }
+
+  await knex.schema.dropTableIfExists('attachment_chunks');
+  await knex.schema.dropTableIfExists('attachments');
+
+  await knex.schema.alterTable('visit_notes', (table) => {
+    table.dropColumn('version');
+  });
+}
@@ -0,0 +1,101 @@
+import type { Knex } from 'knex';
+
+/**
+ * Data retention policies, legal holds and purge runs
+ *
+ * Replaces the hand-run scripts/data-retention.sql, which deleted visits
+ * seven years out whatever the state rules or open investigations:
+ *
+ * - retention_policies lets an organization keep a kind of record longer
+ *   than the default, for every state or one state. Nothing can be set
+ *   below the legal minimum; the service checks that before saving.
+ * - legal_holds stops any record of a client, caregiver or incident from
+ *   being purged until the hold is released. Released holds are kept.
+ * - retention_runs is the audit trail of every dry run and purge: who ran
+ *   it, as of when, what was eligible, what was held, what was deleted and
+ *   where the archive of the deleted rows was written.
+ */
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable('retention_policies', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('uuid_generate_v4()'));
+    table.uuid('organization_id').notNullable().references('id').inTable('organizations').onDelete('CASCADE');
+    table.string('entity_type', 32).notNullable();
+    // NULL applies to every state without a policy of its own
+    table.string('state_code', 2);
+    table.integer('retention_years').notNullable();
+    table.text('notes');
+
+    table.timestamp('created_at').notNullable().defaultTo(knex.fn.now());
+    table.uuid('created_by').references('id').inTable('users');
+    table.timestamp('updated_at').notNullable().defaultTo(knex.fn.now());
+    table.uuid('updated_by').references('id').inTable('users');
+
+    table.check(`entity_type IN ('VISIT', 'EVV_RECORD', 'CLINICAL_NOTE', 'INCIDENT', 'PAYROLL', 'AUDIT_LOG')`);
+    table.check('retention_years BETWEEN 1 AND 100');
+  });
+
+  // One policy per entity and state; NULLS NOT DISTINCT needs Postgres 15
+  await knex.raw(`
+    CREATE UNIQUE INDEX idx_retention_policies_scope
+    ON retention_policies(organization_id, entity_type, COALESCE(state_code, ''))
+  `);
+
+  await knex.schema.createTable('legal_holds', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('uuid_generate_v4()'));
+    table.uuid('organization_id').notNullable().references('id').inTable('organizations').onDelete('CASCADE');
+    table.string('subject_type', 20).notNullable();
+    table.uuid('subject_id').notNullable();
+    table.text('reason').notNullable();
+    table.string('matter_reference', 200);
+
+    table.timestamp('placed_at').notNullable().defaultTo(knex.fn.now());
+    table.uuid('placed_by').notNullable().references('id').inTable('users');
+    table.timestamp('released_at');
+    table.uuid('released_by').references('id').inTable('users');
+    table.text('release_reason');
+
+    table.check(`subject_type IN ('CLIENT', 'CAREGIVER', 'INCIDENT')`);
+    table.check('(released_at IS NULL) = (released_by IS NULL)');
+  });
+
+  await knex.raw('CREATE INDEX idx_legal_holds_active ON legal_holds(organization_id, subject_type, subject_id) WHERE released_at IS NULL');
+
+  await knex.schema.createTable('retention_runs', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('uuid_generate_v4()'));
+    table.uuid('organization_id').notNullable().references('id').inTable('organizations').onDelete('CASCADE');
+    table.string('run_type', 10).notNullable();
+    table.string('status', 10).notNullable().defaultTo('RUNNING');
+    table.timestamp('as_of').notNullable();
+    // NULL when run from the scheduled script
+    table.uuid('started_by').references('id').inTable('users');
+    table.timestamp('started_at').notNullable().defaultTo(knex.fn.now());
+    table.timestamp('completed_at');
+
+    table.jsonb('report');
+    table.jsonb('archive_files').notNullable().defaultTo('[]');
+    table.text('error');
+
+    table.check(`run_type IN ('DRY_RUN', 'PURGE')`);
+    table.check(`status IN ('RUNNING', 'COMPLETED', 'FAILED')`);
+  });
+
+  await knex.raw('CREATE INDEX idx_retention_runs_organization ON retention_runs(organization_id, started_at DESC)');
+  // A second purge for the organization fails to start while one is running
+  await knex.raw(`
+    CREATE UNIQUE INDEX idx_retention_runs_one_purge
+    ON retention_runs(organization_id)
+    WHERE run_type = 'PURGE' AND status = 'RUNNING'
+  `);
+
+  await knex.raw("COMMENT ON TABLE retention_policies IS 'Organization retention periods per kind of record, never below the legal minimum'");
+  await knex.raw("COMMENT ON TABLE legal_holds IS 'Holds that stop every record of a client, caregiver or incident from being purged'");
+  await knex.raw("COMMENT ON TABLE retention_runs IS 'Audit trail of retention dry runs and purges'");
+  await knex.raw("COMMENT ON COLUMN retention_runs.archive_files IS 'Gzipped JSON Lines files the purged rows were written to before deletion, with their SHA-256'");
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('retention_runs');
+  await knex.schema.dropTableIfExists('legal_holds');
+  await knex.schema.dropTableIfExists('retention_policies');
+}
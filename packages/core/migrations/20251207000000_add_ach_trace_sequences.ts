@@ -0,0 +1,26 @@
+import type { Knex } from 'knex';
+
+/**
+ * ACH trace sequences
+ *
+ * Every entry in a NACHA file carries a trace number: the ODFI's 8-digit
+ * routing prefix and a 7-digit sequence. Sequences used to restart at 1 in
+ * every file, so a return could not tell one pay run's deposit from
+ * another's. Each file now reserves its sequences from a counter per ODFI
+ * that only moves forward.
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable('ach_trace_sequences', (table) => {
+    table.string('odfi_id', 8).primary();
+    table.bigInteger('last_sequence').notNullable().defaultTo(0);
+    table.timestamp('updated_at').notNullable().defaultTo(knex.fn.now());
+
+    table.check('last_sequence >= 0');
+  });
+
+  await knex.raw("COMMENT ON TABLE ach_trace_sequences IS 'Last ACH trace sequence used per ODFI; trace numbers use it modulo 10,000,000'");
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('ach_trace_sequences');
+}
@@ -0,0 +1,27 @@
+import type { Knex } from 'knex';
+
+/**
+ * EDI interchange control numbers
+ *
+ * Each 837 interchange carries an ISA13/GS06 control number that
+ * clearinghouses use to reject duplicate files. Numbers used to be derived
+ * from how many batches an organization's claims were in, which went down
+ * whenever a rejected claim was resubmitted, so numbers were reused. Each
+ * interchange now reserves its number from a counter per organization that
+ * only moves forward.
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable('edi_control_numbers', (table) => {
+    table.uuid('organization_id').primary().references('id').inTable('organizations').onDelete('CASCADE');
+    table.bigInteger('last_control_number').notNullable().defaultTo(0);
+    table.timestamp('updated_at').notNullable().defaultTo(knex.fn.now());
+
+    table.check('last_control_number >= 0');
+  });
+
+  await knex.raw("COMMENT ON TABLE edi_control_numbers IS 'Last X12 interchange control number used per organization; ISA13 uses it modulo 999,999,999'");
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('edi_control_numbers');
+}
@@ -0,0 +1,47 @@
+import type { Knex } from 'knex';
+
+/**
+ * Telephony PIN hardening
+ *
+ * PINs were stored as a plain SHA-256 of the organization ID and PIN, which
+ * anyone with a copy of the caregivers table could reverse by trying every
+ * 4-8 digit PIN. They are now an HMAC keyed with a server secret
+ * (TELEPHONY_PIN_SECRET). The old hashes cannot be converted, so existing
+ * PINs are cleared and coordinators set new ones.
+ *
+ * Incorrect PINs used to be limited per call only, so a caller could keep
+ * guessing by calling back. Each incorrect PIN is now recorded against the
+ * calling number and the caregivers expected at that home, and either one
+ * is locked out of phone clock-in after too many in a short window.
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex('caregivers')
+    .whereNotNull('telephony_pin_hash')
+    .update({ telephony_pin_hash: null, telephony_pin_set_at: null });
+
+  await knex.schema.createTable('telephony_pin_failures', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('uuid_generate_v4()'));
+    table.uuid('call_session_id').notNullable().references('id').inTable('ivr_call_sessions').onDelete('CASCADE');
+    table.string('from_number', 20).notNullable();
+    table.specificType('caregiver_ids', 'uuid[]').notNullable().defaultTo('{}');
+    table.timestamp('failed_at').notNullable().defaultTo(knex.fn.now());
+  });
+
+  await knex.raw(`
+    CREATE INDEX idx_telephony_pin_failures_number
+    ON telephony_pin_failures(from_number, failed_at)
+  `);
+  await knex.raw(`
+    CREATE INDEX idx_telephony_pin_failures_caregivers
+    ON telephony_pin_failures USING GIN (caregiver_ids)
+  `);
+
+  await knex.raw("COMMENT ON TABLE telephony_pin_failures IS 'Incorrect IVR PINs by calling number and the caregivers expected at that home, for lockouts across calls'");
+  await knex.raw("COMMENT ON COLUMN caregivers.telephony_pin_hash IS 'HMAC-SHA256 (TELEPHONY_PIN_SECRET) of organization ID and IVR PIN; PINs are never stored in clear'");
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('telephony_pin_failures');
+  // Cleared PINs cannot be restored; coordinators set them again
+  await knex.raw("COMMENT ON COLUMN caregivers.telephony_pin_hash IS 'SHA-256 of organization ID and IVR PIN; PINs are never stored in clear'");
+}
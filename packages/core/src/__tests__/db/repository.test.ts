@@ -197,6 +197,18 @@ describe('Repository Pattern', () => {
 
       expect(mockDatabase.query).toHaveBeenCalledTimes(1); // Only INSERT, no audit
     });
+
+    it('should write the entity and its audit revision on a transaction client', async () => {
+      const client = {
+        query: vi.fn().mockResolvedValue({ rows: [{ id: 'test-entity-id', name: 'Test' }], rowCount: 1 }),
+      };
+
+      await repository.create({ name: 'Test', email: TEST_EMAIL, status: 'ACTIVE' }, mockUserContext, client as any);
+
+      expect(client.query).toHaveBeenCalledTimes(2);
+      expect(client.query.mock.calls[1]![0]).toContain('INSERT INTO audit_revisions');
+      expect(mockDatabase.query).not.toHaveBeenCalled();
+    });
   });
 
   describe('Read Operations', () => {
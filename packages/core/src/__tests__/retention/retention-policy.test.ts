@@ -0,0 +1,65 @@
+/**
+ * Retention Policy Tests
+ *
+ * Tests how retention periods resolve from defaults, organization policies
+ * and federal and state minimums.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_RETENTION_YEARS,
+  buildRetentionSchedule,
+  getMinimumRetentionYears,
+  resolveRetentionYears,
+} from '../../retention/retention-policy';
+import type { RetentionPolicy } from '../../retention/types';
+
+const policy = (overrides: Partial<RetentionPolicy>): RetentionPolicy => ({
+  id: 'policy_1',
+  organizationId: 'org_1',
+  entityType: 'CLINICAL_NOTE',
+  stateCode: null,
+  retentionYears: 10,
+  notes: null,
+  updatedAt: new Date('2025-01-01'),
+  updatedBy: null,
+  ...overrides,
+});
+
+describe('retention policy resolution', () => {
+  it('should use the default without policies', () => {
+    expect(resolveRetentionYears('VISIT', 'OH', [])).toBe(DEFAULT_RETENTION_YEARS.VISIT);
+  });
+
+  it('should prefer a state policy over one for every state', () => {
+    const policies = [policy({ retentionYears: 8 }), policy({ id: 'policy_2', stateCode: 'TX', retentionYears: 12 })];
+
+    expect(resolveRetentionYears('CLINICAL_NOTE', 'TX', policies)).toBe(12);
+    expect(resolveRetentionYears('CLINICAL_NOTE', 'OH', policies)).toBe(8);
+    expect(resolveRetentionYears('VISIT', 'TX', policies)).toBe(DEFAULT_RETENTION_YEARS.VISIT);
+  });
+
+  it('should never go below the state minimum', () => {
+    const policies = [policy({ retentionYears: 6 })];
+
+    expect(getMinimumRetentionYears('CLINICAL_NOTE', 'PA')).toBe(7);
+    expect(resolveRetentionYears('CLINICAL_NOTE', 'PA', policies)).toBe(7);
+    expect(resolveRetentionYears('CLINICAL_NOTE', 'OH', policies)).toBe(6);
+  });
+
+  it('should apply state minimums to care records only', () => {
+    expect(getMinimumRetentionYears('PAYROLL', 'PA')).toBe(4);
+    expect(getMinimumRetentionYears('AUDIT_LOG', 'PA')).toBe(6);
+  });
+
+  it('should keep records of an unknown state for the longest period of any state', () => {
+    const policies = [policy({ retentionYears: 6 }), policy({ id: 'policy_2', stateCode: 'FL', retentionYears: 9 })];
+    const schedule = buildRetentionSchedule('CLINICAL_NOTE', policies);
+
+    expect(schedule.defaultYears).toBe(6);
+    expect(schedule.byState.PA).toBe(7);
+    expect(schedule.byState.FL).toBe(9);
+    expect(schedule.unknownStateYears).toBe(9);
+    expect(resolveRetentionYears('CLINICAL_NOTE', null, policies)).toBe(9);
+  });
+});
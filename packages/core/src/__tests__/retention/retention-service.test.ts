@@ -0,0 +1,311 @@
+/**
+ * Retention Service Tests
+ *
+ * Tests dry runs, archived purges, policies and legal holds. The database
+ * answers the service's queries from in-memory tables of record ids.
+ */
+
+/* eslint-disable security/detect-non-literal-fs-filename -- archives are written to a temporary directory */
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createHash } from 'node:crypto';
+import { mkdtemp, readFile, rm, stat } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { gunzipSync } from 'node:zlib';
+import type { Database } from '../../db/connection';
+import { RetentionService } from '../../retention/retention-service';
+import { RetentionPolicyService } from '../../retention/retention-policy-service';
+import { LegalHoldService } from '../../retention/legal-hold-service';
+
+const ORG_ID = 'org_1';
+const USER_ID = 'user_1';
+
+interface DbOptions {
+  /** Eligible record ids per table */
+  eligible?: Record<string, string[]>;
+  /** Ids a foreign key still references */
+  referenced?: string[];
+  /** Rows deleted with a purged row, per table, with the id they reference */
+  cascaded?: Record<string, { id: string; parentId: string }[]>;
+  /** ON DELETE CASCADE foreign keys in the catalog */
+  catalog?: { child_table: string; fk_column: string; parent_table: string }[];
+  /** Another purge holds the organization's lock */
+  locked?: boolean;
+  reportRows?: Record<string, Record<string, unknown>[]>;
+  /** Fail the query whose text contains this */
+  failOn?: string;
+  rows?: Record<string, unknown>[];
+}
+
+function createDb(options: DbOptions = {}) {
+  const eligible = new Map(Object.entries(options.eligible ?? {}).map(([table, ids]) => [table, [...ids]]));
+  const referenced = new Set(options.referenced);
+  const cascaded = new Map(Object.entries(options.cascaded ?? {}).map(([table, rows]) => [table, [...rows]]));
+  const reportRows = new Map(Object.entries(options.reportRows ?? {}));
+  const runs = new Map<string, Record<string, unknown>>();
+  const queries: { text: string; params: unknown[] }[] = [];
+
+  const query = async (text: string, params: unknown[] = []) => {
+    queries.push({ text, params });
+    if (options.failOn !== undefined && text.includes(options.failOn)) {
+      throw new Error('connection reset');
+    }
+
+    const table = /FROM (\w+) t\b/.exec(text)?.[1] ?? '';
+
+    if (text.includes('pg_try_advisory_lock')) {
+      return { rows: [{ locked: options.locked !== true }] };
+    }
+    if (text.includes('pg_constraint')) {
+      return { rows: options.catalog ?? [] };
+    }
+    if (text.startsWith('DELETE FROM') && text.includes('RETURNING to_jsonb(c)')) {
+      return { rows: deleteCascaded(cascaded, text, params[0] as string[]) };
+    }
+    if (text.includes('COUNT(*) FILTER')) {
+      return { rows: reportRows.get(table) ?? [] };
+    }
+    if (text.includes('FOR UPDATE OF t')) {
+      const after = params[4] as string | null;
+      const ids = (eligible.get(table) ?? []).filter(id => after === null || id > after).slice(0, params[5] as number);
+      return { rows: ids.map(id => ({ id })) };
+    }
+    if (text.startsWith('DELETE FROM') && text.includes('RETURNING to_jsonb')) {
+      const ids = params[0] as string[];
+      if (ids.some(id => referenced.has(id))) {
+        throw Object.assign(new Error('violates foreign key constraint'), { code: '23503' });
+      }
+      eligible.set(table, (eligible.get(table) ?? []).filter(id => !ids.includes(id)));
+      return { rows: ids.map(id => ({ record: { id, table } })) };
+    }
+    if (text.includes("status = 'RUNNING'")) {
+      return { rows: [] };
+    }
+    if (text.includes('retention_runs')) {
+      return { rows: [recordRun(runs, text, params)] };
+    }
+    if (text.includes('UPDATE legal_holds')) {
+      return { rows: [] };
+    }
+    return { rows: options.rows ?? [], rowCount: options.rows?.length ?? 0 };
+  };
+
+  const db = {
+    query,
+    transaction: async (callback: (client: unknown) => unknown) => callback({ query }),
+    getClient: async () => ({ query, release: () => undefined }),
+  };
+  return { db: db as unknown as Database, eligible, cascaded, runs, queries };
+}
+
+/**
+ * Delete the cascade rows referencing the purged ids
+ */
+function deleteCascaded(cascaded: Map<string, { id: string; parentId: string }[]>, text: string, ids: string[]) {
+  const table = /^DELETE FROM (\w+)/.exec(text)![1]!;
+  const rows = cascaded.get(table) ?? [];
+  cascaded.set(table, rows.filter(row => !ids.includes(row.parentId)));
+  return rows.filter(row => ids.includes(row.parentId)).map(row => ({ record: { id: row.id, table } }));
+}
+
+/**
+ * Insert or finish a retention run
+ */
+function recordRun(runs: Map<string, Record<string, unknown>>, text: string, params: unknown[]) {
+  if (text.startsWith('UPDATE')) {
+    const run = runs.get(params[0] as string)!;
+    return Object.assign(run, {
+      status: params[1],
+      report: JSON.parse(params[2] as string),
+      archive_files: JSON.parse(params[3] as string),
+      error: params[4],
+    });
+  }
+
+  const run = {
+    id: `run_${runs.size + 1}`,
+    organization_id: params[0],
+    run_type: text.includes("'DRY_RUN'") ? 'DRY_RUN' : 'PURGE',
+    status: text.includes("'COMPLETED'") ? 'COMPLETED' : 'RUNNING',
+    as_of: params[1],
+    started_by: params[2],
+    report: params[3] === undefined ? null : JSON.parse(params[3] as string),
+    archive_files: [],
+    error: null,
+  };
+  runs.set(run.id, run);
+  return run;
+}
+
+describe('RetentionService', () => {
+  let archiveDir: string;
+
+  beforeEach(async () => {
+    archiveDir = await mkdtemp(join(tmpdir(), 'retention-'));
+  });
+
+  afterEach(async () => {
+    await rm(archiveDir, { recursive: true, force: true });
+  });
+
+  it('should report eligible and held records per state without deleting', async () => {
+    const store = createDb({
+      eligible: { visits: ['v1'] },
+      reportRows: {
+        visits: [
+          { state_code: 'PA', retention_years: 7, eligible: 3, held: 1, waiting_on_dependents: 2, oldest_record_date: '2015-02-01' },
+          { state_code: null, retention_years: 7, eligible: 1, held: 0, waiting_on_dependents: 0, oldest_record_date: '2016-05-01' },
+        ],
+        pay_stubs: [
+          { state_code: 'OH', retention_years: 7, eligible: 4, held: 2, waiting_on_dependents: 0, oldest_record_date: '2017-01-13' },
+        ],
+      },
+    });
+    const service = new RetentionService(store.db);
+
+    const run = await service.dryRun(ORG_ID, { startedBy: USER_ID });
+
+    expect(run).toMatchObject({ runType: 'DRY_RUN', status: 'COMPLETED', startedBy: USER_ID });
+    expect(run.report?.totals).toEqual({ eligible: 8, held: 3, waitingOnDependents: 2 });
+    expect(run.report?.entries[0]).toMatchObject({ entityType: 'VISIT', table: 'visits', stateCode: 'PA', held: 1 });
+    expect(store.queries.some(q => q.text.startsWith('DELETE'))).toBe(false);
+
+    const params = store.queries.find(q => q.text.includes('FROM visits t'))!.params;
+    expect(JSON.parse(params[2] as string)).toMatchObject({ PA: 7, OH: 7 });
+    expect(params[3]).toBe(7);
+  });
+
+  it('should archive purged rows in batches before deleting them', async () => {
+    const store = createDb({ eligible: { evv_records: ['e1', 'e2', 'e3'], visits: ['v1'] } });
+    const service = new RetentionService(store.db, { archiveDir, batchSize: 2 });
+
+    const run = await service.purge(ORG_ID);
+
+    expect(run.status).toBe('COMPLETED');
+    expect(run.report?.purged).toContainEqual({
+      entityType: 'EVV_RECORD', table: 'evv_records', purged: 3, skippedReferenced: 0, cascaded: 0,
+    });
+    expect(run.report?.purged).toContainEqual({ entityType: 'VISIT', table: 'visits', purged: 1, skippedReferenced: 0, cascaded: 0 });
+
+    const evvArchive = run.archiveFiles.find(file => file.table === 'evv_records')!;
+    const data = await readFile(evvArchive.path);
+    expect(evvArchive).toMatchObject({ records: 3, bytes: data.length, sha256: createHash('sha256').update(data).digest('hex') });
+    expect(evvArchive.path).toBe(join(archiveDir, ORG_ID, run.id, 'evv_records.jsonl.gz'));
+    expect(gunzipSync(data).toString().trim().split('\n').map(line => JSON.parse(line).id)).toEqual(['e1', 'e2', 'e3']);
+    expect((await stat(evvArchive.path)).mode & 0o777).toBe(0o600);
+  });
+
+  it('should archive the EVV audit trail deleted along with a record', async () => {
+    const store = createDb({
+      eligible: { evv_records: ['e1', 'e2'] },
+      cascaded: {
+        evv_revisions: [{ id: 'r1', parentId: 'e1' }, { id: 'r2', parentId: 'e2' }],
+        evv_access_log: [{ id: 'a1', parentId: 'e1' }, { id: 'a9', parentId: 'e9' }],
+      },
+    });
+    const service = new RetentionService(store.db, { archiveDir });
+
+    const run = await service.purge(ORG_ID);
+
+    expect(run.report?.purged).toContainEqual({
+      entityType: 'EVV_RECORD', table: 'evv_records', purged: 2, skippedReferenced: 0, cascaded: 3,
+    });
+    const revisions = run.archiveFiles.find(file => file.table === 'evv_revisions')!;
+    expect(gunzipSync(await readFile(revisions.path)).toString().trim().split('\n').map(line => JSON.parse(line).id)).toEqual(['r1', 'r2']);
+    expect(store.cascaded.get('evv_access_log')).toEqual([{ id: 'a9', parentId: 'e9' }]);
+
+    const deletes = store.queries.map(q => q.text).filter(text => text.startsWith('DELETE'));
+    expect(deletes.findIndex(text => text.startsWith('DELETE FROM evv_records'))).toBeGreaterThan(
+      deletes.findIndex(text => text.startsWith('DELETE FROM evv_revisions'))
+    );
+  });
+
+  it('should refuse to purge when a cascade would delete rows it does not archive', async () => {
+    const store = createDb({
+      eligible: { evv_records: ['e1'] },
+      catalog: [
+        { child_table: 'evv_revisions', fk_column: 'evv_record_id', parent_table: 'evv_records' },
+        { child_table: 'evv_signatures', fk_column: 'evv_record_id', parent_table: 'evv_records' },
+      ],
+    });
+    const service = new RetentionService(store.db, { archiveDir });
+
+    await expect(service.purge(ORG_ID)).rejects.toThrow('evv_signatures.evv_record_id->evv_records');
+
+    expect(store.eligible.get('evv_records')).toEqual(['e1']);
+    expect([...store.runs.values()][0]).toMatchObject({ status: 'FAILED' });
+  });
+
+  it('should leave rows still referenced by kept records in place', async () => {
+    const store = createDb({ eligible: { visits: ['v1', 'v2', 'v3'] }, referenced: ['v2'] });
+    const service = new RetentionService(store.db, { archiveDir });
+
+    const run = await service.purge(ORG_ID);
+
+    expect(run.report?.purged).toContainEqual({ entityType: 'VISIT', table: 'visits', purged: 2, skippedReferenced: 1, cascaded: 0 });
+    expect(store.eligible.get('visits')).toEqual(['v2']);
+    expect(store.queries.map(q => q.text)).toContain('ROLLBACK TO SAVEPOINT retention_delete');
+  });
+
+  it('should record a failed purge and rethrow', async () => {
+    const store = createDb({ eligible: { evv_records: ['e1'] }, failOn: 'FROM pay_stubs t' });
+    const service = new RetentionService(store.db, { archiveDir });
+
+    await expect(service.purge(ORG_ID)).rejects.toThrow('connection reset');
+
+    const run = [...store.runs.values()][0]!;
+    expect(run).toMatchObject({ status: 'FAILED', error: 'connection reset' });
+  });
+
+  it('should refuse to start a second purge for the organization', async () => {
+    const store = createDb({ locked: true });
+
+    await expect(new RetentionService(store.db, { archiveDir }).purge(ORG_ID)).rejects.toThrow('already running');
+    expect(store.runs.size).toBe(0);
+  });
+
+  it('should fail runs left running by a purge that died', async () => {
+    const store = createDb();
+
+    await new RetentionService(store.db, { archiveDir }).purge(ORG_ID);
+
+    const interrupted = store.queries.findIndex(q => q.text.includes("status = 'RUNNING'"));
+    expect(interrupted).toBeGreaterThan(-1);
+    expect(store.queries.at(interrupted)!.params).toEqual([ORG_ID]);
+    expect(interrupted).toBeLessThan(store.queries.findIndex(q => q.text.includes('INSERT INTO retention_runs')));
+  });
+
+  it('should refuse runs dated in the future or purges without an archive', async () => {
+    const service = new RetentionService(createDb().db, { archiveDir });
+
+    await expect(service.dryRun(ORG_ID, { asOf: new Date(Date.now() + 86_400_000) })).rejects.toThrow('in the future');
+    await expect(new RetentionService(createDb().db).purge(ORG_ID)).rejects.toThrow('archive directory is required');
+  });
+});
+
+describe('RetentionPolicyService', () => {
+  it('should refuse a policy below the legal minimum for its state', async () => {
+    const service = new RetentionPolicyService(createDb().db);
+
+    await expect(service.setPolicy(ORG_ID, { entityType: 'CLINICAL_NOTE', stateCode: 'PA', retentionYears: 6 }, USER_ID))
+      .rejects.toThrow('Retention for CLINICAL_NOTE in PA must be between 7 and 100 years');
+    await expect(service.setPolicy(ORG_ID, { entityType: 'PAYROLL', retentionYears: 3 }, USER_ID))
+      .rejects.toThrow('between 4 and 100');
+  });
+});
+
+describe('LegalHoldService', () => {
+  it('should refuse a hold on a subject outside the organization', async () => {
+    const service = new LegalHoldService(createDb().db);
+
+    await expect(service.placeLegalHold(ORG_ID, { subjectType: 'CLIENT', subjectId: 'client_9', reason: 'Subpoena' }, USER_ID))
+      .rejects.toThrow('CLIENT not found');
+  });
+
+  it('should not release a hold that is already released', async () => {
+    const service = new LegalHoldService(createDb({ rows: [{ '?column?': 1 }] }).db);
+
+    await expect(service.releaseLegalHold(ORG_ID, 'hold_1', { reason: 'Settled', releasedBy: USER_ID }))
+      .rejects.toThrow('already been released');
+  });
+});
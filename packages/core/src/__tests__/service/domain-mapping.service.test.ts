@@ -0,0 +1,247 @@
+/**
+ * Unit tests for DomainMappingService
+ */
+import { describe, it, expect, beforeEach, vi, type Mock } from 'vitest';
+import {
+  DomainMappingService,
+  normalizeHostname,
+  type DnsTxtResolver,
+} from '../../service/domain-mapping.service';
+import type { BrandingRepository } from '../../repository/branding-repository';
+import type { DomainMappingRepository } from '../../repository/domain-mapping-repository';
+import type { DomainMapping } from '../../types/domain-mappings';
+import { ConflictError, NotFoundError, ValidationError } from '../../types/base';
+
+const verificationRecord = {
+  type: 'TXT' as const,
+  name: '_care-commons-verification',
+  value: 'care-commons-verification=abc123',
+  ttl: 3600,
+};
+
+const buildMapping = (overrides: Partial<DomainMapping> = {}): DomainMapping => ({
+  id: 'domain-id',
+  organizationId: 'org-id',
+  domain: 'care.ouragency.org',
+  domainType: 'CUSTOM_DOMAIN',
+  isPrimary: false,
+  sslStatus: 'PENDING',
+  sslCertificate: null,
+  sslPrivateKey: null,
+  sslExpiresAt: null,
+  autoRenewSsl: true,
+  dnsStatus: 'PENDING',
+  dnsRecords: [verificationRecord],
+  dnsVerifiedAt: null,
+  lastDnsCheckAt: null,
+  redirectToDomain: null,
+  forceHttps: true,
+  includeWww: false,
+  status: 'PENDING',
+  errorMessage: null,
+  metadata: null,
+  activatedAt: null,
+  activatedBy: null,
+  suspendedAt: null,
+  suspendedBy: null,
+  suspensionReason: null,
+  createdAt: new Date('2025-01-01'),
+  createdBy: 'user-id',
+  updatedAt: new Date('2025-01-01'),
+  updatedBy: 'user-id',
+  version: 1,
+  ...overrides,
+});
+
+describe('DomainMappingService', () => {
+  let service: DomainMappingService;
+  let mockDomainRepo: DomainMappingRepository;
+  let mockBrandingRepo: BrandingRepository;
+  let resolveTxt: Mock<DnsTxtResolver['resolveTxt']>;
+
+  beforeEach(() => {
+    mockDomainRepo = {
+      getDomainById: vi.fn(),
+      getDomainByName: vi.fn().mockResolvedValue(null),
+      getDomainsByOrganizationId: vi.fn(),
+      findActiveDomain: vi.fn(),
+      createDomainMapping: vi.fn(),
+      recordDnsCheck: vi.fn(),
+      activateDomain: vi.fn(),
+      deleteDomainMapping: vi.fn(),
+    } as any;
+
+    mockBrandingRepo = {
+      getBrandingByOrganizationId: vi.fn().mockResolvedValue({ brandName: 'Our Agency' }),
+    } as any;
+
+    resolveTxt = vi.fn<DnsTxtResolver['resolveTxt']>();
+    service = new DomainMappingService(mockDomainRepo, mockBrandingRepo, {
+      dnsResolver: { resolveTxt },
+      platformDomain: 'care-commons.com',
+    });
+  });
+
+  describe('normalizeHostname', () => {
+    it('should lowercase and strip the port and trailing dot', () => {
+      expect(normalizeHostname('Care.OurAgency.org.:8443')).toBe('care.ouragency.org');
+    });
+
+    it('should ignore IP addresses and empty hosts', () => {
+      expect(normalizeHostname('127.0.0.1:3000')).toBeNull();
+      expect(normalizeHostname('[::1]:3000')).toBeNull();
+      expect(normalizeHostname('')).toBeNull();
+    });
+  });
+
+  describe('addDomain', () => {
+    it('should create a custom domain with TXT and CNAME records', async () => {
+      vi.mocked(mockDomainRepo.createDomainMapping).mockImplementation(
+        (_orgId, request, dnsRecords) =>
+          Promise.resolve(buildMapping({ domain: request.domain, dnsRecords }))
+      );
+
+      const { domain, instructions } = await service.addDomain(
+        'org-id',
+        { domain: 'Care.OurAgency.org', domainType: 'CUSTOM_DOMAIN' },
+        'user-id'
+      );
+
+      expect(domain.domain).toBe('care.ouragency.org');
+      expect(instructions.dnsRecords).toEqual([
+        expect.objectContaining({
+          type: 'TXT',
+          name: '_care-commons-verification',
+          value: expect.stringMatching(/^care-commons-verification=[\da-f]{32}$/),
+        }),
+        expect.objectContaining({ type: 'CNAME', value: 'custom.care-commons.com' }),
+      ]);
+      expect(mockDomainRepo.activateDomain).not.toHaveBeenCalled();
+    });
+
+    it('should activate platform subdomains immediately', async () => {
+      const mapping = buildMapping({ domain: 'ouragency.care-commons.com', domainType: 'SUBDOMAIN', dnsRecords: [] });
+      vi.mocked(mockDomainRepo.createDomainMapping).mockResolvedValue(mapping);
+      vi.mocked(mockDomainRepo.activateDomain).mockResolvedValue({ ...mapping, status: 'ACTIVE' });
+
+      const { domain } = await service.addDomain(
+        'org-id',
+        { domain: 'ouragency.care-commons.com', domainType: 'SUBDOMAIN' },
+        'user-id'
+      );
+
+      expect(domain.status).toBe('ACTIVE');
+      expect(mockDomainRepo.recordDnsCheck).toHaveBeenCalledWith(
+        'domain-id',
+        { dnsStatus: 'VERIFIED', errorMessage: null },
+        'user-id'
+      );
+    });
+
+    it('should reject invalid, misplaced and duplicate domains', async () => {
+      await expect(
+        service.addDomain('org-id', { domain: 'not a domain', domainType: 'CUSTOM_DOMAIN' }, 'user-id')
+      ).rejects.toThrow(ValidationError);
+      await expect(
+        service.addDomain('org-id', { domain: 'care.ouragency.org', domainType: 'SUBDOMAIN' }, 'user-id')
+      ).rejects.toThrow(ValidationError);
+
+      vi.mocked(mockDomainRepo.getDomainByName).mockResolvedValue(buildMapping({ organizationId: 'other-org' }));
+      await expect(
+        service.addDomain('org-id', { domain: 'care.ouragency.org', domainType: 'CUSTOM_DOMAIN' }, 'user-id')
+      ).rejects.toThrow(ConflictError);
+    });
+  });
+
+  describe('verifyDomain', () => {
+    beforeEach(() => {
+      vi.mocked(mockDomainRepo.getDomainById).mockResolvedValue(buildMapping());
+      vi.mocked(mockDomainRepo.recordDnsCheck).mockImplementation((_id, check) =>
+        Promise.resolve(buildMapping({ ...check, lastDnsCheckAt: new Date('2025-01-02') }))
+      );
+    });
+
+    it('should activate the domain when the TXT record matches', async () => {
+      resolveTxt.mockResolvedValue([['v=spf1 -all'], ['care-commons-verification=', 'abc123']]);
+      vi.mocked(mockDomainRepo.activateDomain).mockResolvedValue(
+        buildMapping({ status: 'ACTIVE', dnsStatus: 'VERIFIED' })
+      );
+
+      const result = await service.verifyDomain('org-id', 'domain-id', 'user-id');
+
+      expect(resolveTxt).toHaveBeenCalledWith('_care-commons-verification.care.ouragency.org');
+      expect(result).toMatchObject({ verified: true, dnsStatus: 'VERIFIED', status: 'ACTIVE' });
+      expect(mockDomainRepo.activateDomain).toHaveBeenCalledWith('domain-id', 'user-id');
+    });
+
+    it('should leave the domain pending while the record has not propagated', async () => {
+      resolveTxt.mockRejectedValue(Object.assign(new Error('queryTxt ENOTFOUND'), { code: 'ENOTFOUND' }));
+
+      const result = await service.verifyDomain('org-id', 'domain-id', 'user-id');
+
+      expect(result).toMatchObject({
+        verified: false,
+        dnsStatus: 'PENDING',
+        errorMessage: 'No TXT record found at _care-commons-verification.care.ouragency.org',
+      });
+      expect(mockDomainRepo.activateDomain).not.toHaveBeenCalled();
+    });
+
+    it('should report a mismatched record as an error', async () => {
+      resolveTxt.mockResolvedValue([['care-commons-verification=wrong']]);
+
+      const result = await service.verifyDomain('org-id', 'domain-id', 'user-id');
+
+      expect(result).toMatchObject({ verified: false, dnsStatus: 'ERROR' });
+      expect(result.foundValues).toEqual(['care-commons-verification=wrong']);
+    });
+
+    it("should not verify another organization's domain", async () => {
+      await expect(service.verifyDomain('other-org', 'domain-id', 'user-id')).rejects.toThrow(
+        NotFoundError
+      );
+    });
+  });
+
+  describe('resolveTenant', () => {
+    it('should resolve the organization and branding for an active domain', async () => {
+      vi.mocked(mockDomainRepo.findActiveDomain).mockResolvedValue(buildMapping({ status: 'ACTIVE' }));
+
+      const tenant = await service.resolveTenant('care.ouragency.org:443');
+
+      expect(mockDomainRepo.findActiveDomain).toHaveBeenCalledWith(['care.ouragency.org']);
+      expect(tenant).toEqual({
+        organizationId: 'org-id',
+        domainId: 'domain-id',
+        domain: 'care.ouragency.org',
+        branding: { brandName: 'Our Agency' },
+      });
+    });
+
+    it('should only match www hosts when the mapping includes www', async () => {
+      vi.mocked(mockDomainRepo.findActiveDomain).mockResolvedValue(buildMapping({ status: 'ACTIVE' }));
+
+      await expect(service.resolveTenant('www.care.ouragency.org')).resolves.toBeNull();
+      expect(mockDomainRepo.findActiveDomain).toHaveBeenCalledWith([
+        'www.care.ouragency.org',
+        'care.ouragency.org',
+      ]);
+
+      vi.mocked(mockDomainRepo.findActiveDomain).mockResolvedValue(
+        buildMapping({ status: 'ACTIVE', includeWww: true })
+      );
+      await expect(service.resolveTenant('www.care.ouragency.org')).resolves.toMatchObject({
+        organizationId: 'org-id',
+      });
+    });
+
+    it('should not look up the platform domain or invalid host names', async () => {
+      await expect(service.resolveTenant('care-commons.com')).resolves.toBeNull();
+      await expect(service.resolveTenant('www.care-commons.com')).resolves.toBeNull();
+      await expect(service.resolveTenant('bad_label.example.com')).resolves.toBeNull();
+      await expect(service.resolveTenant('localhost')).resolves.toBeNull();
+
+      expect(mockDomainRepo.findActiveDomain).not.toHaveBeenCalled();
+    });
+  });
+});
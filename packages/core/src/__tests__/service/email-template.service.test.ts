@@ -0,0 +1,223 @@
+/**
+ * Unit tests for EmailTemplateService
+ */
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { EmailTemplateService } from '../../service/email-template.service';
+import type { BrandingRepository } from '../../repository/branding-repository';
+import type { EmailTemplateRepository } from '../../repository/email-template-repository';
+import type { IEmailService } from '../../service/email-service';
+import type { EmailTemplate } from '../../types/email-templates';
+import { NotFoundError, PermissionError, ValidationError } from '../../types/base';
+
+const buildTemplate = (overrides: Partial<EmailTemplate> = {}): EmailTemplate => ({
+  id: 'template-id',
+  organizationId: 'org-id',
+  templateKey: 'welcome',
+  templateName: 'Welcome',
+  description: null,
+  subject: 'Welcome to {{brandName}}, {{firstName}}',
+  bodyText: 'Hi {{firstName}},\nYour login: {{loginUrl}}',
+  bodyHtml: null,
+  previewText: null,
+  availableVariables: ['firstName', 'loginUrl'],
+  defaultValues: { loginUrl: 'https://app.example.com/login' },
+  fromName: null,
+  fromEmail: null,
+  replyToEmail: null,
+  attachments: null,
+  customCss: null,
+  useOrgBranding: true,
+  language: 'en',
+  locale: 'en-US',
+  status: 'ACTIVE',
+  templateVersion: 1,
+  isDefault: false,
+  lastTestedAt: null,
+  lastTestedBy: null,
+  testNotes: null,
+  sentCount: 0,
+  lastSentAt: null,
+  createdAt: new Date('2025-01-01'),
+  createdBy: 'user-id',
+  updatedAt: new Date('2025-01-01'),
+  updatedBy: 'user-id',
+  version: 1,
+  ...overrides,
+});
+
+describe('EmailTemplateService', () => {
+  let service: EmailTemplateService;
+  let mockTemplateRepo: EmailTemplateRepository;
+  let mockBrandingRepo: BrandingRepository;
+  let mockEmailService: IEmailService;
+
+  beforeEach(() => {
+    mockTemplateRepo = {
+      getTemplateById: vi.fn(),
+      listTemplates: vi.fn(),
+      findActiveTemplate: vi.fn(),
+      createTemplate: vi.fn(),
+      updateTemplate: vi.fn(),
+      archiveActiveTemplates: vi.fn(),
+      recordTestSend: vi.fn(),
+      recordSend: vi.fn(),
+    } as any;
+
+    mockBrandingRepo = {
+      getBrandingByOrganizationId: vi.fn().mockResolvedValue({
+        brandName: 'Sunrise Home Care',
+        logoUrl: 'https://cdn.example.com/logo.png',
+        primaryColor: '#7c3aed',
+        fontFamily: 'Inter',
+        customCss: null,
+        emailHeaderHtml: null,
+        emailFooterHtml: null,
+        emailFromName: 'Sunrise Care Team',
+        supportEmail: 'help@sunrise.example.com',
+      }),
+    } as any;
+
+    mockEmailService = {
+      sendRenderedEmail: vi.fn(),
+    } as any;
+
+    service = new EmailTemplateService(mockTemplateRepo, mockBrandingRepo, mockEmailService);
+  });
+
+  describe('renderTemplate', () => {
+    it('should merge branding, default values and provided variables', async () => {
+      vi.mocked(mockTemplateRepo.findActiveTemplate).mockResolvedValue(buildTemplate());
+
+      const rendered = await service.renderTemplate('org-id', 'welcome', { firstName: 'Ana <3' });
+
+      expect(rendered).toMatchObject({
+        templateId: 'template-id',
+        subject: 'Welcome to Sunrise Home Care, Ana <3',
+        bodyText: 'Hi Ana <3,\nYour login: https://app.example.com/login',
+        fromName: 'Sunrise Care Team',
+        missingVariables: [],
+      });
+      expect(rendered?.bodyHtml).toContain('Hi Ana &lt;3,<br>');
+      expect(rendered?.bodyHtml).toContain('background: #7c3aed');
+      expect(rendered?.bodyHtml).toContain('<img src="https://cdn.example.com/logo.png"');
+    });
+
+    it('should report missing variables and skip the layout when branding is off', async () => {
+      vi.mocked(mockTemplateRepo.findActiveTemplate).mockResolvedValue(
+        buildTemplate({ bodyHtml: '<p>Hi {{firstName}}</p>', useOrgBranding: false })
+      );
+
+      const rendered = await service.renderTemplate('org-id', 'welcome', {});
+
+      expect(rendered?.bodyHtml).toBe('<p>Hi </p>');
+      expect(rendered?.missingVariables).toEqual(['firstName']);
+    });
+
+    it('should return null when no template exists for the key', async () => {
+      vi.mocked(mockTemplateRepo.findActiveTemplate).mockResolvedValue(null);
+
+      await expect(service.renderTemplate('org-id', 'welcome', {})).resolves.toBeNull();
+    });
+  });
+
+  describe('renderOrganizationTemplate', () => {
+    it('should not fall back to system defaults', async () => {
+      vi.mocked(mockTemplateRepo.findActiveTemplate).mockResolvedValue(null);
+
+      await service.renderOrganizationTemplate('org-id', 'password_reset', {});
+
+      expect(mockTemplateRepo.findActiveTemplate).toHaveBeenCalledWith('org-id', 'password_reset', {
+        includeGlobal: false,
+      });
+    });
+  });
+
+  describe('createTemplate', () => {
+    it('should reject undeclared variables', async () => {
+      await expect(
+        service.createTemplate(
+          'org-id',
+          {
+            templateKey: 'welcome',
+            templateName: 'Welcome',
+            subject: 'Hi {{firstName}}',
+            bodyText: 'Your code is {{secretCode}}. Questions? {{supportEmail}}',
+            availableVariables: ['firstName'],
+          },
+          'user-id'
+        )
+      ).rejects.toThrow(ValidationError);
+      expect(mockTemplateRepo.createTemplate).not.toHaveBeenCalled();
+    });
+
+    it('should archive the previous active template for the key', async () => {
+      const created = buildTemplate({ id: 'new-template' });
+      vi.mocked(mockTemplateRepo.createTemplate).mockResolvedValue(created);
+
+      await service.createTemplate(
+        'org-id',
+        { templateKey: 'welcome', templateName: 'Welcome', subject: 'Hi', bodyText: 'Hello', status: 'ACTIVE' },
+        'user-id'
+      );
+
+      expect(mockTemplateRepo.archiveActiveTemplates).toHaveBeenCalledWith(
+        'org-id',
+        'welcome',
+        'en',
+        'new-template'
+      );
+    });
+  });
+
+  describe('updateTemplate', () => {
+    it('should not allow editing system defaults', async () => {
+      vi.mocked(mockTemplateRepo.getTemplateById).mockResolvedValue(
+        buildTemplate({ organizationId: null, isDefault: true })
+      );
+
+      await expect(
+        service.updateTemplate('org-id', 'template-id', { subject: 'Changed' }, 'user-id')
+      ).rejects.toThrow(PermissionError);
+    });
+
+    it("should hide other organizations' templates", async () => {
+      vi.mocked(mockTemplateRepo.getTemplateById).mockResolvedValue(
+        buildTemplate({ organizationId: 'other-org' })
+      );
+
+      await expect(
+        service.updateTemplate('org-id', 'template-id', { subject: 'Changed' }, 'user-id')
+      ).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('sendTestEmail', () => {
+    it('should send the rendered template and record the test', async () => {
+      vi.mocked(mockTemplateRepo.getTemplateById).mockResolvedValue(buildTemplate());
+
+      await service.sendTestEmail(
+        'org-id',
+        {
+          templateId: 'template-id',
+          testRecipient: 'admin@sunrise.example.com',
+          testVariables: { firstName: 'Test' },
+          notes: 'Checking new wording',
+        },
+        'user-id'
+      );
+
+      expect(mockEmailService.sendRenderedEmail).toHaveBeenCalledWith(
+        expect.objectContaining({
+          to: 'admin@sunrise.example.com',
+          subject: '[Test] Welcome to Sunrise Home Care, Test',
+          fromName: 'Sunrise Care Team',
+        })
+      );
+      expect(mockTemplateRepo.recordTestSend).toHaveBeenCalledWith(
+        'template-id',
+        'user-id',
+        'Checking new wording'
+      );
+    });
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * Attachment Upload Tests
+ *
+ * Tests chunked, resumable uploads of attachment files. The database keeps
+ * one attachment and its chunks in memory, answering the service's queries.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createHash } from 'node:crypto';
+import type { Database } from '../../db/connection';
+import { AttachmentUploadService } from '../../sync/attachment-upload';
+
+const ORG_ID = 'org_1';
+const ATTACHMENT_ID = 'attachment_1';
+const FILE = Buffer.from('0123456789abcdefghij');
+const CHECKSUM = createHash('sha256').update(FILE).digest('hex');
+
+function createDb(attachment: Record<string, unknown>) {
+  const row = { ...attachment };
+  const chunks = new Map<number, Buffer>();
+  const ordered = () => [...chunks.entries()].sort(([a], [b]) => a - b);
+
+  const query = async (text: string, params: unknown[] = []) => {
+    if (text.includes('FROM attachments')) return { rows: [{ ...row }] };
+    if (text.startsWith('SELECT chunk_index')) return { rows: ordered().map(([chunk_index]) => ({ chunk_index })) };
+    if (text.startsWith('SELECT data')) return { rows: ordered().map(([, data]) => ({ data })) };
+    if (text.startsWith('INSERT INTO attachment_chunks')) chunks.set(params[1] as number, params[2] as Buffer);
+    if (text.startsWith('DELETE FROM attachment_chunks')) chunks.clear();
+
+    const status = /upload_status = '(\w+)'/.exec(text)?.[1];
+    if (text.startsWith('UPDATE attachments') && status !== undefined) {
+      row.upload_status = status;
+      if (status === 'UPLOADING') row.chunk_size = params[1];
+    }
+    return { rows: [] };
+  };
+
+  const db = { query, transaction: async (callback: (client: unknown) => unknown) => callback({ query }) };
+  return { db: db as unknown as Database, row, chunks };
+}
+
+describe('AttachmentUploadService', () => {
+  let store: ReturnType<typeof createDb>;
+  let service: AttachmentUploadService;
+
+  beforeEach(() => {
+    store = createDb({
+      id: ATTACHMENT_ID,
+      file_name: 'wound.jpg',
+      mime_type: 'image/jpeg',
+      file_size: String(FILE.length),
+      checksum: CHECKSUM,
+      upload_status: 'PENDING',
+      chunk_size: null,
+    });
+    service = new AttachmentUploadService(store.db);
+  });
+
+  const upload = async (...indexes: number[]) => {
+    for (const index of indexes) {
+      await service.uploadChunk(ATTACHMENT_ID, ORG_ID, index, FILE.subarray(index * 8, index * 8 + 8));
+    }
+  };
+
+  it('should resume an upload from the first missing chunk', async () => {
+    const started = await service.startUpload(ATTACHMENT_ID, ORG_ID, { fileSize: FILE.length, checksum: CHECKSUM, chunkSize: 8 });
+    expect(started).toMatchObject({ status: 'UPLOADING', chunkSize: 8, totalChunks: 3, nextChunk: 0 });
+
+    await upload(0, 2);
+
+    const resumed = await service.startUpload(ATTACHMENT_ID, ORG_ID, { fileSize: FILE.length, checksum: CHECKSUM, chunkSize: 4 });
+    expect(resumed).toMatchObject({ chunkSize: 8, receivedChunks: [0, 2], nextChunk: 1 });
+  });
+
+  it('should complete once every chunk is in and matches the checksum', async () => {
+    await service.startUpload(ATTACHMENT_ID, ORG_ID, { fileSize: FILE.length, checksum: CHECKSUM, chunkSize: 8 });
+    await upload(2, 0);
+
+    await expect(service.completeUpload(ATTACHMENT_ID, ORG_ID)).rejects.toThrow('Upload is missing chunk 1');
+
+    await upload(1, 1);
+    const completed = await service.completeUpload(ATTACHMENT_ID, ORG_ID);
+
+    expect(completed).toMatchObject({ status: 'UPLOADED', nextChunk: null });
+    expect((await service.readFile(ATTACHMENT_ID, ORG_ID)).data.equals(FILE)).toBe(true);
+  });
+
+  it('should reject chunks of the wrong size', async () => {
+    await service.startUpload(ATTACHMENT_ID, ORG_ID, { fileSize: FILE.length, checksum: CHECKSUM, chunkSize: 8 });
+
+    await expect(service.uploadChunk(ATTACHMENT_ID, ORG_ID, 2, Buffer.alloc(8))).rejects.toThrow('Chunk 2 must be 4 bytes, got 8');
+    await expect(service.uploadChunk(ATTACHMENT_ID, ORG_ID, 3, Buffer.alloc(8))).rejects.toThrow('Chunk index must be between 0 and 2');
+  });
+
+  it('should discard a corrupted upload so it starts over', async () => {
+    await service.startUpload(ATTACHMENT_ID, ORG_ID, { fileSize: FILE.length, checksum: CHECKSUM, chunkSize: 8 });
+    await upload(0, 1);
+    await service.uploadChunk(ATTACHMENT_ID, ORG_ID, 2, Buffer.from('XXXX'));
+
+    await expect(service.completeUpload(ATTACHMENT_ID, ORG_ID)).rejects.toThrow('Uploaded file does not match its checksum');
+    expect(store.row.upload_status).toBe('FAILED');
+    expect(store.chunks.size).toBe(0);
+  });
+
+  it('should refuse a file other than the one the record describes', async () => {
+    await expect(
+      service.startUpload(ATTACHMENT_ID, ORG_ID, { fileSize: FILE.length + 1, checksum: CHECKSUM })
+    ).rejects.toThrow('File does not match the attachment record');
+  });
+});
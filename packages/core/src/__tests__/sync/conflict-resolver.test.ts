@@ -7,7 +7,7 @@
 
 import { describe, it, expect } from 'vitest';
 import { ConflictResolver } from '../../sync/conflict-resolver';
-import type { SyncConflict } from '../../sync/types';
+import type { RecordMergeInput, SyncConflict } from '../../sync/types';
 
 describe('ConflictResolver', () => {
   const resolver = new ConflictResolver();
@@ -195,4 +195,150 @@ describe('ConflictResolver', () => {
       expect(resolutions[1]?.strategy).toBe('MERGE_ARRAYS');
     });
   });
+
+  describe('Field Merge', () => {
+    const input = (overrides: Partial<RecordMergeInput> = {}): RecordMergeInput => ({
+      changeId: 'change_1',
+      entityType: 'VISIT',
+      entityId: 'visit_123',
+      localData: { visit_notes: 'Client napping on arrival' },
+      localUpdatedAt: 3000,
+      baseFieldVersions: { status: 10, visit_notes: 10 },
+      remoteData: { status: 'CANCELLED', visit_notes: null },
+      remoteFieldVersions: { status: 14, visit_notes: 10 },
+      remoteUpdatedAt: 2000,
+      ...overrides,
+    });
+
+    it('should keep both sides when they changed different fields', async () => {
+      const result = await resolver.mergeRecord(input());
+
+      expect(result.fields).toEqual({ visit_notes: 'Client napping on arrival' });
+      expect(result.conflicts).toEqual([]);
+      expect(result.requiresReview).toBe(false);
+    });
+
+    it('should resolve fields both sides changed with the field strategy', async () => {
+      const result = await resolver.mergeRecord(input({
+        localData: { status: 'IN_PROGRESS', visit_notes: 'Started late' },
+        remoteFieldVersions: { status: 14 },
+      }));
+
+      expect(result.conflicts).toHaveLength(1);
+      expect(result.conflicts[0]).toMatchObject({
+        id: 'conflict_change_1_status',
+        field: 'status',
+        serverVersion: 14,
+        clientVersion: 10,
+      });
+      expect(result.resolutions[0]).toMatchObject({ strategy: 'LAST_WRITE_WINS', winner: 'LOCAL' });
+      expect(result.fields).toEqual({ status: 'IN_PROGRESS', visit_notes: 'Started late' });
+    });
+
+    it('should not treat identical edits as conflicts', async () => {
+      const result = await resolver.mergeRecord(input({ localData: { status: 'CANCELLED' } }));
+
+      expect(result.conflicts).toEqual([]);
+      expect(result.fields).toEqual({});
+    });
+
+    it('should hold critical EVV fields edited on both sides for review', async () => {
+      const result = await resolver.mergeRecord(input({
+        entityType: 'EVV_RECORD',
+        localData: { clock_out_time: '2026-03-10T17:00:00Z' },
+        baseFieldVersions: {},
+        remoteData: { clock_out_time: '2026-03-10T16:30:00Z' },
+        remoteFieldVersions: { clock_out_time: 21 },
+      }));
+
+      expect(result.requiresReview).toBe(true);
+      expect(result.resolutions[0]?.reviewBy).toBe('ADMINISTRATOR');
+      expect(result.fields).toEqual({});
+    });
+  });
+
+  describe('Clinical Records', () => {
+    const conflict = (overrides: Partial<SyncConflict>): SyncConflict => ({
+      id: 'conflict_clinical',
+      entityType: 'VISIT_NOTE',
+      entityId: 'note_1',
+      field: 'note_text',
+      localValue: null,
+      localUpdatedAt: 3000,
+      remoteValue: null,
+      remoteUpdatedAt: 2000,
+      serverVersion: 2,
+      clientVersion: 1,
+      ...overrides,
+    });
+
+    it('should send every diverging MAR field to supervisor review', async () => {
+      const resolution = await resolver.resolve(conflict({
+        entityType: 'MEDICATION_ADMINISTRATION',
+        field: 'prn_effectiveness',
+        localValue: 'EFFECTIVE',
+        remoteValue: 'NOT_EFFECTIVE',
+      }));
+
+      expect(resolution).toMatchObject({ strategy: 'MANUAL_REVIEW', requiresReview: true, reviewBy: 'SUPERVISOR' });
+    });
+
+    it('should keep a signature captured on either side', async () => {
+      const resolution = await resolver.resolve(conflict({
+        field: 'client_signature_data',
+        localValue: 'data:image/png;base64,iVBORw0KGgo',
+        remoteValue: null,
+        localUpdatedAt: 1000,
+      }));
+
+      expect(resolution).toMatchObject({ strategy: 'KEEP_SIGNATURE', winner: 'LOCAL' });
+    });
+
+    it('should review two different signatures', async () => {
+      const resolution = await resolver.resolve(conflict({
+        field: 'caregiver_signature_data',
+        localValue: 'data:image/png;base64,AAAA',
+        remoteValue: 'data:image/png;base64,BBBB',
+      }));
+
+      expect(resolution).toMatchObject({ strategy: 'MANUAL_REVIEW', winner: 'MANUAL' });
+    });
+
+    it('should never lower the severity of an incident', async () => {
+      const resolution = await resolver.resolve(conflict({
+        entityType: 'INCIDENT',
+        field: 'severity',
+        localValue: 'MEDIUM',
+        remoteValue: 'HIGH',
+        localUpdatedAt: 5000,
+      }));
+
+      expect(resolution).toMatchObject({ strategy: 'MOST_SEVERE', winner: 'REMOTE', value: 'HIGH' });
+    });
+
+    it('should keep the office review of an incident and merge its witnesses', async () => {
+      const result = await resolver.mergeRecord({
+        changeId: 'change_2',
+        entityType: 'INCIDENT',
+        entityId: 'incident_1',
+        localData: { status: 'REPORTED', witness_ids: ['user_1', 'user_2'] },
+        localUpdatedAt: 5000,
+        baseFieldVersions: {},
+        remoteData: { status: 'UNDER_REVIEW', witness_ids: ['user_1', 'user_3'] },
+        remoteFieldVersions: { status: 30, witness_ids: 31 },
+        remoteUpdatedAt: 2000,
+      });
+
+      expect(result.resolutions.map(resolution => resolution.strategy)).toEqual(['SERVER_WINS', 'MERGE_ARRAYS']);
+      expect(result.fields).toEqual({ witness_ids: ['user_1', 'user_2', 'user_3'] });
+    });
+
+    it('should only take caption edits to an attachment from the device', async () => {
+      const caption = await resolver.resolve(conflict({ entityType: 'ATTACHMENT', field: 'caption', localValue: 'Bruise on left arm' }));
+      const mimeType = await resolver.resolve(conflict({ entityType: 'ATTACHMENT', field: 'mime_type', localValue: 'image/heic', remoteValue: 'image/jpeg' }));
+
+      expect(caption).toMatchObject({ strategy: 'LAST_WRITE_WINS', winner: 'LOCAL' });
+      expect(mimeType).toMatchObject({ strategy: 'SERVER_WINS', value: 'image/jpeg' });
+    });
+  });
 });
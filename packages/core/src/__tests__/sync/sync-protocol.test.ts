@@ -0,0 +1,411 @@
+/**
+ * Sync Protocol Tests
+ *
+ * Tests change log paging, tombstones and field-level merging of pushed
+ * updates. The database is a minimal stand-in for the Knex query builder
+ * that answers each table from fixtures and records the calls made.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import type { Knex } from 'knex';
+import { SyncProtocol } from '../../sync/sync-protocol';
+import type { LocalChange } from '../../sync/types';
+
+type Call = [method: string, ...args: unknown[]];
+
+interface Query {
+  table: string;
+  calls: Call[];
+}
+
+const ORG_ID = 'org_1';
+const CAREGIVER_ID = 'caregiver_1';
+const CHANGED_AT = new Date('2026-03-10T15:00:00Z');
+const XACT_ID = '900';
+
+function createDb(
+  fixtures: Record<string, Record<string, unknown>[]>,
+  xmin = '1000'
+): { db: Knex; queries: Query[]; transactions: () => number } {
+  let transactions = 0;
+  const queries: Query[] = [];
+
+  const builder = (query: Query): Record<string, unknown> => {
+    let single = false;
+    const chain = (method: string) => (...args: unknown[]) => {
+      if (typeof args[0] === 'function') {
+        const nested: Query = { table: query.table, calls: [] };
+        (args[0] as (b: unknown) => void)(builder(nested));
+        query.calls.push([method, nested.calls]);
+      } else {
+        query.calls.push([method, ...args]);
+      }
+      if (method === 'first') single = true;
+      return self;
+    };
+    const methods = [
+      'where', 'whereRaw', 'whereIn', 'whereNotIn', 'orWhere', 'orWhereNull',
+      'orderBy', 'limit', 'max', 'first', 'forUpdate', 'update', 'insert',
+    ];
+    const self: Record<string, unknown> = {
+      ...Object.fromEntries(methods.map(method => [method, chain(method)])),
+      then: (resolve: (value: unknown) => unknown, reject: (error: unknown) => unknown) => {
+        const rows = fixtures[query.table] ?? [];
+        return Promise.resolve(single ? rows[0] : rows).then(resolve, reject);
+      },
+    };
+    return self;
+  };
+
+  const db = Object.assign((table: string) => {
+    const query: Query = { table, calls: [] };
+    queries.push(query);
+    return builder(query);
+  }, {
+    raw: async () => ({ rows: [{ xmin }] }),
+    transaction: async (callback: (trx: unknown) => unknown) => {
+      transactions += 1;
+      return callback(db);
+    },
+  }) as unknown as Knex;
+
+  return { db, queries, transactions: () => transactions };
+}
+
+function logEntry(seq: number, entityId: string, operation = 'UPDATE', changedFields: string[] = ['status']) {
+  return {
+    seq: String(seq),
+    xact_id: XACT_ID,
+    entity_type: 'VISIT',
+    entity_id: entityId,
+    operation,
+    changed_fields: changedFields,
+    changed_at: CHANGED_AT,
+  };
+}
+
+function visit(id: string, overrides: Record<string, unknown> = {}) {
+  return {
+    id,
+    organization_id: ORG_ID,
+    assigned_caregiver_id: CAREGIVER_ID,
+    status: 'SCHEDULED',
+    visit_notes: null,
+    version: 3,
+    updated_at: CHANGED_AT,
+    updated_by: 'user_1',
+    deleted_at: null,
+    ...overrides,
+  };
+}
+
+describe('SyncProtocol', () => {
+  describe('pullChanges', () => {
+    let fixtures: Record<string, Record<string, unknown>[]>;
+
+    beforeEach(() => {
+      fixtures = {
+        sync_change_log: [],
+        visits: [],
+        sync_field_versions: [],
+      };
+    });
+
+    it('should page through the change log from the cursor', async () => {
+      fixtures.sync_change_log = [logEntry(41, 'visit_1'), logEntry(42, 'visit_2'), logEntry(43, 'visit_3')];
+      fixtures.visits = [visit('visit_1'), visit('visit_2'), visit('visit_3')];
+      fixtures.sync_field_versions = [{ entity_id: 'visit_1', field_versions: { status: 41 } }];
+      const { db, queries } = createDb(fixtures);
+
+      const response = await new SyncProtocol(db).pullChanges({
+        cursor: '850:40',
+        lastPulledAt: 0,
+        entities: ['VISIT'],
+        organizationId: ORG_ID,
+        limit: 2,
+      });
+
+      expect(queries[0]?.calls).toContainEqual(['whereRaw', '(xact_id, seq) > (?::xid8, ?)', ['850', 40]]);
+      expect(queries[0]?.calls).toContainEqual(['limit', 3]);
+      expect(response.hasMore).toBe(true);
+      expect(response.nextCursor).toBe('900:42');
+      expect(response.changes.map(change => [change.id, change.sequence])).toEqual([
+        ['visit_1', 41],
+        ['visit_2', 42],
+      ]);
+      expect(response.changes[0]).toMatchObject({
+        operationType: 'UPDATE',
+        changedFields: ['status'],
+        fieldVersions: { status: 41 },
+      });
+    });
+
+    it('should keep the cursor when there are no new changes', async () => {
+      const { db } = createDb(fixtures);
+
+      const response = await new SyncProtocol(db).pullChanges({
+        cursor: '900:57',
+        lastPulledAt: 0,
+        entities: ['VISIT'],
+        organizationId: ORG_ID,
+      });
+
+      expect(response).toMatchObject({ changes: [], hasMore: false, nextCursor: '900:57' });
+    });
+
+    it('should only pull changes of transactions older than any in progress', async () => {
+      const { db, queries } = createDb(fixtures);
+
+      await new SyncProtocol(db).pullChanges({
+        cursor: '900:57',
+        lastPulledAt: 0,
+        entities: ['VISIT'],
+        organizationId: ORG_ID,
+      });
+
+      expect(queries[0]?.calls).toContainEqual(['whereRaw', 'xact_id < pg_snapshot_xmin(pg_current_snapshot())']);
+      expect(queries[0]?.calls).toContainEqual(['orderBy', [{ column: 'xact_id' }, { column: 'seq' }]]);
+    });
+
+    it('should start over from a cursor without a transaction', async () => {
+      const { db, queries } = createDb(fixtures);
+
+      await new SyncProtocol(db).pullChanges({
+        cursor: '57',
+        lastPulledAt: 0,
+        entities: ['VISIT'],
+        organizationId: ORG_ID,
+      });
+
+      expect(queries[0]?.calls).toContainEqual(['whereRaw', '(xact_id, seq) > (?::xid8, ?)', ['0', 0]]);
+    });
+
+    it('should start a client without a cursor no later than transactions in progress', async () => {
+      fixtures.sync_change_log = [{ ...logEntry(70, 'visit_1'), xact_id: '1200' }];
+      const { db, queries } = createDb(fixtures, '1100');
+
+      await new SyncProtocol(db).pullChanges({
+        lastPulledAt: CHANGED_AT.getTime(),
+        entities: ['VISIT'],
+        organizationId: ORG_ID,
+      });
+
+      expect(queries[1]?.calls).toContainEqual(['whereRaw', '(xact_id, seq) > (?::xid8, ?)', ['1100', 0]]);
+    });
+
+    it('should send tombstones for soft and hard deleted records', async () => {
+      fixtures.sync_change_log = [
+        logEntry(10, 'visit_1', 'CREATE'),
+        logEntry(11, 'visit_1', 'DELETE', []),
+        logEntry(12, 'visit_2', 'DELETE', []),
+      ];
+      fixtures.visits = [visit('visit_1', { deleted_at: CHANGED_AT, deleted_by: 'user_2' })];
+      const { db } = createDb(fixtures);
+
+      const response = await new SyncProtocol(db).pullChanges({
+        cursor: '900:9',
+        lastPulledAt: 0,
+        entities: ['VISIT'],
+        organizationId: ORG_ID,
+      });
+
+      expect(response.changes).toEqual([
+        expect.objectContaining({ id: 'visit_1', operationType: 'DELETE', sequence: 11, data: {}, updatedBy: 'user_2' }),
+        expect.objectContaining({ id: 'visit_2', operationType: 'DELETE', sequence: 12, data: {} }),
+      ]);
+    });
+
+    it('should send a tombstone to the caregiver a visit was reassigned from', async () => {
+      fixtures.sync_change_log = [logEntry(20, 'visit_1', 'UPDATE', ['assigned_caregiver_id'])];
+      fixtures.visits = [visit('visit_1', { assigned_caregiver_id: 'caregiver_2' })];
+      const { db, queries } = createDb(fixtures);
+
+      const response = await new SyncProtocol(db).pullChanges({
+        cursor: '0:0',
+        lastPulledAt: 0,
+        entities: ['VISIT', 'CLIENT'],
+        organizationId: ORG_ID,
+        caregiverId: CAREGIVER_ID,
+      });
+
+      expect(queries[0]?.calls).toContainEqual(['where', [
+        ['whereNotIn', 'entity_type', ['VISIT']],
+        ['orWhere', 'caregiver_id', CAREGIVER_ID],
+        ['orWhere', 'previous_caregiver_id', CAREGIVER_ID],
+      ]]);
+      expect(response.changes).toEqual([expect.objectContaining({ id: 'visit_1', operationType: 'DELETE' })]);
+    });
+
+    it('should reject a malformed cursor', async () => {
+      const { db } = createDb(fixtures);
+
+      await expect(new SyncProtocol(db).pullChanges({
+        cursor: 'visit_1',
+        lastPulledAt: 0,
+        entities: ['VISIT'],
+        organizationId: ORG_ID,
+      })).rejects.toThrow('Invalid sync cursor: visit_1');
+    });
+  });
+
+  describe('pushChanges', () => {
+    const change = (overrides: Partial<LocalChange> = {}): LocalChange => ({
+      id: 'change_1',
+      entityType: 'VISIT',
+      entityId: 'visit_1',
+      operationType: 'UPDATE',
+      data: { visit_notes: 'Client napping on arrival' },
+      version: 2,
+      createdAt: 1000,
+      updatedAt: 3000,
+      baseFieldVersions: { status: 10, visit_notes: 10 },
+      ...overrides,
+    });
+
+    it('should merge an edit to a field the server has not changed', async () => {
+      const { db, queries, transactions } = createDb({
+        visits: [visit('visit_1', { status: 'CANCELLED' })],
+        sync_field_versions: [{ entity_id: 'visit_1', field_versions: { status: 14, visit_notes: 10 } }],
+      });
+
+      const response = await new SyncProtocol(db).pushChanges({
+        changes: [change()],
+        deviceId: 'device_1',
+        timestamp: 4000,
+        organizationId: ORG_ID,
+      });
+
+      expect(response).toMatchObject({ success: true, synced: 1, conflicts: [] });
+      const update = queries.flatMap(query => query.calls).find(([method]) => method === 'update');
+      expect(update?.[1]).toEqual({
+        visit_notes: 'Client napping on arrival',
+        version: 4,
+        updated_at: new Date(4000),
+        updated_by: 'device_1',
+      });
+      expect(transactions()).toBe(1);
+      expect(queries.filter(query => query.table === 'visits').map(query => query.calls)).toContainEqual(
+        expect.arrayContaining([['forUpdate'], ['first']])
+      );
+    });
+
+    it('should return conflicts on critical fields both sides changed', async () => {
+      const { db, queries } = createDb({
+        evv_records: [{ id: 'evv_1', clock_out_time: '2026-03-10T16:30:00Z', version: 5, updated_at: CHANGED_AT }],
+        sync_field_versions: [{ entity_id: 'evv_1', field_versions: { clock_out_time: 21 } }],
+      });
+
+      const response = await new SyncProtocol(db).pushChanges({
+        changes: [change({
+          entityType: 'EVV_RECORD',
+          entityId: 'evv_1',
+          data: { clock_out_time: '2026-03-10T17:00:00Z' },
+          baseFieldVersions: { clock_out_time: 12 },
+        })],
+        deviceId: 'device_1',
+        timestamp: 4000,
+        organizationId: ORG_ID,
+      });
+
+      expect(response.synced).toBe(0);
+      expect(response.conflicts).toEqual([
+        expect.objectContaining({ field: 'clock_out_time', serverVersion: 21, clientVersion: 12 }),
+      ]);
+      expect(queries.flatMap(query => query.calls).some(([method]) => method === 'update')).toBe(false);
+    });
+
+    it('should record the signed-in user as the author of new records', async () => {
+      const { db, queries } = createDb({});
+
+      await new SyncProtocol(db).pushChanges({
+        changes: [change({
+          entityType: 'ATTACHMENT',
+          entityId: 'attachment_1',
+          operationType: 'CREATE',
+          data: { file_name: 'wound.jpg', upload_status: 'UPLOADED' },
+          baseFieldVersions: undefined,
+        })],
+        deviceId: 'device_1',
+        timestamp: 4000,
+        organizationId: ORG_ID,
+        userId: 'user_7',
+      });
+
+      const insert = queries.flatMap(query => query.calls).find(([method]) => method === 'insert');
+      expect(insert?.[1]).toEqual({
+        file_name: 'wound.jpg',
+        id: 'attachment_1',
+        organization_id: ORG_ID,
+        created_at: new Date(1000),
+        created_by: 'user_7',
+        version: 1,
+        updated_at: new Date(4000),
+        updated_by: 'user_7',
+      });
+    });
+
+    describe('medication administrations', () => {
+      const administration = {
+        id: 'admin_1',
+        organization_id: ORG_ID,
+        dosage_given: '5 mg',
+        status: 'GIVEN',
+        prn_effectiveness: null,
+        created_at: CHANGED_AT,
+      };
+
+      it('should accept PRN follow-up on a recorded administration', async () => {
+        const { db, queries } = createDb({ medication_administrations: [administration] });
+
+        const response = await new SyncProtocol(db).pushChanges({
+          changes: [change({
+            entityType: 'MEDICATION_ADMINISTRATION',
+            entityId: 'admin_1',
+            data: { dosage_given: '5 mg', prn_effectiveness: 'EFFECTIVE' },
+            baseFieldVersions: undefined,
+          })],
+          deviceId: 'device_1',
+          timestamp: 4000,
+          organizationId: ORG_ID,
+        });
+
+        expect(response.synced).toBe(1);
+        const update = queries.flatMap(query => query.calls).find(([method]) => method === 'update');
+        expect(update?.[1]).toEqual({ dosage_given: '5 mg', prn_effectiveness: 'EFFECTIVE' });
+      });
+
+      it('should reject edits and deletes of what was administered', async () => {
+        const { db } = createDb({ medication_administrations: [administration] });
+
+        const response = await new SyncProtocol(db).pushChanges({
+          changes: [
+            change({ entityType: 'MEDICATION_ADMINISTRATION', entityId: 'admin_1', data: { dosage_given: '10 mg' } }),
+            change({ id: 'change_2', entityType: 'MEDICATION_ADMINISTRATION', entityId: 'admin_1', operationType: 'DELETE', data: {} }),
+          ],
+          deviceId: 'device_1',
+          timestamp: 4000,
+          organizationId: ORG_ID,
+        });
+
+        expect(response.synced).toBe(0);
+        expect(response.errors).toEqual([
+          expect.objectContaining({ changeId: 'change_1', errorCode: 'IMMUTABLE_FIELD', isRetryable: false }),
+          expect.objectContaining({ changeId: 'change_2', errorCode: 'DELETE_NOT_ALLOWED', isRetryable: false }),
+        ]);
+      });
+    });
+
+    it('should reject edits to a locked visit note', async () => {
+      const { db } = createDb({ visit_notes: [{ id: 'note_1', is_locked: true, version: 2, updated_at: CHANGED_AT }] });
+
+      const response = await new SyncProtocol(db).pushChanges({
+        changes: [change({ entityType: 'VISIT_NOTE', entityId: 'note_1', data: { note_text: 'Amended' } })],
+        deviceId: 'device_1',
+        timestamp: 4000,
+        organizationId: ORG_ID,
+      });
+
+      expect(response.errors).toEqual([expect.objectContaining({ errorCode: 'RECORD_LOCKED' })]);
+    });
+  });
+});
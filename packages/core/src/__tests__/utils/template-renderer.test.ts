@@ -0,0 +1,58 @@
+/**
+ * Tests for the template renderer
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ValidationError } from '../../types/base';
+import { extractTemplateVariables, renderTemplate } from '../../utils/template-renderer';
+
+describe('Template renderer', () => {
+  describe('renderTemplate', () => {
+    it('should substitute variables and leave unknown ones empty', () => {
+      const output = renderTemplate('Hi {{ firstName }}, welcome to {{brandName}}{{missing}}!', {
+        firstName: 'Ana',
+        brandName: 'Sunrise Home Care',
+      });
+
+      expect(output).toBe('Hi Ana, welcome to Sunrise Home Care!');
+    });
+
+    it('should escape HTML unless triple braces are used', () => {
+      const variables = { name: '<b>Ana & Co</b>' };
+
+      expect(renderTemplate('{{name}} / {{{name}}}', variables, { escapeHtml: true })).toBe(
+        '&lt;b&gt;Ana &amp; Co&lt;/b&gt; / <b>Ana & Co</b>'
+      );
+      expect(renderTemplate('{{name}}', variables)).toBe('<b>Ana & Co</b>');
+    });
+
+    it('should render sections and inverted sections', () => {
+      const template = '{{#supportEmail}}Contact {{supportEmail}}{{/supportEmail}}{{^supportEmail}}Reply to this email{{/supportEmail}}';
+
+      expect(renderTemplate(template, { supportEmail: 'help@example.com' })).toBe('Contact help@example.com');
+      expect(renderTemplate(template, { supportEmail: '' })).toBe('Reply to this email');
+    });
+
+    it('should format dates for the locale and skip comments', () => {
+      const output = renderTemplate('{{! internal note }}Due {{dueDate}}', {
+        dueDate: new Date('2025-03-15T12:00:00Z'),
+      });
+
+      expect(output).toBe('Due Mar 15, 2025');
+    });
+  });
+
+  describe('extractTemplateVariables', () => {
+    it('should list variables and sections once each', () => {
+      expect(
+        extractTemplateVariables('{{#logoUrl}}<img src="{{logoUrl}}">{{/logoUrl}} {{user.name}} {{{raw}}}')
+      ).toEqual(['logoUrl', 'user.name', 'raw']);
+    });
+
+    it('should reject malformed tags and unbalanced sections', () => {
+      expect(() => extractTemplateVariables('{{first name}}')).toThrow(ValidationError);
+      expect(() => extractTemplateVariables('{{#items}}open')).toThrow(ValidationError);
+      expect(() => extractTemplateVariables('{{#a}}{{/b}}')).toThrow(ValidationError);
+    });
+  });
+});
@@ -4,6 +4,7 @@
 
 
 import { v4 as uuidv4 } from 'uuid';
+import type { PoolClient, QueryResult } from 'pg';
 import {
   Entity,
   // SoftDeletable,
@@ -53,8 +54,10 @@ export abstract class Repository<T extends Entity> {
 
   /**
    * Create a new entity
+   *
+   * Pass a transaction client to write it together with related rows.
    */
-  async create(entity: Partial<T>, context: UserContext): Promise<T> {
+  async create(entity: Partial<T>, context: UserContext, client?: PoolClient): Promise<T> {
     const id = uuidv4();
     const now = new Date();
 
@@ -84,7 +87,7 @@ export abstract class Repository<T extends Entity> {
       RETURNING *
     `;
 
-    const result = await this.database.query(query, values);
+    const result = await this.run(query, values, client);
     const createdRow = result.rows[0] as Record<string, unknown> | undefined;
     if (createdRow === undefined) {
       throw new Error('Create failed - no row returned');
@@ -92,7 +95,7 @@ export abstract class Repository<T extends Entity> {
     const created = this.mapRowToEntity(createdRow);
 
     if (this.enableAudit) {
-      await this.createRevision(id, 'CREATE', {}, fullRow, context);
+      await this.createRevision(id, 'CREATE', {}, fullRow, context, client);
     }
 
     return created;
@@ -101,13 +104,13 @@ export abstract class Repository<T extends Entity> {
   /**
    * Find entity by ID
    */
-  async findById(id: string): Promise<T | null> {
+  async findById(id: string, client?: PoolClient): Promise<T | null> {
     const whereClause = this.enableSoftDelete
       ? 'WHERE id = $1 AND deleted_at IS NULL'
       : 'WHERE id = $1';
 
     const query = `SELECT * FROM ${this.tableName} ${whereClause}`;
-    const result = await this.database.query(query, [id]);
+    const result = await this.run(query, [id], client);
 
     if (result.rows.length === 0) {
       return null;
@@ -158,13 +161,16 @@ export abstract class Repository<T extends Entity> {
 
   /**
    * Update an entity with optimistic locking
+   *
+   * Pass a transaction client to write it together with related rows.
    */
   async update(
     id: string,
     updates: Partial<T>,
-    context: UserContext
+    context: UserContext,
+    client?: PoolClient
   ): Promise<T> {
-    const existing = await this.findById(id);
+    const existing = await this.findById(id, client);
     if (existing === null) {
       throw new NotFoundError(`Entity not found: ${id}`);
     }
@@ -203,7 +209,7 @@ export abstract class Repository<T extends Entity> {
       RETURNING *
     `;
 
-    const result = await this.database.query(query, values);
+    const result = await this.run(query, values, client);
 
     if (result.rows.length === 0) {
       throw new ConflictError('Update failed due to version conflict');
@@ -221,7 +227,7 @@ export abstract class Repository<T extends Entity> {
         this.mapEntityToRow(existing),
         row
       );
-      await this.createRevision(id, 'UPDATE', changes, row, context);
+      await this.createRevision(id, 'UPDATE', changes, row, context, client);
     }
 
     return updated;
@@ -260,6 +266,17 @@ export abstract class Repository<T extends Entity> {
     }
   }
 
+  /**
+   * Run a query on the transaction client when given, otherwise the pool
+   */
+  private async run(
+    text: string,
+    params: unknown[],
+    client?: PoolClient
+  ): Promise<QueryResult<Record<string, unknown>>> {
+    return client !== undefined ? client.query(text, params) : this.database.query(text, params);
+  }
+
   /**
    * Create audit revision
    */
@@ -268,7 +285,8 @@ export abstract class Repository<T extends Entity> {
     operation: 'CREATE' | 'UPDATE' | 'DELETE' | 'RESTORE',
     changes: Record<string, { from: unknown; to: unknown }>,
     newData: Record<string, unknown>,
-    context: UserContext
+    context: UserContext,
+    client?: PoolClient
   ): Promise<void> {
     const revisionId = uuidv4();
     const now = new Date();
@@ -280,7 +298,7 @@ export abstract class Repository<T extends Entity> {
       ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
     `;
 
-    await this.database.query(query, [
+    await this.run(query, [
       revisionId,
       entityId,
       this.tableName,
@@ -291,7 +309,7 @@ export abstract class Repository<T extends Entity> {
       JSON.stringify(newData),
       null, // IP address would come from HTTP context
       null, // User agent would come from HTTP context
-    ]);
+    ], client);
   }
 
   /**
@@ -20,6 +20,8 @@ export * from './audit/audit-service';
 export * from './repository/user-repository';
 export * from './repository/organization-repository';
 export * from './repository/branding-repository';
+export * from './repository/email-template-repository';
+export * from './repository/domain-mapping-repository';
 export * from './repository/feature-flag-repository';
 export * from './repository/billing-repository';
 export * from './service/organization-service';
@@ -34,6 +36,8 @@ export * from './service/cache-warmer.service';
 export * from './service/reference-data.service';
 export * from './service/geocoding.service';
 export * from './service/email-service';
+export * from './service/email-template.service';
+export * from './service/domain-mapping.service';
 export * from './service/stripe.service';
 export * from './constants/cache-keys';
 export * from './middleware/auth-middleware';
@@ -42,6 +46,7 @@ export * from './middleware/metrics';
 export * from './middleware/validation';
 export * from './middleware/csrf';
 export * from './middleware/usage-limit';
+export * from './middleware/tenant-resolution';
 export * from './utils/crypto';
 export * from './utils/password-utils';
 export * from './utils/jwt-utils';
@@ -52,6 +57,7 @@ export * from './utils/metrics';
 export * from './utils/error-tracker';
 export * from './utils/performance';
 export * from './utils/alerting';
+export * from './utils/template-renderer';
 export * from './validation/common-schemas';
 // HTTP error handlers and middleware (import directly if needed)
 export {
@@ -73,6 +79,7 @@ export * from './utils/sensitive-data-filter';
 export * from './middleware/sanitize-input';
 export * from './services/account-lockout.service';
 export * from './sync/index';
+export * from './retention/index';
 export * from './demo/index';
 export * from './providers/index';
 // State compliance configuration (StateCode already exported from types/base)
@@ -0,0 +1,88 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import express, { type Express } from 'express';
+import request from 'supertest';
+import { TenantResolutionMiddleware } from '../tenant-resolution';
+import type { DomainMappingService } from '../../service/domain-mapping.service';
+import type { Database } from '../../db/connection';
+
+describe('Tenant Resolution Middleware', () => {
+  let app: Express;
+  let resolveTenant: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    resolveTenant = vi.fn().mockImplementation((host: string) =>
+      Promise.resolve(
+        host === 'care.ouragency.org'
+          ? { organizationId: 'org-id', domainId: 'domain-id', domain: host, branding: null }
+          : null
+      )
+    );
+
+    const middleware = new TenantResolutionMiddleware({} as Database, {
+      domainMappingService: { resolveTenant } as unknown as DomainMappingService,
+    });
+
+    app = express();
+    app.use(middleware.resolveTenant);
+    app.get('/tenant', (req, res) => {
+      res.json({ tenant: req.tenant ?? null });
+    });
+  });
+
+  it('should attach the tenant for a mapped host', async () => {
+    const response = await request(app).get('/tenant').set('Host', 'care.ouragency.org').expect(200);
+
+    expect(response.body.tenant).toMatchObject({ organizationId: 'org-id', domain: 'care.ouragency.org' });
+  });
+
+  it('should pass unmapped hosts through without a tenant', async () => {
+    const response = await request(app).get('/tenant').set('Host', 'app.care-commons.com').expect(200);
+
+    expect(response.body.tenant).toBeNull();
+  });
+
+  it('should cache lookups per host', async () => {
+    await request(app).get('/tenant').set('Host', 'care.ouragency.org');
+    await request(app).get('/tenant').set('Host', 'care.ouragency.org');
+
+    expect(resolveTenant).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not look up the platform domain or invalid host names', async () => {
+    await request(app).get('/tenant').set('Host', 'care-commons.com').expect(200);
+    await request(app).get('/tenant').set('Host', 'x_y.example.com').expect(200);
+    await request(app).get('/tenant').set('Host', 'localhost').expect(200);
+
+    expect(resolveTenant).not.toHaveBeenCalled();
+  });
+
+  it('should drop the least recently used host when the cache is full', async () => {
+    const middleware = new TenantResolutionMiddleware({} as Database, {
+      cacheMaxEntries: 2,
+      domainMappingService: { resolveTenant } as unknown as DomainMappingService,
+    });
+    app = express();
+    app.use(middleware.resolveTenant);
+    app.get('/tenant', (_req, res) => {
+      res.end();
+    });
+
+    for (const host of ['a.example.com', 'b.example.com', 'a.example.com', 'c.example.com']) {
+      await request(app).get('/tenant').set('Host', host);
+    }
+    resolveTenant.mockClear();
+    await request(app).get('/tenant').set('Host', 'a.example.com');
+    await request(app).get('/tenant').set('Host', 'b.example.com');
+
+    expect(resolveTenant.mock.calls).toEqual([['b.example.com']]);
+  });
+
+  it('should continue without a tenant when the lookup fails', async () => {
+    resolveTenant.mockRejectedValue(new Error('connection refused'));
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    const response = await request(app).get('/tenant').set('Host', 'care.ouragency.org').expect(200);
+
+    expect(response.body.tenant).toBeNull();
+  });
+});
@@ -78,6 +78,20 @@ export class AuthMiddleware {
         return;
       }
 
+      // On an organization's custom domain, only that organization's users may sign in
+      if (
+        req.tenant !== undefined &&
+        req.tenant.organizationId !== payload.organizationId &&
+        !payload.roles.includes('SUPER_ADMIN')
+      ) {
+        res.status(403).json({
+          success: false,
+          error: 'Account does not belong to this organization',
+          code: 'TENANT_MISMATCH'
+        });
+        return;
+      }
+
       // Verify user still exists and is active
       const result = await this.db.query(
         'SELECT status, token_version FROM users WHERE id = $1 AND deleted_at IS NULL',
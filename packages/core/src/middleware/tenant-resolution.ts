@@ -0,0 +1,105 @@
+/**
+ * Tenant Resolution Middleware
+ *
+ * Resolves the organization (and its branding) from the request's Host
+ * header when the request arrives on a mapped custom domain, so pages such
+ * as login can be branded before the user authenticates. Requests on
+ * unmapped hosts (the platform's own domains) pass through unchanged.
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { Database } from '../db/connection';
+import { BrandingRepository } from '../repository/branding-repository';
+import { DomainMappingRepository } from '../repository/domain-mapping-repository';
+import { DomainMappingService, isMappableHostname, normalizeHostname } from '../service/domain-mapping.service';
+import { ResolvedTenant } from '../types/domain-mappings';
+
+declare global {
+  // eslint-disable-next-line @typescript-eslint/no-namespace
+  namespace Express {
+    interface Request {
+      tenant?: ResolvedTenant;
+    }
+  }
+}
+
+export interface TenantResolutionOptions {
+  /** How long host lookups (including misses) are cached, in milliseconds */
+  cacheTtlMs?: number;
+  /** Most hosts kept in the cache; the least recently used are dropped first */
+  cacheMaxEntries?: number;
+  /** The platform's own domain, never looked up as a mapped domain */
+  platformDomain?: string;
+  domainMappingService?: DomainMappingService;
+}
+
+export class TenantResolutionMiddleware {
+  private domainMappingService: DomainMappingService;
+  private cacheTtlMs: number;
+  private cacheMaxEntries: number;
+  private platformDomain: string;
+  // Map iteration order doubles as recency order: hits are moved to the end
+  private cache = new Map<string, { tenant: ResolvedTenant | null; expiresAt: number }>();
+
+  constructor(db: Database, options: TenantResolutionOptions = {}) {
+    this.domainMappingService =
+      options.domainMappingService ??
+      new DomainMappingService(new DomainMappingRepository(db), new BrandingRepository(db));
+    this.cacheTtlMs = options.cacheTtlMs ?? 60_000;
+    this.cacheMaxEntries = options.cacheMaxEntries ?? 1000;
+    this.platformDomain = options.platformDomain ?? process.env.PLATFORM_DOMAIN ?? 'care-commons.com';
+  }
+
+  /**
+   * Attach req.tenant for mapped hosts
+   *
+   * Usage:
+   *   app.use(tenantResolution.resolveTenant)
+   */
+  resolveTenant = async (req: Request, _res: Response, next: NextFunction): Promise<void> => {
+    // Hosts that can never be mapped skip the database and the cache
+    const hostname = normalizeHostname(req.hostname);
+    if (hostname === null || !isMappableHostname(hostname, this.platformDomain)) {
+      next();
+      return;
+    }
+
+    try {
+      const tenant = await this.lookup(hostname);
+      if (tenant !== null) {
+        req.tenant = tenant;
+      }
+    } catch (error) {
+      // Fall back to the platform's default tenant handling rather than failing the request
+      console.error('Tenant resolution error:', { hostname, error });
+    }
+
+    next();
+  };
+
+  /**
+   * Drop cached lookups, e.g. after a domain is added or removed
+   */
+  clearCache(): void {
+    this.cache.clear();
+  }
+
+  private async lookup(hostname: string): Promise<ResolvedTenant | null> {
+    const cached = this.cache.get(hostname);
+    if (cached !== undefined) {
+      this.cache.delete(hostname);
+      if (cached.expiresAt > Date.now()) {
+        this.cache.set(hostname, cached);
+        return cached.tenant;
+      }
+    }
+
+    const tenant = await this.domainMappingService.resolveTenant(hostname);
+    this.cache.set(hostname, { tenant, expiresAt: Date.now() + this.cacheTtlMs });
+    while (this.cache.size > this.cacheMaxEntries) {
+      const oldest = this.cache.keys().next().value as string;
+      this.cache.delete(oldest);
+    }
+    return tenant;
+  }
+}
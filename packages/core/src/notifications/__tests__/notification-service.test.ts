@@ -309,6 +309,45 @@ describe('NotificationService', () => {
       expect(template.message).toContain('30 minutes overdue');
     });
 
+    it('should generate SHIFT_PROPOSAL_SENT template without client details', () => {
+      const template = NotificationService.getTemplate('SHIFT_PROPOSAL_SENT', {
+        scheduledDate: '2025-01-20',
+        startTime: '09:00',
+        endTime: '13:00',
+        urgent: true,
+      });
+
+      expect(template.subject).toBe('⚠️ Urgent Shift Offer');
+      expect(template.message).toContain('2025-01-20 from 09:00 to 13:00');
+    });
+
+    it('should generate VISIT_EXCEPTION_DETECTED template with urgency for critical exceptions', () => {
+      const template = NotificationService.getTemplate('VISIT_EXCEPTION_DETECTED', {
+        exceptionLabel: 'Caregiver no-show',
+        description: 'Caregiver has not clocked in 75 minutes after the scheduled start',
+        visitNumber: 'V2025-000042',
+        severity: 'CRITICAL',
+      });
+
+      expect(template.subject).toBe('🚨 Visit Exception: Caregiver no-show');
+      expect(template.message).toContain('(visit V2025-000042). Severity: CRITICAL.');
+    });
+
+    it('should generate AUTHORIZATION_LOW_UNITS template flagging over-scheduling', () => {
+      const template = NotificationService.getTemplate('AUTHORIZATION_LOW_UNITS', {
+        clientName: 'Jane Smith',
+        authorizationNumber: 'PA-1001',
+        payerName: 'Texas Medicaid',
+        serviceTypeName: 'Personal Care',
+        projectedRemaining: '-4 hours',
+        scheduledVisitCount: 12,
+        overScheduled: true,
+      });
+
+      expect(template.subject).toBe('⚠️ Authorization Over-Scheduled: Jane Smith');
+      expect(template.message).toContain('will have -4 hours left after 12 scheduled visit(s)');
+    });
+
     it('should return default template for unknown event type', () => {
       const template = NotificationService.getTemplate('UNKNOWN_EVENT' as any, {});
 
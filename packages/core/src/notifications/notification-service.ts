@@ -209,6 +209,46 @@ export class NotificationService {
         subject: `🚨 URGENT: Caregiver No-Show - ${d.caregiverName}`,
         message: `${d.caregiverName} did not show up for the scheduled visit with ${d.clientName} at ${d.scheduledTime}. Immediate action required.`,
       }),
+      EVV_EXCEPTION_ASSIGNED: (d) => ({
+        subject: `EVV Exception Assigned: ${String(d.exceptionType)}`,
+        message: `An EVV exception (${String(d.exceptionDescription)}) has been assigned to you. Priority: ${String(d.priority)}. Resolve by ${String(d.slaDeadline)}.`,
+      }),
+      EVV_EXCEPTION_ESCALATED: (d) => ({
+        subject: `⚠️ EVV Exception Escalated: ${String(d.exceptionType)}`,
+        message: `An EVV exception (${String(d.exceptionDescription)}) has been escalated. Reason: ${String(d.escalationReason)}.`,
+      }),
+      VISIT_EXCEPTION_DETECTED: (d) => ({
+        subject: d.severity === 'CRITICAL'
+          ? `🚨 Visit Exception: ${String(d.exceptionLabel)}`
+          : `Visit Exception: ${String(d.exceptionLabel)}`,
+        message: `${String(d.description)} (visit ${String(d.visitNumber)}). Severity: ${String(d.severity)}. Review it in the visit exception queue.`,
+      }),
+      VISIT_EXCEPTION_ESCALATED: (d) => ({
+        subject: `⚠️ Visit Exception Escalated: ${String(d.exceptionLabel)}`,
+        message: `${String(d.description)} (visit ${String(d.visitNumber)}) has been escalated to you. Reason: ${String(d.escalationReason)}.`,
+      }),
+      CONTROLLED_SUBSTANCE_COUNT_DISCREPANCY: (d) => ({
+        subject: `🚨 Controlled Substance Count Discrepancy: ${String(d.medicationName)}`,
+        message: `Shift handoff count for ${String(d.medicationName)} was ${String(d.countedQuantity)} ${String(d.countUnit)}, expected ${String(d.expectedCount)} (difference ${String(d.discrepancy)}). Review and resolve the discrepancy.`,
+      }),
+      MEDICATION_DOSE_MISSED: (d) => ({
+        subject: `⚠️ Missed Medication: ${String(d.clientName)}`,
+        message: `${String(d.missedCount)} scheduled dose(s) for ${String(d.clientName)} were not recorded: ${String(d.doseSummary)}. Follow up and document any late doses on the MAR.`,
+      }),
+      AUTHORIZATION_LOW_UNITS: (d) => ({
+        subject: d.overScheduled === true
+          ? `⚠️ Authorization Over-Scheduled: ${String(d.clientName)}`
+          : `Authorization Running Low: ${String(d.clientName)}`,
+        message: `Authorization ${String(d.authorizationNumber)} (${String(d.payerName)}, ${String(d.serviceTypeName)}) for ${String(d.clientName)} will have ${String(d.projectedRemaining)} left after ${String(d.scheduledVisitCount)} scheduled visit(s). Request more units or adjust the schedule.`,
+      }),
+      AUTHORIZATION_EXPIRING: (d) => ({
+        subject: `Authorization Expiring: ${String(d.clientName)}`,
+        message: `Authorization ${String(d.authorizationNumber)} (${String(d.payerName)}, ${String(d.serviceTypeName)}) for ${String(d.clientName)} ends on ${String(d.effectiveTo)}, in ${String(d.daysUntilExpiration)} day(s), with ${String(d.projectedRemaining)} still unscheduled. Request a renewal before visits go unreimbursed.`,
+      }),
+      SHIFT_PROPOSAL_SENT: (d) => ({
+        subject: d.urgent === true ? '⚠️ Urgent Shift Offer' : 'New Shift Offer',
+        message: `You have been offered a shift on ${String(d.scheduledDate)} from ${String(d.startTime)} to ${String(d.endTime)}. Open Care Commons to accept or decline.`,
+      }),
     };
 
     const template = templates[eventType];
@@ -297,6 +297,8 @@ export class PushProvider implements NotificationProvider {
       'Visit Completed': 'Visit Update',
       'Late Check-In': 'Visit Alert',
       'URGENT: Missed Visit': 'Visit Alert',
+      'New Shift Offer': 'New Shift Offer',
+      '⚠️ Urgent Shift Offer': 'Urgent Shift Offer',
     };
 
     const genericTitle = genericTitles[title];
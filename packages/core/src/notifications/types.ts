@@ -16,7 +16,16 @@ export type NotificationEventType =
   | 'VISIT_CANCELED'
   | 'VISIT_NO_SHOW_CAREGIVER'
   | 'VISIT_NO_SHOW_CLIENT'
-  | 'VISIT_STATUS_CHANGED';
+  | 'VISIT_STATUS_CHANGED'
+  | 'EVV_EXCEPTION_ASSIGNED'
+  | 'EVV_EXCEPTION_ESCALATED'
+  | 'VISIT_EXCEPTION_DETECTED'
+  | 'VISIT_EXCEPTION_ESCALATED'
+  | 'CONTROLLED_SUBSTANCE_COUNT_DISCREPANCY'
+  | 'MEDICATION_DOSE_MISSED'
+  | 'AUTHORIZATION_LOW_UNITS'
+  | 'AUTHORIZATION_EXPIRING'
+  | 'SHIFT_PROPOSAL_SENT';
 
 export interface NotificationRecipient {
   userId: string;
@@ -33,7 +42,7 @@ export interface NotificationPayload {
   message: string;
   data: Record<string, unknown>;
   organizationId: string;
-  relatedEntityType?: 'visit' | 'client' | 'caregiver';
+  relatedEntityType?: 'visit' | 'client' | 'caregiver' | 'assignment_proposal';
   relatedEntityId?: string;
 }
 
@@ -77,6 +77,8 @@ export class PermissionService {
         'schedules:*',
         'visits:*',
         'care-plans:*',
+        'family-portal:publish',
+        'family-portal:manage',
       ])
     );
 
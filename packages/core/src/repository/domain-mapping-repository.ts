@@ -0,0 +1,242 @@
+/**
+ * @care-commons/core - Domain Mapping Repository
+ *
+ * Data access layer for organization custom domains
+ */
+
+import { Database } from '../db/connection';
+import { UUID } from '../types/base';
+import {
+  CreateDomainMappingRequest,
+  DNSRecord,
+  DNSStatus,
+  DomainMapping,
+  DomainStatus,
+  DomainType,
+  SSLStatus,
+} from '../types/domain-mappings';
+
+type DomainMappingRow = {
+  id: string;
+  organization_id: string;
+  domain: string;
+  domain_type: DomainType;
+  is_primary: boolean;
+  ssl_status: SSLStatus;
+  ssl_certificate: string | null;
+  ssl_private_key: string | null;
+  ssl_expires_at: Date | null;
+  auto_renew_ssl: boolean;
+  dns_status: DNSStatus;
+  dns_records: DNSRecord[] | null;
+  dns_verified_at: Date | null;
+  last_dns_check_at: Date | null;
+  redirect_to_domain: string | null;
+  force_https: boolean;
+  include_www: boolean;
+  status: DomainStatus;
+  error_message: string | null;
+  metadata: Record<string, unknown> | null;
+  activated_at: Date | null;
+  activated_by: string | null;
+  suspended_at: Date | null;
+  suspended_by: string | null;
+  suspension_reason: string | null;
+  created_at: Date;
+  created_by: string;
+  updated_at: Date;
+  updated_by: string;
+  version: number;
+};
+
+export interface IDomainMappingRepository {
+  getDomainById(id: UUID): Promise<DomainMapping | null>;
+  getDomainByName(domain: string): Promise<DomainMapping | null>;
+  getDomainsByOrganizationId(organizationId: UUID): Promise<DomainMapping[]>;
+  findActiveDomain(hostnames: string[]): Promise<DomainMapping | null>;
+  createDomainMapping(
+    organizationId: UUID,
+    request: CreateDomainMappingRequest,
+    dnsRecords: DNSRecord[],
+    userId: UUID
+  ): Promise<DomainMapping>;
+  recordDnsCheck(
+    id: UUID,
+    result: { dnsStatus: DNSStatus; errorMessage: string | null },
+    userId: UUID
+  ): Promise<DomainMapping>;
+  activateDomain(id: UUID, userId: UUID): Promise<DomainMapping>;
+  deleteDomainMapping(id: UUID): Promise<void>;
+}
+
+export class DomainMappingRepository implements IDomainMappingRepository {
+  constructor(private db: Database) {}
+
+  async getDomainById(id: UUID): Promise<DomainMapping | null> {
+    const query = `
+      SELECT * FROM domain_mappings
+      WHERE id = $1
+    `;
+
+    const result = await this.db.query<DomainMappingRow>(query, [id]);
+    const row = result.rows[0];
+    return row === undefined ? null : this.mapRowToDomainMapping(row);
+  }
+
+  async getDomainByName(domain: string): Promise<DomainMapping | null> {
+    const query = `
+      SELECT * FROM domain_mappings
+      WHERE domain = $1
+    `;
+
+    const result = await this.db.query<DomainMappingRow>(query, [domain]);
+    const row = result.rows[0];
+    return row === undefined ? null : this.mapRowToDomainMapping(row);
+  }
+
+  async getDomainsByOrganizationId(organizationId: UUID): Promise<DomainMapping[]> {
+    const query = `
+      SELECT * FROM domain_mappings
+      WHERE organization_id = $1
+      ORDER BY is_primary DESC, domain
+    `;
+
+    const result = await this.db.query<DomainMappingRow>(query, [organizationId]);
+    return result.rows.map(row => this.mapRowToDomainMapping(row));
+  }
+
+  /**
+   * Active, DNS-verified mapping for any of the given hostnames, preferring
+   * the first hostname
+   */
+  async findActiveDomain(hostnames: string[]): Promise<DomainMapping | null> {
+    const query = `
+      SELECT * FROM domain_mappings
+      WHERE domain = ANY($1)
+        AND status = 'ACTIVE'
+        AND dns_status = 'VERIFIED'
+      ORDER BY array_position($1, domain)
+      LIMIT 1
+    `;
+
+    const result = await this.db.query<DomainMappingRow>(query, [hostnames]);
+    const row = result.rows[0];
+    return row === undefined ? null : this.mapRowToDomainMapping(row);
+  }
+
+  async createDomainMapping(
+    organizationId: UUID,
+    request: CreateDomainMappingRequest,
+    dnsRecords: DNSRecord[],
+    userId: UUID
+  ): Promise<DomainMapping> {
+    const query = `
+      INSERT INTO domain_mappings (
+        organization_id, domain, domain_type, is_primary, force_https,
+        include_www, auto_renew_ssl, dns_records, created_by, updated_by
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $9)
+      RETURNING *
+    `;
+
+    const result = await this.db.query<DomainMappingRow>(query, [
+      organizationId,
+      request.domain,
+      request.domainType,
+      request.isPrimary ?? false,
+      request.forceHttps ?? true,
+      request.includeWww ?? false,
+      request.autoRenewSsl ?? true,
+      JSON.stringify(dnsRecords),
+      userId,
+    ]);
+
+    return this.mapRowToDomainMapping(result.rows[0]!);
+  }
+
+  async recordDnsCheck(
+    id: UUID,
+    result: { dnsStatus: DNSStatus; errorMessage: string | null },
+    userId: UUID
+  ): Promise<DomainMapping> {
+    const query = `
+      UPDATE domain_mappings
+      SET dns_status = $2,
+          error_message = $3,
+          last_dns_check_at = NOW(),
+          dns_verified_at = CASE WHEN $2 = 'VERIFIED' THEN COALESCE(dns_verified_at, NOW()) ELSE dns_verified_at END,
+          updated_by = $4,
+          version = version + 1
+      WHERE id = $1
+      RETURNING *
+    `;
+
+    const queryResult = await this.db.query<DomainMappingRow>(query, [
+      id,
+      result.dnsStatus,
+      result.errorMessage,
+      userId,
+    ]);
+    return this.mapRowToDomainMapping(queryResult.rows[0]!);
+  }
+
+  async activateDomain(id: UUID, userId: UUID): Promise<DomainMapping> {
+    const query = `
+      UPDATE domain_mappings
+      SET status = 'ACTIVE',
+          error_message = NULL,
+          activated_at = COALESCE(activated_at, NOW()),
+          activated_by = COALESCE(activated_by, $2),
+          updated_by = $2,
+          version = version + 1
+      WHERE id = $1
+      RETURNING *
+    `;
+
+    const result = await this.db.query<DomainMappingRow>(query, [id, userId]);
+    return this.mapRowToDomainMapping(result.rows[0]!);
+  }
+
+  async deleteDomainMapping(id: UUID): Promise<void> {
+    const query = `
+      DELETE FROM domain_mappings
+      WHERE id = $1
+    `;
+
+    await this.db.query(query, [id]);
+  }
+
+  private mapRowToDomainMapping(row: DomainMappingRow): DomainMapping {
+    return {
+      id: row.id,
+      organizationId: row.organization_id,
+      domain: row.domain,
+      domainType: row.domain_type,
+      isPrimary: row.is_primary,
+      sslStatus: row.ssl_status,
+      sslCertificate: row.ssl_certificate,
+      sslPrivateKey: row.ssl_private_key,
+      sslExpiresAt: row.ssl_expires_at,
+      autoRenewSsl: row.auto_renew_ssl,
+      dnsStatus: row.dns_status,
+      dnsRecords: row.dns_records,
+      dnsVerifiedAt: row.dns_verified_at,
+      lastDnsCheckAt: row.last_dns_check_at,
+      redirectToDomain: row.redirect_to_domain,
+      forceHttps: row.force_https,
+      includeWww: row.include_www,
+      status: row.status,
+      errorMessage: row.error_message,
+      metadata: row.metadata,
+      activatedAt: row.activated_at,
+      activatedBy: row.activated_by,
+      suspendedAt: row.suspended_at,
+      suspendedBy: row.suspended_by,
+      suspensionReason: row.suspension_reason,
+      createdAt: row.created_at,
+      createdBy: row.created_by,
+      updatedAt: row.updated_at,
+      updatedBy: row.updated_by,
+      version: row.version,
+    };
+  }
+}
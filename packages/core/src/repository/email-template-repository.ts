@@ -0,0 +1,352 @@
+/**
+ * @care-commons/core - Email Template Repository
+ *
+ * Data access layer for organization and system email templates
+ */
+
+import { Database } from '../db/connection';
+import { UUID } from '../types/base';
+import {
+  CreateEmailTemplateRequest,
+  EmailAttachment,
+  EmailTemplate,
+  EmailTemplateFilters,
+  EmailTemplateStatus,
+  UpdateEmailTemplateRequest,
+} from '../types/email-templates';
+
+type EmailTemplateRow = {
+  id: string;
+  organization_id: string | null;
+  template_key: string;
+  template_name: string;
+  description: string | null;
+  subject: string;
+  body_text: string;
+  body_html: string | null;
+  preview_text: string | null;
+  available_variables: string[] | null;
+  default_values: Record<string, string> | null;
+  from_name: string | null;
+  from_email: string | null;
+  reply_to_email: string | null;
+  attachments: EmailAttachment[] | null;
+  custom_css: string | null;
+  use_org_branding: boolean;
+  language: string;
+  locale: string;
+  status: EmailTemplateStatus;
+  template_version: number;
+  is_default: boolean;
+  last_tested_at: Date | null;
+  last_tested_by: string | null;
+  test_notes: string | null;
+  sent_count: number;
+  last_sent_at: Date | null;
+  created_at: Date;
+  created_by: string;
+  updated_at: Date;
+  updated_by: string;
+  version: number;
+};
+
+/**
+ * Updatable fields and their columns. Content changes bump template_version.
+ */
+const UPDATE_COLUMNS: Record<keyof UpdateEmailTemplateRequest, string> = {
+  templateName: 'template_name',
+  description: 'description',
+  subject: 'subject',
+  bodyText: 'body_text',
+  bodyHtml: 'body_html',
+  previewText: 'preview_text',
+  availableVariables: 'available_variables',
+  defaultValues: 'default_values',
+  fromName: 'from_name',
+  fromEmail: 'from_email',
+  replyToEmail: 'reply_to_email',
+  attachments: 'attachments',
+  customCss: 'custom_css',
+  useOrgBranding: 'use_org_branding',
+  language: 'language',
+  locale: 'locale',
+  status: 'status',
+};
+
+const CONTENT_FIELDS = new Set<keyof UpdateEmailTemplateRequest>([
+  'subject',
+  'bodyText',
+  'bodyHtml',
+  'previewText',
+]);
+
+const JSON_FIELDS = new Set<keyof UpdateEmailTemplateRequest>([
+  'availableVariables',
+  'defaultValues',
+  'attachments',
+]);
+
+export interface IEmailTemplateRepository {
+  getTemplateById(id: UUID): Promise<EmailTemplate | null>;
+  listTemplates(organizationId: UUID, filters?: EmailTemplateFilters): Promise<EmailTemplate[]>;
+  findActiveTemplate(
+    organizationId: UUID | null,
+    templateKey: string,
+    options?: { language?: string; includeGlobal?: boolean }
+  ): Promise<EmailTemplate | null>;
+  createTemplate(
+    organizationId: UUID | null,
+    request: CreateEmailTemplateRequest,
+    userId: UUID
+  ): Promise<EmailTemplate>;
+  updateTemplate(id: UUID, request: UpdateEmailTemplateRequest, userId: UUID): Promise<EmailTemplate>;
+  archiveActiveTemplates(
+    organizationId: UUID,
+    templateKey: string,
+    language: string,
+    exceptId: UUID
+  ): Promise<void>;
+  recordTestSend(id: UUID, userId: UUID, notes: string | null): Promise<void>;
+  recordSend(id: UUID): Promise<void>;
+}
+
+export class EmailTemplateRepository implements IEmailTemplateRepository {
+  constructor(private db: Database) {}
+
+  async getTemplateById(id: UUID): Promise<EmailTemplate | null> {
+    const query = `
+      SELECT * FROM email_templates
+      WHERE id = $1
+    `;
+
+    const result = await this.db.query<EmailTemplateRow>(query, [id]);
+    const row = result.rows[0];
+    return row === undefined ? null : this.mapRowToTemplate(row);
+  }
+
+  /**
+   * The organization's templates plus the system defaults, newest version
+   * first within each key
+   */
+  async listTemplates(
+    organizationId: UUID,
+    filters: EmailTemplateFilters = {}
+  ): Promise<EmailTemplate[]> {
+    const conditions = ['(organization_id = $1 OR (organization_id IS NULL AND is_default = true))'];
+    const values: unknown[] = [organizationId];
+
+    if (filters.templateKey !== undefined) {
+      values.push(filters.templateKey);
+      conditions.push(`template_key = $${values.length}`);
+    }
+    if (filters.status !== undefined) {
+      values.push(filters.status);
+      conditions.push(`status = $${values.length}`);
+    }
+    if (filters.language !== undefined) {
+      values.push(filters.language);
+      conditions.push(`language = $${values.length}`);
+    }
+
+    const query = `
+      SELECT * FROM email_templates
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY template_key, organization_id NULLS LAST, template_version DESC
+    `;
+
+    const result = await this.db.query<EmailTemplateRow>(query, values);
+    return result.rows.map(row => this.mapRowToTemplate(row));
+  }
+
+  /**
+   * Active template for a key: the organization's own first, then the
+   * system default unless includeGlobal is false. A template in the
+   * requested language wins over one in another language.
+   */
+  async findActiveTemplate(
+    organizationId: UUID | null,
+    templateKey: string,
+    options: { language?: string; includeGlobal?: boolean } = {}
+  ): Promise<EmailTemplate | null> {
+    const query = `
+      SELECT * FROM email_templates
+      WHERE template_key = $1
+        AND status = 'ACTIVE'
+        AND (
+          organization_id = $2
+          OR ($4 AND organization_id IS NULL AND is_default = true)
+        )
+      ORDER BY organization_id NULLS LAST, (language = $3) DESC, template_version DESC
+      LIMIT 1
+    `;
+
+    const result = await this.db.query<EmailTemplateRow>(query, [
+      templateKey,
+      organizationId,
+      options.language ?? 'en',
+      options.includeGlobal ?? true,
+    ]);
+    const row = result.rows[0];
+    return row === undefined ? null : this.mapRowToTemplate(row);
+  }
+
+  async createTemplate(
+    organizationId: UUID | null,
+    request: CreateEmailTemplateRequest,
+    userId: UUID
+  ): Promise<EmailTemplate> {
+    const query = `
+      INSERT INTO email_templates (
+        organization_id, template_key, template_name, description, subject,
+        body_text, body_html, preview_text, available_variables, default_values,
+        from_name, from_email, reply_to_email, attachments, custom_css,
+        use_org_branding, language, locale, status, is_default,
+        created_by, updated_by
+      ) VALUES (
+        $1, $2, $3, $4, $5, $6, $7, $8, $9, $10,
+        $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $21
+      )
+      RETURNING *
+    `;
+
+    const result = await this.db.query<EmailTemplateRow>(query, [
+      organizationId,
+      request.templateKey,
+      request.templateName,
+      request.description ?? null,
+      request.subject,
+      request.bodyText,
+      request.bodyHtml ?? null,
+      request.previewText ?? null,
+      request.availableVariables !== undefined ? JSON.stringify(request.availableVariables) : null,
+      request.defaultValues !== undefined ? JSON.stringify(request.defaultValues) : null,
+      request.fromName ?? null,
+      request.fromEmail ?? null,
+      request.replyToEmail ?? null,
+      request.attachments !== undefined ? JSON.stringify(request.attachments) : null,
+      request.customCss ?? null,
+      request.useOrgBranding ?? true,
+      request.language ?? 'en',
+      request.locale ?? 'en-US',
+      request.status ?? 'DRAFT',
+      organizationId === null,
+      userId,
+    ]);
+
+    return this.mapRowToTemplate(result.rows[0]!);
+  }
+
+  async updateTemplate(
+    id: UUID,
+    request: UpdateEmailTemplateRequest,
+    userId: UUID
+  ): Promise<EmailTemplate> {
+    const updateFields: string[] = [];
+    const values: unknown[] = [id];
+    let contentChanged = false;
+
+    for (const [key, value] of Object.entries(request) as Array<[keyof UpdateEmailTemplateRequest, unknown]>) {
+      if (value === undefined) continue;
+      values.push(JSON_FIELDS.has(key) ? JSON.stringify(value) : value);
+      // eslint-disable-next-line security/detect-object-injection -- key is a typed request field
+      updateFields.push(`${UPDATE_COLUMNS[key]} = $${values.length}`);
+      contentChanged = contentChanged || CONTENT_FIELDS.has(key);
+    }
+
+    values.push(userId);
+    updateFields.push(`updated_by = $${values.length}`, 'version = version + 1');
+    if (contentChanged) {
+      updateFields.push('template_version = template_version + 1');
+    }
+
+    const query = `
+      UPDATE email_templates
+      SET ${updateFields.join(', ')}, updated_at = NOW()
+      WHERE id = $1
+      RETURNING *
+    `;
+
+    const result = await this.db.query<EmailTemplateRow>(query, values);
+    return this.mapRowToTemplate(result.rows[0]!);
+  }
+
+  /**
+   * Archive the organization's other active templates for a key and
+   * language, so exactly one stays active
+   */
+  async archiveActiveTemplates(
+    organizationId: UUID,
+    templateKey: string,
+    language: string,
+    exceptId: UUID
+  ): Promise<void> {
+    const query = `
+      UPDATE email_templates
+      SET status = 'ARCHIVED', updated_at = NOW(), version = version + 1
+      WHERE organization_id = $1
+        AND template_key = $2
+        AND language = $3
+        AND status = 'ACTIVE'
+        AND id <> $4
+    `;
+
+    await this.db.query(query, [organizationId, templateKey, language, exceptId]);
+  }
+
+  async recordTestSend(id: UUID, userId: UUID, notes: string | null): Promise<void> {
+    const query = `
+      UPDATE email_templates
+      SET last_tested_at = NOW(), last_tested_by = $2, test_notes = $3
+      WHERE id = $1
+    `;
+
+    await this.db.query(query, [id, userId, notes]);
+  }
+
+  async recordSend(id: UUID): Promise<void> {
+    const query = `
+      UPDATE email_templates
+      SET sent_count = sent_count + 1, last_sent_at = NOW()
+      WHERE id = $1
+    `;
+
+    await this.db.query(query, [id]);
+  }
+
+  private mapRowToTemplate(row: EmailTemplateRow): EmailTemplate {
+    return {
+      id: row.id,
+      organizationId: row.organization_id,
+      templateKey: row.template_key,
+      templateName: row.template_name,
+      description: row.description,
+      subject: row.subject,
+      bodyText: row.body_text,
+      bodyHtml: row.body_html,
+      previewText: row.preview_text,
+      availableVariables: row.available_variables,
+      defaultValues: row.default_values,
+      fromName: row.from_name,
+      fromEmail: row.from_email,
+      replyToEmail: row.reply_to_email,
+      attachments: row.attachments,
+      customCss: row.custom_css,
+      useOrgBranding: row.use_org_branding,
+      language: row.language,
+      locale: row.locale,
+      status: row.status,
+      templateVersion: row.template_version,
+      isDefault: row.is_default,
+      lastTestedAt: row.last_tested_at,
+      lastTestedBy: row.last_tested_by,
+      testNotes: row.test_notes,
+      sentCount: row.sent_count,
+      lastSentAt: row.last_sent_at,
+      createdAt: row.created_at,
+      createdBy: row.created_by,
+      updatedAt: row.updated_at,
+      updatedBy: row.updated_by,
+      version: row.version,
+    };
+  }
+}
@@ -0,0 +1,10 @@
+/**
+ * Retention Module - Data retention policies, legal holds and purges
+ */
+
+export * from './types';
+export * from './retention-policy';
+export * from './retention-policy-service';
+export * from './retention-archive';
+export * from './retention-service';
+export * from './legal-hold-service';
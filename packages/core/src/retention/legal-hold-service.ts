@@ -0,0 +1,131 @@
+/**
+ * Legal Hold Service
+ *
+ * A legal hold keeps every record of a client, caregiver or incident out of
+ * retention purges, however old, while litigation, an investigation or an
+ * audit is under way. Released holds stay on file with who released them
+ * and why.
+ */
+
+import { Database } from '../db/connection';
+import { ConflictError, NotFoundError, ValidationError, type UUID } from '../types/base';
+import type { LegalHold, LegalHoldSubjectType, PlaceLegalHoldInput, ReleaseLegalHoldInput } from './types';
+
+/** Table each kind of subject lives in */
+const SUBJECT_TABLES = new Map<LegalHoldSubjectType, string>([
+  ['CLIENT', 'clients'],
+  ['CAREGIVER', 'caregivers'],
+  ['INCIDENT', 'incidents'],
+]);
+
+interface LegalHoldRow extends Record<string, unknown> {
+  id: string;
+  organization_id: string;
+  subject_type: LegalHoldSubjectType;
+  subject_id: string;
+  reason: string;
+  matter_reference: string | null;
+  placed_at: Date;
+  placed_by: string;
+  released_at: Date | null;
+  released_by: string | null;
+  release_reason: string | null;
+}
+
+export interface LegalHoldFilters {
+  subjectType?: LegalHoldSubjectType;
+  subjectId?: UUID;
+  includeReleased?: boolean;
+}
+
+export class LegalHoldService {
+  constructor(private db: Database) {}
+
+  async listLegalHolds(organizationId: UUID, filters: LegalHoldFilters = {}): Promise<LegalHold[]> {
+    const result = await this.db.query<LegalHoldRow>(
+      `SELECT * FROM legal_holds
+       WHERE organization_id = $1
+         AND ($2::text IS NULL OR subject_type = $2)
+         AND ($3::uuid IS NULL OR subject_id = $3)
+         AND ($4 OR released_at IS NULL)
+       ORDER BY placed_at DESC`,
+      [organizationId, filters.subjectType ?? null, filters.subjectId ?? null, filters.includeReleased === true]
+    );
+    return result.rows.map(toLegalHold);
+  }
+
+  /**
+   * Stop every record of a client, caregiver or incident from being purged
+   */
+  async placeLegalHold(organizationId: UUID, input: PlaceLegalHoldInput, userId: UUID): Promise<LegalHold> {
+    const subjectTable = SUBJECT_TABLES.get(input.subjectType);
+    if (subjectTable === undefined) {
+      throw new ValidationError(`Unknown legal hold subject ${String(input.subjectType)}`, { subjectType: input.subjectType });
+    }
+    if (input.reason.trim() === '') {
+      throw new ValidationError('A legal hold needs a reason', { subjectType: input.subjectType });
+    }
+
+    const subjectSql = `SELECT 1 FROM ${subjectTable} WHERE id = $1 AND organization_id = $2`;
+    const subject = await this.db.query(subjectSql, [input.subjectId, organizationId]);
+    if (subject.rows.length === 0) {
+      throw new NotFoundError(`${input.subjectType} not found`, { subjectId: input.subjectId });
+    }
+
+    const result = await this.db.query<LegalHoldRow>(
+      `INSERT INTO legal_holds (organization_id, subject_type, subject_id, reason, matter_reference, placed_by)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       RETURNING *`,
+      [organizationId, input.subjectType, input.subjectId, input.reason.trim(), input.matterReference ?? null, userId]
+    );
+    return toLegalHold(result.rows[0]!);
+  }
+
+  /**
+   * Release a hold. The subject's records become eligible for purging
+   * again unless another hold covers them.
+   */
+  async releaseLegalHold(organizationId: UUID, holdId: UUID, input: ReleaseLegalHoldInput): Promise<LegalHold> {
+    if (input.reason.trim() === '') {
+      throw new ValidationError('Releasing a legal hold needs a reason', { holdId });
+    }
+
+    const result = await this.db.query<LegalHoldRow>(
+      `UPDATE legal_holds
+       SET released_at = NOW(), released_by = $3, release_reason = $4
+       WHERE id = $1 AND organization_id = $2 AND released_at IS NULL
+       RETURNING *`,
+      [holdId, organizationId, input.releasedBy, input.reason.trim()]
+    );
+
+    const released = result.rows[0];
+    if (released !== undefined) {
+      return toLegalHold(released);
+    }
+
+    const existing = await this.db.query(
+      'SELECT 1 FROM legal_holds WHERE id = $1 AND organization_id = $2',
+      [holdId, organizationId]
+    );
+    if (existing.rows.length === 0) {
+      throw new NotFoundError('Legal hold not found', { holdId });
+    }
+    throw new ConflictError('Legal hold has already been released', { holdId });
+  }
+}
+
+function toLegalHold(row: LegalHoldRow): LegalHold {
+  return {
+    id: row.id,
+    organizationId: row.organization_id,
+    subjectType: row.subject_type,
+    subjectId: row.subject_id,
+    reason: row.reason,
+    matterReference: row.matter_reference,
+    placedAt: row.placed_at,
+    placedBy: row.placed_by,
+    releasedAt: row.released_at,
+    releasedBy: row.released_by,
+    releaseReason: row.release_reason,
+  };
+}
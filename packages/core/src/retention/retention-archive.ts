@@ -0,0 +1,72 @@
+/**
+ * Retention archive
+ *
+ * Writes the rows a purge deletes to gzipped JSON Lines files, one per
+ * table, before the delete is committed. Each batch is appended as its own
+ * gzip member; gunzip and zcat read the members back as one stream.
+ */
+
+import { createHash, type Hash } from 'node:crypto';
+import { appendFile, mkdir } from 'node:fs/promises';
+import { join } from 'node:path';
+import { promisify } from 'node:util';
+import { gzip } from 'node:zlib';
+import type { RetentionArchiveFile } from './types';
+
+const gzipAsync = promisify(gzip);
+
+interface OpenFile {
+  file: RetentionArchiveFile;
+  hash: Hash;
+}
+
+export class RetentionArchive {
+  private openFiles = new Map<string, OpenFile>();
+
+  /**
+   * @param directory Directory for this run's files; created owner-only
+   */
+  constructor(private directory: string) {}
+
+  /**
+   * Append rows of a table to its archive file
+   */
+  async append(table: string, records: unknown[]): Promise<void> {
+    if (records.length === 0) {
+      return;
+    }
+
+    const open = await this.open(table);
+    const data = await gzipAsync(records.map(record => `${JSON.stringify(record)}\n`).join(''));
+
+    // eslint-disable-next-line security/detect-non-literal-fs-filename -- path is inside the configured archive directory
+    await appendFile(open.file.path, data, { mode: 0o600 });
+    open.hash.update(data);
+    open.file.records += records.length;
+    open.file.bytes += data.length;
+    open.file.sha256 = open.hash.copy().digest('hex');
+  }
+
+  /**
+   * Files written so far
+   */
+  files(): RetentionArchiveFile[] {
+    return [...this.openFiles.values()].map(open => ({ ...open.file }));
+  }
+
+  private async open(table: string): Promise<OpenFile> {
+    const existing = this.openFiles.get(table);
+    if (existing !== undefined) {
+      return existing;
+    }
+
+    // eslint-disable-next-line security/detect-non-literal-fs-filename -- directory comes from the service configuration
+    await mkdir(this.directory, { recursive: true, mode: 0o700 });
+    const open: OpenFile = {
+      file: { table, path: join(this.directory, `${table}.jsonl.gz`), records: 0, bytes: 0, sha256: '' },
+      hash: createHash('sha256'),
+    };
+    this.openFiles.set(table, open);
+    return open;
+  }
+}
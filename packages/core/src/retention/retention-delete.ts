@@ -0,0 +1,100 @@
+/**
+ * Retention deletes
+ *
+ * Deletes purged rows together with the rows ON DELETE CASCADE would take
+ * with them, so that every deleted row reaches the archive.
+ */
+
+import type { PoolClient } from 'pg';
+import { Database } from '../db/connection';
+import { ValidationError } from '../types/base';
+import {
+  RETENTION_TARGETS,
+  buildCascadeCatalogSql,
+  buildCascadeDeleteSql,
+  buildDeleteSql,
+  getCascadeTables,
+  type RetentionTarget,
+} from './retention-targets';
+
+const FOREIGN_KEY_VIOLATION = '23503';
+
+/**
+ * Rows deleted from each table, the purged table's and its cascades'
+ */
+export type DeletedRows = Map<string, unknown[]>;
+
+/**
+ * Refuse to purge while a foreign key would delete rows the archive
+ * does not get, e.g. from a table added after the cascades were listed
+ */
+export async function checkCascades(db: Database): Promise<void> {
+  for (const target of RETENTION_TARGETS) {
+    const listed = new Set((target.cascades ?? []).map(cascade => `${cascade.table}.${cascade.column}->${cascade.references}`));
+    const result = await db.query<{ child_table: string; fk_column: string; parent_table: string }>(
+      buildCascadeCatalogSql(),
+      [getCascadeTables(target)]
+    );
+
+    const unknown = result.rows
+      .map(row => `${row.child_table}.${row.fk_column}->${row.parent_table}`)
+      .filter(cascade => !listed.has(cascade));
+    if (unknown.length > 0) {
+      throw new ValidationError(`Purging ${target.table} would delete rows that are not archived: ${unknown.join(', ')}`, {
+        table: target.table,
+      });
+    }
+  }
+}
+
+/**
+ * Delete a batch with its cascades, falling back to row by row when some
+ * row is still referenced
+ */
+export async function deleteRows(client: PoolClient, target: RetentionTarget, ids: string[]): Promise<DeletedRows> {
+  const deleted: DeletedRows = new Map();
+  if (ids.length === 0) {
+    return deleted;
+  }
+
+  const batch = await deleteReferencedSafely(client, target, ids);
+  if (batch !== null) {
+    return batch;
+  }
+
+  for (const id of ids) {
+    for (const [table, records] of await deleteReferencedSafely(client, target, [id]) ?? []) {
+      deleted.set(table, [...(deleted.get(table) ?? []), ...records]);
+    }
+  }
+  return deleted;
+}
+
+/**
+ * Delete rows and their cascades under a savepoint; null, with nothing
+ * deleted, when a row is still referenced
+ */
+async function deleteReferencedSafely(client: PoolClient, target: RetentionTarget, ids: string[]): Promise<DeletedRows | null> {
+  const deleted: DeletedRows = new Map();
+  await client.query('SAVEPOINT retention_delete');
+  try {
+    for (const cascade of target.cascades ?? []) {
+      const result = await client.query<{ record: unknown }>(buildCascadeDeleteSql(target, cascade), [ids]);
+      deleted.set(cascade.table, [...(deleted.get(cascade.table) ?? []), ...result.rows.map(row => row.record)]);
+    }
+    const result = await client.query<{ record: unknown }>(buildDeleteSql(target), [ids]);
+    deleted.set(target.table, result.rows.map(row => row.record));
+    await client.query('RELEASE SAVEPOINT retention_delete');
+    return deleted;
+  } catch (error) {
+    await client.query('ROLLBACK TO SAVEPOINT retention_delete');
+    if (pgErrorCode(error) === FOREIGN_KEY_VIOLATION) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+function pgErrorCode(error: unknown): string | undefined {
+  return typeof error === 'object' && error !== null && 'code' in error ? String(error.code) : undefined;
+}
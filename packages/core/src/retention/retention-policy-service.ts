@@ -0,0 +1,115 @@
+/**
+ * Retention Policy Service
+ *
+ * Organizations keep records longer than the defaults with their own
+ * policies, for every state or one state. A policy below the legal minimum
+ * for its scope is refused rather than quietly raised.
+ */
+
+import { Database } from '../db/connection';
+import { NotFoundError, ValidationError, type StateCode, type UUID } from '../types/base';
+import { isValidStateCode } from '../compliance/states/index';
+import {
+  MAX_RETENTION_YEARS,
+  RETENTION_ENTITY_TYPES,
+  buildRetentionSchedule,
+  getMinimumRetentionYears,
+} from './retention-policy';
+import type { RetentionEntityType, RetentionPolicy, RetentionSchedule, SetRetentionPolicyInput } from './types';
+
+interface PolicyRow extends Record<string, unknown> {
+  id: string;
+  organization_id: string;
+  entity_type: RetentionEntityType;
+  state_code: StateCode | null;
+  retention_years: number;
+  notes: string | null;
+  updated_at: Date;
+  updated_by: string | null;
+}
+
+export class RetentionPolicyService {
+  constructor(private db: Database) {}
+
+  /**
+   * Retention periods in force for each kind of record
+   */
+  async getSchedules(organizationId: UUID): Promise<RetentionSchedule[]> {
+    const policies = await this.getPolicies(organizationId);
+    return RETENTION_ENTITY_TYPES.map(entityType => buildRetentionSchedule(entityType, policies));
+  }
+
+  async getPolicies(organizationId: UUID): Promise<RetentionPolicy[]> {
+    const result = await this.db.query<PolicyRow>(
+      `SELECT * FROM retention_policies
+       WHERE organization_id = $1
+       ORDER BY entity_type, state_code NULLS FIRST`,
+      [organizationId]
+    );
+    return result.rows.map(toPolicy);
+  }
+
+  /**
+   * Set how long the organization keeps a kind of record, for every state
+   * or one state. Replaces the policy already set for that scope.
+   */
+  async setPolicy(organizationId: UUID, input: SetRetentionPolicyInput, userId: UUID): Promise<RetentionPolicy> {
+    const stateCode = input.stateCode ?? null;
+
+    if (!RETENTION_ENTITY_TYPES.includes(input.entityType)) {
+      throw new ValidationError(`Unknown record type ${String(input.entityType)}`, { entityType: input.entityType });
+    }
+    if (stateCode !== null && !isValidStateCode(stateCode)) {
+      throw new ValidationError(`Unknown state ${String(stateCode)}`, { stateCode });
+    }
+
+    const minimumYears = getMinimumRetentionYears(input.entityType, stateCode);
+    if (!Number.isInteger(input.retentionYears) || input.retentionYears < minimumYears || input.retentionYears > MAX_RETENTION_YEARS) {
+      const scope = stateCode === null ? input.entityType : `${input.entityType} in ${stateCode}`;
+      throw new ValidationError(
+        `Retention for ${scope} must be between ${minimumYears} and ${MAX_RETENTION_YEARS} years`,
+        { entityType: input.entityType, stateCode, retentionYears: input.retentionYears, minimumYears }
+      );
+    }
+
+    const result = await this.db.query<PolicyRow>(
+      `INSERT INTO retention_policies (organization_id, entity_type, state_code, retention_years, notes, created_by, updated_by)
+       VALUES ($1, $2, $3, $4, $5, $6, $6)
+       ON CONFLICT (organization_id, entity_type, (COALESCE(state_code, ''))) DO UPDATE
+       SET retention_years = EXCLUDED.retention_years,
+           notes = EXCLUDED.notes,
+           updated_at = NOW(),
+           updated_by = EXCLUDED.updated_by
+       RETURNING *`,
+      [organizationId, input.entityType, stateCode, input.retentionYears, input.notes ?? null, userId]
+    );
+    return toPolicy(result.rows[0]!);
+  }
+
+  /**
+   * Remove a policy; its scope falls back to the policy for every state, or
+   * the default
+   */
+  async deletePolicy(organizationId: UUID, policyId: UUID): Promise<void> {
+    const result = await this.db.query(
+      'DELETE FROM retention_policies WHERE id = $1 AND organization_id = $2',
+      [policyId, organizationId]
+    );
+    if (result.rowCount === 0) {
+      throw new NotFoundError('Retention policy not found', { policyId });
+    }
+  }
+}
+
+function toPolicy(row: PolicyRow): RetentionPolicy {
+  return {
+    id: row.id,
+    organizationId: row.organization_id,
+    entityType: row.entity_type,
+    stateCode: row.state_code,
+    retentionYears: row.retention_years,
+    notes: row.notes,
+    updatedAt: row.updated_at,
+    updatedBy: row.updated_by,
+  };
+}
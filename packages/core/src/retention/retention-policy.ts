@@ -0,0 +1,123 @@
+/**
+ * Retention policy resolution
+ *
+ * How long a record is kept depends on what it is and the state the care
+ * was delivered in. Each kind of record has a default period. An
+ * organization may keep records longer with its own policies, for every
+ * state or one state, but never for less than the legal minimum:
+ *
+ * - Care records (visits, EVV records, clinical notes, incidents) and
+ *   audit logs: six years under HIPAA, longer where the state requires it
+ * - Payroll: four years, the IRS period for employment tax records
+ *
+ * A record whose state is unknown is kept for the longest period any state
+ * gets, so a missing address never shortens retention.
+ */
+
+import type { StateCode } from '../types/base';
+import { getAllStateCodes } from '../compliance/states/index';
+import { getStateInfo } from '../compliance/state-registry';
+import type { RetentionEntityType, RetentionPolicy, RetentionSchedule } from './types';
+
+export const RETENTION_ENTITY_TYPES: RetentionEntityType[] = [
+  'VISIT',
+  'EVV_RECORD',
+  'CLINICAL_NOTE',
+  'INCIDENT',
+  'PAYROLL',
+  'AUDIT_LOG',
+];
+
+export const DEFAULT_RETENTION_YEARS: Record<RetentionEntityType, number> = {
+  VISIT: 7,
+  EVV_RECORD: 7,
+  CLINICAL_NOTE: 7,
+  INCIDENT: 7,
+  PAYROLL: 7,
+  AUDIT_LOG: 7,
+};
+
+const FEDERAL_MINIMUM_YEARS: ReadonlyMap<RetentionEntityType, number> = new Map<RetentionEntityType, number>([
+  ['VISIT', 6],
+  ['EVV_RECORD', 6],
+  ['CLINICAL_NOTE', 6],
+  ['INCIDENT', 6],
+  ['PAYROLL', 4],
+  ['AUDIT_LOG', 6],
+]);
+
+/** Kinds of record state record-keeping rules apply to */
+const STATE_REGULATED: ReadonlySet<RetentionEntityType> = new Set<RetentionEntityType>([
+  'VISIT',
+  'EVV_RECORD',
+  'CLINICAL_NOTE',
+  'INCIDENT',
+]);
+
+export const MAX_RETENTION_YEARS = 100;
+
+/**
+ * Shortest period a kind of record may be kept for; without a state, the
+ * federal minimum
+ */
+export function getMinimumRetentionYears(entityType: RetentionEntityType, stateCode: StateCode | null = null): number {
+  const federal = FEDERAL_MINIMUM_YEARS.get(entityType) ?? 0;
+  if (stateCode === null || !STATE_REGULATED.has(entityType)) {
+    return federal;
+  }
+  return Math.max(federal, getStateInfo(stateCode)?.dataRetentionYears ?? 0);
+}
+
+/**
+ * Retention period for a kind of record without a policy
+ */
+export function getDefaultRetentionYears(entityType: RetentionEntityType): number {
+  // eslint-disable-next-line security/detect-object-injection -- entityType is a RetentionEntityType
+  return DEFAULT_RETENTION_YEARS[entityType];
+}
+
+/**
+ * Retention period for a kind of record in a state, or in an unknown state
+ * when stateCode is null
+ */
+export function resolveRetentionYears(
+  entityType: RetentionEntityType,
+  stateCode: StateCode | null,
+  policies: RetentionPolicy[]
+): number {
+  if (stateCode === null) {
+    return buildRetentionSchedule(entityType, policies).unknownStateYears;
+  }
+
+  const forEntity = policies.filter(policy => policy.entityType === entityType);
+  const policy = forEntity.find(p => p.stateCode === stateCode) ?? forEntity.find(p => p.stateCode === null);
+
+  return Math.max(
+    policy?.retentionYears ?? getDefaultRetentionYears(entityType),
+    getMinimumRetentionYears(entityType, stateCode)
+  );
+}
+
+/**
+ * Retention periods for a kind of record in every state
+ */
+export function buildRetentionSchedule(entityType: RetentionEntityType, policies: RetentionPolicy[]): RetentionSchedule {
+  const forEntity = policies.filter(policy => policy.entityType === entityType);
+  const byState: Partial<Record<StateCode, number>> = Object.fromEntries(
+    getAllStateCodes().map(stateCode => [stateCode, resolveRetentionYears(entityType, stateCode, forEntity)])
+  );
+
+  const defaultYears = Math.max(
+    forEntity.find(policy => policy.stateCode === null)?.retentionYears ?? getDefaultRetentionYears(entityType),
+    getMinimumRetentionYears(entityType)
+  );
+
+  return {
+    entityType,
+    defaultYears,
+    minimumYears: getMinimumRetentionYears(entityType),
+    byState,
+    unknownStateYears: Math.max(defaultYears, ...Object.values(byState)),
+    policies: forEntity,
+  };
+}
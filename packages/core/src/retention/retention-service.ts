@@ -0,0 +1,368 @@
+/**
+ * Retention Service
+ *
+ * Purges records past their retention period, organization by organization.
+ *
+ * A record is eligible once the period for its kind and state has passed
+ * since its date (the visit or service date, when a note was written, when
+ * an incident was closed, the pay date, when an audit event happened) and
+ * no active legal hold covers its client, caregiver or incident. Visits are
+ * kept while their EVV records or notes are.
+ *
+ * A dry run reports what a purge would delete without deleting anything.
+ * A purge deletes in batches; each batch is written to the run's archive
+ * before its transaction commits, so the archive holds every purged row.
+ * Rows that would go with a purged row through ON DELETE CASCADE (the EVV
+ * audit trail of a record, the shift offers of a visit) are deleted and
+ * archived first; a purge refuses to start while the schema has cascades
+ * it does not know about. Rows still referenced by records that are kept
+ * are left in place. Every run is recorded in retention_runs, whether it
+ * completes or fails; a run left RUNNING by a purge that died is marked
+ * FAILED by the next purge of the organization.
+ */
+
+import { join } from 'node:path';
+import { Database } from '../db/connection';
+import { ConflictError, NotFoundError, ValidationError, type UUID } from '../types/base';
+import { RetentionArchive } from './retention-archive';
+import { RetentionPolicyService } from './retention-policy-service';
+import { checkCascades, deleteRows } from './retention-delete';
+import {
+  RETENTION_TARGETS,
+  buildReportSql,
+  buildSelectBatchSql,
+  type RetentionTarget,
+} from './retention-targets';
+import type {
+  RetentionEntityType,
+  RetentionPurgeResult,
+  RetentionReport,
+  RetentionReportEntry,
+  RetentionRun,
+  RetentionRunOptions,
+  RetentionRunStatus,
+  RetentionRunType,
+  RetentionSchedule,
+} from './types';
+
+export const DEFAULT_RETENTION_BATCH_SIZE = 500;
+
+export interface RetentionServiceOptions {
+  /** Where purges write their archives; required to purge */
+  archiveDir?: string;
+  batchSize?: number;
+}
+
+const UNIQUE_VIOLATION = '23505';
+
+interface RunRow extends Record<string, unknown> {
+  id: string;
+  organization_id: string;
+  run_type: RetentionRunType;
+  status: RetentionRunStatus;
+  as_of: Date;
+  started_by: string | null;
+  started_at: Date;
+  completed_at: Date | null;
+  report: RetentionReport | null;
+  archive_files: RetentionRun['archiveFiles'];
+  error: string | null;
+}
+
+interface ReportRow extends Record<string, unknown> {
+  state_code: string | null;
+  retention_years: number;
+  eligible: number;
+  held: number;
+  waiting_on_dependents: number;
+  oldest_record_date: string | null;
+}
+
+/**
+ * Query parameters $1 to $4 shared by every retention query
+ */
+type RetentionParams = [organizationId: UUID, asOf: Date, byState: string, unknownStateYears: number];
+
+interface PurgeContext {
+  organizationId: UUID;
+  asOf: Date;
+  schedules: Map<RetentionEntityType, RetentionSchedule>;
+  archive: RetentionArchive;
+}
+
+export class RetentionService {
+  private batchSize: number;
+  private policies: RetentionPolicyService;
+
+  constructor(private db: Database, private options: RetentionServiceOptions = {}) {
+    this.batchSize = options.batchSize ?? DEFAULT_RETENTION_BATCH_SIZE;
+    this.policies = new RetentionPolicyService(db);
+  }
+
+  /**
+   * Report what a purge would delete, without deleting anything
+   */
+  async dryRun(organizationId: UUID, options: RetentionRunOptions = {}): Promise<RetentionRun> {
+    const asOf = this.resolveAsOf(options.asOf);
+    const report = await this.buildReport(organizationId, asOf, await this.getScheduleMap(organizationId));
+
+    const result = await this.db.query<RunRow>(
+      `INSERT INTO retention_runs (organization_id, run_type, status, as_of, started_by, completed_at, report)
+       VALUES ($1, 'DRY_RUN', 'COMPLETED', $2, $3, NOW(), $4)
+       RETURNING *`,
+      [organizationId, asOf, options.startedBy ?? null, JSON.stringify(report)]
+    );
+    return toRun(result.rows[0]!);
+  }
+
+  /**
+   * Archive and delete every eligible record
+   *
+   * Only one purge runs per organization at a time; it holds an advisory
+   * lock, which Postgres releases if the process dies. A failed purge keeps
+   * what it deleted before failing, and its run records how far it got.
+   */
+  async purge(organizationId: UUID, options: RetentionRunOptions = {}): Promise<RetentionRun> {
+    const archiveDir = this.options.archiveDir;
+    if (archiveDir === undefined) {
+      throw new ValidationError('An archive directory is required to purge', { organizationId });
+    }
+
+    const asOf = this.resolveAsOf(options.asOf);
+    return await this.withPurgeLock(organizationId, async () => {
+      await this.failInterruptedRuns(organizationId);
+      const run = await this.startPurgeRun(organizationId, asOf, options.startedBy ?? null);
+      const archive = new RetentionArchive(join(archiveDir, organizationId, run.id));
+      const purged: RetentionPurgeResult[] = [];
+      let report: RetentionReport = { entries: [], totals: { eligible: 0, held: 0, waitingOnDependents: 0 } };
+
+      try {
+        await checkCascades(this.db);
+        const context: PurgeContext = { organizationId, asOf, schedules: await this.getScheduleMap(organizationId), archive };
+        report = await this.buildReport(organizationId, asOf, context.schedules);
+        for (const target of RETENTION_TARGETS) {
+          purged.push(await this.purgeTarget(context, target));
+        }
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        await this.finishRun(run.id, { status: 'FAILED', report: { ...report, purged }, error: message }, archive);
+        throw error;
+      }
+
+      return await this.finishRun(run.id, { status: 'COMPLETED', report: { ...report, purged }, error: null }, archive);
+    });
+  }
+
+  async listRuns(organizationId: UUID, limit = 20): Promise<RetentionRun[]> {
+    const result = await this.db.query<RunRow>(
+      `SELECT * FROM retention_runs
+       WHERE organization_id = $1
+       ORDER BY started_at DESC
+       LIMIT $2`,
+      [organizationId, limit]
+    );
+    return result.rows.map(toRun);
+  }
+
+  async getRun(organizationId: UUID, runId: UUID): Promise<RetentionRun> {
+    const result = await this.db.query<RunRow>(
+      'SELECT * FROM retention_runs WHERE id = $1 AND organization_id = $2',
+      [runId, organizationId]
+    );
+    const run = result.rows[0];
+    if (run === undefined) {
+      throw new NotFoundError('Retention run not found', { runId });
+    }
+    return toRun(run);
+  }
+
+  /**
+   * Retention is counted back from now or an earlier date, never a later
+   * one, which would purge records still inside their period
+   */
+  private resolveAsOf(asOf: Date | undefined): Date {
+    const now = new Date();
+    if (asOf === undefined) {
+      return now;
+    }
+    if (Number.isNaN(asOf.getTime()) || asOf.getTime() > now.getTime()) {
+      throw new ValidationError('Retention runs cannot be dated in the future', { asOf });
+    }
+    return asOf;
+  }
+
+  private async getScheduleMap(organizationId: UUID): Promise<Map<RetentionEntityType, RetentionSchedule>> {
+    const schedules = await this.policies.getSchedules(organizationId);
+    return new Map(schedules.map(schedule => [schedule.entityType, schedule]));
+  }
+
+  private async buildReport(
+    organizationId: UUID,
+    asOf: Date,
+    schedules: Map<RetentionEntityType, RetentionSchedule>
+  ): Promise<RetentionReport> {
+    const entries: RetentionReportEntry[] = [];
+
+    for (const target of RETENTION_TARGETS) {
+      const result = await this.db.query<ReportRow>(
+        buildReportSql(target),
+        toParams(organizationId, asOf, schedules.get(target.entityType)!)
+      );
+
+      entries.push(...result.rows.map(row => ({
+        entityType: target.entityType,
+        table: target.table,
+        stateCode: row.state_code,
+        retentionYears: row.retention_years,
+        eligible: row.eligible,
+        held: row.held,
+        waitingOnDependents: row.waiting_on_dependents,
+        oldestRecordDate: row.oldest_record_date,
+      })));
+    }
+
+    return {
+      entries,
+      totals: {
+        eligible: entries.reduce((sum, entry) => sum + entry.eligible, 0),
+        held: entries.reduce((sum, entry) => sum + entry.held, 0),
+        waitingOnDependents: entries.reduce((sum, entry) => sum + entry.waitingOnDependents, 0),
+      },
+    };
+  }
+
+  /**
+   * Run a purge under the organization's advisory lock, held on a
+   * connection of its own for the whole purge
+   */
+  private async withPurgeLock<T>(organizationId: UUID, purge: () => Promise<T>): Promise<T> {
+    const client = await this.db.getClient();
+    try {
+      const lock = await client.query<{ locked: boolean }>(
+        "SELECT pg_try_advisory_lock(hashtext('retention_purge:' || $1)) AS locked",
+        [organizationId]
+      );
+      if (lock.rows[0]?.locked !== true) {
+        throw new ConflictError('A retention purge is already running for this organization', { organizationId });
+      }
+
+      try {
+        return await purge();
+      } finally {
+        await client.query("SELECT pg_advisory_unlock(hashtext('retention_purge:' || $1))", [organizationId]);
+      }
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Runs still RUNNING while this purge holds the lock were left by a
+   * purge that died
+   */
+  private async failInterruptedRuns(organizationId: UUID): Promise<void> {
+    await this.db.query(
+      `UPDATE retention_runs
+       SET status = 'FAILED', completed_at = NOW(), error = 'Interrupted before completing'
+       WHERE organization_id = $1 AND run_type = 'PURGE' AND status = 'RUNNING'`,
+      [organizationId]
+    );
+  }
+
+  private async startPurgeRun(organizationId: UUID, asOf: Date, startedBy: UUID | null): Promise<RetentionRun> {
+    try {
+      const result = await this.db.query<RunRow>(
+        `INSERT INTO retention_runs (organization_id, run_type, as_of, started_by)
+         VALUES ($1, 'PURGE', $2, $3)
+         RETURNING *`,
+        [organizationId, asOf, startedBy]
+      );
+      return toRun(result.rows[0]!);
+    } catch (error) {
+      if (pgErrorCode(error) === UNIQUE_VIOLATION) {
+        throw new ConflictError('A retention purge is already running for this organization', { organizationId });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Purge one table in batches, in primary key order
+   */
+  private async purgeTarget(context: PurgeContext, target: RetentionTarget): Promise<RetentionPurgeResult> {
+    const result: RetentionPurgeResult = {
+      entityType: target.entityType,
+      table: target.table,
+      purged: 0,
+      skippedReferenced: 0,
+      cascaded: 0,
+    };
+    const params = toParams(context.organizationId, context.asOf, context.schedules.get(target.entityType)!);
+    const selectSql = buildSelectBatchSql(target);
+    let after: string | null = null;
+
+    for (;;) {
+      const batch = await this.db.transaction(async (client) => {
+        const ids = await client.query<{ id: string }>(selectSql, [...params, after, this.batchSize]);
+        const selected = ids.rows.map(row => row.id);
+        const deleted = await deleteRows(client, target, selected);
+
+        // Archived before the transaction commits
+        for (const [table, records] of deleted) {
+          await context.archive.append(table, records);
+        }
+        return { selected, deleted };
+      });
+
+      if (batch.selected.length === 0) {
+        return result;
+      }
+
+      const purged = batch.deleted.get(target.table)?.length ?? 0;
+      const cascaded = [...batch.deleted.values()].reduce((sum, records) => sum + records.length, 0) - purged;
+      result.purged += purged;
+      result.cascaded += cascaded;
+      result.skippedReferenced += batch.selected.length - purged;
+      after = batch.selected[batch.selected.length - 1]!;
+    }
+  }
+
+  private async finishRun(
+    runId: UUID,
+    outcome: { status: 'COMPLETED' | 'FAILED'; report: RetentionReport; error: string | null },
+    archive: RetentionArchive
+  ): Promise<RetentionRun> {
+    const result = await this.db.query<RunRow>(
+      `UPDATE retention_runs
+       SET status = $2, completed_at = NOW(), report = $3, archive_files = $4, error = $5
+       WHERE id = $1
+       RETURNING *`,
+      [runId, outcome.status, JSON.stringify(outcome.report), JSON.stringify(archive.files()), outcome.error]
+    );
+    return toRun(result.rows[0]!);
+  }
+}
+
+function toParams(organizationId: UUID, asOf: Date, schedule: RetentionSchedule): RetentionParams {
+  return [organizationId, asOf, JSON.stringify(schedule.byState), schedule.unknownStateYears];
+}
+
+function pgErrorCode(error: unknown): string | undefined {
+  return typeof error === 'object' && error !== null && 'code' in error ? String(error.code) : undefined;
+}
+
+function toRun(row: RunRow): RetentionRun {
+  return {
+    id: row.id,
+    organizationId: row.organization_id,
+    runType: row.run_type,
+    status: row.status,
+    asOf: row.as_of,
+    startedBy: row.started_by,
+    startedAt: row.started_at,
+    completedAt: row.completed_at,
+    report: row.report,
+    archiveFiles: row.archive_files,
+    error: row.error,
+  };
+}
@@ -0,0 +1,279 @@
+/**
+ * Retention targets
+ *
+ * The tables retention purges and the SQL for finding their eligible rows.
+ * Every query takes the organization as $1, the as-of date as $2, the
+ * state => years map as $3 and the years for an unknown state as $4.
+ */
+
+import type { RetentionEntityType } from './types';
+
+/**
+ * A table holding one kind of record. SQL fragments refer to the row as t
+ * and, in holdCondition, to the legal hold as h.
+ */
+export interface RetentionTarget {
+  entityType: RetentionEntityType;
+  table: string;
+  primaryKey: string;
+  /** When the retention period starts */
+  dateColumn: string;
+  /** State the care was delivered in */
+  stateExpression: string;
+  /** Rows not meeting it are never purged, e.g. open incidents */
+  condition?: string;
+  holdCondition: string;
+  /** True while the row has records that must be purged first */
+  dependentsCondition?: string;
+  /** Rows the database deletes along with the row, archived before it */
+  cascades?: RetentionCascade[];
+}
+
+/**
+ * A table whose rows reference a purged row, or another cascade's row,
+ * through a foreign key with ON DELETE CASCADE. Cascades are listed
+ * children first: a table's own cascades come before it.
+ */
+export interface RetentionCascade {
+  table: string;
+  /** The foreign key column */
+  column: string;
+  /** The referenced table: the target's or another cascade's, by id */
+  references: string;
+}
+
+/**
+ * EVV audit trail kept with each record; regulators can ask for it
+ */
+const EVV_RECORD_CASCADES: RetentionCascade[] = [
+  'evv_revisions',
+  'evv_original_data',
+  'evv_access_log',
+  'texas_vmur',
+  'state_aggregator_submissions',
+  'evv_revision_requests',
+  'evv_exception_queue',
+].map(table => ({ table, column: 'evv_record_id', references: 'evv_records' }));
+
+const VISIT_CASCADES: RetentionCascade[] = [
+  ...['assignment_proposals', 'match_history', 'ml_predictions', 'ab_test_assignments']
+    .map(table => ({ table, column: 'open_shift_id', references: 'open_shifts' })),
+  ...[
+    'open_shifts',
+    'assignment_proposals',
+    'evv_revisions',
+    'texas_vmur',
+    'evv_revision_requests',
+    'evv_exception_queue',
+    'family_visit_summaries',
+    'client_visit_ratings',
+    // Dependents, so only ever written since the visit was selected
+    'visit_notes',
+    'clinical_visit_notes',
+  ].map(table => ({ table, column: 'visit_id', references: 'visits' })),
+];
+
+const VISIT_STATE = '(SELECT v.address->>\'state\' FROM visits v WHERE v.id = t.visit_id)';
+
+/**
+ * Tables in purge order: records that reference a visit go before it
+ */
+export const RETENTION_TARGETS: RetentionTarget[] = [
+  {
+    entityType: 'EVV_RECORD',
+    table: 'evv_records',
+    primaryKey: 'id',
+    dateColumn: 'service_date',
+    stateExpression: 't.service_address->>\'state\'',
+    holdCondition: `(h.subject_type = 'CLIENT' AND h.subject_id = t.client_id)
+      OR (h.subject_type = 'CAREGIVER' AND h.subject_id = t.caregiver_id)`,
+    cascades: EVV_RECORD_CASCADES,
+  },
+  {
+    entityType: 'CLINICAL_NOTE',
+    table: 'visit_notes',
+    primaryKey: 'id',
+    dateColumn: 'created_at',
+    stateExpression: VISIT_STATE,
+    holdCondition: `(h.subject_type = 'CLIENT' AND h.subject_id = (SELECT v.client_id FROM visits v WHERE v.id = t.visit_id))
+      OR (h.subject_type = 'CAREGIVER' AND h.subject_id = t.caregiver_id)`,
+  },
+  {
+    entityType: 'CLINICAL_NOTE',
+    table: 'clinical_visit_notes',
+    primaryKey: 'id',
+    dateColumn: 'service_date',
+    stateExpression: VISIT_STATE,
+    holdCondition: `(h.subject_type = 'CLIENT' AND h.subject_id = t.client_id)
+      OR (h.subject_type = 'CAREGIVER' AND h.subject_id = t.caregiver_id)`,
+  },
+  {
+    entityType: 'VISIT',
+    table: 'visits',
+    primaryKey: 'id',
+    dateColumn: 'scheduled_date',
+    stateExpression: 't.address->>\'state\'',
+    holdCondition: `(h.subject_type = 'CLIENT' AND h.subject_id = t.client_id)
+      OR (h.subject_type = 'CAREGIVER' AND h.subject_id = t.assigned_caregiver_id)`,
+    // Deleting a visit would cascade to its notes
+    dependentsCondition: `EXISTS (SELECT 1 FROM evv_records d WHERE d.visit_id = t.id)
+      OR EXISTS (SELECT 1 FROM visit_notes d WHERE d.visit_id = t.id)
+      OR EXISTS (SELECT 1 FROM clinical_visit_notes d WHERE d.visit_id = t.id)`,
+    cascades: VISIT_CASCADES,
+  },
+  {
+    entityType: 'INCIDENT',
+    table: 'incidents',
+    primaryKey: 'id',
+    dateColumn: 'closed_at',
+    stateExpression: '(SELECT c.primary_address->>\'state\' FROM clients c WHERE c.id = t.client_id)',
+    condition: 't.closed_at IS NOT NULL',
+    holdCondition: `(h.subject_type = 'INCIDENT' AND h.subject_id = t.id)
+      OR (h.subject_type = 'CLIENT' AND h.subject_id = t.client_id)
+      OR (h.subject_type = 'CAREGIVER' AND h.subject_id = ANY(t.involved_staff_ids))`,
+  },
+  {
+    entityType: 'PAYROLL',
+    table: 'pay_stubs',
+    primaryKey: 'id',
+    dateColumn: 'pay_date',
+    stateExpression: '(SELECT b.address->>\'state\' FROM branches b WHERE b.id = t.branch_id)',
+    holdCondition: `h.subject_type = 'CAREGIVER' AND h.subject_id = t.caregiver_id`,
+  },
+  {
+    entityType: 'AUDIT_LOG',
+    table: 'audit_events',
+    primaryKey: 'event_id',
+    dateColumn: 'timestamp',
+    stateExpression: '(SELECT o.primary_address->>\'state\' FROM organizations o WHERE o.id = t.organization_id)',
+    // Events about any held client, caregiver or incident
+    holdCondition: 'h.subject_id::text = t.resource_id',
+  },
+];
+
+/**
+ * Rows past retention, by state: eligible, held, and waiting on records
+ * that must be purged first
+ */
+export function buildReportSql(target: RetentionTarget): string {
+  const waiting = target.dependentsCondition === undefined ? 'false' : `(${target.dependentsCondition})`;
+
+  return `
+    SELECT state_code, retention_years,
+           COUNT(*) FILTER (WHERE NOT held AND NOT waiting)::int AS eligible,
+           COUNT(*) FILTER (WHERE held)::int AS held,
+           COUNT(*) FILTER (WHERE waiting AND NOT held)::int AS waiting_on_dependents,
+           to_char(MIN(record_date), 'YYYY-MM-DD') AS oldest_record_date
+    FROM (
+      SELECT ${stateSql(target)} AS state_code,
+             ${yearsSql(target)} AS retention_years,
+             t.${target.dateColumn} AS record_date,
+             ${heldSql(target)} AS held,
+             ${waiting} AS waiting
+      FROM ${target.table} t
+      WHERE ${pastRetentionSql(target)}
+    ) past
+    GROUP BY state_code, retention_years
+    ORDER BY state_code NULLS LAST`;
+}
+
+/**
+ * Locks the next batch of eligible rows: primary keys after $5, at most $6
+ */
+export function buildSelectBatchSql(target: RetentionTarget): string {
+  const notWaiting = target.dependentsCondition === undefined ? '' : `AND NOT (${target.dependentsCondition})`;
+
+  return `
+    SELECT t.${target.primaryKey} AS id
+    FROM ${target.table} t
+    WHERE ${pastRetentionSql(target)}
+      AND NOT ${heldSql(target)}
+      ${notWaiting}
+      AND ($5::uuid IS NULL OR t.${target.primaryKey} > $5::uuid)
+    ORDER BY t.${target.primaryKey}
+    LIMIT $6
+    FOR UPDATE OF t`;
+}
+
+/**
+ * Deletes the rows with the primary keys in $1, returning them as JSON
+ */
+export function buildDeleteSql(target: RetentionTarget): string {
+  return `DELETE FROM ${target.table} t WHERE t.${target.primaryKey} = ANY($1::uuid[]) RETURNING to_jsonb(t) AS record`;
+}
+
+/**
+ * Deletes a cascade's rows for the target rows with the primary keys in
+ * $1, returning them as JSON
+ */
+export function buildCascadeDeleteSql(target: RetentionTarget, cascade: RetentionCascade): string {
+  return `DELETE FROM ${cascade.table} c WHERE ${cascadeKeysSql(target, cascade, 1)} RETURNING to_jsonb(c) AS record`;
+}
+
+/**
+ * Finds the ON DELETE CASCADE foreign keys into the tables in $1
+ */
+export function buildCascadeCatalogSql(): string {
+  return `
+    SELECT child.relname AS child_table, a.attname AS fk_column, parent.relname AS parent_table
+    FROM pg_constraint con
+    JOIN pg_class child ON child.oid = con.conrelid
+    JOIN pg_class parent ON parent.oid = con.confrelid
+    JOIN pg_attribute a ON a.attrelid = con.conrelid AND a.attnum = con.conkey[1]
+    WHERE con.contype = 'f'
+      AND con.confdeltype = 'c'
+      AND parent.relname = ANY($1::text[])`;
+}
+
+/**
+ * Tables a purge of the target deletes from
+ */
+export function getCascadeTables(target: RetentionTarget): string[] {
+  return [target.table, ...(target.cascades ?? []).map(cascade => cascade.table)];
+}
+
+/**
+ * Condition on the cascade's row c: it references a row being purged,
+ * directly or through other cascades
+ */
+function cascadeKeysSql(target: RetentionTarget, cascade: RetentionCascade, depth: number): string {
+  const alias = depth === 1 ? 'c' : `c${depth}`;
+  if (cascade.references === target.table) {
+    return `${alias}.${cascade.column} = ANY($1::uuid[])`;
+  }
+
+  const parent = (target.cascades ?? []).find(candidate => candidate.table === cascade.references);
+  if (parent === undefined) {
+    throw new Error(`Retention cascade ${cascade.table} references ${cascade.references}, which is not purged`);
+  }
+  const parentAlias = `c${depth + 1}`;
+  return `${alias}.${cascade.column} IN (SELECT ${parentAlias}.id FROM ${parent.table} ${parentAlias} WHERE ${cascadeKeysSql(target, parent, depth + 1)})`;
+}
+
+/**
+ * The record's state, upper-cased; NULL when unknown
+ */
+function stateSql(target: RetentionTarget): string {
+  return `NULLIF(UPPER(TRIM(${target.stateExpression})), '')`;
+}
+
+function yearsSql(target: RetentionTarget): string {
+  return `COALESCE(($3::jsonb ->> ${stateSql(target)})::int, $4::int)`;
+}
+
+function pastRetentionSql(target: RetentionTarget): string {
+  const condition = target.condition === undefined ? '' : `AND ${target.condition}`;
+
+  return `t.organization_id = $1
+    ${condition}
+    AND t.${target.dateColumn} < $2::timestamptz - make_interval(years => ${yearsSql(target)})`;
+}
+
+function heldSql(target: RetentionTarget): string {
+  return `EXISTS (
+    SELECT 1 FROM legal_holds h
+    WHERE h.organization_id = t.organization_id
+      AND h.released_at IS NULL
+      AND (${target.holdCondition})
+  )`;
+}
@@ -0,0 +1,167 @@
+/**
+ * Data retention types
+ *
+ * Retention policies decide how long each kind of record is kept, legal
+ * holds keep the records of a client, caregiver or incident past that, and
+ * retention runs record every dry run and purge.
+ */
+
+import type { StateCode, UUID } from '../types/base';
+
+/**
+ * Kinds of record with a retention period
+ */
+export type RetentionEntityType =
+  | 'VISIT'
+  | 'EVV_RECORD'
+  | 'CLINICAL_NOTE'
+  | 'INCIDENT'
+  | 'PAYROLL'
+  | 'AUDIT_LOG';
+
+/**
+ * An organization's retention period for one kind of record, for every
+ * state (stateCode null) or one state
+ */
+export interface RetentionPolicy {
+  id: UUID;
+  organizationId: UUID;
+  entityType: RetentionEntityType;
+  stateCode: StateCode | null;
+  retentionYears: number;
+  notes: string | null;
+  updatedAt: Date;
+  updatedBy: UUID | null;
+}
+
+export interface SetRetentionPolicyInput {
+  entityType: RetentionEntityType;
+  stateCode?: StateCode | null;
+  retentionYears: number;
+  notes?: string | null;
+}
+
+/**
+ * Retention periods in force for one kind of record
+ */
+export interface RetentionSchedule {
+  entityType: RetentionEntityType;
+  /** Years for every state without a policy or minimum of its own */
+  defaultYears: number;
+  /** Federal minimum; some states require longer */
+  minimumYears: number;
+  byState: Partial<Record<StateCode, number>>;
+  /** Years for records whose state is unknown: the longest of all */
+  unknownStateYears: number;
+  policies: RetentionPolicy[];
+}
+
+export type LegalHoldSubjectType = 'CLIENT' | 'CAREGIVER' | 'INCIDENT';
+
+export interface LegalHold {
+  id: UUID;
+  organizationId: UUID;
+  subjectType: LegalHoldSubjectType;
+  subjectId: UUID;
+  reason: string;
+  matterReference: string | null;
+  placedAt: Date;
+  placedBy: UUID;
+  releasedAt: Date | null;
+  releasedBy: UUID | null;
+  releaseReason: string | null;
+}
+
+export interface PlaceLegalHoldInput {
+  subjectType: LegalHoldSubjectType;
+  subjectId: UUID;
+  reason: string;
+  matterReference?: string | null;
+}
+
+export interface ReleaseLegalHoldInput {
+  reason: string;
+  releasedBy: UUID;
+}
+
+export type RetentionRunType = 'DRY_RUN' | 'PURGE';
+
+export type RetentionRunStatus = 'RUNNING' | 'COMPLETED' | 'FAILED';
+
+/**
+ * Records of one table in one state past their retention period
+ */
+export interface RetentionReportEntry {
+  entityType: RetentionEntityType;
+  table: string;
+  /** null when the record's state is unknown */
+  stateCode: string | null;
+  retentionYears: number;
+  /** Past retention and not held */
+  eligible: number;
+  /** Past retention but under a legal hold */
+  held: number;
+  /**
+   * Visits past retention whose EVV records or notes are still kept. A
+   * purge deletes the EVV records and notes first, so visits waiting only
+   * on records it deletes are purged in the same run.
+   */
+  waitingOnDependents: number;
+  oldestRecordDate: string | null;
+}
+
+/**
+ * What a purge deleted from one table
+ */
+export interface RetentionPurgeResult {
+  entityType: RetentionEntityType;
+  table: string;
+  purged: number;
+  /** Eligible rows still referenced by other records, left in place */
+  skippedReferenced: number;
+  /** Rows of other tables deleted along with the purged rows, archived too */
+  cascaded: number;
+}
+
+export interface RetentionReport {
+  entries: RetentionReportEntry[];
+  totals: {
+    eligible: number;
+    held: number;
+    waitingOnDependents: number;
+  };
+  /** Only for purges */
+  purged?: RetentionPurgeResult[];
+}
+
+/**
+ * A gzipped JSON Lines file of purged rows, one row per line
+ */
+export interface RetentionArchiveFile {
+  table: string;
+  path: string;
+  records: number;
+  bytes: number;
+  sha256: string;
+}
+
+export interface RetentionRun {
+  id: UUID;
+  organizationId: UUID;
+  runType: RetentionRunType;
+  status: RetentionRunStatus;
+  asOf: Date;
+  startedBy: UUID | null;
+  startedAt: Date;
+  completedAt: Date | null;
+  report: RetentionReport | null;
+  archiveFiles: RetentionArchiveFile[];
+  error: string | null;
+}
+
+export interface RetentionRunOptions {
+  /** Date retention periods are counted back from; defaults to now */
+  asOf?: Date;
+  /** User starting the run; null for scheduled runs */
+  startedBy?: UUID | null;
+}
@@ -0,0 +1,302 @@
+/**
+ * @care-commons/core - Domain Mapping Service
+ *
+ * Custom domains for white-label tenants. Subdomains of the platform domain
+ * are active immediately; custom domains become active once the DNS TXT
+ * verification record is found.
+ */
+
+import { randomBytes } from 'node:crypto';
+import { promises as dnsPromises } from 'node:dns';
+import { ConflictError, NotFoundError, UUID, ValidationError } from '../types/base';
+import {
+  CreateDomainMappingRequest,
+  DNSRecord,
+  DomainMapping,
+  DomainVerificationInstructions,
+  DomainVerificationResult,
+  ResolvedTenant,
+} from '../types/domain-mappings';
+import { BrandingRepository } from '../repository/branding-repository';
+import { DomainMappingRepository } from '../repository/domain-mapping-repository';
+
+/**
+ * DNS TXT lookup, matching node:dns `resolveTxt`. Injected so tests and
+ * local development can fake DNS.
+ */
+export interface DnsTxtResolver {
+  resolveTxt(hostname: string): Promise<string[][]>;
+}
+
+export interface DomainMappingServiceOptions {
+  dnsResolver?: DnsTxtResolver;
+  platformDomain?: string; // Subdomains of this are mapped without DNS verification
+  cnameTarget?: string; // Where custom domains should point
+}
+
+const VERIFICATION_HOST_PREFIX = '_care-commons-verification';
+const VERIFICATION_VALUE_PREFIX = 'care-commons-verification=';
+const DNS_NOT_FOUND_CODES = new Set(['ENOTFOUND', 'ENODATA']);
+const LABEL_PATTERN = /^[\da-z-]{1,63}$/;
+const TLD_PATTERN = /^[a-z]{2,63}$/;
+
+const nodeDnsResolver: DnsTxtResolver = {
+  resolveTxt: async hostname => dnsPromises.resolveTxt(hostname),
+};
+
+/**
+ * Normalize a Host header or user-entered domain: lowercase, without port
+ * or trailing dot. Returns null for IP literals and empty values.
+ */
+export function normalizeHostname(host: string | undefined): string | null {
+  if (host === undefined) {
+    return null;
+  }
+
+  const hostname = host.trim().toLowerCase().replace(/:\d+$/, '').replace(/\.$/, '');
+  if (hostname === '' || hostname.startsWith('[') || /^[\d.]+$/.test(hostname)) {
+    return null;
+  }
+  return hostname;
+}
+
+/**
+ * Whether a normalized hostname is a syntactically valid domain name
+ */
+export function isValidDomainName(hostname: string): boolean {
+  const labels = hostname.split('.');
+  return (
+    hostname.length <= 253 &&
+    labels.length >= 2 &&
+    labels.every(label => LABEL_PATTERN.test(label) && !label.startsWith('-') && !label.endsWith('-')) &&
+    TLD_PATTERN.test(labels[labels.length - 1]!)
+  );
+}
+
+/**
+ * Whether a normalized hostname could be a mapped domain: a valid name
+ * other than the platform domain itself (with or without `www.`)
+ */
+export function isMappableHostname(hostname: string, platformDomain: string): boolean {
+  return hostname !== platformDomain && hostname !== `www.${platformDomain}` && isValidDomainName(hostname);
+}
+
+export class DomainMappingService {
+  private dnsResolver: DnsTxtResolver;
+  private platformDomain: string;
+  private cnameTarget: string;
+
+  constructor(
+    private domainRepository: DomainMappingRepository,
+    private brandingRepository: BrandingRepository,
+    options: DomainMappingServiceOptions = {}
+  ) {
+    this.dnsResolver = options.dnsResolver ?? nodeDnsResolver;
+    this.platformDomain = options.platformDomain ?? process.env.PLATFORM_DOMAIN ?? 'care-commons.com';
+    this.cnameTarget = options.cnameTarget ?? `custom.${this.platformDomain}`;
+  }
+
+  async listDomains(organizationId: UUID): Promise<DomainMapping[]> {
+    return this.domainRepository.getDomainsByOrganizationId(organizationId);
+  }
+
+  async getDomain(organizationId: UUID, domainId: UUID): Promise<DomainMapping> {
+    const mapping = await this.domainRepository.getDomainById(domainId);
+
+    if (mapping?.organizationId !== organizationId) {
+      throw new NotFoundError('Domain not found', { domainId });
+    }
+
+    return mapping;
+  }
+
+  /**
+   * Register a domain for the organization and return the DNS records it
+   * needs
+   */
+  async addDomain(
+    organizationId: UUID,
+    request: CreateDomainMappingRequest,
+    userId: UUID
+  ): Promise<{ domain: DomainMapping; instructions: DomainVerificationInstructions }> {
+    const domain = this.validateDomain(request);
+
+    const existing = await this.domainRepository.getDomainByName(domain);
+    if (existing !== null) {
+      throw new ConflictError('Domain is already registered', { domain });
+    }
+
+    const dnsRecords = this.buildDnsRecords(domain, request.domainType);
+    let mapping = await this.domainRepository.createDomainMapping(
+      organizationId,
+      { ...request, domain },
+      dnsRecords,
+      userId
+    );
+
+    if (mapping.domainType === 'SUBDOMAIN') {
+      await this.domainRepository.recordDnsCheck(
+        mapping.id,
+        { dnsStatus: 'VERIFIED', errorMessage: null },
+        userId
+      );
+      mapping = await this.domainRepository.activateDomain(mapping.id, userId);
+    }
+
+    return { domain: mapping, instructions: this.getInstructions(mapping) };
+  }
+
+  getInstructions(mapping: DomainMapping): DomainVerificationInstructions {
+    const dnsRecords = mapping.dnsRecords ?? [];
+    const instructions =
+      mapping.domainType === 'SUBDOMAIN'
+        ? `${mapping.domain} is served by the platform; no DNS changes are needed.`
+        : `Add the following records at your DNS provider for ${mapping.domain}, then verify the domain. ` +
+          'The TXT record proves ownership; the CNAME routes traffic to the platform.';
+
+    return {
+      domain: mapping.domain,
+      domainType: mapping.domainType,
+      dnsRecords,
+      instructions,
+      estimatedPropagationTime: mapping.domainType === 'SUBDOMAIN' ? 'Immediate' : '1-48 hours',
+    };
+  }
+
+  /**
+   * Look up the TXT verification record and activate the domain when it
+   * matches
+   */
+  async verifyDomain(
+    organizationId: UUID,
+    domainId: UUID,
+    userId: UUID
+  ): Promise<DomainVerificationResult> {
+    const mapping = await this.getDomain(organizationId, domainId);
+    const expectedRecord = mapping.dnsRecords?.find(record => record.type === 'TXT');
+
+    if (expectedRecord === undefined) {
+      throw new ValidationError('Domain has no verification record', { domainId });
+    }
+
+    const lookup = await this.lookupTxt(`${expectedRecord.name}.${mapping.domain}`);
+    const verified = lookup.values.includes(expectedRecord.value);
+    let errorMessage = lookup.error;
+    if (!verified && errorMessage === null) {
+      errorMessage = `TXT record does not contain ${expectedRecord.value}`;
+    }
+
+    let updated = await this.domainRepository.recordDnsCheck(
+      mapping.id,
+      {
+        dnsStatus: verified ? 'VERIFIED' : lookup.dnsStatus,
+        errorMessage: verified ? null : errorMessage,
+      },
+      userId
+    );
+    // A suspended domain stays suspended even when its DNS record checks out
+    if (verified && updated.status !== 'ACTIVE' && updated.status !== 'SUSPENDED') {
+      updated = await this.domainRepository.activateDomain(mapping.id, userId);
+    }
+
+    return {
+      domainId: mapping.id,
+      domain: mapping.domain,
+      verified,
+      dnsStatus: updated.dnsStatus,
+      status: updated.status,
+      expectedRecord,
+      foundValues: lookup.values,
+      checkedAt: updated.lastDnsCheckAt ?? new Date(),
+      errorMessage: updated.errorMessage,
+    };
+  }
+
+  async removeDomain(organizationId: UUID, domainId: UUID): Promise<void> {
+    await this.getDomain(organizationId, domainId);
+    await this.domainRepository.deleteDomainMapping(domainId);
+  }
+
+  /**
+   * Organization and branding for a request's Host header, or null when the
+   * host is not an active mapped domain. A `www.` host matches a mapping
+   * that has includeWww set.
+   */
+  async resolveTenant(host: string | undefined): Promise<ResolvedTenant | null> {
+    const hostname = normalizeHostname(host);
+    if (hostname === null || !isMappableHostname(hostname, this.platformDomain)) {
+      return null;
+    }
+
+    const bareHostname = hostname.startsWith('www.') ? hostname.slice(4) : null;
+    const candidates = bareHostname !== null ? [hostname, bareHostname] : [hostname];
+    const mapping = await this.domainRepository.findActiveDomain(candidates);
+
+    if (mapping === null || (mapping.domain === bareHostname && !mapping.includeWww)) {
+      return null;
+    }
+
+    const branding = await this.brandingRepository.getBrandingByOrganizationId(mapping.organizationId);
+    return {
+      organizationId: mapping.organizationId,
+      domainId: mapping.id,
+      domain: mapping.domain,
+      branding,
+    };
+  }
+
+  private validateDomain(request: CreateDomainMappingRequest): string {
+    const domain = normalizeHostname(request.domain);
+    if (domain === null || !isValidDomainName(domain)) {
+      throw new ValidationError('Invalid domain name', { domain: request.domain });
+    }
+
+    const isPlatformSubdomain = domain.endsWith(`.${this.platformDomain}`);
+    if (request.domainType === 'SUBDOMAIN' && !isPlatformSubdomain) {
+      throw new ValidationError(`Subdomains must end with .${this.platformDomain}`, { domain });
+    }
+    if (request.domainType === 'CUSTOM_DOMAIN' && (isPlatformSubdomain || domain === this.platformDomain)) {
+      throw new ValidationError('Platform domains must be added as subdomains', { domain });
+    }
+
+    return domain;
+  }
+
+  private buildDnsRecords(domain: string, domainType: CreateDomainMappingRequest['domainType']): DNSRecord[] {
+    if (domainType === 'SUBDOMAIN') {
+      return [];
+    }
+
+    return [
+      {
+        type: 'TXT',
+        name: VERIFICATION_HOST_PREFIX,
+        value: `${VERIFICATION_VALUE_PREFIX}${randomBytes(16).toString('hex')}`,
+        ttl: 3600,
+      },
+      { type: 'CNAME', name: domain, value: this.cnameTarget, ttl: 3600 },
+    ];
+  }
+
+  private async lookupTxt(hostname: string): Promise<{
+    values: string[];
+    dnsStatus: 'PENDING' | 'ERROR';
+    error: string | null;
+  }> {
+    try {
+      const records = await this.dnsResolver.resolveTxt(hostname);
+      // Long TXT values arrive split into chunks
+      return { values: records.map(chunks => chunks.join('')), dnsStatus: 'ERROR', error: null };
+    } catch (error) {
+      const code = (error as { code?: string }).code;
+      if (code !== undefined && DNS_NOT_FOUND_CODES.has(code)) {
+        return { values: [], dnsStatus: 'PENDING', error: `No TXT record found at ${hostname}` };
+      }
+      return {
+        values: [],
+        dnsStatus: 'ERROR',
+        error: `DNS lookup failed: ${error instanceof Error ? error.message : String(error)}`,
+      };
+    }
+  }
+}
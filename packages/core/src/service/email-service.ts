@@ -9,6 +9,9 @@
  * - Password reset emails
  * - Email verification
  * - Subscription notifications
+ * - Scheduled report delivery (with attachments)
+ * - Organization-customized templates (see EmailTemplateService), with the
+ *   built-in emails below as the fallback
  * 
  * Configuration:
  * - Requires RESEND_API_KEY environment variable
@@ -17,8 +20,17 @@
  */
 
 import { Resend } from 'resend';
+import { UUID } from '../types/base';
+import {
+  EmailAttachment,
+  EmailTemplateKey,
+  EmailTemplateVariables,
+  RenderedEmail,
+  RenderedEmailTemplate,
+} from '../types/email-templates';
 
 export interface SendInvitationEmailRequest {
+  organizationId?: UUID; // Use the organization's template when it has one
   recipientEmail: string;
   recipientName?: string;
   inviterName: string;
@@ -28,12 +40,14 @@ export interface SendInvitationEmailRequest {
 }
 
 export interface SendWelcomeEmailRequest {
+  organizationId?: UUID; // Use the organization's template when it has one
   recipientEmail: string;
   recipientName: string;
   organizationName: string;
 }
 
 export interface SendPasswordResetEmailRequest {
+  organizationId?: UUID; // Use the organization's template when it has one
   recipientEmail: string;
   recipientName: string;
   resetToken: string;
@@ -41,6 +55,7 @@ export interface SendPasswordResetEmailRequest {
 }
 
 export interface SendEmailVerificationRequest {
+  organizationId?: UUID; // Use the organization's template when it has one
   recipientEmail: string;
   recipientName: string;
   verificationToken: string;
@@ -48,6 +63,7 @@ export interface SendEmailVerificationRequest {
 }
 
 export interface SendSubscriptionNotificationRequest {
+  organizationId?: UUID; // Use the organization's template when it has one
   recipientEmail: string;
   recipientName: string;
   organizationName: string;
@@ -55,12 +71,48 @@ export interface SendSubscriptionNotificationRequest {
   details: Record<string, unknown>;
 }
 
+export interface ReportEmailAttachment {
+  filename: string;
+  content: Buffer | string;
+  contentType?: string;
+}
+
+export interface SendScheduledReportEmailRequest {
+  recipientEmails: string[];
+  reportName: string;
+  reportTitle: string;
+  periodStart: Date;
+  periodEnd: Date;
+  attachment: ReportEmailAttachment;
+}
+
+/**
+ * Source of organization-customized templates for the built-in emails
+ */
+export interface EmailTemplateResolver {
+  renderOrganizationTemplate(
+    organizationId: UUID,
+    templateKey: string,
+    variables: EmailTemplateVariables
+  ): Promise<RenderedEmailTemplate | null>;
+  recordTemplateSend(templateId: UUID): Promise<void>;
+}
+
+interface ResendAttachment {
+  filename: string;
+  content?: Buffer | string;
+  path?: string;
+  contentType?: string;
+  contentId?: string;
+}
+
 export interface EmailServiceConfig {
   apiKey: string;
   fromAddress?: string;
   fromName?: string;
   replyTo?: string;
   baseUrl?: string;
+  templateResolver?: EmailTemplateResolver;
 }
 
 export interface IEmailService {
@@ -69,6 +121,8 @@ export interface IEmailService {
   sendPasswordReset(request: SendPasswordResetEmailRequest): Promise<void>;
   sendEmailVerification(request: SendEmailVerificationRequest): Promise<void>;
   sendSubscriptionNotification(request: SendSubscriptionNotificationRequest): Promise<void>;
+  sendScheduledReport(request: SendScheduledReportEmailRequest): Promise<void>;
+  sendRenderedEmail(email: RenderedEmail): Promise<void>;
 }
 
 export class EmailService implements IEmailService {
@@ -77,6 +131,7 @@ export class EmailService implements IEmailService {
   private fromName: string;
   private replyTo: string;
   private baseUrl: string;
+  private templateResolver: EmailTemplateResolver | null;
 
   constructor(config: EmailServiceConfig) {
     // Initialize Resend client if API key is provided
@@ -85,6 +140,7 @@ export class EmailService implements IEmailService {
     this.fromName = config.fromName ?? 'Care Commons';
     this.replyTo = config.replyTo ?? 'support@care-commons.com';
     this.baseUrl = config.baseUrl ?? 'https://care-commons.com';
+    this.templateResolver = config.templateResolver ?? null;
 
     if (this.resend === null) {
       console.warn('[EmailService] No RESEND_API_KEY provided. Emails will be logged but not sent.');
@@ -95,6 +151,24 @@ export class EmailService implements IEmailService {
     const invitationUrl = `${this.baseUrl}/accept-invitation?token=${request.invitationToken}`;
     const expiresInHours = Math.ceil((request.expiresAt.getTime() - Date.now()) / (1000 * 60 * 60));
 
+    const sentFromTemplate = await this.sendOrganizationTemplate(
+      request.organizationId,
+      EmailTemplateKey.TEAM_INVITATION,
+      request.recipientEmail,
+      {
+        firstName: request.recipientName ?? request.recipientEmail,
+        email: request.recipientEmail,
+        inviterName: request.inviterName,
+        organizationName: request.organizationName,
+        inviteUrl: invitationUrl,
+        expirationHours: expiresInHours,
+        expirationDays: Math.ceil(expiresInHours / 24),
+      }
+    );
+    if (sentFromTemplate) {
+      return;
+    }
+
     const html = this.generateInvitationEmail({
       recipientName: request.recipientName ?? request.recipientEmail,
       inviterName: request.inviterName,
@@ -111,6 +185,22 @@ export class EmailService implements IEmailService {
   }
 
   async sendWelcome(request: SendWelcomeEmailRequest): Promise<void> {
+    const sentFromTemplate = await this.sendOrganizationTemplate(
+      request.organizationId,
+      EmailTemplateKey.WELCOME,
+      request.recipientEmail,
+      {
+        firstName: request.recipientName,
+        email: request.recipientEmail,
+        username: request.recipientEmail,
+        organizationName: request.organizationName,
+        loginUrl: `${this.baseUrl}/login`,
+      }
+    );
+    if (sentFromTemplate) {
+      return;
+    }
+
     const html = this.generateWelcomeEmail({
       recipientName: request.recipientName,
       organizationName: request.organizationName,
@@ -128,6 +218,22 @@ export class EmailService implements IEmailService {
     const resetUrl = `${this.baseUrl}/reset-password?token=${request.resetToken}`;
     const expiresInMinutes = Math.ceil((request.expiresAt.getTime() - Date.now()) / (1000 * 60));
 
+    const sentFromTemplate = await this.sendOrganizationTemplate(
+      request.organizationId,
+      EmailTemplateKey.PASSWORD_RESET,
+      request.recipientEmail,
+      {
+        firstName: request.recipientName,
+        email: request.recipientEmail,
+        resetUrl,
+        expirationMinutes: expiresInMinutes,
+        expirationHours: Math.ceil(expiresInMinutes / 60),
+      }
+    );
+    if (sentFromTemplate) {
+      return;
+    }
+
     const html = this.generatePasswordResetEmail({
       recipientName: request.recipientName,
       resetUrl,
@@ -145,6 +251,21 @@ export class EmailService implements IEmailService {
     const verificationUrl = `${this.baseUrl}/verify-email?token=${request.verificationToken}`;
     const expiresInHours = Math.ceil((request.expiresAt.getTime() - Date.now()) / (1000 * 60 * 60));
 
+    const sentFromTemplate = await this.sendOrganizationTemplate(
+      request.organizationId,
+      EmailTemplateKey.EMAIL_VERIFICATION,
+      request.recipientEmail,
+      {
+        firstName: request.recipientName,
+        email: request.recipientEmail,
+        verificationUrl,
+        expirationHours: expiresInHours,
+      }
+    );
+    if (sentFromTemplate) {
+      return;
+    }
+
     const html = this.generateEmailVerificationEmail({
       recipientName: request.recipientName,
       verificationUrl,
@@ -159,6 +280,22 @@ export class EmailService implements IEmailService {
   }
 
   async sendSubscriptionNotification(request: SendSubscriptionNotificationRequest): Promise<void> {
+    const sentFromTemplate = await this.sendOrganizationTemplate(
+      request.organizationId,
+      request.notificationType,
+      request.recipientEmail,
+      {
+        ...this.toTemplateVariables(request.details),
+        firstName: request.recipientName,
+        email: request.recipientEmail,
+        organizationName: request.organizationName,
+        billingUrl: `${this.baseUrl}/settings/billing`,
+      }
+    );
+    if (sentFromTemplate) {
+      return;
+    }
+
     let html: string;
     let subject: string;
 
@@ -229,23 +366,148 @@ export class EmailService implements IEmailService {
     });
   }
 
-  private async sendEmail(params: { to: string; subject: string; html: string }): Promise<void> {
+  async sendScheduledReport(request: SendScheduledReportEmailRequest): Promise<void> {
+    const dateFormat = new Intl.DateTimeFormat('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+    });
+
+    const html = this.generateScheduledReportEmail({
+      reportName: request.reportName,
+      reportTitle: request.reportTitle,
+      period: `${dateFormat.format(request.periodStart)} - ${dateFormat.format(request.periodEnd)}`,
+      filename: request.attachment.filename,
+    });
+
+    await this.sendEmail({
+      to: request.recipientEmails,
+      subject: `${request.reportName}: ${request.reportTitle}`,
+      html,
+      attachments: [request.attachment],
+    });
+  }
+
+  /**
+   * Send an email rendered from an organization template. An empty `from`
+   * uses the configured sender address.
+   */
+  async sendRenderedEmail(email: RenderedEmail): Promise<void> {
+    await this.sendEmail({
+      to: email.to,
+      subject: email.subject,
+      html: email.bodyHtml ?? email.bodyText,
+      text: email.bodyText,
+      ...(email.from !== '' && { fromAddress: email.from }),
+      ...(email.fromName !== undefined && { fromName: email.fromName }),
+      ...(email.replyTo !== undefined && { replyTo: email.replyTo }),
+      ...(email.attachments !== undefined && {
+        attachments: email.attachments.map(attachment => this.toResendAttachment(attachment)),
+      }),
+    });
+  }
+
+  /**
+   * Send the organization's own template for a built-in email. Returns false
+   * when there is none (or it fails to render) so the caller sends the
+   * built-in version instead.
+   */
+  private async sendOrganizationTemplate(
+    organizationId: UUID | undefined,
+    templateKey: string,
+    to: string,
+    variables: EmailTemplateVariables
+  ): Promise<boolean> {
+    if (organizationId === undefined || this.templateResolver === null) {
+      return false;
+    }
+
+    let rendered: RenderedEmailTemplate | null;
+    try {
+      rendered = await this.templateResolver.renderOrganizationTemplate(
+        organizationId,
+        templateKey,
+        variables
+      );
+    } catch (error) {
+      console.error('[EmailService] Failed to render organization template, using default:', {
+        organizationId,
+        templateKey,
+        error,
+      });
+      return false;
+    }
+
+    if (rendered === null) {
+      return false;
+    }
+
+    await this.sendRenderedEmail({
+      to,
+      from: rendered.fromEmail ?? this.fromAddress,
+      fromName: rendered.fromName ?? this.fromName,
+      replyTo: rendered.replyTo ?? this.replyTo,
+      subject: rendered.subject,
+      bodyText: rendered.bodyText,
+      bodyHtml: rendered.bodyHtml,
+      ...(rendered.attachments !== undefined && { attachments: rendered.attachments }),
+    });
+    await this.templateResolver.recordTemplateSend(rendered.templateId);
+    return true;
+  }
+
+  private toTemplateVariables(details: Record<string, unknown>): EmailTemplateVariables {
+    const variables: EmailTemplateVariables = {};
+    for (const [key, value] of Object.entries(details)) {
+      if (value === null || value instanceof Date || ['string', 'number', 'boolean'].includes(typeof value)) {
+        // eslint-disable-next-line security/detect-object-injection -- keys come from Object.entries
+        variables[key] = value as EmailTemplateVariables[string];
+      }
+    }
+    return variables;
+  }
+
+  private toResendAttachment(attachment: EmailAttachment): ResendAttachment {
+    return {
+      filename: attachment.filename,
+      contentType: attachment.contentType,
+      ...(attachment.content !== undefined && { content: Buffer.from(attachment.content, 'base64') }),
+      ...(attachment.url !== undefined && { path: attachment.url }),
+      ...(attachment.inline === true && attachment.cid !== undefined && { contentId: attachment.cid }),
+    };
+  }
+
+  private async sendEmail(params: {
+    to: string | string[];
+    subject: string;
+    html: string;
+    text?: string;
+    fromAddress?: string;
+    fromName?: string;
+    replyTo?: string;
+    attachments?: ResendAttachment[];
+  }): Promise<void> {
+    const from = `${params.fromName ?? this.fromName} <${params.fromAddress ?? this.fromAddress}>`;
+
     if (this.resend === null) {
       console.log('[EmailService] Email would be sent:', {
         to: params.to,
         subject: params.subject,
-        from: `${this.fromName} <${this.fromAddress}>`,
+        from,
+        attachments: params.attachments?.map(attachment => attachment.filename),
       });
       return;
     }
 
     try {
       const result = await this.resend.emails.send({
-        from: `${this.fromName} <${this.fromAddress}>`,
+        from,
         to: params.to,
         subject: params.subject,
         html: params.html,
-        replyTo: this.replyTo,
+        ...(params.text !== undefined && { text: params.text }),
+        replyTo: params.replyTo ?? this.replyTo,
+        ...(params.attachments !== undefined && { attachments: params.attachments }),
       });
 
       console.log('[EmailService] Email sent successfully:', {
@@ -712,6 +974,49 @@ export class EmailService implements IEmailService {
     <p>Care Commons - Shared care software, community owned</p>
   </div>
 </body>
+</html>
+    `.trim();
+  }
+
+  private generateScheduledReportEmail(params: {
+    reportName: string;
+    reportTitle: string;
+    period: string;
+    filename: string;
+  }): string {
+    return `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${params.reportName}</title>
+</head>
+<body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+  <div style="background: #f8f9fa; padding: 30px; border-radius: 8px; margin-bottom: 20px;">
+    <h1 style="margin: 0; font-size: 24px; color: #2563eb;">Care Commons</h1>
+  </div>
+  
+  <div style="background: white; padding: 30px; border-radius: 8px; border: 1px solid #e5e7eb;">
+    <h2 style="margin-top: 0; color: #1f2937;">${params.reportTitle}</h2>
+    
+    <p>Your scheduled report <strong>${params.reportName}</strong> is attached.</p>
+    
+    <div style="background: #f3f4f6; padding: 20px; border-radius: 6px; margin: 20px 0;">
+      <p style="margin: 0 0 10px 0;"><strong>Reporting period:</strong> ${params.period}</p>
+      <p style="margin: 0;"><strong>Attachment:</strong> ${params.filename}</p>
+    </div>
+    
+    <p style="font-size: 14px; color: #6b7280;">
+      This report may contain protected health information. Do not forward it outside your organization.
+      To change or stop this delivery, update the schedule in Care Commons analytics.
+    </p>
+  </div>
+  
+  <div style="margin-top: 20px; padding: 20px; text-align: center; font-size: 12px; color: #6b7280;">
+    <p>Care Commons - Shared care software, community owned</p>
+  </div>
+</body>
 </html>
     `.trim();
   }
@@ -730,5 +1035,6 @@ export function createEmailService(config?: Partial<EmailServiceConfig>): EmailS
     fromName: config?.fromName,
     replyTo: config?.replyTo,
     baseUrl,
+    templateResolver: config?.templateResolver,
   });
 }
@@ -0,0 +1,423 @@
+/**
+ * @care-commons/core - Email Template Service
+ *
+ * Per-organization email templates: validation, rendering with branding,
+ * preview and test sends. Organizations without their own template for a
+ * key fall back to the system default, and EmailService falls back to its
+ * built-in emails when neither exists.
+ */
+
+import { NotFoundError, PermissionError, UUID, ValidationError } from '../types/base';
+import { OrganizationBranding } from '../types/branding';
+import {
+  CreateEmailTemplateRequest,
+  EmailTemplate,
+  EmailTemplateFilters,
+  EmailTemplateVariables,
+  PreviewEmailTemplateRequest,
+  RenderedEmailTemplate,
+  TestEmailRequest,
+  UpdateEmailTemplateRequest,
+} from '../types/email-templates';
+import { BrandingRepository } from '../repository/branding-repository';
+import { EmailTemplateRepository } from '../repository/email-template-repository';
+import { EmailTemplateResolver, IEmailService } from './email-service';
+import { escapeHtml, extractTemplateVariables, renderTemplate } from '../utils/template-renderer';
+
+/**
+ * Variables every template may use, filled from the organization's branding
+ */
+export const BRANDING_TEMPLATE_VARIABLES = [
+  'brandName',
+  'logoUrl',
+  'primaryColor',
+  'supportEmail',
+  'supportPhone',
+  'supportUrl',
+  'privacyPolicyUrl',
+  'termsOfServiceUrl',
+] as const;
+
+const DEFAULT_BRAND_NAME = 'Care Commons';
+const DEFAULT_PRIMARY_COLOR = '#2563eb';
+
+type TemplateContent = Pick<
+  EmailTemplate,
+  'subject' | 'bodyText' | 'bodyHtml' | 'previewText' | 'availableVariables' | 'defaultValues'
+>;
+
+type RenderableTemplate = TemplateContent &
+  Pick<EmailTemplate, 'customCss' | 'useOrgBranding' | 'locale'> &
+  Partial<Pick<EmailTemplate, 'fromName' | 'fromEmail' | 'replyToEmail' | 'attachments'>>;
+
+export interface IEmailTemplateService extends EmailTemplateResolver {
+  listTemplates(organizationId: UUID, filters?: EmailTemplateFilters): Promise<EmailTemplate[]>;
+  getTemplate(organizationId: UUID, templateId: UUID): Promise<EmailTemplate>;
+  createTemplate(
+    organizationId: UUID,
+    request: CreateEmailTemplateRequest,
+    userId: UUID
+  ): Promise<EmailTemplate>;
+  updateTemplate(
+    organizationId: UUID,
+    templateId: UUID,
+    request: UpdateEmailTemplateRequest,
+    userId: UUID
+  ): Promise<EmailTemplate>;
+  archiveTemplate(organizationId: UUID, templateId: UUID, userId: UUID): Promise<EmailTemplate>;
+  previewTemplate(
+    organizationId: UUID,
+    templateId: UUID,
+    variables?: EmailTemplateVariables
+  ): Promise<RenderedEmailTemplate>;
+  previewDraft(
+    organizationId: UUID,
+    request: PreviewEmailTemplateRequest
+  ): Promise<RenderedEmailTemplate>;
+  sendTestEmail(
+    organizationId: UUID,
+    request: TestEmailRequest,
+    userId: UUID
+  ): Promise<RenderedEmailTemplate>;
+  renderTemplate(
+    organizationId: UUID,
+    templateKey: string,
+    variables: EmailTemplateVariables
+  ): Promise<RenderedEmailTemplate | null>;
+}
+
+export class EmailTemplateService implements IEmailTemplateService {
+  constructor(
+    private templateRepository: EmailTemplateRepository,
+    private brandingRepository: BrandingRepository,
+    private emailService?: IEmailService
+  ) {}
+
+  async listTemplates(
+    organizationId: UUID,
+    filters?: EmailTemplateFilters
+  ): Promise<EmailTemplate[]> {
+    return this.templateRepository.listTemplates(organizationId, filters);
+  }
+
+  /**
+   * Get one of the organization's templates or a system default
+   */
+  async getTemplate(organizationId: UUID, templateId: UUID): Promise<EmailTemplate> {
+    const template = await this.templateRepository.getTemplateById(templateId);
+
+    if (
+      template === null ||
+      (template.organizationId !== organizationId && template.organizationId !== null)
+    ) {
+      throw new NotFoundError('Email template not found', { templateId });
+    }
+
+    return template;
+  }
+
+  async createTemplate(
+    organizationId: UUID,
+    request: CreateEmailTemplateRequest,
+    userId: UUID
+  ): Promise<EmailTemplate> {
+    this.validateTemplate(request);
+
+    const template = await this.templateRepository.createTemplate(organizationId, request, userId);
+    await this.archiveOtherActiveTemplates(template);
+    return template;
+  }
+
+  async updateTemplate(
+    organizationId: UUID,
+    templateId: UUID,
+    request: UpdateEmailTemplateRequest,
+    userId: UUID
+  ): Promise<EmailTemplate> {
+    const existing = await this.getOwnTemplate(organizationId, templateId);
+
+    this.validateTemplate({
+      subject: request.subject ?? existing.subject,
+      bodyText: request.bodyText ?? existing.bodyText,
+      bodyHtml: request.bodyHtml ?? existing.bodyHtml,
+      previewText: request.previewText ?? existing.previewText,
+      availableVariables: request.availableVariables ?? existing.availableVariables,
+      defaultValues: request.defaultValues ?? existing.defaultValues,
+    });
+
+    const template = await this.templateRepository.updateTemplate(templateId, request, userId);
+    await this.archiveOtherActiveTemplates(template);
+    return template;
+  }
+
+  async archiveTemplate(
+    organizationId: UUID,
+    templateId: UUID,
+    userId: UUID
+  ): Promise<EmailTemplate> {
+    await this.getOwnTemplate(organizationId, templateId);
+    return this.templateRepository.updateTemplate(templateId, { status: 'ARCHIVED' }, userId);
+  }
+
+  async previewTemplate(
+    organizationId: UUID,
+    templateId: UUID,
+    variables: EmailTemplateVariables = {}
+  ): Promise<RenderedEmailTemplate> {
+    const template = await this.getTemplate(organizationId, templateId);
+    return this.render(organizationId, template, variables);
+  }
+
+  /**
+   * Render unsaved template content, so editors can preview before saving
+   */
+  async previewDraft(
+    organizationId: UUID,
+    request: PreviewEmailTemplateRequest
+  ): Promise<RenderedEmailTemplate> {
+    const content: RenderableTemplate = {
+      subject: request.subject,
+      bodyText: request.bodyText,
+      bodyHtml: request.bodyHtml ?? null,
+      previewText: request.previewText ?? null,
+      availableVariables: request.availableVariables ?? null,
+      defaultValues: request.defaultValues ?? null,
+      customCss: request.customCss ?? null,
+      useOrgBranding: request.useOrgBranding ?? true,
+      locale: 'en-US',
+    };
+    this.validateTemplate(content);
+
+    return this.render(organizationId, { ...content, id: '', templateKey: 'preview' }, request.variables ?? {});
+  }
+
+  async sendTestEmail(
+    organizationId: UUID,
+    request: TestEmailRequest,
+    userId: UUID
+  ): Promise<RenderedEmailTemplate> {
+    if (this.emailService === undefined) {
+      throw new Error('Email service is not configured for test sends');
+    }
+
+    const template = await this.getTemplate(organizationId, request.templateId);
+    const rendered = await this.render(organizationId, template, request.testVariables ?? {});
+
+    await this.emailService.sendRenderedEmail({
+      to: request.testRecipient,
+      from: rendered.fromEmail ?? '',
+      subject: `[Test] ${rendered.subject}`,
+      bodyText: rendered.bodyText,
+      bodyHtml: rendered.bodyHtml,
+      ...(rendered.fromName !== undefined && { fromName: rendered.fromName }),
+      ...(rendered.replyTo !== undefined && { replyTo: rendered.replyTo }),
+      ...(rendered.attachments !== undefined && { attachments: rendered.attachments }),
+    });
+    await this.templateRepository.recordTestSend(template.id, userId, request.notes ?? null);
+
+    return rendered;
+  }
+
+  /**
+   * Render the active template for a key: the organization's own, else the
+   * system default. Returns null when neither exists.
+   */
+  async renderTemplate(
+    organizationId: UUID,
+    templateKey: string,
+    variables: EmailTemplateVariables
+  ): Promise<RenderedEmailTemplate | null> {
+    const template = await this.templateRepository.findActiveTemplate(organizationId, templateKey);
+    return template === null ? null : this.render(organizationId, template, variables);
+  }
+
+  /**
+   * EmailTemplateResolver: only the organization's own template, since
+   * EmailService's built-in emails are the system default for its keys
+   */
+  async renderOrganizationTemplate(
+    organizationId: UUID,
+    templateKey: string,
+    variables: EmailTemplateVariables
+  ): Promise<RenderedEmailTemplate | null> {
+    const template = await this.templateRepository.findActiveTemplate(organizationId, templateKey, {
+      includeGlobal: false,
+    });
+    return template === null ? null : this.render(organizationId, template, variables);
+  }
+
+  async recordTemplateSend(templateId: UUID): Promise<void> {
+    await this.templateRepository.recordSend(templateId);
+  }
+
+  private async getOwnTemplate(organizationId: UUID, templateId: UUID): Promise<EmailTemplate> {
+    const template = await this.getTemplate(organizationId, templateId);
+
+    if (template.organizationId === null) {
+      throw new PermissionError('System default templates cannot be modified', { templateId });
+    }
+
+    return template;
+  }
+
+  private async archiveOtherActiveTemplates(template: EmailTemplate): Promise<void> {
+    if (template.status === 'ACTIVE' && template.organizationId !== null) {
+      await this.templateRepository.archiveActiveTemplates(
+        template.organizationId,
+        template.templateKey,
+        template.language,
+        template.id
+      );
+    }
+  }
+
+  /**
+   * Check template syntax and, when the template declares its variables,
+   * that it only uses declared or branding variables
+   */
+  private validateTemplate(
+    content: Pick<TemplateContent, 'subject' | 'bodyText'> &
+      Partial<Omit<TemplateContent, 'subject' | 'bodyText'>>
+  ): void {
+    const used = new Set<string>();
+    const parts: Array<[string, string | null | undefined]> = [
+      ['subject', content.subject],
+      ['bodyText', content.bodyText],
+      ['bodyHtml', content.bodyHtml],
+      ['previewText', content.previewText],
+    ];
+
+    for (const [field, value] of parts) {
+      if (value === null || value === undefined) continue;
+      try {
+        for (const name of extractTemplateVariables(value)) {
+          used.add(name);
+        }
+      } catch (error) {
+        throw new ValidationError(`Invalid template in ${field}: ${(error as Error).message}`, {
+          field,
+        });
+      }
+    }
+
+    if (content.availableVariables === null || content.availableVariables === undefined) {
+      return;
+    }
+
+    const allowed = new Set<string>([...content.availableVariables, ...BRANDING_TEMPLATE_VARIABLES]);
+    const unknown = [...used].filter(name => !allowed.has(name));
+    if (unknown.length > 0) {
+      throw new ValidationError(`Template uses undeclared variables: ${unknown.join(', ')}`, {
+        unknownVariables: unknown,
+      });
+    }
+  }
+
+  private async render(
+    organizationId: UUID,
+    template: RenderableTemplate & Pick<EmailTemplate, 'id' | 'templateKey'>,
+    variables: EmailTemplateVariables
+  ): Promise<RenderedEmailTemplate> {
+    const branding = await this.brandingRepository.getBrandingByOrganizationId(organizationId);
+    const values: EmailTemplateVariables = {
+      ...this.getBrandingVariables(branding),
+      ...template.defaultValues,
+      ...variables,
+    };
+    const options = { locale: template.locale };
+
+    const subject = renderTemplate(template.subject, values, options);
+    const bodyText = renderTemplate(template.bodyText, values, options);
+    const content =
+      template.bodyHtml !== null
+        ? renderTemplate(template.bodyHtml, values, { ...options, escapeHtml: true })
+        : escapeHtml(bodyText).replace(/\n/g, '<br>\n');
+    const bodyHtml = template.useOrgBranding
+      ? this.wrapInBrandedLayout(content, branding, template.customCss)
+      : content;
+
+    const referenced = [template.subject, template.bodyText, template.bodyHtml, template.previewText]
+      .flatMap(part => (part === null ? [] : extractTemplateVariables(part)));
+    const supplied = new Map(Object.entries(values));
+    const missingVariables = [...new Set(referenced)].filter(
+      name => supplied.get(name) === undefined || supplied.get(name) === null
+    );
+
+    const fromName = template.fromName ?? branding?.emailFromName ?? null;
+
+    return {
+      templateId: template.id,
+      templateKey: template.templateKey,
+      subject,
+      bodyText,
+      bodyHtml,
+      missingVariables,
+      ...(template.previewText !== null && {
+        previewText: renderTemplate(template.previewText, values, options),
+      }),
+      ...(fromName !== null && { fromName }),
+      ...(template.fromEmail !== null && template.fromEmail !== undefined && { fromEmail: template.fromEmail }),
+      ...(template.replyToEmail !== null && template.replyToEmail !== undefined && { replyTo: template.replyToEmail }),
+      ...(template.attachments !== null && template.attachments !== undefined && { attachments: template.attachments }),
+    };
+  }
+
+  private getBrandingVariables(branding: OrganizationBranding | null): EmailTemplateVariables {
+    return {
+      brandName: branding?.brandName ?? DEFAULT_BRAND_NAME,
+      logoUrl: branding?.logoUrl ?? null,
+      primaryColor: branding?.primaryColor ?? DEFAULT_PRIMARY_COLOR,
+      supportEmail: branding?.supportEmail ?? null,
+      supportPhone: branding?.supportPhone ?? null,
+      supportUrl: branding?.supportUrl ?? null,
+      privacyPolicyUrl: branding?.privacyPolicyUrl ?? null,
+      termsOfServiceUrl: branding?.termsOfServiceUrl ?? null,
+    };
+  }
+
+  /**
+   * Wrap rendered HTML in the organization's header, footer, logo and colors
+   */
+  private wrapInBrandedLayout(
+    content: string,
+    branding: OrganizationBranding | null,
+    customCss: string | null
+  ): string {
+    const brandName = escapeHtml(branding?.brandName ?? DEFAULT_BRAND_NAME);
+    const primaryColor = branding?.primaryColor ?? DEFAULT_PRIMARY_COLOR;
+    const fontFamily = branding?.fontFamily ?? '-apple-system, BlinkMacSystemFont, \'Segoe UI\', Roboto, sans-serif';
+
+    const logo =
+      branding?.logoUrl !== null && branding?.logoUrl !== undefined
+        ? `<img src="${escapeHtml(branding.logoUrl)}" alt="${brandName}" style="max-height: 48px;">`
+        : `<h1 style="margin: 0; color: #ffffff; font-size: 24px;">${brandName}</h1>`;
+    const header = branding?.emailHeaderHtml ?? logo;
+    const footer =
+      branding?.emailFooterHtml ??
+      `<p style="margin: 0;">&copy; ${new Date().getFullYear()} ${brandName}</p>`;
+    const css = [branding?.customCss, customCss].filter(Boolean).join('\n');
+
+    return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <style>
+    body { font-family: ${fontFamily}; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px; }
+    .email-header { background: ${primaryColor}; padding: 24px; text-align: center; border-radius: 8px 8px 0 0; }
+    .email-body { background: #ffffff; padding: 32px; border: 1px solid #e5e7eb; border-top: none; }
+    .email-footer { padding: 16px; text-align: center; font-size: 12px; color: #6b7280; }
+    a { color: ${primaryColor}; }
+${css}
+  </style>
+</head>
+<body>
+  <div class="email-header">${header}</div>
+  <div class="email-body">
+${content}
+  </div>
+  <div class="email-footer">${footer}</div>
+</body>
+</html>`;
+  }
+}
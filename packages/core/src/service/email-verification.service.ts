@@ -11,6 +11,9 @@
 import { randomBytes } from 'node:crypto';
 import { Database } from '../db/connection.js';
 import { createEmailService } from './email-service.js';
+import { EmailTemplateService } from './email-template.service.js';
+import { EmailTemplateRepository } from '../repository/email-template-repository.js';
+import { BrandingRepository } from '../repository/branding-repository.js';
 import { UUID, ValidationError, NotFoundError } from '../types/base.js';
 
 export interface GenerateVerificationTokenResult {
@@ -25,7 +28,12 @@ export class EmailVerificationService {
   private emailService: ReturnType<typeof createEmailService>;
   
   constructor(private db: Database) {
-    this.emailService = createEmailService();
+    this.emailService = createEmailService({
+      templateResolver: new EmailTemplateService(
+        new EmailTemplateRepository(db),
+        new BrandingRepository(db)
+      ),
+    });
   }
   
   /**
@@ -50,13 +58,14 @@ export class EmailVerificationService {
           email_verification_expires = $2,
           updated_at = NOW()
       WHERE id = $3
-      RETURNING email, first_name, last_name
+      RETURNING email, first_name, last_name, organization_id
     `;
     
     const result = await this.db.query<{
       email: string;
       first_name: string;
       last_name: string;
+      organization_id: string | null;
     }>(query, [token, expiresAt, userId]);
     
     if (result.rows[0] === undefined) {
@@ -73,6 +82,7 @@ export class EmailVerificationService {
           recipientName: user.first_name,
           verificationToken: token,
           expiresAt: expiresAt,
+          organizationId: user.organization_id ?? undefined,
         });
       } catch (error) {
         console.error('[EmailVerification] Failed to send verification email:', error);
@@ -14,6 +14,9 @@ import { OrganizationService } from './organization-service.js';
 import { BillingRepository } from '../repository/billing-repository.js';
 import { EmailVerificationService } from './email-verification.service.js';
 import { createEmailService } from './email-service.js';
+import { EmailTemplateService } from './email-template.service.js';
+import { EmailTemplateRepository } from '../repository/email-template-repository.js';
+import { BrandingRepository } from '../repository/branding-repository.js';
 import { createStripeService } from './stripe.service.js';
 import { UUID, ValidationError } from '../types/base.js';
 import { CreateOrganizationRequest, USStateCode } from '../types/organization.js';
@@ -87,7 +90,12 @@ export class SignupService {
   constructor(private db: Database) {
     this.orgService = new OrganizationService(db);
     this.billingRepo = new BillingRepository(db);
-    this.emailService = createEmailService();
+    this.emailService = createEmailService({
+      templateResolver: new EmailTemplateService(
+        new EmailTemplateRepository(db),
+        new BrandingRepository(db)
+      ),
+    });
     this.verificationService = new EmailVerificationService(db);
     this.stripeService = createStripeService();
   }
@@ -232,6 +240,7 @@ export class SignupService {
           recipientEmail: request.adminEmail,
           recipientName: request.adminFirstName,
           organizationName: request.organizationName,
+          organizationId: orgResult.organization.id,
         });
       } catch (error) {
         console.error('[SignupService] Failed to send welcome email:', error);
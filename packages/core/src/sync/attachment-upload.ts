@@ -0,0 +1,271 @@
+/**
+ * Attachment Upload Service
+ *
+ * Receives the files behind synced attachments in chunks, so a photo taken
+ * without signal uploads over a flaky connection without starting over.
+ *
+ * The attachment record syncs first as an ATTACHMENT change carrying the
+ * file's size and SHA-256. The device then starts the upload, sends the
+ * chunks the server doesn't have yet in any order, and completes it. A
+ * device that lost its connection asks for the upload status and carries
+ * on from the first missing chunk. Resending a chunk replaces it.
+ */
+
+import { createHash } from 'node:crypto';
+import { Database } from '../db/connection';
+import { ConflictError, NotFoundError, ValidationError } from '../types/base';
+import type {
+  AttachmentUploadState,
+  AttachmentUploadStatus,
+  StartAttachmentUploadRequest,
+} from './types';
+
+export const DEFAULT_CHUNK_SIZE = 512 * 1024;
+export const MAX_CHUNK_SIZE = 5 * 1024 * 1024;
+
+interface AttachmentRow extends Record<string, unknown> {
+  id: string;
+  file_name: string;
+  mime_type: string;
+  file_size: string | number;
+  checksum: string;
+  upload_status: AttachmentUploadState;
+  chunk_size: number | null;
+}
+
+/**
+ * An uploaded attachment file
+ */
+export interface AttachmentFile {
+  fileName: string;
+  mimeType: string;
+  data: Buffer;
+}
+
+export class AttachmentUploadService {
+  constructor(private db: Database) {}
+
+  /**
+   * Start an upload, or resume one already under way
+   *
+   * The file must be the one the attachment record describes. A resumed
+   * upload keeps the chunk size it was started with; a failed one starts
+   * over.
+   */
+  async startUpload(
+    attachmentId: string,
+    organizationId: string,
+    request: StartAttachmentUploadRequest
+  ): Promise<AttachmentUploadStatus> {
+    const { fileSize, checksum, chunkSize = DEFAULT_CHUNK_SIZE } = request;
+
+    if (!/^[\da-f]{64}$/i.test(checksum)) {
+      throw new ValidationError('Checksum must be a hex encoded SHA-256', { attachmentId });
+    }
+    if (!Number.isInteger(chunkSize) || chunkSize <= 0 || chunkSize > MAX_CHUNK_SIZE) {
+      throw new ValidationError(`Chunk size must be between 1 and ${MAX_CHUNK_SIZE} bytes`, { attachmentId, chunkSize });
+    }
+
+    const attachment = await this.getAttachment(attachmentId, organizationId);
+
+    if (fileSize !== Number(attachment.file_size) || checksum.toLowerCase() !== attachment.checksum.toLowerCase()) {
+      throw new ConflictError('File does not match the attachment record', {
+        attachmentId,
+        expectedSize: Number(attachment.file_size),
+        fileSize,
+      });
+    }
+
+    if (attachment.upload_status === 'UPLOADED' || (attachment.upload_status === 'UPLOADING' && attachment.chunk_size !== null)) {
+      return await this.toStatus(attachment);
+    }
+
+    await this.db.transaction(async (client) => {
+      await client.query('DELETE FROM attachment_chunks WHERE attachment_id = $1', [attachmentId]);
+      await client.query(
+        `UPDATE attachments SET upload_status = 'UPLOADING', chunk_size = $2 WHERE id = $1`,
+        [attachmentId, chunkSize]
+      );
+    });
+
+    return await this.toStatus({ ...attachment, upload_status: 'UPLOADING', chunk_size: chunkSize });
+  }
+
+  /**
+   * Which chunks the server has, for a device resuming an upload
+   */
+  async getUploadStatus(attachmentId: string, organizationId: string): Promise<AttachmentUploadStatus> {
+    return await this.toStatus(await this.getAttachment(attachmentId, organizationId));
+  }
+
+  /**
+   * Store one chunk of the file. Every chunk but the last is exactly the
+   * chunk size.
+   */
+  async uploadChunk(
+    attachmentId: string,
+    organizationId: string,
+    chunkIndex: number,
+    data: Buffer
+  ): Promise<AttachmentUploadStatus> {
+    const attachment = await this.getAttachment(attachmentId, organizationId);
+    const chunkSize = this.requireUploading(attachment);
+    const fileSize = Number(attachment.file_size);
+    const totalChunks = this.countChunks(fileSize, chunkSize);
+
+    if (!Number.isInteger(chunkIndex) || chunkIndex < 0 || chunkIndex >= totalChunks) {
+      throw new ValidationError(`Chunk index must be between 0 and ${totalChunks - 1}`, { attachmentId, chunkIndex });
+    }
+
+    const expectedSize = chunkIndex === totalChunks - 1
+      ? fileSize - chunkSize * (totalChunks - 1)
+      : chunkSize;
+    if (data.length !== expectedSize) {
+      throw new ValidationError(`Chunk ${chunkIndex} must be ${expectedSize} bytes, got ${data.length}`, {
+        attachmentId,
+        chunkIndex,
+      });
+    }
+
+    await this.db.query(
+      `INSERT INTO attachment_chunks (attachment_id, chunk_index, data, size)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (attachment_id, chunk_index) DO UPDATE
+       SET data = EXCLUDED.data, size = EXCLUDED.size, received_at = NOW()`,
+      [attachmentId, chunkIndex, data, data.length]
+    );
+
+    return await this.toStatus(attachment);
+  }
+
+  /**
+   * Finish an upload once every chunk is in
+   *
+   * The chunks are checked against the checksum of the whole file. On a
+   * mismatch they are discarded and the upload is marked FAILED, so the
+   * device starts it again.
+   */
+  async completeUpload(attachmentId: string, organizationId: string): Promise<AttachmentUploadStatus> {
+    const attachment = await this.getAttachment(attachmentId, organizationId);
+    if (attachment.upload_status === 'UPLOADED') {
+      return await this.toStatus(attachment);
+    }
+    this.requireUploading(attachment);
+
+    const status = await this.toStatus(attachment);
+    if (status.nextChunk !== null) {
+      throw new ValidationError(`Upload is missing chunk ${status.nextChunk}`, {
+        attachmentId,
+        receivedChunks: status.receivedChunks.length,
+        totalChunks: status.totalChunks,
+      });
+    }
+
+    const hash = createHash('sha256');
+    for (const chunk of await this.readChunks(attachmentId)) {
+      hash.update(chunk);
+    }
+
+    if (hash.digest('hex') !== attachment.checksum.toLowerCase()) {
+      await this.db.transaction(async (client) => {
+        await client.query('DELETE FROM attachment_chunks WHERE attachment_id = $1', [attachmentId]);
+        await client.query(`UPDATE attachments SET upload_status = 'FAILED' WHERE id = $1`, [attachmentId]);
+      });
+      throw new ValidationError('Uploaded file does not match its checksum', { attachmentId });
+    }
+
+    await this.db.query(
+      `UPDATE attachments SET upload_status = 'UPLOADED', uploaded_at = NOW() WHERE id = $1`,
+      [attachmentId]
+    );
+
+    return { ...status, status: 'UPLOADED' };
+  }
+
+  /**
+   * Read back an uploaded file
+   */
+  async readFile(attachmentId: string, organizationId: string): Promise<AttachmentFile> {
+    const attachment = await this.getAttachment(attachmentId, organizationId);
+    if (attachment.upload_status !== 'UPLOADED') {
+      throw new NotFoundError('Attachment file has not been uploaded', { attachmentId });
+    }
+
+    return {
+      fileName: attachment.file_name,
+      mimeType: attachment.mime_type,
+      data: Buffer.concat(await this.readChunks(attachmentId)),
+    };
+  }
+
+  private async getAttachment(attachmentId: string, organizationId: string): Promise<AttachmentRow> {
+    const result = await this.db.query<AttachmentRow>(
+      `SELECT id, file_name, mime_type, file_size, checksum, upload_status, chunk_size
+       FROM attachments
+       WHERE id = $1 AND organization_id = $2 AND deleted_at IS NULL`,
+      [attachmentId, organizationId]
+    );
+
+    const attachment = result.rows[0];
+    if (attachment === undefined) {
+      throw new NotFoundError('Attachment not found; sync its record before uploading the file', { attachmentId });
+    }
+    return attachment;
+  }
+
+  /**
+   * Chunk size of an upload under way
+   */
+  private requireUploading(attachment: AttachmentRow): number {
+    if (attachment.upload_status === 'UPLOADED') {
+      throw new ConflictError('Attachment has already been uploaded', { attachmentId: attachment.id });
+    }
+    if (attachment.upload_status !== 'UPLOADING' || attachment.chunk_size === null) {
+      throw new ConflictError('Upload has not been started', { attachmentId: attachment.id });
+    }
+    return attachment.chunk_size;
+  }
+
+  private async toStatus(attachment: AttachmentRow): Promise<AttachmentUploadStatus> {
+    const fileSize = Number(attachment.file_size);
+    const chunkSize = attachment.chunk_size ?? DEFAULT_CHUNK_SIZE;
+    const totalChunks = this.countChunks(fileSize, chunkSize);
+
+    const receivedChunks = attachment.upload_status === 'UPLOADING'
+      ? (await this.db.query<{ chunk_index: number }>(
+        'SELECT chunk_index FROM attachment_chunks WHERE attachment_id = $1 ORDER BY chunk_index',
+        [attachment.id]
+      )).rows.map(row => row.chunk_index)
+      : [];
+
+    let nextChunk: number | null = null;
+    if (attachment.upload_status !== 'UPLOADED') {
+      const received = new Set(receivedChunks);
+      nextChunk = Array.from({ length: totalChunks }, (_, index) => index).find(index => !received.has(index)) ?? null;
+    }
+
+    return {
+      attachmentId: attachment.id,
+      status: attachment.upload_status,
+      fileSize,
+      chunkSize,
+      totalChunks,
+      receivedChunks: attachment.upload_status === 'UPLOADED'
+        ? Array.from({ length: totalChunks }, (_, index) => index)
+        : receivedChunks,
+      nextChunk,
+    };
+  }
+
+  private async readChunks(attachmentId: string): Promise<Buffer[]> {
+    const result = await this.db.query<{ data: Buffer }>(
+      'SELECT data FROM attachment_chunks WHERE attachment_id = $1 ORDER BY chunk_index',
+      [attachmentId]
+    );
+    return result.rows.map(row => row.data);
+  }
+
+  private countChunks(fileSize: number, chunkSize: number): number {
+    return Math.max(1, Math.ceil(fileSize / chunkSize));
+  }
+}
@@ -13,8 +13,42 @@ import type {
   ConflictResolution,
   ConflictResolutionStrategy,
   SyncEntityType,
+  RecordMergeInput,
+  RecordMergeResult,
 } from './types';
 
+/**
+ * Severity scales, least to most severe
+ */
+const SEVERITY_SCALES = new Map<string, string[]>([
+  ['severity', ['LOW', 'MEDIUM', 'HIGH', 'CRITICAL']],
+  ['incident_severity', ['LOW', 'MEDIUM', 'HIGH', 'CRITICAL']],
+  ['injury_severity', ['NONE', 'MINOR', 'MODERATE', 'SEVERE', 'FATAL']],
+]);
+
+/**
+ * Incident fields owned by the review workflow in the office
+ */
+const INCIDENT_REVIEW_FIELDS = [
+  'status',
+  'investigation_required',
+  'investigation_started_at',
+  'investigation_completed_at',
+  'investigation_findings',
+  'state_reporting_required',
+  'state_reported_at',
+  'state_reported_by',
+  'state_report_number',
+  'state_agency',
+  'preventative_measures',
+  'policy_changes_recommended',
+  'resolution_notes',
+  'resolved_at',
+  'resolved_by',
+  'closed_at',
+  'closed_by',
+];
+
 export class ConflictResolver {
   /**
    * Resolve a sync conflict using appropriate strategy
@@ -37,6 +71,12 @@ export class ConflictResolver {
       
       case 'MANUAL_REVIEW':
         return this.resolveManualReview(conflict);
+
+      case 'MOST_SEVERE':
+        return this.resolveMostSevere(conflict);
+
+      case 'KEEP_SIGNATURE':
+        return this.resolveKeepSignature(conflict);
       
       default:
         // Default to server wins for safety
@@ -44,12 +84,71 @@ export class ConflictResolver {
     }
   }
 
+  /**
+   * Merge a device's edit into the server's current record field by field
+   *
+   * A field the server hasn't changed since the device's base version takes
+   * the device's value. Only fields both sides changed to different values
+   * are conflicts, and each is resolved with the strategy for that field.
+   */
+  async mergeRecord(input: RecordMergeInput): Promise<RecordMergeResult> {
+    const fields = new Map<string, unknown>();
+    const conflicts: SyncConflict[] = [];
+
+    for (const [field, localValue] of Object.entries(input.localData)) {
+      // eslint-disable-next-line security/detect-object-injection -- field comes from Object.entries
+      const [baseVersion = 0, remoteVersion = 0, remoteValue] = [input.baseFieldVersions[field], input.remoteFieldVersions[field], input.remoteData[field]];
+
+      if (remoteVersion <= baseVersion) {
+        fields.set(field, localValue);
+        continue;
+      }
+
+      // Both sides made the same edit
+      if (JSON.stringify(localValue) === JSON.stringify(remoteValue)) continue;
+
+      conflicts.push({
+        id: `conflict_${input.changeId}_${field}`,
+        entityType: input.entityType,
+        entityId: input.entityId,
+        field,
+        localValue,
+        localUpdatedAt: input.localUpdatedAt,
+        remoteValue,
+        remoteUpdatedAt: input.remoteUpdatedAt,
+        serverVersion: remoteVersion,
+        clientVersion: baseVersion,
+      });
+    }
+
+    const resolutions = await this.resolveAll(conflicts);
+    for (const [index, resolution] of resolutions.entries()) {
+      if (resolution.winner === 'LOCAL' || resolution.winner === 'MERGED') {
+        fields.set(conflicts[index]!.field, resolution.value);
+      }
+    }
+
+    return {
+      strategy: 'FIELD_MERGE',
+      fields: Object.fromEntries(fields),
+      conflicts,
+      resolutions,
+      requiresReview: resolutions.some(resolution => resolution.requiresReview === true),
+    };
+  }
+
   /**
    * Determine appropriate resolution strategy based on conflict context
    */
   private determineStrategy(conflict: SyncConflict): ConflictResolutionStrategy {
     const { entityType, field } = conflict;
 
+    // Clinical records have rules of their own
+    const clinicalStrategy = this.determineClinicalStrategy(entityType, field);
+    if (clinicalStrategy !== null) {
+      return clinicalStrategy;
+    }
+
     // Critical EVV fields require manual review to maintain audit compliance
     if (this.isCriticalEVVField(entityType, field)) {
       return 'MANUAL_REVIEW';
@@ -74,6 +173,55 @@ export class ConflictResolver {
     return 'LAST_WRITE_WINS';
   }
 
+  /**
+   * Strategy for a field of a clinical record, or null to fall back to the
+   * general rules
+   *
+   * - MAR entries are a legal record: diverging copies always go to review
+   * - A signature captured on either side is never lost, and a locked note
+   *   stays as the office locked it
+   * - Severity never drops in a merge, and the office's review of an
+   *   incident is never overwritten from the field
+   * - An attachment's file is fixed once uploaded; only its caption is
+   *   edited
+   */
+  private determineClinicalStrategy(
+    entityType: SyncEntityType,
+    field: string
+  ): ConflictResolutionStrategy | null {
+    switch (entityType) {
+      case 'MEDICATION_ADMINISTRATION':
+        return 'MANUAL_REVIEW';
+
+      case 'VISIT_NOTE':
+        return this.determineVisitNoteStrategy(field);
+
+      case 'INCIDENT':
+        return this.determineIncidentStrategy(field);
+
+      case 'ATTACHMENT':
+        return field === 'caption' ? 'LAST_WRITE_WINS' : 'SERVER_WINS';
+
+      default:
+        return null;
+    }
+  }
+
+  private determineVisitNoteStrategy(field: string): ConflictResolutionStrategy | null {
+    if (this.isSignatureField(field)) return 'KEEP_SIGNATURE';
+    if (field === 'is_locked') return 'SERVER_WINS';
+    if (SEVERITY_SCALES.has(field)) return 'MOST_SEVERE';
+    if (field === 'activities_performed') return 'MERGE_ARRAYS';
+    return null;
+  }
+
+  private determineIncidentStrategy(field: string): ConflictResolutionStrategy | null {
+    if (SEVERITY_SCALES.has(field)) return 'MOST_SEVERE';
+    if (INCIDENT_REVIEW_FIELDS.includes(field)) return 'SERVER_WINS';
+    if (['witness_ids', 'involved_staff_ids', 'attachment_urls'].includes(field)) return 'MERGE_ARRAYS';
+    return null;
+  }
+
   /**
    * Resolve conflict using last write wins strategy
    * The modification with the most recent timestamp wins
@@ -172,6 +320,55 @@ export class ConflictResolver {
     };
   }
 
+  /**
+   * Resolve conflict by keeping the more severe value
+   * Unknown values rank below every known one
+   */
+  private resolveMostSevere(conflict: SyncConflict): ConflictResolution {
+    const scale = SEVERITY_SCALES.get(conflict.field) ?? [];
+    const localRank = scale.indexOf(String(conflict.localValue));
+    const remoteRank = scale.indexOf(String(conflict.remoteValue));
+    const winner = localRank > remoteRank ? 'LOCAL' : 'REMOTE';
+
+    return {
+      conflictId: conflict.id,
+      strategy: 'MOST_SEVERE',
+      winner,
+      value: winner === 'LOCAL' ? conflict.localValue : conflict.remoteValue,
+    };
+  }
+
+  /**
+   * Resolve a signature conflict by keeping the side that has one
+   * Two different signatures can't both be right, so they go to review
+   */
+  private resolveKeepSignature(conflict: SyncConflict): ConflictResolution {
+    const localSigned = this.hasValue(conflict.localValue);
+    const remoteSigned = this.hasValue(conflict.remoteValue);
+
+    if (localSigned && remoteSigned) {
+      return this.resolveManualReview(conflict);
+    }
+
+    return {
+      conflictId: conflict.id,
+      strategy: 'KEEP_SIGNATURE',
+      winner: localSigned ? 'LOCAL' : 'REMOTE',
+      value: localSigned ? conflict.localValue : conflict.remoteValue,
+    };
+  }
+
+  /**
+   * Check if field is part of a captured signature
+   */
+  private isSignatureField(field: string): boolean {
+    return /(^|_)(signed|signature|signer)(_|$)/.test(field);
+  }
+
+  private hasValue(value: unknown): boolean {
+    return value !== null && value !== undefined && value !== false && value !== '';
+  }
+
   /**
    * Check if field is critical for EVV compliance
    */
@@ -242,10 +439,16 @@ export class ConflictResolver {
       const billingFields = [
         'clockInTime',
         'clockOutTime',
+        'clock_in_time',
+        'clock_out_time',
         'totalDuration',
+        'total_duration',
         'billableUnits',
+        'billable_units',
         'serviceCode',
+        'service_code',
         'authorizationId',
+        'authorization_id',
       ];
       return billingFields.includes(field);
     }
@@ -264,9 +467,9 @@ export class ConflictResolver {
     const map = new Map<unknown, unknown>();
 
     for (const item of items) {
-      if (item === null || item === undefined || typeof item !== 'object') continue;
+      if (item === null || item === undefined) continue;
 
-      const key = (item as Record<string, unknown>)[keyField];
+      const key = this.itemKey(item, keyField);
       if (key === undefined) {
         // No key field, add all items with unique key
         map.set(`unique_${Date.now()}_${map.size}`, item);
@@ -299,6 +502,14 @@ export class ConflictResolver {
     return Array.from(map.values());
   }
 
+  /**
+   * Key of an array item; plain values (ids, URLs) are their own key
+   */
+  private itemKey(item: unknown, keyField: string): unknown {
+    // eslint-disable-next-line security/detect-object-injection -- keyField is a literal from resolveMergeArrays
+    return typeof item === 'object' ? (item as Record<string, unknown>)[keyField] : item;
+  }
+
   /**
    * Batch resolve multiple conflicts
    */
@@ -9,3 +9,4 @@ export * from './types';
 export * from './conflict-resolver';
 export * from './sync-protocol';
 export * from './offline-queue';
+export * from './attachment-upload';
@@ -53,13 +53,18 @@ export function calculatePriority(
     return OPERATION_PRIORITIES[specificOp]!;
   }
 
+  // MAR entries and incident reports are what an aide can least afford to lose
+  if (entityType === 'MEDICATION_ADMINISTRATION' || entityType === 'INCIDENT') {
+    return 85;
+  }
+
   // High priority for EVV-related operations
   if (entityType === 'EVV_RECORD' || entityType === 'TIME_ENTRY') {
     return 80;
   }
 
-  // Medium priority for visits and tasks
-  if (entityType === 'VISIT' || entityType === 'TASK') {
+  // Medium priority for visits, tasks and visit notes
+  if (entityType === 'VISIT' || entityType === 'TASK' || entityType === 'VISIT_NOTE') {
     return 50;
   }
 
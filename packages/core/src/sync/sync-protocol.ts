@@ -13,9 +13,12 @@
 /* eslint-disable @typescript-eslint/no-unnecessary-condition */
 /* eslint-disable @typescript-eslint/prefer-nullish-coalescing */
 /* eslint-disable sonarjs/different-types-comparison */
+/* eslint-disable security/detect-object-injection */
 
 import type { Knex } from 'knex';
+import { ConflictResolver } from './conflict-resolver';
 import type {
+  FieldVersions,
   PullChangesRequest,
   PullChangesResponse,
   PushChangesRequest,
@@ -25,23 +28,129 @@ import type {
   LocalChange,
   SyncError,
   SyncEntityType,
+  SyncOperationType,
 } from './types';
 
+/**
+ * How an entity type is stored and what devices may do to it
+ */
+interface SyncedEntity {
+  table: string;
+  /**
+   * Column holding the caregiver a record belongs to, for entity types a
+   * caregiver's device only syncs their own records of
+   */
+  caregiverColumn?: string;
+  /** Whether the table has version, updated_at and updated_by columns */
+  versioned: boolean;
+  /** Whether the table has a created_by column */
+  authored: boolean;
+  /** Fields devices may change once the record exists; any field when absent */
+  mutableFields?: string[];
+  /** Fields only the server writes, dropped from pushed changes */
+  serverFields?: string[];
+  /** Column that, once true, freezes the record */
+  lockColumn?: string;
+  deletable: boolean;
+}
+
+const SYNCED_ENTITIES: Record<SyncEntityType, SyncedEntity> = {
+  VISIT: { table: 'visits', caregiverColumn: 'assigned_caregiver_id', versioned: true, authored: true, deletable: true },
+  EVV_RECORD: { table: 'evv_records', caregiverColumn: 'caregiver_id', versioned: true, authored: true, deletable: true },
+  TIME_ENTRY: { table: 'time_entries', caregiverColumn: 'caregiver_id', versioned: true, authored: true, deletable: true },
+  TASK: { table: 'care_plan_tasks', versioned: true, authored: true, deletable: true },
+  CLIENT: { table: 'clients', versioned: true, authored: true, deletable: true },
+  CAREGIVER: { table: 'caregivers', versioned: true, authored: true, deletable: true },
+  GEOFENCE: { table: 'geofences', versioned: true, authored: true, deletable: true },
+  // The MAR is a legal record: an administration can't be edited or removed
+  // once recorded, only followed up on
+  MEDICATION_ADMINISTRATION: {
+    table: 'medication_administrations',
+    versioned: false,
+    authored: false,
+    mutableFields: ['prn_effectiveness', 'prn_follow_up_notes', 'prn_follow_up_at', 'prn_follow_up_by'],
+    deletable: false,
+  },
+  VISIT_NOTE: {
+    table: 'visit_notes',
+    caregiverColumn: 'caregiver_id',
+    versioned: true,
+    authored: true,
+    serverFields: ['is_locked', 'locked_at', 'locked_by', 'lock_reason'],
+    lockColumn: 'is_locked',
+    deletable: true,
+  },
+  // Incident reports can't be withdrawn from the device once filed
+  INCIDENT: {
+    table: 'incidents',
+    versioned: true,
+    authored: true,
+    deletable: false,
+  },
+  // The file behind an attachment is uploaded separately and can't change
+  ATTACHMENT: {
+    table: 'attachments',
+    caregiverColumn: 'caregiver_id',
+    versioned: true,
+    authored: true,
+    mutableFields: ['caption'],
+    serverFields: ['upload_status', 'uploaded_at', 'chunk_size'],
+    deletable: true,
+  },
+};
+
+/**
+ * Row of sync_change_log
+ */
+interface ChangeLogEntry {
+  seq: string | number;
+  xact_id: string;
+  entity_type: SyncEntityType;
+  entity_id: string;
+  operation: SyncOperationType;
+  changed_fields: string[] | null;
+  changed_at: Date | string;
+}
+
+/**
+ * Position in the change log: entries are ordered by the transaction that
+ * wrote them, then by sequence
+ */
+interface LogPosition {
+  xactId: string;
+  seq: number;
+}
+
+const LOG_START: LogPosition = { xactId: '0', seq: 0 };
+
+/**
+ * Only entries of transactions older than every transaction in progress
+ * are pulled. Later entries can only come from transactions at or after
+ * that horizon, so a cursor never moves past a change still committing.
+ */
+const COMMITTED_HORIZON = 'xact_id < pg_snapshot_xmin(pg_current_snapshot())';
+
 export class SyncProtocol {
   private db: Knex;
+  private resolver: ConflictResolver;
 
-  constructor(db: Knex) {
+  constructor(db: Knex, resolver: ConflictResolver = new ConflictResolver()) {
     this.db = db;
+    this.resolver = resolver;
   }
 
   /**
-   * Pull changes from server since last sync
-   * 
-   * Returns all changes made on the server since the last pull timestamp.
-   * Clients call this periodically to stay up to date.
+   * Pull changes from server since the client's cursor
+   *
+   * Pages through the server change log in the order transactions wrote
+   * it. Each page ends at a log position, so changes sharing a timestamp
+   * or committed out of sequence order are never skipped, and deletions
+   * reach the client as tombstones. Clients without a cursor (first sync,
+   * or from before the change log) start from lastPulledAt.
    */
   async pullChanges(request: PullChangesRequest): Promise<PullChangesResponse> {
     const {
+      cursor,
       lastPulledAt,
       entities,
       organizationId,
@@ -50,46 +159,28 @@ export class SyncProtocol {
       limit = 100,
     } = request;
 
-    const changes: SyncChange[] = [];
-    let maxTimestamp = lastPulledAt;
-
-    // Pull changes for each requested entity type
-    for (const entityType of entities) {
-      const entityChanges = await this.pullEntityChanges(
-        entityType,
-        organizationId,
-        lastPulledAt,
-        branchId,
-        caregiverId,
-        limit
-      );
+    const after = cursor !== undefined
+      ? this.decodeCursor(cursor)
+      : await this.positionAt(organizationId, lastPulledAt);
 
-      changes.push(...entityChanges);
-
-      // Track highest timestamp
-      if (entityChanges.length > 0) {
-        for (const change of entityChanges) {
-          if (change.updatedAt > maxTimestamp) {
-            maxTimestamp = change.updatedAt;
-          }
-        }
-      }
-    }
-
-    // Sort by timestamp for consistent ordering
-    changes.sort((a, b) => a.updatedAt - b.updatedAt);
+    const entries = await this.pullChangeLog(
+      entities,
+      organizationId,
+      after,
+      limit + 1,
+      branchId,
+      caregiverId
+    );
 
-    // Apply limit across all entity types
-    const limitedChanges = changes.slice(0, limit);
-    const hasMore = changes.length > limit;
+    const hasMore = entries.length > limit;
+    const page = entries.slice(0, limit);
+    const last = page[page.length - 1];
 
     return {
-      changes: limitedChanges,
-      timestamp: maxTimestamp,
+      changes: await this.toSyncChanges(page, caregiverId),
+      timestamp: last ? this.toTimestamp(last.changed_at) : lastPulledAt,
       hasMore,
-      nextCursor: hasMore && limitedChanges.length > 0 
-        ? limitedChanges[limitedChanges.length - 1]?.id 
-        : undefined,
+      nextCursor: this.encodeCursor(last ? { xactId: String(last.xact_id), seq: Number(last.seq) } : after),
     };
   }
 
@@ -100,7 +191,7 @@ export class SyncProtocol {
    * Detects conflicts when server data has changed since client's version.
    */
   async pushChanges(request: PushChangesRequest): Promise<PushChangesResponse> {
-    const { changes, deviceId, timestamp, organizationId } = request;
+    const { changes, deviceId, timestamp, organizationId, userId } = request;
 
     const synced: string[] = [];
     const conflicts: SyncConflict[] = [];
@@ -109,15 +200,15 @@ export class SyncProtocol {
     // Process each change in a transaction for atomicity
     for (const change of changes) {
       try {
-        const conflict = await this.applyChange(
+        const changeConflicts = await this.applyChange(
           change,
           organizationId,
-          deviceId,
+          userId ?? deviceId,
           timestamp
         );
 
-        if (conflict !== null && conflict !== undefined) {
-          conflicts.push(conflict);
+        if (changeConflicts.length > 0) {
+          conflicts.push(...changeConflicts);
         } else {
           synced.push(change.id);
         }
@@ -135,50 +226,147 @@ export class SyncProtocol {
   }
 
   /**
-   * Pull changes for a specific entity type
+   * Read committed change log entries after a position, in order
+   *
+   * Entries for records a caregiver was just unassigned from match through
+   * previous_caregiver_id, so the device hears about the reassignment.
+   * Records without a branch (time entries, geofences) match any branch.
    */
-  private async pullEntityChanges(
-    entityType: SyncEntityType,
+  private async pullChangeLog(
+    entities: SyncEntityType[],
     organizationId: string,
-    lastPulledAt: number,
+    after: LogPosition,
+    limit: number,
     branchId?: string,
-    caregiverId?: string,
-    limit?: number
-  ): Promise<SyncChange[]> {
-    const tableName = this.getTableName(entityType);
-
-    let query = this.db(tableName)
+    caregiverId?: string
+  ): Promise<ChangeLogEntry[]> {
+    let query = this.db<ChangeLogEntry>('sync_change_log')
       .where('organization_id', organizationId)
-      .where('updated_at', '>', new Date(lastPulledAt));
+      .whereRaw(COMMITTED_HORIZON)
+      .whereRaw('(xact_id, seq) > (?::xid8, ?)', [after.xactId, after.seq])
+      .whereIn('entity_type', entities);
 
-    // Apply filters if provided
     if (branchId !== undefined && branchId !== null && branchId !== '') {
-      query = query.where('branch_id', branchId);
+      query = query.where((builder) => {
+        builder.where('branch_id', branchId).orWhereNull('branch_id');
+      });
+    }
+
+    if (caregiverId !== undefined && caregiverId !== null && caregiverId !== '') {
+      const caregiverEntities = entities.filter(entityType => this.getEntity(entityType).caregiverColumn !== undefined);
+      query = query.where((builder) => {
+        builder
+          .whereNotIn('entity_type', caregiverEntities)
+          .orWhere('caregiver_id', caregiverId)
+          .orWhere('previous_caregiver_id', caregiverId);
+      });
     }
 
-    if (caregiverId !== undefined && caregiverId !== null && caregiverId !== '' && this.supportsCaregiver(entityType)) {
-      query = query.where('caregiver_id', caregiverId);
+    return await query.orderBy([{ column: 'xact_id' }, { column: 'seq' }]).limit(limit);
+  }
+
+  /**
+   * Turn a page of change log entries into changes carrying the current
+   * state of each record
+   *
+   * Several entries for one record collapse into one change at the position
+   * of the last. A record that no longer exists, is soft deleted or now
+   * belongs to another caregiver becomes a tombstone.
+   */
+  private async toSyncChanges(
+    entries: ChangeLogEntry[],
+    caregiverId?: string
+  ): Promise<SyncChange[]> {
+    const collapsed = new Map<string, { entry: ChangeLogEntry; created: boolean; changedFields: Set<string> }>();
+
+    for (const entry of entries) {
+      const key = `${entry.entity_type}:${entry.entity_id}`;
+      const previous = collapsed.get(key);
+      collapsed.set(key, {
+        entry,
+        created: (previous?.created ?? false) || entry.operation === 'CREATE',
+        changedFields: new Set([...(previous?.changedFields ?? []), ...(entry.changed_fields ?? [])]),
+      });
     }
 
-    if (limit) {
-      query = query.limit(limit);
+    const records = new Map<string, Record<string, unknown>>();
+    const fieldVersions = new Map<string, FieldVersions>();
+
+    for (const entityType of new Set(entries.map(entry => entry.entity_type))) {
+      const ids = [...collapsed.values()]
+        .filter(({ entry }) => entry.entity_type === entityType)
+        .map(({ entry }) => entry.entity_id);
+
+      const rows = await this.db(this.getEntity(entityType).table).whereIn('id', ids);
+      for (const row of rows as Record<string, unknown>[]) {
+        records.set(`${entityType}:${String(row.id)}`, row);
+      }
+
+      const versions = await this.db('sync_field_versions')
+        .where('entity_type', entityType)
+        .whereIn('entity_id', ids);
+      for (const row of versions as Array<{ entity_id: string; field_versions: FieldVersions }>) {
+        fieldVersions.set(`${entityType}:${row.entity_id}`, row.field_versions);
+      }
     }
 
-    const records = await query.orderBy('updated_at', 'asc');
+    return [...collapsed.entries()]
+      .sort(([, a], [, b]) => entries.indexOf(a.entry) - entries.indexOf(b.entry))
+      .map(([key, { entry, created, changedFields }]) => {
+        const record = records.get(key);
+
+        if (!record || record.deleted_at || !this.isInCaregiverScope(entry.entity_type, record, caregiverId)) {
+          return this.tombstone(entry, record);
+        }
+
+        return this.recordToSyncChange(record, entry.entity_type, {
+          operationType: created || entry.operation === 'DELETE' ? 'CREATE' : 'UPDATE',
+          sequence: Number(entry.seq),
+          changedFields: [...changedFields].sort((a, b) => a.localeCompare(b)),
+          fieldVersions: fieldVersions.get(key) ?? {},
+        });
+      });
+  }
+
+  /**
+   * Position in the change log just before the first change at or after a
+   * timestamp, or any transaction still in progress, for clients that have
+   * never been given a cursor. Anything logged at the timestamp is pulled
+   * again rather than risk skipping it.
+   */
+  private async positionAt(organizationId: string, timestamp: number): Promise<LogPosition> {
+    if (!timestamp || timestamp <= 0) return LOG_START;
+
+    const horizon = await this.db.raw<{ rows: Array<{ xmin: string }> }>(
+      'SELECT pg_snapshot_xmin(pg_current_snapshot())::text AS xmin'
+    );
+    const inProgress: LogPosition = { xactId: String(horizon.rows[0]?.xmin ?? '0'), seq: 0 };
+
+    const row = await this.db<ChangeLogEntry>('sync_change_log')
+      .where('organization_id', organizationId)
+      .where('changed_at', '>=', new Date(timestamp))
+      .orderBy([{ column: 'xact_id' }, { column: 'seq' }])
+      .first();
 
-    return records.map(record => this.recordToSyncChange(record, entityType));
+    if (!row || BigInt(row.xact_id) >= BigInt(inProgress.xactId)) return inProgress;
+    return { xactId: String(row.xact_id), seq: Number(row.seq) - 1 };
   }
 
   /**
    * Apply a local change to the server database
+   *
+   * Changes are recorded as made by author: the user signed in on the
+   * device, or the device itself for clients that don't say.
    */
   private async applyChange(
     change: LocalChange,
     organizationId: string,
-    deviceId: string,
+    author: string,
     timestamp: number
-  ): Promise<SyncConflict | null> {
-    const tableName = this.getTableName(change.entityType);
+  ): Promise<SyncConflict[]> {
+    const entity = this.getEntity(change.entityType);
+    const tableName = entity.table;
+    change = { ...change, data: this.withoutServerFields(entity, change.data) };
 
     // Check if record exists and get current version
     const existing = await this.db(tableName)
@@ -196,13 +384,12 @@ export class SyncProtocol {
         ...change.data,
         id: change.entityId,
         organization_id: organizationId,
-        version: 1,
         created_at: new Date(change.createdAt),
-        updated_at: new Date(timestamp),
-        updated_by: deviceId,
+        ...(entity.authored && { created_by: author }),
+        ...this.stamp(entity, 1, timestamp, author),
       });
 
-      return null;
+      return [];
     }
 
     if (change.operationType === 'UPDATE') {
@@ -210,6 +397,13 @@ export class SyncProtocol {
         throw new Error('Record not found');
       }
 
+      // Edits made against known field versions merge field by field
+      if (change.baseFieldVersions) {
+        return this.mergeChange(change, organizationId, author, timestamp);
+      }
+
+      this.assertWritable(entity, change, existing);
+
       // Check for version conflict
       const serverVersion = existing.version || 0;
       if (serverVersion > change.version) {
@@ -227,92 +421,185 @@ export class SyncProtocol {
         .where('organization_id', organizationId)
         .update({
           ...change.data,
-          version: serverVersion + 1,
-          updated_at: new Date(timestamp),
-          updated_by: deviceId,
+          ...this.stamp(entity, serverVersion + 1, timestamp, author),
         });
 
-      return null;
+      return [];
     }
 
     if (change.operationType === 'DELETE') {
-      if (!existing) {
-        // Already deleted, no conflict
-        return null;
-      }
+      return this.deleteRecord(entity, change, existing, organizationId, author, timestamp);
+    }
 
-      // Soft delete with version check
-      if (existing.version > change.version) {
-        // Conflict - record modified since client deleted it
-        return this.detectConflicts(
-          change,
-          existing,
-          existing.version
-        );
-      }
+    throw new Error(`Unknown operation type: ${change.operationType}`);
+  }
 
-      await this.db(tableName)
-        .where('id', change.entityId)
-        .where('organization_id', organizationId)
-        .update({
-          deleted_at: new Date(timestamp),
-          deleted_by: deviceId,
-          version: existing.version + 1,
-        });
+  /**
+   * Soft delete a record a device deleted
+   */
+  private async deleteRecord(
+    entity: SyncedEntity,
+    change: LocalChange,
+    existing: Record<string, unknown> | undefined,
+    organizationId: string,
+    author: string,
+    timestamp: number
+  ): Promise<SyncConflict[]> {
+    if (!entity.deletable) {
+      throw this.rejection(`${change.entityType} records cannot be deleted from a device`, 'DELETE_NOT_ALLOWED');
+    }
 
-      return null;
+    if (!existing) {
+      // Already deleted, no conflict
+      return [];
     }
 
-    throw new Error(`Unknown operation type: ${change.operationType}`);
+    // Soft delete with version check
+    const serverVersion = Number(existing.version) || 0;
+    if (serverVersion > change.version) {
+      // Conflict - record modified since client deleted it
+      return this.detectConflicts(
+        change,
+        existing,
+        serverVersion
+      );
+    }
+
+    await this.db(entity.table)
+      .where('id', change.entityId)
+      .where('organization_id', organizationId)
+      .update({
+        deleted_at: new Date(timestamp),
+        deleted_by: author,
+        version: serverVersion + 1,
+      });
+
+    return [];
   }
 
   /**
-   * Detect conflicts between local and server versions
+   * Reject an update to a locked record, or to fields of the record that
+   * can't change once it exists. Fields sent with their current value are
+   * not changes.
    */
-  private detectConflicts(
-    localChange: LocalChange,
-    serverRecord: Record<string, unknown>,
-    serverVersion: number
-  ): SyncConflict | null {
-    // Find fields that differ between local and server
-    const conflictedFields: string[] = [];
+  private assertWritable(
+    entity: SyncedEntity,
+    change: LocalChange,
+    existing: Record<string, unknown>
+  ): void {
+    if (entity.lockColumn && existing[entity.lockColumn] === true) {
+      throw this.rejection(`${change.entityType} ${change.entityId} is locked`, 'RECORD_LOCKED');
+    }
 
-    for (const [field, localValue] of Object.entries(localChange.data)) {
-      const serverValue = serverRecord[field];
+    const { mutableFields } = entity;
+    if (!mutableFields) return;
+
+    const immutable = Object.entries(change.data)
+      .filter(([field, value]) =>
+        !this.isInternalField(field)
+        && !mutableFields.includes(field)
+        && JSON.stringify(value) !== JSON.stringify(existing[field])
+      )
+      .map(([field]) => field);
+
+    if (immutable.length > 0) {
+      throw this.rejection(
+        `${change.entityType} fields cannot be changed once recorded: ${immutable.join(', ')}`,
+        'IMMUTABLE_FIELD'
+      );
+    }
+  }
+
+  /**
+   * Merge an update made against known field versions into the server
+   * record. Fields the server hasn't changed since are applied as they are,
+   * fields both sides changed are resolved by the conflict resolver, and
+   * only those needing review come back as conflicts.
+   *
+   * The record stays locked from reading its field versions to writing the
+   * merge, so a concurrent push merges against this one instead of
+   * overwriting it.
+   */
+  private async mergeChange(
+    change: LocalChange,
+    organizationId: string,
+    author: string,
+    timestamp: number
+  ): Promise<SyncConflict[]> {
+    const entity = this.getEntity(change.entityType);
 
-      // Skip internal fields
-      if (this.isInternalField(field)) continue;
+    return await this.db.transaction(async (trx) => {
+      const existing = await trx(entity.table)
+        .where('id', change.entityId)
+        .where('organization_id', organizationId)
+        .forUpdate()
+        .first() as Record<string, unknown> | undefined;
 
-      // Compare values
-      if (JSON.stringify(localValue) !== JSON.stringify(serverValue)) {
-        conflictedFields.push(field);
+      if (!existing) {
+        throw new Error('Record not found');
       }
-    }
 
-    if (conflictedFields.length === 0) {
-      // No actual conflicts, just version mismatch
-      return null;
-    }
+      this.assertWritable(entity, change, existing);
+
+      const versions = await trx('sync_field_versions')
+        .where('entity_type', change.entityType)
+        .where('entity_id', change.entityId)
+        .first();
+
+      const merge = await this.resolver.mergeRecord({
+        changeId: change.id,
+        entityType: change.entityType,
+        entityId: change.entityId,
+        localData: Object.fromEntries(
+          Object.entries(change.data).filter(([field]) => !this.isInternalField(field))
+        ),
+        localUpdatedAt: change.updatedAt,
+        baseFieldVersions: change.baseFieldVersions ?? {},
+        remoteData: existing,
+        remoteFieldVersions: (versions?.field_versions as FieldVersions | undefined) ?? {},
+        remoteUpdatedAt: this.lastWrittenAt(existing),
+      });
 
-    // Return first conflicted field (in practice, would return all)
-    const field = conflictedFields[0];
-    if (!field) return null; // Should not happen, but type safety
+      if (Object.keys(merge.fields).length > 0) {
+        await trx(entity.table)
+          .where('id', change.entityId)
+          .where('organization_id', organizationId)
+          .update({
+            ...merge.fields,
+            ...this.stamp(entity, (Number(existing.version) || 0) + 1, timestamp, author),
+          });
+      }
 
-    const localValue = localChange.data[field];
-    const serverValue = serverRecord[field];
+      return merge.conflicts.filter((_conflict, index) => merge.resolutions[index]?.requiresReview === true);
+    });
+  }
 
-    return {
-      id: `conflict_${localChange.id}_${field}`,
-      entityType: localChange.entityType,
-      entityId: localChange.entityId,
-      field,
-      localValue,
-      localUpdatedAt: localChange.updatedAt,
-      remoteValue: serverValue,
-      remoteUpdatedAt: Number(serverRecord.updated_at) || Date.now(),
-      serverVersion,
-      clientVersion: localChange.version,
-    };
+  /**
+   * Detect conflicts between local and server versions
+   */
+  private detectConflicts(
+    localChange: LocalChange,
+    serverRecord: Record<string, unknown>,
+    serverVersion: number
+  ): SyncConflict[] {
+    // Every field that differs between local and server is a conflict
+    return Object.entries(localChange.data)
+      .filter(([field, localValue]) =>
+        !this.isInternalField(field)
+        && JSON.stringify(localValue) !== JSON.stringify(serverRecord[field])
+      )
+      .map(([field, localValue]) => ({
+        id: `conflict_${localChange.id}_${field}`,
+        entityType: localChange.entityType,
+        entityId: localChange.entityId,
+        field,
+        localValue,
+        localUpdatedAt: localChange.updatedAt,
+        remoteValue: serverRecord[field],
+        remoteUpdatedAt: this.lastWrittenAt(serverRecord) || Date.now(),
+        serverVersion,
+        clientVersion: localChange.version,
+      }));
   }
 
   /**
@@ -320,21 +607,101 @@ export class SyncProtocol {
    */
   private recordToSyncChange(
     record: Record<string, unknown>,
-    entityType: SyncEntityType
+    entityType: SyncEntityType,
+    log: Pick<SyncChange, 'operationType' | 'sequence' | 'changedFields' | 'fieldVersions'>
   ): SyncChange {
-    const { id, version, updated_at, updated_by, ...data } = record;
+    const { id, version, updated_by, ...data } = record;
+    delete data.updated_at;
 
     return {
       id: String(id),
       entityType,
-      operationType: 'UPDATE', // Could track actual operation type
+      operationType: log.operationType,
       data: data as Record<string, unknown>,
       version: Number(version) || 0,
-      updatedAt: updated_at instanceof Date ? updated_at.getTime() : Number(updated_at),
-      updatedBy: String(updated_by || 'system'),
+      updatedAt: this.lastWrittenAt(record),
+      updatedBy: String(updated_by || record.created_by || 'system'),
+      sequence: log.sequence,
+      changedFields: log.changedFields,
+      fieldVersions: log.fieldVersions,
+    };
+  }
+
+  /**
+   * Tombstone for a record deleted or moved out of the client's scope
+   */
+  private tombstone(entry: ChangeLogEntry, record?: Record<string, unknown>): SyncChange {
+    return {
+      id: entry.entity_id,
+      entityType: entry.entity_type,
+      operationType: 'DELETE',
+      data: {},
+      version: Number(record?.version) || 0,
+      updatedAt: this.toTimestamp(entry.changed_at),
+      updatedBy: String(record?.deleted_by || record?.updated_by || 'system'),
+      sequence: Number(entry.seq),
+      changedFields: [],
+      fieldVersions: {},
     };
   }
 
+  private encodeCursor(position: LogPosition): string {
+    return `${position.xactId}:${position.seq}`;
+  }
+
+  /**
+   * Cursors are transaction:sequence. A bare sequence, from before
+   * transactions were logged, starts over from the beginning of the log.
+   */
+  private decodeCursor(cursor: string): LogPosition {
+    if (/^\d+$/.test(cursor)) return LOG_START;
+
+    const match = /^(\d+):(\d+)$/.exec(cursor);
+    if (!match) {
+      throw new Error(`Invalid sync cursor: ${cursor}`);
+    }
+    return { xactId: match[1]!, seq: Number(match[2]) };
+  }
+
+  private toTimestamp(value: Date | string): number {
+    return value instanceof Date ? value.getTime() : new Date(value).getTime();
+  }
+
+  /**
+   * When a record was last written. Records of immutable tables have only
+   * created_at.
+   */
+  private lastWrittenAt(record: Record<string, unknown>): number {
+    return this.toTimestamp((record.updated_at ?? record.created_at) as Date | string);
+  }
+
+  /**
+   * Bookkeeping columns for a write at a record version
+   */
+  private stamp(
+    entity: SyncedEntity,
+    version: number,
+    timestamp: number,
+    author: string
+  ): Record<string, unknown> {
+    if (!entity.versioned) return {};
+    return { version, updated_at: new Date(timestamp), updated_by: author };
+  }
+
+  private withoutServerFields(entity: SyncedEntity, data: Record<string, unknown>): Record<string, unknown> {
+    const { serverFields } = entity;
+    if (!serverFields) return data;
+    return Object.fromEntries(Object.entries(data).filter(([field]) => !serverFields.includes(field)));
+  }
+
+  /**
+   * Error for a change the server will never accept, so the device stops
+   * retrying it
+   */
+  private rejection(message: string, code: string): Error {
+    return Object.assign(new Error(message), { code });
+  }
+
   /**
    * Create sync error from exception
    */
@@ -386,31 +753,27 @@ export class SyncProtocol {
   }
 
   /**
-   * Get database table name for entity type
+   * Storage and push rules for entity type
    */
-  private getTableName(entityType: SyncEntityType): string {
-    const tableMap: Record<SyncEntityType, string> = {
-      VISIT: 'visits',
-      EVV_RECORD: 'evv_records',
-      TIME_ENTRY: 'time_entries',
-      TASK: 'care_plan_tasks',
-      CLIENT: 'clients',
-      CAREGIVER: 'caregivers',
-      GEOFENCE: 'geofences',
-    };
-
-    const tableName = tableMap[entityType];
-    if (!tableName) {
+  private getEntity(entityType: SyncEntityType): SyncedEntity {
+    const entity = SYNCED_ENTITIES[entityType];
+    if (!entity) {
       throw new Error(`No table mapping for entity type: ${entityType}`);
     }
-    return tableName;
+    return entity;
   }
 
   /**
-   * Check if entity type supports caregiver filtering
+   * Check if a record still belongs to the caregiver pulling changes
    */
-  private supportsCaregiver(entityType: SyncEntityType): boolean {
-    return ['VISIT', 'EVV_RECORD', 'TIME_ENTRY'].includes(entityType);
+  private isInCaregiverScope(
+    entityType: SyncEntityType,
+    record: Record<string, unknown>,
+    caregiverId?: string
+  ): boolean {
+    const column = this.getEntity(entityType).caregiverColumn;
+    if (!caregiverId || column === undefined) return true;
+    return record[column] === caregiverId;
   }
 
   /**
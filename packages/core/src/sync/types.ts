@@ -16,7 +16,11 @@ export type SyncEntityType =
   | 'TASK'
   | 'CLIENT'
   | 'CAREGIVER'
-  | 'GEOFENCE';
+  | 'GEOFENCE'
+  | 'MEDICATION_ADMINISTRATION'
+  | 'VISIT_NOTE'
+  | 'INCIDENT'
+  | 'ATTACHMENT';
 
 /**
  * Operation types for sync queue
@@ -36,10 +40,24 @@ export type ConflictResolutionStrategy =
   | 'MERGE_ARRAYS'
   | 'SERVER_WINS'
   | 'CLIENT_WINS'
-  | 'MANUAL_REVIEW';
+  | 'MANUAL_REVIEW'
+  | 'FIELD_MERGE'
+  | 'MOST_SEVERE'
+  | 'KEEP_SIGNATURE';
+
+/**
+ * Per-field versions of a record: for each field, the change log sequence
+ * of the last change to it. Fields not changed since the record was first
+ * logged are absent and count as version 0.
+ */
+export type FieldVersions = Record<string, number>;
 
 /**
  * Change record from server
+ *
+ * Carries the current state of the record. DELETE changes are tombstones:
+ * the record was deleted or moved out of the device's scope, and data is
+ * empty.
  */
 export interface SyncChange {
   id: string;
@@ -49,6 +67,9 @@ export interface SyncChange {
   version: number;
   updatedAt: number;
   updatedBy: string;
+  sequence: number;
+  changedFields: string[];
+  fieldVersions: FieldVersions;
 }
 
 /**
@@ -80,10 +101,42 @@ export interface ConflictResolution {
   metadata?: Record<string, unknown>;
 }
 
+/**
+ * Record-level merge of a device's edit with the server's current record
+ */
+export interface RecordMergeInput {
+  changeId: string;
+  entityType: SyncEntityType;
+  entityId: string;
+  /** Fields the device changed, with their new values */
+  localData: Record<string, unknown>;
+  localUpdatedAt: number;
+  /** Field versions the device's edit was based on */
+  baseFieldVersions: FieldVersions;
+  remoteData: Record<string, unknown>;
+  remoteFieldVersions: FieldVersions;
+  remoteUpdatedAt: number;
+}
+
+/**
+ * Result of a record-level merge
+ */
+export interface RecordMergeResult {
+  strategy: 'FIELD_MERGE';
+  /** Field values to write to the server record */
+  fields: Record<string, unknown>;
+  /** Fields both sides changed, in the order of resolutions */
+  conflicts: SyncConflict[];
+  resolutions: ConflictResolution[];
+  requiresReview: boolean;
+}
+
 /**
  * Pull changes request
  */
 export interface PullChangesRequest {
+  /** Cursor from the previous pull; when set, lastPulledAt is ignored */
+  cursor?: string;
   lastPulledAt: number;
   entities: SyncEntityType[];
   organizationId: string;
@@ -99,7 +152,8 @@ export interface PullChangesResponse {
   changes: SyncChange[];
   timestamp: number;
   hasMore: boolean;
-  nextCursor?: string;
+  /** Where the next pull resumes, whether or not there are more changes */
+  nextCursor: string;
 }
 
 /**
@@ -110,6 +164,8 @@ export interface PushChangesRequest {
   deviceId: string;
   timestamp: number;
   organizationId: string;
+  /** User signed in on the device, recorded as the author of the changes */
+  userId?: string;
 }
 
 /**
@@ -124,6 +180,11 @@ export interface LocalChange {
   version: number;
   createdAt: number;
   updatedAt: number;
+  /**
+   * Field versions of the record as last pulled. When set, an UPDATE only
+   * conflicts on fields the server changed since then.
+   */
+  baseFieldVersions?: FieldVersions;
 }
 
 /**
@@ -190,3 +251,36 @@ export interface DeviceInfo {
   appVersion: string;
   osVersion: string;
 }
+
+/**
+ * Upload state of an attachment's file
+ */
+export type AttachmentUploadState = 'PENDING' | 'UPLOADING' | 'UPLOADED' | 'FAILED';
+
+/**
+ * Start or resume a chunked attachment upload
+ *
+ * The attachment record itself syncs as an ATTACHMENT change; this uploads
+ * its file. Starting again with the same checksum resumes the upload.
+ */
+export interface StartAttachmentUploadRequest {
+  fileSize: number;
+  /** SHA-256 of the whole file, hex encoded */
+  checksum: string;
+  chunkSize?: number;
+}
+
+/**
+ * Progress of a chunked attachment upload
+ */
+export interface AttachmentUploadStatus {
+  attachmentId: string;
+  status: AttachmentUploadState;
+  fileSize: number;
+  chunkSize: number;
+  totalChunks: number;
+  /** Indexes of the chunks the server has, in order */
+  receivedChunks: number[];
+  /** First chunk still to send, or null when all have been received */
+  nextChunk: number | null;
+}
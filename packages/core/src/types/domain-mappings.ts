@@ -5,6 +5,7 @@
  */
 
 import { UUID, Entity } from './base';
+import { OrganizationBranding } from './branding';
 
 /**
  * Domain type
@@ -141,3 +142,28 @@ export interface SSLCertificateInfo {
   isValid: boolean;
   subjectAltNames: string[];
 }
+
+/**
+ * Result of checking a domain's DNS verification record
+ */
+export interface DomainVerificationResult {
+  domainId: UUID;
+  domain: string;
+  verified: boolean;
+  dnsStatus: DNSStatus;
+  status: DomainStatus;
+  expectedRecord: DNSRecord;
+  foundValues: string[]; // TXT values found at the verification host
+  checkedAt: Date;
+  errorMessage: string | null;
+}
+
+/**
+ * Organization resolved from the request's Host header
+ */
+export interface ResolvedTenant {
+  organizationId: UUID;
+  domainId: UUID;
+  domain: string;
+  branding: OrganizationBranding | null;
+}
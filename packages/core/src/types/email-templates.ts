@@ -145,6 +145,47 @@ export interface RenderedEmail {
   attachments?: EmailAttachment[];
 }
 
+/**
+ * Template rendered for an organization, before recipients are attached
+ */
+export interface RenderedEmailTemplate {
+  templateId: UUID;
+  templateKey: string;
+  subject: string;
+  bodyText: string;
+  bodyHtml: string; // Wrapped in the organization's branded layout when useOrgBranding is set
+  previewText?: string;
+  fromName?: string;
+  fromEmail?: string;
+  replyTo?: string;
+  attachments?: EmailAttachment[];
+  missingVariables: string[]; // Referenced by the template but not supplied
+}
+
+/**
+ * Preview unsaved template content
+ */
+export interface PreviewEmailTemplateRequest {
+  subject: string;
+  bodyText: string;
+  bodyHtml?: string;
+  previewText?: string;
+  availableVariables?: string[];
+  defaultValues?: Record<string, string>;
+  customCss?: string;
+  useOrgBranding?: boolean;
+  variables?: EmailTemplateVariables;
+}
+
+/**
+ * Email template list filters
+ */
+export interface EmailTemplateFilters {
+  templateKey?: string;
+  status?: EmailTemplateStatus;
+  language?: string;
+}
+
 /**
  * Email send request
  */
@@ -187,4 +228,9 @@ export enum EmailTemplateKey {
   ACCOUNT_LOCKED = 'account_locked',
   TWO_FACTOR_CODE = 'two_factor_code',
   NOTIFICATION_DIGEST = 'notification_digest',
+  EMAIL_VERIFICATION = 'email_verification',
+  TRIAL_ENDING = 'trial_ending',
+  SUBSCRIPTION_RENEWED = 'subscription_renewed',
+  SUBSCRIPTION_CANCELLED = 'subscription_cancelled',
+  USAGE_LIMIT_WARNING = 'usage_limit_warning',
 }
@@ -0,0 +1,179 @@
+/**
+ * @care-commons/core - Template Renderer
+ *
+ * Logic-less Mustache-style templates for organization-editable content
+ * such as email templates.
+ *
+ * Supported syntax:
+ * - {{name}}            variable, HTML-escaped when rendering HTML
+ * - {{{name}}}          variable, inserted as-is
+ * - {{#name}}...{{/name}} section, rendered when the value is truthy
+ * - {{^name}}...{{/name}} inverted section, rendered when the value is falsy
+ * - {{! comment }}      ignored
+ */
+
+import { ValidationError } from '../types/base';
+
+export type TemplateValue = string | number | boolean | Date | null | undefined;
+
+export interface TemplateRenderOptions {
+  /** Escape variable values for HTML output (triple braces are never escaped) */
+  escapeHtml?: boolean;
+  /** Locale for formatting Date values */
+  locale?: string;
+}
+
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'variable'; name: string; raw: boolean }
+  | { type: 'section'; name: string; inverted: boolean; children: TemplateNode[] };
+
+const TAG_PATTERN = /{{({)?([^{}]*)}?}}/g;
+const NAME_PATTERN = /^[A-Z_a-z][\w.]*$/;
+const SIGILS = new Set(['!', '#', '^', '/']);
+
+/**
+ * Split a tag's contents into its sigil and name
+ */
+function parseTag(tag: string, body: string): { sigil: string; name: string } {
+  const trimmed = body.trim();
+  const sigil = SIGILS.has(trimmed.charAt(0)) ? trimmed.charAt(0) : '';
+  const name = trimmed.slice(sigil.length).trim();
+
+  if (sigil !== '!' && !NAME_PATTERN.test(name)) {
+    throw new ValidationError(`Invalid template tag: ${tag}`, { tag });
+  }
+  return { sigil, name };
+}
+
+type SectionStack = Array<{ name: string; children: TemplateNode[] }>;
+
+/**
+ * Add a tag to the innermost open section, opening or closing sections
+ */
+function applyTag(
+  stack: SectionStack,
+  { sigil, name, raw }: { sigil: string; name: string; raw: boolean }
+): void {
+  const current = stack[stack.length - 1]!;
+
+  if (sigil === '#' || sigil === '^') {
+    const children: TemplateNode[] = [];
+    current.children.push({ type: 'section', name, inverted: sigil === '^', children });
+    stack.push({ name, children });
+  } else if (sigil === '/') {
+    if (stack.length === 1 || current.name !== name) {
+      throw new ValidationError(`Unexpected closing tag {{/${name}}}`, { tag: name });
+    }
+    stack.pop();
+  } else if (sigil === '') {
+    current.children.push({ type: 'variable', name, raw });
+  }
+}
+
+/**
+ * Parse a template, throwing ValidationError for unbalanced sections or
+ * malformed tags
+ */
+export function parseTemplate(template: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  const stack: SectionStack = [{ name: '', children: root }];
+  let lastIndex = 0;
+
+  for (const match of template.matchAll(TAG_PATTERN)) {
+    const [tag, triple, body = ''] = match;
+    const { sigil, name } = parseTag(tag, body);
+
+    if (match.index > lastIndex) {
+      const text = template.slice(lastIndex, match.index);
+      stack[stack.length - 1]!.children.push({ type: 'text', value: text });
+    }
+    lastIndex = match.index + tag.length;
+
+    applyTag(stack, { sigil, name, raw: triple !== undefined });
+  }
+
+  const unclosed = stack.length > 1 ? stack[stack.length - 1]!.name : null;
+  if (unclosed !== null) {
+    throw new ValidationError(`Unclosed section {{#${unclosed}}}`, { tag: unclosed });
+  }
+
+  if (lastIndex < template.length) {
+    root.push({ type: 'text', value: template.slice(lastIndex) });
+  }
+  return root;
+}
+
+/**
+ * Names of all variables and sections referenced by a template
+ */
+export function extractTemplateVariables(template: string): string[] {
+  const names = new Set<string>();
+  const visit = (nodes: TemplateNode[]): void => {
+    for (const node of nodes) {
+      if (node.type === 'variable') {
+        names.add(node.name);
+      } else if (node.type === 'section') {
+        names.add(node.name);
+        visit(node.children);
+      }
+    }
+  };
+  visit(parseTemplate(template));
+  return [...names];
+}
+
+/**
+ * Render a template with the given variables. Unknown variables render as
+ * empty strings; use extractTemplateVariables to detect them up front.
+ */
+export function renderTemplate(
+  template: string,
+  variables: Record<string, TemplateValue>,
+  options: TemplateRenderOptions = {}
+): string {
+  const values = new Map(Object.entries(variables));
+  const render = (nodes: TemplateNode[]): string =>
+    nodes
+      .map(node => {
+        switch (node.type) {
+          case 'text':
+            return node.value;
+          case 'variable': {
+            const text = formatTemplateValue(values.get(node.name), options.locale);
+            return options.escapeHtml === true && !node.raw ? escapeHtml(text) : text;
+          }
+          case 'section':
+            return isTruthy(values.get(node.name)) !== node.inverted ? render(node.children) : '';
+        }
+      })
+      .join('');
+
+  return render(parseTemplate(template));
+}
+
+/**
+ * Escape text for safe inclusion in HTML
+ */
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function formatTemplateValue(value: TemplateValue, locale = 'en-US'): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  if (value instanceof Date) {
+    return new Intl.DateTimeFormat(locale, { dateStyle: 'medium' }).format(value);
+  }
+  return String(value);
+}
+
+function isTruthy(value: TemplateValue): boolean {
+  return value !== null && value !== undefined && value !== false && value !== '' && value !== 0;
+}
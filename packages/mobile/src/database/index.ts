@@ -11,11 +11,20 @@ import SQLiteAdapter from '@nozbe/watermelondb/adapters/sqlite';
 import type { SchemaMigrations } from '@nozbe/watermelondb/Schema/migrations';
 import { schemaMigrations } from '@nozbe/watermelondb/Schema/migrations';
 import { schema } from './schema';
-import { Visit, VisitAttachment, VisitNote, NoteTemplate, Notification } from './models/index';
+import {
+  Visit,
+  VisitAttachment,
+  VisitNote,
+  NoteTemplate,
+  Notification,
+  MedicationAdministration,
+  Incident,
+} from './models/index';
 
 // Schema migrations
 // v1 to v2: Added attachments, notes, templates, and notifications
 // v2 to v3: Enhanced visit_notes with activities, mood, and incident tracking
+// v3 to v4: Offline MAR entries and incident reports, note signatures, chunked attachment uploads
 const migrations: SchemaMigrations = schemaMigrations({
   migrations: [
     {
@@ -134,6 +143,111 @@ const migrations: SchemaMigrations = schemaMigrations({
         },
       ],
     },
+    {
+      toVersion: 4,
+      steps: [
+        {
+          type: 'add_columns',
+          table: 'visit_notes',
+          columns: [
+            { name: 'requires_signature', type: 'boolean' },
+            { name: 'caregiver_signed', type: 'boolean' },
+            { name: 'caregiver_signature_data', type: 'string', isOptional: true },
+            { name: 'caregiver_signed_at', type: 'number', isOptional: true },
+            { name: 'client_signed', type: 'boolean' },
+            { name: 'client_signature_data', type: 'string', isOptional: true },
+            { name: 'client_signed_at', type: 'number', isOptional: true },
+            { name: 'client_signer_name', type: 'string', isOptional: true },
+            { name: 'client_signer_relationship', type: 'string', isOptional: true },
+            { name: 'is_locked', type: 'boolean' },
+            { name: 'server_version', type: 'number', isOptional: true },
+            { name: 'field_versions_json', type: 'string', isOptional: true },
+          ],
+        },
+        {
+          type: 'add_columns',
+          table: 'visit_attachments',
+          columns: [
+            { name: 'entity_type', type: 'string', isOptional: true, isIndexed: true },
+            { name: 'entity_id', type: 'string', isOptional: true, isIndexed: true },
+            { name: 'checksum', type: 'string', isOptional: true },
+            { name: 'chunk_size', type: 'number', isOptional: true },
+            { name: 'uploaded_chunks', type: 'number', isOptional: true },
+          ],
+        },
+        {
+          type: 'create_table',
+          schema: {
+            name: 'medication_administrations',
+            // @ts-expect-error - WatermelonDB migration column type inference issue
+            columns: [
+              { name: 'organization_id', type: 'string', isIndexed: true },
+              { name: 'client_id', type: 'string', isIndexed: true },
+              { name: 'medication_id', type: 'string', isIndexed: true },
+              { name: 'visit_id', type: 'string', isOptional: true, isIndexed: true },
+              { name: 'administered_by', type: 'string', isIndexed: true },
+              { name: 'administered_at', type: 'number', isIndexed: true },
+              { name: 'scheduled_for', type: 'number', isOptional: true, isIndexed: true },
+              { name: 'dosage_given', type: 'string' },
+              { name: 'route', type: 'string' },
+              { name: 'status', type: 'string', isIndexed: true },
+              { name: 'notes', type: 'string', isOptional: true },
+              { name: 'refusal_reason', type: 'string', isOptional: true },
+              { name: 'hold_reason', type: 'string', isOptional: true },
+              { name: 'witnessed_by', type: 'string', isOptional: true },
+              { name: 'prn_reason', type: 'string', isOptional: true },
+              { name: 'prn_effectiveness', type: 'string', isOptional: true },
+              { name: 'prn_follow_up_notes', type: 'string', isOptional: true },
+              { name: 'prn_follow_up_at', type: 'number', isOptional: true },
+              { name: 'quantity_given', type: 'number', isOptional: true },
+              { name: 'quantity_wasted', type: 'number', isOptional: true },
+              { name: 'waste_reason', type: 'string', isOptional: true },
+              { name: 'waste_witnessed_by', type: 'string', isOptional: true },
+              { name: 'is_synced', type: 'boolean', isIndexed: true },
+              { name: 'sync_pending', type: 'boolean', isIndexed: true },
+              { name: 'field_versions_json', type: 'string', isOptional: true },
+              { name: 'created_at', type: 'number', isIndexed: true },
+              { name: 'updated_at', type: 'number', isIndexed: true },
+            ],
+          },
+        },
+        {
+          type: 'create_table',
+          schema: {
+            name: 'incidents',
+            // @ts-expect-error - WatermelonDB migration column type inference issue
+            columns: [
+              { name: 'organization_id', type: 'string', isIndexed: true },
+              { name: 'client_id', type: 'string', isIndexed: true },
+              { name: 'visit_id', type: 'string', isOptional: true, isIndexed: true },
+              { name: 'reported_by', type: 'string', isIndexed: true },
+              { name: 'incident_type', type: 'string', isIndexed: true },
+              { name: 'severity', type: 'string', isIndexed: true },
+              { name: 'status', type: 'string', isIndexed: true },
+              { name: 'occurred_at', type: 'number', isIndexed: true },
+              { name: 'discovered_at', type: 'number' },
+              { name: 'location', type: 'string' },
+              { name: 'description', type: 'string' },
+              { name: 'immediate_action', type: 'string' },
+              { name: 'witness_ids_json', type: 'string', isOptional: true },
+              { name: 'injury_severity', type: 'string', isOptional: true },
+              { name: 'injury_description', type: 'string', isOptional: true },
+              { name: 'medical_attention_required', type: 'boolean', isOptional: true },
+              { name: 'emergency_services_contacted', type: 'boolean', isOptional: true },
+              { name: 'family_notified', type: 'boolean', isOptional: true },
+              { name: 'is_draft', type: 'boolean', isIndexed: true },
+              { name: 'submitted_at', type: 'number', isOptional: true },
+              { name: 'is_synced', type: 'boolean', isIndexed: true },
+              { name: 'sync_pending', type: 'boolean', isIndexed: true },
+              { name: 'server_version', type: 'number', isOptional: true },
+              { name: 'field_versions_json', type: 'string', isOptional: true },
+              { name: 'created_at', type: 'number', isIndexed: true },
+              { name: 'updated_at', type: 'number', isIndexed: true },
+            ],
+          },
+        },
+      ],
+    },
   ],
 });
 
@@ -159,6 +273,8 @@ export const database = new Database({
     VisitNote,
     NoteTemplate,
     Notification,
+    MedicationAdministration,
+    Incident,
   ],
 });
 
@@ -0,0 +1,77 @@
+/**
+ * Incident Model
+ *
+ * Represents an incident report. Reports are drafted on the device and
+ * submitted when complete; the office's review happens on the server.
+ */
+
+import { Model } from '@nozbe/watermelondb';
+import { field, readonly, date } from '@nozbe/watermelondb/decorators';
+
+export class Incident extends Model {
+  static table = 'incidents';
+
+  @field('organization_id') organizationId!: string;
+  @field('client_id') clientId!: string;
+  @field('visit_id') visitId?: string;
+  @field('reported_by') reportedBy!: string;
+
+  // Classification
+  @field('incident_type') incidentType!: string;
+  @field('severity') severity!: 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL';
+  @field('status') status!: 'REPORTED' | 'UNDER_REVIEW' | 'INVESTIGATION_REQUIRED' | 'RESOLVED' | 'CLOSED';
+
+  // What happened
+  @field('occurred_at') occurredAt!: number;
+  @field('discovered_at') discoveredAt!: number;
+  @field('location') location!: string;
+  @field('description') description!: string;
+  @field('immediate_action') immediateAction!: string;
+  @field('witness_ids_json') witnessIdsJson?: string;
+
+  // Injury and response
+  @field('injury_severity') injurySeverity?: 'NONE' | 'MINOR' | 'MODERATE' | 'SEVERE' | 'FATAL';
+  @field('injury_description') injuryDescription?: string;
+  @field('medical_attention_required') medicalAttentionRequired?: boolean;
+  @field('emergency_services_contacted') emergencyServicesContacted?: boolean;
+  @field('family_notified') familyNotified?: boolean;
+
+  // Draft
+  @field('is_draft') isDraft!: boolean;
+  @field('submitted_at') submittedAt?: number;
+
+  // Sync
+  @field('is_synced') isSynced!: boolean;
+  @field('sync_pending') syncPending!: boolean;
+  @field('server_version') serverVersion?: number;
+  @field('field_versions_json') fieldVersionsJson?: string;
+
+  // Timestamps
+  @readonly @date('created_at') createdAt!: Date;
+  @readonly @date('updated_at') updatedAt!: Date;
+
+  /**
+   * Get witness user IDs
+   */
+  get witnessIds(): string[] {
+    if (!this.witnessIdsJson) return [];
+    try {
+      return JSON.parse(this.witnessIdsJson) as string[];
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Submit a finished draft for review
+   */
+  submit() {
+    return this.update(() => {
+      this.isDraft = false;
+      this.status = 'REPORTED';
+      this.submittedAt = Date.now();
+      this.isSynced = false;
+      this.syncPending = true;
+    });
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * Medication Administration Model
+ *
+ * Represents a MAR entry recorded at the visit. Entries are immutable once
+ * recorded; only the PRN follow-up can be added afterwards.
+ */
+
+import { Model } from '@nozbe/watermelondb';
+import { field, readonly, date } from '@nozbe/watermelondb/decorators';
+
+export class MedicationAdministration extends Model {
+  static table = 'medication_administrations';
+
+  @field('organization_id') organizationId!: string;
+  @field('client_id') clientId!: string;
+  @field('medication_id') medicationId!: string;
+  @field('visit_id') visitId?: string;
+  @field('administered_by') administeredBy!: string;
+
+  // Administration
+  @field('administered_at') administeredAt!: number;
+  @field('scheduled_for') scheduledFor?: number;
+  @field('dosage_given') dosageGiven!: string;
+  @field('route') route!: 'ORAL' | 'TOPICAL' | 'INJECTION' | 'INHALATION' | 'OTHER';
+  @field('status') status!: 'GIVEN' | 'REFUSED' | 'HELD' | 'MISSED';
+  @field('notes') notes?: string;
+  @field('refusal_reason') refusalReason?: string;
+  @field('hold_reason') holdReason?: string;
+  @field('witnessed_by') witnessedBy?: string;
+
+  // PRN follow-up
+  @field('prn_reason') prnReason?: string;
+  @field('prn_effectiveness') prnEffectiveness?: 'EFFECTIVE' | 'PARTIALLY_EFFECTIVE' | 'NOT_EFFECTIVE';
+  @field('prn_follow_up_notes') prnFollowUpNotes?: string;
+  @field('prn_follow_up_at') prnFollowUpAt?: number;
+
+  // Controlled substances
+  @field('quantity_given') quantityGiven?: number;
+  @field('quantity_wasted') quantityWasted?: number;
+  @field('waste_reason') wasteReason?: string;
+  @field('waste_witnessed_by') wasteWitnessedBy?: string;
+
+  // Sync
+  @field('is_synced') isSynced!: boolean;
+  @field('sync_pending') syncPending!: boolean;
+  @field('field_versions_json') fieldVersionsJson?: string;
+
+  // Timestamps
+  @readonly @date('created_at') createdAt!: Date;
+  @readonly @date('updated_at') updatedAt!: Date;
+
+  /**
+   * Record how well a PRN dose worked
+   */
+  recordFollowUp(effectiveness: 'EFFECTIVE' | 'PARTIALLY_EFFECTIVE' | 'NOT_EFFECTIVE', notes?: string) {
+    return this.update(() => {
+      this.prnEffectiveness = effectiveness;
+      if (notes) this.prnFollowUpNotes = notes;
+      this.prnFollowUpAt = Date.now();
+      this.isSynced = false;
+      this.syncPending = true;
+    });
+  }
+}
@@ -27,10 +27,17 @@ export class VisitAttachment extends Model {
   @field('caption') caption?: string;
   @field('metadata_json') metadataJson?: string;
 
+  // Record the attachment belongs to, when not the visit itself
+  @field('entity_type') entityType?: 'VISIT_NOTE' | 'INCIDENT' | 'MEDICATION_ADMINISTRATION';
+  @field('entity_id') entityId?: string;
+
   // Upload status
   @field('upload_status') uploadStatus!: 'PENDING' | 'UPLOADING' | 'UPLOADED' | 'FAILED';
   @field('upload_url') uploadUrl?: string;
   @field('upload_error') uploadError?: string;
+  @field('checksum') checksum?: string;
+  @field('chunk_size') chunkSize?: number;
+  @field('uploaded_chunks') uploadedChunks?: number;
 
   // Sync
   @field('is_synced') isSynced!: boolean;
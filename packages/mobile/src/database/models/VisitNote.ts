@@ -5,6 +5,7 @@
  * - Activities performed tracking
  * - Client mood/condition assessment
  * - Incident reporting
+ * - Caregiver and client signatures
  */
 
 import { Model } from '@nozbe/watermelondb';
@@ -42,9 +43,23 @@ export class VisitNote extends Model {
   @field('audio_file_uri') audioFileUri?: string;
   @field('transcription_confidence') transcriptionConfidence?: number;
 
+  // Signatures
+  @field('requires_signature') requiresSignature!: boolean;
+  @field('caregiver_signed') caregiverSigned!: boolean;
+  @field('caregiver_signature_data') caregiverSignatureData?: string;
+  @field('caregiver_signed_at') caregiverSignedAt?: number;
+  @field('client_signed') clientSigned!: boolean;
+  @field('client_signature_data') clientSignatureData?: string;
+  @field('client_signed_at') clientSignedAt?: number;
+  @field('client_signer_name') clientSignerName?: string;
+  @field('client_signer_relationship') clientSignerRelationship?: string;
+  @field('is_locked') isLocked!: boolean;
+
   // Sync
   @field('is_synced') isSynced!: boolean;
   @field('sync_pending') syncPending!: boolean;
+  @field('server_version') serverVersion?: number;
+  @field('field_versions_json') fieldVersionsJson?: string;
 
   // Timestamps
   @readonly @date('created_at') createdAt!: Date;
@@ -7,3 +7,5 @@ export { VisitAttachment } from './VisitAttachment';
 export { VisitNote } from './VisitNote';
 export { NoteTemplate } from './NoteTemplate';
 export { Notification } from './Notification';
+export { MedicationAdministration } from './MedicationAdministration';
+export { Incident } from './Incident';
@@ -9,7 +9,7 @@
 import { appSchema, tableSchema } from '@nozbe/watermelondb';
 
 export const schema = appSchema({
-  version: 3,
+  version: 4,
   tables: [
     // Visits - Core scheduling and visit tracking
     tableSchema({
@@ -232,10 +232,17 @@ export const schema = appSchema({
         { name: 'caption', type: 'string', isOptional: true },
         { name: 'metadata_json', type: 'string', isOptional: true }, // Camera settings, GPS, etc.
 
+        // Record the attachment belongs to, when not the visit itself
+        { name: 'entity_type', type: 'string', isOptional: true, isIndexed: true }, // VISIT_NOTE, INCIDENT, MEDICATION_ADMINISTRATION
+        { name: 'entity_id', type: 'string', isOptional: true, isIndexed: true },
+
         // Upload status
         { name: 'upload_status', type: 'string', isIndexed: true }, // PENDING, UPLOADING, UPLOADED, FAILED
         { name: 'upload_url', type: 'string', isOptional: true }, // Server URL after upload
         { name: 'upload_error', type: 'string', isOptional: true },
+        { name: 'checksum', type: 'string', isOptional: true }, // SHA-256 of the file, hex
+        { name: 'chunk_size', type: 'number', isOptional: true }, // Chunk size the server accepted
+        { name: 'uploaded_chunks', type: 'number', isOptional: true }, // Chunks the server has, for progress
 
         // Sync
         { name: 'is_synced', type: 'boolean', isIndexed: true },
@@ -280,9 +287,112 @@ export const schema = appSchema({
         { name: 'audio_file_uri', type: 'string', isOptional: true },
         { name: 'transcription_confidence', type: 'number', isOptional: true },
 
+        // Signatures
+        { name: 'requires_signature', type: 'boolean' },
+        { name: 'caregiver_signed', type: 'boolean' },
+        { name: 'caregiver_signature_data', type: 'string', isOptional: true }, // Base64 PNG
+        { name: 'caregiver_signed_at', type: 'number', isOptional: true },
+        { name: 'client_signed', type: 'boolean' },
+        { name: 'client_signature_data', type: 'string', isOptional: true },
+        { name: 'client_signed_at', type: 'number', isOptional: true },
+        { name: 'client_signer_name', type: 'string', isOptional: true },
+        { name: 'client_signer_relationship', type: 'string', isOptional: true },
+        { name: 'is_locked', type: 'boolean' }, // Locked by the office; no further edits
+
+        // Sync
+        { name: 'is_synced', type: 'boolean', isIndexed: true },
+        { name: 'sync_pending', type: 'boolean', isIndexed: true },
+        { name: 'server_version', type: 'number', isOptional: true },
+        { name: 'field_versions_json', type: 'string', isOptional: true }, // Field versions as last pulled
+
+        // Timestamps
+        { name: 'created_at', type: 'number', isIndexed: true },
+        { name: 'updated_at', type: 'number', isIndexed: true },
+      ],
+    }),
+
+    // Medication Administrations - MAR entries recorded at the visit
+    tableSchema({
+      name: 'medication_administrations',
+      columns: [
+        { name: 'organization_id', type: 'string', isIndexed: true },
+        { name: 'client_id', type: 'string', isIndexed: true },
+        { name: 'medication_id', type: 'string', isIndexed: true },
+        { name: 'visit_id', type: 'string', isOptional: true, isIndexed: true }, // Local only, for the visit screen
+        { name: 'administered_by', type: 'string', isIndexed: true },
+
+        // Administration
+        { name: 'administered_at', type: 'number', isIndexed: true },
+        { name: 'scheduled_for', type: 'number', isOptional: true, isIndexed: true },
+        { name: 'dosage_given', type: 'string' },
+        { name: 'route', type: 'string' }, // ORAL, TOPICAL, INJECTION, INHALATION, OTHER
+        { name: 'status', type: 'string', isIndexed: true }, // GIVEN, REFUSED, HELD, MISSED
+        { name: 'notes', type: 'string', isOptional: true },
+        { name: 'refusal_reason', type: 'string', isOptional: true },
+        { name: 'hold_reason', type: 'string', isOptional: true },
+        { name: 'witnessed_by', type: 'string', isOptional: true },
+
+        // PRN follow-up
+        { name: 'prn_reason', type: 'string', isOptional: true },
+        { name: 'prn_effectiveness', type: 'string', isOptional: true }, // EFFECTIVE, PARTIALLY_EFFECTIVE, NOT_EFFECTIVE
+        { name: 'prn_follow_up_notes', type: 'string', isOptional: true },
+        { name: 'prn_follow_up_at', type: 'number', isOptional: true },
+
+        // Controlled substances
+        { name: 'quantity_given', type: 'number', isOptional: true },
+        { name: 'quantity_wasted', type: 'number', isOptional: true },
+        { name: 'waste_reason', type: 'string', isOptional: true },
+        { name: 'waste_witnessed_by', type: 'string', isOptional: true },
+
+        // Sync
+        { name: 'is_synced', type: 'boolean', isIndexed: true },
+        { name: 'sync_pending', type: 'boolean', isIndexed: true },
+        { name: 'field_versions_json', type: 'string', isOptional: true },
+
+        // Timestamps
+        { name: 'created_at', type: 'number', isIndexed: true },
+        { name: 'updated_at', type: 'number', isIndexed: true },
+      ],
+    }),
+
+    // Incidents - Incident reports, drafted on the device until submitted
+    tableSchema({
+      name: 'incidents',
+      columns: [
+        { name: 'organization_id', type: 'string', isIndexed: true },
+        { name: 'client_id', type: 'string', isIndexed: true },
+        { name: 'visit_id', type: 'string', isOptional: true, isIndexed: true }, // Local only, for the visit screen
+        { name: 'reported_by', type: 'string', isIndexed: true },
+
+        // Classification
+        { name: 'incident_type', type: 'string', isIndexed: true },
+        { name: 'severity', type: 'string', isIndexed: true }, // LOW, MEDIUM, HIGH, CRITICAL
+        { name: 'status', type: 'string', isIndexed: true }, // Set by the office after submission
+
+        // What happened
+        { name: 'occurred_at', type: 'number', isIndexed: true },
+        { name: 'discovered_at', type: 'number' },
+        { name: 'location', type: 'string' },
+        { name: 'description', type: 'string' },
+        { name: 'immediate_action', type: 'string' },
+        { name: 'witness_ids_json', type: 'string', isOptional: true }, // JSON array of user IDs
+
+        // Injury and response
+        { name: 'injury_severity', type: 'string', isOptional: true }, // NONE, MINOR, MODERATE, SEVERE, FATAL
+        { name: 'injury_description', type: 'string', isOptional: true },
+        { name: 'medical_attention_required', type: 'boolean', isOptional: true },
+        { name: 'emergency_services_contacted', type: 'boolean', isOptional: true },
+        { name: 'family_notified', type: 'boolean', isOptional: true },
+
+        // Draft until the aide submits it, so a half-written report survives losing signal
+        { name: 'is_draft', type: 'boolean', isIndexed: true },
+        { name: 'submitted_at', type: 'number', isOptional: true },
+
         // Sync
         { name: 'is_synced', type: 'boolean', isIndexed: true },
         { name: 'sync_pending', type: 'boolean', isIndexed: true },
+        { name: 'server_version', type: 'number', isOptional: true },
+        { name: 'field_versions_json', type: 'string', isOptional: true },
 
         // Timestamps
         { name: 'created_at', type: 'number', isIndexed: true },
@@ -225,6 +225,13 @@ describe('ApiClient', () => {
       );
     });
 
+    it('should send binary bodies as octet-stream', async () => {
+      await apiClient.put('/test', new Uint8Array([1, 2, 3]));
+      const [, init] = vi.mocked(global.fetch).mock.calls[0]!;
+      expect(init?.headers).toMatchObject({ 'Content-Type': 'application/octet-stream' });
+      expect(new Uint8Array(init?.body as ArrayBuffer)).toEqual(new Uint8Array([1, 2, 3]));
+    });
+
     it('should make PATCH request', async () => {
       await apiClient.patch('/test', { key: 'value' });
       expect(global.fetch).toHaveBeenCalledWith(
@@ -98,8 +98,11 @@ export class ApiClient {
 
     const url = `${this.config.baseUrl}${path}`;
 
+    // Binary bodies (attachment chunks) go out as they are
+    const isBinary = body instanceof Uint8Array;
+
     const requestHeaders: Record<string, string> = {
-      'Content-Type': 'application/json',
+      'Content-Type': isBinary ? 'application/octet-stream' : 'application/json',
       ...this.config.headers,
       ...headers,
     };
@@ -118,7 +121,7 @@ export class ApiClient {
       const response = await fetch(url, {
         method,
         headers: requestHeaders,
-        body: body ? JSON.stringify(body) : undefined,
+        body: isBinary ? body.slice().buffer : body ? JSON.stringify(body) : undefined,
         signal: signal || controller.signal,
       });
 
@@ -7,11 +7,14 @@
 
 import * as ImagePicker from 'expo-image-picker';
 import * as FileSystem from 'expo-file-system';
+import { File } from 'expo-file-system';
+import * as Crypto from 'expo-crypto';
 import { manipulateAsync, SaveFormat } from 'expo-image-manipulator';
 import { Alert } from 'react-native';
 import { Q } from '@nozbe/watermelondb';
 import type { Database } from '@nozbe/watermelondb';
 import type { VisitAttachment } from '../database/models/VisitAttachment';
+import { ApiClientError, getApiClient } from './api-client';
 
 export interface PhotoMetadata {
   width?: number;
@@ -38,6 +41,19 @@ export interface PhotoUploadOptions {
   quality?: number;
 }
 
+/**
+ * Server's view of a chunked upload
+ */
+interface UploadStatus {
+  status: 'PENDING' | 'UPLOADING' | 'UPLOADED' | 'FAILED';
+  chunkSize: number;
+  totalChunks: number;
+  receivedChunks: number[];
+  nextChunk: number | null;
+}
+
+const UPLOAD_CHUNK_SIZE = 256 * 1024; // Small enough to get through on one bar
+
 export class PhotoService {
   constructor(private database: Database) {}
 
@@ -183,6 +199,15 @@ export class PhotoService {
     }
   }
 
+  /**
+   * SHA-256 of a file, hex encoded
+   */
+  async getChecksum(uri: string): Promise<string> {
+    const bytes = await new File(uri).bytes();
+    const digest = await Crypto.digest(Crypto.CryptoDigestAlgorithm.SHA256, bytes);
+    return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+  }
+
   /**
    * Save photo attachment to database
    */
@@ -213,8 +238,9 @@ export class PhotoService {
       });
     }
 
-    // Get file size
+    // Get file size and checksum, so the server can verify the upload
     const fileSize = await this.getFileSize(finalUri);
+    const checksum = await this.getChecksum(finalUri);
 
     // Extract metadata
     const metadata: PhotoMetadata = {
@@ -255,6 +281,8 @@ export class PhotoService {
           if (caption) record.caption = caption;
           record.metadataJson = JSON.stringify(metadata);
           record.uploadStatus = 'PENDING';
+          record.checksum = checksum;
+          record.uploadedChunks = 0;
           record.isSynced = false;
           record.syncPending = true;
         });
@@ -299,12 +327,12 @@ export class PhotoService {
   }
 
   /**
-   * Get pending uploads
+   * Get pending uploads, including ones cut off part way
    */
   async getPendingUploads(): Promise<VisitAttachment[]> {
     const pending = await this.database
       .get<VisitAttachment>('visit_attachments')
-      .query(Q.where('upload_status', 'PENDING'))
+      .query(Q.where('upload_status', Q.oneOf(['PENDING', 'UPLOADING'])))
       .fetch();
 
     return pending;
@@ -312,55 +340,100 @@ export class PhotoService {
 
   /**
    * Upload photo to server
-   * This would integrate with your API to upload photos to HIPAA-compliant storage
+   *
+   * The photo goes up in chunks once its attachment record has synced. An
+   * upload cut off by a dropped connection stays UPLOADING and picks up from
+   * the first chunk the server is missing on the next attempt.
    */
   async uploadPhoto(attachment: VisitAttachment): Promise<void> {
+    const apiClient = getApiClient();
+    const path = `/sync/attachments/${attachment.id}/upload`;
+
     try {
-      // Mark as uploading
-      await attachment.update(() => {
-        attachment.uploadStatus = 'UPLOADING';
+      await this.database.write(async () => {
+        await attachment.update(() => {
+          attachment.uploadStatus = 'UPLOADING';
+        });
       });
 
-      // Read file (will be used when API integration is implemented)
-      // const fileContent = await FileSystem.readAsStringAsync(
-      //   attachment.fileUri,
-      //   {
-      //     encoding: FileSystem.EncodingType.Base64,
-      //   }
-      // );
-
-      // TODO: Replace with actual API call
-      // const response = await apiClient.post('/api/v1/attachments/upload', {
-      //   file: fileContent,
-      //   mimeType: attachment.mimeType,
-      //   fileName: attachment.fileName,
-      //   visitId: attachment.visitId,
-      //   category: attachment.attachmentCategory,
-      // });
-
-      // Simulate upload for now
-      const uploadUrl = `https://storage.example.com/photos/${attachment.id}`;
-
-      // Mark as uploaded
-      await attachment.update(() => {
-        attachment.uploadStatus = 'UPLOADED';
-        attachment.uploadUrl = uploadUrl;
-        attachment.isSynced = true;
-        attachment.syncPending = false;
+      const checksum = attachment.checksum ?? (await this.getChecksum(attachment.fileUri));
+      const { data: started } = await apiClient.post<UploadStatus>(path, {
+        fileSize: attachment.fileSize,
+        checksum,
+        chunkSize: attachment.chunkSize ?? UPLOAD_CHUNK_SIZE,
+      });
+
+      if (started.status !== 'UPLOADED') {
+        await this.uploadMissingChunks(attachment, path, started);
+        await apiClient.post<UploadStatus>(`${path}/complete`);
+      }
+
+      await this.database.write(async () => {
+        await attachment.update(() => {
+          attachment.uploadStatus = 'UPLOADED';
+          attachment.uploadUrl = `/sync/attachments/${attachment.id}/file`;
+          attachment.uploadError = undefined;
+          attachment.uploadedChunks = started.totalChunks;
+          attachment.isSynced = true;
+          attachment.syncPending = false;
+        });
       });
     } catch (error) {
       console.error('Photo upload error:', error);
 
-      // Mark as failed
-      await attachment.update(() => {
-        attachment.uploadStatus = 'FAILED';
-        attachment.uploadError = error instanceof Error ? error.message : 'Upload failed';
+      // Lost connection: leave it UPLOADING so the next attempt resumes
+      const offline = error instanceof ApiClientError && (error.status === 0 || error.status === 408);
+
+      await this.database.write(async () => {
+        await attachment.update(() => {
+          if (!offline) attachment.uploadStatus = 'FAILED';
+          attachment.uploadError = error instanceof Error ? error.message : 'Upload failed';
+        });
       });
 
       throw error;
     }
   }
 
+  /**
+   * Send the chunks the server doesn't have yet
+   */
+  private async uploadMissingChunks(
+    attachment: VisitAttachment,
+    path: string,
+    status: UploadStatus
+  ): Promise<void> {
+    const apiClient = getApiClient();
+    const received = new Set(status.receivedChunks);
+
+    await this.database.write(async () => {
+      await attachment.update(() => {
+        attachment.chunkSize = status.chunkSize;
+        attachment.uploadedChunks = received.size;
+      });
+    });
+
+    const handle = new File(attachment.fileUri).open();
+    try {
+      for (let index = 0; index < status.totalChunks; index++) {
+        if (received.has(index)) continue;
+
+        handle.offset = index * status.chunkSize;
+        const chunk = handle.readBytes(Math.min(status.chunkSize, attachment.fileSize - index * status.chunkSize));
+        await apiClient.put<UploadStatus>(`${path}/chunks/${index}`, chunk);
+
+        received.add(index);
+        await this.database.write(async () => {
+          await attachment.update(() => {
+            attachment.uploadedChunks = received.size;
+          });
+        });
+      }
+    } finally {
+      handle.close();
+    }
+  }
+
   /**
    * Upload all pending photos
    */
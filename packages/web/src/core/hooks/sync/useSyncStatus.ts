@@ -33,6 +33,7 @@ export function useSyncStatus(): UseSyncStatusResult {
     isOnline: typeof navigator !== 'undefined' ? navigator.onLine : true,
     isSyncing: false,
     lastSyncAt: null,
+    syncCursor: null,
     lastSyncError: null,
     pendingCount: 0,
     conflictCount: 0,
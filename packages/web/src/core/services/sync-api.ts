@@ -26,6 +26,10 @@ export async function pullChanges(
     organizationId: request.organizationId,
   });
 
+  if (request.cursor) {
+    params.append('cursor', request.cursor);
+  }
+
   if (request.branchId) {
     params.append('branchId', request.branchId);
   }
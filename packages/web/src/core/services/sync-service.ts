@@ -28,6 +28,7 @@ export interface SyncState {
   isOnline: boolean;
   isSyncing: boolean;
   lastSyncAt: number | null;
+  syncCursor: string | null;
   lastSyncError: string | null;
   pendingCount: number;
   conflictCount: number;
@@ -58,6 +59,7 @@ export class SyncService {
       isOnline: typeof navigator !== 'undefined' ? navigator.onLine : true,
       isSyncing: false,
       lastSyncAt: null,
+      syncCursor: null,
       lastSyncError: null,
       pendingCount: 0,
       conflictCount: 0,
@@ -194,22 +196,35 @@ export class SyncService {
 
   /**
    * Pull changes from server
+   *
+   * Pages through the server change log from the stored cursor. The cursor
+   * advances after each applied page, so an interrupted pull resumes where
+   * it left off.
    */
   private async pullFromServer(): Promise<void> {
     const lastPulledAt = this.state.lastSyncAt ?? 0;
+    let pulled = 0;
+    let hasMore = true;
+
+    while (hasMore) {
+      const response = await pullChanges({
+        ...(this.state.syncCursor !== null && { cursor: this.state.syncCursor }),
+        lastPulledAt,
+        entities: this.config.entities ?? [],
+        organizationId: this.config.organizationId,
+      });
 
-    const response = await pullChanges({
-      lastPulledAt,
-      entities: this.config.entities ?? [],
-      organizationId: this.config.organizationId,
-    });
+      // Apply changes to local database
+      for (const change of response.changes) {
+        await this.applyChangeToLocal(change);
+      }
 
-    // Apply changes to local database
-    for (const change of response.changes) {
-      await this.applyChangeToLocal(change);
+      pulled += response.changes.length;
+      hasMore = response.hasMore;
+      this.updateState({ syncCursor: response.nextCursor });
     }
 
-    console.log(`[SyncService] Pulled ${response.changes.length} changes from server`);
+    console.log(`[SyncService] Pulled ${pulled} changes from server`);
   }
 
   /**
@@ -0,0 +1,121 @@
+/**
+ * Data Retention
+ *
+ * Reports or purges records past their retention period, for every
+ * organization or one. Retention periods come from each organization's
+ * policies and the state minimums; records under a legal hold are kept.
+ * Purged rows are archived to gzipped JSON Lines files first, and every
+ * run is recorded in retention_runs.
+ *
+ * Usage:
+ *   tsx scripts/data-retention.ts                      # dry run, all organizations
+ *   tsx scripts/data-retention.ts --purge              # archive and delete
+ *   tsx scripts/data-retention.ts --org <id> --as-of 2025-01-01
+ *
+ * Archives go to RETENTION_ARCHIVE_DIR (default ./retention-archive), or
+ * --archive-dir. Keep them somewhere backed up and access-controlled; they
+ * hold PHI.
+ */
+
+import { config as dotenvConfig } from 'dotenv';
+import { resolve } from 'node:path';
+import { parseArgs } from 'node:util';
+import { Database } from '../packages/core/src/db/connection.js';
+import { RetentionService } from '../packages/core/src/retention/retention-service.js';
+import type { RetentionRun } from '../packages/core/src/retention/types.js';
+
+dotenvConfig({ path: '.env', quiet: true });
+
+function printRun(organizationName: string, run: RetentionRun) {
+  const report = run.report;
+  console.log(`\n🏢 ${organizationName} — ${run.runType === 'PURGE' ? 'purge' : 'dry run'} ${run.id}`);
+  if (report === null) {
+    return;
+  }
+
+  for (const entry of report.entries) {
+    console.log(
+      `   ${entry.table.padEnd(22)} ${(entry.stateCode ?? '??').padEnd(3)} ${String(entry.retentionYears).padStart(3)}y  ` +
+      `eligible ${entry.eligible}, held ${entry.held}, waiting ${entry.waitingOnDependents}`
+    );
+  }
+  console.log(`   Total: ${report.totals.eligible} eligible, ${report.totals.held} held`);
+
+  for (const result of report.purged ?? []) {
+    if (result.purged > 0 || result.skippedReferenced > 0) {
+      console.log(
+        `   🗑️  ${result.table}: purged ${result.purged} (with ${result.cascaded} dependent rows), ` +
+        `still referenced ${result.skippedReferenced}`
+      );
+    }
+  }
+  for (const file of run.archiveFiles) {
+    console.log(`   📦 ${file.path} (${file.records} rows, sha256 ${file.sha256})`);
+  }
+}
+
+async function dataRetention() {
+  const { values } = parseArgs({
+    options: {
+      purge: { type: 'boolean', default: false },
+      org: { type: 'string' },
+      'as-of': { type: 'string' },
+      'archive-dir': { type: 'string' },
+    },
+  });
+
+  const asOf = values['as-of'] === undefined ? undefined : new Date(values['as-of']);
+  if (asOf !== undefined && Number.isNaN(asOf.getTime())) {
+    console.error(`❌ Invalid --as-of date: ${values['as-of']}`);
+    process.exit(1);
+  }
+
+  const db = new Database({
+    host: process.env.DB_HOST || 'localhost',
+    port: parseInt(process.env.DB_PORT || '5432'),
+    database: process.env.DB_NAME || 'care_commons',
+    user: process.env.DB_USER || 'postgres',
+    password: process.env.DB_PASSWORD || '',
+    ssl: process.env.DB_SSL === 'true',
+    // Report queries scan whole tables
+    statementTimeout: 10 * 60 * 1000,
+    queryTimeout: 10 * 60 * 1000,
+  });
+  const retention = new RetentionService(db, {
+    archiveDir: resolve(values['archive-dir'] ?? process.env.RETENTION_ARCHIVE_DIR ?? 'retention-archive'),
+  });
+
+  let failed = false;
+  try {
+    const organizations = await db.query<{ id: string; name: string }>(
+      `SELECT id, name FROM organizations WHERE ($1::uuid IS NULL OR id = $1) ORDER BY name`,
+      [values.org ?? null]
+    );
+
+    console.log(`🗄️  Data retention ${values.purge ? 'PURGE' : 'dry run'} for ${organizations.rows.length} organization(s)`);
+
+    for (const organization of organizations.rows) {
+      try {
+        const run = values.purge
+          ? await retention.purge(organization.id, { asOf })
+          : await retention.dryRun(organization.id, { asOf });
+        printRun(organization.name, run);
+      } catch (error) {
+        failed = true;
+        console.error(`\n❌ ${organization.name}:`, error instanceof Error ? error.message : error);
+      }
+    }
+  } finally {
+    await db.close();
+  }
+
+  if (failed) {
+    process.exit(1);
+  }
+  console.log('\n✅ Data retention complete\n');
+}
+
+dataRetention().catch((error) => {
+  console.error('Fatal error:', error);
+  process.exit(1);
+});
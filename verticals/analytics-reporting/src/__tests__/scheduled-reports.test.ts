@@ -0,0 +1,267 @@
+/**
+ * Scheduled Report Tests
+ *
+ * Schedule creation through ReportService and delivery through
+ * ReportSchedulerService, including failed runs
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { Database, IEmailService, UserContext } from '@care-commons/core';
+import { ReportService } from '../service/report-service';
+import { ReportSchedulerService } from '../service/report-scheduler-service';
+import { ExportService } from '../service/export-service';
+import { ScheduledReportRepository } from '../repository/scheduled-report-repository';
+import type {
+  CreateScheduledReportInput,
+  ProductivityReport,
+  ScheduledReport,
+  ScheduledReportRun,
+} from '../types/analytics';
+
+const context: UserContext = {
+  userId: 'user-1',
+  organizationId: 'org-1',
+  roles: ['ADMIN'],
+  permissions: ['analytics:read'],
+  branchIds: [],
+};
+
+const input = (overrides: Partial<CreateScheduledReportInput> = {}): CreateScheduledReportInput => ({
+  name: 'Weekly productivity',
+  reportType: 'PRODUCTIVITY',
+  exportFormat: 'CSV',
+  frequency: 'WEEKLY',
+  timeOfDay: '07:00',
+  dayOfWeek: 1,
+  timezone: 'America/Chicago',
+  recipients: ['Director@Example.org', 'director@example.org', 'ops@example.org'],
+  ...overrides,
+});
+
+const schedule = (overrides: Partial<ScheduledReport> = {}): ScheduledReport => ({
+  id: 'schedule-1',
+  organizationId: 'org-1',
+  name: 'Weekly productivity',
+  reportType: 'PRODUCTIVITY',
+  exportFormat: 'CSV',
+  parameters: {},
+  frequency: 'WEEKLY',
+  timeOfDay: '07:00',
+  dayOfWeek: 1,
+  timezone: 'UTC',
+  recipients: ['director@example.org'],
+  isActive: true,
+  nextRunAt: new Date('2025-01-20T07:00:00Z'),
+  lastRunAt: null,
+  lastRunStatus: null,
+  consecutiveFailures: 0,
+  createdAt: new Date('2025-01-01T00:00:00Z'),
+  createdBy: 'user-1',
+  updatedAt: new Date('2025-01-01T00:00:00Z'),
+  updatedBy: 'user-1',
+  ...overrides,
+});
+
+const productivityReport = {
+  id: 'RPT-1',
+  reportType: 'PRODUCTIVITY',
+  title: 'Caregiver Productivity Report',
+  organizationId: 'org-1',
+  generatedAt: new Date('2025-01-20T07:00:00Z'),
+  generatedBy: 'user-1',
+  period: { startDate: new Date('2025-01-13T00:00:00Z'), endDate: new Date('2025-01-19T23:59:59.999Z') },
+  exportFormats: ['PDF', 'EXCEL', 'CSV'],
+  data: {
+    caregivers: [],
+    summary: { totalHours: 0, averageUtilization: 0, topPerformers: [], needsImprovement: [] },
+  },
+} as ProductivityReport;
+
+const echoCreated = async (
+  created: Parameters<ScheduledReportRepository['create']>[0]
+): Promise<ScheduledReport> => schedule({ ...created, id: 'schedule-new' });
+
+const startRun = async (
+  run: Parameters<ScheduledReportRepository['createRun']>[0]
+): Promise<ScheduledReportRun> => ({
+  ...run,
+  id: 'run-1',
+  status: 'RUNNING',
+  startedAt: new Date('2025-01-20T07:00:30Z'),
+  completedAt: null,
+  reportId: null,
+  fileName: null,
+  fileSize: null,
+  errorMessage: null,
+});
+
+describe('ReportService.scheduleReport', () => {
+  let service: ReportService;
+
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    service = new ReportService({ query: vi.fn() } as unknown as Database);
+    vi.spyOn(ScheduledReportRepository.prototype, 'create').mockImplementation(echoCreated);
+    vi.spyOn(ScheduledReportRepository.prototype, 'findOrganizationUserEmails').mockImplementation(
+      async (_orgId, emails) => new Set(emails)
+    );
+  });
+
+  it('should store the schedule with its first run in UTC', async () => {
+    vi.useFakeTimers({ now: new Date('2025-01-15T12:00:00Z') });
+    try {
+      const created = await service.scheduleReport('org-1', input(), context);
+
+      expect(created).toMatchObject({
+        organizationId: 'org-1',
+        recipients: ['director@example.org', 'ops@example.org'],
+        isActive: true,
+        createdBy: 'user-1',
+        // Monday 07:00 CST
+        nextRunAt: new Date('2025-01-20T13:00:00Z'),
+      });
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('should reject an invalid schedule with every problem listed', async () => {
+    const invalid = input({
+      reportType: 'EVV_COMPLIANCE',
+      timeOfDay: '7am',
+      dayOfWeek: undefined,
+      timezone: 'Central',
+      recipients: ['not-an-email'],
+    });
+
+    await expect(service.scheduleReport('org-1', invalid, context)).rejects.toMatchObject({
+      name: 'ValidationError',
+      context: {
+        errors: [
+          'parameters.state is required for EVV_COMPLIANCE reports',
+          'timeOfDay must be HH:MM (24-hour)',
+          'dayOfWeek (0-6) is required for WEEKLY schedules',
+          'Unknown timezone: Central',
+          'Invalid recipient email: not-an-email',
+        ],
+      },
+    });
+    expect(ScheduledReportRepository.prototype.create).not.toHaveBeenCalled();
+  });
+
+  it('should not schedule reports for another organization', async () => {
+    await expect(service.scheduleReport('org-2', input(), context)).rejects.toThrow('Unauthorized');
+  });
+
+  it('should only email active users in the organization', async () => {
+    vi.spyOn(ScheduledReportRepository.prototype, 'findOrganizationUserEmails').mockResolvedValue(
+      new Set(['director@example.org'])
+    );
+
+    await expect(service.scheduleReport('org-1', input(), context)).rejects.toMatchObject({
+      name: 'ValidationError',
+      context: { errors: ['Recipients must be active users in the organization: ops@example.org'] },
+    });
+    expect(ScheduledReportRepository.prototype.findOrganizationUserEmails).toHaveBeenCalledWith(
+      'org-1',
+      ['director@example.org', 'ops@example.org']
+    );
+    expect(ScheduledReportRepository.prototype.create).not.toHaveBeenCalled();
+  });
+
+  it('should check new recipients when a schedule is updated', async () => {
+    vi.spyOn(ScheduledReportRepository.prototype, 'findById').mockResolvedValue(schedule());
+    vi.spyOn(ScheduledReportRepository.prototype, 'update').mockResolvedValue(schedule());
+    vi.spyOn(ScheduledReportRepository.prototype, 'findOrganizationUserEmails').mockResolvedValue(new Set());
+
+    await expect(
+      service.updateScheduledReport('schedule-1', 'org-1', { recipients: ['someone@elsewhere.com'] }, context)
+    ).rejects.toThrow('Recipients must be active users in the organization: someone@elsewhere.com');
+    expect(ScheduledReportRepository.prototype.update).not.toHaveBeenCalled();
+  });
+});
+
+describe('ReportSchedulerService', () => {
+  let emailService: IEmailService;
+  let scheduler: ReportSchedulerService;
+  const now = new Date('2025-01-20T07:00:30Z');
+
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    emailService = { sendScheduledReport: vi.fn().mockResolvedValue(undefined) } as unknown as IEmailService;
+    scheduler = new ReportSchedulerService({ query: vi.fn() } as unknown as Database, emailService);
+
+    vi.spyOn(ScheduledReportRepository.prototype, 'findDue').mockResolvedValue([schedule()]);
+    vi.spyOn(ScheduledReportRepository.prototype, 'claimRun').mockResolvedValue(true);
+    vi.spyOn(ScheduledReportRepository.prototype, 'createRun').mockImplementation(startRun);
+    vi.spyOn(ScheduledReportRepository.prototype, 'completeRun').mockResolvedValue();
+    vi.spyOn(ScheduledReportRepository.prototype, 'recordRunOutcome').mockResolvedValue();
+    vi.spyOn(ReportService.prototype, 'generateProductivityReport').mockResolvedValue(productivityReport);
+    vi.spyOn(ExportService.prototype, 'exportReport').mockResolvedValue('name,visits\n');
+  });
+
+  it('should email the exported report and record the run', async () => {
+    const [run] = await scheduler.runDueReports(now);
+
+    expect(ScheduledReportRepository.prototype.claimRun).toHaveBeenCalledWith(
+      'schedule-1',
+      new Date('2025-01-20T07:00:00Z'),
+      new Date('2025-01-27T07:00:00Z')
+    );
+    expect(ReportService.prototype.generateProductivityReport).toHaveBeenCalledWith(
+      'org-1',
+      { startDate: new Date('2025-01-13T00:00:00Z'), endDate: new Date('2025-01-19T23:59:59.999Z') },
+      undefined,
+      expect.objectContaining({ userId: 'user-1', organizationId: 'org-1' })
+    );
+    expect(emailService.sendScheduledReport).toHaveBeenCalledWith(
+      expect.objectContaining({
+        recipientEmails: ['director@example.org'],
+        reportName: 'Weekly productivity',
+        attachment: {
+          filename: expect.stringMatching(/\.csv$/),
+          content: 'name,visits\n',
+          contentType: 'text/csv',
+        },
+      })
+    );
+    expect(run).toMatchObject({ status: 'SUCCEEDED', reportId: 'RPT-1', fileSize: 12, errorMessage: null });
+    expect(ScheduledReportRepository.prototype.recordRunOutcome).toHaveBeenCalledWith('schedule-1', 'SUCCEEDED', now);
+  });
+
+  it('should record failed deliveries in the run history', async () => {
+    vi.mocked(emailService.sendScheduledReport).mockRejectedValue(new Error('Resend unavailable'));
+
+    const [run] = await scheduler.runDueReports(now);
+
+    expect(run).toMatchObject({ status: 'FAILED', errorMessage: 'Resend unavailable' });
+    expect(ScheduledReportRepository.prototype.completeRun).toHaveBeenCalledWith(
+      'run-1',
+      expect.objectContaining({ status: 'FAILED', errorMessage: 'Resend unavailable' })
+    );
+    expect(ScheduledReportRepository.prototype.recordRunOutcome).toHaveBeenCalledWith('schedule-1', 'FAILED', now);
+  });
+
+  it('should fail EVV compliance schedules without a state', async () => {
+    vi.mocked(ScheduledReportRepository.prototype.findDue).mockResolvedValue([
+      schedule({ reportType: 'EVV_COMPLIANCE' }),
+    ]);
+
+    const [run] = await scheduler.runDueReports(now);
+
+    expect(run).toMatchObject({
+      status: 'FAILED',
+      errorMessage: 'parameters.state is required for EVV_COMPLIANCE reports',
+    });
+    expect(emailService.sendScheduledReport).not.toHaveBeenCalled();
+  });
+
+  it('should skip runs already claimed by another instance', async () => {
+    vi.mocked(ScheduledReportRepository.prototype.claimRun).mockResolvedValue(false);
+
+    const runs = await scheduler.runDueReports(now);
+
+    expect(runs).toEqual([]);
+    expect(ScheduledReportRepository.prototype.createRun).not.toHaveBeenCalled();
+  });
+});
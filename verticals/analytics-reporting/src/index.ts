@@ -32,12 +32,34 @@ export type {
   RevenueCycleReport,
   AnalyticsQueryOptions,
   PerformanceBenchmark,
+  FlaggedVisitDetail,
+  ScheduleFrequency,
+  ScheduledReportType,
+  ScheduledReportRunStatus,
+  ScheduledReportParameters,
+  ScheduledReport,
+  CreateScheduledReportInput,
+  UpdateScheduledReportInput,
+  ScheduledReportRun,
 } from './types/analytics';
 
 // Service exports
 export { AnalyticsService } from './service/analytics-service';
 export { ReportService } from './service/report-service';
 export { ExportService } from './service/export-service';
+export { ReportSchedulerService } from './service/report-scheduler-service';
 
 // Repository exports
 export { AnalyticsRepository } from './repository/analytics-repository';
+export { ScheduledReportRepository } from './repository/scheduled-report-repository';
+
+// Worker exports
+export {
+  ReportSchedulerWorker,
+  initializeReportSchedulerWorker,
+  shutdownReportSchedulerWorker,
+  type ReportSchedulerWorkerConfig,
+} from './workers/report-scheduler-worker';
+
+// Utility exports
+export { calculateNextRunAt, getReportPeriod, isValidTimeZone } from './utils/report-schedule';
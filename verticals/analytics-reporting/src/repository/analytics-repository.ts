@@ -10,6 +10,7 @@ import {
   AgingBucket,
   RevenueByPayer,
   RevenueTrendDataPoint,
+  FlaggedVisitDetail,
 } from '../types/analytics';
 
 export class AnalyticsRepository {
@@ -610,6 +611,55 @@ export class AnalyticsRepository {
     }));
   }
 
+  /**
+   * Get flagged EVV visits for the compliance report
+   */
+  async getFlaggedVisitDetails(
+    orgId: string,
+    dateRange: DateRange,
+    branchId?: string
+  ): Promise<FlaggedVisitDetail[]> {
+    let query = `
+      SELECT
+        evv.visit_id,
+        cl.first_name as client_first,
+        cl.last_name as client_last,
+        cg.first_name as caregiver_first,
+        cg.last_name as caregiver_last,
+        evv.service_date,
+        evv.compliance_flags,
+        evv.record_status
+      FROM evv_records evv
+      JOIN caregivers cg ON evv.caregiver_id = cg.id
+      JOIN clients cl ON evv.client_id = cl.id
+      WHERE evv.organization_id = $1
+        AND jsonb_array_length(evv.compliance_flags) > 0
+        AND evv.service_date BETWEEN $2 AND $3
+    `;
+    const params: unknown[] = [orgId, dateRange.startDate, dateRange.endDate];
+
+    if (branchId) {
+      query += ' AND evv.branch_id = $4';
+      params.push(branchId);
+    }
+
+    query += `
+      ORDER BY evv.service_date DESC
+      LIMIT 100
+    `;
+
+    const result = await this.database.query(query, params);
+
+    return result.rows.map(row => ({
+      visitId: row.visit_id as string,
+      clientName: `${row.client_first} ${row.client_last}`,
+      caregiverName: `${row.caregiver_first} ${row.caregiver_last}`,
+      serviceDate: row.service_date as Date,
+      complianceFlags: row.compliance_flags as string[],
+      resolutionStatus: row.record_status as string,
+    }));
+  }
+
   /**
    * Format compliance flags for display
    */
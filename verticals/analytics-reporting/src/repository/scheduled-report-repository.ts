@@ -0,0 +1,381 @@
+/**
+ * Scheduled Report Repository - Data access for report schedules and run history
+ */
+
+import { Database } from '@care-commons/core';
+import {
+  ScheduledReport,
+  ScheduledReportRun,
+  ScheduledReportRunStatus,
+  ScheduledReportType,
+  ScheduleFrequency,
+  ScheduledReportParameters,
+  ExportFormat,
+} from '../types/analytics';
+
+/**
+ * Fields that can be written on create/update, keyed by column
+ */
+const SCHEDULE_COLUMNS = {
+  name: 'name',
+  branchId: 'branch_id',
+  reportType: 'report_type',
+  exportFormat: 'export_format',
+  parameters: 'parameters',
+  frequency: 'frequency',
+  timeOfDay: 'time_of_day',
+  dayOfWeek: 'day_of_week',
+  dayOfMonth: 'day_of_month',
+  timezone: 'timezone',
+  recipients: 'recipients',
+  isActive: 'is_active',
+  nextRunAt: 'next_run_at',
+} as const;
+
+const JSON_COLUMNS = new Set(['parameters', 'recipients']);
+
+export type ScheduledReportChanges = Partial<
+  Omit<Pick<ScheduledReport, keyof typeof SCHEDULE_COLUMNS>, 'dayOfWeek' | 'dayOfMonth'>
+> & {
+  // null clears the day when the frequency no longer uses it
+  dayOfWeek?: number | null;
+  dayOfMonth?: number | null;
+};
+
+export class ScheduledReportRepository {
+  constructor(private database: Database) {}
+
+  /**
+   * Create a scheduled report
+   */
+  async create(
+    schedule: Omit<
+      ScheduledReport,
+      'id' | 'lastRunAt' | 'lastRunStatus' | 'consecutiveFailures' | 'createdAt' | 'updatedAt'
+    >
+  ): Promise<ScheduledReport> {
+    const query = `
+      INSERT INTO scheduled_reports (
+        organization_id, branch_id, name, report_type, export_format, parameters,
+        frequency, time_of_day, day_of_week, day_of_month, timezone,
+        recipients, is_active, next_run_at, created_by, updated_by
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16)
+      RETURNING *
+    `;
+
+    const result = await this.database.query(query, [
+      schedule.organizationId,
+      schedule.branchId ?? null,
+      schedule.name,
+      schedule.reportType,
+      schedule.exportFormat,
+      JSON.stringify(schedule.parameters),
+      schedule.frequency,
+      schedule.timeOfDay,
+      schedule.dayOfWeek ?? null,
+      schedule.dayOfMonth ?? null,
+      schedule.timezone,
+      JSON.stringify(schedule.recipients),
+      schedule.isActive,
+      schedule.nextRunAt,
+      schedule.createdBy,
+      schedule.updatedBy,
+    ]);
+
+    return this.mapScheduledReport(result.rows[0]!);
+  }
+
+  /**
+   * Get a scheduled report by ID within an organization
+   */
+  async findById(id: string, orgId: string): Promise<ScheduledReport | null> {
+    const query = `
+      SELECT *
+      FROM scheduled_reports
+      WHERE id = $1
+        AND organization_id = $2
+        AND deleted_at IS NULL
+    `;
+
+    const result = await this.database.query(query, [id, orgId]);
+    const row = result.rows[0];
+    return row ? this.mapScheduledReport(row) : null;
+  }
+
+  /**
+   * List scheduled reports for an organization
+   */
+  async findByOrganization(orgId: string, branchId?: string): Promise<ScheduledReport[]> {
+    let query = `
+      SELECT *
+      FROM scheduled_reports
+      WHERE organization_id = $1
+        AND deleted_at IS NULL
+    `;
+    const params: unknown[] = [orgId];
+
+    if (branchId) {
+      query += ' AND branch_id = $2';
+      params.push(branchId);
+    }
+
+    query += ' ORDER BY name';
+
+    const result = await this.database.query(query, params);
+    return result.rows.map(row => this.mapScheduledReport(row));
+  }
+
+  /**
+   * Active schedules whose next run is due, across all organizations
+   */
+  async findDue(asOf: Date, limit: number): Promise<ScheduledReport[]> {
+    const query = `
+      SELECT *
+      FROM scheduled_reports
+      WHERE is_active = true
+        AND deleted_at IS NULL
+        AND next_run_at <= $1
+      ORDER BY next_run_at
+      LIMIT $2
+    `;
+
+    const result = await this.database.query(query, [asOf, limit]);
+    return result.rows.map(row => this.mapScheduledReport(row));
+  }
+
+  /**
+   * Update schedule fields
+   */
+  async update(
+    id: string,
+    orgId: string,
+    changes: ScheduledReportChanges,
+    updatedBy: string
+  ): Promise<ScheduledReport | null> {
+    const sets: string[] = ['updated_by = $3'];
+    const params: unknown[] = [id, orgId, updatedBy];
+
+    for (const [field, column] of Object.entries(SCHEDULE_COLUMNS)) {
+      const value = changes[field as keyof ScheduledReportChanges];
+      if (value === undefined) {
+        continue;
+      }
+      params.push(JSON_COLUMNS.has(column) ? JSON.stringify(value) : value);
+      sets.push(`${column} = $${params.length}`);
+    }
+
+    const query = `
+      UPDATE scheduled_reports
+      SET ${sets.join(', ')}
+      WHERE id = $1
+        AND organization_id = $2
+        AND deleted_at IS NULL
+      RETURNING *
+    `;
+
+    const result = await this.database.query(query, params);
+    const row = result.rows[0];
+    return row ? this.mapScheduledReport(row) : null;
+  }
+
+  /**
+   * Soft delete a scheduled report
+   */
+  async delete(id: string, orgId: string, deletedBy: string): Promise<boolean> {
+    const query = `
+      UPDATE scheduled_reports
+      SET deleted_at = NOW(), deleted_by = $3, is_active = false
+      WHERE id = $1
+        AND organization_id = $2
+        AND deleted_at IS NULL
+    `;
+
+    const result = await this.database.query(query, [id, orgId, deletedBy]);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Which of the given email addresses belong to active users in the
+   * organization (lowercased)
+   */
+  async findOrganizationUserEmails(orgId: string, emails: string[]): Promise<Set<string>> {
+    const query = `
+      SELECT LOWER(email) AS email
+      FROM users
+      WHERE organization_id = $1
+        AND LOWER(email) = ANY($2::text[])
+        AND status = 'ACTIVE'
+        AND deleted_at IS NULL
+    `;
+
+    const result = await this.database.query(query, [orgId, emails]);
+    return new Set(result.rows.map(row => row['email'] as string));
+  }
+
+  /**
+   * Claim a due run by advancing next_run_at
+   *
+   * Only succeeds if next_run_at is still the value that was read, so a run
+   * is delivered once even when several instances poll the same table.
+   */
+  async claimRun(id: string, scheduledFor: Date, nextRunAt: Date): Promise<boolean> {
+    const query = `
+      UPDATE scheduled_reports
+      SET next_run_at = $3
+      WHERE id = $1
+        AND next_run_at = $2
+        AND is_active = true
+        AND deleted_at IS NULL
+    `;
+
+    const result = await this.database.query(query, [id, scheduledFor, nextRunAt]);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Record the outcome of a run
+   *
+   * Consecutive failures reset to zero after a successful run.
+   */
+  async recordRunOutcome(
+    id: string,
+    status: ScheduledReportRunStatus,
+    ranAt: Date
+  ): Promise<void> {
+    const query = `
+      UPDATE scheduled_reports
+      SET last_run_at = $2,
+          last_run_status = $3::varchar,
+          consecutive_failures = CASE WHEN $3::varchar = 'FAILED' THEN consecutive_failures + 1 ELSE 0 END
+      WHERE id = $1
+    `;
+
+    await this.database.query(query, [id, ranAt, status]);
+  }
+
+  /**
+   * Start a run history entry
+   */
+  async createRun(
+    run: Pick<ScheduledReportRun, 'scheduledReportId' | 'organizationId' | 'scheduledFor' | 'period' | 'recipients'>
+  ): Promise<ScheduledReportRun> {
+    const query = `
+      INSERT INTO scheduled_report_runs (
+        scheduled_report_id, organization_id, status, scheduled_for,
+        period_start, period_end, recipients
+      ) VALUES ($1, $2, 'RUNNING', $3, $4, $5, $6)
+      RETURNING *
+    `;
+
+    const result = await this.database.query(query, [
+      run.scheduledReportId,
+      run.organizationId,
+      run.scheduledFor,
+      run.period.startDate,
+      run.period.endDate,
+      JSON.stringify(run.recipients),
+    ]);
+
+    return this.mapRun(result.rows[0]!);
+  }
+
+  /**
+   * Complete a run history entry
+   */
+  async completeRun(
+    runId: string,
+    outcome: Pick<ScheduledReportRun, 'status' | 'reportId' | 'fileName' | 'fileSize' | 'errorMessage'>
+  ): Promise<void> {
+    const query = `
+      UPDATE scheduled_report_runs
+      SET status = $2,
+          completed_at = NOW(),
+          report_id = $3,
+          file_name = $4,
+          file_size = $5,
+          error_message = $6
+      WHERE id = $1
+    `;
+
+    await this.database.query(query, [
+      runId,
+      outcome.status,
+      outcome.reportId,
+      outcome.fileName,
+      outcome.fileSize,
+      outcome.errorMessage,
+    ]);
+  }
+
+  /**
+   * Run history for a schedule, newest first
+   */
+  async findRuns(scheduledReportId: string, orgId: string, limit: number): Promise<ScheduledReportRun[]> {
+    const query = `
+      SELECT *
+      FROM scheduled_report_runs
+      WHERE scheduled_report_id = $1
+        AND organization_id = $2
+      ORDER BY started_at DESC
+      LIMIT $3
+    `;
+
+    const result = await this.database.query(query, [scheduledReportId, orgId, limit]);
+    return result.rows.map(row => this.mapRun(row));
+  }
+
+  private mapScheduledReport(row: Record<string, unknown>): ScheduledReport {
+    return {
+      id: row['id'] as string,
+      organizationId: row['organization_id'] as string,
+      ...(row['branch_id'] !== null && row['branch_id'] !== undefined && { branchId: row['branch_id'] as string }),
+      name: row['name'] as string,
+      reportType: row['report_type'] as ScheduledReportType,
+      exportFormat: row['export_format'] as ExportFormat,
+      parameters: this.parseJSON<ScheduledReportParameters>(row['parameters'], {}),
+      frequency: row['frequency'] as ScheduleFrequency,
+      timeOfDay: row['time_of_day'] as string,
+      ...(row['day_of_week'] !== null && row['day_of_week'] !== undefined && { dayOfWeek: row['day_of_week'] as number }),
+      ...(row['day_of_month'] !== null && row['day_of_month'] !== undefined && { dayOfMonth: row['day_of_month'] as number }),
+      timezone: row['timezone'] as string,
+      recipients: this.parseJSON<string[]>(row['recipients'], []),
+      isActive: row['is_active'] as boolean,
+      nextRunAt: (row['next_run_at'] as Date | null) ?? null,
+      lastRunAt: (row['last_run_at'] as Date | null) ?? null,
+      lastRunStatus: (row['last_run_status'] as ScheduledReportRunStatus | null) ?? null,
+      consecutiveFailures: (row['consecutive_failures'] as number | undefined) ?? 0,
+      createdAt: row['created_at'] as Date,
+      createdBy: row['created_by'] as string,
+      updatedAt: row['updated_at'] as Date,
+      updatedBy: row['updated_by'] as string,
+    };
+  }
+
+  private mapRun(row: Record<string, unknown>): ScheduledReportRun {
+    return {
+      id: row['id'] as string,
+      scheduledReportId: row['scheduled_report_id'] as string,
+      organizationId: row['organization_id'] as string,
+      status: row['status'] as ScheduledReportRunStatus,
+      scheduledFor: row['scheduled_for'] as Date,
+      startedAt: row['started_at'] as Date,
+      completedAt: (row['completed_at'] as Date | null) ?? null,
+      period: {
+        startDate: row['period_start'] as Date,
+        endDate: row['period_end'] as Date,
+      },
+      reportId: (row['report_id'] as string | null) ?? null,
+      fileName: (row['file_name'] as string | null) ?? null,
+      fileSize: (row['file_size'] as number | null) ?? null,
+      recipients: this.parseJSON<string[]>(row['recipients'], []),
+      errorMessage: (row['error_message'] as string | null) ?? null,
+    };
+  }
+
+  private parseJSON<T>(value: unknown, fallback: T): T {
+    if (value === null || value === undefined) {
+      return fallback;
+    }
+    return typeof value === 'string' ? (JSON.parse(value) as T) : (value as T);
+  }
+}
@@ -0,0 +1,160 @@
+/**
+ * Report Scheduler Service
+ * Generates due scheduled reports, exports them and emails the file to recipients
+ */
+
+import { Database, UserContext, IEmailService, createLogger } from '@care-commons/core';
+import { ScheduledReportRepository } from '../repository/scheduled-report-repository';
+import { ReportService } from './report-service';
+import { ExportService } from './export-service';
+import {
+  DateRange,
+  Report,
+  ScheduledReport,
+  ScheduledReportRun,
+} from '../types/analytics';
+import { calculateNextRunAt, getReportPeriod } from '../utils/report-schedule';
+
+const log = createLogger('ReportSchedulerService');
+
+type RunOutcome = Pick<ScheduledReportRun, 'status' | 'reportId' | 'fileName' | 'fileSize' | 'errorMessage'>;
+
+export class ReportSchedulerService {
+  private scheduledReports: ScheduledReportRepository;
+  private reportService: ReportService;
+  private exportService: ExportService;
+
+  constructor(
+    database: Database,
+    private emailService: IEmailService
+  ) {
+    this.scheduledReports = new ScheduledReportRepository(database);
+    this.reportService = new ReportService(database);
+    this.exportService = new ExportService();
+  }
+
+  /**
+   * Run every schedule that is due
+   *
+   * Schedules are processed one at a time; a failure is recorded in the run
+   * history and does not stop the remaining schedules.
+   */
+  async runDueReports(now: Date = new Date(), batchSize = 25): Promise<ScheduledReportRun[]> {
+    const due = await this.scheduledReports.findDue(now, batchSize);
+    const runs: ScheduledReportRun[] = [];
+
+    for (const schedule of due) {
+      const run = await this.runScheduledReport(schedule, now);
+      if (run !== null) {
+        runs.push(run);
+      }
+    }
+
+    return runs;
+  }
+
+  /**
+   * Generate and deliver one scheduled report
+   *
+   * Returns null if another instance already claimed this run. Missed runs
+   * (e.g. while the server was down) are not backfilled - the schedule moves
+   * straight to its next future run.
+   */
+  async runScheduledReport(schedule: ScheduledReport, now: Date): Promise<ScheduledReportRun | null> {
+    const scheduledFor = schedule.nextRunAt ?? now;
+    const claimed = await this.scheduledReports.claimRun(
+      schedule.id,
+      scheduledFor,
+      calculateNextRunAt(schedule, now)
+    );
+    if (!claimed) {
+      return null;
+    }
+
+    const period = getReportPeriod(schedule.frequency, scheduledFor, schedule.timezone);
+    const run = await this.scheduledReports.createRun({
+      scheduledReportId: schedule.id,
+      organizationId: schedule.organizationId,
+      scheduledFor,
+      period,
+      recipients: schedule.recipients,
+    });
+
+    const outcome = await this.deliver(schedule, period);
+
+    await this.scheduledReports.completeRun(run.id, outcome);
+    await this.scheduledReports.recordRunOutcome(schedule.id, outcome.status, now);
+
+    return { ...run, ...outcome, completedAt: new Date() };
+  }
+
+  private async deliver(schedule: ScheduledReport, period: DateRange): Promise<RunOutcome> {
+    try {
+      const report = await this.generateReport(schedule, period);
+      const content = await this.exportService.exportReport(report, schedule.exportFormat);
+      const fileName = this.exportService.generateFilename(report, schedule.exportFormat);
+
+      await this.emailService.sendScheduledReport({
+        recipientEmails: schedule.recipients,
+        reportName: schedule.name,
+        reportTitle: report.title,
+        periodStart: period.startDate,
+        periodEnd: period.endDate,
+        attachment: {
+          filename: fileName,
+          content,
+          contentType: this.exportService.getMimeType(schedule.exportFormat),
+        },
+      });
+
+      log.info({ scheduledReportId: schedule.id, reportId: report.id }, 'Scheduled report delivered');
+
+      return {
+        status: 'SUCCEEDED',
+        reportId: report.id,
+        fileName,
+        fileSize: Buffer.byteLength(content),
+        errorMessage: null,
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      log.error({ scheduledReportId: schedule.id, error: errorMessage }, 'Scheduled report delivery failed');
+
+      return {
+        status: 'FAILED',
+        reportId: null,
+        fileName: null,
+        fileSize: null,
+        errorMessage,
+      };
+    }
+  }
+
+  /**
+   * Generate the report as the user who created the schedule
+   */
+  private async generateReport(schedule: ScheduledReport, period: DateRange): Promise<Report> {
+    const context: UserContext = {
+      userId: schedule.createdBy,
+      organizationId: schedule.organizationId,
+      branchIds: schedule.branchId !== undefined ? [schedule.branchId] : [],
+      roles: [],
+      permissions: [],
+    };
+    const orgId = schedule.organizationId;
+
+    switch (schedule.reportType) {
+      case 'EVV_COMPLIANCE': {
+        const state = schedule.parameters.state;
+        if (state === undefined || state.length === 0) {
+          throw new Error('parameters.state is required for EVV_COMPLIANCE reports');
+        }
+        return this.reportService.generateEVVComplianceReport(orgId, state, period, schedule.branchId, context);
+      }
+      case 'PRODUCTIVITY':
+        return this.reportService.generateProductivityReport(orgId, period, schedule.branchId, context);
+      case 'REVENUE_CYCLE':
+        return this.reportService.generateRevenueCycleReport(orgId, period, schedule.branchId, context);
+    }
+  }
+}
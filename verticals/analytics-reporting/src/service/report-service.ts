@@ -3,21 +3,42 @@
  * Pre-built reports for compliance, productivity, and revenue analysis
  */
 
-import { Database, UserContext } from '@care-commons/core';
+import { Database, UserContext, NotFoundError, ValidationError } from '@care-commons/core';
 import { AnalyticsRepository } from '../repository/analytics-repository';
+import { ScheduledReportRepository } from '../repository/scheduled-report-repository';
 import {
   EVVComplianceReport,
   ProductivityReport,
   RevenueCycleReport,
   DateRange,
-  ReportType,
+  ExportFormat,
+  ScheduleFrequency,
+  ScheduledReport,
+  ScheduledReportRun,
+  ScheduledReportType,
+  CreateScheduledReportInput,
+  UpdateScheduledReportInput,
 } from '../types/analytics';
+import { calculateNextRunAt, isValidTimeZone, parseTimeOfDay } from '../utils/report-schedule';
+
+export const SCHEDULABLE_REPORT_TYPES: ScheduledReportType[] = [
+  'EVV_COMPLIANCE',
+  'PRODUCTIVITY',
+  'REVENUE_CYCLE',
+];
+
+const EXPORT_FORMATS: ExportFormat[] = ['PDF', 'EXCEL', 'CSV'];
+const SCHEDULE_FREQUENCIES: ScheduleFrequency[] = ['DAILY', 'WEEKLY', 'MONTHLY'];
+const MAX_RECIPIENTS = 25;
+const EMAIL_PATTERN = /^[\w%+.-]+@[\d.A-Za-z-]+\.[A-Za-z]{2,}$/;
 
 export class ReportService {
   private repository: AnalyticsRepository;
+  private scheduledReports: ScheduledReportRepository;
 
   constructor(database: Database) {
     this.repository = new AnalyticsRepository(database);
+    this.scheduledReports = new ScheduledReportRepository(database);
   }
 
   /**
@@ -43,7 +64,7 @@ export class ReportService {
           branchId
         ),
         this.repository.countFlaggedVisits(orgId, dateRange, branchId),
-        this.getFlaggedVisitDetails(orgId, dateRange, branchId),
+        this.repository.getFlaggedVisitDetails(orgId, dateRange, branchId),
       ]);
 
     const complianceRate = totalVisits > 0 ? compliantVisits / totalVisits : 0;
@@ -186,68 +207,6 @@ export class ReportService {
     };
   }
 
-  /**
-   * Get detailed information about flagged visits
-   * NOTE: This method requires refactor to raw SQL - see ARCHITECTURAL_ISSUES.md
-   */
-  private async getFlaggedVisitDetails(
-    _orgId: string,
-    _dateRange: DateRange,
-    _branchId?: string
-  ): Promise<
-    Array<{
-      visitId: string;
-      clientName: string;
-      caregiverName: string;
-      serviceDate: Date;
-      complianceFlags: string[];
-      resolutionStatus: string;
-    }>
-  > {
-    // This method uses Knex query builder which doesn't exist on Database class
-    throw new Error('Not implemented - requires refactor to raw SQL');
-    /* 
-    const query = this.database
-      .getConnection()
-      .from('evv_records as evv')
-      .join('caregivers as cg', 'evv.caregiver_id', 'cg.id')
-      .join('clients as cl', 'evv.client_id', 'cl.id')
-      .where('evv.organization_id', orgId)
-      .whereRaw("jsonb_array_length(evv.compliance_flags) > 0")
-      .whereBetween('evv.service_date', [
-        dateRange.startDate,
-        dateRange.endDate,
-      ]);
-
-    if (branchId) {
-      query.andWhere('evv.branch_id', branchId);
-    }
-
-    const results = await query
-      .select(
-        'evv.visit_id',
-        'cl.first_name as client_first',
-        'cl.last_name as client_last',
-        'cg.first_name as caregiver_first',
-        'cg.last_name as caregiver_last',
-        'evv.service_date',
-        'evv.compliance_flags',
-        'evv.record_status'
-      )
-      .orderBy('evv.service_date', 'desc')
-      .limit(100);
-
-    return results.map((row) => ({
-      visitId: row.visit_id,
-      clientName: `${row.client_first} ${row.client_last}`,
-      caregiverName: `${row.caregiver_first} ${row.caregiver_last}`,
-      serviceDate: row.service_date,
-      complianceFlags: row.compliance_flags,
-      resolutionStatus: row.record_status,
-    }));
-    */
-  }
-
   /**
    * Generate unique report ID
    */
@@ -266,35 +225,231 @@ export class ReportService {
 
   /**
    * Schedule automated report generation
-   * This would be called by a cron job or scheduler
-   * NOTE: Requires refactor to raw SQL - see ARCHITECTURAL_ISSUES.md
+   * Runs are picked up by the ReportSchedulerService once next_run_at is due.
+   * Reports are only emailed to active users of the organization.
    */
   async scheduleReport(
-    _reportType: ReportType,
     orgId: string,
-    _frequency: 'DAILY' | 'WEEKLY' | 'MONTHLY',
-    _recipients: string[],
+    input: CreateScheduledReportInput,
+    context: UserContext
+  ): Promise<ScheduledReport> {
+    this.validateAccess(context, orgId);
+
+    const schedule = {
+      ...input,
+      parameters: input.parameters ?? {},
+      recipients: this.normalizeRecipients(input.recipients),
+    };
+    this.validateSchedule(schedule);
+    await this.validateRecipients(orgId, schedule.recipients);
+
+    const { dayOfWeek, dayOfMonth } = this.scheduleDays(schedule);
+
+    return this.scheduledReports.create({
+      ...schedule,
+      dayOfWeek: dayOfWeek ?? undefined,
+      dayOfMonth: dayOfMonth ?? undefined,
+      organizationId: orgId,
+      isActive: true,
+      nextRunAt: calculateNextRunAt(schedule, new Date()),
+      createdBy: context.userId,
+      updatedBy: context.userId,
+    });
+  }
+
+  /**
+   * List scheduled reports for an organization
+   */
+  async getScheduledReports(
+    orgId: string,
+    branchId: string | undefined,
     context: UserContext
-  ): Promise<void> {
+  ): Promise<ScheduledReport[]> {
     this.validateAccess(context, orgId);
+    return this.scheduledReports.findByOrganization(orgId, branchId);
+  }
+
+  /**
+   * Get a scheduled report
+   */
+  async getScheduledReport(
+    id: string,
+    orgId: string,
+    context: UserContext
+  ): Promise<ScheduledReport> {
+    this.validateAccess(context, orgId);
+
+    const schedule = await this.scheduledReports.findById(id, orgId);
+    if (schedule === null) {
+      throw new NotFoundError('Scheduled report not found', { id });
+    }
+    return schedule;
+  }
+
+  /**
+   * Update a scheduled report
+   *
+   * Changing the timing (or reactivating) recalculates the next run.
+   */
+  async updateScheduledReport(
+    id: string,
+    orgId: string,
+    input: UpdateScheduledReportInput,
+    context: UserContext
+  ): Promise<ScheduledReport> {
+    const existing = await this.getScheduledReport(id, orgId, context);
+
+    const merged = {
+      ...existing,
+      ...input,
+      recipients: input.recipients !== undefined
+        ? this.normalizeRecipients(input.recipients)
+        : existing.recipients,
+    };
+    this.validateSchedule(merged);
+    if (input.recipients !== undefined) {
+      await this.validateRecipients(orgId, merged.recipients);
+    }
+
+    const timingChanged =
+      input.frequency !== undefined ||
+      input.timeOfDay !== undefined ||
+      input.dayOfWeek !== undefined ||
+      input.dayOfMonth !== undefined ||
+      input.timezone !== undefined ||
+      (input.isActive === true && !existing.isActive);
+
+    const updated = await this.scheduledReports.update(
+      id,
+      orgId,
+      {
+        ...input,
+        ...this.scheduleDays(merged),
+        recipients: merged.recipients,
+        ...(timingChanged && { nextRunAt: calculateNextRunAt(merged, new Date()) }),
+      },
+      context.userId
+    );
+
+    if (updated === null) {
+      throw new NotFoundError('Scheduled report not found', { id });
+    }
+    return updated;
+  }
+
+  /**
+   * Delete a scheduled report
+   */
+  async deleteScheduledReport(id: string, orgId: string, context: UserContext): Promise<void> {
+    this.validateAccess(context, orgId);
+
+    const deleted = await this.scheduledReports.delete(id, orgId, context.userId);
+    if (!deleted) {
+      throw new NotFoundError('Scheduled report not found', { id });
+    }
+  }
+
+  /**
+   * Get delivery history for a scheduled report, newest first
+   */
+  async getScheduledReportRuns(
+    id: string,
+    orgId: string,
+    context: UserContext,
+    limit = 50
+  ): Promise<ScheduledReportRun[]> {
+    await this.getScheduledReport(id, orgId, context);
+    return this.scheduledReports.findRuns(id, orgId, limit);
+  }
+
+  /**
+   * Validate schedule configuration
+   */
+  private validateSchedule(schedule: CreateScheduledReportInput): void {
+    const errors: string[] = [];
+
+    if (typeof schedule.name !== 'string' || schedule.name.trim().length === 0) {
+      errors.push('name is required');
+    }
+    if (!SCHEDULABLE_REPORT_TYPES.includes(schedule.reportType)) {
+      errors.push(`reportType must be one of ${SCHEDULABLE_REPORT_TYPES.join(', ')}`);
+    }
+    if (!EXPORT_FORMATS.includes(schedule.exportFormat)) {
+      errors.push(`exportFormat must be one of ${EXPORT_FORMATS.join(', ')}`);
+    }
+    if (schedule.reportType === 'EVV_COMPLIANCE' && !schedule.parameters?.state) {
+      errors.push('parameters.state is required for EVV_COMPLIANCE reports');
+    }
+    if (!SCHEDULE_FREQUENCIES.includes(schedule.frequency)) {
+      errors.push(`frequency must be one of ${SCHEDULE_FREQUENCIES.join(', ')}`);
+    }
+    if (parseTimeOfDay(schedule.timeOfDay) === null) {
+      errors.push('timeOfDay must be HH:MM (24-hour)');
+    }
+    if (
+      schedule.frequency === 'WEEKLY' &&
+      !this.isIntegerInRange(schedule.dayOfWeek, 0, 6)
+    ) {
+      errors.push('dayOfWeek (0-6) is required for WEEKLY schedules');
+    }
+    if (
+      schedule.frequency === 'MONTHLY' &&
+      !this.isIntegerInRange(schedule.dayOfMonth, 1, 31)
+    ) {
+      errors.push('dayOfMonth (1-31) is required for MONTHLY schedules');
+    }
+    if (typeof schedule.timezone !== 'string' || !isValidTimeZone(schedule.timezone)) {
+      errors.push(`Unknown timezone: ${schedule.timezone}`);
+    }
+    if (schedule.recipients.length === 0) {
+      errors.push('At least one recipient is required');
+    }
+    if (schedule.recipients.length > MAX_RECIPIENTS) {
+      errors.push(`No more than ${MAX_RECIPIENTS} recipients are allowed`);
+    }
+    const invalidRecipients = schedule.recipients.filter(email => !EMAIL_PATTERN.test(email));
+    if (invalidRecipients.length > 0) {
+      errors.push(`Invalid recipient email: ${invalidRecipients.join(', ')}`);
+    }
+
+    if (errors.length > 0) {
+      throw new ValidationError(`Invalid report schedule: ${errors.join('; ')}`, { errors });
+    }
+  }
+
+  /**
+   * Reports carry organization data, so every recipient must be an active
+   * user in the organization
+   */
+  private async validateRecipients(orgId: string, recipients: string[]): Promise<void> {
+    const members = await this.scheduledReports.findOrganizationUserEmails(orgId, recipients);
+    const outsiders = recipients.filter(email => !members.has(email));
+    if (outsiders.length > 0) {
+      const error = `Recipients must be active users in the organization: ${outsiders.join(', ')}`;
+      throw new ValidationError(`Invalid report schedule: ${error}`, { errors: [error] });
+    }
+  }
+
+  /**
+   * Only keep the day field that applies to the frequency
+   */
+  private scheduleDays(
+    schedule: Pick<CreateScheduledReportInput, 'frequency' | 'dayOfWeek' | 'dayOfMonth'>
+  ): { dayOfWeek: number | null; dayOfMonth: number | null } {
+    return {
+      dayOfWeek: schedule.frequency === 'WEEKLY' ? schedule.dayOfWeek ?? null : null,
+      dayOfMonth: schedule.frequency === 'MONTHLY' ? schedule.dayOfMonth ?? null : null,
+    };
+  }
+
+  private normalizeRecipients(recipients: unknown): string[] {
+    if (!Array.isArray(recipients)) {
+      return [];
+    }
+    return [...new Set(recipients.map(email => String(email).trim().toLowerCase()))];
+  }
 
-    throw new Error('Not implemented - requires refactor to raw SQL');
-    /*
-    // Store scheduled report configuration
-    await this.database.getConnection().insert({
-      organization_id: orgId,
-      report_type: reportType,
-      frequency,
-      recipients: JSON.stringify(recipients),
-      created_by: context.userId,
-      created_at: new Date(),
-      is_active: true,
-    }).into('scheduled_reports');
-    */
-
-    // In a real implementation, this would:
-    // 1. Create a job in a queue (e.g., Bull, BullMQ)
-    // 2. Set up cron scheduling
-    // 3. Configure email delivery
+  private isIntegerInRange(value: number | undefined, min: number, max: number): boolean {
+    return value !== undefined && Number.isInteger(value) && value >= min && value <= max;
   }
 }
@@ -228,6 +228,18 @@ export interface Report {
   data: Record<string, unknown>;
 }
 
+/**
+ * Flagged visit listed on the EVV Compliance Report
+ */
+export interface FlaggedVisitDetail {
+  visitId: string;
+  clientName: string;
+  caregiverName: string;
+  serviceDate: Date;
+  complianceFlags: string[];
+  resolutionStatus: string;
+}
+
 /**
  * EVV Compliance Report
  */
@@ -237,14 +249,7 @@ export interface EVVComplianceReport extends Report {
     state: string;
     totalVisits: number;
     compliantVisits: number;
-    flaggedVisits: Array<{
-      visitId: string;
-      clientName: string;
-      caregiverName: string;
-      serviceDate: Date;
-      complianceFlags: string[];
-      resolutionStatus: string;
-    }>;
+    flaggedVisits: FlaggedVisitDetail[];
     aggregatorSubmissions: EVVSubmissionStatus[];
     complianceRate: number;
   };
@@ -303,3 +308,98 @@ export interface PerformanceBenchmark {
   industryAverage?: number;
   status: 'ABOVE_TARGET' | 'AT_TARGET' | 'BELOW_TARGET' | 'CRITICAL';
 }
+
+/**
+ * Scheduled Report Frequency
+ */
+export type ScheduleFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY';
+
+/**
+ * Report types that can be generated unattended
+ */
+export type ScheduledReportType = Extract<ReportType, 'EVV_COMPLIANCE' | 'PRODUCTIVITY' | 'REVENUE_CYCLE'>;
+
+/**
+ * Scheduled Report Run Status
+ */
+export type ScheduledReportRunStatus = 'RUNNING' | 'SUCCEEDED' | 'FAILED';
+
+/**
+ * Report-specific parameters for a schedule
+ */
+export interface ScheduledReportParameters {
+  state?: string; // Required for EVV_COMPLIANCE
+}
+
+/**
+ * Scheduled Report
+ * Recurring report emailed to recipients. Run times are local to timezone.
+ */
+export interface ScheduledReport {
+  id: string;
+  organizationId: string;
+  branchId?: string;
+  name: string;
+  reportType: ScheduledReportType;
+  exportFormat: ExportFormat;
+  parameters: ScheduledReportParameters;
+  frequency: ScheduleFrequency;
+  timeOfDay: string; // HH:MM, 24-hour
+  dayOfWeek?: number; // 0 (Sunday) - 6, WEEKLY only
+  dayOfMonth?: number; // 1 - 31, MONTHLY only; clamped to the last day of shorter months
+  timezone: string; // IANA, e.g. America/Chicago
+  recipients: string[];
+  isActive: boolean;
+  nextRunAt: Date | null;
+  lastRunAt: Date | null;
+  lastRunStatus: ScheduledReportRunStatus | null;
+  consecutiveFailures: number;
+  createdAt: Date;
+  createdBy: string;
+  updatedAt: Date;
+  updatedBy: string;
+}
+
+/**
+ * Create Scheduled Report Input
+ */
+export interface CreateScheduledReportInput {
+  name: string;
+  reportType: ScheduledReportType;
+  exportFormat: ExportFormat;
+  branchId?: string;
+  parameters?: ScheduledReportParameters;
+  frequency: ScheduleFrequency;
+  timeOfDay: string;
+  dayOfWeek?: number;
+  dayOfMonth?: number;
+  timezone: string;
+  recipients: string[];
+}
+
+/**
+ * Update Scheduled Report Input
+ */
+export type UpdateScheduledReportInput = Partial<CreateScheduledReportInput> & {
+  isActive?: boolean;
+};
+
+/**
+ * Scheduled Report Run
+ * One delivery attempt, kept for history including failures
+ */
+export interface ScheduledReportRun {
+  id: string;
+  scheduledReportId: string;
+  organizationId: string;
+  status: ScheduledReportRunStatus;
+  scheduledFor: Date;
+  startedAt: Date;
+  completedAt: Date | null;
+  period: DateRange;
+  reportId: string | null;
+  fileName: string | null;
+  fileSize: number | null;
+  recipients: string[];
+  errorMessage: string | null;
+}
@@ -0,0 +1,143 @@
+/**
+ * Report Schedule Calculation Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  calculateNextRunAt,
+  getReportPeriod,
+  isValidTimeZone,
+  parseTimeOfDay,
+} from '../report-schedule';
+
+const CHICAGO = 'America/Chicago';
+
+describe('calculateNextRunAt', () => {
+  it('should run later today when the time has not passed', () => {
+    // 06:00 CST
+    const next = calculateNextRunAt(
+      { frequency: 'DAILY', timeOfDay: '07:00', timezone: CHICAGO },
+      new Date('2025-01-15T12:00:00Z')
+    );
+
+    expect(next).toEqual(new Date('2025-01-15T13:00:00Z'));
+  });
+
+  it('should run tomorrow once today\'s time has passed', () => {
+    const next = calculateNextRunAt(
+      { frequency: 'DAILY', timeOfDay: '07:00', timezone: CHICAGO },
+      new Date('2025-01-15T13:00:00Z')
+    );
+
+    expect(next).toEqual(new Date('2025-01-16T13:00:00Z'));
+  });
+
+  it('should keep the local time across a daylight saving change', () => {
+    // 07:00 CST on March 8, next run is 07:00 CDT on March 9
+    const next = calculateNextRunAt(
+      { frequency: 'DAILY', timeOfDay: '07:00', timezone: CHICAGO },
+      new Date('2025-03-08T13:00:00Z')
+    );
+
+    expect(next).toEqual(new Date('2025-03-09T12:00:00Z'));
+  });
+
+  it('should move a time skipped by spring forward past the gap', () => {
+    const next = calculateNextRunAt(
+      { frequency: 'DAILY', timeOfDay: '02:30', timezone: CHICAGO },
+      new Date('2025-03-09T00:00:00Z')
+    );
+
+    // 03:30 CDT
+    expect(next).toEqual(new Date('2025-03-09T08:30:00Z'));
+  });
+
+  it('should use the local date rather than the UTC date', () => {
+    // Wednesday 02:00 UTC is still Tuesday evening in Chicago
+    const next = calculateNextRunAt(
+      { frequency: 'WEEKLY', timeOfDay: '20:00', dayOfWeek: 2, timezone: CHICAGO },
+      new Date('2025-01-15T01:00:00Z')
+    );
+
+    expect(next).toEqual(new Date('2025-01-15T02:00:00Z'));
+  });
+
+  it('should run weekly on the configured weekday', () => {
+    // Wednesday January 15, schedule is Monday
+    const next = calculateNextRunAt(
+      { frequency: 'WEEKLY', timeOfDay: '08:00', dayOfWeek: 1, timezone: 'UTC' },
+      new Date('2025-01-15T12:00:00Z')
+    );
+
+    expect(next).toEqual(new Date('2025-01-20T08:00:00Z'));
+  });
+
+  it('should run a week later when this week\'s run has passed', () => {
+    const next = calculateNextRunAt(
+      { frequency: 'WEEKLY', timeOfDay: '08:00', dayOfWeek: 3, timezone: 'UTC' },
+      new Date('2025-01-15T08:00:00Z')
+    );
+
+    expect(next).toEqual(new Date('2025-01-22T08:00:00Z'));
+  });
+
+  it('should clamp monthly runs to the last day of short months', () => {
+    const next = calculateNextRunAt(
+      { frequency: 'MONTHLY', timeOfDay: '06:00', dayOfMonth: 31, timezone: 'UTC' },
+      new Date('2025-01-31T07:00:00Z')
+    );
+
+    expect(next).toEqual(new Date('2025-02-28T06:00:00Z'));
+  });
+
+  it('should roll monthly runs into the next year', () => {
+    const next = calculateNextRunAt(
+      { frequency: 'MONTHLY', timeOfDay: '06:00', dayOfMonth: 1, timezone: 'UTC' },
+      new Date('2025-12-01T06:00:00Z')
+    );
+
+    expect(next).toEqual(new Date('2026-01-01T06:00:00Z'));
+  });
+});
+
+describe('getReportPeriod', () => {
+  it('should cover the previous local day for daily reports', () => {
+    const period = getReportPeriod('DAILY', new Date('2025-01-15T13:00:00Z'), CHICAGO);
+
+    expect(period).toEqual({
+      startDate: new Date('2025-01-14T06:00:00Z'),
+      endDate: new Date('2025-01-15T05:59:59.999Z'),
+    });
+  });
+
+  it('should cover the previous seven days for weekly reports', () => {
+    const period = getReportPeriod('WEEKLY', new Date('2025-01-20T08:00:00Z'), 'UTC');
+
+    expect(period).toEqual({
+      startDate: new Date('2025-01-13T00:00:00Z'),
+      endDate: new Date('2025-01-19T23:59:59.999Z'),
+    });
+  });
+
+  it('should cover the previous calendar month for monthly reports', () => {
+    const period = getReportPeriod('MONTHLY', new Date('2025-03-05T06:00:00Z'), 'UTC');
+
+    expect(period).toEqual({
+      startDate: new Date('2025-02-01T00:00:00Z'),
+      endDate: new Date('2025-02-28T23:59:59.999Z'),
+    });
+  });
+});
+
+describe('schedule validation helpers', () => {
+  it('should recognise IANA timezones', () => {
+    expect(isValidTimeZone(CHICAGO)).toBe(true);
+    expect(isValidTimeZone('Central Time')).toBe(false);
+  });
+
+  it('should parse 24-hour times of day', () => {
+    expect(parseTimeOfDay('23:59')).toEqual({ hour: 23, minute: 59 });
+    expect(parseTimeOfDay('24:00')).toBeNull();
+    expect(parseTimeOfDay('7:00')).toBeNull();
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * Report schedule calculations
+ *
+ * Schedules are stored as wall-clock times in an IANA timezone so that a
+ * 7:00 report keeps arriving at 7:00 across daylight saving changes. These
+ * helpers convert between that local calendar and the UTC instants stored
+ * in next_run_at, using only Intl (no timezone database dependency).
+ */
+
+import { DateRange, ScheduleFrequency } from '../types/analytics';
+
+export interface ScheduleTiming {
+  frequency: ScheduleFrequency;
+  timeOfDay: string;
+  dayOfWeek?: number;
+  dayOfMonth?: number;
+  timezone: string;
+}
+
+interface LocalDate {
+  year: number;
+  month: number; // 1-12
+  day: number;
+}
+
+interface ZonedParts extends LocalDate {
+  hour: number;
+  minute: number;
+  weekday: number; // 0 (Sunday) - 6
+}
+
+const TIME_OF_DAY_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/**
+ * Check that a timezone is a valid IANA identifier
+ */
+export function isValidTimeZone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Parse an HH:MM time of day, or return null if malformed
+ */
+export function parseTimeOfDay(timeOfDay: string): { hour: number; minute: number } | null {
+  const match = TIME_OF_DAY_PATTERN.exec(timeOfDay);
+  if (match === null) {
+    return null;
+  }
+  return { hour: Number(match[1]), minute: Number(match[2]) };
+}
+
+/**
+ * Calculate the first run strictly after the given instant
+ */
+export function calculateNextRunAt(schedule: ScheduleTiming, after: Date): Date {
+  const time = parseTimeOfDay(schedule.timeOfDay);
+  if (time === null) {
+    throw new Error(`Invalid time of day: ${schedule.timeOfDay}`);
+  }
+
+  const local = getZonedParts(after, schedule.timezone);
+  const runOn = (date: LocalDate): Date =>
+    zonedTimeToUtc(date, time.hour, time.minute, schedule.timezone);
+
+  switch (schedule.frequency) {
+    case 'DAILY': {
+      const today = runOn(local);
+      return today > after ? today : runOn(addDays(local, 1));
+    }
+    case 'WEEKLY': {
+      const daysAhead = ((schedule.dayOfWeek ?? 0) - local.weekday + 7) % 7;
+      const candidate = runOn(addDays(local, daysAhead));
+      return candidate > after ? candidate : runOn(addDays(local, daysAhead + 7));
+    }
+    case 'MONTHLY': {
+      const dayOfMonth = schedule.dayOfMonth ?? 1;
+      const candidate = runOn(monthDay(local.year, local.month, dayOfMonth));
+      if (candidate > after) {
+        return candidate;
+      }
+      const next = addMonths(local.year, local.month, 1);
+      return runOn(monthDay(next.year, next.month, dayOfMonth));
+    }
+  }
+}
+
+/**
+ * Reporting period covered by a run
+ *
+ * DAILY covers the previous local day, WEEKLY the previous seven days and
+ * MONTHLY the previous calendar month, each ending at local midnight of the
+ * day the run was scheduled for.
+ */
+export function getReportPeriod(
+  frequency: ScheduleFrequency,
+  scheduledFor: Date,
+  timezone: string
+): DateRange {
+  const local = getZonedParts(scheduledFor, timezone);
+
+  let start: LocalDate;
+  let end: LocalDate = local;
+  switch (frequency) {
+    case 'DAILY':
+      start = addDays(local, -1);
+      break;
+    case 'WEEKLY':
+      start = addDays(local, -7);
+      break;
+    case 'MONTHLY':
+      start = { ...addMonths(local.year, local.month, -1), day: 1 };
+      end = { year: local.year, month: local.month, day: 1 };
+      break;
+  }
+
+  return {
+    startDate: zonedTimeToUtc(start, 0, 0, timezone),
+    endDate: new Date(zonedTimeToUtc(end, 0, 0, timezone).getTime() - 1),
+  };
+}
+
+/**
+ * Calendar fields of an instant as seen in a timezone
+ */
+function getZonedParts(date: Date, timezone: string): ZonedParts {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    weekday: 'short',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+
+  const value = (type: Intl.DateTimeFormatPartTypes): string =>
+    parts.find(part => part.type === type)?.value ?? '';
+
+  return {
+    year: Number(value('year')),
+    month: Number(value('month')),
+    day: Number(value('day')),
+    hour: Number(value('hour')),
+    minute: Number(value('minute')),
+    weekday: WEEKDAYS.indexOf(value('weekday')),
+  };
+}
+
+/**
+ * Offset of a timezone from UTC at an instant, in milliseconds
+ */
+function getTimeZoneOffset(date: Date, timezone: string): number {
+  const parts = getZonedParts(date, timezone);
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute);
+  const truncated = date.getTime() - (date.getTime() % 60000);
+  return asUtc - truncated;
+}
+
+/**
+ * UTC instant of a local wall-clock time
+ *
+ * Times skipped by a spring-forward transition move forward by the gap
+ * (02:30 becomes 03:30); repeated fall-back times use the first occurrence.
+ */
+function zonedTimeToUtc(date: LocalDate, hour: number, minute: number, timezone: string): Date {
+  const wallClock = Date.UTC(date.year, date.month - 1, date.day, hour, minute);
+  const firstGuess = new Date(wallClock - getTimeZoneOffset(new Date(wallClock), timezone));
+  const adjusted = new Date(wallClock - getTimeZoneOffset(firstGuess, timezone));
+
+  const resolved = getZonedParts(adjusted, timezone);
+  return resolved.hour === hour && resolved.minute === minute ? adjusted : firstGuess;
+}
+
+function addDays(date: LocalDate, days: number): LocalDate {
+  const shifted = new Date(Date.UTC(date.year, date.month - 1, date.day + days));
+  return {
+    year: shifted.getUTCFullYear(),
+    month: shifted.getUTCMonth() + 1,
+    day: shifted.getUTCDate(),
+  };
+}
+
+function addMonths(year: number, month: number, months: number): { year: number; month: number } {
+  const shifted = new Date(Date.UTC(year, month - 1 + months, 1));
+  return { year: shifted.getUTCFullYear(), month: shifted.getUTCMonth() + 1 };
+}
+
+/**
+ * Day in a month, clamped to the month's last day (31st -> 30th, 28th, ...)
+ */
+function monthDay(year: number, month: number, day: number): LocalDate {
+  const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  return { year, month, day: Math.min(day, lastDay) };
+}
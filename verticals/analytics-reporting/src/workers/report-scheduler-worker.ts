@@ -0,0 +1,201 @@
+/**
+ * Scheduled Report Worker
+ *
+ * Background worker that polls for scheduled reports whose next run is due
+ * and hands them to the ReportSchedulerService for generation and delivery.
+ *
+ * Features:
+ * - Configurable polling interval and batch size
+ * - Overlapping polls are skipped while a batch is still running
+ * - Graceful shutdown support
+ */
+
+import { ReportSchedulerService } from '../service/report-scheduler-service';
+import { createLogger } from '@care-commons/core';
+
+const log = createLogger('ReportSchedulerWorker');
+
+export interface ReportSchedulerWorkerConfig {
+  /**
+   * How often to check for due reports (in milliseconds)
+   * Default: 1 minute (60000ms)
+   */
+  checkIntervalMs: number;
+
+  /**
+   * Whether the worker is enabled
+   * Default: true
+   */
+  enabled: boolean;
+
+  /**
+   * Maximum number of reports to run in one batch
+   * Default: 25
+   */
+  batchSize: number;
+}
+
+const DEFAULT_CONFIG: ReportSchedulerWorkerConfig = {
+  checkIntervalMs: 60000, // 1 minute
+  enabled: true,
+  batchSize: 25,
+};
+
+/**
+ * Report Scheduler Worker
+ *
+ * Delivers scheduled reports when they come due.
+ */
+export class ReportSchedulerWorker {
+  private intervalId: ReturnType<typeof setInterval> | null = null;
+  private isRunning = false;
+  private isProcessing = false;
+  private config: ReportSchedulerWorkerConfig;
+
+  constructor(
+    private schedulerService: ReportSchedulerService,
+    config?: Partial<ReportSchedulerWorkerConfig>
+  ) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * Start the worker
+   */
+  start(): void {
+    if (!this.config.enabled) {
+      log.info('ReportSchedulerWorker is disabled');
+      return;
+    }
+
+    if (this.isRunning) {
+      log.warn('ReportSchedulerWorker is already running');
+      return;
+    }
+
+    log.info({ checkIntervalMs: this.config.checkIntervalMs }, 'ReportSchedulerWorker starting');
+
+    this.isRunning = true;
+
+    // Run immediately on start
+    void this.processDueReports();
+
+    // Then run periodically
+    this.intervalId = setInterval(() => {
+      void this.processDueReports();
+    }, this.config.checkIntervalMs);
+  }
+
+  /**
+   * Stop the worker
+   *
+   * A batch already in progress finishes; no new batches start.
+   */
+  stop(): void {
+    if (!this.isRunning) {
+      log.warn('ReportSchedulerWorker is not running');
+      return;
+    }
+
+    log.info('ReportSchedulerWorker stopping...');
+
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+
+    this.isRunning = false;
+
+    log.info('ReportSchedulerWorker stopped');
+  }
+
+  /**
+   * Run the reports that are due
+   */
+  private async processDueReports(): Promise<void> {
+    if (this.isProcessing) {
+      log.debug('Previous batch still running, skipping');
+      return;
+    }
+
+    this.isProcessing = true;
+    try {
+      const startTime = Date.now();
+
+      const runs = await this.schedulerService.runDueReports(new Date(), this.config.batchSize);
+
+      if (runs.length > 0) {
+        const failed = runs.filter(run => run.status === 'FAILED').length;
+        log.info(
+          { duration: Date.now() - startTime, delivered: runs.length - failed, failed },
+          'Finished processing scheduled reports'
+        );
+      }
+    } catch (error) {
+      log.error({ error }, 'Error processing scheduled reports');
+      // Don't throw - let the worker continue running
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  /**
+   * Check if the worker is running
+   */
+  isActive(): boolean {
+    return this.isRunning;
+  }
+
+  /**
+   * Get current configuration
+   */
+  getConfig(): ReportSchedulerWorkerConfig {
+    return { ...this.config };
+  }
+}
+
+/**
+ * Singleton instance for application-wide use
+ */
+let workerInstance: ReportSchedulerWorker | null = null;
+
+/**
+ * Initialize and start the report scheduler worker
+ *
+ * Should be called once during application startup.
+ */
+export function initializeReportSchedulerWorker(
+  schedulerService: ReportSchedulerService,
+  config?: Partial<ReportSchedulerWorkerConfig>
+): ReportSchedulerWorker {
+  if (workerInstance) {
+    log.warn('ReportSchedulerWorker already initialized');
+    return workerInstance;
+  }
+
+  workerInstance = new ReportSchedulerWorker(schedulerService, config);
+  workerInstance.start();
+
+  // Graceful shutdown on process termination
+  process.on('SIGTERM', () => {
+    log.info('SIGTERM received, shutting down ReportSchedulerWorker...');
+    workerInstance?.stop();
+  });
+
+  process.on('SIGINT', () => {
+    log.info('SIGINT received, shutting down ReportSchedulerWorker...');
+    workerInstance?.stop();
+  });
+
+  return workerInstance;
+}
+
+/**
+ * Stop and cleanup the report scheduler worker
+ */
+export function shutdownReportSchedulerWorker(): void {
+  if (workerInstance) {
+    workerInstance.stop();
+    workerInstance = null;
+  }
+}
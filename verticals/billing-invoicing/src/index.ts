@@ -12,8 +12,13 @@ export * from './types/billing';
 // Export repository
 export { BillingRepository } from './repository/billing-repository';
 
+// Export service
+export { BillingService } from './service/billing-service';
+
 // Export validation
 export * from './validation/billing-validator';
 
 // Export utilities
 export * from './utils/billing-calculations';
+export { generate837Interchange } from './utils/edi-837';
+export { parse835 } from './utils/edi-835';
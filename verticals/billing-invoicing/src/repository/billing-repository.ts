@@ -14,9 +14,20 @@ import {
   Payer,
   RateSchedule,
   ServiceAuthorization,
+  Claim,
+  ClaimLineItem,
+  ClaimStatus,
+  ClaimStatusChange,
+  ERARemittanceRecord,
+  ERAReconciliationItem,
+  ERAReconciliationStatus,
+  EDI837AttendingProvider,
+  EDI837Subscriber,
+  PayerType,
   BillableItemSearchFilters,
   InvoiceSearchFilters,
   PaymentSearchFilters,
+  ClaimSearchFilters,
 } from '../types/billing';
 
 /**
@@ -45,6 +56,26 @@ interface PaymentAllocation {
   notes?: string;
 }
 
+interface ClaimStatusUpdate {
+  controlNumber?: string;
+  processingDate?: Date;
+  paymentDate?: Date;
+  totalApproved?: number;
+  totalPaid?: number;
+  denialReason?: string;
+  denialCode?: string;
+  denialDate?: Date;
+  isAppealable?: boolean;
+  appealDeadline?: Date;
+  lineItems?: ClaimLineItem[];
+  totalAdjustments?: number;
+  patientResponsibility?: number;
+  eraReceived?: boolean;
+  eraReceivedDate?: Date;
+  eraDocumentId?: UUID;
+  clearSubmissionBatch?: boolean;
+}
+
 interface PaymentReference {
   paymentId?: UUID;
   invoiceId?: UUID;
@@ -542,6 +573,11 @@ export class BillingRepository {
       params.push(filters.isPaid);
     }
 
+    if (filters.invoiceId) {
+      conditions.push(`invoice_id = $${paramCount++}`);
+      params.push(filters.invoiceId);
+    }
+
     const query = `
       SELECT * FROM billable_items
       WHERE ${conditions.join(' AND ')}
@@ -672,8 +708,9 @@ export class BillingRepository {
     return this.mapInvoice(result.rows[0]);
   }
 
-  async findInvoiceById(id: UUID): Promise<Invoice | null> {
-    const result = await this.pool.query(
+  async findInvoiceById(id: UUID, client?: PoolClient): Promise<Invoice | null> {
+    const db = client || this.pool;
+    const result = await db.query(
       'SELECT * FROM invoices WHERE id = $1 AND deleted_at IS NULL',
       [id]
     );
@@ -849,8 +886,9 @@ export class BillingRepository {
     return this.mapPayment(result.rows[0]);
   }
 
-  async findPaymentById(id: UUID): Promise<Payment | null> {
-    const result = await this.pool.query('SELECT * FROM payments WHERE id = $1', [
+  async findPaymentById(id: UUID, client?: PoolClient): Promise<Payment | null> {
+    const db = client || this.pool;
+    const result = await db.query('SELECT * FROM payments WHERE id = $1', [
       id,
     ]);
     return result.rows[0] ? this.mapPayment(result.rows[0]) : null;
@@ -930,6 +968,603 @@ export class BillingRepository {
     );
   }
 
+  /**
+   * CLAIM OPERATIONS
+   */
+
+  async createClaim(
+    claim: Omit<Claim, 'id' | 'createdAt' | 'updatedAt' | 'version'>,
+    client?: PoolClient
+  ): Promise<Claim> {
+    const db = client || this.pool;
+    const id = uuid();
+    const now = new Date();
+
+    const result = await db.query(
+      `
+      INSERT INTO claims (
+        id, organization_id, branch_id,
+        claim_number, claim_type, claim_format,
+        payer_id, payer_type, payer_name,
+        client_id, client_name,
+        invoice_id, invoice_number,
+        billable_item_ids, line_items, total_charges,
+        submitted_date, submitted_by, submission_method, submission_batch_id,
+        status, status_history,
+        is_appealable, era_received,
+        notes, internal_notes,
+        created_at, created_by, updated_at, updated_by, version
+      ) VALUES (
+        $1, $2, $3, $4, $5, $6, $7, $8, $9, $10,
+        $11, $12, $13, $14, $15, $16, $17, $18, $19, $20,
+        $21, $22, $23, $24, $25, $26, $27, $28, $29, $30,
+        $31
+      )
+      RETURNING *
+      `,
+      [
+        id,
+        claim.organizationId,
+        claim.branchId,
+        claim.claimNumber,
+        claim.claimType,
+        claim.claimFormat,
+        claim.payerId,
+        claim.payerType,
+        claim.payerName,
+        claim.clientId,
+        claim.clientName,
+        claim.invoiceId,
+        claim.invoiceNumber,
+        JSON.stringify(claim.billableItemIds),
+        JSON.stringify(claim.lineItems),
+        claim.totalCharges,
+        claim.submittedDate,
+        claim.submittedBy,
+        claim.submissionMethod,
+        claim.submissionBatchId || null,
+        claim.status,
+        JSON.stringify(claim.statusHistory || []),
+        claim.isAppealable,
+        claim.eraReceived,
+        claim.notes || null,
+        claim.internalNotes || null,
+        now,
+        claim.createdBy,
+        now,
+        claim.updatedBy,
+        1,
+      ]
+    );
+
+    return this.mapClaim(result.rows[0]);
+  }
+
+  async findClaimById(id: UUID): Promise<Claim | null> {
+    const result = await this.pool.query(
+      'SELECT * FROM claims WHERE id = $1',
+      [id]
+    );
+    return result.rows[0] ? this.mapClaim(result.rows[0]) : null;
+  }
+
+  async findClaimByNumber(claimNumber: string): Promise<Claim | null> {
+    const result = await this.pool.query(
+      'SELECT * FROM claims WHERE claim_number = $1',
+      [claimNumber]
+    );
+    return result.rows[0] ? this.mapClaim(result.rows[0]) : null;
+  }
+
+  async searchClaims(filters: ClaimSearchFilters): Promise<Claim[]> {
+    const conditions: string[] = ['1 = 1'];
+    const params: unknown[] = [];
+    let paramCount = 1;
+
+    if (filters.organizationId) {
+      conditions.push(`organization_id = $${paramCount++}`);
+      params.push(filters.organizationId);
+    }
+
+    if (filters.branchId) {
+      conditions.push(`branch_id = $${paramCount++}`);
+      params.push(filters.branchId);
+    }
+
+    if (filters.payerId) {
+      conditions.push(`payer_id = $${paramCount++}`);
+      params.push(filters.payerId);
+    }
+
+    if (filters.clientId) {
+      conditions.push(`client_id = $${paramCount++}`);
+      params.push(filters.clientId);
+    }
+
+    if (filters.status && filters.status.length > 0) {
+      conditions.push(`status = ANY($${paramCount++})`);
+      params.push(filters.status);
+    }
+
+    if (filters.claimType && filters.claimType.length > 0) {
+      conditions.push(`claim_type = ANY($${paramCount++})`);
+      params.push(filters.claimType);
+    }
+
+    if (filters.claimFormat && filters.claimFormat.length > 0) {
+      conditions.push(`claim_format = ANY($${paramCount++})`);
+      params.push(filters.claimFormat);
+    }
+
+    if (filters.startDate) {
+      conditions.push(`submitted_date >= $${paramCount++}`);
+      params.push(filters.startDate);
+    }
+
+    if (filters.endDate) {
+      conditions.push(`submitted_date <= $${paramCount++}`);
+      params.push(filters.endDate);
+    }
+
+    if (filters.submissionBatchId) {
+      conditions.push(`submission_batch_id = $${paramCount++}`);
+      params.push(filters.submissionBatchId);
+    }
+
+    if (filters.isBatched !== undefined) {
+      conditions.push(
+        filters.isBatched
+          ? 'submission_batch_id IS NOT NULL'
+          : 'submission_batch_id IS NULL'
+      );
+    }
+
+    if (filters.isDenied) {
+      conditions.push(`status = 'DENIED'`);
+    }
+
+    if (filters.hasAppeal) {
+      conditions.push('appeal_id IS NOT NULL');
+    }
+
+    const query = `
+      SELECT * FROM claims
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY submitted_date DESC, claim_number
+      LIMIT 1000
+    `;
+
+    const result = await this.pool.query(query, params);
+    return result.rows.map(this.mapClaim);
+  }
+
+  async updateClaimStatus(
+    id: UUID,
+    status: ClaimStatus,
+    statusChange: ClaimStatusChange,
+    updates: ClaimStatusUpdate,
+    userId: UUID,
+    client?: PoolClient
+  ): Promise<void> {
+    const db = client || this.pool;
+    const sets: string[] = [
+      'status = $2',
+      'status_history = status_history || $3::jsonb',
+      'updated_by = $4',
+      'updated_at = NOW()',
+      'version = version + 1',
+    ];
+    const params: unknown[] = [id, status, JSON.stringify([statusChange]), userId];
+    let paramCount = 5;
+
+    const columns: Array<[string, unknown]> = [
+      ['control_number', updates.controlNumber],
+      ['processing_date', updates.processingDate],
+      ['payment_date', updates.paymentDate],
+      ['total_approved', updates.totalApproved],
+      ['total_paid', updates.totalPaid],
+      ['denial_reason', updates.denialReason],
+      ['denial_code', updates.denialCode],
+      ['denial_date', updates.denialDate],
+      ['is_appealable', updates.isAppealable],
+      ['appeal_deadline', updates.appealDeadline],
+      ['total_adjustments', updates.totalAdjustments],
+      ['patient_responsibility', updates.patientResponsibility],
+      ['era_received', updates.eraReceived],
+      ['era_received_date', updates.eraReceivedDate],
+      ['era_document_id', updates.eraDocumentId],
+      ['line_items', updates.lineItems ? JSON.stringify(updates.lineItems) : undefined],
+    ];
+
+    for (const [column, value] of columns) {
+      if (value !== undefined) {
+        sets.push(`${column} = $${paramCount++}`);
+        params.push(value);
+      }
+    }
+
+    if (updates.clearSubmissionBatch) {
+      sets.push('submission_batch_id = NULL');
+    }
+
+    const query = `
+      UPDATE claims
+      SET ${sets.join(', ')}
+      WHERE id = $1
+    `;
+
+    await db.query(query, params);
+  }
+
+  async assignClaimsToBatch(
+    claimIds: UUID[],
+    batchId: UUID,
+    userId: UUID,
+    client?: PoolClient
+  ): Promise<void> {
+    const db = client || this.pool;
+
+    await db.query(
+      `
+      UPDATE claims
+      SET 
+        submission_batch_id = $2,
+        updated_by = $3,
+        updated_at = NOW(),
+        version = version + 1
+      WHERE id = ANY($1)
+      `,
+      [claimIds, batchId, userId]
+    );
+  }
+
+  async linkBillableItemsToClaim(
+    billableItemIds: UUID[],
+    claimId: UUID,
+    submittedDate: Date,
+    userId: UUID,
+    client?: PoolClient
+  ): Promise<void> {
+    const db = client || this.pool;
+
+    await db.query(
+      `
+      UPDATE billable_items
+      SET 
+        claim_id = $2,
+        claim_submitted_date = $3,
+        updated_by = $4,
+        updated_at = NOW()
+      WHERE id = ANY($1)
+      `,
+      [billableItemIds, claimId, submittedDate, userId]
+    );
+  }
+
+  async addInvoiceClaim(
+    invoiceId: UUID,
+    claimId: UUID,
+    claimStatus: ClaimStatus,
+    userId: UUID,
+    client?: PoolClient
+  ): Promise<void> {
+    const db = client || this.pool;
+
+    await db.query(
+      `
+      UPDATE invoices
+      SET 
+        claim_ids = COALESCE(claim_ids, '[]'::jsonb) || $2::jsonb,
+        claim_status = $3,
+        updated_by = $4,
+        updated_at = NOW(),
+        version = version + 1
+      WHERE id = $1
+      `,
+      [invoiceId, JSON.stringify([claimId]), claimStatus, userId]
+    );
+  }
+
+  /**
+   * Reserve the next count interchange control numbers for an organization,
+   * returning the first. The counter row stays locked until the caller's
+   * transaction ends, so concurrent batches never share numbers.
+   */
+  async reserveInterchangeControlNumbers(
+    organizationId: UUID,
+    count: number,
+    client: PoolClient
+  ): Promise<number> {
+    const result = await client.query(
+      `
+      INSERT INTO edi_control_numbers (organization_id, last_control_number)
+      VALUES ($1, $2)
+      ON CONFLICT (organization_id) DO UPDATE
+      SET last_control_number = edi_control_numbers.last_control_number + EXCLUDED.last_control_number,
+          updated_at = NOW()
+      RETURNING last_control_number
+      `,
+      [organizationId, count]
+    );
+    return Number(result.rows[0].last_control_number) - count + 1;
+  }
+
+  /**
+   * ERA REMITTANCE OPERATIONS
+   */
+
+  async createERARemittance(
+    remittance: Omit<ERARemittanceRecord, 'id' | 'importedAt'>,
+    rawContent: string,
+    client?: PoolClient
+  ): Promise<ERARemittanceRecord> {
+    const db = client || this.pool;
+    const id = uuid();
+
+    const result = await db.query(
+      `
+      INSERT INTO era_remittances (
+        id, organization_id, branch_id, payer_id,
+        trace_number, payment_method, payment_amount, payment_date, payment_id,
+        payer_name, payer_identifier, file_name, raw_content,
+        claim_count, matched_claim_count, unmatched_item_count,
+        imported_at, imported_by
+      ) VALUES (
+        $1, $2, $3, $4, $5, $6, $7, $8, $9, $10,
+        $11, $12, $13, $14, $15, $16, NOW(), $17
+      )
+      RETURNING *
+      `,
+      [
+        id,
+        remittance.organizationId,
+        remittance.branchId,
+        remittance.payerId,
+        remittance.traceNumber,
+        remittance.paymentMethod,
+        remittance.paymentAmount,
+        remittance.paymentDate,
+        remittance.paymentId || null,
+        remittance.payerName,
+        remittance.payerIdentifier || null,
+        remittance.fileName || null,
+        rawContent,
+        remittance.claimCount,
+        remittance.matchedClaimCount,
+        remittance.unmatchedItemCount,
+        remittance.importedBy,
+      ]
+    );
+
+    return this.mapERARemittance(result.rows[0]);
+  }
+
+  async findERARemittanceByTrace(
+    organizationId: UUID,
+    payerId: UUID,
+    traceNumber: string
+  ): Promise<ERARemittanceRecord | null> {
+    const result = await this.pool.query(
+      `
+      SELECT * FROM era_remittances
+      WHERE organization_id = $1 AND payer_id = $2 AND trace_number = $3
+      `,
+      [organizationId, payerId, traceNumber]
+    );
+    return result.rows[0] ? this.mapERARemittance(result.rows[0]) : null;
+  }
+
+  async linkERAPayment(
+    remittanceId: UUID,
+    paymentId: UUID,
+    billableItemIds: UUID[],
+    client?: PoolClient
+  ): Promise<void> {
+    const db = client || this.pool;
+    await db.query(
+      'UPDATE era_remittances SET payment_id = $2 WHERE id = $1',
+      [remittanceId, paymentId]
+    );
+
+    if (billableItemIds.length > 0) {
+      await db.query(
+        'UPDATE billable_items SET payment_id = $2, updated_at = NOW() WHERE id = ANY($1)',
+        [billableItemIds, paymentId]
+      );
+    }
+  }
+
+  async recordBillableItemRemittance(
+    id: UUID,
+    paidAmount: number,
+    paidDate: Date,
+    denialCode: string | null,
+    userId: UUID,
+    client?: PoolClient
+  ): Promise<void> {
+    const db = client || this.pool;
+
+    await db.query(
+      `
+      UPDATE billable_items
+      SET 
+        is_paid = $2 > 0,
+        paid_amount = $2,
+        paid_date = $3,
+        is_denied = $4::text IS NOT NULL,
+        denial_code = $4,
+        denial_date = CASE WHEN $4::text IS NOT NULL THEN $3 ELSE denial_date END,
+        updated_by = $5,
+        updated_at = NOW()
+      WHERE id = $1
+      `,
+      [id, paidAmount, paidDate, denialCode, userId]
+    );
+  }
+
+  async createReconciliationItem(
+    item: Omit<ERAReconciliationItem, 'id' | 'status' | 'createdAt' | 'updatedAt'>,
+    client?: PoolClient
+  ): Promise<ERAReconciliationItem> {
+    const db = client || this.pool;
+    const id = uuid();
+
+    const result = await db.query(
+      `
+      INSERT INTO era_reconciliation_items (
+        id, organization_id, remittance_id, claim_id,
+        patient_control_number, payer_claim_control_number,
+        procedure_code, modifiers, service_date,
+        charge_amount, paid_amount, adjustments, remark_codes,
+        reason, description, status
+      ) VALUES (
+        $1, $2, $3, $4, $5, $6, $7, $8, $9, $10,
+        $11, $12, $13, $14, $15, 'OPEN'
+      )
+      RETURNING *
+      `,
+      [
+        id,
+        item.organizationId,
+        item.remittanceId,
+        item.claimId || null,
+        item.patientControlNumber,
+        item.payerClaimControlNumber || null,
+        item.procedureCode || null,
+        item.modifiers ? JSON.stringify(item.modifiers) : null,
+        item.serviceDate || null,
+        item.chargeAmount,
+        item.paidAmount,
+        JSON.stringify(item.adjustments),
+        JSON.stringify(item.remarkCodes),
+        item.reason,
+        item.description,
+      ]
+    );
+
+    return this.mapReconciliationItem(result.rows[0]);
+  }
+
+  async findReconciliationItemById(id: UUID): Promise<ERAReconciliationItem | null> {
+    const result = await this.pool.query(
+      'SELECT * FROM era_reconciliation_items WHERE id = $1',
+      [id]
+    );
+    return result.rows[0] ? this.mapReconciliationItem(result.rows[0]) : null;
+  }
+
+  async searchReconciliationItems(
+    organizationId: UUID,
+    status?: ERAReconciliationStatus[],
+    remittanceId?: UUID
+  ): Promise<ERAReconciliationItem[]> {
+    const conditions: string[] = ['organization_id = $1'];
+    const params: unknown[] = [organizationId];
+    let paramCount = 2;
+
+    if (status && status.length > 0) {
+      conditions.push(`status = ANY($${paramCount++})`);
+      params.push(status);
+    }
+
+    if (remittanceId) {
+      conditions.push(`remittance_id = $${paramCount++}`);
+      params.push(remittanceId);
+    }
+
+    const query = `
+      SELECT * FROM era_reconciliation_items
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY created_at
+      LIMIT 1000
+    `;
+
+    const result = await this.pool.query(query, params);
+    return result.rows.map(this.mapReconciliationItem);
+  }
+
+  async updateReconciliationItemStatus(
+    id: UUID,
+    status: ERAReconciliationStatus,
+    userId: UUID,
+    notes?: string
+  ): Promise<void> {
+    await this.pool.query(
+      `
+      UPDATE era_reconciliation_items
+      SET 
+        status = $2,
+        resolved_by = $3,
+        resolved_at = NOW(),
+        resolution_notes = $4
+      WHERE id = $1
+      `,
+      [id, status, userId, notes || null]
+    );
+  }
+
+  /**
+   * Attending physician for an institutional claim: the client's primary physician
+   */
+  async findClaimAttendingProvider(clientId: UUID): Promise<EDI837AttendingProvider | null> {
+    const result = await this.pool.query(
+      'SELECT primary_physician FROM clients WHERE id = $1 AND deleted_at IS NULL',
+      [clientId]
+    );
+
+    const physician = result.rows[0]?.primary_physician;
+    if (!physician?.name || !physician.npi) {
+      return null;
+    }
+    return { name: physician.name, npi: physician.npi };
+  }
+
+  /**
+   * Subscriber demographics for 837 loop 2010BA, read from the client record
+   */
+  async findClaimSubscriber(
+    clientId: UUID,
+    payerType: PayerType
+  ): Promise<EDI837Subscriber | null> {
+    const result = await this.pool.query(
+      `
+      SELECT first_name, middle_name, last_name, date_of_birth, gender,
+        primary_address, service_eligibility
+      FROM clients
+      WHERE id = $1 AND deleted_at IS NULL
+      `,
+      [clientId]
+    );
+
+    const row = result.rows[0];
+    if (!row) {
+      return null;
+    }
+
+    const eligibility = row.service_eligibility || {};
+    const memberId =
+      payerType === 'MEDICARE' || payerType === 'MEDICARE_ADVANTAGE'
+        ? eligibility.medicareNumber
+        : eligibility.medicaidNumber;
+
+    return {
+      memberId: memberId || '',
+      firstName: row.first_name,
+      lastName: row.last_name,
+      ...(row.middle_name ? { middleName: row.middle_name } : {}),
+      dateOfBirth: new Date(row.date_of_birth),
+      gender: row.gender === 'MALE' ? 'M' : row.gender === 'FEMALE' ? 'F' : 'U',
+      address: {
+        line1: row.primary_address.line1,
+        ...(row.primary_address.line2 ? { line2: row.primary_address.line2 } : {}),
+        city: row.primary_address.city,
+        state: row.primary_address.state,
+        postalCode: row.primary_address.postalCode,
+        country: row.primary_address.country,
+      },
+    };
+  }
+
   /**
    * MAPPING FUNCTIONS
    * Note: Using 'any' for database rows is acceptable as they come from third-party pg library
@@ -1210,4 +1845,109 @@ export class BillingRepository {
       version: row.version,
     };
   }
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private mapClaim(row: any): Claim {
+    return {
+      id: row.id,
+      organizationId: row.organization_id,
+      branchId: row.branch_id,
+      claimNumber: row.claim_number,
+      claimType: row.claim_type,
+      claimFormat: row.claim_format,
+      payerId: row.payer_id,
+      payerType: row.payer_type,
+      payerName: row.payer_name,
+      clientId: row.client_id,
+      clientName: row.client_name,
+      invoiceId: row.invoice_id,
+      invoiceNumber: row.invoice_number,
+      billableItemIds: row.billable_item_ids,
+      lineItems: row.line_items,
+      totalCharges: parseFloat(row.total_charges),
+      ...(row.total_approved ? { totalApproved: parseFloat(row.total_approved) } : {}),
+      ...(row.total_paid ? { totalPaid: parseFloat(row.total_paid) } : {}),
+      ...(row.total_adjustments ? { totalAdjustments: parseFloat(row.total_adjustments) } : {}),
+      ...(row.patient_responsibility ? { patientResponsibility: parseFloat(row.patient_responsibility) } : {}),
+      submittedDate: row.submitted_date,
+      submittedBy: row.submitted_by,
+      submissionMethod: row.submission_method,
+      submissionBatchId: row.submission_batch_id,
+      controlNumber: row.control_number,
+      status: row.status,
+      statusHistory: row.status_history,
+      processingDate: row.processing_date,
+      paymentDate: row.payment_date,
+      denialReason: row.denial_reason,
+      denialCode: row.denial_code,
+      denialDate: row.denial_date,
+      isAppealable: row.is_appealable,
+      appealDeadline: row.appeal_deadline,
+      appealId: row.appeal_id,
+      appealSubmittedDate: row.appeal_submitted_date,
+      appealStatus: row.appeal_status,
+      eraReceived: row.era_received,
+      eraReceivedDate: row.era_received_date,
+      eraDocumentId: row.era_document_id,
+      claimFormUrl: row.claim_form_url,
+      supportingDocumentIds: row.supporting_document_ids,
+      notes: row.notes,
+      internalNotes: row.internal_notes,
+      createdAt: row.created_at,
+      createdBy: row.created_by,
+      updatedAt: row.updated_at,
+      updatedBy: row.updated_by,
+      version: row.version,
+    };
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private mapERARemittance(row: any): ERARemittanceRecord {
+    return {
+      id: row.id,
+      organizationId: row.organization_id,
+      branchId: row.branch_id,
+      payerId: row.payer_id,
+      traceNumber: row.trace_number,
+      paymentMethod: row.payment_method,
+      paymentAmount: parseFloat(row.payment_amount),
+      paymentDate: row.payment_date,
+      paymentId: row.payment_id,
+      payerName: row.payer_name,
+      payerIdentifier: row.payer_identifier,
+      fileName: row.file_name,
+      claimCount: row.claim_count,
+      matchedClaimCount: row.matched_claim_count,
+      unmatchedItemCount: row.unmatched_item_count,
+      importedAt: row.imported_at,
+      importedBy: row.imported_by,
+    };
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private mapReconciliationItem(row: any): ERAReconciliationItem {
+    return {
+      id: row.id,
+      organizationId: row.organization_id,
+      remittanceId: row.remittance_id,
+      claimId: row.claim_id,
+      patientControlNumber: row.patient_control_number,
+      payerClaimControlNumber: row.payer_claim_control_number,
+      procedureCode: row.procedure_code,
+      modifiers: row.modifiers,
+      serviceDate: row.service_date,
+      chargeAmount: parseFloat(row.charge_amount),
+      paidAmount: parseFloat(row.paid_amount),
+      adjustments: row.adjustments,
+      remarkCodes: row.remark_codes,
+      reason: row.reason,
+      description: row.description,
+      status: row.status,
+      resolvedBy: row.resolved_by,
+      resolvedAt: row.resolved_at,
+      resolutionNotes: row.resolution_notes,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
 }
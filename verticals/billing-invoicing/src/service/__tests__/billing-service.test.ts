@@ -19,7 +19,11 @@ import {
   RateSchedule,
   ServiceAuthorization,
   Payer,
+  Claim,
+  SubmitClaimInput,
+  GenerateClaimBatchInput,
 } from '../../types/billing';
+import { writeFile } from 'node:fs/promises';
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 
 // Mock the repository
@@ -27,6 +31,10 @@ vi.mock('../../repository/billing-repository');
 vi.mock('uuid', () => ({
   v4: vi.fn(() => 'test-uuid-123'),
 }));
+vi.mock('node:fs/promises', () => ({
+  mkdir: vi.fn().mockResolvedValue(undefined),
+  writeFile: vi.fn().mockResolvedValue(undefined),
+}));
 
 describe('BillingService Integration Tests', () => {
   let service: BillingService;
@@ -933,4 +941,760 @@ describe('BillingService Integration Tests', () => {
       ).rejects.toThrow('Cannot approve item in PAID status');
     });
   });
+
+  describe('claims', () => {
+    const buildItem = (overrides: Partial<BillableItem> = {}): BillableItem => ({
+      id: 'item-1' as any,
+      organizationId: 'org-123' as any,
+      branchId: 'branch-123' as any,
+      clientId: 'client-123' as any,
+      serviceTypeId: 'service-123' as any,
+      serviceTypeCode: 'T1019',
+      serviceTypeName: 'Personal Care',
+      serviceDate: new Date(),
+      durationMinutes: 60,
+      caregiverName: 'Jamie Rivera',
+      providerNPI: '1234567893',
+      unitType: 'UNIT',
+      units: 4,
+      unitRate: 5.25,
+      subtotal: 21,
+      finalAmount: 21,
+      modifiers: [{ code: 'U1', description: 'Waiver' }],
+      authorizationNumber: 'AUTH-1',
+      isAuthorized: true,
+      payerId: 'payer-123' as any,
+      payerType: 'MEDICAID',
+      payerName: 'State Medicaid',
+      status: 'INVOICED',
+      statusHistory: [],
+      invoiceId: 'invoice-123' as any,
+      isHold: false,
+      requiresReview: false,
+      isDenied: false,
+      isAppealable: false,
+      isPaid: false,
+      createdAt: new Date(),
+      createdBy: 'user-123' as any,
+      updatedAt: new Date(),
+      updatedBy: 'user-123' as any,
+      version: 1,
+      deletedAt: null,
+      deletedBy: null,
+      ...overrides,
+    });
+
+    const mockInvoice: Invoice = {
+      id: 'invoice-123' as any,
+      organizationId: 'org-123' as any,
+      branchId: 'branch-123' as any,
+      invoiceNumber: 'INV-ORG-2024-000001',
+      invoiceType: 'STANDARD',
+      payerId: 'payer-123' as any,
+      payerType: 'MEDICAID',
+      payerName: 'State Medicaid',
+      periodStart: new Date('2024-01-01'),
+      periodEnd: new Date('2024-01-31'),
+      invoiceDate: new Date('2024-02-01'),
+      dueDate: new Date('2024-03-02'),
+      billableItemIds: ['item-1' as any, 'item-2' as any, 'item-3' as any],
+      lineItems: [],
+      subtotal: 63,
+      taxAmount: 0,
+      discountAmount: 0,
+      adjustmentAmount: 0,
+      totalAmount: 63,
+      paidAmount: 0,
+      balanceDue: 63,
+      status: 'SENT',
+      statusHistory: [],
+      payments: [],
+      createdAt: new Date(),
+      createdBy: 'user-123' as any,
+      updatedAt: new Date(),
+      updatedBy: 'user-123' as any,
+      version: 1,
+      deletedAt: null,
+      deletedBy: null,
+    };
+
+    const mockPayer: Payer = {
+      id: 'payer-123' as any,
+      organizationId: 'org-123' as any,
+      payerName: 'State Medicaid',
+      payerType: 'MEDICAID',
+      ediPayerId: 'SKTX0',
+      paymentTermsDays: 30,
+      requiresPreAuthorization: true,
+      requiresReferral: false,
+      claimFilingLimit: 95,
+      status: 'ACTIVE',
+      createdAt: new Date(),
+      createdBy: 'admin' as any,
+      updatedAt: new Date(),
+      updatedBy: 'admin' as any,
+      version: 1,
+      deletedAt: null,
+      deletedBy: null,
+    };
+
+    const mockSubscriber = {
+      memberId: '123456789',
+      firstName: 'Ada',
+      lastName: 'Lovelace',
+      dateOfBirth: new Date('1940-05-01T12:00:00'),
+      gender: 'F',
+      address: {
+        line1: '1 Main St',
+        city: 'Austin',
+        state: 'TX',
+        postalCode: '78701',
+        country: 'US',
+      },
+    };
+
+    const submitInput: SubmitClaimInput = {
+      organizationId: 'org-123' as any,
+      branchId: 'branch-123' as any,
+      invoiceId: 'invoice-123' as any,
+      claimType: 'PROFESSIONAL',
+      claimFormat: 'EDI_837P',
+      submissionMethod: 'CLEARINGHOUSE',
+      diagnosisCodes: ['R26.81'],
+    };
+
+    const buildClaim = (overrides: Partial<Claim> = {}): Claim => ({
+      id: 'claim-1' as any,
+      organizationId: 'org-123' as any,
+      branchId: 'branch-123' as any,
+      claimNumber: 'CLM-ORG-2024-000001',
+      claimType: 'PROFESSIONAL',
+      claimFormat: 'EDI_837P',
+      payerId: 'payer-123' as any,
+      payerType: 'MEDICAID',
+      payerName: 'State Medicaid',
+      clientId: 'client-123' as any,
+      clientName: 'Ada Lovelace',
+      invoiceId: 'invoice-123' as any,
+      invoiceNumber: 'INV-ORG-2024-000001',
+      billableItemIds: ['item-1' as any],
+      lineItems: [
+        {
+          id: 'line-1' as any,
+          billableItemId: 'item-1' as any,
+          lineNumber: 1,
+          serviceDate: new Date('2024-01-15T12:00:00'),
+          serviceCode: 'T1019',
+          serviceDescription: 'Personal Care',
+          placeOfService: '12',
+          providerNPI: '1234567893',
+          providerName: 'Jamie Rivera',
+          unitType: 'UNIT',
+          units: 4,
+          chargeAmount: 21,
+          diagnosisCodes: ['R26.81'],
+          lineStatus: 'PENDING',
+        },
+      ],
+      totalCharges: 21,
+      submittedDate: new Date(),
+      submittedBy: 'user-123' as any,
+      submissionMethod: 'CLEARINGHOUSE',
+      status: 'PENDING',
+      statusHistory: [],
+      isAppealable: false,
+      eraReceived: false,
+      createdAt: new Date(),
+      createdBy: 'user-123' as any,
+      updatedAt: new Date(),
+      updatedBy: 'user-123' as any,
+      version: 1,
+      ...overrides,
+    });
+
+    const batchInput: GenerateClaimBatchInput = {
+      organizationId: 'org-123' as any,
+      submitter: { name: 'Care Commons Home Health', identifier: 'SUB123', contactName: 'Billing Office' },
+      receiver: { name: 'Clearinghouse', identifier: 'RCV456' },
+      billingProvider: {
+        name: 'Care Commons Home Health',
+        npi: '1999999984',
+        taxId: '12-3456789',
+        address: { line1: '100 Provider Way', city: 'Austin', state: 'TX', postalCode: '78701', country: 'US' },
+      },
+    };
+
+    beforeEach(() => {
+      (mockClient.query as any).mockImplementation((sql: string) => {
+        if (typeof sql === 'string' && sql.includes('COUNT')) {
+          return Promise.resolve({ rows: [{ count: '4' }] });
+        }
+        return Promise.resolve({ rows: [] });
+      });
+    });
+
+    it('should create one claim per client and mark items submitted', async () => {
+      mockRepository.findInvoiceById.mockResolvedValue(mockInvoice);
+      mockRepository.findPayerById.mockResolvedValue(mockPayer);
+      mockRepository.searchBillableItems.mockResolvedValue([
+        buildItem({ id: 'item-1' as any }),
+        buildItem({ id: 'item-2' as any }),
+        buildItem({ id: 'item-3' as any, clientId: 'client-456' as any }),
+      ]);
+      mockRepository.findClaimSubscriber.mockResolvedValue(mockSubscriber);
+      mockRepository.createClaim.mockImplementation(async (claim: Claim) => ({
+        ...claim,
+        id: `claim-${claim.clientId}`,
+      }));
+
+      const claims = await service.submitClaims(
+        {
+          ...submitInput,
+          diagnosisCodes: undefined,
+          diagnosisCodesByClient: { 'client-123': ['R26.81'], 'client-456': ['G30.9', 'R26.81'] },
+        },
+        'user-123' as any,
+        'ORG'
+      );
+
+      expect(claims).toHaveLength(2);
+      expect(claims[0]!.claimNumber).toBe(`CLM-ORG-${new Date().getFullYear()}-000005`);
+      expect(claims[1]!.claimNumber).toBe(`CLM-ORG-${new Date().getFullYear()}-000006`);
+      expect(claims[0]!.totalCharges).toBe(42);
+      expect(claims[0]!.lineItems.map((line) => line.lineNumber)).toEqual([1, 2]);
+      expect(claims[0]!.lineItems[0]).toMatchObject({
+        placeOfService: '12',
+        authorizationNumber: 'AUTH-1',
+        diagnosisCodes: ['R26.81'],
+      });
+      expect(claims[1]!.lineItems[0]!.diagnosisCodes).toEqual(['G30.9', 'R26.81']);
+      expect(claims[0]!.statusHistory[0]).toMatchObject({ fromStatus: null, toStatus: 'PENDING' });
+      expect(mockRepository.updateBillableItemStatus).toHaveBeenCalledTimes(3);
+      expect(mockRepository.updateBillableItemStatus).toHaveBeenCalledWith(
+        'item-3',
+        'SUBMITTED',
+        expect.objectContaining({ fromStatus: 'INVOICED', toStatus: 'SUBMITTED' }),
+        'user-123',
+        mockClient
+      );
+      expect(mockRepository.addInvoiceClaim).toHaveBeenCalledTimes(2);
+      expect(mockClient.query).toHaveBeenCalledWith('COMMIT');
+    });
+
+    it('should not copy invoice-wide diagnosis codes to every client', async () => {
+      mockRepository.findInvoiceById.mockResolvedValue(mockInvoice);
+      mockRepository.findPayerById.mockResolvedValue(mockPayer);
+      mockRepository.searchBillableItems.mockResolvedValue([
+        buildItem({ id: 'item-1' as any }),
+        buildItem({ id: 'item-3' as any, clientId: 'client-456' as any }),
+      ]);
+
+      await expect(
+        service.submitClaims(submitInput, 'user-123' as any, 'ORG')
+      ).rejects.toThrow('Invoice covers 2 clients; diagnosis codes must be given per client');
+      await expect(
+        service.submitClaims(
+          { ...submitInput, diagnosisCodes: undefined, diagnosisCodesByClient: { 'client-123': ['R26.81'] } },
+          'user-123' as any,
+          'ORG'
+        )
+      ).rejects.toThrow('No diagnosis codes for clients client-456');
+      expect(mockRepository.createClaim).not.toHaveBeenCalled();
+    });
+
+    it('should reject items past the payer claim filing limit', async () => {
+      const stale = new Date();
+      stale.setDate(stale.getDate() - 120);
+      mockRepository.findInvoiceById.mockResolvedValue(mockInvoice);
+      mockRepository.findPayerById.mockResolvedValue(mockPayer);
+      mockRepository.searchBillableItems.mockResolvedValue([buildItem({ serviceDate: stale })]);
+
+      await expect(
+        service.submitClaims(submitInput, 'user-123' as any, 'ORG')
+      ).rejects.toThrow('95-day claim filing limit');
+      expect(mockRepository.createClaim).not.toHaveBeenCalled();
+    });
+
+    it('should reject invoices with no items awaiting a claim', async () => {
+      mockRepository.findInvoiceById.mockResolvedValue(mockInvoice);
+      mockRepository.findPayerById.mockResolvedValue(mockPayer);
+      mockRepository.searchBillableItems.mockResolvedValue([
+        buildItem({ claimId: 'claim-9' as any }),
+        buildItem({ id: 'item-2' as any, status: 'READY' }),
+      ]);
+
+      await expect(
+        service.submitClaims(submitInput, 'user-123' as any, 'ORG')
+      ).rejects.toThrow('No billable items on invoice are ready for claim submission');
+    });
+
+    it('should batch unbatched EDI claims by payer and write the interchange', async () => {
+      mockRepository.searchClaims.mockResolvedValue([
+        buildClaim(),
+        buildClaim({ id: 'claim-2' as any, claimNumber: 'CLM-ORG-2024-000002' }),
+      ]);
+      mockRepository.reserveInterchangeControlNumbers.mockResolvedValue(8);
+      mockRepository.findPayerById.mockResolvedValue(mockPayer);
+      mockRepository.findClaimSubscriber.mockResolvedValue(mockSubscriber);
+
+      const batches = await service.generateClaimBatches(
+        { ...batchInput, outputDirectory: 'exports/claims' },
+        'user-123' as any
+      );
+
+      expect(mockRepository.searchClaims).toHaveBeenCalledWith(
+        expect.objectContaining({ status: ['PENDING', 'RESUBMITTED'], isBatched: false })
+      );
+      expect(batches).toHaveLength(1);
+      expect(mockRepository.reserveInterchangeControlNumbers).toHaveBeenCalledWith('org-123', 1, mockClient);
+      expect(batches[0]!.interchangeControlNumber).toBe('000000008');
+      expect(batches[0]!.totalCharges).toBe(42);
+      expect(batches[0]!.content).toContain('NM1*PR*2*STATE MEDICAID*****PI*SKTX0~');
+      expect(batches[0]!.filePath).toBe('exports/claims/837P_SKTX0_000000008.x12');
+      expect(writeFile).toHaveBeenCalledWith(batches[0]!.filePath, batches[0]!.content, 'utf8');
+      expect(mockRepository.assignClaimsToBatch).toHaveBeenCalledWith(
+        ['claim-1', 'claim-2'],
+        'test-uuid-123',
+        'user-123',
+        mockClient
+      );
+    });
+
+    it('should roll back the batch when a subscriber has no member ID', async () => {
+      mockRepository.searchClaims.mockResolvedValue([buildClaim()]);
+      mockRepository.reserveInterchangeControlNumbers.mockResolvedValue(1);
+      mockRepository.findPayerById.mockResolvedValue(mockPayer);
+      mockRepository.findClaimSubscriber.mockResolvedValue({ ...mockSubscriber, memberId: '' });
+
+      await expect(
+        service.generateClaimBatches(batchInput, 'user-123' as any)
+      ).rejects.toThrow('has no subscriber member ID');
+      expect(mockClient.query).toHaveBeenCalledWith('ROLLBACK');
+      expect(mockRepository.assignClaimsToBatch).not.toHaveBeenCalled();
+    });
+
+    it('should require an attending physician on institutional claims', async () => {
+      mockRepository.searchClaims.mockResolvedValue([
+        buildClaim({ claimType: 'INSTITUTIONAL', claimFormat: 'EDI_837I' }),
+      ]);
+      mockRepository.reserveInterchangeControlNumbers.mockResolvedValue(1);
+      mockRepository.findPayerById.mockResolvedValue(mockPayer);
+      mockRepository.findClaimSubscriber.mockResolvedValue(mockSubscriber);
+      mockRepository.findClaimAttendingProvider.mockResolvedValue(null);
+
+      await expect(
+        service.generateClaimBatches(batchInput, 'user-123' as any)
+      ).rejects.toThrow('has no attending physician with an NPI');
+      expect(mockClient.query).toHaveBeenCalledWith('ROLLBACK');
+    });
+
+    it('should reject explicitly requested claims that were already batched', async () => {
+      mockRepository.findClaimById.mockResolvedValue(
+        buildClaim({ submissionBatchId: 'batch-1' as any })
+      );
+
+      await expect(
+        service.generateClaimBatches({ ...batchInput, claimIds: ['claim-1' as any] }, 'user-123' as any)
+      ).rejects.toThrow('is already in batch batch-1');
+    });
+
+    it('should record denial details and deny the billable items', async () => {
+      mockRepository.findClaimById.mockResolvedValue(buildClaim({ status: 'ACCEPTED' }));
+
+      await service.updateClaimStatus(
+        'claim-1' as any,
+        { status: 'DENIED', denialCode: 'CO-197', denialReason: 'Authorization absent' },
+        'user-123' as any
+      );
+
+      expect(mockRepository.updateClaimStatus).toHaveBeenCalledWith(
+        'claim-1',
+        'DENIED',
+        expect.objectContaining({ fromStatus: 'ACCEPTED', toStatus: 'DENIED', automatic: false }),
+        expect.objectContaining({ denialCode: 'CO-197', isAppealable: true }),
+        'user-123',
+        mockClient
+      );
+      expect(mockRepository.updateBillableItemStatus).toHaveBeenCalledWith(
+        'item-1',
+        'DENIED',
+        expect.objectContaining({ fromStatus: 'SUBMITTED', toStatus: 'DENIED' }),
+        'user-123',
+        mockClient
+      );
+    });
+
+    it('should clear the batch when a rejected claim is resubmitted', async () => {
+      mockRepository.findClaimById.mockResolvedValue(
+        buildClaim({ status: 'REJECTED', submissionBatchId: 'batch-1' as any })
+      );
+
+      await service.updateClaimStatus('claim-1' as any, { status: 'RESUBMITTED' }, 'user-123' as any);
+
+      expect(mockRepository.updateClaimStatus).toHaveBeenCalledWith(
+        'claim-1',
+        'RESUBMITTED',
+        expect.anything(),
+        { clearSubmissionBatch: true },
+        'user-123',
+        mockClient
+      );
+      expect(mockRepository.updateBillableItemStatus).not.toHaveBeenCalled();
+    });
+
+    it('should reject invalid claim status transitions', async () => {
+      mockRepository.findClaimById.mockResolvedValue(buildClaim({ status: 'APPROVED' }));
+
+      await expect(
+        service.updateClaimStatus('claim-1' as any, { status: 'DENIED' }, 'user-123' as any)
+      ).rejects.toThrow('Invalid status transition from APPROVED to DENIED');
+    });
+
+    describe('importERA', () => {
+      const eraInput = {
+        organizationId: 'org-123' as any,
+        branchId: 'branch-123' as any,
+        fileName: 'remit.835',
+      };
+
+      const build835 = (paymentAmount: number, claims: string[]): string =>
+        [
+          'ST*835*0001',
+          `BPR*I*${paymentAmount}*C*ACH*CCP*01*999999999*DA*123456*1512345678**01*888888888*DA*654321*20240301`,
+          'TRN*1*EFT-0001*1512345678',
+          'N1*PR*TEXAS MEDICAID',
+          'REF*2U*SKTX0',
+          ...claims,
+          'SE*10*0001',
+        ].join('~');
+
+      const mockPayment = (amount: number): Payment =>
+        ({
+          id: 'payment-1' as any,
+          amount,
+          unappliedAmount: amount,
+          paymentDate: new Date(2024, 2, 1),
+        }) as Payment;
+
+      const createRemittance = (record: any): Promise<any> =>
+        Promise.resolve({ ...record, id: 'era-1', importedAt: new Date() });
+      const createReconciliationItem = (item: any): Promise<any> =>
+        Promise.resolve({ ...item, id: 'recon-1', status: 'OPEN' });
+
+      beforeEach(() => {
+        mockPool.query.mockResolvedValue({ rows: [{ count: '0' }] });
+        mockClient.query.mockResolvedValue({ rows: [{ count: '0' }] });
+        mockRepository.findPayersByOrganization.mockResolvedValue([mockPayer]);
+        mockRepository.findERARemittanceByTrace.mockResolvedValue(null);
+        mockRepository.createERARemittance.mockImplementation(createRemittance);
+        mockRepository.createReconciliationItem.mockImplementation(createReconciliationItem);
+        mockRepository.findInvoiceById.mockResolvedValue(mockInvoice);
+      });
+
+      it('should post paid lines, create the payment and allocate it to the invoice', async () => {
+        mockRepository.findClaimByNumber.mockResolvedValue(buildClaim({ status: 'ACCEPTED' }));
+        mockRepository.createPayment.mockResolvedValue(mockPayment(18));
+        mockRepository.findPaymentById.mockResolvedValue(mockPayment(18));
+
+        const [result] = await service.importERA(
+          {
+            ...eraInput,
+            content: build835(18, [
+              'CLP*CLM-ORG-2024-000001*1*21*18*0*MC*PAYER-ICN-1',
+              'SVC*HC:T1019*21*18**4',
+              'DTM*472*20240115',
+              'CAS*CO*45*3',
+              'REF*6R*LINE-1',
+            ]),
+          },
+          'user-123' as any,
+          'ORG'
+        );
+
+        expect(mockRepository.updateClaimStatus).toHaveBeenCalledWith(
+          'claim-1',
+          'APPROVED',
+          expect.objectContaining({ fromStatus: 'ACCEPTED', automatic: true }),
+          expect.objectContaining({
+            totalPaid: 18,
+            totalAdjustments: 3,
+            controlNumber: 'PAYER-ICN-1',
+            eraReceived: true,
+            eraDocumentId: 'era-1',
+            lineItems: [
+              expect.objectContaining({
+                id: 'line-1',
+                paidAmount: 18,
+                approvedAmount: 18,
+                adjustmentAmount: 3,
+                lineStatus: 'ADJUSTED',
+                adjustments: [{ groupCode: 'CO', reasonCode: '45', amount: 3 }],
+              }),
+            ],
+          }),
+          'user-123',
+          mockClient
+        );
+        expect(mockRepository.updateBillableItemStatus).toHaveBeenCalledWith(
+          'item-1',
+          'PARTIAL_PAID',
+          expect.objectContaining({ fromStatus: 'SUBMITTED', toStatus: 'PARTIAL_PAID' }),
+          'user-123',
+          mockClient
+        );
+        expect(mockRepository.createPayment).toHaveBeenCalledWith(
+          expect.objectContaining({
+            payerId: 'payer-123',
+            amount: 18,
+            paymentMethod: 'ACH',
+            referenceNumber: 'EFT-0001',
+          }),
+          mockClient
+        );
+        expect(mockRepository.allocatePayment).toHaveBeenCalledWith(
+          'payment-1',
+          expect.objectContaining({ invoiceId: 'invoice-123', amount: 18 }),
+          'user-123',
+          mockClient
+        );
+        expect(mockRepository.linkERAPayment).toHaveBeenCalledWith(
+          'era-1',
+          'payment-1',
+          ['item-1'],
+          mockClient
+        );
+        expect(mockClient.query).toHaveBeenCalledTimes(3);
+        expect(mockClient.query).toHaveBeenLastCalledWith('COMMIT');
+        expect(result!.postedClaimIds).toEqual(['claim-1']);
+        expect(result!.reconciliationItems).toHaveLength(0);
+      });
+
+      it('should roll back the claim postings when the payment cannot be linked', async () => {
+        mockRepository.findClaimByNumber.mockResolvedValue(buildClaim({ status: 'ACCEPTED' }));
+        mockRepository.createPayment.mockResolvedValue(mockPayment(18));
+        mockRepository.findPaymentById.mockResolvedValue(mockPayment(18));
+        mockRepository.linkERAPayment.mockRejectedValue(new Error('connection reset'));
+
+        await expect(
+          service.importERA(
+            {
+              ...eraInput,
+              content: build835(18, [
+                'CLP*CLM-ORG-2024-000001*1*21*18*0*MC*PAYER-ICN-1',
+                'SVC*HC:T1019*21*18**4',
+                'REF*6R*LINE-1',
+              ]),
+            },
+            'user-123' as any,
+            'ORG'
+          )
+        ).rejects.toThrow('connection reset');
+
+        expect(mockClient.query).toHaveBeenCalledWith('ROLLBACK');
+        expect(mockClient.query).not.toHaveBeenCalledWith('COMMIT');
+      });
+
+      it('should flag CARC and RARC codes on denied lines', async () => {
+        mockRepository.findClaimByNumber.mockResolvedValue(buildClaim({ status: 'ACCEPTED' }));
+
+        const [result] = await service.importERA(
+          {
+            ...eraInput,
+            content: build835(0, [
+              'CLP*CLM-ORG-2024-000001*4*21*0*0*MC',
+              'SVC*HC:T1019*21*0**4',
+              'DTM*472*20240115',
+              'CAS*CO*197*21',
+              'LQ*HE*N54',
+            ]),
+          },
+          'user-123' as any,
+          'ORG'
+        );
+
+        expect(mockRepository.updateClaimStatus).toHaveBeenCalledWith(
+          'claim-1',
+          'DENIED',
+          expect.anything(),
+          expect.objectContaining({
+            denialCode: 'CO-197',
+            isAppealable: true,
+            lineItems: [
+              expect.objectContaining({
+                lineStatus: 'DENIED',
+                denialCode: 'CO-197',
+                denialReason: 'Remark codes: N54',
+                remarkCodes: ['N54'],
+              }),
+            ],
+          }),
+          'user-123',
+          mockClient
+        );
+        expect(mockRepository.recordBillableItemRemittance).toHaveBeenCalledWith(
+          'item-1',
+          0,
+          new Date(2024, 2, 1),
+          'CO-197',
+          'user-123',
+          mockClient
+        );
+        expect(mockRepository.createPayment).not.toHaveBeenCalled();
+        expect(result!.payment).toBeUndefined();
+      });
+
+      it('should deny unpaid claims the payer adjusted away without a denial status', async () => {
+        mockRepository.findClaimByNumber.mockResolvedValue(buildClaim({ status: 'ACCEPTED' }));
+
+        await service.importERA(
+          {
+            ...eraInput,
+            content: build835(0, [
+              'CLP*CLM-ORG-2024-000001*1*21*0*0*MC',
+              'SVC*HC:T1019*21*0**4',
+              'CAS*CO*29*21',
+              'REF*6R*LINE-1',
+            ]),
+          },
+          'user-123' as any,
+          'ORG'
+        );
+
+        expect(mockRepository.updateClaimStatus).toHaveBeenCalledWith(
+          'claim-1',
+          'DENIED',
+          expect.anything(),
+          expect.objectContaining({
+            denialCode: 'CO-29',
+            lineItems: [expect.objectContaining({ lineStatus: 'DENIED', denialCode: 'CO-29' })],
+          }),
+          'user-123',
+          mockClient
+        );
+      });
+
+      it('should keep the patient balance on a $0 payment that is all patient responsibility', async () => {
+        mockRepository.findClaimByNumber.mockResolvedValue(buildClaim({ status: 'ACCEPTED' }));
+
+        const [result] = await service.importERA(
+          {
+            ...eraInput,
+            content: build835(0, [
+              'CLP*CLM-ORG-2024-000001*1*21*0*21*MC',
+              'SVC*HC:T1019*21*0**4',
+              'CAS*PR*1*21',
+              'REF*6R*LINE-1',
+            ]),
+          },
+          'user-123' as any,
+          'ORG'
+        );
+
+        expect(mockRepository.updateClaimStatus).toHaveBeenCalledWith(
+          'claim-1',
+          'APPROVED',
+          expect.anything(),
+          expect.objectContaining({
+            totalPaid: 0,
+            totalApproved: 21,
+            patientResponsibility: 21,
+            lineItems: [
+              expect.objectContaining({ paidAmount: 0, approvedAmount: 21, lineStatus: 'ADJUSTED' }),
+            ],
+          }),
+          'user-123',
+          mockClient
+        );
+        const [, , , details] = mockRepository.updateClaimStatus.mock.calls[0]!;
+        expect(details).not.toHaveProperty('denialCode');
+        expect(details.lineItems[0]).not.toHaveProperty('denialCode');
+        expect(mockRepository.recordBillableItemRemittance).toHaveBeenCalledWith(
+          'item-1',
+          0,
+          new Date(2024, 2, 1),
+          null,
+          'user-123',
+          mockClient
+        );
+        expect(mockRepository.updateBillableItemStatus).toHaveBeenCalledWith(
+          'item-1',
+          'PARTIAL_PAID',
+          expect.anything(),
+          'user-123',
+          mockClient
+        );
+        expect(result!.payment).toBeUndefined();
+      });
+
+      it('should put unknown claims and unmatched lines on the reconciliation worklist', async () => {
+        mockRepository.findClaimByNumber
+          .mockResolvedValueOnce(null)
+          .mockResolvedValueOnce(buildClaim({ status: 'ACCEPTED' }));
+
+        const [result] = await service.importERA(
+          {
+            ...eraInput,
+            content: build835(0, [
+              'CLP*CLM-UNKNOWN*1*50*0*0*MC',
+              'CLP*CLM-ORG-2024-000001*4*21*0*0*MC',
+              'SVC*HC:S5125*21*0**4',
+              'DTM*472*20240115',
+            ]),
+          },
+          'user-123' as any,
+          'ORG'
+        );
+
+        expect(result!.reconciliationItems).toEqual([
+          expect.objectContaining({ reason: 'CLAIM_NOT_FOUND' }),
+          expect.objectContaining({ reason: 'LINE_NOT_MATCHED', claimId: 'claim-1', procedureCode: 'S5125' }),
+        ]);
+        expect(mockRepository.createReconciliationItem).toHaveBeenCalledWith(
+          expect.objectContaining({
+            organizationId: 'org-123',
+            remittanceId: 'era-1',
+            patientControlNumber: 'CLM-UNKNOWN',
+            chargeAmount: 50,
+          }),
+          mockClient
+        );
+        expect(mockRepository.createERARemittance).toHaveBeenCalledWith(
+          expect.objectContaining({ claimCount: 2, matchedClaimCount: 1, unmatchedItemCount: 2 }),
+          expect.any(String),
+          mockClient
+        );
+      });
+
+      it('should reject a remittance that was already imported', async () => {
+        mockRepository.findERARemittanceByTrace.mockResolvedValue({ id: 'era-0' });
+
+        await expect(
+          service.importERA({ ...eraInput, content: build835(0, []) }, 'user-123' as any, 'ORG')
+        ).rejects.toThrow('Remittance EFT-0001 from State Medicaid was already imported');
+        expect(mockPool.connect).not.toHaveBeenCalled();
+      });
+
+      it('should reject remittances from payers without a matching EDI payer ID', async () => {
+        mockRepository.findPayersByOrganization.mockResolvedValue([
+          { ...mockPayer, ediPayerId: 'OTHER' },
+        ]);
+
+        await expect(
+          service.importERA({ ...eraInput, content: build835(0, []) }, 'user-123' as any, 'ORG')
+        ).rejects.toThrow('No payer with EDI payer ID SKTX0');
+      });
+
+      it('should only resolve open reconciliation items', async () => {
+        mockRepository.findReconciliationItemById.mockResolvedValue({
+          id: 'recon-1',
+          status: 'DISMISSED',
+        });
+
+        await expect(
+          service.resolveReconciliationItem('recon-1' as any, 'RESOLVED', 'user-123' as any)
+        ).rejects.toThrow('Reconciliation item is already DISMISSED');
+        expect(mockRepository.updateReconciliationItemStatus).not.toHaveBeenCalled();
+      });
+    });
+  });
 });
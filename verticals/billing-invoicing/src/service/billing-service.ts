@@ -5,6 +5,8 @@
  * Orchestrates billing operations with proper separation of concerns
  */
 
+import { mkdir, writeFile } from 'node:fs/promises';
+import path from 'node:path';
 import { Pool, PoolClient } from 'pg';
 import { v4 as uuid } from 'uuid';
 import { UUID } from '@care-commons/core';
@@ -18,12 +20,33 @@ import {
   Invoice,
   Payment,
   InvoiceLineItem,
+  SubmitClaimInput,
+  UpdateClaimStatusInput,
+  GenerateClaimBatchInput,
+  Claim,
+  ClaimBatch,
+  ClaimLineItem,
+  ClaimStatus,
+  BillableStatus,
+  EDI837ClaimData,
+  ImportERAInput,
+  ERAImportResult,
+  ERARemittance,
+  ERARemittanceRecord,
+  ClaimAdjustment,
+  ERAClaimPayment,
+  ERAReconciliationItem,
+  ERAReconciliationStatus,
+  Payer,
+  PaymentMethod,
 } from '../types/billing';
 import {
   validateCreateBillableItem,
   validateCreateInvoice,
   validateCreatePayment,
   validateAllocatePayment,
+  validateSubmitClaim,
+  validateClaimStatusTransition,
 } from '../validation/billing-validator';
 import {
   calculateUnits,
@@ -32,8 +55,41 @@ import {
   calculateInvoiceTotal,
   generateInvoiceNumber,
   generatePaymentNumber,
+  generateClaimNumber,
   calculateDueDate,
+  roundToTwoDecimals,
 } from '../utils/billing-calculations';
+import { generate837Interchange } from '../utils/edi-837';
+import { parse835 } from '../utils/edi-835';
+
+/**
+ * Billable item status that follows a claim adjudication outcome
+ */
+const CLAIM_ITEM_STATUS: Partial<Record<ClaimStatus, { from: BillableStatus; to: BillableStatus }>> = {
+  DENIED: { from: 'SUBMITTED', to: 'DENIED' },
+  APPEALED: { from: 'DENIED', to: 'APPEALED' },
+};
+
+/**
+ * BPR04 payment method codes
+ */
+const ERA_PAYMENT_METHODS: Record<string, PaymentMethod> = {
+  ACH: 'ACH',
+  CHK: 'CHECK',
+  FWT: 'WIRE',
+};
+
+type ReconciliationDraft = Omit<
+  ERAReconciliationItem,
+  'id' | 'organizationId' | 'remittanceId' | 'status' | 'createdAt' | 'updatedAt'
+>;
+
+interface ClaimPosting {
+  claim: Claim;
+  claimPayment: ERAClaimPayment;
+  status: ClaimStatus;
+  lineItems: ClaimLineItem[];
+}
 
 export class BillingService {
   private repository: BillingRepository;
@@ -339,7 +395,8 @@ export class BillingService {
   async createPayment(
     input: CreatePaymentInput,
     userId: UUID,
-    orgCode: string
+    orgCode: string,
+    client?: PoolClient
   ): Promise<Payment> {
     // Validate input
     const validation = validateCreatePayment(input);
@@ -350,7 +407,8 @@ export class BillingService {
     // Generate payment number
     const paymentCount = await this.getPaymentCount(
       input.organizationId,
-      new Date().getFullYear()
+      new Date().getFullYear(),
+      client
     );
     const paymentNumber = generatePaymentNumber(
       orgCode,
@@ -392,7 +450,7 @@ export class BillingService {
       updatedBy: userId,
     };
 
-    return this.repository.createPayment(payment);
+    return this.repository.createPayment(payment, client);
   }
 
   /**
@@ -401,9 +459,30 @@ export class BillingService {
   async allocatePayment(
     input: AllocatePaymentInput,
     userId: UUID
+  ): Promise<void> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      await this.applyAllocations(input, userId, client);
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Apply payment allocations within the caller's transaction
+   */
+  private async applyAllocations(
+    input: AllocatePaymentInput,
+    userId: UUID,
+    client: PoolClient
   ): Promise<void> {
     // Get payment
-    const payment = await this.repository.findPaymentById(input.paymentId);
+    const payment = await this.repository.findPaymentById(input.paymentId, client);
     if (!payment) {
       throw new Error('Payment not found');
     }
@@ -414,63 +493,51 @@ export class BillingService {
       throw new Error(`Validation failed: ${validation.errors.join(', ')}`);
     }
 
-    const client = await this.pool.connect();
-    try {
-      await client.query('BEGIN');
-
-      // Apply each allocation
-      for (const allocation of input.allocations) {
-        // Get invoice
-        const invoice = await this.repository.findInvoiceById(allocation.invoiceId);
-        if (!invoice) {
-          throw new Error(`Invoice ${allocation.invoiceId} not found`);
-        }
-
-        // Verify amount doesn't exceed balance
-        if (allocation.amount > invoice.balanceDue) {
-          throw new Error(
-            `Allocation amount ${allocation.amount} exceeds balance due ${invoice.balanceDue}`
-          );
-        }
-
-        // Add payment allocation
-        const paymentAllocation = {
-          id: uuid(),
-          invoiceId: allocation.invoiceId,
-          invoiceNumber: invoice.invoiceNumber,
-          amount: allocation.amount,
-          appliedAt: new Date(),
-          appliedBy: userId,
-          notes: allocation.notes,
-        };
-
-        await this.repository.allocatePayment(
-          payment.id,
-          paymentAllocation,
-          userId,
-          client
-        );
+    // Apply each allocation
+    for (const allocation of input.allocations) {
+      // Get invoice
+      const invoice = await this.repository.findInvoiceById(allocation.invoiceId, client);
+      if (!invoice) {
+        throw new Error(`Invoice ${allocation.invoiceId} not found`);
+      }
 
-        // Update invoice payment status
-        await this.repository.updateInvoicePayment(
-          invoice.id,
-          allocation.amount,
-          {
-            paymentId: payment.id,
-            amount: allocation.amount,
-            date: payment.paymentDate,
-          },
-          userId,
-          client
+      // Verify amount doesn't exceed balance
+      if (allocation.amount > invoice.balanceDue) {
+        throw new Error(
+          `Allocation amount ${allocation.amount} exceeds balance due ${invoice.balanceDue}`
         );
       }
 
-      await client.query('COMMIT');
-    } catch (error) {
-      await client.query('ROLLBACK');
-      throw error;
-    } finally {
-      client.release();
+      // Add payment allocation
+      const paymentAllocation = {
+        id: uuid(),
+        invoiceId: allocation.invoiceId,
+        invoiceNumber: invoice.invoiceNumber,
+        amount: allocation.amount,
+        appliedAt: new Date(),
+        appliedBy: userId,
+        notes: allocation.notes,
+      };
+
+      await this.repository.allocatePayment(
+        payment.id,
+        paymentAllocation,
+        userId,
+        client
+      );
+
+      // Update invoice payment status
+      await this.repository.updateInvoicePayment(
+        invoice.id,
+        allocation.amount,
+        {
+          paymentId: payment.id,
+          amount: allocation.amount,
+          date: payment.paymentDate,
+        },
+        userId,
+        client
+      );
     }
   }
 
@@ -527,6 +594,1061 @@ export class BillingService {
     throw new Error('Not implemented - would update status to APPROVED');
   }
 
+  /**
+   * Create claims for an invoice's billable items
+   *
+   * Claims are per patient, so an invoice covering several clients yields
+   * one claim per client. Items move from INVOICED to SUBMITTED.
+   */
+  async submitClaims(
+    input: SubmitClaimInput,
+    userId: UUID,
+    orgCode: string
+  ): Promise<Claim[]> {
+    const validation = validateSubmitClaim(input);
+    if (!validation.valid) {
+      throw new Error(`Validation failed: ${validation.errors.join(', ')}`);
+    }
+
+    const invoice = await this.repository.findInvoiceById(input.invoiceId);
+    if (!invoice || invoice.organizationId !== input.organizationId) {
+      throw new Error('Invoice not found');
+    }
+
+    if (invoice.status === 'CANCELLED' || invoice.status === 'VOIDED') {
+      throw new Error(`Cannot submit claims for invoice in ${invoice.status} status`);
+    }
+
+    const payer = await this.repository.findPayerById(invoice.payerId);
+    if (!payer) {
+      throw new Error('Payer not found');
+    }
+
+    const billableItems = await this.repository.searchBillableItems({
+      organizationId: input.organizationId,
+      invoiceId: invoice.id,
+    });
+
+    const items = billableItems.filter(
+      (item) =>
+        invoice.billableItemIds.includes(item.id) &&
+        item.status === 'INVOICED' &&
+        !item.isHold &&
+        !item.claimId
+    );
+
+    if (items.length === 0) {
+      throw new Error('No billable items on invoice are ready for claim submission');
+    }
+
+    const now = new Date();
+
+    if (payer.claimFilingLimit) {
+      const filingDeadline = new Date(now);
+      filingDeadline.setDate(filingDeadline.getDate() - payer.claimFilingLimit);
+      const late = items.filter((item) => new Date(item.serviceDate) < filingDeadline);
+      if (late.length > 0) {
+        throw new Error(
+          `${late.length} items are past the ${payer.claimFilingLimit}-day claim filing limit for ${payer.payerName}`
+        );
+      }
+    }
+
+    const itemsByClient = new Map<UUID, BillableItem[]>();
+    for (const item of items) {
+      itemsByClient.set(item.clientId, [...(itemsByClient.get(item.clientId) || []), item]);
+    }
+
+    const diagnosesByClient = this.claimDiagnoses(input, [...itemsByClient.keys()]);
+
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      const claimCount = await this.getClaimCount(
+        input.organizationId,
+        now.getFullYear(),
+        client
+      );
+
+      const claims: Claim[] = [];
+      for (const [clientId, clientItems] of itemsByClient) {
+        const subscriber = await this.repository.findClaimSubscriber(clientId, invoice.payerType);
+        if (!subscriber) {
+          throw new Error(`Client ${clientId} not found`);
+        }
+
+        const claimNumber = generateClaimNumber(
+          orgCode,
+          claimCount + claims.length + 1,
+          now.getFullYear()
+        );
+
+        const diagnosisCodes = diagnosesByClient.get(clientId);
+        const lineItems: ClaimLineItem[] = clientItems.map((item, index) => {
+          const lineItem: ClaimLineItem = {
+            id: uuid(),
+            billableItemId: item.id,
+            lineNumber: index + 1,
+            serviceDate: item.serviceDate,
+            serviceCode: item.serviceTypeCode,
+            serviceDescription: item.serviceTypeName,
+            placeOfService: input.placeOfService || '12',
+            providerNPI: item.providerNPI || '',
+            providerName: item.caregiverName || '',
+            unitType: item.unitType,
+            units: item.units,
+            chargeAmount: item.finalAmount,
+            lineStatus: 'PENDING',
+          };
+          if (item.modifiers) lineItem.modifiers = item.modifiers;
+          if (item.authorizationNumber) lineItem.authorizationNumber = item.authorizationNumber;
+          if (diagnosisCodes) lineItem.diagnosisCodes = diagnosisCodes;
+          return lineItem;
+        });
+
+        const created = await this.repository.createClaim(
+          {
+            organizationId: input.organizationId,
+            branchId: input.branchId,
+            claimNumber,
+            claimType: input.claimType,
+            claimFormat: input.claimFormat,
+            payerId: invoice.payerId,
+            payerType: invoice.payerType,
+            payerName: invoice.payerName,
+            clientId,
+            clientName: `${subscriber.firstName} ${subscriber.lastName}`,
+            invoiceId: invoice.id,
+            invoiceNumber: invoice.invoiceNumber,
+            billableItemIds: clientItems.map((item) => item.id),
+            lineItems,
+            totalCharges: roundToTwoDecimals(
+              clientItems.reduce((sum, item) => sum + item.finalAmount, 0)
+            ),
+            submittedDate: now,
+            submittedBy: userId,
+            submissionMethod: input.submissionMethod,
+            status: 'PENDING',
+            statusHistory: [
+              {
+                id: uuid(),
+                fromStatus: null,
+                toStatus: 'PENDING',
+                timestamp: now,
+                changedBy: userId,
+                automatic: false,
+                reason: `Claim created from invoice ${invoice.invoiceNumber}`,
+              },
+            ],
+            isAppealable: false,
+            eraReceived: false,
+            ...(input.notes ? { notes: input.notes } : {}),
+            createdBy: userId,
+            updatedBy: userId,
+          },
+          client
+        );
+
+        await this.repository.linkBillableItemsToClaim(
+          created.billableItemIds,
+          created.id,
+          now,
+          userId,
+          client
+        );
+
+        for (const item of clientItems) {
+          await this.repository.updateBillableItemStatus(
+            item.id,
+            'SUBMITTED',
+            {
+              id: uuid(),
+              fromStatus: 'INVOICED',
+              toStatus: 'SUBMITTED',
+              timestamp: now,
+              changedBy: userId,
+              reason: `Submitted on claim ${claimNumber}`,
+            },
+            userId,
+            client
+          );
+        }
+
+        await this.repository.addInvoiceClaim(invoice.id, created.id, 'PENDING', userId, client);
+        claims.push(created);
+      }
+
+      await client.query('COMMIT');
+      return claims;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Render pending EDI claims as 837 interchanges, one per payer and format
+   *
+   * Batched claims are stamped with the batch ID so they are not sent twice;
+   * resubmitting a claim clears the stamp and it is picked up again.
+   */
+  async generateClaimBatches(
+    input: GenerateClaimBatchInput,
+    userId: UUID
+  ): Promise<ClaimBatch[]> {
+    const claims = input.claimIds
+      ? await this.findClaimsForBatch(input.organizationId, input.claimIds)
+      : await this.repository.searchClaims({
+          organizationId: input.organizationId,
+          ...(input.payerId ? { payerId: input.payerId } : {}),
+          status: ['PENDING', 'RESUBMITTED'],
+          claimFormat: ['EDI_837P', 'EDI_837I'],
+          isBatched: false,
+        });
+
+    if (claims.length === 0) {
+      return [];
+    }
+
+    const groups = new Map<string, Claim[]>();
+    for (const claim of claims) {
+      const key = `${claim.payerId}:${claim.claimFormat}`;
+      groups.set(key, [...(groups.get(key) || []), claim]);
+    }
+
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      const firstControlNumber = await this.repository.reserveInterchangeControlNumbers(
+        input.organizationId,
+        groups.size,
+        client
+      );
+      const batches: ClaimBatch[] = [];
+
+      for (const groupClaims of groups.values()) {
+        const first = groupClaims[0]!;
+        const claimFormat = first.claimFormat as ClaimBatch['claimFormat'];
+
+        const payer = await this.repository.findPayerById(first.payerId);
+        if (!payer) {
+          throw new Error('Payer not found');
+        }
+        if (!payer.ediPayerId) {
+          throw new Error(`Payer ${payer.payerName} has no EDI payer ID`);
+        }
+
+        const claimData: EDI837ClaimData[] = [];
+        for (const claim of groupClaims) {
+          const subscriber = await this.repository.findClaimSubscriber(claim.clientId, claim.payerType);
+          if (!subscriber?.memberId) {
+            throw new Error(`Claim ${claim.claimNumber} has no subscriber member ID`);
+          }
+          const attendingProvider = claimFormat === 'EDI_837I'
+            ? await this.repository.findClaimAttendingProvider(claim.clientId)
+            : null;
+          if (claimFormat === 'EDI_837I' && !attendingProvider) {
+            throw new Error(`Claim ${claim.claimNumber} has no attending physician with an NPI`);
+          }
+          claimData.push({
+            claim,
+            subscriber,
+            payerName: payer.payerName,
+            payerIdentifier: payer.ediPayerId,
+            ...(attendingProvider ? { attendingProvider } : {}),
+          });
+        }
+
+        const interchange = generate837Interchange(claimData, {
+          claimFormat,
+          interchangeControlNumber: firstControlNumber + batches.length,
+          ...(input.usageIndicator ? { usageIndicator: input.usageIndicator } : {}),
+          senderId: input.submitter.identifier,
+          receiverId: input.receiver.identifier,
+          submitter: input.submitter,
+          receiver: input.receiver,
+          billingProvider: input.billingProvider,
+        });
+
+        const batchId = uuid();
+        const claimIds = groupClaims.map((claim) => claim.id);
+        await this.repository.assignClaimsToBatch(claimIds, batchId, userId, client);
+
+        const batch: ClaimBatch = {
+          batchId,
+          payerId: payer.id,
+          payerName: payer.payerName,
+          claimFormat,
+          claimIds,
+          interchangeControlNumber: interchange.interchangeControlNumber,
+          totalCharges: interchange.totalCharges,
+          content: interchange.content,
+        };
+
+        // Write before commit so a failed write leaves the claims unbatched
+        if (input.outputDirectory) {
+          await mkdir(input.outputDirectory, { recursive: true });
+          batch.filePath = path.join(
+            input.outputDirectory,
+            `${claimFormat.replace('EDI_', '')}_${payer.ediPayerId}_${interchange.interchangeControlNumber}.x12`
+          );
+          await writeFile(batch.filePath, interchange.content, 'utf8');
+        }
+
+        batches.push(batch);
+      }
+
+      await client.query('COMMIT');
+      return batches;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Record a claim status change from payer acknowledgements or adjudication
+   */
+  async updateClaimStatus(
+    claimId: UUID,
+    input: UpdateClaimStatusInput,
+    userId: UUID
+  ): Promise<Claim> {
+    const claim = await this.repository.findClaimById(claimId);
+    if (!claim) {
+      throw new Error('Claim not found');
+    }
+
+    const validation = validateClaimStatusTransition(claim.status, input.status);
+    if (!validation.valid) {
+      throw new Error(`Validation failed: ${validation.errors.join(', ')}`);
+    }
+
+    const now = new Date();
+    const statusChange = {
+      id: uuid(),
+      fromStatus: claim.status,
+      toStatus: input.status,
+      timestamp: now,
+      changedBy: userId,
+      automatic: input.automatic || false,
+      ...(input.reason ? { reason: input.reason } : {}),
+      ...(input.notes ? { notes: input.notes } : {}),
+    };
+
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      await this.repository.updateClaimStatus(
+        claimId,
+        input.status,
+        statusChange,
+        {
+          ...(input.controlNumber ? { controlNumber: input.controlNumber } : {}),
+          ...(input.processingDate ? { processingDate: input.processingDate } : {}),
+          ...(input.paymentDate ? { paymentDate: input.paymentDate } : {}),
+          ...(input.totalApproved !== undefined ? { totalApproved: input.totalApproved } : {}),
+          ...(input.totalPaid !== undefined ? { totalPaid: input.totalPaid } : {}),
+          ...(input.status === 'DENIED'
+            ? {
+                denialDate: now,
+                isAppealable: input.isAppealable ?? true,
+                ...(input.denialReason ? { denialReason: input.denialReason } : {}),
+                ...(input.denialCode ? { denialCode: input.denialCode } : {}),
+                ...(input.appealDeadline ? { appealDeadline: input.appealDeadline } : {}),
+              }
+            : {}),
+          ...(input.status === 'RESUBMITTED' ? { clearSubmissionBatch: true } : {}),
+        },
+        userId,
+        client
+      );
+
+      const itemStatus = CLAIM_ITEM_STATUS[input.status];
+      if (itemStatus) {
+        for (const billableItemId of claim.billableItemIds) {
+          await this.repository.updateBillableItemStatus(
+            billableItemId,
+            itemStatus.to,
+            {
+              id: uuid(),
+              fromStatus: itemStatus.from,
+              toStatus: itemStatus.to,
+              timestamp: now,
+              changedBy: userId,
+              reason: `Claim ${claim.claimNumber} ${input.status.toLowerCase()}`,
+            },
+            userId,
+            client
+          );
+        }
+      }
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    const updated = await this.repository.findClaimById(claimId);
+    return updated!;
+  }
+
+  /**
+   * Import an X12 835 remittance file
+   *
+   * Each transaction in the file is one check or EFT. Claim and line results
+   * are posted first, then the payment is created and allocated to the
+   * claims' invoices. Anything that cannot be posted automatically is put on
+   * the reconciliation worklist.
+   */
+  async importERA(
+    input: ImportERAInput,
+    userId: UUID,
+    orgCode: string
+  ): Promise<ERAImportResult[]> {
+    if (!input.organizationId || !input.branchId) {
+      throw new Error('Validation failed: organizationId and branchId are required');
+    }
+
+    const remittances = parse835(input.content);
+
+    const results: ERAImportResult[] = [];
+    for (const remittance of remittances) {
+      results.push(await this.postRemittance(remittance, input, userId, orgCode));
+    }
+    return results;
+  }
+
+  /**
+   * Get remittance lines awaiting manual reconciliation
+   */
+  async getReconciliationWorklist(
+    organizationId: UUID,
+    status: ERAReconciliationStatus[] = ['OPEN'],
+    remittanceId?: UUID
+  ): Promise<ERAReconciliationItem[]> {
+    return this.repository.searchReconciliationItems(organizationId, status, remittanceId);
+  }
+
+  /**
+   * Close a reconciliation worklist item
+   */
+  async resolveReconciliationItem(
+    itemId: UUID,
+    status: Exclude<ERAReconciliationStatus, 'OPEN'>,
+    userId: UUID,
+    notes?: string
+  ): Promise<ERAReconciliationItem> {
+    const item = await this.repository.findReconciliationItemById(itemId);
+    if (!item) {
+      throw new Error('Reconciliation item not found');
+    }
+
+    if (item.status !== 'OPEN') {
+      throw new Error(`Reconciliation item is already ${item.status}`);
+    }
+
+    await this.repository.updateReconciliationItemStatus(itemId, status, userId, notes);
+
+    const updated = await this.repository.findReconciliationItemById(itemId);
+    return updated!;
+  }
+
+  /**
+   * Post one 835 transaction
+   */
+  private async postRemittance(
+    remittance: ERARemittance,
+    input: ImportERAInput,
+    userId: UUID,
+    orgCode: string
+  ): Promise<ERAImportResult> {
+    if (!remittance.traceNumber) {
+      throw new Error('Remittance has no TRN trace number');
+    }
+
+    const payer = await this.findRemittancePayer(remittance, input);
+
+    const existing = await this.repository.findERARemittanceByTrace(
+      input.organizationId,
+      payer.id,
+      remittance.traceNumber
+    );
+    if (existing) {
+      throw new Error(
+        `Remittance ${remittance.traceNumber} from ${payer.payerName} was already imported`
+      );
+    }
+
+    // Match every claim before writing anything
+    const postings: ClaimPosting[] = [];
+    const drafts: ReconciliationDraft[] = [];
+    for (const claimPayment of remittance.claims) {
+      const claim = await this.repository.findClaimByNumber(claimPayment.patientControlNumber);
+      if (claim?.organizationId !== input.organizationId) {
+        drafts.push(
+          this.claimReconciliation(
+            claimPayment,
+            'CLAIM_NOT_FOUND',
+            `No claim with number ${claimPayment.patientControlNumber}`
+          )
+        );
+        continue;
+      }
+
+      if (claimPayment.claimStatusCode === '22') {
+        drafts.push(
+          this.claimReconciliation(
+            claimPayment,
+            'CLAIM_REVERSAL',
+            `Payer reversed a previous payment on claim ${claim.claimNumber}`,
+            claim.id
+          )
+        );
+        continue;
+      }
+
+      const claimAdjustments = [
+        ...claimPayment.adjustments,
+        ...claimPayment.serviceLines.flatMap((line) => line.adjustments),
+      ];
+      const status: ClaimStatus =
+        claimPayment.claimStatusCode === '4' ||
+        this.isRemittanceDenial(claimPayment.paidAmount, claimAdjustments)
+          ? 'DENIED'
+          : 'APPROVED';
+      if (!validateClaimStatusTransition(claim.status, status).valid) {
+        drafts.push(
+          this.claimReconciliation(
+            claimPayment,
+            'STATUS_CONFLICT',
+            `Claim ${claim.claimNumber} is ${claim.status}; remittance reports ${status}`,
+            claim.id
+          )
+        );
+        continue;
+      }
+
+      const { lineItems, unmatched } = this.matchRemittanceLines(claim, claimPayment);
+      drafts.push(...unmatched);
+      postings.push({ claim, claimPayment, status, lineItems });
+    }
+
+    const now = new Date();
+    const reconciliationItems: ERAReconciliationItem[] = [];
+    let record: ERARemittanceRecord;
+    let payment: Payment | undefined;
+
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      record = await this.repository.createERARemittance(
+        {
+          organizationId: input.organizationId,
+          branchId: input.branchId,
+          payerId: payer.id,
+          traceNumber: remittance.traceNumber,
+          paymentMethod: remittance.paymentMethod,
+          paymentAmount: remittance.paymentAmount,
+          paymentDate: remittance.paymentDate,
+          payerName: remittance.payerName || payer.payerName,
+          ...(remittance.payerIdentifier ? { payerIdentifier: remittance.payerIdentifier } : {}),
+          ...(input.fileName ? { fileName: input.fileName } : {}),
+          claimCount: remittance.claims.length,
+          matchedClaimCount: postings.length,
+          unmatchedItemCount: drafts.length,
+          importedBy: userId,
+        },
+        input.content,
+        client
+      );
+
+      for (const posting of postings) {
+        await this.postClaimRemittance(posting, remittance, record.id, now, userId, client);
+      }
+
+      for (const draft of drafts) {
+        reconciliationItems.push(
+          await this.repository.createReconciliationItem(
+            { ...draft, organizationId: input.organizationId, remittanceId: record.id },
+            client
+          )
+        );
+      }
+
+      // Payments carry their own numbering and allocation rules, so they go
+      // through the regular payment workflow, in the same transaction
+      if (remittance.paymentAmount > 0) {
+        payment = await this.createPayment(
+          {
+            organizationId: input.organizationId,
+            branchId: input.branchId,
+            payerId: payer.id,
+            payerType: payer.payerType,
+            payerName: payer.payerName,
+            amount: remittance.paymentAmount,
+            paymentDate: remittance.paymentDate,
+            receivedDate: remittance.paymentDate > now ? remittance.paymentDate : now,
+            paymentMethod: ERA_PAYMENT_METHODS[remittance.paymentMethod] || 'ERA',
+            referenceNumber: remittance.traceNumber,
+            notes: `ERA ${input.fileName || remittance.traceNumber}`,
+          },
+          userId,
+          orgCode,
+          client
+        );
+
+        const overpayments = await this.allocateRemittance(payment, postings, userId, client);
+        for (const draft of overpayments) {
+          reconciliationItems.push(
+            await this.repository.createReconciliationItem(
+              { ...draft, organizationId: input.organizationId, remittanceId: record.id },
+              client
+            )
+          );
+        }
+
+        const paidItemIds = postings.flatMap((posting) =>
+          posting.lineItems
+            .filter((line) => (line.paidAmount || 0) > 0)
+            .map((line) => line.billableItemId)
+        );
+        await this.repository.linkERAPayment(record.id, payment.id, paidItemIds, client);
+        payment = (await this.repository.findPaymentById(payment.id, client)) || payment;
+      }
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    return {
+      remittance: { ...record, ...(payment ? { paymentId: payment.id } : {}) },
+      ...(payment ? { payment } : {}),
+      postedClaimIds: postings.map((posting) => posting.claim.id),
+      reconciliationItems,
+    };
+  }
+
+  /**
+   * Record adjudication on a claim and its billable items
+   */
+  private async postClaimRemittance(
+    posting: ClaimPosting,
+    remittance: ERARemittance,
+    remittanceId: UUID,
+    now: Date,
+    userId: UUID,
+    client: PoolClient
+  ): Promise<void> {
+    const { claim, claimPayment, status, lineItems } = posting;
+
+    const adjustments = [
+      ...claimPayment.adjustments,
+      ...claimPayment.serviceLines.flatMap((line) => line.adjustments),
+    ];
+    const totalAdjustments = roundToTwoDecimals(
+      adjustments.reduce((sum, adjustment) => sum + adjustment.amount, 0)
+    );
+    const denialCode = status === 'DENIED' ? this.primaryAdjustmentCode(adjustments) : undefined;
+
+    await this.repository.updateClaimStatus(
+      claim.id,
+      status,
+      {
+        id: uuid(),
+        fromStatus: claim.status,
+        toStatus: status,
+        timestamp: now,
+        changedBy: userId,
+        automatic: true,
+        reason: `ERA ${remittance.traceNumber}`,
+        ...(claimPayment.remarkCodes.length > 0
+          ? { notes: `Remark codes: ${claimPayment.remarkCodes.join(', ')}` }
+          : {}),
+      },
+      {
+        lineItems,
+        totalPaid: claimPayment.paidAmount,
+        totalApproved: roundToTwoDecimals(
+          claimPayment.paidAmount + claimPayment.patientResponsibility
+        ),
+        totalAdjustments,
+        patientResponsibility: claimPayment.patientResponsibility,
+        ...(claimPayment.payerClaimControlNumber
+          ? { controlNumber: claimPayment.payerClaimControlNumber }
+          : {}),
+        processingDate: remittance.paymentDate,
+        ...(claimPayment.paidAmount > 0 ? { paymentDate: remittance.paymentDate } : {}),
+        eraReceived: true,
+        eraReceivedDate: now,
+        eraDocumentId: remittanceId,
+        ...(status === 'DENIED'
+          ? {
+              denialDate: now,
+              isAppealable: true,
+              ...(denialCode ? { denialCode } : {}),
+              ...(claimPayment.remarkCodes.length > 0
+                ? { denialReason: `Remark codes: ${claimPayment.remarkCodes.join(', ')}` }
+                : {}),
+            }
+          : {}),
+      },
+      userId,
+      client
+    );
+
+    const fromStatus: BillableStatus = claim.status === 'APPEALED' ? 'APPEALED' : 'SUBMITTED';
+    for (const line of lineItems) {
+      if (line.paidAmount === undefined) {
+        continue;
+      }
+
+      let toStatus: BillableStatus = 'PAID';
+      if (line.lineStatus === 'DENIED') {
+        toStatus = 'DENIED';
+      } else if (line.paidAmount < line.chargeAmount) {
+        toStatus = 'PARTIAL_PAID';
+      }
+
+      await this.repository.updateBillableItemStatus(
+        line.billableItemId,
+        toStatus,
+        {
+          id: uuid(),
+          fromStatus,
+          toStatus,
+          timestamp: now,
+          changedBy: userId,
+          reason: `Claim ${claim.claimNumber} remittance ${remittance.traceNumber}`,
+        },
+        userId,
+        client
+      );
+
+      await this.repository.recordBillableItemRemittance(
+        line.billableItemId,
+        line.paidAmount,
+        remittance.paymentDate,
+        line.lineStatus === 'DENIED' ? line.denialCode || null : null,
+        userId,
+        client
+      );
+    }
+  }
+
+  /**
+   * Apply remittance service lines to a claim's line items
+   *
+   * Lines are matched on the REF*6R control number we send on the 837, then
+   * on procedure code and service date for payers that do not echo it.
+   */
+  private matchRemittanceLines(
+    claim: Claim,
+    claimPayment: ERAClaimPayment
+  ): { lineItems: ClaimLineItem[]; unmatched: ReconciliationDraft[] } {
+    const lineItems = claim.lineItems.map((line) => ({ ...line }));
+    const matched = new Set<UUID>();
+    const unmatched: ReconciliationDraft[] = [];
+
+    for (const serviceLine of claimPayment.serviceLines) {
+      const controlNumber = serviceLine.lineItemControlNumber?.toLowerCase();
+      const line = controlNumber
+        ? lineItems.find((item) => item.id.toLowerCase() === controlNumber && !matched.has(item.id))
+        : lineItems.find(
+            (item) =>
+              !matched.has(item.id) &&
+              item.serviceCode === serviceLine.procedureCode &&
+              (!serviceLine.serviceDate ||
+                new Date(item.serviceDate).toDateString() === serviceLine.serviceDate.toDateString())
+          );
+
+      if (!line) {
+        unmatched.push({
+          claimId: claim.id,
+          patientControlNumber: claimPayment.patientControlNumber,
+          ...(claimPayment.payerClaimControlNumber
+            ? { payerClaimControlNumber: claimPayment.payerClaimControlNumber }
+            : {}),
+          procedureCode: serviceLine.procedureCode,
+          modifiers: serviceLine.modifiers,
+          ...(serviceLine.serviceDate ? { serviceDate: serviceLine.serviceDate } : {}),
+          chargeAmount: serviceLine.chargeAmount,
+          paidAmount: serviceLine.paidAmount,
+          adjustments: serviceLine.adjustments,
+          remarkCodes: serviceLine.remarkCodes,
+          reason: 'LINE_NOT_MATCHED',
+          description: `No line on claim ${claim.claimNumber} for ${serviceLine.procedureCode}`,
+        });
+        continue;
+      }
+
+      matched.add(line.id);
+
+      const adjustmentAmount = roundToTwoDecimals(
+        serviceLine.adjustments.reduce((sum, adjustment) => sum + adjustment.amount, 0)
+      );
+      const patientResponsibility = serviceLine.adjustments
+        .filter((adjustment) => adjustment.groupCode === 'PR')
+        .reduce((sum, adjustment) => sum + adjustment.amount, 0);
+
+      line.paidAmount = serviceLine.paidAmount;
+      line.approvedAmount = roundToTwoDecimals(serviceLine.paidAmount + patientResponsibility);
+      line.adjustmentAmount = adjustmentAmount;
+      line.adjustments = serviceLine.adjustments;
+      line.remarkCodes = serviceLine.remarkCodes;
+
+      if (this.isRemittanceDenial(serviceLine.paidAmount, serviceLine.adjustments)) {
+        line.lineStatus = 'DENIED';
+        const denialCode = this.primaryAdjustmentCode(serviceLine.adjustments);
+        if (denialCode) {
+          line.denialCode = denialCode;
+        }
+        if (serviceLine.remarkCodes.length > 0) {
+          line.denialReason = `Remark codes: ${serviceLine.remarkCodes.join(', ')}`;
+        }
+      } else {
+        line.lineStatus = serviceLine.paidAmount < serviceLine.chargeAmount ? 'ADJUSTED' : 'APPROVED';
+      }
+    }
+
+    return { lineItems, unmatched };
+  }
+
+  /**
+   * Allocate an ERA payment to the posted claims' invoices
+   *
+   * Whatever cannot be applied because the invoice is already paid down is
+   * returned as overpayment worklist items.
+   */
+  private async allocateRemittance(
+    payment: Payment,
+    postings: ClaimPosting[],
+    userId: UUID,
+    client: PoolClient
+  ): Promise<ReconciliationDraft[]> {
+    const byInvoice = new Map<UUID, ClaimPosting[]>();
+    for (const posting of postings) {
+      if (posting.claimPayment.paidAmount <= 0) {
+        continue;
+      }
+      const invoicePostings = byInvoice.get(posting.claim.invoiceId) || [];
+      invoicePostings.push(posting);
+      byInvoice.set(posting.claim.invoiceId, invoicePostings);
+    }
+
+    const allocations: AllocatePaymentInput['allocations'] = [];
+    const overpayments: ReconciliationDraft[] = [];
+    let remaining = payment.unappliedAmount;
+
+    for (const [invoiceId, invoicePostings] of byInvoice) {
+      const paid = roundToTwoDecimals(
+        invoicePostings.reduce((sum, posting) => sum + posting.claimPayment.paidAmount, 0)
+      );
+      const invoice = await this.repository.findInvoiceById(invoiceId, client);
+      const balanceDue = invoice ? invoice.balanceDue : 0;
+      const amount = roundToTwoDecimals(Math.min(paid, balanceDue, remaining));
+
+      if (amount > 0) {
+        allocations.push({
+          invoiceId,
+          amount,
+          notes: `Claims ${invoicePostings.map((posting) => posting.claim.claimNumber).join(', ')}`,
+        });
+        remaining = roundToTwoDecimals(remaining - amount);
+      }
+
+      if (amount < paid) {
+        const [first] = invoicePostings;
+        overpayments.push({
+          ...this.claimReconciliation(
+            first!.claimPayment,
+            'OVERPAYMENT',
+            `${roundToTwoDecimals(paid - amount)} paid beyond the balance of invoice ${invoice?.invoiceNumber || invoiceId}`,
+            first!.claim.id
+          ),
+          paidAmount: roundToTwoDecimals(paid - amount),
+        });
+      }
+    }
+
+    if (allocations.length > 0) {
+      await this.applyAllocations({ paymentId: payment.id, allocations }, userId, client);
+    }
+
+    return overpayments;
+  }
+
+  /**
+   * Resolve the payer a remittance is from
+   *
+   * Uses the payer given on import, otherwise the payer whose EDI payer ID
+   * matches the remittance's payer identifier.
+   */
+  private async findRemittancePayer(
+    remittance: ERARemittance,
+    input: ImportERAInput
+  ): Promise<Payer> {
+    if (input.payerId) {
+      const payer = await this.repository.findPayerById(input.payerId);
+      if (payer?.organizationId !== input.organizationId) {
+        throw new Error('Payer not found');
+      }
+      return payer;
+    }
+
+    const payers = await this.repository.findPayersByOrganization(input.organizationId);
+    const payer = payers.find(
+      (candidate) =>
+        candidate.ediPayerId !== undefined &&
+        candidate.ediPayerId === remittance.payerIdentifier
+    );
+    if (!payer) {
+      throw new Error(
+        `No payer with EDI payer ID ${remittance.payerIdentifier || '(none)'} for remittance ${remittance.traceNumber}`
+      );
+    }
+    return payer;
+  }
+
+  /**
+   * Diagnosis codes for each client's claim
+   *
+   * Codes given for the whole invoice only apply when it covers one client;
+   * multi-client invoices need codes keyed by client.
+   */
+  private claimDiagnoses(input: SubmitClaimInput, clientIds: UUID[]): Map<UUID, string[]> {
+    const byClient = new Map<UUID, string[]>(Object.entries(input.diagnosisCodesByClient || {}));
+
+    if (input.diagnosisCodes) {
+      const [clientId] = clientIds;
+      if (clientIds.length > 1 || clientId === undefined) {
+        throw new Error(
+          `Invoice covers ${clientIds.length} clients; diagnosis codes must be given per client`
+        );
+      }
+      if (!byClient.has(clientId)) {
+        byClient.set(clientId, input.diagnosisCodes);
+      }
+    }
+
+    if (input.claimFormat === 'EDI_837P' || input.claimFormat === 'EDI_837I') {
+      const missing = clientIds.filter((clientId) => !byClient.get(clientId)?.length);
+      if (missing.length > 0) {
+        throw new Error(`No diagnosis codes for clients ${missing.join(', ')}`);
+      }
+    }
+
+    return byClient;
+  }
+
+  private claimReconciliation(
+    claimPayment: ERAClaimPayment,
+    reason: ReconciliationDraft['reason'],
+    description: string,
+    claimId?: UUID
+  ): ReconciliationDraft {
+    return {
+      ...(claimId ? { claimId } : {}),
+      patientControlNumber: claimPayment.patientControlNumber,
+      ...(claimPayment.payerClaimControlNumber
+        ? { payerClaimControlNumber: claimPayment.payerClaimControlNumber }
+        : {}),
+      chargeAmount: claimPayment.totalCharge,
+      paidAmount: claimPayment.paidAmount,
+      adjustments: claimPayment.adjustments,
+      remarkCodes: claimPayment.remarkCodes,
+      reason,
+      description,
+    };
+  }
+
+  /**
+   * Whether nothing was paid because the payer adjusted the charge away
+   *
+   * A $0 payment that is all patient responsibility (group PR, such as a
+   * deductible) is adjudicated, not denied; the patient owes the balance.
+   */
+  private isRemittanceDenial(paidAmount: number, adjustments: ClaimAdjustment[]): boolean {
+    return (
+      paidAmount <= 0 &&
+      adjustments.some((adjustment) => adjustment.groupCode !== 'PR' && adjustment.amount > 0)
+    );
+  }
+
+  /**
+   * Group and reason code (e.g. CO-197) of the largest non-patient adjustment
+   */
+  private primaryAdjustmentCode(adjustments: ClaimAdjustment[]): string | undefined {
+    const primary = adjustments
+      .filter((adjustment) => adjustment.groupCode !== 'PR')
+      .reduce<ClaimAdjustment | undefined>(
+        (largest, adjustment) =>
+          !largest || adjustment.amount > largest.amount ? adjustment : largest,
+        undefined
+      );
+    return primary ? `${primary.groupCode}-${primary.reasonCode}` : undefined;
+  }
+
+  /**
+   * Load explicitly requested claims and confirm they can be batched
+   */
+  private async findClaimsForBatch(
+    organizationId: UUID,
+    claimIds: UUID[]
+  ): Promise<Claim[]> {
+    const claims: Claim[] = [];
+    for (const claimId of claimIds) {
+      const claim = await this.repository.findClaimById(claimId);
+      if (claim?.organizationId !== organizationId) {
+        throw new Error(`Claim ${claimId} not found`);
+      }
+      if (claim.claimFormat !== 'EDI_837P' && claim.claimFormat !== 'EDI_837I') {
+        throw new Error(`Claim ${claim.claimNumber} is not an EDI claim`);
+      }
+      if (claim.status !== 'PENDING' && claim.status !== 'RESUBMITTED') {
+        throw new Error(`Cannot batch claim ${claim.claimNumber} in ${claim.status} status`);
+      }
+      if (claim.submissionBatchId) {
+        throw new Error(`Claim ${claim.claimNumber} is already in batch ${claim.submissionBatchId}`);
+      }
+      claims.push(claim);
+    }
+    return claims;
+  }
+
+  /**
+   * Get claim count for number generation
+   */
+  private async getClaimCount(
+    organizationId: UUID,
+    year: number,
+    client?: PoolClient
+  ): Promise<number> {
+    const db = client || this.pool;
+    const result = await db.query(
+      `SELECT COUNT(*) as count FROM claims 
+       WHERE organization_id = $1 
+       AND EXTRACT(YEAR FROM submitted_date) = $2`,
+      [organizationId, year]
+    );
+    return parseInt(result.rows[0].count);
+  }
+
   /**
    * Get invoice count for number generation
    */
@@ -550,9 +1672,11 @@ export class BillingService {
    */
   private async getPaymentCount(
     organizationId: UUID,
-    year: number
+    year: number,
+    client?: PoolClient
   ): Promise<number> {
-    const result = await this.pool.query(
+    const db = client || this.pool;
+    const result = await db.query(
       `SELECT COUNT(*) as count FROM payments 
        WHERE organization_id = $1 
        AND EXTRACT(YEAR FROM payment_date) = $2`,
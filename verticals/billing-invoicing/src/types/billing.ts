@@ -817,8 +817,29 @@ export interface ClaimLineItem {
   lineStatus: ClaimLineStatus;
   denialCode?: string;
   denialReason?: string;
+  
+  // Remittance (from ERA)
+  adjustments?: ClaimAdjustment[];
+  remarkCodes?: string[]; // RARC codes
+}
+
+/**
+ * Claim adjustment (CAS) - group code plus CARC reason code
+ */
+export interface ClaimAdjustment {
+  groupCode: ClaimAdjustmentGroupCode;
+  reasonCode: string; // CARC
+  amount: number;
+  quantity?: number;
 }
 
+export type ClaimAdjustmentGroupCode =
+  | 'CO' // Contractual obligation
+  | 'PR' // Patient responsibility
+  | 'OA' // Other adjustment
+  | 'PI' // Payer initiated reduction
+  | 'CR'; // Correction and reversal
+
 export type ClaimLineStatus =
   | 'PENDING'
   | 'APPROVED'
@@ -1051,7 +1072,45 @@ export interface SubmitClaimInput {
   claimType: ClaimType;
   claimFormat: ClaimFormat;
   submissionMethod: SubmissionMethod;
+  placeOfService?: string; // Defaults to 12 (home)
+  diagnosisCodes?: string[]; // ICD-10 codes, principal diagnosis first; single-client invoices only
+  diagnosisCodesByClient?: Record<UUID, string[]>; // ICD-10 codes per client on multi-client invoices
+  notes?: string;
+}
+
+export interface UpdateClaimStatusInput {
+  status: ClaimStatus;
+  reason?: string;
   notes?: string;
+  automatic?: boolean;
+  controlNumber?: string;
+  processingDate?: Date;
+  paymentDate?: Date;
+  totalApproved?: number;
+  totalPaid?: number;
+  denialReason?: string;
+  denialCode?: string;
+  isAppealable?: boolean;
+  appealDeadline?: Date;
+}
+
+export interface ImportERAInput {
+  organizationId: UUID;
+  branchId: UUID;
+  content: string; // Raw X12 835 file
+  fileName?: string;
+  payerId?: UUID; // Defaults to matching the payer's EDI payer ID
+}
+
+export interface GenerateClaimBatchInput {
+  organizationId: UUID;
+  claimIds?: UUID[]; // Defaults to all unbatched PENDING/RESUBMITTED EDI claims
+  payerId?: UUID;
+  submitter: EDI837Submitter;
+  receiver: EDI837Receiver;
+  billingProvider: EDI837BillingProvider;
+  usageIndicator?: 'P' | 'T'; // Production or test interchange
+  outputDirectory?: string; // Write each interchange to disk for clearinghouse upload
 }
 
 /**
@@ -1118,4 +1177,199 @@ export interface ClaimSearchFilters {
   endDate?: Date;
   isDenied?: boolean;
   hasAppeal?: boolean;
+  claimFormat?: ClaimFormat[];
+  submissionBatchId?: UUID;
+  isBatched?: boolean;
+}
+
+/**
+ * EDI 837 - X12 005010 health care claim interchange
+ *
+ * Professional (837P, 005010X222A1) and institutional (837I, 005010X223A2)
+ * claims are rendered from stored claims plus the trading partner details
+ * below, which are not part of the claim record itself.
+ */
+
+export interface EDI837Submitter {
+  name: string;
+  identifier: string; // ETIN assigned by the clearinghouse
+  contactName: string;
+  contactPhone?: string;
+  contactEmail?: string;
+}
+
+export interface EDI837Receiver {
+  name: string;
+  identifier: string; // Clearinghouse or payer receiver ID
+}
+
+export interface EDI837BillingProvider {
+  name: string;
+  npi: string;
+  taxId: string; // EIN, digits only
+  taxonomyCode?: string;
+  address: Address;
+}
+
+export interface EDI837Subscriber {
+  memberId: string; // Medicaid/Medicare member ID
+  firstName: string;
+  lastName: string;
+  middleName?: string;
+  dateOfBirth: Date;
+  gender: 'M' | 'F' | 'U';
+  address: Address;
+}
+
+export interface EDI837AttendingProvider {
+  name: string;
+  npi: string;
+}
+
+export interface EDI837ClaimData {
+  claim: Claim;
+  subscriber: EDI837Subscriber;
+  payerName: string;
+  payerIdentifier: string; // Payer EDI ID
+  attendingProvider?: EDI837AttendingProvider; // Required on 837I
+}
+
+export interface EDI837Options {
+  claimFormat: 'EDI_837P' | 'EDI_837I';
+  interchangeControlNumber: number;
+  groupControlNumber?: number;
+  usageIndicator?: 'P' | 'T';
+  senderId: string;
+  receiverId: string;
+  submitter: EDI837Submitter;
+  receiver: EDI837Receiver;
+  billingProvider: EDI837BillingProvider;
+  createdAt?: Date;
+  facilityTypeCode?: string; // 837I bill type prefix, defaults to 32 (home health)
+  revenueCode?: string; // 837I service line revenue code, defaults to 0570
+  admissionTypeCode?: string; // 837I CL101, defaults to 9 (information not available)
+  patientStatusCode?: string; // 837I CL103, defaults to 30 (still a patient)
+}
+
+export interface EDI837Interchange {
+  content: string;
+  interchangeControlNumber: string;
+  claimCount: number;
+  segmentCount: number; // Segments within the ST/SE transaction set
+  totalCharges: number;
+}
+
+export interface ClaimBatch {
+  batchId: UUID;
+  payerId: UUID;
+  payerName: string;
+  claimFormat: 'EDI_837P' | 'EDI_837I';
+  claimIds: UUID[];
+  interchangeControlNumber: string;
+  totalCharges: number;
+  content: string;
+  filePath?: string;
+}
+
+/**
+ * ERA 835 - Electronic remittance advice
+ *
+ * One remittance per ST/SE transaction (a single check or EFT). Patient
+ * control numbers echo the claim numbers sent on the 837 CLM segment.
+ */
+
+export interface ERARemittance {
+  traceNumber: string; // TRN02 check or EFT trace number
+  paymentMethod: string; // BPR04: ACH, CHK, NON, ...
+  paymentAmount: number;
+  paymentDate: Date;
+  payerName: string;
+  payerIdentifier?: string;
+  payeeName?: string;
+  payeeNpi?: string;
+  claims: ERAClaimPayment[];
+}
+
+export interface ERAClaimPayment {
+  patientControlNumber: string;
+  claimStatusCode: string; // CLP02
+  totalCharge: number;
+  paidAmount: number;
+  patientResponsibility: number;
+  payerClaimControlNumber?: string;
+  adjustments: ClaimAdjustment[];
+  remarkCodes: string[];
+  serviceLines: ERAServiceLine[];
+}
+
+export interface ERAServiceLine {
+  procedureCode: string;
+  modifiers: string[];
+  chargeAmount: number;
+  paidAmount: number;
+  units?: number;
+  serviceDate?: Date;
+  lineItemControlNumber?: string; // REF*6R, echoes the claim line ID
+  adjustments: ClaimAdjustment[];
+  remarkCodes: string[];
+}
+
+export interface ERARemittanceRecord {
+  id: UUID;
+  organizationId: UUID;
+  branchId: UUID;
+  payerId: UUID;
+  traceNumber: string;
+  paymentMethod: string;
+  paymentAmount: number;
+  paymentDate: Date;
+  paymentId?: UUID;
+  payerName: string;
+  payerIdentifier?: string;
+  fileName?: string;
+  claimCount: number;
+  matchedClaimCount: number;
+  unmatchedItemCount: number;
+  importedAt: Timestamp;
+  importedBy: UUID;
+}
+
+export interface ERAReconciliationItem {
+  id: UUID;
+  organizationId: UUID;
+  remittanceId: UUID;
+  claimId?: UUID;
+  patientControlNumber: string;
+  payerClaimControlNumber?: string;
+  procedureCode?: string;
+  modifiers?: string[];
+  serviceDate?: Date;
+  chargeAmount: number;
+  paidAmount: number;
+  adjustments: ClaimAdjustment[];
+  remarkCodes: string[];
+  reason: ERAReconciliationReason;
+  description: string;
+  status: ERAReconciliationStatus;
+  resolvedBy?: UUID;
+  resolvedAt?: Timestamp;
+  resolutionNotes?: string;
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+}
+
+export type ERAReconciliationReason =
+  | 'CLAIM_NOT_FOUND' // No claim with the patient control number
+  | 'LINE_NOT_MATCHED' // Service line not found on the claim
+  | 'STATUS_CONFLICT' // Claim cannot move to the adjudicated status
+  | 'CLAIM_REVERSAL' // Payer reversed a previous payment
+  | 'OVERPAYMENT'; // Paid more than the invoice balance
+
+export type ERAReconciliationStatus = 'OPEN' | 'RESOLVED' | 'DISMISSED';
+
+export interface ERAImportResult {
+  remittance: ERARemittanceRecord;
+  payment?: Payment;
+  postedClaimIds: UUID[];
+  reconciliationItems: ERAReconciliationItem[];
 }
@@ -0,0 +1,121 @@
+/**
+ * Unit tests for X12 835 remittance parsing
+ *
+ * Verifies delimiter detection, payment/payer header fields and the claim,
+ * service line and adjustment detail used for payment posting
+ */
+
+
+
+import { describe, it, expect } from 'vitest';
+import { parse835 } from '../edi-835';
+
+const isa = (element: string, component: string): string =>
+  [
+    'ISA', '00', ' '.repeat(10), '00', ' '.repeat(10),
+    'ZZ', 'SKTX0'.padEnd(15), 'ZZ', 'SUB123'.padEnd(15),
+    '240301', '1200', '^', '00501', '000000001', '0', 'P', component,
+  ].join(element);
+
+const remittance = [
+  'ST*835*0001',
+  'BPR*I*39.5*C*ACH*CCP*01*999999999*DA*123456*1512345678**01*888888888*DA*654321*20240301',
+  'TRN*1*EFT-0001*1512345678',
+  'N1*PR*TEXAS MEDICAID',
+  'REF*2U*SKTX0',
+  'N1*PE*CARE COMMONS HOME HEALTH*XX*1999999984',
+  'LX*1',
+  'CLP*CLM-ORG-2024-000001*1*42*39.5*2.5*MC*PAYER-ICN-1',
+  'CAS*OA*23*0',
+  'MOA***MA01*MA07',
+  'SVC*HC:T1019:U1:UA*21*19.5**4',
+  'DTM*472*20240115',
+  'CAS*CO*45*1.5',
+  'REF*6R*line-1',
+  'SVC*HC:T1019*21*20**4',
+  'DTM*472*20240116',
+  'CAS*PR*1*0.5*1*2*0.5',
+  'LQ*HE*N130',
+  'SE*17*0001',
+];
+
+describe('parse835', () => {
+  it('should read payment, trace and payer details', () => {
+    const [result] = parse835(remittance.join('~'));
+
+    expect(result!.paymentAmount).toBe(39.5);
+    expect(result!.paymentMethod).toBe('ACH');
+    expect(result!.paymentDate).toEqual(new Date(2024, 2, 1));
+    expect(result!.traceNumber).toBe('EFT-0001');
+    expect(result!.payerName).toBe('TEXAS MEDICAID');
+    expect(result!.payerIdentifier).toBe('SKTX0');
+    expect(result!.payeeName).toBe('CARE COMMONS HOME HEALTH');
+    expect(result!.payeeNpi).toBe('1999999984');
+  });
+
+  it('should read claims with adjustments and remark codes', () => {
+    const [result] = parse835(remittance.join('~'));
+    const claim = result!.claims[0]!;
+
+    expect(result!.claims).toHaveLength(1);
+    expect(claim).toMatchObject({
+      patientControlNumber: 'CLM-ORG-2024-000001',
+      claimStatusCode: '1',
+      totalCharge: 42,
+      paidAmount: 39.5,
+      patientResponsibility: 2.5,
+      payerClaimControlNumber: 'PAYER-ICN-1',
+      adjustments: [{ groupCode: 'OA', reasonCode: '23', amount: 0 }],
+      remarkCodes: ['MA01', 'MA07'],
+    });
+  });
+
+  it('should read service lines with their own adjustments', () => {
+    const [result] = parse835(remittance.join('~'));
+    const [first, second] = result!.claims[0]!.serviceLines;
+
+    expect(first).toEqual({
+      procedureCode: 'T1019',
+      modifiers: ['U1', 'UA'],
+      chargeAmount: 21,
+      paidAmount: 19.5,
+      units: 4,
+      serviceDate: new Date(2024, 0, 15),
+      lineItemControlNumber: 'line-1',
+      adjustments: [{ groupCode: 'CO', reasonCode: '45', amount: 1.5 }],
+      remarkCodes: [],
+    });
+    expect(second!.lineItemControlNumber).toBeUndefined();
+    expect(second!.adjustments).toEqual([
+      { groupCode: 'PR', reasonCode: '1', amount: 0.5, quantity: 1 },
+      { groupCode: 'PR', reasonCode: '2', amount: 0.5 },
+    ]);
+    expect(second!.remarkCodes).toEqual(['N130']);
+  });
+
+  it('should use the delimiters declared in the ISA header', () => {
+    const content = [
+      isa('|', '>'),
+      ...remittance.map((segment) => segment.replace(/\*/g, '|').replace(/:/g, '>')),
+      'IEA|1|000000001',
+    ].join('~\n');
+
+    const [result] = parse835(content);
+
+    expect(result!.traceNumber).toBe('EFT-0001');
+    expect(result!.claims[0]!.serviceLines[0]!.modifiers).toEqual(['U1', 'UA']);
+  });
+
+  it('should return one remittance per transaction', () => {
+    const second = remittance.map((segment) =>
+      segment.replace('EFT-0001', 'EFT-0002').replace('ST*835*0001', 'ST*835*0002')
+    );
+    const results = parse835([...remittance, ...second].join('~\n'));
+
+    expect(results.map((result) => result.traceNumber)).toEqual(['EFT-0001', 'EFT-0002']);
+  });
+
+  it('should reject content without remittance transactions', () => {
+    expect(() => parse835('ISA*00~GS*HP~GE*0*1~')).toThrow('No 835 remittance transactions found');
+  });
+});
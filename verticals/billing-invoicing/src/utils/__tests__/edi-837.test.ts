@@ -0,0 +1,279 @@
+/**
+ * Unit tests for X12 837 interchange generation
+ *
+ * Verifies envelope structure, control counts and the claim/service line
+ * segments clearinghouses validate against the 005010 implementation guides
+ */
+
+
+
+import { describe, it, expect } from 'vitest';
+import { generate837Interchange } from '../edi-837';
+import { Claim, ClaimLineItem, EDI837ClaimData, EDI837Options } from '../../types/billing';
+
+const buildLine = (overrides: Partial<ClaimLineItem> = {}): ClaimLineItem => ({
+  id: 'line-1' as any,
+  billableItemId: 'item-1' as any,
+  lineNumber: 1,
+  serviceDate: new Date(2024, 0, 15),
+  serviceCode: 'T1019',
+  serviceDescription: 'Personal Care',
+  placeOfService: '12',
+  providerNPI: '1234567893',
+  providerName: 'Jamie Rivera',
+  unitType: 'UNIT',
+  units: 16,
+  chargeAmount: 84,
+  modifiers: [
+    { code: 'U1', description: 'Waiver program' },
+    { code: 'UA', description: 'Weekend' },
+  ],
+  authorizationNumber: 'PA-2024-001',
+  diagnosisCodes: ['R26.81', 'Z74.1'],
+  lineStatus: 'PENDING',
+  ...overrides,
+});
+
+const buildClaim = (overrides: Partial<Claim> = {}): Claim => ({
+  id: 'claim-1' as any,
+  organizationId: 'org-123' as any,
+  branchId: 'branch-123' as any,
+  claimNumber: 'CLM-ORG-2024-000001',
+  claimType: 'PROFESSIONAL',
+  claimFormat: 'EDI_837P',
+  payerId: 'payer-123' as any,
+  payerType: 'MEDICAID',
+  payerName: 'State Medicaid',
+  clientId: 'client-123' as any,
+  clientName: 'Ada Lovelace',
+  invoiceId: 'invoice-123' as any,
+  invoiceNumber: 'INV-ORG-2024-000001',
+  billableItemIds: ['item-1' as any, 'item-2' as any],
+  lineItems: [
+    buildLine(),
+    buildLine({
+      id: 'line-2' as any,
+      billableItemId: 'item-2' as any,
+      lineNumber: 2,
+      serviceDate: new Date(2024, 0, 16),
+      modifiers: [],
+      diagnosisCodes: ['Z74.1'],
+    }),
+  ],
+  totalCharges: 168,
+  submittedDate: new Date(2024, 1, 1),
+  submittedBy: 'user-123' as any,
+  submissionMethod: 'CLEARINGHOUSE',
+  status: 'PENDING',
+  statusHistory: [],
+  isAppealable: false,
+  eraReceived: false,
+  createdAt: new Date(),
+  createdBy: 'user-123' as any,
+  updatedAt: new Date(),
+  updatedBy: 'user-123' as any,
+  version: 1,
+  ...overrides,
+});
+
+const buildClaimData = (claim: Claim = buildClaim()): EDI837ClaimData => ({
+  claim,
+  subscriber: {
+    memberId: '123456789',
+    firstName: 'Ada',
+    lastName: 'Lovelace',
+    middleName: 'B',
+    dateOfBirth: new Date(1940, 4, 1),
+    gender: 'F',
+    address: {
+      line1: '1 Main St',
+      line2: 'Apt 2',
+      city: 'Austin',
+      state: 'TX',
+      postalCode: '78701-1234',
+      country: 'US',
+    },
+  },
+  payerName: 'Texas Medicaid',
+  payerIdentifier: 'SKTX0',
+});
+
+const options: EDI837Options = {
+  claimFormat: 'EDI_837P',
+  interchangeControlNumber: 42,
+  usageIndicator: 'T',
+  senderId: 'SUB123',
+  receiverId: 'RCV456',
+  submitter: {
+    name: 'Care Commons Home Health',
+    identifier: 'SUB123',
+    contactName: 'Billing Office',
+    contactPhone: '(512) 555-0100',
+  },
+  receiver: { name: 'Clearinghouse', identifier: 'RCV456' },
+  billingProvider: {
+    name: 'Care Commons Home Health',
+    npi: '1999999984',
+    taxId: '12-3456789',
+    taxonomyCode: '251E00000X',
+    address: { line1: '100 Provider Way', city: 'Austin', state: 'TX', postalCode: '78701', country: 'US' },
+  },
+  createdAt: new Date(2024, 1, 1, 9, 30),
+};
+
+const segmentsOf = (content: string): string[] =>
+  content.trim().split('\n').map((segment) => segment.replace(/~$/, ''));
+
+describe('generate837Interchange', () => {
+  describe('envelope', () => {
+    it('should render a fixed-width ISA header and matching trailers', () => {
+      const result = generate837Interchange([buildClaimData()], options);
+      const segments = segmentsOf(result.content);
+
+      expect(segments[0]).toHaveLength(105);
+      expect(segments[0]).toBe(
+        'ISA*00*          *00*          *ZZ*SUB123         *ZZ*RCV456         *240201*0930*^*00501*000000042*0*T*:'
+      );
+      expect(segments[1]).toBe('GS*HC*SUB123*RCV456*20240201*0930*42*X*005010X222A1');
+      expect(segments[2]).toBe('ST*837*0001*005010X222A1');
+      expect(segments.at(-2)).toBe('GE*1*42');
+      expect(segments.at(-1)).toBe('IEA*1*000000042');
+      expect(result.interchangeControlNumber).toBe('000000042');
+    });
+
+    it('should wrap control numbers past nine digits', () => {
+      const result = generate837Interchange([buildClaimData()], {
+        ...options,
+        interchangeControlNumber: 1_000_000_001,
+      });
+
+      expect(result.interchangeControlNumber).toBe('000000002');
+      expect(segmentsOf(result.content)).toContain('GE*1*2');
+    });
+
+    it('should render dates and times in local time, as DATE columns are read', () => {
+      const segments = segmentsOf(
+        generate837Interchange([buildClaimData()], { ...options, createdAt: new Date(2024, 1, 1, 23, 45) }).content
+      );
+
+      expect(segments[1]).toBe('GS*HC*SUB123*RCV456*20240201*2345*42*X*005010X222A1');
+    });
+
+    it('should count ST through SE in the SE segment', () => {
+      const result = generate837Interchange([buildClaimData()], options);
+      const segments = segmentsOf(result.content);
+      const st = segments.findIndex((segment) => segment.startsWith('ST*'));
+      const se = segments.findIndex((segment) => segment.startsWith('SE*'));
+
+      expect(se - st + 1).toBe(result.segmentCount);
+      expect(segments[se]).toBe(`SE*${result.segmentCount}*0001`);
+    });
+
+    it('should reject claims for more than one payer', () => {
+      const other = { ...buildClaimData(), payerIdentifier: 'OTHER' };
+      expect(() => generate837Interchange([buildClaimData(), other], options)).toThrow(
+        'same payer'
+      );
+    });
+
+    it('should reject claims in a different format', () => {
+      expect(() =>
+        generate837Interchange([buildClaimData()], { ...options, claimFormat: 'EDI_837I' })
+      ).toThrow('1 claims are not in EDI_837I format');
+    });
+  });
+
+  describe('837P', () => {
+    it('should render provider, subscriber and payer loops', () => {
+      const segments = segmentsOf(generate837Interchange([buildClaimData()], options).content);
+
+      expect(segments).toContain('PER*IC*BILLING OFFICE*TE*5125550100');
+      expect(segments).toContain('HL*1**20*1');
+      expect(segments).toContain('PRV*BI*PXC*251E00000X');
+      expect(segments).toContain('NM1*85*2*CARE COMMONS HOME HEALTH*****XX*1999999984');
+      expect(segments).toContain('REF*EI*123456789');
+      expect(segments).toContain('HL*2*1*22*0');
+      expect(segments).toContain('SBR*P*18*******MC');
+      expect(segments).toContain('NM1*IL*1*LOVELACE*ADA*B***MI*123456789');
+      expect(segments).toContain('N3*1 MAIN ST*APT 2');
+      expect(segments).toContain('N4*AUSTIN*TX*787011234');
+      expect(segments).toContain('DMG*D8*19400501*F');
+      expect(segments).toContain('NM1*PR*2*TEXAS MEDICAID*****PI*SKTX0');
+    });
+
+    it('should render claim with diagnoses, authorization and service lines', () => {
+      const segments = segmentsOf(generate837Interchange([buildClaimData()], options).content);
+
+      expect(segments).toContain('CLM*CLM-ORG-2024-000001*168***12:B:1*Y*A*Y*Y');
+      expect(segments).toContain('REF*G1*PA-2024-001');
+      expect(segments).toContain('HI*ABK:R2681*ABF:Z741');
+      expect(segments).toContain('SV1*HC:T1019:U1:UA*84*UN*16***1:2');
+      expect(segments).toContain('SV1*HC:T1019*84*UN*16***2');
+      expect(segments).toContain('DTP*472*D8*20240115');
+      expect(segments).toContain('REF*6R*line-1');
+      expect(segments).toContain('NM1*82*1*RIVERA*JAMIE****XX*1234567893');
+    });
+
+    it('should place authorizations on service lines when they differ', () => {
+      const claim = buildClaim();
+      claim.lineItems[1]!.authorizationNumber = 'PA-2024-002';
+      const segments = segmentsOf(generate837Interchange([buildClaimData(claim)], options).content);
+
+      const lx2 = segments.indexOf('LX*2');
+      expect(segments.slice(0, segments.indexOf('LX*1'))).not.toContain('REF*G1*PA-2024-001');
+      expect(segments.slice(lx2)).toContain('REF*G1*PA-2024-002');
+    });
+
+    it('should require at least one diagnosis code', () => {
+      const claim = buildClaim({
+        lineItems: [buildLine({ diagnosisCodes: [] })],
+      });
+      expect(() => generate837Interchange([buildClaimData(claim)], options)).toThrow(
+        'has no diagnosis codes'
+      );
+    });
+
+    it('should give each claim its own subscriber hierarchy level', () => {
+      const second = buildClaimData(buildClaim({ id: 'claim-2' as any, claimNumber: 'CLM-ORG-2024-000002' }));
+      const result = generate837Interchange([buildClaimData(), second], options);
+      const segments = segmentsOf(result.content);
+
+      expect(segments).toContain('HL*3*1*22*0');
+      expect(result.claimCount).toBe(2);
+      expect(result.totalCharges).toBe(336);
+    });
+  });
+
+  describe('837I', () => {
+    it('should render institutional claim and revenue code service lines', () => {
+      const claim = buildClaim({ claimType: 'INSTITUTIONAL', claimFormat: 'EDI_837I' });
+      const segments = segmentsOf(
+        generate837Interchange(
+          [{ ...buildClaimData(claim), attendingProvider: { name: 'Dr. Grace Hopper', npi: '1477777773' } }],
+          { ...options, claimFormat: 'EDI_837I' }
+        ).content
+      );
+
+      expect(segments).toContain('ST*837*0001*005010X223A2');
+      expect(segments).toContain('CLM*CLM-ORG-2024-000001*168***32:A:1**A*Y*Y');
+      expect(segments).toContain('DTP*434*RD8*20240115-20240116');
+      expect(segments).toContain('SV2*0570*HC:T1019:U1:UA*84*UN*16');
+      expect(segments.some((segment) => segment.startsWith('SV1'))).toBe(false);
+
+      const cl1 = segments.indexOf('CL1*9**30');
+      const hi = segments.findIndex((segment) => segment.startsWith('HI*'));
+      const attending = segments.indexOf('NM1*71*1*HOPPER*DR. GRACE****XX*1477777773');
+      expect(cl1).toBe(segments.indexOf('DTP*434*RD8*20240115-20240116') + 1);
+      expect(attending).toBe(hi + 1);
+      expect(segments[attending + 1]).toBe('LX*1');
+    });
+
+    it('should require an attending provider', () => {
+      const claim = buildClaim({ claimType: 'INSTITUTIONAL', claimFormat: 'EDI_837I' });
+
+      expect(() =>
+        generate837Interchange([buildClaimData(claim)], { ...options, claimFormat: 'EDI_837I' })
+      ).toThrow('Claim CLM-ORG-2024-000001 has no attending provider NPI');
+    });
+  });
+});
@@ -0,0 +1,266 @@
+/**
+ * X12 835 remittance advice parsing
+ *
+ * Reads an ANSI X12 005010 835 (005010X221A1) file into one remittance per
+ * ST/SE transaction. Only the segments needed for payment posting are read:
+ * BPR/TRN (payment), N1/REF (parties), CLP/CAS/MOA (claims) and
+ * SVC/CAS/DTM/REF/LQ (service lines).
+ */
+
+import {
+  ClaimAdjustment,
+  ClaimAdjustmentGroupCode,
+  ERAClaimPayment,
+  ERARemittance,
+  ERAServiceLine,
+} from '../types/billing';
+
+interface Delimiters {
+  element: string;
+  component: string;
+  segment: string;
+}
+
+const DEFAULT_DELIMITERS: Delimiters = {
+  element: '*',
+  component: ':',
+  segment: '~',
+};
+
+const ADJUSTMENT_GROUP_CODES: ClaimAdjustmentGroupCode[] = ['CO', 'PR', 'OA', 'PI', 'CR'];
+
+/**
+ * Parse every remittance transaction in an 835 interchange
+ */
+export function parse835(content: string): ERARemittance[] {
+  const trimmed = content.trimStart();
+  const delimiters = readDelimiters(trimmed);
+  const segments = trimmed
+    .split(delimiters.segment)
+    .map((segment) => segment.replace(/[\r\n]/g, '').trim())
+    .filter((segment) => segment.length > 0)
+    .map((segment) => segment.split(delimiters.element));
+
+  const remittances: ERARemittance[] = [];
+  let remittance: ERARemittance | null = null;
+  let claim: ERAClaimPayment | null = null;
+  let line: ERAServiceLine | null = null;
+  let entity: string | null = null;
+
+  for (const elements of segments) {
+    const id = elements[0];
+    const el = (index: number): string => elements[index] || '';
+
+    switch (id) {
+      case 'ST':
+        remittance = {
+          traceNumber: '',
+          paymentMethod: '',
+          paymentAmount: 0,
+          paymentDate: new Date(),
+          payerName: '',
+          claims: [],
+        };
+        claim = null;
+        line = null;
+        entity = null;
+        break;
+
+      case 'BPR':
+        if (remittance) {
+          remittance.paymentAmount = parseAmount(el(2));
+          remittance.paymentMethod = el(4);
+          if (el(16)) {
+            remittance.paymentDate = parseDate(el(16));
+          }
+        }
+        break;
+
+      case 'TRN':
+        if (remittance) {
+          remittance.traceNumber = el(2);
+          // TRN03 is the payer's EIN prefixed with 1; REF*2U takes precedence
+          if (!remittance.payerIdentifier && el(3)) {
+            remittance.payerIdentifier = el(3);
+          }
+        }
+        break;
+
+      case 'N1':
+        entity = el(1);
+        if (remittance && entity === 'PR') {
+          remittance.payerName = el(2);
+        }
+        if (remittance && entity === 'PE') {
+          remittance.payeeName = el(2);
+          if (el(3) === 'XX' && el(4)) {
+            remittance.payeeNpi = el(4);
+          }
+        }
+        break;
+
+      case 'REF':
+        if (line && el(1) === '6R') {
+          line.lineItemControlNumber = el(2);
+        } else if (remittance && !claim && entity === 'PR' && el(1) === '2U') {
+          remittance.payerIdentifier = el(2);
+        }
+        break;
+
+      case 'CLP':
+        if (remittance) {
+          claim = parseClaimPayment(elements);
+          remittance.claims.push(claim);
+          line = null;
+        }
+        break;
+
+      case 'CAS': {
+        const adjustments = parseAdjustments(elements);
+        if (line) {
+          line.adjustments.push(...adjustments);
+        } else if (claim) {
+          claim.adjustments.push(...adjustments);
+        }
+        break;
+      }
+
+      case 'MOA':
+      case 'MIA':
+        // Claim-level remark codes
+        if (claim) {
+          const remarkPositions = id === 'MOA' ? [3, 4, 5, 6, 7] : [5, 20, 21, 22, 23];
+          claim.remarkCodes.push(...remarkPositions.map(el).filter(Boolean));
+        }
+        break;
+
+      case 'SVC':
+        if (claim) {
+          line = parseServiceLine(elements, delimiters.component);
+          claim.serviceLines.push(line);
+        }
+        break;
+
+      case 'DTM':
+        // 472 = service date, 150 = service period start
+        if (line && (el(1) === '472' || el(1) === '150')) {
+          line.serviceDate = parseDate(el(2));
+        }
+        break;
+
+      case 'LQ':
+        if (line && el(1) === 'HE') {
+          line.remarkCodes.push(el(2));
+        }
+        break;
+
+      case 'SE':
+        if (remittance) {
+          remittances.push(remittance);
+        }
+        remittance = null;
+        claim = null;
+        line = null;
+        entity = null;
+        break;
+
+      default:
+        break;
+    }
+  }
+
+  if (remittances.length === 0) {
+    throw new Error('No 835 remittance transactions found');
+  }
+
+  return remittances;
+}
+
+/**
+ * ISA is fixed width: element separator at position 3, component separator
+ * at 104 and the segment terminator at 105
+ */
+function readDelimiters(content: string): Delimiters {
+  if (!content.startsWith('ISA') || content.length < 106) {
+    return DEFAULT_DELIMITERS;
+  }
+
+  return {
+    element: content.charAt(3),
+    component: content.charAt(104),
+    segment: content.charAt(105),
+  };
+}
+
+/**
+ * CLP opens a claim: control number, status, charge, paid and patient share
+ */
+function parseClaimPayment(elements: string[]): ERAClaimPayment {
+  const payerClaimControlNumber = elements[7];
+  return {
+    patientControlNumber: elements[1] || '',
+    claimStatusCode: elements[2] || '',
+    totalCharge: parseAmount(elements[3] || '0'),
+    paidAmount: parseAmount(elements[4] || '0'),
+    patientResponsibility: parseAmount(elements[5] || '0'),
+    ...(payerClaimControlNumber ? { payerClaimControlNumber } : {}),
+    adjustments: [],
+    remarkCodes: [],
+    serviceLines: [],
+  };
+}
+
+/**
+ * SVC01 is a composite of qualifier, procedure code and up to four modifiers
+ */
+function parseServiceLine(elements: string[], component: string): ERAServiceLine {
+  const [qualifier, procedureCode, ...modifiers] = (elements[1] || '').split(component);
+  const units = elements[5];
+  return {
+    procedureCode: procedureCode || qualifier || '',
+    modifiers: modifiers.filter(Boolean),
+    chargeAmount: parseAmount(elements[2] || '0'),
+    paidAmount: parseAmount(elements[3] || '0'),
+    ...(units ? { units: parseFloat(units) } : {}),
+    adjustments: [],
+    remarkCodes: [],
+  };
+}
+
+/**
+ * CAS carries up to six reason/amount/quantity triplets for one group code
+ */
+function parseAdjustments(elements: string[]): ClaimAdjustment[] {
+  const groupCode = elements[1] as ClaimAdjustmentGroupCode;
+  if (!ADJUSTMENT_GROUP_CODES.includes(groupCode)) {
+    return [];
+  }
+
+  const adjustments: ClaimAdjustment[] = [];
+  for (let index = 2; index < elements.length; index += 3) {
+    const reasonCode = elements[index];
+    if (!reasonCode) {
+      continue;
+    }
+    const quantity = elements[index + 2];
+    adjustments.push({
+      groupCode,
+      reasonCode,
+      amount: parseAmount(elements[index + 1] || '0'),
+      ...(quantity ? { quantity: parseFloat(quantity) } : {}),
+    });
+  }
+  return adjustments;
+}
+
+function parseAmount(value: string): number {
+  const amount = parseFloat(value);
+  return Number.isNaN(amount) ? 0 : amount;
+}
+
+function parseDate(value: string): Date {
+  const year = parseInt(value.slice(0, 4));
+  const month = parseInt(value.slice(4, 6));
+  const day = parseInt(value.slice(6, 8));
+  return new Date(year, month - 1, day);
+}
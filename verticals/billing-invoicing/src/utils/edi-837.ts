@@ -0,0 +1,458 @@
+/**
+ * X12 837 claim interchange generation
+ *
+ * Renders claims as an ANSI X12 005010 837 Professional (005010X222A1) or
+ * Institutional (005010X223A2) interchange suitable for clearinghouse upload.
+ * One interchange holds a single functional group and transaction set; every
+ * claim in it must be for the same payer and claim format.
+ */
+
+import {
+  Address,
+  ClaimLineItem,
+  EDI837AttendingProvider,
+  EDI837ClaimData,
+  EDI837Interchange,
+  EDI837Options,
+  PayerType,
+} from '../types/billing';
+import { roundToTwoDecimals } from './billing-calculations';
+
+const SEGMENT_TERMINATOR = '~';
+const ELEMENT_SEPARATOR = '*';
+const COMPONENT_SEPARATOR = ':';
+const REPETITION_SEPARATOR = '^';
+
+const IMPLEMENTATION_GUIDES = {
+  EDI_837P: '005010X222A1',
+  EDI_837I: '005010X223A2',
+} as const;
+
+/** HI segments carry at most 12 diagnosis codes; SV1 points at up to 4 of them */
+const MAX_CLAIM_DIAGNOSES = 12;
+const MAX_LINE_POINTERS = 4;
+const MAX_MODIFIERS = 4;
+
+/** ISA13 is nine digits; reserved control numbers wrap back to 1 */
+const MAX_CONTROL_NUMBER = 999_999_999;
+
+/**
+ * Claim filing indicator (SBR09) by payer type
+ */
+const CLAIM_FILING_INDICATORS: Record<PayerType, string> = {
+  MEDICAID: 'MC',
+  MEDICARE: 'MB',
+  MEDICARE_ADVANTAGE: '16',
+  PRIVATE_INSURANCE: 'CI',
+  MANAGED_CARE: 'HM',
+  VETERANS_BENEFITS: 'VA',
+  WORKERS_COMP: 'WC',
+  PRIVATE_PAY: 'ZZ',
+  GRANT: 'ZZ',
+  OTHER: 'ZZ',
+};
+
+/**
+ * Generate a complete ISA/IEA interchange for a set of claims
+ */
+export function generate837Interchange(
+  claims: EDI837ClaimData[],
+  options: EDI837Options
+): EDI837Interchange {
+  if (claims.length === 0) {
+    throw new Error('At least one claim is required to generate an 837 interchange');
+  }
+
+  const payerIdentifiers = new Set(claims.map((c) => c.payerIdentifier));
+  if (payerIdentifiers.size > 1) {
+    throw new Error('All claims in an 837 interchange must be for the same payer');
+  }
+
+  const mismatched = claims.filter((c) => c.claim.claimFormat !== options.claimFormat);
+  if (mismatched.length > 0) {
+    throw new Error(
+      `${mismatched.length} claims are not in ${options.claimFormat} format`
+    );
+  }
+
+  const createdAt = options.createdAt || new Date();
+  const version = IMPLEMENTATION_GUIDES[options.claimFormat];
+  const controlNumber = ((options.interchangeControlNumber - 1) % MAX_CONTROL_NUMBER) + 1;
+  const interchangeControlNumber = controlNumber.toString().padStart(9, '0');
+  const groupControlNumber = (options.groupControlNumber || controlNumber).toString();
+  const transactionControlNumber = '0001';
+
+  const transaction: string[][] = [
+    ['ST', '837', transactionControlNumber, version],
+    ['BHT', '0019', '00', interchangeControlNumber, formatDate(createdAt), formatTime(createdAt), 'CH'],
+    ...buildSubmitterLoop(options),
+    ['NM1', '40', '2', sanitize(options.receiver.name), '', '', '', '', '46', sanitize(options.receiver.identifier)],
+    ...buildBillingProviderLoop(options),
+  ];
+
+  let hierarchicalId = 2;
+  let totalCharges = 0;
+  for (const data of claims) {
+    transaction.push(...buildSubscriberLoop(data, hierarchicalId));
+    transaction.push(...buildClaimLoop(data, options));
+    totalCharges += data.claim.totalCharges;
+    hierarchicalId++;
+  }
+
+  // SE count includes both ST and SE
+  const segmentCount = transaction.length + 1;
+  transaction.push(['SE', segmentCount.toString(), transactionControlNumber]);
+
+  const segments: string[][] = [
+    [
+      'ISA',
+      '00',
+      ''.padEnd(10),
+      '00',
+      ''.padEnd(10),
+      'ZZ',
+      sanitize(options.senderId).padEnd(15).slice(0, 15),
+      'ZZ',
+      sanitize(options.receiverId).padEnd(15).slice(0, 15),
+      formatDate(createdAt).slice(2),
+      formatTime(createdAt),
+      REPETITION_SEPARATOR,
+      '00501',
+      interchangeControlNumber,
+      '0',
+      options.usageIndicator || 'P',
+      COMPONENT_SEPARATOR,
+    ],
+    [
+      'GS',
+      'HC',
+      sanitize(options.senderId),
+      sanitize(options.receiverId),
+      formatDate(createdAt),
+      formatTime(createdAt),
+      groupControlNumber,
+      'X',
+      version,
+    ],
+    ...transaction,
+    ['GE', '1', groupControlNumber],
+    ['IEA', '1', interchangeControlNumber],
+  ];
+
+  return {
+    content: segments.map(renderSegment).join('\n') + '\n',
+    interchangeControlNumber,
+    claimCount: claims.length,
+    segmentCount,
+    totalCharges: roundToTwoDecimals(totalCharges),
+  };
+}
+
+/**
+ * Loop 1000A - Submitter name and contact
+ */
+function buildSubmitterLoop(options: EDI837Options): string[][] {
+  const { submitter } = options;
+  const contact = ['PER', 'IC', sanitize(submitter.contactName)];
+  if (submitter.contactPhone) {
+    contact.push('TE', submitter.contactPhone.replace(/\D/g, ''));
+  }
+  if (submitter.contactEmail) {
+    contact.push('EM', sanitize(submitter.contactEmail));
+  }
+
+  return [
+    ['NM1', '41', '2', sanitize(submitter.name), '', '', '', '', '46', sanitize(submitter.identifier)],
+    contact,
+  ];
+}
+
+/**
+ * Loop 2000A/2010AA - Billing provider
+ */
+function buildBillingProviderLoop(options: EDI837Options): string[][] {
+  const provider = options.billingProvider;
+  const segments: string[][] = [['HL', '1', '', '20', '1']];
+
+  if (provider.taxonomyCode) {
+    segments.push(['PRV', 'BI', 'PXC', provider.taxonomyCode]);
+  }
+
+  segments.push(
+    ['NM1', '85', '2', sanitize(provider.name), '', '', '', '', 'XX', provider.npi],
+    ...buildAddress(provider.address),
+    ['REF', 'EI', provider.taxId.replace(/\D/g, '')]
+  );
+
+  return segments;
+}
+
+/**
+ * Loop 2000B/2010BA/2010BB - Subscriber and payer
+ *
+ * Waiver clients are their own subscribers, so no 2000C patient loop is sent.
+ */
+function buildSubscriberLoop(data: EDI837ClaimData, hierarchicalId: number): string[][] {
+  const { subscriber, claim } = data;
+  const subscriberName = ['NM1', 'IL', '1', sanitize(subscriber.lastName), sanitize(subscriber.firstName)];
+  subscriberName.push(subscriber.middleName ? sanitize(subscriber.middleName) : '', '', '', 'MI', sanitize(subscriber.memberId));
+
+  return [
+    ['HL', hierarchicalId.toString(), '1', '22', '0'],
+    ['SBR', 'P', '18', '', '', '', '', '', '', CLAIM_FILING_INDICATORS[claim.payerType]],
+    subscriberName,
+    ...buildAddress(subscriber.address),
+    ['DMG', 'D8', formatDate(subscriber.dateOfBirth), subscriber.gender],
+    ['NM1', 'PR', '2', sanitize(data.payerName), '', '', '', '', 'PI', sanitize(data.payerIdentifier)],
+  ];
+}
+
+/**
+ * Loop 2300 - Claim information, followed by its 2400 service lines
+ */
+function buildClaimLoop(data: EDI837ClaimData, options: EDI837Options): string[][] {
+  const { claim } = data;
+  const lines = [...claim.lineItems].sort((a, b) => a.lineNumber - b.lineNumber);
+  const diagnoses = collectDiagnoses(lines);
+
+  if (diagnoses.length === 0) {
+    throw new Error(`Claim ${claim.claimNumber} has no diagnosis codes`);
+  }
+
+  const isProfessional = options.claimFormat === 'EDI_837P';
+  if (!isProfessional && !data.attendingProvider?.npi) {
+    throw new Error(`Claim ${claim.claimNumber} has no attending provider NPI`);
+  }
+
+  const placeOfService = lines[0]?.placeOfService || '12';
+  const facilityCode = isProfessional
+    ? [placeOfService, 'B', '1']
+    : [options.facilityTypeCode || '32', 'A', '1'];
+
+  const segments: string[][] = [
+    [
+      'CLM',
+      sanitize(claim.claimNumber),
+      formatAmount(claim.totalCharges),
+      '',
+      '',
+      facilityCode.join(COMPONENT_SEPARATOR),
+      ...(isProfessional ? ['Y', 'A', 'Y', 'Y'] : ['', 'A', 'Y', 'Y']),
+    ],
+  ];
+
+  if (!isProfessional) {
+    const serviceDates = lines.map((line) => new Date(line.serviceDate).getTime());
+    segments.push([
+      'DTP',
+      '434',
+      'RD8',
+      `${formatDate(new Date(Math.min(...serviceDates)))}-${formatDate(new Date(Math.max(...serviceDates)))}`,
+    ]);
+    segments.push(['CL1', options.admissionTypeCode || '9', '', options.patientStatusCode || '30']);
+  }
+
+  // A single prior authorization applies claim-wide; otherwise each line carries its own
+  const authorizations = new Set(
+    lines.map((line) => line.authorizationNumber).filter((auth): auth is string => !!auth)
+  );
+  const claimLevelAuthorization = authorizations.size === 1 ? [...authorizations][0] : undefined;
+  if (claimLevelAuthorization) {
+    segments.push(['REF', 'G1', sanitize(claimLevelAuthorization)]);
+  }
+
+  segments.push([
+    'HI',
+    ...diagnoses.map((code, index) =>
+      [index === 0 ? 'ABK' : 'ABF', formatDiagnosis(code)].join(COMPONENT_SEPARATOR)
+    ),
+  ]);
+
+  if (!isProfessional) {
+    segments.push(buildAttendingProvider(data.attendingProvider!));
+  }
+
+  lines.forEach((line, index) => {
+    segments.push(['LX', (index + 1).toString()]);
+    segments.push(
+      isProfessional
+        ? buildProfessionalServiceLine(line, diagnoses)
+        : buildInstitutionalServiceLine(line, options.revenueCode || '0570')
+    );
+    segments.push(['DTP', '472', 'D8', formatDate(new Date(line.serviceDate))]);
+
+    if (line.authorizationNumber && !claimLevelAuthorization) {
+      segments.push(['REF', 'G1', sanitize(line.authorizationNumber)]);
+    }
+
+    // Echoed back on the 835 so remittance lines match without guessing
+    segments.push(['REF', '6R', line.id]);
+
+    if (
+      isProfessional &&
+      line.providerNPI &&
+      line.providerNPI !== options.billingProvider.npi
+    ) {
+      segments.push(buildRenderingProvider(line));
+    }
+  });
+
+  return segments;
+}
+
+/**
+ * SV1 - Professional service with diagnosis pointers
+ */
+function buildProfessionalServiceLine(line: ClaimLineItem, diagnoses: string[]): string[] {
+  const pointers = (line.diagnosisCodes || [])
+    .map((code) => diagnoses.indexOf(normalizeDiagnosis(code)) + 1)
+    .filter((pointer) => pointer > 0)
+    .slice(0, MAX_LINE_POINTERS);
+
+  return [
+    'SV1',
+    buildProcedure(line),
+    formatAmount(line.chargeAmount),
+    'UN',
+    formatQuantity(line.units),
+    '',
+    '',
+    (pointers.length > 0 ? pointers : [1]).join(COMPONENT_SEPARATOR),
+  ];
+}
+
+/**
+ * SV2 - Institutional service with revenue code
+ */
+function buildInstitutionalServiceLine(line: ClaimLineItem, revenueCode: string): string[] {
+  return [
+    'SV2',
+    revenueCode,
+    buildProcedure(line),
+    formatAmount(line.chargeAmount),
+    'UN',
+    formatQuantity(line.units),
+  ];
+}
+
+/**
+ * Loop 2420A - Rendering provider, sent when the caregiver has an individual NPI
+ */
+function buildRenderingProvider(line: ClaimLineItem): string[] {
+  return ['NM1', '82', '1', ...splitName(line.providerName), '', '', '', 'XX', line.providerNPI];
+}
+
+/**
+ * Loop 2310A - Attending provider, required on institutional claims
+ */
+function buildAttendingProvider(provider: EDI837AttendingProvider): string[] {
+  return ['NM1', '71', '1', ...splitName(provider.name), '', '', '', 'XX', provider.npi];
+}
+
+/**
+ * Last and first name from a full name
+ */
+function splitName(name: string): [string, string] {
+  const nameParts = sanitize(name).split(/\s+/).filter(Boolean);
+  const lastName = nameParts.length > 0 ? nameParts[nameParts.length - 1]! : '';
+  return [lastName, nameParts.slice(0, -1).join(' ')];
+}
+
+/**
+ * Composite procedure identifier: HC:code[:modifier...]
+ */
+function buildProcedure(line: ClaimLineItem): string {
+  const modifiers = (line.modifiers || [])
+    .map((modifier) => sanitize(modifier.code))
+    .filter(Boolean)
+    .slice(0, MAX_MODIFIERS);
+
+  return ['HC', sanitize(line.serviceCode), ...modifiers].join(COMPONENT_SEPARATOR);
+}
+
+function buildAddress(address: Address): string[][] {
+  const street = ['N3', sanitize(address.line1)];
+  if (address.line2) {
+    street.push(sanitize(address.line2));
+  }
+
+  return [
+    street,
+    ['N4', sanitize(address.city), sanitize(address.state), address.postalCode.replace(/\D/g, '')],
+  ];
+}
+
+/**
+ * Unique diagnosis codes across all lines, in first-seen order
+ */
+function collectDiagnoses(lines: ClaimLineItem[]): string[] {
+  const diagnoses: string[] = [];
+  for (const line of lines) {
+    for (const code of line.diagnosisCodes || []) {
+      const normalized = normalizeDiagnosis(code);
+      if (normalized && !diagnoses.includes(normalized)) {
+        diagnoses.push(normalized);
+      }
+    }
+  }
+  return diagnoses.slice(0, MAX_CLAIM_DIAGNOSES);
+}
+
+function normalizeDiagnosis(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+/**
+ * ICD-10 codes are transmitted without the decimal point
+ */
+function formatDiagnosis(code: string): string {
+  return sanitize(code.replace('.', ''));
+}
+
+/**
+ * Strip characters that would collide with X12 delimiters
+ */
+function sanitize(value: string | undefined): string {
+  if (!value) {
+    return '';
+  }
+  return value
+    .replace(/[*~:^]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .toUpperCase();
+}
+
+function renderSegment(elements: string[]): string {
+  // Trailing empty elements are not transmitted
+  let end = elements.length;
+  while (end > 1 && elements[end - 1] === '') {
+    end--;
+  }
+  return elements.slice(0, end).join(ELEMENT_SEPARATOR) + SEGMENT_TERMINATOR;
+}
+
+function formatAmount(amount: number): string {
+  return roundToTwoDecimals(amount).toString();
+}
+
+function formatQuantity(quantity: number): string {
+  return (Math.round(quantity * 1000) / 1000).toString();
+}
+
+/**
+ * DATE columns come back from node-pg as local midnight, so dates are
+ * rendered with local getters, the same way the 835 parser reads them
+ */
+function formatDate(date: Date): string {
+  const year = date.getFullYear();
+  const month = (date.getMonth() + 1).toString().padStart(2, '0');
+  const day = date.getDate().toString().padStart(2, '0');
+  return `${year}${month}${day}`;
+}
+
+function formatTime(date: Date): string {
+  const hours = date.getHours().toString().padStart(2, '0');
+  const minutes = date.getMinutes().toString().padStart(2, '0');
+  return `${hours}${minutes}`;
+}
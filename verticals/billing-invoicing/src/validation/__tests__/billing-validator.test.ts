@@ -21,6 +21,7 @@ import {
   validateInvoiceStatusTransition,
   validatePaymentStatusTransition,
   validateAuthorizationStatusTransition,
+  validateClaimStatusTransition,
   isValidPayerType,
   isValidUnitType,
 } from '../billing-validator';
@@ -647,6 +648,25 @@ describe('Claim Validation', () => {
       expect(result.warnings).toBeDefined();
       expect(result.warnings![0]).toContain('EDI claim formats');
     });
+
+    it('should require diagnosis codes for EDI formats', () => {
+      const input = {
+        ...validClaim,
+        claimFormat: 'EDI_837P' as any,
+        submissionMethod: 'CLEARINGHOUSE' as any,
+      };
+      expect(validateSubmitClaim(input).valid).toBe(false);
+      expect(validateSubmitClaim({ ...input, diagnosisCodes: ['R26.81'] }).valid).toBe(true);
+      expect(
+        validateSubmitClaim({ ...input, diagnosisCodesByClient: { 'client-1': ['R26.81'] } }).valid
+      ).toBe(true);
+    });
+
+    it('should reject malformed place of service codes', () => {
+      const result = validateSubmitClaim({ ...validClaim, placeOfService: 'HOME' });
+      expect(result.valid).toBe(false);
+      expect(result.errors[0]).toContain('placeOfService');
+    });
   });
 });
 
@@ -714,6 +734,22 @@ describe('Status Transition Validation', () => {
       expect(validateAuthorizationStatusTransition('CANCELLED', 'ACTIVE').valid).toBe(false);
     });
   });
+
+  describe('validateClaimStatusTransition', () => {
+    it('should allow valid transitions', () => {
+      expect(validateClaimStatusTransition('PENDING', 'ACCEPTED').valid).toBe(true);
+      expect(validateClaimStatusTransition('REJECTED', 'RESUBMITTED').valid).toBe(true);
+      expect(validateClaimStatusTransition('DENIED', 'APPEALED').valid).toBe(true);
+      expect(validateClaimStatusTransition('APPEALED', 'APPROVED').valid).toBe(true);
+      expect(validateClaimStatusTransition('PENDING', 'APPROVED').valid).toBe(true);
+    });
+
+    it('should reject invalid transitions', () => {
+      expect(validateClaimStatusTransition('PENDING', 'APPEALED').valid).toBe(false);
+      expect(validateClaimStatusTransition('APPROVED', 'DENIED').valid).toBe(false);
+      expect(validateClaimStatusTransition('REJECTED', 'APPEALED').valid).toBe(false);
+    });
+  });
 });
 
 describe('Type Validators', () => {
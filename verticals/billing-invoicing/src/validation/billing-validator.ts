@@ -19,6 +19,7 @@ import {
   InvoiceStatus,
   PaymentStatus,
   AuthorizationStatus,
+  ClaimStatus,
 } from '../types/billing';
 
 export interface ValidationResult {
@@ -613,6 +614,24 @@ export function validateSubmitClaim(input: SubmitClaimInput): ValidationResult {
         'EDI claim formats typically require EDI or CLEARINGHOUSE submission method'
       );
     }
+    const hasDiagnoses =
+      (input.diagnosisCodes?.length ?? 0) > 0 ||
+      Object.values(input.diagnosisCodesByClient || {}).some((codes) => codes.length > 0);
+    if (!hasDiagnoses) {
+      errors.push('At least one diagnosis code is required for EDI claim formats');
+    }
+  }
+
+  const diagnosisLists = [
+    input.diagnosisCodes || [],
+    ...Object.values(input.diagnosisCodesByClient || {}),
+  ];
+  if (diagnosisLists.some((codes) => codes.length > 12)) {
+    errors.push('A claim cannot carry more than 12 diagnosis codes');
+  }
+
+  if (input.placeOfService && !/^\d{2}$/.test(input.placeOfService)) {
+    errors.push('placeOfService must be a two-digit place of service code');
   }
 
   const result: ValidationResult = {
@@ -787,6 +806,42 @@ export function validateAuthorizationStatusTransition(
   };
 }
 
+/**
+ * Validate claim status transition
+ */
+export function validateClaimStatusTransition(
+  currentStatus: ClaimStatus,
+  newStatus: ClaimStatus
+): ValidationResult {
+  const errors: string[] = [];
+
+  // Define valid transitions
+  const validTransitions: Record<ClaimStatus, ClaimStatus[]> = {
+    // Not every payer acknowledges receipt, so an ERA may adjudicate a claim directly
+    PENDING: ['ACCEPTED', 'REJECTED', 'PROCESSING', 'APPROVED', 'DENIED'],
+    ACCEPTED: ['PROCESSING', 'APPROVED', 'DENIED'],
+    REJECTED: ['RESUBMITTED'], // Front-end rejections are corrected and resubmitted
+    PROCESSING: ['APPROVED', 'DENIED'],
+    APPROVED: [], // Cannot transition from APPROVED
+    DENIED: ['APPEALED', 'RESUBMITTED'],
+    APPEALED: ['APPROVED', 'DENIED'],
+    RESUBMITTED: ['ACCEPTED', 'REJECTED', 'PROCESSING', 'APPROVED', 'DENIED'],
+  };
+
+  const allowedTransitions = validTransitions[currentStatus] || [];
+
+  if (!allowedTransitions.includes(newStatus)) {
+    errors.push(
+      `Invalid status transition from ${currentStatus} to ${newStatus}`
+    );
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+}
+
 /**
  * Helper: Validate email format
  */
@@ -10,10 +10,18 @@
  */
 
 import { describe, it, expect, beforeEach, vi } from 'vitest';
-import { FamilyEngagementService } from '../services/family-engagement-service.js';
+import {
+  FamilyEngagementService,
+  redactVisitSummary,
+  redactProgressReport,
+} from '../services/family-engagement-service.js';
 import type { UserContext } from '@care-commons/core';
 import type {
+  CarePlanProgressReport,
+  GrantFamilyConsentInput,
   InviteFamilyMemberInput,
+  VisitSummary,
+  VisitSummarySource,
 } from '../types/family-engagement.js';
 
 describe('FamilyEngagementService', () => {
@@ -26,6 +34,10 @@ describe('FamilyEngagementService', () => {
   let mockUserRepository: any;
   let mockClientService: any;
   let mockCarePlanService: any;
+  let mockVisitSummaryRepo: any;
+  let mockProgressReportRepo: any;
+  let mockConsentRepo: any;
+  let mockClientAuditService: any;
   let userContext: UserContext;
 
   beforeEach(() => {
@@ -43,9 +55,36 @@ describe('FamilyEngagementService', () => {
       createNotification: vi.fn(),
     };
 
-    mockActivityFeedRepo = {};
+    mockActivityFeedRepo = {
+      create: vi.fn().mockImplementation((item) => Promise.resolve({ id: 'activity-1', ...item })),
+    };
     mockMessageRepo = {};
 
+    mockVisitSummaryRepo = {
+      getVisitSummarySource: vi.fn(),
+      getSummaryByVisitId: vi.fn().mockResolvedValue(null),
+      createSummary: vi.fn().mockImplementation((data) => Promise.resolve({ id: 'summary-1', ...data })),
+      updateSummary: vi.fn().mockImplementation((id, data) => Promise.resolve({ id, ...data })),
+      getPublishedSummariesForFamilyMember: vi.fn(),
+    };
+
+    mockProgressReportRepo = {
+      createReport: vi.fn().mockImplementation((data) => Promise.resolve({ id: 'report-1', ...data })),
+      getPublishedReportsForFamilyMember: vi.fn(),
+    };
+
+    mockConsentRepo = {
+      createConsent: vi.fn().mockImplementation((data) => Promise.resolve({ id: 'consent-new', ...data })),
+      getConsentById: vi.fn(),
+      getConsentsForClient: vi.fn(),
+      getActiveConsents: vi.fn().mockResolvedValue([]),
+      revokeConsent: vi.fn(),
+    };
+
+    mockClientAuditService = {
+      logDisclosure: vi.fn().mockResolvedValue('audit-1'),
+    };
+
     // Mock permissions service
     mockPermissions = {
       hasPermission: vi.fn(),
@@ -64,6 +103,7 @@ describe('FamilyEngagementService', () => {
     // Mock care plan service
     mockCarePlanService = {
       getActiveCarePlanForClient: vi.fn(),
+      getCarePlanById: vi.fn(),
     };
 
     service = new FamilyEngagementService(
@@ -74,7 +114,11 @@ describe('FamilyEngagementService', () => {
       mockPermissions,
       mockUserRepository,
       mockClientService,
-      mockCarePlanService
+      mockCarePlanService,
+      mockVisitSummaryRepo,
+      mockProgressReportRepo,
+      mockConsentRepo,
+      mockClientAuditService
     );
 
     // Default user context
@@ -536,6 +580,7 @@ describe('FamilyEngagementService', () => {
     it('should return unread notifications', async () => {
       // Arrange
       mockPermissions.hasPermission.mockReturnValue(true);
+      mockFamilyMemberRepo.findById.mockResolvedValue({ id: 'member-123', clientId: 'client-123' });
       const notifications = [
         { id: 'notif-1', title: 'Visit completed', readAt: null },
         { id: 'notif-2', title: 'Care plan updated', readAt: null },
@@ -563,6 +608,7 @@ describe('FamilyEngagementService', () => {
     it('should return empty array when no unread notifications', async () => {
       // Arrange
       mockPermissions.hasPermission.mockReturnValue(true);
+      mockFamilyMemberRepo.findById.mockResolvedValue({ id: 'member-123', clientId: 'client-123' });
       mockNotificationRepo.getUnreadNotifications = vi.fn().mockResolvedValue([]);
 
       // Act
@@ -596,4 +642,462 @@ describe('FamilyEngagementService', () => {
       ).rejects.toThrow('Insufficient permissions to update notifications');
     });
   });
+
+  describe('visit summaries', () => {
+    const visitSource: VisitSummarySource = {
+      visitId: 'visit-123',
+      clientId: 'client-123',
+      visitStatus: 'COMPLETED',
+      scheduledStartTime: new Date('2025-03-03T14:00:00Z'),
+      scheduledEndTime: new Date('2025-03-03T16:00:00Z'),
+      actualStartTime: new Date('2025-03-03T14:05:00Z'),
+      actualEndTime: new Date('2025-03-03T16:00:00Z'),
+      caregiverName: 'Sarah Johnson',
+      tasks: [
+        { taskId: 'task-1', taskName: 'Bathing', category: 'BATHING', status: 'COMPLETED', completionNote: 'Enjoyed the shower' },
+        { taskId: 'task-2', taskName: 'Medication reminder', category: 'MEDICATION', status: 'COMPLETED', completionNote: 'Took 10mg lisinopril' },
+        { taskId: 'task-3', taskName: 'Laundry', category: 'LAUNDRY', status: 'SKIPPED', skipReason: 'Client declined' },
+      ],
+      notes: [
+        { noteType: 'GENERAL', noteText: 'We went for a short walk.', clientMood: 'GOOD', isIncident: false, createdAt: new Date() },
+        { noteType: 'CLINICAL', noteText: 'BP 150/95, reported to nurse.', isIncident: false, createdAt: new Date() },
+      ],
+      organizationId: 'org-123',
+      branchId: 'branch-123',
+    };
+
+    const familyMembers = [
+      { id: 'member-1', firstName: 'Jane', lastName: 'Doe', status: 'ACTIVE', portalAccessLevel: 'VIEW_DETAILED' },
+      { id: 'member-2', firstName: 'Tom', lastName: 'Doe', status: 'INACTIVE', portalAccessLevel: 'FULL_ACCESS' },
+    ];
+
+    beforeEach(() => {
+      mockPermissions.hasPermission.mockReturnValue(true);
+      mockVisitSummaryRepo.getVisitSummarySource.mockResolvedValue(visitSource);
+      mockFamilyMemberRepo.findByClientId.mockResolvedValue(familyMembers);
+      mockUserRepository.getUserById.mockResolvedValue({ firstName: 'Casey', lastName: 'Coordinator' });
+    });
+
+    it('should draft a summary that withholds clinical notes', async () => {
+      const draft = await service.draftVisitSummary('visit-123', userContext);
+
+      expect(draft.suggestedVisitNotes).toBe(
+        'Your loved one was in good spirits during the visit.\n\nWe went for a short walk.'
+      );
+      expect(draft.withheldNotes).toEqual([expect.objectContaining({ noteType: 'CLINICAL' })]);
+      expect(draft.tasks.map(task => task.status)).toEqual(['COMPLETED', 'COMPLETED', 'SKIPPED']);
+      expect(draft.familyMembers).toEqual([
+        { id: 'member-1', name: 'Jane Doe', portalAccessLevel: 'VIEW_DETAILED' },
+      ]);
+    });
+
+    it('should reject drafting visits that are not completed', async () => {
+      mockVisitSummaryRepo.getVisitSummarySource.mockResolvedValue({ ...visitSource, visitStatus: 'IN_PROGRESS' });
+
+      await expect(service.draftVisitSummary('visit-123', userContext)).rejects.toThrow(
+        'only completed visits can be summarized'
+      );
+    });
+
+    it('should not summarize visits from another organization', async () => {
+      mockVisitSummaryRepo.getVisitSummarySource.mockResolvedValue({ ...visitSource, organizationId: 'org-999' });
+
+      await expect(service.draftVisitSummary('visit-123', userContext)).rejects.toThrow('Visit not found');
+    });
+
+    it('should publish the selected tasks and post to the activity feed', async () => {
+      const summary = await service.publishVisitSummary(
+        {
+          visitId: 'visit-123',
+          clientId: 'client-123',
+          familyMemberIds: ['member-1'],
+          visitNotes: '  A calm, pleasant visit.  ',
+          tasksToInclude: ['task-1', 'task-3'],
+          visibleToFamily: true,
+        },
+        userContext
+      );
+
+      expect(summary.tasksCompleted.map(task => task.taskId)).toEqual(['task-1', 'task-3']);
+      expect(summary.visitNotes).toBe('A calm, pleasant visit.');
+      expect(summary.publishedAt).toBeInstanceOf(Date);
+      expect(mockVisitSummaryRepo.createSummary).toHaveBeenCalledWith(
+        expect.objectContaining({ visitId: 'visit-123', status: 'COMPLETED' }),
+        'user-123'
+      );
+      expect(mockActivityFeedRepo.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          familyMemberId: 'member-1',
+          activityType: 'VISIT_COMPLETED',
+          description: 'Sarah Johnson completed 1 of 2 care tasks during the visit.',
+          performedByName: 'Casey Coordinator',
+        }),
+        userContext
+      );
+    });
+
+    it('should replace an existing summary without re-announcing it', async () => {
+      mockVisitSummaryRepo.getSummaryByVisitId.mockResolvedValue({ id: 'summary-1', publishedAt: new Date() });
+
+      await service.publishVisitSummary(
+        {
+          visitId: 'visit-123',
+          clientId: 'client-123',
+          familyMemberIds: ['member-1'],
+          tasksToInclude: [],
+          visibleToFamily: true,
+        },
+        userContext
+      );
+
+      expect(mockVisitSummaryRepo.updateSummary).toHaveBeenCalledWith('summary-1', expect.any(Object), 'user-123');
+      expect(mockActivityFeedRepo.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject inactive family members and tasks from other visits', async () => {
+      const input = {
+        visitId: 'visit-123',
+        clientId: 'client-123',
+        familyMemberIds: ['member-2'],
+        tasksToInclude: ['task-1'],
+        visibleToFamily: true,
+      };
+
+      await expect(service.publishVisitSummary(input, userContext)).rejects.toThrow(
+        'member-2 is not an active family member of this client'
+      );
+      await expect(
+        service.publishVisitSummary({ ...input, familyMemberIds: ['member-1'], tasksToInclude: ['task-999'] }, userContext)
+      ).rejects.toThrow('tasks must belong to the visit');
+      expect(mockVisitSummaryRepo.createSummary).not.toHaveBeenCalled();
+    });
+
+    it('should reject publishing without publish permissions', async () => {
+      mockPermissions.hasPermission.mockReturnValue(false);
+
+      await expect(service.draftVisitSummary('visit-123', userContext)).rejects.toThrow(
+        'Insufficient permissions to publish visit summaries'
+      );
+    });
+
+    it('should return summaries redacted to the family member access level', async () => {
+      mockFamilyMemberRepo.findById.mockResolvedValue({ id: 'member-1', portalAccessLevel: 'VIEW_BASIC' });
+      mockVisitSummaryRepo.getPublishedSummariesForFamilyMember.mockResolvedValue([
+        { id: 'summary-1', visitNotes: 'Lovely visit', tasksCompleted: [] },
+      ]);
+
+      const summaries = await service.getVisitSummariesForFamilyMember('member-1', userContext);
+
+      expect(mockVisitSummaryRepo.getPublishedSummariesForFamilyMember).toHaveBeenCalledWith('member-1', 20);
+      expect(summaries[0]!.visitNotes).toBeUndefined();
+    });
+
+    it('should only let family users read their own summaries', async () => {
+      const familyContext = { ...userContext, userId: 'member-1', roles: ['FAMILY'] } as UserContext;
+
+      await expect(service.getVisitSummariesForFamilyMember('member-2', familyContext)).rejects.toThrow(
+        'You can only access your own family portal'
+      );
+    });
+  });
+
+  describe('redactVisitSummary', () => {
+    const summary = {
+      id: 'summary-1',
+      visitNotes: 'A calm, pleasant visit.',
+      tasksCompleted: [
+        { taskId: 'task-1', taskName: 'Bathing', category: 'BATHING', status: 'COMPLETED', notes: 'Enjoyed the shower' },
+        { taskId: 'task-2', taskName: 'Medication reminder', category: 'MEDICATION', status: 'COMPLETED', notes: 'Took 10mg lisinopril' },
+      ],
+    } as VisitSummary;
+
+    it('should show everything with medical access', () => {
+      expect(redactVisitSummary(summary, 'VIEW_MEDICAL')).toEqual(summary);
+      expect(redactVisitSummary(summary, 'FULL_ACCESS')).toEqual(summary);
+    });
+
+    it('should hide clinical task detail from detailed access', () => {
+      const redacted = redactVisitSummary(summary, 'VIEW_DETAILED');
+
+      expect(redacted.visitNotes).toBe('A calm, pleasant visit.');
+      expect(redacted.tasksCompleted[0]).toMatchObject({ taskName: 'Bathing', notes: 'Enjoyed the shower' });
+      expect(redacted.tasksCompleted[1]).toEqual({
+        taskId: 'task-2',
+        taskName: 'Health-related care',
+        category: 'CLINICAL',
+        status: 'COMPLETED',
+        completedAt: undefined,
+      });
+    });
+
+    it('should hide all notes from basic access', () => {
+      const redacted = redactVisitSummary(summary, 'VIEW_BASIC');
+
+      expect(redacted.visitNotes).toBeUndefined();
+      expect(redacted.tasksCompleted.every(task => task.notes === undefined)).toBe(true);
+    });
+  });
+
+  describe('progress reports', () => {
+    const carePlan = {
+      id: 'care-plan-123',
+      clientId: 'client-123',
+      organizationId: 'org-123',
+      branchId: 'branch-123',
+      goals: [
+        {
+          id: 'goal-1',
+          name: 'Walk to the mailbox',
+          category: 'MOBILITY',
+          status: 'ON_TRACK',
+          targetValue: 20,
+          currentValue: 12,
+          unit: 'minutes',
+          milestones: [
+            { id: 'm-1', name: 'Walk 10 minutes', targetDate: new Date('2025-03-10'), completedDate: new Date('2025-03-08'), status: 'COMPLETED' },
+          ],
+        },
+        { id: 'goal-2', name: 'Manage medications', category: 'MEDICATION_MANAGEMENT', status: 'ACHIEVED', achievedDate: new Date('2025-03-20') },
+        { id: 'goal-3', name: 'Reduce pain', category: 'PAIN_MANAGEMENT', status: 'NOT_ACHIEVED', progressPercentage: 30 },
+        { id: 'goal-4', name: 'Old goal', category: 'OTHER', status: 'DISCONTINUED' },
+      ],
+    };
+
+    const reportInput = {
+      carePlanId: 'care-plan-123',
+      clientId: 'client-123',
+      familyMemberIds: ['member-1', 'member-2'],
+      reportPeriodStart: new Date('2025-03-01T00:00:00Z'),
+      reportPeriodEnd: new Date('2025-03-31T23:59:59Z'),
+      reportType: 'MONTHLY' as const,
+      overallSummary: 'A strong month with steady mobility gains.',
+    };
+
+    beforeEach(() => {
+      mockPermissions.hasPermission.mockReturnValue(true);
+      mockCarePlanService.getCarePlanById.mockResolvedValue(carePlan);
+      mockFamilyMemberRepo.findByClientId.mockResolvedValue([
+        { id: 'member-1', status: 'ACTIVE', portalAccessLevel: 'VIEW_DETAILED' },
+        { id: 'member-2', status: 'ACTIVE', portalAccessLevel: 'VIEW_BASIC' },
+      ]);
+      mockUserRepository.getUserById.mockResolvedValue({ firstName: 'Casey', lastName: 'Coordinator' });
+    });
+
+    it('should build the report from care plan goal progress', async () => {
+      const report = await service.generateProgressReport(reportInput, userContext);
+
+      expect(report).toMatchObject({
+        goalsTotal: 3,
+        goalsAchieved: 1,
+        goalsInProgress: 1,
+        goalsAtRisk: 1,
+        preparedByName: 'Casey Coordinator',
+      });
+      expect(report.goalProgress[0]).toMatchObject({
+        goalId: 'goal-1',
+        currentStatus: 'ON_TRACK',
+        progressPercentage: 60,
+        recentUpdates: 'Reached milestone "Walk 10 minutes". Currently at 12 of 20 minutes.',
+      });
+      expect(report.goalProgress[1]).toMatchObject({ progressPercentage: 100, recentUpdates: 'Goal achieved.' });
+      expect(report.goalProgress[2]).toMatchObject({ currentStatus: 'AT_RISK', progressPercentage: 30 });
+    });
+
+    it('should post the report to the feed of family members with detailed access', async () => {
+      await service.generateProgressReport(reportInput, userContext);
+
+      expect(mockActivityFeedRepo.create).toHaveBeenCalledTimes(1);
+      expect(mockActivityFeedRepo.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          familyMemberId: 'member-1',
+          activityType: 'CARE_PLAN_UPDATED',
+          title: 'Monthly Progress Report',
+          description: '1 of 3 care goals achieved, 1 in progress.',
+          relatedEntityId: 'care-plan-123',
+        }),
+        userContext
+      );
+    });
+
+    it('should reject an empty report period and another client\'s care plan', async () => {
+      await expect(
+        service.generateProgressReport({ ...reportInput, reportPeriodEnd: reportInput.reportPeriodStart }, userContext)
+      ).rejects.toThrow('report period must end after it starts');
+      await expect(
+        service.generateProgressReport({ ...reportInput, clientId: 'client-999' }, userContext)
+      ).rejects.toThrow('care plan does not belong to this client');
+      expect(mockProgressReportRepo.createReport).not.toHaveBeenCalled();
+    });
+
+    it('should not return reports to family members with basic access', async () => {
+      mockFamilyMemberRepo.findById.mockResolvedValue({ id: 'member-2', portalAccessLevel: 'VIEW_BASIC' });
+
+      const reports = await service.getProgressReportsForFamilyMember('member-2', userContext);
+
+      expect(reports).toEqual([]);
+      expect(mockProgressReportRepo.getPublishedReportsForFamilyMember).not.toHaveBeenCalled();
+    });
+
+    it('should redact clinical goals without medical access', () => {
+      const report = {
+        goalProgress: [
+          { goalId: 'goal-1', goalName: 'Walk to the mailbox', category: 'MOBILITY', recentUpdates: 'Progressing' },
+          { goalId: 'goal-2', goalName: 'Manage medications', category: 'MEDICATION_MANAGEMENT', recentUpdates: 'Dose changed' },
+        ],
+      } as CarePlanProgressReport;
+
+      const redacted = redactProgressReport(report, 'VIEW_DETAILED');
+
+      expect(redacted.goalProgress[0]).toEqual(report.goalProgress[0]);
+      expect(redacted.goalProgress[1]).toMatchObject({ goalName: 'Health-related goal', category: 'CLINICAL', recentUpdates: '' });
+      expect(redactProgressReport(report, 'VIEW_MEDICAL')).toEqual(report);
+    });
+  });
+
+  describe('consent', () => {
+    const familyMember = {
+      id: 'member-1',
+      clientId: 'client-123',
+      organizationId: 'org-123',
+      firstName: 'Jane',
+      lastName: 'Doe',
+      relationship: 'CHILD',
+      status: 'ACTIVE',
+      portalAccessLevel: 'VIEW_DETAILED',
+    };
+    const consentInput = {
+      familyMemberId: 'member-1',
+      clientId: 'client-123',
+      scopes: ['VISIT_SCHEDULE', 'CLINICAL_NOTES'],
+      signedByClientId: 'client-123',
+      signedByName: 'Margaret Doe',
+    } as GrantFamilyConsentInput;
+    let familyContext: UserContext;
+
+    beforeEach(() => {
+      mockPermissions.hasPermission.mockReturnValue(true);
+      mockFamilyMemberRepo.findById.mockResolvedValue(familyMember);
+      familyContext = { ...userContext, userId: 'member-1', roles: ['FAMILY'] } as UserContext;
+    });
+
+    it('should record new consent, which supersedes existing consent in the repository', async () => {
+      const consent = await service.grantConsent(consentInput, userContext);
+
+      expect(mockConsentRepo.createConsent).toHaveBeenCalledTimes(1);
+      expect(mockConsentRepo.revokeConsent).not.toHaveBeenCalled();
+      expect(consent).toMatchObject({ scopes: ['VISIT_SCHEDULE', 'CLINICAL_NOTES'], organizationId: 'org-123', createdBy: 'user-123' });
+    });
+
+    it('should not grant consent for a family member in another organization', async () => {
+      mockFamilyMemberRepo.findById.mockResolvedValue({ ...familyMember, organizationId: 'org-999' });
+
+      await expect(service.grantConsent(consentInput, userContext)).rejects.toThrow('Family member not found');
+      expect(mockConsentRepo.createConsent).not.toHaveBeenCalled();
+    });
+
+    it('should list consent history within the caller organization', async () => {
+      mockConsentRepo.getConsentsForClient.mockResolvedValue([]);
+
+      await service.getConsentsForClient('client-123', userContext);
+
+      expect(mockConsentRepo.getConsentsForClient).toHaveBeenCalledWith('client-123', 'org-123');
+    });
+
+    it('should reject consent without a valid scope or signatory', async () => {
+      await expect(
+        service.grantConsent({ ...consentInput, scopes: [] }, userContext)
+      ).rejects.toThrow('scopes must be one or more of');
+      await expect(
+        service.grantConsent({ ...consentInput, signedByClientId: undefined }, userContext)
+      ).rejects.toThrow('signed by either the client or a legal representative');
+      expect(mockConsentRepo.createConsent).not.toHaveBeenCalled();
+    });
+
+    it('should only accept a legal representative as guardian signatory', async () => {
+      mockFamilyMemberRepo.findById.mockImplementation((id: string) => Promise.resolve(
+        id === 'member-2' ? { ...familyMember, id: 'member-2', relationship: 'SIBLING' } : familyMember
+      ));
+
+      await expect(
+        service.grantConsent({ ...consentInput, signedByClientId: undefined, signedByGuardianId: 'member-2' }, userContext)
+      ).rejects.toThrow('signer is not a legal representative of this client');
+    });
+
+    it('should notify the family member when consent is revoked', async () => {
+      mockConsentRepo.getConsentById.mockResolvedValue({ id: 'consent-1', organizationId: 'org-123' });
+      mockConsentRepo.revokeConsent.mockResolvedValue({
+        id: 'consent-1',
+        familyMemberId: 'member-1',
+        clientId: 'client-123',
+        scopes: ['CLINICAL_NOTES', 'MEDICATIONS'],
+      });
+
+      await service.revokeConsent('consent-1', 'Client request', userContext);
+
+      expect(mockConsentRepo.revokeConsent).toHaveBeenCalledWith('consent-1', 'user-123', 'Client request');
+      expect(mockNotificationRepo.createNotification).toHaveBeenCalledWith(expect.objectContaining({
+        familyMemberId: 'member-1',
+        category: 'SYSTEM',
+        message: expect.stringContaining('clinical notes, medications'),
+      }));
+    });
+
+    it('should reject revoking consent twice', async () => {
+      mockConsentRepo.getConsentById.mockResolvedValue({ id: 'consent-1', organizationId: 'org-123', revokedAt: new Date() });
+
+      await expect(service.revokeConsent('consent-1', 'Client request', userContext)).rejects.toThrow('already been revoked');
+    });
+
+    it('should block family users without consent', async () => {
+      await expect(service.getVisitSummariesForFamilyMember('member-1', familyContext)).rejects.toThrow(
+        'Client consent required to view visit schedule'
+      );
+      expect(mockVisitSummaryRepo.getPublishedSummariesForFamilyMember).not.toHaveBeenCalled();
+    });
+
+    it('should log a disclosure for consented family portal reads', async () => {
+      mockConsentRepo.getActiveConsents.mockResolvedValue([{ id: 'consent-1', scopes: ['VISIT_SCHEDULE'] }]);
+      mockVisitSummaryRepo.getPublishedSummariesForFamilyMember.mockResolvedValue([
+        { id: 'summary-1', visitNotes: 'Lovely visit', tasksCompleted: [] },
+      ]);
+
+      const summaries = await service.getVisitSummariesForFamilyMember('member-1', familyContext);
+
+      // Visit notes are clinical notes, which were not consented
+      expect(summaries[0]!.visitNotes).toBeUndefined();
+      expect(mockClientAuditService.logDisclosure).toHaveBeenCalledWith(
+        'client-123',
+        'member-1',
+        'Jane Doe (child)',
+        'PORTAL',
+        'Family portal visit summaries (1)',
+        'consent-1',
+        'Family portal access'
+      );
+    });
+
+    it('should filter notifications to consented categories', async () => {
+      mockConsentRepo.getActiveConsents.mockResolvedValue([{ id: 'consent-1', scopes: ['VISIT_SCHEDULE'] }]);
+      mockNotificationRepo.getUnreadNotifications = vi.fn().mockResolvedValue([
+        { id: 'notif-1', category: 'VISIT' },
+        { id: 'notif-2', category: 'CARE_PLAN' },
+        { id: 'notif-3', category: 'SYSTEM' },
+      ]);
+
+      const notifications = await service.getUnreadNotifications('member-1', familyContext);
+
+      expect(notifications.map(notification => notification.id)).toEqual(['notif-1', 'notif-3']);
+    });
+
+    it('should not log staff portal reads as disclosures', async () => {
+      mockVisitSummaryRepo.getPublishedSummariesForFamilyMember.mockResolvedValue([
+        { id: 'summary-1', visitNotes: 'Lovely visit', tasksCompleted: [] },
+      ]);
+
+      await service.getVisitSummariesForFamilyMember('member-1', userContext);
+
+      expect(mockConsentRepo.getActiveConsents).not.toHaveBeenCalled();
+      expect(mockClientAuditService.logDisclosure).not.toHaveBeenCalled();
+    });
+  });
 });
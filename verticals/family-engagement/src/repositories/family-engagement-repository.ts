@@ -16,7 +16,12 @@ import type {
   InviteFamilyMemberInput,
   SendNotificationInput,
   CreateMessageThreadInput,
-  SendMessageInput
+  SendMessageInput,
+  VisitSummary,
+  VisitSummarySource,
+  CarePlanProgressReport,
+  FamilyConsent,
+  GrantFamilyConsentInput
 } from '../types/family-engagement';
 
 /**
@@ -635,3 +640,516 @@ export class MessageRepository {
     };
   }
 }
+
+/**
+ * Visit summary fields written on publish
+ */
+export type VisitSummaryData = Omit<
+  VisitSummary,
+  'id' | 'viewedByFamily' | 'viewedAt' | 'createdAt' | 'createdBy' | 'updatedAt' | 'updatedBy' | 'version'
+>;
+
+/**
+ * Repository for family visit summaries and the visit data they are built from
+ */
+export class VisitSummaryRepository {
+  constructor(private database: Database) {}
+
+  /**
+   * Get the visit, its task instances and caregiver notes
+   */
+  async getVisitSummarySource(visitId: UUID): Promise<VisitSummarySource | null> {
+    const visitResult = await this.database.query(`
+      SELECT
+        v.id, v.client_id, v.status, v.actual_start_time, v.actual_end_time,
+        v.organization_id, v.branch_id,
+        (v.scheduled_date + v.scheduled_start_time) AT TIME ZONE v.timezone AS scheduled_start_time,
+        (v.scheduled_date + v.scheduled_end_time
+          + CASE WHEN v.scheduled_end_time < v.scheduled_start_time THEN INTERVAL '1 day' ELSE INTERVAL '0' END
+        ) AT TIME ZONE v.timezone AS scheduled_end_time,
+        COALESCE(c.preferred_name, c.first_name) || ' ' || c.last_name AS caregiver_name
+      FROM visits v
+      LEFT JOIN caregivers c ON c.id = v.assigned_caregiver_id
+      WHERE v.id = $1
+      AND v.deleted_at IS NULL
+    `, [visitId]);
+
+    const visit = visitResult.rows[0];
+    if (!visit) {
+      return null;
+    }
+
+    const taskResult = await this.database.query(`
+      SELECT id, name, category, status, completed_at, completion_note, skip_reason
+      FROM task_instances
+      WHERE visit_id = $1
+      ORDER BY scheduled_time NULLS LAST, name
+    `, [visitId]);
+
+    const noteResult = await this.database.query(`
+      SELECT note_type, note_text, client_mood, is_incident, created_at
+      FROM visit_notes
+      WHERE visit_id = $1
+      AND deleted_at IS NULL
+      ORDER BY created_at ASC
+    `, [visitId]);
+
+    return {
+      visitId: visit.id as UUID,
+      clientId: visit.client_id as UUID,
+      visitStatus: visit.status as string,
+      scheduledStartTime: visit.scheduled_start_time as Date,
+      scheduledEndTime: visit.scheduled_end_time as Date,
+      actualStartTime: (visit.actual_start_time as Date | null) ?? undefined,
+      actualEndTime: (visit.actual_end_time as Date | null) ?? undefined,
+      caregiverName: (visit.caregiver_name as string | null) ?? 'Your caregiver',
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      tasks: taskResult.rows.map((row: any) => ({
+        taskId: row.id,
+        taskName: row.name,
+        category: row.category,
+        status: row.status,
+        completedAt: row.completed_at ?? undefined,
+        completionNote: row.completion_note ?? undefined,
+        skipReason: row.skip_reason ?? undefined
+      })),
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      notes: noteResult.rows.map((row: any) => ({
+        noteType: row.note_type,
+        noteText: row.note_text,
+        clientMood: row.client_mood ?? undefined,
+        isIncident: row.is_incident,
+        createdAt: row.created_at
+      })),
+      organizationId: visit.organization_id as UUID,
+      branchId: visit.branch_id as UUID
+    };
+  }
+
+  /**
+   * Get summary by ID
+   */
+  async getSummaryById(summaryId: UUID): Promise<VisitSummary | null> {
+    const result = await this.database.query(`
+      SELECT * FROM family_visit_summaries
+      WHERE id = $1
+    `, [summaryId]);
+
+    return result.rows[0] ? this.mapRowToSummary(result.rows[0]) : null;
+  }
+
+  /**
+   * Get the summary for a visit, if one has been published
+   */
+  async getSummaryByVisitId(visitId: UUID): Promise<VisitSummary | null> {
+    const result = await this.database.query(`
+      SELECT * FROM family_visit_summaries
+      WHERE visit_id = $1
+      ORDER BY created_at DESC
+      LIMIT 1
+    `, [visitId]);
+
+    return result.rows[0] ? this.mapRowToSummary(result.rows[0]) : null;
+  }
+
+  /**
+   * Create visit summary
+   */
+  async createSummary(summary: VisitSummaryData, createdBy: UUID): Promise<VisitSummary> {
+    const query = `
+      INSERT INTO family_visit_summaries (
+        id, visit_id, client_id, family_member_ids,
+        scheduled_start_time, scheduled_end_time, actual_start_time, actual_end_time,
+        caregiver_name, caregiver_photo_url, tasks_completed, visit_notes,
+        status, cancellation_reason, visible_to_family, published_at,
+        organization_id, branch_id, created_by, updated_by, created_at, updated_at
+      ) VALUES (
+        gen_random_uuid(), $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15,
+        $16, $17, $18, $18, NOW(), NOW()
+      )
+      RETURNING *
+    `;
+
+    const result = await this.database.query(query, [
+      ...this.summaryValues(summary),
+      summary.organizationId,
+      summary.branchId,
+      createdBy
+    ]);
+
+    return this.mapRowToSummary(result.rows[0]);
+  }
+
+  /**
+   * Replace a visit summary's content. Re-publishing resets the viewed flag
+   * so family members see the revised summary as new.
+   */
+  async updateSummary(summaryId: UUID, summary: VisitSummaryData, updatedBy: UUID): Promise<VisitSummary> {
+    const query = `
+      UPDATE family_visit_summaries
+      SET visit_id = $1, client_id = $2, family_member_ids = $3,
+          scheduled_start_time = $4, scheduled_end_time = $5,
+          actual_start_time = $6, actual_end_time = $7,
+          caregiver_name = $8, caregiver_photo_url = $9, tasks_completed = $10, visit_notes = $11,
+          status = $12, cancellation_reason = $13, visible_to_family = $14, published_at = $15,
+          viewed_by_family = false, viewed_at = NULL,
+          updated_by = $17, updated_at = NOW()
+      WHERE id = $16
+      RETURNING *
+    `;
+
+    const result = await this.database.query(query, [
+      ...this.summaryValues(summary),
+      summaryId,
+      updatedBy
+    ]);
+
+    return this.mapRowToSummary(result.rows[0]);
+  }
+
+  /**
+   * Get published summaries a family member can see, most recent visit first
+   */
+  async getPublishedSummariesForFamilyMember(
+    familyMemberId: UUID,
+    limit: number = 20
+  ): Promise<VisitSummary[]> {
+    const query = `
+      SELECT * FROM family_visit_summaries
+      WHERE $1 = ANY(family_member_ids)
+      AND visible_to_family = true
+      AND published_at IS NOT NULL
+      ORDER BY scheduled_start_time DESC
+      LIMIT $2
+    `;
+
+    const result = await this.database.query(query, [familyMemberId, limit]);
+    return result.rows.map(row => this.mapRowToSummary(row));
+  }
+
+  /**
+   * Mark summary as viewed by family
+   */
+  async markAsViewed(summaryId: UUID): Promise<void> {
+    await this.database.query(`
+      UPDATE family_visit_summaries
+      SET viewed_by_family = true, viewed_at = COALESCE(viewed_at, NOW())
+      WHERE id = $1
+    `, [summaryId]);
+  }
+
+  private summaryValues(summary: VisitSummaryData): unknown[] {
+    return [
+      summary.visitId,
+      summary.clientId,
+      summary.familyMemberIds,
+      summary.scheduledStartTime,
+      summary.scheduledEndTime,
+      summary.actualStartTime ?? null,
+      summary.actualEndTime ?? null,
+      summary.caregiverName,
+      summary.caregiverPhotoUrl ?? null,
+      JSON.stringify(summary.tasksCompleted),
+      summary.visitNotes ?? null,
+      summary.status,
+      summary.cancellationReason ?? null,
+      summary.visibleToFamily,
+      summary.publishedAt ?? null
+    ];
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private mapRowToSummary(row: any): VisitSummary {
+    return {
+      id: row.id,
+      visitId: row.visit_id,
+      clientId: row.client_id,
+      familyMemberIds: row.family_member_ids,
+      scheduledStartTime: row.scheduled_start_time,
+      scheduledEndTime: row.scheduled_end_time,
+      actualStartTime: row.actual_start_time ?? undefined,
+      actualEndTime: row.actual_end_time ?? undefined,
+      caregiverName: row.caregiver_name,
+      caregiverPhotoUrl: row.caregiver_photo_url ?? undefined,
+      tasksCompleted: row.tasks_completed,
+      visitNotes: row.visit_notes ?? undefined,
+      status: row.status,
+      cancellationReason: row.cancellation_reason ?? undefined,
+      visibleToFamily: row.visible_to_family,
+      publishedAt: row.published_at,
+      viewedByFamily: row.viewed_by_family,
+      viewedAt: row.viewed_at,
+      organizationId: row.organization_id,
+      branchId: row.branch_id,
+      createdAt: row.created_at,
+      createdBy: row.created_by,
+      updatedAt: row.updated_at,
+      updatedBy: row.updated_by,
+      version: 1 // Summaries are replaced on re-publish rather than versioned
+    };
+  }
+}
+
+/**
+ * Repository for care plan progress reports
+ */
+export class ProgressReportRepository {
+  constructor(private database: Database) {}
+
+  /**
+   * Create progress report
+   */
+  async createReport(
+    report: Omit<CarePlanProgressReport, 'id' | 'createdAt' | 'createdBy' | 'updatedAt' | 'updatedBy' | 'version'>,
+    createdBy: UUID
+  ): Promise<CarePlanProgressReport> {
+    const query = `
+      INSERT INTO care_plan_progress_reports (
+        id, care_plan_id, client_id, family_member_ids,
+        report_period_start, report_period_end, report_type,
+        goals_total, goals_achieved, goals_in_progress, goals_at_risk, goal_progress,
+        overall_summary, concerns_noted, recommendations_for_family,
+        prepared_by, prepared_by_name, published_at,
+        organization_id, branch_id, created_by, updated_by, created_at, updated_at
+      ) VALUES (
+        gen_random_uuid(), $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14,
+        $15, $16, $17, $18, $19, $20, $20, NOW(), NOW()
+      )
+      RETURNING *
+    `;
+
+    const result = await this.database.query(query, [
+      report.carePlanId,
+      report.clientId,
+      report.familyMemberIds,
+      report.reportPeriodStart,
+      report.reportPeriodEnd,
+      report.reportType,
+      report.goalsTotal,
+      report.goalsAchieved,
+      report.goalsInProgress,
+      report.goalsAtRisk,
+      JSON.stringify(report.goalProgress),
+      report.overallSummary,
+      report.concernsNoted ?? null,
+      report.recommendationsForFamily ?? null,
+      report.preparedBy,
+      report.preparedByName,
+      report.publishedAt ?? null,
+      report.organizationId,
+      report.branchId,
+      createdBy
+    ]);
+
+    return this.mapRowToReport(result.rows[0]);
+  }
+
+  /**
+   * Get report by ID
+   */
+  async getReportById(reportId: UUID): Promise<CarePlanProgressReport | null> {
+    const result = await this.database.query(`
+      SELECT * FROM care_plan_progress_reports
+      WHERE id = $1
+    `, [reportId]);
+
+    return result.rows[0] ? this.mapRowToReport(result.rows[0]) : null;
+  }
+
+  /**
+   * Get published reports shared with a family member, newest period first
+   */
+  async getPublishedReportsForFamilyMember(
+    familyMemberId: UUID,
+    limit: number = 12
+  ): Promise<CarePlanProgressReport[]> {
+    const query = `
+      SELECT * FROM care_plan_progress_reports
+      WHERE $1 = ANY(family_member_ids)
+      AND published_at IS NOT NULL
+      ORDER BY report_period_end DESC
+      LIMIT $2
+    `;
+
+    const result = await this.database.query(query, [familyMemberId, limit]);
+    return result.rows.map(row => this.mapRowToReport(row));
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private mapRowToReport(row: any): CarePlanProgressReport {
+    return {
+      id: row.id,
+      carePlanId: row.care_plan_id,
+      clientId: row.client_id,
+      familyMemberIds: row.family_member_ids,
+      reportPeriodStart: row.report_period_start,
+      reportPeriodEnd: row.report_period_end,
+      reportType: row.report_type,
+      goalsTotal: row.goals_total,
+      goalsAchieved: row.goals_achieved,
+      goalsInProgress: row.goals_in_progress,
+      goalsAtRisk: row.goals_at_risk,
+      goalProgress: row.goal_progress,
+      overallSummary: row.overall_summary,
+      concernsNoted: row.concerns_noted ?? undefined,
+      recommendationsForFamily: row.recommendations_for_family ?? undefined,
+      preparedBy: row.prepared_by,
+      preparedByName: row.prepared_by_name,
+      publishedAt: row.published_at,
+      organizationId: row.organization_id,
+      branchId: row.branch_id,
+      createdAt: row.created_at,
+      createdBy: row.created_by,
+      updatedAt: row.updated_at,
+      updatedBy: row.updated_by,
+      version: 1 // Reports are immutable once generated
+    };
+  }
+}
+
+/**
+ * Repository for family consent records
+ */
+export class FamilyConsentRepository {
+  constructor(private database: Database) {}
+
+  /**
+   * Record information-sharing consent, superseding any consent in force for
+   * the family member in the same transaction. The family member row is
+   * locked so concurrent grants cannot both leave a consent in force.
+   */
+  async createConsent(
+    input: GrantFamilyConsentInput & { organizationId: UUID; createdBy: UUID }
+  ): Promise<FamilyConsent> {
+    const supersede = `
+      UPDATE family_consent
+      SET revoked_at = NOW(), revoked_by = $3, revoked_reason = 'Superseded by new consent',
+          updated_by = $3, updated_at = NOW()
+      WHERE family_member_id = $1
+      AND client_id = $2
+      AND consent_given = true
+      AND revoked_at IS NULL
+      AND (expires_at IS NULL OR expires_at > NOW())
+    `;
+    const insert = `
+      INSERT INTO family_consent (
+        id, family_member_id, client_id, consent_type, consent_given, consent_date,
+        expires_at, scopes, signed_by_client_id, signed_by_guardian_id, signed_by_name,
+        document_url, organization_id, created_by, updated_by, created_at, updated_at
+      ) VALUES (
+        gen_random_uuid(), $1, $2, 'INFORMATION_SHARING', true, $3, $4, $5, $6, $7, $8, $9, $10, $11, $11, NOW(), NOW()
+      )
+      RETURNING *
+    `;
+
+    return this.database.transaction(async (client) => {
+      await client.query('SELECT id FROM family_members WHERE id = $1 FOR UPDATE', [input.familyMemberId]);
+      await client.query(supersede, [input.familyMemberId, input.clientId, input.createdBy]);
+
+      const result = await client.query(insert, [
+        input.familyMemberId,
+        input.clientId,
+        input.consentDate ?? new Date(),
+        input.expiresAt ?? null,
+        input.scopes,
+        input.signedByClientId ?? null,
+        input.signedByGuardianId ?? null,
+        input.signedByName,
+        input.documentUrl ?? null,
+        input.organizationId,
+        input.createdBy
+      ]);
+
+      return this.mapRowToConsent(result.rows[0]);
+    });
+  }
+
+  /**
+   * Get consent by ID
+   */
+  async getConsentById(consentId: UUID): Promise<FamilyConsent | null> {
+    const result = await this.database.query(`
+      SELECT * FROM family_consent
+      WHERE id = $1
+    `, [consentId]);
+
+    return result.rows[0] ? this.mapRowToConsent(result.rows[0]) : null;
+  }
+
+  /**
+   * Get all consent records for a client in an organization, including
+   * revoked and expired ones
+   */
+  async getConsentsForClient(clientId: UUID, organizationId: UUID): Promise<FamilyConsent[]> {
+    const result = await this.database.query(`
+      SELECT * FROM family_consent
+      WHERE client_id = $1
+      AND organization_id = $2
+      ORDER BY consent_date DESC
+    `, [clientId, organizationId]);
+
+    return result.rows.map(row => this.mapRowToConsent(row));
+  }
+
+  /**
+   * Get consents currently in force for a family member: given, not revoked
+   * and not expired
+   */
+  async getActiveConsents(familyMemberId: UUID, clientId: UUID): Promise<FamilyConsent[]> {
+    const query = `
+      SELECT * FROM family_consent
+      WHERE family_member_id = $1
+      AND client_id = $2
+      AND consent_given = true
+      AND revoked_at IS NULL
+      AND (expires_at IS NULL OR expires_at > NOW())
+      ORDER BY consent_date DESC
+    `;
+
+    const result = await this.database.query(query, [familyMemberId, clientId]);
+    return result.rows.map(row => this.mapRowToConsent(row));
+  }
+
+  /**
+   * Revoke consent
+   */
+  async revokeConsent(consentId: UUID, revokedBy: UUID, reason: string): Promise<FamilyConsent> {
+    const query = `
+      UPDATE family_consent
+      SET revoked_at = NOW(), revoked_by = $2, revoked_reason = $3,
+          updated_by = $2, updated_at = NOW()
+      WHERE id = $1
+      RETURNING *
+    `;
+
+    const result = await this.database.query(query, [consentId, revokedBy, reason]);
+    return this.mapRowToConsent(result.rows[0]);
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private mapRowToConsent(row: any): FamilyConsent {
+    return {
+      id: row.id,
+      familyMemberId: row.family_member_id,
+      clientId: row.client_id,
+      consentType: row.consent_type,
+      consentGiven: row.consent_given,
+      consentDate: row.consent_date,
+      expiresAt: row.expires_at,
+      scopes: row.scopes ?? [],
+      signedByClientId: row.signed_by_client_id ?? undefined,
+      signedByGuardianId: row.signed_by_guardian_id ?? undefined,
+      signedByName: row.signed_by_name ?? undefined,
+      documentUrl: row.document_url ?? undefined,
+      revokedAt: row.revoked_at,
+      revokedBy: row.revoked_by ?? undefined,
+      revokedReason: row.revoked_reason ?? undefined,
+      organizationId: row.organization_id,
+      createdAt: row.created_at,
+      createdBy: row.created_by,
+      updatedAt: row.updated_at,
+      updatedBy: row.updated_by,
+      version: 1 // Consent records are revoked and superseded, never edited
+    };
+  }
+}
@@ -28,7 +28,7 @@ function getUserContext(req: Request): UserContext {
 function handleError(error: unknown, res: Response, operation: string): void {
   const err = error as Error & { statusCode?: number };
 
-  if (err.message.includes('permissions')) {
+  if (err.message.includes('permissions') || err.message.includes('consent required')) {
     res.status(403).json({ error: err.message });
   } else if (err.message.includes('not found')) {
     res.status(404).json({ error: err.message });
@@ -327,6 +327,177 @@ export function createFamilyEngagementHandlers(service: FamilyEngagementService)
       }
     },
 
+    // ========================================================================
+    // Visit Summaries & Progress Reports
+    // ========================================================================
+
+    /**
+     * GET /visit-summaries/visits/:visitId/draft
+     * Generate a visit summary draft for coordinator review
+     */
+    async draftVisitSummary(req: Request, res: Response) {
+      try {
+        const context = getUserContext(req);
+        const draft = await service.draftVisitSummary(
+          req.params['visitId'] as string,
+          context
+        );
+        res.json(draft);
+      } catch (error: unknown) {
+        handleError(error, res, 'drafting visit summary');
+      }
+    },
+
+    /**
+     * POST /visit-summaries
+     * Publish a reviewed visit summary to family members
+     */
+    async publishVisitSummary(req: Request, res: Response) {
+      try {
+        const context = getUserContext(req);
+        const { visitId, clientId, familyMemberIds, tasksToInclude } = req.body;
+
+        if (!visitId || !clientId || !Array.isArray(familyMemberIds) || !Array.isArray(tasksToInclude)) {
+          res.status(400).json({
+            error: 'visitId, clientId, familyMemberIds, and tasksToInclude are required'
+          });
+          return;
+        }
+
+        const summary = await service.publishVisitSummary(
+          { ...req.body, visibleToFamily: req.body.visibleToFamily ?? true },
+          context
+        );
+        res.status(201).json(summary);
+      } catch (error: unknown) {
+        handleError(error, res, 'publishing visit summary');
+      }
+    },
+
+    /**
+     * GET /visit-summaries/family-member/:familyMemberId
+     * Get published visit summaries for family member
+     */
+    async getVisitSummariesForFamilyMember(req: Request, res: Response) {
+      try {
+        const context = getUserContext(req);
+        const limit = req.query['limit']
+          ? parseInt(req.query['limit'] as string, 10)
+          : 20;
+
+        const summaries = await service.getVisitSummariesForFamilyMember(
+          req.params['familyMemberId'] as string,
+          context,
+          limit
+        );
+        res.json(summaries);
+      } catch (error: unknown) {
+        handleError(error, res, 'fetching visit summaries');
+      }
+    },
+
+    /**
+     * POST /progress-reports
+     * Generate and publish a care plan progress report
+     */
+    async generateProgressReport(req: Request, res: Response) {
+      try {
+        const context = getUserContext(req);
+        const { carePlanId, clientId, familyMemberIds, reportPeriodStart, reportPeriodEnd, reportType, overallSummary } = req.body;
+
+        if (!carePlanId || !clientId || !Array.isArray(familyMemberIds) || !reportPeriodStart || !reportPeriodEnd || !reportType || !overallSummary) {
+          res.status(400).json({
+            error: 'carePlanId, clientId, familyMemberIds, reportPeriodStart, reportPeriodEnd, reportType, and overallSummary are required'
+          });
+          return;
+        }
+
+        const report = await service.generateProgressReport(req.body, context);
+        res.status(201).json(report);
+      } catch (error: unknown) {
+        handleError(error, res, 'generating progress report');
+      }
+    },
+
+    /**
+     * GET /progress-reports/family-member/:familyMemberId
+     * Get published progress reports for family member
+     */
+    async getProgressReportsForFamilyMember(req: Request, res: Response) {
+      try {
+        const context = getUserContext(req);
+        const reports = await service.getProgressReportsForFamilyMember(
+          req.params['familyMemberId'] as string,
+          context
+        );
+        res.json(reports);
+      } catch (error: unknown) {
+        handleError(error, res, 'fetching progress reports');
+      }
+    },
+
+    // ========================================================================
+    // Consent
+    // ========================================================================
+
+    /**
+     * POST /consents
+     * Record information-sharing consent for a family member
+     */
+    async grantConsent(req: Request, res: Response) {
+      try {
+        const context = getUserContext(req);
+        const { familyMemberId, clientId, scopes, signedByName } = req.body;
+
+        if (!familyMemberId || !clientId || !Array.isArray(scopes) || !signedByName) {
+          res.status(400).json({
+            error: 'familyMemberId, clientId, scopes, and signedByName are required'
+          });
+          return;
+        }
+
+        const consent = await service.grantConsent(req.body, context);
+        res.status(201).json(consent);
+      } catch (error: unknown) {
+        handleError(error, res, 'granting consent');
+      }
+    },
+
+    /**
+     * POST /consents/:id/revoke
+     * Revoke consent
+     */
+    async revokeConsent(req: Request, res: Response) {
+      try {
+        const context = getUserContext(req);
+        const { reason } = req.body;
+
+        if (!reason) {
+          res.status(400).json({ error: 'reason is required' });
+          return;
+        }
+
+        const consent = await service.revokeConsent(req.params['id'] as string, reason, context);
+        res.json(consent);
+      } catch (error: unknown) {
+        handleError(error, res, 'revoking consent');
+      }
+    },
+
+    /**
+     * GET /consents/client/:clientId
+     * Get consent history for a client
+     */
+    async getConsentsForClient(req: Request, res: Response) {
+      try {
+        const context = getUserContext(req);
+        const consents = await service.getConsentsForClient(req.params['clientId'] as string, context);
+        res.json(consents);
+      } catch (error: unknown) {
+        handleError(error, res, 'fetching consents');
+      }
+    },
+
     // ========================================================================
     // Dashboard
     // ========================================================================
@@ -24,6 +24,21 @@ import type {
   MessageThread,
   Message,
   VisitSummary,
+  VisitSummaryDraft,
+  VisitSummarySource,
+  VisitTaskRecord,
+  VisitTaskSummary,
+  VisitNoteRecord,
+  CarePlanProgressReport,
+  GoalProgressSummary,
+  PortalAccessLevel,
+  PublishVisitSummaryInput,
+  GenerateProgressReportInput,
+  ConsentScope,
+  FamilyConsent,
+  FamilyRelationship,
+  GrantFamilyConsentInput,
+  NotificationCategory,
   InviteFamilyMemberInput,
   SendNotificationInput,
   CreateMessageThreadInput,
@@ -35,10 +50,268 @@ import {
   FamilyMemberRepository,
   NotificationRepository,
   ActivityFeedRepository,
-  MessageRepository
+  MessageRepository,
+  VisitSummaryRepository,
+  ProgressReportRepository,
+  FamilyConsentRepository
 } from '../repositories/family-engagement-repository';
-import type { ClientService } from '@care-commons/client-demographics';
-import type { CarePlanService } from '@care-commons/care-plans-tasks';
+import type { ClientService, ClientAuditService } from '@care-commons/client-demographics';
+import type { CarePlanService, CarePlanGoal, GoalStatus } from '@care-commons/care-plans-tasks';
+
+/**
+ * Visit statuses that can be summarized for family
+ */
+const SUMMARIZABLE_VISIT_STATUSES = new Set(['COMPLETED', 'INCOMPLETE']);
+
+/**
+ * Task and goal categories whose details are only shared with family members
+ * who have medical access
+ */
+const CLINICAL_TASK_CATEGORIES = new Set(['MEDICATION', 'MONITORING']);
+const CLINICAL_GOAL_CATEGORIES = new Set([
+  'MEDICATION_MANAGEMENT',
+  'PAIN_MANAGEMENT',
+  'WOUND_CARE',
+  'CHRONIC_DISEASE_MANAGEMENT'
+]);
+
+const CLIENT_MOOD_DESCRIPTIONS = new Map<string, string>([
+  ['EXCELLENT', 'in excellent spirits'],
+  ['GOOD', 'in good spirits'],
+  ['FAIR', 'in fair spirits'],
+  ['POOR', 'not feeling their best'],
+  ['DISTRESSED', 'having a difficult day']
+]);
+
+const REPORT_TYPE_LABELS = new Map<GenerateProgressReportInput['reportType'], string>([
+  ['WEEKLY', 'Weekly'],
+  ['MONTHLY', 'Monthly'],
+  ['QUARTERLY', 'Quarterly'],
+  ['AD_HOC', 'Care Plan']
+]);
+
+const ALL_CONSENT_SCOPES: ConsentScope[] = ['VISIT_SCHEDULE', 'CLINICAL_NOTES', 'MEDICATIONS', 'BILLING'];
+
+const CONSENT_SCOPE_LABELS = new Map<ConsentScope, string>([
+  ['VISIT_SCHEDULE', 'visit schedule'],
+  ['CLINICAL_NOTES', 'clinical notes'],
+  ['MEDICATIONS', 'medications'],
+  ['BILLING', 'billing']
+]);
+
+/**
+ * Consent scope needed to see a notification or activity item; categories
+ * not listed need no particular scope
+ */
+const NOTIFICATION_CATEGORY_SCOPES = new Map<NotificationCategory, ConsentScope>([
+  ['VISIT', 'VISIT_SCHEDULE'],
+  ['APPOINTMENT', 'VISIT_SCHEDULE'],
+  ['CARE_PLAN', 'CLINICAL_NOTES'],
+  ['INCIDENT', 'CLINICAL_NOTES']
+]);
+const ACTIVITY_ENTITY_SCOPES = new Map<ActivityFeedItem['relatedEntityType'], ConsentScope>([
+  ['VISIT', 'VISIT_SCHEDULE'],
+  ['TASK', 'VISIT_SCHEDULE'],
+  ['CARE_PLAN', 'CLINICAL_NOTES'],
+  ['GOAL', 'CLINICAL_NOTES'],
+  ['NOTE', 'CLINICAL_NOTES'],
+  ['INCIDENT', 'CLINICAL_NOTES']
+]);
+
+/**
+ * Relationships that can grant consent on the client's behalf
+ */
+const LEGAL_REPRESENTATIVE_RELATIONSHIPS = new Set<FamilyRelationship>([
+  'GUARDIAN',
+  'POWER_OF_ATTORNEY',
+  'HEALTHCARE_PROXY'
+]);
+
+/**
+ * What a family portal read may show, and whether it is a disclosure to be
+ * logged
+ */
+interface PortalConsent {
+  familyMember: FamilyMember;
+  scopes: ReadonlySet<ConsentScope>;
+  consentIds: UUID[];
+  isDisclosure: boolean;
+}
+
+function isConsented(consent: PortalConsent, scope: ConsentScope | undefined): boolean {
+  return scope === undefined || consent.scopes.has(scope);
+}
+
+function describeScopes(scopes: Iterable<ConsentScope>): string {
+  return Array.from(scopes, scope => CONSENT_SCOPE_LABELS.get(scope) ?? scope).join(', ');
+}
+
+function hasMedicalAccess(accessLevel: PortalAccessLevel): boolean {
+  return accessLevel === 'VIEW_MEDICAL' || accessLevel === 'FULL_ACCESS';
+}
+
+/**
+ * Redact a visit summary to what a family member's access level and consent
+ * allow. VIEW_BASIC sees the schedule, caregiver and task list only; other
+ * levels also see the visit notes and task notes when the client consented
+ * to sharing clinical notes. Clinical tasks are listed generically unless
+ * the member has medical access and medication consent.
+ */
+export function redactVisitSummary(
+  summary: VisitSummary,
+  accessLevel: PortalAccessLevel,
+  consentedScopes?: ReadonlySet<ConsentScope>
+): VisitSummary {
+  const showNotes = accessLevel !== 'VIEW_BASIC' && (consentedScopes?.has('CLINICAL_NOTES') ?? true);
+  const showClinicalTasks = hasMedicalAccess(accessLevel) && (consentedScopes?.has('MEDICATIONS') ?? true);
+  if (showNotes && showClinicalTasks) {
+    return summary;
+  }
+
+  return {
+    ...summary,
+    visitNotes: showNotes ? summary.visitNotes : undefined,
+    tasksCompleted: summary.tasksCompleted.map(task => {
+      const isHidden = CLINICAL_TASK_CATEGORIES.has(task.category) && !showClinicalTasks;
+      const redacted: VisitTaskSummary = {
+        taskId: task.taskId,
+        taskName: isHidden ? 'Health-related care' : task.taskName,
+        category: isHidden ? 'CLINICAL' : task.category,
+        status: task.status,
+        completedAt: task.completedAt
+      };
+      if (showNotes && !isHidden) {
+        redacted.notes = task.notes;
+        redacted.skipReason = task.skipReason;
+      }
+      return redacted;
+    })
+  };
+}
+
+/**
+ * Redact a progress report's clinical goals for family members without
+ * medical access. Goal counts are unchanged.
+ */
+export function redactProgressReport(
+  report: CarePlanProgressReport,
+  accessLevel: PortalAccessLevel
+): CarePlanProgressReport {
+  if (hasMedicalAccess(accessLevel)) {
+    return report;
+  }
+
+  return {
+    ...report,
+    goalProgress: report.goalProgress.map(goal =>
+      CLINICAL_GOAL_CATEGORIES.has(goal.category)
+        ? { ...goal, goalName: 'Health-related goal', category: 'CLINICAL', recentUpdates: '' }
+        : goal
+    )
+  };
+}
+
+function toVisitTaskSummary(task: VisitTaskRecord): VisitTaskSummary {
+  let status: VisitTaskSummary['status'] = 'INCOMPLETE';
+  if (task.status === 'COMPLETED' || task.status === 'SKIPPED') {
+    status = task.status;
+  }
+
+  return {
+    taskId: task.taskId,
+    taskName: task.taskName,
+    category: task.category,
+    status,
+    completedAt: task.completedAt,
+    skipReason: task.skipReason,
+    notes: task.completionNote
+  };
+}
+
+/**
+ * General and task notes may be shared with family; clinical and incident
+ * notes are withheld for the coordinator to paraphrase if appropriate
+ */
+function isFamilyShareableNote(note: VisitNoteRecord): boolean {
+  return (note.noteType === 'GENERAL' || note.noteType === 'TASK') && !note.isIncident;
+}
+
+function buildSuggestedVisitNotes(notes: VisitNoteRecord[]): string {
+  const paragraphs: string[] = [];
+
+  // The latest recorded mood describes how the visit ended
+  const mood = notes.map(note => note.clientMood).filter(value => value !== undefined).pop();
+  const moodDescription = mood === undefined ? undefined : CLIENT_MOOD_DESCRIPTIONS.get(mood);
+  if (moodDescription !== undefined) {
+    paragraphs.push(`Your loved one was ${moodDescription} during the visit.`);
+  }
+
+  for (const note of notes) {
+    const text = note.noteText.trim();
+    if (text !== '') {
+      paragraphs.push(text);
+    }
+  }
+
+  return paragraphs.join('\n\n');
+}
+
+function toGoalProgressStatus(status: GoalStatus): GoalProgressSummary['currentStatus'] {
+  switch (status) {
+    case 'PARTIALLY_ACHIEVED':
+      return 'IN_PROGRESS';
+    case 'NOT_ACHIEVED':
+      return 'AT_RISK';
+    case 'DISCONTINUED':
+      return 'NOT_STARTED';
+    default:
+      return status;
+  }
+}
+
+function calculateGoalProgress(goal: CarePlanGoal): number {
+  let percentage = goal.progressPercentage;
+  if (percentage === undefined && goal.targetValue !== undefined && goal.currentValue !== undefined && goal.targetValue > 0) {
+    percentage = (goal.currentValue / goal.targetValue) * 100;
+  }
+  if (percentage === undefined) {
+    percentage = goal.status === 'ACHIEVED' ? 100 : 0;
+  }
+  return Math.round(Math.min(100, Math.max(0, percentage)));
+}
+
+function isWithinPeriod(date: Date | undefined, periodStart: Date, periodEnd: Date): boolean {
+  if (date === undefined) {
+    return false;
+  }
+  const time = new Date(date).getTime();
+  return time >= periodStart.getTime() && time <= periodEnd.getTime();
+}
+
+/**
+ * Plain-language description of what changed for a goal during the report
+ * period
+ */
+function describeGoalUpdates(goal: CarePlanGoal, periodStart: Date, periodEnd: Date): string {
+  const updates: string[] = [];
+
+  if (isWithinPeriod(goal.achievedDate, periodStart, periodEnd)) {
+    updates.push('Goal achieved');
+  }
+  for (const milestone of goal.milestones ?? []) {
+    if (milestone.status === 'COMPLETED' && isWithinPeriod(milestone.completedDate, periodStart, periodEnd)) {
+      updates.push(`Reached milestone "${milestone.name}"`);
+    } else if (milestone.status === 'MISSED' && isWithinPeriod(milestone.targetDate, periodStart, periodEnd)) {
+      updates.push(`Milestone "${milestone.name}" was not reached`);
+    }
+  }
+  if (goal.currentValue !== undefined && goal.targetValue !== undefined) {
+    const unit = goal.unit === undefined ? '' : ' ' + goal.unit;
+    updates.push(`Currently at ${goal.currentValue} of ${goal.targetValue}${unit}`);
+  }
+
+  return updates.length > 0 ? updates.join('. ') + '.' : 'No new updates this period.';
+}
 
 /**
  * Service for managing family portal and engagement
@@ -52,7 +325,11 @@ export class FamilyEngagementService {
     private permissions: PermissionService,
     private userRepository: IUserRepository,
     private clientService: ClientService,
-    private carePlanService: CarePlanService
+    private carePlanService: CarePlanService,
+    private visitSummaryRepo: VisitSummaryRepository,
+    private progressReportRepo: ProgressReportRepository,
+    private consentRepo: FamilyConsentRepository,
+    private clientAuditService: ClientAuditService
   ) {}
 
   // ============================================================================
@@ -282,7 +559,16 @@ export class FamilyEngagementService {
       throw new Error('Insufficient permissions to view notifications') as PermissionError;
     }
 
-    return await this.notificationRepo.getUnreadNotifications(familyMemberId);
+    // Notifications are not gated as a whole, so a family member whose
+    // consent was revoked still receives the revocation notice
+    const consent = await this.getPortalConsent(familyMemberId, context);
+    const notifications = (await this.notificationRepo.getUnreadNotifications(familyMemberId))
+      .filter(notification => isConsented(consent, NOTIFICATION_CATEGORY_SCOPES.get(notification.category)));
+
+    if (notifications.length > 0) {
+      await this.logPortalDisclosure(consent, `Family portal notifications (${notifications.length})`, context);
+    }
+    return notifications;
   }
 
   /**
@@ -352,7 +638,16 @@ export class FamilyEngagementService {
       throw new Error('Insufficient permissions to view activity feed') as PermissionError;
     }
 
-    return await this.activityFeedRepo.getRecentActivity(familyMemberId, limit);
+    const consent = await this.getPortalConsent(familyMemberId, context);
+    this.requireConsent(consent);
+
+    const activity = (await this.activityFeedRepo.getRecentActivity(familyMemberId, limit))
+      .filter(item => isConsented(consent, ACTIVITY_ENTITY_SCOPES.get(item.relatedEntityType)));
+
+    if (activity.length > 0) {
+      await this.logPortalDisclosure(consent, `Family portal activity feed (${activity.length} items)`, context);
+    }
+    return activity;
   }
 
   /**
@@ -491,7 +786,14 @@ export class FamilyEngagementService {
       throw new Error('Insufficient permissions to view message threads') as PermissionError;
     }
 
-    return await this.messageRepo.getThreadsForFamilyMember(familyMemberId);
+    const consent = await this.getPortalConsent(familyMemberId, context);
+    this.requireConsent(consent);
+
+    const threads = await this.messageRepo.getThreadsForFamilyMember(familyMemberId);
+    if (threads.length > 0) {
+      await this.logPortalDisclosure(consent, `Family portal message threads (${threads.length})`, context);
+    }
+    return threads;
   }
 
   /**
@@ -506,7 +808,493 @@ export class FamilyEngagementService {
       throw new Error('Insufficient permissions to view messages') as PermissionError;
     }
 
-    return await this.messageRepo.getMessagesInThread(threadId);
+    const thread = await this.messageRepo.getThreadById(threadId);
+    if (!thread) {
+      throw new Error('Message thread not found') as NotFoundError;
+    }
+    const consent = await this.getPortalConsent(thread.familyMemberId, context);
+    this.requireConsent(consent);
+
+    const messages = await this.messageRepo.getMessagesInThread(threadId);
+    await this.logPortalDisclosure(consent, `Family portal messages in thread "${thread.subject}"`, context);
+    return messages;
+  }
+
+  // ============================================================================
+  // Visit Summaries & Progress Reports
+  // ============================================================================
+
+  /**
+   * Generate a draft family summary of a completed visit for coordinator review
+   */
+  async draftVisitSummary(
+    visitId: UUID,
+    context: UserContext
+  ): Promise<VisitSummaryDraft> {
+    // Validate permissions
+    if (!this.permissions.hasPermission(context, 'family-portal:publish')) {
+      throw new Error('Insufficient permissions to publish visit summaries') as PermissionError;
+    }
+
+    const source = await this.getSummarizableVisit(visitId, context);
+    const existing = await this.visitSummaryRepo.getSummaryByVisitId(visitId);
+    const familyMembers = await this.familyMemberRepo.findByClientId(source.clientId);
+
+    return {
+      visitId: source.visitId,
+      clientId: source.clientId,
+      existingSummaryId: existing?.id,
+      scheduledStartTime: source.scheduledStartTime,
+      scheduledEndTime: source.scheduledEndTime,
+      actualStartTime: source.actualStartTime,
+      actualEndTime: source.actualEndTime,
+      caregiverName: source.caregiverName,
+      tasks: source.tasks.map(toVisitTaskSummary),
+      suggestedVisitNotes: buildSuggestedVisitNotes(source.notes.filter(isFamilyShareableNote)),
+      withheldNotes: source.notes.filter(note => !isFamilyShareableNote(note)),
+      familyMembers: familyMembers
+        .filter(fm => fm.status === 'ACTIVE')
+        .map(fm => ({
+          id: fm.id,
+          name: `${fm.firstName} ${fm.lastName}`,
+          portalAccessLevel: fm.portalAccessLevel
+        }))
+    };
+  }
+
+  /**
+   * Publish a coordinator-reviewed visit summary to family members.
+   * Re-publishing a visit replaces its existing summary.
+   */
+  async publishVisitSummary(
+    input: PublishVisitSummaryInput,
+    context: UserContext
+  ): Promise<VisitSummary> {
+    // Validate permissions
+    if (!this.permissions.hasPermission(context, 'family-portal:publish')) {
+      throw new Error('Insufficient permissions to publish visit summaries') as PermissionError;
+    }
+
+    const source = await this.getSummarizableVisit(input.visitId, context);
+    if (source.clientId !== input.clientId) {
+      throw new Error('Visit summary validation failed: visit does not belong to this client') as ValidationError;
+    }
+    await this.getActiveFamilyMembers(input.clientId, input.familyMemberIds);
+
+    const taskIds = new Set(input.tasksToInclude);
+    const tasks = source.tasks.filter(task => taskIds.has(task.taskId));
+    if (tasks.length !== taskIds.size) {
+      throw new Error('Visit summary validation failed: tasks must belong to the visit') as ValidationError;
+    }
+
+    const visitNotes = input.visitNotes?.trim();
+    const summaryData = {
+      visitId: source.visitId,
+      clientId: source.clientId,
+      familyMemberIds: input.familyMemberIds,
+      scheduledStartTime: source.scheduledStartTime,
+      scheduledEndTime: source.scheduledEndTime,
+      actualStartTime: source.actualStartTime,
+      actualEndTime: source.actualEndTime,
+      caregiverName: source.caregiverName,
+      tasksCompleted: tasks.map(toVisitTaskSummary),
+      visitNotes: visitNotes === '' ? undefined : visitNotes,
+      status: 'COMPLETED' as const,
+      visibleToFamily: input.visibleToFamily,
+      publishedAt: input.visibleToFamily ? new Date() : null,
+      organizationId: source.organizationId,
+      branchId: source.branchId
+    };
+
+    const existing = await this.visitSummaryRepo.getSummaryByVisitId(source.visitId);
+    const summary = existing
+      ? await this.visitSummaryRepo.updateSummary(existing.id, summaryData, context.userId)
+      : await this.visitSummaryRepo.createSummary(summaryData, context.userId);
+
+    // Announce the summary the first time it becomes visible
+    const isFirstPublish = !existing?.publishedAt;
+    if (summary.visibleToFamily && isFirstPublish && summary.familyMemberIds.length > 0) {
+      const completedCount = summary.tasksCompleted.filter(task => task.status === 'COMPLETED').length;
+      await this.createActivityFeedItem(
+        summary.familyMemberIds,
+        summary.clientId,
+        {
+          activityType: 'VISIT_COMPLETED',
+          title: 'Visit Summary Available',
+          description: `${summary.caregiverName} completed ${completedCount} of ${summary.tasksCompleted.length} care tasks during the visit.`,
+          relatedEntityType: 'VISIT',
+          relatedEntityId: summary.visitId,
+          performedBy: context.userId,
+          performedByName: await this.getUserName(context.userId)
+        },
+        context
+      );
+    }
+
+    return summary;
+  }
+
+  /**
+   * Get published visit summaries for a family member, redacted to their
+   * portal access level
+   */
+  async getVisitSummariesForFamilyMember(
+    familyMemberId: UUID,
+    context: UserContext,
+    limit: number = 20
+  ): Promise<VisitSummary[]> {
+    // Validate permissions
+    if (!this.permissions.hasPermission(context, 'family-portal:view')) {
+      throw new Error('Insufficient permissions to view family portal') as PermissionError;
+    }
+
+    const consent = await this.getPortalConsent(familyMemberId, context);
+    this.requireConsent(consent, 'VISIT_SCHEDULE');
+
+    const summaries = (await this.visitSummaryRepo.getPublishedSummariesForFamilyMember(familyMemberId, limit))
+      .map(summary => redactVisitSummary(summary, consent.familyMember.portalAccessLevel, consent.scopes));
+
+    if (summaries.length > 0) {
+      await this.logPortalDisclosure(consent, `Family portal visit summaries (${summaries.length})`, context);
+    }
+    return summaries;
+  }
+
+  /**
+   * Generate a care plan progress report from goal progress and publish it
+   * to the family activity feed
+   */
+  async generateProgressReport(
+    input: GenerateProgressReportInput,
+    context: UserContext
+  ): Promise<CarePlanProgressReport> {
+    // Validate permissions
+    if (!this.permissions.hasPermission(context, 'family-portal:publish')) {
+      throw new Error('Insufficient permissions to publish progress reports') as PermissionError;
+    }
+
+    const periodStart = new Date(input.reportPeriodStart);
+    const periodEnd = new Date(input.reportPeriodEnd);
+    if (Number.isNaN(periodStart.getTime()) || periodStart.getTime() >= periodEnd.getTime()) {
+      throw new Error('Progress report validation failed: report period must end after it starts') as ValidationError;
+    }
+
+    const carePlan = await this.carePlanService.getCarePlanById(input.carePlanId, context);
+    if (carePlan.clientId !== input.clientId) {
+      throw new Error('Progress report validation failed: care plan does not belong to this client') as ValidationError;
+    }
+    const familyMembers = await this.getActiveFamilyMembers(input.clientId, input.familyMemberIds);
+
+    const goalProgress: GoalProgressSummary[] = (carePlan.goals ?? [])
+      .filter(goal => goal.status !== 'DISCONTINUED')
+      .map(goal => ({
+        goalId: goal.id,
+        goalName: goal.name,
+        category: goal.category,
+        targetDate: goal.targetDate ?? carePlan.expirationDate ?? periodEnd,
+        currentStatus: toGoalProgressStatus(goal.status),
+        progressPercentage: calculateGoalProgress(goal),
+        recentUpdates: describeGoalUpdates(goal, periodStart, periodEnd)
+      }));
+    const countGoals = (...statuses: GoalProgressSummary['currentStatus'][]): number =>
+      goalProgress.filter(goal => statuses.includes(goal.currentStatus)).length;
+
+    const preparedByName = await this.getUserName(context.userId);
+    const report = await this.progressReportRepo.createReport({
+      carePlanId: carePlan.id,
+      clientId: input.clientId,
+      familyMemberIds: input.familyMemberIds,
+      reportPeriodStart: periodStart,
+      reportPeriodEnd: periodEnd,
+      reportType: input.reportType,
+      goalsTotal: goalProgress.length,
+      goalsAchieved: countGoals('ACHIEVED'),
+      goalsInProgress: countGoals('IN_PROGRESS', 'ON_TRACK'),
+      goalsAtRisk: countGoals('AT_RISK'),
+      goalProgress,
+      overallSummary: input.overallSummary,
+      concernsNoted: input.concernsNoted,
+      recommendationsForFamily: input.recommendationsForFamily,
+      preparedBy: context.userId,
+      preparedByName,
+      publishedAt: new Date(),
+      organizationId: carePlan.organizationId,
+      branchId: carePlan.branchId ?? context.branchIds[0] ?? context.organizationId!
+    }, context.userId);
+
+    // Progress reports are care plan detail, which VIEW_BASIC access excludes
+    const recipients = familyMembers
+      .filter(fm => fm.portalAccessLevel !== 'VIEW_BASIC')
+      .map(fm => fm.id);
+    if (recipients.length > 0) {
+      await this.createActivityFeedItem(
+        recipients,
+        input.clientId,
+        {
+          activityType: 'CARE_PLAN_UPDATED',
+          title: `${REPORT_TYPE_LABELS.get(input.reportType) ?? 'Care Plan'} Progress Report`,
+          description: `${report.goalsAchieved} of ${report.goalsTotal} care goals achieved, ${report.goalsInProgress} in progress.`,
+          summary: input.overallSummary,
+          relatedEntityType: 'CARE_PLAN',
+          relatedEntityId: carePlan.id,
+          performedBy: context.userId,
+          performedByName: preparedByName
+        },
+        context
+      );
+    }
+
+    return report;
+  }
+
+  /**
+   * Get published progress reports for a family member, redacted to their
+   * portal access level
+   */
+  async getProgressReportsForFamilyMember(
+    familyMemberId: UUID,
+    context: UserContext,
+    limit: number = 12
+  ): Promise<CarePlanProgressReport[]> {
+    // Validate permissions
+    if (!this.permissions.hasPermission(context, 'family-portal:view')) {
+      throw new Error('Insufficient permissions to view family portal') as PermissionError;
+    }
+
+    const consent = await this.getPortalConsent(familyMemberId, context);
+    const { portalAccessLevel } = consent.familyMember;
+    if (portalAccessLevel === 'VIEW_BASIC') {
+      return [];
+    }
+    this.requireConsent(consent, 'CLINICAL_NOTES');
+
+    const reports = (await this.progressReportRepo.getPublishedReportsForFamilyMember(familyMemberId, limit))
+      .map(report => redactProgressReport(report, portalAccessLevel));
+
+    if (reports.length > 0) {
+      await this.logPortalDisclosure(consent, `Care plan progress reports (${reports.length})`, context);
+    }
+    return reports;
+  }
+
+  /**
+   * Load a visit in the caller's organization that is finished and can be
+   * summarized
+   */
+  private async getSummarizableVisit(visitId: UUID, context: UserContext): Promise<VisitSummarySource> {
+    const source = await this.visitSummaryRepo.getVisitSummarySource(visitId);
+    if (!source || source.organizationId !== context.organizationId) {
+      throw new Error('Visit not found') as NotFoundError;
+    }
+    if (!SUMMARIZABLE_VISIT_STATUSES.has(source.visitStatus)) {
+      throw new Error('Visit summary validation failed: only completed visits can be summarized') as ValidationError;
+    }
+    return source;
+  }
+
+  /**
+   * Resolve family member IDs, all of which must be active portal members
+   * for the client
+   */
+  private async getActiveFamilyMembers(clientId: UUID, familyMemberIds: UUID[]): Promise<FamilyMember[]> {
+    const activeMembers = (await this.familyMemberRepo.findByClientId(clientId))
+      .filter(fm => fm.status === 'ACTIVE');
+    const membersById = new Map(activeMembers.map(fm => [fm.id, fm]));
+
+    return familyMemberIds.map(id => {
+      const member = membersById.get(id);
+      if (!member) {
+        throw new Error(`Family member validation failed: ${id} is not an active family member of this client`) as ValidationError;
+      }
+      return member;
+    });
+  }
+
+  // ============================================================================
+  // Consent Management
+  // ============================================================================
+
+  /**
+   * Record information-sharing consent granted by the client or their legal
+   * representative. Any consent already in force for the family member is
+   * superseded.
+   */
+  async grantConsent(
+    input: GrantFamilyConsentInput,
+    context: UserContext
+  ): Promise<FamilyConsent> {
+    // Validate permissions
+    if (!this.permissions.hasPermission(context, 'family-portal:manage')) {
+      throw new Error('Insufficient permissions to manage family consent') as PermissionError;
+    }
+
+    const scopes = Array.from(new Set(input.scopes ?? []));
+    if (scopes.length === 0 || !scopes.every(scope => ALL_CONSENT_SCOPES.includes(scope))) {
+      throw new Error(`Consent validation failed: scopes must be one or more of ${ALL_CONSENT_SCOPES.join(', ')}`) as ValidationError;
+    }
+    if (input.expiresAt && new Date(input.expiresAt).getTime() <= Date.now()) {
+      throw new Error('Consent validation failed: expiration must be in the future') as ValidationError;
+    }
+
+    const familyMember = await this.familyMemberRepo.findById(input.familyMemberId);
+    if (!familyMember || familyMember.clientId !== input.clientId ||
+      familyMember.organizationId !== context.organizationId) {
+      throw new Error('Family member not found') as NotFoundError;
+    }
+    await this.validateConsentSignatory(input);
+
+    return await this.consentRepo.createConsent({
+      ...input,
+      scopes,
+      signedByName: input.signedByName.trim(),
+      organizationId: context.organizationId!,
+      createdBy: context.userId
+    });
+  }
+
+  /**
+   * Revoke consent. Portal reads check consent on every request, so access
+   * ends immediately; the family member is notified.
+   */
+  async revokeConsent(
+    consentId: UUID,
+    reason: string,
+    context: UserContext
+  ): Promise<FamilyConsent> {
+    // Validate permissions
+    if (!this.permissions.hasPermission(context, 'family-portal:manage')) {
+      throw new Error('Insufficient permissions to manage family consent') as PermissionError;
+    }
+
+    const consent = await this.consentRepo.getConsentById(consentId);
+    if (!consent || consent.organizationId !== context.organizationId) {
+      throw new Error('Consent not found') as NotFoundError;
+    }
+    if (consent.revokedAt) {
+      throw new Error('Consent has already been revoked') as ValidationError;
+    }
+
+    const revoked = await this.consentRepo.revokeConsent(consentId, context.userId, reason);
+
+    await this.notificationRepo.createNotification({
+      familyMemberId: revoked.familyMemberId,
+      clientId: revoked.clientId,
+      category: 'SYSTEM',
+      priority: 'HIGH',
+      title: 'Information Sharing Consent Revoked',
+      message: `Consent to share ${describeScopes(revoked.scopes)} with you has been revoked. This information is no longer available in the family portal.`,
+      createdBy: context.userId,
+      organizationId: context.organizationId!
+    });
+
+    return revoked;
+  }
+
+  /**
+   * Get consent history for a client
+   */
+  async getConsentsForClient(
+    clientId: UUID,
+    context: UserContext
+  ): Promise<FamilyConsent[]> {
+    // Validate permissions
+    if (!this.permissions.hasPermission(context, 'family-portal:manage')) {
+      throw new Error('Insufficient permissions to view family consent') as PermissionError;
+    }
+
+    return await this.consentRepo.getConsentsForClient(clientId, context.organizationId!);
+  }
+
+  /**
+   * Consent must be signed by the client themselves or by a family member
+   * who is their legal representative
+   */
+  private async validateConsentSignatory(input: GrantFamilyConsentInput): Promise<void> {
+    if (!input.signedByName?.trim()) {
+      throw new Error('Consent validation failed: signer name is required') as ValidationError;
+    }
+    if (Boolean(input.signedByClientId) === Boolean(input.signedByGuardianId)) {
+      throw new Error('Consent validation failed: consent must be signed by either the client or a legal representative') as ValidationError;
+    }
+    if (input.signedByClientId && input.signedByClientId !== input.clientId) {
+      throw new Error('Consent validation failed: only the client can sign as the client') as ValidationError;
+    }
+    if (input.signedByGuardianId) {
+      const representative = await this.familyMemberRepo.findById(input.signedByGuardianId);
+      const isRepresentative = representative?.clientId === input.clientId &&
+        representative.status === 'ACTIVE' &&
+        LEGAL_REPRESENTATIVE_RELATIONSHIPS.has(representative.relationship);
+      if (!isRepresentative) {
+        throw new Error('Consent validation failed: signer is not a legal representative of this client') as ValidationError;
+      }
+    }
+  }
+
+  /**
+   * Load a family member and the consent in force for a portal read. Family
+   * users may only read their own portal. Consent governs disclosure to
+   * family users; staff viewing a family member's portal are not restricted
+   * and their reads are not disclosures.
+   */
+  private async getPortalConsent(familyMemberId: UUID, context: UserContext): Promise<PortalConsent> {
+    const isFamilyUser = context.roles.includes('FAMILY');
+    if (isFamilyUser && familyMemberId !== context.userId) {
+      throw new Error('You can only access your own family portal') as PermissionError;
+    }
+
+    const familyMember = await this.familyMemberRepo.findById(familyMemberId);
+    if (!familyMember) {
+      throw new Error('Family member not found') as NotFoundError;
+    }
+    return await this.resolvePortalConsent(familyMember, isFamilyUser);
+  }
+
+  private async resolvePortalConsent(familyMember: FamilyMember, isFamilyUser: boolean): Promise<PortalConsent> {
+    if (!isFamilyUser) {
+      return { familyMember, scopes: new Set(ALL_CONSENT_SCOPES), consentIds: [], isDisclosure: false };
+    }
+
+    const consents = await this.consentRepo.getActiveConsents(familyMember.id, familyMember.clientId);
+    return {
+      familyMember,
+      scopes: new Set(consents.flatMap(consent => consent.scopes)),
+      consentIds: consents.map(consent => consent.id),
+      isDisclosure: true
+    };
+  }
+
+  /**
+   * Require consent to the given scope, or to any scope when none is given
+   */
+  private requireConsent(consent: PortalConsent, scope?: ConsentScope): void {
+    if (scope === undefined ? consent.scopes.size === 0 : !consent.scopes.has(scope)) {
+      const subject = scope === undefined ? 'the family portal' : CONSENT_SCOPE_LABELS.get(scope);
+      throw new Error(`Client consent required to view ${subject}`) as PermissionError;
+    }
+  }
+
+  /**
+   * Record a disclosure to a family user in the client access audit log
+   */
+  private async logPortalDisclosure(
+    consent: PortalConsent,
+    informationDisclosed: string,
+    context: UserContext
+  ): Promise<void> {
+    if (!consent.isDisclosure) {
+      return;
+    }
+
+    const { familyMember } = consent;
+    await this.clientAuditService.logDisclosure(
+      familyMember.clientId,
+      context.userId,
+      `${familyMember.firstName} ${familyMember.lastName} (${familyMember.relationship.toLowerCase()})`,
+      'PORTAL',
+      informationDisclosed,
+      consent.consentIds.join(','),
+      'Family portal access'
+    );
   }
 
   // ============================================================================
@@ -540,10 +1328,16 @@ export class FamilyEngagementService {
 
     // IMPORTANT: Family members can only view their own dashboard
     // For FAMILY role, ensure familyMemberId matches userId (they should be the same)
-    if (context.roles.includes('FAMILY') && familyMemberId !== context.userId) {
+    const isFamilyUser = context.roles.includes('FAMILY');
+    if (isFamilyUser && familyMemberId !== context.userId) {
       throw new Error('You can only access your own family portal') as PermissionError;
     }
 
+    // Each dashboard section is shown only if the client consented to share it
+    const consent = await this.resolvePortalConsent(profile, isFamilyUser);
+    this.requireConsent(consent);
+    const showVisits = consent.scopes.has('VISIT_SCHEDULE');
+
     // Get recent activity
     let recentActivity = await this.activityFeedRepo.getRecentActivity(familyMemberId, 10);
 
@@ -616,164 +1410,15 @@ export class FamilyEngagementService {
         },
       ];
     }
+    recentActivity = recentActivity.filter(item =>
+      isConsented(consent, ACTIVITY_ENTITY_SCOPES.get(item.relatedEntityType))
+    );
 
-    // Get upcoming visits for the client
-    // Note: Visit summaries are published to the family portal separately
-    // via the publishVisitSummary feature. This queries the visit_summaries table
-    // which is populated when visits are completed and approved for family viewing.
-    // For now, returning mock data for demo purposes
-    const upcomingVisits: VisitSummary[] = [
-      {
-        id: 'visit-summary-1' as UUID,
-        clientId: profile.clientId,
-        visitId: 'visit-1' as UUID,
-        familyMemberIds: [familyMemberId],
-        scheduledStartTime: new Date(Date.now() + 2 * 60 * 60 * 1000), // 2 hours from now
-        scheduledEndTime: new Date(Date.now() + 4 * 60 * 60 * 1000), // 4 hours from now
-        caregiverName: 'Sarah Johnson',
-        caregiverPhotoUrl: undefined,
-        status: 'SCHEDULED',
-        tasksCompleted: [],
-        visibleToFamily: true,
-        viewedByFamily: false,
-        organizationId: context.organizationId!,
-        branchId: context.branchIds[0] || context.organizationId!,
-        createdBy: context.userId,
-        updatedBy: context.userId,
-        createdAt: new Date(),
-        updatedAt: new Date(),
-        version: 1,
-      },
-      {
-        id: 'visit-summary-2' as UUID,
-        clientId: profile.clientId,
-        visitId: 'visit-2' as UUID,
-        familyMemberIds: [familyMemberId],
-        scheduledStartTime: new Date(Date.now() + 26 * 60 * 60 * 1000), // Tomorrow morning
-        scheduledEndTime: new Date(Date.now() + 28 * 60 * 60 * 1000),
-        caregiverName: 'Sarah Johnson',
-        caregiverPhotoUrl: undefined,
-        status: 'SCHEDULED',
-        tasksCompleted: [],
-        visibleToFamily: true,
-        viewedByFamily: false,
-        organizationId: context.organizationId!,
-        branchId: context.branchIds[0] || context.organizationId!,
-        createdBy: context.userId,
-        updatedBy: context.userId,
-        createdAt: new Date(),
-        updatedAt: new Date(),
-        version: 1,
-      },
-      {
-        id: 'visit-summary-3' as UUID,
-        clientId: profile.clientId,
-        visitId: 'visit-3' as UUID,
-        familyMemberIds: [familyMemberId],
-        scheduledStartTime: new Date(Date.now() + 50 * 60 * 60 * 1000), // 2 days from now
-        scheduledEndTime: new Date(Date.now() + 52 * 60 * 60 * 1000),
-        caregiverName: 'Michael Chen',
-        caregiverPhotoUrl: undefined,
-        status: 'SCHEDULED',
-        tasksCompleted: [],
-        visibleToFamily: true,
-        viewedByFamily: false,
-        organizationId: context.organizationId!,
-        branchId: context.branchIds[0] || context.organizationId!,
-        createdBy: context.userId,
-        updatedBy: context.userId,
-        createdAt: new Date(),
-        updatedAt: new Date(),
-        version: 1,
-      },
-      {
-        id: 'visit-summary-4' as UUID,
-        clientId: profile.clientId,
-        visitId: 'visit-4' as UUID,
-        familyMemberIds: [familyMemberId],
-        scheduledStartTime: new Date(Date.now() - 6 * 60 * 60 * 1000), // 6 hours ago (completed)
-        scheduledEndTime: new Date(Date.now() - 4 * 60 * 60 * 1000),
-        actualStartTime: new Date(Date.now() - 6 * 60 * 60 * 1000),
-        actualEndTime: new Date(Date.now() - 4 * 60 * 60 * 1000),
-        caregiverName: 'Sarah Johnson',
-        caregiverPhotoUrl: undefined,
-        status: 'COMPLETED',
-        tasksCompleted: [
-          {
-            taskId: 'task-1' as UUID,
-            taskName: 'Personal Care',
-            category: 'ADL',
-            status: 'COMPLETED',
-            completedAt: new Date(Date.now() - 5 * 60 * 60 * 1000),
-          },
-          {
-            taskId: 'task-2' as UUID,
-            taskName: 'Medication Assistance',
-            category: 'Medical',
-            status: 'COMPLETED',
-            completedAt: new Date(Date.now() - 5 * 60 * 60 * 1000),
-          },
-        ],
-        visitNotes: 'Visit went well. Patient was in good spirits and took all medications as prescribed.',
-        visibleToFamily: true,
-        viewedByFamily: false,
-        publishedAt: new Date(Date.now() - 4 * 60 * 60 * 1000),
-        organizationId: context.organizationId!,
-        branchId: context.branchIds[0] || context.organizationId!,
-        createdBy: context.userId,
-        updatedBy: context.userId,
-        createdAt: new Date(),
-        updatedAt: new Date(),
-        version: 1,
-      },
-      {
-        id: 'visit-summary-5' as UUID,
-        clientId: profile.clientId,
-        visitId: 'visit-5' as UUID,
-        familyMemberIds: [familyMemberId],
-        scheduledStartTime: new Date(Date.now() - 30 * 60 * 60 * 1000), // Yesterday (completed)
-        scheduledEndTime: new Date(Date.now() - 28 * 60 * 60 * 1000),
-        actualStartTime: new Date(Date.now() - 30 * 60 * 60 * 1000),
-        actualEndTime: new Date(Date.now() - 28 * 60 * 60 * 1000),
-        caregiverName: 'Sarah Johnson',
-        caregiverPhotoUrl: undefined,
-        status: 'COMPLETED',
-        tasksCompleted: [
-          {
-            taskId: 'task-3' as UUID,
-            taskName: 'Personal Care',
-            category: 'ADL',
-            status: 'COMPLETED',
-            completedAt: new Date(Date.now() - 29 * 60 * 60 * 1000),
-          },
-          {
-            taskId: 'task-4' as UUID,
-            taskName: 'Meal Preparation',
-            category: 'Nutrition',
-            status: 'COMPLETED',
-            completedAt: new Date(Date.now() - 29 * 60 * 60 * 1000),
-          },
-          {
-            taskId: 'task-5' as UUID,
-            taskName: 'Light Housekeeping',
-            category: 'Homemaking',
-            status: 'COMPLETED',
-            completedAt: new Date(Date.now() - 29 * 60 * 60 * 1000),
-          },
-        ],
-        visitNotes: 'Completed all planned tasks. Patient had a good appetite and enjoyed the meal.',
-        visibleToFamily: true,
-        viewedByFamily: false,
-        publishedAt: new Date(Date.now() - 28 * 60 * 60 * 1000),
-        organizationId: context.organizationId!,
-        branchId: context.branchIds[0] || context.organizationId!,
-        createdBy: context.userId,
-        updatedBy: context.userId,
-        createdAt: new Date(),
-        updatedAt: new Date(),
-        version: 1,
-      },
-    ];
+    // Published visit summaries, redacted to the family member's access level
+    const upcomingVisits = showVisits
+      ? (await this.visitSummaryRepo.getPublishedSummariesForFamilyMember(familyMemberId, 5))
+        .map(summary => redactVisitSummary(summary, profile.portalAccessLevel, consent.scopes))
+      : [];
 
     // Get unread counts
     const unreadNotifications = profile.statistics.unreadNotifications;
@@ -791,7 +1436,7 @@ export class FamilyEngagementService {
     // Fetch active care plan
     let activeCarePlan;
     try {
-      const carePlan = await this.carePlanService.getActiveCarePlanForClient(profile.clientId, context);
+      const carePlan = consent.scopes.has('CLINICAL_NOTES') && await this.carePlanService.getActiveCarePlanForClient(profile.clientId, context);
       if (carePlan) {
         // Count goals (if goals array exists)
         const goalsTotal = carePlan.goals?.length || 0;
@@ -844,6 +1489,8 @@ export class FamilyEngagementService {
       });
     }
 
+    await this.logPortalDisclosure(consent, `Family portal dashboard (${describeScopes(consent.scopes)})`, context);
+
     return {
       client: {
         id: profile.clientId,
@@ -854,7 +1501,7 @@ export class FamilyEngagementService {
       recentActivity,
       unreadNotifications,
       unreadMessages,
-      careTeam,
+      careTeam: showVisits ? careTeam : [],
       activeCarePlan
     };
   }
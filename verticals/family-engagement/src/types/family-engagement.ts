@@ -415,10 +415,83 @@ export interface GoalProgressSummary {
   recentUpdates: string;
 }
 
+/**
+ * Task instance recorded against a visit, as read for a family summary
+ */
+export interface VisitTaskRecord {
+  taskId: UUID;
+  taskName: string;
+  category: string;
+  status: string; // Task instance status (COMPLETED, SKIPPED, MISSED, ...)
+  completedAt?: Timestamp;
+  completionNote?: string;
+  skipReason?: string;
+}
+
+/**
+ * Caregiver visit note, as read for a family summary
+ */
+export interface VisitNoteRecord {
+  noteType: 'GENERAL' | 'CLINICAL' | 'INCIDENT' | 'TASK';
+  noteText: string;
+  clientMood?: string;
+  isIncident: boolean;
+  createdAt: Timestamp;
+}
+
+/**
+ * Visit data a family summary is generated from
+ */
+export interface VisitSummarySource {
+  visitId: UUID;
+  clientId: UUID;
+  visitStatus: string; // Scheduling visit status
+  scheduledStartTime: Timestamp;
+  scheduledEndTime: Timestamp;
+  actualStartTime?: Timestamp;
+  actualEndTime?: Timestamp;
+  caregiverName: string;
+  tasks: VisitTaskRecord[];
+  notes: VisitNoteRecord[];
+  organizationId: UUID;
+  branchId: UUID;
+}
+
+/**
+ * Generated visit summary awaiting coordinator review
+ */
+export interface VisitSummaryDraft {
+  visitId: UUID;
+  clientId: UUID;
+  existingSummaryId?: UUID; // Set when the visit has already been summarized
+  scheduledStartTime: Timestamp;
+  scheduledEndTime: Timestamp;
+  actualStartTime?: Timestamp;
+  actualEndTime?: Timestamp;
+  caregiverName: string;
+  tasks: VisitTaskSummary[];
+  suggestedVisitNotes: string; // Built from general and task notes only
+  withheldNotes: VisitNoteRecord[]; // Clinical and incident notes, for the coordinator's reference
+  familyMembers: Array<{
+    id: UUID;
+    name: string;
+    portalAccessLevel: PortalAccessLevel;
+  }>;
+}
+
 // ============================================================================
 // Consent & Authorization Types
 // ============================================================================
 
+/**
+ * Client information a family member may be shown
+ */
+export type ConsentScope =
+  | 'VISIT_SCHEDULE' // Visits, caregivers and tasks performed
+  | 'CLINICAL_NOTES' // Visit notes, care plan progress and incidents
+  | 'MEDICATIONS' // Medication and health monitoring details
+  | 'BILLING'; // Billing and payment information
+
 /**
  * Consent record for information sharing
  */
@@ -431,10 +504,12 @@ export interface FamilyConsent extends Entity {
   consentGiven: boolean;
   consentDate: Timestamp;
   expiresAt?: Timestamp | null;
+  scopes: ConsentScope[];
 
   // Legal
   signedByClientId?: UUID; // If client gave consent
   signedByGuardianId?: UUID; // If guardian gave consent
+  signedByName?: string;
   documentUrl?: string; // Signed consent form
 
   // Revocation
@@ -520,6 +595,23 @@ export interface PublishVisitSummaryInput {
   visibleToFamily: boolean;
 }
 
+/**
+ * Input for granting scoped information-sharing consent to a family member.
+ * Exactly one of signedByClientId or signedByGuardianId identifies who
+ * granted it.
+ */
+export interface GrantFamilyConsentInput {
+  familyMemberId: UUID;
+  clientId: UUID;
+  scopes: ConsentScope[];
+  consentDate?: Timestamp;
+  expiresAt?: Timestamp | null;
+  signedByClientId?: UUID;
+  signedByGuardianId?: UUID; // Family member acting as legal representative
+  signedByName: string;
+  documentUrl?: string;
+}
+
 /**
  * Input for generating care plan progress report
  */
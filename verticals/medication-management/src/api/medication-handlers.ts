@@ -6,12 +6,22 @@
 
 import type { Request, Response } from 'express';
 import { MedicationService } from '../service/medication-service.js';
+import { MedicationScheduleService } from '../service/medication-schedule-service.js';
 import type { UserContext, Role } from '@care-commons/core';
 import { ValidationError, PermissionError, NotFoundError } from '@care-commons/core';
 import {
   createMedicationSchema,
   updateMedicationSchema,
   recordAdministrationSchema,
+  recordPrnFollowUpSchema,
+  receiveControlledStockSchema,
+  recordControlledWasteSchema,
+  shiftHandoffCountSchema,
+  resolveCountDiscrepancySchema,
+  setClientDoseTimesSchema,
+  generateDoseScheduleSchema,
+  marGridQuerySchema,
+  checkMedicationSafetySchema,
 } from '../validation/medication-validator.js';
 import { ZodError } from 'zod';
 
@@ -72,7 +82,10 @@ function getUserContext(req: Request): UserContext {
 /**
  * Create API handlers for medications
  */
-export function createMedicationHandlers(service: MedicationService) {
+export function createMedicationHandlers(
+  service: MedicationService,
+  scheduleService: MedicationScheduleService
+) {
   return {
     /**
      * GET /api/clients/:clientId/medications
@@ -116,6 +129,46 @@ export function createMedicationHandlers(service: MedicationService) {
       }
     },
 
+    /**
+     * POST /api/medications/safety-check
+     * Check a medication order against the client's allergies and active
+     * medications without entering it
+     */
+    checkMedicationSafety: async (req: Request, res: Response): Promise<void> => {
+      try {
+        const context = getUserContext(req);
+        const { clientId, ...order } = checkMedicationSafetySchema.parse(req.body);
+
+        const check = await service.checkMedicationSafety(clientId, order, context);
+
+        res.json(check);
+      } catch (error) {
+        handleError(error, res, 'checking medication safety');
+      }
+    },
+
+    /**
+     * GET /api/clients/:clientId/medication-safety-overrides
+     * Get the safety alerts overridden on a client's orders
+     */
+    getClientSafetyOverrides: async (req: Request, res: Response): Promise<void> => {
+      try {
+        const context = getUserContext(req);
+        const { clientId } = req.params;
+
+        if (!clientId) {
+          res.status(400).json({ error: 'clientId parameter is required' });
+          return;
+        }
+
+        const overrides = await service.getClientSafetyOverrides(clientId, context);
+
+        res.json(overrides);
+      } catch (error) {
+        handleError(error, res, 'fetching medication safety overrides');
+      }
+    },
+
     /**
      * GET /api/medications/:medicationId
      * Get a specific medication
@@ -266,5 +319,270 @@ export function createMedicationHandlers(service: MedicationService) {
         handleError(error, res, 'fetching client administrations');
       }
     },
+
+    /**
+     * POST /api/administrations/:administrationId/prn-follow-up
+     * Record the effectiveness follow-up of a PRN dose
+     */
+    recordPrnFollowUp: async (req: Request, res: Response): Promise<void> => {
+      try {
+        const context = getUserContext(req);
+        const { administrationId } = req.params;
+
+        if (!administrationId) {
+          res.status(400).json({ error: 'administrationId parameter is required' });
+          return;
+        }
+
+        const input = recordPrnFollowUpSchema.parse(req.body);
+
+        const administration = await service.recordPrnFollowUp(administrationId, input, context);
+
+        res.json(administration);
+      } catch (error) {
+        handleError(error, res, 'recording PRN follow-up');
+      }
+    },
+
+    /**
+     * GET /api/prn-follow-ups
+     * Get PRN doses whose effectiveness follow-up is due (optionally for one client)
+     */
+    getPendingPrnFollowUps: async (req: Request, res: Response): Promise<void> => {
+      try {
+        const context = getUserContext(req);
+        const clientId = typeof req.query.clientId === 'string' ? req.query.clientId : undefined;
+
+        const administrations = await service.getPendingPrnFollowUps(context, clientId);
+
+        res.json(administrations);
+      } catch (error) {
+        handleError(error, res, 'fetching pending PRN follow-ups');
+      }
+    },
+
+    /**
+     * POST /api/medications/:medicationId/controlled-stock
+     * Receive controlled substance stock into the count
+     */
+    receiveControlledStock: async (req: Request, res: Response): Promise<void> => {
+      try {
+        const context = getUserContext(req);
+        const { medicationId } = req.params;
+
+        if (!medicationId) {
+          res.status(400).json({ error: 'medicationId parameter is required' });
+          return;
+        }
+
+        const input = receiveControlledStockSchema.parse(req.body);
+
+        const entry = await service.receiveControlledStock(medicationId, input, context);
+
+        res.status(201).json(entry);
+      } catch (error) {
+        handleError(error, res, 'receiving controlled substance stock');
+      }
+    },
+
+    /**
+     * POST /api/medications/:medicationId/controlled-waste
+     * Record witnessed waste of a controlled substance
+     */
+    recordControlledWaste: async (req: Request, res: Response): Promise<void> => {
+      try {
+        const context = getUserContext(req);
+        const { medicationId } = req.params;
+
+        if (!medicationId) {
+          res.status(400).json({ error: 'medicationId parameter is required' });
+          return;
+        }
+
+        const input = recordControlledWasteSchema.parse(req.body);
+
+        const entry = await service.recordControlledWaste(medicationId, input, context);
+
+        res.status(201).json(entry);
+      } catch (error) {
+        handleError(error, res, 'recording controlled substance waste');
+      }
+    },
+
+    /**
+     * GET /api/medications/:medicationId/count-ledger
+     * Get a controlled substance's count ledger
+     */
+    getControlledSubstanceLedger: async (req: Request, res: Response): Promise<void> => {
+      try {
+        const context = getUserContext(req);
+        const { medicationId } = req.params;
+
+        if (!medicationId) {
+          res.status(400).json({ error: 'medicationId parameter is required' });
+          return;
+        }
+
+        const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : 100;
+
+        const entries = await service.getControlledSubstanceLedger(medicationId, context, limit);
+
+        res.json(entries);
+      } catch (error) {
+        handleError(error, res, 'fetching controlled substance ledger');
+      }
+    },
+
+    /**
+     * POST /api/controlled-substances/handoff-counts
+     * Record the controlled substance count at shift handoff
+     */
+    recordShiftHandoffCount: async (req: Request, res: Response): Promise<void> => {
+      try {
+        const context = getUserContext(req);
+        const input = shiftHandoffCountSchema.parse(req.body);
+
+        const reconciliations = await service.recordShiftHandoffCount(input, context);
+
+        res.status(201).json(reconciliations);
+      } catch (error) {
+        handleError(error, res, 'recording shift handoff count');
+      }
+    },
+
+    /**
+     * GET /api/controlled-substances/discrepancies
+     * Get count discrepancies awaiting review (optionally for one client)
+     */
+    getOpenCountDiscrepancies: async (req: Request, res: Response): Promise<void> => {
+      try {
+        const context = getUserContext(req);
+        const clientId = typeof req.query.clientId === 'string' ? req.query.clientId : undefined;
+
+        const discrepancies = await service.getOpenCountDiscrepancies(context, clientId);
+
+        res.json(discrepancies);
+      } catch (error) {
+        handleError(error, res, 'fetching count discrepancies');
+      }
+    },
+
+    /**
+     * POST /api/controlled-substances/discrepancies/:reconciliationId/resolve
+     * Resolve a count discrepancy
+     */
+    resolveCountDiscrepancy: async (req: Request, res: Response): Promise<void> => {
+      try {
+        const context = getUserContext(req);
+        const { reconciliationId } = req.params;
+
+        if (!reconciliationId) {
+          res.status(400).json({ error: 'reconciliationId parameter is required' });
+          return;
+        }
+
+        const input = resolveCountDiscrepancySchema.parse(req.body);
+
+        const reconciliation = await service.resolveCountDiscrepancy(reconciliationId, input, context);
+
+        res.json(reconciliation);
+      } catch (error) {
+        handleError(error, res, 'resolving count discrepancy');
+      }
+    },
+
+    /**
+     * GET /api/clients/:clientId/dose-times
+     * Get a client's own dose times
+     */
+    getClientDoseTimes: async (req: Request, res: Response): Promise<void> => {
+      try {
+        const context = getUserContext(req);
+        const { clientId } = req.params;
+
+        if (!clientId) {
+          res.status(400).json({ error: 'clientId parameter is required' });
+          return;
+        }
+
+        const doseTimes = await scheduleService.getClientDoseTimes(clientId, context);
+
+        res.json(doseTimes);
+      } catch (error) {
+        handleError(error, res, 'fetching client dose times');
+      }
+    },
+
+    /**
+     * PUT /api/clients/:clientId/dose-times
+     * Set a client's dose times for a frequency code
+     */
+    setClientDoseTimes: async (req: Request, res: Response): Promise<void> => {
+      try {
+        const context = getUserContext(req);
+        const { clientId } = req.params;
+
+        if (!clientId) {
+          res.status(400).json({ error: 'clientId parameter is required' });
+          return;
+        }
+
+        const input = setClientDoseTimesSchema.parse(req.body);
+
+        const doseTimes = await scheduleService.setClientDoseTimes(clientId, input, context);
+
+        res.json(doseTimes);
+      } catch (error) {
+        handleError(error, res, 'setting client dose times');
+      }
+    },
+
+    /**
+     * POST /api/clients/:clientId/dose-schedule
+     * Materialize a client's scheduled doses for a range of days
+     */
+    generateClientSchedule: async (req: Request, res: Response): Promise<void> => {
+      try {
+        const context = getUserContext(req);
+        const { clientId } = req.params;
+
+        if (!clientId) {
+          res.status(400).json({ error: 'clientId parameter is required' });
+          return;
+        }
+
+        const input = generateDoseScheduleSchema.parse(req.body);
+
+        const result = await scheduleService.generateClientSchedule(clientId, input, context);
+
+        res.json(result);
+      } catch (error) {
+        handleError(error, res, 'generating dose schedule');
+      }
+    },
+
+    /**
+     * GET /api/clients/:clientId/mar?date=YYYY-MM-DD
+     * Get the MAR grid for a client's day
+     */
+    getMarGrid: async (req: Request, res: Response): Promise<void> => {
+      try {
+        const context = getUserContext(req);
+        const { clientId } = req.params;
+
+        if (!clientId) {
+          res.status(400).json({ error: 'clientId parameter is required' });
+          return;
+        }
+
+        const { date } = marGridQuerySchema.parse(req.query);
+
+        const grid = await scheduleService.getMarGrid(clientId, date, context);
+
+        res.json(grid);
+      } catch (error) {
+        handleError(error, res, 'fetching MAR grid');
+      }
+    },
   };
 }
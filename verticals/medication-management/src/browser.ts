@@ -15,6 +15,39 @@ export type {
   UpdateMedicationInput,
   RecordAdministrationInput,
   MedicationWithStatus,
+  ControlledSubstanceSchedule,
+  PrnEffectiveness,
+  ControlledSubstanceCountEntryType,
+  CountReconciliationStatus,
+  ControlledSubstanceCountEntry,
+  CountReconciliation,
+  RecordPrnFollowUpInput,
+  ReceiveControlledStockInput,
+  RecordControlledWasteInput,
+  ShiftHandoffCountInput,
+  ResolveCountDiscrepancyInput,
+  SigCode,
+  ScheduledDoseStatus,
+  ScheduledDose,
+  ClientDoseTimes,
+  SetClientDoseTimesInput,
+  GenerateDoseScheduleInput,
+  DoseScheduleResult,
+  MarGrid,
+  MarGridDose,
+  MissedDoseDetectionResult,
+  MedicationSafetyAlertType,
+  MedicationSafetySeverity,
+  AllergySeverity,
+  DrugClassReference,
+  DrugReferenceEntry,
+  CrossReactivityReference,
+  DrugReference,
+  DocumentedAllergy,
+  MedicationSafetyAlert,
+  MedicationSafetyCheck,
+  CreatedMedication,
+  MedicationSafetyOverride,
 } from './types/medication.js';
 
 // Validation schemas (browser-safe)
@@ -25,4 +58,44 @@ export {
   createMedicationSchema,
   updateMedicationSchema,
   recordAdministrationSchema,
+  controlledScheduleSchema,
+  prnEffectivenessSchema,
+  recordPrnFollowUpSchema,
+  receiveControlledStockSchema,
+  recordControlledWasteSchema,
+  shiftHandoffCountSchema,
+  resolveCountDiscrepancySchema,
+  setClientDoseTimesSchema,
+  generateDoseScheduleSchema,
+  marGridQuerySchema,
+  checkMedicationSafetySchema,
+  isPrnOrder,
 } from './validation/medication-validator.js';
+
+// Dose scheduling utilities
+export {
+  parseSig,
+  parseSigCode,
+  expectedTimeCount,
+  resolveDoseTimes,
+  DEFAULT_DOSE_TIMES,
+  DEFAULT_INTERVAL_START,
+  type ParsedSig,
+  type FixedTimeSigCode,
+} from './utils/sig-parser.js';
+export {
+  expandDoses,
+  alignDosesToVisits,
+  DOSE_WINDOW_MINUTES,
+  type DoseExpansionOptions,
+  type VisitWindow,
+  type AlignedDose,
+} from './utils/dose-schedule.js';
+
+// Medication safety checks
+export {
+  checkMedicationSafety,
+  type MedicationOrderNames,
+  type ActiveMedicationNames,
+} from './utils/medication-safety.js';
+export { DEFAULT_DRUG_REFERENCE } from './config/drug-reference.js';
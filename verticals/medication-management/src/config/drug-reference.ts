@@ -0,0 +1,259 @@
+/**
+ * Drug Reference Data
+ *
+ * Local reference dataset for offline drug-allergy and duplicate-therapy
+ * checks. It covers the drug classes most often involved in documented
+ * allergies and duplicate orders in home care; it is not a full drug
+ * compendium. Drugs it doesn't know are still checked by name.
+ *
+ * Agencies with a licensed compendium can pass their own DrugReference to
+ * MedicationService instead. Bump the version when the data changes: it is
+ * recorded with every override.
+ *
+ * Clinical sources:
+ * - Penicillin/cephalosporin cross-reactivity is low (~1-2%) and mostly tied
+ *   to similar side chains; penicillin/carbapenem is under 1%
+ * - Aspirin-exacerbated respiratory disease cross-reacts with other COX-1
+ *   inhibiting NSAIDs
+ * - Sulfonamide antibiotic allergy cross-reacts poorly with non-antibiotic
+ *   sulfonamides, but most references still flag them
+ */
+
+import type { DrugReference } from '../types/medication.js';
+
+export const DEFAULT_DRUG_REFERENCE: DrugReference = {
+  version: '2025.12',
+
+  drugClasses: [
+    // Antibiotics
+    { code: 'PENICILLIN', name: 'Penicillins', aliases: ['penicillins', 'pcn'], allergySeverity: 'BLOCK', duplicateTherapy: true },
+    { code: 'CEPHALOSPORIN', name: 'Cephalosporins', aliases: ['cephalosporins'], allergySeverity: 'WARNING', duplicateTherapy: true },
+    { code: 'CARBAPENEM', name: 'Carbapenems', aliases: ['carbapenems'], allergySeverity: 'WARNING', duplicateTherapy: true },
+    {
+      code: 'SULFONAMIDE_ANTIBIOTIC',
+      name: 'Sulfonamide antibiotics',
+      aliases: ['sulfa', 'sulfa drugs', 'sulfonamide', 'sulfonamides'],
+      allergySeverity: 'BLOCK',
+      duplicateTherapy: true,
+    },
+    { code: 'FLUOROQUINOLONE', name: 'Fluoroquinolones', aliases: ['fluoroquinolones', 'quinolones'], allergySeverity: 'WARNING', duplicateTherapy: true },
+    { code: 'MACROLIDE', name: 'Macrolides', aliases: ['macrolides'], allergySeverity: 'WARNING', duplicateTherapy: true },
+    { code: 'TETRACYCLINE', name: 'Tetracyclines', aliases: ['tetracyclines'], allergySeverity: 'WARNING', duplicateTherapy: true },
+
+    // Analgesics
+    { code: 'NSAID', name: 'NSAIDs', aliases: ['nsaid', 'nsaids', 'anti inflammatories'], allergySeverity: 'WARNING', duplicateTherapy: true },
+    { code: 'SALICYLATE', name: 'Salicylates', aliases: ['salicylates'], allergySeverity: 'BLOCK', duplicateTherapy: false },
+    { code: 'OPIOID', name: 'Opioids', aliases: ['opioids', 'opiates', 'narcotics'], allergySeverity: 'WARNING', duplicateTherapy: true },
+
+    // Psychotropics
+    { code: 'BENZODIAZEPINE', name: 'Benzodiazepines', aliases: ['benzodiazepines', 'benzos'], allergySeverity: 'WARNING', duplicateTherapy: true },
+    { code: 'SSRI', name: 'SSRIs', aliases: ['ssri', 'ssris'], allergySeverity: 'WARNING', duplicateTherapy: true },
+    { code: 'SNRI', name: 'SNRIs', aliases: ['snri', 'snris'], allergySeverity: 'WARNING', duplicateTherapy: true },
+    { code: 'ANTIPSYCHOTIC', name: 'Antipsychotics', aliases: ['antipsychotics'], allergySeverity: 'WARNING', duplicateTherapy: true },
+
+    // Cardiovascular
+    { code: 'ACE_INHIBITOR', name: 'ACE inhibitors', aliases: ['ace inhibitor', 'ace inhibitors'], allergySeverity: 'BLOCK', duplicateTherapy: true },
+    { code: 'ARB', name: 'Angiotensin receptor blockers', aliases: ['arb', 'arbs'], allergySeverity: 'WARNING', duplicateTherapy: true },
+    { code: 'BETA_BLOCKER', name: 'Beta blockers', aliases: ['beta blocker', 'beta blockers'], allergySeverity: 'WARNING', duplicateTherapy: true },
+    { code: 'STATIN', name: 'Statins', aliases: ['statins'], allergySeverity: 'WARNING', duplicateTherapy: true },
+    { code: 'THIAZIDE_DIURETIC', name: 'Thiazide diuretics', aliases: ['thiazides'], allergySeverity: 'WARNING', duplicateTherapy: true },
+    { code: 'LOOP_DIURETIC', name: 'Loop diuretics', aliases: ['loop diuretics'], allergySeverity: 'WARNING', duplicateTherapy: true },
+    { code: 'ANTICOAGULANT', name: 'Anticoagulants', aliases: ['anticoagulants', 'blood thinners'], allergySeverity: 'WARNING', duplicateTherapy: true },
+
+    // Other
+    { code: 'SULFONYLUREA', name: 'Sulfonylureas', aliases: ['sulfonylureas'], allergySeverity: 'WARNING', duplicateTherapy: true },
+    { code: 'PPI', name: 'Proton pump inhibitors', aliases: ['ppi', 'ppis'], allergySeverity: 'WARNING', duplicateTherapy: true },
+    { code: 'ANALGESIC_ANTIPYRETIC', name: 'Analgesic antipyretics', allergySeverity: 'WARNING', duplicateTherapy: false },
+  ],
+
+  drugs: [
+    // Penicillins
+    { name: 'penicillin', brandNames: ['penicillin v', 'penicillin g'], classes: ['PENICILLIN'] },
+    { name: 'amoxicillin', brandNames: ['amoxil'], classes: ['PENICILLIN'] },
+    {
+      name: 'amoxicillin-clavulanate',
+      brandNames: ['augmentin'],
+      ingredients: ['amoxicillin', 'clavulanate'],
+      classes: ['PENICILLIN'],
+    },
+    { name: 'ampicillin', classes: ['PENICILLIN'] },
+    { name: 'dicloxacillin', classes: ['PENICILLIN'] },
+    {
+      name: 'piperacillin-tazobactam',
+      brandNames: ['zosyn'],
+      ingredients: ['piperacillin', 'tazobactam'],
+      classes: ['PENICILLIN'],
+    },
+
+    // Cephalosporins and carbapenems
+    { name: 'cephalexin', brandNames: ['keflex'], classes: ['CEPHALOSPORIN'] },
+    { name: 'cefazolin', brandNames: ['ancef'], classes: ['CEPHALOSPORIN'] },
+    { name: 'cefdinir', brandNames: ['omnicef'], classes: ['CEPHALOSPORIN'] },
+    { name: 'cefuroxime', brandNames: ['ceftin'], classes: ['CEPHALOSPORIN'] },
+    { name: 'ceftriaxone', brandNames: ['rocephin'], classes: ['CEPHALOSPORIN'] },
+    { name: 'meropenem', brandNames: ['merrem'], classes: ['CARBAPENEM'] },
+    { name: 'ertapenem', brandNames: ['invanz'], classes: ['CARBAPENEM'] },
+
+    // Other antibiotics
+    {
+      name: 'sulfamethoxazole-trimethoprim',
+      brandNames: ['bactrim', 'septra', 'smx tmp'],
+      ingredients: ['sulfamethoxazole', 'trimethoprim'],
+      classes: ['SULFONAMIDE_ANTIBIOTIC'],
+    },
+    { name: 'ciprofloxacin', brandNames: ['cipro'], classes: ['FLUOROQUINOLONE'] },
+    { name: 'levofloxacin', brandNames: ['levaquin'], classes: ['FLUOROQUINOLONE'] },
+    { name: 'azithromycin', brandNames: ['zithromax', 'z pak'], classes: ['MACROLIDE'] },
+    { name: 'clarithromycin', brandNames: ['biaxin'], classes: ['MACROLIDE'] },
+    { name: 'erythromycin', classes: ['MACROLIDE'] },
+    { name: 'doxycycline', brandNames: ['vibramycin'], classes: ['TETRACYCLINE'] },
+    { name: 'minocycline', brandNames: ['minocin'], classes: ['TETRACYCLINE'] },
+
+    // Analgesics
+    { name: 'ibuprofen', brandNames: ['advil', 'motrin'], classes: ['NSAID'] },
+    { name: 'naproxen', brandNames: ['aleve', 'naprosyn'], classes: ['NSAID'] },
+    { name: 'meloxicam', brandNames: ['mobic'], classes: ['NSAID'] },
+    { name: 'diclofenac', brandNames: ['voltaren'], classes: ['NSAID'] },
+    { name: 'celecoxib', brandNames: ['celebrex'], classes: ['NSAID'] },
+    { name: 'ketorolac', brandNames: ['toradol'], classes: ['NSAID'] },
+    { name: 'aspirin', brandNames: ['asa', 'bayer', 'ecotrin'], classes: ['SALICYLATE'] },
+    { name: 'acetaminophen', brandNames: ['tylenol', 'apap', 'paracetamol'], classes: ['ANALGESIC_ANTIPYRETIC'] },
+    { name: 'morphine', brandNames: ['ms contin'], classes: ['OPIOID'] },
+    { name: 'codeine', classes: ['OPIOID'] },
+    {
+      name: 'acetaminophen-codeine',
+      brandNames: ['tylenol with codeine', 'tylenol 3'],
+      ingredients: ['acetaminophen', 'codeine'],
+      classes: ['OPIOID', 'ANALGESIC_ANTIPYRETIC'],
+    },
+    { name: 'oxycodone', brandNames: ['oxycontin', 'roxicodone'], classes: ['OPIOID'] },
+    {
+      name: 'oxycodone-acetaminophen',
+      brandNames: ['percocet', 'endocet'],
+      ingredients: ['oxycodone', 'acetaminophen'],
+      classes: ['OPIOID', 'ANALGESIC_ANTIPYRETIC'],
+    },
+    { name: 'hydrocodone', brandNames: ['hysingla'], classes: ['OPIOID'] },
+    {
+      name: 'hydrocodone-acetaminophen',
+      brandNames: ['norco', 'vicodin', 'lortab'],
+      ingredients: ['hydrocodone', 'acetaminophen'],
+      classes: ['OPIOID', 'ANALGESIC_ANTIPYRETIC'],
+    },
+    { name: 'hydromorphone', brandNames: ['dilaudid'], classes: ['OPIOID'] },
+    { name: 'tramadol', brandNames: ['ultram'], classes: ['OPIOID'] },
+    { name: 'fentanyl', brandNames: ['duragesic'], classes: ['OPIOID'] },
+    { name: 'methadone', classes: ['OPIOID'] },
+
+    // Psychotropics
+    { name: 'lorazepam', brandNames: ['ativan'], classes: ['BENZODIAZEPINE'] },
+    { name: 'alprazolam', brandNames: ['xanax'], classes: ['BENZODIAZEPINE'] },
+    { name: 'clonazepam', brandNames: ['klonopin'], classes: ['BENZODIAZEPINE'] },
+    { name: 'diazepam', brandNames: ['valium'], classes: ['BENZODIAZEPINE'] },
+    { name: 'temazepam', brandNames: ['restoril'], classes: ['BENZODIAZEPINE'] },
+    { name: 'sertraline', brandNames: ['zoloft'], classes: ['SSRI'] },
+    { name: 'fluoxetine', brandNames: ['prozac'], classes: ['SSRI'] },
+    { name: 'citalopram', brandNames: ['celexa'], classes: ['SSRI'] },
+    { name: 'escitalopram', brandNames: ['lexapro'], classes: ['SSRI'] },
+    { name: 'paroxetine', brandNames: ['paxil'], classes: ['SSRI'] },
+    { name: 'venlafaxine', brandNames: ['effexor'], classes: ['SNRI'] },
+    { name: 'duloxetine', brandNames: ['cymbalta'], classes: ['SNRI'] },
+    { name: 'quetiapine', brandNames: ['seroquel'], classes: ['ANTIPSYCHOTIC'] },
+    { name: 'risperidone', brandNames: ['risperdal'], classes: ['ANTIPSYCHOTIC'] },
+    { name: 'olanzapine', brandNames: ['zyprexa'], classes: ['ANTIPSYCHOTIC'] },
+    { name: 'haloperidol', brandNames: ['haldol'], classes: ['ANTIPSYCHOTIC'] },
+
+    // Cardiovascular
+    { name: 'lisinopril', brandNames: ['prinivil', 'zestril'], classes: ['ACE_INHIBITOR'] },
+    { name: 'enalapril', brandNames: ['vasotec'], classes: ['ACE_INHIBITOR'] },
+    { name: 'benazepril', brandNames: ['lotensin'], classes: ['ACE_INHIBITOR'] },
+    { name: 'ramipril', brandNames: ['altace'], classes: ['ACE_INHIBITOR'] },
+    { name: 'losartan', brandNames: ['cozaar'], classes: ['ARB'] },
+    { name: 'valsartan', brandNames: ['diovan'], classes: ['ARB'] },
+    { name: 'irbesartan', brandNames: ['avapro'], classes: ['ARB'] },
+    { name: 'metoprolol', brandNames: ['lopressor', 'toprol'], classes: ['BETA_BLOCKER'] },
+    { name: 'atenolol', brandNames: ['tenormin'], classes: ['BETA_BLOCKER'] },
+    { name: 'carvedilol', brandNames: ['coreg'], classes: ['BETA_BLOCKER'] },
+    { name: 'atorvastatin', brandNames: ['lipitor'], classes: ['STATIN'] },
+    { name: 'simvastatin', brandNames: ['zocor'], classes: ['STATIN'] },
+    { name: 'rosuvastatin', brandNames: ['crestor'], classes: ['STATIN'] },
+    { name: 'pravastatin', brandNames: ['pravachol'], classes: ['STATIN'] },
+    { name: 'hydrochlorothiazide', brandNames: ['hctz', 'microzide'], classes: ['THIAZIDE_DIURETIC'] },
+    { name: 'chlorthalidone', classes: ['THIAZIDE_DIURETIC'] },
+    { name: 'furosemide', brandNames: ['lasix'], classes: ['LOOP_DIURETIC'] },
+    { name: 'bumetanide', brandNames: ['bumex'], classes: ['LOOP_DIURETIC'] },
+    { name: 'torsemide', brandNames: ['demadex'], classes: ['LOOP_DIURETIC'] },
+    { name: 'warfarin', brandNames: ['coumadin', 'jantoven'], classes: ['ANTICOAGULANT'] },
+    { name: 'apixaban', brandNames: ['eliquis'], classes: ['ANTICOAGULANT'] },
+    { name: 'rivaroxaban', brandNames: ['xarelto'], classes: ['ANTICOAGULANT'] },
+    { name: 'dabigatran', brandNames: ['pradaxa'], classes: ['ANTICOAGULANT'] },
+    { name: 'enoxaparin', brandNames: ['lovenox'], classes: ['ANTICOAGULANT'] },
+    { name: 'heparin', classes: ['ANTICOAGULANT'] },
+
+    // Diabetes and GI
+    { name: 'glipizide', brandNames: ['glucotrol'], classes: ['SULFONYLUREA'] },
+    { name: 'glyburide', brandNames: ['diabeta', 'glynase'], classes: ['SULFONYLUREA'] },
+    { name: 'glimepiride', brandNames: ['amaryl'], classes: ['SULFONYLUREA'] },
+    { name: 'omeprazole', brandNames: ['prilosec'], classes: ['PPI'] },
+    { name: 'pantoprazole', brandNames: ['protonix'], classes: ['PPI'] },
+    { name: 'esomeprazole', brandNames: ['nexium'], classes: ['PPI'] },
+    { name: 'lansoprazole', brandNames: ['prevacid'], classes: ['PPI'] },
+  ],
+
+  crossReactivity: [
+    {
+      allergyClass: 'PENICILLIN',
+      drugClass: 'CEPHALOSPORIN',
+      severity: 'WARNING',
+      note: 'Low cross-reactivity with cephalosporins, highest with similar side chains',
+    },
+    {
+      allergyClass: 'PENICILLIN',
+      drugClass: 'CARBAPENEM',
+      severity: 'WARNING',
+      note: 'Cross-reactivity with carbapenems is under 1%',
+    },
+    {
+      allergyClass: 'CEPHALOSPORIN',
+      drugClass: 'PENICILLIN',
+      severity: 'WARNING',
+      note: 'Low cross-reactivity with penicillins',
+    },
+    {
+      allergyClass: 'SALICYLATE',
+      drugClass: 'NSAID',
+      severity: 'WARNING',
+      note: 'Aspirin sensitivity often extends to other NSAIDs',
+    },
+    {
+      allergyClass: 'NSAID',
+      drugClass: 'SALICYLATE',
+      severity: 'WARNING',
+      note: 'NSAID sensitivity often extends to aspirin',
+    },
+    {
+      allergyClass: 'SULFONAMIDE_ANTIBIOTIC',
+      drugClass: 'SULFONYLUREA',
+      severity: 'WARNING',
+      note: 'Non-antibiotic sulfonamide; cross-reactivity is unlikely but reported',
+    },
+    {
+      allergyClass: 'SULFONAMIDE_ANTIBIOTIC',
+      drugClass: 'THIAZIDE_DIURETIC',
+      severity: 'WARNING',
+      note: 'Non-antibiotic sulfonamide; cross-reactivity is unlikely but reported',
+    },
+    {
+      allergyClass: 'SULFONAMIDE_ANTIBIOTIC',
+      drugClass: 'LOOP_DIURETIC',
+      severity: 'WARNING',
+      note: 'Non-antibiotic sulfonamide; cross-reactivity is unlikely but reported',
+    },
+    {
+      allergyClass: 'ACE_INHIBITOR',
+      drugClass: 'ARB',
+      severity: 'WARNING',
+      note: 'ACE inhibitor angioedema recurs on ARBs in a small share of patients',
+    },
+  ],
+};
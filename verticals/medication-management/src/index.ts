@@ -15,13 +15,73 @@ export type {
   UpdateMedicationInput,
   RecordAdministrationInput,
   MedicationWithStatus,
+  ControlledSubstanceSchedule,
+  PrnEffectiveness,
+  ControlledSubstanceCountEntryType,
+  CountReconciliationStatus,
+  ControlledSubstanceCountEntry,
+  CountReconciliation,
+  RecordPrnFollowUpInput,
+  ReceiveControlledStockInput,
+  RecordControlledWasteInput,
+  ShiftHandoffCountInput,
+  ResolveCountDiscrepancyInput,
+  SigCode,
+  ScheduledDoseStatus,
+  ScheduledDose,
+  ClientDoseTimes,
+  SetClientDoseTimesInput,
+  GenerateDoseScheduleInput,
+  DoseScheduleResult,
+  MarGrid,
+  MarGridDose,
+  MissedDoseDetectionResult,
+  MedicationSafetyAlertType,
+  MedicationSafetySeverity,
+  AllergySeverity,
+  DrugClassReference,
+  DrugReferenceEntry,
+  CrossReactivityReference,
+  DrugReference,
+  DocumentedAllergy,
+  MedicationSafetyAlert,
+  MedicationSafetyCheck,
+  CreatedMedication,
+  MedicationSafetyOverride,
 } from './types/medication.js';
 
 // Repositories
-export { MedicationRepository, MedicationAdministrationRepository } from './repository/medication-repository.js';
+export {
+  MedicationRepository,
+  MedicationAdministrationRepository,
+  type TransactionClient,
+  type NewMedicationAdministration,
+} from './repository/medication-repository.js';
+export {
+  ControlledSubstanceRepository,
+  type DiscrepancyAlertRecipient,
+} from './repository/controlled-substance-repository.js';
+export {
+  ScheduledDoseRepository,
+  type DoseScheduleClient,
+  type ClientVisitSlot,
+  type NewScheduledDose,
+  type OverdueDose,
+  type AssignedNurse,
+} from './repository/scheduled-dose-repository.js';
+export { MedicationSafetyRepository } from './repository/medication-safety-repository.js';
 
 // Services
 export { MedicationService } from './service/medication-service.js';
+export { MedicationScheduleService } from './service/medication-schedule-service.js';
+
+// Workers
+export {
+  MedicationDoseWorker,
+  initializeMedicationDoseWorker,
+  shutdownMedicationDoseWorker,
+  type MedicationDoseWorkerConfig,
+} from './workers/medication-dose-worker.js';
 
 // Validation
 export {
@@ -31,7 +91,47 @@ export {
   createMedicationSchema,
   updateMedicationSchema,
   recordAdministrationSchema,
+  controlledScheduleSchema,
+  prnEffectivenessSchema,
+  recordPrnFollowUpSchema,
+  receiveControlledStockSchema,
+  recordControlledWasteSchema,
+  shiftHandoffCountSchema,
+  resolveCountDiscrepancySchema,
+  setClientDoseTimesSchema,
+  generateDoseScheduleSchema,
+  marGridQuerySchema,
+  checkMedicationSafetySchema,
+  isPrnOrder,
 } from './validation/medication-validator.js';
 
+// Dose scheduling utilities
+export {
+  parseSig,
+  parseSigCode,
+  expectedTimeCount,
+  resolveDoseTimes,
+  DEFAULT_DOSE_TIMES,
+  DEFAULT_INTERVAL_START,
+  type ParsedSig,
+  type FixedTimeSigCode,
+} from './utils/sig-parser.js';
+export {
+  expandDoses,
+  alignDosesToVisits,
+  DOSE_WINDOW_MINUTES,
+  type DoseExpansionOptions,
+  type VisitWindow,
+  type AlignedDose,
+} from './utils/dose-schedule.js';
+
+// Medication safety checks
+export {
+  checkMedicationSafety,
+  type MedicationOrderNames,
+  type ActiveMedicationNames,
+} from './utils/medication-safety.js';
+export { DEFAULT_DRUG_REFERENCE } from './config/drug-reference.js';
+
 // API Handlers
 export { createMedicationHandlers } from './api/medication-handlers.js';
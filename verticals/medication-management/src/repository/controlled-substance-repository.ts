@@ -0,0 +1,291 @@
+/**
+ * Controlled Substance Repository - Count ledger and shift handoff reconciliations
+ */
+
+import type { Database, UserContext } from '@care-commons/core';
+import type {
+  ControlledSubstanceCountEntry,
+  CountReconciliation,
+  CountReconciliationStatus,
+} from '../types/medication.js';
+import type { TransactionClient } from './medication-repository.js';
+
+/**
+ * User to alert about a count discrepancy
+ */
+export interface DiscrepancyAlertRecipient {
+  userId: string;
+  email: string;
+}
+
+export class ControlledSubstanceRepository {
+  private database: Database;
+
+  constructor(database: Database) {
+    this.database = database;
+  }
+
+  /**
+   * Lock a controlled substance's count for the rest of the transaction and
+   * return it. Returns null when the medication does not exist.
+   */
+  async lockCount(medicationId: string, client: TransactionClient): Promise<number | null> {
+    const result = await client.query(
+      'SELECT count_on_hand FROM medications WHERE id = $1 FOR UPDATE',
+      [medicationId]
+    );
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+    const row = result.rows[0] as Record<string, unknown>;
+    return row['count_on_hand'] === null ? 0 : Number(row['count_on_hand']);
+  }
+
+  /**
+   * Append a count ledger entry and move the medication's running count to
+   * the entry's balance. Call with the count locked (see lockCount).
+   */
+  async appendCountEntry(
+    entry: Omit<ControlledSubstanceCountEntry, 'id' | 'recordedAt'>,
+    client: TransactionClient
+  ): Promise<ControlledSubstanceCountEntry> {
+    const result = await client.query(
+      `INSERT INTO controlled_substance_count_entries (
+        organization_id, medication_id, client_id, entry_type, quantity_change,
+        balance_after, administration_id, reconciliation_id, reason,
+        recorded_by, witnessed_by
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+      RETURNING *`,
+      [
+        entry.organizationId,
+        entry.medicationId,
+        entry.clientId,
+        entry.entryType,
+        entry.quantityChange,
+        entry.balanceAfter,
+        entry.administrationId,
+        entry.reconciliationId,
+        entry.reason,
+        entry.recordedBy,
+        entry.witnessedBy,
+      ]
+    );
+
+    await client.query(
+      'UPDATE medications SET count_on_hand = $1, updated_by = $2 WHERE id = $3',
+      [entry.balanceAfter, entry.recordedBy, entry.medicationId]
+    );
+
+    return this.mapCountEntry(result.rows[0] as Record<string, unknown>);
+  }
+
+  /**
+   * Get a controlled substance's count ledger, newest first
+   */
+  async findCountEntries(
+    medicationId: string,
+    context: UserContext,
+    limit = 100
+  ): Promise<ControlledSubstanceCountEntry[]> {
+    const result = await this.database.query(
+      `SELECT * FROM controlled_substance_count_entries
+       WHERE medication_id = $1 AND organization_id = $2
+       ORDER BY recorded_at DESC
+       LIMIT $3`,
+      [medicationId, context.organizationId!, limit]
+    );
+
+    return result.rows.map((row: Record<string, unknown>) => this.mapCountEntry(row));
+  }
+
+  /**
+   * Record a shift handoff count
+   */
+  async createReconciliation(
+    reconciliation: Omit<CountReconciliation, 'id' | 'countedAt'>,
+    client: TransactionClient
+  ): Promise<CountReconciliation> {
+    const result = await client.query(
+      `INSERT INTO controlled_substance_reconciliations (
+        organization_id, medication_id, client_id, expected_count, counted_quantity,
+        discrepancy, status, counted_by, witnessed_by, notes
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+      RETURNING *`,
+      [
+        reconciliation.organizationId,
+        reconciliation.medicationId,
+        reconciliation.clientId,
+        reconciliation.expectedCount,
+        reconciliation.countedQuantity,
+        reconciliation.discrepancy,
+        reconciliation.status,
+        reconciliation.countedBy,
+        reconciliation.witnessedBy,
+        reconciliation.notes,
+      ]
+    );
+
+    return this.mapReconciliation(result.rows[0] as Record<string, unknown>);
+  }
+
+  /**
+   * Find a reconciliation by ID
+   */
+  async findReconciliationById(
+    reconciliationId: string,
+    context: UserContext
+  ): Promise<CountReconciliation | null> {
+    const result = await this.database.query(
+      'SELECT * FROM controlled_substance_reconciliations WHERE id = $1 AND organization_id = $2',
+      [reconciliationId, context.organizationId!]
+    );
+
+    return result.rows.length > 0
+      ? this.mapReconciliation(result.rows[0] as Record<string, unknown>)
+      : null;
+  }
+
+  /**
+   * Find unresolved count discrepancies, oldest first
+   */
+  async findOpenDiscrepancies(context: UserContext, clientId?: string): Promise<CountReconciliation[]> {
+    let query = `
+      SELECT * FROM controlled_substance_reconciliations
+      WHERE organization_id = $1 AND status = 'DISCREPANCY'
+    `;
+    const params: unknown[] = [context.organizationId!];
+
+    if (clientId) {
+      query += ` AND client_id = $${params.length + 1}`;
+      params.push(clientId);
+    }
+
+    query += ' ORDER BY counted_at ASC';
+
+    const result = await this.database.query(query, params);
+    return result.rows.map((row: Record<string, unknown>) => this.mapReconciliation(row));
+  }
+
+  /**
+   * Mark a discrepancy resolved. Returns null if it was resolved concurrently.
+   */
+  async resolveReconciliation(
+    reconciliationId: string,
+    resolution: { resolvedBy: string; resolutionNotes: string; countAdjusted: boolean },
+    client: TransactionClient
+  ): Promise<CountReconciliation | null> {
+    const result = await client.query(
+      `UPDATE controlled_substance_reconciliations
+       SET status = 'RESOLVED',
+           resolved_by = $1,
+           resolved_at = NOW(),
+           resolution_notes = $2,
+           count_adjusted = $3
+       WHERE id = $4 AND status = 'DISCREPANCY'
+       RETURNING *`,
+      [resolution.resolvedBy, resolution.resolutionNotes, resolution.countAdjusted, reconciliationId]
+    );
+
+    return result.rows.length > 0
+      ? this.mapReconciliation(result.rows[0] as Record<string, unknown>)
+      : null;
+  }
+
+  /**
+   * Record that supervisors were alerted about a discrepancy
+   */
+  async markAlerted(reconciliationId: string, alertedAt: Date): Promise<void> {
+    await this.database.query(
+      'UPDATE controlled_substance_reconciliations SET alerted_at = $1 WHERE id = $2',
+      [alertedAt, reconciliationId]
+    );
+  }
+
+  /**
+   * Find active users in the organization with any of the roles
+   */
+  async findUsersByRole(organizationId: string, roles: string[]): Promise<DiscrepancyAlertRecipient[]> {
+    const result = await this.database.query(
+      `SELECT id, email FROM users
+       WHERE organization_id = $1
+         AND status = 'ACTIVE'
+         AND deleted_at IS NULL
+         AND roles && $2::varchar[]`,
+      [organizationId, roles]
+    );
+
+    return result.rows.map((row: Record<string, unknown>) => ({
+      userId: row['id'] as string,
+      email: (row['email'] as string | null) ?? '',
+    }));
+  }
+
+  private mapCountEntry(row: Record<string, unknown>): ControlledSubstanceCountEntry {
+    const entry: ControlledSubstanceCountEntry = {
+      id: row['id'] as string,
+      organizationId: row['organization_id'] as string,
+      medicationId: row['medication_id'] as string,
+      clientId: row['client_id'] as string,
+      entryType: row['entry_type'] as ControlledSubstanceCountEntry['entryType'],
+      quantityChange: Number(row['quantity_change']),
+      balanceAfter: Number(row['balance_after']),
+      recordedBy: row['recorded_by'] as string,
+      recordedAt: row['recorded_at'] as Date,
+    };
+
+    if (row['administration_id'] !== null && row['administration_id'] !== undefined) {
+      entry.administrationId = row['administration_id'] as string;
+    }
+    if (row['reconciliation_id'] !== null && row['reconciliation_id'] !== undefined) {
+      entry.reconciliationId = row['reconciliation_id'] as string;
+    }
+    if (row['reason'] !== null && row['reason'] !== undefined) {
+      entry.reason = row['reason'] as string;
+    }
+    if (row['witnessed_by'] !== null && row['witnessed_by'] !== undefined) {
+      entry.witnessedBy = row['witnessed_by'] as string;
+    }
+
+    return entry;
+  }
+
+  private mapReconciliation(row: Record<string, unknown>): CountReconciliation {
+    const reconciliation: CountReconciliation = {
+      id: row['id'] as string,
+      organizationId: row['organization_id'] as string,
+      medicationId: row['medication_id'] as string,
+      clientId: row['client_id'] as string,
+      expectedCount: Number(row['expected_count']),
+      countedQuantity: Number(row['counted_quantity']),
+      discrepancy: Number(row['discrepancy']),
+      status: row['status'] as CountReconciliationStatus,
+      countedBy: row['counted_by'] as string,
+      witnessedBy: row['witnessed_by'] as string,
+      countedAt: row['counted_at'] as Date,
+    };
+
+    if (row['notes'] !== null && row['notes'] !== undefined) {
+      reconciliation.notes = row['notes'] as string;
+    }
+    if (row['alerted_at'] !== null && row['alerted_at'] !== undefined) {
+      reconciliation.alertedAt = row['alerted_at'] as Date;
+    }
+    if (row['resolved_by'] !== null && row['resolved_by'] !== undefined) {
+      reconciliation.resolvedBy = row['resolved_by'] as string;
+    }
+    if (row['resolved_at'] !== null && row['resolved_at'] !== undefined) {
+      reconciliation.resolvedAt = row['resolved_at'] as Date;
+    }
+    if (row['resolution_notes'] !== null && row['resolution_notes'] !== undefined) {
+      reconciliation.resolutionNotes = row['resolution_notes'] as string;
+    }
+    if (row['count_adjusted'] !== null && row['count_adjusted'] !== undefined) {
+      reconciliation.countAdjusted = row['count_adjusted'] as boolean;
+    }
+
+    return reconciliation;
+  }
+}
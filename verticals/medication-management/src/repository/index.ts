@@ -2,4 +2,22 @@
  * Medication Management Repositories - Public Exports
  */
 
-export { MedicationRepository, MedicationAdministrationRepository } from './medication-repository.js';
+export {
+  MedicationRepository,
+  MedicationAdministrationRepository,
+  type TransactionClient,
+  type NewMedicationAdministration,
+} from './medication-repository.js';
+export {
+  ControlledSubstanceRepository,
+  type DiscrepancyAlertRecipient,
+} from './controlled-substance-repository.js';
+export {
+  ScheduledDoseRepository,
+  type DoseScheduleClient,
+  type ClientVisitSlot,
+  type NewScheduledDose,
+  type OverdueDose,
+  type AssignedNurse,
+} from './scheduled-dose-repository.js';
+export { MedicationSafetyRepository } from './medication-safety-repository.js';
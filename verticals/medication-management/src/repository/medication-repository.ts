@@ -9,8 +9,22 @@ import type {
   MedicationStatus,
   MedicationWithStatus,
   RecordAdministrationInput,
+  RecordPrnFollowUpInput,
 } from '../types/medication.js';
 
+/**
+ * Transaction client handed out by Database.transaction
+ */
+export type TransactionClient = Parameters<Parameters<Database['transaction']>[0]>[0];
+
+/**
+ * Administration as recorded, with the values derived by the service
+ */
+export type NewMedicationAdministration = RecordAdministrationInput & {
+  prnFollowUpDueAt?: Date;
+  countAfter?: number;
+};
+
 export class MedicationRepository extends Repository<Medication> {
   constructor(database: Database) {
     super({
@@ -37,6 +51,7 @@ export class MedicationRepository extends Repository<Medication> {
       prescribedDate: row['prescribed_date'] as Date,
       startDate: row['start_date'] as Date,
       status: row['status'] as MedicationStatus,
+      isPrn: row['is_prn'] === true,
       createdAt: row['created_at'] as Date,
       updatedAt: row['updated_at'] as Date,
       createdBy: row['created_by'] as string,
@@ -63,6 +78,28 @@ export class MedicationRepository extends Repository<Medication> {
     if (row['warnings'] !== null && row['warnings'] !== undefined) {
       entity.warnings = JSON.parse(row['warnings'] as string) as string[];
     }
+    if (row['prn_indication'] !== null && row['prn_indication'] !== undefined) {
+      entity.prnIndication = row['prn_indication'] as string;
+    }
+    if (row['prn_min_interval_minutes'] !== null && row['prn_min_interval_minutes'] !== undefined) {
+      entity.prnMinIntervalMinutes = row['prn_min_interval_minutes'] as number;
+    }
+    if (row['prn_max_doses_per_day'] !== null && row['prn_max_doses_per_day'] !== undefined) {
+      entity.prnMaxDosesPerDay = row['prn_max_doses_per_day'] as number;
+    }
+    if (row['prn_follow_up_minutes'] !== null && row['prn_follow_up_minutes'] !== undefined) {
+      entity.prnFollowUpMinutes = row['prn_follow_up_minutes'] as number;
+    }
+    if (row['controlled_schedule'] !== null && row['controlled_schedule'] !== undefined) {
+      entity.controlledSchedule = row['controlled_schedule'] as Medication['controlledSchedule'];
+    }
+    if (row['count_unit'] !== null && row['count_unit'] !== undefined) {
+      entity.countUnit = row['count_unit'] as string;
+    }
+    // NUMERIC columns come back from pg as strings
+    if (row['count_on_hand'] !== null && row['count_on_hand'] !== undefined) {
+      entity.countOnHand = Number(row['count_on_hand']);
+    }
 
     return entity;
   }
@@ -89,6 +126,14 @@ export class MedicationRepository extends Repository<Medication> {
     if (entity.refillsRemaining !== undefined) row['refills_remaining'] = entity.refillsRemaining;
     if (entity.sideEffects !== undefined) row['side_effects'] = JSON.stringify(entity.sideEffects);
     if (entity.warnings !== undefined) row['warnings'] = JSON.stringify(entity.warnings);
+    if (entity.isPrn !== undefined) row['is_prn'] = entity.isPrn;
+    if (entity.prnIndication !== undefined) row['prn_indication'] = entity.prnIndication;
+    if (entity.prnMinIntervalMinutes !== undefined) row['prn_min_interval_minutes'] = entity.prnMinIntervalMinutes;
+    if (entity.prnMaxDosesPerDay !== undefined) row['prn_max_doses_per_day'] = entity.prnMaxDosesPerDay;
+    if (entity.prnFollowUpMinutes !== undefined) row['prn_follow_up_minutes'] = entity.prnFollowUpMinutes;
+    if (entity.controlledSchedule !== undefined) row['controlled_schedule'] = entity.controlledSchedule;
+    if (entity.countUnit !== undefined) row['count_unit'] = entity.countUnit;
+    if (entity.countOnHand !== undefined) row['count_on_hand'] = entity.countOnHand;
 
     return row;
   }
@@ -120,7 +165,21 @@ export class MedicationRepository extends Repository<Medication> {
   }
 
   /**
-   * Find all active medications for a client with last administration info
+   * Find a client's active medications that follow a schedule (not PRN)
+   */
+  async findScheduledByClientId(clientId: string, organizationId: string): Promise<Medication[]> {
+    const result = await this.database.query(
+      `SELECT * FROM ${this.tableName}
+       WHERE client_id = $1 AND organization_id = $2 AND status = 'ACTIVE' AND is_prn = false
+       ORDER BY created_at ASC`,
+      [clientId, organizationId]
+    );
+    return result.rows.map((row: Record<string, unknown>) => this.mapRowToEntity(row));
+  }
+
+  /**
+   * Find all active medications for a client with last administration and
+   * scheduled dose info
    */
   async findActiveWithStatus(
     clientId: string,
@@ -139,7 +198,21 @@ export class MedicationRepository extends Repository<Medication> {
             AND status = 'GIVEN'
           ORDER BY administered_at DESC
           LIMIT 1
-        ) as last_administered
+        ) as last_administered,
+        (
+          SELECT MIN(scheduled_for)
+          FROM medication_scheduled_doses
+          WHERE medication_id = m.id
+            AND status = 'SCHEDULED'
+            AND scheduled_for >= NOW()
+        ) as next_scheduled,
+        EXISTS (
+          SELECT 1
+          FROM medication_scheduled_doses
+          WHERE medication_id = m.id
+            AND status = 'SCHEDULED'
+            AND scheduled_for < NOW()
+        ) as is_overdue
       FROM ${this.tableName} m
       ${whereClause}
       ORDER BY m.created_at DESC
@@ -152,6 +225,10 @@ export class MedicationRepository extends Repository<Medication> {
       if (row['last_administered']) {
         medication.lastAdministered = row['last_administered'] as Date;
       }
+      if (row['next_scheduled']) {
+        medication.nextScheduledTime = row['next_scheduled'] as Date;
+      }
+      medication.isOverdue = row['is_overdue'] === true;
 
       // Determine if refill is needed (less than 2 refills remaining)
       if (medication.refillsRemaining !== undefined) {
@@ -183,7 +260,6 @@ export class MedicationAdministrationRepository {
       organizationId: row['organization_id'] as string,
       medicationId: row['medication_id'] as string,
       clientId: row['client_id'] as string,
-      administeredBy: row['administered_by'] as string,
       administeredAt: row['administered_at'] as Date,
       dosageGiven: row['dosage_given'] as string,
       route: row['route'] as MedicationAdministration['route'],
@@ -193,6 +269,9 @@ export class MedicationAdministrationRepository {
     };
 
     // Handle optional properties
+    if (row['administered_by'] !== null && row['administered_by'] !== undefined) {
+      entity.administeredBy = row['administered_by'] as string;
+    }
     if (row['scheduled_for'] !== null && row['scheduled_for'] !== undefined) {
       entity.scheduledFor = row['scheduled_for'] as Date;
     }
@@ -208,16 +287,52 @@ export class MedicationAdministrationRepository {
     if (row['witnessed_by'] !== null && row['witnessed_by'] !== undefined) {
       entity.witnessedBy = row['witnessed_by'] as string;
     }
+    if (row['prn_reason'] !== null && row['prn_reason'] !== undefined) {
+      entity.prnReason = row['prn_reason'] as string;
+    }
+    if (row['prn_follow_up_due_at'] !== null && row['prn_follow_up_due_at'] !== undefined) {
+      entity.prnFollowUpDueAt = row['prn_follow_up_due_at'] as Date;
+    }
+    if (row['prn_effectiveness'] !== null && row['prn_effectiveness'] !== undefined) {
+      entity.prnEffectiveness = row['prn_effectiveness'] as MedicationAdministration['prnEffectiveness'];
+    }
+    if (row['prn_follow_up_notes'] !== null && row['prn_follow_up_notes'] !== undefined) {
+      entity.prnFollowUpNotes = row['prn_follow_up_notes'] as string;
+    }
+    if (row['prn_follow_up_at'] !== null && row['prn_follow_up_at'] !== undefined) {
+      entity.prnFollowUpAt = row['prn_follow_up_at'] as Date;
+    }
+    if (row['prn_follow_up_by'] !== null && row['prn_follow_up_by'] !== undefined) {
+      entity.prnFollowUpBy = row['prn_follow_up_by'] as string;
+    }
+    if (row['quantity_given'] !== null && row['quantity_given'] !== undefined) {
+      entity.quantityGiven = Number(row['quantity_given']);
+    }
+    if (row['quantity_wasted'] !== null && row['quantity_wasted'] !== undefined) {
+      entity.quantityWasted = Number(row['quantity_wasted']);
+    }
+    if (row['waste_reason'] !== null && row['waste_reason'] !== undefined) {
+      entity.wasteReason = row['waste_reason'] as string;
+    }
+    if (row['waste_witnessed_by'] !== null && row['waste_witnessed_by'] !== undefined) {
+      entity.wasteWitnessedBy = row['waste_witnessed_by'] as string;
+    }
+    if (row['count_after'] !== null && row['count_after'] !== undefined) {
+      entity.countAfter = Number(row['count_after']);
+    }
 
     return entity;
   }
 
   /**
    * Record a medication administration
+   *
+   * Pass a transaction client to record it together with count ledger entries.
    */
   async create(
-    input: RecordAdministrationInput,
-    context: UserContext
+    input: NewMedicationAdministration,
+    context: UserContext,
+    client?: TransactionClient
   ): Promise<MedicationAdministration> {
     const now = new Date().toISOString();
 
@@ -235,15 +350,24 @@ export class MedicationAdministrationRepository {
       refusal_reason: input.refusalReason,
       hold_reason: input.holdReason,
       witnessed_by: input.witnessedBy,
+      prn_reason: input.prnReason,
+      prn_follow_up_due_at: input.prnFollowUpDueAt,
+      quantity_given: input.quantityGiven,
+      quantity_wasted: input.quantityWasted,
+      waste_reason: input.wasteReason,
+      waste_witnessed_by: input.wasteWitnessedBy,
+      count_after: input.countAfter,
     };
 
     const query = `
       INSERT INTO ${this.tableName} (
         organization_id, medication_id, client_id, administered_by,
         administered_at, scheduled_for, dosage_given, route, status,
-        notes, refusal_reason, hold_reason, witnessed_by
+        notes, refusal_reason, hold_reason, witnessed_by,
+        prn_reason, prn_follow_up_due_at, quantity_given, quantity_wasted,
+        waste_reason, waste_witnessed_by, count_after
       )
-      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20)
       RETURNING *
     `;
 
@@ -261,9 +385,18 @@ export class MedicationAdministrationRepository {
       row['refusal_reason'],
       row['hold_reason'],
       row['witnessed_by'],
+      row['prn_reason'],
+      row['prn_follow_up_due_at'],
+      row['quantity_given'],
+      row['quantity_wasted'],
+      row['waste_reason'],
+      row['waste_witnessed_by'],
+      row['count_after'],
     ];
 
-    const result = await this.database.query(query, values);
+    const result = client
+      ? await client.query(query, values)
+      : await this.database.query(query, values);
     const createdRow = result.rows[0] as Record<string, unknown> | undefined;
     if (!createdRow) {
       throw new Error('Administration record creation failed');
@@ -271,6 +404,151 @@ export class MedicationAdministrationRepository {
     return this.mapRowToEntity(createdRow);
   }
 
+  /**
+   * Record a scheduled dose that nobody documented as MISSED. The system
+   * records it, so there is no administering user.
+   */
+  async createMissed(
+    dose: {
+      organizationId: string;
+      medicationId: string;
+      clientId: string;
+      scheduledFor: Date;
+      dosage: string;
+      route: MedicationAdministration['route'];
+    },
+    detectedAt: Date,
+    client: TransactionClient
+  ): Promise<MedicationAdministration> {
+    const result = await client.query(
+      `INSERT INTO ${this.tableName} (
+        organization_id, medication_id, client_id, administered_by,
+        administered_at, scheduled_for, dosage_given, route, status, notes
+      )
+      VALUES ($1, $2, $3, NULL, $4, $5, $6, $7, 'MISSED', $8)
+      RETURNING *`,
+      [
+        dose.organizationId,
+        dose.medicationId,
+        dose.clientId,
+        detectedAt,
+        dose.scheduledFor,
+        dose.dosage,
+        dose.route,
+        'No administration was recorded within the dose window',
+      ]
+    );
+    return this.mapRowToEntity(result.rows[0] as Record<string, unknown>);
+  }
+
+  /**
+   * Find administrations by ID
+   */
+  async findByIds(administrationIds: string[], context: UserContext): Promise<MedicationAdministration[]> {
+    if (administrationIds.length === 0) {
+      return [];
+    }
+    const result = await this.database.query(
+      `SELECT * FROM ${this.tableName} WHERE id = ANY($1::uuid[]) AND organization_id = $2`,
+      [administrationIds, context.organizationId!]
+    );
+    return result.rows.map((row: Record<string, unknown>) => this.mapRowToEntity(row));
+  }
+
+  /**
+   * Find an administration by ID
+   */
+  async findById(
+    administrationId: string,
+    context: UserContext
+  ): Promise<MedicationAdministration | null> {
+    const query = `
+      SELECT * FROM ${this.tableName}
+      WHERE id = $1 AND organization_id = $2
+    `;
+
+    const result = await this.database.query(query, [administrationId, context.organizationId!]);
+    return result.rows.length > 0 ? this.mapRowToEntity(result.rows[0] as Record<string, unknown>) : null;
+  }
+
+  /**
+   * Count doses given of a medication at or after a point in time
+   */
+  async countGivenSince(
+    medicationId: string,
+    since: Date,
+    context: UserContext
+  ): Promise<number> {
+    const query = `
+      SELECT COUNT(*) AS count FROM ${this.tableName}
+      WHERE medication_id = $1 AND organization_id = $2
+        AND status = 'GIVEN' AND administered_at >= $3
+    `;
+
+    const result = await this.database.query(query, [medicationId, context.organizationId!, since]);
+    return Number((result.rows[0] as Record<string, unknown> | undefined)?.['count'] ?? 0);
+  }
+
+  /**
+   * Record the effectiveness follow-up of a PRN dose
+   *
+   * Returns null when the dose has no pending follow-up.
+   */
+  async recordPrnFollowUp(
+    administrationId: string,
+    input: RecordPrnFollowUpInput,
+    context: UserContext
+  ): Promise<MedicationAdministration | null> {
+    const query = `
+      UPDATE ${this.tableName}
+      SET prn_effectiveness = $1,
+          prn_follow_up_notes = $2,
+          prn_follow_up_at = NOW(),
+          prn_follow_up_by = $3
+      WHERE id = $4 AND organization_id = $5
+        AND prn_follow_up_due_at IS NOT NULL
+        AND prn_follow_up_at IS NULL
+      RETURNING *
+    `;
+
+    const result = await this.database.query(query, [
+      input.effectiveness,
+      input.notes,
+      context.userId,
+      administrationId,
+      context.organizationId!,
+    ]);
+    return result.rows.length > 0 ? this.mapRowToEntity(result.rows[0] as Record<string, unknown>) : null;
+  }
+
+  /**
+   * Find PRN doses whose effectiveness follow-up is due and not yet recorded
+   */
+  async findPendingPrnFollowUps(
+    context: UserContext,
+    dueBefore: Date,
+    clientId?: string
+  ): Promise<MedicationAdministration[]> {
+    let query = `
+      SELECT * FROM ${this.tableName}
+      WHERE organization_id = $1
+        AND prn_follow_up_due_at IS NOT NULL
+        AND prn_follow_up_at IS NULL
+        AND prn_follow_up_due_at <= $2
+    `;
+    const params: unknown[] = [context.organizationId!, dueBefore];
+
+    if (clientId) {
+      query += ` AND client_id = $${params.length + 1}`;
+      params.push(clientId);
+    }
+
+    query += ' ORDER BY prn_follow_up_due_at ASC';
+
+    const result = await this.database.query(query, params);
+    return result.rows.map((row: Record<string, unknown>) => this.mapRowToEntity(row));
+  }
+
   /**
    * Find all administrations for a medication
    */
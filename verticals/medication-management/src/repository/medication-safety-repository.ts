@@ -0,0 +1,183 @@
+/**
+ * Medication Safety Repository - Documented allergies and safety overrides
+ */
+
+import type { Database, UserContext } from '@care-commons/core';
+import type {
+  AllergySeverity,
+  DocumentedAllergy,
+  MedicationSafetyOverride,
+} from '../types/medication.js';
+import type { TransactionClient } from './medication-repository.js';
+
+const ALLERGY_SEVERITY_RANK: Record<AllergySeverity, number> = {
+  MILD: 1,
+  MODERATE: 2,
+  SEVERE: 3,
+  LIFE_THREATENING: 4,
+};
+
+export class MedicationSafetyRepository {
+  private database: Database;
+
+  constructor(database: Database) {
+    this.database = database;
+  }
+
+  /**
+   * Find a client's documented allergies, from the client record and their
+   * active care plans. An allergen documented in both places is returned
+   * once, at its most severe. Returns null when the client does not exist.
+   */
+  async findDocumentedAllergies(clientId: string, organizationId: string): Promise<DocumentedAllergy[] | null> {
+    const clientResult = await this.database.query(
+      'SELECT allergies FROM clients WHERE id = $1 AND organization_id = $2 AND deleted_at IS NULL',
+      [clientId, organizationId]
+    );
+    if (clientResult.rows.length === 0) {
+      return null;
+    }
+
+    const carePlanResult = await this.database.query(
+      `SELECT allergies FROM care_plans
+       WHERE client_id = $1 AND organization_id = $2 AND status = 'ACTIVE' AND deleted_at IS NULL`,
+      [clientId, organizationId]
+    );
+
+    const clientRow = clientResult.rows[0] as Record<string, unknown>;
+    const documented = [
+      ...parseAllergies(clientRow['allergies']).map((allergy) => toDocumentedAllergy(allergy, 'CLIENT')),
+      ...carePlanResult.rows.flatMap((row: Record<string, unknown>) =>
+        parseAllergies(row['allergies'])
+          // Resolved allergies stay on the plan for history only
+          .filter((allergy) => allergy['status'] !== 'RESOLVED')
+          .map((allergy) => toDocumentedAllergy(allergy, 'CARE_PLAN'))
+      ),
+    ];
+
+    const byAllergen = new Map<string, DocumentedAllergy>();
+    for (const allergy of documented) {
+      if (allergy.allergen.trim() === '') {
+        continue;
+      }
+      const key = allergy.allergen.trim().toLowerCase();
+      const existing = byAllergen.get(key);
+      if (!existing || severityRank(allergy) > severityRank(existing)) {
+        byAllergen.set(key, allergy);
+      }
+    }
+    return [...byAllergen.values()];
+  }
+
+  /**
+   * Record the alerts accepted when a blocked order was overridden
+   *
+   * Pass a transaction client to record them together with the order.
+   */
+  async createOverrides(
+    overrides: Array<Omit<MedicationSafetyOverride, 'id' | 'overriddenAt'>>,
+    transactionClient?: TransactionClient
+  ): Promise<MedicationSafetyOverride[]> {
+    const insert = async (client: TransactionClient): Promise<MedicationSafetyOverride[]> => {
+      const created: MedicationSafetyOverride[] = [];
+      for (const override of overrides) {
+        const result = await client.query(
+          `INSERT INTO medication_safety_overrides (
+            organization_id, client_id, medication_id, alert_type, alert_severity,
+            message, allergen, conflicting_medication_id, drug_class, reason,
+            reference_version, overridden_by
+          )
+          VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+          RETURNING *`,
+          [
+            override.organizationId,
+            override.clientId,
+            override.medicationId,
+            override.alertType,
+            override.alertSeverity,
+            override.message,
+            override.allergen,
+            override.conflictingMedicationId,
+            override.drugClass,
+            override.reason,
+            override.referenceVersion,
+            override.overriddenBy,
+          ]
+        );
+        created.push(this.mapOverride(result.rows[0] as Record<string, unknown>));
+      }
+      return created;
+    };
+
+    return transactionClient
+      ? insert(transactionClient)
+      : this.database.transaction(insert);
+  }
+
+  /**
+   * Find safety overrides for a client's orders, newest first
+   */
+  async findOverridesByClientId(clientId: string, context: UserContext): Promise<MedicationSafetyOverride[]> {
+    const result = await this.database.query(
+      `SELECT * FROM medication_safety_overrides
+       WHERE client_id = $1 AND organization_id = $2
+       ORDER BY overridden_at DESC`,
+      [clientId, context.organizationId]
+    );
+    return result.rows.map((row: Record<string, unknown>) => this.mapOverride(row));
+  }
+
+  private mapOverride(row: Record<string, unknown>): MedicationSafetyOverride {
+    const override: MedicationSafetyOverride = {
+      id: row['id'] as string,
+      organizationId: row['organization_id'] as string,
+      clientId: row['client_id'] as string,
+      medicationId: row['medication_id'] as string,
+      alertType: row['alert_type'] as MedicationSafetyOverride['alertType'],
+      alertSeverity: row['alert_severity'] as MedicationSafetyOverride['alertSeverity'],
+      message: row['message'] as string,
+      reason: row['reason'] as string,
+      referenceVersion: row['reference_version'] as string,
+      overriddenBy: row['overridden_by'] as string,
+      overriddenAt: row['overridden_at'] as Date,
+    };
+
+    if (row['allergen'] !== null && row['allergen'] !== undefined) {
+      override.allergen = row['allergen'] as string;
+    }
+    if (row['conflicting_medication_id'] !== null && row['conflicting_medication_id'] !== undefined) {
+      override.conflictingMedicationId = row['conflicting_medication_id'] as string;
+    }
+    if (row['drug_class'] !== null && row['drug_class'] !== undefined) {
+      override.drugClass = row['drug_class'] as string;
+    }
+
+    return override;
+  }
+}
+
+/**
+ * Allergies are JSONB arrays; older rows may hold the JSON as a string
+ */
+function parseAllergies(value: unknown): Array<Record<string, unknown>> {
+  const parsed: unknown = typeof value === 'string' ? JSON.parse(value) : value;
+  return Array.isArray(parsed) ? (parsed as Array<Record<string, unknown>>) : [];
+}
+
+function toDocumentedAllergy(allergy: Record<string, unknown>, source: DocumentedAllergy['source']): DocumentedAllergy {
+  const documented: DocumentedAllergy = {
+    allergen: typeof allergy['allergen'] === 'string' ? allergy['allergen'] : '',
+    source,
+  };
+  if (typeof allergy['reaction'] === 'string' && allergy['reaction'] !== '') {
+    documented.reaction = allergy['reaction'];
+  }
+  if (typeof allergy['severity'] === 'string' && allergy['severity'] in ALLERGY_SEVERITY_RANK) {
+    documented.severity = allergy['severity'] as AllergySeverity;
+  }
+  return documented;
+}
+
+function severityRank(allergy: DocumentedAllergy): number {
+  return allergy.severity ? ALLERGY_SEVERITY_RANK[allergy.severity] : 0;
+}
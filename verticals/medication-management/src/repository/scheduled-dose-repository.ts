@@ -0,0 +1,382 @@
+/**
+ * Scheduled Dose Repository - Scheduled doses, client dose times and the
+ * visits and care team they are aligned with
+ */
+
+import type { Database, UserContext } from '@care-commons/core';
+import type {
+  AdministrationStatus,
+  ClientDoseTimes,
+  MedicationRoute,
+  ScheduledDose,
+  ScheduledDoseStatus,
+  SigCode,
+} from '../types/medication.js';
+import type { TransactionClient } from './medication-repository.js';
+
+/**
+ * Client whose doses are scheduled, with the timezone they are scheduled in
+ */
+export interface DoseScheduleClient {
+  organizationId: string;
+  clientId: string;
+  clientName: string;
+  timezone: string;
+}
+
+/**
+ * A client's visit as scheduled, in the visit's timezone
+ */
+export interface ClientVisitSlot {
+  visitId: string;
+  scheduledDate: string; // YYYY-MM-DD
+  startTime: string; // HH:MM
+  endTime: string; // HH:MM
+  timezone: string;
+}
+
+/**
+ * Dose to materialize
+ */
+export type NewScheduledDose = Pick<
+  ScheduledDose,
+  'organizationId' | 'clientId' | 'medicationId' | 'scheduledFor' | 'originalScheduledFor' | 'visitId'
+>;
+
+/**
+ * Open dose past its administration window, with what the MAR entry needs
+ */
+export interface OverdueDose {
+  dose: ScheduledDose;
+  medicationName: string;
+  dosage: string;
+  route: MedicationRoute;
+  clientName: string;
+  timezone: string;
+}
+
+/**
+ * Nurse responsible for a client's medications
+ */
+export interface AssignedNurse {
+  userId: string;
+  email: string;
+}
+
+// Visits that won't happen don't put a caregiver in the home
+const INACTIVE_VISIT_STATUSES = ['DRAFT', 'CANCELLED', 'NO_SHOW_CLIENT', 'NO_SHOW_CAREGIVER', 'REJECTED'];
+
+export class ScheduledDoseRepository {
+  private database: Database;
+
+  constructor(database: Database) {
+    this.database = database;
+  }
+
+  /**
+   * Find a client in an organization
+   */
+  async findClient(clientId: string, organizationId: string): Promise<DoseScheduleClient | null> {
+    const result = await this.database.query(
+      `SELECT id, organization_id, first_name, last_name, timezone FROM clients
+       WHERE id = $1 AND organization_id = $2 AND deleted_at IS NULL`,
+      [clientId, organizationId]
+    );
+
+    return result.rows.length > 0 ? this.mapClient(result.rows[0] as Record<string, unknown>) : null;
+  }
+
+  /**
+   * Find every client with an active medication that follows a schedule
+   */
+  async findClientsWithScheduledMedications(): Promise<DoseScheduleClient[]> {
+    const result = await this.database.query(
+      `SELECT DISTINCT c.id, c.organization_id, c.first_name, c.last_name, c.timezone
+       FROM clients c
+       JOIN medications m ON m.client_id = c.id
+       WHERE m.status = 'ACTIVE' AND m.is_prn = false AND c.deleted_at IS NULL`
+    );
+
+    return result.rows.map((row: Record<string, unknown>) => this.mapClient(row));
+  }
+
+  /**
+   * Find a client's own dose times
+   */
+  async findDoseTimes(clientId: string, organizationId: string): Promise<ClientDoseTimes[]> {
+    const result = await this.database.query(
+      `SELECT * FROM medication_dose_times
+       WHERE client_id = $1 AND organization_id = $2
+       ORDER BY sig_code`,
+      [clientId, organizationId]
+    );
+
+    return result.rows.map((row: Record<string, unknown>) => this.mapDoseTimes(row));
+  }
+
+  /**
+   * Set a client's dose times for a frequency code
+   */
+  async upsertDoseTimes(
+    clientId: string,
+    sigCode: SigCode,
+    times: string[],
+    context: UserContext
+  ): Promise<ClientDoseTimes> {
+    const result = await this.database.query(
+      `INSERT INTO medication_dose_times (organization_id, client_id, sig_code, times, created_by, updated_by)
+       VALUES ($1, $2, $3, $4, $5, $5)
+       ON CONFLICT (client_id, sig_code)
+       DO UPDATE SET times = EXCLUDED.times, updated_by = EXCLUDED.updated_by, updated_at = NOW()
+       RETURNING *`,
+      [context.organizationId!, clientId, sigCode, times, context.userId]
+    );
+
+    return this.mapDoseTimes(result.rows[0] as Record<string, unknown>);
+  }
+
+  /**
+   * Find a client's visits on local dates from startDate to endDate (inclusive)
+   */
+  async findVisitSlots(clientId: string, startDate: string, endDate: string): Promise<ClientVisitSlot[]> {
+    const result = await this.database.query(
+      `SELECT id,
+              to_char(scheduled_date, 'YYYY-MM-DD') AS scheduled_date,
+              to_char(scheduled_start_time, 'HH24:MI') AS start_time,
+              to_char(scheduled_end_time, 'HH24:MI') AS end_time,
+              timezone
+       FROM visits
+       WHERE client_id = $1
+         AND scheduled_date BETWEEN $2 AND $3
+         AND status <> ALL($4::varchar[])
+         AND deleted_at IS NULL
+       ORDER BY scheduled_date, scheduled_start_time`,
+      [clientId, startDate, endDate, INACTIVE_VISIT_STATUSES]
+    );
+
+    return result.rows.map((row: Record<string, unknown>) => ({
+      visitId: row['id'] as string,
+      scheduledDate: row['scheduled_date'] as string,
+      startTime: row['start_time'] as string,
+      endTime: row['end_time'] as string,
+      timezone: row['timezone'] as string,
+    }));
+  }
+
+  /**
+   * Replace a client's open doses in [from, to) with a new schedule. Doses
+   * that were recorded are kept; a new dose at the same time as one of them
+   * is skipped. Returns the number of doses created.
+   */
+  async replaceOpenDoses(clientId: string, from: Date, to: Date, doses: NewScheduledDose[]): Promise<number> {
+    return this.database.transaction(async (client) => {
+      await client.query(
+        `DELETE FROM medication_scheduled_doses
+         WHERE client_id = $1 AND status = 'SCHEDULED' AND scheduled_for >= $2 AND scheduled_for < $3`,
+        [clientId, from, to]
+      );
+
+      let created = 0;
+      for (const dose of doses) {
+        const result = await client.query(
+          `INSERT INTO medication_scheduled_doses (
+            organization_id, client_id, medication_id, scheduled_for, original_scheduled_for, visit_id
+          )
+          VALUES ($1, $2, $3, $4, $5, $6)
+          ON CONFLICT (medication_id, scheduled_for) DO NOTHING`,
+          [
+            dose.organizationId,
+            dose.clientId,
+            dose.medicationId,
+            dose.scheduledFor,
+            dose.originalScheduledFor,
+            dose.visitId,
+          ]
+        );
+        created += result.rowCount ?? 0;
+      }
+      return created;
+    });
+  }
+
+  /**
+   * Remove a medication's open doses scheduled from `from` on, when the
+   * order is discontinued or its schedule changes. Recorded doses are kept.
+   */
+  async deleteOpenDoses(medicationId: string, from: Date, client: TransactionClient): Promise<number> {
+    const result = await client.query(
+      `DELETE FROM medication_scheduled_doses
+       WHERE medication_id = $1 AND status = 'SCHEDULED' AND scheduled_for >= $2`,
+      [medicationId, from]
+    );
+    return result.rowCount ?? 0;
+  }
+
+  /**
+   * Find a client's doses scheduled in [from, to), in time order
+   */
+  async findByClientAndRange(
+    clientId: string,
+    from: Date,
+    to: Date,
+    context: UserContext
+  ): Promise<ScheduledDose[]> {
+    const result = await this.database.query(
+      `SELECT * FROM medication_scheduled_doses
+       WHERE client_id = $1 AND organization_id = $2 AND scheduled_for >= $3 AND scheduled_for < $4
+       ORDER BY scheduled_for ASC`,
+      [clientId, context.organizationId!, from, to]
+    );
+
+    return result.rows.map((row: Record<string, unknown>) => this.mapDose(row));
+  }
+
+  /**
+   * Link a recorded administration to its scheduled dose. A dose already
+   * recorded as missed takes the late administration.
+   */
+  async markRecorded(
+    medicationId: string,
+    scheduledFor: Date,
+    administrationId: string,
+    status: AdministrationStatus
+  ): Promise<void> {
+    await this.database.query(
+      `UPDATE medication_scheduled_doses
+       SET status = $1, administration_id = $2, updated_at = NOW()
+       WHERE medication_id = $3 AND scheduled_for = $4 AND status IN ('SCHEDULED', 'MISSED')`,
+      [status, administrationId, medicationId, scheduledFor]
+    );
+  }
+
+  /**
+   * Lock open doses of active orders scheduled before dueBefore for the
+   * rest of the transaction. Doses another detector has locked are skipped.
+   */
+  async lockOverdueDoses(dueBefore: Date, limit: number, client: TransactionClient): Promise<OverdueDose[]> {
+    const result = await client.query(
+      `SELECT d.*, m.medication_name, m.dosage, m.route,
+              c.first_name, c.last_name, c.timezone
+       FROM medication_scheduled_doses d
+       JOIN medications m ON m.id = d.medication_id
+       JOIN clients c ON c.id = d.client_id
+       WHERE d.status = 'SCHEDULED' AND d.scheduled_for < $1 AND m.status = 'ACTIVE'
+       ORDER BY d.scheduled_for ASC
+       LIMIT $2
+       FOR UPDATE OF d SKIP LOCKED`,
+      [dueBefore, limit]
+    );
+
+    return result.rows.map((row: Record<string, unknown>) => ({
+      dose: this.mapDose(row),
+      medicationName: row['medication_name'] as string,
+      dosage: row['dosage'] as string,
+      route: row['route'] as MedicationRoute,
+      clientName: `${row['first_name'] as string} ${row['last_name'] as string}`,
+      timezone: row['timezone'] as string,
+    }));
+  }
+
+  /**
+   * Mark a locked dose missed with its MAR entry
+   */
+  async markMissed(doseId: string, administrationId: string, client: TransactionClient): Promise<void> {
+    await client.query(
+      `UPDATE medication_scheduled_doses
+       SET status = 'MISSED', administration_id = $1, updated_at = NOW()
+       WHERE id = $2`,
+      [administrationId, doseId]
+    );
+  }
+
+  /**
+   * Record that the assigned nurse was alerted about missed doses
+   */
+  async markMissedAlerted(doseIds: string[], alertedAt: Date): Promise<void> {
+    await this.database.query(
+      'UPDATE medication_scheduled_doses SET missed_alerted_at = $1 WHERE id = ANY($2::uuid[])',
+      [alertedAt, doseIds]
+    );
+  }
+
+  /**
+   * Find the nurse assigned to a client: the supervisor on the client's
+   * active care plan, or its coordinator when no supervisor is named
+   */
+  async findAssignedNurse(clientId: string, organizationId: string): Promise<AssignedNurse | null> {
+    const result = await this.database.query(
+      `SELECT u.id, u.email
+       FROM care_plans cp
+       JOIN users u ON u.id = COALESCE(cp.supervisor_id, cp.coordinator_id)
+       WHERE cp.client_id = $1
+         AND cp.organization_id = $2
+         AND cp.status = 'ACTIVE'
+         AND cp.deleted_at IS NULL
+         AND u.status = 'ACTIVE'
+         AND u.deleted_at IS NULL
+       ORDER BY cp.effective_date DESC
+       LIMIT 1`,
+      [clientId, organizationId]
+    );
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+    const row = result.rows[0] as Record<string, unknown>;
+    return {
+      userId: row['id'] as string,
+      email: (row['email'] as string | null) ?? '',
+    };
+  }
+
+  private mapClient(row: Record<string, unknown>): DoseScheduleClient {
+    return {
+      organizationId: row['organization_id'] as string,
+      clientId: row['id'] as string,
+      clientName: `${row['first_name'] as string} ${row['last_name'] as string}`,
+      timezone: row['timezone'] as string,
+    };
+  }
+
+  private mapDoseTimes(row: Record<string, unknown>): ClientDoseTimes {
+    return {
+      id: row['id'] as string,
+      organizationId: row['organization_id'] as string,
+      clientId: row['client_id'] as string,
+      sigCode: row['sig_code'] as SigCode,
+      times: row['times'] as string[],
+      createdAt: row['created_at'] as Date,
+      createdBy: row['created_by'] as string,
+      updatedAt: row['updated_at'] as Date,
+      updatedBy: row['updated_by'] as string,
+    };
+  }
+
+  private mapDose(row: Record<string, unknown>): ScheduledDose {
+    const dose: ScheduledDose = {
+      id: row['id'] as string,
+      organizationId: row['organization_id'] as string,
+      clientId: row['client_id'] as string,
+      medicationId: row['medication_id'] as string,
+      scheduledFor: row['scheduled_for'] as Date,
+      status: row['status'] as ScheduledDoseStatus,
+      createdAt: row['created_at'] as Date,
+      updatedAt: row['updated_at'] as Date,
+    };
+
+    if (row['original_scheduled_for'] !== null && row['original_scheduled_for'] !== undefined) {
+      dose.originalScheduledFor = row['original_scheduled_for'] as Date;
+    }
+    if (row['visit_id'] !== null && row['visit_id'] !== undefined) {
+      dose.visitId = row['visit_id'] as string;
+    }
+    if (row['administration_id'] !== null && row['administration_id'] !== undefined) {
+      dose.administrationId = row['administration_id'] as string;
+    }
+    if (row['missed_alerted_at'] !== null && row['missed_alerted_at'] !== undefined) {
+      dose.missedAlertedAt = row['missed_alerted_at'] as Date;
+    }
+
+    return dose;
+  }
+}
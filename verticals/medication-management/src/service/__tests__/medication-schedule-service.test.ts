@@ -0,0 +1,326 @@
+/**
+ * Medication Schedule Service Tests
+ *
+ * Covers scheduled doses and the MAR grid:
+ * - Materializing doses from frequencies, aligned with the client's visits
+ * - Client-specific dose times
+ * - MAR grid assembly for a client's day
+ * - Missed-dose detection and the assigned nurse alert
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { Database, UserContext, NotificationService } from '@care-commons/core';
+import { ValidationError, NotFoundError } from '@care-commons/core';
+import { MedicationScheduleService } from '../medication-schedule-service.js';
+import {
+  MedicationRepository,
+  MedicationAdministrationRepository,
+} from '../../repository/medication-repository.js';
+import { ScheduledDoseRepository } from '../../repository/scheduled-dose-repository.js';
+import type { Medication, MedicationAdministration, ScheduledDose } from '../../types/medication.js';
+
+vi.mock('../../repository/medication-repository.js');
+vi.mock('../../repository/scheduled-dose-repository.js');
+
+const MEDICATION_ID = '11111111-1111-4111-8111-111111111111';
+const CLIENT_ID = '22222222-2222-4222-8222-222222222222';
+const NURSE_ID = '33333333-3333-4333-8333-333333333333';
+
+const CLIENT = {
+  organizationId: 'org-123',
+  clientId: CLIENT_ID,
+  clientName: 'Jane Doe',
+  timezone: 'America/Chicago',
+};
+
+function buildMedication(overrides: Partial<Medication> = {}): Medication {
+  return {
+    id: MEDICATION_ID,
+    organizationId: 'org-123',
+    clientId: CLIENT_ID,
+    medicationName: 'Metformin',
+    dosage: '500mg',
+    route: 'ORAL',
+    frequency: 'BID',
+    prescribedBy: 'Dr. Smith',
+    prescribedDate: new Date('2030-01-01'),
+    startDate: new Date('2030-01-01'),
+    status: 'ACTIVE',
+    isPrn: false,
+    createdAt: new Date('2030-01-01'),
+    updatedAt: new Date('2030-01-01'),
+    createdBy: 'user-123',
+    updatedBy: 'user-123',
+    version: 1,
+    ...overrides,
+  };
+}
+
+function buildDose(overrides: Partial<ScheduledDose> = {}): ScheduledDose {
+  return {
+    id: 'dose-123',
+    organizationId: 'org-123',
+    clientId: CLIENT_ID,
+    medicationId: MEDICATION_ID,
+    scheduledFor: new Date('2030-06-03T14:00:00.000Z'),
+    status: 'SCHEDULED',
+    createdAt: new Date('2030-06-01'),
+    updatedAt: new Date('2030-06-01'),
+    ...overrides,
+  };
+}
+
+function buildAdministration(overrides: Partial<MedicationAdministration> = {}): MedicationAdministration {
+  return {
+    id: 'admin-123',
+    organizationId: 'org-123',
+    medicationId: MEDICATION_ID,
+    clientId: CLIENT_ID,
+    administeredBy: NURSE_ID,
+    administeredAt: new Date('2030-06-03T14:05:00.000Z'),
+    dosageGiven: '500mg',
+    route: 'ORAL',
+    status: 'GIVEN',
+    createdAt: new Date('2030-06-03'),
+    updatedAt: new Date('2030-06-03'),
+    ...overrides,
+  };
+}
+
+describe('MedicationScheduleService', () => {
+  let service: MedicationScheduleService;
+  let medicationRepo: any;
+  let administrationRepo: any;
+  let scheduledDoseRepo: any;
+  let notificationService: any;
+  let transactionClient: object;
+  let context: UserContext;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    transactionClient = {};
+    const database = {
+      transaction: vi.fn(async (callback: (client: object) => Promise<unknown>) => callback(transactionClient)),
+    };
+    notificationService = { send: vi.fn().mockResolvedValue([]) };
+
+    service = new MedicationScheduleService(
+      database as unknown as Database,
+      notificationService as NotificationService
+    );
+    medicationRepo = vi.mocked(MedicationRepository).mock.instances[0];
+    administrationRepo = vi.mocked(MedicationAdministrationRepository).mock.instances[0];
+    scheduledDoseRepo = vi.mocked(ScheduledDoseRepository).mock.instances[0];
+
+    scheduledDoseRepo.findClient.mockResolvedValue(CLIENT);
+    scheduledDoseRepo.findDoseTimes.mockResolvedValue([]);
+    scheduledDoseRepo.findVisitSlots.mockResolvedValue([]);
+    scheduledDoseRepo.replaceOpenDoses.mockImplementation(async (_c: string, _f: Date, _t: Date, doses: unknown[]) =>
+      doses.length
+    );
+
+    context = {
+      userId: NURSE_ID,
+      organizationId: 'org-123',
+      branchIds: ['branch-123'],
+      roles: ['NURSE'],
+      permissions: [],
+    };
+  });
+
+  describe('generateClientSchedule', () => {
+    it('should schedule doses in the client timezone and tie them to visits', async () => {
+      medicationRepo.findScheduledByClientId.mockResolvedValue([
+        buildMedication(),
+        buildMedication({ id: 'med-meals', frequency: 'with meals' }),
+      ]);
+      scheduledDoseRepo.findVisitSlots.mockResolvedValue([
+        {
+          visitId: 'visit-1',
+          scheduledDate: '2030-06-03',
+          startTime: '08:30',
+          endTime: '10:00',
+          timezone: 'America/Chicago',
+        },
+      ]);
+
+      const result = await service.generateClientSchedule(CLIENT_ID, { startDate: '2030-06-03', days: 1 }, context);
+
+      const [, from, to, doses] = scheduledDoseRepo.replaceOpenDoses.mock.calls[0];
+      expect(from).toEqual(new Date('2030-06-03T05:00:00.000Z'));
+      expect(to).toEqual(new Date('2030-06-04T05:00:00.000Z'));
+      expect(doses).toEqual([
+        {
+          organizationId: 'org-123',
+          clientId: CLIENT_ID,
+          medicationId: MEDICATION_ID,
+          scheduledFor: new Date('2030-06-03T14:00:00.000Z'),
+          visitId: 'visit-1',
+        },
+        {
+          organizationId: 'org-123',
+          clientId: CLIENT_ID,
+          medicationId: MEDICATION_ID,
+          scheduledFor: new Date('2030-06-04T02:00:00.000Z'),
+        },
+      ]);
+      expect(result).toEqual({
+        clientId: CLIENT_ID,
+        timezone: 'America/Chicago',
+        dosesScheduled: 2,
+        uncoveredDoses: 1,
+        unscheduledMedications: [{ medicationId: 'med-meals', frequency: 'with meals' }],
+      });
+    });
+
+    it('should use the client dose times for the frequency', async () => {
+      medicationRepo.findScheduledByClientId.mockResolvedValue([buildMedication()]);
+      scheduledDoseRepo.findDoseTimes.mockResolvedValue([{ sigCode: 'BID', times: ['07:00', '19:00'] }]);
+
+      await service.generateClientSchedule(CLIENT_ID, { startDate: '2030-06-03', days: 1 }, context);
+
+      const doses = scheduledDoseRepo.replaceOpenDoses.mock.calls[0][3];
+      expect(doses.map((dose: ScheduledDose) => dose.scheduledFor)).toEqual([
+        new Date('2030-06-03T12:00:00.000Z'),
+        new Date('2030-06-04T00:00:00.000Z'),
+      ]);
+    });
+
+    it('should throw NotFoundError for an unknown client', async () => {
+      scheduledDoseRepo.findClient.mockResolvedValue(null);
+
+      await expect(
+        service.generateClientSchedule(CLIENT_ID, { startDate: '2030-06-03' }, context)
+      ).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('setClientDoseTimes', () => {
+    it('should reject a time count that does not match the frequency', async () => {
+      await expect(
+        service.setClientDoseTimes(CLIENT_ID, { sigCode: 'TID', times: ['08:00', '20:00'] }, context)
+      ).rejects.toThrow(ValidationError);
+      expect(scheduledDoseRepo.upsertDoseTimes).not.toHaveBeenCalled();
+    });
+
+    it('should save the times and reschedule open doses', async () => {
+      medicationRepo.findScheduledByClientId.mockResolvedValue([]);
+      scheduledDoseRepo.upsertDoseTimes.mockResolvedValue({ sigCode: 'BID', times: ['07:00', '19:00'] });
+
+      await service.setClientDoseTimes(CLIENT_ID, { sigCode: 'BID', times: ['07:00', '19:00'] }, context);
+
+      expect(scheduledDoseRepo.upsertDoseTimes).toHaveBeenCalledWith(CLIENT_ID, 'BID', ['07:00', '19:00'], context);
+      expect(scheduledDoseRepo.replaceOpenDoses).toHaveBeenCalled();
+    });
+  });
+
+  describe('getMarGrid', () => {
+    it('should put recorded, late and PRN doses on the client day', async () => {
+      const given = buildAdministration({ id: 'admin-given', scheduledFor: new Date('2030-06-03T14:00:00.000Z') });
+      const late = buildAdministration({ id: 'admin-late', administeredAt: new Date('2030-06-04T06:00:00.000Z') });
+      const prn = buildAdministration({ id: 'admin-prn', administeredAt: new Date('2030-06-03T20:00:00.000Z') });
+
+      medicationRepo.findByClientId.mockResolvedValue([
+        buildMedication(),
+        buildMedication({ id: 'med-stopped', status: 'DISCONTINUED' }),
+      ]);
+      scheduledDoseRepo.findByClientAndRange.mockResolvedValue([
+        buildDose({ id: 'dose-am', status: 'GIVEN', administrationId: 'admin-given', visitId: 'visit-1' }),
+        buildDose({
+          id: 'dose-pm',
+          scheduledFor: new Date('2030-06-04T02:00:00.000Z'),
+          status: 'GIVEN',
+          administrationId: 'admin-late',
+        }),
+      ]);
+      administrationRepo.findByClientIdAndDateRange.mockResolvedValue([given, prn]);
+      administrationRepo.findByIds.mockResolvedValue([late]);
+
+      const grid = await service.getMarGrid(CLIENT_ID, '2030-06-03', context);
+
+      expect(administrationRepo.findByIds).toHaveBeenCalledWith(['admin-late'], context);
+      expect(grid.timezone).toBe('America/Chicago');
+      expect(grid.rows).toHaveLength(1);
+      expect(grid.rows[0]!.doses).toEqual([
+        {
+          scheduledDoseId: 'dose-am',
+          scheduledFor: new Date('2030-06-03T14:00:00.000Z'),
+          localTime: '09:00',
+          status: 'GIVEN',
+          visitId: 'visit-1',
+          administration: given,
+        },
+        {
+          scheduledDoseId: 'dose-pm',
+          scheduledFor: new Date('2030-06-04T02:00:00.000Z'),
+          localTime: '21:00',
+          status: 'GIVEN',
+          administration: late,
+        },
+      ]);
+      expect(grid.rows[0]!.prnAdministrations).toEqual([prn]);
+    });
+  });
+
+  describe('detectMissedDoses', () => {
+    const now = new Date('2030-06-03T16:00:00.000Z');
+
+    beforeEach(() => {
+      scheduledDoseRepo.lockOverdueDoses.mockResolvedValue([
+        {
+          dose: buildDose({ id: 'dose-am' }),
+          medicationName: 'Metformin',
+          dosage: '500mg',
+          route: 'ORAL',
+          clientName: 'Jane Doe',
+          timezone: 'America/Chicago',
+        },
+      ]);
+      administrationRepo.createMissed.mockResolvedValue(
+        buildAdministration({ id: 'admin-missed', status: 'MISSED', administeredBy: undefined })
+      );
+    });
+
+    it('should record overdue doses as MISSED and alert the assigned nurse', async () => {
+      scheduledDoseRepo.findAssignedNurse.mockResolvedValue({ userId: NURSE_ID, email: 'nurse@example.com' });
+
+      const result = await service.detectMissedDoses(now);
+
+      expect(scheduledDoseRepo.lockOverdueDoses).toHaveBeenCalledWith(
+        new Date('2030-06-03T15:00:00.000Z'),
+        500,
+        transactionClient
+      );
+      expect(administrationRepo.createMissed).toHaveBeenCalledWith(
+        expect.objectContaining({ medicationId: MEDICATION_ID, scheduledFor: new Date('2030-06-03T14:00:00.000Z') }),
+        now,
+        transactionClient
+      );
+      expect(scheduledDoseRepo.markMissed).toHaveBeenCalledWith('dose-am', 'admin-missed', transactionClient);
+      expect(notificationService.send).toHaveBeenCalledWith(
+        expect.objectContaining({
+          eventType: 'MEDICATION_DOSE_MISSED',
+          priority: 'HIGH',
+          recipients: [{ userId: NURSE_ID, email: 'nurse@example.com', preferredChannels: ['EMAIL', 'IN_APP'] }],
+          relatedEntityId: CLIENT_ID,
+        })
+      );
+      expect(scheduledDoseRepo.markMissedAlerted).toHaveBeenCalledWith(['dose-am'], expect.any(Date));
+      expect(result).toEqual({ detected: 1, notified: 1 });
+    });
+
+    it('should keep the MISSED entries when the client has no assigned nurse', async () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+      scheduledDoseRepo.findAssignedNurse.mockResolvedValue(null);
+
+      const result = await service.detectMissedDoses(now);
+
+      expect(scheduledDoseRepo.markMissed).toHaveBeenCalled();
+      expect(notificationService.send).not.toHaveBeenCalled();
+      expect(scheduledDoseRepo.markMissedAlerted).not.toHaveBeenCalled();
+      expect(result).toEqual({ detected: 1, notified: 0 });
+      warn.mockRestore();
+    });
+  });
+});
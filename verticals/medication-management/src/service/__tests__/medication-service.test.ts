@@ -0,0 +1,777 @@
+/**
+ * Medication Service Tests
+ *
+ * Covers PRN dosing and controlled substance counting:
+ * - PRN reason, minimum interval, daily maximum and follow-ups
+ * - Controlled substance count ledger, witnessed doses and waste
+ * - Shift handoff reconciliation and discrepancy alerts
+ * - Closing scheduled doses when an administration is recorded
+ * - Removing open doses when an order is discontinued or rescheduled
+ * - Drug-allergy and duplicate-therapy checks with supervisor overrides
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { Database, UserContext, NotificationService } from '@care-commons/core';
+import { ValidationError, NotFoundError, PermissionError } from '@care-commons/core';
+import { MedicationService } from '../medication-service.js';
+import {
+  MedicationRepository,
+  MedicationAdministrationRepository,
+} from '../../repository/medication-repository.js';
+import { ControlledSubstanceRepository } from '../../repository/controlled-substance-repository.js';
+import { ScheduledDoseRepository } from '../../repository/scheduled-dose-repository.js';
+import { MedicationSafetyRepository } from '../../repository/medication-safety-repository.js';
+import type { Medication, MedicationAdministration } from '../../types/medication.js';
+
+vi.mock('../../repository/medication-repository.js');
+vi.mock('../../repository/controlled-substance-repository.js');
+vi.mock('../../repository/scheduled-dose-repository.js');
+vi.mock('../../repository/medication-safety-repository.js');
+
+const MEDICATION_ID = '11111111-1111-4111-8111-111111111111';
+const CLIENT_ID = '22222222-2222-4222-8222-222222222222';
+const NURSE_ID = '33333333-3333-4333-8333-333333333333';
+const WITNESS_ID = '44444444-4444-4444-8444-444444444444';
+
+function buildMedication(overrides: Partial<Medication> = {}): Medication {
+  return {
+    id: MEDICATION_ID,
+    organizationId: 'org-123',
+    clientId: CLIENT_ID,
+    medicationName: 'Oxycodone',
+    dosage: '5mg',
+    route: 'ORAL',
+    frequency: 'PRN',
+    prescribedBy: 'Dr. Smith',
+    prescribedDate: new Date('2025-01-01'),
+    startDate: new Date('2025-01-01'),
+    status: 'ACTIVE',
+    isPrn: false,
+    createdAt: new Date('2025-01-01'),
+    updatedAt: new Date('2025-01-01'),
+    createdBy: 'user-123',
+    updatedBy: 'user-123',
+    version: 1,
+    ...overrides,
+  };
+}
+
+function buildAdministration(overrides: Partial<MedicationAdministration> = {}): MedicationAdministration {
+  return {
+    id: 'admin-123',
+    organizationId: 'org-123',
+    medicationId: MEDICATION_ID,
+    clientId: CLIENT_ID,
+    administeredBy: NURSE_ID,
+    administeredAt: new Date(),
+    dosageGiven: '5mg',
+    route: 'ORAL',
+    status: 'GIVEN',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+describe('MedicationService', () => {
+  let service: MedicationService;
+  let medicationRepo: any;
+  let administrationRepo: any;
+  let controlledRepo: any;
+  let scheduledDoseRepo: any;
+  let safetyRepo: any;
+  let notificationService: any;
+  let transactionClient: object;
+  let context: UserContext;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    transactionClient = {};
+    const database = {
+      transaction: vi.fn(async (callback: (client: object) => Promise<unknown>) => callback(transactionClient)),
+    };
+    notificationService = { send: vi.fn().mockResolvedValue([]) };
+
+    service = new MedicationService(
+      database as unknown as Database,
+      notificationService as NotificationService
+    );
+    medicationRepo = vi.mocked(MedicationRepository).mock.instances[0];
+    administrationRepo = vi.mocked(MedicationAdministrationRepository).mock.instances[0];
+    controlledRepo = vi.mocked(ControlledSubstanceRepository).mock.instances[0];
+    scheduledDoseRepo = vi.mocked(ScheduledDoseRepository).mock.instances[0];
+    safetyRepo = vi.mocked(MedicationSafetyRepository).mock.instances[0];
+
+    safetyRepo.findDocumentedAllergies.mockResolvedValue([]);
+    medicationRepo.findByClientId.mockResolvedValue([]);
+
+    administrationRepo.create.mockImplementation(async (input: any) =>
+      buildAdministration({ ...input, administeredAt: new Date() })
+    );
+    controlledRepo.appendCountEntry.mockImplementation(async (entry: any) => ({
+      id: 'entry-123',
+      recordedAt: new Date(),
+      ...entry,
+    }));
+    controlledRepo.createReconciliation.mockImplementation(async (reconciliation: any) => ({
+      id: `reconciliation-${reconciliation.medicationId}`,
+      countedAt: new Date(),
+      ...reconciliation,
+    }));
+    controlledRepo.findUsersByRole.mockResolvedValue([{ userId: 'coordinator-123', email: 'c@example.com' }]);
+
+    context = {
+      userId: NURSE_ID,
+      organizationId: 'org-123',
+      branchIds: ['branch-123'],
+      roles: ['CAREGIVER'],
+      permissions: [],
+    };
+  });
+
+  describe('createMedication', () => {
+    it('should treat a PRN frequency as a PRN order and start controlled counts at zero', async () => {
+      medicationRepo.create.mockImplementation(async (medication: Partial<Medication>) => medication);
+
+      const created = await service.createMedication(
+        {
+          clientId: CLIENT_ID,
+          medicationName: 'Oxycodone',
+          dosage: '5mg',
+          route: 'ORAL',
+          frequency: 'PRN q4h',
+          prnIndication: 'Pain above 5/10',
+          prescribedBy: 'Dr. Smith',
+          prescribedDate: '2025-01-01T00:00:00.000Z',
+          startDate: '2025-01-01T00:00:00.000Z',
+          controlledSchedule: 'II',
+          countUnit: 'tablet',
+        },
+        context
+      );
+
+      expect(created).toMatchObject({ isPrn: true, controlledSchedule: 'II', countOnHand: 0 });
+    });
+  });
+
+  describe('medication safety', () => {
+    const input = {
+      clientId: CLIENT_ID,
+      medicationName: 'Cephalexin 500mg',
+      dosage: '500mg',
+      route: 'ORAL' as const,
+      frequency: 'QID',
+      prescribedBy: 'Dr. Smith',
+      prescribedDate: '2025-01-01T00:00:00.000Z',
+      startDate: '2025-01-01T00:00:00.000Z',
+    };
+
+    beforeEach(() => {
+      medicationRepo.create.mockImplementation(async (medication: Partial<Medication>) =>
+        buildMedication({ ...medication, id: 'med-new' })
+      );
+    });
+
+    it('should enter an order with warnings and return them', async () => {
+      safetyRepo.findDocumentedAllergies.mockResolvedValue([
+        { allergen: 'Penicillin', severity: 'MILD', source: 'CLIENT' },
+      ]);
+
+      const created = await service.createMedication(input, context);
+
+      expect(created.id).toBe('med-new');
+      expect(created.safetyAlerts).toMatchObject([{ type: 'ALLERGY_CROSS_REACTIVITY', severity: 'WARNING' }]);
+      expect(safetyRepo.createOverrides).not.toHaveBeenCalled();
+    });
+
+    it('should block an order that conflicts with a documented allergy', async () => {
+      safetyRepo.findDocumentedAllergies.mockResolvedValue([
+        { allergen: 'Cephalosporins', severity: 'SEVERE', source: 'CARE_PLAN' },
+      ]);
+
+      await expect(service.createMedication(input, context)).rejects.toThrow(ValidationError);
+      expect(medicationRepo.create).not.toHaveBeenCalled();
+    });
+
+    it('should only let supervisors override a blocked order', async () => {
+      medicationRepo.findByClientId.mockResolvedValue([buildMedication({ id: 'med-1', medicationName: 'Keflex' })]);
+
+      await expect(
+        service.createMedication({ ...input, safetyOverrideReason: 'Dose change' }, context)
+      ).rejects.toThrow(PermissionError);
+      expect(medicationRepo.create).not.toHaveBeenCalled();
+    });
+
+    it('should record each alert when a supervisor overrides a blocked order', async () => {
+      medicationRepo.findByClientId.mockResolvedValue([buildMedication({ id: 'med-1', medicationName: 'Keflex' })]);
+      context.roles = ['COORDINATOR'];
+
+      const created = await service.createMedication(
+        { ...input, safetyOverrideReason: 'Replacing the Keflex order; old order ends today' },
+        context
+      );
+
+      expect(medicationRepo.findByClientId).toHaveBeenCalledWith(CLIENT_ID, context, 'ACTIVE');
+      expect(medicationRepo.create).toHaveBeenCalledWith(expect.any(Object), context, transactionClient);
+      expect(safetyRepo.createOverrides).toHaveBeenCalledWith([
+        expect.objectContaining({
+          clientId: CLIENT_ID,
+          medicationId: 'med-new',
+          alertType: 'DUPLICATE_INGREDIENT',
+          alertSeverity: 'BLOCK',
+          conflictingMedicationId: 'med-1',
+          reason: 'Replacing the Keflex order; old order ends today',
+          referenceVersion: expect.any(String),
+          overriddenBy: NURSE_ID,
+        }),
+      ], transactionClient);
+      expect(created.safetyAlerts).toHaveLength(1);
+    });
+
+    describe('updateMedication', () => {
+      beforeEach(() => {
+        medicationRepo.findById.mockResolvedValue(
+          buildMedication({ medicationName: 'Ibuprofen 200mg', frequency: 'BID' })
+        );
+        medicationRepo.update.mockImplementation(async (id: string, updates: Partial<Medication>) =>
+          buildMedication({ id, medicationName: 'Ibuprofen 200mg', ...updates })
+        );
+        medicationRepo.findByClientId.mockResolvedValue([
+          buildMedication({ medicationName: 'Ibuprofen 200mg' }),
+          buildMedication({ id: 'med-1', medicationName: 'Keflex' }),
+        ]);
+      });
+
+      it('should block renaming an order into a conflict with another active medication', async () => {
+        await expect(
+          service.updateMedication(MEDICATION_ID, { medicationName: 'Cephalexin 500mg' }, context)
+        ).rejects.toThrow(ValidationError);
+        expect(medicationRepo.update).not.toHaveBeenCalled();
+      });
+
+      it('should check a reactivated order and record a supervisor override with the update', async () => {
+        medicationRepo.findById.mockResolvedValue(
+          buildMedication({ medicationName: 'Cephalexin 500mg', status: 'ON_HOLD' })
+        );
+        context.roles = ['COORDINATOR'];
+
+        const updated = await service.updateMedication(
+          MEDICATION_ID,
+          { status: 'ACTIVE', safetyOverrideReason: 'Keflex order ends today' },
+          context
+        );
+
+        expect(medicationRepo.update).toHaveBeenCalledWith(
+          MEDICATION_ID,
+          expect.objectContaining({ status: 'ACTIVE' }),
+          context,
+          transactionClient
+        );
+        expect(safetyRepo.createOverrides).toHaveBeenCalledWith(
+          [expect.objectContaining({ medicationId: MEDICATION_ID, conflictingMedicationId: 'med-1' })],
+          transactionClient
+        );
+        expect(updated.safetyAlerts).toHaveLength(1);
+      });
+
+      it('should not compare an order with itself or recheck unrelated changes', async () => {
+        const renamed = await service.updateMedication(MEDICATION_ID, { genericName: 'ibuprofen' }, context);
+        await service.updateMedication(MEDICATION_ID, { dosage: '400mg' }, context);
+
+        expect(renamed.safetyAlerts).toEqual([]);
+        expect(safetyRepo.findDocumentedAllergies).toHaveBeenCalledTimes(1);
+        expect(medicationRepo.update).toHaveBeenCalledTimes(2);
+      });
+    });
+
+    it('should throw NotFoundError when checking an order for an unknown client', async () => {
+      safetyRepo.findDocumentedAllergies.mockResolvedValue(null);
+
+      await expect(
+        service.checkMedicationSafety(CLIENT_ID, { medicationName: 'Cephalexin' }, context)
+      ).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('scheduled doses', () => {
+    const input = {
+      medicationId: MEDICATION_ID,
+      clientId: CLIENT_ID,
+      dosageGiven: '5mg',
+      route: 'ORAL' as const,
+    };
+
+    beforeEach(() => {
+      medicationRepo.findById.mockResolvedValue(buildMedication({ frequency: 'BID' }));
+    });
+
+    it('should close the scheduled dose an administration was recorded for', async () => {
+      const scheduledFor = new Date(Date.now() - 30 * 60 * 1000);
+
+      const recorded = await service.recordAdministration(
+        { ...input, status: 'REFUSED', refusalReason: 'Client asleep', scheduledFor: scheduledFor.toISOString() },
+        context
+      );
+
+      expect(scheduledDoseRepo.markRecorded).toHaveBeenCalledWith(
+        MEDICATION_ID,
+        scheduledFor,
+        recorded.id,
+        'REFUSED'
+      );
+    });
+
+    it('should leave scheduled doses alone for unscheduled administrations', async () => {
+      await service.recordAdministration({ ...input, status: 'GIVEN' }, context);
+
+      expect(scheduledDoseRepo.markRecorded).not.toHaveBeenCalled();
+    });
+
+    it('should remove open future doses when an order is discontinued', async () => {
+      medicationRepo.update.mockResolvedValue(buildMedication({ status: 'DISCONTINUED' }));
+
+      await service.discontinueMedication(MEDICATION_ID, context);
+
+      expect(medicationRepo.update).toHaveBeenCalledWith(
+        MEDICATION_ID,
+        expect.objectContaining({ status: 'DISCONTINUED' }),
+        context,
+        transactionClient
+      );
+      const [medicationId, from, client] = scheduledDoseRepo.deleteOpenDoses.mock.calls[0];
+      expect(medicationId).toBe(MEDICATION_ID);
+      expect(from).toEqual(medicationRepo.update.mock.calls[0][1].endDate);
+      expect(client).toBe(transactionClient);
+    });
+
+    it('should remove open future doses when the frequency changes', async () => {
+      medicationRepo.update.mockImplementation(async (_id: string, updates: Partial<Medication>) =>
+        buildMedication({ frequency: 'BID', ...updates })
+      );
+
+      await service.updateMedication(MEDICATION_ID, { frequency: 'TID' }, context);
+      await service.updateMedication(MEDICATION_ID, { frequency: 'BID', dosage: '10mg' }, context);
+
+      expect(scheduledDoseRepo.deleteOpenDoses).toHaveBeenCalledTimes(1);
+      expect(scheduledDoseRepo.deleteOpenDoses).toHaveBeenCalledWith(
+        MEDICATION_ID,
+        expect.any(Date),
+        transactionClient
+      );
+      expect(medicationRepo.update).toHaveBeenLastCalledWith(
+        MEDICATION_ID,
+        expect.objectContaining({ dosage: '10mg' }),
+        context
+      );
+    });
+  });
+
+  describe('PRN administration', () => {
+    const prnMedication = buildMedication({
+      isPrn: true,
+      prnIndication: 'Pain above 5/10',
+      prnMinIntervalMinutes: 240,
+      prnMaxDosesPerDay: 4,
+      prnFollowUpMinutes: 45,
+    });
+    const input = {
+      medicationId: MEDICATION_ID,
+      clientId: CLIENT_ID,
+      dosageGiven: '5mg',
+      route: 'ORAL' as const,
+      status: 'GIVEN' as const,
+      prnReason: 'Pain 7/10 in lower back',
+    };
+
+    beforeEach(() => {
+      medicationRepo.findById.mockResolvedValue(prnMedication);
+      administrationRepo.getLastAdministration.mockResolvedValue(null);
+      administrationRepo.countGivenSince.mockResolvedValue(0);
+    });
+
+    it('should schedule an effectiveness follow-up', async () => {
+      const administeredAt = new Date(Date.now() - 10 * 60 * 1000);
+
+      await service.recordAdministration({ ...input, administeredAt: administeredAt.toISOString() }, context);
+
+      const [recorded] = administrationRepo.create.mock.calls[0];
+      expect(recorded.prnFollowUpDueAt).toEqual(new Date(administeredAt.getTime() + 45 * 60 * 1000));
+    });
+
+    it('should require a PRN reason', async () => {
+      await expect(
+        service.recordAdministration({ ...input, prnReason: undefined }, context)
+      ).rejects.toThrow(ValidationError);
+    });
+
+    it('should enforce the minimum interval between doses', async () => {
+      administrationRepo.getLastAdministration.mockResolvedValue(
+        buildAdministration({ administeredAt: new Date(Date.now() - 60 * 60 * 1000) })
+      );
+
+      await expect(service.recordAdministration(input, context)).rejects.toThrow(
+        'PRN doses must be at least 240 minutes apart'
+      );
+      expect(administrationRepo.create).not.toHaveBeenCalled();
+    });
+
+    it('should enforce the daily maximum', async () => {
+      administrationRepo.countGivenSince.mockResolvedValue(4);
+
+      await expect(service.recordAdministration(input, context)).rejects.toThrow(
+        'Maximum of 4 PRN doses in 24 hours reached'
+      );
+    });
+
+    it('should not apply PRN limits to refused doses', async () => {
+      administrationRepo.countGivenSince.mockResolvedValue(4);
+
+      await service.recordAdministration(
+        { ...input, status: 'REFUSED', refusalReason: 'Client declined', prnReason: undefined },
+        context
+      );
+
+      const [recorded] = administrationRepo.create.mock.calls[0];
+      expect(recorded.prnFollowUpDueAt).toBeUndefined();
+    });
+  });
+
+  describe('recordPrnFollowUp', () => {
+    it('should record effectiveness for a PRN dose', async () => {
+      const administration = buildAdministration({ prnFollowUpDueAt: new Date() });
+      administrationRepo.findById.mockResolvedValue(administration);
+      administrationRepo.recordPrnFollowUp.mockResolvedValue({ ...administration, prnEffectiveness: 'EFFECTIVE' });
+
+      const result = await service.recordPrnFollowUp('admin-123', { effectiveness: 'EFFECTIVE' }, context);
+
+      expect(result.prnEffectiveness).toBe('EFFECTIVE');
+    });
+
+    it('should reject follow-ups for scheduled doses', async () => {
+      administrationRepo.findById.mockResolvedValue(buildAdministration());
+
+      await expect(
+        service.recordPrnFollowUp('admin-123', { effectiveness: 'EFFECTIVE' }, context)
+      ).rejects.toThrow(ValidationError);
+    });
+
+    it('should reject a second follow-up', async () => {
+      administrationRepo.findById.mockResolvedValue(buildAdministration({ prnFollowUpDueAt: new Date() }));
+      administrationRepo.recordPrnFollowUp.mockResolvedValue(null);
+
+      await expect(
+        service.recordPrnFollowUp('admin-123', { effectiveness: 'NOT_EFFECTIVE' }, context)
+      ).rejects.toThrow('already been recorded');
+    });
+
+    it('should throw when the administration does not exist', async () => {
+      administrationRepo.findById.mockResolvedValue(null);
+
+      await expect(
+        service.recordPrnFollowUp('admin-404', { effectiveness: 'EFFECTIVE' }, context)
+      ).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('controlled substance administration', () => {
+    const input = {
+      medicationId: MEDICATION_ID,
+      clientId: CLIENT_ID,
+      dosageGiven: '5mg',
+      route: 'ORAL' as const,
+      status: 'GIVEN' as const,
+      quantityGiven: 1,
+      witnessedBy: WITNESS_ID,
+    };
+
+    beforeEach(() => {
+      medicationRepo.findById.mockResolvedValue(
+        buildMedication({ frequency: 'Q6H', controlledSchedule: 'II', countUnit: 'tablet', countOnHand: 10 })
+      );
+      controlledRepo.lockCount.mockResolvedValue(10);
+    });
+
+    it('should deduct the dose and waste from the running count in one transaction', async () => {
+      await service.recordAdministration(
+        {
+          ...input,
+          quantityGiven: 0.5,
+          quantityWasted: 0.5,
+          wasteReason: 'Half tablet ordered',
+          wasteWitnessedBy: WITNESS_ID,
+        },
+        context
+      );
+
+      expect(controlledRepo.lockCount).toHaveBeenCalledWith(MEDICATION_ID, transactionClient);
+      expect(administrationRepo.create).toHaveBeenCalledWith(
+        expect.objectContaining({ countAfter: 9 }),
+        context,
+        transactionClient
+      );
+      expect(controlledRepo.appendCountEntry).toHaveBeenNthCalledWith(
+        1,
+        expect.objectContaining({ entryType: 'ADMINISTERED', quantityChange: -0.5, balanceAfter: 9.5 }),
+        transactionClient
+      );
+      expect(controlledRepo.appendCountEntry).toHaveBeenNthCalledWith(
+        2,
+        expect.objectContaining({
+          entryType: 'WASTED',
+          quantityChange: -0.5,
+          balanceAfter: 9,
+          witnessedBy: WITNESS_ID,
+          administrationId: 'admin-123',
+        }),
+        transactionClient
+      );
+    });
+
+    it('should require the quantity given', async () => {
+      await expect(
+        service.recordAdministration({ ...input, quantityGiven: undefined }, context)
+      ).rejects.toThrow('Quantity given is required');
+    });
+
+    it('should require a witness for Schedule II doses', async () => {
+      await expect(
+        service.recordAdministration({ ...input, witnessedBy: undefined }, context)
+      ).rejects.toThrow('A witness is required');
+    });
+
+    it('should not let staff witness their own dose', async () => {
+      await expect(
+        service.recordAdministration({ ...input, witnessedBy: NURSE_ID }, context)
+      ).rejects.toThrow('Witness must be a different staff member');
+    });
+
+    it('should not take the count below zero', async () => {
+      controlledRepo.lockCount.mockResolvedValue(0.5);
+
+      await expect(service.recordAdministration(input, context)).rejects.toThrow(
+        'Quantity exceeds the count on hand (0.5 tablet)'
+      );
+      expect(administrationRepo.create).not.toHaveBeenCalled();
+    });
+
+    it('should only count waste for refused doses', async () => {
+      await service.recordAdministration(
+        {
+          ...input,
+          status: 'REFUSED',
+          refusalReason: 'Client spat out tablet',
+          quantityGiven: undefined,
+          witnessedBy: undefined,
+          quantityWasted: 1,
+          wasteReason: 'Refused after removal from package',
+          wasteWitnessedBy: WITNESS_ID,
+        },
+        context
+      );
+
+      expect(controlledRepo.appendCountEntry).toHaveBeenCalledTimes(1);
+      expect(controlledRepo.appendCountEntry).toHaveBeenCalledWith(
+        expect.objectContaining({ entryType: 'WASTED', balanceAfter: 9 }),
+        transactionClient
+      );
+    });
+  });
+
+  describe('controlled stock and waste', () => {
+    beforeEach(() => {
+      medicationRepo.findById.mockResolvedValue(
+        buildMedication({ controlledSchedule: 'IV', countUnit: 'tablet', countOnHand: 3 })
+      );
+      controlledRepo.lockCount.mockResolvedValue(3);
+    });
+
+    it('should add received stock to the count', async () => {
+      const entry = await service.receiveControlledStock(MEDICATION_ID, { quantity: 30 }, context);
+
+      expect(entry).toMatchObject({ entryType: 'RECEIVED', quantityChange: 30, balanceAfter: 33 });
+    });
+
+    it('should record witnessed waste', async () => {
+      const entry = await service.recordControlledWaste(
+        MEDICATION_ID,
+        { quantity: 1, reason: 'Dropped on floor', witnessedBy: WITNESS_ID },
+        context
+      );
+
+      expect(entry).toMatchObject({ entryType: 'WASTED', quantityChange: -1, balanceAfter: 2 });
+    });
+
+    it('should reject counts for medications that are not controlled', async () => {
+      medicationRepo.findById.mockResolvedValue(buildMedication());
+
+      await expect(
+        service.receiveControlledStock(MEDICATION_ID, { quantity: 30 }, context)
+      ).rejects.toThrow('not a controlled substance');
+    });
+
+    it('should not expose medications from another organization', async () => {
+      medicationRepo.findById.mockResolvedValue(buildMedication({ organizationId: 'org-456', controlledSchedule: 'IV' }));
+
+      await expect(
+        service.receiveControlledStock(MEDICATION_ID, { quantity: 30 }, context)
+      ).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('shift handoff counts', () => {
+    const input = {
+      clientId: CLIENT_ID,
+      witnessedBy: WITNESS_ID,
+      counts: [{ medicationId: MEDICATION_ID, countedQuantity: 9 }],
+    };
+
+    beforeEach(() => {
+      medicationRepo.findById.mockResolvedValue(
+        buildMedication({ controlledSchedule: 'II', countUnit: 'tablet', countOnHand: 9 })
+      );
+      controlledRepo.lockCount.mockResolvedValue(9);
+    });
+
+    it('should record a matching count without alerting', async () => {
+      const [reconciliation] = await service.recordShiftHandoffCount(input, context);
+
+      expect(reconciliation).toMatchObject({
+        expectedCount: 9,
+        countedQuantity: 9,
+        discrepancy: 0,
+        status: 'MATCHED',
+        countedBy: NURSE_ID,
+        witnessedBy: WITNESS_ID,
+      });
+      expect(notificationService.send).not.toHaveBeenCalled();
+    });
+
+    it('should flag a mismatch and alert supervisors', async () => {
+      const [reconciliation] = await service.recordShiftHandoffCount(
+        { ...input, counts: [{ medicationId: MEDICATION_ID, countedQuantity: 7 }] },
+        context
+      );
+
+      expect(reconciliation).toMatchObject({ status: 'DISCREPANCY', discrepancy: -2 });
+      expect(reconciliation!.alertedAt).toBeInstanceOf(Date);
+      expect(controlledRepo.findUsersByRole).toHaveBeenCalledWith('org-123', ['ORG_ADMIN', 'BRANCH_ADMIN', 'COORDINATOR']);
+      expect(notificationService.send).toHaveBeenCalledWith(
+        expect.objectContaining({
+          eventType: 'CONTROLLED_SUBSTANCE_COUNT_DISCREPANCY',
+          priority: 'URGENT',
+          recipients: [expect.objectContaining({ userId: 'coordinator-123' })],
+        })
+      );
+      expect(controlledRepo.markAlerted).toHaveBeenCalledWith(reconciliation!.id, expect.any(Date));
+      // The running count is only corrected when a supervisor resolves the discrepancy
+      expect(controlledRepo.appendCountEntry).not.toHaveBeenCalled();
+    });
+
+    it('should keep the count when the alert fails', async () => {
+      notificationService.send.mockRejectedValue(new Error('SMTP down'));
+
+      const [reconciliation] = await service.recordShiftHandoffCount(
+        { ...input, counts: [{ medicationId: MEDICATION_ID, countedQuantity: 8 }] },
+        context
+      );
+
+      expect(reconciliation!.status).toBe('DISCREPANCY');
+      expect(reconciliation!.alertedAt).toBeUndefined();
+    });
+
+    it('should require the incoming staff member as witness', async () => {
+      await expect(
+        service.recordShiftHandoffCount({ ...input, witnessedBy: NURSE_ID }, context)
+      ).rejects.toThrow('Witness must be a different staff member');
+    });
+
+    it('should reject medications belonging to another client', async () => {
+      medicationRepo.findById.mockResolvedValue(
+        buildMedication({ clientId: 'client-456', controlledSchedule: 'II', countUnit: 'tablet' })
+      );
+
+      await expect(service.recordShiftHandoffCount(input, context)).rejects.toThrow(
+        'Client ID does not match medication record'
+      );
+    });
+  });
+
+  describe('resolveCountDiscrepancy', () => {
+    const coordinator: UserContext = {
+      userId: 'coordinator-123',
+      organizationId: 'org-123',
+      branchIds: ['branch-123'],
+      roles: ['COORDINATOR'],
+      permissions: [],
+    };
+    const discrepancy = {
+      id: 'reconciliation-123',
+      organizationId: 'org-123',
+      medicationId: MEDICATION_ID,
+      clientId: CLIENT_ID,
+      expectedCount: 9,
+      countedQuantity: 7,
+      discrepancy: -2,
+      status: 'DISCREPANCY' as const,
+      countedBy: NURSE_ID,
+      witnessedBy: WITNESS_ID,
+      countedAt: new Date(),
+    };
+
+    beforeEach(() => {
+      controlledRepo.findReconciliationById.mockResolvedValue(discrepancy);
+      controlledRepo.resolveReconciliation.mockImplementation(async (_id: string, resolution: any) => ({
+        ...discrepancy,
+        ...resolution,
+        status: 'RESOLVED',
+      }));
+    });
+
+    it('should adjust the running count by the discrepancy', async () => {
+      // A dose was given after the handoff count
+      controlledRepo.lockCount.mockResolvedValue(8);
+
+      const resolved = await service.resolveCountDiscrepancy(
+        'reconciliation-123',
+        { resolutionNotes: 'Two tablets unaccounted for, reported to DON', adjustCount: true },
+        coordinator
+      );
+
+      expect(controlledRepo.appendCountEntry).toHaveBeenCalledWith(
+        expect.objectContaining({
+          entryType: 'ADJUSTED',
+          quantityChange: -2,
+          balanceAfter: 6,
+          reconciliationId: 'reconciliation-123',
+        }),
+        transactionClient
+      );
+      expect(resolved).toMatchObject({ status: 'RESOLVED', countAdjusted: true });
+    });
+
+    it('should resolve without adjusting the count', async () => {
+      await service.resolveCountDiscrepancy(
+        'reconciliation-123',
+        { resolutionNotes: 'Miscount, recounted and matched' },
+        coordinator
+      );
+
+      expect(controlledRepo.appendCountEntry).not.toHaveBeenCalled();
+    });
+
+    it('should only allow supervisors', async () => {
+      await expect(
+        service.resolveCountDiscrepancy('reconciliation-123', { resolutionNotes: 'Fixed' }, context)
+      ).rejects.toThrow(PermissionError);
+    });
+
+    it('should reject reconciliations that are not open discrepancies', async () => {
+      controlledRepo.findReconciliationById.mockResolvedValue({ ...discrepancy, status: 'MATCHED' });
+
+      await expect(
+        service.resolveCountDiscrepancy('reconciliation-123', { resolutionNotes: 'Fixed' }, coordinator)
+      ).rejects.toThrow('Cannot resolve a reconciliation with status: MATCHED');
+    });
+  });
+});
@@ -3,3 +3,4 @@
  */
 
 export { MedicationService } from './medication-service.js';
+export { MedicationScheduleService } from './medication-schedule-service.js';
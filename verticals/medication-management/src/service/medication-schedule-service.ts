@@ -0,0 +1,438 @@
+/**
+ * Medication Schedule Service - Scheduled doses and the MAR grid
+ *
+ * Handles:
+ * - Client-specific dose times per frequency code
+ * - Materializing scheduled doses from medication frequencies, aligned with
+ *   the client's visits
+ * - The MAR grid for a client's day
+ * - Missed-dose detection: doses nobody recorded by the end of their window
+ *   become MISSED entries on the MAR and the assigned nurse is notified
+ */
+
+import type { Database, UserContext } from '@care-commons/core';
+import {
+  ValidationError,
+  NotFoundError,
+  NotificationService,
+  getNotificationService,
+} from '@care-commons/core';
+import {
+  MedicationRepository,
+  MedicationAdministrationRepository,
+} from '../repository/medication-repository.js';
+import {
+  ScheduledDoseRepository,
+  type ClientVisitSlot,
+  type DoseScheduleClient,
+  type NewScheduledDose,
+  type OverdueDose,
+} from '../repository/scheduled-dose-repository.js';
+import { parseSig, parseSigCode, expectedTimeCount, resolveDoseTimes } from '../utils/sig-parser.js';
+import {
+  DOSE_WINDOW_MINUTES,
+  addDays,
+  alignDosesToVisits,
+  expandDoses,
+  formatCalendarDate,
+  formatLocalTime,
+  getZonedDateTime,
+  isValidTimeZone,
+  parseCalendarDate,
+  toCalendarDate,
+  zonedTimeToUtc,
+  type CalendarDate,
+  type VisitWindow,
+} from '../utils/dose-schedule.js';
+import type {
+  ClientDoseTimes,
+  DoseScheduleResult,
+  GenerateDoseScheduleInput,
+  MarGrid,
+  MarGridDose,
+  MissedDoseDetectionResult,
+  SetClientDoseTimesInput,
+} from '../types/medication.js';
+
+const MINUTE_MS = 60 * 1000;
+
+// Doses are kept materialized a week ahead
+const DEFAULT_SCHEDULE_DAYS = 7;
+
+// Overdue doses handled per detection pass
+const MISSED_DOSE_BATCH_SIZE = 500;
+
+export class MedicationScheduleService {
+  private database: Database;
+  private medicationRepo: MedicationRepository;
+  private administrationRepo: MedicationAdministrationRepository;
+  private scheduledDoseRepo: ScheduledDoseRepository;
+  private notificationService: NotificationService;
+
+  constructor(database: Database, notificationService: NotificationService = getNotificationService()) {
+    this.database = database;
+    this.medicationRepo = new MedicationRepository(database);
+    this.administrationRepo = new MedicationAdministrationRepository(database);
+    this.scheduledDoseRepo = new ScheduledDoseRepository(database);
+    this.notificationService = notificationService;
+  }
+
+  /**
+   * Get a client's own dose times
+   */
+  async getClientDoseTimes(clientId: string, context: UserContext): Promise<ClientDoseTimes[]> {
+    await this.getClient(clientId, context);
+    return this.scheduledDoseRepo.findDoseTimes(clientId, context.organizationId!);
+  }
+
+  /**
+   * Set a client's dose times for a frequency code and reschedule their open
+   * doses with them
+   */
+  async setClientDoseTimes(
+    clientId: string,
+    input: SetClientDoseTimesInput,
+    context: UserContext
+  ): Promise<ClientDoseTimes> {
+    const sig = parseSigCode(input.sigCode);
+    if (!sig) {
+      throw new ValidationError(`Unsupported frequency code: ${input.sigCode}`, { sigCode: input.sigCode });
+    }
+    if (input.times.length !== expectedTimeCount(sig)) {
+      throw new ValidationError(`${sig.code} takes ${expectedTimeCount(sig)} dose time(s)`, {
+        sigCode: sig.code,
+        times: input.times,
+      });
+    }
+
+    const client = await this.getClient(clientId, context);
+    const doseTimes = await this.scheduledDoseRepo.upsertDoseTimes(clientId, sig.code, input.times, context);
+
+    const now = new Date();
+    await this.materializeSchedule(client, this.localToday(client, now), DEFAULT_SCHEDULE_DAYS, now);
+    return doseTimes;
+  }
+
+  /**
+   * Materialize a client's scheduled doses for a range of days. Open future
+   * doses in the range are replaced; recorded and past doses are left as
+   * they are.
+   */
+  async generateClientSchedule(
+    clientId: string,
+    input: GenerateDoseScheduleInput,
+    context: UserContext
+  ): Promise<DoseScheduleResult> {
+    const client = await this.getClient(clientId, context);
+    return this.materializeSchedule(
+      client,
+      parseCalendarDate(input.startDate),
+      input.days ?? DEFAULT_SCHEDULE_DAYS,
+      new Date()
+    );
+  }
+
+  /**
+   * Keep every client's doses materialized for the coming week. Visits are
+   * re-read each time, so rescheduled visits move the doses with them.
+   */
+  async refreshSchedules(now: Date = new Date()): Promise<{ clients: number; dosesScheduled: number }> {
+    const clients = await this.scheduledDoseRepo.findClientsWithScheduledMedications();
+
+    let dosesScheduled = 0;
+    for (const client of clients) {
+      try {
+        const result = await this.materializeSchedule(client, this.localToday(client, now), DEFAULT_SCHEDULE_DAYS, now);
+        dosesScheduled += result.dosesScheduled;
+      } catch (error) {
+        console.error(`[MEDICATION] Failed to refresh dose schedule for client ${client.clientId}:`, error);
+      }
+    }
+
+    return { clients: clients.length, dosesScheduled };
+  }
+
+  /**
+   * Get the MAR grid for a client's day: each medication's scheduled doses
+   * with what was recorded against them, plus unscheduled (PRN) doses
+   */
+  async getMarGrid(clientId: string, date: string, context: UserContext): Promise<MarGrid> {
+    const client = await this.getClient(clientId, context);
+    this.checkTimeZone(client);
+
+    const day = parseCalendarDate(date);
+    const dayStart = zonedTimeToUtc(day, 0, 0, client.timezone);
+    const dayEnd = zonedTimeToUtc(addDays(day, 1), 0, 0, client.timezone);
+
+    const medications = await this.medicationRepo.findByClientId(clientId, context);
+    const doses = await this.scheduledDoseRepo.findByClientAndRange(clientId, dayStart, dayEnd, context);
+    const dayAdministrations = await this.administrationRepo.findByClientIdAndDateRange(
+      clientId,
+      dayStart.toISOString(),
+      dayEnd.toISOString(),
+      context
+    );
+
+    // Late doses can be recorded after the day is over
+    const administrations = new Map(dayAdministrations.map((a) => [a.id, a]));
+    const laterIds = doses
+      .map((dose) => dose.administrationId)
+      .filter((id): id is string => id !== undefined && !administrations.has(id));
+    for (const administration of await this.administrationRepo.findByIds(laterIds, context)) {
+      administrations.set(administration.id, administration);
+    }
+
+    const rows = medications
+      .filter(
+        (medication) =>
+          medication.status === 'ACTIVE' ||
+          doses.some((dose) => dose.medicationId === medication.id) ||
+          dayAdministrations.some((a) => a.medicationId === medication.id)
+      )
+      .map((medication) => ({
+        medication,
+        doses: doses
+          .filter((dose) => dose.medicationId === medication.id)
+          .map((dose) => {
+            const cell: MarGridDose = {
+              scheduledDoseId: dose.id,
+              scheduledFor: dose.scheduledFor,
+              localTime: formatLocalTime(dose.scheduledFor, client.timezone),
+              status: dose.status,
+            };
+            if (dose.visitId !== undefined) {
+              cell.visitId = dose.visitId;
+            }
+            const administration =
+              dose.administrationId !== undefined ? administrations.get(dose.administrationId) : undefined;
+            if (administration !== undefined) {
+              cell.administration = administration;
+            }
+            return cell;
+          }),
+        prnAdministrations: dayAdministrations
+          .filter((a) => a.medicationId === medication.id && a.scheduledFor === undefined)
+          .sort((a, b) => new Date(a.administeredAt).getTime() - new Date(b.administeredAt).getTime()),
+      }));
+
+    return { clientId, date: formatCalendarDate(day), timezone: client.timezone, rows };
+  }
+
+  /**
+   * Record doses still open at the end of their window as MISSED and notify
+   * each client's assigned nurse
+   */
+  async detectMissedDoses(now: Date = new Date()): Promise<MissedDoseDetectionResult> {
+    const dueBefore = new Date(now.getTime() - DOSE_WINDOW_MINUTES * MINUTE_MS);
+
+    const missed = await this.database.transaction(async (client) => {
+      const overdue = await this.scheduledDoseRepo.lockOverdueDoses(dueBefore, MISSED_DOSE_BATCH_SIZE, client);
+      for (const item of overdue) {
+        const administration = await this.administrationRepo.createMissed(
+          {
+            organizationId: item.dose.organizationId,
+            medicationId: item.dose.medicationId,
+            clientId: item.dose.clientId,
+            scheduledFor: item.dose.scheduledFor,
+            dosage: item.dosage,
+            route: item.route,
+          },
+          now,
+          client
+        );
+        await this.scheduledDoseRepo.markMissed(item.dose.id, administration.id, client);
+        item.dose.status = 'MISSED';
+        item.dose.administrationId = administration.id;
+      }
+      return overdue;
+    });
+
+    const byClient = new Map<string, OverdueDose[]>();
+    for (const item of missed) {
+      byClient.set(item.dose.clientId, [...(byClient.get(item.dose.clientId) ?? []), item]);
+    }
+
+    let notified = 0;
+    for (const doses of byClient.values()) {
+      if (await this.alertMissedDoses(doses)) {
+        notified++;
+        await this.scheduledDoseRepo.markMissedAlerted(
+          doses.map((item) => item.dose.id),
+          new Date()
+        );
+      }
+    }
+
+    return { detected: missed.length, notified };
+  }
+
+  private async materializeSchedule(
+    client: DoseScheduleClient,
+    from: CalendarDate,
+    days: number,
+    now: Date
+  ): Promise<DoseScheduleResult> {
+    this.checkTimeZone(client);
+
+    const to = addDays(from, days - 1);
+    const rangeStart = zonedTimeToUtc(from, 0, 0, client.timezone);
+    const rangeEnd = zonedTimeToUtc(addDays(to, 1), 0, 0, client.timezone);
+    // Past doses are left for missed-dose detection
+    const replaceFrom = rangeStart > now ? rangeStart : now;
+
+    const medications = await this.medicationRepo.findScheduledByClientId(client.clientId, client.organizationId);
+    const clientTimes = new Map(
+      (await this.scheduledDoseRepo.findDoseTimes(client.clientId, client.organizationId)).map((t) => [
+        t.sigCode as string,
+        t.times,
+      ])
+    );
+    const visits = (
+      await this.scheduledDoseRepo.findVisitSlots(
+        client.clientId,
+        formatCalendarDate(addDays(from, -1)),
+        formatCalendarDate(addDays(to, 1))
+      )
+    ).map(toVisitWindow);
+
+    const result: DoseScheduleResult = {
+      clientId: client.clientId,
+      timezone: client.timezone,
+      dosesScheduled: 0,
+      uncoveredDoses: 0,
+      unscheduledMedications: [],
+    };
+
+    const newDoses: NewScheduledDose[] = [];
+    for (const medication of medications) {
+      const sig = parseSig(medication.frequency);
+      if (!sig) {
+        result.unscheduledMedications.push({ medicationId: medication.id, frequency: medication.frequency });
+        continue;
+      }
+
+      // Doses on the neighbouring days can be moved into the range by a visit
+      const doses = expandDoses(sig, resolveDoseTimes(sig, clientTimes.get(sig.code)), {
+        from: addDays(from, -1),
+        to: addDays(to, 1),
+        startDate: toCalendarDate(new Date(medication.startDate)),
+        ...(medication.endDate && { endDate: toCalendarDate(new Date(medication.endDate)) }),
+        timezone: client.timezone,
+      });
+
+      for (const aligned of alignDosesToVisits(doses, visits)) {
+        if (aligned.scheduledFor >= replaceFrom && aligned.scheduledFor < rangeEnd) {
+          newDoses.push({
+            organizationId: client.organizationId,
+            clientId: client.clientId,
+            medicationId: medication.id,
+            ...aligned,
+          });
+        }
+      }
+    }
+
+    result.dosesScheduled = await this.scheduledDoseRepo.replaceOpenDoses(
+      client.clientId,
+      replaceFrom,
+      rangeEnd,
+      newDoses
+    );
+    result.uncoveredDoses = newDoses.filter((dose) => dose.visitId === undefined).length;
+    return result;
+  }
+
+  /**
+   * Notify a client's assigned nurse of missed doses. Returns whether the
+   * nurse was notified; a failed alert never undoes the MAR entries.
+   */
+  private async alertMissedDoses(doses: OverdueDose[]): Promise<boolean> {
+    const first = doses[0]!;
+    try {
+      const nurse = await this.scheduledDoseRepo.findAssignedNurse(
+        first.dose.clientId,
+        first.dose.organizationId
+      );
+      if (!nurse) {
+        console.warn(`[MEDICATION] No assigned nurse to alert about missed doses for client ${first.dose.clientId}`);
+        return false;
+      }
+
+      const data = {
+        clientId: first.dose.clientId,
+        clientName: first.clientName,
+        missedCount: doses.length,
+        doseSummary: doses
+          .map((item) => `${item.medicationName} ${item.dosage} at ${formatLocalTime(item.dose.scheduledFor, item.timezone)}`)
+          .join(', '),
+        doses: doses.map((item) => ({
+          scheduledDoseId: item.dose.id,
+          administrationId: item.dose.administrationId,
+          medicationId: item.dose.medicationId,
+          medicationName: item.medicationName,
+          dosage: item.dosage,
+          scheduledFor: item.dose.scheduledFor,
+        })),
+      };
+      const template = NotificationService.getTemplate('MEDICATION_DOSE_MISSED', data);
+
+      await this.notificationService.send({
+        eventType: 'MEDICATION_DOSE_MISSED',
+        priority: 'HIGH',
+        recipients: [
+          {
+            userId: nurse.userId,
+            ...(nurse.email !== '' && { email: nurse.email }),
+            preferredChannels: ['EMAIL', 'IN_APP'],
+          },
+        ],
+        subject: template.subject,
+        message: template.message,
+        data,
+        organizationId: first.dose.organizationId,
+        relatedEntityType: 'client',
+        relatedEntityId: first.dose.clientId,
+      });
+      return true;
+    } catch (error) {
+      console.error('[MEDICATION] Failed to send missed dose alert:', error);
+      return false;
+    }
+  }
+
+  private async getClient(clientId: string, context: UserContext): Promise<DoseScheduleClient> {
+    const client = await this.scheduledDoseRepo.findClient(clientId, context.organizationId!);
+    if (!client) {
+      throw new NotFoundError('Client not found', { clientId });
+    }
+    return client;
+  }
+
+  private checkTimeZone(client: DoseScheduleClient): void {
+    if (!isValidTimeZone(client.timezone)) {
+      throw new ValidationError(`Client timezone is not a valid IANA timezone: ${client.timezone}`, {
+        clientId: client.clientId,
+      });
+    }
+  }
+
+  private localToday(client: DoseScheduleClient, now: Date): CalendarDate {
+    this.checkTimeZone(client);
+    const local = getZonedDateTime(now, client.timezone);
+    return { year: local.year, month: local.month, day: local.day };
+  }
+}
+
+/**
+ * UTC window of a visit scheduled in its own timezone
+ */
+function toVisitWindow(slot: ClientVisitSlot): VisitWindow {
+  const date = parseCalendarDate(slot.scheduledDate);
+  const [startHour, startMinute] = slot.startTime.split(':').map(Number) as [number, number];
+  const [endHour, endMinute] = slot.endTime.split(':').map(Number) as [number, number];
+  return {
+    visitId: slot.visitId,
+    start: zonedTimeToUtc(date, startHour, startMinute, slot.timezone),
+    end: zonedTimeToUtc(date, endHour, endMinute, slot.timezone),
+  };
+}
@@ -6,10 +6,31 @@
  * - Administration recording and tracking
  * - Compliance checks (refills, overdue doses)
  * - State-specific medication administration rules
+ * - PRN dosing limits and effectiveness follow-ups
+ * - Controlled substance counts, witnessed waste and shift handoff reconciliation
+ * - Drug-allergy and duplicate-therapy checks on new orders, with audited overrides
  */
 
 import type { Database, UserContext } from '@care-commons/core';
-import { MedicationRepository, MedicationAdministrationRepository } from '../repository/medication-repository.js';
+import {
+  ValidationError,
+  NotFoundError,
+  PermissionError,
+  NotificationService,
+  getNotificationService,
+} from '@care-commons/core';
+import {
+  MedicationRepository,
+  MedicationAdministrationRepository,
+  type NewMedicationAdministration,
+  type TransactionClient,
+} from '../repository/medication-repository.js';
+import { ControlledSubstanceRepository } from '../repository/controlled-substance-repository.js';
+import { ScheduledDoseRepository } from '../repository/scheduled-dose-repository.js';
+import { MedicationSafetyRepository } from '../repository/medication-safety-repository.js';
+import { isPrnOrder } from '../validation/medication-validator.js';
+import { checkMedicationSafety, type MedicationOrderNames } from '../utils/medication-safety.js';
+import { DEFAULT_DRUG_REFERENCE } from '../config/drug-reference.js';
 import type {
   Medication,
   MedicationAdministration,
@@ -18,24 +39,72 @@ import type {
   CreateMedicationInput,
   UpdateMedicationInput,
   RecordAdministrationInput,
+  RecordPrnFollowUpInput,
+  ControlledSubstanceCountEntry,
+  CountReconciliation,
+  ReceiveControlledStockInput,
+  RecordControlledWasteInput,
+  ShiftHandoffCountInput,
+  ResolveCountDiscrepancyInput,
+  CreatedMedication,
+  DrugReference,
+  MedicationSafetyCheck,
+  MedicationSafetyOverride,
 } from '../types/medication.js';
 
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+// Effectiveness is checked an hour after a PRN dose unless the order says otherwise
+const DEFAULT_PRN_FOLLOW_UP_MINUTES = 60;
+
+const SUPERVISOR_ROLES = ['SUPER_ADMIN', 'ORG_ADMIN', 'BRANCH_ADMIN', 'COORDINATOR'];
+const DISCREPANCY_ALERT_ROLES = ['ORG_ADMIN', 'BRANCH_ADMIN', 'COORDINATOR'];
+
+/**
+ * Counts are kept to two decimal places (e.g. 2.5 ml)
+ */
+function roundQuantity(quantity: number): number {
+  return Math.round(quantity * 100) / 100;
+}
+
 export class MedicationService {
+  private database: Database;
   private medicationRepo: MedicationRepository;
   private administrationRepo: MedicationAdministrationRepository;
-
-  constructor(database: Database) {
+  private controlledSubstanceRepo: ControlledSubstanceRepository;
+  private scheduledDoseRepo: ScheduledDoseRepository;
+  private safetyRepo: MedicationSafetyRepository;
+  private notificationService: NotificationService;
+  private drugReference: DrugReference;
+
+  constructor(
+    database: Database,
+    notificationService: NotificationService = getNotificationService(),
+    drugReference: DrugReference = DEFAULT_DRUG_REFERENCE
+  ) {
+    this.database = database;
     this.medicationRepo = new MedicationRepository(database);
     this.administrationRepo = new MedicationAdministrationRepository(database);
+    this.controlledSubstanceRepo = new ControlledSubstanceRepository(database);
+    this.scheduledDoseRepo = new ScheduledDoseRepository(database);
+    this.safetyRepo = new MedicationSafetyRepository(database);
+    this.notificationService = notificationService;
+    this.drugReference = drugReference;
   }
 
   /**
    * Create a new medication order
+   *
+   * The order is checked against the client's documented allergies and
+   * active medications first. Warnings are returned with the order; blocking
+   * alerts stop it unless a supervisor gives an override reason, which is
+   * recorded against each alert.
    */
   async createMedication(
     input: CreateMedicationInput,
     context: UserContext
-  ): Promise<Medication> {
+  ): Promise<CreatedMedication> {
     // Validate dates
     const startDate = new Date(input.startDate);
     const prescribedDate = new Date(input.prescribedDate);
@@ -68,19 +137,65 @@ export class MedicationService {
       refillsRemaining: input.refillsRemaining,
       sideEffects: input.sideEffects,
       warnings: input.warnings,
+      isPrn: isPrnOrder(input),
+      prnIndication: input.prnIndication,
+      prnMinIntervalMinutes: input.prnMinIntervalMinutes,
+      prnMaxDosesPerDay: input.prnMaxDosesPerDay,
+      prnFollowUpMinutes: input.prnFollowUpMinutes,
+      controlledSchedule: input.controlledSchedule,
+      countUnit: input.countUnit,
+      // Stock enters the count through receiveControlledStock
+      countOnHand: input.controlledSchedule ? 0 : undefined,
     };
 
-    return this.medicationRepo.create(medication, context);
+    const safety = await this.checkMedicationSafety(input.clientId, input, context);
+    const overrideReason = this.checkSafetyOverride(safety, input.safetyOverrideReason, context);
+
+    return this.database.transaction(async (client) => {
+      const created = await this.medicationRepo.create(medication, context, client);
+      await this.recordSafetyOverrides(created, safety, overrideReason, context, client);
+      return { ...created, safetyAlerts: safety.alerts };
+    });
+  }
+
+  /**
+   * Check a medication order against the client's documented allergies and
+   * active medications without entering it
+   */
+  async checkMedicationSafety(
+    clientId: string,
+    order: MedicationOrderNames,
+    context: UserContext,
+    excludeMedicationId?: string
+  ): Promise<MedicationSafetyCheck> {
+    const allergies = await this.safetyRepo.findDocumentedAllergies(clientId, context.organizationId!);
+    if (!allergies) {
+      throw new NotFoundError('Client not found', { clientId });
+    }
+    const activeMedications = (await this.medicationRepo.findByClientId(clientId, context, 'ACTIVE'))
+      .filter((medication) => medication.id !== excludeMedicationId);
+
+    return checkMedicationSafety(order, allergies, activeMedications, this.drugReference);
+  }
+
+  /**
+   * Get the safety overrides recorded for a client's orders
+   */
+  async getClientSafetyOverrides(clientId: string, context: UserContext): Promise<MedicationSafetyOverride[]> {
+    return this.safetyRepo.findOverridesByClientId(clientId, context);
   }
 
   /**
    * Update an existing medication
+   *
+   * Renaming an order or reactivating it is checked against the client's
+   * allergies and other active medications the same way a new order is.
    */
   async updateMedication(
     medicationId: string,
     input: UpdateMedicationInput,
     context: UserContext
-  ): Promise<Medication> {
+  ): Promise<CreatedMedication> {
     // Validate date changes if provided
     if (input.startDate && input.prescribedDate) {
       const startDate = new Date(input.startDate);
@@ -114,24 +229,149 @@ export class MedicationService {
       refillsRemaining: input.refillsRemaining,
       sideEffects: input.sideEffects,
       warnings: input.warnings,
+      prnIndication: input.prnIndication,
+      prnMinIntervalMinutes: input.prnMinIntervalMinutes,
+      prnMaxDosesPerDay: input.prnMaxDosesPerDay,
+      prnFollowUpMinutes: input.prnFollowUpMinutes,
     };
 
-    return this.medicationRepo.update(medicationId, updates, context);
+    const existing = await this.medicationRepo.findById(medicationId);
+    if (!existing || existing.organizationId !== context.organizationId) {
+      throw new NotFoundError('Medication not found', { medicationId });
+    }
+
+    const order: MedicationOrderNames = {
+      medicationName: input.medicationName ?? existing.medicationName,
+      genericName: input.genericName ?? existing.genericName,
+    };
+    const renamed =
+      order.medicationName !== existing.medicationName || order.genericName !== existing.genericName;
+    const reactivated = input.status === 'ACTIVE' && existing.status !== 'ACTIVE';
+    const status = input.status ?? existing.status;
+
+    const recheck = status === 'ACTIVE' && (renamed || reactivated);
+    const rescheduled = status !== 'ACTIVE' || this.changesSchedule(existing, updates);
+
+    if (!recheck && !rescheduled) {
+      const updated = await this.medicationRepo.update(medicationId, updates, context);
+      return { ...updated, safetyAlerts: [] };
+    }
+
+    const safety = recheck
+      ? await this.checkMedicationSafety(existing.clientId, order, context, existing.id)
+      : undefined;
+    const overrideReason =
+      safety !== undefined ? this.checkSafetyOverride(safety, input.safetyOverrideReason, context) : undefined;
+
+    return this.database.transaction(async (client) => {
+      const updated = await this.medicationRepo.update(medicationId, updates, context, client);
+      // Open doses of the old schedule go; the dose worker materializes the new one
+      if (rescheduled) {
+        await this.scheduledDoseRepo.deleteOpenDoses(medicationId, new Date(), client);
+      }
+      if (safety !== undefined) {
+        await this.recordSafetyOverrides(updated, safety, overrideReason, context, client);
+      }
+      return { ...updated, safetyAlerts: safety?.alerts ?? [] };
+    });
+  }
+
+  /**
+   * Whether an update moves the order's doses: a new frequency, start or end date
+   */
+  private changesSchedule(existing: Medication, updates: Partial<Medication>): boolean {
+    const sameDate = (next: Date | undefined, current: Date | undefined): boolean =>
+      next === undefined || (current !== undefined && new Date(current).getTime() === next.getTime());
+
+    return (
+      (updates.frequency !== undefined && updates.frequency !== existing.frequency) ||
+      !sameDate(updates.startDate, existing.startDate) ||
+      !sameDate(updates.endDate, existing.endDate)
+    );
+  }
+
+  /**
+   * Blocking alerts need a supervisor's override reason; returns the reason
+   *
+   * @throws ValidationError when the order is blocked and no reason is given
+   * @throws PermissionError when someone other than a supervisor overrides
+   */
+  private checkSafetyOverride(
+    safety: MedicationSafetyCheck,
+    reason: string | undefined,
+    context: UserContext
+  ): string | undefined {
+    if (!safety.blocked) {
+      return undefined;
+    }
+
+    const overrideReason = reason?.trim();
+    if (!overrideReason) {
+      throw new ValidationError(
+        'Medication order conflicts with the client\'s allergies or active medications',
+        { alerts: safety.alerts, referenceVersion: safety.referenceVersion }
+      );
+    }
+    if (!context.roles.some((role) => SUPERVISOR_ROLES.includes(role))) {
+      throw new PermissionError('Only coordinators and administrators can override medication safety alerts', {
+        userId: context.userId,
+      });
+    }
+    return overrideReason;
   }
 
   /**
-   * Discontinue a medication (soft status change)
+   * Record each overridden alert against the order
+   */
+  private async recordSafetyOverrides(
+    medication: Medication,
+    safety: MedicationSafetyCheck,
+    overrideReason: string | undefined,
+    context: UserContext,
+    client: TransactionClient
+  ): Promise<void> {
+    if (overrideReason === undefined) {
+      return;
+    }
+
+    await this.safetyRepo.createOverrides(
+      safety.alerts.map((alert) => ({
+        organizationId: medication.organizationId,
+        clientId: medication.clientId,
+        medicationId: medication.id,
+        alertType: alert.type,
+        alertSeverity: alert.severity,
+        message: alert.message,
+        allergen: alert.allergen,
+        conflictingMedicationId: alert.conflictingMedicationId,
+        drugClass: alert.drugClass,
+        reason: overrideReason,
+        referenceVersion: safety.referenceVersion,
+        overriddenBy: context.userId,
+      })),
+      client
+    );
+  }
+
+  /**
+   * Discontinue a medication (soft status change). Its open future doses are
+   * removed so they are neither given nor reported missed.
    */
   async discontinueMedication(
     medicationId: string,
     context: UserContext
   ): Promise<Medication> {
     const now = new Date();
-    return this.medicationRepo.update(
-      medicationId,
-      { status: 'DISCONTINUED', endDate: now },
-      context
-    );
+    return this.database.transaction(async (client) => {
+      const medication = await this.medicationRepo.update(
+        medicationId,
+        { status: 'DISCONTINUED', endDate: now },
+        context,
+        client
+      );
+      await this.scheduledDoseRepo.deleteOpenDoses(medicationId, now, client);
+      return medication;
+    });
   }
 
   /**
@@ -204,7 +444,287 @@ export class MedicationService {
       throw new Error('Hold reason is required when status is HELD');
     }
 
-    return this.administrationRepo.create(input, context);
+    const administration: NewMedicationAdministration = { ...input };
+    if (medication.isPrn && input.status === 'GIVEN') {
+      await this.checkPrnDose(medication, input, administeredAt, context);
+      const followUpMinutes = medication.prnFollowUpMinutes ?? DEFAULT_PRN_FOLLOW_UP_MINUTES;
+      administration.prnFollowUpDueAt = new Date(administeredAt.getTime() + followUpMinutes * MINUTE_MS);
+    }
+
+    const recorded = medication.controlledSchedule
+      ? await this.recordControlledAdministration(medication, administration, context)
+      : await this.administrationRepo.create(administration, context);
+
+    // Close the scheduled dose this administration was given for
+    if (recorded.scheduledFor) {
+      await this.scheduledDoseRepo.markRecorded(
+        recorded.medicationId,
+        new Date(recorded.scheduledFor),
+        recorded.id,
+        recorded.status
+      );
+    }
+
+    return recorded;
+  }
+
+  /**
+   * Record the effectiveness follow-up of a PRN dose
+   */
+  async recordPrnFollowUp(
+    administrationId: string,
+    input: RecordPrnFollowUpInput,
+    context: UserContext
+  ): Promise<MedicationAdministration> {
+    const administration = await this.administrationRepo.findById(administrationId, context);
+    if (!administration) {
+      throw new NotFoundError('Medication administration not found', { administrationId });
+    }
+    if (!administration.prnFollowUpDueAt) {
+      throw new ValidationError('Only PRN doses that were given have an effectiveness follow-up', {
+        administrationId,
+      });
+    }
+
+    const updated = await this.administrationRepo.recordPrnFollowUp(administrationId, input, context);
+    if (!updated) {
+      throw new ValidationError('PRN follow-up has already been recorded', { administrationId });
+    }
+    return updated;
+  }
+
+  /**
+   * Get PRN doses whose effectiveness follow-up is due
+   */
+  async getPendingPrnFollowUps(
+    context: UserContext,
+    clientId?: string
+  ): Promise<MedicationAdministration[]> {
+    return this.administrationRepo.findPendingPrnFollowUps(context, new Date(), clientId);
+  }
+
+  /**
+   * Receive controlled substance stock (delivery or refill) into the count
+   */
+  async receiveControlledStock(
+    medicationId: string,
+    input: ReceiveControlledStockInput,
+    context: UserContext
+  ): Promise<ControlledSubstanceCountEntry> {
+    const medication = await this.getControlledMedication(medicationId, context);
+    if (input.witnessedBy) {
+      this.checkWitness(input.witnessedBy, context);
+    }
+
+    return this.database.transaction(async (client) => {
+      const countOnHand = await this.lockCount(medication, client);
+      return this.controlledSubstanceRepo.appendCountEntry(
+        {
+          organizationId: medication.organizationId,
+          medicationId: medication.id,
+          clientId: medication.clientId,
+          entryType: 'RECEIVED',
+          quantityChange: input.quantity,
+          balanceAfter: roundQuantity(countOnHand + input.quantity),
+          reason: input.notes,
+          recordedBy: context.userId,
+          witnessedBy: input.witnessedBy,
+        },
+        client
+      );
+    });
+  }
+
+  /**
+   * Waste controlled substance stock outside an administration (e.g., a
+   * dropped or contaminated dose)
+   */
+  async recordControlledWaste(
+    medicationId: string,
+    input: RecordControlledWasteInput,
+    context: UserContext
+  ): Promise<ControlledSubstanceCountEntry> {
+    const medication = await this.getControlledMedication(medicationId, context);
+    this.checkWitness(input.witnessedBy, context);
+
+    return this.database.transaction(async (client) => {
+      const countOnHand = await this.lockCount(medication, client);
+      this.checkSufficientCount(medication, countOnHand, input.quantity);
+
+      return this.controlledSubstanceRepo.appendCountEntry(
+        {
+          organizationId: medication.organizationId,
+          medicationId: medication.id,
+          clientId: medication.clientId,
+          entryType: 'WASTED',
+          quantityChange: -input.quantity,
+          balanceAfter: roundQuantity(countOnHand - input.quantity),
+          reason: input.reason,
+          recordedBy: context.userId,
+          witnessedBy: input.witnessedBy,
+        },
+        client
+      );
+    });
+  }
+
+  /**
+   * Get a controlled substance's count ledger, newest first
+   */
+  async getControlledSubstanceLedger(
+    medicationId: string,
+    context: UserContext,
+    limit = 100
+  ): Promise<ControlledSubstanceCountEntry[]> {
+    await this.getControlledMedication(medicationId, context);
+    return this.controlledSubstanceRepo.findCountEntries(medicationId, context, limit);
+  }
+
+  /**
+   * Record the physical count of a client's controlled substances at shift
+   * handoff. The outgoing staff member counts; the incoming one witnesses.
+   * Counts that don't match the running count are flagged as discrepancies
+   * and supervisors are alerted. The running count is left as-is until a
+   * supervisor resolves the discrepancy.
+   */
+  async recordShiftHandoffCount(
+    input: ShiftHandoffCountInput,
+    context: UserContext
+  ): Promise<CountReconciliation[]> {
+    this.checkWitness(input.witnessedBy, context);
+
+    const medications: Medication[] = [];
+    for (const count of input.counts) {
+      const medication = await this.getControlledMedication(count.medicationId, context);
+      if (medication.clientId !== input.clientId) {
+        throw new ValidationError('Client ID does not match medication record', {
+          medicationId: count.medicationId,
+        });
+      }
+      medications.push(medication);
+    }
+
+    const reconciliations = await this.database.transaction(async (client) => {
+      const recorded: CountReconciliation[] = [];
+      for (const [index, medication] of medications.entries()) {
+        const countedQuantity = input.counts[index]!.countedQuantity;
+        const expectedCount = await this.lockCount(medication, client);
+        const discrepancy = roundQuantity(countedQuantity - expectedCount);
+
+        recorded.push(
+          await this.controlledSubstanceRepo.createReconciliation(
+            {
+              organizationId: medication.organizationId,
+              medicationId: medication.id,
+              clientId: medication.clientId,
+              expectedCount,
+              countedQuantity,
+              discrepancy,
+              status: discrepancy === 0 ? 'MATCHED' : 'DISCREPANCY',
+              countedBy: context.userId,
+              witnessedBy: input.witnessedBy,
+              notes: input.notes,
+            },
+            client
+          )
+        );
+      }
+      return recorded;
+    });
+
+    for (const reconciliation of reconciliations) {
+      if (reconciliation.status === 'DISCREPANCY') {
+        const medication = medications.find((m) => m.id === reconciliation.medicationId)!;
+        const alerted = await this.alertCountDiscrepancy(reconciliation, medication);
+        if (alerted) {
+          reconciliation.alertedAt = new Date();
+          await this.controlledSubstanceRepo.markAlerted(reconciliation.id, reconciliation.alertedAt);
+        }
+      }
+    }
+
+    return reconciliations;
+  }
+
+  /**
+   * Get count discrepancies awaiting supervisor review
+   */
+  async getOpenCountDiscrepancies(
+    context: UserContext,
+    clientId?: string
+  ): Promise<CountReconciliation[]> {
+    return this.controlledSubstanceRepo.findOpenDiscrepancies(context, clientId);
+  }
+
+  /**
+   * Resolve a count discrepancy (supervisors only). With adjustCount, the
+   * running count is corrected by the discrepancy through an ADJUSTED ledger
+   * entry.
+   */
+  async resolveCountDiscrepancy(
+    reconciliationId: string,
+    input: ResolveCountDiscrepancyInput,
+    context: UserContext
+  ): Promise<CountReconciliation> {
+    if (!context.roles.some((role) => SUPERVISOR_ROLES.includes(role))) {
+      throw new PermissionError('Only coordinators and administrators can resolve count discrepancies', {
+        userId: context.userId,
+      });
+    }
+
+    const reconciliation = await this.controlledSubstanceRepo.findReconciliationById(reconciliationId, context);
+    if (!reconciliation) {
+      throw new NotFoundError('Count reconciliation not found', { reconciliationId });
+    }
+    if (reconciliation.status !== 'DISCREPANCY') {
+      throw new ValidationError(`Cannot resolve a reconciliation with status: ${reconciliation.status}`, {
+        reconciliationId,
+      });
+    }
+
+    return this.database.transaction(async (client) => {
+      if (input.adjustCount === true) {
+        const countOnHand = (await this.controlledSubstanceRepo.lockCount(reconciliation.medicationId, client)) ?? 0;
+        // Apply the difference found at handoff; doses recorded since then still count
+        const balanceAfter = roundQuantity(countOnHand + reconciliation.discrepancy);
+        if (balanceAfter < 0) {
+          throw new ValidationError('Adjustment would make the count negative', {
+            reconciliationId,
+            countOnHand,
+            discrepancy: reconciliation.discrepancy,
+          });
+        }
+
+        await this.controlledSubstanceRepo.appendCountEntry(
+          {
+            organizationId: reconciliation.organizationId,
+            medicationId: reconciliation.medicationId,
+            clientId: reconciliation.clientId,
+            entryType: 'ADJUSTED',
+            quantityChange: reconciliation.discrepancy,
+            balanceAfter,
+            reconciliationId,
+            reason: input.resolutionNotes,
+            recordedBy: context.userId,
+          },
+          client
+        );
+      }
+
+      const resolved = await this.controlledSubstanceRepo.resolveReconciliation(
+        reconciliationId,
+        {
+          resolvedBy: context.userId,
+          resolutionNotes: input.resolutionNotes,
+          countAdjusted: input.adjustCount === true,
+        },
+        client
+      );
+      if (!resolved) {
+        throw new ValidationError('Count discrepancy has already been resolved', { reconciliationId });
+      }
+      return resolved;
+    });
   }
 
   /**
@@ -278,4 +798,222 @@ export class MedicationService {
       context
     );
   }
+
+  /**
+   * Enforce a PRN order's reason, minimum interval and daily maximum
+   */
+  private async checkPrnDose(
+    medication: Medication,
+    input: RecordAdministrationInput,
+    administeredAt: Date,
+    context: UserContext
+  ): Promise<void> {
+    if (!input.prnReason) {
+      throw new ValidationError('PRN reason is required when giving a PRN medication', {
+        medicationId: medication.id,
+      });
+    }
+
+    if (medication.prnMinIntervalMinutes !== undefined) {
+      const last = await this.administrationRepo.getLastAdministration(medication.id, context);
+      if (last) {
+        const nextAllowedAt = new Date(
+          new Date(last.administeredAt).getTime() + medication.prnMinIntervalMinutes * MINUTE_MS
+        );
+        if (administeredAt < nextAllowedAt) {
+          throw new ValidationError(
+            `PRN doses must be at least ${medication.prnMinIntervalMinutes} minutes apart`,
+            { medicationId: medication.id, lastAdministeredAt: last.administeredAt, nextAllowedAt }
+          );
+        }
+      }
+    }
+
+    if (medication.prnMaxDosesPerDay !== undefined) {
+      const since = new Date(administeredAt.getTime() - DAY_MS);
+      const dosesGiven = await this.administrationRepo.countGivenSince(medication.id, since, context);
+      if (dosesGiven >= medication.prnMaxDosesPerDay) {
+        throw new ValidationError(
+          `Maximum of ${medication.prnMaxDosesPerDay} PRN doses in 24 hours reached`,
+          { medicationId: medication.id, dosesGiven }
+        );
+      }
+    }
+  }
+
+  /**
+   * Record an administration of a controlled substance together with its
+   * count ledger entries, holding the count lock throughout
+   */
+  private async recordControlledAdministration(
+    medication: Medication,
+    input: NewMedicationAdministration,
+    context: UserContext
+  ): Promise<MedicationAdministration> {
+    const quantityGiven = input.status === 'GIVEN' ? input.quantityGiven : undefined;
+    if (input.status === 'GIVEN' && quantityGiven === undefined) {
+      throw new ValidationError('Quantity given is required for controlled substances', {
+        medicationId: medication.id,
+      });
+    }
+    if (input.status !== 'GIVEN' && input.quantityGiven !== undefined) {
+      throw new ValidationError('Quantity given can only be recorded when status is GIVEN', {
+        medicationId: medication.id,
+      });
+    }
+    // Schedule II drugs have the highest abuse potential: every dose is witnessed
+    if (medication.controlledSchedule === 'II' && input.status === 'GIVEN') {
+      if (!input.witnessedBy) {
+        throw new ValidationError('A witness is required to give a Schedule II controlled substance', {
+          medicationId: medication.id,
+        });
+      }
+      this.checkWitness(input.witnessedBy, context);
+    }
+    if (input.quantityWasted !== undefined) {
+      if (!input.wasteReason || !input.wasteWitnessedBy) {
+        throw new ValidationError('Waste reason and witness are required when quantity is wasted', {
+          medicationId: medication.id,
+        });
+      }
+      this.checkWitness(input.wasteWitnessedBy, context);
+    }
+
+    return this.database.transaction(async (client) => {
+      const countOnHand = await this.lockCount(medication, client);
+      const given = quantityGiven ?? 0;
+      const wasted = input.quantityWasted ?? 0;
+      this.checkSufficientCount(medication, countOnHand, given + wasted);
+
+      const afterGiven = roundQuantity(countOnHand - given);
+      const countAfter = roundQuantity(afterGiven - wasted);
+      const administration = await this.administrationRepo.create({ ...input, countAfter }, context, client);
+
+      const entry = {
+        organizationId: medication.organizationId,
+        medicationId: medication.id,
+        clientId: medication.clientId,
+        administrationId: administration.id,
+        recordedBy: context.userId,
+      };
+      if (given > 0) {
+        await this.controlledSubstanceRepo.appendCountEntry(
+          {
+            ...entry,
+            entryType: 'ADMINISTERED',
+            quantityChange: -given,
+            balanceAfter: afterGiven,
+            witnessedBy: input.witnessedBy,
+          },
+          client
+        );
+      }
+      if (wasted > 0) {
+        await this.controlledSubstanceRepo.appendCountEntry(
+          {
+            ...entry,
+            entryType: 'WASTED',
+            quantityChange: -wasted,
+            balanceAfter: countAfter,
+            reason: input.wasteReason,
+            witnessedBy: input.wasteWitnessedBy,
+          },
+          client
+        );
+      }
+
+      return administration;
+    });
+  }
+
+  /**
+   * Notify supervisors of a count discrepancy. Returns whether anyone was
+   * notified; a failed alert never fails the count itself.
+   */
+  private async alertCountDiscrepancy(
+    reconciliation: CountReconciliation,
+    medication: Medication
+  ): Promise<boolean> {
+    try {
+      const recipients = await this.controlledSubstanceRepo.findUsersByRole(
+        reconciliation.organizationId,
+        DISCREPANCY_ALERT_ROLES
+      );
+      if (recipients.length === 0) {
+        return false;
+      }
+
+      const data = {
+        reconciliationId: reconciliation.id,
+        medicationId: medication.id,
+        medicationName: medication.medicationName,
+        controlledSchedule: medication.controlledSchedule,
+        countUnit: medication.countUnit,
+        expectedCount: reconciliation.expectedCount,
+        countedQuantity: reconciliation.countedQuantity,
+        discrepancy: reconciliation.discrepancy,
+        countedBy: reconciliation.countedBy,
+        witnessedBy: reconciliation.witnessedBy,
+      };
+      const template = NotificationService.getTemplate('CONTROLLED_SUBSTANCE_COUNT_DISCREPANCY', data);
+
+      await this.notificationService.send({
+        eventType: 'CONTROLLED_SUBSTANCE_COUNT_DISCREPANCY',
+        priority: 'URGENT',
+        recipients: recipients.map((r) => ({
+          userId: r.userId,
+          ...(r.email !== '' && { email: r.email }),
+          preferredChannels: ['EMAIL', 'IN_APP'],
+        })),
+        subject: template.subject,
+        message: template.message,
+        data,
+        organizationId: reconciliation.organizationId,
+        relatedEntityType: 'client',
+        relatedEntityId: reconciliation.clientId,
+      });
+      return true;
+    } catch (error) {
+      console.error('[MEDICATION] Failed to send count discrepancy alert:', error);
+      return false;
+    }
+  }
+
+  private async getControlledMedication(medicationId: string, context: UserContext): Promise<Medication> {
+    const medication = await this.medicationRepo.findById(medicationId);
+    if (!medication || medication.organizationId !== context.organizationId) {
+      throw new NotFoundError('Medication not found', { medicationId });
+    }
+    if (!medication.controlledSchedule) {
+      throw new ValidationError('Medication is not a controlled substance', { medicationId });
+    }
+    return medication;
+  }
+
+  private async lockCount(medication: Medication, client: TransactionClient): Promise<number> {
+    const countOnHand = await this.controlledSubstanceRepo.lockCount(medication.id, client);
+    if (countOnHand === null) {
+      throw new NotFoundError('Medication not found', { medicationId: medication.id });
+    }
+    return countOnHand;
+  }
+
+  private checkSufficientCount(medication: Medication, countOnHand: number, quantity: number): void {
+    if (quantity > countOnHand) {
+      const unit = medication.countUnit ? ` ${medication.countUnit}` : '';
+      throw new ValidationError(
+        `Quantity exceeds the count on hand (${countOnHand}${unit}). Reconcile the count before continuing.`,
+        { medicationId: medication.id, countOnHand, quantity }
+      );
+    }
+  }
+
+  /**
+   * Witnesses must be someone other than the person recording
+   */
+  private checkWitness(witnessedBy: string, context: UserContext): void {
+    if (witnessedBy === context.userId) {
+      throw new ValidationError('Witness must be a different staff member', { witnessedBy });
+    }
+  }
 }
@@ -12,4 +12,37 @@ export type {
   UpdateMedicationInput,
   RecordAdministrationInput,
   MedicationWithStatus,
+  ControlledSubstanceSchedule,
+  PrnEffectiveness,
+  ControlledSubstanceCountEntryType,
+  CountReconciliationStatus,
+  ControlledSubstanceCountEntry,
+  CountReconciliation,
+  RecordPrnFollowUpInput,
+  ReceiveControlledStockInput,
+  RecordControlledWasteInput,
+  ShiftHandoffCountInput,
+  ResolveCountDiscrepancyInput,
+  SigCode,
+  ScheduledDoseStatus,
+  ScheduledDose,
+  ClientDoseTimes,
+  SetClientDoseTimesInput,
+  GenerateDoseScheduleInput,
+  DoseScheduleResult,
+  MarGrid,
+  MarGridDose,
+  MissedDoseDetectionResult,
+  MedicationSafetyAlertType,
+  MedicationSafetySeverity,
+  AllergySeverity,
+  DrugClassReference,
+  DrugReferenceEntry,
+  CrossReactivityReference,
+  DrugReference,
+  DocumentedAllergy,
+  MedicationSafetyAlert,
+  MedicationSafetyCheck,
+  CreatedMedication,
+  MedicationSafetyOverride,
 } from './medication.js';
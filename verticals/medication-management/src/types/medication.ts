@@ -8,6 +8,10 @@
  * - State-specific compliance tracking
  * - Medication administration records (MAR)
  * - Refusal and hold tracking
+ * - PRN (as-needed) orders with effectiveness follow-up
+ * - Controlled substance counts, witnessed waste and shift handoff reconciliation
+ * - Scheduled doses expanded from frequency codes and aligned with visits
+ * - Drug-allergy and duplicate-therapy checks on new orders
  */
 
 export type MedicationRoute = 'ORAL' | 'TOPICAL' | 'INJECTION' | 'INHALATION' | 'OTHER';
@@ -16,6 +20,49 @@ export type MedicationStatus = 'ACTIVE' | 'DISCONTINUED' | 'ON_HOLD';
 
 export type AdministrationStatus = 'GIVEN' | 'REFUSED' | 'HELD' | 'MISSED';
 
+/**
+ * DEA controlled substance schedule (Schedule I drugs are not prescribable)
+ */
+export type ControlledSubstanceSchedule = 'II' | 'III' | 'IV' | 'V';
+
+/**
+ * Outcome of a PRN dose, assessed at follow-up
+ */
+export type PrnEffectiveness = 'EFFECTIVE' | 'PARTIALLY_EFFECTIVE' | 'NOT_EFFECTIVE';
+
+export type ControlledSubstanceCountEntryType =
+  | 'RECEIVED' // Stock delivered or refilled
+  | 'ADMINISTERED' // Dose given
+  | 'WASTED' // Witnessed destruction of unused or partial doses
+  | 'ADJUSTED'; // Correction after a reconciled discrepancy
+
+/**
+ * Frequency codes that expand into scheduled doses. Interval orders are keyed
+ * by their interval, e.g. "Q6H".
+ */
+export type SigCode = 'QD' | 'BID' | 'TID' | 'QID' | 'QHS' | 'WEEKLY' | `Q${number}H`;
+
+export type ScheduledDoseStatus = 'SCHEDULED' | AdministrationStatus;
+
+export type MedicationSafetyAlertType =
+  | 'ALLERGY' // The order is, or is in a class named by, a documented allergy
+  | 'ALLERGY_CROSS_REACTIVITY' // The order may cross-react with a documented allergy
+  | 'DUPLICATE_INGREDIENT' // An active order already contains the same ingredient
+  | 'DUPLICATE_THERAPY'; // An active order is in the same therapeutic class
+
+/**
+ * WARNING alerts are shown with the order; BLOCK alerts stop it unless a
+ * supervisor overrides them with a reason
+ */
+export type MedicationSafetySeverity = 'WARNING' | 'BLOCK';
+
+export type AllergySeverity = 'MILD' | 'MODERATE' | 'SEVERE' | 'LIFE_THREATENING';
+
+export type CountReconciliationStatus =
+  | 'MATCHED' // Physical count agreed with the running count
+  | 'DISCREPANCY' // Counts differ, awaiting supervisor review
+  | 'RESOLVED'; // Discrepancy reviewed by a supervisor
+
 /**
  * Medication represents a medication order for a client
  */
@@ -37,6 +84,19 @@ export interface Medication {
   refillsRemaining?: number;
   sideEffects?: string[]; // Common side effects to monitor
   warnings?: string[]; // Important warnings (e.g., "Do not take with grapefruit")
+
+  // PRN (as needed)
+  isPrn: boolean;
+  prnIndication?: string; // What the PRN dose is for, e.g., "Pain above 5/10"
+  prnMinIntervalMinutes?: number; // Minimum time between doses
+  prnMaxDosesPerDay?: number; // Maximum doses in any 24 hours
+  prnFollowUpMinutes?: number; // When to assess effectiveness after a dose
+
+  // Controlled substances
+  controlledSchedule?: ControlledSubstanceSchedule;
+  countUnit?: string; // Unit counted on hand, e.g., "tablet", "ml"
+  countOnHand?: number; // Running count, maintained from the count ledger
+
   createdAt: Date;
   updatedAt: Date;
   createdBy: string; // User ID
@@ -52,7 +112,7 @@ export interface MedicationAdministration {
   organizationId: string;
   medicationId: string;
   clientId: string;
-  administeredBy: string; // User ID of caregiver
+  administeredBy?: string; // User ID of caregiver; absent when the system recorded the dose as missed
   administeredAt: Date; // Administration timestamp
   scheduledFor?: Date; // Scheduled timestamp (if scheduled)
   dosageGiven: string; // Actual dosage administered
@@ -62,10 +122,268 @@ export interface MedicationAdministration {
   refusalReason?: string; // If status = REFUSED
   holdReason?: string; // If status = HELD
   witnessedBy?: string; // User ID (for controlled substances)
+
+  // PRN doses
+  prnReason?: string; // Why the as-needed dose was given
+  prnFollowUpDueAt?: Date;
+  prnEffectiveness?: PrnEffectiveness;
+  prnFollowUpNotes?: string;
+  prnFollowUpAt?: Date;
+  prnFollowUpBy?: string; // User ID
+
+  // Controlled substances (quantities in the medication's count unit)
+  quantityGiven?: number;
+  quantityWasted?: number;
+  wasteReason?: string;
+  wasteWitnessedBy?: string; // User ID
+  countAfter?: number; // Count on hand after this administration
+
   createdAt: Date;
   updatedAt: Date;
 }
 
+/**
+ * ControlledSubstanceCountEntry is one line of a controlled substance's
+ * count ledger. Entries are immutable; the medication's count on hand is the
+ * balance after the latest entry.
+ */
+export interface ControlledSubstanceCountEntry {
+  id: string;
+  organizationId: string;
+  medicationId: string;
+  clientId: string;
+  entryType: ControlledSubstanceCountEntryType;
+  quantityChange: number; // Positive for stock in, negative for stock out
+  balanceAfter: number;
+  administrationId?: string;
+  reconciliationId?: string;
+  reason?: string;
+  recordedBy: string; // User ID
+  witnessedBy?: string; // User ID
+  recordedAt: Date;
+}
+
+/**
+ * CountReconciliation records a physical count of a controlled substance at
+ * shift handoff, counted by the outgoing staff member and witnessed by the
+ * incoming one
+ */
+export interface CountReconciliation {
+  id: string;
+  organizationId: string;
+  medicationId: string;
+  clientId: string;
+  expectedCount: number; // Running count at the time of the handoff
+  countedQuantity: number; // Physical count
+  discrepancy: number; // countedQuantity - expectedCount
+  status: CountReconciliationStatus;
+  countedBy: string; // Outgoing user ID
+  witnessedBy: string; // Incoming user ID
+  countedAt: Date;
+  notes?: string;
+  alertedAt?: Date; // When supervisors were notified of the discrepancy
+  resolvedBy?: string;
+  resolvedAt?: Date;
+  resolutionNotes?: string;
+  countAdjusted?: boolean; // Whether resolution set the running count to the physical count
+}
+
+/**
+ * ScheduledDose is one expected administration on the MAR
+ */
+export interface ScheduledDose {
+  id: string;
+  organizationId: string;
+  clientId: string;
+  medicationId: string;
+  scheduledFor: Date;
+  originalScheduledFor?: Date; // Time from the frequency, when moved into a visit
+  visitId?: string; // Visit the dose falls in; absent when no visit covers it
+  status: ScheduledDoseStatus;
+  administrationId?: string;
+  missedAlertedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Client-specific local dose times for a frequency code
+ */
+export interface ClientDoseTimes {
+  id: string;
+  organizationId: string;
+  clientId: string;
+  sigCode: SigCode;
+  times: string[]; // HH:MM in the client's timezone; the first dose for interval codes
+  createdAt: Date;
+  createdBy: string;
+  updatedAt: Date;
+  updatedBy: string;
+}
+
+/**
+ * Input type for a client's dose times for a frequency code
+ */
+export interface SetClientDoseTimesInput {
+  sigCode: string; // QD, BID, TID, QID, QHS, WEEKLY or Q<hours>H
+  times: string[];
+}
+
+/**
+ * Input type for materializing a client's scheduled doses
+ */
+export interface GenerateDoseScheduleInput {
+  startDate: string; // YYYY-MM-DD in the client's timezone
+  days?: number;
+}
+
+/**
+ * Outcome of materializing a client's scheduled doses
+ */
+export interface DoseScheduleResult {
+  clientId: string;
+  timezone: string;
+  dosesScheduled: number; // Open doses in the range after materializing
+  uncoveredDoses: number; // Doses no visit covers
+  unscheduledMedications: Array<{ medicationId: string; frequency: string }>; // Frequencies the sig parser doesn't recognize
+}
+
+/**
+ * One cell of the MAR grid
+ */
+export interface MarGridDose {
+  scheduledDoseId: string;
+  scheduledFor: Date;
+  localTime: string; // HH:MM in the client's timezone
+  status: ScheduledDoseStatus;
+  visitId?: string;
+  administration?: MedicationAdministration;
+}
+
+/**
+ * MAR grid for one client on one day: a row per active medication
+ */
+export interface MarGrid {
+  clientId: string;
+  date: string; // YYYY-MM-DD
+  timezone: string;
+  rows: Array<{
+    medication: Medication;
+    doses: MarGridDose[];
+    prnAdministrations: MedicationAdministration[];
+  }>;
+}
+
+/**
+ * Outcome of a missed-dose detection pass
+ */
+export interface MissedDoseDetectionResult {
+  detected: number;
+  notified: number;
+}
+
+/**
+ * Drug class in the drug reference
+ */
+export interface DrugClassReference {
+  code: string; // e.g., "PENICILLIN"
+  name: string;
+  aliases?: string[]; // How allergies to the whole class are written, e.g., "PCN", "sulfa"
+  allergySeverity: MedicationSafetySeverity; // An allergy to one member, when ordering another
+  duplicateTherapy: boolean; // Whether two active orders in the class are flagged
+}
+
+/**
+ * Drug in the drug reference
+ */
+export interface DrugReferenceEntry {
+  name: string; // Generic name
+  brandNames?: string[];
+  ingredients?: string[]; // Active ingredients of combination products; defaults to the name
+  classes: string[]; // Drug class codes
+}
+
+/**
+ * Known cross-reactivity between drug classes
+ */
+export interface CrossReactivityReference {
+  allergyClass: string; // Class of the documented allergy
+  drugClass: string; // Class of the ordered drug
+  severity: MedicationSafetySeverity;
+  note: string;
+}
+
+/**
+ * Local reference dataset for medication safety checks. Replaceable as a
+ * whole; the version is recorded with every override.
+ */
+export interface DrugReference {
+  version: string;
+  drugClasses: DrugClassReference[];
+  drugs: DrugReferenceEntry[];
+  crossReactivity: CrossReactivityReference[];
+}
+
+/**
+ * Allergy documented for a client, on the client record or the active care plan
+ */
+export interface DocumentedAllergy {
+  allergen: string;
+  reaction?: string;
+  severity?: AllergySeverity;
+  source: 'CLIENT' | 'CARE_PLAN';
+}
+
+/**
+ * Conflict found between a medication order and the client's allergies or
+ * active medications
+ */
+export interface MedicationSafetyAlert {
+  type: MedicationSafetyAlertType;
+  severity: MedicationSafetySeverity;
+  message: string;
+  allergen?: string; // For allergy alerts
+  allergySeverity?: AllergySeverity;
+  conflictingMedicationId?: string; // For duplicate alerts
+  drugClass?: string; // Class code behind the alert
+}
+
+/**
+ * Outcome of checking a medication order
+ */
+export interface MedicationSafetyCheck {
+  referenceVersion: string;
+  recognized: boolean; // Whether the drug is in the reference; unrecognized drugs are only checked by name
+  blocked: boolean; // Whether any alert is BLOCK
+  alerts: MedicationSafetyAlert[];
+}
+
+/**
+ * Medication order with the safety alerts raised when it was entered or changed
+ */
+export type CreatedMedication = Medication & { safetyAlerts: MedicationSafetyAlert[] };
+
+/**
+ * MedicationSafetyOverride is the audit record of an alert accepted when a
+ * blocked order was overridden
+ */
+export interface MedicationSafetyOverride {
+  id: string;
+  organizationId: string;
+  clientId: string;
+  medicationId: string;
+  alertType: MedicationSafetyAlertType;
+  alertSeverity: MedicationSafetySeverity;
+  message: string;
+  allergen?: string;
+  conflictingMedicationId?: string;
+  drugClass?: string;
+  reason: string;
+  referenceVersion: string;
+  overriddenBy: string; // User ID
+  overriddenAt: Date;
+}
+
 /**
  * Input type for creating a new medication order
  */
@@ -85,6 +403,14 @@ export interface CreateMedicationInput {
   refillsRemaining?: number;
   sideEffects?: string[];
   warnings?: string[];
+  isPrn?: boolean;
+  prnIndication?: string;
+  prnMinIntervalMinutes?: number;
+  prnMaxDosesPerDay?: number;
+  prnFollowUpMinutes?: number;
+  controlledSchedule?: ControlledSubstanceSchedule;
+  countUnit?: string;
+  safetyOverrideReason?: string; // Required to enter an order with BLOCK safety alerts
 }
 
 /**
@@ -105,6 +431,11 @@ export interface UpdateMedicationInput {
   refillsRemaining?: number;
   sideEffects?: string[];
   warnings?: string[];
+  prnIndication?: string;
+  prnMinIntervalMinutes?: number;
+  prnMaxDosesPerDay?: number;
+  prnFollowUpMinutes?: number;
+  safetyOverrideReason?: string; // Required to rename or reactivate an order into BLOCK safety alerts
 }
 
 /**
@@ -122,6 +453,59 @@ export interface RecordAdministrationInput {
   refusalReason?: string;
   holdReason?: string;
   witnessedBy?: string;
+  prnReason?: string;
+  quantityGiven?: number;
+  quantityWasted?: number;
+  wasteReason?: string;
+  wasteWitnessedBy?: string;
+}
+
+/**
+ * Input type for recording a PRN effectiveness follow-up
+ */
+export interface RecordPrnFollowUpInput {
+  effectiveness: PrnEffectiveness;
+  notes?: string;
+}
+
+/**
+ * Input type for receiving controlled substance stock
+ */
+export interface ReceiveControlledStockInput {
+  quantity: number;
+  witnessedBy?: string;
+  notes?: string;
+}
+
+/**
+ * Input type for wasting controlled substance stock outside an administration
+ * (e.g., a dropped or contaminated dose)
+ */
+export interface RecordControlledWasteInput {
+  quantity: number;
+  reason: string;
+  witnessedBy: string;
+}
+
+/**
+ * Input type for the controlled substance count at shift handoff
+ */
+export interface ShiftHandoffCountInput {
+  clientId: string;
+  witnessedBy: string; // Incoming staff member
+  counts: Array<{
+    medicationId: string;
+    countedQuantity: number;
+  }>;
+  notes?: string;
+}
+
+/**
+ * Input type for resolving a count discrepancy
+ */
+export interface ResolveCountDiscrepancyInput {
+  resolutionNotes: string;
+  adjustCount?: boolean; // Set the running count to the physical count
 }
 
 /**
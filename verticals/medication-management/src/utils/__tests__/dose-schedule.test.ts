@@ -0,0 +1,139 @@
+/**
+ * Dose Schedule Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { expandDoses, alignDosesToVisits, parseCalendarDate } from '../dose-schedule.js';
+
+const CHICAGO = 'America/Chicago';
+
+function iso(dates: Date[]): string[] {
+  return dates.map((date) => date.toISOString());
+}
+
+describe('dose schedule', () => {
+  describe('expandDoses', () => {
+    it('should keep local dose times across daylight saving changes', () => {
+      const doses = expandDoses({ code: 'BID' }, ['09:00', '21:00'], {
+        from: parseCalendarDate('2025-03-08'),
+        to: parseCalendarDate('2025-03-09'),
+        startDate: parseCalendarDate('2025-01-01'),
+        timezone: CHICAGO,
+      });
+
+      expect(iso(doses)).toEqual([
+        '2025-03-08T15:00:00.000Z', // CST
+        '2025-03-09T03:00:00.000Z',
+        '2025-03-09T14:00:00.000Z', // CDT
+        '2025-03-10T02:00:00.000Z',
+      ]);
+    });
+
+    it('should stay within the order start and end dates', () => {
+      const doses = expandDoses({ code: 'QD' }, ['09:00'], {
+        from: parseCalendarDate('2025-06-01'),
+        to: parseCalendarDate('2025-06-07'),
+        startDate: parseCalendarDate('2025-06-03'),
+        endDate: parseCalendarDate('2025-06-04'),
+        timezone: 'UTC',
+      });
+
+      expect(iso(doses)).toEqual(['2025-06-03T09:00:00.000Z', '2025-06-04T09:00:00.000Z']);
+    });
+
+    it('should run interval orders continuously from the first dose on the start date', () => {
+      const q8h = expandDoses({ code: 'Q8H', intervalHours: 8 }, ['06:00'], {
+        from: parseCalendarDate('2025-06-02'),
+        to: parseCalendarDate('2025-06-02'),
+        startDate: parseCalendarDate('2025-06-01'),
+        timezone: 'UTC',
+      });
+      expect(iso(q8h)).toEqual([
+        '2025-06-02T06:00:00.000Z',
+        '2025-06-02T14:00:00.000Z',
+        '2025-06-02T22:00:00.000Z',
+      ]);
+
+      const q36h = expandDoses({ code: 'Q36H', intervalHours: 36 }, ['08:00'], {
+        from: parseCalendarDate('2025-06-01'),
+        to: parseCalendarDate('2025-06-04'),
+        startDate: parseCalendarDate('2025-06-01'),
+        timezone: 'UTC',
+      });
+      expect(iso(q36h)).toEqual([
+        '2025-06-01T08:00:00.000Z',
+        '2025-06-02T20:00:00.000Z',
+        '2025-06-04T08:00:00.000Z',
+      ]);
+    });
+
+    it('should schedule weekly orders on the named day or the start date weekday', () => {
+      const range = {
+        from: parseCalendarDate('2025-06-01'),
+        to: parseCalendarDate('2025-06-14'),
+        startDate: parseCalendarDate('2025-06-04'), // Wednesday
+        timezone: 'UTC',
+      };
+
+      expect(iso(expandDoses({ code: 'WEEKLY' }, ['09:00'], range))).toEqual([
+        '2025-06-04T09:00:00.000Z',
+        '2025-06-11T09:00:00.000Z',
+      ]);
+      expect(iso(expandDoses({ code: 'WEEKLY', weekday: 1 }, ['09:00'], range))).toEqual([
+        '2025-06-09T09:00:00.000Z',
+      ]);
+    });
+  });
+
+  describe('alignDosesToVisits', () => {
+    const visit = {
+      visitId: 'visit-1',
+      start: new Date('2025-06-02T08:00:00.000Z'),
+      end: new Date('2025-06-02T10:00:00.000Z'),
+    };
+
+    it('should tie doses inside a visit to it', () => {
+      const dose = new Date('2025-06-02T09:00:00.000Z');
+
+      expect(alignDosesToVisits([dose], [visit])).toEqual([{ scheduledFor: dose, visitId: 'visit-1' }]);
+    });
+
+    it('should move a dose just outside a visit to its nearest edge', () => {
+      const early = new Date('2025-06-02T07:15:00.000Z');
+      const late = new Date('2025-06-02T10:45:00.000Z');
+
+      expect(alignDosesToVisits([early], [visit])).toEqual([
+        { scheduledFor: visit.start, originalScheduledFor: early, visitId: 'visit-1' },
+      ]);
+      expect(alignDosesToVisits([late], [visit])).toEqual([
+        { scheduledFor: visit.end, originalScheduledFor: late, visitId: 'visit-1' },
+      ]);
+    });
+
+    it('should leave doses beyond the dose window uncovered', () => {
+      const dose = new Date('2025-06-02T12:00:00.000Z');
+
+      expect(alignDosesToVisits([dose], [visit])).toEqual([{ scheduledFor: dose }]);
+    });
+
+    it('should not move a dose close to its neighbours', () => {
+      // Q2H doses can move at most 30 minutes
+      const doses = [
+        new Date('2025-06-02T05:00:00.000Z'),
+        new Date('2025-06-02T07:00:00.000Z'),
+        new Date('2025-06-02T09:00:00.000Z'),
+      ];
+      const shortVisit = {
+        visitId: 'visit-2',
+        start: new Date('2025-06-02T07:45:00.000Z'),
+        end: new Date('2025-06-02T08:15:00.000Z'),
+      };
+
+      expect(alignDosesToVisits(doses, [shortVisit])).toEqual([
+        { scheduledFor: doses[0] },
+        { scheduledFor: doses[1] },
+        { scheduledFor: doses[2] },
+      ]);
+    });
+  });
+});
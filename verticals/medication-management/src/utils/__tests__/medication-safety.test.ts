@@ -0,0 +1,127 @@
+/**
+ * Medication Safety Check Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { checkMedicationSafety } from '../medication-safety.js';
+import { DEFAULT_DRUG_REFERENCE } from '../../config/drug-reference.js';
+import type { DocumentedAllergy } from '../../types/medication.js';
+
+function allergy(allergen: string, overrides: Partial<DocumentedAllergy> = {}): DocumentedAllergy {
+  return { allergen, severity: 'MODERATE', source: 'CLIENT', ...overrides };
+}
+
+function check(
+  order: { medicationName: string; genericName?: string },
+  allergies: DocumentedAllergy[],
+  active: Array<{ id: string; medicationName: string; genericName?: string }> = []
+) {
+  return checkMedicationSafety(order, allergies, active, DEFAULT_DRUG_REFERENCE);
+}
+
+describe('medication safety checks', () => {
+  describe('allergies', () => {
+    it('should block an order for the allergen itself, by brand or generic name', () => {
+      const result = check({ medicationName: 'Amoxil 500mg capsule' }, [allergy('Amoxicillin', { reaction: 'Hives' })]);
+
+      expect(result.blocked).toBe(true);
+      expect(result.alerts).toEqual([
+        {
+          type: 'ALLERGY',
+          severity: 'BLOCK',
+          message: 'Amoxil 500mg capsule conflicts with documented allergy to Amoxicillin (Hives)',
+          allergen: 'Amoxicillin',
+          allergySeverity: 'MODERATE',
+        },
+      ]);
+    });
+
+    it('should block an order in a class the allergen names', () => {
+      const result = check({ medicationName: 'Augmentin' }, [allergy('PCN')]);
+
+      expect(result.alerts).toMatchObject([{ type: 'ALLERGY', severity: 'BLOCK', drugClass: 'PENICILLIN' }]);
+    });
+
+    it('should block an ingredient of a combination product', () => {
+      const result = check({ medicationName: 'Percocet 5/325' }, [allergy('acetaminophen')]);
+
+      expect(result.alerts).toMatchObject([{ type: 'ALLERGY', severity: 'BLOCK' }]);
+    });
+
+    it('should use the class severity for another member of the allergen class', () => {
+      const penicillin = check({ medicationName: 'Dicloxacillin' }, [allergy('Amoxicillin')]);
+      const nsaid = check({ medicationName: 'Naproxen' }, [allergy('Ibuprofen')]);
+
+      expect(penicillin.alerts).toMatchObject([
+        { type: 'ALLERGY_CROSS_REACTIVITY', severity: 'BLOCK', drugClass: 'PENICILLIN' },
+      ]);
+      expect(nsaid.alerts).toMatchObject([{ type: 'ALLERGY_CROSS_REACTIVITY', severity: 'WARNING', drugClass: 'NSAID' }]);
+      expect(nsaid.blocked).toBe(false);
+    });
+
+    it('should warn about cross-reactive classes', () => {
+      const result = check({ medicationName: 'Keflex' }, [allergy('Penicillin')]);
+
+      expect(result.alerts).toMatchObject([
+        { type: 'ALLERGY_CROSS_REACTIVITY', severity: 'WARNING', drugClass: 'CEPHALOSPORIN' },
+      ]);
+      expect(result.alerts[0]!.message).toContain('Low cross-reactivity with cephalosporins');
+    });
+
+    it('should block cross-reactivity with a life-threatening allergy', () => {
+      const result = check({ medicationName: 'Cephalexin' }, [allergy('Penicillin', { severity: 'LIFE_THREATENING' })]);
+
+      expect(result.alerts).toMatchObject([{ type: 'ALLERGY_CROSS_REACTIVITY', severity: 'BLOCK' }]);
+    });
+
+    it('should check drugs missing from the reference by name', () => {
+      const result = check({ medicationName: 'Zanubrutinib 80mg' }, [allergy('zanubrutinib')]);
+
+      expect(result.recognized).toBe(false);
+      expect(result.alerts).toMatchObject([{ type: 'ALLERGY', severity: 'BLOCK' }]);
+    });
+
+    it('should ignore allergies unrelated to the order', () => {
+      const result = check({ medicationName: 'Lisinopril 10mg' }, [allergy('Penicillin'), allergy('Shellfish')]);
+
+      expect(result).toEqual({ referenceVersion: DEFAULT_DRUG_REFERENCE.version, recognized: true, blocked: false, alerts: [] });
+    });
+  });
+
+  describe('duplicate therapy', () => {
+    it('should block a second order with the same ingredient', () => {
+      const result = check({ medicationName: 'Tylenol 500mg' }, [], [
+        { id: 'med-1', medicationName: 'Norco 5/325' },
+      ]);
+
+      expect(result.alerts).toEqual([
+        {
+          type: 'DUPLICATE_INGREDIENT',
+          severity: 'BLOCK',
+          message: 'Norco 5/325 is already active and also contains acetaminophen',
+          conflictingMedicationId: 'med-1',
+        },
+      ]);
+    });
+
+    it('should warn about a second order in a duplicate therapy class', () => {
+      const result = check({ medicationName: 'Sertraline 50mg' }, [], [
+        { id: 'med-1', medicationName: 'Lexapro', genericName: 'escitalopram' },
+        { id: 'med-2', medicationName: 'Metoprolol' },
+      ]);
+
+      expect(result.blocked).toBe(false);
+      expect(result.alerts).toMatchObject([
+        { type: 'DUPLICATE_THERAPY', severity: 'WARNING', conflictingMedicationId: 'med-1', drugClass: 'SSRI' },
+      ]);
+    });
+
+    it('should compare unrecognized drugs without strength or dose form', () => {
+      const result = check({ medicationName: 'Zanubrutinib 160mg capsule' }, [], [
+        { id: 'med-1', medicationName: 'Zanubrutinib 80mg' },
+      ]);
+
+      expect(result.alerts).toMatchObject([{ type: 'DUPLICATE_INGREDIENT', conflictingMedicationId: 'med-1' }]);
+    });
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Sig Parser Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseSig, parseSigCode, expectedTimeCount, resolveDoseTimes } from '../sig-parser.js';
+
+describe('sig parser', () => {
+  describe('parseSig', () => {
+    it('should parse fixed-time codes and their spelled-out forms', () => {
+      expect(parseSig('QD')).toEqual({ code: 'QD' });
+      expect(parseSig('q.d.')).toEqual({ code: 'QD' });
+      expect(parseSig('Once daily')).toEqual({ code: 'QD' });
+      expect(parseSig('BID')).toEqual({ code: 'BID' });
+      expect(parseSig('b.i.d.')).toEqual({ code: 'BID' });
+      expect(parseSig('twice a day')).toEqual({ code: 'BID' });
+      expect(parseSig('TID')).toEqual({ code: 'TID' });
+      expect(parseSig('QID')).toEqual({ code: 'QID' });
+      expect(parseSig('four times daily')).toEqual({ code: 'QID' });
+      expect(parseSig('QHS')).toEqual({ code: 'QHS' });
+      expect(parseSig('at bedtime')).toEqual({ code: 'QHS' });
+    });
+
+    it('should parse interval codes', () => {
+      expect(parseSig('Q6H')).toEqual({ code: 'Q6H', intervalHours: 6 });
+      expect(parseSig('q 8 h')).toEqual({ code: 'Q8H', intervalHours: 8 });
+      expect(parseSig('Q12HRS')).toEqual({ code: 'Q12H', intervalHours: 12 });
+      expect(parseSig('every 4 hours')).toEqual({ code: 'Q4H', intervalHours: 4 });
+      expect(parseSig('Q72H')).toEqual({ code: 'Q72H', intervalHours: 72 });
+    });
+
+    it('should parse weekly codes with an optional day', () => {
+      expect(parseSig('weekly')).toEqual({ code: 'WEEKLY' });
+      expect(parseSig('QW')).toEqual({ code: 'WEEKLY' });
+      expect(parseSig('once weekly on Monday')).toEqual({ code: 'WEEKLY', weekday: 1 });
+      expect(parseSig('QW SAT')).toEqual({ code: 'WEEKLY', weekday: 6 });
+      expect(parseSig('every Sunday')).toEqual({ code: 'WEEKLY', weekday: 0 });
+    });
+
+    it('should not schedule PRN orders or unrecognized frequencies', () => {
+      expect(parseSig('PRN')).toBeNull();
+      expect(parseSig('Q4H PRN')).toBeNull();
+      expect(parseSig('BID as needed')).toBeNull();
+      expect(parseSig('Q0H')).toBeNull();
+      expect(parseSig('Q96H')).toBeNull();
+      expect(parseSig('weekly on Funday')).toBeNull();
+      expect(parseSig('with meals')).toBeNull();
+    });
+  });
+
+  describe('parseSigCode', () => {
+    it('should accept only the codes dose times are stored under', () => {
+      expect(parseSigCode('BID')).toEqual({ code: 'BID' });
+      expect(parseSigCode('Q6H')).toEqual({ code: 'Q6H', intervalHours: 6 });
+      expect(parseSigCode('WEEKLY')).toEqual({ code: 'WEEKLY' });
+      expect(parseSigCode('twice daily')).toBeNull();
+      expect(parseSigCode('QW MON')).toBeNull();
+    });
+  });
+
+  describe('resolveDoseTimes', () => {
+    it('should use default times without client times', () => {
+      expect(resolveDoseTimes({ code: 'BID' })).toEqual(['09:00', '21:00']);
+      expect(resolveDoseTimes({ code: 'QID' })).toEqual(['09:00', '13:00', '17:00', '21:00']);
+      expect(resolveDoseTimes({ code: 'Q6H', intervalHours: 6 })).toEqual(['06:00']);
+    });
+
+    it('should use client times in time order', () => {
+      expect(resolveDoseTimes({ code: 'BID' }, ['22:00', '10:00'])).toEqual(['10:00', '22:00']);
+      expect(resolveDoseTimes({ code: 'Q8H', intervalHours: 8 }, ['07:30'])).toEqual(['07:30']);
+    });
+
+    it('should ignore client times that do not fit the code', () => {
+      expect(resolveDoseTimes({ code: 'TID' }, ['08:00', '20:00'])).toEqual(['09:00', '14:00', '21:00']);
+    });
+
+    it('should take one first-dose time for interval codes', () => {
+      expect(expectedTimeCount({ code: 'Q4H', intervalHours: 4 })).toBe(1);
+      expect(expectedTimeCount({ code: 'TID' })).toBe(3);
+    });
+  });
+});
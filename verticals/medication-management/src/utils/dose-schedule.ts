@@ -0,0 +1,268 @@
+/**
+ * Dose schedule expansion and visit alignment
+ *
+ * Expands a parsed sig into dose instants over a range of days. Days are
+ * walked on the client's local calendar and each dose time is converted to a
+ * UTC instant with Intl, so a 09:00 dose stays at 09:00 across daylight
+ * saving changes. Interval orders (Q6H) run continuously from the order's
+ * start date at the first dose time, so Q8H at 06:00 gives 06:00, 14:00 and
+ * 22:00, and Q36H alternates between morning and evening.
+ *
+ * Home care clients only have a caregiver during visits, so doses are then
+ * aligned with the client's visits: a dose inside a visit is tied to it, and
+ * a dose just outside one is moved to the visit's nearest edge when the move
+ * is small enough not to crowd the neighbouring doses.
+ */
+
+import type { ParsedSig } from './sig-parser.js';
+import { timeToMinutes } from './sig-parser.js';
+
+export interface CalendarDate {
+  year: number;
+  month: number; // 1-12
+  day: number;
+}
+
+export interface DoseExpansionOptions {
+  /** First local date of the range */
+  from: CalendarDate;
+  /** Last local date of the range (inclusive) */
+  to: CalendarDate;
+  /** Order start date; interval and weekly orders are anchored here */
+  startDate: CalendarDate;
+  /** Order end date (inclusive) */
+  endDate?: CalendarDate;
+  timezone: string;
+}
+
+export interface VisitWindow {
+  visitId: string;
+  start: Date;
+  end: Date;
+}
+
+export interface AlignedDose {
+  scheduledFor: Date;
+  originalScheduledFor?: Date; // Set when the dose was moved into a visit
+  visitId?: string;
+}
+
+/**
+ * A dose may be given up to an hour either side of its scheduled time. This
+ * bounds how far a dose moves into a visit and when an unrecorded dose is
+ * missed.
+ */
+export const DOSE_WINDOW_MINUTES = 60;
+
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+const MINUTES_PER_DAY = 24 * 60;
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = MINUTES_PER_DAY * MINUTE_MS;
+
+/**
+ * Expand an order's dose times into dose instants, in time order
+ */
+export function expandDoses(sig: ParsedSig, times: string[], options: DoseExpansionOptions): Date[] {
+  const first = compareDates(options.from, options.startDate) < 0 ? options.startDate : options.from;
+  const last =
+    options.endDate !== undefined && compareDates(options.endDate, options.to) < 0 ? options.endDate : options.to;
+
+  const doses = new Map<number, Date>();
+  for (let date = first; compareDates(date, last) <= 0; date = addDays(date, 1)) {
+    for (const minutes of doseMinutesOn(sig, times, date, options.startDate)) {
+      const dose = zonedTimeToUtc(date, Math.floor(minutes / 60), minutes % 60, options.timezone);
+      // A time skipped by daylight saving can land on another dose
+      doses.set(dose.getTime(), dose);
+    }
+  }
+
+  return [...doses.values()].sort((a, b) => a.getTime() - b.getTime());
+}
+
+/**
+ * Align one order's doses (in time order) with the client's visits
+ */
+export function alignDosesToVisits(
+  doses: Date[],
+  visits: VisitWindow[],
+  maxShiftMinutes = DOSE_WINDOW_MINUTES
+): AlignedDose[] {
+  const sortedVisits = [...visits].sort((a, b) => a.start.getTime() - b.start.getTime());
+
+  return doses.map((dose, index) => {
+    const time = dose.getTime();
+    const covering = sortedVisits.find((visit) => visit.start.getTime() <= time && time <= visit.end.getTime());
+    if (covering !== undefined) {
+      return { scheduledFor: dose, visitId: covering.visitId };
+    }
+
+    // Moving a dose by more than a quarter of the gap to its neighbours would
+    // leave two doses too close together
+    const previousGap = index > 0 ? time - doses[index - 1]!.getTime() : Infinity;
+    const nextGap = index < doses.length - 1 ? doses[index + 1]!.getTime() - time : Infinity;
+    const maxShift = Math.min(maxShiftMinutes * MINUTE_MS, previousGap / 4, nextGap / 4);
+
+    let best: { visit: VisitWindow; edge: number; shift: number } | null = null;
+    for (const visit of sortedVisits) {
+      const edge = time < visit.start.getTime() ? visit.start.getTime() : visit.end.getTime();
+      const shift = Math.abs(edge - time);
+      if (shift <= maxShift && (best === null || shift < best.shift)) {
+        best = { visit, edge, shift };
+      }
+    }
+
+    if (best === null) {
+      return { scheduledFor: dose };
+    }
+    return { scheduledFor: new Date(best.edge), originalScheduledFor: dose, visitId: best.visit.visitId };
+  });
+}
+
+/**
+ * Local minutes after midnight at which doses fall on a date
+ */
+function doseMinutesOn(sig: ParsedSig, times: string[], date: CalendarDate, startDate: CalendarDate): number[] {
+  if (sig.intervalHours !== undefined) {
+    const step = sig.intervalHours * 60;
+    const anchor = timeToMinutes(times[0]!);
+    const dayStart = daysBetween(startDate, date) * MINUTES_PER_DAY;
+
+    const minutes: number[] = [];
+    for (
+      let offset = anchor + Math.max(0, Math.ceil((dayStart - anchor) / step)) * step;
+      offset < dayStart + MINUTES_PER_DAY;
+      offset += step
+    ) {
+      if (offset >= dayStart) {
+        minutes.push(offset - dayStart);
+      }
+    }
+    return minutes;
+  }
+
+  if (sig.code === 'WEEKLY' && weekdayOf(date) !== (sig.weekday ?? weekdayOf(startDate))) {
+    return [];
+  }
+
+  return times.map(timeToMinutes);
+}
+
+/**
+ * Calendar arithmetic
+ */
+
+export function parseCalendarDate(value: string): CalendarDate {
+  const match = DATE_PATTERN.exec(value);
+  if (match === null) {
+    throw new Error(`Invalid date: ${value}. Use YYYY-MM-DD`);
+  }
+  return { year: Number(match[1]), month: Number(match[2]), day: Number(match[3]) };
+}
+
+export function formatCalendarDate(date: CalendarDate): string {
+  return `${date.year}-${pad(date.month)}-${pad(date.day)}`;
+}
+
+/**
+ * Calendar date of a date-only value. Dates read from DATE columns and
+ * YYYY-MM-DD strings are UTC midnight, so the UTC fields carry the day.
+ */
+export function toCalendarDate(date: Date): CalendarDate {
+  return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+}
+
+export function compareDates(a: CalendarDate, b: CalendarDate): number {
+  return (a.year - b.year) * 10000 + (a.month - b.month) * 100 + (a.day - b.day);
+}
+
+export function addDays(date: CalendarDate, days: number): CalendarDate {
+  return toCalendarDate(new Date(Date.UTC(date.year, date.month - 1, date.day + days)));
+}
+
+function weekdayOf(date: CalendarDate): number {
+  return new Date(Date.UTC(date.year, date.month - 1, date.day)).getUTCDay();
+}
+
+function daysBetween(a: CalendarDate, b: CalendarDate): number {
+  return Math.round(
+    (Date.UTC(b.year, b.month - 1, b.day) - Date.UTC(a.year, a.month - 1, a.day)) / DAY_MS
+  );
+}
+
+/**
+ * Timezones
+ */
+
+/**
+ * Check that a timezone is a valid IANA identifier
+ */
+export function isValidTimeZone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Local calendar date and wall-clock time of an instant in a timezone
+ */
+export function getZonedDateTime(
+  date: Date,
+  timezone: string
+): CalendarDate & { hour: number; minute: number } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+
+  const value = (type: Intl.DateTimeFormatPartTypes): number =>
+    Number(parts.find((part) => part.type === type)?.value ?? 0);
+
+  return {
+    year: value('year'),
+    month: value('month'),
+    day: value('day'),
+    hour: value('hour'),
+    minute: value('minute'),
+  };
+}
+
+/**
+ * UTC instant of a local wall-clock time
+ *
+ * Times skipped by a spring-forward transition move forward by the gap
+ * (02:30 becomes 03:30); repeated fall-back times use the first occurrence.
+ */
+export function zonedTimeToUtc(date: CalendarDate, hour: number, minute: number, timezone: string): Date {
+  const wallClock = Date.UTC(date.year, date.month - 1, date.day, hour, minute);
+  const offsetAt = (instant: Date): number => {
+    const local = getZonedDateTime(instant, timezone);
+    const asUtc = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute);
+    return asUtc - (instant.getTime() - (instant.getTime() % MINUTE_MS));
+  };
+
+  const firstGuess = new Date(wallClock - offsetAt(new Date(wallClock)));
+  const adjusted = new Date(wallClock - offsetAt(firstGuess));
+
+  const resolved = getZonedDateTime(adjusted, timezone);
+  return resolved.hour === hour && resolved.minute === minute ? adjusted : firstGuess;
+}
+
+/**
+ * Local HH:MM of an instant in a timezone
+ */
+export function formatLocalTime(date: Date, timezone: string): string {
+  const local = getZonedDateTime(date, timezone);
+  return `${pad(local.hour)}:${pad(local.minute)}`;
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
@@ -0,0 +1,291 @@
+/**
+ * Medication safety checks
+ *
+ * Checks a medication order against the client's documented allergies and
+ * active medications using a local DrugReference, with no outside service.
+ *
+ * Names are matched on whole words after lowercasing and dropping
+ * punctuation, so "Amoxicillin 500mg cap" is amoxicillin and "Tylenol with
+ * Codeine" is the combination product rather than acetaminophen alone. When
+ * several reference names match, the longest wins. Allergens are resolved
+ * the same way, and may also name a whole class ("PCN", "sulfa").
+ *
+ * Alerts, at most one per allergy and per active medication:
+ * - ALLERGY (BLOCK): the order shares an ingredient with the allergen, is in
+ *   a class the allergen names, or its name contains the allergen
+ * - ALLERGY_CROSS_REACTIVITY: the order is in the allergen's class, or in a
+ *   class known to cross-react with it. Severity comes from the reference
+ *   and a life-threatening allergy always blocks.
+ * - DUPLICATE_INGREDIENT (BLOCK): an active order shares an ingredient
+ * - DUPLICATE_THERAPY (WARNING): an active order is in a class flagged for
+ *   duplicate therapy
+ */
+
+import type {
+  DocumentedAllergy,
+  DrugClassReference,
+  DrugReference,
+  DrugReferenceEntry,
+  Medication,
+  MedicationSafetyAlert,
+  MedicationSafetyCheck,
+} from '../types/medication.js';
+
+export type MedicationOrderNames = Pick<Medication, 'medicationName' | 'genericName'>;
+
+export type ActiveMedicationNames = Pick<Medication, 'id' | 'medicationName' | 'genericName'>;
+
+interface DrugIndex {
+  classes: Map<string, DrugClassReference>;
+  drugTerms: Array<{ term: string; drug: DrugReferenceEntry }>;
+  classTerms: Array<{ term: string; drugClass: DrugClassReference }>;
+}
+
+interface ResolvedDrug {
+  ingredients: string[];
+  classes: string[];
+}
+
+// Strength and dose-form words that don't identify the drug
+const NON_DRUG_TERMS = new Set([
+  'mg',
+  'mcg',
+  'g',
+  'ml',
+  'unit',
+  'units',
+  'tab',
+  'tabs',
+  'tablet',
+  'tablets',
+  'cap',
+  'caps',
+  'capsule',
+  'capsules',
+  'er',
+  'xr',
+  'sr',
+  'ir',
+  'dr',
+  'oral',
+  'solution',
+  'suspension',
+  'injection',
+  'cream',
+  'patch',
+]);
+
+const indexCache = new WeakMap<DrugReference, DrugIndex>();
+
+/**
+ * Check a medication order against the client's allergies and active
+ * medications
+ */
+export function checkMedicationSafety(
+  order: MedicationOrderNames,
+  allergies: DocumentedAllergy[],
+  activeMedications: ActiveMedicationNames[],
+  reference: DrugReference
+): MedicationSafetyCheck {
+  const index = getIndex(reference);
+  const orderText = orderNameText(order);
+  const orderDrug = findDrug(orderText, index);
+  const resolvedOrder = orderDrug ? toResolved(orderDrug) : fallbackResolved(order);
+
+  const alerts: MedicationSafetyAlert[] = [];
+  for (const allergy of allergies) {
+    const alert = checkAllergy(order, orderText, resolvedOrder, allergy, index, reference);
+    if (alert) {
+      alerts.push(alert);
+    }
+  }
+  for (const active of activeMedications) {
+    const alert = checkDuplicate(order, resolvedOrder, active, index);
+    if (alert) {
+      alerts.push(alert);
+    }
+  }
+
+  return {
+    referenceVersion: reference.version,
+    recognized: orderDrug !== null,
+    blocked: alerts.some((alert) => alert.severity === 'BLOCK'),
+    alerts,
+  };
+}
+
+function checkAllergy(
+  order: MedicationOrderNames,
+  orderText: string,
+  resolvedOrder: ResolvedDrug,
+  allergy: DocumentedAllergy,
+  index: DrugIndex,
+  reference: DrugReference
+): MedicationSafetyAlert | null {
+  const allergen = normalize(allergy.allergen);
+  if (allergen === '') {
+    return null;
+  }
+
+  const allergyDrug = findDrug(allergen, index);
+  const namedClasses = index.classTerms
+    .filter(({ term }) => containsTerm(allergen, term))
+    .map(({ drugClass }) => drugClass.code);
+  const base = {
+    allergen: allergy.allergen,
+    ...(allergy.severity && { allergySeverity: allergy.severity }),
+  };
+  const reaction = allergy.reaction ? ` (${allergy.reaction})` : '';
+
+  const sharedIngredient =
+    allergyDrug !== null && ingredientsOf(allergyDrug).some((i) => resolvedOrder.ingredients.includes(i));
+  const namedClass = namedClasses.find((code) => resolvedOrder.classes.includes(code));
+  if (sharedIngredient || namedClass !== undefined || containsTerm(orderText, allergen)) {
+    return {
+      type: 'ALLERGY',
+      severity: 'BLOCK',
+      message: `${order.medicationName} conflicts with documented allergy to ${allergy.allergen}${reaction}`,
+      ...base,
+      ...(namedClass !== undefined && { drugClass: namedClass }),
+    };
+  }
+
+  const lifeThreatening = allergy.severity === 'LIFE_THREATENING';
+  const candidates: MedicationSafetyAlert[] = [];
+
+  // Another member of the allergen's class
+  for (const code of allergyDrug?.classes ?? []) {
+    const drugClass = index.classes.get(code);
+    if (drugClass && resolvedOrder.classes.includes(code)) {
+      candidates.push({
+        type: 'ALLERGY_CROSS_REACTIVITY',
+        severity: lifeThreatening ? 'BLOCK' : drugClass.allergySeverity,
+        message: `${order.medicationName} is in the same class (${drugClass.name}) as documented allergy to ${allergy.allergen}${reaction}`,
+        ...base,
+        drugClass: code,
+      });
+    }
+  }
+
+  const allergyClasses = new Set([...namedClasses, ...(allergyDrug?.classes ?? [])]);
+  for (const rule of reference.crossReactivity) {
+    if (allergyClasses.has(rule.allergyClass) && resolvedOrder.classes.includes(rule.drugClass)) {
+      candidates.push({
+        type: 'ALLERGY_CROSS_REACTIVITY',
+        severity: lifeThreatening ? 'BLOCK' : rule.severity,
+        message: `${order.medicationName} may cross-react with documented allergy to ${allergy.allergen}${reaction}: ${rule.note}`,
+        ...base,
+        drugClass: rule.drugClass,
+      });
+    }
+  }
+
+  return candidates.find((alert) => alert.severity === 'BLOCK') ?? candidates[0] ?? null;
+}
+
+function checkDuplicate(
+  order: MedicationOrderNames,
+  resolvedOrder: ResolvedDrug,
+  active: ActiveMedicationNames,
+  index: DrugIndex
+): MedicationSafetyAlert | null {
+  const activeDrug = findDrug(orderNameText(active), index);
+  const resolvedActive = activeDrug ? toResolved(activeDrug) : fallbackResolved(active);
+
+  const ingredient = resolvedOrder.ingredients.find((i) => resolvedActive.ingredients.includes(i));
+  if (ingredient !== undefined) {
+    return {
+      type: 'DUPLICATE_INGREDIENT',
+      severity: 'BLOCK',
+      message: `${active.medicationName} is already active and also contains ${ingredient}`,
+      conflictingMedicationId: active.id,
+    };
+  }
+
+  const duplicateClass = resolvedOrder.classes
+    .filter((code) => resolvedActive.classes.includes(code))
+    .map((code) => index.classes.get(code))
+    .find((drugClass) => drugClass?.duplicateTherapy === true);
+  if (duplicateClass) {
+    return {
+      type: 'DUPLICATE_THERAPY',
+      severity: 'WARNING',
+      message: `${active.medicationName} is already active in the same class (${duplicateClass.name}) as ${order.medicationName}`,
+      conflictingMedicationId: active.id,
+      drugClass: duplicateClass.code,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Reference drug whose name or brand name is the longest whole-word match
+ * in the text
+ */
+function findDrug(text: string, index: DrugIndex): DrugReferenceEntry | null {
+  let best: { term: string; drug: DrugReferenceEntry } | null = null;
+  for (const entry of index.drugTerms) {
+    if (containsTerm(text, entry.term) && (best === null || entry.term.length > best.term.length)) {
+      best = entry;
+    }
+  }
+  return best?.drug ?? null;
+}
+
+function getIndex(reference: DrugReference): DrugIndex {
+  const cached = indexCache.get(reference);
+  if (cached) {
+    return cached;
+  }
+
+  const index: DrugIndex = {
+    classes: new Map(reference.drugClasses.map((drugClass) => [drugClass.code, drugClass])),
+    drugTerms: reference.drugs.flatMap((drug) =>
+      [drug.name, ...(drug.brandNames ?? [])].map((name) => ({ term: normalize(name), drug }))
+    ),
+    classTerms: reference.drugClasses.flatMap((drugClass) =>
+      [drugClass.name, drugClass.code, ...(drugClass.aliases ?? [])].map((name) => ({
+        term: normalize(name),
+        drugClass,
+      }))
+    ),
+  };
+  indexCache.set(reference, index);
+  return index;
+}
+
+function toResolved(drug: DrugReferenceEntry): ResolvedDrug {
+  return { ingredients: ingredientsOf(drug), classes: drug.classes };
+}
+
+function ingredientsOf(drug: DrugReferenceEntry): string[] {
+  return (drug.ingredients ?? [drug.name]).map(normalize);
+}
+
+/**
+ * Drugs missing from the reference are their own single ingredient, named
+ * without strength or dose form
+ */
+function fallbackResolved(names: MedicationOrderNames): ResolvedDrug {
+  const name = normalize(names.genericName ?? names.medicationName)
+    .split(' ')
+    .filter((word) => !/\d/.test(word) && !NON_DRUG_TERMS.has(word))
+    .join(' ');
+  return { ingredients: name === '' ? [] : [name], classes: [] };
+}
+
+function orderNameText(names: MedicationOrderNames): string {
+  return normalize([names.medicationName, names.genericName].filter(Boolean).join(' '));
+}
+
+function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+function containsTerm(text: string, term: string): boolean {
+  return term !== '' && ` ${text} `.includes(` ${term} `);
+}
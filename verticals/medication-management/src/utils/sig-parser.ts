@@ -0,0 +1,148 @@
+/**
+ * Sig code parser
+ *
+ * Turns the frequency on a medication order into a code the dose scheduler
+ * can expand. Accepts the abbreviations prescribers write (QD, BID, TID, QID,
+ * QHS, Q6H, QW), with or without periods, and their plain-English forms
+ * ("twice daily", "every 6 hours", "weekly on Monday"). PRN orders and
+ * frequencies the parser doesn't recognize are not scheduled.
+ */
+
+import type { SigCode } from '../types/medication.js';
+
+export type FixedTimeSigCode = 'QD' | 'BID' | 'TID' | 'QID' | 'QHS' | 'WEEKLY';
+
+export interface ParsedSig {
+  code: SigCode;
+  intervalHours?: number; // Q<n>H orders
+  weekday?: number; // WEEKLY orders that name a day, 0 (Sunday) - 6
+}
+
+/**
+ * Local dose times used when a client has no times of their own
+ */
+export const DEFAULT_DOSE_TIMES: Record<FixedTimeSigCode, string[]> = {
+  QD: ['09:00'],
+  BID: ['09:00', '21:00'],
+  TID: ['09:00', '14:00', '21:00'],
+  QID: ['09:00', '13:00', '17:00', '21:00'],
+  QHS: ['21:00'],
+  WEEKLY: ['09:00'],
+};
+
+/**
+ * First dose of the day for interval orders, unless the client has their own
+ */
+export const DEFAULT_INTERVAL_START = '06:00';
+
+export const MAX_INTERVAL_HOURS = 72;
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+const FIXED_TIME_PATTERNS: Array<[RegExp, FixedTimeSigCode]> = [
+  [/^(QD|DAILY|ONCE DAILY|ONCE A DAY|EVERY DAY)$/, 'QD'],
+  [/^(BID|TWICE DAILY|TWICE A DAY)$/, 'BID'],
+  [/^(TID|THREE TIMES DAILY|THREE TIMES A DAY)$/, 'TID'],
+  [/^(QID|FOUR TIMES DAILY|FOUR TIMES A DAY)$/, 'QID'],
+  [/^(QHS|HS|AT BEDTIME|NIGHTLY|EVERY NIGHT AT BEDTIME)$/, 'QHS'],
+];
+
+const INTERVAL_PATTERN = /^(?:Q\s?(\d{1,2})\s?H(?:RS?)?|EVERY (\d{1,2}) HOURS?)$/;
+const WEEKLY_PATTERN = /^(?:QW|QWK|WEEKLY|ONCE WEEKLY|ONCE A WEEK|EVERY WEEK)(?: (?:ON )?([A-Z]+))?$/;
+const EVERY_WEEKDAY_PATTERN = /^EVERY ([A-Z]+)$/;
+
+const WEEKDAYS = ['SUNDAY', 'MONDAY', 'TUESDAY', 'WEDNESDAY', 'THURSDAY', 'FRIDAY', 'SATURDAY'];
+
+/**
+ * Parse a medication frequency. Returns null for PRN orders and for
+ * frequencies that don't describe a fixed schedule.
+ */
+export function parseSig(frequency: string): ParsedSig | null {
+  const sig = frequency
+    .toUpperCase()
+    .replace(/\./g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  if (/\bPRN\b|\bAS NEEDED\b/.test(sig)) {
+    return null;
+  }
+
+  for (const [pattern, code] of FIXED_TIME_PATTERNS) {
+    if (pattern.test(sig)) {
+      return { code };
+    }
+  }
+
+  const interval = INTERVAL_PATTERN.exec(sig);
+  if (interval !== null) {
+    const hours = Number(interval[1] ?? interval[2]);
+    if (hours < 1 || hours > MAX_INTERVAL_HOURS) {
+      return null;
+    }
+    return { code: `Q${hours}H`, intervalHours: hours };
+  }
+
+  const weekly = WEEKLY_PATTERN.exec(sig) ?? EVERY_WEEKDAY_PATTERN.exec(sig);
+  if (weekly !== null) {
+    if (weekly[1] === undefined) {
+      return { code: 'WEEKLY' };
+    }
+    const weekday = parseWeekday(weekly[1]);
+    return weekday === null ? null : { code: 'WEEKLY', weekday };
+  }
+
+  return null;
+}
+
+/**
+ * Parse a code a client's dose times are stored under (QD, BID, ..., Q6H)
+ */
+export function parseSigCode(code: string): ParsedSig | null {
+  const sig = parseSig(code);
+  return sig !== null && sig.code === code && sig.weekday === undefined ? sig : null;
+}
+
+/**
+ * Number of times a client's dose times for the code must list. Interval
+ * orders take a single time: the first dose, from which the rest follow.
+ */
+export function expectedTimeCount(sig: ParsedSig): number {
+  if (sig.intervalHours !== undefined) {
+    return 1;
+  }
+  return DEFAULT_DOSE_TIMES[sig.code as FixedTimeSigCode].length;
+}
+
+/**
+ * Local dose times for an order, in time order: the client's own times when
+ * they have them, otherwise the defaults
+ */
+export function resolveDoseTimes(sig: ParsedSig, clientTimes?: string[]): string[] {
+  if (clientTimes !== undefined && clientTimes.length === expectedTimeCount(sig)) {
+    return [...clientTimes].sort((a, b) => timeToMinutes(a) - timeToMinutes(b));
+  }
+  if (sig.intervalHours !== undefined) {
+    return [DEFAULT_INTERVAL_START];
+  }
+  return [...DEFAULT_DOSE_TIMES[sig.code as FixedTimeSigCode]];
+}
+
+/**
+ * Minutes after local midnight of an HH:MM time
+ */
+export function timeToMinutes(time: string): number {
+  const match = TIME_PATTERN.exec(time);
+  if (match === null) {
+    throw new Error(`Invalid time: ${time}. Use HH:MM`);
+  }
+  return Number(match[1]) * 60 + Number(match[2]);
+}
+
+/**
+ * Weekday from its name or three-letter abbreviation
+ */
+function parseWeekday(value: string): number | null {
+  const index = WEEKDAYS.findIndex((day) => day === value || day.slice(0, 3) === value);
+  return index === -1 ? null : index;
+}
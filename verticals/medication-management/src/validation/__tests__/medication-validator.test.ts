@@ -16,6 +16,11 @@ import {
   createMedicationSchema,
   updateMedicationSchema,
   recordAdministrationSchema,
+  controlledScheduleSchema,
+  recordPrnFollowUpSchema,
+  recordControlledWasteSchema,
+  shiftHandoffCountSchema,
+  resolveCountDiscrepancySchema,
 } from '../medication-validator.js';
 
 // Fixed timestamp for deterministic tests
@@ -473,4 +478,102 @@ describe('Medication Validator', () => {
       expect(() => recordAdministrationSchema.parse(missedInput)).not.toThrow();
     });
   });
+
+  describe('PRN and controlled substance orders', () => {
+    const baseOrder = {
+      clientId: '123e4567-e89b-12d3-a456-426614174000',
+      medicationName: 'Oxycodone',
+      dosage: '5mg',
+      route: 'ORAL' as const,
+      frequency: 'Q6H',
+      prescribedBy: 'Dr. Smith',
+      prescribedDate: PAST_DATE,
+      startDate: FIXED_DATE,
+    };
+
+    it('should accept DEA schedules II through V', () => {
+      ['II', 'III', 'IV', 'V'].forEach((schedule) => {
+        expect(controlledScheduleSchema.parse(schedule)).toBe(schedule);
+      });
+      expect(() => controlledScheduleSchema.parse('I')).toThrow();
+    });
+
+    it('should require an indication for PRN orders', () => {
+      expect(() => createMedicationSchema.parse({ ...baseOrder, isPrn: true })).toThrow(
+        /PRN indication is required/
+      );
+      expect(() => createMedicationSchema.parse({ ...baseOrder, frequency: 'PRN q4h' })).toThrow(
+        /PRN indication is required/
+      );
+      expect(() =>
+        createMedicationSchema.parse({ ...baseOrder, frequency: 'PRN', prnIndication: 'Pain above 5/10' })
+      ).not.toThrow();
+    });
+
+    it('should require a count unit for controlled substances', () => {
+      expect(() => createMedicationSchema.parse({ ...baseOrder, controlledSchedule: 'II' })).toThrow(
+        /Count unit is required/
+      );
+      expect(() =>
+        createMedicationSchema.parse({ ...baseOrder, controlledSchedule: 'II', countUnit: 'tablet' })
+      ).not.toThrow();
+    });
+
+    it('should require a reason and witness for wasted quantities', () => {
+      const administration = {
+        medicationId: '123e4567-e89b-12d3-a456-426614174001',
+        clientId: '123e4567-e89b-12d3-a456-426614174000',
+        dosageGiven: '2.5mg',
+        route: 'ORAL' as const,
+        status: 'GIVEN' as const,
+        quantityGiven: 0.5,
+        quantityWasted: 0.5,
+      };
+
+      expect(() => recordAdministrationSchema.parse(administration)).toThrow(/Waste reason and witness/);
+      expect(() =>
+        recordAdministrationSchema.parse({
+          ...administration,
+          wasteReason: 'Half tablet ordered',
+          wasteWitnessedBy: '223e4567-e89b-12d3-a456-426614174099',
+        })
+      ).not.toThrow();
+    });
+
+    it('should reject non-positive quantities', () => {
+      expect(() =>
+        recordControlledWasteSchema.parse({
+          quantity: 0,
+          reason: 'Dropped',
+          witnessedBy: '223e4567-e89b-12d3-a456-426614174099',
+        })
+      ).toThrow();
+    });
+
+    it('should validate PRN follow-up effectiveness', () => {
+      expect(recordPrnFollowUpSchema.parse({ effectiveness: 'PARTIALLY_EFFECTIVE' }).effectiveness).toBe(
+        'PARTIALLY_EFFECTIVE'
+      );
+      expect(() => recordPrnFollowUpSchema.parse({ effectiveness: 'BETTER' })).toThrow();
+    });
+
+    it('should reject a handoff that counts the same medication twice', () => {
+      const count = { medicationId: '123e4567-e89b-12d3-a456-426614174001', countedQuantity: 9 };
+      const handoff = {
+        clientId: '123e4567-e89b-12d3-a456-426614174000',
+        witnessedBy: '223e4567-e89b-12d3-a456-426614174099',
+        counts: [count],
+      };
+
+      expect(() => shiftHandoffCountSchema.parse(handoff)).not.toThrow();
+      expect(() => shiftHandoffCountSchema.parse({ ...handoff, counts: [count, count] })).toThrow(
+        /only be counted once/
+      );
+      expect(() => shiftHandoffCountSchema.parse({ ...handoff, counts: [] })).toThrow();
+    });
+
+    it('should require resolution notes', () => {
+      expect(() => resolveCountDiscrepancySchema.parse({ resolutionNotes: '' })).toThrow();
+    });
+  });
 });
@@ -9,10 +9,30 @@ export {
   createMedicationSchema,
   updateMedicationSchema,
   recordAdministrationSchema,
+  controlledScheduleSchema,
+  prnEffectivenessSchema,
+  recordPrnFollowUpSchema,
+  receiveControlledStockSchema,
+  recordControlledWasteSchema,
+  shiftHandoffCountSchema,
+  resolveCountDiscrepancySchema,
+  setClientDoseTimesSchema,
+  generateDoseScheduleSchema,
+  marGridQuerySchema,
+  checkMedicationSafetySchema,
+  isPrnOrder,
 } from './medication-validator.js';
 
 export type {
   CreateMedicationInput,
   UpdateMedicationInput,
   RecordAdministrationInput,
+  RecordPrnFollowUpInput,
+  ReceiveControlledStockInput,
+  RecordControlledWasteInput,
+  ShiftHandoffCountInput,
+  ResolveCountDiscrepancyInput,
+  SetClientDoseTimesInput,
+  GenerateDoseScheduleInput,
+  CheckMedicationSafetyInput,
 } from './medication-validator.js';
@@ -4,10 +4,14 @@
  * Validates:
  * - Medication creation and updates
  * - Administration recording
+ * - PRN follow-ups and controlled substance counts
+ * - Client dose times and dose schedules
+ * - Medication safety checks and override reasons
  * - Business rules (dates, dosages, etc.)
  */
 
 import { z } from 'zod';
+import { parseSigCode, expectedTimeCount } from '../utils/sig-parser.js';
 
 /**
  * Medication route enum schema
@@ -30,26 +34,83 @@ export const medicationStatusSchema = z.enum(['ACTIVE', 'DISCONTINUED', 'ON_HOLD
  */
 export const administrationStatusSchema = z.enum(['GIVEN', 'REFUSED', 'HELD', 'MISSED']);
 
+/**
+ * DEA controlled substance schedule enum schema
+ */
+export const controlledScheduleSchema = z.enum(['II', 'III', 'IV', 'V']);
+
+/**
+ * PRN effectiveness enum schema
+ */
+export const prnEffectivenessSchema = z.enum(['EFFECTIVE', 'PARTIALLY_EFFECTIVE', 'NOT_EFFECTIVE']);
+
+/**
+ * Quantity of a controlled substance, in the medication's count unit
+ */
+const countQuantitySchema = z.number().positive().max(10000);
+
+/**
+ * PRN orders are flagged explicitly or written with a "PRN" frequency
+ */
+export function isPrnOrder(data: { isPrn?: boolean; frequency?: string }): boolean {
+  return data.isPrn ?? /^PRN\b/i.test(data.frequency ?? '');
+}
+
 /**
  * Create Medication Input Schema
  */
-export const createMedicationSchema = z.object({
-  clientId: z.string().uuid(),
-  medicationName: z.string().min(1).max(200),
-  genericName: z.string().min(1).max(200).optional(),
-  dosage: z.string().min(1).max(100),
-  route: medicationRouteSchema,
-  frequency: z.string().min(1).max(100),
-  instructions: z.string().max(1000).optional(),
-  prescribedBy: z.string().min(1).max(200),
-  prescribedDate: z.string().datetime(),
-  startDate: z.string().datetime(),
-  endDate: z.string().datetime().optional(),
-  status: medicationStatusSchema.optional(),
-  refillsRemaining: z.number().int().min(0).max(99).optional(),
-  sideEffects: z.array(z.string()).optional(),
-  warnings: z.array(z.string()).optional(),
-});
+export const createMedicationSchema = z
+  .object({
+    clientId: z.string().uuid(),
+    medicationName: z.string().min(1).max(200),
+    genericName: z.string().min(1).max(200).optional(),
+    dosage: z.string().min(1).max(100),
+    route: medicationRouteSchema,
+    frequency: z.string().min(1).max(100),
+    instructions: z.string().max(1000).optional(),
+    prescribedBy: z.string().min(1).max(200),
+    prescribedDate: z.string().datetime(),
+    startDate: z.string().datetime(),
+    endDate: z.string().datetime().optional(),
+    status: medicationStatusSchema.optional(),
+    refillsRemaining: z.number().int().min(0).max(99).optional(),
+    sideEffects: z.array(z.string()).optional(),
+    warnings: z.array(z.string()).optional(),
+    isPrn: z.boolean().optional(),
+    prnIndication: z.string().min(1).max(500).optional(),
+    prnMinIntervalMinutes: z.number().int().min(15).max(10080).optional(),
+    prnMaxDosesPerDay: z.number().int().min(1).max(24).optional(),
+    prnFollowUpMinutes: z.number().int().min(5).max(1440).optional(),
+    controlledSchedule: controlledScheduleSchema.optional(),
+    countUnit: z.string().min(1).max(50).optional(),
+    safetyOverrideReason: z.string().min(1).max(1000).optional(),
+  })
+  .refine(
+    (data) => {
+      // PRN orders must say what the medication is for
+      if (isPrnOrder(data)) {
+        return !!data.prnIndication;
+      }
+      return true;
+    },
+    {
+      message: 'PRN indication is required for PRN medications',
+      path: ['prnIndication'],
+    }
+  )
+  .refine(
+    (data) => {
+      // Controlled substances are counted in a fixed unit
+      if (data.controlledSchedule) {
+        return !!data.countUnit;
+      }
+      return true;
+    },
+    {
+      message: 'Count unit is required for controlled substances',
+      path: ['countUnit'],
+    }
+  );
 
 /**
  * Update Medication Input Schema
@@ -69,6 +130,11 @@ export const updateMedicationSchema = z.object({
   refillsRemaining: z.number().int().min(0).max(99).optional(),
   sideEffects: z.array(z.string()).optional(),
   warnings: z.array(z.string()).optional(),
+  prnIndication: z.string().min(1).max(500).optional(),
+  prnMinIntervalMinutes: z.number().int().min(15).max(10080).optional(),
+  prnMaxDosesPerDay: z.number().int().min(1).max(24).optional(),
+  prnFollowUpMinutes: z.number().int().min(5).max(1440).optional(),
+  safetyOverrideReason: z.string().min(1).max(1000).optional(),
 });
 
 /**
@@ -87,6 +153,11 @@ export const recordAdministrationSchema = z
     refusalReason: z.string().max(500).optional(),
     holdReason: z.string().max(500).optional(),
     witnessedBy: z.string().uuid().optional(),
+    prnReason: z.string().min(1).max(500).optional(),
+    quantityGiven: countQuantitySchema.optional(),
+    quantityWasted: countQuantitySchema.optional(),
+    wasteReason: z.string().min(1).max(500).optional(),
+    wasteWitnessedBy: z.string().uuid().optional(),
   })
   .refine(
     (data) => {
@@ -126,11 +197,144 @@ export const recordAdministrationSchema = z
       message: 'Administration time cannot be in the future',
       path: ['administeredAt'],
     }
+  )
+  .refine(
+    (data) => {
+      // Wasted doses need a reason and a witness
+      if (data.quantityWasted !== undefined) {
+        return !!data.wasteReason && !!data.wasteWitnessedBy;
+      }
+      return true;
+    },
+    {
+      message: 'Waste reason and witness are required when quantity is wasted',
+      path: ['wasteWitnessedBy'],
+    }
   );
 
+/**
+ * Record PRN Follow-Up Input Schema
+ */
+export const recordPrnFollowUpSchema = z.object({
+  effectiveness: prnEffectivenessSchema,
+  notes: z.string().max(1000).optional(),
+});
+
+/**
+ * Receive Controlled Stock Input Schema
+ */
+export const receiveControlledStockSchema = z.object({
+  quantity: countQuantitySchema,
+  witnessedBy: z.string().uuid().optional(),
+  notes: z.string().max(1000).optional(),
+});
+
+/**
+ * Record Controlled Waste Input Schema
+ */
+export const recordControlledWasteSchema = z.object({
+  quantity: countQuantitySchema,
+  reason: z.string().min(1).max(500),
+  witnessedBy: z.string().uuid(),
+});
+
+/**
+ * Shift Handoff Count Input Schema
+ */
+export const shiftHandoffCountSchema = z
+  .object({
+    clientId: z.string().uuid(),
+    witnessedBy: z.string().uuid(),
+    counts: z
+      .array(
+        z.object({
+          medicationId: z.string().uuid(),
+          countedQuantity: z.number().min(0).max(10000),
+        })
+      )
+      .min(1)
+      .max(100),
+    notes: z.string().max(1000).optional(),
+  })
+  .refine(
+    (data) => new Set(data.counts.map((count) => count.medicationId)).size === data.counts.length,
+    {
+      message: 'Each medication can only be counted once per handoff',
+      path: ['counts'],
+    }
+  );
+
+/**
+ * Resolve Count Discrepancy Input Schema
+ */
+export const resolveCountDiscrepancySchema = z.object({
+  resolutionNotes: z.string().min(1).max(2000),
+  adjustCount: z.boolean().optional(),
+});
+
+const localTimeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Time must be HH:MM');
+const localDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD');
+
+/**
+ * Set Client Dose Times Input Schema
+ */
+export const setClientDoseTimesSchema = z
+  .object({
+    sigCode: z.string().refine((code) => parseSigCode(code) !== null, {
+      message: 'Unsupported frequency code. Use QD, BID, TID, QID, QHS, WEEKLY or Q<hours>H',
+    }),
+    times: z.array(localTimeSchema).min(1).max(4),
+  })
+  .refine((data) => new Set(data.times).size === data.times.length, {
+    message: 'Dose times must be distinct',
+    path: ['times'],
+  })
+  .refine(
+    (data) => {
+      const sig = parseSigCode(data.sigCode);
+      return sig === null || data.times.length === expectedTimeCount(sig);
+    },
+    {
+      message: 'Number of dose times must match the frequency (one first dose time for interval orders)',
+      path: ['times'],
+    }
+  );
+
+/**
+ * Generate Dose Schedule Input Schema
+ */
+export const generateDoseScheduleSchema = z.object({
+  startDate: localDateSchema,
+  days: z.number().int().min(1).max(31).optional(),
+});
+
+/**
+ * MAR Grid Query Schema
+ */
+export const marGridQuerySchema = z.object({
+  date: localDateSchema,
+});
+
+/**
+ * Medication Safety Check Schema
+ */
+export const checkMedicationSafetySchema = z.object({
+  clientId: z.string().uuid(),
+  medicationName: z.string().min(1).max(200),
+  genericName: z.string().min(1).max(200).optional(),
+});
+
 /**
  * Export type inferences
  */
 export type CreateMedicationInput = z.infer<typeof createMedicationSchema>;
 export type UpdateMedicationInput = z.infer<typeof updateMedicationSchema>;
 export type RecordAdministrationInput = z.infer<typeof recordAdministrationSchema>;
+export type RecordPrnFollowUpInput = z.infer<typeof recordPrnFollowUpSchema>;
+export type ReceiveControlledStockInput = z.infer<typeof receiveControlledStockSchema>;
+export type RecordControlledWasteInput = z.infer<typeof recordControlledWasteSchema>;
+export type ShiftHandoffCountInput = z.infer<typeof shiftHandoffCountSchema>;
+export type ResolveCountDiscrepancyInput = z.infer<typeof resolveCountDiscrepancySchema>;
+export type SetClientDoseTimesInput = z.infer<typeof setClientDoseTimesSchema>;
+export type GenerateDoseScheduleInput = z.infer<typeof generateDoseScheduleSchema>;
+export type CheckMedicationSafetyInput = z.infer<typeof checkMedicationSafetySchema>;
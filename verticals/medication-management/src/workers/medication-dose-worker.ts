@@ -0,0 +1,206 @@
+/**
+ * Medication Dose Worker
+ *
+ * Background worker that keeps every client's scheduled doses materialized a
+ * week ahead, realigned with their visits, and records doses nobody
+ * documented by the end of their window as MISSED, alerting the client's
+ * assigned nurse.
+ *
+ * Features:
+ * - Configurable missed-dose polling and schedule refresh intervals
+ * - Overlapping polls are skipped while a pass is still running
+ * - Graceful shutdown support
+ */
+
+import { createLogger } from '@care-commons/core';
+import { MedicationScheduleService } from '../service/medication-schedule-service.js';
+
+const log = createLogger('MedicationDoseWorker');
+
+export interface MedicationDoseWorkerConfig {
+  /**
+   * How often to check for missed doses (in milliseconds)
+   * Default: 5 minutes (300000ms)
+   */
+  checkIntervalMs: number;
+
+  /**
+   * How often to re-materialize dose schedules (in milliseconds)
+   * Default: 1 hour (3600000ms)
+   */
+  refreshIntervalMs: number;
+
+  /**
+   * Whether the worker is enabled
+   * Default: true
+   */
+  enabled: boolean;
+}
+
+const DEFAULT_CONFIG: MedicationDoseWorkerConfig = {
+  checkIntervalMs: 300000, // 5 minutes
+  refreshIntervalMs: 3600000, // 1 hour
+  enabled: true,
+};
+
+/**
+ * Medication Dose Worker
+ *
+ * Materializes dose schedules and detects missed doses.
+ */
+export class MedicationDoseWorker {
+  private intervalId: ReturnType<typeof setInterval> | null = null;
+  private isRunning = false;
+  private isProcessing = false;
+  private lastRefreshAt: number | null = null;
+  private config: MedicationDoseWorkerConfig;
+
+  constructor(
+    private scheduleService: MedicationScheduleService,
+    config?: Partial<MedicationDoseWorkerConfig>
+  ) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * Start the worker
+   */
+  start(): void {
+    if (!this.config.enabled) {
+      log.info('MedicationDoseWorker is disabled');
+      return;
+    }
+
+    if (this.isRunning) {
+      log.warn('MedicationDoseWorker is already running');
+      return;
+    }
+
+    log.info(
+      { checkIntervalMs: this.config.checkIntervalMs, refreshIntervalMs: this.config.refreshIntervalMs },
+      'MedicationDoseWorker starting'
+    );
+
+    this.isRunning = true;
+
+    // Run immediately on start
+    void this.processDoses();
+
+    // Then run periodically
+    this.intervalId = setInterval(() => {
+      void this.processDoses();
+    }, this.config.checkIntervalMs);
+  }
+
+  /**
+   * Stop the worker
+   */
+  stop(): void {
+    if (!this.isRunning) {
+      log.warn('MedicationDoseWorker is not running');
+      return;
+    }
+
+    log.info('MedicationDoseWorker stopping...');
+
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+
+    this.isRunning = false;
+
+    log.info('MedicationDoseWorker stopped');
+  }
+
+  /**
+   * Run one pass: refresh schedules when due, then detect missed doses
+   */
+  private async processDoses(): Promise<void> {
+    if (this.isProcessing) {
+      log.debug('Previous pass still running, skipping');
+      return;
+    }
+
+    this.isProcessing = true;
+    try {
+      const now = new Date();
+
+      if (this.lastRefreshAt === null || now.getTime() - this.lastRefreshAt >= this.config.refreshIntervalMs) {
+        const refreshed = await this.scheduleService.refreshSchedules(now);
+        this.lastRefreshAt = now.getTime();
+        log.info(refreshed, 'Dose schedules refreshed');
+      }
+
+      const result = await this.scheduleService.detectMissedDoses(now);
+      if (result.detected > 0) {
+        log.info(result, 'Missed dose scan complete');
+      }
+    } catch (error) {
+      log.error({ error }, 'Error processing medication doses');
+      // Don't throw - let the worker continue running
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  /**
+   * Check if the worker is running
+   */
+  isActive(): boolean {
+    return this.isRunning;
+  }
+
+  /**
+   * Get current configuration
+   */
+  getConfig(): MedicationDoseWorkerConfig {
+    return { ...this.config };
+  }
+}
+
+/**
+ * Singleton instance for application-wide use
+ */
+let workerInstance: MedicationDoseWorker | null = null;
+
+/**
+ * Initialize and start the medication dose worker
+ *
+ * Should be called once during application startup.
+ */
+export function initializeMedicationDoseWorker(
+  scheduleService: MedicationScheduleService,
+  config?: Partial<MedicationDoseWorkerConfig>
+): MedicationDoseWorker {
+  if (workerInstance) {
+    log.warn('MedicationDoseWorker already initialized');
+    return workerInstance;
+  }
+
+  workerInstance = new MedicationDoseWorker(scheduleService, config);
+  workerInstance.start();
+
+  // Graceful shutdown on process termination
+  process.on('SIGTERM', () => {
+    log.info('SIGTERM received, shutting down MedicationDoseWorker...');
+    workerInstance?.stop();
+  });
+
+  process.on('SIGINT', () => {
+    log.info('SIGINT received, shutting down MedicationDoseWorker...');
+    workerInstance?.stop();
+  });
+
+  return workerInstance;
+}
+
+/**
+ * Stop and cleanup the medication dose worker
+ */
+export function shutdownMedicationDoseWorker(): void {
+  if (workerInstance) {
+    workerInstance.stop();
+    workerInstance = null;
+  }
+}
@@ -0,0 +1,219 @@
+/**
+ * ACH Processing Tests
+ *
+ * Generates direct deposit files for approved pay runs and posts the
+ * returns the ODFI sends back, against a repository stubbed per test
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import type { Pool } from 'pg';
+import { PayrollService } from '../service/payroll-service';
+import { PayrollRepository } from '../repository/payroll-repository';
+import type { IEVVRecordProvider } from '../interfaces/evv-record-provider';
+import type {
+  ACHBatch,
+  DirectDepositAccount,
+  GenerateACHFileInput,
+  PayRun,
+  PayStub,
+  PaymentRecord,
+} from '../types/payroll';
+
+const payRun = {
+  id: 'a1b2c3d4-0000-4000-8000-000000000001',
+  organizationId: 'org-1',
+  runNumber: 'PR-2025-10',
+  status: 'APPROVED',
+  statusHistory: [],
+  exportFiles: [],
+} as unknown as PayRun;
+
+const payStub = (id: string, caregiverId: string, currentNetPay: number): PayStub => ({
+  id,
+  organizationId: 'org-1',
+  branchId: 'branch-1',
+  payRunId: payRun.id,
+  caregiverId,
+  caregiverName: `Caregiver ${caregiverId}`,
+  caregiverEmployeeId: `EMP-${caregiverId}`,
+  stubNumber: `2025-10-${id}`,
+  currentNetPay,
+  status: 'APPROVED',
+  statusHistory: [],
+} as unknown as PayStub);
+
+const account = (caregiverId: string): DirectDepositAccount => ({
+  caregiverId,
+  accountHolderName: `Caregiver ${caregiverId}`,
+  routingNumber: '021000021',
+  accountNumber: '123456789',
+  accountType: 'CHECKING',
+} as unknown as DirectDepositAccount);
+
+const payment = (overrides: Partial<PaymentRecord>): PaymentRecord => ({
+  id: 'payment-1',
+  caregiverId: 'cg-1',
+  status: 'SCHEDULED',
+  statusHistory: [],
+  achBatchId: 'batch-1',
+  ...overrides,
+} as PaymentRecord);
+
+const returnFile = (traceNumber: string): string => [
+  '621021000021123456789        0000123456EMP-cg-1         CAREGIVER CG-1          1011000010000007',
+  `799R03${traceNumber}      02100002${'ACCOUNT NOT FOUND'.padEnd(44)}011000010000007`,
+].join('\n');
+
+describe('PayrollService ACH processing', () => {
+  let outputDirectory: string;
+  let client: { query: ReturnType<typeof vi.fn>; release: ReturnType<typeof vi.fn> };
+  let service: PayrollService;
+
+  beforeEach(async () => {
+    vi.restoreAllMocks();
+    outputDirectory = await mkdtemp(path.join(tmpdir(), 'ach-'));
+    client = { query: vi.fn().mockResolvedValue({ rows: [] }), release: vi.fn() };
+    const pool = { connect: vi.fn().mockResolvedValue(client) } as unknown as Pool;
+    service = new PayrollService(pool, {} as IEVVRecordProvider);
+  });
+
+  afterEach(async () => {
+    await rm(outputDirectory, { recursive: true, force: true });
+  });
+
+  describe('generateACHFile', () => {
+    const input = (): GenerateACHFileInput => ({
+      payRunId: payRun.id,
+      effectiveDate: new Date(2025, 9, 17),
+      originator: {
+        companyName: 'Care Commons Home Health',
+        companyId: '1123456789',
+        bankName: 'First National Bank',
+        bankRoutingNumber: '011000015',
+        bankAccountNumber: '5550001',
+      },
+      prenoteCaregiverIds: ['cg-2'],
+      outputDirectory,
+    });
+
+    beforeEach(() => {
+      vi.spyOn(PayrollRepository.prototype, 'findPayRunById').mockResolvedValue(payRun);
+      vi.spyOn(PayrollRepository.prototype, 'findPayStubs').mockResolvedValue([
+        payStub('stub-1', 'cg-1', 812.4),
+        payStub('stub-2', 'cg-2', 640),
+      ]);
+      vi.spyOn(PayrollRepository.prototype, 'findDirectDepositAccounts').mockResolvedValue([
+        account('cg-1'),
+        account('cg-2'),
+      ]);
+      vi.spyOn(PayrollRepository.prototype, 'createPaymentRecord').mockImplementation(
+        async (record) => ({ ...record, id: `payment-${record.payStubId}` }) as PaymentRecord
+      );
+      vi.spyOn(PayrollRepository.prototype, 'linkPayStubPayment').mockResolvedValue();
+      vi.spyOn(PayrollRepository.prototype, 'createACHBatch').mockImplementation(
+        async (batch) => ({ ...batch, id: 'batch-1' }) as ACHBatch
+      );
+      vi.spyOn(PayrollRepository.prototype, 'updatePaymentRecord').mockResolvedValue();
+      vi.spyOn(PayrollRepository.prototype, 'updatePayRun').mockResolvedValue(payRun);
+    });
+
+    it('should number entries from the trace sequences reserved for the ODFI', async () => {
+      const reserve = vi.spyOn(PayrollRepository.prototype, 'reserveACHTraceSequences').mockResolvedValue(4312);
+
+      const result = await service.generateACHFile(input(), 'user-1');
+
+      expect(reserve).toHaveBeenCalledWith('01100001', 2, client);
+      const createPaymentRecord = vi.mocked(PayrollRepository.prototype.createPaymentRecord);
+      expect(createPaymentRecord).toHaveBeenCalledTimes(1);
+      expect(createPaymentRecord.mock.calls[0]![0]).toMatchObject({
+        payStubId: 'stub-1',
+        paymentAmount: 812.4,
+        traceNumber: '011000010004312',
+        achFileId: 'ACH-PR-2025-10-a1b2c3d4.ach',
+      });
+      expect(result.prenotedPayStubIds).toEqual(['stub-2']);
+
+      const content = await readFile(result.exportFile.fileUrl, 'utf8');
+      expect(content).toContain('011000010004313');
+      expect(client.query).toHaveBeenCalledWith('COMMIT');
+    });
+
+    it('should roll back and write nothing when the pay run cannot be updated', async () => {
+      vi.spyOn(PayrollRepository.prototype, 'reserveACHTraceSequences').mockResolvedValue(1);
+      vi.spyOn(PayrollRepository.prototype, 'updatePayRun').mockRejectedValue(new Error('connection reset'));
+
+      await expect(service.generateACHFile(input(), 'user-1')).rejects.toThrow('connection reset');
+
+      expect(client.query).toHaveBeenCalledWith('ROLLBACK');
+      await expect(readFile(path.join(outputDirectory, 'ACH-PR-2025-10-a1b2c3d4.ach'))).rejects.toThrow();
+      expect(client.release).toHaveBeenCalled();
+    });
+
+    it('should refuse pay runs that are not approved', async () => {
+      vi.spyOn(PayrollRepository.prototype, 'findPayRunById').mockResolvedValue({ ...payRun, status: 'DRAFT' } as PayRun);
+
+      await expect(service.generateACHFile(input(), 'user-1')).rejects.toThrow(
+        'Cannot generate ACH file for pay run in DRAFT status'
+      );
+    });
+  });
+
+  describe('importACHReturns', () => {
+    beforeEach(() => {
+      vi.spyOn(PayrollRepository.prototype, 'updatePaymentRecord').mockResolvedValue();
+      vi.spyOn(PayrollRepository.prototype, 'findACHBatchById').mockResolvedValue({
+        id: 'batch-1',
+        paymentIds: ['payment-1', 'payment-2'],
+        returns: [],
+      } as unknown as ACHBatch);
+      vi.spyOn(PayrollRepository.prototype, 'recordACHReturns').mockResolvedValue();
+    });
+
+    it('should mark the payment with the trace number returned', async () => {
+      const find = vi.spyOn(PayrollRepository.prototype, 'findPaymentRecordByTraceNumber').mockResolvedValue(payment({}));
+
+      const result = await service.importACHReturns(
+        { organizationId: 'org-1', content: returnFile('011000010004312') },
+        'user-1'
+      );
+
+      expect(find).toHaveBeenCalledWith('org-1', '011000010004312');
+      expect(result.returns).toEqual([
+        expect.objectContaining({ paymentId: 'payment-1', returnCode: 'R03', amount: 1234.56 }),
+      ]);
+      expect(PayrollRepository.prototype.updatePaymentRecord).toHaveBeenCalledWith(
+        'payment-1',
+        expect.objectContaining({ status: 'RETURNED', errorCode: 'R03', errorDetails: 'ACCOUNT NOT FOUND' }),
+        'user-1'
+      );
+      expect(PayrollRepository.prototype.recordACHReturns).toHaveBeenCalledWith(
+        'batch-1',
+        'PARTIAL_RETURN',
+        [expect.objectContaining({ paymentId: 'payment-1' })],
+        'user-1'
+      );
+    });
+
+    it('should report returns it cannot match and skip ones already posted', async () => {
+      vi.spyOn(PayrollRepository.prototype, 'findPaymentRecordByTraceNumber')
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce(payment({ status: 'RETURNED' }));
+
+      const unmatched = await service.importACHReturns(
+        { organizationId: 'org-1', content: returnFile('011000010009999') },
+        'user-1'
+      );
+      const reposted = await service.importACHReturns(
+        { organizationId: 'org-1', content: returnFile('011000010004312') },
+        'user-1'
+      );
+
+      expect(unmatched).toEqual({ returns: [], unmatchedTraceNumbers: ['011000010009999'] });
+      expect(reposted.returns).toEqual([]);
+      expect(PayrollRepository.prototype.updatePaymentRecord).not.toHaveBeenCalled();
+    });
+  });
+});
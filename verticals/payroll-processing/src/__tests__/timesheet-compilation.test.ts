@@ -0,0 +1,356 @@
+/**
+ * Timesheet Compilation Tests
+ *
+ * Compiles timesheets from EVV records served by a fake provider: hours,
+ * unpaid breaks, travel between visits, VMUR-corrected times and the
+ * discrepancy flags raised for visits that need review before payment
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { Pool } from 'pg';
+import type { EVVRecord, LocationVerification } from '@care-commons/time-tracking-evv';
+import { PayrollService, CompileTimeSheetInput } from '../service/payroll-service';
+import { PayrollRepository } from '../repository/payroll-repository';
+import type { IEVVRecordProvider, PayrollEVVRecord } from '../interfaces/evv-record-provider';
+import { PayPeriod, TimeSheet } from '../types/payroll';
+
+const verification = (overrides: Partial<LocationVerification> = {}): LocationVerification => ({
+  latitude: 30.2672,
+  longitude: -97.7431,
+  accuracy: 10,
+  timestamp: new Date(2025, 4, 6, 9, 0),
+  timestampSource: 'GPS',
+  isWithinGeofence: true,
+  distanceFromAddress: 12,
+  geofencePassed: true,
+  deviceId: 'device-1',
+  method: 'GPS',
+  locationSource: 'GPS_SATELLITE',
+  mockLocationDetected: false,
+  verificationPassed: true,
+  ...overrides,
+});
+
+const evvRecord = (overrides: Partial<EVVRecord> = {}): EVVRecord => ({
+  id: 'evv-1',
+  visitId: 'visit-1',
+  organizationId: 'org-1',
+  branchId: 'branch-1',
+  clientId: 'client-1',
+  caregiverId: 'caregiver-1',
+  serviceTypeCode: 'T1019',
+  serviceTypeName: 'Personal Care',
+  clientName: 'Dana Client',
+  caregiverName: 'Jamie Rivera',
+  caregiverEmployeeId: 'EMP-001',
+  serviceDate: new Date(2025, 4, 6),
+  serviceAddress: {
+    line1: '100 Congress Ave',
+    city: 'Austin',
+    state: 'TX',
+    postalCode: '78701',
+    country: 'US',
+    latitude: 30.2672,
+    longitude: -97.7431,
+    geofenceRadius: 100,
+    addressVerified: true,
+  },
+  clockInTime: new Date(2025, 4, 6, 9, 0),
+  clockOutTime: new Date(2025, 4, 6, 13, 0),
+  clockInVerification: verification(),
+  clockOutVerification: verification(),
+  recordStatus: 'COMPLETE',
+  verificationLevel: 'FULL',
+  complianceFlags: ['COMPLIANT'],
+  integrityHash: 'hash',
+  integrityChecksum: 'checksum',
+  recordedAt: new Date(2025, 4, 6, 13, 0),
+  recordedBy: 'caregiver-1',
+  syncMetadata: {
+    syncId: 'sync-1',
+    lastSyncedAt: new Date(2025, 4, 6, 13, 0),
+    syncStatus: 'SYNCED',
+  },
+  createdAt: new Date(2025, 4, 6, 13, 0),
+  createdBy: 'caregiver-1',
+  updatedAt: new Date(2025, 4, 6, 13, 0),
+  updatedBy: 'caregiver-1',
+  version: 1,
+  ...overrides,
+});
+
+class FakeEVVRecordProvider implements IEVVRecordProvider {
+  constructor(private records: PayrollEVVRecord[]) {}
+
+  async getEVVRecordsForPayroll(evvRecordIds: string[]): Promise<PayrollEVVRecord[]> {
+    return this.records.filter(({ record }) => evvRecordIds.includes(record.id));
+  }
+}
+
+const input = (evvRecordIds: string[]): CompileTimeSheetInput => ({
+  organizationId: 'org-1',
+  branchId: 'branch-1',
+  payPeriodId: 'period-1',
+  caregiverId: 'caregiver-1',
+  caregiverName: 'Jamie Rivera',
+  caregiverEmployeeId: 'EMP-001',
+  evvRecordIds,
+  regularRate: 20,
+});
+
+const payPeriod = {
+  id: 'period-1',
+  organizationId: 'org-1',
+  startDate: new Date(2025, 4, 1),
+  endDate: new Date(2025, 4, 14),
+  status: 'OPEN',
+} as PayPeriod;
+
+const returnTimeSheet = async (
+  sheet: Omit<TimeSheet, 'id' | 'createdAt' | 'updatedAt' | 'version' | 'deletedAt' | 'deletedBy'>
+): Promise<TimeSheet> => ({ ...sheet, id: 'sheet-1' }) as TimeSheet;
+
+const compile = (records: PayrollEVVRecord[], evvRecordIds: string[]): Promise<TimeSheet> => {
+  const service = new PayrollService({} as Pool, new FakeEVVRecordProvider(records));
+  return service.compileTimeSheet(input(evvRecordIds), 'user-1');
+};
+
+describe('PayrollService.compileTimeSheet', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    vi.spyOn(PayrollRepository.prototype, 'createTimeSheet').mockImplementation(returnTimeSheet);
+    vi.spyOn(PayrollRepository.prototype, 'findPayPeriodById').mockResolvedValue(payPeriod);
+  });
+
+  it('should pay verified visits from their clock times less unpaid breaks', async () => {
+    const record = evvRecord({
+      pauseEvents: [
+        {
+          id: 'pause-1',
+          pausedAt: new Date(2025, 4, 6, 11, 0),
+          resumedAt: new Date(2025, 4, 6, 11, 30),
+          reason: 'MEAL',
+          isPaid: false,
+        },
+      ],
+    });
+
+    const sheet = await compile([{ record }], ['evv-1']);
+    const [entry] = sheet.timeEntries;
+
+    expect(entry).toMatchObject({
+      visitId: 'visit-1',
+      evvRecordId: 'evv-1',
+      breakHours: 0.5,
+      totalHours: 3.5,
+      earnings: 70,
+      requiresReview: false,
+    });
+    expect(sheet.totalHours).toBe(3.5);
+    expect(sheet.evvRecordIds).toEqual(['evv-1']);
+    expect(sheet.visitIds).toEqual(['visit-1']);
+    expect(sheet.hasDiscrepancies).toBe(false);
+  });
+
+  it('should pay travel between consecutive visits at the base rate', async () => {
+    const second = evvRecord({
+      id: 'evv-2',
+      visitId: 'visit-2',
+      clientId: 'client-2',
+      clockInTime: new Date(2025, 4, 6, 13, 30),
+      clockOutTime: new Date(2025, 4, 6, 15, 30),
+    });
+    const evening = evvRecord({
+      id: 'evv-3',
+      visitId: 'visit-3',
+      clientId: 'client-3',
+      clockInTime: new Date(2025, 4, 6, 18, 0),
+      clockOutTime: new Date(2025, 4, 6, 19, 0),
+    });
+
+    const sheet = await compile(
+      [{ record: evening }, { record: second }, { record: evvRecord() }],
+      ['evv-1', 'evv-2', 'evv-3']
+    );
+
+    expect(sheet.timeEntries.map(entry => entry.evvRecordId)).toEqual(['evv-1', 'evv-2', 'evv-3']);
+    expect(sheet.timeEntries[0]!.travelHours).toBeUndefined();
+    expect(sheet.timeEntries[1]).toMatchObject({ travelHours: 0.5, totalHours: 2.5, earnings: 50 });
+    // A 2.5 hour gap is off duty, not travel
+    expect(sheet.timeEntries[2]!.travelHours).toBeUndefined();
+    expect(sheet.totalHours).toBe(7.5);
+  });
+
+  it('should use VMUR-corrected clock times supplied by the provider', async () => {
+    const record = evvRecord({
+      clockInTime: new Date(2025, 4, 6, 8, 0),
+      clockOutTime: new Date(2025, 4, 6, 14, 0),
+    });
+
+    const sheet = await compile(
+      [
+        {
+          record,
+          correction: {
+            vmurId: 'vmur-1',
+            approvedAt: new Date(2025, 5, 10),
+            originalClockInTime: new Date(2025, 4, 6, 9, 0),
+            originalClockOutTime: new Date(2025, 4, 6, 13, 0),
+          },
+        },
+      ],
+      ['evv-1']
+    );
+
+    expect(sheet.timeEntries[0]!.totalHours).toBe(6);
+    expect(sheet.hasDiscrepancies).toBe(false);
+  });
+
+  it('should flag unverified visits, open exceptions and pending corrections', async () => {
+    const record = evvRecord({
+      verificationLevel: 'PARTIAL',
+      complianceFlags: ['GEOFENCE_VIOLATION'],
+      clockOutVerification: verification({ verificationPassed: false }),
+    });
+
+    const sheet = await compile(
+      [
+        {
+          record,
+          openException: {
+            exceptionId: 'exception-1',
+            exceptionType: 'GEOFENCE',
+            severity: 'ERROR',
+            description: 'Clock-out 450m from service address',
+            status: 'OPEN',
+          },
+          pendingCorrection: {
+            vmurId: 'vmur-2',
+            requestedAt: new Date(2025, 5, 10),
+            requestReason: 'GPS_MALFUNCTION',
+          },
+        },
+      ],
+      ['evv-1']
+    );
+    const [entry] = sheet.timeEntries;
+
+    expect(entry!.requiresReview).toBe(true);
+    expect(sheet.hasDiscrepancies).toBe(true);
+    expect(sheet.discrepancyFlags).toEqual([
+      expect.objectContaining({
+        flagType: 'UNVERIFIED_EVV',
+        severity: 'HIGH',
+        description: expect.stringContaining(
+          'PARTIAL verification, clock-out location not verified, GEOFENCE_VIOLATION'
+        ),
+        affectedEntryIds: [entry!.id],
+        requiresResolution: true,
+      }),
+      expect.objectContaining({ flagType: 'EVV_EXCEPTION', severity: 'HIGH' }),
+      expect.objectContaining({ flagType: 'PENDING_CORRECTION', severity: 'MEDIUM' }),
+    ]);
+  });
+
+  it('should accept failed location checks once a supervisor overrides them', async () => {
+    const record = evvRecord({
+      clockInVerification: verification({
+        verificationPassed: false,
+        manualOverride: {
+          overrideBy: 'supervisor-1',
+          overrideAt: new Date(2025, 4, 6, 10, 0),
+          reason: 'Client moved to daughter\'s home',
+          reasonCode: 'CLIENT_LOCATION_CHANGE',
+          supervisorName: 'Pat Kim',
+          supervisorTitle: 'Field Supervisor',
+          approvalAuthority: 'BRANCH_ADMIN',
+          notes: 'Verified by phone',
+        },
+      }),
+    });
+
+    const sheet = await compile([{ record }], ['evv-1']);
+
+    expect(sheet.hasDiscrepancies).toBe(false);
+  });
+
+  it('should hold visits without a clock-out at zero hours', async () => {
+    const record = evvRecord({ clockOutTime: null, recordStatus: 'PENDING' });
+
+    const sheet = await compile([{ record }], ['evv-1']);
+
+    expect(sheet.timeEntries[0]!.totalHours).toBe(0);
+    expect(sheet.discrepancyFlags).toEqual([
+      expect.objectContaining({ flagType: 'MISSING_CLOCK_OUT', severity: 'CRITICAL' }),
+    ]);
+  });
+
+  it('should exclude missing, voided and other caregivers\' records', async () => {
+    const voided = evvRecord({ id: 'evv-2', visitId: 'visit-2', recordStatus: 'VOIDED' });
+    const otherCaregiver = evvRecord({ id: 'evv-3', visitId: 'visit-3', caregiverId: 'caregiver-2' });
+
+    const sheet = await compile(
+      [{ record: evvRecord() }, { record: voided }, { record: otherCaregiver }],
+      ['evv-1', 'evv-2', 'evv-3', 'evv-4']
+    );
+
+    expect(sheet.evvRecordIds).toEqual(['evv-1']);
+    expect(sheet.discrepancyFlags).toEqual([
+      expect.objectContaining({ flagType: 'MISSING_EVV', description: 'EVV record evv-4 not found' }),
+      expect.objectContaining({ flagType: 'OTHER', severity: 'LOW', requiresResolution: false }),
+      expect.objectContaining({ flagType: 'OTHER', severity: 'CRITICAL', requiresResolution: true }),
+    ]);
+  });
+
+  it('should exclude another organization\'s records', async () => {
+    const otherOrganization = evvRecord({ id: 'evv-2', visitId: 'visit-2', organizationId: 'org-2' });
+
+    const sheet = await compile([{ record: evvRecord() }, { record: otherOrganization }], ['evv-1', 'evv-2']);
+
+    expect(sheet.evvRecordIds).toEqual(['evv-1']);
+    expect(sheet.discrepancyFlags).toEqual([
+      expect.objectContaining({
+        flagType: 'OTHER',
+        severity: 'CRITICAL',
+        description: 'EVV record evv-2 belongs to a different organization',
+      }),
+    ]);
+  });
+
+  it('should flag visits outside the pay period for resolution', async () => {
+    const lastDay = evvRecord({
+      id: 'evv-2',
+      visitId: 'visit-2',
+      serviceDate: new Date(2025, 4, 14),
+      clockInTime: new Date(2025, 4, 14, 9, 0),
+      clockOutTime: new Date(2025, 4, 14, 10, 0),
+    });
+    const nextPeriod = evvRecord({
+      id: 'evv-3',
+      visitId: 'visit-3',
+      serviceDate: new Date(2025, 4, 15),
+      clockInTime: new Date(2025, 4, 15, 9, 0),
+      clockOutTime: new Date(2025, 4, 15, 10, 0),
+    });
+
+    const sheet = await compile(
+      [{ record: evvRecord() }, { record: lastDay }, { record: nextPeriod }],
+      ['evv-1', 'evv-2', 'evv-3']
+    );
+
+    expect(sheet.hasDiscrepancies).toBe(true);
+    expect(sheet.discrepancyFlags).toEqual([
+      expect.objectContaining({
+        flagType: 'DATE_MISMATCH',
+        description: expect.stringContaining('EVV record evv-3'),
+        requiresResolution: true,
+      }),
+    ]);
+  });
+
+  it('should reject a pay period from another organization', async () => {
+    vi.spyOn(PayrollRepository.prototype, 'findPayPeriodById').mockResolvedValue({ ...payPeriod, organizationId: 'org-2' });
+
+    await expect(compile([{ record: evvRecord() }], ['evv-1'])).rejects.toThrow('Pay period not found');
+  });
+});
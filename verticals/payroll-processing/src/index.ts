@@ -7,6 +7,18 @@
 // Types
 export * from './types/payroll';
 
+// Interfaces
+export type {
+  IEVVRecordProvider,
+  PayrollEVVRecord,
+  EVVRecordException,
+  EVVRecordCorrection,
+  EVVPendingCorrection,
+} from './interfaces/evv-record-provider';
+
+// Providers
+export { EVVRecordProvider, createEVVRecordProvider } from './providers/evv-record-provider';
+
 // Repository
 export { PayrollRepository } from './repository/payroll-repository';
 
@@ -25,3 +37,4 @@ export type { PayStubPDFData } from './service/pay-stub-generator.service';
 export * from './utils/pay-calculations';
 export * from './utils/tax-calculations';
 export * from './utils/deduction-calculations';
+export * from './utils/nacha';
@@ -0,0 +1,66 @@
+/**
+ * EVV Record Provider Interface
+ *
+ * Defines the contract for reading verified visit records from the time
+ * tracking (EVV) vertical. This keeps payroll decoupled from the EVV data
+ * layer so timesheets can be compiled against a fake provider in tests.
+ */
+
+import { UUID } from '@care-commons/core';
+import type { EVVRecord } from '@care-commons/time-tracking-evv';
+
+/**
+ * Unresolved entry in the EVV exception queue for a record
+ */
+export interface EVVRecordException {
+  exceptionId: UUID;
+  exceptionType: string;
+  severity: 'INFO' | 'WARNING' | 'ERROR' | 'CRITICAL';
+  description: string;
+  status: 'OPEN' | 'IN_PROGRESS' | 'ESCALATED';
+}
+
+/**
+ * Approved VMUR whose corrected times replace the captured ones
+ */
+export interface EVVRecordCorrection {
+  vmurId: UUID;
+  approvedAt: Date;
+  originalClockInTime: Date;
+  originalClockOutTime: Date | null;
+}
+
+/**
+ * VMUR awaiting supervisor approval - the visit times may still change
+ */
+export interface EVVPendingCorrection {
+  vmurId: UUID;
+  requestedAt: Date;
+  requestReason: string;
+}
+
+/**
+ * EVV record as seen by payroll
+ */
+export interface PayrollEVVRecord {
+  // Clock times already reflect any approved VMUR correction
+  record: EVVRecord;
+  correction?: EVVRecordCorrection;
+  pendingCorrection?: EVVPendingCorrection;
+  openException?: EVVRecordException;
+}
+
+/**
+ * EVV Record Provider Interface
+ *
+ * Implementations fetch EVV records for timesheet compilation.
+ */
+export interface IEVVRecordProvider {
+  /**
+   * Get EVV records by ID
+   *
+   * Records that don't exist are omitted from the result rather than
+   * throwing, so the caller can flag them as missing.
+   */
+  getEVVRecordsForPayroll(evvRecordIds: UUID[]): Promise<PayrollEVVRecord[]>;
+}
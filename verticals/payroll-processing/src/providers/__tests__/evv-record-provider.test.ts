@@ -0,0 +1,134 @@
+/**
+ * EVVRecordProvider Tests
+ *
+ * Tests how the provider combines EVV records with approved and pending
+ * VMURs and open exception queue items for payroll
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { Database } from '@care-commons/core';
+import {
+  EVVRepository,
+  EVVExceptionQueueRepository,
+  type EVVRecord,
+  type EVVExceptionQueueItem,
+} from '@care-commons/time-tracking-evv';
+import { EVVRecordProvider } from '../evv-record-provider';
+
+const record = {
+  id: 'evv-1',
+  visitId: 'visit-1',
+  caregiverId: 'caregiver-1',
+  clientId: 'client-1',
+  clockInTime: new Date('2025-03-03T14:00:00Z'),
+  clockOutTime: new Date('2025-03-03T18:00:00Z'),
+  totalDuration: 240,
+} as EVVRecord;
+
+const exception = {
+  id: 'exception-1',
+  evvRecordId: 'evv-1',
+  exceptionType: 'GEOFENCE',
+  exceptionSeverity: 'WARNING',
+  exceptionDescription: 'Clock-in outside geofence',
+  status: 'IN_PROGRESS',
+} as EVVExceptionQueueItem;
+
+const findRecord = async (id: string): Promise<EVVRecord | null> => (id === record.id ? record : null);
+
+describe('EVVRecordProvider', () => {
+  let mockDatabase: Database;
+  let provider: EVVRecordProvider;
+
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    mockDatabase = {
+      query: vi.fn().mockResolvedValue({ rows: [] }),
+    } as unknown as Database;
+    provider = new EVVRecordProvider(mockDatabase);
+
+    vi.spyOn(EVVRepository.prototype, 'getEVVRecordById').mockImplementation(findRecord);
+    vi.spyOn(EVVExceptionQueueRepository.prototype, 'getOpenExceptionForRecord').mockResolvedValue(null);
+  });
+
+  it('should omit records that do not exist', async () => {
+    const result = await provider.getEVVRecordsForPayroll(['evv-1', 'evv-missing']);
+
+    expect(result).toEqual([{ record }]);
+    expect(mockDatabase.query).toHaveBeenCalledWith(expect.stringContaining('FROM texas_vmur'), [['evv-1']]);
+  });
+
+  it('should overlay the latest approved VMUR and attach a pending one', async () => {
+    (mockDatabase.query as ReturnType<typeof vi.fn>).mockResolvedValue({
+      rows: [
+        {
+          id: 'vmur-2',
+          evv_record_id: 'evv-1',
+          approval_status: 'PENDING',
+          request_reason: 'GPS_MALFUNCTION',
+          requested_at: new Date('2025-04-10T12:00:00Z'),
+          approved_at: null,
+          original_data: {},
+          corrected_data: {},
+        },
+        {
+          id: 'vmur-1',
+          evv_record_id: 'evv-1',
+          approval_status: 'APPROVED',
+          request_reason: 'CLOCK_OUT_MISSED',
+          requested_at: new Date('2025-04-05T12:00:00Z'),
+          approved_at: new Date('2025-04-06T12:00:00Z'),
+          original_data: JSON.stringify({
+            clockInTime: '2025-03-03T14:00:00Z',
+            clockOutTime: '2025-03-03T18:00:00Z',
+            clockMethod: 'MOBILE_GPS',
+          }),
+          corrected_data: JSON.stringify({
+            clockInTime: '2025-03-03T13:30:00Z',
+            clockOutTime: '2025-03-03T19:00:00Z',
+            clockMethod: 'MOBILE_GPS',
+            totalDuration: 330,
+          }),
+        },
+      ],
+    });
+
+    const [result] = await provider.getEVVRecordsForPayroll(['evv-1']);
+
+    expect(result!.record).toMatchObject({
+      clockInTime: new Date('2025-03-03T13:30:00Z'),
+      clockOutTime: new Date('2025-03-03T19:00:00Z'),
+      totalDuration: 330,
+    });
+    expect(result!.correction).toEqual({
+      vmurId: 'vmur-1',
+      approvedAt: new Date('2025-04-06T12:00:00Z'),
+      originalClockInTime: new Date('2025-03-03T14:00:00Z'),
+      originalClockOutTime: new Date('2025-03-03T18:00:00Z'),
+    });
+    expect(result!.pendingCorrection).toEqual({
+      vmurId: 'vmur-2',
+      requestedAt: new Date('2025-04-10T12:00:00Z'),
+      requestReason: 'GPS_MALFUNCTION',
+    });
+  });
+
+  it('should attach the open exception queue item', async () => {
+    vi.spyOn(EVVExceptionQueueRepository.prototype, 'getOpenExceptionForRecord').mockResolvedValue(exception);
+
+    const [result] = await provider.getEVVRecordsForPayroll(['evv-1']);
+
+    expect(result!.openException).toEqual({
+      exceptionId: 'exception-1',
+      exceptionType: 'GEOFENCE',
+      severity: 'WARNING',
+      description: 'Clock-in outside geofence',
+      status: 'IN_PROGRESS',
+    });
+  });
+
+  it('should not query anything for an empty list', async () => {
+    expect(await provider.getEVVRecordsForPayroll([])).toEqual([]);
+    expect(mockDatabase.query).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * EVV Record Provider Implementation
+ *
+ * Reads EVV records for timesheet compilation through the time tracking
+ * vertical's repositories. Implements the IEVVRecordProvider interface.
+ */
+
+import { UUID, Database } from '@care-commons/core';
+import {
+  EVVRepository,
+  EVVExceptionQueueRepository,
+  type EVVRecord,
+  type EVVExceptionQueueItem,
+  type TexasEVVDataSnapshot,
+} from '@care-commons/time-tracking-evv';
+import type {
+  IEVVRecordProvider,
+  PayrollEVVRecord,
+  EVVRecordCorrection,
+  EVVRecordException,
+  EVVPendingCorrection,
+} from '../interfaces/evv-record-provider';
+
+interface VMURRow {
+  id: string;
+  evv_record_id: string;
+  approval_status: 'APPROVED' | 'PENDING';
+  request_reason: string;
+  requested_at: Date;
+  approved_at: Date | null;
+  original_data: string | TexasEVVDataSnapshot;
+  corrected_data: string | TexasEVVDataSnapshot;
+}
+
+/**
+ * EVV Record Provider for payroll
+ *
+ * Overlays the latest approved VMUR on each record's clock times and
+ * attaches pending VMURs and open exception queue items so payroll can
+ * hold those visits for review.
+ */
+export class EVVRecordProvider implements IEVVRecordProvider {
+  private evvRepository: EVVRepository;
+  private exceptionRepository: EVVExceptionQueueRepository;
+
+  constructor(private database: Database) {
+    this.evvRepository = new EVVRepository(database);
+    this.exceptionRepository = new EVVExceptionQueueRepository(database);
+  }
+
+  async getEVVRecordsForPayroll(evvRecordIds: UUID[]): Promise<PayrollEVVRecord[]> {
+    if (evvRecordIds.length === 0) {
+      return [];
+    }
+
+    const records = await Promise.all(
+      evvRecordIds.map(id => this.evvRepository.getEVVRecordById(id))
+    );
+    const found = records.filter((record): record is EVVRecord => record !== null);
+
+    const [exceptions, vmurs] = await Promise.all([
+      Promise.all(found.map(record => this.exceptionRepository.getOpenExceptionForRecord(record.id))),
+      this.getVMURs(found.map(record => record.id)),
+    ]);
+
+    return found.map((record, index) => {
+      const recordVMURs = vmurs.filter(vmur => vmur.evv_record_id === record.id);
+      const approved = recordVMURs.find(vmur => vmur.approval_status === 'APPROVED');
+      const pending = recordVMURs.find(vmur => vmur.approval_status === 'PENDING');
+      const exception = exceptions[index];
+
+      const corrected = approved ? this.applyCorrection(record, approved) : undefined;
+
+      return {
+        record: corrected?.record ?? record,
+        ...(corrected !== undefined && { correction: corrected.correction }),
+        ...(pending !== undefined && { pendingCorrection: this.mapPendingCorrection(pending) }),
+        ...(exception && { openException: this.mapException(exception) }),
+      };
+    });
+  }
+
+  /**
+   * Approved and still-pending VMURs for the records, newest first
+   */
+  private async getVMURs(evvRecordIds: UUID[]): Promise<VMURRow[]> {
+    if (evvRecordIds.length === 0) {
+      return [];
+    }
+
+    const query = `
+      SELECT id, evv_record_id, approval_status, request_reason,
+             requested_at, approved_at, original_data, corrected_data
+      FROM texas_vmur
+      WHERE evv_record_id = ANY($1)
+        AND (
+          approval_status = 'APPROVED'
+          OR (approval_status = 'PENDING' AND expires_at > NOW())
+        )
+      ORDER BY requested_at DESC
+    `;
+
+    const result = await this.database.query(query, [evvRecordIds]);
+    return result.rows as unknown as VMURRow[];
+  }
+
+  private applyCorrection(
+    record: EVVRecord,
+    vmur: VMURRow
+  ): { record: EVVRecord; correction: EVVRecordCorrection } {
+    const original = this.parseSnapshot(vmur.original_data);
+    const corrected = this.parseSnapshot(vmur.corrected_data);
+    const clockOutTime = corrected.clockOutTime ? new Date(corrected.clockOutTime) : record.clockOutTime;
+
+    return {
+      record: {
+        ...record,
+        clockInTime: new Date(corrected.clockInTime),
+        clockOutTime,
+        ...(corrected.totalDuration !== undefined && { totalDuration: corrected.totalDuration }),
+      },
+      correction: {
+        vmurId: vmur.id,
+        approvedAt: new Date(vmur.approved_at ?? vmur.requested_at),
+        originalClockInTime: new Date(original.clockInTime),
+        originalClockOutTime: original.clockOutTime ? new Date(original.clockOutTime) : null,
+      },
+    };
+  }
+
+  private mapPendingCorrection(vmur: VMURRow): EVVPendingCorrection {
+    return {
+      vmurId: vmur.id,
+      requestedAt: new Date(vmur.requested_at),
+      requestReason: vmur.request_reason,
+    };
+  }
+
+  private mapException(item: EVVExceptionQueueItem): EVVRecordException {
+    return {
+      exceptionId: item.id,
+      exceptionType: item.exceptionType,
+      severity: item.exceptionSeverity,
+      description: item.exceptionDescription,
+      status: item.status as EVVRecordException['status'],
+    };
+  }
+
+  private parseSnapshot(value: string | TexasEVVDataSnapshot): TexasEVVDataSnapshot {
+    return typeof value === 'string' ? (JSON.parse(value) as TexasEVVDataSnapshot) : value;
+  }
+}
+
+/**
+ * Factory function to create an EVVRecordProvider instance
+ */
+export function createEVVRecordProvider(database: Database): IEVVRecordProvider {
+  return new EVVRecordProvider(database);
+}
@@ -15,12 +15,17 @@ import {
   PaymentRecord,
   TaxConfiguration,
   ACHBatch,
+  ACHBatchStatus,
+  ACHReturn,
+  DirectDepositAccount,
   Deduction,
   PayPeriodSearchFilters,
   TimeSheetSearchFilters,
   PayStubSearchFilters,
   PaymentSearchFilters,
   PaymentMethod,
+  PayStubStatus,
+  PayStubStatusChange,
   CheckStatus,
 } from '../types/payroll';
 
@@ -587,7 +592,8 @@ export class PayrollRepository {
 
   async updatePayRun(
     id: UUID,
-    updates: Partial<PayRun>
+    updates: Partial<PayRun>,
+    client?: PoolClient
   ): Promise<PayRun | null> {
     const existing = await this.findPayRunById(id);
     if (!existing) return null;
@@ -631,6 +637,21 @@ export class PayrollRepository {
       params.push(updates.processedBy);
     }
 
+    if (updates.directDepositCount !== undefined) {
+      fields.push(`direct_deposit_count = $${paramIndex++}`);
+      params.push(updates.directDepositCount);
+    }
+
+    if (updates.directDepositAmount !== undefined) {
+      fields.push(`direct_deposit_amount = $${paramIndex++}`);
+      params.push(updates.directDepositAmount);
+    }
+
+    if (updates.exportFiles !== undefined) {
+      fields.push(`export_files = $${paramIndex++}`);
+      params.push(JSON.stringify(updates.exportFiles));
+    }
+
     if (fields.length === 0) return existing;
 
     fields.push(`updated_at = $${paramIndex++}`);
@@ -638,7 +659,8 @@ export class PayrollRepository {
     fields.push(`version = version + 1`);
     params.push(id);
 
-    const result = await this.pool.query(
+    const db = client || this.pool;
+    const result = await db.query(
       `UPDATE pay_runs SET ${fields.join(', ')} WHERE id = $${paramIndex} RETURNING *`,
       params
     );
@@ -1162,6 +1184,141 @@ export class PayrollRepository {
     return result.rows.map(this.mapPaymentRecord);
   }
 
+  /**
+   * Reserve the next count trace sequences for an ODFI, returning the
+   * first. The counter row stays locked until the caller's transaction
+   * ends, so concurrent files never share sequences.
+   */
+  async reserveACHTraceSequences(
+    odfiId: string,
+    count: number,
+    client: PoolClient
+  ): Promise<number> {
+    const result = await client.query(
+      `
+      INSERT INTO ach_trace_sequences (odfi_id, last_sequence)
+      VALUES ($1, $2)
+      ON CONFLICT (odfi_id) DO UPDATE
+      SET last_sequence = ach_trace_sequences.last_sequence + EXCLUDED.last_sequence,
+          updated_at = NOW()
+      RETURNING last_sequence
+      `,
+      [odfiId, count]
+    );
+    return Number(result.rows[0].last_sequence) - count + 1;
+  }
+
+  async findPaymentRecordByTraceNumber(
+    organizationId: UUID,
+    traceNumber: string
+  ): Promise<PaymentRecord | null> {
+    const result = await this.pool.query(
+      `SELECT * FROM payment_records
+       WHERE organization_id = $1 AND trace_number = $2
+       ORDER BY created_at DESC
+       LIMIT 1`,
+      [organizationId, traceNumber]
+    );
+    return result.rows[0] ? this.mapPaymentRecord(result.rows[0]) : null;
+  }
+
+  async updatePaymentRecord(
+    id: UUID,
+    updates: Partial<PaymentRecord>,
+    userId: UUID,
+    client?: PoolClient
+  ): Promise<void> {
+    const fields: string[] = [];
+    const params: unknown[] = [];
+    let paramIndex = 1;
+
+    if (updates.status !== undefined) {
+      fields.push(`status = $${paramIndex++}`);
+      params.push(updates.status);
+    }
+
+    if (updates.statusHistory !== undefined) {
+      fields.push(`status_history = $${paramIndex++}`);
+      params.push(JSON.stringify(updates.statusHistory));
+    }
+
+    if (updates.achBatchId !== undefined) {
+      fields.push(`ach_batch_id = $${paramIndex++}`);
+      params.push(updates.achBatchId);
+    }
+
+    if (updates.achFileId !== undefined) {
+      fields.push(`ach_file_id = $${paramIndex++}`);
+      params.push(updates.achFileId);
+    }
+
+    if (updates.hasErrors !== undefined) {
+      fields.push(`has_errors = $${paramIndex++}`);
+      params.push(updates.hasErrors);
+    }
+
+    if (updates.errorCode !== undefined) {
+      fields.push(`error_code = $${paramIndex++}`);
+      params.push(updates.errorCode);
+    }
+
+    if (updates.errorMessage !== undefined) {
+      fields.push(`error_message = $${paramIndex++}`);
+      params.push(updates.errorMessage);
+    }
+
+    if (updates.errorDetails !== undefined) {
+      fields.push(`error_details = $${paramIndex++}`);
+      params.push(updates.errorDetails);
+    }
+
+    if (fields.length === 0) return;
+
+    fields.push(`updated_at = $${paramIndex++}`);
+    params.push(new Date());
+    fields.push(`updated_by = $${paramIndex++}`);
+    params.push(userId);
+    fields.push(`version = version + 1`);
+    params.push(id);
+
+    const db = client || this.pool;
+    await db.query(
+      `UPDATE payment_records SET ${fields.join(', ')} WHERE id = $${paramIndex}`,
+      params
+    );
+  }
+
+  /**
+   * Direct deposit account from the caregiver's payroll info
+   */
+  async findDirectDepositAccounts(caregiverIds: UUID[]): Promise<DirectDepositAccount[]> {
+    const result = await this.pool.query(
+      `SELECT id, first_name, last_name, payroll_info FROM caregivers
+       WHERE id = ANY($1) AND deleted_at IS NULL`,
+      [caregiverIds]
+    );
+
+    const accounts: DirectDepositAccount[] = [];
+    for (const row of result.rows) {
+      const payrollInfo = row['payroll_info'] as {
+        bankAccount?: Partial<DirectDepositAccount>;
+      } | null;
+      const bankAccount = payrollInfo?.bankAccount;
+      if (!bankAccount?.routingNumber || !bankAccount.accountNumber) {
+        continue;
+      }
+      accounts.push({
+        caregiverId: row['id'] as UUID,
+        accountHolderName:
+          bankAccount.accountHolderName || `${row['first_name']} ${row['last_name']}`,
+        accountType: bankAccount.accountType === 'SAVINGS' ? 'SAVINGS' : 'CHECKING',
+        routingNumber: bankAccount.routingNumber,
+        accountNumber: bankAccount.accountNumber,
+      });
+    }
+    return accounts;
+  }
+
   /**
    * ACH BATCH OPERATIONS
    */
@@ -1234,6 +1391,62 @@ export class PayrollRepository {
     return this.mapACHBatch(result.rows[0]);
   }
 
+  async findACHBatchById(id: UUID): Promise<ACHBatch | null> {
+    const result = await this.pool.query(
+      'SELECT * FROM ach_batches WHERE id = $1',
+      [id]
+    );
+    return result.rows[0] ? this.mapACHBatch(result.rows[0]) : null;
+  }
+
+  async recordACHReturns(
+    id: UUID,
+    status: ACHBatchStatus,
+    returns: ACHReturn[],
+    userId: UUID
+  ): Promise<void> {
+    await this.pool.query(
+      `
+      UPDATE ach_batches
+      SET 
+        status = $2,
+        has_returns = $3,
+        return_count = $4,
+        returns = $5,
+        updated_at = NOW(),
+        updated_by = $6,
+        version = version + 1
+      WHERE id = $1
+      `,
+      [id, status, returns.length > 0, returns.length, JSON.stringify(returns), userId]
+    );
+  }
+
+  async linkPayStubPayment(
+    payStubId: UUID,
+    paymentId: UUID,
+    status: PayStubStatus,
+    statusHistory: PayStubStatusChange[],
+    userId: UUID,
+    client?: PoolClient
+  ): Promise<void> {
+    const db = client || this.pool;
+    await db.query(
+      `
+      UPDATE pay_stubs
+      SET 
+        payment_id = $2,
+        status = $3,
+        status_history = $4,
+        updated_at = NOW(),
+        updated_by = $5,
+        version = version + 1
+      WHERE id = $1
+      `,
+      [payStubId, paymentId, status, JSON.stringify(statusHistory), userId]
+    );
+  }
+
   /**
    * Mappers - Convert DB rows to domain models
    */
@@ -6,10 +6,19 @@
  * deduction processing, and payment generation
  */
 
+import { createHash } from 'node:crypto';
+import { mkdir, writeFile } from 'node:fs/promises';
+import path from 'node:path';
 import { Pool, PoolClient } from 'pg';
 import { v4 as uuid } from 'uuid';
 import { UUID } from '@care-commons/core';
+import type { ComplianceFlag, EVVRecord, LocationVerification } from '@care-commons/time-tracking-evv';
 import { PayrollRepository } from '../repository/payroll-repository';
+import type {
+  IEVVRecordProvider,
+  PayrollEVVRecord,
+  EVVRecordException,
+} from '../interfaces/evv-record-provider';
 
 import {
   PayPeriod,
@@ -23,6 +32,16 @@ import {
   PayRunType,
   DiscrepancyFlag,
   PayRateMultiplier,
+  GenerateACHFileInput,
+  ACHFileResult,
+  ACHReturn,
+  ACHBatch,
+  ExportFile,
+  ImportACHReturnsInput,
+  ACHReturnImportResult,
+  ACHTransactionCode,
+  NACHAEntry,
+  PaymentRecord,
 } from '../types/payroll';
 
 import {
@@ -32,38 +51,44 @@ import {
   calculateMedicareTax,
 } from '../utils/tax-calculations';
 
+import {
+  generateNACHAFile,
+  parseACHReturns,
+  ACH_RETURN_REASONS,
+} from '../utils/nacha';
+
 /**
- * Mock EVV Record interface for internal use
+ * PPD transaction codes by account type
  */
-interface MockEVVRecord {
-  id: UUID;
-  visitId: UUID;
-  organizationId: UUID;
-  branchId: UUID;
-  clientId: UUID;
-  caregiverId: UUID;
-  serviceTypeCode: string;
-  serviceTypeName: string;
-  clientName: string;
-  caregiverName: string;
-  caregiverEmployeeId: string;
-  serviceDate: Date;
-  clockInTime: Date;
-  clockOutTime: Date;
-  totalDuration: number;
-  recordStatus: 'COMPLETE';
-  verificationLevel: 'FULL';
-  complianceFlags: never[];
-  integrityHash: string;
-  integrityChecksum: string;
-  recordedAt: Date;
-  recordedBy: UUID;
-  syncMetadata: {
-    version: number;
-    lastSyncAt: Date;
-    conflictResolved: boolean;
-  };
-}
+const ACH_TRANSACTION_CODES: Record<'CHECKING' | 'SAVINGS', { credit: ACHTransactionCode; prenote: ACHTransactionCode }> = {
+  CHECKING: { credit: '22', prenote: '23' },
+  SAVINGS: { credit: '32', prenote: '33' },
+};
+
+/**
+ * EVV compliance flags that mean a visit could not be verified
+ */
+const UNVERIFIED_COMPLIANCE_FLAGS: ComplianceFlag[] = [
+  'GEOFENCE_VIOLATION',
+  'TIME_GAP',
+  'DEVICE_SUSPICIOUS',
+  'LOCATION_SUSPICIOUS',
+  'DUPLICATE_ENTRY',
+  'MISSING_SIGNATURE',
+];
+
+const EVV_EXCEPTION_SEVERITY: Record<EVVRecordException['severity'], DiscrepancyFlag['severity']> = {
+  INFO: 'LOW',
+  WARNING: 'MEDIUM',
+  ERROR: 'HIGH',
+  CRITICAL: 'CRITICAL',
+};
+
+/**
+ * Gaps between consecutive visits at different clients up to this long are
+ * paid as travel time; longer gaps are treated as off duty
+ */
+const MAX_TRAVEL_GAP_MINUTES = 60;
 
 /**
  * Input for creating a pay period
@@ -118,7 +143,10 @@ export interface ApproveTimeSheetInput {
 export class PayrollService {
   private repository: PayrollRepository;
 
-  constructor(private pool: Pool) {
+  constructor(
+    private pool: Pool,
+    private evvRecordProvider: IEVVRecordProvider
+  ) {
     this.repository = new PayrollRepository(pool);
   }
 
@@ -167,11 +195,19 @@ export class PayrollService {
     input: CompileTimeSheetInput,
     userId: UUID
   ): Promise<TimeSheet> {
+    const payPeriod = await this.repository.findPayPeriodById(input.payPeriodId);
+    if (!payPeriod || payPeriod.organizationId !== input.organizationId) {
+      throw new Error('Pay period not found');
+    }
+
     // Fetch EVV records for the pay period
-    const evvRecords = await this.fetchEVVRecords(input);
+    const evvRecords = await this.evvRecordProvider.getEVVRecordsForPayroll(input.evvRecordIds);
+
+    // Drop records that can't be paid on this timesheet
+    const { payableRecords, recordFlags } = this.selectPayableEVVRecords(evvRecords, input, payPeriod);
     
     // Convert EVV records to timesheet entries
-    const timeEntries = await this.convertEVVToTimeSheetEntries(evvRecords, input);
+    const timeEntries = await this.convertEVVToTimeSheetEntries(payableRecords, input);
     
     // Calculate hours and earnings
     const hoursCalculation = this.calculateHours(timeEntries);
@@ -181,10 +217,11 @@ export class PayrollService {
     const overtimeCalculation = this.calculateOvertime(hoursCalculation);
     
     // Detect discrepancies
-    const discrepancies = this.detectTimeSheetDiscrepancies(
-      timeEntries,
-      overtimeCalculation.totalHours
-    );
+    const discrepancies = [
+      ...recordFlags,
+      ...this.detectEVVDiscrepancies(payableRecords, timeEntries),
+      ...this.detectTimeSheetDiscrepancies(timeEntries, overtimeCalculation.totalHours),
+    ];
 
     const timeSheet: Omit<
       TimeSheet,
@@ -234,7 +271,7 @@ export class PayrollService {
       ],
       hasDiscrepancies: discrepancies.length > 0,
       discrepancyFlags: discrepancies,
-      evvRecordIds: input.evvRecordIds,
+      evvRecordIds: timeEntries.map(entry => entry.evvRecordId),
       visitIds: timeEntries.map(entry => entry.visitId),
       createdBy: userId,
       updatedBy: userId,
@@ -792,18 +829,6 @@ export class PayrollService {
       }
     });
 
-    // Check for entries requiring review
-    const entriesNeedingReview = entries.filter(entry => entry.requiresReview);
-    if (entriesNeedingReview.length > 0) {
-      flags.push({
-        flagType: 'RATE_MISMATCH',
-        severity: 'MEDIUM',
-        description: `${entriesNeedingReview.length} entries require supervisor review`,
-        affectedEntryIds: entriesNeedingReview.map(entry => entry.id),
-        requiresResolution: true,
-      });
-    }
-
     return flags;
   }
 
@@ -824,58 +849,115 @@ export class PayrollService {
   }
 
   /**
-   * Fetch EVV records for timesheet compilation
+   * Split EVV records into those payable on this timesheet and flags for
+   * the rest (missing, another organization's or caregiver's visit, or
+   * voided). Visits outside the pay period stay on the timesheet but must be
+   * resolved before it is approved.
    */
-  private async fetchEVVRecords(input: CompileTimeSheetInput): Promise<MockEVVRecord[]> {
-    // In a real implementation, this would call the EVV service
-    // For now, we'll simulate fetching EVV records
-    const mockEVVRecords = input.evvRecordIds.map(id => ({
-      id,
-      visitId: uuid(),
-      organizationId: input.organizationId,
-      branchId: input.branchId,
-      clientId: uuid(),
-      caregiverId: input.caregiverId,
-      serviceTypeCode: 'HCBS',
-      serviceTypeName: 'Home Care',
-      clientName: 'Client Name',
-      caregiverName: input.caregiverName,
-      caregiverEmployeeId: input.caregiverEmployeeId,
-      serviceDate: new Date(),
-      clockInTime: new Date(Date.now() - 8 * 60 * 60 * 1000), // 8 hours ago
-      clockOutTime: new Date(),
-      totalDuration: 480, // 8 hours in minutes
-      recordStatus: 'COMPLETE' as const,
-      verificationLevel: 'FULL' as const,
-      complianceFlags: [] as never[],
-      integrityHash: 'mock-hash',
-      integrityChecksum: 'mock-checksum',
-      recordedAt: new Date(),
-      recordedBy: input.caregiverId,
-      syncMetadata: {
-        version: 1,
-        lastSyncAt: new Date(),
-        conflictResolved: false,
-      },
-    }));
-
-    return mockEVVRecords;
+  private selectPayableEVVRecords(
+    evvRecords: PayrollEVVRecord[],
+    input: CompileTimeSheetInput,
+    payPeriod: PayPeriod
+  ): { payableRecords: PayrollEVVRecord[]; recordFlags: DiscrepancyFlag[] } {
+    const recordFlags: DiscrepancyFlag[] = [];
+    const foundIds = new Set(evvRecords.map(({ record }) => record.id));
+
+    input.evvRecordIds
+      .filter(id => !foundIds.has(id))
+      .forEach(id => {
+        recordFlags.push({
+          flagType: 'MISSING_EVV',
+          severity: 'CRITICAL',
+          description: `EVV record ${id} not found`,
+          requiresResolution: true,
+        });
+      });
+
+    const payableRecords = evvRecords.filter(({ record }) => {
+      if (record.organizationId !== input.organizationId) {
+        recordFlags.push({
+          flagType: 'OTHER',
+          severity: 'CRITICAL',
+          description: `EVV record ${record.id} belongs to a different organization`,
+          requiresResolution: true,
+        });
+        return false;
+      }
+
+      if (record.caregiverId !== input.caregiverId) {
+        recordFlags.push({
+          flagType: 'OTHER',
+          severity: 'CRITICAL',
+          description: `EVV record ${record.id} belongs to a different caregiver`,
+          requiresResolution: true,
+        });
+        return false;
+      }
+
+      if (record.recordStatus === 'VOIDED') {
+        recordFlags.push({
+          flagType: 'OTHER',
+          severity: 'LOW',
+          description: `Voided EVV record ${record.id} excluded from timesheet`,
+          requiresResolution: false,
+        });
+        return false;
+      }
+
+      if (!this.isWithinPayPeriod(record.serviceDate, payPeriod)) {
+        recordFlags.push({
+          flagType: 'DATE_MISMATCH',
+          severity: 'HIGH',
+          description: `EVV record ${record.id} service date ${new Date(record.serviceDate).toDateString()} is outside the pay period`,
+          requiresResolution: true,
+        });
+      }
+
+      return true;
+    });
+
+    return { payableRecords, recordFlags };
+  }
+
+  /**
+   * Whether a service date falls on a day from the pay period's start date
+   * through its end date
+   */
+  private isWithinPayPeriod(serviceDate: Date, payPeriod: PayPeriod): boolean {
+    const day = (date: Date): number => new Date(date).setHours(0, 0, 0, 0);
+    const serviceDay = day(serviceDate);
+    return serviceDay >= day(payPeriod.startDate) && serviceDay <= day(payPeriod.endDate);
   }
 
   /**
    * Convert EVV records to timesheet entries
+   *
+   * Hours run from clock-in to clock-out less unpaid pauses, plus paid
+   * travel from the caregiver's previous visit. Visits without a clock-out
+   * are carried at zero hours until the record is completed.
    */
   private async convertEVVToTimeSheetEntries(
-    evvRecords: MockEVVRecord[],
+    evvRecords: PayrollEVVRecord[],
     input: CompileTimeSheetInput
   ): Promise<TimeSheetEntry[]> {
-    return evvRecords.map(evvRecord => {
+    const sortedRecords = [...evvRecords].sort(
+      (a, b) => new Date(a.record.clockInTime).getTime() - new Date(b.record.clockInTime).getTime()
+    );
+
+    let previousRecord: EVVRecord | undefined;
+
+    return sortedRecords.map(payrollRecord => {
+      const evvRecord = payrollRecord.record;
       const workDate = new Date(evvRecord.serviceDate);
       const clockInTime = new Date(evvRecord.clockInTime);
-      const clockOutTime = evvRecord.clockOutTime ? new Date(evvRecord.clockOutTime) : new Date();
+      const clockOutTime = evvRecord.clockOutTime ? new Date(evvRecord.clockOutTime) : clockInTime;
       
-      // Calculate total hours worked
-      const totalHours = (clockOutTime.getTime() - clockInTime.getTime()) / (1000 * 60 * 60);
+      // Calculate hours worked and paid travel
+      const breakHours = this.calculateUnpaidBreakHours(evvRecord);
+      const workedHours = (clockOutTime.getTime() - clockInTime.getTime()) / (1000 * 60 * 60) - breakHours;
+      const travelHours = this.calculateTravelHours(previousRecord, evvRecord);
+      const totalHours = workedHours + travelHours;
+      previousRecord = evvRecord;
       
       // Determine if this is weekend, holiday, or night shift
       const isWeekend = workDate.getDay() === 0 || workDate.getDay() === 6;
@@ -916,7 +998,10 @@ export class PayrollService {
         effectiveRate *= 1.5;
       }
       
-      const reviewReason = evvRecord.complianceFlags.length > 0 ? evvRecord.complianceFlags.join(', ') : undefined;
+      const reviewFlags = this.reviewEVVRecord(payrollRecord);
+      const reviewReason = reviewFlags.length > 0
+        ? reviewFlags.map(flag => flag.description).join('; ')
+        : undefined;
       
       return {
         id: uuid(),
@@ -930,7 +1015,8 @@ export class PayrollService {
         regularHours: totalHours, // Initially all regular, will be adjusted for overtime
         overtimeHours: 0,
         doubleTimeHours: 0,
-        breakHours: 0,
+        breakHours,
+        ...(travelHours > 0 && { travelHours }),
         totalHours,
         payRate: effectiveRate,
         payRateType: isWeekend ? 'WEEKEND' : isHoliday ? 'HOLIDAY' : isNightShift ? 'NIGHT_SHIFT' : 'REGULAR',
@@ -939,16 +1025,153 @@ export class PayrollService {
         isNightShift,
         isLiveIn: false,
         appliedMultipliers,
-        earnings: totalHours * effectiveRate,
+        // Travel is paid at the base rate, not the visit differentials
+        earnings: workedHours * effectiveRate + travelHours * input.regularRate,
         serviceType: evvRecord.serviceTypeName,
         serviceCode: evvRecord.serviceTypeCode,
         isBillable: true,
-        requiresReview: evvRecord.complianceFlags.length > 0,
+        requiresReview: reviewFlags.length > 0,
         ...(reviewReason !== undefined && { reviewReason }),
       };
     });
   }
 
+  /**
+   * Hours of unpaid pauses (breaks, meals) during a visit
+   */
+  private calculateUnpaidBreakHours(evvRecord: EVVRecord): number {
+    const minutes = (evvRecord.pauseEvents ?? [])
+      .filter(pause => !pause.isPaid && pause.resumedAt !== null)
+      .reduce((sum, pause) => {
+        const duration = pause.duration
+          ?? (new Date(pause.resumedAt!).getTime() - new Date(pause.pausedAt).getTime()) / (1000 * 60);
+        return sum + duration;
+      }, 0);
+    return minutes / 60;
+  }
+
+  /**
+   * Paid travel time between the previous visit and this one
+   */
+  private calculateTravelHours(previousRecord: EVVRecord | undefined, evvRecord: EVVRecord): number {
+    if (!previousRecord?.clockOutTime || previousRecord.clientId === evvRecord.clientId) {
+      return 0;
+    }
+
+    const gapMinutes =
+      (new Date(evvRecord.clockInTime).getTime() - new Date(previousRecord.clockOutTime).getTime()) / (1000 * 60);
+    return gapMinutes > 0 && gapMinutes <= MAX_TRAVEL_GAP_MINUTES ? gapMinutes / 60 : 0;
+  }
+
+  /**
+   * Flag EVV records that shouldn't be paid until someone reviews them
+   */
+  private detectEVVDiscrepancies(
+    evvRecords: PayrollEVVRecord[],
+    entries: TimeSheetEntry[]
+  ): DiscrepancyFlag[] {
+    return evvRecords.flatMap(payrollRecord => {
+      const entry = entries.find(item => item.evvRecordId === payrollRecord.record.id);
+      return this.reviewEVVRecord(payrollRecord).map(flag => ({
+        ...flag,
+        ...(entry !== undefined && { affectedEntryIds: [entry.id] }),
+      }));
+    });
+  }
+
+  /**
+   * Verification problems, open exceptions and pending corrections on a record
+   */
+  private reviewEVVRecord(payrollRecord: PayrollEVVRecord): DiscrepancyFlag[] {
+    const { record, openException, pendingCorrection } = payrollRecord;
+    const visitDate = new Date(record.serviceDate).toDateString();
+    const flags: DiscrepancyFlag[] = [];
+
+    if (!record.clockOutTime) {
+      flags.push({
+        flagType: 'MISSING_CLOCK_OUT',
+        severity: 'CRITICAL',
+        description: `No clock-out recorded for visit on ${visitDate}`,
+        requiresResolution: true,
+      });
+    }
+
+    const verificationIssues = this.getEVVVerificationIssues(record);
+    if (verificationIssues.length > 0) {
+      flags.push({
+        flagType: 'UNVERIFIED_EVV',
+        severity: 'HIGH',
+        description: `Unverified visit on ${visitDate}: ${verificationIssues.join(', ')}`,
+        requiresResolution: true,
+      });
+    }
+
+    if (openException) {
+      flags.push({
+        flagType: 'EVV_EXCEPTION',
+        severity: EVV_EXCEPTION_SEVERITY[openException.severity],
+        description: `Unresolved EVV exception on ${visitDate}: ${openException.description}`,
+        requiresResolution: true,
+      });
+    }
+
+    (record.exceptionEvents ?? [])
+      .filter(event => !event.resolvedAt)
+      .forEach(event => {
+        flags.push({
+          flagType: 'EVV_EXCEPTION',
+          severity: event.severity,
+          description: `Unresolved ${event.exceptionType} on ${visitDate}: ${event.description}`,
+          requiresResolution: true,
+        });
+      });
+
+    if (pendingCorrection) {
+      flags.push({
+        flagType: 'PENDING_CORRECTION',
+        severity: 'MEDIUM',
+        description: `Visit correction on ${visitDate} awaiting approval (${pendingCorrection.requestReason})`,
+        requiresResolution: true,
+      });
+    }
+
+    return flags;
+  }
+
+  /**
+   * Reasons an EVV record doesn't count as verified
+   */
+  private getEVVVerificationIssues(record: EVVRecord): string[] {
+    const issues: string[] = [];
+
+    if (record.verificationLevel === 'PARTIAL' || record.verificationLevel === 'EXCEPTION') {
+      issues.push(`${record.verificationLevel} verification`);
+    }
+
+    if (!this.isLocationVerified(record.clockInVerification)) {
+      issues.push('clock-in location not verified');
+    }
+
+    if (record.clockOutVerification && !this.isLocationVerified(record.clockOutVerification)) {
+      issues.push('clock-out location not verified');
+    }
+
+    issues.push(...record.complianceFlags.filter(flag => UNVERIFIED_COMPLIANCE_FLAGS.includes(flag)));
+
+    if (record.recordStatus === 'DISPUTED') {
+      issues.push('record disputed');
+    }
+
+    return issues;
+  }
+
+  /**
+   * A failed location check still counts once a supervisor overrides it
+   */
+  private isLocationVerified(verification: LocationVerification): boolean {
+    return verification.verificationPassed || verification.manualOverride !== undefined;
+  }
+
   /**
    * Calculate hours breakdown from timesheet entries
    */
@@ -1061,6 +1284,359 @@ export class PayrollService {
     );
   }
 
+  /**
+   * Generate the NACHA direct deposit file for an approved pay run
+   *
+   * Creates a payment record for each direct deposit pay stub, writes a PPD
+   * credit file and attaches it to the pay run as an export file. Caregivers
+   * listed for prenote get a zero-dollar verification entry instead of a
+   * credit, so their pay stubs are returned to be paid another way.
+   */
+  async generateACHFile(
+    input: GenerateACHFileInput,
+    userId: UUID
+  ): Promise<ACHFileResult> {
+    const payRun = await this.repository.findPayRunById(input.payRunId);
+    if (!payRun) {
+      throw new Error('Pay run not found');
+    }
+
+    if (payRun.status !== 'APPROVED') {
+      throw new Error(`Cannot generate ACH file for pay run in ${payRun.status} status`);
+    }
+
+    const payStubs = (
+      await this.repository.findPayStubs({
+        payRunId: payRun.id,
+        paymentMethod: ['DIRECT_DEPOSIT'],
+        isVoid: false,
+      })
+    ).filter((stub) => stub.currentNetPay > 0);
+
+    if (payStubs.length === 0) {
+      throw new Error('Pay run has no direct deposit pay stubs');
+    }
+
+    const accounts = new Map(
+      (await this.repository.findDirectDepositAccounts(payStubs.map((stub) => stub.caregiverId)))
+        .map((account) => [account.caregiverId, account])
+    );
+    const missing = payStubs.filter((stub) => !accounts.has(stub.caregiverId));
+    if (missing.length > 0) {
+      throw new Error(
+        `No direct deposit account on file for ${missing.map((stub) => stub.caregiverName).join(', ')}`
+      );
+    }
+
+    const prenoteCaregiverIds = new Set(input.prenoteCaregiverIds || []);
+    const entries: NACHAEntry[] = payStubs.map((stub) => {
+      const account = accounts.get(stub.caregiverId)!;
+      const isPrenote = prenoteCaregiverIds.has(stub.caregiverId);
+      const codes = ACH_TRANSACTION_CODES[account.accountType];
+      return {
+        transactionCode: isPrenote ? codes.prenote : codes.credit,
+        routingNumber: account.routingNumber,
+        accountNumber: account.accountNumber,
+        amount: isPrenote ? 0 : stub.currentNetPay,
+        individualId: stub.caregiverEmployeeId,
+        individualName: account.accountHolderName,
+        ...(input.includeAddenda && !isPrenote
+          ? { addendaInfo: `PAY STUB ${stub.stubNumber}` }
+          : {}),
+      };
+    });
+
+    const now = new Date();
+    const batchNumber = `ACH-${payRun.runNumber}-${payRun.id.slice(0, 8)}`;
+    const fileName = `${batchNumber}.ach`;
+
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      // Trace numbers stay unique per ODFI, so returns match one payment
+      const file = generateNACHAFile(
+        {
+          immediateDestination: input.originator.bankRoutingNumber,
+          immediateDestinationName: input.originator.bankName,
+          immediateOrigin: input.originator.companyId,
+          immediateOriginName: input.originator.companyName,
+          companyName: input.originator.companyName,
+          companyId: input.originator.companyId,
+          companyEntryDescription: input.companyEntryDescription || 'PAYROLL',
+          effectiveDate: input.effectiveDate,
+          firstTraceSequence: await this.repository.reserveACHTraceSequences(
+            input.originator.bankRoutingNumber.slice(0, 8),
+            entries.length,
+            client
+          ),
+          createdAt: now,
+        },
+        entries
+      );
+
+      const checksum = createHash('sha256').update(file.content).digest('hex');
+      const exportFile: ExportFile = {
+        fileType: 'DIRECT_DEPOSIT',
+        fileFormat: 'NACHA',
+        fileName,
+        fileUrl: path.join(input.outputDirectory, fileName),
+        generatedAt: now,
+        fileSize: Buffer.byteLength(file.content),
+        checksum,
+      };
+
+      const payments: PaymentRecord[] = [];
+      const prenotedPayStubIds: UUID[] = [];
+
+      for (const [index, stub] of payStubs.entries()) {
+        if (prenoteCaregiverIds.has(stub.caregiverId)) {
+          prenotedPayStubIds.push(stub.id);
+          continue;
+        }
+
+        const account = accounts.get(stub.caregiverId)!;
+        const payment = await this.repository.createPaymentRecord(
+          {
+            organizationId: payRun.organizationId,
+            branchId: stub.branchId,
+            payRunId: payRun.id,
+            payStubId: stub.id,
+            caregiverId: stub.caregiverId,
+            paymentNumber: `DD-${stub.stubNumber}`,
+            paymentMethod: 'DIRECT_DEPOSIT',
+            paymentAmount: stub.currentNetPay,
+            paymentDate: input.effectiveDate,
+            ...(stub.bankAccountId !== undefined && { bankAccountId: stub.bankAccountId }),
+            routingNumber: account.routingNumber,
+            accountNumber: account.accountNumber,
+            accountType: account.accountType,
+            traceNumber: file.traceNumbers[index]!,
+            status: 'SCHEDULED',
+            statusHistory: [
+              {
+                id: uuid(),
+                fromStatus: null,
+                toStatus: 'SCHEDULED',
+                timestamp: now,
+                changedBy: userId,
+                automatic: false,
+                reason: `Included in ACH file ${fileName}`,
+              },
+            ],
+            initiatedAt: now,
+            initiatedBy: userId,
+            achFileId: fileName,
+            hasErrors: false,
+            isReissue: false,
+            createdBy: userId,
+            updatedBy: userId,
+          },
+          client
+        );
+        payments.push(payment);
+
+        await this.repository.linkPayStubPayment(
+          stub.id,
+          payment.id,
+          'PAYMENT_PENDING',
+          [
+            ...stub.statusHistory,
+            {
+              id: uuid(),
+              fromStatus: stub.status,
+              toStatus: 'PAYMENT_PENDING',
+              timestamp: now,
+              changedBy: userId,
+              reason: `Direct deposit scheduled for ${input.effectiveDate.toDateString()}`,
+            },
+          ],
+          userId,
+          client
+        );
+      }
+
+      const batch: Omit<ACHBatch, 'id' | 'createdAt' | 'updatedAt' | 'version'> = {
+        organizationId: payRun.organizationId,
+        batchNumber,
+        batchDate: now,
+        effectiveDate: input.effectiveDate,
+        companyName: input.originator.companyName,
+        companyId: input.originator.companyId,
+        companyEntryDescription: input.companyEntryDescription || 'PAYROLL',
+        paymentIds: payments.map((payment) => payment.id),
+        transactionCount: file.entryCount,
+        totalDebitAmount: 0,
+        totalCreditAmount: file.totalCreditAmount,
+        achFileUrl: exportFile.fileUrl,
+        achFileFormat: 'PPD',
+        achFileGeneratedAt: now,
+        achFileHash: checksum,
+        status: 'READY',
+        originatingBankRoutingNumber: input.originator.bankRoutingNumber,
+        originatingBankAccountNumber: input.originator.bankAccountNumber,
+        hasReturns: false,
+        returnCount: 0,
+        returns: [],
+        ...(prenotedPayStubIds.length > 0 && {
+          notes: `${prenotedPayStubIds.length} prenote entries`,
+        }),
+        createdBy: userId,
+        updatedBy: userId,
+      };
+      const createdBatch = await this.repository.createACHBatch(batch, client);
+
+      for (const payment of payments) {
+        await this.repository.updatePaymentRecord(
+          payment.id,
+          { achBatchId: createdBatch.id },
+          userId,
+          client
+        );
+      }
+
+      await this.repository.updatePayRun(
+        payRun.id,
+        {
+          status: 'PROCESSED',
+          statusHistory: [
+            ...payRun.statusHistory,
+            {
+              id: uuid(),
+              fromStatus: payRun.status,
+              toStatus: 'PROCESSED',
+              timestamp: now,
+              changedBy: userId,
+              automatic: false,
+              reason: `ACH file ${fileName} generated`,
+            },
+          ],
+          processedAt: now,
+          processedBy: userId,
+          directDepositCount: payments.length,
+          directDepositAmount: file.totalCreditAmount,
+          exportFiles: [...(payRun.exportFiles || []), exportFile],
+        },
+        client
+      );
+
+      // Written last so a failed write rolls the batch back
+      await mkdir(input.outputDirectory, { recursive: true });
+      await writeFile(exportFile.fileUrl, file.content, 'utf8');
+
+      await client.query('COMMIT');
+
+      return {
+        batch: createdBatch,
+        exportFile,
+        paymentIds: payments.map((payment) => payment.id),
+        prenotedPayStubIds,
+      };
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Import an ACH return file from the ODFI
+   *
+   * Matches each returned entry to its payment record by trace number and
+   * marks it RETURNED with the R-code. Returns are also recorded on the ACH
+   * batch so the pay run shows which deposits need to be reissued.
+   */
+  async importACHReturns(
+    input: ImportACHReturnsInput,
+    userId: UUID
+  ): Promise<ACHReturnImportResult> {
+    const entries = parseACHReturns(input.content);
+    if (entries.length === 0) {
+      throw new Error('No ACH return entries found');
+    }
+
+    const returns: ACHReturn[] = [];
+    const returnsByBatch = new Map<UUID, ACHReturn[]>();
+    const unmatchedTraceNumbers: string[] = [];
+
+    for (const entry of entries) {
+      const payment = await this.repository.findPaymentRecordByTraceNumber(
+        input.organizationId,
+        entry.originalTraceNumber
+      );
+      if (!payment) {
+        unmatchedTraceNumbers.push(entry.originalTraceNumber);
+        continue;
+      }
+
+      // Already posted from an earlier import of the same file
+      if (payment.status === 'RETURNED') {
+        continue;
+      }
+
+      const now = new Date();
+      const returnReason = ACH_RETURN_REASONS[entry.returnCode] || 'Returned by receiving bank';
+
+      await this.repository.updatePaymentRecord(
+        payment.id,
+        {
+          status: 'RETURNED',
+          statusHistory: [
+            ...payment.statusHistory,
+            {
+              id: uuid(),
+              fromStatus: payment.status,
+              toStatus: 'RETURNED',
+              timestamp: now,
+              changedBy: userId,
+              automatic: true,
+              reason: `${entry.returnCode}: ${returnReason}`,
+            },
+          ],
+          hasErrors: true,
+          errorCode: entry.returnCode,
+          errorMessage: returnReason,
+          ...(entry.addendaInfo !== undefined && { errorDetails: entry.addendaInfo }),
+        },
+        userId
+      );
+
+      const achReturn: ACHReturn = {
+        paymentId: payment.id,
+        caregiverId: payment.caregiverId,
+        returnCode: entry.returnCode,
+        returnReason,
+        returnDate: now,
+        amount: entry.amount,
+      };
+      returns.push(achReturn);
+
+      if (payment.achBatchId) {
+        const batchReturns = returnsByBatch.get(payment.achBatchId) || [];
+        batchReturns.push(achReturn);
+        returnsByBatch.set(payment.achBatchId, batchReturns);
+      }
+    }
+
+    for (const [batchId, batchReturns] of returnsByBatch) {
+      const batch = await this.repository.findACHBatchById(batchId);
+      if (!batch) {
+        continue;
+      }
+
+      const allReturns = [...(batch.returns || []), ...batchReturns];
+      await this.repository.recordACHReturns(
+        batchId,
+        allReturns.length >= batch.paymentIds.length ? 'FAILED' : 'PARTIAL_RETURN',
+        allReturns,
+        userId
+      );
+    }
+
+    return { returns, unmatchedTraceNumbers };
+  }
+
   /**
    * Open pay period for timesheet submission
    */
@@ -211,6 +211,7 @@ export interface TimeSheetEntry {
   overtimeHours: number;
   doubleTimeHours: number;
   breakHours: number; // Unpaid breaks
+  travelHours?: number; // Paid travel from the previous visit, included in totalHours
   totalHours: number;
   
   // Pay rates for this entry
@@ -305,6 +306,9 @@ export type DiscrepancyType =
   | 'RATE_MISMATCH' // Rate doesn't match expected
   | 'UNAPPROVED_OVERTIME' // Overtime not pre-approved
   | 'MISSING_EVV' // No EVV record for time
+  | 'UNVERIFIED_EVV' // EVV record failed location/identity verification
+  | 'EVV_EXCEPTION' // Unresolved EVV exception on the visit
+  | 'PENDING_CORRECTION' // Visit correction (VMUR) awaiting approval
   | 'LOCATION_VIOLATION' // Location compliance issue
   | 'DATE_MISMATCH' // Date inconsistency
   | 'DUPLICATE_ENTRY' // Possible duplicate
@@ -1167,6 +1171,106 @@ export interface CreateACHBatchInput {
   companyEntryDescription: string;
 }
 
+export interface GenerateACHFileInput {
+  payRunId: UUID;
+  effectiveDate: Date; // Settlement date requested from the ODFI
+  companyEntryDescription?: string; // Defaults to PAYROLL
+  originator: ACHOriginator;
+  prenoteCaregiverIds?: UUID[]; // New accounts: send a zero-dollar prenote instead of pay
+  includeAddenda?: boolean; // Add the stub number as a payment-related addenda
+  outputDirectory: string;
+}
+
+export interface ACHOriginator {
+  companyName: string;
+  companyId: string; // Assigned by the ODFI, usually 1 + EIN
+  bankName: string; // ODFI name for the file header
+  bankRoutingNumber: string; // ODFI routing number
+  bankAccountNumber: string; // Funding account, stored on the batch
+}
+
+export interface DirectDepositAccount {
+  caregiverId: UUID;
+  accountHolderName: string;
+  accountType: 'CHECKING' | 'SAVINGS';
+  routingNumber: string;
+  accountNumber: string;
+}
+
+export interface ACHFileResult {
+  batch: ACHBatch;
+  exportFile: ExportFile;
+  paymentIds: UUID[];
+  prenotedPayStubIds: UUID[]; // Still need to be paid another way
+}
+
+export interface ImportACHReturnsInput {
+  organizationId: UUID;
+  content: string;
+}
+
+export interface ACHReturnImportResult {
+  returns: ACHReturn[];
+  unmatchedTraceNumbers: string[];
+}
+
+/**
+ * NACHA file generation
+ */
+
+export type ACHTransactionCode =
+  | '22' // Checking credit
+  | '23' // Checking prenote credit
+  | '32' // Savings credit
+  | '33'; // Savings prenote credit
+
+export interface NACHAFileOptions {
+  immediateDestination: string; // ODFI routing number
+  immediateDestinationName: string;
+  immediateOrigin: string;
+  immediateOriginName: string;
+  companyName: string;
+  companyId: string;
+  companyEntryDescription: string;
+  effectiveDate: Date;
+  batchNumber?: number;
+  firstTraceSequence?: number; // Trace sequence of the first entry, reserved per ODFI; 1 when absent
+  fileIdModifier?: string; // A-Z, 0-9; distinguishes files sent the same day
+  createdAt?: Date;
+}
+
+export interface NACHAEntry {
+  transactionCode: ACHTransactionCode;
+  routingNumber: string;
+  accountNumber: string;
+  amount: number; // Dollars; zero for prenotes
+  individualId: string;
+  individualName: string;
+  addendaInfo?: string;
+}
+
+export interface NACHAFile {
+  content: string;
+  entryCount: number;
+  addendaCount: number;
+  entryHash: string;
+  totalCreditAmount: number;
+  blockCount: number;
+  traceNumbers: string[]; // In entry order
+}
+
+export interface NACHAReturnEntry {
+  returnCode: string; // R01, R02, ...
+  originalTraceNumber: string;
+  transactionCode: string;
+  receivingDfiId: string;
+  amount: number;
+  individualId: string;
+  individualName: string;
+  dateOfDeath?: Date;
+  addendaInfo?: string;
+}
+
 /**
  * Search and filter types
  */
@@ -0,0 +1,196 @@
+/**
+ * Unit tests for NACHA ACH file utilities
+ *
+ * Tests record layout, control totals and blocking for PPD credit files,
+ * and reading R-code returns back from the ODFI
+ */
+
+import {
+  generateNACHAFile,
+  parseACHReturns,
+  isValidRoutingNumber,
+} from '../nacha';
+import { NACHAEntry, NACHAFileOptions } from '../../types/payroll';
+import { describe, it, expect } from 'vitest';
+
+const options: NACHAFileOptions = {
+  immediateDestination: '011000015',
+  immediateDestinationName: 'First National Bank',
+  immediateOrigin: '1123456789',
+  immediateOriginName: 'Care Commons Home Health',
+  companyName: 'Care Commons Home Health',
+  companyId: '1123456789',
+  companyEntryDescription: 'PAYROLL',
+  effectiveDate: new Date(2025, 4, 16),
+  createdAt: new Date(2025, 4, 14, 9, 30),
+};
+
+const entries: NACHAEntry[] = [
+  {
+    transactionCode: '22',
+    routingNumber: '021000021',
+    accountNumber: '123456789',
+    amount: 1234.56,
+    individualId: 'EMP-001',
+    individualName: 'Jamie Rivera',
+    addendaInfo: 'PAY STUB 2025-05-abcd1234',
+  },
+  {
+    transactionCode: '33',
+    routingNumber: '111000025',
+    accountNumber: '987654321',
+    amount: 0,
+    individualId: 'EMP-002',
+    individualName: 'Sam Lee',
+  },
+];
+
+const recordsOf = (content: string): string[] => content.trimEnd().split('\n');
+
+describe('NACHA Utilities', () => {
+  describe('isValidRoutingNumber', () => {
+    it('should accept routing numbers with a valid check digit', () => {
+      expect(isValidRoutingNumber('011000015')).toBe(true);
+      expect(isValidRoutingNumber('021000021')).toBe(true);
+    });
+
+    it('should reject bad check digits and malformed numbers', () => {
+      expect(isValidRoutingNumber('021000022')).toBe(false);
+      expect(isValidRoutingNumber('02100002')).toBe(false);
+      expect(isValidRoutingNumber('02100002A')).toBe(false);
+    });
+  });
+
+  describe('generateNACHAFile', () => {
+    it('should render 94-character records padded to a multiple of 10', () => {
+      const file = generateNACHAFile(options, entries);
+      const records = recordsOf(file.content);
+
+      expect(records).toHaveLength(10);
+      expect(records.every((record) => record.length === 94)).toBe(true);
+      expect(records.slice(7)).toEqual(Array(3).fill('9'.repeat(94)));
+      expect(file.blockCount).toBe(1);
+    });
+
+    it('should render the file and batch headers', () => {
+      const [fileHeader, batchHeader] = recordsOf(generateNACHAFile(options, entries).content);
+
+      expect(fileHeader).toBe(
+        '101 0110000151123456789250514093' +
+          '0A094101FIRST NATIONAL BANK    CARE COMMONS HOME HEALT        '
+      );
+      expect(batchHeader).toBe(
+        '5220CARE COMMONS HOM                    1123456789PPDPAYROLL   ' +
+          '250516250516   1011000010000001'
+      );
+    });
+
+    it('should render credit, prenote and addenda records with trace numbers', () => {
+      const file = generateNACHAFile(options, entries);
+      const records = recordsOf(file.content);
+
+      expect(records[2]).toBe(
+        '622021000021123456789        0000123456EMP-001        JAMIE RIVERA            1011000010000001'
+      );
+      expect(records[3]).toBe(
+        `705${'PAY STUB 2025-05-ABCD1234'.padEnd(80)}00010000001`
+      );
+      expect(records[4]).toBe(
+        '633111000025987654321        0000000000EMP-002        SAM LEE                 0011000010000002'
+      );
+      expect(file.traceNumbers).toEqual(['011000010000001', '011000010000002']);
+      expect(file.addendaCount).toBe(1);
+    });
+
+    it('should total entries, hash and credits in the control records', () => {
+      const file = generateNACHAFile(options, entries);
+      const records = recordsOf(file.content);
+
+      // 02100002 + 11100002
+      expect(file.entryHash).toBe('0013200004');
+      expect(file.totalCreditAmount).toBe(1234.56);
+      expect(records[5]).toBe(
+        '8220000003' + '0013200004' + '0'.repeat(12) + '000000123456' + '1123456789' +
+          ' '.repeat(25) + '011000010000001'
+      );
+      expect(records[6]).toBe(
+        '9000001000001' + '00000003' + '0013200004' + '0'.repeat(12) + '000000123456' + ' '.repeat(39)
+      );
+    });
+
+    it('should number traces from the reserved sequence, wrapping after 9999999', () => {
+      expect(generateNACHAFile({ ...options, firstTraceSequence: 4312 }, entries).traceNumbers).toEqual([
+        '011000010004312',
+        '011000010004313',
+      ]);
+      expect(generateNACHAFile({ ...options, firstTraceSequence: 9_999_999 }, entries).traceNumbers).toEqual([
+        '011000019999999',
+        '011000010000001',
+      ]);
+    });
+
+    it('should reject invalid routing numbers', () => {
+      expect(() =>
+        generateNACHAFile(options, [{ ...entries[0]!, routingNumber: '021000022' }])
+      ).toThrow('Invalid routing number for Jamie Rivera');
+      expect(() =>
+        generateNACHAFile({ ...options, immediateDestination: '123' }, entries)
+      ).toThrow('Invalid ODFI routing number 123');
+    });
+
+    it('should require prenotes to be zero-dollar and credits to be positive', () => {
+      expect(() =>
+        generateNACHAFile(options, [{ ...entries[1]!, amount: 10 }])
+      ).toThrow('Invalid amount 10 for Sam Lee prenote');
+      expect(() =>
+        generateNACHAFile(options, [{ ...entries[0]!, amount: 0 }])
+      ).toThrow('Invalid amount 0 for Jamie Rivera');
+    });
+
+    it('should reject an empty file', () => {
+      expect(() => generateNACHAFile(options, [])).toThrow(
+        'ACH file must contain at least one entry'
+      );
+    });
+  });
+
+  describe('parseACHReturns', () => {
+    const returnFile = [
+      '101 0110000151123456789250520080' + '0A094101FIRST NATIONAL BANK    CARE COMMONS HOME HEALT        ',
+      '5220CARE COMMONS HOM                    1123456789PPDPAYROLL   ' + '250516250520   1011000010000001',
+      '621021000021123456789        0000123456EMP-001        JAMIE RIVERA            1011000010000007',
+      `799R03011000010000001      02100002${'ACCOUNT NOT FOUND'.padEnd(44)}011000010000007`,
+      '621111000025987654321        0000050000EMP-003        PAT KIM                 1011000010000008',
+      `798C01011000010000003      11100002${'1234'.padEnd(44)}011000010000008`,
+      '8220000004...',
+    ].join('\n');
+
+    it('should read the R-code and original trace number from return addenda', () => {
+      const returns = parseACHReturns(returnFile);
+
+      expect(returns).toEqual([
+        {
+          returnCode: 'R03',
+          originalTraceNumber: '011000010000001',
+          transactionCode: '21',
+          receivingDfiId: '02100002',
+          amount: 1234.56,
+          individualId: 'EMP-001',
+          individualName: 'JAMIE RIVERA',
+          addendaInfo: 'ACCOUNT NOT FOUND',
+        },
+      ]);
+    });
+
+    it('should read the date of death on R14/R15 returns', () => {
+      const content = [
+        '622021000021123456789        0000123456EMP-001        JAMIE RIVERA            1011000010000007',
+        `799R15011000010000001250510${''.padEnd(8)}${''.padEnd(44)}011000010000007`,
+      ].join('\r\n');
+
+      const [result] = parseACHReturns(content);
+      expect(result!.returnCode).toBe('R15');
+      expect(result!.dateOfDeath).toEqual(new Date(2025, 4, 10));
+    });
+  });
+});
@@ -0,0 +1,307 @@
+/**
+ * NACHA ACH file utilities
+ *
+ * Builds PPD credit files for direct deposit and reads the return entries
+ * (R-codes) the ODFI sends back. Records are fixed width (94 characters)
+ * and files are padded to a blocking factor of 10.
+ */
+
+import {
+  NACHAEntry,
+  NACHAFile,
+  NACHAFileOptions,
+  NACHAReturnEntry,
+} from '../types/payroll';
+
+const RECORD_SIZE = 94;
+const BLOCKING_FACTOR = 10;
+const SERVICE_CLASS_CREDITS_ONLY = '220';
+const MAX_TRACE_SEQUENCE = 9_999_999;
+
+/**
+ * Common ACH return reason codes
+ */
+export const ACH_RETURN_REASONS: Record<string, string> = {
+  R01: 'Insufficient funds',
+  R02: 'Account closed',
+  R03: 'No account / unable to locate account',
+  R04: 'Invalid account number',
+  R06: 'Returned per ODFI request',
+  R07: 'Authorization revoked by customer',
+  R08: 'Payment stopped',
+  R09: 'Uncollected funds',
+  R10: 'Customer advises not authorized',
+  R11: 'Customer advises entry not in accordance with authorization',
+  R12: 'Branch sold to another DFI',
+  R13: 'Invalid ACH routing number',
+  R14: 'Representative payee deceased',
+  R15: 'Beneficiary or account holder deceased',
+  R16: 'Account frozen',
+  R17: 'File record edit criteria',
+  R20: 'Non-transaction account',
+  R23: 'Credit entry refused by receiver',
+  R24: 'Duplicate entry',
+  R29: 'Corporate customer advises not authorized',
+};
+
+/**
+ * Validate an ABA routing number (9 digits, 3-7-1 weighted checksum)
+ */
+export function isValidRoutingNumber(routingNumber: string): boolean {
+  if (!/^\d{9}$/.test(routingNumber)) {
+    return false;
+  }
+
+  const weights = [3, 7, 1, 3, 7, 1, 3, 7, 1];
+  const sum = weights.reduce(
+    (total, weight, index) => total + weight * Number(routingNumber[index]),
+    0
+  );
+  return sum % 10 === 0;
+}
+
+/**
+ * Trace sequence of an entry: 7 digits, wrapping from 9999999 back to 1
+ */
+function traceSequence(firstSequence: number, index: number): number {
+  return ((firstSequence - 1 + index) % MAX_TRACE_SEQUENCE) + 1;
+}
+
+/**
+ * Generate a single-batch PPD credit file
+ */
+export function generateNACHAFile(
+  options: NACHAFileOptions,
+  entries: NACHAEntry[]
+): NACHAFile {
+  if (entries.length === 0) {
+    throw new Error('ACH file must contain at least one entry');
+  }
+
+  if (!isValidRoutingNumber(options.immediateDestination)) {
+    throw new Error(`Invalid ODFI routing number ${options.immediateDestination}`);
+  }
+
+  for (const entry of entries) {
+    if (!isValidRoutingNumber(entry.routingNumber)) {
+      throw new Error(`Invalid routing number for ${entry.individualName}`);
+    }
+    const isPrenote = entry.transactionCode === '23' || entry.transactionCode === '33';
+    if (isPrenote ? entry.amount !== 0 : entry.amount <= 0) {
+      throw new Error(
+        `Invalid amount ${entry.amount} for ${entry.individualName}${isPrenote ? ' prenote' : ''}`
+      );
+    }
+  }
+
+  const createdAt = options.createdAt || new Date();
+  const batchNumber = options.batchNumber || 1;
+  const originatingDfiId = options.immediateDestination.slice(0, 8);
+
+  const records: string[] = [];
+
+  // File header
+  records.push(
+    [
+      '1',
+      '01',
+      ` ${options.immediateDestination}`,
+      alpha(options.immediateOrigin, 10, true),
+      formatDate(createdAt),
+      formatTime(createdAt),
+      options.fileIdModifier || 'A',
+      '094',
+      '10',
+      '1',
+      alpha(options.immediateDestinationName, 23),
+      alpha(options.immediateOriginName, 23),
+      alpha('', 8),
+    ].join('')
+  );
+
+  // Batch header
+  records.push(
+    [
+      '5',
+      SERVICE_CLASS_CREDITS_ONLY,
+      alpha(options.companyName, 16),
+      alpha('', 20),
+      alpha(options.companyId, 10),
+      'PPD',
+      alpha(options.companyEntryDescription, 10),
+      formatDate(options.effectiveDate),
+      formatDate(options.effectiveDate),
+      alpha('', 3),
+      '1',
+      originatingDfiId,
+      numeric(batchNumber, 7),
+    ].join('')
+  );
+
+  const traceNumbers: string[] = [];
+  let entryHash = 0;
+  let totalCredit = 0;
+  let addendaCount = 0;
+
+  entries.forEach((entry, index) => {
+    const sequence = numeric(traceSequence(options.firstTraceSequence ?? 1, index), 7);
+    const traceNumber = `${originatingDfiId}${sequence}`;
+    const amount = Math.round(entry.amount * 100);
+
+    traceNumbers.push(traceNumber);
+    entryHash += Number(entry.routingNumber.slice(0, 8));
+    totalCredit += amount;
+
+    records.push(
+      [
+        '6',
+        entry.transactionCode,
+        entry.routingNumber.slice(0, 8),
+        entry.routingNumber.charAt(8),
+        alpha(entry.accountNumber, 17),
+        numeric(amount, 10),
+        alpha(entry.individualId, 15),
+        alpha(entry.individualName, 22),
+        alpha('', 2),
+        entry.addendaInfo ? '1' : '0',
+        traceNumber,
+      ].join('')
+    );
+
+    if (entry.addendaInfo) {
+      addendaCount++;
+      records.push(['7', '05', alpha(entry.addendaInfo, 80), '0001', sequence].join(''));
+    }
+  });
+
+  // Hash is the sum of receiving DFI IDs, truncated to the rightmost 10 digits
+  const hash = numeric(entryHash % 10_000_000_000, 10);
+  const entryAndAddendaCount = entries.length + addendaCount;
+
+  // Batch control
+  records.push(
+    [
+      '8',
+      SERVICE_CLASS_CREDITS_ONLY,
+      numeric(entryAndAddendaCount, 6),
+      hash,
+      numeric(0, 12),
+      numeric(totalCredit, 12),
+      alpha(options.companyId, 10),
+      alpha('', 19),
+      alpha('', 6),
+      originatingDfiId,
+      numeric(batchNumber, 7),
+    ].join('')
+  );
+
+  const blockCount = Math.ceil((records.length + 1) / BLOCKING_FACTOR);
+
+  // File control
+  records.push(
+    [
+      '9',
+      numeric(1, 6),
+      numeric(blockCount, 6),
+      numeric(entryAndAddendaCount, 8),
+      hash,
+      numeric(0, 12),
+      numeric(totalCredit, 12),
+      alpha('', 39),
+    ].join('')
+  );
+
+  while (records.length % BLOCKING_FACTOR !== 0) {
+    records.push('9'.repeat(RECORD_SIZE));
+  }
+
+  return {
+    content: `${records.join('\n')}\n`,
+    entryCount: entries.length,
+    addendaCount,
+    entryHash: hash,
+    totalCreditAmount: totalCredit / 100,
+    blockCount,
+    traceNumbers,
+  };
+}
+
+/**
+ * Read the returned entries from an ACH return file
+ *
+ * Each return is an entry detail record followed by a 99 addenda carrying
+ * the R-code and the trace number of the entry we originally sent.
+ * Notifications of change (98 addenda) are not returns and are skipped.
+ */
+export function parseACHReturns(content: string): NACHAReturnEntry[] {
+  const records = content
+    .split(/\r?\n/)
+    .map((record) => record.trimEnd())
+    .filter((record) => record.length > 0);
+
+  const returns: NACHAReturnEntry[] = [];
+  let entry: string | null = null;
+
+  for (const record of records) {
+    if (record.startsWith('6')) {
+      entry = record.padEnd(RECORD_SIZE);
+      continue;
+    }
+
+    if (!entry || !record.startsWith('799')) {
+      continue;
+    }
+
+    const addenda = record.padEnd(RECORD_SIZE);
+    const dateOfDeath = addenda.slice(21, 27).trim();
+    const addendaInfo = addenda.slice(35, 79).trim();
+
+    returns.push({
+      returnCode: addenda.slice(3, 6),
+      originalTraceNumber: addenda.slice(6, 21),
+      transactionCode: entry.slice(1, 3),
+      receivingDfiId: entry.slice(3, 11),
+      amount: Number(entry.slice(29, 39)) / 100,
+      individualId: entry.slice(39, 54).trim(),
+      individualName: entry.slice(54, 76).trim(),
+      ...(dateOfDeath ? { dateOfDeath: parseDate(dateOfDeath) } : {}),
+      ...(addendaInfo ? { addendaInfo } : {}),
+    });
+    entry = null;
+  }
+
+  return returns;
+}
+
+/**
+ * Alphanumeric fields are uppercase, left-justified and space-filled
+ */
+function alpha(value: string, length: number, rightJustify = false): string {
+  const cleaned = value.toUpperCase().replace(/[^\x20-\x7E]/g, '').slice(0, length);
+  return rightJustify ? cleaned.padStart(length) : cleaned.padEnd(length);
+}
+
+/**
+ * Numeric fields are right-justified and zero-filled
+ */
+function numeric(value: number, length: number): string {
+  return String(value).padStart(length, '0').slice(-length);
+}
+
+function formatDate(date: Date): string {
+  const year = String(date.getFullYear()).slice(-2);
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}${month}${day}`;
+}
+
+function formatTime(date: Date): string {
+  return `${String(date.getHours()).padStart(2, '0')}${String(date.getMinutes()).padStart(2, '0')}`;
+}
+
+function parseDate(value: string): Date {
+  const year = 2000 + Number(value.slice(0, 2));
+  const month = Number(value.slice(2, 4));
+  const day = Number(value.slice(4, 6));
+  return new Date(year, month - 1, day);
+}
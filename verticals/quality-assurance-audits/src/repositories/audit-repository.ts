@@ -8,11 +8,17 @@ import { Repository, Database } from '@care-commons/core';
 import type { UUID } from '@care-commons/core';
 import type {
   Audit,
+  AuditChecklistResponse,
   AuditFinding,
+  AuditSample,
+  AuditSampleType,
+  AuditSamplingCandidate,
+  ChecklistResult,
   CorrectiveAction,
   CreateAuditInput,
   CreateAuditFindingInput,
   CreateCorrectiveActionInput,
+  RecordChecklistResponseInput,
   AuditSummary
 } from '../types/audit';
 
@@ -688,3 +694,290 @@ export class CorrectiveActionRepository extends Repository<CorrectiveAction> {
     return result.rows.map(row => this.mapRowToEntity(row));
   }
 }
+
+/**
+ * Repository for records sampled for audit review
+ */
+export class AuditSampleRepository extends Repository<AuditSample> {
+  constructor(database: Database) {
+    super({
+      tableName: 'audit_samples',
+      database,
+      enableAudit: false,
+      enableSoftDelete: false
+    });
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  protected mapRowToEntity(row: any): AuditSample {
+    return {
+      id: row.id,
+      auditId: row.audit_id,
+      sampleType: row.sample_type,
+      entityId: row.entity_id,
+      entityName: row.entity_name,
+      branchId: row.branch_id,
+      sequenceNumber: row.sequence_number,
+      samplingSeed: row.sampling_seed,
+      organizationId: row.organization_id,
+      createdAt: row.created_at,
+      createdBy: row.created_by,
+      updatedAt: row.updated_at,
+      updatedBy: row.updated_by,
+      version: row.version
+    };
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  protected mapEntityToRow(entity: Partial<AuditSample>): Record<string, any> {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const row: Record<string, any> = {};
+
+    if (entity.id !== undefined) row.id = entity.id;
+    if (entity.auditId !== undefined) row.audit_id = entity.auditId;
+    if (entity.sampleType !== undefined) row.sample_type = entity.sampleType;
+    if (entity.entityId !== undefined) row.entity_id = entity.entityId;
+    if (entity.entityName !== undefined) row.entity_name = entity.entityName;
+    if (entity.branchId !== undefined) row.branch_id = entity.branchId;
+    if (entity.sequenceNumber !== undefined) row.sequence_number = entity.sequenceNumber;
+    if (entity.samplingSeed !== undefined) row.sampling_seed = entity.samplingSeed;
+    if (entity.organizationId !== undefined) row.organization_id = entity.organizationId;
+
+    return row;
+  }
+
+  /**
+   * Get records eligible for sampling: active clients for chart reviews,
+   * active caregivers (by primary branch) for personnel file reviews
+   */
+  async getSamplingPopulation(
+    organizationId: UUID,
+    sampleType: AuditSampleType,
+    branchIds?: UUID[]
+  ): Promise<AuditSamplingCandidate[]> {
+    const query = sampleType === 'CLIENT_CHART'
+      ? `
+        SELECT id, first_name, last_name, branch_id
+        FROM clients
+        WHERE organization_id = $1
+        AND status = 'ACTIVE'
+        AND deleted_at IS NULL
+        AND ($2::uuid[] IS NULL OR branch_id = ANY($2::uuid[]))
+        ORDER BY id
+      `
+      : `
+        SELECT id, first_name, last_name, primary_branch_id AS branch_id
+        FROM caregivers
+        WHERE organization_id = $1
+        AND status = 'ACTIVE'
+        AND deleted_at IS NULL
+        AND ($2::uuid[] IS NULL OR primary_branch_id = ANY($2::uuid[]))
+        ORDER BY id
+      `;
+
+    const result = await this.database.query(query, [
+      organizationId,
+      branchIds && branchIds.length > 0 ? branchIds : null
+    ]);
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    return result.rows.map((row: any): AuditSamplingCandidate => ({
+      entityId: row.id as string,
+      entityName: `${row.first_name as string} ${row.last_name as string}`,
+      branchId: row.branch_id as string | null
+    }));
+  }
+
+  /**
+   * Save a drawn sample
+   */
+  async createSamples(
+    auditId: UUID,
+    sampleType: AuditSampleType,
+    candidates: AuditSamplingCandidate[],
+    samplingSeed: string,
+    context: { userId: UUID; organizationId: UUID }
+  ): Promise<AuditSample[]> {
+    const samples: AuditSample[] = [];
+
+    for (const [index, candidate] of candidates.entries()) {
+      const query = `
+        INSERT INTO audit_samples (
+          id, audit_id, sample_type, entity_id, entity_name, branch_id,
+          sequence_number, sampling_seed, organization_id,
+          created_by, updated_by, created_at, updated_at, version
+        ) VALUES (
+          gen_random_uuid(), $1, $2, $3, $4, $5, $6, $7, $8, $9, $9, NOW(), NOW(), 1
+        )
+        RETURNING *
+      `;
+
+      const result = await this.database.query(query, [
+        auditId,
+        sampleType,
+        candidate.entityId,
+        candidate.entityName,
+        candidate.branchId ?? null,
+        index + 1,
+        samplingSeed,
+        context.organizationId,
+        context.userId
+      ]);
+      samples.push(this.mapRowToEntity(result.rows[0]));
+    }
+
+    return samples;
+  }
+
+  /**
+   * Get the sample drawn for an audit, in draw order
+   */
+  async findByAuditId(auditId: UUID): Promise<AuditSample[]> {
+    const query = `
+      SELECT * FROM audit_samples
+      WHERE audit_id = $1
+      ORDER BY sequence_number ASC
+    `;
+
+    const result = await this.database.query(query, [auditId]);
+    return result.rows.map(row => this.mapRowToEntity(row));
+  }
+}
+
+/**
+ * Repository for audit checklist responses
+ */
+export class AuditChecklistResponseRepository extends Repository<AuditChecklistResponse> {
+  constructor(database: Database) {
+    super({
+      tableName: 'audit_checklist_responses',
+      database,
+      enableAudit: true,
+      enableSoftDelete: false
+    });
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  protected mapRowToEntity(row: any): AuditChecklistResponse {
+    return {
+      id: row.id,
+      auditId: row.audit_id,
+      templateId: row.template_id,
+      sampleId: row.sample_id,
+      sectionId: row.section_id,
+      itemId: row.item_id,
+      response: row.response,
+      result: row.result,
+      notes: row.notes,
+      evidenceUrls: row.evidence_urls || [],
+      respondedBy: row.responded_by,
+      respondedByName: row.responded_by_name,
+      respondedAt: row.responded_at,
+      findingId: row.finding_id,
+      organizationId: row.organization_id,
+      createdAt: row.created_at,
+      createdBy: row.created_by,
+      updatedAt: row.updated_at,
+      updatedBy: row.updated_by,
+      version: row.version
+    };
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  protected mapEntityToRow(entity: Partial<AuditChecklistResponse>): Record<string, any> {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const row: Record<string, any> = {};
+
+    if (entity.id !== undefined) row.id = entity.id;
+    if (entity.auditId !== undefined) row.audit_id = entity.auditId;
+    if (entity.templateId !== undefined) row.template_id = entity.templateId;
+    if (entity.sampleId !== undefined) row.sample_id = entity.sampleId;
+    if (entity.sectionId !== undefined) row.section_id = entity.sectionId;
+    if (entity.itemId !== undefined) row.item_id = entity.itemId;
+    if (entity.response !== undefined) row.response = entity.response;
+    if (entity.result !== undefined) row.result = entity.result;
+    if (entity.notes !== undefined) row.notes = entity.notes;
+    if (entity.evidenceUrls !== undefined) row.evidence_urls = JSON.stringify(entity.evidenceUrls);
+    if (entity.respondedBy !== undefined) row.responded_by = entity.respondedBy;
+    if (entity.respondedByName !== undefined) row.responded_by_name = entity.respondedByName;
+    if (entity.respondedAt !== undefined) row.responded_at = entity.respondedAt;
+    if (entity.findingId !== undefined) row.finding_id = entity.findingId;
+    if (entity.organizationId !== undefined) row.organization_id = entity.organizationId;
+
+    return row;
+  }
+
+  /**
+   * Create checklist response
+   */
+  async createResponse(
+    input: RecordChecklistResponseInput & {
+      auditId: UUID;
+      templateId: string;
+      result: ChecklistResult;
+      findingId?: UUID | null;
+      respondedBy: UUID;
+      organizationId: UUID;
+    }
+  ): Promise<AuditChecklistResponse> {
+    const query = `
+      INSERT INTO audit_checklist_responses (
+        id, audit_id, template_id, sample_id, section_id, item_id,
+        response, result, notes, evidence_urls,
+        responded_by, responded_by_name, responded_at, finding_id,
+        organization_id, created_by, updated_by, created_at, updated_at, version
+      ) VALUES (
+        gen_random_uuid(), $1, $2, $3, $4, $5, $6, $7, $8, $9,
+        $10, $11, NOW(), $12, $13, $10, $10, NOW(), NOW(), 1
+      )
+      RETURNING *
+    `;
+
+    const result = await this.database.query(query, [
+      input.auditId,
+      input.templateId,
+      input.sampleId || null,
+      input.sectionId,
+      input.itemId,
+      input.response,
+      input.result,
+      input.notes || null,
+      JSON.stringify(input.evidenceUrls || []),
+      input.respondedBy,
+      'Auditor Name', // Placeholder
+      input.findingId || null,
+      input.organizationId
+    ]);
+
+    return this.mapRowToEntity(result.rows[0]);
+  }
+
+  /**
+   * Get the response to an item for a sampled record (or for the audit
+   * itself when it is not sampled)
+   */
+  async findResponse(auditId: UUID, sampleId: UUID | null, itemId: string): Promise<AuditChecklistResponse | null> {
+    const query = `
+      SELECT * FROM audit_checklist_responses
+      WHERE audit_id = $1
+      AND sample_id IS NOT DISTINCT FROM $2
+      AND item_id = $3
+    `;
+
+    const result = await this.database.query(query, [auditId, sampleId, itemId]);
+    return result.rows[0] ? this.mapRowToEntity(result.rows[0]) : null;
+  }
+
+  /**
+   * Get checklist responses for audit
+   */
+  async findByAuditId(auditId: UUID): Promise<AuditChecklistResponse[]> {
+    const query = `
+      SELECT * FROM audit_checklist_responses
+      WHERE audit_id = $1
+      ORDER BY section_id, item_id, responded_at
+    `;
+
+    const result = await this.database.query(query, [auditId]);
+    return result.rows.map(row => this.mapRowToEntity(row));
+  }
+}
@@ -197,6 +197,79 @@ export function createAuditRoutes(auditService: AuditService, router: Router, db
     }
   });
 
+  // ============================================================================
+  // Sampling & Checklist Routes
+  // ============================================================================
+
+  /**
+   * POST /api/audits/:id/samples - Draw a random sample of records to review
+   */
+  router.post('/audits/:id/samples', async (req: Request, res: Response) => {
+    try {
+      const context = (req as Request & { userContext?: UserContext }).userContext;
+      if (!context) {
+        return res.status(401).json({ error: 'Unauthorized' });
+      }
+
+      const { id } = req.params;
+      if (!id) {
+        return res.status(400).json({ error: 'Audit ID is required' });
+      }
+
+      const samples = await auditService.drawSample(id, req.body, context);
+      return res.status(201).json(samples);
+    } catch (error) {
+      console.error('Error drawing audit sample:', error);
+      return res.status(500).json({ error: 'Failed to draw audit sample' });
+    }
+  });
+
+  /**
+   * POST /api/audits/:id/checklist-responses - Record a checklist response
+   */
+  router.post('/audits/:id/checklist-responses', async (req: Request, res: Response) => {
+    try {
+      const context = (req as Request & { userContext?: UserContext }).userContext;
+      if (!context) {
+        return res.status(401).json({ error: 'Unauthorized' });
+      }
+
+      const { id } = req.params;
+      if (!id) {
+        return res.status(400).json({ error: 'Audit ID is required' });
+      }
+
+      const response = await auditService.recordChecklistResponse(id, req.body, context);
+      return res.json(response);
+    } catch (error) {
+      console.error('Error recording checklist response:', error);
+      return res.status(500).json({ error: 'Failed to record checklist response' });
+    }
+  });
+
+  /**
+   * GET /api/audits/:id/checklist-progress - Get checklist completion and score
+   */
+  router.get('/audits/:id/checklist-progress', async (req: Request, res: Response) => {
+    try {
+      const context = (req as Request & { userContext?: UserContext }).userContext;
+      if (!context) {
+        return res.status(401).json({ error: 'Unauthorized' });
+      }
+
+      const { id } = req.params;
+      if (!id) {
+        return res.status(400).json({ error: 'Audit ID is required' });
+      }
+
+      const progress = await auditService.getChecklistProgress(id, context);
+      return res.json(progress);
+    } catch (error) {
+      console.error('Error fetching checklist progress:', error);
+      return res.status(500).json({ error: 'Failed to fetch checklist progress' });
+    }
+  });
+
   // ============================================================================
   // Finding Routes
   // ============================================================================
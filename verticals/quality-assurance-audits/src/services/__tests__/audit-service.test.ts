@@ -14,6 +14,8 @@ import { AuditService } from '../audit-service.js';
 import type { UserContext } from '@care-commons/core';
 import type {
   Audit,
+  AuditSample,
+  AuditTemplate,
   CreateAuditInput,
   UpdateAuditInput,
   AuditFinding,
@@ -26,6 +28,9 @@ describe('AuditService', () => {
   let mockFindingRepo: any;
   let mockCorrectiveActionRepo: any;
   let mockPermissions: any;
+  let mockTemplateService: any;
+  let mockSampleRepo: any;
+  let mockResponseRepo: any;
   let userContext: UserContext;
 
   const mockAudit: Audit = {
@@ -86,6 +91,32 @@ describe('AuditService', () => {
       updateProgress: vi.fn(),
     };
 
+    mockTemplateService = {
+      getTemplateById: vi.fn(),
+    };
+
+    mockSampleRepo = {
+      findByAuditId: vi.fn().mockResolvedValue([]),
+      getSamplingPopulation: vi.fn(),
+      createSamples: vi.fn().mockImplementation((auditId, sampleType, candidates, seed) =>
+        Promise.resolve(candidates.map((candidate: any, index: number) => ({
+          id: `sample-${index + 1}`,
+          auditId,
+          sampleType,
+          ...candidate,
+          sequenceNumber: index + 1,
+          samplingSeed: seed,
+        })))
+      ),
+    };
+
+    mockResponseRepo = {
+      findByAuditId: vi.fn().mockResolvedValue([]),
+      findResponse: vi.fn().mockResolvedValue(null),
+      createResponse: vi.fn().mockImplementation((input) => Promise.resolve({ id: 'response-1', ...input })),
+      update: vi.fn().mockImplementation((id, updates) => Promise.resolve({ id, ...updates })),
+    };
+
     // Mock permissions service
     mockPermissions = {
       hasPermission: vi.fn().mockReturnValue(true),
@@ -104,7 +135,10 @@ describe('AuditService', () => {
       mockAuditRepo,
       mockFindingRepo,
       mockCorrectiveActionRepo,
-      mockPermissions
+      mockPermissions,
+      mockTemplateService,
+      mockSampleRepo,
+      mockResponseRepo
     );
   });
 
@@ -230,6 +264,8 @@ describe('AuditService', () => {
         ...mockAudit,
         findings: mockFindings,
         correctiveActions: mockCorrectiveActions,
+        checklistResponses: [],
+        samples: [],
       });
       expect(mockPermissions.hasPermission).toHaveBeenCalledWith(
         userContext,
@@ -439,4 +475,206 @@ describe('AuditService', () => {
       ).rejects.toThrow('Can only complete audits that are in progress or in findings review');
     });
   });
+
+  describe('drawSample', () => {
+    const population = Array.from({ length: 20 }, (_, index) => ({
+      entityId: `client-${index}`,
+      entityName: `Client ${index}`,
+      branchId: index < 15 ? 'branch-a' : 'branch-b',
+    }));
+
+    beforeEach(() => {
+      mockAuditRepo.findById.mockResolvedValue(mockAudit);
+      mockSampleRepo.getSamplingPopulation.mockResolvedValue(population);
+    });
+
+    it('should draw a reproducible sample of the requested size', async () => {
+      const first = await service.drawSample(
+        mockAudit.id,
+        { sampleType: 'CLIENT_CHART', sampleSize: 5, seed: 'seed-1' },
+        userContext
+      );
+      const second = await service.drawSample(
+        mockAudit.id,
+        { sampleType: 'CLIENT_CHART', sampleSize: 5, seed: 'seed-1' },
+        userContext
+      );
+
+      expect(first).toHaveLength(5);
+      expect(first.map(sample => sample.entityId)).toEqual(second.map(sample => sample.entityId));
+      expect(first[0]).toMatchObject({ samplingSeed: 'seed-1', sequenceNumber: 1 });
+    });
+
+    it('should allocate a stratified sample across branches in proportion to size', async () => {
+      const samples = await service.drawSample(
+        mockAudit.id,
+        { sampleType: 'CLIENT_CHART', sampleSize: 8, stratifyByBranch: true },
+        userContext
+      );
+
+      expect(samples.filter(sample => sample.branchId === 'branch-a')).toHaveLength(6);
+      expect(samples.filter(sample => sample.branchId === 'branch-b')).toHaveLength(2);
+    });
+
+    it('should not redraw a sample', async () => {
+      mockSampleRepo.findByAuditId.mockResolvedValue([{ id: 'sample-1' }]);
+
+      await expect(
+        service.drawSample(mockAudit.id, { sampleType: 'CLIENT_CHART', sampleSize: 5 }, userContext)
+      ).rejects.toThrow('A sample has already been drawn for this audit');
+      expect(mockSampleRepo.createSamples).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('checklist responses', () => {
+    const template = {
+      id: 'template-medication-audit',
+      checklistSections: [
+        {
+          sectionId: 'five-rights',
+          title: 'Five Rights',
+          orderIndex: 1,
+          weightPercentage: 100,
+          items: [
+            {
+              itemId: 'med-1',
+              question: 'Right Patient: Is patient identity verified before administration?',
+              responseType: 'YES_NO',
+              isMandatory: true,
+              isCritical: true,
+              requiresEvidence: false,
+              orderIndex: 1,
+              weight: 20,
+            },
+            {
+              itemId: 'med-6',
+              question: 'Is administration documented?',
+              responseType: 'YES_NO_NA',
+              isMandatory: true,
+              requiresEvidence: true,
+              orderIndex: 2,
+              weight: 10,
+            },
+          ],
+        },
+      ],
+    } as unknown as AuditTemplate;
+    const sample = {
+      id: 'sample-1',
+      sampleType: 'CLIENT_CHART',
+      entityId: 'client-1',
+      entityName: 'Margaret Johnson',
+      branchId: 'branch-a',
+    } as AuditSample;
+    const inProgressAudit = {
+      ...mockAudit,
+      status: 'IN_PROGRESS' as const,
+      auditType: 'MEDICATION' as const,
+      templateId: 'template-medication-audit',
+    };
+
+    beforeEach(() => {
+      mockAuditRepo.findById.mockResolvedValue(inProgressAudit);
+      mockAuditRepo.updateFindingsCounts = vi.fn();
+      mockTemplateService.getTemplateById.mockResolvedValue(template);
+      mockSampleRepo.findByAuditId.mockResolvedValue([sample]);
+      mockFindingRepo.createFinding.mockResolvedValue({ id: 'finding-1' });
+    });
+
+    it('should raise a critical finding when a critical item fails', async () => {
+      const response = await service.recordChecklistResponse(
+        mockAudit.id,
+        { sampleId: 'sample-1', sectionId: 'five-rights', itemId: 'med-1', response: 'NO', notes: 'No ID check charted' },
+        userContext
+      );
+
+      expect(response).toMatchObject({ result: 'FAIL', findingId: 'finding-1', templateId: 'template-medication-audit' });
+      expect(mockFindingRepo.createFinding).toHaveBeenCalledWith(expect.objectContaining({
+        severity: 'CRITICAL',
+        category: 'MEDICATION',
+        affectedEntity: 'CLIENT',
+        affectedEntityId: 'client-1',
+        branchId: 'branch-a',
+      }));
+      expect(mockAuditRepo.updateFindingsCounts).toHaveBeenCalledWith(mockAudit.id);
+    });
+
+    it('should not raise a second finding when a failed response is re-recorded', async () => {
+      mockResponseRepo.findResponse.mockResolvedValue({ id: 'response-1', findingId: 'finding-1' });
+
+      await service.recordChecklistResponse(
+        mockAudit.id,
+        { sampleId: 'sample-1', sectionId: 'five-rights', itemId: 'med-1', response: 'NO' },
+        userContext
+      );
+
+      expect(mockFindingRepo.createFinding).not.toHaveBeenCalled();
+      expect(mockResponseRepo.update).toHaveBeenCalledWith(
+        'response-1',
+        expect.objectContaining({ result: 'FAIL', findingId: 'finding-1' }),
+        userContext
+      );
+    });
+
+    it('should require evidence and a sampled record', async () => {
+      await expect(
+        service.recordChecklistResponse(
+          mockAudit.id,
+          { sampleId: 'sample-1', sectionId: 'five-rights', itemId: 'med-6', response: 'YES' },
+          userContext
+        )
+      ).rejects.toThrow('Evidence is required for this checklist item');
+      await expect(
+        service.recordChecklistResponse(
+          mockAudit.id,
+          { sectionId: 'five-rights', itemId: 'med-1', response: 'YES' },
+          userContext
+        )
+      ).rejects.toThrow('A sampled record is required for this audit');
+    });
+
+    it('should reject responses outside the item vocabulary', async () => {
+      await expect(
+        service.recordChecklistResponse(
+          mockAudit.id,
+          { sampleId: 'sample-1', sectionId: 'five-rights', itemId: 'med-1', response: 'NA' },
+          userContext
+        )
+      ).rejects.toThrow('Invalid response "NA" for YES_NO checklist item');
+    });
+
+    it('should report progress and score from recorded responses', async () => {
+      mockResponseRepo.findByAuditId.mockResolvedValue([
+        { sampleId: 'sample-1', sectionId: 'five-rights', itemId: 'med-1', result: 'PASS' },
+        { sampleId: 'sample-1', sectionId: 'five-rights', itemId: 'med-6', result: 'FAIL' },
+      ]);
+      mockSampleRepo.findByAuditId.mockResolvedValue([sample, { ...sample, id: 'sample-2' }]);
+
+      const progress = await service.getChecklistProgress(mockAudit.id, userContext);
+
+      expect(progress).toMatchObject({
+        sampleCount: 2,
+        expectedResponses: 4,
+        recordedResponses: 2,
+        unansweredMandatoryItems: 2,
+        complianceScore: 67,
+      });
+    });
+
+    it('should score a completed audit from its checklist', async () => {
+      mockResponseRepo.findByAuditId.mockResolvedValue([
+        { sampleId: 'sample-1', sectionId: 'five-rights', itemId: 'med-1', result: 'PASS' },
+        { sampleId: 'sample-1', sectionId: 'five-rights', itemId: 'med-6', result: 'NOT_APPLICABLE' },
+      ]);
+
+      await service.completeAudit(mockAudit.id, 'Summary', 'Recommendations', userContext);
+
+      expect(mockAuditRepo.update).toHaveBeenCalledWith(
+        mockAudit.id,
+        expect.objectContaining({ complianceScore: 100 }),
+        userContext
+      );
+      expect(mockFindingRepo.findByAuditId).not.toHaveBeenCalled();
+    });
+  });
 });
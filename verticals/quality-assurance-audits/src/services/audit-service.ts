@@ -17,11 +17,20 @@ import {
 } from '@care-commons/core';
 import type {
   Audit,
+  AuditChecklistItem,
+  AuditChecklistProgress,
+  AuditChecklistResponse,
   AuditFinding,
+  AuditSample,
+  AuditTemplate,
+  AuditType,
   CorrectiveAction,
+  CreateAuditFindingInput,
+  DrawAuditSampleInput,
+  FindingCategory,
+  RecordChecklistResponseInput,
   CreateAuditInput,
   UpdateAuditInput,
-  CreateAuditFindingInput,
   CreateCorrectiveActionInput,
   UpdateCorrectiveActionProgressInput,
   AuditSummary,
@@ -32,8 +41,30 @@ import type {
 import {
   AuditRepository,
   AuditFindingRepository,
-  CorrectiveActionRepository
+  CorrectiveActionRepository,
+  AuditSampleRepository,
+  AuditChecklistResponseRepository
 } from '../repositories/audit-repository';
+import { AuditTemplateService } from './audit-template.service';
+import { createSamplingSeed, drawRandomSample, drawStratifiedSample } from '../utils/audit-sampling';
+import { calculateChecklistScores, evaluateChecklistResponse } from '../utils/checklist-scoring';
+
+/**
+ * Finding category for checklist failures, by audit type
+ */
+const FINDING_CATEGORY_BY_AUDIT_TYPE = new Map<AuditType, FindingCategory>([
+  ['COMPLIANCE', 'REGULATORY'],
+  ['QUALITY', 'QUALITY_OF_CARE'],
+  ['SAFETY', 'SAFETY'],
+  ['DOCUMENTATION', 'DOCUMENTATION'],
+  ['FINANCIAL', 'FINANCIAL'],
+  ['MEDICATION', 'MEDICATION'],
+  ['INFECTION_CONTROL', 'INFECTION_CONTROL'],
+  ['TRAINING', 'TRAINING']
+]);
+
+const SAMPLING_STATUSES: ReadonlySet<string> = new Set(['DRAFT', 'SCHEDULED', 'IN_PROGRESS']);
+const RESPONSE_STATUSES: ReadonlySet<string> = new Set(['IN_PROGRESS', 'FINDINGS_REVIEW']);
 
 /**
  * Service for managing quality assurance and audits
@@ -43,7 +74,10 @@ export class AuditService {
     private auditRepo: AuditRepository,
     private findingRepo: AuditFindingRepository,
     private correctiveActionRepo: CorrectiveActionRepository,
-    private permissions: PermissionService
+    private permissions: PermissionService,
+    private templateService: AuditTemplateService,
+    private sampleRepo: AuditSampleRepository,
+    private responseRepo: AuditChecklistResponseRepository
   ) {}
 
   /**
@@ -124,11 +158,15 @@ export class AuditService {
 
     const findings = await this.findingRepo.findByAuditId(auditId);
     const correctiveActions = await this.correctiveActionRepo.findByAuditId(auditId);
+    const checklistResponses = await this.responseRepo.findByAuditId(auditId);
+    const samples = await this.sampleRepo.findByAuditId(auditId);
 
     return {
       ...audit,
       findings,
-      correctiveActions
+      correctiveActions,
+      checklistResponses,
+      samples
     };
   }
 
@@ -203,7 +241,7 @@ export class AuditService {
     }
 
     // Calculate compliance score
-    const complianceScore = await this.calculateComplianceScore(auditId);
+    const complianceScore = await this.calculateComplianceScore(audit, context);
 
     return await this.auditRepo.update(auditId, {
       status: 'COMPLETED',
@@ -234,10 +272,20 @@ export class AuditService {
   }
 
   /**
-   * Calculate compliance score based on findings
+   * Calculate compliance score from checklist responses, or from findings
+   * when the checklist was not used
    */
-  private async calculateComplianceScore(auditId: UUID): Promise<number> {
-    const findings = await this.findingRepo.findByAuditId(auditId);
+  private async calculateComplianceScore(audit: Audit, context: UserContext): Promise<number> {
+    const responses = audit.templateId ? await this.responseRepo.findByAuditId(audit.id) : [];
+    if (responses.length > 0) {
+      const template = await this.getChecklistTemplate(audit, context);
+      const { complianceScore } = calculateChecklistScores(template.checklistSections, responses);
+      if (complianceScore !== undefined) {
+        return complianceScore;
+      }
+    }
+
+    const findings = await this.findingRepo.findByAuditId(audit.id);
 
     if (findings.length === 0) {
       return 100;
@@ -280,6 +328,268 @@ export class AuditService {
     return validTransitions[currentStatus]?.includes(newStatus) || false;
   }
 
+  // ============================================================================
+  // Sampling & Checklist Execution
+  // ============================================================================
+
+  /**
+   * Draw a random sample of client charts or caregiver files to review,
+   * optionally stratified by branch
+   */
+  async drawSample(
+    auditId: UUID,
+    input: DrawAuditSampleInput,
+    context: UserContext
+  ): Promise<AuditSample[]> {
+    // Validate organization context
+    this.validateOrganizationContext(context);
+
+    // Validate permissions
+    if (!this.permissions.hasPermission(context, 'audits:update')) {
+      throw new Error('Insufficient permissions to sample audit records') as PermissionError;
+    }
+
+    if (!Number.isInteger(input.sampleSize) || input.sampleSize < 1) {
+      throw new Error('Sample size must be a positive whole number') as ValidationError;
+    }
+
+    const audit = await this.auditRepo.findById(auditId);
+    if (!audit) {
+      throw new Error('Audit not found') as NotFoundError;
+    }
+
+    if (!SAMPLING_STATUSES.has(audit.status)) {
+      throw new Error('Can only draw a sample for audits that are in draft, scheduled or in progress') as ValidationError;
+    }
+
+    const existing = await this.sampleRepo.findByAuditId(auditId);
+    if (existing.length > 0) {
+      throw new Error('A sample has already been drawn for this audit') as ValidationError;
+    }
+
+    const population = await this.sampleRepo.getSamplingPopulation(
+      context.organizationId,
+      input.sampleType,
+      input.branchIds
+    );
+    if (population.length === 0) {
+      throw new Error('No records are available to sample') as ValidationError;
+    }
+
+    const seed = input.seed ?? createSamplingSeed();
+    const selected = input.stratifyByBranch
+      ? drawStratifiedSample(population, input.sampleSize, seed, candidate => candidate.branchId ?? 'UNASSIGNED')
+      : drawRandomSample(population, input.sampleSize, seed);
+
+    return await this.sampleRepo.createSamples(auditId, input.sampleType, selected, seed, {
+      userId: context.userId,
+      organizationId: context.organizationId
+    });
+  }
+
+  /**
+   * Record the response to a checklist item, for a sampled record when the
+   * audit is sampled. A failed critical item raises a critical finding.
+   */
+  async recordChecklistResponse(
+    auditId: UUID,
+    input: RecordChecklistResponseInput,
+    context: UserContext
+  ): Promise<AuditChecklistResponse> {
+    // Validate organization context
+    this.validateOrganizationContext(context);
+
+    // Validate permissions
+    if (!this.permissions.hasPermission(context, 'audits:record-responses')) {
+      throw new Error('Insufficient permissions to record checklist responses') as PermissionError;
+    }
+
+    const audit = await this.auditRepo.findById(auditId);
+    if (!audit) {
+      throw new Error('Audit not found') as NotFoundError;
+    }
+
+    if (!RESPONSE_STATUSES.has(audit.status)) {
+      throw new Error('Can only record checklist responses for audits that are in progress or in findings review') as ValidationError;
+    }
+
+    const template = await this.getChecklistTemplate(audit, context);
+    const item = template.checklistSections
+      .find(section => section.sectionId === input.sectionId)
+      ?.items.find(checklistItem => checklistItem.itemId === input.itemId);
+    if (!item) {
+      throw new Error('Checklist item not found') as NotFoundError;
+    }
+
+    const sample = await this.getResponseSample(auditId, input.sampleId);
+
+    const result = evaluateChecklistResponse(item, input.response);
+    if (!result) {
+      throw new Error(`Invalid response "${input.response}" for ${item.responseType} checklist item`) as ValidationError;
+    }
+
+    const hasEvidence = (input.evidenceUrls?.length ?? 0) > 0 || Boolean(input.notes?.trim());
+    if (item.requiresEvidence && result !== 'NOT_APPLICABLE' && !hasEvidence) {
+      throw new Error('Evidence is required for this checklist item') as ValidationError;
+    }
+
+    const existing = await this.responseRepo.findResponse(auditId, sample?.id ?? null, item.itemId);
+
+    // Raise a finding the first time a critical item fails for this record
+    let findingId = existing?.findingId ?? null;
+    if (result === 'FAIL' && item.isCritical && !findingId) {
+      const finding = await this.findingRepo.createFinding({
+        ...this.buildCriticalFinding(audit, item, sample, input),
+        observedBy: context.userId,
+        createdBy: context.userId,
+        organizationId: context.organizationId,
+        branchId: sample?.branchId ?? audit.branchId
+      });
+      await this.auditRepo.updateFindingsCounts(auditId);
+      findingId = finding.id;
+    }
+
+    if (existing) {
+      return await this.responseRepo.update(existing.id, {
+        response: input.response,
+        result,
+        notes: input.notes,
+        evidenceUrls: input.evidenceUrls ?? [],
+        respondedBy: context.userId,
+        respondedAt: new Date(),
+        findingId
+      }, context);
+    }
+
+    return await this.responseRepo.createResponse({
+      ...input,
+      sampleId: sample?.id,
+      auditId,
+      templateId: template.id,
+      result,
+      findingId,
+      respondedBy: context.userId,
+      organizationId: context.organizationId
+    });
+  }
+
+  /**
+   * Get checklist completion and the compliance score so far
+   */
+  async getChecklistProgress(
+    auditId: UUID,
+    context: UserContext
+  ): Promise<AuditChecklistProgress> {
+    // Validate permissions
+    if (!this.permissions.hasPermission(context, 'audits:view')) {
+      throw new Error('Insufficient permissions to view audits') as PermissionError;
+    }
+
+    const audit = await this.auditRepo.findById(auditId);
+    if (!audit) {
+      throw new Error('Audit not found') as NotFoundError;
+    }
+
+    const template = await this.getChecklistTemplate(audit, context);
+    const samples = await this.sampleRepo.findByAuditId(auditId);
+    const responses = await this.responseRepo.findByAuditId(auditId);
+
+    // Unsampled audits answer the checklist once, for the audit itself
+    const recordKeys = samples.length > 0 ? samples.map(sample => sample.id) : [null];
+    const answered = new Set(responses.map(response => `${response.sampleId ?? ''}:${response.itemId}`));
+    const items = template.checklistSections.flatMap(section => section.items);
+    const unansweredMandatoryItems = recordKeys.reduce((count, recordKey) =>
+      count + items.filter(item => item.isMandatory && !answered.has(`${recordKey ?? ''}:${item.itemId}`)).length,
+    0);
+
+    const { sections, complianceScore } = calculateChecklistScores(template.checklistSections, responses);
+
+    return {
+      auditId,
+      templateId: template.id,
+      sampleCount: samples.length,
+      expectedResponses: items.length * recordKeys.length,
+      recordedResponses: responses.length,
+      unansweredMandatoryItems,
+      complianceScore,
+      sections
+    };
+  }
+
+  /**
+   * Load the checklist template an audit was created from
+   */
+  private async getChecklistTemplate(audit: Audit, context: UserContext): Promise<AuditTemplate> {
+    if (!audit.templateId) {
+      throw new Error('Audit has no checklist template') as ValidationError;
+    }
+
+    const template = await this.templateService.getTemplateById(audit.templateId, context);
+    if (!template) {
+      throw new Error('Audit template not found') as NotFoundError;
+    }
+    return template;
+  }
+
+  /**
+   * Resolve the sampled record a response is for. Sampled audits need a
+   * record; unsampled audits must not name one.
+   */
+  private async getResponseSample(auditId: UUID, sampleId: UUID | undefined): Promise<AuditSample | null> {
+    const samples = await this.sampleRepo.findByAuditId(auditId);
+
+    if (samples.length === 0) {
+      if (sampleId) {
+        throw new Error('Sampled record not found') as NotFoundError;
+      }
+      return null;
+    }
+
+    if (!sampleId) {
+      throw new Error('A sampled record is required for this audit') as ValidationError;
+    }
+
+    const sample = samples.find(candidate => candidate.id === sampleId);
+    if (!sample) {
+      throw new Error('Sampled record not found') as NotFoundError;
+    }
+    return sample;
+  }
+
+  /**
+   * Describe a failed critical checklist item as a finding
+   */
+  private buildCriticalFinding(
+    audit: Audit,
+    item: AuditChecklistItem,
+    sample: AuditSample | null,
+    input: RecordChecklistResponseInput
+  ): CreateAuditFindingInput {
+    const subject = sample ? ` for ${sample.entityName}` : '';
+    let affectedEntity: CreateAuditFindingInput['affectedEntity'];
+    if (sample) {
+      affectedEntity = sample.sampleType === 'CLIENT_CHART' ? 'CLIENT' : 'CAREGIVER';
+    }
+
+    return {
+      auditId: audit.id,
+      title: `Critical checklist item failed: ${item.question}`.slice(0, 255),
+      description: `Checklist item ${item.itemId} failed${subject}: ${item.question}`,
+      category: FINDING_CATEGORY_BY_AUDIT_TYPE.get(audit.auditType) ?? 'QUALITY_OF_CARE',
+      severity: 'CRITICAL',
+      standardReference: item.standardReference,
+      evidenceDescription: input.notes,
+      evidenceUrls: input.evidenceUrls,
+      affectedEntity,
+      affectedEntityId: sample?.entityId,
+      affectedEntityName: sample?.entityName,
+      requiredCorrectiveAction: item.guidance
+        ? `Correct the deficiency and re-verify: ${item.guidance}`
+        : 'Correct the deficiency and re-verify compliance',
+      recommendedTimeframe: 'Within 24 hours'
+    };
+  }
+
   // ============================================================================
   // Audit Findings Management
   // ============================================================================
@@ -503,6 +503,7 @@ export class AuditTemplateService {
             question: 'Right Patient: Is patient identity verified before administration?',
             responseType: 'YES_NO',
             isMandatory: true,
+            isCritical: true,
             requiresEvidence: false,
             orderIndex: 1,
             weight: 20
@@ -512,6 +513,7 @@ export class AuditTemplateService {
             question: 'Right Drug: Is the correct medication administered?',
             responseType: 'YES_NO',
             isMandatory: true,
+            isCritical: true,
             requiresEvidence: false,
             orderIndex: 2,
             weight: 20
@@ -521,6 +523,7 @@ export class AuditTemplateService {
             question: 'Right Dose: Is the correct dose administered?',
             responseType: 'YES_NO',
             isMandatory: true,
+            isCritical: true,
             requiresEvidence: false,
             orderIndex: 3,
             weight: 20
@@ -530,6 +533,7 @@ export class AuditTemplateService {
             question: 'Right Route: Is medication given via the correct route?',
             responseType: 'YES_NO',
             isMandatory: true,
+            isCritical: true,
             requiresEvidence: false,
             orderIndex: 4,
             weight: 20
@@ -539,6 +543,7 @@ export class AuditTemplateService {
             question: 'Right Time: Is medication administered at the correct time?',
             responseType: 'YES_NO',
             isMandatory: true,
+            isCritical: true,
             requiresEvidence: false,
             orderIndex: 5,
             weight: 20
@@ -586,6 +591,7 @@ export class AuditTemplateService {
             question: 'Are caregivers performing hand hygiene before and after each client contact?',
             responseType: 'YES_NO',
             isMandatory: true,
+            isCritical: true,
             requiresEvidence: false,
             orderIndex: 1,
             weight: 20
@@ -595,6 +601,7 @@ export class AuditTemplateService {
             question: 'Are PPE (gloves, masks) used appropriately when indicated?',
             responseType: 'YES_NO',
             isMandatory: true,
+            isCritical: true,
             requiresEvidence: false,
             orderIndex: 2,
             weight: 20
@@ -789,6 +796,7 @@ export class AuditTemplateService {
             question: 'Are all required certifications current and valid?',
             responseType: 'YES_NO',
             isMandatory: true,
+            isCritical: true,
             requiresEvidence: true,
             orderIndex: 1,
             weight: 15
@@ -92,7 +92,7 @@ export interface Audit extends Entity {
   // Standards & criteria
   standardsReference?: string; // Reference to regulatory standards (e.g., "CMS 42 CFR 484")
   auditCriteria?: string[]; // Specific criteria being evaluated
-  templateId?: UUID; // Reference to audit template if used
+  templateId?: string; // Audit template used, if any (predefined template slug or custom template ID)
 
   // Results summary
   totalFindings: number;
@@ -360,22 +360,33 @@ export interface AuditChecklistItem {
   standardReference?: string;
   responseType: 'YES_NO' | 'YES_NO_NA' | 'COMPLIANT_NONCOMPLIANT' | 'RATING' | 'TEXT';
   isMandatory: boolean;
+  isCritical?: boolean; // A failed response raises a critical finding
   requiresEvidence: boolean;
   orderIndex: number;
   weight?: number; // Point value for scoring
 }
 
+/**
+ * Checklist response normalized for scoring
+ */
+export type ChecklistResult =
+  | 'PASS'
+  | 'FAIL'
+  | 'NOT_APPLICABLE'; // Excluded from the compliance score
+
 /**
  * Completed checklist response
  */
 export interface AuditChecklistResponse extends Entity {
   auditId: UUID;
-  templateId: UUID;
+  templateId: string;
+  sampleId?: UUID | null; // Sampled record the response applies to
   sectionId: string;
   itemId: string;
 
   // Response
   response: string; // YES, NO, NA, COMPLIANT, NON_COMPLIANT, or numeric rating
+  result: ChecklistResult;
   notes?: string;
   evidenceUrls?: string[];
 
@@ -390,6 +401,40 @@ export interface AuditChecklistResponse extends Entity {
   organizationId: UUID;
 }
 
+// ============================================================================
+// Audit Sampling Types
+// ============================================================================
+
+/**
+ * Kind of record drawn for review
+ */
+export type AuditSampleType =
+  | 'CLIENT_CHART'
+  | 'CAREGIVER_FILE';
+
+/**
+ * Client chart or caregiver file randomly selected for review in an audit
+ */
+export interface AuditSample extends Entity {
+  auditId: UUID;
+  sampleType: AuditSampleType;
+  entityId: UUID;
+  entityName: string;
+  branchId?: UUID | null;
+  sequenceNumber: number; // Order drawn, 1-based
+  samplingSeed: string; // Seed the sample was drawn with, for reproducibility
+  organizationId: UUID;
+}
+
+/**
+ * Record eligible to be sampled
+ */
+export interface AuditSamplingCandidate {
+  entityId: UUID;
+  entityName: string;
+  branchId?: UUID | null;
+}
+
 // ============================================================================
 // Service Layer Input/Output Types
 // ============================================================================
@@ -411,7 +456,7 @@ export interface CreateAuditInput {
   auditorIds?: UUID[];
   standardsReference?: string;
   auditCriteria?: string[];
-  templateId?: UUID;
+  templateId?: string;
 }
 
 /**
@@ -486,6 +531,29 @@ export interface UpdateCorrectiveActionProgressInput {
   nextSteps?: string;
 }
 
+/**
+ * Input for drawing a random sample of records for an audit
+ */
+export interface DrawAuditSampleInput {
+  sampleType: AuditSampleType;
+  sampleSize: number;
+  stratifyByBranch?: boolean; // Allocate the sample across branches in proportion to their size
+  branchIds?: UUID[]; // Limit the population to these branches
+  seed?: string; // Reuse a seed to reproduce an earlier draw
+}
+
+/**
+ * Input for recording a checklist response
+ */
+export interface RecordChecklistResponseInput {
+  sampleId?: UUID;
+  sectionId: string;
+  itemId: string;
+  response: string;
+  notes?: string;
+  evidenceUrls?: string[];
+}
+
 /**
  * Input for creating audit template
  */
@@ -531,6 +599,33 @@ export interface AuditDetail extends Audit {
   findings: AuditFinding[];
   correctiveActions: CorrectiveAction[];
   checklistResponses?: AuditChecklistResponse[];
+  samples?: AuditSample[];
+}
+
+/**
+ * Compliance score for one checklist section
+ */
+export interface ChecklistSectionScore {
+  sectionId: string;
+  title: string;
+  passed: number;
+  failed: number;
+  notApplicable: number;
+  score?: number; // Percentage (0-100); absent until a scored response exists
+}
+
+/**
+ * Checklist completion and scoring for an audit
+ */
+export interface AuditChecklistProgress {
+  auditId: UUID;
+  templateId: string;
+  sampleCount: number;
+  expectedResponses: number; // Checklist items × sampled records
+  recordedResponses: number;
+  unansweredMandatoryItems: number;
+  complianceScore?: number; // Percentage (0-100)
+  sections: ChecklistSectionScore[];
 }
 
 /**
@@ -0,0 +1,63 @@
+/**
+ * Audit Sampling Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  allocateStratifiedSample,
+  drawRandomSample,
+  drawStratifiedSample,
+} from '../audit-sampling';
+
+const population = Array.from({ length: 50 }, (_, index) => `record-${index}`);
+
+describe('drawRandomSample', () => {
+  it('should draw distinct records from the population', () => {
+    const sample = drawRandomSample(population, 10, 'seed');
+
+    expect(sample).toHaveLength(10);
+    expect(new Set(sample).size).toBe(10);
+    expect(sample.every(record => population.includes(record))).toBe(true);
+  });
+
+  it('should reproduce the same draw from the same seed', () => {
+    expect(drawRandomSample(population, 10, 'seed')).toEqual(drawRandomSample(population, 10, 'seed'));
+    expect(drawRandomSample(population, 10, 'seed')).not.toEqual(drawRandomSample(population, 10, 'other-seed'));
+  });
+
+  it('should return the whole population when the sample is larger', () => {
+    expect(drawRandomSample(population.slice(0, 3), 10, 'seed').sort((a, b) => a.localeCompare(b))).toEqual(population.slice(0, 3));
+  });
+});
+
+describe('allocateStratifiedSample', () => {
+  it('should allocate in proportion to stratum size', () => {
+    const allocation = allocateStratifiedSample(new Map([['a', 60], ['b', 30], ['c', 10]]), 10);
+
+    expect(Object.fromEntries(allocation)).toEqual({ a: 6, b: 3, c: 1 });
+  });
+
+  it('should represent every stratum when the sample allows it', () => {
+    const allocation = allocateStratifiedSample(new Map([['a', 100], ['b', 1], ['c', 1]]), 3);
+
+    expect(Object.fromEntries(allocation)).toEqual({ a: 1, b: 1, c: 1 });
+  });
+
+  it('should never allocate more than a stratum holds', () => {
+    const allocation = allocateStratifiedSample(new Map([['a', 2], ['b', 20]]), 15);
+
+    expect(allocation.get('a')).toBeLessThanOrEqual(2);
+    expect((allocation.get('a') ?? 0) + (allocation.get('b') ?? 0)).toBe(15);
+  });
+});
+
+describe('drawStratifiedSample', () => {
+  it('should sample each stratum independently', () => {
+    const records = population.map((id, index) => ({ id, branch: index < 40 ? 'north' : 'south' }));
+
+    const sample = drawStratifiedSample(records, 5, 'seed', record => record.branch);
+
+    expect(sample.filter(record => record.branch === 'north')).toHaveLength(4);
+    expect(sample.filter(record => record.branch === 'south')).toHaveLength(1);
+  });
+});
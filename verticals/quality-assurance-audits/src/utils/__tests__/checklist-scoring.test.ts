@@ -0,0 +1,84 @@
+/**
+ * Checklist Scoring Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { calculateChecklistScores, evaluateChecklistResponse } from '../checklist-scoring';
+import type { AuditChecklistItem, AuditChecklistSection } from '../../types/audit';
+
+const item = (overrides: Partial<AuditChecklistItem>): AuditChecklistItem => ({
+  itemId: 'item-1',
+  question: 'Is it done?',
+  responseType: 'YES_NO',
+  isMandatory: true,
+  requiresEvidence: false,
+  orderIndex: 1,
+  ...overrides,
+});
+
+describe('evaluateChecklistResponse', () => {
+  it('should normalize responses in the item vocabulary', () => {
+    expect(evaluateChecklistResponse(item({}), 'yes')).toBe('PASS');
+    expect(evaluateChecklistResponse(item({}), 'NO')).toBe('FAIL');
+    expect(evaluateChecklistResponse(item({ responseType: 'COMPLIANT_NONCOMPLIANT' }), 'NON_COMPLIANT')).toBe('FAIL');
+    expect(evaluateChecklistResponse(item({ responseType: 'RATING' }), '3')).toBe('PASS');
+    expect(evaluateChecklistResponse(item({ responseType: 'RATING' }), '2')).toBe('FAIL');
+  });
+
+  it('should only allow not applicable where the item permits it', () => {
+    expect(evaluateChecklistResponse(item({ responseType: 'YES_NO_NA' }), 'NA')).toBe('NOT_APPLICABLE');
+    expect(evaluateChecklistResponse(item({ isMandatory: false }), 'NA')).toBe('NOT_APPLICABLE');
+    expect(evaluateChecklistResponse(item({}), 'NA')).toBeNull();
+  });
+
+  it('should reject responses outside the vocabulary', () => {
+    expect(evaluateChecklistResponse(item({}), 'COMPLIANT')).toBeNull();
+    expect(evaluateChecklistResponse(item({ responseType: 'RATING' }), '6')).toBeNull();
+  });
+});
+
+describe('calculateChecklistScores', () => {
+  const sections: AuditChecklistSection[] = [
+    {
+      sectionId: 'privacy',
+      title: 'Privacy',
+      orderIndex: 1,
+      weightPercentage: 75,
+      items: [item({ itemId: 'p-1', weight: 10 }), item({ itemId: 'p-2', weight: 30 })],
+    },
+    {
+      sectionId: 'security',
+      title: 'Security',
+      orderIndex: 2,
+      weightPercentage: 25,
+      items: [item({ itemId: 's-1' })],
+    },
+  ];
+
+  it('should weight items within a section and sections within the checklist', () => {
+    const scores = calculateChecklistScores(sections, [
+      { sectionId: 'privacy', itemId: 'p-1', result: 'FAIL' },
+      { sectionId: 'privacy', itemId: 'p-2', result: 'PASS' },
+      { sectionId: 'security', itemId: 's-1', result: 'FAIL' },
+    ]);
+
+    expect(scores.sections.map(section => section.score)).toEqual([75, 0]);
+    // 75% × 75 + 0% × 25
+    expect(scores.complianceScore).toBe(56);
+  });
+
+  it('should leave not applicable responses and unanswered sections out of the score', () => {
+    const scores = calculateChecklistScores(sections, [
+      { sectionId: 'privacy', itemId: 'p-1', result: 'PASS' },
+      { sectionId: 'privacy', itemId: 'p-2', result: 'NOT_APPLICABLE' },
+    ]);
+
+    expect(scores.sections[0]).toMatchObject({ passed: 1, notApplicable: 1, score: 100 });
+    expect(scores.sections[1]!.score).toBeUndefined();
+    expect(scores.complianceScore).toBe(100);
+  });
+
+  it('should not score a checklist with no scored responses', () => {
+    expect(calculateChecklistScores(sections, []).complianceScore).toBeUndefined();
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * Audit record sampling
+ *
+ * Draws a simple or branch-stratified random sample of client charts or
+ * caregiver files. The generator is seeded and the seed is stored with the
+ * sample, so a surveyor can reproduce exactly which records were chosen.
+ */
+
+import { randomUUID } from 'node:crypto';
+
+/**
+ * Generate a new seed for a sample draw
+ */
+export function createSamplingSeed(): string {
+  return randomUUID();
+}
+
+/**
+ * FNV-1a hash of the seed string, used to initialise the generator
+ */
+function hashSeed(seed: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Mulberry32 pseudo-random generator returning values in [0, 1)
+ */
+function createGenerator(seed: string): () => number {
+  let state = hashSeed(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Draw a simple random sample without replacement. Returns the whole
+ * population (shuffled) when it is no larger than the requested size.
+ */
+export function drawRandomSample<T>(population: readonly T[], size: number, seed: string): T[] {
+  const random = createGenerator(seed);
+  const pool = [...population];
+  const count = Math.min(Math.max(0, Math.floor(size)), pool.length);
+
+  // Partial Fisher-Yates: the first `count` positions end up as the sample
+  for (let i = 0; i < count; i++) {
+    const j = i + Math.floor(random() * (pool.length - i));
+    [pool[i], pool[j]] = [pool[j] as T, pool[i] as T];
+  }
+
+  return pool.slice(0, count);
+}
+
+/**
+ * Allocate a sample across strata in proportion to their size, using the
+ * largest-remainder method. When the sample is at least as large as the
+ * number of strata, every stratum is represented by at least one record.
+ */
+export function allocateStratifiedSample(
+  strataSizes: ReadonlyMap<string, number>,
+  size: number
+): Map<string, number> {
+  const strata = Array.from(strataSizes.entries())
+    .filter(([, stratumSize]) => stratumSize > 0)
+    .sort(([a], [b]) => a.localeCompare(b));
+  const populationSize = strata.reduce((sum, [, stratumSize]) => sum + stratumSize, 0);
+  const sampleSize = Math.min(Math.max(0, Math.floor(size)), populationSize);
+  const allocation = new Map<string, number>();
+
+  if (sampleSize === 0) {
+    return allocation;
+  }
+
+  const guaranteeEachStratum = sampleSize >= strata.length;
+  const remainders = new Map<string, number>();
+  for (const [stratum, stratumSize] of strata) {
+    const quota = (sampleSize * stratumSize) / populationSize;
+    const base = Math.min(stratumSize, Math.floor(quota));
+    allocation.set(stratum, guaranteeEachStratum ? Math.max(base, 1) : base);
+    remainders.set(stratum, quota - Math.floor(quota));
+  }
+
+  let remaining = sampleSize - sumValues(allocation);
+
+  // The one-per-stratum guarantee can overshoot; take back from the largest strata
+  while (remaining < 0) {
+    const [largest] = Array.from(allocation.entries()).sort(([, a], [, b]) => b - a)[0]!;
+    allocation.set(largest, allocation.get(largest)! - 1);
+    remaining++;
+  }
+
+  const byRemainder = strata
+    .map(([stratum]) => stratum)
+    .sort((a, b) => remainders.get(b)! - remainders.get(a)!);
+  while (remaining > 0) {
+    for (const stratum of byRemainder) {
+      if (remaining === 0) break;
+      if (allocation.get(stratum)! < strataSizes.get(stratum)!) {
+        allocation.set(stratum, allocation.get(stratum)! + 1);
+        remaining--;
+      }
+    }
+  }
+
+  return allocation;
+}
+
+/**
+ * Draw a stratified random sample, allocating records across strata in
+ * proportion to stratum size and sampling each stratum independently
+ */
+export function drawStratifiedSample<T>(
+  population: readonly T[],
+  size: number,
+  seed: string,
+  getStratum: (item: T) => string
+): T[] {
+  const strata = new Map<string, T[]>();
+  for (const item of population) {
+    const stratum = getStratum(item);
+    const members = strata.get(stratum);
+    if (members) {
+      members.push(item);
+    } else {
+      strata.set(stratum, [item]);
+    }
+  }
+
+  const allocation = allocateStratifiedSample(
+    new Map(Array.from(strata.entries(), ([stratum, items]) => [stratum, items.length])),
+    size
+  );
+
+  return Array.from(allocation.entries()).flatMap(([stratum, count]) =>
+    drawRandomSample(strata.get(stratum) ?? [], count, `${seed}:${stratum}`)
+  );
+}
+
+function sumValues(map: ReadonlyMap<string, number>): number {
+  let total = 0;
+  for (const value of map.values()) {
+    total += value;
+  }
+  return total;
+}
@@ -0,0 +1,128 @@
+/**
+ * Checklist response evaluation and compliance scoring
+ *
+ * Responses are recorded in each item's own vocabulary (YES/NO, COMPLIANT/
+ * NON_COMPLIANT, a 1-5 rating) and normalized to PASS, FAIL or
+ * NOT_APPLICABLE. The compliance score is the weighted share of passing
+ * responses; not-applicable responses do not count either way.
+ */
+
+import type {
+  AuditChecklistItem,
+  AuditChecklistResponse,
+  AuditChecklistSection,
+  ChecklistResult,
+  ChecklistSectionScore
+} from '../types/audit';
+
+/**
+ * Lowest rating (on a 1-5 scale) that counts as a pass
+ */
+export const RATING_PASS_THRESHOLD = 3;
+
+const NOT_APPLICABLE_RESPONSE = 'NA';
+
+const RESPONSE_RESULTS = new Map<AuditChecklistItem['responseType'], ReadonlyMap<string, ChecklistResult>>([
+  ['YES_NO', new Map([['YES', 'PASS'], ['NO', 'FAIL']])],
+  ['YES_NO_NA', new Map([['YES', 'PASS'], ['NO', 'FAIL']])],
+  ['COMPLIANT_NONCOMPLIANT', new Map([['COMPLIANT', 'PASS'], ['NON_COMPLIANT', 'FAIL']])]
+]);
+
+/**
+ * Whether an item may be answered as not applicable
+ */
+export function allowsNotApplicable(item: AuditChecklistItem): boolean {
+  return item.responseType === 'YES_NO_NA' || !item.isMandatory;
+}
+
+/**
+ * Normalize a response to a result, or return null if the response is not
+ * valid for the item
+ */
+export function evaluateChecklistResponse(item: AuditChecklistItem, response: string): ChecklistResult | null {
+  const value = response.trim().toUpperCase();
+
+  if (value === NOT_APPLICABLE_RESPONSE) {
+    return allowsNotApplicable(item) ? 'NOT_APPLICABLE' : null;
+  }
+
+  if (item.responseType === 'RATING') {
+    const rating = Number(value);
+    if (!Number.isInteger(rating) || rating < 1 || rating > 5) {
+      return null;
+    }
+    return rating >= RATING_PASS_THRESHOLD ? 'PASS' : 'FAIL';
+  }
+
+  // Free-text answers are recorded for context but not scored
+  if (item.responseType === 'TEXT') {
+    return value.length > 0 ? 'NOT_APPLICABLE' : null;
+  }
+
+  return RESPONSE_RESULTS.get(item.responseType)?.get(value) ?? null;
+}
+
+/**
+ * Score each section and the checklist as a whole. Sections are weighted by
+ * their weight percentage, falling back to the total weight of their items;
+ * sections without any scored response are left out of the overall score.
+ */
+export function calculateChecklistScores(
+  sections: readonly AuditChecklistSection[],
+  responses: readonly Pick<AuditChecklistResponse, 'sectionId' | 'itemId' | 'result'>[]
+): { sections: ChecklistSectionScore[]; complianceScore?: number } {
+  let weightedScore = 0;
+  let totalSectionWeight = 0;
+
+  const sectionScores = [...sections]
+    .sort((a, b) => a.orderIndex - b.orderIndex)
+    .map((section): ChecklistSectionScore => {
+      const itemWeights = new Map(section.items.map(item => [item.itemId, item.weight ?? 1]));
+      const sectionResponses = responses.filter(
+        response => response.sectionId === section.sectionId && itemWeights.has(response.itemId)
+      );
+
+      let passedWeight = 0;
+      let scoredWeight = 0;
+      for (const response of sectionResponses) {
+        const weight = itemWeights.get(response.itemId)!;
+        if (response.result !== 'NOT_APPLICABLE') {
+          scoredWeight += weight;
+        }
+        if (response.result === 'PASS') {
+          passedWeight += weight;
+        }
+      }
+
+      const sectionScore: ChecklistSectionScore = {
+        sectionId: section.sectionId,
+        title: section.title,
+        passed: sectionResponses.filter(response => response.result === 'PASS').length,
+        failed: sectionResponses.filter(response => response.result === 'FAIL').length,
+        notApplicable: sectionResponses.filter(response => response.result === 'NOT_APPLICABLE').length
+      };
+
+      if (scoredWeight > 0) {
+        const score = (passedWeight / scoredWeight) * 100;
+        const sectionWeight = section.weightPercentage ?? sumWeights(itemWeights);
+        weightedScore += score * sectionWeight;
+        totalSectionWeight += sectionWeight;
+        sectionScore.score = Math.round(score);
+      }
+
+      return sectionScore;
+    });
+
+  return {
+    sections: sectionScores,
+    complianceScore: totalSectionWeight > 0 ? Math.round(weightedScore / totalSectionWeight) : undefined
+  };
+}
+
+function sumWeights(itemWeights: ReadonlyMap<string, number>): number {
+  let total = 0;
+  for (const weight of itemWeights.values()) {
+    total += weight;
+  }
+  return total;
+}
@@ -156,7 +156,7 @@ export const createAuditSchema = z
     auditorIds: z.array(z.string().uuid()).optional(),
     standardsReference: z.string().max(500).optional(),
     auditCriteria: z.array(z.string()).optional(),
-    templateId: z.string().uuid().optional(),
+    templateId: z.string().min(1).max(100).optional(),
   })
   .refine(
     (data) => {
@@ -279,6 +279,34 @@ export const updateCorrectiveActionProgressSchema = z.object({
   nextSteps: z.string().max(1000).optional(),
 });
 
+/**
+ * Audit Sample Type enum schema
+ */
+export const auditSampleTypeSchema = z.enum(['CLIENT_CHART', 'CAREGIVER_FILE']);
+
+/**
+ * Draw Audit Sample Input Schema
+ */
+export const drawAuditSampleSchema = z.object({
+  sampleType: auditSampleTypeSchema,
+  sampleSize: z.number().int().min(1).max(500),
+  stratifyByBranch: z.boolean().optional(),
+  branchIds: z.array(z.string().uuid()).optional(),
+  seed: z.string().min(1).max(100).optional(),
+});
+
+/**
+ * Record Checklist Response Input Schema
+ */
+export const recordChecklistResponseSchema = z.object({
+  sampleId: z.string().uuid().optional(),
+  sectionId: z.string().min(1).max(100),
+  itemId: z.string().min(1).max(100),
+  response: z.string().min(1).max(255),
+  notes: z.string().max(2000).optional(),
+  evidenceUrls: z.array(z.string().url()).optional(),
+});
+
 /**
  * Export type inferences
  */
@@ -289,3 +317,5 @@ export type CreateCorrectiveActionInput = z.infer<typeof createCorrectiveActionS
 export type UpdateCorrectiveActionProgressInput = z.infer<
   typeof updateCorrectiveActionProgressSchema
 >;
+export type DrawAuditSampleInput = z.infer<typeof drawAuditSampleSchema>;
+export type RecordChecklistResponseInput = z.infer<typeof recordChecklistResponseSchema>;
@@ -11,6 +11,7 @@
  * - Real-time status tracking
  * - Exception handling
  * - Availability checking and conflict detection
+ * - Service authorization forecasting and over-scheduling checks
  */
 
 // Types
@@ -18,19 +19,61 @@ export * from './types/schedule';
 
 // Service
 export { ScheduleService } from './service/schedule-service';
-export type { IClientAddressProvider } from './service/schedule-service';
+export type { IClientAddressProvider, IAuthorizationGuard } from './service/schedule-service';
+export { VisitExceptionService, DEFAULT_DETECTION_CONFIG } from './service/visit-exception-service';
+export { AuthorizationForecastService, DEFAULT_FORECAST_CONFIG } from './service/authorization-forecast-service';
 
 // Providers
 export * from './providers';
 
 // Repository
 export { ScheduleRepository } from './repository/schedule-repository';
+export { VisitExceptionRepository } from './repository/visit-exception-repository';
+export type {
+  VisitExceptionCandidate,
+  CreateAutomaticExceptionInput,
+  VisitExceptionUpdate,
+  ExceptionRecipient,
+} from './repository/visit-exception-repository';
+export { AuthorizationForecastRepository } from './repository/authorization-forecast-repository';
+export type {
+  AuthorizationAlertRecipient,
+  AuthorizedClient,
+} from './repository/authorization-forecast-repository';
+
+// Workers
+export {
+  VisitExceptionWorker,
+  initializeVisitExceptionWorker,
+  shutdownVisitExceptionWorker,
+} from './workers/visit-exception-worker';
+export type { VisitExceptionWorkerConfig } from './workers/visit-exception-worker';
+export {
+  AuthorizationAlertWorker,
+  initializeAuthorizationAlertWorker,
+  shutdownAuthorizationAlertWorker,
+} from './workers/authorization-alert-worker';
+export type { AuthorizationAlertWorkerConfig } from './workers/authorization-alert-worker';
 
 // Validation
 export { ScheduleValidator } from './validation/schedule-validator';
 
 // Utilities
 export * from './utils/schedule-utils';
+export {
+  expandRecurrence,
+  parseRRule,
+  formatRRule,
+  toRRule,
+} from './utils/recurrence';
+export type { CalendarDate, ParsedRRule, RRuleFrequency, RRuleWeekday, ExpansionOptions } from './utils/recurrence';
+export { exportServicePatternsToICalendar, parseICalendar } from './utils/icalendar';
+export type { ICalendarExportOptions, ICalendarImportOptions } from './utils/icalendar';
+export {
+  forecastAuthorizations,
+  checkVisitsAgainstAuthorizations,
+  visitUnits,
+} from './utils/authorization-forecast';
 
 // API / Integration
 export { VisitProvider, createVisitProvider } from './api/visit-provider';
@@ -2,7 +2,7 @@
  * Schedule Service Factory
  *
  * Provides factory functions for creating properly-wired ScheduleService instances
- * with all required dependencies (client address provider, etc.)
+ * with all required dependencies (client address provider, authorization guard, etc.)
  *
  * This eliminates the need to manually wire up dependencies and ensures
  * consistent configuration across the application.
@@ -12,6 +12,8 @@ import type { Pool } from 'pg';
 import type { UserContext } from '@care-commons/core';
 import { ScheduleService } from '../service/schedule-service';
 import { ScheduleRepository } from '../repository/schedule-repository';
+import { AuthorizationForecastRepository } from '../repository/authorization-forecast-repository';
+import { AuthorizationForecastService } from '../service/authorization-forecast-service';
 import { ClientAddressProvider } from './client-address-provider';
 import { ClientServiceAdapter } from './client-service-adapter';
 import type { ClientService } from '@care-commons/client-demographics';
@@ -31,6 +33,9 @@ export interface ScheduleServiceFactoryOptions {
 
   /** Cache TTL for client addresses (default: 5 minutes) */
   addressCacheTTL?: number;
+
+  /** Check new visits against the client's service authorizations (default: true) */
+  checkAuthorizations?: boolean;
 }
 
 /**
@@ -65,7 +70,7 @@ export interface ScheduleServiceFactoryOptions {
 export function createScheduleService(
   options: ScheduleServiceFactoryOptions
 ): ScheduleService {
-  const { pool, clientService, systemContext, addressCacheTTL } = options;
+  const { pool, clientService, systemContext, addressCacheTTL, checkAuthorizations = true } = options;
 
   // Create the repository
   const repository = new ScheduleRepository(pool);
@@ -80,8 +85,13 @@ export function createScheduleService(
     addressCacheTTL
   );
 
+  // Refuse visits the client's authorizations won't cover
+  const authorizationGuard = checkAuthorizations
+    ? new AuthorizationForecastService(new AuthorizationForecastRepository(pool))
+    : undefined;
+
   // Create and return the fully-wired schedule service
-  return new ScheduleService(repository, clientAddressProvider);
+  return new ScheduleService(repository, clientAddressProvider, authorizationGuard);
 }
 
 /**
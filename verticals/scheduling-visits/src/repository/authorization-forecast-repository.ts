@@ -0,0 +1,195 @@
+/**
+ * Repository for Authorization Forecasting
+ *
+ * Reads the service authorizations billing maintains, and the scheduled
+ * visits that will draw on them, so scheduling can forecast unit burn.
+ * A visit stops counting as scheduled demand once a billable item charged
+ * to an authorization exists for it, because billing has then moved its
+ * units into usedUnits.
+ */
+
+import { Pool } from 'pg';
+import { UUID } from '@care-commons/core';
+import {
+  AuthorizedVisitDemand,
+  SchedulingAuthorization,
+} from '../types/schedule';
+
+export interface AuthorizationAlertRecipient {
+  userId: UUID;
+  email: string;
+}
+
+export interface AuthorizedClient {
+  organizationId: UUID;
+  clientId: UUID;
+}
+
+// Visits in these statuses will never be delivered, so never billed
+const NON_BILLABLE_VISIT_STATUSES = [
+  'DRAFT',
+  'CANCELLED',
+  'NO_SHOW_CLIENT',
+  'NO_SHOW_CAREGIVER',
+  'REJECTED',
+];
+
+export class AuthorizationForecastRepository {
+  constructor(private pool: Pool) {}
+
+  /**
+   * Active, depleted and expired authorizations for a client. Expired ones
+   * are returned so a visit outside every period can say which periods
+   * exist.
+   */
+  async findAuthorizations(
+    clientId: UUID,
+    organizationId: UUID
+  ): Promise<SchedulingAuthorization[]> {
+    const query = `
+      SELECT sa.*, c.first_name || ' ' || c.last_name AS client_name
+      FROM service_authorizations sa
+      JOIN clients c ON c.id = sa.client_id
+      WHERE sa.client_id = $1
+        AND sa.organization_id = $2
+        AND sa.status IN ('ACTIVE', 'DEPLETED', 'EXPIRED')
+        AND sa.deleted_at IS NULL
+      ORDER BY sa.effective_to, sa.id
+    `;
+
+    const result = await this.pool.query(query, [clientId, organizationId]);
+    return result.rows.map(row => this.mapRowToAuthorization(row));
+  }
+
+  /**
+   * Scheduled visits for a client on or after a date that have not yet
+   * been billed against an authorization
+   */
+  async findUnbilledVisits(
+    clientId: UUID,
+    organizationId: UUID,
+    fromDate: Date
+  ): Promise<AuthorizedVisitDemand[]> {
+    const query = `
+      SELECT v.id, v.client_id, v.service_type_id, v.scheduled_date, v.scheduled_duration
+      FROM visits v
+      WHERE v.client_id = $1
+        AND v.organization_id = $2
+        AND v.scheduled_date >= $3::date
+        AND v.status <> ALL($4::varchar[])
+        AND v.deleted_at IS NULL
+        AND NOT EXISTS (
+          SELECT 1 FROM billable_items bi
+          WHERE bi.visit_id = v.id
+            AND bi.authorization_id IS NOT NULL
+            AND bi.deleted_at IS NULL
+        )
+      ORDER BY v.scheduled_date, v.scheduled_start_time
+    `;
+
+    const result = await this.pool.query(query, [
+      clientId,
+      organizationId,
+      fromDate,
+      NON_BILLABLE_VISIT_STATUSES,
+    ]);
+    return result.rows.map(row => ({
+      visitId: row.id,
+      clientId: row.client_id,
+      serviceTypeId: row.service_type_id,
+      scheduledDate: row.scheduled_date,
+      durationMinutes: Number(row.scheduled_duration),
+    }));
+  }
+
+  /**
+   * Clients holding an authorization that hasn't ended yet
+   */
+  async findClientsWithCurrentAuthorizations(asOf: Date): Promise<AuthorizedClient[]> {
+    const query = `
+      SELECT DISTINCT organization_id, client_id
+      FROM service_authorizations
+      WHERE status IN ('ACTIVE', 'DEPLETED')
+        AND effective_to >= $1::date
+        AND deleted_at IS NULL
+    `;
+
+    const result = await this.pool.query(query, [asOf]);
+    return result.rows.map(row => ({
+      organizationId: row.organization_id,
+      clientId: row.client_id,
+    }));
+  }
+
+  async setLowUnitsAlertedAt(authorizationId: UUID, alertedAt: Date | null): Promise<void> {
+    await this.pool.query(
+      'UPDATE service_authorizations SET low_units_alerted_at = $2 WHERE id = $1',
+      [authorizationId, alertedAt]
+    );
+  }
+
+  async setExpirationAlertedAt(authorizationId: UUID, alertedAt: Date | null): Promise<void> {
+    await this.pool.query(
+      'UPDATE service_authorizations SET expiration_alerted_at = $2 WHERE id = $1',
+      [authorizationId, alertedAt]
+    );
+  }
+
+  /**
+   * Active users holding any of the roles in the organization. Users with
+   * no branch list are organization-wide and always match.
+   */
+  async findUsersByRole(
+    organizationId: UUID,
+    branchId: UUID,
+    roles: string[]
+  ): Promise<AuthorizationAlertRecipient[]> {
+    const query = `
+      SELECT id, email FROM users
+      WHERE organization_id = $1
+        AND status = 'ACTIVE'
+        AND deleted_at IS NULL
+        AND roles && $2::varchar[]
+        AND (cardinality(branch_ids) = 0 OR $3 = ANY(branch_ids))
+    `;
+
+    const result = await this.pool.query(query, [organizationId, roles, branchId]);
+    return result.rows.map(row => ({ userId: row.id, email: row.email }));
+  }
+
+  private mapRowToAuthorization(row: Record<string, unknown>): SchedulingAuthorization {
+    const authorization: SchedulingAuthorization = {
+      id: row['id'] as UUID,
+      organizationId: row['organization_id'] as UUID,
+      branchId: row['branch_id'] as UUID,
+      clientId: row['client_id'] as UUID,
+      clientName: row['client_name'] as string,
+      authorizationNumber: row['authorization_number'] as string,
+      payerName: row['payer_name'] as string,
+      serviceTypeId: row['service_type_id'] as UUID,
+      serviceTypeName: row['service_type_name'] as string,
+      unitType: row['unit_type'] as SchedulingAuthorization['unitType'],
+      authorizedUnits: Number(row['authorized_units']),
+      usedUnits: Number(row['used_units']),
+      remainingUnits: Number(row['remaining_units']),
+      effectiveFrom: row['effective_from'] as Date,
+      effectiveTo: row['effective_to'] as Date,
+      status: row['status'] as SchedulingAuthorization['status'],
+    };
+
+    if (row['low_units_threshold'] !== null && row['low_units_threshold'] !== undefined) {
+      authorization.lowUnitsThreshold = Number(row['low_units_threshold']);
+    }
+    if (row['expiration_warning_days'] !== null && row['expiration_warning_days'] !== undefined) {
+      authorization.expirationWarningDays = Number(row['expiration_warning_days']);
+    }
+    if (row['low_units_alerted_at'] !== null && row['low_units_alerted_at'] !== undefined) {
+      authorization.lowUnitsAlertedAt = row['low_units_alerted_at'] as Date;
+    }
+    if (row['expiration_alerted_at'] !== null && row['expiration_alerted_at'] !== undefined) {
+      authorization.expirationAlertedAt = row['expiration_alerted_at'] as Date;
+    }
+
+    return authorization;
+  }
+}
@@ -0,0 +1,527 @@
+/**
+ * Repository for Visit Exceptions
+ *
+ * Data access for the visit exception queue and the scans that feed the
+ * automatic exception detector. Detection scans compare the scheduled
+ * times, which are stored in the visit's local timezone, against the
+ * clock-in and clock-out timestamps recorded by EVV.
+ */
+
+import { Pool } from 'pg';
+import {
+  UUID,
+  PaginationParams,
+  PaginatedResult,
+} from '@care-commons/core';
+import {
+  ExceptionSeverity,
+  ExceptionType,
+  VisitException,
+  VisitExceptionFilters,
+} from '../types/schedule';
+
+/**
+ * A visit matched by one of the detection scans, with the facts the rule
+ * needs to classify it
+ */
+export interface VisitExceptionCandidate {
+  visitId: UUID;
+  visitNumber: string;
+  organizationId: UUID;
+  branchId: UUID;
+  clientId: UUID;
+  caregiverId?: UUID;
+  details: Record<string, unknown>;
+}
+
+export interface CreateAutomaticExceptionInput {
+  candidate: VisitExceptionCandidate;
+  exceptionType: ExceptionType;
+  severity: ExceptionSeverity;
+  description: string;
+  requiresFollowup: boolean;
+  detectedAt: Date;
+}
+
+export type VisitExceptionUpdate = Partial<
+  Pick<
+    VisitException,
+    | 'status'
+    | 'resolution'
+    | 'resolvedAt'
+    | 'resolvedBy'
+    | 'requiresFollowup'
+    | 'followupAssignedTo'
+    | 'notifiedAt'
+    | 'escalationLevel'
+    | 'escalatedAt'
+    | 'escalatedTo'
+    | 'escalationReason'
+  >
+>;
+
+export interface ExceptionRecipient {
+  userId: UUID;
+  email: string;
+}
+
+const UPDATE_COLUMNS: Record<keyof VisitExceptionUpdate, string> = {
+  status: 'status',
+  resolution: 'resolution',
+  resolvedAt: 'resolved_at',
+  resolvedBy: 'resolved_by',
+  requiresFollowup: 'requires_followup',
+  followupAssignedTo: 'followup_assigned_to',
+  notifiedAt: 'notified_at',
+  escalationLevel: 'escalation_level',
+  escalatedAt: 'escalated_at',
+  escalatedTo: 'escalated_to',
+  escalationReason: 'escalation_reason',
+};
+
+/**
+ * Scheduled start and end as instants, for visits aliased as v
+ */
+const SCHEDULED_INSTANTS = `
+  CROSS JOIN LATERAL (
+    SELECT
+      (v.scheduled_date + v.scheduled_start_time) AT TIME ZONE v.timezone AS scheduled_start,
+      (v.scheduled_date + v.scheduled_end_time) AT TIME ZONE v.timezone AS scheduled_end
+  ) s
+`;
+
+const CANDIDATE_COLUMNS = `
+  v.id AS visit_id, v.visit_number, v.organization_id, v.branch_id,
+  v.client_id, v.assigned_caregiver_id
+`;
+
+const SEVERITY_ORDER = `
+  CASE severity
+    WHEN 'CRITICAL' THEN 1
+    WHEN 'HIGH' THEN 2
+    WHEN 'MEDIUM' THEN 3
+    ELSE 4
+  END
+`;
+
+export class VisitExceptionRepository {
+  constructor(private pool: Pool) {}
+
+  /**
+   * Detection scans
+   */
+
+  /**
+   * Assigned visits whose scheduled start passed more than graceMinutes ago
+   * without a clock-in. Starts older than lookbackHours are left alone.
+   */
+  async findMissedClockIns(
+    asOf: Date,
+    graceMinutes: number,
+    lookbackHours: number
+  ): Promise<VisitExceptionCandidate[]> {
+    const query = `
+      SELECT ${CANDIDATE_COLUMNS},
+        FLOOR(EXTRACT(EPOCH FROM ($1::timestamptz - s.scheduled_start)) / 60)::int AS minutes_late
+      FROM visits v
+      ${SCHEDULED_INSTANTS}
+      WHERE v.deleted_at IS NULL
+        AND v.assigned_caregiver_id IS NOT NULL
+        AND v.actual_start_time IS NULL
+        AND v.status IN ('SCHEDULED', 'ASSIGNED', 'CONFIRMED', 'EN_ROUTE')
+        AND s.scheduled_start <= $1::timestamptz - make_interval(mins => $2)
+        AND s.scheduled_start > $1::timestamptz - make_interval(hours => $3)
+    `;
+
+    const result = await this.pool.query(query, [asOf, graceMinutes, lookbackHours]);
+    return result.rows.map(row =>
+      this.mapRowToCandidate(row, { minutesLate: row.minutes_late })
+    );
+  }
+
+  /**
+   * Visits clocked in since the given time, more than graceMinutes after
+   * the scheduled start
+   */
+  async findLateClockIns(since: Date, graceMinutes: number): Promise<VisitExceptionCandidate[]> {
+    const query = `
+      SELECT ${CANDIDATE_COLUMNS}, v.actual_start_time,
+        FLOOR(EXTRACT(EPOCH FROM (v.actual_start_time - s.scheduled_start)) / 60)::int AS minutes_late
+      FROM visits v
+      ${SCHEDULED_INSTANTS}
+      WHERE v.deleted_at IS NULL
+        AND v.actual_start_time >= $1
+        AND v.actual_start_time > s.scheduled_start + make_interval(mins => $2)
+    `;
+
+    const result = await this.pool.query(query, [since, graceMinutes]);
+    return result.rows.map(row =>
+      this.mapRowToCandidate(row, {
+        minutesLate: row.minutes_late,
+        clockInTime: row.actual_start_time,
+      })
+    );
+  }
+
+  /**
+   * Visits clocked out since the given time, more than thresholdMinutes
+   * before the scheduled end
+   */
+  async findEarlyClockOuts(since: Date, thresholdMinutes: number): Promise<VisitExceptionCandidate[]> {
+    const query = `
+      SELECT ${CANDIDATE_COLUMNS}, v.actual_end_time,
+        FLOOR(EXTRACT(EPOCH FROM (s.scheduled_end - v.actual_end_time)) / 60)::int AS minutes_early
+      FROM visits v
+      ${SCHEDULED_INSTANTS}
+      WHERE v.deleted_at IS NULL
+        AND v.actual_end_time >= $1
+        AND v.actual_end_time < s.scheduled_end - make_interval(mins => $2)
+    `;
+
+    const result = await this.pool.query(query, [since, thresholdMinutes]);
+    return result.rows.map(row =>
+      this.mapRowToCandidate(row, {
+        minutesEarly: row.minutes_early,
+        clockOutTime: row.actual_end_time,
+      })
+    );
+  }
+
+  /**
+   * Visits finished since the given time that left required care plan
+   * tasks undone. A task is required unless its care plan template is
+   * marked optional; skipped and missed tasks count as undone.
+   */
+  async findIncompleteRequiredTasks(since: Date): Promise<VisitExceptionCandidate[]> {
+    const query = `
+      SELECT ${CANDIDATE_COLUMNS},
+        COUNT(t.id)::int AS incomplete_count,
+        array_agg(t.name ORDER BY t.name) AS task_names,
+        bool_or(t.category = 'MEDICATION') AS includes_medication
+      FROM visits v
+      JOIN task_instances t ON t.visit_id = v.id
+      JOIN care_plans cp ON cp.id = t.care_plan_id
+      WHERE v.deleted_at IS NULL
+        AND v.status IN ('COMPLETED', 'INCOMPLETE')
+        AND v.actual_end_time >= $1
+        AND t.status NOT IN ('COMPLETED', 'CANCELLED')
+        AND NOT EXISTS (
+          SELECT 1 FROM jsonb_array_elements(cp.task_templates) tt
+          WHERE tt->>'id' = t.template_id::text
+            AND (tt->>'isOptional')::boolean = true
+        )
+      GROUP BY v.id
+    `;
+
+    const result = await this.pool.query(query, [since]);
+    return result.rows.map(row =>
+      this.mapRowToCandidate(row, {
+        incompleteTaskCount: row.incomplete_count,
+        taskNames: row.task_names,
+        includesMedication: row.includes_medication === true,
+      })
+    );
+  }
+
+  /**
+   * Visits clocked in since the given time whose EVV clock-in or clock-out
+   * failed geofence verification
+   */
+  async findGeofenceFailures(since: Date): Promise<VisitExceptionCandidate[]> {
+    const query = `
+      SELECT ${CANDIDATE_COLUMNS}, e.id AS evv_record_id,
+        (e.clock_in_verification->>'geofencePassed') = 'false' AS clock_in_failed,
+        COALESCE((e.clock_out_verification->>'geofencePassed') = 'false', false) AS clock_out_failed,
+        (e.clock_in_verification->>'distanceFromAddress')::numeric AS clock_in_distance,
+        (e.clock_out_verification->>'distanceFromAddress')::numeric AS clock_out_distance
+      FROM evv_records e
+      JOIN visits v ON v.id = e.visit_id
+      WHERE v.deleted_at IS NULL
+        AND e.clock_in_time >= $1
+        AND (
+          (e.clock_in_verification->>'geofencePassed') = 'false'
+          OR (e.clock_out_verification->>'geofencePassed') = 'false'
+        )
+    `;
+
+    const result = await this.pool.query(query, [since]);
+    return result.rows.map(row =>
+      this.mapRowToCandidate(row, {
+        evvRecordId: row.evv_record_id,
+        clockInFailed: row.clock_in_failed === true,
+        clockOutFailed: row.clock_out_failed === true,
+        clockInDistanceMeters: row.clock_in_distance != null ? Number(row.clock_in_distance) : null,
+        clockOutDistanceMeters: row.clock_out_distance != null ? Number(row.clock_out_distance) : null,
+      })
+    );
+  }
+
+  /**
+   * Exception operations
+   */
+
+  /**
+   * Record an automatically detected exception. Returns null when the
+   * visit already has an automatic exception of this type.
+   */
+  async createAutomaticException(
+    input: CreateAutomaticExceptionInput
+  ): Promise<VisitException | null> {
+    const { candidate } = input;
+    const query = `
+      INSERT INTO visit_exceptions (
+        id, organization_id, branch_id, visit_id, client_id, caregiver_id,
+        exception_type, severity, detected_at, automatic, description, details,
+        requires_followup, status, escalation_level, created_at, updated_at
+      ) VALUES (
+        gen_random_uuid(), $1, $2, $3, $4, $5, $6, $7, $8, true, $9, $10, $11,
+        'OPEN', 0, NOW(), NOW()
+      )
+      ON CONFLICT (visit_id, exception_type) WHERE automatic = true DO NOTHING
+      RETURNING *
+    `;
+
+    const result = await this.pool.query(query, [
+      candidate.organizationId,
+      candidate.branchId,
+      candidate.visitId,
+      candidate.clientId,
+      candidate.caregiverId ?? null,
+      input.exceptionType,
+      input.severity,
+      input.detectedAt,
+      input.description,
+      JSON.stringify(candidate.details),
+      input.requiresFollowup,
+    ]);
+
+    return result.rows.length > 0 ? this.mapRowToException(result.rows[0]) : null;
+  }
+
+  async getExceptionById(id: UUID): Promise<VisitException | null> {
+    const query = 'SELECT * FROM visit_exceptions WHERE id = $1';
+    const result = await this.pool.query(query, [id]);
+    return result.rows.length > 0 ? this.mapRowToException(result.rows[0]) : null;
+  }
+
+  /**
+   * Search the exception queue, most severe and most recent first
+   */
+  async searchExceptions(
+    filters: VisitExceptionFilters,
+    pagination: PaginationParams
+  ): Promise<PaginatedResult<VisitException>> {
+    const { conditions, values } = this.buildFilterConditions(filters);
+    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    const countQuery = `SELECT COUNT(*) FROM visit_exceptions ${whereClause}`;
+    const countResult = await this.pool.query(countQuery, values);
+    const total = parseInt(countResult.rows[0].count, 10);
+
+    const offset = (pagination.page - 1) * pagination.limit;
+    const dataQuery = `
+      SELECT * FROM visit_exceptions
+      ${whereClause}
+      ORDER BY ${SEVERITY_ORDER}, detected_at DESC
+      LIMIT $${values.length + 1} OFFSET $${values.length + 2}
+    `;
+
+    const result = await this.pool.query(dataQuery, [...values, pagination.limit, offset]);
+
+    return {
+      items: result.rows.map(row => this.mapRowToException(row)),
+      total,
+      page: pagination.page,
+      limit: pagination.limit,
+      totalPages: Math.ceil(total / pagination.limit),
+    };
+  }
+
+  async updateException(id: UUID, updates: VisitExceptionUpdate): Promise<VisitException | null> {
+    const fields: string[] = [];
+    const values: unknown[] = [];
+
+    for (const [key, value] of Object.entries(updates)) {
+      const column = UPDATE_COLUMNS[key as keyof VisitExceptionUpdate];
+      if (column === undefined || value === undefined) {
+        continue;
+      }
+      values.push(value);
+      fields.push(`${column} = $${values.length}`);
+    }
+
+    if (fields.length === 0) {
+      return await this.getExceptionById(id);
+    }
+
+    values.push(id);
+    const query = `
+      UPDATE visit_exceptions
+      SET ${fields.join(', ')}, updated_at = NOW()
+      WHERE id = $${values.length}
+      RETURNING *
+    `;
+
+    const result = await this.pool.query(query, values);
+    return result.rows.length > 0 ? this.mapRowToException(result.rows[0]) : null;
+  }
+
+  /**
+   * Open exceptions of the given severities that no coordinator has been
+   * told about yet, detected at or before the given time
+   */
+  async findPendingNotifications(
+    severities: ExceptionSeverity[],
+    detectedBefore: Date
+  ): Promise<VisitException[]> {
+    const query = `
+      SELECT * FROM visit_exceptions
+      WHERE automatic = true
+        AND status = 'OPEN'
+        AND notified_at IS NULL
+        AND severity = ANY($1)
+        AND detected_at <= $2
+      ORDER BY detected_at
+    `;
+
+    const result = await this.pool.query(query, [severities, detectedBefore]);
+    return result.rows.map(row => this.mapRowToException(row));
+  }
+
+  /**
+   * Exceptions of a severity still untouched since coordinators were
+   * notified at or before the given time
+   */
+  async findEscalationDue(
+    severity: ExceptionSeverity,
+    notifiedBefore: Date
+  ): Promise<VisitException[]> {
+    const query = `
+      SELECT * FROM visit_exceptions
+      WHERE status = 'OPEN'
+        AND escalation_level = 0
+        AND severity = $1
+        AND notified_at <= $2
+      ORDER BY notified_at
+    `;
+
+    const result = await this.pool.query(query, [severity, notifiedBefore]);
+    return result.rows.map(row => this.mapRowToException(row));
+  }
+
+  /**
+   * Active users holding any of the roles in the organization. Users with
+   * no branch list are organization-wide and always match.
+   */
+  async findUsersByRole(
+    organizationId: UUID,
+    branchId: UUID,
+    roles: string[]
+  ): Promise<ExceptionRecipient[]> {
+    const query = `
+      SELECT id, email FROM users
+      WHERE organization_id = $1
+        AND status = 'ACTIVE'
+        AND deleted_at IS NULL
+        AND roles && $2::varchar[]
+        AND (cardinality(branch_ids) = 0 OR $3 = ANY(branch_ids))
+    `;
+
+    const result = await this.pool.query(query, [organizationId, roles, branchId]);
+    return result.rows.map(row => ({ userId: row.id, email: row.email }));
+  }
+
+  async getVisitNumber(visitId: UUID): Promise<string | null> {
+    const query = 'SELECT visit_number FROM visits WHERE id = $1';
+    const result = await this.pool.query(query, [visitId]);
+    return result.rows.length > 0 ? result.rows[0].visit_number : null;
+  }
+
+  private buildFilterConditions(filters: VisitExceptionFilters): { conditions: string[]; values: unknown[] } {
+    const conditions: string[] = [];
+    const values: unknown[] = [];
+
+    const add = (sql: (param: string) => string, value: unknown): void => {
+      values.push(value);
+      conditions.push(sql(`$${values.length}`));
+    };
+
+    if (filters.organizationId !== undefined) {
+      add(p => `organization_id = ${p}`, filters.organizationId);
+    }
+    if (filters.branchIds !== undefined && filters.branchIds.length > 0) {
+      add(p => `branch_id = ANY(${p})`, filters.branchIds);
+    }
+    if (filters.visitId !== undefined) {
+      add(p => `visit_id = ${p}`, filters.visitId);
+    }
+    if (filters.caregiverId !== undefined) {
+      add(p => `caregiver_id = ${p}`, filters.caregiverId);
+    }
+    if (filters.exceptionType !== undefined && filters.exceptionType.length > 0) {
+      add(p => `exception_type = ANY(${p})`, filters.exceptionType);
+    }
+    if (filters.severity !== undefined && filters.severity.length > 0) {
+      add(p => `severity = ANY(${p})`, filters.severity);
+    }
+    if (filters.status !== undefined && filters.status.length > 0) {
+      add(p => `status = ANY(${p})`, filters.status);
+    }
+    if (filters.automatic !== undefined) {
+      add(p => `automatic = ${p}`, filters.automatic);
+    }
+    if (filters.dateFrom !== undefined) {
+      add(p => `detected_at >= ${p}`, filters.dateFrom);
+    }
+    if (filters.dateTo !== undefined) {
+      add(p => `detected_at <= ${p}`, filters.dateTo);
+    }
+
+    return { conditions, values };
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private mapRowToCandidate(row: any, details: Record<string, unknown>): VisitExceptionCandidate {
+    return {
+      visitId: row.visit_id,
+      visitNumber: row.visit_number,
+      organizationId: row.organization_id,
+      branchId: row.branch_id,
+      clientId: row.client_id,
+      caregiverId: row.assigned_caregiver_id ?? undefined,
+      details,
+    };
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private mapRowToException(row: any): VisitException {
+    return {
+      id: row.id,
+      organizationId: row.organization_id,
+      branchId: row.branch_id,
+      visitId: row.visit_id,
+      clientId: row.client_id,
+      caregiverId: row.caregiver_id ?? undefined,
+      exceptionType: row.exception_type,
+      severity: row.severity,
+      detectedAt: row.detected_at,
+      detectedBy: row.detected_by ?? undefined,
+      automatic: row.automatic,
+      description: row.description,
+      details: row.details ?? {},
+      resolution: row.resolution ?? undefined,
+      resolvedAt: row.resolved_at ?? undefined,
+      resolvedBy: row.resolved_by ?? undefined,
+      requiresFollowup: row.requires_followup,
+      followupAssignedTo: row.followup_assigned_to ?? undefined,
+      notifiedAt: row.notified_at ?? undefined,
+      escalationLevel: row.escalation_level ?? 0,
+      escalatedAt: row.escalated_at ?? undefined,
+      escalatedTo: row.escalated_to ?? undefined,
+      escalationReason: row.escalation_reason ?? undefined,
+      status: row.status,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+}
@@ -0,0 +1,203 @@
+/**
+ * AuthorizationForecastService Tests
+ *
+ * Tests for client forecasts, the scheduling guard and low-unit and
+ * expiring-authorization alerts
+ */
+
+import { describe, it, expect, vi, beforeEach, type Mock } from 'vitest';
+import { AuthorizationForecastService } from '../authorization-forecast-service';
+import { AuthorizationForecastRepository } from '../../repository/authorization-forecast-repository';
+import type { NotificationService, UserContext, UUID } from '@care-commons/core';
+import type { AuthorizedVisitDemand, SchedulingAuthorization } from '../../types/schedule';
+
+const TEST_IDS = {
+  coordinator: '30000000-0000-4000-8000-000000000001' as UUID,
+  admin: '30000000-0000-4000-8000-000000000002' as UUID,
+  org: '30000000-0000-4000-8000-000000000003' as UUID,
+  branch: '30000000-0000-4000-8000-000000000004' as UUID,
+  client: '30000000-0000-4000-8000-000000000010' as UUID,
+  otherClient: '30000000-0000-4000-8000-000000000011' as UUID,
+  authorization: '30000000-0000-4000-8000-000000000020' as UUID,
+  serviceType: '30000000-0000-4000-8000-000000000030' as UUID,
+};
+
+const AS_OF = new Date(2026, 2, 10);
+
+const authorization = (overrides: Partial<SchedulingAuthorization> = {}): SchedulingAuthorization => ({
+  id: TEST_IDS.authorization,
+  organizationId: TEST_IDS.org,
+  branchId: TEST_IDS.branch,
+  clientId: TEST_IDS.client,
+  clientName: 'Jane Smith',
+  authorizationNumber: 'PA-1001',
+  payerName: 'Texas Medicaid',
+  serviceTypeId: TEST_IDS.serviceType,
+  serviceTypeName: 'Personal Care',
+  unitType: 'HOUR',
+  authorizedUnits: 100,
+  usedUnits: 60,
+  remainingUnits: 40,
+  effectiveFrom: new Date(2026, 0, 1),
+  effectiveTo: new Date(2026, 5, 30),
+  status: 'ACTIVE',
+  ...overrides,
+});
+
+const visit = (day: number, clientId: UUID = TEST_IDS.client): AuthorizedVisitDemand => ({
+  clientId,
+  serviceTypeId: TEST_IDS.serviceType,
+  scheduledDate: new Date(2026, 2, day),
+  durationMinutes: 240,
+});
+
+const coordinatorContext: UserContext = {
+  userId: TEST_IDS.coordinator,
+  organizationId: TEST_IDS.org,
+  branchIds: [TEST_IDS.branch],
+  roles: ['COORDINATOR'],
+  permissions: ['schedules:read'],
+};
+
+describe('AuthorizationForecastService', () => {
+  let repository: {
+    [K in keyof AuthorizationForecastRepository]: Mock<AuthorizationForecastRepository[K]>;
+  };
+  let notificationService: { send: ReturnType<typeof vi.fn> };
+  let service: AuthorizationForecastService;
+
+  beforeEach(() => {
+    repository = {
+      findAuthorizations: vi.fn().mockResolvedValue([authorization()]),
+      findUnbilledVisits: vi.fn().mockResolvedValue([]),
+      findClientsWithCurrentAuthorizations: vi.fn().mockResolvedValue([
+        { organizationId: TEST_IDS.org, clientId: TEST_IDS.client },
+      ]),
+      setLowUnitsAlertedAt: vi.fn().mockResolvedValue(undefined),
+      setExpirationAlertedAt: vi.fn().mockResolvedValue(undefined),
+      findUsersByRole: vi.fn().mockResolvedValue([
+        { userId: TEST_IDS.coordinator, email: 'coordinator@example.com' },
+      ]),
+    };
+    notificationService = { send: vi.fn().mockResolvedValue([]) };
+    service = new AuthorizationForecastService(
+      repository as unknown as AuthorizationForecastRepository,
+      notificationService as unknown as NotificationService
+    );
+  });
+
+  describe('getClientForecast', () => {
+    it('should forecast from unbilled visits since the earliest current authorization', async () => {
+      repository.findAuthorizations.mockResolvedValue([
+        authorization({ id: 'expired', status: 'EXPIRED', effectiveFrom: new Date(2025, 0, 1), effectiveTo: new Date(2025, 11, 31) }),
+        authorization(),
+      ]);
+      repository.findUnbilledVisits.mockResolvedValue([visit(12), visit(13)]);
+
+      const forecast = await service.getClientForecast(TEST_IDS.client, coordinatorContext, AS_OF);
+
+      expect(repository.findAuthorizations).toHaveBeenCalledWith(TEST_IDS.client, TEST_IDS.org);
+      expect(repository.findUnbilledVisits).toHaveBeenCalledWith(TEST_IDS.client, TEST_IDS.org, new Date(2026, 0, 1));
+      expect(forecast.authorizations).toHaveLength(1);
+      expect(forecast.authorizations[0]).toMatchObject({ scheduledVisitCount: 2, projectedRemainingUnits: 32 });
+    });
+
+    it('should require schedules:read', async () => {
+      await expect(
+        service.getClientForecast(TEST_IDS.client, { ...coordinatorContext, permissions: [] }, AS_OF)
+      ).rejects.toThrow('Missing required permission: schedules:read');
+    });
+  });
+
+  describe('checkVisits', () => {
+    it('should check each client against their own authorizations, in input order', async () => {
+      repository.findAuthorizations.mockImplementation((clientId: UUID) =>
+        Promise.resolve(clientId === TEST_IDS.client ? [authorization({ remainingUnits: 4 })] : [])
+      );
+
+      const results = await service.checkVisits(
+        [visit(12), visit(12, TEST_IDS.otherClient), visit(13)],
+        TEST_IDS.org
+      );
+
+      expect(results.map(result => result.blocked)).toEqual([false, false, true]);
+      expect(results[2]!.findings[0]!.code).toBe('EXCEEDS_REMAINING_UNITS');
+      expect(repository.findUnbilledVisits).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('detectAuthorizationAlerts', () => {
+    it('should alert coordinators once when scheduled visits run an authorization low', async () => {
+      repository.findUnbilledVisits.mockResolvedValue([1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11].map(day => visit(day + 10)));
+
+      const result = await service.detectAuthorizationAlerts(AS_OF);
+
+      expect(result).toEqual({ lowUnits: 1, expiring: 0, cleared: 0 });
+      expect(repository.setLowUnitsAlertedAt).toHaveBeenCalledWith(TEST_IDS.authorization, AS_OF);
+      expect(notificationService.send).toHaveBeenCalledWith(
+        expect.objectContaining({
+          eventType: 'AUTHORIZATION_LOW_UNITS',
+          priority: 'HIGH',
+          relatedEntityType: 'client',
+          relatedEntityId: TEST_IDS.client,
+          data: expect.objectContaining({
+            projectedRemaining: '-4 hours',
+            overScheduled: true,
+            projectedDepletionDate: '2026-03-21',
+          }),
+        })
+      );
+
+      repository.findAuthorizations.mockResolvedValue([authorization({ lowUnitsAlertedAt: AS_OF })]);
+      notificationService.send.mockClear();
+
+      await service.detectAuthorizationAlerts(AS_OF);
+
+      expect(notificationService.send).not.toHaveBeenCalled();
+    });
+
+    it('should re-arm the low-units alert when the forecast recovers', async () => {
+      repository.findAuthorizations.mockResolvedValue([authorization({ lowUnitsAlertedAt: new Date(2026, 2, 1) })]);
+
+      const result = await service.detectAuthorizationAlerts(AS_OF);
+
+      expect(result).toEqual({ lowUnits: 0, expiring: 0, cleared: 1 });
+      expect(repository.setLowUnitsAlertedAt).toHaveBeenCalledWith(TEST_IDS.authorization, null);
+    });
+
+    it('should alert admins about expiring authorizations when the branch has no coordinator', async () => {
+      repository.findAuthorizations.mockResolvedValue([
+        authorization({ effectiveTo: new Date(2026, 2, 31), expirationWarningDays: 21 }),
+      ]);
+      repository.findUsersByRole
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([{ userId: TEST_IDS.admin, email: '' }]);
+
+      const result = await service.detectAuthorizationAlerts(AS_OF);
+
+      expect(result).toEqual({ lowUnits: 0, expiring: 1, cleared: 0 });
+      expect(repository.findUsersByRole).toHaveBeenLastCalledWith(
+        TEST_IDS.org, TEST_IDS.branch, ['BRANCH_ADMIN', 'ORG_ADMIN']
+      );
+      expect(notificationService.send).toHaveBeenCalledWith(
+        expect.objectContaining({
+          eventType: 'AUTHORIZATION_EXPIRING',
+          recipients: [{ userId: TEST_IDS.admin, preferredChannels: ['EMAIL', 'IN_APP'] }],
+          data: expect.objectContaining({ effectiveTo: '2026-03-31', daysUntilExpiration: 21 }),
+        })
+      );
+      expect(repository.setExpirationAlertedAt).toHaveBeenCalledWith(TEST_IDS.authorization, AS_OF);
+    });
+
+    it('should leave the alert pending when it cannot be sent', async () => {
+      repository.findAuthorizations.mockResolvedValue([authorization({ remainingUnits: 5 })]);
+      notificationService.send.mockRejectedValue(new Error('SMTP down'));
+      vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      const result = await service.detectAuthorizationAlerts(AS_OF);
+
+      expect(result.lowUnits).toBe(0);
+      expect(repository.setLowUnitsAlertedAt).not.toHaveBeenCalled();
+    });
+  });
+});
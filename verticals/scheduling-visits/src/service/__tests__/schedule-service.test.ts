@@ -5,10 +5,10 @@
  */
 
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { ScheduleService, IClientAddressProvider } from '../schedule-service';
+import { ScheduleService, IClientAddressProvider, IAuthorizationGuard } from '../schedule-service';
 import { ScheduleRepository } from '../../repository/schedule-repository';
 import type { UserContext, UUID } from '@care-commons/core';
-import type { ScheduleGenerationOptions } from '../../types/schedule';
+import type { AuthorizationCheckResult, ScheduleGenerationOptions } from '../../types/schedule';
 
 // Valid UUIDs for testing (version 4, variant 8)
 const TEST_IDS = {
@@ -233,6 +233,54 @@ describe('ScheduleService - Client Address Integration', () => {
         visits.length
       );
     });
+
+    it('should create one visit per time slot for split-shift patterns', async () => {
+      const serviceWithProvider = new ScheduleService(
+        mockRepository,
+        mockAddressProvider
+      );
+
+      mockRepository.getServicePatternById = vi.fn().mockResolvedValue({
+        id: TEST_IDS.pattern2,
+        organizationId: TEST_IDS.org,
+        branchId: TEST_IDS.branch,
+        clientId: TEST_IDS.client2,
+        status: 'ACTIVE',
+        serviceTypeId: TEST_IDS.serviceType,
+        serviceTypeName: 'Personal Care',
+        duration: 60,
+        recurrence: {
+          frequency: 'DAILY',
+          interval: 1,
+          startTime: '08:00',
+          timezone: 'America/New_York',
+          timeSlots: [{ startTime: '08:00' }, { startTime: '19:00', duration: 30 }],
+          exceptionDates: ['2024-01-02T19:00'],
+        },
+        effectiveFrom: new Date('2024-01-01'),
+        taskTemplateIds: [],
+        requiredSkills: [],
+        requiredCertifications: [],
+      });
+
+      mockRepository.createVisit = vi.fn().mockImplementation((input) =>
+        Promise.resolve({ ...input, id: '10000000-0000-4000-8000-000000000201', status: 'SCHEDULED' })
+      );
+
+      const visits = await serviceWithProvider.generateScheduleFromPattern(
+        {
+          patternId: TEST_IDS.pattern2,
+          startDate: new Date('2024-01-02'),
+          endDate: new Date('2024-01-03'),
+        },
+        testContext
+      );
+
+      expect(
+        visits.map(v => `${v.scheduledDate.getDate()} ${v.scheduledStartTime}-${v.scheduledEndTime}`)
+      ).toEqual(['2 08:00-09:00', '3 08:00-09:00', '3 19:00-19:30']);
+      expect(visits.every(v => v.timezone === 'America/New_York')).toBe(true);
+    });
   });
 
   describe('Address Provider Integration Scenarios', () => {
@@ -340,4 +388,96 @@ describe('ScheduleService - Client Address Integration', () => {
       expect(mockRepository.createVisit).toHaveBeenCalled();
     });
   });
+
+  describe('Authorization Guard', () => {
+    const mockAddress = {
+      line1: '123 Main St',
+      city: 'Austin',
+      state: 'TX',
+      postalCode: '78701',
+      country: 'USA',
+    };
+
+    const blockedCheck: AuthorizationCheckResult = {
+      blocked: true,
+      findings: [
+        {
+          code: 'EXCEEDS_REMAINING_UNITS',
+          severity: 'BLOCK',
+          message: 'Visit on 2024-01-03 needs 1 hours but authorization PA-1001 has 0 hours left after scheduled visits',
+          scheduledDate: new Date(2024, 0, 3),
+        },
+      ],
+    };
+    const passedCheck: AuthorizationCheckResult = { blocked: false, findings: [] };
+
+    const options: ScheduleGenerationOptions = {
+      patternId: TEST_IDS.pattern1,
+      startDate: new Date('2024-01-01'),
+      endDate: new Date('2024-01-03'),
+    };
+
+    beforeEach(() => {
+      mockAddressProvider.getClientAddress = vi.fn().mockResolvedValue(mockAddress);
+      mockRepository.getServicePatternById = vi.fn().mockResolvedValue({
+        id: TEST_IDS.pattern1,
+        organizationId: TEST_IDS.org,
+        branchId: TEST_IDS.branch,
+        clientId: TEST_IDS.client1,
+        status: 'ACTIVE',
+        serviceTypeId: TEST_IDS.serviceType,
+        serviceTypeName: 'Personal Care',
+        duration: 60,
+        recurrence: {
+          frequency: 'DAILY',
+          interval: 1,
+          startTime: '09:00',
+        },
+        taskTemplateIds: [],
+        requiredSkills: [],
+        requiredCertifications: [],
+      });
+      mockRepository.createVisit = vi.fn().mockImplementation((input) =>
+        Promise.resolve({ ...input, id: '10000000-0000-4000-8000-000000000300', status: 'UNASSIGNED' })
+      );
+    });
+
+    it('should check every generated visit and create none when one is not covered', async () => {
+      const guard: IAuthorizationGuard = {
+        checkVisits: vi.fn().mockResolvedValue([passedCheck, passedCheck, blockedCheck]),
+      };
+      const service = new ScheduleService(mockRepository, mockAddressProvider, guard);
+
+      await expect(service.generateScheduleFromPattern(options, testContext)).rejects.toThrow(
+        "1 visit(s) are not covered by the client's service authorization"
+      );
+
+      expect(guard.checkVisits).toHaveBeenCalledWith(
+        [1, 2, 3].map(day => ({
+          clientId: TEST_IDS.client1,
+          serviceTypeId: TEST_IDS.serviceType,
+          scheduledDate: new Date(2024, 0, day),
+          durationMinutes: 60,
+        })),
+        TEST_IDS.org
+      );
+      expect(mockRepository.createVisit).not.toHaveBeenCalled();
+    });
+
+    it('should schedule uncovered visits with warnings when limits are waived', async () => {
+      const guard: IAuthorizationGuard = {
+        checkVisits: vi.fn().mockResolvedValue([passedCheck, passedCheck, blockedCheck]),
+      };
+      const service = new ScheduleService(mockRepository, mockAddressProvider, guard);
+
+      const visits = await service.generateScheduleFromPattern(
+        { ...options, respectHourlyLimits: false },
+        testContext
+      );
+
+      expect(visits).toHaveLength(3);
+      expect(visits[0]!.authorizationWarnings).toBeUndefined();
+      expect(visits[2]!.authorizationWarnings).toEqual(blockedCheck.findings);
+    });
+  });
 });
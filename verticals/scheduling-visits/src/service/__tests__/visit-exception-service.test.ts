@@ -0,0 +1,366 @@
+/**
+ * VisitExceptionService Tests
+ *
+ * Tests for automatic exception detection, coordinator notification,
+ * escalation, and the resolve/escalate workflow
+ */
+
+import { describe, it, expect, vi, beforeEach, type Mock } from 'vitest';
+import { VisitExceptionService } from '../visit-exception-service';
+import { VisitExceptionRepository, VisitExceptionCandidate } from '../../repository/visit-exception-repository';
+import type { NotificationService, UserContext, UUID } from '@care-commons/core';
+import type { VisitException } from '../../types/schedule';
+
+const TEST_IDS = {
+  coordinator: '20000000-0000-4000-8000-000000000001' as UUID,
+  admin: '20000000-0000-4000-8000-000000000002' as UUID,
+  org: '20000000-0000-4000-8000-000000000003' as UUID,
+  otherOrg: '20000000-0000-4000-8000-000000000004' as UUID,
+  branch: '20000000-0000-4000-8000-000000000005' as UUID,
+  visit: '20000000-0000-4000-8000-000000000010' as UUID,
+  client: '20000000-0000-4000-8000-000000000020' as UUID,
+  caregiver: '20000000-0000-4000-8000-000000000030' as UUID,
+  exception: '20000000-0000-4000-8000-000000000040' as UUID,
+};
+
+const AS_OF = new Date('2025-11-25T15:00:00Z');
+
+const candidate = (details: Record<string, unknown>): VisitExceptionCandidate => ({
+  visitId: TEST_IDS.visit,
+  visitNumber: 'V2025-000042',
+  organizationId: TEST_IDS.org,
+  branchId: TEST_IDS.branch,
+  clientId: TEST_IDS.client,
+  caregiverId: TEST_IDS.caregiver,
+  details,
+});
+
+const exception = (overrides: Partial<VisitException> = {}): VisitException => ({
+  id: TEST_IDS.exception,
+  organizationId: TEST_IDS.org,
+  branchId: TEST_IDS.branch,
+  visitId: TEST_IDS.visit,
+  clientId: TEST_IDS.client,
+  caregiverId: TEST_IDS.caregiver,
+  exceptionType: 'NO_SHOW_CAREGIVER',
+  severity: 'CRITICAL',
+  detectedAt: AS_OF,
+  automatic: true,
+  description: 'Caregiver has not clocked in 75 minutes after the scheduled start',
+  details: { minutesLate: 75 },
+  requiresFollowup: true,
+  escalationLevel: 0,
+  status: 'OPEN',
+  createdAt: AS_OF,
+  updatedAt: AS_OF,
+  ...overrides,
+});
+
+const coordinatorContext: UserContext = {
+  userId: TEST_IDS.coordinator,
+  organizationId: TEST_IDS.org,
+  branchIds: [TEST_IDS.branch],
+  roles: ['COORDINATOR'],
+  permissions: ['visits:read', 'visits:update'],
+};
+
+describe('VisitExceptionService', () => {
+  let repository: {
+    [K in keyof VisitExceptionRepository]: Mock<VisitExceptionRepository[K]>;
+  };
+  let notificationService: { send: ReturnType<typeof vi.fn> };
+  let service: VisitExceptionService;
+
+  beforeEach(() => {
+    repository = {
+      findMissedClockIns: vi.fn().mockResolvedValue([]),
+      findLateClockIns: vi.fn().mockResolvedValue([]),
+      findEarlyClockOuts: vi.fn().mockResolvedValue([]),
+      findIncompleteRequiredTasks: vi.fn().mockResolvedValue([]),
+      findGeofenceFailures: vi.fn().mockResolvedValue([]),
+      createAutomaticException: vi.fn().mockResolvedValue(exception()),
+      getExceptionById: vi.fn(),
+      searchExceptions: vi.fn(),
+      updateException: vi.fn((_id: UUID, updates: Partial<VisitException>) =>
+        Promise.resolve(exception(updates))
+      ),
+      findPendingNotifications: vi.fn().mockResolvedValue([]),
+      findEscalationDue: vi.fn().mockResolvedValue([]),
+      findUsersByRole: vi.fn().mockResolvedValue([]),
+      getVisitNumber: vi.fn().mockResolvedValue('V2025-000042'),
+    };
+    notificationService = { send: vi.fn().mockResolvedValue([]) };
+    service = new VisitExceptionService(
+      repository as unknown as VisitExceptionRepository,
+      notificationService as unknown as NotificationService
+    );
+  });
+
+  describe('detectExceptions', () => {
+    it('should classify each detection rule by type and severity', async () => {
+      repository.findMissedClockIns.mockResolvedValue([
+        candidate({ minutesLate: 20 }),
+        candidate({ minutesLate: 75 }),
+      ]);
+      repository.findLateClockIns.mockResolvedValue([candidate({ minutesLate: 25 })]);
+      repository.findEarlyClockOuts.mockResolvedValue([candidate({ minutesEarly: 40 })]);
+      repository.findIncompleteRequiredTasks.mockResolvedValue([
+        candidate({ incompleteTaskCount: 2, includesMedication: false }),
+        candidate({ incompleteTaskCount: 1, includesMedication: true }),
+      ]);
+      repository.findGeofenceFailures.mockResolvedValue([
+        candidate({ clockInFailed: true, clockOutFailed: false }),
+      ]);
+
+      const result = await service.detectExceptions(AS_OF);
+
+      const created = repository.createAutomaticException.mock.calls.map(
+        ([input]) => [input.exceptionType, input.severity]
+      );
+      expect(created).toEqual([
+        ['LATE_START', 'HIGH'],
+        ['NO_SHOW_CAREGIVER', 'CRITICAL'],
+        ['LATE_START', 'LOW'],
+        ['EARLY_END', 'MEDIUM'],
+        ['MISSED_TASKS', 'MEDIUM'],
+        ['MISSED_TASKS', 'HIGH'],
+        ['LOCATION_MISMATCH', 'HIGH'],
+      ]);
+      expect(repository.createAutomaticException).toHaveBeenCalledWith(
+        expect.objectContaining({
+          description: 'Clock-in was outside the client geofence',
+          requiresFollowup: true,
+          detectedAt: AS_OF,
+        })
+      );
+      expect(result.detected).toBe(7);
+    });
+
+    it('should not count exceptions that already exist for the visit', async () => {
+      repository.findEarlyClockOuts.mockResolvedValue([candidate({ minutesEarly: 40 })]);
+      repository.createAutomaticException.mockResolvedValue(null);
+
+      const result = await service.detectExceptions(AS_OF);
+
+      expect(result.detected).toBe(0);
+    });
+
+    it('should scan post-visit rules over the lookback window', async () => {
+      await service.detectExceptions(AS_OF);
+
+      const since = new Date('2025-11-24T15:00:00Z');
+      expect(repository.findMissedClockIns).toHaveBeenCalledWith(AS_OF, 15, 24);
+      expect(repository.findLateClockIns).toHaveBeenCalledWith(since, 15);
+      expect(repository.findEarlyClockOuts).toHaveBeenCalledWith(since, 15);
+      expect(repository.findIncompleteRequiredTasks).toHaveBeenCalledWith(since);
+    });
+
+    it('should notify branch coordinators and record the notification', async () => {
+      repository.findPendingNotifications.mockImplementation((severities: string[]) =>
+        Promise.resolve(severities.includes('CRITICAL') ? [exception()] : [])
+      );
+      repository.findUsersByRole.mockResolvedValue([
+        { userId: TEST_IDS.coordinator, email: 'coordinator@example.com' },
+      ]);
+
+      const result = await service.detectExceptions(AS_OF);
+
+      expect(repository.findUsersByRole).toHaveBeenCalledWith(TEST_IDS.org, TEST_IDS.branch, ['COORDINATOR']);
+      expect(notificationService.send).toHaveBeenCalledWith(
+        expect.objectContaining({
+          eventType: 'VISIT_EXCEPTION_DETECTED',
+          priority: 'URGENT',
+          subject: '🚨 Visit Exception: Caregiver no-show',
+          recipients: [
+            {
+              userId: TEST_IDS.coordinator,
+              email: 'coordinator@example.com',
+              preferredChannels: ['EMAIL', 'IN_APP'],
+            },
+          ],
+          relatedEntityId: TEST_IDS.visit,
+        })
+      );
+      expect(repository.updateException).toHaveBeenCalledWith(TEST_IDS.exception, { notifiedAt: AS_OF });
+      expect(result.notified).toBe(1);
+    });
+
+    it('should hold MEDIUM exceptions until the notification delay has passed', async () => {
+      await service.detectExceptions(AS_OF);
+
+      expect(repository.findPendingNotifications).toHaveBeenCalledWith(['CRITICAL', 'HIGH'], AS_OF);
+      expect(repository.findPendingNotifications).toHaveBeenCalledWith(
+        ['MEDIUM'],
+        new Date('2025-11-25T14:00:00Z')
+      );
+    });
+
+    it('should fall back to admins when the branch has no coordinator', async () => {
+      repository.findPendingNotifications.mockImplementation((severities: string[]) =>
+        Promise.resolve(severities.includes('HIGH') ? [exception({ severity: 'HIGH' })] : [])
+      );
+      repository.findUsersByRole
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([{ userId: TEST_IDS.admin, email: 'admin@example.com' }]);
+
+      await service.detectExceptions(AS_OF);
+
+      expect(repository.findUsersByRole).toHaveBeenLastCalledWith(
+        TEST_IDS.org, TEST_IDS.branch, ['BRANCH_ADMIN', 'ORG_ADMIN']
+      );
+      expect(notificationService.send).toHaveBeenCalledTimes(1);
+    });
+
+    it('should leave the exception pending when nobody could be notified', async () => {
+      repository.findPendingNotifications.mockImplementation((severities: string[]) =>
+        Promise.resolve(severities.includes('CRITICAL') ? [exception()] : [])
+      );
+      repository.findUsersByRole.mockResolvedValue([
+        { userId: TEST_IDS.coordinator, email: 'coordinator@example.com' },
+      ]);
+      notificationService.send.mockRejectedValue(new Error('Provider down'));
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      const result = await service.detectExceptions(AS_OF);
+
+      expect(result.notified).toBe(0);
+      expect(repository.updateException).not.toHaveBeenCalled();
+    });
+
+    it('should escalate unacknowledged exceptions to admins', async () => {
+      repository.findEscalationDue.mockImplementation((severity: string) =>
+        Promise.resolve(
+          severity === 'CRITICAL' ? [exception({ notifiedAt: new Date('2025-11-25T14:00:00Z') })] : []
+        )
+      );
+      repository.findUsersByRole.mockResolvedValue([
+        { userId: TEST_IDS.admin, email: 'admin@example.com' },
+      ]);
+
+      const result = await service.detectExceptions(AS_OF);
+
+      expect(repository.findEscalationDue).toHaveBeenCalledWith('CRITICAL', new Date('2025-11-25T14:30:00Z'));
+      expect(repository.findEscalationDue).toHaveBeenCalledWith('HIGH', new Date('2025-11-25T13:00:00Z'));
+      expect(repository.updateException).toHaveBeenCalledWith(TEST_IDS.exception, {
+        status: 'ESCALATED',
+        escalationLevel: 1,
+        escalatedAt: AS_OF,
+        escalatedTo: TEST_IDS.admin,
+        escalationReason: 'Not acknowledged within 30 minutes',
+      });
+      expect(notificationService.send).toHaveBeenCalledWith(
+        expect.objectContaining({ eventType: 'VISIT_EXCEPTION_ESCALATED' })
+      );
+      expect(result.escalated).toBe(1);
+    });
+  });
+
+  describe('exception queue', () => {
+    it('should scope searches to the caller organization', async () => {
+      repository.searchExceptions.mockResolvedValue({ items: [], total: 0, page: 1, limit: 20, totalPages: 0 });
+
+      await service.getExceptions(
+        { organizationId: TEST_IDS.otherOrg, status: ['OPEN'] },
+        { page: 1, limit: 20 },
+        coordinatorContext
+      );
+
+      expect(repository.searchExceptions).toHaveBeenCalledWith(
+        { organizationId: TEST_IDS.org, status: ['OPEN'] },
+        { page: 1, limit: 20 }
+      );
+    });
+
+    it('should scope super admin searches to their own organization', async () => {
+      repository.searchExceptions.mockResolvedValue({ items: [], total: 0, page: 1, limit: 20, totalPages: 0 });
+
+      await service.getExceptions(
+        { organizationId: TEST_IDS.otherOrg },
+        { page: 1, limit: 20 },
+        { ...coordinatorContext, roles: ['SUPER_ADMIN'] }
+      );
+      await expect(
+        service.getExceptions({}, { page: 1, limit: 20 }, { ...coordinatorContext, organizationId: undefined })
+      ).rejects.toThrow('An organization is required to view visit exceptions');
+
+      expect(repository.searchExceptions).toHaveBeenCalledTimes(1);
+      expect(repository.searchExceptions).toHaveBeenCalledWith({ organizationId: TEST_IDS.org }, { page: 1, limit: 20 });
+    });
+
+    it('should deny access to another organization exception', async () => {
+      repository.getExceptionById.mockResolvedValue(exception({ organizationId: TEST_IDS.otherOrg }));
+
+      await expect(service.getException(TEST_IDS.exception, coordinatorContext)).rejects.toThrow(
+        'Access denied to this organization'
+      );
+    });
+
+    it('should assign the exception to the coordinator who acknowledges it', async () => {
+      repository.getExceptionById.mockResolvedValue(exception());
+
+      const result = await service.acknowledgeException(TEST_IDS.exception, coordinatorContext);
+
+      expect(repository.updateException).toHaveBeenCalledWith(TEST_IDS.exception, {
+        status: 'IN_PROGRESS',
+        followupAssignedTo: TEST_IDS.coordinator,
+      });
+      expect(result.status).toBe('IN_PROGRESS');
+    });
+
+    it('should resolve an exception with the resolution notes', async () => {
+      repository.getExceptionById.mockResolvedValue(exception({ status: 'IN_PROGRESS' }));
+
+      await service.resolveException(
+        TEST_IDS.exception,
+        { resolution: '  Backup caregiver covered the visit  ' },
+        coordinatorContext
+      );
+
+      expect(repository.updateException).toHaveBeenCalledWith(
+        TEST_IDS.exception,
+        expect.objectContaining({
+          status: 'RESOLVED',
+          resolution: 'Backup caregiver covered the visit',
+          resolvedBy: TEST_IDS.coordinator,
+          requiresFollowup: false,
+        })
+      );
+    });
+
+    it('should reject resolving an exception twice', async () => {
+      repository.getExceptionById.mockResolvedValue(exception({ status: 'RESOLVED' }));
+
+      await expect(
+        service.resolveException(TEST_IDS.exception, { resolution: 'Done' }, coordinatorContext)
+      ).rejects.toThrow('Exception is already resolved');
+    });
+
+    it('should escalate to the chosen user and notify them', async () => {
+      repository.getExceptionById.mockResolvedValue(exception({ escalationLevel: 1, status: 'ESCALATED' }));
+
+      const result = await service.escalateException(
+        TEST_IDS.exception,
+        { escalatedTo: TEST_IDS.admin, escalationReason: 'Client safety concern' },
+        coordinatorContext
+      );
+
+      expect(result.escalationLevel).toBe(2);
+      expect(notificationService.send).toHaveBeenCalledWith(
+        expect.objectContaining({
+          eventType: 'VISIT_EXCEPTION_ESCALATED',
+          recipients: [{ userId: TEST_IDS.admin, preferredChannels: ['EMAIL', 'IN_APP'] }],
+          message: expect.stringContaining('Reason: Client safety concern.'),
+        })
+      );
+    });
+
+    it('should not let caregivers work the exception queue', async () => {
+      const caregiverContext: UserContext = { ...coordinatorContext, roles: ['CAREGIVER'] };
+
+      await expect(
+        service.acknowledgeException(TEST_IDS.exception, caregiverContext)
+      ).rejects.toThrow('Only coordinators and administrators can work visit exceptions');
+      expect(repository.getExceptionById).not.toHaveBeenCalled();
+    });
+  });
+});
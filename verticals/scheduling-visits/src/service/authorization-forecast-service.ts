@@ -0,0 +1,273 @@
+/**
+ * Service for Authorization Forecasting
+ *
+ * Projects how a client's scheduled visits will burn the units on their
+ * service authorizations, guards scheduling against visits the payer won't
+ * reimburse, and alerts coordinators before authorizations run out.
+ *
+ * - Forecast: per current authorization, the units scheduled visits will
+ *   use, what's left after them and the first visit that goes over
+ * - Guard: a new visit is blocked when no authorization for its service
+ *   covers its date or the covering authorizations don't have the units,
+ *   and warned about when it leaves an authorization at or below its
+ *   low-units threshold
+ * - Alerts: coordinators hear once when the forecast for an authorization
+ *   drops to its low-units threshold and once when it enters its
+ *   expiration warning window
+ */
+
+import {
+  UUID,
+  UserContext,
+  PermissionError,
+  NotificationService,
+  getNotificationService,
+} from '@care-commons/core';
+import {
+  AuthorizationForecastRepository,
+  AuthorizationAlertRecipient,
+} from '../repository/authorization-forecast-repository';
+import {
+  AuthorizationAlertResult,
+  AuthorizationCheckResult,
+  AuthorizationForecast,
+  AuthorizationForecastConfig,
+  AuthorizedVisitDemand,
+  ClientAuthorizationForecast,
+  SchedulingAuthorization,
+} from '../types/schedule';
+import {
+  checkVisitsAgainstAuthorizations,
+  dateKey,
+  forecastAuthorizations,
+  formatUnits,
+} from '../utils/authorization-forecast';
+import type { IAuthorizationGuard } from './schedule-service';
+
+export const DEFAULT_FORECAST_CONFIG: AuthorizationForecastConfig = {
+  defaultLowUnitsPercent: 10,
+  defaultExpirationWarningDays: 30,
+};
+
+const COORDINATOR_ROLES = ['COORDINATOR'];
+const ADMIN_ROLES = ['BRANCH_ADMIN', 'ORG_ADMIN'];
+
+export class AuthorizationForecastService implements IAuthorizationGuard {
+  private config: AuthorizationForecastConfig;
+
+  constructor(
+    private repository: AuthorizationForecastRepository,
+    private notificationService: NotificationService = getNotificationService(),
+    config?: Partial<AuthorizationForecastConfig>
+  ) {
+    this.config = { ...DEFAULT_FORECAST_CONFIG, ...config };
+  }
+
+  /**
+   * Forecast a client's current authorizations from their scheduled visits
+   */
+  async getClientForecast(
+    clientId: UUID,
+    context: UserContext,
+    asOf: Date = new Date()
+  ): Promise<ClientAuthorizationForecast> {
+    this.checkPermission(context, 'schedules:read');
+    return await this.forecast(clientId, context.organizationId!, asOf);
+  }
+
+  /**
+   * Check visits about to be scheduled for one organization against the
+   * clients' authorizations. Results are in the order of the visits.
+   */
+  async checkVisits(
+    visits: AuthorizedVisitDemand[],
+    organizationId: UUID
+  ): Promise<AuthorizationCheckResult[]> {
+    const results: AuthorizationCheckResult[] = Array.from(
+      { length: visits.length },
+      () => ({ blocked: false, findings: [] })
+    );
+
+    for (const clientId of new Set(visits.map(visit => visit.clientId))) {
+      const indexes = visits.flatMap((visit, index) => (visit.clientId === clientId ? [index] : []));
+      const { authorizations, scheduledVisits } = await this.loadClient(clientId, organizationId);
+      if (authorizations.length === 0) {
+        continue;
+      }
+
+      const checked = checkVisitsAgainstAuthorizations(
+        authorizations,
+        scheduledVisits,
+        indexes.map(index => visits[index]!),
+        this.config
+      );
+      indexes.forEach((visitIndex, i) => {
+        results[visitIndex] = checked[i]!;
+      });
+    }
+
+    return results;
+  }
+
+  /**
+   * Alert coordinators about authorizations whose forecast has run low or
+   * that are about to expire. Safe to run repeatedly: each alert goes out
+   * once, and a low-units alert is re-armed if the forecast recovers.
+   */
+  async detectAuthorizationAlerts(asOf: Date = new Date()): Promise<AuthorizationAlertResult> {
+    const result: AuthorizationAlertResult = { lowUnits: 0, expiring: 0, cleared: 0 };
+
+    for (const { organizationId, clientId } of await this.repository.findClientsWithCurrentAuthorizations(asOf)) {
+      const forecast = await this.forecast(clientId, organizationId, asOf);
+
+      for (const authorizationForecast of forecast.authorizations) {
+        const { authorization } = authorizationForecast;
+
+        if (authorizationForecast.lowUnits && authorization.lowUnitsAlertedAt === undefined) {
+          if (await this.alertLowUnits(authorizationForecast)) {
+            await this.repository.setLowUnitsAlertedAt(authorization.id, asOf);
+            result.lowUnits++;
+          }
+        } else if (!authorizationForecast.lowUnits && authorization.lowUnitsAlertedAt !== undefined) {
+          await this.repository.setLowUnitsAlertedAt(authorization.id, null);
+          result.cleared++;
+        }
+
+        if (authorizationForecast.expiringSoon && authorization.expirationAlertedAt === undefined) {
+          if (await this.alertExpiring(authorizationForecast)) {
+            await this.repository.setExpirationAlertedAt(authorization.id, asOf);
+            result.expiring++;
+          }
+        }
+      }
+    }
+
+    return result;
+  }
+
+  private async forecast(
+    clientId: UUID,
+    organizationId: UUID,
+    asOf: Date
+  ): Promise<ClientAuthorizationForecast> {
+    const { authorizations, scheduledVisits } = await this.loadClient(clientId, organizationId);
+    return forecastAuthorizations(clientId, authorizations, scheduledVisits, asOf, this.config);
+  }
+
+  /**
+   * A client's authorizations and the unbilled visits that fall in any of
+   * their periods
+   */
+  private async loadClient(
+    clientId: UUID,
+    organizationId: UUID
+  ): Promise<{ authorizations: SchedulingAuthorization[]; scheduledVisits: AuthorizedVisitDemand[] }> {
+    const authorizations = await this.repository.findAuthorizations(clientId, organizationId);
+    const [earliest] = authorizations
+      .filter(authorization => authorization.status !== 'EXPIRED')
+      .sort((a, b) => dateKey(a.effectiveFrom).localeCompare(dateKey(b.effectiveFrom)));
+    if (earliest === undefined) {
+      return { authorizations, scheduledVisits: [] };
+    }
+
+    const scheduledVisits = await this.repository.findUnbilledVisits(
+      clientId,
+      organizationId,
+      earliest.effectiveFrom
+    );
+    return { authorizations, scheduledVisits };
+  }
+
+  private async alertLowUnits(forecast: AuthorizationForecast): Promise<boolean> {
+    const { authorization } = forecast;
+    return await this.notify('AUTHORIZATION_LOW_UNITS', forecast, forecast.overScheduled ? 'HIGH' : 'NORMAL', {
+      scheduledVisitCount: forecast.scheduledVisitCount,
+      overScheduled: forecast.overScheduled,
+      lowUnitsThreshold: formatUnits(forecast.lowUnitsThreshold, authorization.unitType),
+      ...(forecast.projectedDepletionDate !== undefined && {
+        projectedDepletionDate: dateKey(forecast.projectedDepletionDate),
+      }),
+    });
+  }
+
+  private async alertExpiring(forecast: AuthorizationForecast): Promise<boolean> {
+    return await this.notify('AUTHORIZATION_EXPIRING', forecast, 'NORMAL', {
+      effectiveTo: dateKey(forecast.authorization.effectiveTo),
+      daysUntilExpiration: forecast.daysUntilExpiration,
+    });
+  }
+
+  /**
+   * Send an authorization alert to the branch coordinators, or the admins
+   * when the branch has no coordinator. Failures are logged and leave the
+   * alert to be retried on the next run.
+   */
+  private async notify(
+    eventType: 'AUTHORIZATION_LOW_UNITS' | 'AUTHORIZATION_EXPIRING',
+    forecast: AuthorizationForecast,
+    priority: 'NORMAL' | 'HIGH',
+    extraData: Record<string, unknown>
+  ): Promise<boolean> {
+    const { authorization } = forecast;
+
+    try {
+      const recipients = await this.findRecipients(authorization);
+      if (recipients.length === 0) {
+        return false;
+      }
+
+      const data = {
+        authorizationId: authorization.id,
+        authorizationNumber: authorization.authorizationNumber,
+        payerName: authorization.payerName,
+        serviceTypeName: authorization.serviceTypeName,
+        clientId: authorization.clientId,
+        clientName: authorization.clientName,
+        projectedRemaining: formatUnits(forecast.projectedRemainingUnits, authorization.unitType),
+        ...extraData,
+      };
+      const template = NotificationService.getTemplate(eventType, data);
+
+      await this.notificationService.send({
+        eventType,
+        priority,
+        recipients: recipients.map(r => ({
+          userId: r.userId,
+          ...(r.email !== '' && { email: r.email }),
+          preferredChannels: ['EMAIL', 'IN_APP'],
+        })),
+        subject: template.subject,
+        message: template.message,
+        data,
+        organizationId: authorization.organizationId,
+        relatedEntityType: 'client',
+        relatedEntityId: authorization.clientId,
+      });
+      return true;
+    } catch (error) {
+      console.error(`[SCHEDULE] Failed to send ${eventType} notification:`, error);
+      return false;
+    }
+  }
+
+  private async findRecipients(authorization: SchedulingAuthorization): Promise<AuthorizationAlertRecipient[]> {
+    const coordinators = await this.repository.findUsersByRole(
+      authorization.organizationId, authorization.branchId, COORDINATOR_ROLES
+    );
+    if (coordinators.length > 0) {
+      return coordinators;
+    }
+    return await this.repository.findUsersByRole(
+      authorization.organizationId, authorization.branchId, ADMIN_ROLES
+    );
+  }
+
+  private checkPermission(context: UserContext, permission: string): void {
+    if (!(context.permissions?.includes(permission) || context.roles?.includes('SUPER_ADMIN'))) {
+      throw new PermissionError(`Missing required permission: ${permission}`, {
+        userId: context.userId,
+        permission,
+      });
+    }
+  }
+}
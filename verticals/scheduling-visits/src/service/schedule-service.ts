@@ -8,6 +8,7 @@
  * - Caregiver assignment
  * - Conflict detection
  * - Availability checking
+ * - Service authorization checks, when an authorization guard is provided
  */
 
 import {
@@ -37,17 +38,16 @@ import {
   ScheduleGenerationOptions,
   CaregiverAvailabilityQuery,
   AvailabilitySlot,
-  DayOfWeek,
+  ImportServicePatternsInput,
+  AuthorizationCheckResult,
+  AuthorizedVisitDemand,
+  ScheduledVisit,
 } from '../types/schedule';
-import {
-  addDays,
-  addWeeks,
-  startOfDay,
-  endOfDay,
-  isBefore,
-  isSameDay,
-} from 'date-fns';
-import { filterHolidays } from '../utils/holiday-calendar.js';
+import { isBefore } from 'date-fns';
+import { isFederalHoliday } from '../utils/holiday-calendar.js';
+import { expandRecurrence, parseCalendarDate, toCalendarDate } from '../utils/recurrence';
+import { exportServicePatternsToICalendar, parseICalendar } from '../utils/icalendar';
+import { getVisitDuration } from '../utils/schedule-utils';
 
 /**
  * Interface for fetching client address data
@@ -67,10 +67,22 @@ export interface IClientAddressProvider {
   }>;
 }
 
+/**
+ * Interface for checking visits against the client's service
+ * authorizations before they are scheduled
+ */
+export interface IAuthorizationGuard {
+  checkVisits(
+    visits: AuthorizedVisitDemand[],
+    organizationId: UUID
+  ): Promise<AuthorizationCheckResult[]>;
+}
+
 export class ScheduleService {
   constructor(
     private repository: ScheduleRepository,
-    private clientAddressProvider?: IClientAddressProvider
+    private clientAddressProvider?: IClientAddressProvider,
+    private authorizationGuard?: IAuthorizationGuard
   ) { }
 
   /**
@@ -147,6 +159,55 @@ export class ScheduleService {
     );
   }
 
+  /**
+   * Export a client's active service patterns as an iCalendar document
+   */
+  async exportClientCalendar(
+    clientId: UUID,
+    context: UserContext
+  ): Promise<string> {
+    const patterns = await this.getPatternsByClient(clientId, context);
+
+    return exportServicePatternsToICalendar(
+      patterns.filter(p => p.status === 'ACTIVE')
+    );
+  }
+
+  /**
+   * Create service patterns for a client from an iCalendar document.
+   * Patterns are created as drafts for a coordinator to review and activate.
+   */
+  async importServicePatterns(
+    input: ImportServicePatternsInput,
+    context: UserContext
+  ): Promise<ServicePattern[]> {
+    this.checkPermission(context, 'schedules:create');
+    this.checkOrganizationAccess(context, input.organizationId);
+    this.checkBranchAccess(context, input.branchId);
+
+    const drafts = parseICalendar(input.calendar, {
+      ...(input.timezone !== undefined && { timezone: input.timezone }),
+    });
+
+    const patterns: ServicePattern[] = [];
+    for (const draft of drafts) {
+      const pattern = await this.createServicePattern(
+        {
+          ...draft,
+          organizationId: input.organizationId,
+          branchId: input.branchId,
+          clientId: input.clientId,
+          serviceTypeId: input.serviceTypeId,
+          serviceTypeName: input.serviceTypeName,
+        },
+        context
+      );
+      patterns.push(pattern);
+    }
+
+    return patterns;
+  }
+
   /**
    * Visit Management
    */
@@ -154,7 +215,7 @@ export class ScheduleService {
   async createVisit(
     input: CreateVisitInput,
     context: UserContext
-  ): Promise<Visit> {
+  ): Promise<ScheduledVisit> {
     const validated = ScheduleValidator.validateVisit(input);
     this.checkPermission(context, 'visits:create');
     this.checkOrganizationAccess(context, input.organizationId);
@@ -163,6 +224,15 @@ export class ScheduleService {
     // Validate visit doesn't conflict with existing visits
     await this.validateVisitConflicts(validated);
 
+    // Refuse visits the client's authorization won't pay for
+    const [authorizationCheck] = await this.checkAuthorizations([validated], input.organizationId);
+    if (authorizationCheck?.blocked === true) {
+      throw new ValidationError(
+        `Visit is not covered by the client's service authorization: ${authorizationCheck.findings.map(f => f.message).join('; ')}`,
+        { findings: authorizationCheck.findings }
+      );
+    }
+
     // Ensure timezone is set (use provided timezone or default to America/Chicago)
     // In a full implementation, this would fetch the client's timezone from the database
     const visitWithTimezone = {
@@ -177,7 +247,8 @@ export class ScheduleService {
         delete visitInput[key as keyof typeof visitInput];
       }
     }
-    return await this.repository.createVisit(visitInput, context);
+    const visit = await this.repository.createVisit(visitInput, context);
+    return this.withAuthorizationWarnings(visit, authorizationCheck);
   }
 
   async getVisitById(id: UUID, context: UserContext): Promise<Visit> {
@@ -400,7 +471,7 @@ export class ScheduleService {
   async generateScheduleFromPattern(
     options: ScheduleGenerationOptions,
     context: UserContext
-  ): Promise<Visit[]> {
+  ): Promise<ScheduledVisit[]> {
     ScheduleValidator.validateGenerationOptions(options);
     this.checkPermission(context, 'schedules:generate');
 
@@ -417,17 +488,44 @@ export class ScheduleService {
       });
     }
 
-    // Generate visit dates based on recurrence rule
-    const visitDates = this.calculateVisitDates(
-      pattern,
-      options.startDate,
-      options.endDate,
-    options.skipHolidays || false
+    // Expand the recurrence into visits on the pattern's local calendar
+    const occurrences = expandRecurrence(pattern.recurrence, {
+      from: toCalendarDate(options.startDate),
+      to: toCalendarDate(options.endDate),
+      anchor: toCalendarDate(pattern.effectiveFrom ?? options.startDate),
+      ...(pattern.effectiveTo != null && { until: toCalendarDate(pattern.effectiveTo) }),
+      duration: pattern.duration,
+    });
+
+    const planned = occurrences
+      .map(occurrence => ({ occurrence, scheduledDate: this.toScheduledDate(occurrence.date) }))
+      .filter(({ scheduledDate }) => !(options.skipHolidays === true && isFederalHoliday(scheduledDate)));
+
+    // Check the whole run against the client's authorizations up front, so a
+    // run that overspends them creates nothing unless limits are waived
+    const authorizationChecks = await this.checkAuthorizations(
+      planned.map(({ occurrence, scheduledDate }) => ({
+        clientId: pattern.clientId,
+        serviceTypeId: pattern.serviceTypeId,
+        scheduledDate,
+        scheduledStartTime: occurrence.startTime,
+        scheduledEndTime: occurrence.endTime,
+      })),
+      pattern.organizationId
     );
+    const blockedFindings = authorizationChecks
+      .filter(check => check.blocked)
+      .flatMap(check => check.findings);
+    if (blockedFindings.length > 0 && options.respectHourlyLimits !== false) {
+      throw new ValidationError(
+        `${blockedFindings.length} visit(s) are not covered by the client's service authorization`,
+        { findings: blockedFindings }
+      );
+    }
 
     // Create visits
-    const visits: Visit[] = [];
-    for (const date of visitDates) {
+    const visits: ScheduledVisit[] = [];
+    for (const [index, { occurrence, scheduledDate }] of planned.entries()) {
       const visitInput = {
         organizationId: pattern.organizationId,
         branchId: pattern.branchId,
@@ -436,12 +534,10 @@ export class ScheduleService {
         visitType: 'REGULAR',
         serviceTypeId: pattern.serviceTypeId,
         serviceTypeName: pattern.serviceTypeName,
-        scheduledDate: date,
-        scheduledStartTime: pattern.recurrence.startTime,
-        scheduledEndTime: this.calculateEndTime(
-          pattern.recurrence.startTime,
-          pattern.duration
-        ),
+        scheduledDate,
+        scheduledStartTime: occurrence.startTime,
+        scheduledEndTime: occurrence.endTime,
+        timezone: pattern.recurrence.timezone,
         address: await this.getClientAddress(pattern.clientId), // Would need to fetch from client service
         taskIds: pattern.taskTemplateIds,
         requiredSkills: pattern.requiredSkills,
@@ -450,7 +546,10 @@ export class ScheduleService {
         caregiverInstructions: pattern.caregiverInstructions,
       } as CreateVisitInput;
 
-      const visit = await this.repository.createVisit(visitInput, context);
+      const visit = this.withAuthorizationWarnings(
+        await this.repository.createVisit(visitInput, context),
+        authorizationChecks[index]
+      );
       visits.push(visit);
 
       // Auto-assign if requested and preferred caregivers exist
@@ -571,89 +670,54 @@ export class ScheduleService {
    * Helper Methods
    */
 
-  private calculateVisitDates(
-    pattern: ServicePattern,
-    startDate: Date,
-    endDate: Date,
-    _skipHolidays: boolean
-  ): Date[] {
-    const dates: Date[] = [];
-    const { recurrence } = pattern;
-
-    let currentDate = startOfDay(startDate);
-    const finalDate = endOfDay(endDate);
-
-    while (isBefore(currentDate, finalDate) || isSameDay(currentDate, finalDate)) {
-      let shouldInclude = false;
-
-      switch (recurrence.frequency) {
-        case 'DAILY':
-          shouldInclude = true;
-          currentDate = addDays(currentDate, recurrence.interval);
-          break;
-
-        case 'WEEKLY':
-        case 'BIWEEKLY':
-          if (recurrence.daysOfWeek) {
-            const dayOfWeek = this.getDayOfWeek(currentDate);
-            shouldInclude = recurrence.daysOfWeek.includes(dayOfWeek);
-          }
-          if (shouldInclude) {
-            dates.push(new Date(currentDate));
-          }
-          currentDate = addDays(currentDate, 1);
-
-          // Skip to next week/biweek at end of week
-          if (this.getDayOfWeek(currentDate) === 'MONDAY' && dates.length > 0) {
-            const weeksToAdd = recurrence.frequency === 'BIWEEKLY' ? 2 : 1;
-            currentDate = addWeeks(currentDate, weeksToAdd - 1);
-          }
-          continue;
-
-        case 'MONTHLY':
-          if (recurrence.datesOfMonth) {
-            const dayOfMonth = currentDate.getDate();
-            shouldInclude = recurrence.datesOfMonth.includes(dayOfMonth);
-          }
-          if (shouldInclude) {
-            dates.push(new Date(currentDate));
-          }
-          currentDate = addDays(currentDate, 1);
-          continue;
-
-        default:
-          currentDate = addDays(currentDate, 1);
-          continue;
-      }
-
-      if (shouldInclude && recurrence.frequency === 'DAILY') {
-        dates.push(new Date(currentDate));
-      }
-    }
-
-    // Filter holidays if requested
-    if (_skipHolidays) {
-      return filterHolidays(dates, false); // false = exclude holidays
-    }
-
-    return dates;
+  /**
+   * Check visits against the client's authorizations. Without a guard
+   * every visit passes.
+   */
+  private async checkAuthorizations(
+    visits: Array<Pick<CreateVisitInput, 'clientId' | 'serviceTypeId' | 'scheduledDate' | 'scheduledStartTime' | 'scheduledEndTime'>>,
+    organizationId: UUID
+  ): Promise<AuthorizationCheckResult[]> {
+    if (!this.authorizationGuard || visits.length === 0) {
+      return visits.map(() => ({ blocked: false, findings: [] }));
+    }
+
+    return await this.authorizationGuard.checkVisits(
+      visits.map(visit => {
+        const duration = getVisitDuration(visit.scheduledStartTime, visit.scheduledEndTime);
+        return {
+          clientId: visit.clientId,
+          serviceTypeId: visit.serviceTypeId,
+          scheduledDate: visit.scheduledDate,
+          // Overnight visits end the next day
+          durationMinutes: duration < 0 ? duration + 24 * 60 : duration,
+        };
+      }),
+      organizationId
+    );
   }
 
-  private getDayOfWeek(date: Date): DayOfWeek {
-    const days: DayOfWeek[] = [
-      'SUNDAY',
-      'MONDAY',
-      'TUESDAY',
-      'WEDNESDAY',
-      'THURSDAY',
-      'FRIDAY',
-      'SATURDAY',
-    ];
-    return days[date.getDay()] as DayOfWeek;
+  /**
+   * Attach the authorization findings that didn't stop the visit. Blocking
+   * findings only get here when limits were waived.
+   */
+  private withAuthorizationWarnings(
+    visit: Visit,
+    check: AuthorizationCheckResult | undefined
+  ): ScheduledVisit {
+    if (check === undefined || check.findings.length === 0) {
+      return visit;
+    }
+    return { ...visit, authorizationWarnings: check.findings };
   }
 
-  private calculateEndTime(startTime: string, durationMinutes: number): string {
-    return this.addMinutesToTime(startTime, durationMinutes);
+  /**
+   * Local midnight of a YYYY-MM-DD occurrence date, the form scheduled_date
+   * values are written in
+   */
+  private toScheduledDate(date: string): Date {
+    const { year, month, day } = parseCalendarDate(date);
+    return new Date(year, month - 1, day);
   }
 
   private addMinutesToTime(time: string, minutes: number): string {
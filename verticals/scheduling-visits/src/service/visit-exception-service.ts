@@ -0,0 +1,476 @@
+/**
+ * Service for Visit Exceptions
+ *
+ * Detects visit exceptions from schedule, EVV and care plan data, pages
+ * branch coordinators by severity, and escalates exceptions nobody picks
+ * up. Coordinators work the queue through acknowledge, resolve and
+ * escalate.
+ *
+ * Detection rules:
+ * - No clock-in past the grace period: LATE_START (HIGH), becoming
+ *   NO_SHOW_CAREGIVER (CRITICAL) past the no-show threshold
+ * - Late clock-in: LATE_START (LOW)
+ * - Early clock-out: EARLY_END (MEDIUM)
+ * - Required care plan tasks left undone: MISSED_TASKS (MEDIUM, HIGH when
+ *   a medication task was missed)
+ * - Clock-in or clock-out outside the geofence: LOCATION_MISMATCH (HIGH)
+ */
+
+import {
+  UUID,
+  UserContext,
+  PaginationParams,
+  PaginatedResult,
+  ValidationError,
+  PermissionError,
+  NotFoundError,
+  ConflictError,
+  NotificationService,
+  NotificationPriority,
+  getNotificationService,
+} from '@care-commons/core';
+import {
+  VisitExceptionRepository,
+  VisitExceptionCandidate,
+  ExceptionRecipient,
+} from '../repository/visit-exception-repository';
+import {
+  ExceptionSeverity,
+  ExceptionType,
+  VisitException,
+  VisitExceptionFilters,
+  VisitExceptionDetectionConfig,
+  VisitExceptionDetectionResult,
+  ResolveVisitExceptionInput,
+  EscalateVisitExceptionInput,
+} from '../types/schedule';
+
+export const DEFAULT_DETECTION_CONFIG: VisitExceptionDetectionConfig = {
+  clockInGraceMinutes: 15,
+  noShowMinutes: 60,
+  earlyClockOutMinutes: 15,
+  lookbackHours: 24,
+  mediumNotificationDelayMinutes: 60,
+  escalationAfterMinutes: { CRITICAL: 30, HIGH: 120 },
+};
+
+const COORDINATOR_ROLES = ['COORDINATOR'];
+const ESCALATION_ROLES = ['BRANCH_ADMIN', 'ORG_ADMIN'];
+const SUPERVISOR_ROLES = ['SUPER_ADMIN', 'ORG_ADMIN', 'BRANCH_ADMIN', 'COORDINATOR'];
+
+const NOTIFICATION_PRIORITY: Record<ExceptionSeverity, NotificationPriority> = {
+  CRITICAL: 'URGENT',
+  HIGH: 'HIGH',
+  MEDIUM: 'NORMAL',
+  LOW: 'LOW',
+};
+
+const EXCEPTION_LABELS: Record<ExceptionType, string> = {
+  LATE_START: 'Late start',
+  EARLY_END: 'Early end',
+  OVERTIME: 'Overtime',
+  NO_SHOW_CLIENT: 'Client no-show',
+  NO_SHOW_CAREGIVER: 'Caregiver no-show',
+  LOCATION_MISMATCH: 'Location mismatch',
+  MISSED_TASKS: 'Missed tasks',
+  SAFETY_CONCERN: 'Safety concern',
+  EQUIPMENT_ISSUE: 'Equipment issue',
+  MEDICATION_ISSUE: 'Medication issue',
+  CLIENT_REFUSED: 'Client refused service',
+  EMERGENCY: 'Emergency',
+  OTHER: 'Other',
+};
+
+interface DetectedException {
+  candidate: VisitExceptionCandidate;
+  exceptionType: ExceptionType;
+  severity: ExceptionSeverity;
+  description: string;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+export class VisitExceptionService {
+  private config: VisitExceptionDetectionConfig;
+
+  constructor(
+    private repository: VisitExceptionRepository,
+    private notificationService: NotificationService = getNotificationService(),
+    config?: Partial<VisitExceptionDetectionConfig>
+  ) {
+    this.config = { ...DEFAULT_DETECTION_CONFIG, ...config };
+  }
+
+  /**
+   * Automatic detection
+   */
+
+  /**
+   * Run every detection rule, then notify coordinators and escalate
+   * exceptions that have gone unacknowledged. Safe to run repeatedly:
+   * a visit gets at most one automatic exception of each type.
+   */
+  async detectExceptions(asOf: Date = new Date()): Promise<VisitExceptionDetectionResult> {
+    let detected = 0;
+    for (const exception of await this.scanVisits(asOf)) {
+      const created = await this.repository.createAutomaticException({
+        ...exception,
+        requiresFollowup: exception.severity === 'CRITICAL' || exception.severity === 'HIGH',
+        detectedAt: asOf,
+      });
+      if (created) {
+        detected++;
+      }
+    }
+
+    const notified = await this.notifyCoordinators(asOf);
+    const escalated = await this.escalateUnacknowledged(asOf);
+
+    return { detected, notified, escalated };
+  }
+
+  private async scanVisits(asOf: Date): Promise<DetectedException[]> {
+    const { clockInGraceMinutes, noShowMinutes, earlyClockOutMinutes, lookbackHours } = this.config;
+    const since = new Date(asOf.getTime() - lookbackHours * 60 * MINUTE_MS);
+
+    const [missed, late, early, tasks, geofence] = await Promise.all([
+      this.repository.findMissedClockIns(asOf, clockInGraceMinutes, lookbackHours),
+      this.repository.findLateClockIns(since, clockInGraceMinutes),
+      this.repository.findEarlyClockOuts(since, earlyClockOutMinutes),
+      this.repository.findIncompleteRequiredTasks(since),
+      this.repository.findGeofenceFailures(since),
+    ]);
+
+    return [
+      ...missed.map(candidate => {
+        const minutesLate = Number(candidate.details['minutesLate']);
+        const description = `Caregiver has not clocked in ${minutesLate} minutes after the scheduled start`;
+        return minutesLate >= noShowMinutes
+          ? this.detected(candidate, 'NO_SHOW_CAREGIVER', 'CRITICAL', description)
+          : this.detected(candidate, 'LATE_START', 'HIGH', description);
+      }),
+      ...late.map(candidate =>
+        this.detected(candidate, 'LATE_START', 'LOW',
+          `Caregiver clocked in ${Number(candidate.details['minutesLate'])} minutes after the scheduled start`)
+      ),
+      ...early.map(candidate =>
+        this.detected(candidate, 'EARLY_END', 'MEDIUM',
+          `Caregiver clocked out ${Number(candidate.details['minutesEarly'])} minutes before the scheduled end`)
+      ),
+      ...tasks.map(candidate =>
+        this.detected(
+          candidate,
+          'MISSED_TASKS',
+          candidate.details['includesMedication'] === true ? 'HIGH' : 'MEDIUM',
+          `${Number(candidate.details['incompleteTaskCount'])} required care plan task(s) not completed`
+        )
+      ),
+      ...geofence.map(candidate =>
+        this.detected(candidate, 'LOCATION_MISMATCH', 'HIGH', this.describeGeofenceFailure(candidate))
+      ),
+    ];
+  }
+
+  private detected(
+    candidate: VisitExceptionCandidate,
+    exceptionType: ExceptionType,
+    severity: ExceptionSeverity,
+    description: string
+  ): DetectedException {
+    return { candidate, exceptionType, severity, description };
+  }
+
+  private describeGeofenceFailure(candidate: VisitExceptionCandidate): string {
+    const clockIn = candidate.details['clockInFailed'] === true;
+    const clockOut = candidate.details['clockOutFailed'] === true;
+    if (clockIn && clockOut) {
+      return 'Clock-in and clock-out were outside the client geofence';
+    }
+    return clockIn
+      ? 'Clock-in was outside the client geofence'
+      : 'Clock-out was outside the client geofence';
+  }
+
+  /**
+   * Page branch coordinators about new exceptions. CRITICAL and HIGH go
+   * out at once, MEDIUM only if still open after the notification delay,
+   * and LOW only appears in the queue.
+   */
+  private async notifyCoordinators(asOf: Date): Promise<number> {
+    const mediumCutoff = new Date(
+      asOf.getTime() - this.config.mediumNotificationDelayMinutes * MINUTE_MS
+    );
+    const pending = [
+      ...(await this.repository.findPendingNotifications(['CRITICAL', 'HIGH'], asOf)),
+      ...(await this.repository.findPendingNotifications(['MEDIUM'], mediumCutoff)),
+    ];
+
+    let notified = 0;
+    for (const exception of pending) {
+      let recipients = await this.repository.findUsersByRole(
+        exception.organizationId, exception.branchId, COORDINATOR_ROLES
+      );
+      if (recipients.length === 0) {
+        recipients = await this.repository.findUsersByRole(
+          exception.organizationId, exception.branchId, ESCALATION_ROLES
+        );
+      }
+
+      const sent = await this.notify('VISIT_EXCEPTION_DETECTED', exception, recipients, {});
+      if (sent) {
+        await this.repository.updateException(exception.id, { notifiedAt: asOf });
+        notified++;
+      }
+    }
+    return notified;
+  }
+
+  /**
+   * Escalate notified exceptions nobody acknowledged in time to the branch
+   * and organization admins
+   */
+  private async escalateUnacknowledged(asOf: Date): Promise<number> {
+    let escalated = 0;
+    for (const [severity, minutes] of Object.entries(this.config.escalationAfterMinutes)) {
+      if (minutes === undefined) {
+        continue;
+      }
+      const cutoff = new Date(asOf.getTime() - minutes * MINUTE_MS);
+      const due = await this.repository.findEscalationDue(severity as ExceptionSeverity, cutoff);
+
+      for (const exception of due) {
+        const admins = await this.repository.findUsersByRole(
+          exception.organizationId, exception.branchId, ESCALATION_ROLES
+        );
+        const [first] = admins;
+        if (first === undefined) {
+          continue;
+        }
+
+        const escalationReason = `Not acknowledged within ${minutes} minutes`;
+        const updated = await this.repository.updateException(exception.id, {
+          status: 'ESCALATED',
+          escalationLevel: exception.escalationLevel + 1,
+          escalatedAt: asOf,
+          escalatedTo: first.userId,
+          escalationReason,
+        });
+        if (updated) {
+          await this.notify('VISIT_EXCEPTION_ESCALATED', updated, admins, { escalationReason });
+          escalated++;
+        }
+      }
+    }
+    return escalated;
+  }
+
+  /**
+   * Exception queue
+   */
+
+  async getExceptions(
+    filters: VisitExceptionFilters,
+    pagination: PaginationParams,
+    context: UserContext
+  ): Promise<PaginatedResult<VisitException>> {
+    this.checkPermission(context, 'visits:read');
+
+    // The queue is always one organization's, whatever the caller's role
+    if (context.organizationId === undefined) {
+      throw new PermissionError('An organization is required to view visit exceptions', {
+        userId: context.userId,
+      });
+    }
+
+    return await this.repository.searchExceptions(
+      { ...filters, organizationId: context.organizationId },
+      pagination
+    );
+  }
+
+  async getException(id: UUID, context: UserContext): Promise<VisitException> {
+    this.checkPermission(context, 'visits:read');
+    return await this.loadException(id, context);
+  }
+
+  /**
+   * Take ownership of an exception so it stops escalating
+   */
+  async acknowledgeException(id: UUID, context: UserContext): Promise<VisitException> {
+    this.checkPermission(context, 'visits:update');
+    this.checkSupervisor(context);
+
+    const exception = await this.loadException(id, context);
+    if (exception.status === 'RESOLVED' || exception.status === 'IN_PROGRESS') {
+      throw new ConflictError(`Exception is already ${exception.status}`, {
+        id,
+        status: exception.status,
+      });
+    }
+
+    return await this.update(id, {
+      status: 'IN_PROGRESS',
+      followupAssignedTo: context.userId,
+    });
+  }
+
+  async resolveException(
+    id: UUID,
+    input: ResolveVisitExceptionInput,
+    context: UserContext
+  ): Promise<VisitException> {
+    this.checkPermission(context, 'visits:update');
+    this.checkSupervisor(context);
+
+    if (input.resolution.trim() === '') {
+      throw new ValidationError('Resolution is required', { id });
+    }
+
+    const exception = await this.loadException(id, context);
+    this.assertUnresolved(exception);
+
+    return await this.update(id, {
+      status: 'RESOLVED',
+      resolution: input.resolution.trim(),
+      resolvedAt: new Date(),
+      resolvedBy: context.userId,
+      requiresFollowup: input.requiresFollowup ?? false,
+      ...(input.followupAssignedTo !== undefined && { followupAssignedTo: input.followupAssignedTo }),
+    });
+  }
+
+  async escalateException(
+    id: UUID,
+    input: EscalateVisitExceptionInput,
+    context: UserContext
+  ): Promise<VisitException> {
+    this.checkPermission(context, 'visits:update');
+    this.checkSupervisor(context);
+
+    if (input.escalationReason.trim() === '') {
+      throw new ValidationError('Escalation reason is required', { id });
+    }
+
+    const exception = await this.loadException(id, context);
+    this.assertUnresolved(exception);
+
+    const updated = await this.update(id, {
+      status: 'ESCALATED',
+      escalationLevel: exception.escalationLevel + 1,
+      escalatedAt: new Date(),
+      escalatedTo: input.escalatedTo,
+      escalationReason: input.escalationReason.trim(),
+    });
+
+    await this.notify(
+      'VISIT_EXCEPTION_ESCALATED',
+      updated,
+      [{ userId: input.escalatedTo, email: '' }],
+      { escalationReason: updated.escalationReason, escalatedBy: context.userId }
+    );
+
+    return updated;
+  }
+
+  private async loadException(id: UUID, context: UserContext): Promise<VisitException> {
+    const exception = await this.repository.getExceptionById(id);
+    if (!exception) {
+      throw new NotFoundError('Visit exception not found', { id });
+    }
+    this.checkOrganizationAccess(context, exception.organizationId);
+    return exception;
+  }
+
+  private async update(
+    id: UUID,
+    updates: Parameters<VisitExceptionRepository['updateException']>[1]
+  ): Promise<VisitException> {
+    const updated = await this.repository.updateException(id, updates);
+    if (!updated) {
+      throw new NotFoundError('Visit exception not found', { id });
+    }
+    return updated;
+  }
+
+  private assertUnresolved(exception: VisitException): void {
+    if (exception.status === 'RESOLVED') {
+      throw new ConflictError('Exception is already resolved', { id: exception.id });
+    }
+  }
+
+  /**
+   * Send an exception notification. Failures are logged and never fail
+   * detection or the coordinator's action.
+   */
+  private async notify(
+    eventType: 'VISIT_EXCEPTION_DETECTED' | 'VISIT_EXCEPTION_ESCALATED',
+    exception: VisitException,
+    recipients: ExceptionRecipient[],
+    extraData: Record<string, unknown>
+  ): Promise<boolean> {
+    if (recipients.length === 0) {
+      return false;
+    }
+
+    try {
+      const visitNumber = await this.repository.getVisitNumber(exception.visitId);
+      const data = {
+        exceptionId: exception.id,
+        visitId: exception.visitId,
+        visitNumber: visitNumber ?? exception.visitId,
+        exceptionType: exception.exceptionType,
+        exceptionLabel: EXCEPTION_LABELS[exception.exceptionType],
+        severity: exception.severity,
+        description: exception.description,
+        ...extraData,
+      };
+      const template = NotificationService.getTemplate(eventType, data);
+
+      await this.notificationService.send({
+        eventType,
+        priority: NOTIFICATION_PRIORITY[exception.severity],
+        recipients: recipients.map(r => ({
+          userId: r.userId,
+          ...(r.email !== '' && { email: r.email }),
+          preferredChannels: ['EMAIL', 'IN_APP'],
+        })),
+        subject: template.subject,
+        message: template.message,
+        data,
+        organizationId: exception.organizationId,
+        relatedEntityType: 'visit',
+        relatedEntityId: exception.visitId,
+      });
+      return true;
+    } catch (error) {
+      console.error(`[SCHEDULE] Failed to send ${eventType} notification:`, error);
+      return false;
+    }
+  }
+
+  private checkPermission(context: UserContext, permission: string): void {
+    if (!(context.permissions?.includes(permission) || context.roles?.includes('SUPER_ADMIN'))) {
+      throw new PermissionError(`Missing required permission: ${permission}`, {
+        userId: context.userId,
+        permission,
+      });
+    }
+  }
+
+  private checkSupervisor(context: UserContext): void {
+    if (!context.roles.some(role => SUPERVISOR_ROLES.includes(role))) {
+      throw new PermissionError('Only coordinators and administrators can work visit exceptions', {
+        userId: context.userId,
+      });
+    }
+  }
+
+  private checkOrganizationAccess(context: UserContext, organizationId: UUID): void {
+    if (context.organizationId !== organizationId && !context.roles?.includes('SUPER_ADMIN')) {
+      throw new PermissionError('Access denied to this organization', {
+        userOrg: context.organizationId!,
+        requestedOrg: organizationId,
+      });
+    }
+  }
+}
@@ -105,15 +105,57 @@ export type TimeOfDay =
 
 /**
  * Recurrence Rule - Defines when services repeat
+ *
+ * The structured fields cover the common cases. Anything else (nth weekday
+ * of the month, counts, end dates, yearly rules) is expressed as an
+ * RFC 5545 RRULE, which takes precedence when present and is required for
+ * CUSTOM patterns. Occurrences are expanded on the local calendar of the
+ * IANA timezone, so a 09:00 visit stays at 09:00 across DST changes.
  */
 export interface RecurrenceRule {
   frequency: Frequency;
   interval: number; // Every N days/weeks/months
   daysOfWeek?: DayOfWeek[]; // For weekly patterns
   datesOfMonth?: number[]; // For monthly patterns (1-31)
+  weekdayOccurrences?: WeekdayOccurrence[]; // For monthly patterns (2nd Tuesday, last Friday)
   startTime: string; // HH:MM format
   endTime?: string; // HH:MM format (if different from duration)
   timezone: string; // IANA timezone
+
+  timeSlots?: RecurrenceTimeSlot[]; // Several visits per day (split shifts); replaces startTime
+  rrule?: string; // RFC 5545 RRULE value, e.g. FREQ=MONTHLY;BYDAY=2TU
+  exceptionDates?: string[]; // EXDATE: YYYY-MM-DD skips the day, YYYY-MM-DDTHH:MM one slot
+  additionalDates?: RecurrenceDate[]; // RDATE: one-off visits, e.g. a rescheduled occurrence
+}
+
+export interface WeekdayOccurrence {
+  dayOfWeek: DayOfWeek;
+  occurrence: number; // 1-5 from the start of the month, -1 to -5 from the end
+}
+
+export interface RecurrenceTimeSlot {
+  startTime: string; // HH:MM format
+  duration?: number; // Minutes, defaults to the pattern duration
+  label?: string; // e.g. "Morning", "Evening"
+}
+
+export interface RecurrenceDate {
+  date: string; // YYYY-MM-DD in the pattern timezone
+  startTime?: string; // HH:MM, defaults to the first time slot
+  duration?: number; // Minutes, defaults to the slot or pattern duration
+}
+
+/**
+ * A single visit produced by expanding a recurrence rule
+ */
+export interface RecurrenceOccurrence {
+  date: string; // YYYY-MM-DD in the pattern timezone
+  startTime: string; // HH:MM local
+  endTime: string; // HH:MM local
+  duration: number; // Minutes
+  start: Date; // UTC instant of the local start
+  end: Date;
+  label?: string;
 }
 
 export type Frequency =
@@ -380,20 +422,26 @@ export type AssignmentStatus =
 
 /**
  * Visit Exception - Handles unexpected situations
+ *
+ * Exceptions are raised by staff or by the automatic detector. The table
+ * keeps its own timestamps only, so the audit fields of Entity are omitted.
  */
-export interface VisitException extends Entity {
+export interface VisitException extends Omit<Entity, 'createdBy' | 'updatedBy' | 'version'> {
+  organizationId: UUID;
+  branchId: UUID;
   visitId: UUID;
   clientId: UUID;
   caregiverId?: UUID;
 
   exceptionType: ExceptionType;
-  severity: 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL';
+  severity: ExceptionSeverity;
 
   detectedAt: Timestamp;
   detectedBy?: UUID; // Null if system-detected
   automatic: boolean;
 
   description: string;
+  details: Record<string, unknown>; // Facts recorded by the detection rule
   resolution?: string;
   resolvedAt?: Timestamp;
   resolvedBy?: UUID;
@@ -401,9 +449,20 @@ export interface VisitException extends Entity {
   requiresFollowup: boolean;
   followupAssignedTo?: UUID;
 
-  status: 'OPEN' | 'IN_PROGRESS' | 'RESOLVED' | 'ESCALATED';
+  // Coordinator notification and escalation
+  notifiedAt?: Timestamp;
+  escalationLevel: number;
+  escalatedAt?: Timestamp;
+  escalatedTo?: UUID;
+  escalationReason?: string;
+
+  status: ExceptionStatus;
 }
 
+export type ExceptionSeverity = 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL';
+
+export type ExceptionStatus = 'OPEN' | 'IN_PROGRESS' | 'RESOLVED' | 'ESCALATED';
+
 export type ExceptionType =
   | 'LATE_START' // Visit started late
   | 'EARLY_END' // Visit ended early
@@ -419,6 +478,163 @@ export type ExceptionType =
   | 'EMERGENCY' // Emergency during visit
   | 'OTHER';
 
+export interface VisitExceptionFilters {
+  organizationId?: UUID;
+  branchIds?: UUID[];
+  visitId?: UUID;
+  caregiverId?: UUID;
+  exceptionType?: ExceptionType[];
+  severity?: ExceptionSeverity[];
+  status?: ExceptionStatus[];
+  automatic?: boolean;
+  dateFrom?: Date;
+  dateTo?: Date;
+}
+
+export interface ResolveVisitExceptionInput {
+  resolution: string;
+  requiresFollowup?: boolean;
+  followupAssignedTo?: UUID;
+}
+
+export interface EscalateVisitExceptionInput {
+  escalatedTo: UUID;
+  escalationReason: string;
+}
+
+/**
+ * Thresholds used by the automatic exception detector
+ */
+export interface VisitExceptionDetectionConfig {
+  clockInGraceMinutes: number; // Missed clock-in is raised after this
+  noShowMinutes: number; // Missed clock-in becomes a caregiver no-show after this
+  earlyClockOutMinutes: number; // Clock-out this far before scheduled end is an early end
+  lookbackHours: number; // How far back scheduled starts are scanned
+  mediumNotificationDelayMinutes: number; // MEDIUM exceptions wait this long before paging
+  escalationAfterMinutes: Partial<Record<ExceptionSeverity, number>>; // Unacknowledged escalation
+}
+
+export interface VisitExceptionDetectionResult {
+  detected: number;
+  notified: number;
+  escalated: number;
+}
+
+/**
+ * Service Authorization - Payer-approved units for a client's service, as
+ * seen by scheduling
+ *
+ * Authorizations are owned by billing, which draws down usedUnits and
+ * remainingUnits as visits are billed. Scheduling reads them to forecast
+ * how future visits will burn the remaining units.
+ */
+export interface SchedulingAuthorization {
+  id: UUID;
+  organizationId: UUID;
+  branchId: UUID;
+  clientId: UUID;
+  clientName: string;
+  authorizationNumber: string;
+  payerName: string;
+  serviceTypeId: UUID;
+  serviceTypeName: string;
+  unitType: AuthorizationUnitType;
+  authorizedUnits: number;
+  usedUnits: number;
+  remainingUnits: number;
+  effectiveFrom: Date;
+  effectiveTo: Date;
+  status: 'ACTIVE' | 'DEPLETED' | 'EXPIRED';
+  lowUnitsThreshold?: number;
+  expirationWarningDays?: number;
+  lowUnitsAlertedAt?: Timestamp;
+  expirationAlertedAt?: Timestamp;
+}
+
+export type AuthorizationUnitType =
+  | 'HOUR'
+  | 'VISIT'
+  | 'DAY'
+  | 'WEEK'
+  | 'MONTH'
+  | 'TASK'
+  | 'MILE'
+  | 'UNIT';
+
+/**
+ * A visit that will draw on an authorization once it is delivered and
+ * billed, either already scheduled or about to be
+ */
+export interface AuthorizedVisitDemand {
+  visitId?: UUID;
+  clientId: UUID;
+  serviceTypeId: UUID;
+  scheduledDate: Date;
+  durationMinutes: number;
+}
+
+export interface AuthorizationForecast {
+  authorization: SchedulingAuthorization;
+  scheduledVisitCount: number;
+  scheduledUnits: number; // Units the scheduled, not yet billed visits will use
+  projectedRemainingUnits: number; // Negative when over-scheduled
+  projectedDepletionDate?: Date; // First scheduled visit the remaining units don't cover
+  daysUntilExpiration: number;
+  lowUnitsThreshold: number;
+  expirationWarningDays: number;
+  lowUnits: boolean;
+  expiringSoon: boolean;
+  overScheduled: boolean;
+}
+
+export interface ClientAuthorizationForecast {
+  clientId: UUID;
+  asOf: Date;
+  authorizations: AuthorizationForecast[];
+  uncoveredVisits: AuthorizedVisitDemand[]; // Scheduled outside every authorization for the service
+}
+
+export type AuthorizationFindingCode =
+  | 'OUTSIDE_AUTHORIZATION_PERIOD'
+  | 'EXCEEDS_REMAINING_UNITS'
+  | 'LOW_UNITS';
+
+export interface AuthorizationFinding {
+  code: AuthorizationFindingCode;
+  severity: 'BLOCK' | 'WARNING';
+  message: string;
+  scheduledDate: Date;
+  authorizationId?: UUID;
+  authorizationNumber?: string;
+  projectedRemainingUnits?: number;
+}
+
+export interface AuthorizationCheckResult {
+  blocked: boolean;
+  findings: AuthorizationFinding[];
+}
+
+/**
+ * A newly scheduled visit, with any authorization warnings raised while
+ * scheduling it
+ */
+export type ScheduledVisit = Visit & { authorizationWarnings?: AuthorizationFinding[] };
+
+/**
+ * Thresholds for authorization alerts, used when an authorization doesn't
+ * set its own
+ */
+export interface AuthorizationForecastConfig {
+  defaultLowUnitsPercent: number; // Percent of authorized units
+  defaultExpirationWarningDays: number;
+}
+
+export interface AuthorizationAlertResult {
+  lowUnits: number;
+  expiring: number;
+  cleared: number;
+}
+
 /**
  * Shift Template - Reusable shift definition
  * 
@@ -542,6 +758,33 @@ export interface UpdateServicePatternInput {
   effectiveTo?: Date;
 }
 
+/**
+ * Import service patterns for a client from an iCalendar (RFC 5545) file.
+ * Events sharing a recurrence become one pattern with several time slots.
+ */
+export interface ImportServicePatternsInput {
+  organizationId: UUID;
+  branchId: UUID;
+  clientId: UUID;
+  serviceTypeId: UUID;
+  serviceTypeName: string;
+  calendar: string; // VCALENDAR text
+  timezone?: string; // For floating times; defaults to the first TZID in the file
+}
+
+/**
+ * A pattern parsed from an iCalendar file, before it is tied to a client
+ */
+export interface ImportedServicePattern {
+  name: string;
+  description?: string;
+  patternType: PatternType;
+  recurrence: RecurrenceRule;
+  duration: number;
+  effectiveFrom: Date;
+  effectiveTo?: Date;
+}
+
 export interface CreateVisitInput {
   organizationId: UUID;
   branchId: UUID;
@@ -621,7 +864,7 @@ export interface ScheduleGenerationOptions {
   startDate: Date;
   endDate: Date;
   autoAssign?: boolean; // Attempt automatic caregiver assignment
-  respectHourlyLimits?: boolean; // Respect authorized hours
+  respectHourlyLimits?: boolean; // Refuse visits the client's authorization can't cover (default); false schedules them with warnings
   skipHolidays?: boolean;
   holidayCalendarId?: UUID;
 }
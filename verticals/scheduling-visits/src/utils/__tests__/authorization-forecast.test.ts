@@ -0,0 +1,194 @@
+/**
+ * Authorization Forecast Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  checkVisitsAgainstAuthorizations,
+  forecastAuthorizations,
+  visitUnits,
+} from '../authorization-forecast';
+import type {
+  AuthorizationForecastConfig,
+  AuthorizedVisitDemand,
+  SchedulingAuthorization,
+} from '../../types/schedule';
+
+const CONFIG: AuthorizationForecastConfig = {
+  defaultLowUnitsPercent: 10,
+  defaultExpirationWarningDays: 30,
+};
+
+const PERSONAL_CARE = 'service-personal-care';
+const NURSING = 'service-nursing';
+
+function authorization(overrides: Partial<SchedulingAuthorization> = {}): SchedulingAuthorization {
+  return {
+    id: 'auth-1',
+    organizationId: 'org-1',
+    branchId: 'branch-1',
+    clientId: 'client-1',
+    clientName: 'Jane Smith',
+    authorizationNumber: 'PA-1001',
+    payerName: 'Texas Medicaid',
+    serviceTypeId: PERSONAL_CARE,
+    serviceTypeName: 'Personal Care',
+    unitType: 'HOUR',
+    authorizedUnits: 100,
+    usedUnits: 80,
+    remainingUnits: 20,
+    effectiveFrom: new Date(2026, 0, 1),
+    effectiveTo: new Date(2026, 2, 31),
+    status: 'ACTIVE',
+    ...overrides,
+  };
+}
+
+function visit(day: Date, durationMinutes = 240, serviceTypeId = PERSONAL_CARE): AuthorizedVisitDemand {
+  return { clientId: 'client-1', serviceTypeId, scheduledDate: day, durationMinutes };
+}
+
+describe('authorization forecasting', () => {
+  describe('visitUnits', () => {
+    it('should count units the way billing does', () => {
+      expect(visitUnits('HOUR', 90)).toBe(1.5);
+      expect(visitUnits('UNIT', 90)).toBe(90);
+      expect(visitUnits('VISIT', 90)).toBe(1);
+      expect(visitUnits('MILE', 90)).toBe(0);
+    });
+  });
+
+  describe('forecastAuthorizations', () => {
+    it('should project remaining units and the first visit they do not cover', () => {
+      const visits = [1, 2, 3, 4, 5, 6].map(day => visit(new Date(2026, 1, day)));
+
+      const forecast = forecastAuthorizations('client-1', [authorization()], visits, new Date(2026, 1, 1), CONFIG);
+
+      expect(forecast.authorizations).toEqual([
+        expect.objectContaining({
+          scheduledVisitCount: 6,
+          scheduledUnits: 24,
+          projectedRemainingUnits: -4,
+          projectedDepletionDate: new Date(2026, 1, 6),
+          daysUntilExpiration: 58,
+          lowUnitsThreshold: 10,
+          lowUnits: true,
+          expiringSoon: false,
+          overScheduled: true,
+        }),
+      ]);
+      expect(forecast.uncoveredVisits).toEqual([]);
+    });
+
+    it('should draw on the authorization ending soonest and roll over when it runs out', () => {
+      const first = authorization({ remainingUnits: 4, effectiveTo: new Date(2026, 1, 28) });
+      const second = authorization({
+        id: 'auth-2',
+        authorizationNumber: 'PA-1002',
+        remainingUnits: 40,
+        effectiveFrom: new Date(2026, 1, 1),
+        expirationWarningDays: 60,
+      });
+
+      const forecast = forecastAuthorizations(
+        'client-1',
+        [second, first],
+        [visit(new Date(2026, 1, 10)), visit(new Date(2026, 1, 11))],
+        new Date(2026, 1, 1),
+        CONFIG
+      );
+
+      expect(forecast.authorizations.map(f => [f.authorization.id, f.scheduledUnits, f.expiringSoon])).toEqual([
+        ['auth-1', 4, true],
+        ['auth-2', 4, true],
+      ]);
+    });
+
+    it('should list visits outside every period for an authorized service', () => {
+      const outside = visit(new Date(2026, 3, 2));
+      const untracked = visit(new Date(2026, 1, 2), 60, NURSING);
+
+      const forecast = forecastAuthorizations(
+        'client-1',
+        [authorization()],
+        [outside, untracked],
+        new Date(2026, 1, 1),
+        CONFIG
+      );
+
+      expect(forecast.uncoveredVisits).toEqual([outside]);
+    });
+  });
+
+  describe('checkVisitsAgainstAuthorizations', () => {
+    it('should block visits outside the authorization period', () => {
+      const [result] = checkVisitsAgainstAuthorizations(
+        [authorization()],
+        [],
+        [visit(new Date(2026, 3, 1))],
+        CONFIG
+      );
+
+      expect(result).toEqual({
+        blocked: true,
+        findings: [
+          {
+            code: 'OUTSIDE_AUTHORIZATION_PERIOD',
+            severity: 'BLOCK',
+            message: 'No authorization for Personal Care covers 2026-04-01 (PA-1001 2026-01-01 to 2026-03-31)',
+            scheduledDate: new Date(2026, 3, 1),
+          },
+        ],
+      });
+    });
+
+    it('should block visits exceeding the units left after scheduled visits', () => {
+      const results = checkVisitsAgainstAuthorizations(
+        [authorization()],
+        [visit(new Date(2026, 1, 2)), visit(new Date(2026, 1, 3)), visit(new Date(2026, 1, 4))],
+        [visit(new Date(2026, 1, 9)), visit(new Date(2026, 1, 10), 300)],
+        CONFIG
+      );
+
+      expect(results[0]).toMatchObject({
+        blocked: false,
+        findings: [{ code: 'LOW_UNITS', severity: 'WARNING', projectedRemainingUnits: 4 }],
+      });
+      expect(results[1]).toMatchObject({
+        blocked: true,
+        findings: [
+          {
+            code: 'EXCEEDS_REMAINING_UNITS',
+            message: 'Visit on 2026-02-10 needs 5 hours but authorization PA-1001 has 4 hours left after scheduled visits',
+            projectedRemainingUnits: -1,
+          },
+        ],
+      });
+    });
+
+    it('should pass visits for services without authorizations and MILE authorizations', () => {
+      const results = checkVisitsAgainstAuthorizations(
+        [authorization({ serviceTypeId: NURSING, unitType: 'MILE', remainingUnits: 0 })],
+        [],
+        [visit(new Date(2026, 1, 2)), visit(new Date(2026, 1, 2), 60, NURSING)],
+        { ...CONFIG, defaultLowUnitsPercent: 0 }
+      );
+
+      expect(results).toEqual([
+        { blocked: false, findings: [] },
+        { blocked: false, findings: [] },
+      ]);
+    });
+
+    it('should treat expired authorizations as not covering the visit', () => {
+      const [result] = checkVisitsAgainstAuthorizations(
+        [authorization({ status: 'EXPIRED' })],
+        [],
+        [visit(new Date(2026, 1, 2))],
+        CONFIG
+      );
+
+      expect(result!.findings[0]!.message).toContain('PA-1001 2026-01-01 to 2026-03-31 (expired)');
+    });
+  });
+});
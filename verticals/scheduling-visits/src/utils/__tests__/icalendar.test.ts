@@ -0,0 +1,119 @@
+/**
+ * Tests for iCalendar import and export
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ValidationError } from '@care-commons/core';
+import { ServicePattern } from '../../types/schedule';
+import { exportServicePatternsToICalendar, parseICalendar } from '../icalendar';
+
+const pattern = {
+  id: 'pattern-1',
+  organizationId: 'org-1',
+  branchId: 'branch-1',
+  clientId: 'client-1',
+  name: 'Personal care, split shift',
+  patternType: 'RECURRING',
+  serviceTypeId: 'service-1',
+  serviceTypeName: 'Personal Care',
+  recurrence: {
+    frequency: 'WEEKLY',
+    interval: 1,
+    daysOfWeek: ['MONDAY', 'WEDNESDAY', 'FRIDAY'],
+    startTime: '08:00',
+    timezone: 'America/Chicago',
+    timeSlots: [
+      { startTime: '08:00', label: 'Morning' },
+      { startTime: '19:00', duration: 30, label: 'Evening' },
+    ],
+    exceptionDates: ['2025-01-08', '2025-01-10T19:00'],
+    additionalDates: [{ date: '2025-01-11', startTime: '19:00', duration: 30 }],
+  },
+  duration: 60,
+  status: 'ACTIVE',
+  effectiveFrom: new Date('2025-01-05'),
+  effectiveTo: new Date('2025-03-31'),
+} as unknown as ServicePattern;
+
+describe('iCalendar', () => {
+  describe('exportServicePatternsToICalendar', () => {
+    it('should write one event per time slot', () => {
+      const ics = exportServicePatternsToICalendar([pattern], {
+        generatedAt: new Date('2025-01-01T00:00:00Z'),
+      });
+
+      expect(ics).toContain('UID:pattern-1-0@care-commons');
+      expect(ics).toContain('UID:pattern-1-1@care-commons');
+      expect(ics).toContain('DTSTART;TZID=America/Chicago:20250106T080000');
+      expect(ics).toContain('DTSTART;TZID=America/Chicago:20250106T190000');
+      expect(ics).toContain('RRULE:FREQ=WEEKLY;BYDAY=MO,WE,FR;UNTIL=20250401T045900Z');
+      expect(ics).toContain('EXDATE;TZID=America/Chicago:20250108T190000,20250110T190000');
+      expect(ics).toContain('RDATE;TZID=America/Chicago;VALUE=PERIOD:20250111T190000/PT30M');
+      expect(ics).toContain('SUMMARY:Personal care\\, split shift');
+      expect(ics.split('\r\n').every(line => Buffer.byteLength(line) <= 75)).toBe(true);
+    });
+  });
+
+  describe('parseICalendar', () => {
+    it('should round-trip a split-shift pattern', () => {
+      const [imported, ...rest] = parseICalendar(exportServicePatternsToICalendar([pattern]));
+
+      expect(rest).toHaveLength(0);
+      expect(imported).toMatchObject({
+        name: 'Personal care, split shift',
+        patternType: 'RECURRING',
+        duration: 60,
+        effectiveFrom: new Date('2025-01-06'),
+        effectiveTo: new Date('2025-03-31'),
+        recurrence: {
+          frequency: 'WEEKLY',
+          interval: 1,
+          daysOfWeek: ['MONDAY', 'WEDNESDAY', 'FRIDAY'],
+          startTime: '08:00',
+          timezone: 'America/Chicago',
+          timeSlots: pattern.recurrence.timeSlots,
+          exceptionDates: pattern.recurrence.exceptionDates,
+          additionalDates: pattern.recurrence.additionalDates,
+        },
+      });
+    });
+
+    it('should keep rules the structured fields cannot express as CUSTOM', () => {
+      const [imported] = parseICalendar([
+        'BEGIN:VCALENDAR',
+        'BEGIN:VEVENT',
+        'DTSTART;TZID=America/Denver:20250101T140000',
+        'DTEND;TZID=America/Denver:20250101T153000',
+        'RRULE:FREQ=YEARLY;BYMONTH=1,7;BYDAY=1WE',
+        'SUMMARY:Semi-annual assessment',
+        'END:VEVENT',
+        'END:VCALENDAR',
+      ].join('\r\n'));
+
+      expect(imported?.duration).toBe(90);
+      expect(imported?.recurrence).toMatchObject({
+        frequency: 'CUSTOM',
+        rrule: 'FREQ=YEARLY;BYDAY=1WE;BYMONTH=1,7',
+        startTime: '14:00',
+      });
+    });
+
+    it('should import events without a rule as one-time patterns', () => {
+      const [imported] = parseICalendar(
+        'BEGIN:VCALENDAR\nBEGIN:VEVENT\nDTSTART:20250301T150000Z\nDURATION:PT2H\nEND:VEVENT\nEND:VCALENDAR',
+        { timezone: 'America/New_York' }
+      );
+
+      expect(imported?.patternType).toBe('ONE_TIME');
+      expect(imported?.duration).toBe(120);
+      expect(imported?.recurrence.startTime).toBe('10:00');
+    });
+
+    it('should reject all-day events and unknown timezones', () => {
+      const allDay = 'BEGIN:VCALENDAR\nBEGIN:VEVENT\nDTSTART;VALUE=DATE:20250301\nEND:VEVENT\nEND:VCALENDAR';
+
+      expect(() => parseICalendar(allDay, { timezone: 'America/Chicago' })).toThrow(ValidationError);
+      expect(() => parseICalendar(allDay, { timezone: 'Mars/Olympus' })).toThrow(ValidationError);
+    });
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * Tests for recurrence expansion
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ValidationError } from '@care-commons/core';
+import { RecurrenceRule } from '../../types/schedule';
+import {
+  ExpansionOptions,
+  expandRecurrence,
+  formatRRule,
+  parseRRule,
+  parseCalendarDate,
+  toRRule,
+  zonedTimeToUtc,
+} from '../recurrence';
+
+const baseRule: RecurrenceRule = {
+  frequency: 'WEEKLY',
+  interval: 1,
+  startTime: '09:00',
+  timezone: 'America/New_York',
+};
+
+const range = (from: string, to: string): ExpansionOptions => ({
+  from: parseCalendarDate(from),
+  to: parseCalendarDate(to),
+  duration: 60,
+});
+
+describe('Recurrence', () => {
+  describe('parseRRule', () => {
+    it('should parse ordinals, counts and week start', () => {
+      const rule = parseRRule('RRULE:FREQ=MONTHLY;INTERVAL=2;BYDAY=2TU,-1FR;COUNT=6;WKST=SU');
+
+      expect(rule).toEqual({
+        freq: 'MONTHLY',
+        interval: 2,
+        count: 6,
+        byDay: [{ weekday: 2, ordinal: 2 }, { weekday: 5, ordinal: -1 }],
+        weekStart: 0,
+      });
+    });
+
+    it('should round-trip through formatRRule', () => {
+      const value = 'FREQ=WEEKLY;INTERVAL=2;UNTIL=20250630;BYDAY=MO,TH';
+
+      expect(formatRRule(parseRRule(value))).toBe(value);
+    });
+
+    it('should reject unsupported parts and frequencies', () => {
+      expect(() => parseRRule('FREQ=MONTHLY;BYDAY=MO;BYSETPOS=1')).toThrow(ValidationError);
+      expect(() => parseRRule('FREQ=HOURLY')).toThrow(ValidationError);
+      expect(() => parseRRule('FREQ=DAILY;COUNT=3;UNTIL=20250101')).toThrow(ValidationError);
+    });
+  });
+
+  describe('toRRule', () => {
+    it('should translate biweekly patterns to a two-week interval', () => {
+      const rule = toRRule({ ...baseRule, frequency: 'BIWEEKLY', daysOfWeek: ['MONDAY'] });
+
+      expect(formatRRule(rule)).toBe('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO');
+    });
+
+    it('should require an rrule for CUSTOM patterns', () => {
+      expect(() => toRRule({ ...baseRule, frequency: 'CUSTOM' })).toThrow(ValidationError);
+    });
+  });
+
+  describe('expandRecurrence', () => {
+    it('should expand the nth weekday of the month', () => {
+      const occurrences = expandRecurrence(
+        {
+          ...baseRule,
+          frequency: 'MONTHLY',
+          weekdayOccurrences: [
+            { dayOfWeek: 'TUESDAY', occurrence: 2 },
+            { dayOfWeek: 'FRIDAY', occurrence: -1 },
+          ],
+        },
+        range('2025-01-01', '2025-03-31')
+      );
+
+      expect(occurrences.map(o => o.date)).toEqual([
+        '2025-01-14',
+        '2025-01-31',
+        '2025-02-11',
+        '2025-02-28',
+        '2025-03-11',
+        '2025-03-28',
+      ]);
+    });
+
+    it('should produce one visit per time slot for split shifts', () => {
+      const occurrences = expandRecurrence(
+        {
+          ...baseRule,
+          frequency: 'DAILY',
+          timeSlots: [
+            { startTime: '18:00', duration: 45, label: 'Evening' },
+            { startTime: '08:00', label: 'Morning' },
+          ],
+        },
+        range('2025-01-06', '2025-01-07')
+      );
+
+      expect(occurrences.map(o => `${o.date} ${o.startTime}-${o.endTime} ${o.label}`)).toEqual([
+        '2025-01-06 08:00-09:00 Morning',
+        '2025-01-06 18:00-18:45 Evening',
+        '2025-01-07 08:00-09:00 Morning',
+        '2025-01-07 18:00-18:45 Evening',
+      ]);
+    });
+
+    it('should skip exception dates and add one-off dates', () => {
+      const occurrences = expandRecurrence(
+        {
+          ...baseRule,
+          daysOfWeek: ['MONDAY'],
+          timeSlots: [{ startTime: '08:00' }, { startTime: '17:00' }],
+          exceptionDates: ['2025-01-13', '2025-01-20T17:00'],
+          additionalDates: [{ date: '2025-01-15', startTime: '10:30', duration: 90 }],
+        },
+        range('2025-01-06', '2025-01-20')
+      );
+
+      expect(occurrences.map(o => `${o.date} ${o.startTime}-${o.endTime}`)).toEqual([
+        '2025-01-06 08:00-09:00',
+        '2025-01-06 17:00-18:00',
+        '2025-01-15 10:30-12:00',
+        '2025-01-20 08:00-09:00',
+      ]);
+    });
+
+    it('should keep local times across a daylight saving change', () => {
+      const occurrences = expandRecurrence(
+        { ...baseRule, frequency: 'DAILY' },
+        range('2025-03-08', '2025-03-10')
+      );
+
+      expect(occurrences.map(o => o.start.toISOString())).toEqual([
+        '2025-03-08T14:00:00.000Z', // EST, UTC-5
+        '2025-03-09T13:00:00.000Z', // EDT, UTC-4
+        '2025-03-10T13:00:00.000Z',
+      ]);
+      expect(occurrences.every(o => o.startTime === '09:00')).toBe(true);
+    });
+
+    it('should measure intervals and COUNT from the anchor date', () => {
+      const occurrences = expandRecurrence(
+        {
+          ...baseRule,
+          frequency: 'CUSTOM',
+          rrule: 'FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH;COUNT=5',
+        },
+        { ...range('2025-01-10', '2025-03-31'), anchor: parseCalendarDate('2025-01-06') }
+      );
+
+      // Anchor week: Jan 6 and 9 (before the range), then Jan 20, 23 and Feb 3
+      expect(occurrences.map(o => o.date)).toEqual(['2025-01-20', '2025-01-23', '2025-02-03']);
+    });
+
+    it('should stop at UNTIL and the effective end date', () => {
+      const occurrences = expandRecurrence(
+        { ...baseRule, frequency: 'CUSTOM', rrule: 'FREQ=DAILY;UNTIL=20250110' },
+        { ...range('2025-01-01', '2025-01-31'), until: parseCalendarDate('2025-01-08') }
+      );
+
+      expect(occurrences).toHaveLength(8);
+      expect(occurrences.at(-1)?.date).toBe('2025-01-08');
+    });
+  });
+
+  describe('zonedTimeToUtc', () => {
+    it('should move times in a spring-forward gap forward', () => {
+      const instant = zonedTimeToUtc(parseCalendarDate('2025-03-09'), 2, 30, 'America/New_York');
+
+      expect(instant.toISOString()).toBe('2025-03-09T07:30:00.000Z'); // 03:30 EDT
+    });
+
+    it('should use the first occurrence of a repeated fall-back time', () => {
+      const instant = zonedTimeToUtc(parseCalendarDate('2025-11-02'), 1, 30, 'America/New_York');
+
+      expect(instant.toISOString()).toBe('2025-11-02T05:30:00.000Z'); // 01:30 EDT
+    });
+  });
+});
@@ -0,0 +1,305 @@
+/**
+ * Authorization forecasting
+ *
+ * Projects how a client's scheduled visits will draw down their service
+ * authorizations, and checks new visits against what will be left.
+ *
+ * A visit draws on an authorization for its service type whose period
+ * covers the visit date, the one ending soonest first, moving on to the
+ * next when it can't cover the visit. Units are counted the way billing
+ * counts them: hours for HOUR, minutes for UNIT and one per visit for the
+ * other unit types. Mileage can't be projected from a schedule, so MILE
+ * authorizations cover visits without drawing on them.
+ *
+ * Service types with no authorization at all (private pay, for example)
+ * are not tracked and are never flagged.
+ */
+
+import {
+  AuthorizationCheckResult,
+  AuthorizationFinding,
+  AuthorizationForecast,
+  AuthorizationForecastConfig,
+  AuthorizationUnitType,
+  AuthorizedVisitDemand,
+  ClientAuthorizationForecast,
+  SchedulingAuthorization,
+} from '../types/schedule';
+
+const UNIT_LABELS: Record<AuthorizationUnitType, string> = {
+  HOUR: 'hours',
+  VISIT: 'visits',
+  DAY: 'days',
+  WEEK: 'weeks',
+  MONTH: 'months',
+  TASK: 'tasks',
+  MILE: 'miles',
+  UNIT: 'units',
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Running balance of one authorization as visits are drawn against it
+ */
+interface Ledger {
+  authorization: SchedulingAuthorization;
+  available: number;
+  visitCount: number;
+  units: number;
+  depletionDate?: Date;
+}
+
+interface Draw {
+  ledger: Ledger;
+  units: number;
+  fits: boolean;
+}
+
+/**
+ * Units a visit will use on an authorization once billed
+ */
+export function visitUnits(unitType: AuthorizationUnitType, durationMinutes: number): number {
+  switch (unitType) {
+    case 'HOUR':
+      return roundUnits(durationMinutes / 60);
+    case 'UNIT':
+      return durationMinutes;
+    case 'MILE':
+      return 0;
+    default:
+      return 1;
+  }
+}
+
+/**
+ * Forecast each current authorization from the visits already scheduled
+ * against it
+ */
+export function forecastAuthorizations(
+  clientId: string,
+  authorizations: SchedulingAuthorization[],
+  scheduledVisits: AuthorizedVisitDemand[],
+  asOf: Date,
+  config: AuthorizationForecastConfig
+): ClientAuthorizationForecast {
+  const ledgers = createLedgers(authorizations);
+  const uncoveredVisits: AuthorizedVisitDemand[] = [];
+
+  for (const visit of sortByDate(scheduledVisits)) {
+    const draw = drawVisit(ledgers, visit);
+    if (draw) {
+      apply(draw, visit);
+    } else if (isTracked(authorizations, visit)) {
+      uncoveredVisits.push(visit);
+    }
+  }
+
+  const today = dateKey(asOf);
+  return {
+    clientId,
+    asOf,
+    authorizations: ledgers
+      .filter(ledger => dateKey(ledger.authorization.effectiveTo) >= today)
+      .map(ledger => toForecast(ledger, today, config)),
+    uncoveredVisits,
+  };
+}
+
+/**
+ * Check visits about to be scheduled, in order, against what the already
+ * scheduled visits leave on the client's authorizations. Each visit that
+ * passes draws its units before the next is checked.
+ */
+export function checkVisitsAgainstAuthorizations(
+  authorizations: SchedulingAuthorization[],
+  scheduledVisits: AuthorizedVisitDemand[],
+  plannedVisits: AuthorizedVisitDemand[],
+  config: AuthorizationForecastConfig
+): AuthorizationCheckResult[] {
+  const ledgers = createLedgers(authorizations);
+  for (const visit of sortByDate(scheduledVisits)) {
+    const draw = drawVisit(ledgers, visit);
+    if (draw) {
+      apply(draw, visit);
+    }
+  }
+
+  return plannedVisits.map(visit => {
+    if (!isTracked(authorizations, visit)) {
+      return { blocked: false, findings: [] };
+    }
+
+    const draw = drawVisit(ledgers, visit);
+    if (!draw) {
+      return blocked(outsidePeriod(authorizations, visit));
+    }
+
+    const { authorization } = draw.ledger;
+    const unitType = authorization.unitType;
+    if (!draw.fits) {
+      const left = Math.max(draw.ledger.available, 0);
+      return blocked({
+        code: 'EXCEEDS_REMAINING_UNITS',
+        severity: 'BLOCK',
+        message: `Visit on ${dateKey(visit.scheduledDate)} needs ${formatUnits(draw.units, unitType)} but authorization ${authorization.authorizationNumber} has ${formatUnits(left, unitType)} left after scheduled visits`,
+        scheduledDate: visit.scheduledDate,
+        authorizationId: authorization.id,
+        authorizationNumber: authorization.authorizationNumber,
+        projectedRemainingUnits: roundUnits(draw.ledger.available - draw.units),
+      });
+    }
+
+    apply(draw, visit);
+    // A visit that draws nothing can't be what runs the authorization low
+    if (draw.units === 0 || draw.ledger.available > lowUnitsThreshold(authorization, config)) {
+      return { blocked: false, findings: [] };
+    }
+    return {
+      blocked: false,
+      findings: [
+        {
+          code: 'LOW_UNITS',
+          severity: 'WARNING',
+          message: `Authorization ${authorization.authorizationNumber} will have ${formatUnits(draw.ledger.available, unitType)} left after the visit on ${dateKey(visit.scheduledDate)}`,
+          scheduledDate: visit.scheduledDate,
+          authorizationId: authorization.id,
+          authorizationNumber: authorization.authorizationNumber,
+          projectedRemainingUnits: draw.ledger.available,
+        },
+      ],
+    };
+  });
+}
+
+export function lowUnitsThreshold(
+  authorization: SchedulingAuthorization,
+  config: AuthorizationForecastConfig
+): number {
+  return authorization.lowUnitsThreshold
+    ?? roundUnits(authorization.authorizedUnits * config.defaultLowUnitsPercent / 100);
+}
+
+export function formatUnits(units: number, unitType: AuthorizationUnitType): string {
+  return `${roundUnits(units)} ${UNIT_LABELS[unitType]}`;
+}
+
+/**
+ * Calendar date of a scheduled date, as YYYY-MM-DD. Scheduled dates and
+ * authorization periods are local midnight, as read from DATE columns.
+ */
+export function dateKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function createLedgers(authorizations: SchedulingAuthorization[]): Ledger[] {
+  return authorizations
+    .filter(authorization => authorization.status !== 'EXPIRED')
+    .sort((a, b) =>
+      dateKey(a.effectiveTo).localeCompare(dateKey(b.effectiveTo)) || a.id.localeCompare(b.id)
+    )
+    .map(authorization => ({
+      authorization,
+      available: authorization.remainingUnits,
+      visitCount: 0,
+      units: 0,
+    }));
+}
+
+/**
+ * Pick the authorization a visit draws on: the first covering it that has
+ * enough units left, otherwise the first covering it at all
+ */
+function drawVisit(ledgers: Ledger[], visit: AuthorizedVisitDemand): Draw | null {
+  const date = dateKey(visit.scheduledDate);
+  const covering = ledgers.filter(({ authorization }) =>
+    authorization.serviceTypeId === visit.serviceTypeId
+      && dateKey(authorization.effectiveFrom) <= date
+      && dateKey(authorization.effectiveTo) >= date
+  );
+
+  let first: Draw | null = null;
+  for (const ledger of covering) {
+    const units = visitUnits(ledger.authorization.unitType, visit.durationMinutes);
+    const draw = { ledger, units, fits: units <= ledger.available };
+    if (draw.fits) {
+      return draw;
+    }
+    first ??= draw;
+  }
+  return first;
+}
+
+function apply(draw: Draw, visit: AuthorizedVisitDemand): void {
+  const { ledger, units, fits } = draw;
+  if (!fits && ledger.depletionDate === undefined) {
+    ledger.depletionDate = visit.scheduledDate;
+  }
+  ledger.available = roundUnits(ledger.available - units);
+  ledger.units = roundUnits(ledger.units + units);
+  ledger.visitCount++;
+}
+
+function toForecast(
+  ledger: Ledger,
+  today: string,
+  config: AuthorizationForecastConfig
+): AuthorizationForecast {
+  const { authorization } = ledger;
+  const threshold = lowUnitsThreshold(authorization, config);
+  const warningDays = authorization.expirationWarningDays ?? config.defaultExpirationWarningDays;
+  const daysUntilExpiration = daysBetween(today, dateKey(authorization.effectiveTo));
+
+  return {
+    authorization,
+    scheduledVisitCount: ledger.visitCount,
+    scheduledUnits: ledger.units,
+    projectedRemainingUnits: ledger.available,
+    ...(ledger.depletionDate !== undefined && { projectedDepletionDate: ledger.depletionDate }),
+    daysUntilExpiration,
+    lowUnitsThreshold: threshold,
+    expirationWarningDays: warningDays,
+    lowUnits: ledger.available <= threshold,
+    expiringSoon: daysUntilExpiration <= warningDays,
+    overScheduled: ledger.available < 0,
+  };
+}
+
+function outsidePeriod(
+  authorizations: SchedulingAuthorization[],
+  visit: AuthorizedVisitDemand
+): AuthorizationFinding {
+  const forService = authorizations.filter(a => a.serviceTypeId === visit.serviceTypeId);
+  const periods = forService
+    .map(a => `${a.authorizationNumber} ${dateKey(a.effectiveFrom)} to ${dateKey(a.effectiveTo)}${a.status === 'EXPIRED' ? ' (expired)' : ''}`)
+    .join(', ');
+
+  return {
+    code: 'OUTSIDE_AUTHORIZATION_PERIOD',
+    severity: 'BLOCK',
+    message: `No authorization for ${forService[0]?.serviceTypeName ?? visit.serviceTypeId} covers ${dateKey(visit.scheduledDate)} (${periods})`,
+    scheduledDate: visit.scheduledDate,
+  };
+}
+
+function blocked(finding: AuthorizationFinding): AuthorizationCheckResult {
+  return { blocked: true, findings: [finding] };
+}
+
+function isTracked(authorizations: SchedulingAuthorization[], visit: AuthorizedVisitDemand): boolean {
+  return authorizations.some(a => a.serviceTypeId === visit.serviceTypeId);
+}
+
+function sortByDate(visits: AuthorizedVisitDemand[]): AuthorizedVisitDemand[] {
+  return [...visits].sort((a, b) => a.scheduledDate.getTime() - b.scheduledDate.getTime());
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(to) - Date.parse(from)) / DAY_MS);
+}
+
+function roundUnits(units: number): number {
+  return Math.round(units * 100) / 100;
+}
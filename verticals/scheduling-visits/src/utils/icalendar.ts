@@ -0,0 +1,706 @@
+/**
+ * iCalendar (RFC 5545) import and export for service patterns
+ *
+ * Each time slot of a pattern is written as its own VEVENT carrying the
+ * pattern's RRULE, EXDATE and RDATE, so split shifts show up as separate
+ * entries in calendar clients. On import, events that share a timezone,
+ * rule and start date are folded back into one pattern with several slots.
+ *
+ * Times are written with TZID parameters that name IANA zones. No
+ * VTIMEZONE blocks are emitted; mainstream clients resolve IANA names
+ * directly.
+ */
+
+import { ValidationError } from '@care-commons/core';
+import {
+  DayOfWeek,
+  Frequency,
+  ImportedServicePattern,
+  RecurrenceDate,
+  RecurrenceRule,
+  RecurrenceTimeSlot,
+  ServicePattern,
+} from '../types/schedule';
+import {
+  CalendarDate,
+  ParsedRRule,
+  ResolvedTimeSlot,
+  addDays,
+  compareDates,
+  expandRuleDates,
+  formatCalendarDate,
+  formatICalendarDate,
+  formatRRule,
+  getZonedDateTime,
+  isValidTimeZone,
+  minutesToTime,
+  parseCalendarDate,
+  parseICalendarDate,
+  parseRRule,
+  resolveTimeSlots,
+  timeToMinutes,
+  toCalendarDate,
+  toRRule,
+  weekdayOf,
+  zonedTimeToUtc,
+} from './recurrence';
+
+export interface ICalendarExportOptions {
+  calendarName?: string;
+  /** DTSTAMP for the generated events. Defaults to the current time. */
+  generatedAt?: Date;
+}
+
+export interface ICalendarImportOptions {
+  /**
+   * Zone for floating and UTC times. Defaults to X-WR-TIMEZONE or the
+   * first TZID in the file.
+   */
+  timezone?: string;
+}
+
+interface ContentLine {
+  name: string;
+  params: Map<string, string>;
+  value: string;
+}
+
+interface LocalDateTime {
+  date: CalendarDate;
+  time?: string; // HH:MM, absent for DATE values
+}
+
+interface ParsedEvent {
+  uid?: string;
+  summary?: string;
+  description?: string;
+  slotLabel?: string;
+  timezone: string;
+  start: LocalDateTime & { time: string };
+  duration: number;
+  rrule?: ParsedRRule;
+  until?: CalendarDate;
+  exceptionDates: LocalDateTime[];
+  additionalDates: RecurrenceDate[];
+}
+
+const PRODUCT_ID = '-//Care Commons//Scheduling//EN';
+const UID_DOMAIN = 'care-commons';
+const SLOT_LABEL_PROPERTY = 'X-CARE-COMMONS-SLOT';
+const MAX_LINE_OCTETS = 75;
+
+const DAYS_OF_WEEK: DayOfWeek[] = [
+  'SUNDAY',
+  'MONDAY',
+  'TUESDAY',
+  'WEDNESDAY',
+  'THURSDAY',
+  'FRIDAY',
+  'SATURDAY',
+];
+
+/**
+ * Export
+ */
+
+/**
+ * Serialize service patterns as a VCALENDAR document
+ */
+export function exportServicePatternsToICalendar(
+  patterns: ServicePattern[],
+  options: ICalendarExportOptions = {}
+): string {
+  const stamp = formatUtcDateTime(options.generatedAt ?? new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+  ];
+  if (options.calendarName !== undefined) {
+    lines.push(`X-WR-CALNAME:${escapeText(options.calendarName)}`);
+  }
+
+  for (const pattern of patterns) {
+    lines.push(...exportPattern(pattern, stamp));
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+function exportPattern(pattern: ServicePattern, stamp: string): string[] {
+  const { recurrence } = pattern;
+  const timezone = recurrence.timezone;
+  const rule = toRRule(recurrence);
+  const anchor = toCalendarDate(pattern.effectiveFrom);
+  const until = exportUntil(rule, anchor, pattern.effectiveTo, timezone);
+  const firstDate = firstRuleDate(rule, anchor);
+  const slots = resolveTimeSlots(recurrence, pattern.duration);
+  const exceptions = recurrence.exceptionDates ?? [];
+  const rrule = until !== undefined ? `${formatRRule(rule)};UNTIL=${until}` : formatRRule(rule);
+
+  return slots.flatMap((slot, index) => {
+    const lines = [
+      'BEGIN:VEVENT',
+      `UID:${pattern.id}-${index}@${UID_DOMAIN}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;TZID=${timezone}:${formatLocalDateTime(firstDate, slot.startTime)}`,
+      `DURATION:${formatDuration(slot.duration)}`,
+      `RRULE:${rrule}`,
+      `SUMMARY:${escapeText(pattern.name)}`,
+    ];
+    if (pattern.description !== undefined && pattern.description !== '') {
+      lines.push(`DESCRIPTION:${escapeText(pattern.description)}`);
+    }
+    if (slot.label !== undefined) {
+      lines.push(`${SLOT_LABEL_PROPERTY}:${escapeText(slot.label)}`);
+    }
+
+    const exdates = exceptions
+      .filter(value => value.length === 10 || value.slice(11) === slot.startTime)
+      .map(value => formatLocalDateTime(parseCalendarDate(value.slice(0, 10)), slot.startTime));
+    if (exdates.length > 0) {
+      lines.push(`EXDATE;TZID=${timezone}:${exdates.join(',')}`);
+    }
+
+    const rdates = (recurrence.additionalDates ?? [])
+      .filter(extra => additionalDateSlot(extra, slots) === index)
+      .map(extra => {
+        const startTime = extra.startTime ?? slot.startTime;
+        const start = formatLocalDateTime(parseCalendarDate(extra.date), startTime);
+        return `${start}/${formatDuration(extra.duration ?? slot.duration)}`;
+      });
+    if (rdates.length > 0) {
+      lines.push(`RDATE;TZID=${timezone};VALUE=PERIOD:${rdates.join(',')}`);
+    }
+
+    lines.push('END:VEVENT');
+    return lines;
+  });
+}
+
+/**
+ * UNTIL for an exported rule, as a UTC date-time as RFC 5545 requires when
+ * DTSTART has a TZID. The rule's own UNTIL and the pattern's effectiveTo
+ * are merged; COUNT is kept instead when it ends the series first.
+ */
+function exportUntil(
+  rule: ParsedRRule,
+  anchor: CalendarDate,
+  effectiveTo: Date | undefined,
+  timezone: string
+): string | undefined {
+  let last = rule.until;
+  if (effectiveTo != null) {
+    const effectiveEnd = toCalendarDate(effectiveTo);
+    if (last === undefined || compareDates(effectiveEnd, last) < 0) {
+      last = effectiveEnd;
+    }
+  }
+  delete rule.until;
+
+  if (last === undefined) {
+    return undefined;
+  }
+  if (rule.count !== undefined) {
+    if (expandRuleDates(rule, anchor, last).length >= rule.count) {
+      return undefined;
+    }
+    delete rule.count;
+  }
+  return formatUtcDateTime(zonedTimeToUtc(last, 23, 59, timezone));
+}
+
+/**
+ * First date the rule produces, used as DTSTART so the event's first
+ * instance is a real visit
+ */
+function firstRuleDate(rule: ParsedRRule, anchor: CalendarDate): CalendarDate {
+  const horizon = addDays(anchor, 366 * rule.interval);
+  return expandRuleDates({ ...rule, count: 1 }, anchor, horizon)[0] ?? anchor;
+}
+
+function additionalDateSlot(extra: RecurrenceDate, slots: ResolvedTimeSlot[]): number {
+  const index = slots.findIndex(slot => slot.startTime === extra.startTime);
+  return index === -1 ? 0 : index;
+}
+
+/**
+ * Import
+ */
+
+/**
+ * Parse VEVENTs from a VCALENDAR document into service pattern drafts
+ */
+export function parseICalendar(
+  ics: string,
+  options: ICalendarImportOptions = {}
+): ImportedServicePattern[] {
+  const lines = unfoldLines(ics).map(parseContentLine);
+  const defaultTimezone = resolveDefaultTimezone(lines, options.timezone);
+
+  const events: ParsedEvent[] = [];
+  let current: ContentLine[] | null = null;
+  for (const line of lines) {
+    if (line.name === 'BEGIN' && line.value.toUpperCase() === 'VEVENT') {
+      current = [];
+    } else if (line.name === 'END' && line.value.toUpperCase() === 'VEVENT' && current !== null) {
+      events.push(parseEvent(current, defaultTimezone));
+      current = null;
+    } else if (current !== null) {
+      current.push(line);
+    }
+  }
+
+  if (events.length === 0) {
+    throw new ValidationError('Calendar contains no events');
+  }
+
+  return groupEvents(events).map(toImportedPattern);
+}
+
+function resolveDefaultTimezone(lines: ContentLine[], override: string | undefined): string {
+  const candidate = override ??
+    lines.find(line => line.name === 'X-WR-TIMEZONE')?.value ??
+    lines.find(line => line.params.has('TZID'))?.params.get('TZID');
+
+  if (candidate === undefined) {
+    throw new ValidationError('Calendar has no timezone; provide one for floating times');
+  }
+  return requireTimeZone(candidate);
+}
+
+function parseEvent(lines: ContentLine[], defaultTimezone: string): ParsedEvent {
+  const property = (name: string): ContentLine | undefined =>
+    lines.find(line => line.name === name);
+
+  const uid = property('UID')?.value;
+  const dtstart = property('DTSTART');
+  if (dtstart === undefined) {
+    throw new ValidationError('Event is missing DTSTART', { uid });
+  }
+
+  const timezone = requireTimeZone(dtstart.params.get('TZID') ?? defaultTimezone);
+  const start = toLocal(dtstart.value, dtstart.params, timezone);
+  if (start.time === undefined) {
+    throw new ValidationError('All-day events cannot be imported as visits', { uid });
+  }
+  const startTime = start.time;
+
+  const event: ParsedEvent = {
+    timezone,
+    start: { date: start.date, time: startTime },
+    duration: eventDuration(property('DTEND'), property('DURATION'), start, timezone, uid),
+    exceptionDates: lines
+      .filter(line => line.name === 'EXDATE')
+      .flatMap(line => splitValues(line).map(value => toLocal(value, line.params, timezone))),
+    additionalDates: lines
+      .filter(line => line.name === 'RDATE')
+      .flatMap(line => splitValues(line).map(value => toAdditionalDate(value, line.params, timezone))),
+  };
+
+  if (uid !== undefined) event.uid = uid;
+  const summary = property('SUMMARY')?.value;
+  const description = property('DESCRIPTION')?.value;
+  const slotLabel = property(SLOT_LABEL_PROPERTY)?.value;
+  if (summary !== undefined) event.summary = unescapeText(summary);
+  if (description !== undefined) event.description = unescapeText(description);
+  if (slotLabel !== undefined) event.slotLabel = unescapeText(slotLabel);
+
+  const rrule = property('RRULE');
+  if (rrule !== undefined) {
+    const untilMatch = /UNTIL=([^;]+)/i.exec(rrule.value);
+    event.rrule = parseRRule(rrule.value.replace(/;?UNTIL=[^;]+/i, ''));
+    if (untilMatch?.[1] !== undefined) {
+      event.until = toLocal(untilMatch[1], new Map(), timezone).date;
+    }
+  }
+
+  return event;
+}
+
+function eventDuration(
+  dtend: ContentLine | undefined,
+  duration: ContentLine | undefined,
+  start: LocalDateTime,
+  timezone: string,
+  uid: string | undefined
+): number {
+  let minutes: number;
+  if (duration !== undefined) {
+    minutes = parseDuration(duration.value);
+  } else if (dtend !== undefined) {
+    const end = toLocal(dtend.value, dtend.params, timezone);
+    const days = Math.round(
+      (Date.UTC(end.date.year, end.date.month - 1, end.date.day) -
+        Date.UTC(start.date.year, start.date.month - 1, start.date.day)) / 86400000
+    );
+    minutes = days * 1440 + timeToMinutes(end.time ?? '00:00') - timeToMinutes(start.time ?? '00:00');
+  } else {
+    throw new ValidationError('Event needs DTEND or DURATION', { uid });
+  }
+
+  if (minutes <= 0) {
+    throw new ValidationError('Event must end after it starts', { uid });
+  }
+  return minutes;
+}
+
+/**
+ * Events that repeat together (same zone, rule, first date and end) are
+ * slots of one pattern. Events without a rule are one-time visits.
+ */
+function groupEvents(events: ParsedEvent[]): ParsedEvent[][] {
+  const groups = new Map<string, ParsedEvent[]>();
+  events.forEach((event, index) => {
+    const key = event.rrule === undefined
+      ? `single:${index}`
+      : [
+        event.timezone,
+        formatRRule(event.rrule),
+        formatCalendarDate(event.start.date),
+        event.until !== undefined ? formatCalendarDate(event.until) : '',
+      ].join('|');
+    groups.set(key, [...(groups.get(key) ?? []), event]);
+  });
+  return [...groups.values()].map(group =>
+    [...group].sort((a, b) => timeToMinutes(a.start.time) - timeToMinutes(b.start.time))
+  );
+}
+
+function toImportedPattern(group: ParsedEvent[]): ImportedServicePattern {
+  const [first] = group as [ParsedEvent, ...ParsedEvent[]];
+  const rule: ParsedRRule = first.rrule ?? { freq: 'DAILY', interval: 1, count: 1, weekStart: 1 };
+
+  const recurrence: RecurrenceRule = {
+    ...structuredRecurrence(rule, first.start.date),
+    startTime: first.start.time,
+    timezone: first.timezone,
+  };
+
+  if (group.length > 1 || first.slotLabel !== undefined) {
+    recurrence.timeSlots = group.map(event => toTimeSlot(event, first.duration));
+  }
+
+  const exceptionDates = collectExceptionDates(group);
+  if (exceptionDates.length > 0) {
+    recurrence.exceptionDates = exceptionDates;
+  }
+
+  const additionalDates = collectAdditionalDates(group, rule);
+  if (additionalDates.length > 0) {
+    recurrence.additionalDates = additionalDates;
+  }
+
+  const pattern: ImportedServicePattern = {
+    name: first.summary ?? 'Imported pattern',
+    patternType: first.rrule === undefined ? 'ONE_TIME' : 'RECURRING',
+    recurrence,
+    duration: first.duration,
+    effectiveFrom: toDate(first.start.date),
+  };
+  if (first.description !== undefined) pattern.description = first.description;
+  if (first.until !== undefined) pattern.effectiveTo = toDate(first.until);
+  return pattern;
+}
+
+/**
+ * Structured fields for a rule, falling back to CUSTOM with the RRULE
+ * when the structured fields cannot express it
+ */
+function structuredRecurrence(
+  rule: ParsedRRule,
+  anchor: CalendarDate
+): Pick<RecurrenceRule, 'frequency' | 'interval' | 'daysOfWeek' | 'datesOfMonth' | 'weekdayOccurrences' | 'rrule'> {
+  const plain = rule.count === undefined && rule.byMonth === undefined && rule.weekStart === 1;
+  const custom = { frequency: 'CUSTOM' as Frequency, interval: rule.interval, rrule: formatRRule(rule) };
+
+  if (!plain) {
+    return custom;
+  }
+
+  switch (rule.freq) {
+    case 'DAILY':
+      return rule.byDay === undefined && rule.byMonthDay === undefined
+        ? { frequency: 'DAILY', interval: rule.interval }
+        : custom;
+    case 'WEEKLY':
+      if (rule.byMonthDay !== undefined || rule.byDay?.some(d => d.ordinal !== undefined) === true) {
+        return custom;
+      }
+      return {
+        frequency: 'WEEKLY',
+        interval: rule.interval,
+        daysOfWeek: (rule.byDay ?? [{ weekday: weekdayOf(anchor) }]).map(d => DAYS_OF_WEEK[d.weekday] as DayOfWeek),
+      };
+    case 'MONTHLY':
+      return structuredMonthly(rule, anchor) ?? custom;
+    case 'YEARLY':
+      return custom;
+  }
+}
+
+function structuredMonthly(
+  rule: ParsedRRule,
+  anchor: CalendarDate
+): Pick<RecurrenceRule, 'frequency' | 'interval' | 'datesOfMonth' | 'weekdayOccurrences'> | null {
+  const monthDays = rule.byMonthDay;
+  const byDay = rule.byDay;
+
+  if (monthDays !== undefined && (byDay !== undefined || monthDays.some(day => day < 0))) {
+    return null;
+  }
+  if (byDay?.some(d => d.ordinal === undefined) === true) {
+    return null;
+  }
+  if (byDay !== undefined) {
+    return {
+      frequency: 'MONTHLY',
+      interval: rule.interval,
+      weekdayOccurrences: byDay.map(d => ({
+        dayOfWeek: DAYS_OF_WEEK[d.weekday] as DayOfWeek,
+        occurrence: d.ordinal ?? 1,
+      })),
+    };
+  }
+  return { frequency: 'MONTHLY', interval: rule.interval, datesOfMonth: monthDays ?? [anchor.day] };
+}
+
+function toTimeSlot(event: ParsedEvent, patternDuration: number): RecurrenceTimeSlot {
+  return {
+    startTime: event.start.time,
+    ...(event.duration !== patternDuration && { duration: event.duration }),
+    ...(event.slotLabel !== undefined && { label: event.slotLabel }),
+  };
+}
+
+/**
+ * EXDATEs excluded from every slot collapse to whole days
+ */
+function collectExceptionDates(group: ParsedEvent[]): string[] {
+  const perSlot = group.map(event =>
+    new Set(event.exceptionDates.map(exdate => formatCalendarDate(exdate.date)))
+  );
+  const days = new Set(perSlot.flatMap(dates => [...dates]));
+
+  const result: string[] = [];
+  for (const day of [...days].sort((a, b) => a.localeCompare(b))) {
+    if (perSlot.every(dates => dates.has(day))) {
+      result.push(day);
+      continue;
+    }
+    group.forEach((event, index) => {
+      if (perSlot[index]?.has(day) === true) {
+        result.push(`${day}T${event.start.time}`);
+      }
+    });
+  }
+  return result;
+}
+
+/**
+ * RDATEs, plus a DTSTART the rule itself does not produce (RFC 5545 always
+ * counts DTSTART as the first instance)
+ */
+function collectAdditionalDates(group: ParsedEvent[], rule: ParsedRRule): RecurrenceDate[] {
+  const startIsInstance = expandRuleDates(
+    { ...rule, count: 1 },
+    group[0]?.start.date ?? { year: 1970, month: 1, day: 1 },
+    group[0]?.start.date ?? { year: 1970, month: 1, day: 1 }
+  ).length > 0;
+
+  const dates: RecurrenceDate[] = group.flatMap(event => [
+    ...(startIsInstance ? [] : [toRecurrenceDate(event.start, event.duration)]),
+    ...event.additionalDates,
+  ]);
+
+  const seen = new Set<string>();
+  return dates.filter(date => {
+    const key = `${date.date}T${date.startTime ?? ''}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+function toAdditionalDate(
+  value: string,
+  params: Map<string, string>,
+  timezone: string
+): RecurrenceDate {
+  const [startValue = '', period] = value.split('/');
+  const start = toLocal(startValue, params, timezone);
+  if (period === undefined) {
+    return { date: formatCalendarDate(start.date), ...(start.time !== undefined && { startTime: start.time }) };
+  }
+
+  const duration = period.startsWith('P')
+    ? parseDuration(period)
+    : minutesBetween(start, toLocal(period, params, timezone));
+  return toRecurrenceDate(start, duration);
+}
+
+function toRecurrenceDate(start: LocalDateTime, duration: number): RecurrenceDate {
+  return {
+    date: formatCalendarDate(start.date),
+    ...(start.time !== undefined && { startTime: start.time }),
+    duration,
+  };
+}
+
+function minutesBetween(start: LocalDateTime, end: LocalDateTime): number {
+  const toMinutes = (value: LocalDateTime): number =>
+    Date.UTC(value.date.year, value.date.month - 1, value.date.day) / 60000 +
+    timeToMinutes(value.time ?? '00:00');
+  return toMinutes(end) - toMinutes(start);
+}
+
+/**
+ * Content lines
+ */
+
+function unfoldLines(ics: string): string[] {
+  return ics
+    .replace(/\r\n[ \t]/g, '')
+    .replace(/\n[ \t]/g, '')
+    .split(/\r?\n/)
+    .filter(line => line.trim() !== '');
+}
+
+function parseContentLine(line: string): ContentLine {
+  let inQuotes = false;
+  let separator = -1;
+  for (let i = 0; i < line.length; i++) {
+    const char = line.charAt(i);
+    if (char === '"') inQuotes = !inQuotes;
+    if (char === ':' && !inQuotes) {
+      separator = i;
+      break;
+    }
+  }
+  if (separator === -1) {
+    throw new ValidationError(`Malformed iCalendar line: ${line}`);
+  }
+
+  const [name = '', ...rawParams] = line.slice(0, separator).split(';');
+  const params = new Map<string, string>();
+  for (const param of rawParams) {
+    const [key = '', ...rest] = param.split('=');
+    params.set(key.toUpperCase(), rest.join('=').replace(/(^")|("$)/g, ''));
+  }
+
+  return { name: name.toUpperCase(), params, value: line.slice(separator + 1) };
+}
+
+function splitValues(line: ContentLine): string[] {
+  return line.value.split(',').map(value => value.trim()).filter(value => value !== '');
+}
+
+function foldLine(line: string): string {
+  const chunks: string[] = [];
+  let chunk = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    // Continuation lines start with a space, which counts toward the limit
+    const limit = chunks.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      chunks.push(chunk);
+      chunk = '';
+      octets = 0;
+    }
+    chunk += char;
+    octets += size;
+  }
+  chunks.push(chunk);
+  return chunks.join('\r\n ');
+}
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_match, char: string) =>
+    char.toLowerCase() === 'n' ? '\n' : char
+  );
+}
+
+/**
+ * Dates, times and durations
+ */
+
+/**
+ * Local date and time in the pattern timezone of a DATE or DATE-TIME value.
+ * UTC values are converted; TZID and floating values are taken as written.
+ */
+function toLocal(value: string, params: Map<string, string>, timezone: string): LocalDateTime {
+  const match = /^(\d{8})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(value.trim());
+  if (match === null) {
+    throw new ValidationError(`Invalid iCalendar date-time: ${value}`);
+  }
+
+  const date = parseICalendarDate(match[1] ?? '');
+  if (match[2] === undefined || params.get('VALUE') === 'DATE') {
+    return { date };
+  }
+
+  const hour = Number(match[2]);
+  const minute = Number(match[3]);
+  if (match[5] === undefined) {
+    return { date, time: `${match[2]}:${match[3]}` };
+  }
+
+  const local = getZonedDateTime(
+    new Date(Date.UTC(date.year, date.month - 1, date.day, hour, minute)),
+    timezone
+  );
+  return {
+    date: { year: local.year, month: local.month, day: local.day },
+    time: minutesToTime(local.hour * 60 + local.minute),
+  };
+}
+
+function formatLocalDateTime(date: CalendarDate, time: string): string {
+  return `${formatICalendarDate(date)}T${time.replace(':', '')}00`;
+}
+
+function formatUtcDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function formatDuration(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  const hourPart = hours > 0 ? `${hours}H` : '';
+  const minutePart = rest > 0 || hours === 0 ? `${rest}M` : '';
+  return `PT${hourPart}${minutePart}`;
+}
+
+function parseDuration(value: string): number {
+  const match = /^\+?P(?:(\d+)W)?(?:(\d+)D)?(?:T(\w+))?$/.exec(value.trim());
+  const time = match?.[3] !== undefined ? /^(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?$/.exec(match[3]) : null;
+  if (match === null || (match[3] !== undefined && time === null) || value.trim().endsWith('P')) {
+    throw new ValidationError(`Invalid iCalendar duration: ${value}`);
+  }
+
+  const part = (parts: RegExpExecArray | null, index: number): number => Number(parts?.[index] ?? 0);
+  return part(match, 1) * 10080 + part(match, 2) * 1440 +
+    part(time, 1) * 60 + part(time, 2) + Math.floor(part(time, 3) / 60);
+}
+
+function requireTimeZone(timezone: string): string {
+  if (!isValidTimeZone(timezone)) {
+    throw new ValidationError(`Unknown timezone: ${timezone}`, { timezone });
+  }
+  return timezone;
+}
+
+function toDate(date: CalendarDate): Date {
+  return new Date(`${formatCalendarDate(date)}T00:00:00.000Z`);
+}
@@ -0,0 +1,599 @@
+/**
+ * Recurrence expansion for service patterns
+ *
+ * Implements the part of RFC 5545 recurrence that home care schedules use:
+ * RRULE with FREQ=DAILY/WEEKLY/MONTHLY/YEARLY, INTERVAL, COUNT, UNTIL,
+ * BYDAY (with ordinals such as 2TU or -1FR), BYMONTHDAY, BYMONTH and WKST,
+ * together with EXDATE and RDATE. Days are walked on the local calendar of
+ * the pattern's IANA timezone and each visit is converted to a UTC instant
+ * with Intl, so a 09:00 visit stays at 09:00 across daylight saving changes.
+ *
+ * COUNT counts visit days: a pattern with two time slots and COUNT=5
+ * produces ten visits.
+ */
+
+import { ValidationError } from '@care-commons/core';
+import {
+  DayOfWeek,
+  RecurrenceOccurrence,
+  RecurrenceRule,
+  RecurrenceTimeSlot,
+} from '../types/schedule';
+
+export interface CalendarDate {
+  year: number;
+  month: number; // 1-12
+  day: number;
+}
+
+export type RRuleFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+export interface RRuleWeekday {
+  weekday: number; // 0 (Sunday) - 6
+  ordinal?: number; // 1-5 or -1 to -5 within the month
+}
+
+export interface ParsedRRule {
+  freq: RRuleFrequency;
+  interval: number;
+  count?: number;
+  until?: CalendarDate;
+  byDay?: RRuleWeekday[];
+  byMonthDay?: number[];
+  byMonth?: number[];
+  weekStart: number; // 0 (Sunday) - 6, RFC 5545 default is Monday
+}
+
+export interface ExpansionOptions {
+  /** First local date of the requested range */
+  from: CalendarDate;
+  /** Last local date of the requested range (inclusive) */
+  to: CalendarDate;
+  /** DTSTART date: intervals and COUNT are measured from here. Defaults to from. */
+  anchor?: CalendarDate;
+  /** Last date the pattern is effective (inclusive) */
+  until?: CalendarDate;
+  /** Default visit length in minutes */
+  duration: number;
+}
+
+export interface ResolvedTimeSlot {
+  startTime: string;
+  duration: number;
+  label?: string;
+}
+
+const RRULE_WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+const DAYS_OF_WEEK: DayOfWeek[] = [
+  'SUNDAY',
+  'MONDAY',
+  'TUESDAY',
+  'WEDNESDAY',
+  'THURSDAY',
+  'FRIDAY',
+  'SATURDAY',
+];
+
+const RRULE_FREQUENCIES: RRuleFrequency[] = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+
+const SUPPORTED_PARTS = new Set([
+  'FREQ', 'INTERVAL', 'COUNT', 'UNTIL', 'BYDAY', 'BYMONTHDAY', 'BYMONTH', 'WKST',
+]);
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * RRULE parsing and formatting
+ */
+
+/**
+ * Parse an RFC 5545 RRULE value (with or without the "RRULE:" prefix)
+ */
+export function parseRRule(value: string): ParsedRRule {
+  const parts = new Map<string, string>();
+  for (const part of value.trim().replace(/^RRULE:/i, '').split(';')) {
+    if (part === '') continue;
+    const [key, partValue] = part.split('=');
+    if (key === undefined || partValue === undefined || partValue === '') {
+      throw new ValidationError(`Malformed RRULE part: ${part}`, { rrule: value });
+    }
+    const name = key.toUpperCase();
+    if (!SUPPORTED_PARTS.has(name)) {
+      throw new ValidationError(`Unsupported RRULE part: ${name}`, { rrule: value });
+    }
+    parts.set(name, partValue.toUpperCase());
+  }
+
+  const freq = parts.get('FREQ') as RRuleFrequency | undefined;
+  if (freq === undefined || !RRULE_FREQUENCIES.includes(freq)) {
+    throw new ValidationError('RRULE FREQ must be DAILY, WEEKLY, MONTHLY or YEARLY', { rrule: value });
+  }
+  if (parts.has('COUNT') && parts.has('UNTIL')) {
+    throw new ValidationError('RRULE cannot have both COUNT and UNTIL', { rrule: value });
+  }
+
+  const rule: ParsedRRule = {
+    freq,
+    interval: parseRRuleInteger(parts.get('INTERVAL') ?? '1', 1, 999, value),
+    weekStart: parseWeekday(parts.get('WKST') ?? 'MO', value),
+  };
+
+  const count = parts.get('COUNT');
+  const until = parts.get('UNTIL');
+  const byDay = parts.get('BYDAY');
+  const byMonthDay = parts.get('BYMONTHDAY');
+  const byMonth = parts.get('BYMONTH');
+
+  if (count !== undefined) rule.count = parseRRuleInteger(count, 1, 10000, value);
+  if (until !== undefined) rule.until = parseICalendarDate(until.slice(0, 8), value);
+  if (byDay !== undefined) rule.byDay = byDay.split(',').map(day => parseByDay(day, value));
+  if (byMonthDay !== undefined) {
+    rule.byMonthDay = byMonthDay.split(',').map(day => parseRRuleInteger(day, -31, 31, value, true));
+  }
+  if (byMonth !== undefined) {
+    rule.byMonth = byMonth.split(',').map(month => parseRRuleInteger(month, 1, 12, value));
+  }
+
+  return rule;
+}
+
+/**
+ * Format a parsed rule back into an RRULE value (without the prefix)
+ */
+export function formatRRule(rule: ParsedRRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval !== 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.count !== undefined) parts.push(`COUNT=${rule.count}`);
+  if (rule.until !== undefined) parts.push(`UNTIL=${formatICalendarDate(rule.until)}`);
+  if (rule.byDay !== undefined && rule.byDay.length > 0) {
+    parts.push(`BYDAY=${rule.byDay.map(formatByDay).join(',')}`);
+  }
+  if (rule.byMonthDay !== undefined && rule.byMonthDay.length > 0) {
+    parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+  }
+  if (rule.byMonth !== undefined && rule.byMonth.length > 0) {
+    parts.push(`BYMONTH=${rule.byMonth.join(',')}`);
+  }
+  if (rule.weekStart !== 1) parts.push(`WKST=${RRULE_WEEKDAYS[rule.weekStart]}`);
+  return parts.join(';');
+}
+
+/**
+ * The RRULE a pattern's recurrence stands for. An explicit rrule wins;
+ * otherwise the structured fields are translated.
+ */
+export function toRRule(recurrence: RecurrenceRule): ParsedRRule {
+  if (recurrence.rrule !== undefined && recurrence.rrule !== '') {
+    return parseRRule(recurrence.rrule);
+  }
+
+  const interval = recurrence.interval;
+  const byDay = recurrence.daysOfWeek?.map(day => ({ weekday: DAYS_OF_WEEK.indexOf(day) }));
+
+  switch (recurrence.frequency) {
+    case 'DAILY':
+      return { freq: 'DAILY', interval, weekStart: 1 };
+    case 'WEEKLY':
+      return { freq: 'WEEKLY', interval, weekStart: 1, ...(byDay !== undefined && { byDay }) };
+    case 'BIWEEKLY':
+      return { freq: 'WEEKLY', interval: interval * 2, weekStart: 1, ...(byDay !== undefined && { byDay }) };
+    case 'MONTHLY':
+      return {
+        freq: 'MONTHLY',
+        interval,
+        weekStart: 1,
+        ...(recurrence.datesOfMonth !== undefined && { byMonthDay: recurrence.datesOfMonth }),
+        ...(recurrence.weekdayOccurrences !== undefined && {
+          byDay: recurrence.weekdayOccurrences.map(o => ({
+            weekday: DAYS_OF_WEEK.indexOf(o.dayOfWeek),
+            ordinal: o.occurrence,
+          })),
+        }),
+      };
+    case 'CUSTOM':
+      throw new ValidationError('CUSTOM recurrence requires an rrule', { frequency: recurrence.frequency });
+  }
+}
+
+/**
+ * Expansion
+ */
+
+/**
+ * Time slots visited on each occurrence day, in the order given
+ */
+export function resolveTimeSlots(recurrence: RecurrenceRule, duration: number): ResolvedTimeSlot[] {
+  if (recurrence.timeSlots !== undefined && recurrence.timeSlots.length > 0) {
+    return recurrence.timeSlots.map((slot: RecurrenceTimeSlot) => ({
+      startTime: slot.startTime,
+      duration: slot.duration ?? duration,
+      ...(slot.label !== undefined && { label: slot.label }),
+    }));
+  }
+
+  const slotDuration = recurrence.endTime !== undefined
+    ? minutesBetween(recurrence.startTime, recurrence.endTime)
+    : duration;
+  return [{ startTime: recurrence.startTime, duration: slotDuration }];
+}
+
+/**
+ * Local dates matched by a rule from the anchor through the last date,
+ * honouring COUNT and UNTIL
+ */
+export function expandRuleDates(
+  rule: ParsedRRule,
+  anchor: CalendarDate,
+  last: CalendarDate
+): CalendarDate[] {
+  const end = rule.until !== undefined && compareDates(rule.until, last) < 0 ? rule.until : last;
+  const dates: CalendarDate[] = [];
+
+  for (let date = anchor; compareDates(date, end) <= 0; date = addDays(date, 1)) {
+    if (matchesRule(rule, anchor, date)) {
+      dates.push(date);
+      if (rule.count !== undefined && dates.length >= rule.count) {
+        break;
+      }
+    }
+  }
+
+  return dates;
+}
+
+/**
+ * Expand a recurrence into visits within a date range
+ *
+ * Recurring dates come from the RRULE, then RDATE one-offs are added and
+ * EXDATE entries remove whole days (YYYY-MM-DD) or single slots
+ * (YYYY-MM-DDTHH:MM). Results are ordered by start time.
+ */
+export function expandRecurrence(
+  recurrence: RecurrenceRule,
+  options: ExpansionOptions
+): RecurrenceOccurrence[] {
+  const rule = toRRule(recurrence);
+  const slots = resolveTimeSlots(recurrence, options.duration);
+  const anchor = options.anchor ?? options.from;
+  const last = options.until !== undefined && compareDates(options.until, options.to) < 0
+    ? options.until
+    : options.to;
+  const inRange = (date: CalendarDate): boolean =>
+    compareDates(date, options.from) >= 0 && compareDates(date, last) <= 0;
+
+  const candidates: Array<{ date: CalendarDate; slot: ResolvedTimeSlot }> = [];
+  for (const date of expandRuleDates(rule, anchor, last)) {
+    if (inRange(date)) {
+      slots.forEach(slot => candidates.push({ date, slot }));
+    }
+  }
+
+  for (const extra of recurrence.additionalDates ?? []) {
+    const date = parseCalendarDate(extra.date);
+    const startTime = extra.startTime ?? slots[0]?.startTime ?? recurrence.startTime;
+    const matchingSlot = slots.find(slot => slot.startTime === startTime);
+    const alreadyPresent = candidates.some(
+      c => formatCalendarDate(c.date) === extra.date && c.slot.startTime === startTime
+    );
+    if (inRange(date) && !alreadyPresent) {
+      candidates.push({
+        date,
+        slot: {
+          startTime,
+          duration: extra.duration ?? matchingSlot?.duration ?? options.duration,
+          ...(matchingSlot?.label !== undefined && { label: matchingSlot.label }),
+        },
+      });
+    }
+  }
+
+  const excluded = new Set(recurrence.exceptionDates ?? []);
+  const occurrences = candidates
+    .filter(({ date, slot }) => {
+      const day = formatCalendarDate(date);
+      return !excluded.has(day) && !excluded.has(`${day}T${slot.startTime}`);
+    })
+    .map(({ date, slot }) => toOccurrence(date, slot, recurrence.timezone));
+
+  occurrences.sort((a, b) => a.start.getTime() - b.start.getTime());
+  return occurrences;
+}
+
+function toOccurrence(
+  date: CalendarDate,
+  slot: ResolvedTimeSlot,
+  timezone: string
+): RecurrenceOccurrence {
+  const startMinutes = timeToMinutes(slot.startTime);
+  const endMinutes = startMinutes + slot.duration;
+  const endDate = addDays(date, Math.floor(endMinutes / 1440));
+  const endOfDayMinutes = endMinutes % 1440;
+
+  return {
+    date: formatCalendarDate(date),
+    startTime: slot.startTime,
+    endTime: minutesToTime(endOfDayMinutes),
+    duration: slot.duration,
+    start: zonedTimeToUtc(date, Math.floor(startMinutes / 60), startMinutes % 60, timezone),
+    end: zonedTimeToUtc(endDate, Math.floor(endOfDayMinutes / 60), endOfDayMinutes % 60, timezone),
+    ...(slot.label !== undefined && { label: slot.label }),
+  };
+}
+
+/**
+ * Rule matching
+ */
+
+function matchesRule(rule: ParsedRRule, anchor: CalendarDate, date: CalendarDate): boolean {
+  if (rule.byMonth !== undefined && !rule.byMonth.includes(date.month)) {
+    return false;
+  }
+
+  switch (rule.freq) {
+    case 'DAILY':
+      return daysBetween(anchor, date) % rule.interval === 0 && matchesDayFilters(rule, date);
+    case 'WEEKLY':
+      return weeksBetween(anchor, date, rule.weekStart) % rule.interval === 0 &&
+        matchesWeekly(rule, anchor, date);
+    case 'MONTHLY':
+      return monthsBetween(anchor, date) % rule.interval === 0 && matchesDayOfMonth(rule, anchor, date);
+    case 'YEARLY':
+      return (date.year - anchor.year) % rule.interval === 0 &&
+        (rule.byMonth !== undefined || date.month === anchor.month) &&
+        matchesDayOfMonth(rule, anchor, date);
+  }
+}
+
+/**
+ * BYDAY and BYMONTHDAY used as plain filters (DAILY)
+ */
+function matchesDayFilters(rule: ParsedRRule, date: CalendarDate): boolean {
+  const weekday = weekdayOf(date);
+  return (rule.byDay === undefined || rule.byDay.some(d => d.weekday === weekday)) &&
+    (rule.byMonthDay === undefined || matchesMonthDay(rule.byMonthDay, date));
+}
+
+function matchesWeekly(rule: ParsedRRule, anchor: CalendarDate, date: CalendarDate): boolean {
+  const weekdays = rule.byDay?.map(d => d.weekday) ?? [weekdayOf(anchor)];
+  return weekdays.includes(weekdayOf(date)) &&
+    (rule.byMonthDay === undefined || matchesMonthDay(rule.byMonthDay, date));
+}
+
+/**
+ * Day selection within a month: BYMONTHDAY, BYDAY with optional ordinals,
+ * or the anchor's day of month when neither is given
+ */
+function matchesDayOfMonth(rule: ParsedRRule, anchor: CalendarDate, date: CalendarDate): boolean {
+  if (rule.byDay === undefined && rule.byMonthDay === undefined) {
+    return date.day === anchor.day;
+  }
+  if (rule.byMonthDay !== undefined && !matchesMonthDay(rule.byMonthDay, date)) {
+    return false;
+  }
+  return rule.byDay === undefined || rule.byDay.some(d => matchesNthWeekday(d, date));
+}
+
+function matchesMonthDay(byMonthDay: number[], date: CalendarDate): boolean {
+  const length = daysInMonth(date.year, date.month);
+  return byMonthDay.some(day => (day > 0 ? day : length + day + 1) === date.day);
+}
+
+function matchesNthWeekday(byDay: RRuleWeekday, date: CalendarDate): boolean {
+  if (byDay.weekday !== weekdayOf(date)) {
+    return false;
+  }
+  if (byDay.ordinal === undefined) {
+    return true;
+  }
+  const fromStart = Math.floor((date.day - 1) / 7) + 1;
+  const fromEnd = -(Math.floor((daysInMonth(date.year, date.month) - date.day) / 7) + 1);
+  return byDay.ordinal === fromStart || byDay.ordinal === fromEnd;
+}
+
+/**
+ * Calendar arithmetic
+ */
+
+export function parseCalendarDate(value: string): CalendarDate {
+  const match = DATE_PATTERN.exec(value);
+  if (match === null) {
+    throw new ValidationError(`Invalid date: ${value}. Use YYYY-MM-DD`, { value });
+  }
+  return { year: Number(match[1]), month: Number(match[2]), day: Number(match[3]) };
+}
+
+export function formatCalendarDate(date: CalendarDate): string {
+  return `${date.year}-${pad(date.month)}-${pad(date.day)}`;
+}
+
+/**
+ * Calendar date of a date-only value. Dates parsed from YYYY-MM-DD strings
+ * are UTC midnight, so the UTC fields carry the intended day.
+ */
+export function toCalendarDate(date: Date): CalendarDate {
+  return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+}
+
+export function compareDates(a: CalendarDate, b: CalendarDate): number {
+  return (a.year - b.year) * 10000 + (a.month - b.month) * 100 + (a.day - b.day);
+}
+
+export function addDays(date: CalendarDate, days: number): CalendarDate {
+  return toCalendarDate(new Date(Date.UTC(date.year, date.month - 1, date.day + days)));
+}
+
+export function weekdayOf(date: CalendarDate): number {
+  return new Date(Date.UTC(date.year, date.month - 1, date.day)).getUTCDay();
+}
+
+function daysBetween(a: CalendarDate, b: CalendarDate): number {
+  return Math.round(
+    (Date.UTC(b.year, b.month - 1, b.day) - Date.UTC(a.year, a.month - 1, a.day)) / DAY_MS
+  );
+}
+
+function weeksBetween(a: CalendarDate, b: CalendarDate, weekStart: number): number {
+  const startOfWeek = (date: CalendarDate): CalendarDate =>
+    addDays(date, -((weekdayOf(date) - weekStart + 7) % 7));
+  return Math.round(daysBetween(startOfWeek(a), startOfWeek(b)) / 7);
+}
+
+function monthsBetween(a: CalendarDate, b: CalendarDate): number {
+  return (b.year - a.year) * 12 + (b.month - a.month);
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+/**
+ * Timezones
+ */
+
+/**
+ * Check that a timezone is a valid IANA identifier
+ */
+export function isValidTimeZone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Local calendar date and wall-clock time of an instant in a timezone
+ */
+export function getZonedDateTime(
+  date: Date,
+  timezone: string
+): CalendarDate & { hour: number; minute: number } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+
+  const value = (type: Intl.DateTimeFormatPartTypes): number =>
+    Number(parts.find(part => part.type === type)?.value ?? 0);
+
+  return {
+    year: value('year'),
+    month: value('month'),
+    day: value('day'),
+    hour: value('hour'),
+    minute: value('minute'),
+  };
+}
+
+/**
+ * UTC instant of a local wall-clock time
+ *
+ * Times skipped by a spring-forward transition move forward by the gap
+ * (02:30 becomes 03:30); repeated fall-back times use the first occurrence.
+ */
+export function zonedTimeToUtc(
+  date: CalendarDate,
+  hour: number,
+  minute: number,
+  timezone: string
+): Date {
+  const wallClock = Date.UTC(date.year, date.month - 1, date.day, hour, minute);
+  const offsetAt = (instant: Date): number => {
+    const local = getZonedDateTime(instant, timezone);
+    const asUtc = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute);
+    return asUtc - (instant.getTime() - (instant.getTime() % 60000));
+  };
+
+  const firstGuess = new Date(wallClock - offsetAt(new Date(wallClock)));
+  const adjusted = new Date(wallClock - offsetAt(firstGuess));
+
+  const resolved = getZonedDateTime(adjusted, timezone);
+  return resolved.hour === hour && resolved.minute === minute ? adjusted : firstGuess;
+}
+
+/**
+ * Helpers
+ */
+
+export function timeToMinutes(time: string): number {
+  const match = TIME_PATTERN.exec(time);
+  if (match === null) {
+    throw new ValidationError(`Invalid time: ${time}. Use HH:MM`, { time });
+  }
+  return Number(match[1]) * 60 + Number(match[2]);
+}
+
+export function minutesToTime(minutes: number): string {
+  return `${pad(Math.floor(minutes / 60) % 24)}:${pad(minutes % 60)}`;
+}
+
+function minutesBetween(startTime: string, endTime: string): number {
+  const minutes = timeToMinutes(endTime) - timeToMinutes(startTime);
+  return minutes > 0 ? minutes : minutes + 1440;
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+function parseRRuleInteger(
+  value: string,
+  min: number,
+  max: number,
+  rrule: string,
+  nonZero = false
+): number {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < min || parsed > max || (nonZero && parsed === 0)) {
+    throw new ValidationError(`Invalid RRULE value: ${value}`, { rrule });
+  }
+  return parsed;
+}
+
+function parseWeekday(value: string, rrule: string): number {
+  const weekday = RRULE_WEEKDAYS.indexOf(value);
+  if (weekday === -1) {
+    throw new ValidationError(`Invalid RRULE weekday: ${value}`, { rrule });
+  }
+  return weekday;
+}
+
+function parseByDay(value: string, rrule: string): RRuleWeekday {
+  const match = /^([+-]?\d{1,2})?([A-Z]{2})$/.exec(value);
+  if (match === null) {
+    throw new ValidationError(`Invalid RRULE BYDAY value: ${value}`, { rrule });
+  }
+  const weekday = parseWeekday(match[2] ?? '', rrule);
+  if (match[1] === undefined) {
+    return { weekday };
+  }
+  return { weekday, ordinal: parseRRuleInteger(match[1], -5, 5, rrule, true) };
+}
+
+function formatByDay(byDay: RRuleWeekday): string {
+  return `${byDay.ordinal ?? ''}${RRULE_WEEKDAYS[byDay.weekday]}`;
+}
+
+/**
+ * Parse the date part of an iCalendar DATE or DATE-TIME (YYYYMMDD)
+ */
+export function parseICalendarDate(value: string, source: string = value): CalendarDate {
+  const match = /^(\d{4})(\d{2})(\d{2})/.exec(value);
+  if (match === null) {
+    throw new ValidationError(`Invalid iCalendar date: ${value}`, { value: source });
+  }
+  return { year: Number(match[1]), month: Number(match[2]), day: Number(match[3]) };
+}
+
+export function formatICalendarDate(date: CalendarDate): string {
+  return `${date.year}${pad(date.month)}${pad(date.day)}`;
+}
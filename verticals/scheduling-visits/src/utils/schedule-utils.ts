@@ -27,6 +27,7 @@ import {
   VisitType,
   PatternStatus,
 } from '../types/schedule';
+import { ParsedRRule, parseRRule } from './recurrence';
 
 /**
  * Format visit date for display
@@ -505,24 +506,55 @@ export function getTimeOfDay(time: string): TimeOfDay {
 
 /**
  * Calculate visits per week from pattern
+ *
+ * Split-shift patterns count each time slot as a visit. Monthly and yearly
+ * rules are averaged over a 4-week month.
  */
 export function calculateVisitsPerWeek(pattern: Pick<ServicePattern, 'recurrence'>): number {
-  const { frequency, daysOfWeek, interval } = pattern.recurrence;
-  
+  const { frequency, daysOfWeek, datesOfMonth, weekdayOccurrences, interval, rrule, timeSlots } =
+    pattern.recurrence;
+  const slotsPerDay = timeSlots !== undefined && timeSlots.length > 0 ? timeSlots.length : 1;
+
+  if (rrule !== undefined && rrule !== '') {
+    return slotsPerDay * ruleDaysPerWeek(parseRRule(rrule));
+  }
+
   switch (frequency) {
     case 'DAILY':
-      return 7 / interval;
+      return (slotsPerDay * 7) / interval;
     case 'WEEKLY':
-      return (daysOfWeek?.length ?? 1) / interval;
+      return (slotsPerDay * (daysOfWeek?.length ?? 1)) / interval;
     case 'BIWEEKLY':
-      return (daysOfWeek?.length ?? 1) / (2 * interval);
-    case 'MONTHLY':
-      return 1 / (4 * interval); // Approximate
+      return (slotsPerDay * (daysOfWeek?.length ?? 1)) / (2 * interval);
+    case 'MONTHLY': {
+      const daysPerMonth = (datesOfMonth?.length ?? 0) + (weekdayOccurrences?.length ?? 0);
+      return (slotsPerDay * Math.max(daysPerMonth, 1)) / (4 * interval); // Approximate
+    }
     default:
       return 0;
   }
 }
 
+function ruleDaysPerWeek(rule: ParsedRRule): number {
+  const monthShare = rule.byMonth !== undefined ? rule.byMonth.length / 12 : 1;
+  const daysPerMonth = Math.max(
+    (rule.byMonthDay?.length ?? 0) +
+      (rule.byDay?.reduce((total, day) => total + (day.ordinal !== undefined ? 1 : 4), 0) ?? 0),
+    1
+  );
+
+  switch (rule.freq) {
+    case 'DAILY':
+      return ((rule.byDay?.length ?? 7) * monthShare) / rule.interval;
+    case 'WEEKLY':
+      return ((rule.byDay?.length ?? 1) * monthShare) / rule.interval;
+    case 'MONTHLY':
+      return (daysPerMonth * monthShare) / (4 * rule.interval);
+    case 'YEARLY':
+      return (daysPerMonth * (rule.byMonth?.length ?? 1)) / (52 * rule.interval);
+  }
+}
+
 /**
  * Calculate hours per week from pattern
  */
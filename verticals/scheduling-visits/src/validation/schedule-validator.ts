@@ -5,11 +5,13 @@
  */
 
 import { z } from 'zod';
+import { isValidTimeZone, parseRRule } from '../utils/recurrence';
 
 // Base validators
 const uuidSchema = z.string().uuid();
 const dateSchema = z.coerce.date();
 const timeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Must be in HH:MM format');
+const calendarDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Must be in YYYY-MM-DD format');
 
 // Enums
 const patternTypeSchema = z.enum([
@@ -88,9 +90,38 @@ export const recurrenceRuleSchema = z.object({
   interval: z.number().int().min(1).max(365),
   daysOfWeek: z.array(dayOfWeekSchema).optional(),
   datesOfMonth: z.array(z.number().int().min(1).max(31)).optional(),
+  weekdayOccurrences: z.array(z.object({
+    dayOfWeek: dayOfWeekSchema,
+    occurrence: z.number().int().min(-5).max(5).refine(n => n !== 0, 'Occurrence cannot be 0'),
+  })).optional(),
   startTime: timeSchema,
   endTime: timeSchema.optional(),
-  timezone: z.string(),
+  timezone: z.string().refine(isValidTimeZone, 'Must be a valid IANA timezone'),
+  timeSlots: z.array(z.object({
+    startTime: timeSchema,
+    duration: z.number().int().min(15).max(1440).optional(),
+    label: z.string().max(50).optional(),
+  })).max(6).optional(),
+  rrule: z.string().max(500).optional(),
+  exceptionDates: z.array(
+    z.string().regex(/^\d{4}-\d{2}-\d{2}(T([01]\d|2[0-3]):[0-5]\d)?$/, 'Must be YYYY-MM-DD or YYYY-MM-DDTHH:MM')
+  ).optional(),
+  additionalDates: z.array(z.object({
+    date: calendarDateSchema,
+    startTime: timeSchema.optional(),
+    duration: z.number().int().min(15).max(1440).optional(),
+  })).optional(),
+}).superRefine((rule, ctx) => {
+  if (rule.frequency === 'CUSTOM' && (rule.rrule === undefined || rule.rrule === '')) {
+    ctx.addIssue({ code: 'custom', message: 'CUSTOM recurrence requires an rrule', path: ['rrule'] });
+  }
+  if (rule.rrule !== undefined && rule.rrule !== '') {
+    try {
+      parseRRule(rule.rrule);
+    } catch (error) {
+      ctx.addIssue({ code: 'custom', message: (error as Error).message, path: ['rrule'] });
+    }
+  }
 });
 
 export const visitAddressSchema = z.object({
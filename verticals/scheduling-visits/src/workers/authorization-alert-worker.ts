@@ -0,0 +1,187 @@
+/**
+ * Authorization Alert Worker
+ *
+ * Background worker that forecasts every current service authorization on
+ * a fixed interval and alerts coordinators when scheduled visits leave one
+ * low on units or it is about to expire.
+ *
+ * Features:
+ * - Configurable polling interval
+ * - Overlapping polls are skipped while a check is still running
+ * - Graceful shutdown support
+ */
+
+import { createLogger } from '@care-commons/core';
+import { AuthorizationForecastService } from '../service/authorization-forecast-service';
+
+const log = createLogger('AuthorizationAlertWorker');
+
+export interface AuthorizationAlertWorkerConfig {
+  /**
+   * How often to check authorizations (in milliseconds)
+   * Default: 1 hour (3600000ms)
+   */
+  checkIntervalMs: number;
+
+  /**
+   * Whether the worker is enabled
+   * Default: true
+   */
+  enabled: boolean;
+}
+
+const DEFAULT_CONFIG: AuthorizationAlertWorkerConfig = {
+  checkIntervalMs: 3600000, // 1 hour
+  enabled: true,
+};
+
+/**
+ * Authorization Alert Worker
+ *
+ * Raises low-unit and expiring-authorization alerts.
+ */
+export class AuthorizationAlertWorker {
+  private intervalId: ReturnType<typeof setInterval> | null = null;
+  private isRunning = false;
+  private isProcessing = false;
+  private config: AuthorizationAlertWorkerConfig;
+
+  constructor(
+    private forecastService: AuthorizationForecastService,
+    config?: Partial<AuthorizationAlertWorkerConfig>
+  ) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * Start the worker
+   */
+  start(): void {
+    if (!this.config.enabled) {
+      log.info('AuthorizationAlertWorker is disabled');
+      return;
+    }
+
+    if (this.isRunning) {
+      log.warn('AuthorizationAlertWorker is already running');
+      return;
+    }
+
+    log.info({ checkIntervalMs: this.config.checkIntervalMs }, 'AuthorizationAlertWorker starting');
+
+    this.isRunning = true;
+
+    // Run immediately on start
+    void this.detectAlerts();
+
+    // Then run periodically
+    this.intervalId = setInterval(() => {
+      void this.detectAlerts();
+    }, this.config.checkIntervalMs);
+  }
+
+  /**
+   * Stop the worker
+   */
+  stop(): void {
+    if (!this.isRunning) {
+      log.warn('AuthorizationAlertWorker is not running');
+      return;
+    }
+
+    log.info('AuthorizationAlertWorker stopping...');
+
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+
+    this.isRunning = false;
+
+    log.info('AuthorizationAlertWorker stopped');
+  }
+
+  /**
+   * Run one alert pass
+   */
+  private async detectAlerts(): Promise<void> {
+    if (this.isProcessing) {
+      log.debug('Previous check still running, skipping');
+      return;
+    }
+
+    this.isProcessing = true;
+    try {
+      const result = await this.forecastService.detectAuthorizationAlerts(new Date());
+
+      if (result.lowUnits > 0 || result.expiring > 0 || result.cleared > 0) {
+        log.info(result, 'Authorization alert check complete');
+      }
+    } catch (error) {
+      log.error({ error }, 'Error checking authorization alerts');
+      // Don't throw - let the worker continue running
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  /**
+   * Check if the worker is running
+   */
+  isActive(): boolean {
+    return this.isRunning;
+  }
+
+  /**
+   * Get current configuration
+   */
+  getConfig(): AuthorizationAlertWorkerConfig {
+    return { ...this.config };
+  }
+}
+
+/**
+ * Singleton instance for application-wide use
+ */
+let workerInstance: AuthorizationAlertWorker | null = null;
+
+/**
+ * Initialize and start the authorization alert worker
+ *
+ * Should be called once during application startup.
+ */
+export function initializeAuthorizationAlertWorker(
+  forecastService: AuthorizationForecastService,
+  config?: Partial<AuthorizationAlertWorkerConfig>
+): AuthorizationAlertWorker {
+  if (workerInstance) {
+    log.warn('AuthorizationAlertWorker already initialized');
+    return workerInstance;
+  }
+
+  workerInstance = new AuthorizationAlertWorker(forecastService, config);
+  workerInstance.start();
+
+  // Graceful shutdown on process termination
+  process.on('SIGTERM', () => {
+    log.info('SIGTERM received, shutting down AuthorizationAlertWorker...');
+    workerInstance?.stop();
+  });
+
+  process.on('SIGINT', () => {
+    log.info('SIGINT received, shutting down AuthorizationAlertWorker...');
+    workerInstance?.stop();
+  });
+
+  return workerInstance;
+}
+
+/**
+ * Stop and cleanup the authorization alert worker
+ */
+export function shutdownAuthorizationAlertWorker(): void {
+  if (workerInstance) {
+    workerInstance.stop();
+    workerInstance = null;
+  }
+}
@@ -0,0 +1,188 @@
+/**
+ * Visit Exception Worker
+ *
+ * Background worker that runs the visit exception detector on a fixed
+ * interval: missed and late clock-ins, early clock-outs, incomplete
+ * required tasks and geofence failures become exceptions in the queue,
+ * and coordinators are paged or escalated according to severity.
+ *
+ * Features:
+ * - Configurable polling interval
+ * - Overlapping polls are skipped while a scan is still running
+ * - Graceful shutdown support
+ */
+
+import { createLogger } from '@care-commons/core';
+import { VisitExceptionService } from '../service/visit-exception-service';
+
+const log = createLogger('VisitExceptionWorker');
+
+export interface VisitExceptionWorkerConfig {
+  /**
+   * How often to scan visits for exceptions (in milliseconds)
+   * Default: 5 minutes (300000ms)
+   */
+  checkIntervalMs: number;
+
+  /**
+   * Whether the worker is enabled
+   * Default: true
+   */
+  enabled: boolean;
+}
+
+const DEFAULT_CONFIG: VisitExceptionWorkerConfig = {
+  checkIntervalMs: 300000, // 5 minutes
+  enabled: true,
+};
+
+/**
+ * Visit Exception Worker
+ *
+ * Detects, notifies and escalates visit exceptions.
+ */
+export class VisitExceptionWorker {
+  private intervalId: ReturnType<typeof setInterval> | null = null;
+  private isRunning = false;
+  private isProcessing = false;
+  private config: VisitExceptionWorkerConfig;
+
+  constructor(
+    private exceptionService: VisitExceptionService,
+    config?: Partial<VisitExceptionWorkerConfig>
+  ) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * Start the worker
+   */
+  start(): void {
+    if (!this.config.enabled) {
+      log.info('VisitExceptionWorker is disabled');
+      return;
+    }
+
+    if (this.isRunning) {
+      log.warn('VisitExceptionWorker is already running');
+      return;
+    }
+
+    log.info({ checkIntervalMs: this.config.checkIntervalMs }, 'VisitExceptionWorker starting');
+
+    this.isRunning = true;
+
+    // Run immediately on start
+    void this.detectExceptions();
+
+    // Then run periodically
+    this.intervalId = setInterval(() => {
+      void this.detectExceptions();
+    }, this.config.checkIntervalMs);
+  }
+
+  /**
+   * Stop the worker
+   */
+  stop(): void {
+    if (!this.isRunning) {
+      log.warn('VisitExceptionWorker is not running');
+      return;
+    }
+
+    log.info('VisitExceptionWorker stopping...');
+
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+
+    this.isRunning = false;
+
+    log.info('VisitExceptionWorker stopped');
+  }
+
+  /**
+   * Run one detection pass
+   */
+  private async detectExceptions(): Promise<void> {
+    if (this.isProcessing) {
+      log.debug('Previous scan still running, skipping');
+      return;
+    }
+
+    this.isProcessing = true;
+    try {
+      const result = await this.exceptionService.detectExceptions(new Date());
+
+      if (result.detected > 0 || result.notified > 0 || result.escalated > 0) {
+        log.info(result, 'Visit exception scan complete');
+      }
+    } catch (error) {
+      log.error({ error }, 'Error detecting visit exceptions');
+      // Don't throw - let the worker continue running
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  /**
+   * Check if the worker is running
+   */
+  isActive(): boolean {
+    return this.isRunning;
+  }
+
+  /**
+   * Get current configuration
+   */
+  getConfig(): VisitExceptionWorkerConfig {
+    return { ...this.config };
+  }
+}
+
+/**
+ * Singleton instance for application-wide use
+ */
+let workerInstance: VisitExceptionWorker | null = null;
+
+/**
+ * Initialize and start the visit exception worker
+ *
+ * Should be called once during application startup.
+ */
+export function initializeVisitExceptionWorker(
+  exceptionService: VisitExceptionService,
+  config?: Partial<VisitExceptionWorkerConfig>
+): VisitExceptionWorker {
+  if (workerInstance) {
+    log.warn('VisitExceptionWorker already initialized');
+    return workerInstance;
+  }
+
+  workerInstance = new VisitExceptionWorker(exceptionService, config);
+  workerInstance.start();
+
+  // Graceful shutdown on process termination
+  process.on('SIGTERM', () => {
+    log.info('SIGTERM received, shutting down VisitExceptionWorker...');
+    workerInstance?.stop();
+  });
+
+  process.on('SIGINT', () => {
+    log.info('SIGINT received, shutting down VisitExceptionWorker...');
+    workerInstance?.stop();
+  });
+
+  return workerInstance;
+}
+
+/**
+ * Stop and cleanup the visit exception worker
+ */
+export function shutdownVisitExceptionWorker(): void {
+  if (workerInstance) {
+    workerInstance.stop();
+    workerInstance = null;
+  }
+}
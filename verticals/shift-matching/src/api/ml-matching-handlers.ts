@@ -20,6 +20,7 @@ import {
   MLModelMetadata,
   MLTrainingConfig,
   ScheduleOptimization,
+  ScheduleOptimizationAlgorithm,
   ScheduleOptimizationConstraints,
   ABTestConfig,
   MLPerformanceReport,
@@ -157,7 +158,7 @@ export class MLMatchingHandlers {
    *   "branch_id": "uuid",         // optional
    *   "shift_ids": ["uuid", ...],  // optional
    *   "caregiver_ids": ["uuid", ...], // optional
-   *   "algorithm": "GREEDY"        // optional
+   *   "algorithm": "GREEDY"        // optional; ROUTE_OPTIMIZATION plans full daily routes
    * }
    */
   async optimizeSchedule(
@@ -169,7 +170,7 @@ export class MLMatchingHandlers {
       branch_id?: string;
       shift_ids?: string[];
       caregiver_ids?: string[];
-      algorithm?: 'GREEDY' | 'CONSTRAINT_PROGRAMMING' | 'GENETIC_ALGORITHM';
+      algorithm?: ScheduleOptimizationAlgorithm;
     },
     context: UserContext
   ): Promise<ScheduleOptimization> {
@@ -7,7 +7,14 @@
  * - Administrative functions (configure matching rules, view analytics)
  */
 
-import { UserContext, PaginationParams, PaginatedResult } from '@care-commons/core';
+import {
+  UserContext,
+  PaginationParams,
+  PaginatedResult,
+  NotFoundError,
+  ValidationError,
+  NotificationService,
+} from '@care-commons/core';
 import { ShiftMatchingService } from '../service/shift-matching-service';
 import { ShiftMatchingRepository } from '../repository/shift-matching-repository';
 import {
@@ -39,9 +46,9 @@ export class ShiftMatchingHandlers {
   private repository: ShiftMatchingRepository;
   private pool: import('pg').Pool;
 
-  constructor(pool: import('pg').Pool) {
+  constructor(pool: import('pg').Pool, notificationService?: NotificationService) {
     this.pool = pool;
-    this.service = new ShiftMatchingService(pool);
+    this.service = new ShiftMatchingService(pool, undefined, notificationService);
     this.repository = new ShiftMatchingRepository(pool);
   }
 
@@ -75,14 +82,25 @@ export class ShiftMatchingHandlers {
     input: Partial<MatchShiftInput>,
     context: UserContext
   ): Promise<MatchShiftResult> {
+    await this.requireOpenShift(openShiftId, context);
+
     const matchInput: MatchShiftInput = {
-      openShiftId,
       ...input,
+      openShiftId,
     };
 
     return this.service.matchShift(matchInput, context);
   }
 
+  /**
+   * GET /shifts/open/:id/candidates
+   * Preview ranked candidates without proposing or changing the shift
+   */
+  async getMatchCandidates(openShiftId: string, context: UserContext): Promise<MatchCandidate[]> {
+    await this.requireOpenShift(openShiftId, context);
+    return this.service.getMatchCandidates(openShiftId, context);
+  }
+
   /**
    * GET /shifts/open
    * Search for open shifts needing assignment
@@ -90,24 +108,29 @@ export class ShiftMatchingHandlers {
   async searchOpenShifts(
     filters: OpenShiftFilters,
     pagination: PaginationParams,
-    _context: UserContext
+    context: UserContext
   ): Promise<PaginatedResult<OpenShift>> {
-    return this.repository.searchOpenShifts(filters, pagination);
+    return this.repository.searchOpenShifts(
+      { ...filters, organizationId: context.organizationId! },
+      pagination
+    );
   }
 
   /**
    * GET /shifts/open/:id
    * Get details of a specific open shift
    */
-  async getOpenShift(openShiftId: string, _context: UserContext): Promise<OpenShift | null> {
-    return this.repository.getOpenShift(openShiftId);
+  async getOpenShift(openShiftId: string, context: UserContext): Promise<OpenShift | null> {
+    const openShift = await this.repository.getOpenShift(openShiftId);
+    return openShift?.organizationId === context.organizationId ? openShift : null;
   }
 
   /**
    * GET /shifts/open/:id/proposals
    * Get all proposals for an open shift
    */
-  async getProposalsForShift(openShiftId: string, _context: UserContext): Promise<AssignmentProposal[]> {
+  async getProposalsForShift(openShiftId: string, context: UserContext): Promise<AssignmentProposal[]> {
+    await this.requireOpenShift(openShiftId, context);
     return this.repository.getProposalsByOpenShift(openShiftId);
   }
 
@@ -120,10 +143,7 @@ export class ShiftMatchingHandlers {
     context: UserContext
   ): Promise<AssignmentProposal> {
     // Validate open shift exists
-    const openShift = await this.repository.getOpenShift(input.openShiftId);
-    if (openShift === null) {
-      throw new Error('Open shift not found');
-    }
+    const openShift = await this.requireOpenShift(input.openShiftId, context);
 
     // Validate configuration exists
     const config = await this.repository.getDefaultConfiguration(
@@ -131,7 +151,7 @@ export class ShiftMatchingHandlers {
       openShift.branchId
     );
     if (config === null) {
-      throw new Error('No matching configuration found');
+      throw new ValidationError('No matching configuration found');
     }
 
     // For manual proposals, create a minimal candidate since we're bypassing the algorithm
@@ -179,9 +199,28 @@ export class ShiftMatchingHandlers {
     input: RespondToProposalInput,
     context: UserContext
   ): Promise<AssignmentProposal> {
+    await this.requireProposal(proposalId, context);
     return this.service.respondToProposal(proposalId, input, context);
   }
 
+  /**
+   * POST /proposals/:id/withdraw
+   * Scheduler withdraws an unanswered proposal
+   */
+  async withdrawProposal(proposalId: string, context: UserContext): Promise<AssignmentProposal> {
+    await this.requireProposal(proposalId, context);
+    return this.service.withdrawProposal(proposalId, context);
+  }
+
+  /**
+   * GET /proposals/:id
+   * Get a specific proposal
+   */
+  async getProposal(proposalId: string, context: UserContext): Promise<AssignmentProposal | null> {
+    const proposal = await this.repository.getProposal(proposalId);
+    return proposal?.organizationId === context.organizationId ? proposal : null;
+  }
+
   /**
    * GET /proposals
    * Search all proposals with filters
@@ -189,9 +228,12 @@ export class ShiftMatchingHandlers {
   async searchProposals(
     filters: ProposalFilters,
     pagination: PaginationParams,
-    _context: UserContext
+    context: UserContext
   ): Promise<PaginatedResult<AssignmentProposal>> {
-    return this.repository.searchProposals(filters, pagination);
+    return this.repository.searchProposals(
+      { ...filters, organizationId: context.organizationId! },
+      pagination
+    );
   }
 
   /**
@@ -200,6 +242,13 @@ export class ShiftMatchingHandlers {
    * ==========================================================================
    */
 
+  /**
+   * Resolve the caregiver record for the signed-in user
+   */
+  async getCaregiverIdForUser(context: UserContext): Promise<string | null> {
+    return this.repository.getCaregiverIdForUser(context.userId, context.organizationId!);
+  }
+
   /**
    * GET /caregiver/shifts/available
    * Get shifts available for the current caregiver to claim
@@ -276,6 +325,7 @@ export class ShiftMatchingHandlers {
     caregiverId: string,
     context: UserContext
   ): Promise<AssignmentProposal> {
+    await this.requireOpenShift(openShiftId, context);
     return this.service.caregiverSelectShift(caregiverId, openShiftId, context);
   }
 
@@ -315,15 +365,19 @@ export class ShiftMatchingHandlers {
    * Create a new matching configuration
    */
   async createConfiguration(input: Omit<MatchingConfiguration, 'id' | 'createdAt' | 'updatedAt' | 'version'>, context: UserContext): Promise<MatchingConfiguration> {
-    return this.repository.createMatchingConfiguration(input, context);
+    return this.repository.createMatchingConfiguration(
+      { ...input, organizationId: context.organizationId! },
+      context
+    );
   }
 
   /**
    * GET /configurations/:id
    * Get a specific matching configuration
    */
-  async getConfiguration(configId: string, _context: UserContext): Promise<MatchingConfiguration | null> {
-    return this.repository.getMatchingConfiguration(configId);
+  async getConfiguration(configId: string, context: UserContext): Promise<MatchingConfiguration | null> {
+    const config = await this.repository.getMatchingConfiguration(configId);
+    return config?.organizationId === context.organizationId ? config : null;
   }
 
   /**
@@ -331,6 +385,9 @@ export class ShiftMatchingHandlers {
    * Update a matching configuration
    */
   async updateConfiguration(configId: string, input: Partial<MatchingConfiguration>, context: UserContext): Promise<MatchingConfiguration> {
+    if (await this.getConfiguration(configId, context) === null) {
+      throw new NotFoundError('Matching configuration not found', { configId });
+    }
     return this.repository.updateMatchingConfiguration(configId, input, context);
   }
 
@@ -372,25 +429,27 @@ export class ShiftMatchingHandlers {
   async getMatchingMetrics(
     periodStart: Date,
     periodEnd: Date,
-    _context: UserContext
+    context: UserContext
   ): Promise<MatchingMetrics> {
     // This would query match_history and generate metrics
     // Simplified implementation for now
     const result = await this.pool.query(
       `
       SELECT 
-        COUNT(DISTINCT open_shift_id) as total_open_shifts,
-        COUNT(DISTINCT open_shift_id) FILTER (WHERE outcome = 'ACCEPTED') as shifts_matched,
-        COUNT(DISTINCT open_shift_id) FILTER (WHERE outcome = 'NO_CANDIDATES') as shifts_unmatched,
-        AVG(match_score) FILTER (WHERE match_score IS NOT NULL) as average_match_score,
-        AVG(response_time_minutes) FILTER (WHERE response_time_minutes IS NOT NULL) as average_response_time,
-        COUNT(*) FILTER (WHERE outcome = 'ACCEPTED') as proposals_accepted,
-        COUNT(*) FILTER (WHERE outcome = 'REJECTED') as proposals_rejected,
-        COUNT(*) FILTER (WHERE outcome = 'EXPIRED') as proposals_expired
-      FROM match_history
-      WHERE matched_at BETWEEN $1 AND $2
+        COUNT(DISTINCT mh.open_shift_id) as total_open_shifts,
+        COUNT(DISTINCT mh.open_shift_id) FILTER (WHERE mh.outcome = 'ACCEPTED') as shifts_matched,
+        COUNT(DISTINCT mh.open_shift_id) FILTER (WHERE mh.outcome = 'NO_CANDIDATES') as shifts_unmatched,
+        AVG(mh.match_score) FILTER (WHERE mh.match_score IS NOT NULL) as average_match_score,
+        AVG(mh.response_time_minutes) FILTER (WHERE mh.response_time_minutes IS NOT NULL) as average_response_time,
+        COUNT(*) FILTER (WHERE mh.outcome = 'ACCEPTED') as proposals_accepted,
+        COUNT(*) FILTER (WHERE mh.outcome = 'REJECTED') as proposals_rejected,
+        COUNT(*) FILTER (WHERE mh.outcome = 'EXPIRED') as proposals_expired
+      FROM match_history mh
+      JOIN open_shifts os ON os.id = mh.open_shift_id
+      WHERE mh.matched_at BETWEEN $1 AND $2
+        AND os.organization_id = $3
       `,
-      [periodStart, periodEnd]
+      [periodStart, periodEnd, context.organizationId]
     );
 
     const row = result.rows[0];
@@ -538,4 +597,26 @@ export class ShiftMatchingHandlers {
     // const summary = EnhancedMatchExplanations.generateSummary(openShift, candidate, caregiverContext);
     // return { candidate, explanations, summary };
   }
+
+  /**
+   * Open shift within the caller's organization, or NotFoundError
+   */
+  private async requireOpenShift(openShiftId: string, context: UserContext): Promise<OpenShift> {
+    const openShift = await this.getOpenShift(openShiftId, context);
+    if (openShift === null) {
+      throw new NotFoundError('Open shift not found', { openShiftId });
+    }
+    return openShift;
+  }
+
+  /**
+   * Proposal within the caller's organization, or NotFoundError
+   */
+  private async requireProposal(proposalId: string, context: UserContext): Promise<AssignmentProposal> {
+    const proposal = await this.getProposal(proposalId, context);
+    if (proposal === null) {
+      throw new NotFoundError('Proposal not found', { proposalId });
+    }
+    return proposal;
+  }
 }
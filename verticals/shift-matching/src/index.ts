@@ -25,11 +25,23 @@ export type { MatchShiftResult } from './service/shift-matching-service';
 // API Handlers
 export { ShiftMatchingHandlers } from './api/shift-matching-handlers';
 
+// Workers
+export {
+  ProposalExpirationWorker,
+  initializeProposalExpirationWorker,
+  shutdownProposalExpirationWorker,
+} from './workers/proposal-expiration-worker';
+export type { ProposalExpirationWorkerConfig } from './workers/proposal-expiration-worker';
+
 // Utilities
 export { MatchingAlgorithm } from './utils/matching-algorithm';
 export type { CaregiverContext } from './utils/matching-algorithm';
 export { EnhancedMatchExplanations } from './utils/enhanced-match-explanations';
-export type { EnhancedMatchExplanation, MatchDetail } from './utils/enhanced-match-explanations';
+export type { EnhancedMatchExplanation, MatchDetail, MLPredictionInsight } from './utils/enhanced-match-explanations';
+export { GradientBoosting, DEFAULT_GRADIENT_BOOSTING_OPTIONS, aucRoc, logLoss } from './utils/gradient-boosting';
+export type { GradientBoostedModel, GradientBoostingOptions, BoostingSample, PredictionExplanation, RegressionTree, TreeNode } from './utils/gradient-boosting';
+export { RouteOptimizer, TravelTimeMatrix } from './utils/route-optimizer';
+export type { GeoPoint, RouteVisit, RouteCaregiver, RoutePlanningOptions, RoutePlan } from './utils/route-optimizer';
 
 // Re-export commonly used core types
 export type { UUID, UserContext, PaginationParams, PaginatedResult } from '@care-commons/core';
@@ -55,7 +55,7 @@ export class ShiftMatchingRepository {
           v.scheduled_date, v.scheduled_start_time, v.scheduled_end_time,
           v.scheduled_duration, v.timezone, v.service_type_id, v.service_type_name,
           v.address, v.task_ids, v.required_skills, v.required_certifications,
-          v.client_instructions,
+          v.client_instructions, v.assigned_caregiver_id,
           sp.preferred_caregivers, sp.blocked_caregivers,
           sp.gender_preference, sp.language_preference
         FROM visits v
@@ -74,6 +74,16 @@ export class ShiftMatchingRepository {
     }
     
     const visit = visitResult.rows[0];
+    if (visit.organization_id !== context.organizationId) {
+      throw new NotFoundError('Visit not found', { visitId: input.visitId });
+    }
+
+    // Only unassigned visits go on the open shift marketplace
+    if (visit.assigned_caregiver_id !== null && visit.assigned_caregiver_id !== undefined) {
+      throw new ConflictError('Visit already has an assigned caregiver', {
+        visitId: input.visitId,
+      });
+    }
     
     // Check if open shift already exists (from EXISTS subquery)
     if (visit.has_open_shift === true) {
@@ -501,6 +511,11 @@ export class ShiftMatchingRepository {
     const query = `
       UPDATE assignment_proposals
       SET proposal_status = $1,
+          sent_to_caregiver = CASE WHEN $1 = 'SENT' THEN true ELSE sent_to_caregiver END,
+          sent_at = CASE WHEN $1 = 'SENT' THEN NOW() ELSE sent_at END,
+          viewed_by_caregiver = CASE WHEN $1 = 'VIEWED' THEN true ELSE viewed_by_caregiver END,
+          viewed_at = CASE WHEN $1 = 'VIEWED' THEN NOW() ELSE viewed_at END,
+          expired_at = CASE WHEN $1 = 'EXPIRED' THEN NOW() ELSE expired_at END,
           updated_at = NOW(),
           updated_by = $2
       WHERE id = $3 AND deleted_at IS NULL
@@ -654,10 +669,20 @@ export class ShiftMatchingRepository {
     }
 
     if (filters.matchQuality !== undefined && filters.matchQuality.length > 0) {
-      conditions.push(`match_quality = ANY($${++paramCount}`);
+      conditions.push(`match_quality = ANY($${++paramCount})`);
       values.push(filters.matchQuality);
     }
 
+    if (filters.proposedDateFrom !== undefined) {
+      conditions.push(`proposed_at >= $${++paramCount}`);
+      values.push(filters.proposedDateFrom);
+    }
+
+    if (filters.proposedDateTo !== undefined) {
+      conditions.push(`proposed_at <= $${++paramCount}`);
+      values.push(filters.proposedDateTo);
+    }
+
     const whereClause = `WHERE ${conditions.join(' AND ')}`;
     
     const countQuery = `SELECT COUNT(*) FROM assignment_proposals ${whereClause}`;
@@ -687,6 +712,85 @@ export class ShiftMatchingRepository {
     };
   }
 
+  /**
+   * Sent or viewed proposals whose response window has closed
+   *
+   * The window comes from the default configuration for the proposal's
+   * branch, falling back to the organization-wide default.
+   */
+  async findStaleProposals(organizationId?: UUID): Promise<AssignmentProposal[]> {
+    const query = `
+      SELECT ap.*
+      FROM assignment_proposals ap
+      JOIN LATERAL (
+        SELECT mc.proposal_expiration_minutes
+        FROM matching_configurations mc
+        WHERE mc.organization_id = ap.organization_id
+          AND (mc.branch_id = ap.branch_id OR mc.branch_id IS NULL)
+          AND mc.is_default = true
+          AND mc.is_active = true
+        ORDER BY mc.branch_id DESC NULLS LAST
+        LIMIT 1
+      ) config ON true
+      WHERE ap.proposal_status IN ('SENT', 'VIEWED')
+        AND ap.deleted_at IS NULL
+        AND ap.sent_at IS NOT NULL
+        AND ap.sent_at < NOW() - make_interval(mins => config.proposal_expiration_minutes)
+        AND ($1::uuid IS NULL OR ap.organization_id = $1)
+      ORDER BY ap.sent_at ASC
+    `;
+
+    const result = await this.pool.query(query, [organizationId ?? null]);
+    return result.rows.map((row) => this.mapRowToProposal(row));
+  }
+
+  /**
+   * ==========================================================================
+   * CAREGIVER ACCOUNTS
+   * ==========================================================================
+   *
+   * Caregivers and users are linked by email address within an organization.
+   */
+
+  async getCaregiverIdForUser(
+    userId: UUID,
+    organizationId: UUID
+  ): Promise<UUID | null> {
+    const query = `
+      SELECT c.id
+      FROM users u
+      JOIN caregivers c ON c.email = u.email AND c.organization_id = u.organization_id
+      WHERE u.id = $1
+        AND u.organization_id = $2
+        AND u.deleted_at IS NULL
+        AND c.deleted_at IS NULL
+      LIMIT 1
+    `;
+
+    const result = await this.pool.query(query, [userId, organizationId]);
+    return result.rows.length > 0 ? (result.rows[0].id as UUID) : null;
+  }
+
+  async getCaregiverUserAccount(
+    caregiverId: UUID
+  ): Promise<{ userId: UUID; email: string } | null> {
+    const query = `
+      SELECT u.id, u.email
+      FROM caregivers c
+      JOIN users u ON u.email = c.email AND u.organization_id = c.organization_id
+      WHERE c.id = $1
+        AND c.deleted_at IS NULL
+        AND u.deleted_at IS NULL
+      LIMIT 1
+    `;
+
+    const result = await this.pool.query(query, [caregiverId]);
+    if (result.rows.length === 0) {
+      return null;
+    }
+    return { userId: result.rows[0].id as UUID, email: result.rows[0].email as string };
+  }
+
   /**
    * ==========================================================================
    * CAREGIVER PREFERENCE PROFILES
@@ -0,0 +1,223 @@
+/**
+ * Tests for Shift Matching Service
+ *
+ * Tests cover:
+ * - Proposal notifications to caregivers
+ * - Expiry of unanswered proposals
+ * - Withdrawing proposals
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { NotificationService, UserContext } from '@care-commons/core';
+import type { CaregiverService } from '@care-commons/caregiver-staff';
+import { ShiftMatchingService } from '../shift-matching-service';
+import { ShiftMatchingRepository } from '../../repository/shift-matching-repository';
+import type {
+  AssignmentProposal,
+  CreateProposalInput,
+  MatchCandidate,
+  OpenShift,
+} from '../../types/shift-matching';
+
+const mockPool = { query: vi.fn() } as unknown as any;
+
+const context: UserContext = {
+  userId: 'scheduler-1',
+  organizationId: 'org-1',
+  branchIds: ['branch-1'],
+  roles: ['SCHEDULER'],
+  permissions: [],
+};
+
+const proposal = (overrides: Partial<AssignmentProposal> = {}): AssignmentProposal =>
+  ({
+    id: 'proposal-1',
+    organizationId: 'org-1',
+    branchId: 'branch-1',
+    openShiftId: 'shift-1',
+    visitId: 'visit-1',
+    caregiverId: 'caregiver-1',
+    matchScore: 82,
+    matchQuality: 'GOOD',
+    matchReasons: [],
+    proposalStatus: 'PENDING',
+    proposalMethod: 'AUTOMATIC',
+    sentToCaregiver: false,
+    viewedByCaregiver: false,
+    isPreferred: false,
+    urgencyFlag: false,
+    ...overrides,
+  }) as AssignmentProposal;
+
+const openShift = (overrides: Partial<OpenShift> = {}): OpenShift =>
+  ({
+    id: 'shift-1',
+    organizationId: 'org-1',
+    branchId: 'branch-1',
+    visitId: 'visit-1',
+    scheduledDate: new Date('2025-01-20T00:00:00Z'),
+    startTime: '09:00',
+    endTime: '13:00',
+    matchingStatus: 'PROPOSED',
+    ...overrides,
+  }) as OpenShift;
+
+const candidate = { overallScore: 82, matchQuality: 'GOOD', matchReasons: [] } as unknown as MatchCandidate;
+
+const proposalInput: CreateProposalInput = {
+  openShiftId: 'shift-1',
+  caregiverId: 'caregiver-1',
+  proposalMethod: 'AUTOMATIC',
+  sendNotification: true,
+  notificationMethod: 'PUSH',
+};
+
+describe('ShiftMatchingService', () => {
+  let service: ShiftMatchingService;
+  let notificationService: NotificationService;
+
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    notificationService = { send: vi.fn().mockResolvedValue([]) } as unknown as NotificationService;
+    service = new ShiftMatchingService(mockPool, {} as CaregiverService, notificationService);
+
+    vi.spyOn(ShiftMatchingRepository.prototype, 'createProposal').mockResolvedValue(proposal());
+    vi.spyOn(ShiftMatchingRepository.prototype, 'updateProposalStatus').mockImplementation(
+      async (id, status) => proposal({ id, proposalStatus: status })
+    );
+    vi.spyOn(ShiftMatchingRepository.prototype, 'getOpenShift').mockResolvedValue(openShift());
+    vi.spyOn(ShiftMatchingRepository.prototype, 'getCaregiverUserAccount').mockResolvedValue({
+      userId: 'user-7',
+      email: 'caregiver@example.org',
+    });
+    vi.spyOn(ShiftMatchingRepository.prototype, 'getCaregiverPreferences').mockResolvedValue(null);
+    vi.spyOn(ShiftMatchingRepository.prototype, 'createMatchHistory').mockResolvedValue({} as never);
+    vi.spyOn(ShiftMatchingRepository.prototype, 'updateOpenShiftStatus').mockResolvedValue(openShift());
+  });
+
+  describe('createProposal', () => {
+    it('should mark the proposal sent and notify the caregiver by push and email', async () => {
+      const created = await service.createProposal(proposalInput, candidate, context);
+
+      expect(created.proposalStatus).toBe('SENT');
+      expect(notificationService.send).toHaveBeenCalledWith(
+        expect.objectContaining({
+          eventType: 'SHIFT_PROPOSAL_SENT',
+          recipients: [
+            { userId: 'user-7', email: 'caregiver@example.org', preferredChannels: ['PUSH', 'EMAIL'] },
+          ],
+          subject: 'New Shift Offer',
+          message: expect.stringContaining('2025-01-20 from 09:00 to 13:00'),
+          relatedEntityType: 'assignment_proposal',
+          relatedEntityId: 'proposal-1',
+        })
+      );
+    });
+
+    it('should use the caregiver\'s preferred notification channels', async () => {
+      vi.mocked(ShiftMatchingRepository.prototype.getCaregiverPreferences).mockResolvedValue({
+        notificationMethods: ['SMS', 'EMAIL'],
+      } as never);
+
+      await service.createProposal(proposalInput, candidate, context);
+
+      expect(vi.mocked(notificationService.send).mock.calls[0]![0].recipients[0]!.preferredChannels).toEqual([
+        'EMAIL',
+      ]);
+    });
+
+    it('should keep the proposal when the notification fails', async () => {
+      vi.mocked(notificationService.send).mockRejectedValue(new Error('Expo unavailable'));
+      vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      const created = await service.createProposal(proposalInput, candidate, context);
+
+      expect(created.proposalStatus).toBe('SENT');
+    });
+
+    it('should not notify when the caregiver has no user account', async () => {
+      vi.mocked(ShiftMatchingRepository.prototype.getCaregiverUserAccount).mockResolvedValue(null);
+      vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+      await service.createProposal(proposalInput, candidate, context);
+
+      expect(notificationService.send).not.toHaveBeenCalled();
+    });
+
+    it('should leave the proposal pending without a notification request', async () => {
+      const created = await service.createProposal(
+        { ...proposalInput, sendNotification: false },
+        candidate,
+        context
+      );
+
+      expect(created.proposalStatus).toBe('PENDING');
+      expect(ShiftMatchingRepository.prototype.updateProposalStatus).not.toHaveBeenCalled();
+      expect(notificationService.send).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('expireStaleProposals', () => {
+    it('should expire stale proposals in the caller\'s organization and reopen their shift', async () => {
+      vi.spyOn(ShiftMatchingRepository.prototype, 'findStaleProposals').mockResolvedValue([
+        proposal({ id: 'proposal-1', proposalStatus: 'SENT' }),
+        proposal({ id: 'proposal-2', caregiverId: 'caregiver-2', proposalStatus: 'VIEWED' }),
+      ]);
+      vi.spyOn(ShiftMatchingRepository.prototype, 'getProposalsByOpenShift').mockResolvedValue([
+        proposal({ id: 'proposal-1', proposalStatus: 'EXPIRED' }),
+        proposal({ id: 'proposal-2', proposalStatus: 'EXPIRED' }),
+      ]);
+
+      const expired = await service.expireStaleProposals(context);
+
+      expect(expired).toBe(2);
+      expect(ShiftMatchingRepository.prototype.findStaleProposals).toHaveBeenCalledWith('org-1');
+      expect(ShiftMatchingRepository.prototype.updateProposalStatus).toHaveBeenCalledWith('proposal-2', 'EXPIRED', context);
+      expect(ShiftMatchingRepository.prototype.createMatchHistory).toHaveBeenCalledWith(
+        expect.objectContaining({
+          visitId: 'visit-1',
+          caregiverId: 'caregiver-2',
+          outcome: 'EXPIRED',
+          assignmentProposalId: 'proposal-2',
+        }),
+        context
+      );
+      expect(ShiftMatchingRepository.prototype.updateOpenShiftStatus).toHaveBeenCalledTimes(1);
+      expect(ShiftMatchingRepository.prototype.updateOpenShiftStatus).toHaveBeenCalledWith('shift-1', 'MATCHED', context);
+    });
+
+    it('should leave the shift proposed while another proposal is still open', async () => {
+      vi.spyOn(ShiftMatchingRepository.prototype, 'findStaleProposals').mockResolvedValue([
+        proposal({ proposalStatus: 'SENT' }),
+      ]);
+      vi.spyOn(ShiftMatchingRepository.prototype, 'getProposalsByOpenShift').mockResolvedValue([
+        proposal({ proposalStatus: 'EXPIRED' }),
+        proposal({ id: 'proposal-2', proposalStatus: 'VIEWED' }),
+      ]);
+
+      await service.expireStaleProposals(context);
+
+      expect(ShiftMatchingRepository.prototype.updateOpenShiftStatus).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('withdrawProposal', () => {
+    it('should withdraw an open proposal', async () => {
+      vi.spyOn(ShiftMatchingRepository.prototype, 'getProposal').mockResolvedValue(proposal({ proposalStatus: 'SENT' }));
+      vi.spyOn(ShiftMatchingRepository.prototype, 'getProposalsByOpenShift').mockResolvedValue([]);
+
+      const withdrawn = await service.withdrawProposal('proposal-1', context);
+
+      expect(withdrawn.proposalStatus).toBe('WITHDRAWN');
+      expect(ShiftMatchingRepository.prototype.updateOpenShiftStatus).toHaveBeenCalledWith('shift-1', 'MATCHED', context);
+    });
+
+    it('should reject withdrawing an answered proposal', async () => {
+      vi.spyOn(ShiftMatchingRepository.prototype, 'getProposal').mockResolvedValue(
+        proposal({ proposalStatus: 'ACCEPTED' })
+      );
+
+      await expect(service.withdrawProposal('proposal-1', context)).rejects.toThrow('Proposal is no longer active');
+    });
+  });
+});
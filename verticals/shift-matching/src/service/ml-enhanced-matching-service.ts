@@ -99,6 +99,7 @@ export class MLEnhancedMatchingService {
           hybrid_score: prediction.hybrid_score,
           ml_weight: prediction.ml_weight,
           prediction_id: prediction.id,
+          feature_contributions: prediction.prediction_details.feature_contributions,
         },
       };
     });
@@ -1,5 +1,5 @@
 import { Knex } from 'knex';
-import { MLFeatureVector } from '../types/ml-matching';
+import { MLFeatureVector, MLTrainingConfig } from '../types/ml-matching';
 import { MatchCandidate, OpenShift } from '../types/shift-matching';
 
 /**
@@ -202,6 +202,7 @@ export class MLFeatureExtractionService {
     max_date?: Date;
     include_incomplete?: boolean;
     limit?: number;
+    target_variable?: MLTrainingConfig['target_variable'];
   }): Promise<Array<{
     features: MLFeatureVector;
     label: number;
@@ -240,7 +241,12 @@ export class MLFeatureExtractionService {
 
       // Calculate label based on outcome
       // For match_success: accept + complete + no no-show
-      const label = row.was_accepted && row.was_completed && !row.was_no_show ? 1 : 0;
+      let label = row.was_accepted && row.was_completed && !row.was_no_show ? 1 : 0;
+      if (filters?.target_variable === 'completion_rate') {
+        label = row.was_completed ? 1 : 0;
+      } else if (filters?.target_variable === 'no_show_probability') {
+        label = row.was_no_show ? 1 : 0;
+      }
 
       // Weight by recency (more recent = higher weight)
       const daysSince = (Date.now() - new Date(row.matched_at).getTime()) / (1000 * 60 * 60 * 24);
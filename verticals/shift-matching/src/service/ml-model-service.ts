@@ -7,22 +7,35 @@ import {
   MLPrediction,
   MLFeatureVector,
 } from '../types/ml-matching';
+import { MLFeatureExtractionService } from './ml-feature-extraction-service';
+import {
+  GradientBoosting,
+  GradientBoostedModel,
+  GradientBoostingOptions,
+  BoostingSample,
+  aucRoc,
+  logLoss,
+} from '../utils/gradient-boosting';
+
+interface TrainingSample {
+  features: MLFeatureVector;
+  label: number;
+  weight: number;
+}
 
 /**
  * ML Model Service for training and prediction
  *
- * Note: This is a TypeScript implementation that uses a simplified gradient boosting
- * algorithm. In production, this would typically call a Python microservice using
- * XGBoost, LightGBM, or scikit-learn for better performance and features.
- *
- * For production deployment, consider:
- * 1. Python microservice with FastAPI
- * 2. Model serving with TensorFlow Serving or MLflow
- * 3. Feature store for consistent feature engineering
- * 4. Model registry for version control
+ * Models are gradient-boosted trees trained in process on the recorded
+ * match outcomes (see utils/gradient-boosting). A trained model is stored as
+ * JSON in ml_models.model_artifact and loaded back for each prediction.
  */
 export class MLModelService {
-  constructor(private db: Knex) {}
+  private featureExtractor: MLFeatureExtractionService;
+
+  constructor(private db: Knex) {
+    this.featureExtractor = new MLFeatureExtractionService(db);
+  }
 
   /**
    * Train a new ML model
@@ -341,60 +354,29 @@ export class MLModelService {
   // ========== Training Implementation ==========
 
   /**
-   * Load training data from database
+   * Load training data with known outcomes from the feature store
    */
-  private async loadTrainingData(
-    config: MLTrainingConfig
-  ): Promise<Array<{ features: MLFeatureVector; label: number; weight: number }>> {
-    let query = this.db('ml_training_data')
-      .whereNull('deleted_at')
-      .whereNotNull('was_completed'); // Only use samples with known outcomes
-
-    if (config.organization_id) {
-      query = query.where('organization_id', config.organization_id);
-    }
-
-    if (config.data_filters?.min_date) {
-      query = query.where('matched_at', '>=', config.data_filters.min_date);
-    }
-
-    if (config.data_filters?.max_date) {
-      query = query.where('matched_at', '<=', config.data_filters.max_date);
-    }
-
-    const rows = await query.orderBy('matched_at', 'desc');
-
-    return rows.map((row: any) => {
-      const features = typeof row.features === 'string' ? JSON.parse(row.features) : row.features;
-
-      // Label based on target variable
-      let label = 0;
-      if (config.target_variable === 'match_success') {
-        label = row.was_accepted && row.was_completed && !row.was_no_show ? 1 : 0;
-      } else if (config.target_variable === 'completion_rate') {
-        label = row.was_completed ? 1 : 0;
-      } else if (config.target_variable === 'no_show_probability') {
-        label = row.was_no_show ? 1 : 0;
-      }
-
-      // Weight by recency
-      const daysSince = (Date.now() - new Date(row.matched_at).getTime()) / (1000 * 60 * 60 * 24);
-      const weight = Math.exp(-daysSince / 90);
-
-      return { features, label, weight };
+  private async loadTrainingData(config: MLTrainingConfig): Promise<TrainingSample[]> {
+    const dataset = await this.featureExtractor.getTrainingDataset({
+      organization_id: config.organization_id,
+      min_date: config.data_filters?.min_date,
+      max_date: config.data_filters?.max_date,
+      target_variable: config.target_variable,
     });
+
+    return dataset.map((sample) => ({ ...sample, weight: sample.weight ?? 1 }));
   }
 
   /**
    * Split data into train/validation/test sets
    */
   private splitData(
-    data: Array<{ features: MLFeatureVector; label: number; weight: number }>,
+    data: TrainingSample[],
     options?: MLTrainingConfig['training_options']
   ): {
-    train: Array<{ features: MLFeatureVector; label: number; weight: number }>;
-    validation: Array<{ features: MLFeatureVector; label: number; weight: number }>;
-    test: Array<{ features: MLFeatureVector; label: number; weight: number }>;
+    train: TrainingSample[];
+    validation: TrainingSample[];
+    test: TrainingSample[];
   } {
     const testSplit = options?.test_split ?? 0.2;
     const validationSplit = options?.validation_split ?? 0.2;
@@ -414,62 +396,55 @@ export class MLModelService {
   }
 
   /**
-   * Simplified gradient boosting implementation
-   * Note: In production, use XGBoost or LightGBM via Python service
+   * Train gradient-boosted trees, stopping early once the validation loss
+   * stops improving
    */
   private async trainGradientBoostingModel(
-    trainData: Array<{ features: MLFeatureVector; label: number; weight: number }>,
-    _validationData: Array<{ features: MLFeatureVector; label: number; weight: number }>,
+    trainData: TrainingSample[],
+    validationData: TrainingSample[],
     config: MLTrainingConfig
-  ): Promise<any> {
-    const hyperparameters = {
-      learning_rate: 0.1,
-      max_depth: 6,
-      n_estimators: 100,
-      subsample: 0.8,
-      colsample_bytree: 0.8,
-      ...config.hyperparameters,
+  ): Promise<GradientBoostedModel> {
+    const hyperparameters = config.hyperparameters ?? {};
+    const number = (value: unknown, fallback: number): number =>
+      typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+
+    const options: GradientBoostingOptions = {
+      learningRate: number(hyperparameters.learning_rate, 0.1),
+      maxDepth: number(hyperparameters.max_depth, 6),
+      nEstimators: number(hyperparameters.n_estimators, 100),
+      subsample: number(hyperparameters.subsample, 0.8),
+      colsampleByTree: number(hyperparameters.colsample_bytree, 0.8),
+      minChildWeight: number(hyperparameters.min_child_weight, 1),
+      gamma: number(hyperparameters.gamma, 0),
+      lambda: number(hyperparameters.reg_lambda, 1),
+      maxBins: number(hyperparameters.max_bins, 64),
+      earlyStoppingRounds: config.training_options?.early_stopping_rounds ?? 10,
+      randomState: config.training_options?.random_state ?? 42,
     };
 
-    // This is a simplified placeholder
-    // In production, this would call a Python microservice
-    const model: any = {
-      type: config.model_type,
-      hyperparameters,
-      trees: [] as Array<{
-        feature_thresholds: Record<string, number>;
-        weights: Record<string, number>;
-      }>,
-      feature_names: this.getFeatureNames(),
-      n_features: this.getFeatureNames().length,
-      base_score: this.calculateMean(trainData.map((d) => d.label)),
-    };
-
-    // Simulate training by storing feature statistics
-    model.trees = Array.from({ length: hyperparameters.n_estimators }, () => ({
-      feature_thresholds: this.calculateFeatureThresholds(trainData),
-      weights: this.calculateFeatureWeights(trainData),
-    }));
-
-    return model;
+    return GradientBoosting.train(
+      this.getFeatureNames(),
+      this.toBoostingSamples(trainData),
+      this.toBoostingSamples(validationData),
+      options
+    );
   }
 
   /**
    * Evaluate model on test set
    */
-  private evaluateModel(
-    model: any,
-    testData: Array<{ features: MLFeatureVector; label: number; weight: number }>
-  ): MLModelMetrics {
-    const predictions = testData.map((sample) => this.predictSample(model, sample.features));
+  private evaluateModel(model: GradientBoostedModel, testData: TrainingSample[]): MLModelMetrics {
+    const probabilities = testData.map((sample) =>
+      GradientBoosting.predict(model, this.featuresToArray(sample.features))
+    );
     const labels = testData.map((sample) => sample.label);
 
     // Calculate metrics
     let tp = 0, fp = 0, tn = 0, fn = 0;
     const threshold = 0.5;
 
-    predictions.forEach((pred, i) => {
-      const predicted = pred.score >= (threshold * 100) ? 1 : 0;
+    probabilities.forEach((probability, i) => {
+      const predicted = probability >= threshold ? 1 : 0;
       const actual = labels[i];
 
       if (predicted === 1 && actual === 1) tp++;
@@ -478,55 +453,50 @@ export class MLModelService {
       else if (predicted === 0 && actual === 1) fn++;
     });
 
-    const accuracy = (tp + tn) / (tp + tn + fp + fn);
+    const accuracy = (tp + tn) / (tp + tn + fp + fn) || 0;
     const precision = tp / (tp + fp) || 0;
     const recall = tp / (tp + fn) || 0;
     const f1_score = 2 * (precision * recall) / (precision + recall) || 0;
 
-    // Calculate AUC-ROC (simplified)
-    const auc_roc = this.calculateAUC(predictions.map((p) => p.score / 100), labels);
-
     return {
       accuracy,
       precision,
       recall,
       f1_score,
-      auc_roc,
+      auc_roc: aucRoc(probabilities, labels),
+      confusion_matrix: [[tn, fp], [fn, tp]],
+      log_loss: logLoss(probabilities, testData),
     };
   }
 
   /**
    * Make prediction for a single sample
+   *
+   * Feature contributions are in score points and add up to the difference
+   * between this score and the model's average score.
    */
   private predictSample(
-    model: any,
+    model: GradientBoostedModel,
     features: MLFeatureVector
   ): {
     score: number;
     confidence_interval: [number, number];
     feature_contributions: Record<string, number>;
   } {
-    // Simplified prediction
-    // In production, this would use the actual trained model
-
-    // Calculate weighted average of feature values
-    const featureArray = this.featuresToArray(features);
-    let score = model.base_score * 100;
-
-    // Apply simplified boosting
-    model.trees.forEach((tree: any) => {
-      const treeScore = this.evaluateTree(tree, featureArray);
-      score += treeScore * model.hyperparameters.learning_rate;
-    });
+    const explanation = GradientBoosting.explain(model, this.featuresToArray(features));
+    const score = explanation.probability * 100;
 
-    // Clip to [0, 100]
-    score = Math.max(0, Math.min(100, score));
+    // Contributions are additive in log-odds; rescale them so they add up in
+    // probability too
+    const marginShift = explanation.contributions.reduce((sum, value) => sum + value, 0);
+    const scoreShift = score - explanation.expected_probability * 100;
+    const pointsPerLogOdd = Math.abs(marginShift) > 1e-9
+      ? scoreShift / marginShift
+      : 100 * explanation.probability * (1 - explanation.probability);
 
-    // Calculate feature contributions (simplified)
     const feature_contributions: Record<string, number> = {};
-    const featureNames = this.getFeatureNames();
-    featureNames.forEach((name, i) => {
-      feature_contributions[name] = (featureArray[i] || 0) * 0.1; // Simplified
+    model.feature_names.forEach((name, i) => {
+      feature_contributions[name] = (explanation.contributions[i] ?? 0) * pointsPerLogOdd;
     });
 
     return {
@@ -554,12 +524,19 @@ export class MLModelService {
     return `v${date.getFullYear()}${String(date.getMonth() + 1).padStart(2, '0')}${String(date.getDate()).padStart(2, '0')}_${String(date.getHours()).padStart(2, '0')}${String(date.getMinutes()).padStart(2, '0')}`;
   }
 
-  private serializeModel(model: any): string {
+  private serializeModel(model: GradientBoostedModel): string {
     return Buffer.from(JSON.stringify(model)).toString('base64');
   }
 
-  private deserializeModel(artifact: string): any {
-    return JSON.parse(Buffer.from(artifact, 'base64').toString('utf-8'));
+  private deserializeModel(artifact: string): GradientBoostedModel {
+    const model = JSON.parse(Buffer.from(artifact, 'base64').toString('utf-8'));
+
+    // Models saved before in-process training held no trees to predict with
+    if (model?.format !== 'gbdt-logistic') {
+      throw new Error('Model artifact is not a trained gradient boosting model; retrain the model');
+    }
+
+    return model as GradientBoostedModel;
   }
 
   private getFeatureNames(): string[] {
@@ -600,84 +577,16 @@ export class MLModelService {
     ];
   }
 
-  private calculateFeatureThresholds(
-    data: Array<{ features: MLFeatureVector; label: number; weight: number }>
-  ): Record<string, number> {
-    // Calculate median for each feature
-    const thresholds: Record<string, number> = {};
-    const featureNames = this.getFeatureNames();
-
-    featureNames.forEach((name) => {
-      const values = data.map((d) => {
-        const arr = this.featuresToArray(d.features);
-        return arr[featureNames.indexOf(name)] || 0;
-      }).sort((a, b) => (a || 0) - (b || 0));
-
-      thresholds[name] = values[Math.floor(values.length / 2)] || 0;
-    });
-
-    return thresholds;
-  }
-
-  private calculateFeatureWeights(
-    _data: Array<{ features: MLFeatureVector; label: number; weight: number }>
-  ): Record<string, number> {
-    // Simplified feature weight calculation
-    const weights: Record<string, number> = {};
-    const featureNames = this.getFeatureNames();
-
-    featureNames.forEach((name) => {
-      // eslint-disable-next-line sonarjs/pseudo-random
-      weights[name] = Math.random(); // Simplified
-    });
-
-    return weights;
-  }
-
-  private evaluateTree(tree: any, features: number[]): number {
-    // Simplified tree evaluation
-    const featureNames = this.getFeatureNames();
-    let score = 0;
-
-    featureNames.forEach((name, i) => {
-      const weight = tree.weights[name] || 0;
-      score += (features[i] || 0) * weight * 0.01;
-    });
-
-    return score;
-  }
-
-  private calculateFeatureImportance(_model: any): Record<string, number> {
-    // Simplified feature importance
-    const importance: Record<string, number> = {};
-    const featureNames = this.getFeatureNames();
-
-    featureNames.forEach((name) => {
-      // eslint-disable-next-line sonarjs/pseudo-random
-      importance[name] = Math.random(); // Simplified
-    });
-
-    // Normalize
-    const total = Object.values(importance).reduce((sum, val) => sum + val, 0);
-    Object.keys(importance).forEach((key) => {
-      const value = importance[key];
-      if (value !== undefined) {
-        importance[key] = value / total;
-      }
-    });
-
-    return importance;
-  }
-
-  private calculateMean(values: number[]): number {
-    return values.reduce((sum, val) => sum + val, 0) / values.length;
+  private toBoostingSamples(data: TrainingSample[]): BoostingSample[] {
+    return data.map((sample) => ({
+      features: this.featuresToArray(sample.features),
+      label: sample.label,
+      weight: sample.weight,
+    }));
   }
 
-  private calculateAUC(_predictions: number[], _labels: number[]): number {
-    // Simplified AUC calculation
-    // In production, use proper ROC curve calculation
-    // eslint-disable-next-line sonarjs/pseudo-random
-    return 0.75 + Math.random() * 0.2; // Mock value between 0.75 and 0.95
+  private calculateFeatureImportance(model: GradientBoostedModel): Record<string, number> {
+    return GradientBoosting.featureImportance(model);
   }
 
   private shuffleArray<T>(array: T[], seed: number): T[] {
@@ -1,10 +1,29 @@
 import { Knex } from 'knex';
 import {
   ScheduleOptimization,
+  ScheduleOptimizationAlgorithm,
   ScheduleOptimizationConstraints,
   ScheduleOptimizationMetrics,
   ScheduleAssignment,
+  RouteOptimizationMetrics,
+  RouteStop,
 } from '../types/ml-matching';
+import {
+  RouteOptimizer,
+  RouteVisit,
+  GeoPoint,
+  parseClockMinutes,
+} from '../utils/route-optimizer';
+
+const SHIFT_PRIORITY_RANK = {
+  LOW: 1,
+  NORMAL: 2,
+  HIGH: 3,
+  CRITICAL: 4,
+} as const;
+
+// Visits in these states no longer occupy the caregiver's day
+const INACTIVE_VISIT_STATUSES = ['CANCELLED', 'NO_SHOW_CLIENT', 'NO_SHOW_CAREGIVER', 'REJECTED'];
 
 /**
  * Schedule Optimization Service
@@ -15,7 +34,8 @@ import {
  * - Balance caregiver workload
  * - Maximize match quality
  *
- * Uses constraint programming and greedy heuristics.
+ * Uses constraint programming and greedy heuristics. ROUTE_OPTIMIZATION
+ * plans each caregiver's whole day as an ordered route (see RouteOptimizer).
  * For production, consider using Google OR-Tools or similar.
  */
 export class ScheduleOptimizationService {
@@ -33,7 +53,7 @@ export class ScheduleOptimizationService {
       branch_id?: string;
       shift_ids?: string[];
       caregiver_ids?: string[];
-      algorithm?: 'GREEDY' | 'CONSTRAINT_PROGRAMMING' | 'GENETIC_ALGORITHM';
+      algorithm?: ScheduleOptimizationAlgorithm;
     }
   ): Promise<ScheduleOptimization> {
     const startTime = Date.now();
@@ -83,11 +103,17 @@ export class ScheduleOptimizationService {
       const algorithm = options?.algorithm ?? 'GREEDY';
       let assignments: ScheduleAssignment[];
       let iterations = 0;
+      let routeMetrics: RouteOptimizationMetrics | undefined;
 
       if (algorithm === 'GREEDY') {
         const result = this.greedyOptimization(shifts, caregivers, matchMatrix, primaryGoal, constraints);
         assignments = result.assignments;
         iterations = result.iterations;
+      } else if (algorithm === 'ROUTE_OPTIMIZATION') {
+        const result = await this.routeOptimization(shifts, caregivers, scheduleDate, matchMatrix, primaryGoal, constraints);
+        assignments = result.assignments;
+        iterations = result.iterations;
+        routeMetrics = result.routeMetrics;
       } else if (algorithm === 'GENETIC_ALGORITHM') {
         const result = this.geneticAlgorithmOptimization(shifts, caregivers, matchMatrix, primaryGoal, constraints);
         assignments = result.assignments;
@@ -101,6 +127,9 @@ export class ScheduleOptimizationService {
 
       // Calculate metrics
       const metrics = this.calculateMetrics(assignments, shifts, caregivers);
+      if (routeMetrics) {
+        metrics.route_metrics = routeMetrics;
+      }
       const optimizationScore = this.calculateOptimizationScore(metrics, primaryGoal);
 
       const computationTime = Date.now() - startTime;
@@ -337,6 +366,62 @@ export class ScheduleOptimizationService {
     return { assignments: bestSolution, iterations };
   }
 
+  /**
+   * Route optimization - orders each caregiver's visits for the day
+   *
+   * Visits the caregiver already has on this date stay on their route, and
+   * open shifts are inserted between them where the drive and time windows allow.
+   */
+  private async routeOptimization(
+    shifts: any[],
+    caregivers: any[],
+    scheduleDate: Date,
+    matchMatrix: Map<string, Map<string, number>>,
+    goal: ScheduleOptimization['primary_goal'],
+    constraints: ScheduleOptimizationConstraints
+  ): Promise<{ assignments: ScheduleAssignment[]; iterations: number; routeMetrics: RouteOptimizationMetrics }> {
+    const shiftVisits = await this.loadShiftRouteVisits(shifts.map((s) => s.id));
+    const assignedVisits = await this.loadAssignedRouteVisits(
+      caregivers.map((c) => c.id),
+      scheduleDate
+    );
+
+    const plan = RouteOptimizer.optimize(
+      shiftVisits,
+      caregivers.map((c) => ({
+        id: c.id,
+        home: this.parseGeoPoint(c.primary_address?.latitude, c.primary_address?.longitude),
+        assignedVisits: assignedVisits.get(c.id) ?? [],
+      })),
+      // Caregivers the matcher did not score are not eligible for the shift
+      (shiftId, caregiverId) => matchMatrix.get(shiftId)?.get(caregiverId) ?? null,
+      {
+        travelBufferMinutes: constraints.travel_buffer_minutes,
+        maxOpenShiftsPerCaregiver: constraints.max_visits_per_day,
+        maxLegMiles: constraints.max_travel_distance_miles,
+        maxRouteHours: constraints.max_shift_duration_hours,
+      }
+    );
+
+    const assignments: ScheduleAssignment[] = plan.routes.flatMap((route) =>
+      route.stops
+        .filter((stop) => stop.stop_type === 'OPEN_SHIFT')
+        .map((stop) => ({
+          shift_id: stop.id,
+          caregiver_id: route.caregiver_id,
+          match_score: matchMatrix.get(stop.id)?.get(route.caregiver_id) ?? 0,
+          travel_distance_miles: stop.travel_distance_miles,
+          travel_time_minutes: stop.travel_time_minutes,
+          is_continuation: false,
+          rationale: this.generateRouteRationale(goal, stop, route.stops.length),
+          route_sequence: stop.sequence,
+          planned_arrival_time: stop.arrival_time,
+        }))
+    );
+
+    return { assignments, iterations: plan.iterations, routeMetrics: plan.metrics };
+  }
+
   // ========== Helper Methods ==========
 
   private async loadShifts(
@@ -382,6 +467,90 @@ export class ScheduleOptimizationService {
     return query;
   }
 
+  /**
+   * Open shifts as route stops, located at the client's geocoded address
+   */
+  private async loadShiftRouteVisits(shiftIds: string[]): Promise<RouteVisit[]> {
+    const rows = await this.db('open_shifts as os')
+      .join('visits as v', 'v.id', 'os.visit_id')
+      .join('clients as c', 'c.id', 'os.client_id')
+      .leftJoin('service_patterns as sp', 'sp.id', 'v.pattern_id')
+      .whereIn('os.id', shiftIds)
+      .select(
+        'os.id',
+        'os.start_time',
+        'os.duration',
+        'os.priority',
+        'os.latitude',
+        'os.longitude',
+        'c.coordinates',
+        'sp.flexibility_window'
+      );
+
+    return rows.map((row) => ({
+      id: row.id,
+      location:
+        this.parseGeoPoint(row.coordinates?.lat, row.coordinates?.lng) ??
+        this.parseGeoPoint(row.latitude, row.longitude),
+      startMinute: parseClockMinutes(row.start_time),
+      durationMinutes: row.duration,
+      lateToleranceMinutes: row.flexibility_window ?? 0,
+      priority: SHIFT_PRIORITY_RANK[row.priority as keyof typeof SHIFT_PRIORITY_RANK] ?? SHIFT_PRIORITY_RANK.NORMAL,
+    }));
+  }
+
+  /**
+   * Visits each caregiver is already assigned on the schedule date
+   */
+  private async loadAssignedRouteVisits(
+    caregiverIds: string[],
+    scheduleDate: Date
+  ): Promise<Map<string, RouteVisit[]>> {
+    const rows = await this.db('visits as v')
+      .join('clients as c', 'c.id', 'v.client_id')
+      .leftJoin('service_patterns as sp', 'sp.id', 'v.pattern_id')
+      .whereIn('v.assigned_caregiver_id', caregiverIds)
+      .where('v.scheduled_date', scheduleDate)
+      .whereNotIn('v.status', INACTIVE_VISIT_STATUSES)
+      .whereNull('v.deleted_at')
+      .select(
+        'v.id',
+        'v.assigned_caregiver_id',
+        'v.scheduled_start_time',
+        'v.scheduled_duration',
+        'v.is_priority',
+        'v.address',
+        'c.coordinates',
+        'sp.flexibility_window'
+      );
+
+    const visitsByCaregiver = new Map<string, RouteVisit[]>();
+    for (const row of rows) {
+      const visits = visitsByCaregiver.get(row.assigned_caregiver_id) ?? [];
+      visits.push({
+        id: row.id,
+        location:
+          this.parseGeoPoint(row.coordinates?.lat, row.coordinates?.lng) ??
+          this.parseGeoPoint(row.address?.latitude, row.address?.longitude),
+        startMinute: parseClockMinutes(row.scheduled_start_time),
+        durationMinutes: row.scheduled_duration,
+        lateToleranceMinutes: row.flexibility_window ?? 0,
+        priority: row.is_priority ? SHIFT_PRIORITY_RANK.HIGH : SHIFT_PRIORITY_RANK.NORMAL,
+      });
+      visitsByCaregiver.set(row.assigned_caregiver_id, visits);
+    }
+
+    return visitsByCaregiver;
+  }
+
+  private parseGeoPoint(lat: unknown, lng: unknown): GeoPoint | null {
+    if (lat === null || lat === undefined || lng === null || lng === undefined) {
+      return null;
+    }
+    const point = { lat: Number(lat), lng: Number(lng) };
+    return Number.isFinite(point.lat) && Number.isFinite(point.lng) ? point : null;
+  }
+
   private async calculateMatchMatrix(
     shifts: any[],
     caregivers: any[]
@@ -486,6 +655,27 @@ export class ScheduleOptimizationService {
     return rationale;
   }
 
+  private generateRouteRationale(
+    goal: ScheduleOptimization['primary_goal'],
+    stop: RouteStop,
+    routeLength: number
+  ): string[] {
+    const rationale = [
+      `Stop ${stop.sequence} of ${routeLength} on the caregiver's route`,
+      `${stop.travel_time_minutes} min drive from previous stop`,
+    ];
+
+    if (stop.late_minutes > 0) {
+      rationale.push(`Arrives ${stop.late_minutes} min after scheduled start, within the flexibility window`);
+    } else if (stop.unpaid_gap_minutes > 0) {
+      rationale.push(`${stop.unpaid_gap_minutes} min wait before the visit starts`);
+    }
+
+    rationale.push(`Optimized for ${goal.toLowerCase().replace(/_/g, ' ')}`);
+
+    return rationale;
+  }
+
   private calculateMetrics(
     assignments: ScheduleAssignment[],
     shifts: any[],
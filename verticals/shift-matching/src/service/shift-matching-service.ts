@@ -16,6 +16,9 @@ import {
   NotFoundError,
   ConflictError,
   Database,
+  NotificationService,
+  NotificationChannel,
+  getNotificationService,
 } from '@care-commons/core';
 import { ShiftMatchingRepository } from '../repository/shift-matching-repository';
 import { MatchingAlgorithm, CaregiverContext } from '../utils/matching-algorithm';
@@ -30,6 +33,7 @@ import {
   RespondToProposalInput,
   ProposalStatus,
   MatchingStatus,
+  MatchingConfiguration,
 } from '../types/shift-matching';
 
 export interface MatchShiftResult {
@@ -40,13 +44,16 @@ export interface MatchShiftResult {
   ineligibleCount: number;
 }
 
+const ACTIVE_PROPOSAL_STATUSES: ProposalStatus[] = ['PENDING', 'SENT', 'VIEWED'];
+
 export class ShiftMatchingService {
   private repository: ShiftMatchingRepository;
   private caregiverService: CaregiverService;
 
   constructor(
     private pool: Pool,
-    caregiverService?: CaregiverService
+    caregiverService?: CaregiverService,
+    private notificationService?: NotificationService
   ) {
     this.repository = new ShiftMatchingRepository(pool);
     // CaregiverService requires a Database, but we're passing Pool
@@ -97,48 +104,7 @@ export class ShiftMatchingService {
         throw new ValidationError('No matching configuration found. Please create a default configuration first.');
       }
 
-      // Get all active caregivers in the organization
-      const allCaregivers = await this.caregiverService.searchCaregivers(
-        {
-          organizationId: context.organizationId!,
-          status: ['ACTIVE'],
-          branchId: openShift.branchId,
-        },
-        { page: 1, limit: 1000 },
-        context
-      );
-
-      // Evaluate each caregiver
-      const candidates: MatchCandidate[] = [];
-      
-      // Filter out blocked caregivers upfront
-      const eligibleCaregivers = allCaregivers.items.filter(
-        (cg) => !openShift.blockedCaregivers?.includes(cg.id)
-      );
-      
-      // Batch load all caregiver contexts to avoid N+1 queries
-      const caregiverContexts = await this.batchBuildCaregiverContexts(
-        eligibleCaregivers,
-        openShift,
-        context
-      );
-
-      // Evaluate each caregiver with pre-loaded context
-      for (let i = 0; i < eligibleCaregivers.length; i++) {
-        const caregiverContext = caregiverContexts[i];
-        if (caregiverContext === undefined) {
-          continue; // Skip if context couldn't be built
-        }
-        
-        // Evaluate match
-        const candidate = MatchingAlgorithm.evaluateMatch(
-          openShift,
-          caregiverContext,
-          config
-        );
-
-        candidates.push(candidate);
-      }
+      const candidates = await this.evaluateCandidates(openShift, config, context);
 
       // Rank candidates
       const rankedCandidates = MatchingAlgorithm.rankCandidates(candidates);
@@ -227,8 +193,41 @@ export class ShiftMatchingService {
     }
   }
 
+  /**
+   * Rank caregivers for an open shift without changing its status
+   *
+   * Used to preview candidates before proposing; only eligible caregivers
+   * meeting the configuration's minimum score are returned.
+   */
+  async getMatchCandidates(
+    openShiftId: UUID,
+    context: UserContext
+  ): Promise<MatchCandidate[]> {
+    const openShift = await this.repository.getOpenShift(openShiftId);
+    if (openShift === null) {
+      throw new NotFoundError('Open shift not found', { id: openShiftId });
+    }
+
+    const config = await this.repository.getDefaultConfiguration(
+      context.organizationId!,
+      openShift.branchId
+    );
+    if (config === null) {
+      throw new ValidationError('No matching configuration found. Please create a default configuration first.');
+    }
+
+    const candidates = await this.evaluateCandidates(openShift, config, context);
+    return MatchingAlgorithm.rankCandidates(candidates).filter(
+      (c) => c.isEligible && c.overallScore >= config.minScoreForProposal
+    );
+  }
+
   /**
    * Create a proposal for a caregiver-shift pairing
+   *
+   * When sendNotification is set the proposal is marked SENT, which starts
+   * its response window, and the caregiver is notified. Notification
+   * failures are logged and never fail the proposal.
    */
   async createProposal(
     input: CreateProposalInput,
@@ -243,14 +242,38 @@ export class ShiftMatchingService {
       context
     );
 
-    // Send notification to caregiver via notification service
-    // This would integrate with a notification system (push, SMS, email)
-    if (input.sendNotification) {
-      // Mark as sent
-      await this.repository.updateProposalStatus(proposal.id, 'SENT', context);
+    if (input.sendNotification !== true) {
+      return proposal;
     }
 
-    return proposal;
+    const sent = await this.repository.updateProposalStatus(proposal.id, 'SENT', context);
+    await this.notifyCaregiverOfProposal(sent);
+
+    return sent;
+  }
+
+  /**
+   * Scheduler withdraws a proposal that has not been answered
+   */
+  async withdrawProposal(
+    proposalId: UUID,
+    context: UserContext
+  ): Promise<AssignmentProposal> {
+    const proposal = await this.repository.getProposal(proposalId);
+    if (proposal === null) {
+      throw new NotFoundError('Proposal not found', { proposalId });
+    }
+
+    if (!ACTIVE_PROPOSAL_STATUSES.includes(proposal.proposalStatus)) {
+      throw new ValidationError('Proposal is no longer active', {
+        status: proposal.proposalStatus,
+      });
+    }
+
+    const withdrawn = await this.repository.updateProposalStatus(proposalId, 'WITHDRAWN', context);
+    await this.reopenShiftIfNoActiveProposals(proposal.openShiftId, context);
+
+    return withdrawn;
   }
 
   /**
@@ -325,21 +348,7 @@ export class ShiftMatchingService {
       await this.repository.createMatchHistory(historyData, context);
 
       // Check if we should try more matches
-      const remainingProposals = await this.repository.getProposalsByOpenShift(
-        proposal.openShiftId
-      );
-      const activePending = remainingProposals.filter((p) =>
-        ['PENDING', 'SENT', 'VIEWED'].includes(p.proposalStatus ?? '')
-      );
-
-      if (activePending.length === 0) {
-        // No more pending proposals, revert to matched status
-        await this.repository.updateOpenShiftStatus(
-          proposal.openShiftId,
-          'MATCHED',
-          context
-        );
-      }
+      await this.reopenShiftIfNoActiveProposals(proposal.openShiftId, context);
     }
 
     return updatedProposal;
@@ -527,47 +536,161 @@ export class ShiftMatchingService {
 
   /**
    * Expire old proposals that haven't been responded to
+   *
+   * Limited to the caller's organization when the context has one. Open
+   * shifts left without an active proposal go back to MATCHED so they can
+   * be proposed again or claimed.
    */
   async expireStaleProposals(context: UserContext): Promise<number> {
-    const staleProposals = await this.pool.query(
-      `
-      SELECT ap.id, ap.open_shift_id, mc.proposal_expiration_minutes
-      FROM assignment_proposals ap
-      JOIN open_shifts os ON ap.open_shift_id = os.id
-      JOIN matching_configurations mc ON os.organization_id = mc.organization_id
-      WHERE ap.proposal_status IN ('SENT', 'VIEWED', 'PENDING')
-        AND ap.deleted_at IS NULL
-        AND mc.is_default = true
-        AND mc.is_active = true
-        AND ap.sent_at IS NOT NULL
-        AND ap.sent_at < NOW() - (mc.proposal_expiration_minutes ?? ' minutes')::INTERVAL
-      `,
-      []
-    );
+    const staleProposals = await this.repository.findStaleProposals(context.organizationId);
+    const affectedShifts = new Set<UUID>();
 
-    let expiredCount = 0;
-
-    for (const row of staleProposals.rows) {
-      const rowData = row as Record<string, unknown>;
-      await this.repository.updateProposalStatus(rowData.id as string, 'EXPIRED', context);
+    for (const proposal of staleProposals) {
+      await this.repository.updateProposalStatus(proposal.id, 'EXPIRED', context);
 
       await this.repository.createMatchHistory(
         {
-          openShiftId: rowData.open_shift_id as string,
-          visitId: rowData.visit_id as string,
-          caregiverId: rowData.caregiver_id as string,
+          openShiftId: proposal.openShiftId,
+          visitId: proposal.visitId,
+          caregiverId: proposal.caregiverId,
           attemptNumber: 1,
+          matchScore: proposal.matchScore,
+          matchQuality: proposal.matchQuality,
           outcome: 'EXPIRED',
-          assignmentProposalId: rowData.id as string,
+          assignmentProposalId: proposal.id,
           assignedSuccessfully: false,
         },
         context
       );
 
-      expiredCount++;
+      affectedShifts.add(proposal.openShiftId);
+    }
+
+    for (const openShiftId of affectedShifts) {
+      await this.reopenShiftIfNoActiveProposals(openShiftId, context);
+    }
+
+    return staleProposals.length;
+  }
+
+  /**
+   * Private helper: Evaluate every active, unblocked caregiver in the shift's branch
+   */
+  private async evaluateCandidates(
+    openShift: OpenShift,
+    config: MatchingConfiguration,
+    context: UserContext
+  ): Promise<MatchCandidate[]> {
+    // Get all active caregivers in the organization
+    const allCaregivers = await this.caregiverService.searchCaregivers(
+      {
+        organizationId: context.organizationId!,
+        status: ['ACTIVE'],
+        branchId: openShift.branchId,
+      },
+      { page: 1, limit: 1000 },
+      context
+    );
+
+    // Filter out blocked caregivers upfront
+    const eligibleCaregivers = allCaregivers.items.filter(
+      (cg) => !openShift.blockedCaregivers?.includes(cg.id)
+    );
+
+    // Batch load all caregiver contexts to avoid N+1 queries
+    const caregiverContexts = await this.batchBuildCaregiverContexts(
+      eligibleCaregivers,
+      openShift,
+      context
+    );
+
+    // Evaluate each caregiver with pre-loaded context
+    const candidates: MatchCandidate[] = [];
+    for (let i = 0; i < eligibleCaregivers.length; i++) {
+      const caregiverContext = caregiverContexts[i];
+      if (caregiverContext === undefined) {
+        continue; // Skip if context couldn't be built
+      }
+
+      candidates.push(MatchingAlgorithm.evaluateMatch(openShift, caregiverContext, config));
+    }
+
+    return candidates;
+  }
+
+  /**
+   * Private helper: Put a proposed shift back to MATCHED once no proposal is awaiting a response
+   */
+  private async reopenShiftIfNoActiveProposals(
+    openShiftId: UUID,
+    context: UserContext
+  ): Promise<void> {
+    const proposals = await this.repository.getProposalsByOpenShift(openShiftId);
+    const hasActive = proposals.some((p) => ACTIVE_PROPOSAL_STATUSES.includes(p.proposalStatus));
+    if (hasActive) {
+      return;
+    }
+
+    const openShift = await this.repository.getOpenShift(openShiftId);
+    if (openShift !== null && openShift.matchingStatus === 'PROPOSED') {
+      await this.repository.updateOpenShiftStatus(openShiftId, 'MATCHED', context);
+    }
+  }
+
+  /**
+   * Private helper: Tell the caregiver about a new shift offer
+   *
+   * The caregiver's user account is found by email. Messages carry the shift
+   * date and time only - no client details.
+   */
+  private async notifyCaregiverOfProposal(proposal: AssignmentProposal): Promise<void> {
+    try {
+      const account = await this.repository.getCaregiverUserAccount(proposal.caregiverId);
+      if (account === null) {
+        console.warn(`[SHIFT MATCHING] No user account for caregiver ${proposal.caregiverId}, proposal ${proposal.id} not delivered`);
+        return;
+      }
+
+      const openShift = await this.repository.getOpenShift(proposal.openShiftId);
+      const data = {
+        proposalId: proposal.id,
+        openShiftId: proposal.openShiftId,
+        scheduledDate: openShift?.scheduledDate.toISOString().slice(0, 10),
+        startTime: openShift?.startTime,
+        endTime: openShift?.endTime,
+        urgent: proposal.urgencyFlag,
+      };
+      const template = NotificationService.getTemplate('SHIFT_PROPOSAL_SENT', data);
+
+      await (this.notificationService ?? getNotificationService()).send({
+        eventType: 'SHIFT_PROPOSAL_SENT',
+        priority: proposal.urgencyFlag ? 'HIGH' : 'NORMAL',
+        recipients: [{
+          userId: account.userId,
+          email: account.email,
+          preferredChannels: await this.getProposalChannels(proposal.caregiverId),
+        }],
+        subject: template.subject,
+        message: template.message,
+        data,
+        organizationId: proposal.organizationId,
+        relatedEntityType: 'assignment_proposal',
+        relatedEntityId: proposal.id,
+      });
+    } catch (error) {
+      console.error('[SHIFT MATCHING] Failed to send proposal notification:', error);
     }
+  }
 
-    return expiredCount;
+  /**
+   * Private helper: Push and email unless the caregiver has chosen otherwise
+   */
+  private async getProposalChannels(caregiverId: UUID): Promise<NotificationChannel[]> {
+    const preferences = await this.repository.getCaregiverPreferences(caregiverId);
+    const preferred = (preferences?.notificationMethods ?? []).filter(
+      (method): method is 'PUSH' | 'EMAIL' => method === 'PUSH' || method === 'EMAIL'
+    );
+    return preferred.length > 0 ? preferred : ['PUSH', 'EMAIL'];
   }
 
   /**
@@ -248,7 +248,7 @@ export interface ScheduleOptimization {
 
   computation_time_ms: number | null;
   iterations: number | null;
-  algorithm_used: 'GREEDY' | 'CONSTRAINT_PROGRAMMING' | 'GENETIC_ALGORITHM' | null;
+  algorithm_used: ScheduleOptimizationAlgorithm | null;
 
   applied: boolean;
   applied_at: Date | null;
@@ -258,6 +258,12 @@ export interface ScheduleOptimization {
   completed_at: Date | null;
 }
 
+export type ScheduleOptimizationAlgorithm =
+  | 'GREEDY'
+  | 'CONSTRAINT_PROGRAMMING'
+  | 'GENETIC_ALGORITHM'
+  | 'ROUTE_OPTIMIZATION'; // Orders each caregiver's day by drive time and time windows
+
 export interface ScheduleOptimizationConstraints {
   max_travel_distance_miles?: number;
   max_shift_duration_hours?: number;
@@ -267,6 +273,8 @@ export interface ScheduleOptimizationConstraints {
   respect_client_preferences?: boolean;
   maintain_continuity?: boolean;
   balance_workload?: boolean;
+  travel_buffer_minutes?: number; // Added to every drive between visits (ROUTE_OPTIMIZATION)
+  max_visits_per_day?: number; // Open shifts added to each caregiver's day (ROUTE_OPTIMIZATION)
 }
 
 export interface ScheduleAssignment {
@@ -277,6 +285,10 @@ export interface ScheduleAssignment {
   travel_time_minutes: number;
   is_continuation: boolean; // Same caregiver as previous visit
   rationale: string[];
+
+  // Set by ROUTE_OPTIMIZATION
+  route_sequence?: number; // 1-based position in the caregiver's day
+  planned_arrival_time?: string; // HH:MM
 }
 
 export interface ScheduleOptimizationMetrics {
@@ -296,6 +308,42 @@ export interface ScheduleOptimizationMetrics {
 
   constraints_satisfied: string[];
   constraints_violated: string[];
+
+  route_metrics?: RouteOptimizationMetrics; // Set by ROUTE_OPTIMIZATION
+}
+
+export interface RouteOptimizationMetrics {
+  total_drive_time_minutes: number;
+  total_drive_distance_miles: number;
+  avg_drive_time_per_caregiver_minutes: number;
+  total_unpaid_gap_minutes: number; // Idle time between visits
+  max_unpaid_gap_minutes: number;
+  late_arrivals: number; // Arrivals after scheduled start, within the flexibility window
+  routes: CaregiverRoute[];
+}
+
+export interface CaregiverRoute {
+  caregiver_id: string;
+  stops: RouteStop[];
+  total_drive_time_minutes: number;
+  total_drive_distance_miles: number;
+  total_unpaid_gap_minutes: number;
+  start_time: string | null; // HH:MM of first visit
+  end_time: string | null; // HH:MM of last visit
+}
+
+export interface RouteStop {
+  sequence: number;
+  stop_type: 'OPEN_SHIFT' | 'ASSIGNED_VISIT'; // Assigned visits are fixed and only routed around
+  id: string; // open_shift id or visit id
+  arrival_time: string; // HH:MM
+  start_time: string;
+  end_time: string;
+  travel_time_minutes: number; // Drive from previous stop (or home), excluding buffer
+  travel_buffer_minutes: number;
+  travel_distance_miles: number;
+  unpaid_gap_minutes: number; // Wait between arrival and start
+  late_minutes: number;
 }
 
 // Training configuration
@@ -490,4 +490,46 @@ describe('EnhancedMatchExplanations', () => {
       expect(newClientDetail!.match).toBe('GOOD'); // First-time assignments are opportunities
     });
   });
+
+  describe('explainMLPrediction', () => {
+    const prediction = {
+      predicted_score: 82,
+      feature_contributions: {
+        previous_visits_with_client: 9.4,
+        distance_miles: -3.2,
+        caregiver_no_show_rate_30d: 0.4,
+        is_weekend: 1.5,
+      },
+    };
+
+    it('should list the largest contributions first and skip negligible ones', () => {
+      const explanation = EnhancedMatchExplanations.explainMLPrediction(prediction, mockContext);
+
+      expect(explanation.category).toBe('ml_prediction');
+      expect(explanation.score).toBe(82);
+      expect(explanation.overallImpact).toBe('POSITIVE');
+      expect(explanation.details.map(d => d.requirement)).toEqual([
+        'Previous visits with client',
+        'Distance (miles)',
+        'Weekend shift',
+      ]);
+      expect(explanation.details[0]!.caregiverAttribute).toBe("Raised Sarah's predicted success by 9.4 points");
+      expect(explanation.details[0]!.match).toBe('PERFECT');
+      expect(explanation.details[1]!.caregiverAttribute).toBe("Lowered Sarah's predicted success by 3.2 points");
+      expect(explanation.details[1]!.match).toBe('PARTIAL');
+    });
+
+    it('should be added to the explanations when a prediction is given', () => {
+      const without = EnhancedMatchExplanations.generateEnhancedExplanations(mockOpenShift, mockContext, mockScores);
+      const withPrediction = EnhancedMatchExplanations.generateEnhancedExplanations(
+        mockOpenShift,
+        mockContext,
+        mockScores,
+        prediction
+      );
+
+      expect(without.map(e => e.category)).not.toContain('ml_prediction');
+      expect(withPrediction.map(e => e.category)).toContain('ml_prediction');
+    });
+  });
 });
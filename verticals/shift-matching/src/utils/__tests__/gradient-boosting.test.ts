@@ -0,0 +1,142 @@
+/**
+ * Tests for Gradient Boosting
+ *
+ * Tests cover:
+ * - Learning non-linear signal from weighted samples
+ * - Reproducible training and JSON round trips
+ * - Early stopping on the validation split
+ * - Additive per-feature contributions
+ * - AUC and log loss
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  GradientBoosting,
+  BoostingSample,
+  aucRoc,
+  logLoss,
+  sigmoid,
+} from '../gradient-boosting';
+
+const FEATURES = ['distance', 'reliability', 'noise'];
+
+// Deterministic pseudo-random numbers for synthetic data
+const generator = (seed: number): (() => number) => {
+  let state = seed;
+  return () => {
+    state = (state * 9301 + 49297) % 233280;
+    return state / 233280;
+  };
+};
+
+/**
+ * Matches succeed when the caregiver is close AND reliable; the third
+ * feature is noise. Neither feature alone separates the classes.
+ */
+const dataset = (count: number, seed: number, labelNoise = 0): BoostingSample[] => {
+  const random = generator(seed);
+  return Array.from({ length: count }, () => {
+    const distance = random() * 30;
+    const reliability = random() * 100;
+    const success = distance < 12 && reliability > 60;
+    const flipped = random() < labelNoise;
+    return {
+      features: [distance, reliability, random()],
+      label: success !== flipped ? 1 : 0,
+      weight: 1,
+    };
+  });
+};
+
+const logit = (p: number): number => Math.log(p / (1 - p));
+
+describe('GradientBoosting', () => {
+  it('should learn an interaction between features', async () => {
+    const model = await GradientBoosting.train(FEATURES, dataset(600, 1), dataset(200, 2), { maxDepth: 3 });
+    const test = dataset(300, 3);
+    const probabilities = test.map((s) => GradientBoosting.predict(model, s.features));
+
+    expect(aucRoc(probabilities, test.map((s) => s.label))).toBeGreaterThan(0.95);
+    expect(GradientBoosting.predict(model, [5, 90, 0.5])).toBeGreaterThan(0.8);
+    expect(GradientBoosting.predict(model, [25, 90, 0.5])).toBeLessThan(0.2);
+    expect(GradientBoosting.predict(model, [5, 20, 0.5])).toBeLessThan(0.2);
+  });
+
+  it('should rank the informative features above noise', async () => {
+    const model = await GradientBoosting.train(FEATURES, dataset(600, 1), dataset(200, 2), { maxDepth: 3 });
+    const importance = GradientBoosting.featureImportance(model);
+
+    expect(importance['distance']).toBeGreaterThan(importance['noise']!);
+    expect(importance['reliability']).toBeGreaterThan(importance['noise']!);
+    expect(Object.values(importance).reduce((sum, value) => sum + value, 0)).toBeCloseTo(1);
+  });
+
+  it('should train the same model from the same data and seed', async () => {
+    const first = await GradientBoosting.train(FEATURES, dataset(300, 4), dataset(100, 5), { nEstimators: 20 });
+    const second = await GradientBoosting.train(FEATURES, dataset(300, 4), dataset(100, 5), { nEstimators: 20 });
+
+    expect(second).toEqual(first);
+  });
+
+  it('should predict the same after a JSON round trip', async () => {
+    const model = await GradientBoosting.train(FEATURES, dataset(300, 4), [], { nEstimators: 20 });
+    const restored = JSON.parse(JSON.stringify(model));
+
+    expect(restored.trees).toHaveLength(20);
+    expect(GradientBoosting.predict(restored, [8, 75, 0.1])).toBe(GradientBoosting.predict(model, [8, 75, 0.1]));
+  });
+
+  it('should stop early and keep the best round when validation loss stops improving', async () => {
+    const model = await GradientBoosting.train(FEATURES, dataset(300, 6, 0.45), dataset(200, 7, 0.45), {
+      nEstimators: 200,
+      earlyStoppingRounds: 5,
+    });
+
+    expect(model.rounds_trained).toBeLessThan(200);
+    expect(model.rounds_trained).toBe(model.best_iteration + 1 + 5);
+    expect(model.trees).toHaveLength(model.best_iteration + 1);
+  });
+
+  it('should weight samples when fitting', async () => {
+    // Same features, conflicting labels; the heavier label wins
+    const samples: BoostingSample[] = Array.from({ length: 100 }, (_, i) => ({
+      features: [1, 1, 1],
+      label: i % 2,
+      weight: i % 2 === 1 ? 4 : 1,
+    }));
+
+    const model = await GradientBoosting.train(FEATURES, samples, [], { nEstimators: 5 });
+
+    expect(GradientBoosting.predict(model, [1, 1, 1])).toBeCloseTo(0.8, 2);
+  });
+
+  it('should explain predictions with contributions that add up to the prediction', async () => {
+    const model = await GradientBoosting.train(FEATURES, dataset(600, 1), dataset(200, 2), { maxDepth: 3 });
+    const explanation = GradientBoosting.explain(model, [5, 90, 0.5]);
+    const total = explanation.contributions.reduce((sum, value) => sum + value, 0);
+
+    expect(explanation.probability).toBeCloseTo(GradientBoosting.predict(model, [5, 90, 0.5]), 10);
+    expect(logit(explanation.expected_probability) + total).toBeCloseTo(logit(explanation.probability), 8);
+    expect(explanation.contributions[0]).toBeGreaterThan(0);
+    expect(explanation.contributions[1]).toBeGreaterThan(0);
+    expect(Math.abs(explanation.contributions[2]!)).toBeLessThan(explanation.contributions[0]!);
+  });
+
+  it('should reject an empty training set', async () => {
+    await expect(GradientBoosting.train(FEATURES, [], [])).rejects.toThrow('without training samples');
+  });
+});
+
+describe('metrics', () => {
+  it('should compute AUC with tied scores counting half', () => {
+    expect(aucRoc([0.1, 0.4, 0.35, 0.8], [0, 0, 1, 1])).toBe(0.75);
+    expect(aucRoc([0.5, 0.5], [0, 1])).toBe(0.5);
+    expect(aucRoc([0.2, 0.9], [1, 1])).toBe(0.5);
+  });
+
+  it('should compute weighted log loss', () => {
+    expect(logLoss([sigmoid(0)], [{ label: 1 }])).toBeCloseTo(Math.log(2));
+    expect(logLoss([0.9, 0.1], [{ label: 1, weight: 3 }, { label: 1, weight: 1 }]))
+      .toBeCloseTo((3 * -Math.log(0.9) + -Math.log(0.1)) / 4);
+  });
+});
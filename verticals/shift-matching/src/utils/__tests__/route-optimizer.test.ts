@@ -0,0 +1,222 @@
+/**
+ * Tests for Route Optimizer
+ *
+ * Tests cover:
+ * - Travel-time estimates
+ * - Routing around assigned visits
+ * - Time windows and travel buffers
+ * - Drive time and unpaid gap metrics
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  RouteOptimizer,
+  RouteVisit,
+  RouteCaregiver,
+  TravelTimeMatrix,
+  haversineMiles,
+  parseClockMinutes,
+  formatClockMinutes,
+} from '../route-optimizer';
+
+// Roughly 0.07 miles per 0.001 degree of latitude
+const DOWNTOWN = { lat: 30.2672, lng: -97.7431 };
+const NORTH = { lat: 30.4, lng: -97.7431 };
+const SOUTH = { lat: 30.13, lng: -97.7431 };
+
+const visit = (id: string, start: string, overrides: Partial<RouteVisit> = {}): RouteVisit => ({
+  id,
+  location: DOWNTOWN,
+  startMinute: parseClockMinutes(start),
+  durationMinutes: 60,
+  lateToleranceMinutes: 0,
+  priority: 1,
+  ...overrides,
+});
+
+const caregiver = (id: string, overrides: Partial<RouteCaregiver> = {}): RouteCaregiver => ({
+  id,
+  home: DOWNTOWN,
+  assignedVisits: [],
+  ...overrides,
+});
+
+const anyScore = (): number => 50;
+
+describe('TravelTimeMatrix', () => {
+  const options = { averageSpeedMph: 30, roadDistanceFactor: 1.3, unknownTravelMinutes: 30 };
+
+  it('should estimate drive time from straight-line distance', () => {
+    const matrix = new TravelTimeMatrix(new Map([['a', DOWNTOWN], ['b', NORTH]]), options);
+
+    const leg = matrix.get('a', 'b');
+
+    expect(leg.miles).toBeCloseTo(haversineMiles(DOWNTOWN, NORTH) * 1.3, 5);
+    expect(leg.minutes).toBe(Math.ceil((leg.miles / 30) * 60));
+    expect(matrix.get('b', 'a')).toEqual(leg);
+  });
+
+  it('should assume the fallback drive when a location is not geocoded', () => {
+    const matrix = new TravelTimeMatrix(new Map([['a', DOWNTOWN], ['b', null]]), options);
+
+    expect(matrix.get('a', 'b')).toEqual({ miles: 15, minutes: 30 });
+    expect(matrix.get('a', 'a')).toEqual({ miles: 0, minutes: 0 });
+  });
+});
+
+describe('RouteOptimizer', () => {
+  it('should give each caregiver the visits closest to their route', () => {
+    const plan = RouteOptimizer.optimize(
+      [
+        visit('north-am', '09:00', { location: NORTH }),
+        visit('south-am', '09:00', { location: SOUTH }),
+        visit('north-pm', '13:00', { location: NORTH }),
+        visit('south-pm', '13:00', { location: SOUTH }),
+      ],
+      [caregiver('cg-north', { home: NORTH }), caregiver('cg-south', { home: SOUTH })],
+      anyScore
+    );
+
+    expect(plan.unassignedShiftIds).toEqual([]);
+    expect(plan.assignments.get('north-am')).toBe('cg-north');
+    expect(plan.assignments.get('north-pm')).toBe('cg-north');
+    expect(plan.assignments.get('south-am')).toBe('cg-south');
+    expect(plan.assignments.get('south-pm')).toBe('cg-south');
+    expect(plan.metrics.total_drive_time_minutes).toBe(0);
+  });
+
+  it('should order stops through the day with travel buffers between visits', () => {
+    const plan = RouteOptimizer.optimize(
+      [visit('second', '11:00', { location: NORTH }), visit('first', '08:00')],
+      [caregiver('cg-1')],
+      anyScore,
+      { travelBufferMinutes: 15 }
+    );
+
+    const [route] = plan.routes;
+    const leg = haversineMiles(DOWNTOWN, NORTH) * 1.3;
+    const driveMinutes = Math.ceil((leg / 30) * 60);
+
+    expect(route?.stops.map((s) => s.id)).toEqual(['first', 'second']);
+    expect(route?.stops[1]).toMatchObject({
+      sequence: 2,
+      stop_type: 'OPEN_SHIFT',
+      arrival_time: formatClockMinutes(9 * 60 + driveMinutes + 15),
+      start_time: '11:00',
+      travel_time_minutes: driveMinutes,
+      travel_buffer_minutes: 15,
+      unpaid_gap_minutes: 11 * 60 - (9 * 60 + driveMinutes + 15),
+      late_minutes: 0,
+    });
+    // Out to the second visit and back home
+    expect(route?.total_drive_time_minutes).toBe(driveMinutes * 2);
+  });
+
+  it('should route open shifts around visits already assigned', () => {
+    const plan = RouteOptimizer.optimize(
+      [visit('open', '10:00')],
+      [caregiver('cg-1', { assignedVisits: [visit('assigned-am', '08:00'), visit('assigned-pm', '12:00')] })],
+      anyScore
+    );
+
+    expect(plan.routes[0]?.stops.map((s) => [s.id, s.stop_type])).toEqual([
+      ['assigned-am', 'ASSIGNED_VISIT'],
+      ['open', 'OPEN_SHIFT'],
+      ['assigned-pm', 'ASSIGNED_VISIT'],
+    ]);
+  });
+
+  it('should not assign a visit the caregiver cannot reach in time', () => {
+    const plan = RouteOptimizer.optimize(
+      [visit('far', '09:05', { location: NORTH })],
+      [caregiver('cg-1', { assignedVisits: [visit('assigned', '08:00')] })],
+      anyScore
+    );
+
+    expect(plan.unassignedShiftIds).toEqual(['far']);
+    expect(plan.routes).toEqual([]);
+  });
+
+  it('should allow late arrival within the flexibility window', () => {
+    const plan = RouteOptimizer.optimize(
+      [visit('flexible', '09:05', { location: NORTH, lateToleranceMinutes: 60 })],
+      [caregiver('cg-1', { assignedVisits: [visit('assigned', '08:00')] })],
+      anyScore
+    );
+
+    const stop = plan.routes[0]?.stops[1];
+    expect(plan.assignments.get('flexible')).toBe('cg-1');
+    expect(stop?.late_minutes).toBeGreaterThan(0);
+    expect(stop?.late_minutes).toBeLessThanOrEqual(60);
+    expect(plan.metrics.late_arrivals).toBe(1);
+  });
+
+  it('should prefer the caregiver that leaves the shortest unpaid gap', () => {
+    const plan = RouteOptimizer.optimize(
+      [visit('open', '10:00')],
+      [
+        caregiver('cg-gap', { assignedVisits: [visit('early', '06:00')] }),
+        caregiver('cg-tight', { assignedVisits: [visit('just-before', '08:50')] }),
+      ],
+      anyScore
+    );
+
+    expect(plan.assignments.get('open')).toBe('cg-tight');
+    expect(plan.metrics.total_unpaid_gap_minutes).toBe(0);
+  });
+
+  it('should skip caregivers the scorer excludes', () => {
+    const plan = RouteOptimizer.optimize(
+      [visit('open', '09:00')],
+      [caregiver('cg-blocked'), caregiver('cg-allowed', { home: NORTH })],
+      (_shiftId, caregiverId) => (caregiverId === 'cg-blocked' ? null : 50)
+    );
+
+    expect(plan.assignments.get('open')).toBe('cg-allowed');
+  });
+
+  it('should respect the visit limit and leg distance constraints', () => {
+    const limited = RouteOptimizer.optimize(
+      [visit('a', '08:00'), visit('b', '10:00')],
+      [caregiver('cg-1')],
+      anyScore,
+      { maxOpenShiftsPerCaregiver: 1 }
+    );
+    const alreadyBooked = RouteOptimizer.optimize(
+      [visit('open', '12:00')],
+      [caregiver('cg-1', { assignedVisits: [visit('assigned-am', '08:00'), visit('assigned-mid', '10:00')] })],
+      anyScore,
+      { maxOpenShiftsPerCaregiver: 1 }
+    );
+    const nearby = RouteOptimizer.optimize(
+      [visit('far', '08:00', { location: NORTH })],
+      [caregiver('cg-1')],
+      anyScore,
+      { maxLegMiles: 5 }
+    );
+
+    expect(limited.assignments.size).toBe(1);
+    expect(limited.unassignedShiftIds).toHaveLength(1);
+    expect(alreadyBooked.assignments.get('open')).toBe('cg-1');
+    expect(nearby.unassignedShiftIds).toEqual(['far']);
+  });
+
+  it('should place higher-priority shifts first when they compete for one caregiver', () => {
+    const plan = RouteOptimizer.optimize(
+      [visit('normal', '09:00'), visit('critical', '09:30', { priority: 4 })],
+      [caregiver('cg-1')],
+      anyScore
+    );
+
+    expect(plan.assignments.get('critical')).toBe('cg-1');
+    expect(plan.unassignedShiftIds).toEqual(['normal']);
+  });
+});
+
+describe('clock helpers', () => {
+  it('should convert between HH:MM[:SS] and minutes after midnight', () => {
+    expect(parseClockMinutes('08:30:00')).toBe(510);
+    expect(parseClockMinutes('17:05')).toBe(1025);
+    expect(formatClockMinutes(510)).toBe('08:30');
+  });
+});
@@ -11,6 +11,7 @@
  * - "Visit Tuesday 10:00-12:00 → Sarah available Tuesday 8:00-17:00 (no conflicts)"
  * - "Client prefers Spanish-speaking → Sarah speaks English, Spanish"
  * - "Sarah has 98% on-time rate, 4.8/5 average rating"
+ * - "Previous visits with client: 6 → raised predicted success by 9.4 points"
  */
 
 import type { OpenShift, MatchCandidate, MatchScores } from '../types/shift-matching';
@@ -24,6 +25,15 @@ export interface EnhancedMatchExplanation {
   score: number;
 }
 
+/**
+ * ML prediction for a candidate, with per-feature contributions in score
+ * points relative to the model's average prediction
+ */
+export interface MLPredictionInsight {
+  predicted_score: number;
+  feature_contributions?: Record<string, number>;
+}
+
 export interface MatchDetail {
   requirement: string;
   caregiverAttribute: string;
@@ -32,14 +42,46 @@ export interface MatchDetail {
   icon?: string;
 }
 
+const FEATURE_LABELS: Record<string, string> = {
+  skill_match: 'Skill match score',
+  availability_match: 'Availability score',
+  proximity_match: 'Proximity score',
+  preference_match: 'Client preference score',
+  experience_match: 'Experience score',
+  reliability_match: 'Reliability score',
+  compliance_match: 'Compliance score',
+  capacity_match: 'Capacity score',
+  distance_miles: 'Distance (miles)',
+  estimated_travel_minutes: 'Travel time (minutes)',
+  previous_visits_with_client: 'Previous visits with client',
+  caregiver_reliability_score: 'Reliability rating',
+  caregiver_weekly_hours: 'Hours already scheduled this week',
+  shift_duration_hours: 'Shift length (hours)',
+  is_weekend: 'Weekend shift',
+  is_evening: 'Evening shift',
+  is_night: 'Night shift',
+  day_of_week: 'Day of week',
+  hour_of_day: 'Start hour',
+  caregiver_experience_years: 'Years of experience',
+  caregiver_acceptance_rate_30d: 'Acceptance rate (30 days)',
+  caregiver_no_show_rate_30d: 'No-show rate (30 days)',
+};
+
+/** Contributions smaller than this many score points aren't worth a line */
+const MIN_CONTRIBUTION_POINTS = 1;
+
 export class EnhancedMatchExplanations {
   /**
    * Generate comprehensive match explanations with specific details
+   *
+   * With an ML prediction, a final explanation lists the features that moved
+   * the model's score the most.
    */
   static generateEnhancedExplanations(
     shift: OpenShift,
     context: CaregiverContext,
-    scores: MatchScores
+    scores: MatchScores,
+    prediction?: MLPredictionInsight
   ): EnhancedMatchExplanation[] {
     const explanations: EnhancedMatchExplanation[] = [];
 
@@ -61,6 +103,11 @@ export class EnhancedMatchExplanations {
     // Track Record & Reliability
     explanations.push(this.explainReliability(context, scores.reliabilityMatch));
 
+    // What drove the ML prediction
+    if (prediction) {
+      explanations.push(this.explainMLPrediction(prediction, context));
+    }
+
     return explanations.filter(e => e.details.length > 0);
   }
 
@@ -479,6 +526,44 @@ export class EnhancedMatchExplanations {
     };
   }
 
+  /**
+   * Explain the features that pushed the ML prediction up or down
+   */
+  static explainMLPrediction(
+    prediction: MLPredictionInsight,
+    context: CaregiverContext,
+    maxDetails = 5
+  ): EnhancedMatchExplanation {
+    const { caregiver } = context;
+    const contributions = Object.entries(prediction.feature_contributions ?? {})
+      .filter(([, points]) => Math.abs(points) >= MIN_CONTRIBUTION_POINTS)
+      .sort(([, a], [, b]) => Math.abs(b) - Math.abs(a))
+      .slice(0, maxDetails);
+
+    const details: MatchDetail[] = contributions.map(([feature, points]) => {
+      const raised = points > 0;
+      return {
+        requirement: FEATURE_LABELS[feature] ?? feature.replaceAll('_', ' '),
+        caregiverAttribute: `${raised ? 'Raised' : 'Lowered'} ${caregiver.firstName}'s predicted success by ${Math.abs(points).toFixed(1)} points`,
+        match: raised ? (points >= 5 ? 'PERFECT' : 'GOOD') : (points <= -5 ? 'MISSING' : 'PARTIAL'),
+        explanation: raised
+          ? `Similar matches succeeded more often`
+          : `Similar matches succeeded less often`,
+        icon: raised ? '📈' : '📉',
+      };
+    });
+
+    const netPoints = contributions.reduce((sum, [, points]) => sum + points, 0);
+
+    return {
+      category: 'ml_prediction',
+      title: 'Prediction Drivers',
+      details,
+      overallImpact: netPoints >= MIN_CONTRIBUTION_POINTS ? 'POSITIVE' : netPoints <= -MIN_CONTRIBUTION_POINTS ? 'NEGATIVE' : 'NEUTRAL',
+      score: prediction.predicted_score,
+    };
+  }
+
   /**
    * Generate a concise summary for display
    */
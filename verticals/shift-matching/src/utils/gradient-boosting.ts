@@ -0,0 +1,522 @@
+/**
+ * Gradient Boosting - In-process gradient-boosted trees for match prediction
+ *
+ * Trains a binary classifier on CPU without leaving the app process:
+ * - Regression trees grown depth-wise on quantile histograms of each feature
+ * - Logistic loss with per-sample weights (recency-weighted training data)
+ * - Row subsampling and per-tree column sampling from a seeded generator,
+ *   so the same data and seed always train the same model
+ * - Early stopping on the validation split, keeping the best round
+ *
+ * Models are plain JSON so they store in the existing model artifact column.
+ * Per-feature contributions follow each prediction's path through the trees
+ * and add up exactly to the difference between the prediction and the
+ * model's average prediction.
+ */
+
+export interface BoostingSample {
+  features: number[];
+  label: number; // 0 or 1
+  weight: number;
+}
+
+export interface GradientBoostingOptions {
+  learningRate: number;
+  maxDepth: number;
+  nEstimators: number;
+  subsample: number; // Fraction of rows each tree is grown on
+  colsampleByTree: number; // Fraction of features each tree may split on
+  minChildWeight: number; // Minimum hessian sum in a child
+  gamma: number; // Minimum gain to make a split
+  lambda: number; // L2 regularization on leaf values
+  maxBins: number; // Histogram bins per feature, at most 256
+  earlyStoppingRounds: number; // Rounds without validation improvement before stopping
+  randomState: number;
+}
+
+export const DEFAULT_GRADIENT_BOOSTING_OPTIONS: GradientBoostingOptions = {
+  learningRate: 0.1,
+  maxDepth: 6,
+  nEstimators: 100,
+  subsample: 0.8,
+  colsampleByTree: 0.8,
+  minChildWeight: 1,
+  gamma: 0,
+  lambda: 1,
+  maxBins: 64,
+  earlyStoppingRounds: 10,
+  randomState: 42,
+};
+
+/**
+ * A tree node. `value` is the leaf output for leaves, and the cover-weighted
+ * average output of the subtree for splits. Samples with
+ * `features[feature] < threshold` go left.
+ */
+export type TreeNode =
+  | { leaf: true; value: number; cover: number }
+  | {
+      leaf: false;
+      value: number;
+      cover: number;
+      feature: number;
+      threshold: number;
+      gain: number;
+      left: number;
+      right: number;
+    };
+
+export interface RegressionTree {
+  nodes: TreeNode[]; // Root first
+}
+
+export interface GradientBoostedModel {
+  format: 'gbdt-logistic';
+  format_version: 1;
+  feature_names: string[];
+  base_margin: number; // Log-odds before any tree
+  learning_rate: number;
+  trees: RegressionTree[];
+  best_iteration: number;
+  rounds_trained: number;
+  best_validation_log_loss: number | null;
+  feature_gain: number[]; // Total split gain per feature
+}
+
+export interface PredictionExplanation {
+  probability: number;
+  expected_probability: number; // Model's average prediction
+  /** Per-feature shift in log-odds from the average prediction */
+  contributions: number[];
+}
+
+const EPSILON = 1e-15;
+
+export class GradientBoosting {
+  /**
+   * Train a model. Yields to the event loop between rounds so a long
+   * training run doesn't stall requests served by the same process.
+   */
+  static async train(
+    featureNames: string[],
+    trainData: BoostingSample[],
+    validationData: BoostingSample[],
+    options: Partial<GradientBoostingOptions> = {}
+  ): Promise<GradientBoostedModel> {
+    const settings = { ...DEFAULT_GRADIENT_BOOSTING_OPTIONS, ...options };
+    if (trainData.length === 0) {
+      throw new Error('Cannot train a model without training samples');
+    }
+    if (settings.maxBins < 2 || settings.maxBins > 256) {
+      throw new Error('maxBins must be between 2 and 256');
+    }
+
+    const trainer = new BoostingTrainer(featureNames, trainData, validationData, settings);
+    return await trainer.run();
+  }
+
+  /**
+   * Probability of the positive class
+   */
+  static predict(model: GradientBoostedModel, features: number[]): number {
+    const x = sanitize(features);
+    let margin = model.base_margin;
+    for (const tree of model.trees) {
+      margin += model.learning_rate * leafFor(tree, x).value;
+    }
+    return sigmoid(margin);
+  }
+
+  /**
+   * Prediction with the contribution of each feature
+   *
+   * Each split on a sample's path moves the expected output from the split's
+   * average to the average of the branch taken; that move is credited to the
+   * split's feature. The contributions sum to the prediction's log-odds minus
+   * the model's average log-odds.
+   */
+  static explain(model: GradientBoostedModel, features: number[]): PredictionExplanation {
+    const x = sanitize(features);
+    const contributions = Array.from({ length: model.feature_names.length }, () => 0);
+    let expected = model.base_margin;
+    let margin = model.base_margin;
+
+    for (const tree of model.trees) {
+      let node = tree.nodes[0]!;
+      expected += model.learning_rate * node.value;
+
+      while (!node.leaf) {
+        const next = tree.nodes[goesLeft(node, x) ? node.left : node.right]!;
+        contributions[node.feature]! += model.learning_rate * (next.value - node.value);
+        node = next;
+      }
+      margin += model.learning_rate * node.value;
+    }
+
+    return {
+      probability: sigmoid(margin),
+      expected_probability: sigmoid(expected),
+      contributions,
+    };
+  }
+
+  /**
+   * Share of total split gain per feature
+   */
+  static featureImportance(model: GradientBoostedModel): Record<string, number> {
+    const total = model.feature_gain.reduce((sum, gain) => sum + gain, 0);
+    return Object.fromEntries(
+      model.feature_names.map((name, i) => [name, total > 0 ? (model.feature_gain[i] ?? 0) / total : 0])
+    );
+  }
+}
+
+/**
+ * Grows the trees for one training run
+ */
+class BoostingTrainer {
+  private readonly random: () => number;
+  private readonly binEdges: number[][];
+  private readonly bins: Uint8Array[]; // Per feature, bin of each training sample
+  private readonly gradients: Float64Array;
+  private readonly hessians: Float64Array;
+  private readonly trainMargins: Float64Array;
+  private readonly validationMargins: Float64Array;
+  private readonly featureGain: number[];
+  private readonly baseMargin: number;
+
+  constructor(
+    private readonly featureNames: string[],
+    private readonly trainData: BoostingSample[],
+    private readonly validationData: BoostingSample[],
+    private readonly options: GradientBoostingOptions
+  ) {
+    this.random = seededRandom(options.randomState);
+    const featureCount = featureNames.length;
+    const columns = Array.from({ length: featureCount }, (_, f) =>
+      trainData.map((sample) => finite(sample.features[f]))
+    );
+
+    this.binEdges = columns.map((column) => quantileEdges(column, options.maxBins));
+    this.bins = columns.map((column, f) => Uint8Array.from(column, (value) => binOf(this.binEdges[f]!, value)));
+    this.gradients = new Float64Array(trainData.length);
+    this.hessians = new Float64Array(trainData.length);
+    this.featureGain = Array.from({ length: featureCount }, () => 0);
+
+    this.baseMargin = logit(weightedMean(trainData));
+    this.trainMargins = new Float64Array(trainData.length).fill(this.baseMargin);
+    this.validationMargins = new Float64Array(validationData.length).fill(this.baseMargin);
+  }
+
+  async run(): Promise<GradientBoostedModel> {
+    const { learningRate, nEstimators, earlyStoppingRounds } = this.options;
+    const trees: RegressionTree[] = [];
+    const trainX = this.trainData.map((sample) => sanitize(sample.features));
+    const validationX = this.validationData.map((sample) => sanitize(sample.features));
+    let bestIteration = -1;
+    let bestLoss: number | null = null;
+
+    for (let round = 0; round < nEstimators; round++) {
+      this.computeGradients();
+      const tree = this.growTree();
+      trees.push(tree);
+
+      trainX.forEach((x, i) => {
+        this.trainMargins[i]! += learningRate * leafFor(tree, x).value;
+      });
+      validationX.forEach((x, i) => {
+        this.validationMargins[i]! += learningRate * leafFor(tree, x).value;
+      });
+
+      if (this.validationData.length === 0) {
+        bestIteration = round;
+      } else {
+        const loss = logLoss(Array.from(this.validationMargins, sigmoid), this.validationData);
+        if (bestLoss === null || loss < bestLoss) {
+          bestLoss = loss;
+          bestIteration = round;
+        } else if (round - bestIteration >= earlyStoppingRounds) {
+          break;
+        }
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    }
+
+    return {
+      format: 'gbdt-logistic',
+      format_version: 1,
+      feature_names: this.featureNames,
+      base_margin: this.baseMargin,
+      learning_rate: learningRate,
+      trees: trees.slice(0, bestIteration + 1),
+      best_iteration: bestIteration,
+      rounds_trained: trees.length,
+      best_validation_log_loss: bestLoss,
+      feature_gain: this.featureGain,
+    };
+  }
+
+  private computeGradients(): void {
+    this.trainData.forEach((sample, i) => {
+      const p = sigmoid(this.trainMargins[i]!);
+      this.gradients[i] = sample.weight * (p - sample.label);
+      this.hessians[i] = sample.weight * Math.max(p * (1 - p), EPSILON);
+    });
+  }
+
+  private growTree(): RegressionTree {
+    const rows: number[] = [];
+    for (let i = 0; i < this.trainData.length; i++) {
+      if (this.options.subsample >= 1 || this.random() < this.options.subsample) {
+        rows.push(i);
+      }
+    }
+
+    const featureCount = this.featureNames.length;
+    const sampledCount = Math.max(1, Math.round(featureCount * this.options.colsampleByTree));
+    const features = shuffle(Array.from({ length: featureCount }, (_, f) => f), this.random).slice(0, sampledCount);
+
+    const nodes: TreeNode[] = [];
+    this.growNode(nodes, rows, features, 0);
+    return { nodes };
+  }
+
+  /**
+   * Append the node for `rows`, followed by its subtree
+   */
+  private growNode(nodes: TreeNode[], rows: number[], features: number[], depth: number): void {
+    const index = nodes.length;
+    const { gradient, hessian } = this.sums(rows);
+    const leafValue = -gradient / (hessian + this.options.lambda);
+    nodes.push({ leaf: true, value: leafValue, cover: hessian });
+
+    if (depth >= this.options.maxDepth || hessian < 2 * this.options.minChildWeight) {
+      return;
+    }
+
+    const split = this.bestSplit(rows, features, gradient, hessian);
+    if (split === null) {
+      return;
+    }
+
+    const bins = this.bins[split.feature]!;
+    const leftRows = rows.filter((row) => bins[row]! <= split.bin);
+    const rightRows = rows.filter((row) => bins[row]! > split.bin);
+    this.featureGain[split.feature]! += split.gain;
+
+    const left = nodes.length;
+    this.growNode(nodes, leftRows, features, depth + 1);
+    const right = nodes.length;
+    this.growNode(nodes, rightRows, features, depth + 1);
+    const leftNode = nodes[left]!;
+    const rightNode = nodes[right]!;
+
+    nodes[index] = {
+      leaf: false,
+      value: (leftNode.value * leftNode.cover + rightNode.value * rightNode.cover) / (leftNode.cover + rightNode.cover),
+      cover: hessian,
+      feature: split.feature,
+      threshold: this.binEdges[split.feature]![split.bin]!,
+      gain: split.gain,
+      left,
+      right,
+    };
+  }
+
+  /**
+   * Best histogram split of `rows`, or null when no split gains anything
+   */
+  private bestSplit(
+    rows: number[],
+    features: number[],
+    gradient: number,
+    hessian: number
+  ): { feature: number; bin: number; gain: number } | null {
+    const { lambda, gamma, minChildWeight } = this.options;
+    const parentScore = (gradient * gradient) / (hessian + lambda);
+    let best: { feature: number; bin: number; gain: number } | null = null;
+
+    for (const feature of features) {
+      const edges = this.binEdges[feature]!;
+      if (edges.length === 0) continue;
+
+      const bins = this.bins[feature]!;
+      const gradientHistogram = new Float64Array(edges.length + 1);
+      const hessianHistogram = new Float64Array(edges.length + 1);
+      for (const row of rows) {
+        gradientHistogram[bins[row]!]! += this.gradients[row]!;
+        hessianHistogram[bins[row]!]! += this.hessians[row]!;
+      }
+
+      let leftGradient = 0;
+      let leftHessian = 0;
+      // Splitting after bin b sends bins 0..b left, i.e. values below edges[b]
+      for (let bin = 0; bin < edges.length; bin++) {
+        leftGradient += gradientHistogram[bin]!;
+        leftHessian += hessianHistogram[bin]!;
+        const rightGradient = gradient - leftGradient;
+        const rightHessian = hessian - leftHessian;
+        if (leftHessian < minChildWeight || rightHessian < minChildWeight) continue;
+
+        const gain = 0.5 * (
+          (leftGradient * leftGradient) / (leftHessian + lambda) +
+          (rightGradient * rightGradient) / (rightHessian + lambda) -
+          parentScore
+        ) - gamma;
+
+        if (gain > 0 && (best === null || gain > best.gain)) {
+          best = { feature, bin, gain };
+        }
+      }
+    }
+
+    return best;
+  }
+
+  private sums(rows: number[]): { gradient: number; hessian: number } {
+    let gradient = 0;
+    let hessian = 0;
+    for (const row of rows) {
+      gradient += this.gradients[row]!;
+      hessian += this.hessians[row]!;
+    }
+    return { gradient, hessian };
+  }
+}
+
+// ========== Metrics ==========
+
+/**
+ * Weighted mean logistic loss
+ */
+export function logLoss(probabilities: number[], samples: Array<{ label: number; weight?: number }>): number {
+  let loss = 0;
+  let totalWeight = 0;
+  samples.forEach((sample, i) => {
+    const p = Math.min(Math.max(probabilities[i] ?? 0.5, EPSILON), 1 - EPSILON);
+    const weight = sample.weight ?? 1;
+    loss -= weight * (sample.label * Math.log(p) + (1 - sample.label) * Math.log(1 - p));
+    totalWeight += weight;
+  });
+  return totalWeight > 0 ? loss / totalWeight : 0;
+}
+
+/**
+ * Area under the ROC curve: the chance a random positive scores above a
+ * random negative, with ties counting half
+ */
+export function aucRoc(scores: number[], labels: number[]): number {
+  const order = scores.map((score, i) => ({ score, label: labels[i] ?? 0 })).sort((a, b) => a.score - b.score);
+  const positives = order.filter((item) => item.label === 1).length;
+  const negatives = order.length - positives;
+  if (positives === 0 || negatives === 0) {
+    return 0.5;
+  }
+
+  // Sum of positive ranks, tied scores sharing their average rank
+  let rankSum = 0;
+  for (let start = 0; start < order.length;) {
+    let end = start;
+    while (end + 1 < order.length && order[end + 1]!.score === order[start]!.score) end++;
+    const averageRank = (start + end) / 2 + 1;
+    for (let i = start; i <= end; i++) {
+      if (order[i]!.label === 1) rankSum += averageRank;
+    }
+    start = end + 1;
+  }
+
+  return (rankSum - (positives * (positives + 1)) / 2) / (positives * negatives);
+}
+
+// ========== Helpers ==========
+
+export function sigmoid(margin: number): number {
+  return 1 / (1 + Math.exp(-margin));
+}
+
+function logit(probability: number): number {
+  const p = Math.min(Math.max(probability, 1e-6), 1 - 1e-6);
+  return Math.log(p / (1 - p));
+}
+
+function weightedMean(samples: BoostingSample[]): number {
+  const totalWeight = samples.reduce((sum, sample) => sum + sample.weight, 0);
+  if (totalWeight <= 0) return 0.5;
+  return samples.reduce((sum, sample) => sum + sample.weight * sample.label, 0) / totalWeight;
+}
+
+function finite(value: number | undefined): number {
+  return value !== undefined && Number.isFinite(value) ? value : 0;
+}
+
+function sanitize(features: number[]): number[] {
+  return features.map(finite);
+}
+
+/**
+ * Split points between histogram bins: midpoints between distinct values
+ * when there are few, quantiles otherwise
+ */
+function quantileEdges(values: number[], maxBins: number): number[] {
+  const distinct = [...new Set(values)].sort((a, b) => a - b);
+  if (distinct.length <= maxBins) {
+    return distinct.slice(1).map((value, i) => (distinct[i]! + value) / 2);
+  }
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const edges = new Set<number>();
+  for (let bin = 1; bin < maxBins; bin++) {
+    const edge = sorted[Math.floor((bin * sorted.length) / maxBins)]!;
+    if (edge > sorted[0]!) edges.add(edge);
+  }
+  return [...edges].sort((a, b) => a - b);
+}
+
+/**
+ * Index of the first edge above the value, or the last bin
+ */
+function binOf(edges: number[], value: number): number {
+  let low = 0;
+  let high = edges.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (value < edges[mid]!) high = mid;
+    else low = mid + 1;
+  }
+  return low;
+}
+
+function goesLeft(node: Extract<TreeNode, { leaf: false }>, x: number[]): boolean {
+  return (x[node.feature] ?? 0) < node.threshold;
+}
+
+function leafFor(tree: RegressionTree, x: number[]): TreeNode {
+  let node = tree.nodes[0]!;
+  while (!node.leaf) {
+    node = tree.nodes[goesLeft(node, x) ? node.left : node.right]!;
+  }
+  return node;
+}
+
+/**
+ * Mulberry32, so training runs are reproducible from `randomState`
+ */
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function shuffle<T>(items: T[], random: () => number): T[] {
+  for (let i = items.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [items[i], items[j]] = [items[j]!, items[i]!];
+  }
+  return items;
+}
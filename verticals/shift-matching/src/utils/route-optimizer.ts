@@ -0,0 +1,542 @@
+/**
+ * Route Optimizer - Multi-visit daily routing for caregivers
+ *
+ * Builds each caregiver's day as an ordered route of visits:
+ * - Travel-time matrix from geocoded client and caregiver home locations
+ * - Travel buffers between consecutive visits
+ * - Visit time windows (no early starts, late arrival only within the flexibility window)
+ * - Regret insertion followed by relocate passes to minimize drive time and unpaid gaps
+ *
+ * Visits already assigned to a caregiver stay on their route; open shifts are
+ * inserted around them.
+ */
+
+import {
+  CaregiverRoute,
+  RouteOptimizationMetrics,
+  RouteStop,
+} from '../types/ml-matching';
+
+export interface GeoPoint {
+  lat: number;
+  lng: number;
+}
+
+export interface RouteVisit {
+  id: string;
+  location: GeoPoint | null;
+  startMinute: number; // Scheduled start, minutes after midnight
+  durationMinutes: number;
+  lateToleranceMinutes: number; // Service pattern flexibility window
+  priority: number; // Higher is placed first
+}
+
+export interface RouteCaregiver {
+  id: string;
+  home: GeoPoint | null;
+  assignedVisits: RouteVisit[];
+}
+
+export interface RoutePlanningOptions {
+  travelBufferMinutes: number;
+  averageSpeedMph: number;
+  roadDistanceFactor: number; // Road miles per straight-line mile
+  unknownTravelMinutes: number; // Assumed drive when either end is not geocoded
+  unpaidGapWeight: number; // Cost of one idle minute relative to one drive minute
+  matchScoreWeight: number; // Drive minutes traded for one match score point
+  maxOpenShiftsPerCaregiver?: number; // Visits the caregiver already has don't count
+  maxLegMiles?: number;
+  maxRouteHours?: number;
+  maxRelocatePasses: number;
+}
+
+export const DEFAULT_ROUTE_PLANNING_OPTIONS: RoutePlanningOptions = {
+  travelBufferMinutes: 10,
+  averageSpeedMph: 30,
+  roadDistanceFactor: 1.3,
+  unknownTravelMinutes: 30,
+  unpaidGapWeight: 0.5,
+  matchScoreWeight: 0.1,
+  maxRelocatePasses: 5,
+};
+
+export interface RoutePlan {
+  /** Open shift id -> caregiver id */
+  assignments: Map<string, string>;
+  unassignedShiftIds: string[];
+  routes: CaregiverRoute[];
+  metrics: RouteOptimizationMetrics;
+  iterations: number;
+}
+
+interface Leg {
+  miles: number;
+  minutes: number;
+}
+
+interface RouteEvaluation {
+  feasible: boolean;
+  cost: number;
+  driveMinutes: number;
+  driveMiles: number;
+  gapMinutes: number;
+  stops: RouteStop[];
+}
+
+interface Insertion {
+  caregiverId: string;
+  position: number;
+  delta: number;
+}
+
+const EARTH_RADIUS_MILES = 3958.8;
+const MINUTES_PER_DAY = 24 * 60;
+const IMPROVEMENT_EPSILON = 0.01;
+
+const INFEASIBLE: RouteEvaluation = {
+  feasible: false,
+  cost: Infinity,
+  driveMinutes: 0,
+  driveMiles: 0,
+  gapMinutes: 0,
+  stops: [],
+};
+
+/**
+ * Straight-line distance-based travel estimates between route nodes
+ *
+ * Nodes are visit ids and caregiver home ids; legs are computed once and cached.
+ */
+export class TravelTimeMatrix {
+  private readonly legs = new Map<string, Leg>();
+
+  constructor(
+    private readonly locations: Map<string, GeoPoint | null>,
+    private readonly options: Pick<RoutePlanningOptions, 'averageSpeedMph' | 'roadDistanceFactor' | 'unknownTravelMinutes'>
+  ) {}
+
+  get(fromId: string, toId: string): Leg {
+    if (fromId === toId) {
+      return { miles: 0, minutes: 0 };
+    }
+
+    const key = fromId < toId ? `${fromId}|${toId}` : `${toId}|${fromId}`;
+    let leg = this.legs.get(key);
+    if (leg === undefined) {
+      leg = this.estimate(this.locations.get(fromId) ?? null, this.locations.get(toId) ?? null);
+      this.legs.set(key, leg);
+    }
+    return leg;
+  }
+
+  private estimate(from: GeoPoint | null, to: GeoPoint | null): Leg {
+    if (from === null || to === null) {
+      return {
+        miles: (this.options.unknownTravelMinutes / 60) * this.options.averageSpeedMph,
+        minutes: this.options.unknownTravelMinutes,
+      };
+    }
+
+    const miles = haversineMiles(from, to) * this.options.roadDistanceFactor;
+    return { miles, minutes: Math.ceil((miles / this.options.averageSpeedMph) * 60) };
+  }
+}
+
+export class RouteOptimizer {
+  /**
+   * Assign open shifts to caregivers as ordered daily routes
+   *
+   * @param scoreFor Match score (0-100) of a caregiver for an open shift,
+   *   or null when the caregiver must not be assigned
+   */
+  static optimize(
+    shifts: RouteVisit[],
+    caregivers: RouteCaregiver[],
+    scoreFor: (shiftId: string, caregiverId: string) => number | null,
+    options: Partial<RoutePlanningOptions> = {}
+  ): RoutePlan {
+    const planner = new RoutePlanner(shifts, caregivers, scoreFor, {
+      ...DEFAULT_ROUTE_PLANNING_OPTIONS,
+      ...options,
+    });
+    return planner.plan();
+  }
+}
+
+/**
+ * Mutable planning state for a single optimization run
+ */
+class RoutePlanner {
+  private readonly matrix: TravelTimeMatrix;
+  private readonly routes = new Map<string, RouteVisit[]>();
+  private readonly evaluations = new Map<string, RouteEvaluation>();
+  private readonly openShiftIds: Set<string>;
+  private iterations = 0;
+
+  constructor(
+    private readonly shifts: RouteVisit[],
+    caregivers: RouteCaregiver[],
+    private readonly scoreFor: (shiftId: string, caregiverId: string) => number | null,
+    private readonly options: RoutePlanningOptions
+  ) {
+    const locations = new Map<string, GeoPoint | null>();
+    for (const shift of shifts) {
+      locations.set(shift.id, shift.location);
+    }
+    for (const caregiver of caregivers) {
+      locations.set(homeNodeId(caregiver.id), caregiver.home);
+      for (const visit of caregiver.assignedVisits) {
+        locations.set(visit.id, visit.location);
+      }
+      const assigned = [...caregiver.assignedVisits].sort((a, b) => a.startMinute - b.startMinute);
+      this.routes.set(caregiver.id, assigned);
+    }
+
+    this.matrix = new TravelTimeMatrix(locations, options);
+    this.openShiftIds = new Set(shifts.map((s) => s.id));
+  }
+
+  plan(): RoutePlan {
+    const unassigned = this.insertAll();
+    this.relocate();
+    return this.buildPlan(unassigned);
+  }
+
+  /**
+   * Regret insertion: place the highest-priority shift whose best route beats
+   * its second-best by the widest margin, so shifts with few good options are
+   * placed before their options are used up
+   */
+  private insertAll(): string[] {
+    const remaining = new Map(this.shifts.map((s) => [s.id, s]));
+    const unassigned: string[] = [];
+
+    while (remaining.size > 0) {
+      this.iterations++;
+
+      let selected: { shift: RouteVisit; insertion: Insertion; regret: number } | null = null;
+
+      for (const shift of remaining.values()) {
+        const [best, second] = this.bestInsertions(shift);
+        if (best === undefined) {
+          unassigned.push(shift.id);
+          remaining.delete(shift.id);
+          continue;
+        }
+
+        const regret = second === undefined ? Infinity : second.delta - best.delta;
+        if (selected === null || this.isPreferred(shift, best, regret, selected)) {
+          selected = { shift, insertion: best, regret };
+        }
+      }
+
+      if (selected !== null) {
+        this.insert(selected.shift, selected.insertion);
+        remaining.delete(selected.shift.id);
+      }
+    }
+
+    return unassigned;
+  }
+
+  private isPreferred(
+    shift: RouteVisit,
+    insertion: Insertion,
+    regret: number,
+    current: { shift: RouteVisit; insertion: Insertion; regret: number }
+  ): boolean {
+    if (shift.priority !== current.shift.priority) {
+      return shift.priority > current.shift.priority;
+    }
+    if (regret !== current.regret) {
+      return regret > current.regret;
+    }
+    return insertion.delta < current.insertion.delta;
+  }
+
+  /**
+   * Move open shifts to a cheaper route position until no move improves the plan
+   */
+  private relocate(): void {
+    for (let pass = 0; pass < this.options.maxRelocatePasses; pass++) {
+      this.iterations++;
+      let improved = false;
+
+      for (const shift of this.shifts) {
+        const caregiverId = this.findCaregiverFor(shift.id);
+        if (caregiverId === null) {
+          continue;
+        }
+
+        const route = this.getRoute(caregiverId);
+        const without = route.filter((v) => v.id !== shift.id);
+        const removalSaving =
+          this.evaluate(caregiverId, route).cost -
+          this.evaluate(caregiverId, without).cost +
+          this.matchBonus(shift.id, caregiverId);
+
+        this.routes.set(caregiverId, without);
+        const [best] = this.bestInsertions(shift);
+
+        if (best !== undefined && best.delta < removalSaving - IMPROVEMENT_EPSILON) {
+          this.insert(shift, best);
+          improved = true;
+        } else {
+          this.routes.set(caregiverId, route);
+        }
+      }
+
+      if (!improved) {
+        break;
+      }
+    }
+  }
+
+  /**
+   * Cheapest feasible insertion per caregiver, best first (at most two)
+   */
+  private bestInsertions(shift: RouteVisit): Insertion[] {
+    const perCaregiver: Insertion[] = [];
+
+    for (const [caregiverId, route] of this.routes) {
+      const score = this.scoreFor(shift.id, caregiverId);
+      if (score === null) {
+        continue;
+      }
+      if (
+        this.options.maxOpenShiftsPerCaregiver !== undefined &&
+        route.filter((v) => this.openShiftIds.has(v.id)).length >= this.options.maxOpenShiftsPerCaregiver
+      ) {
+        continue;
+      }
+
+      const baseCost = this.evaluate(caregiverId, route).cost;
+      let best: Insertion | null = null;
+
+      for (let position = 0; position <= route.length; position++) {
+        const candidate = [...route.slice(0, position), shift, ...route.slice(position)];
+        const evaluation = this.evaluate(caregiverId, candidate);
+        if (!evaluation.feasible) {
+          continue;
+        }
+
+        const delta = evaluation.cost - baseCost - score * this.options.matchScoreWeight;
+        if (best === null || delta < best.delta) {
+          best = { caregiverId, position, delta };
+        }
+      }
+
+      if (best !== null) {
+        perCaregiver.push(best);
+      }
+    }
+
+    perCaregiver.sort((a, b) => a.delta - b.delta);
+    return perCaregiver.slice(0, 2);
+  }
+
+  private insert(shift: RouteVisit, insertion: Insertion): void {
+    const route = this.getRoute(insertion.caregiverId);
+    this.routes.set(insertion.caregiverId, [
+      ...route.slice(0, insertion.position),
+      shift,
+      ...route.slice(insertion.position),
+    ]);
+  }
+
+  private matchBonus(shiftId: string, caregiverId: string): number {
+    return (this.scoreFor(shiftId, caregiverId) ?? 0) * this.options.matchScoreWeight;
+  }
+
+  private findCaregiverFor(shiftId: string): string | null {
+    for (const [caregiverId, route] of this.routes) {
+      if (route.some((v) => v.id === shiftId)) {
+        return caregiverId;
+      }
+    }
+    return null;
+  }
+
+  private getRoute(caregiverId: string): RouteVisit[] {
+    return this.routes.get(caregiverId) ?? [];
+  }
+
+  /**
+   * Walk a route in order, timing each stop and checking time windows
+   */
+  private evaluate(caregiverId: string, route: RouteVisit[]): RouteEvaluation {
+    const key = `${caregiverId}:${route.map((v) => v.id).join(',')}`;
+    const cached = this.evaluations.get(key);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const evaluation = this.walk(caregiverId, route);
+    this.evaluations.set(key, evaluation);
+    return evaluation;
+  }
+
+  private walk(caregiverId: string, route: RouteVisit[]): RouteEvaluation {
+    const { travelBufferMinutes, maxLegMiles, maxRouteHours, unpaidGapWeight } = this.options;
+    const stops: RouteStop[] = [];
+    let previousId = homeNodeId(caregiverId);
+    let previousEnd: number | null = null;
+    let driveMinutes = 0;
+    let driveMiles = 0;
+    let gapMinutes = 0;
+
+    for (const visit of route) {
+      const leg = this.matrix.get(previousId, visit.id);
+      if (maxLegMiles !== undefined && leg.miles > maxLegMiles) {
+        return INFEASIBLE;
+      }
+
+      // The first visit of the day is reached straight from home
+      const buffer = previousEnd === null ? 0 : travelBufferMinutes;
+      const arrival = previousEnd === null ? visit.startMinute : previousEnd + leg.minutes + buffer;
+      const start = Math.max(arrival, visit.startMinute);
+      const late = start - visit.startMinute;
+      if (late > visit.lateToleranceMinutes) {
+        return INFEASIBLE;
+      }
+
+      const end = start + visit.durationMinutes;
+      if (end > MINUTES_PER_DAY) {
+        return INFEASIBLE;
+      }
+      const gap = start - arrival;
+
+      stops.push({
+        sequence: stops.length + 1,
+        stop_type: this.openShiftIds.has(visit.id) ? 'OPEN_SHIFT' : 'ASSIGNED_VISIT',
+        id: visit.id,
+        arrival_time: formatClockMinutes(arrival),
+        start_time: formatClockMinutes(start),
+        end_time: formatClockMinutes(end),
+        travel_time_minutes: leg.minutes,
+        travel_buffer_minutes: buffer,
+        travel_distance_miles: roundMiles(leg.miles),
+        unpaid_gap_minutes: gap,
+        late_minutes: late,
+      });
+
+      driveMinutes += leg.minutes;
+      driveMiles += leg.miles;
+      gapMinutes += gap;
+      previousId = visit.id;
+      previousEnd = end;
+    }
+
+    const firstStart = route[0]?.startMinute;
+    if (
+      maxRouteHours !== undefined &&
+      firstStart !== undefined &&
+      previousEnd !== null &&
+      previousEnd - firstStart > maxRouteHours * 60
+    ) {
+      return INFEASIBLE;
+    }
+
+    // Drive home after the last visit
+    if (previousEnd !== null) {
+      const home = this.matrix.get(previousId, homeNodeId(caregiverId));
+      driveMinutes += home.minutes;
+      driveMiles += home.miles;
+    }
+
+    return {
+      feasible: true,
+      cost: driveMinutes + gapMinutes * unpaidGapWeight,
+      driveMinutes,
+      driveMiles,
+      gapMinutes,
+      stops,
+    };
+  }
+
+  private buildPlan(unassignedShiftIds: string[]): RoutePlan {
+    const assignments = new Map<string, string>();
+    const routes: CaregiverRoute[] = [];
+
+    for (const [caregiverId, route] of this.routes) {
+      if (!route.some((v) => this.openShiftIds.has(v.id))) {
+        continue;
+      }
+
+      for (const visit of route) {
+        if (this.openShiftIds.has(visit.id)) {
+          assignments.set(visit.id, caregiverId);
+        }
+      }
+
+      const evaluation = this.evaluate(caregiverId, route);
+      routes.push({
+        caregiver_id: caregiverId,
+        stops: evaluation.stops,
+        total_drive_time_minutes: evaluation.driveMinutes,
+        total_drive_distance_miles: roundMiles(evaluation.driveMiles),
+        total_unpaid_gap_minutes: evaluation.gapMinutes,
+        start_time: evaluation.stops[0]?.start_time ?? null,
+        end_time: evaluation.stops[evaluation.stops.length - 1]?.end_time ?? null,
+      });
+    }
+
+    return {
+      assignments,
+      unassignedShiftIds,
+      routes,
+      metrics: summarizeRoutes(routes),
+      iterations: this.iterations,
+    };
+  }
+}
+
+function summarizeRoutes(routes: CaregiverRoute[]): RouteOptimizationMetrics {
+  const stops = routes.flatMap((r) => r.stops);
+  const totalDrive = routes.reduce((sum, r) => sum + r.total_drive_time_minutes, 0);
+
+  return {
+    total_drive_time_minutes: totalDrive,
+    total_drive_distance_miles: roundMiles(routes.reduce((sum, r) => sum + r.total_drive_distance_miles, 0)),
+    avg_drive_time_per_caregiver_minutes: routes.length > 0 ? totalDrive / routes.length : 0,
+    total_unpaid_gap_minutes: routes.reduce((sum, r) => sum + r.total_unpaid_gap_minutes, 0),
+    max_unpaid_gap_minutes: stops.reduce((max, s) => Math.max(max, s.unpaid_gap_minutes), 0),
+    late_arrivals: stops.filter((s) => s.late_minutes > 0).length,
+    routes,
+  };
+}
+
+function homeNodeId(caregiverId: string): string {
+  return `home:${caregiverId}`;
+}
+
+function roundMiles(miles: number): number {
+  return Math.round(miles * 10) / 10;
+}
+
+/**
+ * Great-circle distance in miles
+ */
+export function haversineMiles(from: GeoPoint, to: GeoPoint): number {
+  const toRadians = (degrees: number): number => (degrees * Math.PI) / 180;
+  const dLat = toRadians(to.lat - from.lat);
+  const dLng = toRadians(to.lng - from.lng);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_MILES * Math.asin(Math.sqrt(a));
+}
+
+/**
+ * Parse HH:MM or HH:MM:SS into minutes after midnight
+ */
+export function parseClockMinutes(time: string): number {
+  const [hours = '0', minutes = '0'] = time.split(':');
+  return Number.parseInt(hours, 10) * 60 + Number.parseInt(minutes, 10);
+}
+
+export function formatClockMinutes(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const mins = minutes % 60;
+  return `${String(hours).padStart(2, '0')}:${String(mins).padStart(2, '0')}`;
+}
@@ -0,0 +1,197 @@
+/**
+ * Proposal Expiration Worker
+ *
+ * Background worker that expires assignment proposals whose response window
+ * (proposal_expiration_minutes on the matching configuration) has closed,
+ * so their open shifts can be offered to other caregivers.
+ *
+ * Features:
+ * - Configurable polling interval
+ * - Overlapping polls are skipped while a sweep is still running
+ * - Graceful shutdown support
+ */
+
+import { createLogger, UserContext, UUID } from '@care-commons/core';
+import { ShiftMatchingService } from '../service/shift-matching-service';
+
+const log = createLogger('ProposalExpirationWorker');
+
+/**
+ * Expiry runs for every organization, recorded against the system user
+ */
+const SYSTEM_CONTEXT: UserContext = {
+  userId: '00000000-0000-0000-0000-000000000000' as UUID,
+  branchIds: [],
+  roles: ['SUPER_ADMIN'],
+  permissions: [],
+};
+
+export interface ProposalExpirationWorkerConfig {
+  /**
+   * How often to check for stale proposals (in milliseconds)
+   * Default: 5 minutes (300000ms)
+   */
+  checkIntervalMs: number;
+
+  /**
+   * Whether the worker is enabled
+   * Default: true
+   */
+  enabled: boolean;
+}
+
+const DEFAULT_CONFIG: ProposalExpirationWorkerConfig = {
+  checkIntervalMs: 300000, // 5 minutes
+  enabled: true,
+};
+
+/**
+ * Proposal Expiration Worker
+ *
+ * Expires unanswered shift proposals.
+ */
+export class ProposalExpirationWorker {
+  private intervalId: ReturnType<typeof setInterval> | null = null;
+  private isRunning = false;
+  private isProcessing = false;
+  private config: ProposalExpirationWorkerConfig;
+
+  constructor(
+    private matchingService: ShiftMatchingService,
+    config?: Partial<ProposalExpirationWorkerConfig>
+  ) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * Start the worker
+   */
+  start(): void {
+    if (!this.config.enabled) {
+      log.info('ProposalExpirationWorker is disabled');
+      return;
+    }
+
+    if (this.isRunning) {
+      log.warn('ProposalExpirationWorker is already running');
+      return;
+    }
+
+    log.info({ checkIntervalMs: this.config.checkIntervalMs }, 'ProposalExpirationWorker starting');
+
+    this.isRunning = true;
+
+    // Run immediately on start
+    void this.expireStaleProposals();
+
+    // Then run periodically
+    this.intervalId = setInterval(() => {
+      void this.expireStaleProposals();
+    }, this.config.checkIntervalMs);
+  }
+
+  /**
+   * Stop the worker
+   */
+  stop(): void {
+    if (!this.isRunning) {
+      log.warn('ProposalExpirationWorker is not running');
+      return;
+    }
+
+    log.info('ProposalExpirationWorker stopping...');
+
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+
+    this.isRunning = false;
+
+    log.info('ProposalExpirationWorker stopped');
+  }
+
+  /**
+   * Expire proposals past their response window
+   */
+  private async expireStaleProposals(): Promise<void> {
+    if (this.isProcessing) {
+      log.debug('Previous sweep still running, skipping');
+      return;
+    }
+
+    this.isProcessing = true;
+    try {
+      const expiredCount = await this.matchingService.expireStaleProposals(SYSTEM_CONTEXT);
+
+      if (expiredCount > 0) {
+        log.info({ expiredCount }, 'Expired stale shift proposals');
+      }
+    } catch (error) {
+      log.error({ error }, 'Error expiring stale shift proposals');
+      // Don't throw - let the worker continue running
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  /**
+   * Check if the worker is running
+   */
+  isActive(): boolean {
+    return this.isRunning;
+  }
+
+  /**
+   * Get current configuration
+   */
+  getConfig(): ProposalExpirationWorkerConfig {
+    return { ...this.config };
+  }
+}
+
+/**
+ * Singleton instance for application-wide use
+ */
+let workerInstance: ProposalExpirationWorker | null = null;
+
+/**
+ * Initialize and start the proposal expiration worker
+ *
+ * Should be called once during application startup.
+ */
+export function initializeProposalExpirationWorker(
+  matchingService: ShiftMatchingService,
+  config?: Partial<ProposalExpirationWorkerConfig>
+): ProposalExpirationWorker {
+  if (workerInstance) {
+    log.warn('ProposalExpirationWorker already initialized');
+    return workerInstance;
+  }
+
+  workerInstance = new ProposalExpirationWorker(matchingService, config);
+  workerInstance.start();
+
+  // Graceful shutdown on process termination
+  process.on('SIGTERM', () => {
+    log.info('SIGTERM received, shutting down ProposalExpirationWorker...');
+    workerInstance?.stop();
+  });
+
+  process.on('SIGINT', () => {
+    log.info('SIGINT received, shutting down ProposalExpirationWorker...');
+    workerInstance?.stop();
+  });
+
+  return workerInstance;
+}
+
+/**
+ * Stop and cleanup the proposal expiration worker
+ */
+export function shutdownProposalExpirationWorker(): void {
+  if (workerInstance) {
+    workerInstance.stop();
+    workerInstance = null;
+  }
+}
@@ -388,6 +388,26 @@ describe('EVVService - State Compliance Integration', () => {
       version: 1,
     });
 
+    beforeEach(() => {
+      mockVisitProvider.getVisitForEVV.mockResolvedValue({
+        id: 'visit-123',
+        clientId: 'client-123',
+        organizationId: 'org-123',
+        branchId: 'branch-123',
+        serviceAddress: {
+          addressId: 'address-123',
+          line1: '123 Main St',
+          city: 'Austin',
+          state: 'TX',
+          postalCode: '78701',
+          country: 'USA',
+          latitude: 30.2672,
+          longitude: -97.7431,
+          addressVerified: true,
+        },
+      });
+    });
+
     it('should validate Texas clock-out with state-specific rules', async () => {
       const serviceAddressLat = 30.2672;
       const serviceAddressLon = -97.7431;
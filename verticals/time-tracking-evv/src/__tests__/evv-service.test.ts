@@ -36,6 +36,7 @@ const mockValidator = {
   validateClockOut: vi.fn(),
   validateGeofence: vi.fn(),
   checkGeofence: vi.fn(),
+  checkPolygonGeofence: vi.fn(),
   performVerification: vi.fn(),
 } as any;
 
@@ -212,6 +213,86 @@ describe('EVVService', () => {
       expect(mockRepository.createEVVRecord).toHaveBeenCalled();
     });
 
+    it('should check polygon geofences against the polygon', async () => {
+      const polygonPoints = [
+        { latitude: 40.7130, longitude: -74.0070 },
+        { latitude: 40.7140, longitude: -74.0070 },
+        { latitude: 40.7140, longitude: -74.0050 },
+        { latitude: 40.7130, longitude: -74.0050 },
+      ];
+
+      mockValidator.validateClockIn.mockReturnValue(undefined);
+      mockVisitProvider.canClockIn.mockResolvedValue(true);
+      mockVisitProvider.getVisitForEVV.mockResolvedValue({
+        id: 'visit-123',
+        clientId: 'client-123',
+        organizationId: 'org-123',
+        branchId: 'branch-123',
+        serviceTypeCode: 'HCBS',
+        serviceTypeName: 'Home Care',
+        serviceDate: new Date(),
+        serviceAddress: {
+          line1: '123 Main St',
+          city: 'New York',
+          state: 'NY',
+          postalCode: '10001',
+          country: 'USA',
+          latitude: 40.7128,
+          longitude: -74.0060,
+          geofenceRadius: 100,
+          addressVerified: true,
+        },
+      });
+      mockClientProvider.getClientForEVV.mockResolvedValue({ id: 'client-123', name: 'John Doe' });
+      mockCaregiverProvider.getCaregiverForEVV.mockResolvedValue({
+        id: 'caregiver-123',
+        name: 'Jane Smith',
+        employeeId: 'EMP123',
+      });
+      mockCaregiverProvider.canProvideService.mockResolvedValue({ authorized: true });
+      mockRepository.getGeofenceByAddress.mockResolvedValue({
+        id: 'geofence-123',
+        centerLatitude: 40.7128,
+        centerLongitude: -74.0060,
+        radiusMeters: 100,
+        shape: 'POLYGON',
+        polygonPoints,
+        isActive: true,
+        allowedVariance: 15,
+      });
+      mockValidator.checkPolygonGeofence.mockReturnValue({
+        isWithinGeofence: true,
+        distanceFromCenter: 80,
+        distanceFromAddress: 80,
+        distanceFromBoundary: -20,
+        accuracy: 10,
+        requiresManualReview: false,
+      });
+      mockRepository.createTimeEntry.mockResolvedValue({ id: 'time-entry-123', status: 'VERIFIED' });
+      mockRepository.createEVVRecord.mockResolvedValue({ id: 'evv-123', recordStatus: 'PENDING' });
+      mockValidator.performVerification.mockReturnValue({
+        passed: true,
+        verificationLevel: 'FULL',
+        complianceFlags: ['COMPLIANT'],
+        issues: [],
+        requiresSupervisorReview: false,
+      });
+
+      await service.clockIn(validClockInInput, userContext);
+
+      expect(mockValidator.checkPolygonGeofence).toHaveBeenCalledWith(
+        40.7128,
+        -74.0060,
+        10,
+        polygonPoints,
+        40.7128,
+        -74.0060,
+        15
+      );
+      expect(mockValidator.checkGeofence).not.toHaveBeenCalled();
+      expect(mockRepository.updateGeofenceStats).toHaveBeenCalledWith('geofence-123', true, 10);
+    });
+
     it('should throw ValidationError for invalid input', async () => {
       mockValidator.validateClockIn.mockImplementation(() => {
         throw new ValidationError('Invalid clock-in data', { errors: ['location is required'] });
@@ -452,6 +533,27 @@ describe('EVVService', () => {
       version: 1,
     };
 
+    beforeEach(() => {
+      mockVisitProvider.getVisitForEVV.mockResolvedValue({
+        id: 'visit-123',
+        clientId: 'client-123',
+        organizationId: 'org-123',
+        branchId: 'branch-123',
+        serviceAddress: {
+          addressId: 'address-123',
+          line1: '123 Main St',
+          city: 'New York',
+          state: 'NY',
+          postalCode: '10001',
+          country: 'USA',
+          latitude: 40.7128,
+          longitude: -74.0060,
+          geofenceRadius: 100,
+          addressVerified: true,
+        },
+      });
+    });
+
     it('should successfully clock out with valid data', async () => {
       mockValidator.validateClockOut.mockReturnValue(undefined);
       mockRepository.getEVVRecordById.mockResolvedValue(existingEVVRecord);
@@ -500,6 +602,7 @@ describe('EVVService', () => {
       expect(result.evvRecord.clockOutTime).toBeDefined();
       expect(result.evvRecord.totalDuration).toBe(120);
       expect(result.verification.passed).toBe(true);
+      expect(mockRepository.getGeofenceByAddress).toHaveBeenCalledWith('address-123');
     });
 
     it('should throw NotFoundError when EVV record does not exist', async () => {
@@ -520,6 +520,69 @@ describe('EVVValidator', () => {
     });
   });
 
+  describe('checkPolygonGeofence', () => {
+    // Apartment complex north of the geocoded address (40.7128, -74.0060)
+    const complex = [
+      { latitude: 40.7130, longitude: -74.0070 },
+      { latitude: 40.7140, longitude: -74.0070 },
+      { latitude: 40.7140, longitude: -74.0050 },
+      { latitude: 40.7130, longitude: -74.0050 },
+    ];
+
+    it('should return within geofence for location inside polygon', () => {
+      const result = validator.checkPolygonGeofence(40.7135, -74.0060, 10, complex, 40.7128, -74.0060, 0);
+
+      expect(result.isWithinGeofence).toBe(true);
+      expect(result.requiresManualReview).toBe(false);
+      expect(result.distanceFromBoundary).toBeLessThan(0);
+      expect(result.distanceFromAddress).toBeGreaterThan(70);
+      expect(result.reason).toBeUndefined();
+    });
+
+    it('should return outside geofence for location far from polygon', () => {
+      const result = validator.checkPolygonGeofence(40.7160, -74.0060, 10, complex, 40.7128, -74.0060, 0);
+
+      expect(result.isWithinGeofence).toBe(false);
+      expect(result.distanceFromBoundary).toBeGreaterThan(200);
+      expect(result.reason).toContain('Location is significantly outside geofence');
+    });
+
+    it('should pass with manual review when accuracy circle straddles the edge', () => {
+      // ~22m north of the north edge, reported with 30m accuracy
+      const result = validator.checkPolygonGeofence(40.7142, -74.0060, 30, complex, 40.7128, -74.0060, 0);
+
+      expect(result.isWithinGeofence).toBe(true);
+      expect(result.requiresManualReview).toBe(true);
+      expect(result.reason).toContain('GPS accuracy makes verification uncertain');
+    });
+
+    it('should extend the boundary by the allowed variance', () => {
+      const strict = validator.checkPolygonGeofence(40.7142, -74.0060, 5, complex, 40.7128, -74.0060, 0);
+      const soft = validator.checkPolygonGeofence(40.7142, -74.0060, 5, complex, 40.7128, -74.0060, 30);
+
+      expect(strict.isWithinGeofence).toBe(false);
+      expect(strict.reason).toContain('Location is slightly outside geofence');
+      expect(soft.isWithinGeofence).toBe(true);
+    });
+
+    it('should treat the notch of a concave polygon as outside', () => {
+      const lShape = [
+        { latitude: 40.7130, longitude: -74.0070 },
+        { latitude: 40.7150, longitude: -74.0070 },
+        { latitude: 40.7150, longitude: -74.0060 },
+        { latitude: 40.7140, longitude: -74.0060 },
+        { latitude: 40.7140, longitude: -74.0050 },
+        { latitude: 40.7130, longitude: -74.0050 },
+      ];
+
+      const inArm = validator.checkPolygonGeofence(40.7145, -74.0065, 5, lShape, 40.7128, -74.0060, 0);
+      const inNotch = validator.checkPolygonGeofence(40.7145, -74.0055, 5, lShape, 40.7128, -74.0060, 0);
+
+      expect(inArm.isWithinGeofence).toBe(true);
+      expect(inNotch.isWithinGeofence).toBe(false);
+    });
+  });
+
   describe('verifyIntegrity', () => {
     const mockEVVRecord: EVVRecord = {
       id: 'evv-123',
@@ -0,0 +1,146 @@
+/**
+ * Tests for geofence auto-calibration
+ */
+
+import { describe, it, expect } from 'vitest';
+import { proposeGeofenceCalibration } from '../utils/geofence-calibration';
+import { haversineDistance } from '../utils/geofence-geometry';
+import type { Geofence, GeofenceCalibrationSample } from '../types/evv';
+
+const ADDRESS = { latitude: 40.7128, longitude: -74.0060 };
+const METERS_PER_DEGREE_LAT = 111195;
+
+/**
+ * Clock-in at an offset from the address, in meters north and east
+ */
+function clockInAt(north: number, east: number, accuracy = 10, day = 1): GeofenceCalibrationSample {
+  return {
+    latitude: ADDRESS.latitude + north / METERS_PER_DEGREE_LAT,
+    longitude: ADDRESS.longitude + east / (METERS_PER_DEGREE_LAT * Math.cos((ADDRESS.latitude * Math.PI) / 180)),
+    accuracy,
+    recordedAt: new Date(Date.UTC(2025, 0, day)),
+  };
+}
+
+/**
+ * Clock-ins spread evenly around the address between two distances
+ */
+function ringOfClockIns(count: number, minDistance: number, maxDistance: number): GeofenceCalibrationSample[] {
+  const goldenAngle = Math.PI * (3 - Math.sqrt(5));
+  return Array.from({ length: count }, (_, i) => {
+    const angle = goldenAngle * i;
+    const distance = minDistance + ((maxDistance - minDistance) * ((i * 7) % count)) / (count - 1);
+    return clockInAt(distance * Math.cos(angle), distance * Math.sin(angle), 10, i + 1);
+  });
+}
+
+function buildGeofence(overrides: Partial<Geofence> = {}): Geofence {
+  return {
+    id: 'geofence-123',
+    organizationId: 'org-123',
+    clientId: 'client-123',
+    addressId: 'address-123',
+    centerLatitude: ADDRESS.latitude,
+    centerLongitude: ADDRESS.longitude,
+    radiusMeters: 200,
+    radiusType: 'EXPANDED',
+    shape: 'CIRCLE',
+    isActive: true,
+    allowedVariance: 0,
+    verificationCount: 120,
+    successfulVerifications: 84,
+    failedVerifications: 36,
+    status: 'ACTIVE',
+    createdAt: new Date(),
+    createdBy: 'user-123',
+    updatedAt: new Date(),
+    updatedBy: 'user-123',
+    version: 1,
+    ...overrides,
+  };
+}
+
+describe('proposeGeofenceCalibration', () => {
+  it('should not propose anything without enough clock-ins', () => {
+    const draft = proposeGeofenceCalibration(buildGeofence(), ringOfClockIns(10, 20, 60));
+
+    expect(draft).toBeNull();
+  });
+
+  it('should tighten an oversized circle around the clock-ins', () => {
+    const draft = proposeGeofenceCalibration(buildGeofence(), ringOfClockIns(40, 20, 60));
+
+    expect(draft).not.toBeNull();
+    expect(draft!.proposedShape).toBe('CIRCLE');
+    expect(draft!.proposedRadiusMeters).toBeGreaterThan(60);
+    expect(draft!.proposedRadiusMeters).toBeLessThan(80);
+    expect(draft!.proposedAreaSquareMeters).toBeLessThan(draft!.currentAreaSquareMeters);
+    expect(draft!.proposedCoverage).toBe(1);
+    expect(draft!.sampleSize).toBe(40);
+    expect(draft!.rationale).toContain('from 200 m to');
+    expect(draft!.rationale).toContain('70% of 120 verifications');
+  });
+
+  it('should propose a polygon when clock-ins cluster away from the address', () => {
+    // Parking lot of an apartment complex 150-190m north of the geocoded address
+    const samples = Array.from({ length: 30 }, (_, i) =>
+      clockInAt(150 + (i % 5) * 10, -20 + Math.floor(i / 5) * 8, 10, i + 1)
+    );
+    const geofence = buildGeofence({ radiusMeters: 100 });
+
+    const draft = proposeGeofenceCalibration(geofence, samples);
+
+    expect(draft).not.toBeNull();
+    expect(draft!.proposedShape).toBe('POLYGON');
+    expect(draft!.currentCoverage).toBe(0);
+    expect(draft!.proposedCoverage).toBe(1);
+    expect(draft!.proposedPolygonPoints!.length).toBeGreaterThanOrEqual(3);
+    expect(draft!.rationale).toContain('polygon');
+
+    // Every vertex lies near the cluster, not around the address
+    for (const vertex of draft!.proposedPolygonPoints!) {
+      expect(haversineDistance(ADDRESS, vertex)).toBeGreaterThan(100);
+    }
+  });
+
+  it('should not propose a change when the current geofence already fits', () => {
+    const samples = ringOfClockIns(40, 20, 60);
+    const fitted = proposeGeofenceCalibration(buildGeofence(), samples)!;
+
+    const draft = proposeGeofenceCalibration(
+      buildGeofence({ radiusMeters: fitted.proposedRadiusMeters }),
+      samples
+    );
+
+    expect(draft).toBeNull();
+  });
+
+  it('should ignore inaccurate clock-ins and clock-ins at another address', () => {
+    const samples = [
+      ...ringOfClockIns(25, 20, 60),
+      ...Array.from({ length: 5 }, (_, i) => clockInAt(30, 30, 250, i + 1)),
+      ...Array.from({ length: 10 }, (_, i) => clockInAt(2000, 0, 10, i + 1)),
+    ];
+
+    const draft = proposeGeofenceCalibration(buildGeofence(), samples);
+
+    expect(draft!.sampleSize).toBe(25);
+    expect(draft!.proposedRadiusMeters).toBeLessThan(80);
+  });
+
+  it('should drop far-out outliers before sizing the geofence', () => {
+    const samples = [...ringOfClockIns(39, 20, 60), clockInAt(0, 400, 10, 40)];
+
+    const draft = proposeGeofenceCalibration(buildGeofence(), samples);
+
+    expect(draft!.proposedRadiusMeters).toBeLessThan(80);
+    expect(draft!.proposedCoverage).toBe(0.975);
+  });
+
+  it('should record the sampled period', () => {
+    const draft = proposeGeofenceCalibration(buildGeofence(), ringOfClockIns(40, 20, 60));
+
+    expect(draft!.sampleStartDate).toEqual(new Date(Date.UTC(2025, 0, 1)));
+    expect(draft!.sampleEndDate).toEqual(new Date(Date.UTC(2025, 0, 40)));
+  });
+});
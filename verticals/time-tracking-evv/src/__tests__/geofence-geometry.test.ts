@@ -0,0 +1,84 @@
+/**
+ * Tests for geofence geometry helpers
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  convexHull,
+  createLocalProjection,
+  haversineDistance,
+  isPointInPolygon,
+  percentile,
+  polygonArea,
+  signedDistanceToPolygon,
+} from '../utils/geofence-geometry';
+
+describe('geofence geometry', () => {
+  const square = [
+    { x: 0, y: 0 },
+    { x: 100, y: 0 },
+    { x: 100, y: 100 },
+    { x: 0, y: 100 },
+  ];
+
+  it('should measure great-circle distance in meters', () => {
+    // 0.001 degrees of latitude is ~111 meters
+    const distance = haversineDistance(
+      { latitude: 40.7128, longitude: -74.0060 },
+      { latitude: 40.7138, longitude: -74.0060 }
+    );
+
+    expect(distance).toBeGreaterThan(110);
+    expect(distance).toBeLessThan(112);
+  });
+
+  it('should round-trip points through the local projection', () => {
+    const projection = createLocalProjection({ latitude: 40.7128, longitude: -74.0060 });
+    const point = { latitude: 40.7141, longitude: -74.0047 };
+
+    const planePoint = projection.toPlane(point);
+    const roundTripped = projection.toGeo(planePoint);
+
+    expect(planePoint.y).toBeCloseTo(haversineDistance({ latitude: 40.7128, longitude: -74.0047 }, point), 0);
+    expect(roundTripped.latitude).toBeCloseTo(point.latitude, 9);
+    expect(roundTripped.longitude).toBeCloseTo(point.longitude, 9);
+  });
+
+  it('should test points against a polygon', () => {
+    expect(isPointInPolygon({ x: 50, y: 50 }, square)).toBe(true);
+    expect(isPointInPolygon({ x: 150, y: 50 }, square)).toBe(false);
+  });
+
+  it('should give negative distances inside a polygon and positive outside', () => {
+    const polygon = [
+      { latitude: 40.7130, longitude: -74.0070 },
+      { latitude: 40.7140, longitude: -74.0070 },
+      { latitude: 40.7140, longitude: -74.0050 },
+      { latitude: 40.7130, longitude: -74.0050 },
+    ];
+
+    const inside = signedDistanceToPolygon({ latitude: 40.7135, longitude: -74.0060 }, polygon);
+    const outside = signedDistanceToPolygon({ latitude: 40.7150, longitude: -74.0060 }, polygon);
+
+    // Center of the polygon is ~55m from the north and south edges
+    expect(inside).toBeCloseTo(-55.6, 0);
+    expect(outside).toBeCloseTo(111.2, 0);
+  });
+
+  it('should compute polygon area', () => {
+    expect(polygonArea(square)).toBe(10000);
+  });
+
+  it('should drop interior points from the convex hull', () => {
+    const hull = convexHull([...square, { x: 50, y: 50 }, { x: 20, y: 80 }]);
+
+    expect(hull).toHaveLength(4);
+    expect(polygonArea(hull)).toBe(10000);
+  });
+
+  it('should interpolate percentiles', () => {
+    expect(percentile([10, 20, 30, 40, 50], 50)).toBe(30);
+    expect(percentile([10, 20, 30, 40, 50], 95)).toBe(48);
+    expect(percentile([], 95)).toBe(0);
+  });
+});
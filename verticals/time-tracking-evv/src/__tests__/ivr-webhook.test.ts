@@ -0,0 +1,120 @@
+/**
+ * IVR Webhook Utility Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  parseIVRWebhookInput,
+  normalizePhoneNumber,
+  computeIVRWebhookSignature,
+  verifyIVRWebhookSignature,
+  renderIVRResponse,
+} from '../utils/ivr-webhook';
+
+describe('IVR webhook utilities', () => {
+  describe('parseIVRWebhookInput', () => {
+    it('should map provider form parameters', () => {
+      const input = parseIVRWebhookInput({
+        CallSid: 'CA123',
+        From: '+15125550100',
+        To: '+15125550199',
+        Digits: '4821',
+        CallStatus: 'in-progress',
+        AccountSid: 'AC123',
+      });
+
+      expect(input).toEqual({
+        callSid: 'CA123',
+        from: '+15125550100',
+        to: '+15125550199',
+        digits: '4821',
+        callStatus: 'in-progress',
+      });
+    });
+
+    it('should return null without call identifiers', () => {
+      expect(parseIVRWebhookInput({ From: '+15125550100', To: '+15125550199' })).toBeNull();
+      expect(parseIVRWebhookInput({ CallSid: '', From: '+15125550100', To: '+15125550199' })).toBeNull();
+      expect(parseIVRWebhookInput({ CallSid: 'CA123', To: '+15125550199' })).toBeNull();
+    });
+  });
+
+  describe('normalizePhoneNumber', () => {
+    it('should keep only digits', () => {
+      expect(normalizePhoneNumber('+1 (512) 555-0100')).toBe('15125550100');
+    });
+  });
+
+  describe('signatures', () => {
+    const url = 'https://example.com/webhooks/ivr';
+    const params = { CallSid: 'CA123', From: '+15125550100', To: '+15125550199', Digits: '1' };
+
+    it('should verify a signature computed over the same request', () => {
+      const signature = computeIVRWebhookSignature('secret', url, params);
+
+      expect(verifyIVRWebhookSignature('secret', url, { ...params }, signature)).toBe(true);
+    });
+
+    it('should match Twilio signatures, which sort parameter names by code unit', () => {
+      // Example request from Twilio's webhook security documentation
+      expect(
+        computeIVRWebhookSignature('12345', 'https://mycompany.com/myapp.php?foo=1&bar=2', {
+          CallSid: 'CA1234567890ABCDE',
+          Caller: '+14158675309',
+          Digits: '1234',
+          From: '+14158675309',
+          To: '+18005551212',
+        })
+      ).toBe('RSOYDt4T1cUTdK1PDd93/VVr8B8=');
+
+      // A voice webhook's fields: CallSid and CallStatus sign before Called and Caller
+      const voiceParams = {
+        AccountSid: 'AC0123456789abcdef0123456789abcdef',
+        Called: '+15125550199',
+        Caller: '+15125550100',
+        CallSid: 'CA0123456789abcdef0123456789abcdef',
+        CallStatus: 'in-progress',
+        Digits: '4821',
+        From: '+15125550100',
+        To: '+15125550199',
+      };
+      expect(
+        verifyIVRWebhookSignature('12345', 'https://api.example.com/webhooks/ivr', voiceParams, 'dDca8FVSGu9c7yRZibYeF/Ouphs=')
+      ).toBe(true);
+    });
+
+    it('should reject a tampered request', () => {
+      const signature = computeIVRWebhookSignature('secret', url, params);
+
+      expect(verifyIVRWebhookSignature('secret', url, { ...params, Digits: '2' }, signature)).toBe(false);
+      expect(verifyIVRWebhookSignature('other-secret', url, params, signature)).toBe(false);
+      expect(verifyIVRWebhookSignature('secret', `${url}?x=1`, params, signature)).toBe(false);
+      expect(verifyIVRWebhookSignature('secret', url, params, 'short')).toBe(false);
+    });
+  });
+
+  describe('renderIVRResponse', () => {
+    it('should render TwiML-style XML', () => {
+      const xml = renderIVRResponse({
+        instructions: [
+          { verb: 'SAY', text: 'Welcome.' },
+          { verb: 'GATHER', prompt: 'Enter your PIN.', finishOnKey: '#', timeoutSeconds: 10 },
+        ],
+      });
+
+      expect(xml).toBe(
+        '<?xml version="1.0" encoding="UTF-8"?><Response><Say>Welcome.</Say>' +
+        '<Gather input="dtmf" timeout="10" actionOnEmptyResult="true" finishOnKey="#">' +
+        '<Say>Enter your PIN.</Say></Gather></Response>'
+      );
+    });
+
+    it('should escape spoken text and render hang-ups', () => {
+      const xml = renderIVRResponse({
+        instructions: [{ verb: 'SAY', text: "Call your client's <coordinator> & hang up." }, { verb: 'HANGUP' }],
+      });
+
+      expect(xml).toContain('<Say>Call your client&apos;s &lt;coordinator&gt; &amp; hang up.</Say><Hangup/>');
+    });
+  });
+});
@@ -14,6 +14,8 @@
 // Types
 export * from './types/evv';
 export * from './types/state-specific';
+export * from './types/evv-revisions';
+export * from './types/telephony';
 
 // Interfaces
 export type { IVisitProvider, IClientProvider, ICaregiverProvider, EVVVisitData } from './interfaces/visit-provider';
@@ -24,6 +26,10 @@ export { CaregiverProvider, createCaregiverProvider } from './providers/caregive
 
 // Repository
 export { EVVRepository } from './repository/evv-repository';
+export { EVVRevisionRepository } from './repository/evv-revision-repository';
+export { EVVExceptionQueueRepository, type EVVExceptionQueueUpdate } from './repository/evv-exception-queue-repository';
+export { GeofenceCalibrationRepository } from './repository/geofence-calibration-repository';
+export { TelephonyRepository, type IVRCallSessionUpdate } from './repository/telephony-repository';
 
 // Validation
 export { EVVValidator } from './validation/evv-validator';
@@ -32,6 +38,14 @@ export { EVVValidator } from './validation/evv-validator';
 export { EVVService } from './service/evv-service';
 export { VMURService } from './service/vmur-service';
 export type { CreateVMURInput, ApproveVMURInput, DenyVMURInput } from './service/vmur-service';
+export { EVVRevisionService, type EVVRecordResubmitter } from './service/evv-revision-service';
+export { EVVExceptionQueueService, EVV_EXCEPTION_SLA_HOURS } from './service/evv-exception-queue-service';
+export {
+  GeofenceCalibrationService,
+  GEOFENCE_CALIBRATION_LOOKBACK_DAYS,
+  GEOFENCE_RECALIBRATION_INTERVAL_DAYS,
+} from './service/geofence-calibration-service';
+export { TelephonyIVRService, hashTelephonyPin } from './service/telephony-ivr-service';
 export {
   EVVComplianceOrchestrator,
   type RealTimeValidationFeedback,
@@ -73,6 +87,38 @@ export {
 export { IntegrationService } from './utils/integration-service';
 // Platform-specific: will use crypto-utils.native.ts in React Native
 export { CryptoUtils } from './utils/crypto-utils';
+export {
+  proposeGeofenceCalibration,
+  DEFAULT_GEOFENCE_CALIBRATION_OPTIONS,
+  type GeofenceCalibrationOptions,
+  type GeofenceCalibrationDraft,
+} from './utils/geofence-calibration';
+export {
+  parseIVRWebhookInput,
+  normalizePhoneNumber,
+  computeIVRWebhookSignature,
+  verifyIVRWebhookSignature,
+  renderIVRResponse,
+} from './utils/ivr-webhook';
+export {
+  IVRCallSimulator,
+  type IVRWebhookHandler,
+  type IVRCallSimulatorOptions,
+} from './utils/ivr-call-simulator';
+
+// Workers
+export {
+  GeofenceCalibrationWorker,
+  initializeGeofenceCalibrationWorker,
+  shutdownGeofenceCalibrationWorker,
+  type GeofenceCalibrationWorkerConfig,
+} from './workers/geofence-calibration-worker';
+export {
+  EVVExceptionSlaWorker,
+  initializeEVVExceptionSlaWorker,
+  shutdownEVVExceptionSlaWorker,
+  type EVVExceptionSlaWorkerConfig,
+} from './workers/evv-exception-sla-worker';
 
 // API Handlers
 export { EVVHandlers } from './api/evv-handlers';
@@ -0,0 +1,507 @@
+/**
+ * EVV Exception Queue Repository - Data access for EVV exceptions awaiting review
+ */
+
+import { Database, UUID, PaginationParams, PaginatedResult } from '@care-commons/core';
+import { TransactionClient } from './evv-repository';
+import {
+  EVVExceptionQueueItem,
+  EVVExceptionQueueFilters,
+  EVVExceptionQueueStats,
+  EVVIssue,
+} from '../types/evv-revisions';
+
+interface EVVExceptionQueueRow {
+  id: string;
+  evv_record_id: string;
+  visit_id: string;
+  organization_id: string;
+  branch_id: string;
+  exception_type: string;
+  exception_code: string;
+  exception_severity: string;
+  exception_description: string;
+  issues: string | EVVIssue[];
+  issue_count: number;
+  detected_at: Date;
+  detected_by: string;
+  detection_method: string | null;
+  assigned_to: string | null;
+  assigned_to_role: string | null;
+  assigned_at: Date | null;
+  status: string;
+  priority: string;
+  due_date: Date | null;
+  sla_deadline: Date | null;
+  resolution_method: string | null;
+  resolved_at: Date | null;
+  resolved_by: string | null;
+  resolution_notes: string | null;
+  escalated_at: Date | null;
+  escalated_to: string | null;
+  escalation_reason: string | null;
+  viewed_at: Date | null;
+  viewed_by: string | null;
+  notification_sent: boolean;
+  notification_sent_at: Date | null;
+}
+
+/**
+ * Fields that may be changed after an exception is created
+ */
+export type EVVExceptionQueueUpdate = Partial<Pick<EVVExceptionQueueItem,
+  | 'exceptionType'
+  | 'exceptionCode'
+  | 'exceptionSeverity'
+  | 'exceptionDescription'
+  | 'issues'
+  | 'issueCount'
+  | 'assignedTo'
+  | 'assignedToRole'
+  | 'assignedAt'
+  | 'status'
+  | 'priority'
+  | 'dueDate'
+  | 'slaDeadline'
+  | 'resolutionMethod'
+  | 'resolvedAt'
+  | 'resolvedBy'
+  | 'resolutionNotes'
+  | 'escalatedAt'
+  | 'escalatedTo'
+  | 'escalationReason'
+  | 'viewedAt'
+  | 'viewedBy'
+  | 'notificationsent'
+  | 'notificationSentAt'
+>>;
+
+/**
+ * Column for each updatable field
+ */
+const UPDATE_COLUMNS: Record<keyof EVVExceptionQueueUpdate, string> = {
+  exceptionType: 'exception_type',
+  exceptionCode: 'exception_code',
+  exceptionSeverity: 'exception_severity',
+  exceptionDescription: 'exception_description',
+  issues: 'issues',
+  issueCount: 'issue_count',
+  assignedTo: 'assigned_to',
+  assignedToRole: 'assigned_to_role',
+  assignedAt: 'assigned_at',
+  status: 'status',
+  priority: 'priority',
+  dueDate: 'due_date',
+  slaDeadline: 'sla_deadline',
+  resolutionMethod: 'resolution_method',
+  resolvedAt: 'resolved_at',
+  resolvedBy: 'resolved_by',
+  resolutionNotes: 'resolution_notes',
+  escalatedAt: 'escalated_at',
+  escalatedTo: 'escalated_to',
+  escalationReason: 'escalation_reason',
+  viewedAt: 'viewed_at',
+  viewedBy: 'viewed_by',
+  notificationsent: 'notification_sent',
+  notificationSentAt: 'notification_sent_at',
+};
+
+export class EVVExceptionQueueRepository {
+  constructor(private database: Database) { }
+
+  /**
+   * Add an exception to the queue
+   */
+  async createException(item: Omit<EVVExceptionQueueItem, 'id'>): Promise<EVVExceptionQueueItem> {
+    const result = await this.database.query(
+      `INSERT INTO evv_exception_queue (
+        evv_record_id, visit_id, organization_id, branch_id,
+        exception_type, exception_code, exception_severity, exception_description,
+        issues, issue_count,
+        detected_at, detected_by, detection_method,
+        assigned_to, assigned_to_role, assigned_at,
+        status, priority, due_date, sla_deadline,
+        notification_sent, notification_sent_at
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22)
+      RETURNING *`,
+      [
+        item.evvRecordId,
+        item.visitId,
+        item.organizationId,
+        item.branchId,
+        item.exceptionType,
+        item.exceptionCode,
+        item.exceptionSeverity,
+        item.exceptionDescription,
+        JSON.stringify(item.issues),
+        item.issueCount,
+        item.detectedAt,
+        item.detectedBy,
+        item.detectionMethod ?? null,
+        item.assignedTo ?? null,
+        item.assignedToRole ?? null,
+        item.assignedAt ?? null,
+        item.status,
+        item.priority,
+        item.dueDate ?? null,
+        item.slaDeadline ?? null,
+        item.notificationsent,
+        item.notificationSentAt ?? null,
+      ]
+    );
+
+    return this.mapException(result.rows[0] as unknown as EVVExceptionQueueRow);
+  }
+
+  /**
+   * Get exception by ID
+   */
+  async getExceptionById(id: UUID, client?: TransactionClient): Promise<EVVExceptionQueueItem | null> {
+    const query = 'SELECT * FROM evv_exception_queue WHERE id = $1';
+    const result = client
+      ? await client.query(query, [id])
+      : await this.database.query(query, [id]);
+    return result.rows[0] ? this.mapException(result.rows[0] as unknown as EVVExceptionQueueRow) : null;
+  }
+
+  /**
+   * Get the unresolved exception for an EVV record, if one exists
+   */
+  async getOpenExceptionForRecord(
+    evvRecordId: UUID,
+    client?: TransactionClient
+  ): Promise<EVVExceptionQueueItem | null> {
+    const query = `SELECT * FROM evv_exception_queue
+       WHERE evv_record_id = $1
+         AND status IN ('OPEN', 'IN_PROGRESS', 'ESCALATED')
+       ORDER BY detected_at DESC
+       LIMIT 1`;
+    const result = client
+      ? await client.query(query, [evvRecordId])
+      : await this.database.query(query, [evvRecordId]);
+    return result.rows[0] ? this.mapException(result.rows[0] as unknown as EVVExceptionQueueRow) : null;
+  }
+
+  /**
+   * Update exception fields
+   */
+  async updateException(
+    id: UUID,
+    updates: EVVExceptionQueueUpdate,
+    client?: TransactionClient
+  ): Promise<EVVExceptionQueueItem> {
+    const fields: string[] = [];
+    const values: unknown[] = [];
+    let paramIndex = 1;
+
+    for (const [key, value] of Object.entries(updates)) {
+      const column = UPDATE_COLUMNS[key as keyof EVVExceptionQueueUpdate];
+      if (column === undefined || value === undefined) {
+        continue;
+      }
+      fields.push(`${column} = $${paramIndex}`);
+      values.push(key === 'issues' ? JSON.stringify(value) : value);
+      paramIndex++;
+    }
+
+    if (fields.length === 0) {
+      const existing = await this.getExceptionById(id, client);
+      if (!existing) {
+        throw new Error(`EVV exception ${id} not found`);
+      }
+      return existing;
+    }
+
+    values.push(id);
+    const query = `UPDATE evv_exception_queue
+       SET ${fields.join(', ')}
+       WHERE id = $${paramIndex}
+       RETURNING *`;
+    const result = client
+      ? await client.query(query, values)
+      : await this.database.query(query, values);
+
+    if (!result.rows[0]) {
+      throw new Error(`EVV exception ${id} not found`);
+    }
+
+    return this.mapException(result.rows[0] as unknown as EVVExceptionQueueRow);
+  }
+
+  /**
+   * Search the exception queue
+   *
+   * Results are ordered by priority (URGENT first), then by SLA deadline.
+   */
+  async searchExceptions(
+    filters: EVVExceptionQueueFilters,
+    pagination: PaginationParams
+  ): Promise<PaginatedResult<EVVExceptionQueueItem>> {
+    const { whereClause, values } = this.buildFilterClause(filters);
+    const paramIndex = values.length + 1;
+
+    const countResult = await this.database.query(
+      `SELECT COUNT(*) FROM evv_exception_queue ${whereClause}`,
+      values
+    );
+    const total = parseInt(countResult.rows[0]!['count'] as string);
+
+    const offset = (pagination.page - 1) * pagination.limit;
+    const dataValues = [...values, pagination.limit, offset];
+
+    const result = await this.database.query(
+      `SELECT * FROM evv_exception_queue
+       ${whereClause}
+       ORDER BY
+         CASE priority
+           WHEN 'URGENT' THEN 1
+           WHEN 'HIGH' THEN 2
+           WHEN 'MEDIUM' THEN 3
+           ELSE 4
+         END,
+         sla_deadline ASC NULLS LAST,
+         detected_at ASC
+       LIMIT $${paramIndex} OFFSET $${paramIndex + 1}`,
+      dataValues
+    );
+
+    return {
+      items: result.rows.map(row => this.mapException(row as unknown as EVVExceptionQueueRow)),
+      total,
+      page: pagination.page,
+      limit: pagination.limit,
+      totalPages: Math.ceil(total / pagination.limit),
+    };
+  }
+
+  /**
+   * Get open or in-progress exceptions whose SLA deadline has passed
+   */
+  async getSlaBreaches(asOf: Date, limit: number = 100): Promise<EVVExceptionQueueItem[]> {
+    const result = await this.database.query(
+      `SELECT * FROM evv_exception_queue
+       WHERE status IN ('OPEN', 'IN_PROGRESS')
+         AND sla_deadline IS NOT NULL
+         AND sla_deadline < $1
+       ORDER BY sla_deadline ASC
+       LIMIT $2`,
+      [asOf, limit]
+    );
+    return result.rows.map(row => this.mapException(row as unknown as EVVExceptionQueueRow));
+  }
+
+  /**
+   * Aggregate queue statistics for a period
+   */
+  async getStats(organizationId: UUID, periodStart: Date, periodEnd: Date): Promise<EVVExceptionQueueStats> {
+    const params = [organizationId, periodStart, periodEnd];
+    const scope = `organization_id = $1 AND detected_at >= $2 AND detected_at <= $3`;
+
+    const totalsResult = await this.database.query(
+      `SELECT
+         COUNT(*) AS total,
+         COUNT(*) FILTER (WHERE status = 'OPEN') AS open,
+         COUNT(*) FILTER (WHERE status = 'IN_PROGRESS') AS in_progress,
+         COUNT(*) FILTER (WHERE status IN ('RESOLVED', 'CLOSED')) AS resolved,
+         COUNT(*) FILTER (WHERE status = 'ESCALATED') AS escalated,
+         COUNT(*) FILTER (WHERE status IN ('OPEN', 'IN_PROGRESS') AND due_date < NOW()) AS overdue,
+         COUNT(*) FILTER (
+           WHERE sla_deadline IS NOT NULL
+             AND COALESCE(resolved_at, NOW()) > sla_deadline
+         ) AS sla_breaches,
+         AVG(EXTRACT(EPOCH FROM (resolved_at - detected_at)) / 3600)
+           FILTER (WHERE resolved_at IS NOT NULL) AS avg_resolution_hours
+       FROM evv_exception_queue
+       WHERE ${scope}`,
+      params
+    );
+
+    const groupedResult = await this.database.query(
+      `SELECT 'severity' AS dimension, exception_severity AS key, COUNT(*) AS count
+         FROM evv_exception_queue WHERE ${scope} GROUP BY exception_severity
+       UNION ALL
+       SELECT 'type', exception_type, COUNT(*)
+         FROM evv_exception_queue WHERE ${scope} GROUP BY exception_type
+       UNION ALL
+       SELECT 'priority', priority, COUNT(*)
+         FROM evv_exception_queue WHERE ${scope} GROUP BY priority`,
+      params
+    );
+
+    const topIssuesResult = await this.database.query(
+      `SELECT issue->>'issueType' AS issue_type, COUNT(*) AS count
+       FROM evv_exception_queue, jsonb_array_elements(issues) AS issue
+       WHERE ${scope}
+       GROUP BY issue->>'issueType'
+       ORDER BY count DESC
+       LIMIT 10`,
+      params
+    );
+
+    const totals = totalsResult.rows[0] ?? {};
+    const bySeverity: Record<string, number> = {};
+    const byType: Record<string, number> = {};
+    const byPriority: Record<string, number> = {};
+
+    for (const row of groupedResult.rows) {
+      const count = parseInt(row['count'] as string);
+      const key = row['key'] as string;
+      if (row['dimension'] === 'severity') {
+        bySeverity[key] = count;
+      } else if (row['dimension'] === 'type') {
+        byType[key] = count;
+      } else {
+        byPriority[key] = count;
+      }
+    }
+
+    return {
+      organizationId,
+      periodStart,
+      periodEnd,
+      totalExceptions: parseInt((totals['total'] as string | undefined) ?? '0'),
+      openExceptions: parseInt((totals['open'] as string | undefined) ?? '0'),
+      inProgressExceptions: parseInt((totals['in_progress'] as string | undefined) ?? '0'),
+      resolvedExceptions: parseInt((totals['resolved'] as string | undefined) ?? '0'),
+      escalatedExceptions: parseInt((totals['escalated'] as string | undefined) ?? '0'),
+      bySeverity,
+      byType,
+      byPriority,
+      averageResolutionTimeHours: totals['avg_resolution_hours'] !== null && totals['avg_resolution_hours'] !== undefined
+        ? Math.round(parseFloat(totals['avg_resolution_hours'] as string) * 10) / 10
+        : 0,
+      overdueCount: parseInt((totals['overdue'] as string | undefined) ?? '0'),
+      slaBreachCount: parseInt((totals['sla_breaches'] as string | undefined) ?? '0'),
+      topIssues: topIssuesResult.rows.map(row => ({
+        issueType: row['issue_type'] as string,
+        count: parseInt(row['count'] as string),
+      })),
+    };
+  }
+
+  /**
+   * Helper: Build WHERE clause from queue filters
+   */
+  private buildFilterClause(filters: EVVExceptionQueueFilters): { whereClause: string; values: unknown[] } {
+    const conditions: string[] = [];
+    const values: unknown[] = [];
+    let paramIndex = 1;
+
+    if (filters.organizationId) {
+      conditions.push(`organization_id = $${paramIndex}`);
+      values.push(filters.organizationId);
+      paramIndex++;
+    }
+
+    if (filters.branchId) {
+      conditions.push(`branch_id = $${paramIndex}`);
+      values.push(filters.branchId);
+      paramIndex++;
+    }
+
+    if (filters.assignedTo) {
+      conditions.push(`assigned_to = $${paramIndex}`);
+      values.push(filters.assignedTo);
+      paramIndex++;
+    }
+
+    if (filters.status && filters.status.length > 0) {
+      conditions.push(`status = ANY($${paramIndex})`);
+      values.push(filters.status);
+      paramIndex++;
+    }
+
+    if (filters.severity && filters.severity.length > 0) {
+      conditions.push(`exception_severity = ANY($${paramIndex})`);
+      values.push(filters.severity);
+      paramIndex++;
+    }
+
+    if (filters.priority && filters.priority.length > 0) {
+      conditions.push(`priority = ANY($${paramIndex})`);
+      values.push(filters.priority);
+      paramIndex++;
+    }
+
+    if (filters.exceptionType && filters.exceptionType.length > 0) {
+      conditions.push(`exception_type = ANY($${paramIndex})`);
+      values.push(filters.exceptionType);
+      paramIndex++;
+    }
+
+    if (filters.dateFrom) {
+      conditions.push(`detected_at >= $${paramIndex}`);
+      values.push(filters.dateFrom);
+      paramIndex++;
+    }
+
+    if (filters.dateTo) {
+      conditions.push(`detected_at <= $${paramIndex}`);
+      values.push(filters.dateTo);
+      paramIndex++;
+    }
+
+    if (filters.onlyOverdue) {
+      conditions.push(`status IN ('OPEN', 'IN_PROGRESS') AND sla_deadline < NOW()`);
+    }
+
+    if (filters.onlyUnassigned) {
+      conditions.push(`assigned_to IS NULL`);
+    }
+
+    return {
+      whereClause: conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '',
+      values,
+    };
+  }
+
+  /**
+   * Helper: Map database row to EVVExceptionQueueItem
+   */
+  private mapException(row: EVVExceptionQueueRow): EVVExceptionQueueItem {
+    const baseItem = {
+      id: row.id,
+      evvRecordId: row.evv_record_id,
+      visitId: row.visit_id,
+      organizationId: row.organization_id,
+      branchId: row.branch_id,
+      exceptionType: row.exception_type,
+      exceptionCode: row.exception_code,
+      exceptionSeverity: row.exception_severity as EVVExceptionQueueItem['exceptionSeverity'],
+      exceptionDescription: row.exception_description,
+      issues: typeof row.issues === 'string' ? JSON.parse(row.issues) as EVVIssue[] : row.issues,
+      issueCount: row.issue_count,
+      detectedAt: row.detected_at,
+      detectedBy: row.detected_by as EVVExceptionQueueItem['detectedBy'],
+      status: row.status as EVVExceptionQueueItem['status'],
+      priority: row.priority as EVVExceptionQueueItem['priority'],
+      notificationsent: row.notification_sent,
+    };
+
+    const optionalFields = {
+      detectionMethod: row.detection_method,
+      assignedTo: row.assigned_to,
+      assignedToRole: row.assigned_to_role,
+      assignedAt: row.assigned_at,
+      dueDate: row.due_date,
+      slaDeadline: row.sla_deadline,
+      resolutionMethod: row.resolution_method,
+      resolvedAt: row.resolved_at,
+      resolvedBy: row.resolved_by,
+      resolutionNotes: row.resolution_notes,
+      escalatedAt: row.escalated_at,
+      escalatedTo: row.escalated_to,
+      escalationReason: row.escalation_reason,
+      viewedAt: row.viewed_at,
+      viewedBy: row.viewed_by,
+      notificationSentAt: row.notification_sent_at,
+    };
+
+    const filteredOptional = Object.fromEntries(
+      Object.entries(optionalFields).filter(([_, value]) => value !== undefined && value !== null)
+    );
+
+    return { ...baseItem, ...filteredOptional } as EVVExceptionQueueItem;
+  }
+}
@@ -7,6 +7,7 @@ import {
   EVVRecord,
   TimeEntry,
   Geofence,
+  GeoPoint,
   EVVRecordSearchFilters,
   EVVRecordStatus,
   VerificationLevel,
@@ -14,6 +15,11 @@ import {
   TimeEntryStatus,
 } from '../types/evv';
 
+/**
+ * Transaction client handed out by Database.transaction
+ */
+export type TransactionClient = Parameters<Parameters<Database['transaction']>[0]>[0];
+
 interface EVVRecordRow {
   id: string;
   visit_id: string;
@@ -181,6 +187,14 @@ export class EVVRepository {
     return result.rows[0] ? this.mapEVVRecord(result.rows[0] as unknown as EVVRecordRow) : null;
   }
 
+  /**
+   * Get EVV record by ID, locking it until the transaction ends
+   */
+  async getEVVRecordForUpdate(id: UUID, client: TransactionClient): Promise<EVVRecord | null> {
+    const result = await client.query('SELECT * FROM evv_records WHERE id = $1 FOR UPDATE', [id]);
+    return result.rows[0] ? this.mapEVVRecord(result.rows[0] as unknown as EVVRecordRow) : null;
+  }
+
   /**
    * Get EVV record by visit ID
    */
@@ -192,11 +206,14 @@ export class EVVRepository {
 
   /**
    * Update EVV record
+   *
+   * Pass a transaction client to update it together with its revisions.
    */
   async updateEVVRecord(
     id: UUID,
     updates: Partial<EVVRecord>,
-    updatedBy: UUID
+    updatedBy: UUID,
+    client?: TransactionClient
   ): Promise<EVVRecord> {
     const fields: string[] = [];
     const values: unknown[] = [];
@@ -234,7 +251,9 @@ export class EVVRepository {
       RETURNING *
     `;
 
-    const result = await this.database.query(query, values);
+    const result = client
+      ? await client.query(query, values)
+      : await this.database.query(query, values);
     if (!result.rows[0]) {
       throw new Error(`EVV record ${id} not found`);
     }
@@ -619,6 +638,87 @@ export class EVVRepository {
     return result.rows[0] ? this.mapGeofence(result.rows[0]) : null;
   }
 
+  /**
+   * Get geofence by ID
+   */
+  async getGeofenceById(id: UUID): Promise<Geofence | null> {
+    const result = await this.database.query('SELECT * FROM geofences WHERE id = $1', [id]);
+    return result.rows[0] ? this.mapGeofence(result.rows[0]) : null;
+  }
+
+  /**
+   * Get active geofences with enough verification history to calibrate
+   *
+   * Skips geofences calibrated since calibratedBefore, geofences with a
+   * proposal awaiting review, and geofences whose last proposal was rejected
+   * since calibratedBefore. The noisiest geofences come first.
+   */
+  async getGeofencesDueForCalibration(
+    minVerifications: number,
+    calibratedBefore: Date,
+    limit: number
+  ): Promise<Geofence[]> {
+    const query = `
+      SELECT g.* FROM geofences g
+      WHERE g.is_active = true AND g.status = 'ACTIVE'
+        AND g.verification_count >= $1
+        AND (g.calibrated_at IS NULL OR g.calibrated_at < $2)
+        AND NOT EXISTS (
+          SELECT 1 FROM geofence_calibration_proposals p
+          WHERE p.geofence_id = g.id
+            AND (p.status = 'PENDING' OR (p.status = 'REJECTED' AND p.reviewed_at >= $2))
+        )
+      ORDER BY g.failed_verifications DESC, g.verification_count DESC
+      LIMIT $3
+    `;
+    const result = await this.database.query(query, [minVerifications, calibratedBefore, limit]);
+    return result.rows.map(row => this.mapGeofence(row));
+  }
+
+  /**
+   * Apply an approved calibration to a geofence
+   */
+  async applyGeofenceCalibration(
+    id: UUID,
+    calibration: {
+      shape: Geofence['shape'];
+      radiusMeters: number;
+      polygonPoints?: GeoPoint[];
+      calibrationNotes: string;
+    },
+    calibratedBy: UUID
+  ): Promise<Geofence> {
+    const query = `
+      UPDATE geofences
+      SET shape = $1,
+          radius_meters = $2,
+          radius_type = 'CUSTOM',
+          polygon_points = $3,
+          calibrated_at = NOW(),
+          calibrated_by = $4,
+          calibration_method = 'AUTO',
+          calibration_notes = $5,
+          updated_by = $4
+      WHERE id = $6
+      RETURNING *
+    `;
+
+    const result = await this.database.query(query, [
+      calibration.shape,
+      calibration.radiusMeters,
+      calibration.polygonPoints ? JSON.stringify(calibration.polygonPoints) : null,
+      calibratedBy,
+      calibration.calibrationNotes,
+      id,
+    ]);
+
+    if (!result.rows[0]) {
+      throw new Error(`Geofence ${id} not found`);
+    }
+
+    return this.mapGeofence(result.rows[0]);
+  }
+
   /**
    * Update geofence statistics
    */
@@ -727,12 +827,13 @@ export class EVVRepository {
       organizationId: row.organization_id,
       clientId: row.client_id,
       addressId: row.address_id,
-      centerLatitude: row.center_latitude,
-      centerLongitude: row.center_longitude,
+      // DECIMAL columns come back from node-postgres as strings
+      centerLatitude: Number(row.center_latitude),
+      centerLongitude: Number(row.center_longitude),
       radiusMeters: row.radius_meters,
       radiusType: row.radius_type,
       shape: row.shape,
-      polygonPoints: row.polygon_points ? JSON.parse(row.polygon_points) : undefined,
+      polygonPoints: row.polygon_points ? this.parseJsonField<GeoPoint[]>(row.polygon_points) : undefined,
       isActive: row.is_active,
       allowedVariance: row.allowed_variance,
       calibratedAt: row.calibrated_at,
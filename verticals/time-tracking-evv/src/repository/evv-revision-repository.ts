@@ -0,0 +1,653 @@
+/**
+ * EVV Revision Repository - Data access for the immutable revision trail
+ *
+ * Original clock-in/out data is captured once in evv_original_data and never
+ * updated. Corrections are appended to evv_revisions (revision numbers are
+ * assigned by the set_revision_number trigger). Pending corrections live in
+ * evv_revision_requests until a supervisor decides on them.
+ */
+
+import { Database, UUID } from '@care-commons/core';
+import { TransactionClient } from './evv-repository';
+import {
+  EVVRevision,
+  EVVOriginalData,
+  EVVRevisionRequest,
+  EVVAccessLogEntry,
+  ApprovalAction,
+} from '../types/evv-revisions';
+
+interface EVVRevisionRow {
+  id: string;
+  evv_record_id: string;
+  visit_id: string;
+  organization_id: string;
+  revision_number: number;
+  revision_type: string;
+  revision_reason: string;
+  revision_reason_code: string | null;
+  revised_by: string;
+  revised_by_name: string;
+  revised_by_role: string;
+  revised_at: Date;
+  field_path: string;
+  original_value: unknown;
+  new_value: unknown;
+  justification: string;
+  supporting_documents: string[] | string | null;
+  requires_approval: boolean;
+  approval_status: string | null;
+  approved_by: string | null;
+  approved_by_name: string | null;
+  approved_at: Date | null;
+  denial_reason: string | null;
+  aggregator_notified: boolean;
+  aggregator_notified_at: Date | null;
+  aggregator_confirmation: string | null;
+  resubmission_required: boolean;
+  resubmitted_at: Date | null;
+  revision_hash: string;
+  previous_revision_hash: string | null;
+  compliance_notes: string | null;
+  compliance_reviewed: boolean;
+  compliance_reviewed_by: string | null;
+  compliance_reviewed_at: Date | null;
+}
+
+interface EVVRevisionRequestRow {
+  id: string;
+  evv_record_id: string;
+  visit_id: string;
+  organization_id: string;
+  exception_id: string | null;
+  requested_changes: unknown;
+  request_reason: string;
+  request_reason_code: string | null;
+  request_justification: string;
+  supporting_documents: unknown;
+  requested_by: string;
+  requested_by_name: string;
+  requested_by_role: string;
+  requested_at: Date;
+  status: string;
+  requires_supervisor_approval: boolean;
+  requires_compliance_approval: boolean;
+  supervisor_approval: unknown;
+  compliance_approval: unknown;
+  implemented_at: Date | null;
+  implemented_by: string | null;
+  implementation_notes: string | null;
+  expires_at: Date;
+  state_specific_data: unknown;
+}
+
+export class EVVRevisionRepository {
+  constructor(private database: Database) { }
+
+  /**
+   * Run work in a single transaction; pass the client to the methods below
+   */
+  async transaction<T>(work: (client: TransactionClient) => Promise<T>): Promise<T> {
+    return this.database.transaction(work);
+  }
+
+  /**
+   * Get the immutable original data for an EVV record
+   */
+  async getOriginalData(evvRecordId: UUID, client?: TransactionClient): Promise<EVVOriginalData | null> {
+    const result = await this.query(
+      'SELECT * FROM evv_original_data WHERE evv_record_id = $1',
+      [evvRecordId],
+      client
+    );
+    const row = result.rows[0];
+    if (!row) {
+      return null;
+    }
+
+    return {
+      originalClockInTime: row['original_clock_in_time'] as Date,
+      originalClockOutTime: (row['original_clock_out_time'] as Date | null) ?? undefined,
+      originalDuration: (row['original_duration'] as number | null) ?? undefined,
+      originalClockInLocation: this.parseJsonField(row['original_clock_in_location']),
+      originalClockOutLocation: row['original_clock_out_location']
+        ? this.parseJsonField(row['original_clock_out_location'])
+        : undefined,
+      originalClockInDevice: row['original_clock_in_device'] as string,
+      originalClockOutDevice: (row['original_clock_out_device'] as string | null) ?? undefined,
+      originalVerificationMethod: row['original_verification_method'] as string,
+      capturedAt: row['captured_at'] as Date,
+      capturedBy: row['captured_by'] as string,
+      capturedViaDevice: row['captured_via_device'] as string,
+      capturedViaApp: row['captured_via_app'] as string,
+      originalIntegrityHash: row['original_integrity_hash'] as string,
+      originalChecksum: row['original_checksum'] as string,
+      lockedForEditing: Boolean(row['locked_for_editing']),
+      lockReason: (row['lock_reason'] as string | null) ?? undefined,
+      lockedAt: (row['locked_at'] as Date | null) ?? undefined,
+      lockedBy: (row['locked_by'] as string | null) ?? undefined,
+    };
+  }
+
+  /**
+   * Capture original data for an EVV record
+   *
+   * Uses ON CONFLICT DO NOTHING so the first capture always wins - original
+   * data can never be overwritten once stored.
+   */
+  async saveOriginalData(evvRecordId: UUID, data: EVVOriginalData, client?: TransactionClient): Promise<void> {
+    await this.query(
+      `INSERT INTO evv_original_data (
+        evv_record_id,
+        original_clock_in_time, original_clock_out_time, original_duration,
+        original_clock_in_location, original_clock_out_location,
+        original_clock_in_device, original_clock_out_device, original_verification_method,
+        captured_at, captured_by, captured_via_device, captured_via_app,
+        original_integrity_hash, original_checksum,
+        locked_for_editing, lock_reason, locked_at, locked_by
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19)
+      ON CONFLICT (evv_record_id) DO NOTHING`,
+      [
+        evvRecordId,
+        data.originalClockInTime,
+        data.originalClockOutTime ?? null,
+        data.originalDuration ?? null,
+        JSON.stringify(data.originalClockInLocation),
+        data.originalClockOutLocation ? JSON.stringify(data.originalClockOutLocation) : null,
+        data.originalClockInDevice,
+        data.originalClockOutDevice ?? null,
+        data.originalVerificationMethod,
+        data.capturedAt,
+        data.capturedBy,
+        data.capturedViaDevice,
+        data.capturedViaApp,
+        data.originalIntegrityHash,
+        data.originalChecksum,
+        data.lockedForEditing,
+        data.lockReason ?? null,
+        data.lockedAt ?? null,
+        data.lockedBy ?? null,
+      ],
+      client
+    );
+  }
+
+  /**
+   * Get all revisions for an EVV record in order
+   */
+  async getRevisions(evvRecordId: UUID): Promise<EVVRevision[]> {
+    const result = await this.database.query(
+      `SELECT * FROM evv_revisions
+       WHERE evv_record_id = $1
+       ORDER BY revision_number ASC`,
+      [evvRecordId]
+    );
+    return result.rows.map(row => this.mapRevision(row as unknown as EVVRevisionRow));
+  }
+
+  /**
+   * Get the most recent revision for an EVV record
+   */
+  async getLatestRevision(evvRecordId: UUID, client?: TransactionClient): Promise<EVVRevision | null> {
+    const result = await this.query(
+      `SELECT * FROM evv_revisions
+       WHERE evv_record_id = $1
+       ORDER BY revision_number DESC
+       LIMIT 1`,
+      [evvRecordId],
+      client
+    );
+    return result.rows[0] ? this.mapRevision(result.rows[0] as unknown as EVVRevisionRow) : null;
+  }
+
+  /**
+   * Append a revision to the audit trail
+   *
+   * Revision number is assigned by the database trigger.
+   */
+  async appendRevision(
+    revision: Omit<EVVRevision, 'id' | 'revisionNumber'>,
+    client?: TransactionClient
+  ): Promise<EVVRevision> {
+    const result = await this.query(
+      `INSERT INTO evv_revisions (
+        evv_record_id, visit_id, organization_id,
+        revision_type, revision_reason, revision_reason_code,
+        revised_by, revised_by_name, revised_by_role, revised_at,
+        field_path, original_value, new_value,
+        justification, supporting_documents,
+        requires_approval, approval_status, approved_by, approved_by_name, approved_at, denial_reason,
+        aggregator_notified, resubmission_required,
+        revision_hash, previous_revision_hash,
+        compliance_notes, compliance_reviewed, compliance_reviewed_by, compliance_reviewed_at
+      )
+      VALUES (
+        $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20,
+        $21, $22, $23, $24, $25, $26, $27, $28, $29
+      )
+      RETURNING *`,
+      [
+        revision.evvRecordId,
+        revision.visitId,
+        revision.organizationId,
+        revision.revisionType,
+        revision.revisionReason,
+        revision.revisionReasonCode ?? null,
+        revision.revisedBy,
+        revision.revisedByName,
+        revision.revisedByRole,
+        revision.revisedAt,
+        revision.fieldPath,
+        JSON.stringify(revision.originalValue ?? null),
+        JSON.stringify(revision.newValue ?? null),
+        revision.justification,
+        revision.supportingDocuments ? JSON.stringify(revision.supportingDocuments) : null,
+        revision.requiresApproval,
+        revision.approvalStatus ?? null,
+        revision.approvedBy ?? null,
+        revision.approvedByName ?? null,
+        revision.approvedAt ?? null,
+        revision.denialReason ?? null,
+        revision.aggregatorNotified,
+        revision.resubmissionRequired,
+        revision.revisionHash,
+        revision.previousRevisionHash ?? null,
+        revision.complianceNotes ?? null,
+        revision.complianceReviewed,
+        revision.complianceReviewedBy ?? null,
+        revision.complianceReviewedAt ?? null,
+      ],
+      client
+    );
+
+    return this.mapRevision(result.rows[0] as unknown as EVVRevisionRow);
+  }
+
+  /**
+   * Record that revisions were resubmitted to the state aggregator
+   *
+   * Only the aggregator-tracking columns change; revision content stays immutable.
+   */
+  async markRevisionsResubmitted(revisionIds: UUID[], confirmation?: string): Promise<void> {
+    if (revisionIds.length === 0) {
+      return;
+    }
+
+    await this.database.query(
+      `UPDATE evv_revisions
+       SET aggregator_notified = true,
+           aggregator_notified_at = NOW(),
+           aggregator_confirmation = $1,
+           resubmitted_at = NOW()
+       WHERE id = ANY($2)`,
+      [confirmation ?? null, revisionIds]
+    );
+  }
+
+  /**
+   * Create a revision request
+   */
+  async createRevisionRequest(
+    request: Omit<EVVRevisionRequest, 'id'>
+  ): Promise<EVVRevisionRequest> {
+    const result = await this.database.query(
+      `INSERT INTO evv_revision_requests (
+        evv_record_id, visit_id, organization_id, exception_id,
+        requested_changes, request_reason, request_reason_code, request_justification,
+        supporting_documents,
+        requested_by, requested_by_name, requested_by_role, requested_at,
+        status, requires_supervisor_approval, requires_compliance_approval,
+        expires_at, state_specific_data
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18)
+      RETURNING *`,
+      [
+        request.evvRecordId,
+        request.visitId,
+        request.organizationId,
+        request.exceptionId ?? null,
+        JSON.stringify(request.requestedChanges),
+        request.requestReason,
+        request.requestReasonCode ?? null,
+        request.requestJustification,
+        request.supportingDocuments ? JSON.stringify(request.supportingDocuments) : null,
+        request.requestedBy,
+        request.requestedByName,
+        request.requestedByRole,
+        request.requestedAt,
+        request.status,
+        request.requiresSupervisorApproval,
+        request.requiresComplianceApproval,
+        request.expiresAt,
+        request.stateSpecificData ? JSON.stringify(request.stateSpecificData) : null,
+      ]
+    );
+
+    return this.mapRevisionRequest(result.rows[0] as unknown as EVVRevisionRequestRow);
+  }
+
+  /**
+   * Get revision request by ID
+   */
+  async getRevisionRequestById(id: UUID): Promise<EVVRevisionRequest | null> {
+    const result = await this.database.query(
+      'SELECT * FROM evv_revision_requests WHERE id = $1',
+      [id]
+    );
+    return result.rows[0]
+      ? this.mapRevisionRequest(result.rows[0] as unknown as EVVRevisionRequestRow)
+      : null;
+  }
+
+  /**
+   * Get revision request by ID, locking it until the transaction ends
+   */
+  async getRevisionRequestForUpdate(id: UUID, client: TransactionClient): Promise<EVVRevisionRequest | null> {
+    const result = await client.query(
+      'SELECT * FROM evv_revision_requests WHERE id = $1 FOR UPDATE',
+      [id]
+    );
+    return result.rows[0]
+      ? this.mapRevisionRequest(result.rows[0] as unknown as EVVRevisionRequestRow)
+      : null;
+  }
+
+  /**
+   * Get all revision requests for an EVV record, newest first
+   */
+  async getRevisionRequestsByRecord(evvRecordId: UUID): Promise<EVVRevisionRequest[]> {
+    const result = await this.database.query(
+      `SELECT * FROM evv_revision_requests
+       WHERE evv_record_id = $1
+       ORDER BY requested_at DESC`,
+      [evvRecordId]
+    );
+    return result.rows.map(row => this.mapRevisionRequest(row as unknown as EVVRevisionRequestRow));
+  }
+
+  /**
+   * Get pending, unexpired revision requests for an organization (oldest first)
+   */
+  async getPendingRevisionRequests(organizationId: UUID): Promise<EVVRevisionRequest[]> {
+    const result = await this.database.query(
+      `SELECT * FROM evv_revision_requests
+       WHERE organization_id = $1
+         AND status = 'PENDING'
+         AND expires_at > NOW()
+       ORDER BY requested_at ASC`,
+      [organizationId]
+    );
+    return result.rows.map(row => this.mapRevisionRequest(row as unknown as EVVRevisionRequestRow));
+  }
+
+  /**
+   * Update the workflow state of a revision request
+   */
+  async updateRevisionRequest(
+    id: UUID,
+    updates: {
+      status?: EVVRevisionRequest['status'];
+      supervisorApproval?: ApprovalAction;
+      complianceApproval?: ApprovalAction;
+      implementedAt?: Date;
+      implementedBy?: UUID;
+      implementationNotes?: string;
+    }
+  ): Promise<EVVRevisionRequest> {
+    const result = await this.database.query(
+      `UPDATE evv_revision_requests
+       SET status = COALESCE($1, status),
+           supervisor_approval = COALESCE($2::jsonb, supervisor_approval),
+           compliance_approval = COALESCE($3::jsonb, compliance_approval),
+           implemented_at = COALESCE($4, implemented_at),
+           implemented_by = COALESCE($5, implemented_by),
+           implementation_notes = COALESCE($6, implementation_notes)
+       WHERE id = $7
+       RETURNING *`,
+      [
+        updates.status ?? null,
+        updates.supervisorApproval ? JSON.stringify(updates.supervisorApproval) : null,
+        updates.complianceApproval ? JSON.stringify(updates.complianceApproval) : null,
+        updates.implementedAt ?? null,
+        updates.implementedBy ?? null,
+        updates.implementationNotes ?? null,
+        id,
+      ]
+    );
+
+    if (!result.rows[0]) {
+      throw new Error(`EVV revision request ${id} not found`);
+    }
+
+    return this.mapRevisionRequest(result.rows[0] as unknown as EVVRevisionRequestRow);
+  }
+
+  /**
+   * Mark a pending revision request APPROVED and implemented
+   *
+   * Returns null if the request is no longer PENDING, so a request can only
+   * be implemented once.
+   */
+  async implementRevisionRequest(
+    id: UUID,
+    updates: {
+      supervisorApproval?: ApprovalAction;
+      complianceApproval?: ApprovalAction;
+      implementedAt: Date;
+      implementedBy: UUID;
+      implementationNotes: string;
+    },
+    client: TransactionClient
+  ): Promise<EVVRevisionRequest | null> {
+    const result = await client.query(
+      `UPDATE evv_revision_requests
+       SET status = 'APPROVED',
+           supervisor_approval = COALESCE($1::jsonb, supervisor_approval),
+           compliance_approval = COALESCE($2::jsonb, compliance_approval),
+           implemented_at = $3,
+           implemented_by = $4,
+           implementation_notes = $5
+       WHERE id = $6 AND status = 'PENDING'
+       RETURNING *`,
+      [
+        updates.supervisorApproval ? JSON.stringify(updates.supervisorApproval) : null,
+        updates.complianceApproval ? JSON.stringify(updates.complianceApproval) : null,
+        updates.implementedAt,
+        updates.implementedBy,
+        updates.implementationNotes,
+        id,
+      ]
+    );
+
+    return result.rows[0]
+      ? this.mapRevisionRequest(result.rows[0] as unknown as EVVRevisionRequestRow)
+      : null;
+  }
+
+  /**
+   * Expire pending revision requests past their expiration date
+   */
+  async expireRevisionRequests(): Promise<number> {
+    const result = await this.database.query(
+      `UPDATE evv_revision_requests
+       SET status = 'EXPIRED'
+       WHERE status = 'PENDING'
+         AND expires_at < NOW()
+       RETURNING id`
+    );
+    return result.rows.length;
+  }
+
+  /**
+   * Record an access to an EVV record's audit trail
+   */
+  async logAccess(entry: Omit<EVVAccessLogEntry, 'id'>): Promise<void> {
+    await this.database.query(
+      `INSERT INTO evv_access_log (
+        evv_record_id, accessed_at, accessed_by, accessed_by_name, accessed_by_role,
+        accessed_by_ip, access_type, access_reason, fields_accessed, search_filters,
+        export_format, export_destination
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)`,
+      [
+        entry.evvRecordId,
+        entry.accessedAt,
+        entry.accessedBy,
+        entry.accessedByName,
+        entry.accessedByRole,
+        entry.accessedByIP ?? null,
+        entry.accessType,
+        entry.accessReason ?? null,
+        entry.fieldsAccessed ? JSON.stringify(entry.fieldsAccessed) : null,
+        entry.searchFilters ? JSON.stringify(entry.searchFilters) : null,
+        entry.exportFormat ?? null,
+        entry.exportDestination ?? null,
+      ]
+    );
+  }
+
+  /**
+   * Get access log for an EVV record, newest first
+   */
+  async getAccessLog(evvRecordId: UUID, limit: number = 100): Promise<EVVAccessLogEntry[]> {
+    const result = await this.database.query(
+      `SELECT * FROM evv_access_log
+       WHERE evv_record_id = $1
+       ORDER BY accessed_at DESC
+       LIMIT $2`,
+      [evvRecordId, limit]
+    );
+
+    return result.rows.map(row => ({
+      id: row['id'] as string,
+      evvRecordId: row['evv_record_id'] as string,
+      accessedAt: row['accessed_at'] as Date,
+      accessedBy: row['accessed_by'] as string,
+      accessedByName: row['accessed_by_name'] as string,
+      accessedByRole: row['accessed_by_role'] as string,
+      accessedByIP: (row['accessed_by_ip'] as string | null) ?? undefined,
+      accessType: row['access_type'] as EVVAccessLogEntry['accessType'],
+      accessReason: (row['access_reason'] as string | null) ?? undefined,
+      fieldsAccessed: row['fields_accessed'] ? this.parseJsonField<string[]>(row['fields_accessed']) : undefined,
+      searchFilters: row['search_filters']
+        ? this.parseJsonField<Record<string, unknown>>(row['search_filters'])
+        : undefined,
+      exportFormat: (row['export_format'] as EVVAccessLogEntry['exportFormat'] | null) ?? undefined,
+      exportDestination: (row['export_destination'] as string | null) ?? undefined,
+    }));
+  }
+
+  /**
+   * Helper: Run a query on the transaction client if one is given
+   */
+  private async query(
+    text: string,
+    values: unknown[],
+    client?: TransactionClient
+  ): Promise<{ rows: Record<string, unknown>[] }> {
+    return client ? client.query(text, values) : this.database.query(text, values);
+  }
+
+  /**
+   * Helper: Safely parse JSON field (handles both string and already-parsed object)
+   */
+  private parseJsonField<T>(value: unknown): T {
+    if (typeof value === 'string') {
+      return JSON.parse(value) as T;
+    }
+    return value as T;
+  }
+
+  /**
+   * Helper: Map database row to EVVRevision
+   */
+  private mapRevision(row: EVVRevisionRow): EVVRevision {
+    const baseRevision = {
+      id: row.id,
+      evvRecordId: row.evv_record_id,
+      visitId: row.visit_id,
+      organizationId: row.organization_id,
+      revisionNumber: row.revision_number,
+      revisionType: row.revision_type as EVVRevision['revisionType'],
+      revisionReason: row.revision_reason,
+      revisedBy: row.revised_by,
+      revisedByName: row.revised_by_name,
+      revisedByRole: row.revised_by_role,
+      revisedAt: row.revised_at,
+      fieldPath: row.field_path,
+      originalValue: this.parseJsonField(row.original_value),
+      newValue: this.parseJsonField(row.new_value),
+      justification: row.justification,
+      requiresApproval: row.requires_approval,
+      aggregatorNotified: row.aggregator_notified,
+      resubmissionRequired: row.resubmission_required,
+      revisionHash: row.revision_hash,
+      complianceReviewed: row.compliance_reviewed,
+    };
+
+    const optionalFields = {
+      revisionReasonCode: row.revision_reason_code,
+      supportingDocuments: row.supporting_documents ? this.parseJsonField<string[]>(row.supporting_documents) : undefined,
+      approvalStatus: row.approval_status,
+      approvedBy: row.approved_by,
+      approvedByName: row.approved_by_name,
+      approvedAt: row.approved_at,
+      denialReason: row.denial_reason,
+      aggregatorNotifiedAt: row.aggregator_notified_at,
+      aggregatorConfirmation: row.aggregator_confirmation,
+      resubmittedAt: row.resubmitted_at,
+      previousRevisionHash: row.previous_revision_hash,
+      complianceNotes: row.compliance_notes,
+      complianceReviewedBy: row.compliance_reviewed_by,
+      complianceReviewedAt: row.compliance_reviewed_at,
+    };
+
+    const filteredOptional = Object.fromEntries(
+      Object.entries(optionalFields).filter(([_, value]) => value !== undefined && value !== null)
+    );
+
+    return { ...baseRevision, ...filteredOptional } as EVVRevision;
+  }
+
+  /**
+   * Helper: Map database row to revision request
+   */
+  private mapRevisionRequest(row: EVVRevisionRequestRow): EVVRevisionRequest {
+    const baseRequest = {
+      id: row.id,
+      evvRecordId: row.evv_record_id,
+      visitId: row.visit_id,
+      organizationId: row.organization_id,
+      requestedChanges: this.parseJsonField(row.requested_changes),
+      requestReason: row.request_reason,
+      requestJustification: row.request_justification,
+      requestedBy: row.requested_by,
+      requestedByName: row.requested_by_name,
+      requestedByRole: row.requested_by_role,
+      requestedAt: row.requested_at,
+      status: row.status as EVVRevisionRequest['status'],
+      requiresSupervisorApproval: row.requires_supervisor_approval,
+      requiresComplianceApproval: row.requires_compliance_approval,
+      expiresAt: row.expires_at,
+    };
+
+    const optionalFields = {
+      exceptionId: row.exception_id,
+      requestReasonCode: row.request_reason_code,
+      supportingDocuments: row.supporting_documents ? this.parseJsonField(row.supporting_documents) : undefined,
+      supervisorApproval: row.supervisor_approval ? this.parseJsonField(row.supervisor_approval) : undefined,
+      complianceApproval: row.compliance_approval ? this.parseJsonField(row.compliance_approval) : undefined,
+      implementedAt: row.implemented_at,
+      implementedBy: row.implemented_by,
+      implementationNotes: row.implementation_notes,
+      stateSpecificData: row.state_specific_data ? this.parseJsonField(row.state_specific_data) : undefined,
+    };
+
+    const filteredOptional = Object.fromEntries(
+      Object.entries(optionalFields).filter(([_, value]) => value !== undefined && value !== null)
+    );
+
+    return { ...baseRequest, ...filteredOptional } as EVVRevisionRequest;
+  }
+}
@@ -0,0 +1,237 @@
+/**
+ * Geofence Calibration Repository - Data access for calibration proposals and clock-in history
+ */
+
+import { Database, UUID } from '@care-commons/core';
+import {
+  GeoPoint,
+  GeofenceCalibrationProposal,
+  GeofenceCalibrationSample,
+  GeofenceCalibrationStatus,
+  LocationVerification,
+} from '../types/evv';
+
+interface GeofenceCalibrationProposalRow {
+  id: string;
+  geofence_id: string;
+  organization_id: string;
+  client_id: string;
+  current_shape: string;
+  current_radius_meters: number;
+  current_polygon_points: string | GeoPoint[] | null;
+  proposed_shape: string;
+  proposed_radius_meters: number;
+  proposed_polygon_points: string | GeoPoint[] | null;
+  sample_size: number;
+  sample_start_date: Date;
+  sample_end_date: Date;
+  current_coverage: string | number;
+  proposed_coverage: string | number;
+  current_area_square_meters: number;
+  proposed_area_square_meters: number;
+  rationale: string;
+  status: string;
+  proposed_at: Date;
+  requested_by: string | null;
+  reviewed_at: Date | null;
+  reviewed_by: string | null;
+  review_notes: string | null;
+}
+
+export class GeofenceCalibrationRepository {
+  constructor(private database: Database) { }
+
+  /**
+   * Get verified clock-in locations for a client since a date, newest first
+   *
+   * Clock-ins a supervisor overrode count as verified: they are exactly the
+   * visits a too-tight geofence rejected.
+   */
+  async getClockInSamples(clientId: UUID, since: Date, limit: number): Promise<GeofenceCalibrationSample[]> {
+    const result = await this.database.query(
+      `SELECT location, entry_timestamp FROM time_entries
+       WHERE client_id = $1
+         AND entry_type = 'CLOCK_IN'
+         AND (verification_passed = true OR status = 'OVERRIDDEN')
+         AND entry_timestamp >= $2
+       ORDER BY entry_timestamp DESC
+       LIMIT $3`,
+      [clientId, since, limit]
+    );
+
+    return result.rows.map(row => {
+      const location = this.parseJsonField(row['location'] as string | LocationVerification);
+      return {
+        latitude: Number(location.latitude),
+        longitude: Number(location.longitude),
+        accuracy: Number(location.accuracy),
+        recordedAt: row['entry_timestamp'] as Date,
+      };
+    });
+  }
+
+  /**
+   * Save a new proposal awaiting review
+   */
+  async createProposal(
+    proposal: Omit<GeofenceCalibrationProposal, 'id' | 'reviewedAt' | 'reviewedBy' | 'reviewNotes'>
+  ): Promise<GeofenceCalibrationProposal> {
+    const result = await this.database.query(
+      `INSERT INTO geofence_calibration_proposals (
+        geofence_id, organization_id, client_id,
+        current_shape, current_radius_meters, current_polygon_points,
+        proposed_shape, proposed_radius_meters, proposed_polygon_points,
+        sample_size, sample_start_date, sample_end_date,
+        current_coverage, proposed_coverage,
+        current_area_square_meters, proposed_area_square_meters,
+        rationale, status, proposed_at, requested_by
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20)
+      RETURNING *`,
+      [
+        proposal.geofenceId,
+        proposal.organizationId,
+        proposal.clientId,
+        proposal.currentShape,
+        proposal.currentRadiusMeters,
+        proposal.currentPolygonPoints ? JSON.stringify(proposal.currentPolygonPoints) : null,
+        proposal.proposedShape,
+        proposal.proposedRadiusMeters,
+        proposal.proposedPolygonPoints ? JSON.stringify(proposal.proposedPolygonPoints) : null,
+        proposal.sampleSize,
+        proposal.sampleStartDate,
+        proposal.sampleEndDate,
+        proposal.currentCoverage,
+        proposal.proposedCoverage,
+        proposal.currentAreaSquareMeters,
+        proposal.proposedAreaSquareMeters,
+        proposal.rationale,
+        proposal.status,
+        proposal.proposedAt,
+        proposal.requestedBy ?? null,
+      ]
+    );
+
+    return this.mapProposal(result.rows[0] as unknown as GeofenceCalibrationProposalRow);
+  }
+
+  /**
+   * Get proposal by ID
+   */
+  async getProposalById(id: UUID): Promise<GeofenceCalibrationProposal | null> {
+    const result = await this.database.query(
+      'SELECT * FROM geofence_calibration_proposals WHERE id = $1',
+      [id]
+    );
+    return result.rows[0] ? this.mapProposal(result.rows[0] as unknown as GeofenceCalibrationProposalRow) : null;
+  }
+
+  /**
+   * Get the proposal awaiting review for a geofence, if one exists
+   */
+  async getPendingProposalForGeofence(geofenceId: UUID): Promise<GeofenceCalibrationProposal | null> {
+    const result = await this.database.query(
+      `SELECT * FROM geofence_calibration_proposals
+       WHERE geofence_id = $1 AND status = 'PENDING'
+       LIMIT 1`,
+      [geofenceId]
+    );
+    return result.rows[0] ? this.mapProposal(result.rows[0] as unknown as GeofenceCalibrationProposalRow) : null;
+  }
+
+  /**
+   * Get proposals awaiting review, oldest first
+   *
+   * Omit organizationId to list pending proposals across organizations.
+   */
+  async getPendingProposals(organizationId?: UUID): Promise<GeofenceCalibrationProposal[]> {
+    const result = organizationId === undefined
+      ? await this.database.query(
+        `SELECT * FROM geofence_calibration_proposals
+         WHERE status = 'PENDING'
+         ORDER BY proposed_at ASC`
+      )
+      : await this.database.query(
+        `SELECT * FROM geofence_calibration_proposals
+         WHERE organization_id = $1 AND status = 'PENDING'
+         ORDER BY proposed_at ASC`,
+        [organizationId]
+      );
+    return result.rows.map(row => this.mapProposal(row as unknown as GeofenceCalibrationProposalRow));
+  }
+
+  /**
+   * Record the outcome of a review
+   */
+  async updateProposalStatus(
+    id: UUID,
+    status: Exclude<GeofenceCalibrationStatus, 'PENDING'>,
+    reviewedBy: UUID,
+    reviewNotes?: string
+  ): Promise<GeofenceCalibrationProposal> {
+    const result = await this.database.query(
+      `UPDATE geofence_calibration_proposals
+       SET status = $1, reviewed_at = NOW(), reviewed_by = $2, review_notes = $3
+       WHERE id = $4
+       RETURNING *`,
+      [status, reviewedBy, reviewNotes ?? null, id]
+    );
+
+    if (!result.rows[0]) {
+      throw new Error(`Geofence calibration proposal ${id} not found`);
+    }
+
+    return this.mapProposal(result.rows[0] as unknown as GeofenceCalibrationProposalRow);
+  }
+
+  /**
+   * Helper: Safely parse JSON field (handles both string and already-parsed object)
+   */
+  private parseJsonField<T>(value: string | T): T {
+    if (typeof value === 'string') {
+      return JSON.parse(value) as T;
+    }
+    return value;
+  }
+
+  /**
+   * Helper: Map database row to GeofenceCalibrationProposal
+   */
+  private mapProposal(row: GeofenceCalibrationProposalRow): GeofenceCalibrationProposal {
+    const baseProposal = {
+      id: row.id,
+      geofenceId: row.geofence_id,
+      organizationId: row.organization_id,
+      clientId: row.client_id,
+      currentShape: row.current_shape as GeofenceCalibrationProposal['currentShape'],
+      currentRadiusMeters: row.current_radius_meters,
+      proposedShape: row.proposed_shape as GeofenceCalibrationProposal['proposedShape'],
+      proposedRadiusMeters: row.proposed_radius_meters,
+      sampleSize: row.sample_size,
+      sampleStartDate: row.sample_start_date,
+      sampleEndDate: row.sample_end_date,
+      currentCoverage: Number(row.current_coverage),
+      proposedCoverage: Number(row.proposed_coverage),
+      currentAreaSquareMeters: row.current_area_square_meters,
+      proposedAreaSquareMeters: row.proposed_area_square_meters,
+      rationale: row.rationale,
+      status: row.status as GeofenceCalibrationStatus,
+      proposedAt: row.proposed_at,
+    };
+
+    const optionalFields = {
+      currentPolygonPoints: row.current_polygon_points ? this.parseJsonField(row.current_polygon_points) : undefined,
+      proposedPolygonPoints: row.proposed_polygon_points ? this.parseJsonField(row.proposed_polygon_points) : undefined,
+      requestedBy: row.requested_by,
+      reviewedAt: row.reviewed_at,
+      reviewedBy: row.reviewed_by,
+      reviewNotes: row.review_notes,
+    };
+
+    const filteredOptional = Object.fromEntries(
+      Object.entries(optionalFields).filter(([_, value]) => value !== undefined && value !== null)
+    );
+
+    return { ...baseProposal, ...filteredOptional } as GeofenceCalibrationProposal;
+  }
+}
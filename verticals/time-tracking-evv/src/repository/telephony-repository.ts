@@ -0,0 +1,369 @@
+/**
+ * Telephony Repository - Data access for IVR call sessions, caregiver PINs
+ * and the lookups behind phone-based clock-in/out
+ */
+
+import { Database, UUID } from '@care-commons/core';
+import {
+  IVRCallOutcome,
+  IVRCallSession,
+  IVRCallState,
+  IVRCaregiverMatch,
+  IVRClientMatch,
+  IVROpenVisitMatch,
+  IVRVisitMatch,
+} from '../types/telephony';
+
+interface IVRCallSessionRow {
+  id: string;
+  call_sid: string;
+  from_number: string;
+  to_number: string;
+  state: string;
+  attempts: number;
+  pin_attempts: number;
+  organization_id: string | null;
+  caregiver_id: string | null;
+  client_id: string | null;
+  visit_id: string | null;
+  evv_record_id: string | null;
+  task_codes: string | string[] | null;
+  outcome: string | null;
+  outcome_detail: string | null;
+  started_at: Date;
+  last_activity_at: Date;
+  ended_at: Date | null;
+}
+
+export type IVRCallSessionUpdate = Partial<Omit<IVRCallSession, 'id' | 'callSid' | 'fromNumber' | 'toNumber' | 'startedAt'>>;
+
+const SESSION_COLUMNS: Record<keyof IVRCallSessionUpdate, string> = {
+  state: 'state',
+  attempts: 'attempts',
+  pinAttempts: 'pin_attempts',
+  organizationId: 'organization_id',
+  caregiverId: 'caregiver_id',
+  clientId: 'client_id',
+  visitId: 'visit_id',
+  evvRecordId: 'evv_record_id',
+  taskCodes: 'task_codes',
+  outcome: 'outcome',
+  outcomeDetail: 'outcome_detail',
+  lastActivityAt: 'last_activity_at',
+  endedAt: 'ended_at',
+};
+
+// Visits in these statuses can still be clocked in to (see VisitProvider.canClockIn)
+const CLOCK_IN_VISIT_STATUSES = ['ASSIGNED', 'CONFIRMED', 'EN_ROUTE'];
+
+export class TelephonyRepository {
+  constructor(private database: Database) { }
+
+  /**
+   * Get the session for a provider call, if the call has been seen before
+   */
+  async getCallSession(callSid: string): Promise<IVRCallSession | null> {
+    const result = await this.database.query(
+      'SELECT * FROM ivr_call_sessions WHERE call_sid = $1',
+      [callSid]
+    );
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return this.mapSession(result.rows[0] as unknown as IVRCallSessionRow);
+  }
+
+  /**
+   * Start a session for a new call
+   */
+  async createCallSession(callSid: string, fromNumber: string, toNumber: string): Promise<IVRCallSession> {
+    const result = await this.database.query(
+      `INSERT INTO ivr_call_sessions (call_sid, from_number, to_number)
+       VALUES ($1, $2, $3)
+       RETURNING *`,
+      [callSid, fromNumber, toNumber]
+    );
+
+    return this.mapSession(result.rows[0] as unknown as IVRCallSessionRow);
+  }
+
+  /**
+   * Update a session as the call progresses
+   */
+  async updateCallSession(id: UUID, updates: IVRCallSessionUpdate): Promise<IVRCallSession> {
+    const sets: string[] = [];
+    const values: unknown[] = [];
+
+    for (const [field, value] of Object.entries(updates)) {
+      const column = SESSION_COLUMNS[field as keyof IVRCallSessionUpdate];
+      if (column === undefined || value === undefined) {
+        continue;
+      }
+      values.push(field === 'taskCodes' ? JSON.stringify(value) : value);
+      sets.push(`${column} = $${values.length}`);
+    }
+
+    values.push(id);
+    const result = await this.database.query(
+      `UPDATE ivr_call_sessions
+       SET ${sets.length > 0 ? sets.join(', ') : 'last_activity_at = NOW()'}
+       WHERE id = $${values.length}
+       RETURNING *`,
+      values
+    );
+
+    if (result.rows.length === 0) {
+      throw new Error(`IVR call session ${id} not found`);
+    }
+
+    return this.mapSession(result.rows[0] as unknown as IVRCallSessionRow);
+  }
+
+  /**
+   * Find active clients with a registered phone matching the calling number
+   *
+   * Numbers are compared on their last 10 digits so that formatting and a
+   * leading country code don't matter.
+   */
+  async findClientsByPhone(phoneDigits: string): Promise<IVRClientMatch[]> {
+    const result = await this.database.query(
+      `SELECT id, organization_id FROM clients
+       WHERE deleted_at IS NULL
+         AND status = 'ACTIVE'
+         AND (
+           RIGHT(REGEXP_REPLACE(primary_phone->>'number', '[^0-9]', '', 'g'), 10) = $1
+           OR RIGHT(REGEXP_REPLACE(alternate_phone->>'number', '[^0-9]', '', 'g'), 10) = $1
+         )`,
+      [phoneDigits.slice(-10)]
+    );
+
+    return result.rows.map(row => ({
+      clientId: row['id'] as UUID,
+      organizationId: row['organization_id'] as UUID,
+    }));
+  }
+
+  /**
+   * Find the active caregiver with a telephony PIN hash in one of the organizations
+   */
+  async findCaregiverByPinHash(pinHashes: string[]): Promise<IVRCaregiverMatch | null> {
+    const result = await this.database.query(
+      `SELECT id, organization_id FROM caregivers
+       WHERE telephony_pin_hash = ANY($1)
+         AND deleted_at IS NULL
+         AND employment_status = 'ACTIVE'
+       LIMIT 1`,
+      [pinHashes]
+    );
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    const row = result.rows[0] as Record<string, unknown>;
+    return {
+      caregiverId: row['id'] as UUID,
+      organizationId: row['organization_id'] as UUID,
+    };
+  }
+
+  /**
+   * Get a caregiver's organization, for setting their PIN
+   */
+  async getCaregiverOrganization(caregiverId: UUID): Promise<UUID | null> {
+    const result = await this.database.query(
+      'SELECT organization_id FROM caregivers WHERE id = $1 AND deleted_at IS NULL',
+      [caregiverId]
+    );
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return (result.rows[0] as Record<string, unknown>)['organization_id'] as UUID;
+  }
+
+  /**
+   * Check whether another caregiver in the organization already uses a PIN
+   */
+  async isPinHashInUse(organizationId: UUID, pinHash: string, exceptCaregiverId: UUID): Promise<boolean> {
+    const result = await this.database.query(
+      `SELECT 1 FROM caregivers
+       WHERE organization_id = $1
+         AND telephony_pin_hash = $2
+         AND id != $3
+         AND deleted_at IS NULL
+       LIMIT 1`,
+      [organizationId, pinHash, exceptCaregiverId]
+    );
+
+    return result.rows.length > 0;
+  }
+
+  /**
+   * Set a caregiver's telephony PIN hash
+   */
+  async setCaregiverPinHash(caregiverId: UUID, pinHash: string, updatedBy: UUID): Promise<void> {
+    await this.database.query(
+      `UPDATE caregivers
+       SET telephony_pin_hash = $1,
+           telephony_pin_set_at = NOW(),
+           updated_at = NOW(),
+           updated_by = $2,
+           version = version + 1
+       WHERE id = $3 AND deleted_at IS NULL`,
+      [pinHash, updatedBy, caregiverId]
+    );
+  }
+
+  /**
+   * Caregivers with a visit at one of the clients today (in the visit's
+   * timezone), who an incorrect PIN from the clients' phone counts against
+   */
+  async findCaregiversScheduledToday(clientIds: UUID[]): Promise<UUID[]> {
+    const result = await this.database.query(
+      `SELECT DISTINCT assigned_caregiver_id FROM visits
+       WHERE client_id = ANY($1)
+         AND assigned_caregiver_id IS NOT NULL
+         AND scheduled_date = (NOW() AT TIME ZONE timezone)::date
+         AND deleted_at IS NULL`,
+      [clientIds]
+    );
+
+    return result.rows.map(row => row['assigned_caregiver_id'] as UUID);
+  }
+
+  /**
+   * Record an incorrect PIN entered on a call
+   */
+  async recordPinFailure(callSessionId: UUID, fromNumber: string, caregiverIds: UUID[]): Promise<void> {
+    await this.database.query(
+      `INSERT INTO telephony_pin_failures (call_session_id, from_number, caregiver_ids)
+       VALUES ($1, $2, $3)`,
+      [callSessionId, fromNumber, caregiverIds]
+    );
+  }
+
+  /**
+   * Count incorrect PINs entered from a calling number since a time
+   */
+  async countPinFailuresFromNumber(fromNumber: string, since: Date): Promise<number> {
+    const result = await this.database.query(
+      `SELECT COUNT(*) AS count FROM telephony_pin_failures
+       WHERE from_number = $1 AND failed_at >= $2`,
+      [fromNumber, since]
+    );
+
+    return Number((result.rows[0] as Record<string, unknown>)['count']);
+  }
+
+  /**
+   * Count incorrect PINs counted against a caregiver since a time
+   */
+  async countPinFailuresForCaregiver(caregiverId: UUID, since: Date): Promise<number> {
+    const result = await this.database.query(
+      `SELECT COUNT(*) AS count FROM telephony_pin_failures
+       WHERE caregiver_ids @> ARRAY[$1]::uuid[] AND failed_at >= $2`,
+      [caregiverId, since]
+    );
+
+    return Number((result.rows[0] as Record<string, unknown>)['count']);
+  }
+
+  /**
+   * Find the caregiver's visit at one of the clients that is due to be clocked
+   * in to today (in the visit's timezone), closest to the current time first
+   */
+  async findVisitToClockIn(caregiverId: UUID, clientIds: UUID[]): Promise<IVRVisitMatch | null> {
+    const result = await this.database.query(
+      `SELECT id, client_id, timezone,
+              (scheduled_date + scheduled_start_time) AT TIME ZONE timezone AS scheduled_start
+       FROM visits
+       WHERE assigned_caregiver_id = $1
+         AND client_id = ANY($2)
+         AND status = ANY($3)
+         AND scheduled_date = (NOW() AT TIME ZONE timezone)::date
+         AND deleted_at IS NULL
+       ORDER BY ABS(EXTRACT(EPOCH FROM ((scheduled_date + scheduled_start_time) AT TIME ZONE timezone) - NOW()))
+       LIMIT 1`,
+      [caregiverId, clientIds, CLOCK_IN_VISIT_STATUSES]
+    );
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    const row = result.rows[0] as Record<string, unknown>;
+    return {
+      visitId: row['id'] as UUID,
+      clientId: row['client_id'] as UUID,
+      scheduledStart: row['scheduled_start'] as Date,
+      timezone: row['timezone'] as string,
+    };
+  }
+
+  /**
+   * Find the caregiver's most recent visit at one of the clients that is
+   * clocked in and not yet clocked out
+   */
+  async findVisitToClockOut(caregiverId: UUID, clientIds: UUID[]): Promise<IVROpenVisitMatch | null> {
+    const result = await this.database.query(
+      `SELECT e.id, e.visit_id, e.client_id, e.clock_in_time, v.timezone
+       FROM evv_records e
+       JOIN visits v ON v.id = e.visit_id
+       WHERE e.caregiver_id = $1
+         AND e.client_id = ANY($2)
+         AND e.record_status = 'PENDING'
+         AND e.clock_out_time IS NULL
+       ORDER BY e.clock_in_time DESC
+       LIMIT 1`,
+      [caregiverId, clientIds]
+    );
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    const row = result.rows[0] as Record<string, unknown>;
+    return {
+      evvRecordId: row['id'] as UUID,
+      visitId: row['visit_id'] as UUID,
+      clientId: row['client_id'] as UUID,
+      clockInTime: row['clock_in_time'] as Date,
+      timezone: row['timezone'] as string,
+    };
+  }
+
+  private mapSession(row: IVRCallSessionRow): IVRCallSession {
+    const session: IVRCallSession = {
+      id: row.id,
+      callSid: row.call_sid,
+      fromNumber: row.from_number,
+      toNumber: row.to_number,
+      state: row.state as IVRCallState,
+      attempts: row.attempts,
+      pinAttempts: row.pin_attempts,
+      startedAt: row.started_at,
+      lastActivityAt: row.last_activity_at,
+    };
+
+    const optionalFields = {
+      organizationId: row.organization_id,
+      caregiverId: row.caregiver_id,
+      clientId: row.client_id,
+      visitId: row.visit_id,
+      evvRecordId: row.evv_record_id,
+      taskCodes: typeof row.task_codes === 'string' ? JSON.parse(row.task_codes) as string[] : row.task_codes,
+      outcome: row.outcome as IVRCallOutcome | null,
+      outcomeDetail: row.outcome_detail,
+      endedAt: row.ended_at,
+    };
+
+    return {
+      ...session,
+      ...Object.fromEntries(Object.entries(optionalFields).filter(([_, value]) => value !== null)),
+    };
+  }
+}
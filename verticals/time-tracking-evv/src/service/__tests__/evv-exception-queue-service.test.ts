@@ -0,0 +1,432 @@
+/**
+ * EVV Exception Queue Service Tests
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { UserContext } from '@care-commons/core';
+import { ValidationError, NotFoundError, PermissionError } from '@care-commons/core';
+import { EVVExceptionQueueService, EVV_EXCEPTION_SLA_HOURS } from '../evv-exception-queue-service';
+import type { EVVExceptionQueueRepository } from '../../repository/evv-exception-queue-repository';
+import type { TransactionClient } from '../../repository/evv-repository';
+import type { EVVRecord } from '../../types/evv';
+import type { EVVExceptionQueueItem } from '../../types/evv-revisions';
+
+const mockSend = vi.fn();
+
+vi.mock('@care-commons/core', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@care-commons/core')>();
+  return {
+    ...actual,
+    getNotificationService: () => ({ send: mockSend }),
+  };
+});
+
+function buildRecord(overrides: Partial<EVVRecord> = {}): EVVRecord {
+  const clockIn = new Date(Date.now() - 2 * 60 * 60 * 1000);
+  return {
+    id: 'evv-123',
+    visitId: 'visit-123',
+    organizationId: 'org-123',
+    branchId: 'branch-123',
+    clientId: 'client-123',
+    caregiverId: 'caregiver-123',
+    serviceTypeCode: 'T1019',
+    serviceTypeName: 'Personal Care',
+    clientName: 'John Doe',
+    caregiverName: 'Jane Smith',
+    caregiverEmployeeId: 'EMP123',
+    serviceDate: clockIn,
+    serviceAddress: {
+      line1: '123 Main St',
+      city: 'Columbus',
+      state: 'OH',
+      postalCode: '43215',
+      country: 'USA',
+      latitude: 39.9612,
+      longitude: -82.9988,
+      geofenceRadius: 100,
+      addressVerified: true,
+    },
+    clockInTime: clockIn,
+    clockOutTime: new Date(),
+    totalDuration: 120,
+    clockInVerification: {
+      latitude: 39.9612,
+      longitude: -82.9988,
+      accuracy: 10,
+      timestamp: clockIn,
+      timestampSource: 'GPS',
+      isWithinGeofence: true,
+      distanceFromAddress: 5,
+      geofencePassed: true,
+      deviceId: 'device-123',
+      method: 'GPS',
+      locationSource: 'GPS_SATELLITE',
+      mockLocationDetected: false,
+      verificationPassed: true,
+    },
+    recordStatus: 'COMPLETE',
+    verificationLevel: 'FULL',
+    complianceFlags: ['COMPLIANT'],
+    integrityHash: 'hash123',
+    integrityChecksum: 'checksum123',
+    recordedAt: clockIn,
+    recordedBy: 'caregiver-123',
+    syncMetadata: {
+      syncId: 'sync-123',
+      lastSyncedAt: new Date(),
+      syncStatus: 'SYNCED',
+    },
+    createdAt: clockIn,
+    createdBy: 'caregiver-123',
+    updatedAt: clockIn,
+    updatedBy: 'caregiver-123',
+    version: 1,
+    ...overrides,
+  } as EVVRecord;
+}
+
+function buildException(overrides: Partial<EVVExceptionQueueItem> = {}): EVVExceptionQueueItem {
+  const detectedAt = new Date(Date.now() - 60 * 60 * 1000);
+  return {
+    id: 'exc-123',
+    evvRecordId: 'evv-123',
+    visitId: 'visit-123',
+    organizationId: 'org-123',
+    branchId: 'branch-123',
+    exceptionType: 'GEOFENCE_VIOLATION',
+    exceptionCode: 'GEOFENCE_VIOLATION',
+    exceptionSeverity: 'ERROR',
+    exceptionDescription: 'Clock-in was 450m from the service address',
+    issues: [],
+    issueCount: 1,
+    detectedAt,
+    detectedBy: 'SYSTEM',
+    status: 'OPEN',
+    priority: 'HIGH',
+    slaDeadline: new Date(detectedAt.getTime() + 24 * 60 * 60 * 1000),
+    notificationsent: false,
+    ...overrides,
+  };
+}
+
+describe('EVVExceptionQueueService', () => {
+  let service: EVVExceptionQueueService;
+  let repository: {
+    createException: ReturnType<typeof vi.fn>;
+    getExceptionById: ReturnType<typeof vi.fn>;
+    getOpenExceptionForRecord: ReturnType<typeof vi.fn>;
+    updateException: ReturnType<typeof vi.fn>;
+    searchExceptions: ReturnType<typeof vi.fn>;
+    getSlaBreaches: ReturnType<typeof vi.fn>;
+    getStats: ReturnType<typeof vi.fn>;
+  };
+  let supervisorContext: UserContext;
+  let caregiverContext: UserContext;
+
+  beforeEach(() => {
+    mockSend.mockReset();
+    mockSend.mockResolvedValue([]);
+
+    repository = {
+      createException: vi.fn().mockImplementation(async (item: Omit<EVVExceptionQueueItem, 'id'>) => ({ id: 'exc-new', ...item })),
+      getExceptionById: vi.fn(),
+      getOpenExceptionForRecord: vi.fn().mockResolvedValue(null),
+      updateException: vi.fn().mockImplementation(async (id: string, updates: Partial<EVVExceptionQueueItem>) => ({
+        ...buildException({ id }),
+        ...updates,
+      })),
+      searchExceptions: vi.fn(),
+      getSlaBreaches: vi.fn(),
+      getStats: vi.fn(),
+    };
+
+    service = new EVVExceptionQueueService(repository as unknown as EVVExceptionQueueRepository);
+
+    supervisorContext = {
+      userId: 'supervisor-123',
+      organizationId: 'org-123',
+      branchIds: ['branch-123'],
+      roles: ['COORDINATOR'],
+      permissions: ['evv:read', 'evv:write'],
+    };
+
+    caregiverContext = {
+      userId: 'caregiver-123',
+      organizationId: 'org-123',
+      branchIds: ['branch-123'],
+      roles: ['CAREGIVER'],
+      permissions: ['evv:read'],
+    };
+  });
+
+  describe('evaluateRecord', () => {
+    it('should not queue an exception for a compliant record', async () => {
+      const result = await service.evaluateRecord(buildRecord());
+
+      expect(result).toBeNull();
+      expect(repository.createException).not.toHaveBeenCalled();
+    });
+
+    it('should queue a HIGH priority exception for a geofence failure', async () => {
+      const record = buildRecord({
+        clockInVerification: {
+          ...buildRecord().clockInVerification,
+          isWithinGeofence: false,
+          geofencePassed: false,
+          distanceFromAddress: 450,
+        },
+      });
+
+      const result = await service.evaluateRecord(record);
+
+      expect(result).not.toBeNull();
+      expect(result!.exceptionType).toBe('GEOFENCE_VIOLATION');
+      expect(result!.priority).toBe('HIGH');
+      expect(result!.detectedBy).toBe('SYSTEM');
+      expect(result!.issues[0]?.affectedField).toBe('clockInVerification.geofencePassed');
+
+      const slaMs = result!.slaDeadline!.getTime() - result!.detectedAt.getTime();
+      expect(slaMs).toBe(EVV_EXCEPTION_SLA_HOURS.HIGH * 60 * 60 * 1000);
+    });
+
+    it('should queue an URGENT exception when a mock location is detected', async () => {
+      const record = buildRecord({
+        clockOutVerification: {
+          ...buildRecord().clockInVerification,
+          mockLocationDetected: true,
+        },
+      });
+
+      const result = await service.evaluateRecord(record);
+
+      expect(result!.exceptionType).toBe('MOCK_LOCATION');
+      expect(result!.exceptionSeverity).toBe('CRITICAL');
+      expect(result!.priority).toBe('URGENT');
+    });
+
+    it('should flag missing Texas-required elements', async () => {
+      const record = buildRecord({
+        serviceAddress: { ...buildRecord().serviceAddress, state: 'TX' },
+      });
+
+      const result = await service.evaluateRecord(record);
+
+      // No Medicaid ID or NPI on the record
+      expect(result).not.toBeNull();
+      expect(result!.issues.some(issue => issue.issueType === 'MISSING_ELEMENT' || issue.issueType === 'INVALID_ELEMENT')).toBe(true);
+    });
+
+    it('should update an existing open exception instead of creating a duplicate', async () => {
+      const existing = buildException({ priority: 'URGENT', exceptionSeverity: 'CRITICAL' });
+      repository.getOpenExceptionForRecord.mockResolvedValue(existing);
+
+      const record = buildRecord({
+        clockInVerification: {
+          ...buildRecord().clockInVerification,
+          geofencePassed: false,
+          distanceFromAddress: 300,
+        },
+      });
+
+      await service.evaluateRecord(record);
+
+      expect(repository.createException).not.toHaveBeenCalled();
+      expect(repository.updateException).toHaveBeenCalledWith(
+        existing.id,
+        expect.objectContaining({ priority: 'URGENT', exceptionSeverity: 'CRITICAL' })
+      );
+    });
+  });
+
+  describe('assignException', () => {
+    it('should assign, move to IN_PROGRESS and notify the assignee', async () => {
+      repository.getExceptionById.mockResolvedValue(buildException());
+
+      const result = await service.assignException(
+        'exc-123',
+        { assignedTo: 'coordinator-456', assignedToRole: 'COORDINATOR' },
+        supervisorContext
+      );
+
+      expect(repository.updateException).toHaveBeenCalledWith(
+        'exc-123',
+        expect.objectContaining({ assignedTo: 'coordinator-456', status: 'IN_PROGRESS' })
+      );
+      expect(mockSend).toHaveBeenCalledWith(
+        expect.objectContaining({
+          eventType: 'EVV_EXCEPTION_ASSIGNED',
+          recipients: [expect.objectContaining({ userId: 'coordinator-456' })],
+        })
+      );
+      expect(result.notificationsent).toBe(true);
+    });
+
+    it('should still assign when the notification fails', async () => {
+      repository.getExceptionById.mockResolvedValue(buildException());
+      mockSend.mockRejectedValue(new Error('SMTP down'));
+
+      const result = await service.assignException(
+        'exc-123',
+        { assignedTo: 'coordinator-456', assignedToRole: 'COORDINATOR' },
+        supervisorContext
+      );
+
+      expect(result.status).toBe('IN_PROGRESS');
+      expect(result.notificationsent).toBe(false);
+    });
+
+    it('should reject non-supervisors', async () => {
+      await expect(
+        service.assignException('exc-123', { assignedTo: 'x', assignedToRole: 'COORDINATOR' }, caregiverContext)
+      ).rejects.toThrow(PermissionError);
+    });
+
+    it('should throw NotFoundError for unknown exceptions', async () => {
+      repository.getExceptionById.mockResolvedValue(null);
+
+      await expect(
+        service.assignException('missing', { assignedTo: 'x', assignedToRole: 'COORDINATOR' }, supervisorContext)
+      ).rejects.toThrow(NotFoundError);
+    });
+
+    it('should reject exceptions from another organization', async () => {
+      repository.getExceptionById.mockResolvedValue(buildException({ organizationId: 'org-999' }));
+
+      await expect(
+        service.assignException('exc-123', { assignedTo: 'x', assignedToRole: 'COORDINATOR' }, supervisorContext)
+      ).rejects.toThrow(PermissionError);
+    });
+  });
+
+  describe('resolveException', () => {
+    it('should let the assignee resolve with a revision', async () => {
+      repository.getExceptionById.mockResolvedValue(
+        buildException({ status: 'IN_PROGRESS', assignedTo: caregiverContext.userId })
+      );
+
+      const result = await service.resolveException(
+        'exc-123',
+        { resolutionMethod: 'REVISION', resolutionNotes: 'Clock-out corrected' },
+        caregiverContext
+      );
+
+      expect(result.status).toBe('RESOLVED');
+      expect(result.resolvedBy).toBe(caregiverContext.userId);
+    });
+
+    it('should require a supervisor for waivers', async () => {
+      repository.getExceptionById.mockResolvedValue(
+        buildException({ status: 'IN_PROGRESS', assignedTo: caregiverContext.userId })
+      );
+
+      await expect(
+        service.resolveException('exc-123', { resolutionMethod: 'WAIVER', resolutionNotes: 'n/a' }, caregiverContext)
+      ).rejects.toThrow(PermissionError);
+    });
+
+    it('should not resolve an already resolved exception', async () => {
+      repository.getExceptionById.mockResolvedValue(buildException({ status: 'RESOLVED' }));
+
+      await expect(
+        service.resolveException('exc-123', { resolutionMethod: 'NO_ACTION', resolutionNotes: 'dup' }, supervisorContext)
+      ).rejects.toThrow(ValidationError);
+    });
+  });
+
+  describe('resolveByRevision', () => {
+    it('should resolve the referenced exception on the same record', async () => {
+      repository.getExceptionById.mockResolvedValue(buildException({ status: 'IN_PROGRESS' }));
+      const client = { query: vi.fn() } as unknown as TransactionClient;
+
+      const result = await service.resolveByRevision('evv-123', 'org-123', 'exc-123', 'Corrected', 'supervisor-123', client);
+
+      expect(result?.status).toBe('RESOLVED');
+      expect(repository.getExceptionById).toHaveBeenCalledWith('exc-123', client);
+      expect(repository.updateException).toHaveBeenCalledWith(
+        'exc-123',
+        expect.objectContaining({ resolutionMethod: 'REVISION' }),
+        client
+      );
+    });
+
+    it('should leave exceptions on another record or organization open', async () => {
+      repository.getExceptionById
+        .mockResolvedValueOnce(buildException({ evvRecordId: 'evv-other' }))
+        .mockResolvedValueOnce(buildException({ organizationId: 'org-other' }));
+
+      await expect(service.resolveByRevision('evv-123', 'org-123', 'exc-123', 'x', 'supervisor-123')).resolves.toBeNull();
+      await expect(service.resolveByRevision('evv-123', 'org-123', 'exc-123', 'x', 'supervisor-123')).resolves.toBeNull();
+      expect(repository.updateException).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('assertExceptionForRecord', () => {
+    it('should reject exceptions on another record', async () => {
+      repository.getExceptionById.mockResolvedValue(buildException({ evvRecordId: 'evv-other' }));
+
+      await expect(service.assertExceptionForRecord('exc-123', 'evv-123', 'org-123')).rejects.toThrow(
+        'Exception does not belong to this EVV record'
+      );
+    });
+
+    it('should reject closed exceptions', async () => {
+      repository.getExceptionById.mockResolvedValue(buildException({ status: 'RESOLVED' }));
+
+      await expect(service.assertExceptionForRecord('exc-123', 'evv-123', 'org-123')).rejects.toThrow(ValidationError);
+    });
+  });
+
+  describe('processSlaBreaches', () => {
+    it('should escalate breached exceptions and notify the assignee', async () => {
+      const now = new Date();
+      repository.getSlaBreaches.mockResolvedValue([
+        buildException({
+          priority: 'MEDIUM',
+          assignedTo: 'coordinator-456',
+          slaDeadline: new Date(now.getTime() - 3 * 60 * 60 * 1000),
+        }),
+      ]);
+
+      const escalated = await service.processSlaBreaches(now);
+
+      expect(escalated).toHaveLength(1);
+      expect(repository.updateException).toHaveBeenCalledWith(
+        'exc-123',
+        expect.objectContaining({
+          status: 'ESCALATED',
+          priority: 'HIGH',
+          escalatedTo: 'coordinator-456',
+          escalationReason: 'SLA deadline exceeded by 3 hour(s)',
+        })
+      );
+      expect(mockSend).toHaveBeenCalledWith(expect.objectContaining({ eventType: 'EVV_EXCEPTION_ESCALATED' }));
+    });
+
+    it('should continue when one escalation fails', async () => {
+      repository.getSlaBreaches.mockResolvedValue([
+        buildException({ id: 'exc-1' }),
+        buildException({ id: 'exc-2' }),
+      ]);
+      repository.updateException.mockRejectedValueOnce(new Error('db error'));
+
+      const escalated = await service.processSlaBreaches();
+
+      expect(escalated).toHaveLength(1);
+      expect(escalated[0]?.id).toBe('exc-2');
+    });
+  });
+
+  describe('getQueue', () => {
+    it('should scope the queue to the user organization', async () => {
+      repository.searchExceptions.mockResolvedValue({ items: [], total: 0, page: 1, limit: 25, totalPages: 0 });
+
+      await service.getQueue({ organizationId: 'org-999' }, { page: 1, limit: 25 }, supervisorContext);
+
+      expect(repository.searchExceptions).toHaveBeenCalledWith(
+        expect.objectContaining({ organizationId: 'org-123' }),
+        { page: 1, limit: 25 }
+      );
+    });
+  });
+});
@@ -0,0 +1,476 @@
+/**
+ * EVV Revision Service Tests
+ *
+ * Tests for the EVV correction request / approval workflow
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { UserContext } from '@care-commons/core';
+import { ValidationError, PermissionError, ConflictError } from '@care-commons/core';
+import { EVVRevisionService } from '../evv-revision-service';
+import type { EVVRevisionRepository } from '../../repository/evv-revision-repository';
+import type { EVVRepository } from '../../repository/evv-repository';
+import type { EVVExceptionQueueService } from '../evv-exception-queue-service';
+import type { EVVRecord } from '../../types/evv';
+import type { EVVRevision, EVVRevisionRequest } from '../../types/evv-revisions';
+
+function buildRecord(overrides: Partial<EVVRecord> = {}): EVVRecord {
+  const clockIn = new Date(Date.now() - 3 * 24 * 60 * 60 * 1000);
+  return {
+    id: 'evv-123',
+    visitId: 'visit-123',
+    organizationId: 'org-123',
+    branchId: 'branch-123',
+    clientId: 'client-123',
+    caregiverId: 'caregiver-123',
+    serviceTypeCode: 'T1019',
+    serviceTypeName: 'Personal Care',
+    clientName: 'John Doe',
+    caregiverName: 'Jane Smith',
+    caregiverEmployeeId: 'EMP123',
+    serviceDate: clockIn,
+    serviceAddress: {
+      line1: '123 Main St',
+      city: 'Austin',
+      state: 'TX',
+      postalCode: '78701',
+      country: 'USA',
+      latitude: 30.2672,
+      longitude: -97.7431,
+      geofenceRadius: 100,
+      addressVerified: true,
+    },
+    clockInTime: clockIn,
+    clockOutTime: new Date(clockIn.getTime() + 2 * 60 * 60 * 1000),
+    totalDuration: 120,
+    clockInVerification: {
+      latitude: 30.2672,
+      longitude: -97.7431,
+      accuracy: 10,
+      timestamp: clockIn,
+      timestampSource: 'GPS',
+      isWithinGeofence: true,
+      distanceFromAddress: 5,
+      geofencePassed: true,
+      deviceId: 'device-123',
+      method: 'GPS',
+      locationSource: 'GPS_SATELLITE',
+      mockLocationDetected: false,
+      verificationPassed: true,
+    },
+    recordStatus: 'COMPLETE',
+    verificationLevel: 'FULL',
+    complianceFlags: ['COMPLIANT'],
+    integrityHash: 'hash123',
+    integrityChecksum: 'checksum123',
+    recordedAt: clockIn,
+    recordedBy: 'caregiver-123',
+    syncMetadata: {
+      syncId: 'sync-123',
+      lastSyncedAt: new Date(),
+      syncStatus: 'SYNCED',
+    },
+    createdAt: clockIn,
+    createdBy: 'caregiver-123',
+    updatedAt: clockIn,
+    updatedBy: 'caregiver-123',
+    version: 1,
+    ...overrides,
+  } as EVVRecord;
+}
+
+function buildRequest(overrides: Partial<EVVRevisionRequest> = {}): EVVRevisionRequest {
+  const record = buildRecord();
+  return {
+    id: 'req-123',
+    evvRecordId: record.id,
+    visitId: record.visitId,
+    organizationId: record.organizationId,
+    requestedChanges: [{
+      fieldPath: 'clockOutTime',
+      currentValue: record.clockOutTime,
+      proposedValue: new Date(record.clockInTime.getTime() + 3 * 60 * 60 * 1000).toISOString(),
+      changeReason: 'Caregiver forgot to clock out',
+    }],
+    requestReason: 'Missed clock-out',
+    requestJustification: 'Client confirmed visit ended at 3 hours',
+    requestedBy: 'caregiver-123',
+    requestedByName: 'Jane Smith',
+    requestedByRole: 'CAREGIVER',
+    requestedAt: new Date(),
+    status: 'PENDING',
+    requiresSupervisorApproval: true,
+    requiresComplianceApproval: false,
+    expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+    ...overrides,
+  };
+}
+
+describe('EVVRevisionService', () => {
+  let service: EVVRevisionService;
+  let revisionRepository: Record<string, ReturnType<typeof vi.fn>>;
+  let evvRepository: Record<string, ReturnType<typeof vi.fn>>;
+  let exceptionQueueService: {
+    assertExceptionForRecord: ReturnType<typeof vi.fn>;
+    resolveByRevision: ReturnType<typeof vi.fn>;
+  };
+  let resubmitter: { submitToStateAggregator: ReturnType<typeof vi.fn> };
+  let storedRevisions: EVVRevision[];
+  let transactionClient: { query: ReturnType<typeof vi.fn> };
+  let caregiverContext: UserContext;
+  let supervisorContext: UserContext;
+  let adminContext: UserContext;
+
+  beforeEach(() => {
+    storedRevisions = [];
+    transactionClient = { query: vi.fn() };
+
+    revisionRepository = {
+      transaction: vi.fn().mockImplementation(async (work: (client: unknown) => Promise<unknown>) => work(transactionClient)),
+      getOriginalData: vi.fn().mockResolvedValue(null),
+      saveOriginalData: vi.fn().mockResolvedValue(undefined),
+      getRevisions: vi.fn().mockImplementation(async () => storedRevisions),
+      getLatestRevision: vi.fn().mockImplementation(async () => storedRevisions[storedRevisions.length - 1] ?? null),
+      appendRevision: vi.fn().mockImplementation(async (revision: Omit<EVVRevision, 'id' | 'revisionNumber'>) => {
+        const stored = { ...revision, id: `rev-${storedRevisions.length + 1}`, revisionNumber: storedRevisions.length + 1 };
+        storedRevisions.push(stored);
+        return stored;
+      }),
+      markRevisionsResubmitted: vi.fn().mockResolvedValue(undefined),
+      createRevisionRequest: vi.fn().mockImplementation(async (request: Omit<EVVRevisionRequest, 'id'>) => ({ id: 'req-new', ...request })),
+      getRevisionRequestById: vi.fn(),
+      getRevisionRequestForUpdate: vi.fn().mockImplementation(async (id: string) =>
+        (await revisionRepository.getRevisionRequestById!(id)) as EVVRevisionRequest | undefined ?? null),
+      getRevisionRequestsByRecord: vi.fn().mockResolvedValue([]),
+      getPendingRevisionRequests: vi.fn(),
+      updateRevisionRequest: vi.fn().mockImplementation(async (id: string, updates: Partial<EVVRevisionRequest>) => ({
+        ...((await revisionRepository.getRevisionRequestById!(id)) as EVVRevisionRequest | undefined ?? buildRequest({ id })),
+        ...updates,
+      })),
+      implementRevisionRequest: vi.fn().mockImplementation(async (id: string, updates: Partial<EVVRevisionRequest>) => ({
+        ...((await revisionRepository.getRevisionRequestById!(id)) as EVVRevisionRequest),
+        ...updates,
+        status: 'APPROVED',
+      })),
+      expireRevisionRequests: vi.fn(),
+      logAccess: vi.fn().mockResolvedValue(undefined),
+      getAccessLog: vi.fn().mockResolvedValue([]),
+    };
+
+    evvRepository = {
+      getEVVRecordById: vi.fn().mockResolvedValue(buildRecord()),
+      getEVVRecordForUpdate: vi.fn().mockImplementation(async (id: string) => evvRepository.getEVVRecordById!(id)),
+      updateEVVRecord: vi.fn().mockImplementation(async (_id: string, updates: Partial<EVVRecord>) => ({
+        ...buildRecord(),
+        ...updates,
+      })),
+    };
+
+    exceptionQueueService = {
+      assertExceptionForRecord: vi.fn().mockResolvedValue(undefined),
+      resolveByRevision: vi.fn().mockResolvedValue(null),
+    };
+    resubmitter = { submitToStateAggregator: vi.fn().mockResolvedValue({ submissions: [], state: 'TX' }) };
+
+    service = new EVVRevisionService(
+      revisionRepository as unknown as EVVRevisionRepository,
+      evvRepository as unknown as EVVRepository,
+      exceptionQueueService as unknown as EVVExceptionQueueService,
+      resubmitter
+    );
+
+    caregiverContext = {
+      userId: 'caregiver-123',
+      organizationId: 'org-123',
+      branchIds: ['branch-123'],
+      roles: ['CAREGIVER'],
+      permissions: ['evv:read', 'evv:write'],
+    };
+
+    supervisorContext = {
+      userId: 'supervisor-123',
+      organizationId: 'org-123',
+      branchIds: ['branch-123'],
+      roles: ['COORDINATOR'],
+      permissions: ['evv:read', 'evv:write'],
+    };
+
+    adminContext = {
+      userId: 'admin-123',
+      organizationId: 'org-123',
+      branchIds: ['branch-123'],
+      roles: ['ORG_ADMIN'],
+      permissions: ['evv:read', 'evv:write'],
+    };
+  });
+
+  describe('requestRevision', () => {
+    const input = {
+      evvRecordId: 'evv-123',
+      changes: [{
+        fieldPath: 'clockOutTime',
+        proposedValue: new Date().toISOString(),
+        changeReason: 'Forgot to clock out',
+      }],
+      requestReason: 'Missed clock-out',
+      requestJustification: 'Client confirmed end time',
+      requestedByName: 'Jane Smith',
+    };
+
+    it('should create a pending request and capture original data', async () => {
+      const record = buildRecord();
+      evvRepository.getEVVRecordById!.mockResolvedValue(record);
+
+      const request = await service.requestRevision(input, caregiverContext);
+
+      expect(request.status).toBe('PENDING');
+      expect(request.requiresComplianceApproval).toBe(false);
+      expect(request.requestedChanges[0]?.currentValue).toEqual(record.clockOutTime);
+      expect(revisionRepository.saveOriginalData).toHaveBeenCalledWith(
+        'evv-123',
+        expect.objectContaining({ originalClockInDevice: 'device-123', originalDuration: 120 }),
+        undefined
+      );
+      expect(revisionRepository.logAccess).toHaveBeenCalledWith(expect.objectContaining({ accessType: 'EDIT' }));
+    });
+
+    it('should require compliance approval for records submitted to a payor', async () => {
+      evvRepository.getEVVRecordById!.mockResolvedValue(buildRecord({ submittedToPayor: new Date() }));
+
+      const request = await service.requestRevision(input, caregiverContext);
+
+      expect(request.requiresComplianceApproval).toBe(true);
+    });
+
+    it('should send Texas records older than 30 days to VMUR', async () => {
+      evvRepository.getEVVRecordById!.mockResolvedValue(
+        buildRecord({ recordedAt: new Date(Date.now() - 40 * 24 * 60 * 60 * 1000) })
+      );
+
+      await expect(service.requestRevision(input, caregiverContext)).rejects.toThrow(/VMUR/);
+    });
+
+    it('should reject fields that cannot be revised', async () => {
+      await expect(
+        service.requestRevision(
+          { ...input, changes: [{ fieldPath: 'integrityHash', proposedValue: 'x', changeReason: 'x' }] },
+          caregiverContext
+        )
+      ).rejects.toThrow(ValidationError);
+    });
+
+    it('should check a referenced exception belongs to the record', async () => {
+      exceptionQueueService.assertExceptionForRecord.mockRejectedValue(
+        new ValidationError('Exception does not belong to this EVV record')
+      );
+
+      await expect(
+        service.requestRevision({ ...input, exceptionId: 'exc-other' }, caregiverContext)
+      ).rejects.toThrow('Exception does not belong to this EVV record');
+      expect(exceptionQueueService.assertExceptionForRecord).toHaveBeenCalledWith('exc-other', 'evv-123', 'org-123');
+      expect(revisionRepository.createRevisionRequest).not.toHaveBeenCalled();
+    });
+
+    it('should reject a second pending request for the same record', async () => {
+      revisionRepository.getRevisionRequestsByRecord!.mockResolvedValue([buildRequest()]);
+
+      await expect(service.requestRevision(input, caregiverContext)).rejects.toThrow(ConflictError);
+    });
+  });
+
+  describe('approveRevisionRequest', () => {
+    it('should append chained revisions, update the record and resolve the exception', async () => {
+      revisionRepository.getRevisionRequestById!.mockResolvedValue(buildRequest({ exceptionId: 'exc-123' }));
+
+      const result = await service.approveRevisionRequest(
+        'req-123',
+        { reviewerName: 'Sam Supervisor' },
+        supervisorContext
+      );
+
+      // Clock-out change plus the recalculated duration
+      expect(result.revisions).toHaveLength(2);
+      expect(result.revisions[0]?.revisionType).toBe('CLOCK_OUT_TIME_CORRECTION');
+      expect(result.revisions[1]?.revisionType).toBe('DURATION_RECALCULATION');
+      expect(result.revisions[1]?.newValue).toBe(180);
+      expect(result.revisions[1]?.previousRevisionHash).toBe(result.revisions[0]?.revisionHash);
+      expect(service.verifyRevisionChain(result.revisions)).toBe(true);
+
+      expect(evvRepository.updateEVVRecord).toHaveBeenCalledWith(
+        'evv-123',
+        expect.objectContaining({ clockOutTime: expect.any(Date), totalDuration: 180 }),
+        supervisorContext.userId,
+        transactionClient
+      );
+      expect(revisionRepository.implementRevisionRequest).toHaveBeenCalledWith(
+        'req-123',
+        expect.objectContaining({ supervisorApproval: expect.objectContaining({ approvedBy: 'supervisor-123' }) }),
+        transactionClient
+      );
+      expect(revisionRepository.updateRevisionRequest).not.toHaveBeenCalled();
+      expect(result.request.status).toBe('APPROVED');
+      expect(exceptionQueueService.resolveByRevision).toHaveBeenCalledWith(
+        'evv-123',
+        'org-123',
+        'exc-123',
+        expect.any(String),
+        supervisorContext.userId,
+        transactionClient
+      );
+      // Record was never submitted, so no resubmission
+      expect(resubmitter.submitToStateAggregator).not.toHaveBeenCalled();
+    });
+
+    it('should wait for compliance approval before applying changes', async () => {
+      revisionRepository.getRevisionRequestById!.mockResolvedValue(
+        buildRequest({ requiresComplianceApproval: true })
+      );
+
+      const result = await service.approveRevisionRequest('req-123', { reviewerName: 'Sam' }, supervisorContext);
+
+      expect(result.revisions).toHaveLength(0);
+      expect(revisionRepository.appendRevision).not.toHaveBeenCalled();
+      expect(evvRepository.updateEVVRecord).not.toHaveBeenCalled();
+    });
+
+    it('should require an org admin for the compliance approval', async () => {
+      revisionRepository.getRevisionRequestById!.mockResolvedValue(buildRequest({
+        requiresComplianceApproval: true,
+        supervisorApproval: {
+          approvedBy: 'supervisor-123',
+          approvedByName: 'Sam',
+          approvedAt: new Date(),
+          decision: 'APPROVED',
+        },
+      }));
+
+      const otherCoordinator = { ...supervisorContext, userId: 'coordinator-456' };
+      await expect(
+        service.approveRevisionRequest('req-123', { reviewerName: 'Pat' }, otherCoordinator)
+      ).rejects.toThrow(PermissionError);
+    });
+
+    it('should amend and resubmit submitted records after compliance approval', async () => {
+      evvRepository.getEVVRecordById!.mockResolvedValue(
+        buildRecord({ recordStatus: 'SUBMITTED', submittedToPayor: new Date() })
+      );
+      revisionRepository.getRevisionRequestById!.mockResolvedValue(buildRequest({
+        requiresComplianceApproval: true,
+        supervisorApproval: {
+          approvedBy: 'supervisor-123',
+          approvedByName: 'Sam',
+          approvedAt: new Date(),
+          decision: 'APPROVED',
+        },
+      }));
+
+      const result = await service.approveRevisionRequest('req-123', { reviewerName: 'Alex Admin' }, adminContext);
+
+      expect(result.revisions.every(revision => revision.resubmissionRequired)).toBe(true);
+      expect(result.revisions.every(revision => revision.complianceReviewed)).toBe(true);
+      expect(evvRepository.updateEVVRecord).toHaveBeenCalledWith(
+        'evv-123',
+        expect.objectContaining({ recordStatus: 'AMENDED', complianceFlags: ['AMENDED'] }),
+        adminContext.userId,
+        transactionClient
+      );
+      expect(resubmitter.submitToStateAggregator).toHaveBeenCalledWith('evv-123', adminContext);
+      expect(revisionRepository.markRevisionsResubmitted).toHaveBeenCalledWith(['rev-1', 'rev-2']);
+    });
+
+    it('should apply nothing when the locked request was already approved', async () => {
+      revisionRepository.getRevisionRequestById!.mockResolvedValue(buildRequest());
+      revisionRepository.getRevisionRequestForUpdate!.mockResolvedValue(buildRequest({ status: 'APPROVED' }));
+
+      await expect(
+        service.approveRevisionRequest('req-123', { reviewerName: 'Sam' }, supervisorContext)
+      ).rejects.toThrow(ConflictError);
+
+      expect(evvRepository.getEVVRecordForUpdate).not.toHaveBeenCalled();
+      expect(revisionRepository.appendRevision).not.toHaveBeenCalled();
+      expect(evvRepository.updateEVVRecord).not.toHaveBeenCalled();
+    });
+
+    it('should fail the transaction when the request stops being pending before it is marked', async () => {
+      revisionRepository.getRevisionRequestById!.mockResolvedValue(buildRequest({ exceptionId: 'exc-123' }));
+      revisionRepository.implementRevisionRequest!.mockResolvedValue(null);
+
+      await expect(
+        service.approveRevisionRequest('req-123', { reviewerName: 'Sam' }, supervisorContext)
+      ).rejects.toThrow(ConflictError);
+
+      expect(exceptionQueueService.resolveByRevision).not.toHaveBeenCalled();
+      expect(resubmitter.submitToStateAggregator).not.toHaveBeenCalled();
+    });
+
+    it('should not resubmit when the transaction fails', async () => {
+      evvRepository.getEVVRecordById!.mockResolvedValue(buildRecord({ recordStatus: 'SUBMITTED' }));
+      revisionRepository.getRevisionRequestById!.mockResolvedValue(buildRequest());
+      evvRepository.updateEVVRecord!.mockRejectedValue(new Error('connection reset'));
+
+      await expect(
+        service.approveRevisionRequest('req-123', { reviewerName: 'Sam' }, supervisorContext)
+      ).rejects.toThrow('connection reset');
+
+      expect(revisionRepository.implementRevisionRequest).not.toHaveBeenCalled();
+      expect(resubmitter.submitToStateAggregator).not.toHaveBeenCalled();
+    });
+
+    it('should not let requesters approve their own request', async () => {
+      revisionRepository.getRevisionRequestById!.mockResolvedValue(
+        buildRequest({ requestedBy: supervisorContext.userId })
+      );
+
+      await expect(
+        service.approveRevisionRequest('req-123', { reviewerName: 'Sam' }, supervisorContext)
+      ).rejects.toThrow(PermissionError);
+    });
+
+    it('should reject caregivers as reviewers', async () => {
+      await expect(
+        service.approveRevisionRequest('req-123', { reviewerName: 'Jane' }, caregiverContext)
+      ).rejects.toThrow(PermissionError);
+    });
+  });
+
+  describe('denyRevisionRequest', () => {
+    it('should require a denial reason', async () => {
+      revisionRepository.getRevisionRequestById!.mockResolvedValue(buildRequest());
+
+      await expect(
+        service.denyRevisionRequest('req-123', { reviewerName: 'Sam' }, supervisorContext)
+      ).rejects.toThrow(ValidationError);
+    });
+
+    it('should record the supervisor denial', async () => {
+      revisionRepository.getRevisionRequestById!.mockResolvedValue(buildRequest());
+
+      const result = await service.denyRevisionRequest(
+        'req-123',
+        { reviewerName: 'Sam', comments: 'GPS shows caregiver left at 2 hours' },
+        supervisorContext
+      );
+
+      expect(result.status).toBe('DENIED');
+      expect(result.supervisorApproval?.decision).toBe('DENIED');
+      expect(evvRepository.updateEVVRecord).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getAuditTrail', () => {
+    it('should detect a tampered revision', async () => {
+      revisionRepository.getRevisionRequestById!.mockResolvedValue(buildRequest());
+      await service.approveRevisionRequest('req-123', { reviewerName: 'Sam' }, supervisorContext);
+
+      const intact = await service.getAuditTrail('evv-123', 'Auditor', supervisorContext);
+      expect(intact.integrityChainValid).toBe(true);
+      expect(intact.revisionCount).toBe(2);
+
+      storedRevisions[0] = { ...storedRevisions[0]!, newValue: '2020-01-01T00:00:00.000Z' };
+
+      const tampered = await service.getAuditTrail('evv-123', 'Auditor', supervisorContext);
+      expect(tampered.integrityChainValid).toBe(false);
+      expect(revisionRepository.logAccess).toHaveBeenCalledWith(expect.objectContaining({ accessType: 'AUDIT_REVIEW' }));
+    });
+  });
+});
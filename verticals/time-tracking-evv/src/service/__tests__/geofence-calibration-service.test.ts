@@ -0,0 +1,320 @@
+/**
+ * Geofence Calibration Service Tests
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { UserContext } from '@care-commons/core';
+import { ValidationError, NotFoundError, PermissionError } from '@care-commons/core';
+import { GeofenceCalibrationService, GEOFENCE_RECALIBRATION_INTERVAL_DAYS } from '../geofence-calibration-service';
+import type { EVVRepository } from '../../repository/evv-repository';
+import type { GeofenceCalibrationRepository } from '../../repository/geofence-calibration-repository';
+import type { Geofence, GeofenceCalibrationProposal, GeofenceCalibrationSample } from '../../types/evv';
+
+const ADDRESS = { latitude: 39.9612, longitude: -82.9988 };
+
+function buildGeofence(overrides: Partial<Geofence> = {}): Geofence {
+  return {
+    id: 'geofence-123',
+    organizationId: 'org-123',
+    clientId: 'client-123',
+    addressId: 'address-123',
+    centerLatitude: ADDRESS.latitude,
+    centerLongitude: ADDRESS.longitude,
+    radiusMeters: 250,
+    radiusType: 'EXPANDED',
+    shape: 'CIRCLE',
+    isActive: true,
+    allowedVariance: 0,
+    verificationCount: 60,
+    successfulVerifications: 40,
+    failedVerifications: 20,
+    status: 'ACTIVE',
+    createdAt: new Date('2025-01-01'),
+    createdBy: 'user-123',
+    updatedAt: new Date('2025-01-01'),
+    updatedBy: 'user-123',
+    version: 1,
+    ...overrides,
+  };
+}
+
+function buildProposal(overrides: Partial<GeofenceCalibrationProposal> = {}): GeofenceCalibrationProposal {
+  return {
+    id: 'proposal-123',
+    geofenceId: 'geofence-123',
+    organizationId: 'org-123',
+    clientId: 'client-123',
+    currentShape: 'CIRCLE',
+    currentRadiusMeters: 250,
+    proposedShape: 'CIRCLE',
+    proposedRadiusMeters: 70,
+    sampleSize: 40,
+    sampleStartDate: new Date('2025-03-01'),
+    sampleEndDate: new Date('2025-05-01'),
+    currentCoverage: 1,
+    proposedCoverage: 1,
+    currentAreaSquareMeters: 196350,
+    proposedAreaSquareMeters: 15394,
+    rationale: 'Based on 40 verified clock-ins.',
+    status: 'PENDING',
+    proposedAt: new Date('2025-05-02'),
+    ...overrides,
+  };
+}
+
+/**
+ * Verified clock-ins spread around the address within ~60m
+ */
+function buildSamples(count: number): GeofenceCalibrationSample[] {
+  return Array.from({ length: count }, (_, i) => {
+    const angle = Math.PI * (3 - Math.sqrt(5)) * i;
+    const distance = 20 + (40 * ((i * 7) % count)) / (count - 1);
+    return {
+      latitude: ADDRESS.latitude + (distance * Math.cos(angle)) / 111195,
+      longitude: ADDRESS.longitude + (distance * Math.sin(angle)) / (111195 * Math.cos((ADDRESS.latitude * Math.PI) / 180)),
+      accuracy: 10,
+      recordedAt: new Date(Date.UTC(2025, 3, 1 + i)),
+    };
+  });
+}
+
+describe('GeofenceCalibrationService', () => {
+  let service: GeofenceCalibrationService;
+  let calibrationRepository: {
+    getClockInSamples: ReturnType<typeof vi.fn>;
+    createProposal: ReturnType<typeof vi.fn>;
+    getProposalById: ReturnType<typeof vi.fn>;
+    getPendingProposalForGeofence: ReturnType<typeof vi.fn>;
+    getPendingProposals: ReturnType<typeof vi.fn>;
+    updateProposalStatus: ReturnType<typeof vi.fn>;
+  };
+  let evvRepository: {
+    getGeofenceById: ReturnType<typeof vi.fn>;
+    getGeofencesDueForCalibration: ReturnType<typeof vi.fn>;
+    applyGeofenceCalibration: ReturnType<typeof vi.fn>;
+  };
+
+  const supervisor: UserContext = {
+    userId: 'supervisor-123',
+    organizationId: 'org-123',
+    branchIds: ['branch-123'],
+    roles: ['COORDINATOR'],
+    permissions: [],
+  };
+
+  const caregiver: UserContext = {
+    userId: 'caregiver-123',
+    organizationId: 'org-123',
+    branchIds: ['branch-123'],
+    roles: ['CAREGIVER'],
+    permissions: ['evv:clock_in', 'evv:read'],
+  };
+
+  beforeEach(() => {
+    calibrationRepository = {
+      getClockInSamples: vi.fn().mockResolvedValue(buildSamples(40)),
+      createProposal: vi.fn().mockImplementation(async (proposal) => ({ id: 'proposal-new', ...proposal })),
+      getProposalById: vi.fn(),
+      getPendingProposalForGeofence: vi.fn().mockResolvedValue(null),
+      getPendingProposals: vi.fn().mockResolvedValue([]),
+      updateProposalStatus: vi.fn().mockImplementation(async (id, status, reviewedBy, reviewNotes) =>
+        buildProposal({ id, status, reviewedBy, reviewNotes, reviewedAt: new Date() })
+      ),
+    };
+    evvRepository = {
+      getGeofenceById: vi.fn().mockResolvedValue(buildGeofence()),
+      getGeofencesDueForCalibration: vi.fn().mockResolvedValue([]),
+      applyGeofenceCalibration: vi.fn().mockImplementation(async (id, calibration) =>
+        buildGeofence({ id, shape: calibration.shape, radiusMeters: calibration.radiusMeters })
+      ),
+    };
+
+    service = new GeofenceCalibrationService(
+      calibrationRepository as unknown as GeofenceCalibrationRepository,
+      evvRepository as unknown as EVVRepository
+    );
+  });
+
+  describe('runCalibrationJob', () => {
+    it('should propose calibrations for geofences due for review', async () => {
+      const asOf = new Date('2025-06-01T00:00:00Z');
+      evvRepository.getGeofencesDueForCalibration.mockResolvedValue([buildGeofence()]);
+
+      const proposals = await service.runCalibrationJob(asOf);
+
+      expect(proposals).toHaveLength(1);
+      expect(proposals[0]!.proposedRadiusMeters).toBeLessThan(250);
+      expect(proposals[0]!.status).toBe('PENDING');
+      expect(proposals[0]!.requestedBy).toBeUndefined();
+      expect(evvRepository.getGeofencesDueForCalibration).toHaveBeenCalledWith(
+        20,
+        new Date(asOf.getTime() - GEOFENCE_RECALIBRATION_INTERVAL_DAYS * 24 * 60 * 60 * 1000),
+        100
+      );
+      expect(evvRepository.applyGeofenceCalibration).not.toHaveBeenCalled();
+    });
+
+    it('should only sample clock-ins since the last calibration', async () => {
+      const calibratedAt = new Date('2025-04-15T00:00:00Z');
+      evvRepository.getGeofencesDueForCalibration.mockResolvedValue([buildGeofence({ calibratedAt })]);
+
+      await service.runCalibrationJob(new Date('2025-06-01T00:00:00Z'));
+
+      expect(calibrationRepository.getClockInSamples).toHaveBeenCalledWith('client-123', calibratedAt, 500);
+    });
+
+    it('should skip geofences whose clock-ins already fit and keep going after failures', async () => {
+      evvRepository.getGeofencesDueForCalibration.mockResolvedValue([
+        buildGeofence({ id: 'geofence-broken' }),
+        buildGeofence({ id: 'geofence-thin' }),
+        buildGeofence({ id: 'geofence-noisy' }),
+      ]);
+      calibrationRepository.getClockInSamples
+        .mockRejectedValueOnce(new Error('connection reset'))
+        .mockResolvedValueOnce(buildSamples(5))
+        .mockResolvedValueOnce(buildSamples(40));
+      const consoleError = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      const proposals = await service.runCalibrationJob(new Date('2025-06-01T00:00:00Z'));
+
+      expect(proposals.map(proposal => proposal.geofenceId)).toEqual(['geofence-noisy']);
+      expect(consoleError).toHaveBeenCalled();
+      consoleError.mockRestore();
+    });
+  });
+
+  describe('proposeCalibration', () => {
+    it('should create a proposal requested by the supervisor', async () => {
+      const proposal = await service.proposeCalibration('geofence-123', supervisor);
+
+      expect(proposal?.requestedBy).toBe('supervisor-123');
+      expect(calibrationRepository.createProposal).toHaveBeenCalled();
+    });
+
+    it('should return null when clock-ins are too few', async () => {
+      calibrationRepository.getClockInSamples.mockResolvedValue(buildSamples(5));
+
+      const proposal = await service.proposeCalibration('geofence-123', supervisor);
+
+      expect(proposal).toBeNull();
+      expect(calibrationRepository.createProposal).not.toHaveBeenCalled();
+    });
+
+    it('should reject a second pending proposal', async () => {
+      calibrationRepository.getPendingProposalForGeofence.mockResolvedValue(buildProposal());
+
+      await expect(service.proposeCalibration('geofence-123', supervisor)).rejects.toThrow(ValidationError);
+    });
+
+    it('should reject users without geofence permissions', async () => {
+      await expect(service.proposeCalibration('geofence-123', caregiver)).rejects.toThrow(PermissionError);
+    });
+
+    it('should reject geofences from another organization', async () => {
+      evvRepository.getGeofenceById.mockResolvedValue(buildGeofence({ organizationId: 'org-other' }));
+
+      await expect(service.proposeCalibration('geofence-123', supervisor)).rejects.toThrow(PermissionError);
+    });
+
+    it('should throw NotFoundError for unknown geofences', async () => {
+      evvRepository.getGeofenceById.mockResolvedValue(null);
+
+      await expect(service.proposeCalibration('geofence-404', supervisor)).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('getPendingProposals', () => {
+    it('should scope pending proposals to the user organization', async () => {
+      await service.getPendingProposals(supervisor);
+
+      expect(calibrationRepository.getPendingProposals).toHaveBeenCalledWith('org-123');
+    });
+  });
+
+  describe('approveProposal', () => {
+    it('should apply the proposed geofence', async () => {
+      calibrationRepository.getProposalById.mockResolvedValue(buildProposal());
+
+      const result = await service.approveProposal('proposal-123', { notes: 'Matches the driveway' }, supervisor);
+
+      expect(evvRepository.applyGeofenceCalibration).toHaveBeenCalledWith(
+        'geofence-123',
+        {
+          shape: 'CIRCLE',
+          radiusMeters: 70,
+          calibrationNotes: 'Based on 40 verified clock-ins.\n\nReviewer notes: Matches the driveway',
+        },
+        'supervisor-123'
+      );
+      expect(calibrationRepository.updateProposalStatus).toHaveBeenCalledWith(
+        'proposal-123',
+        'APPROVED',
+        'supervisor-123',
+        'Matches the driveway'
+      );
+      expect(result.geofence.radiusMeters).toBe(70);
+      expect(result.proposal.status).toBe('APPROVED');
+    });
+
+    it('should apply polygon proposals with their points', async () => {
+      const polygonPoints = [
+        { latitude: 39.9625, longitude: -82.9990 },
+        { latitude: 39.9630, longitude: -82.9990 },
+        { latitude: 39.9630, longitude: -82.9980 },
+      ];
+      calibrationRepository.getProposalById.mockResolvedValue(
+        buildProposal({ proposedShape: 'POLYGON', proposedPolygonPoints: polygonPoints })
+      );
+
+      await service.approveProposal('proposal-123', {}, supervisor);
+
+      expect(evvRepository.applyGeofenceCalibration).toHaveBeenCalledWith(
+        'geofence-123',
+        expect.objectContaining({ shape: 'POLYGON', polygonPoints }),
+        'supervisor-123'
+      );
+    });
+
+    it('should supersede proposals for geofences edited since', async () => {
+      calibrationRepository.getProposalById.mockResolvedValue(buildProposal());
+      evvRepository.getGeofenceById.mockResolvedValue(buildGeofence({ radiusMeters: 150 }));
+
+      await expect(service.approveProposal('proposal-123', {}, supervisor)).rejects.toThrow(ValidationError);
+
+      expect(calibrationRepository.updateProposalStatus).toHaveBeenCalledWith(
+        'proposal-123',
+        'SUPERSEDED',
+        'supervisor-123',
+        expect.any(String)
+      );
+      expect(evvRepository.applyGeofenceCalibration).not.toHaveBeenCalled();
+    });
+
+    it('should only let supervisors approve', async () => {
+      await expect(service.approveProposal('proposal-123', {}, caregiver)).rejects.toThrow(PermissionError);
+    });
+
+    it('should not approve a proposal twice', async () => {
+      calibrationRepository.getProposalById.mockResolvedValue(buildProposal({ status: 'APPROVED' }));
+
+      await expect(service.approveProposal('proposal-123', {}, supervisor)).rejects.toThrow(ValidationError);
+    });
+  });
+
+  describe('rejectProposal', () => {
+    it('should reject with a reason and leave the geofence unchanged', async () => {
+      calibrationRepository.getProposalById.mockResolvedValue(buildProposal());
+
+      const result = await service.rejectProposal('proposal-123', { notes: 'Client moving next month' }, supervisor);
+
+      expect(result.status).toBe('REJECTED');
+      expect(evvRepository.applyGeofenceCalibration).not.toHaveBeenCalled();
+    });
+
+    it('should require a reason', async () => {
+      calibrationRepository.getProposalById.mockResolvedValue(buildProposal());
+
+      await expect(service.rejectProposal('proposal-123', { notes: '  ' }, supervisor)).rejects.toThrow(ValidationError);
+    });
+  });
+});
@@ -0,0 +1,502 @@
+/**
+ * Telephony IVR Service Tests
+ *
+ * Drives the call flow end to end through the IVR call simulator
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { UserContext } from '@care-commons/core';
+import { ValidationError, NotFoundError, PermissionError } from '@care-commons/core';
+import { TelephonyIVRService, hashTelephonyPin } from '../telephony-ivr-service';
+import { IVRCallSimulator } from '../../utils/ivr-call-simulator';
+import type { EVVService } from '../evv-service';
+import type { TelephonyRepository, IVRCallSessionUpdate } from '../../repository/telephony-repository';
+import type { IVisitProvider } from '../../interfaces/visit-provider';
+import type { IVRCallSession } from '../../types/telephony';
+
+const CLIENT_PHONE = '+1 (512) 555-0100';
+const IVR_LINE = '+15125550199';
+const PIN = '4821';
+const PIN_SECRET = 'test-pin-secret';
+
+function createSessionStore() {
+  const sessions = new Map<string, IVRCallSession>();
+
+  return {
+    sessions,
+    getCallSession: vi.fn(async (callSid: string) => {
+      const session = sessions.get(callSid);
+      return session ? { ...session } : null;
+    }),
+    createCallSession: vi.fn(async (callSid: string, fromNumber: string, toNumber: string) => {
+      const session: IVRCallSession = {
+        id: `session-${sessions.size + 1}`,
+        callSid,
+        fromNumber,
+        toNumber,
+        state: 'AWAITING_PIN',
+        attempts: 0,
+        pinAttempts: 0,
+        startedAt: new Date(),
+        lastActivityAt: new Date(),
+      };
+      sessions.set(callSid, session);
+      return { ...session };
+    }),
+    updateCallSession: vi.fn(async (id: string, updates: IVRCallSessionUpdate) => {
+      const session = [...sessions.values()].find(s => s.id === id);
+      if (!session) {
+        throw new Error(`IVR call session ${id} not found`);
+      }
+      Object.assign(session, updates);
+      return { ...session };
+    }),
+  };
+}
+
+describe('TelephonyIVRService', () => {
+  let store: ReturnType<typeof createSessionStore>;
+  let mockTelephonyRepository: any;
+  let mockEVVService: any;
+  let mockVisitProvider: any;
+  let service: TelephonyIVRService;
+
+  const dialIn = (from = CLIENT_PHONE) =>
+    new IVRCallSimulator(input => service.handleCall(input), { from, to: IVR_LINE });
+
+  const session = (call: IVRCallSimulator) => store.sessions.get(call.callSid)!;
+
+  beforeEach(() => {
+    store = createSessionStore();
+
+    mockTelephonyRepository = {
+      ...store,
+      findClientsByPhone: vi.fn().mockResolvedValue([{ clientId: 'client-123', organizationId: 'org-123' }]),
+      findCaregiverByPinHash: vi.fn(async (hashes: string[]) =>
+        hashes.includes(hashTelephonyPin(PIN_SECRET, 'org-123', PIN))
+          ? { caregiverId: 'caregiver-123', organizationId: 'org-123' }
+          : null
+      ),
+      findVisitToClockIn: vi.fn().mockResolvedValue({
+        visitId: 'visit-123',
+        clientId: 'client-123',
+        scheduledStart: new Date('2025-06-02T14:00:00Z'),
+        timezone: 'America/Chicago',
+      }),
+      findVisitToClockOut: vi.fn().mockResolvedValue({
+        evvRecordId: 'evv-123',
+        visitId: 'visit-123',
+        clientId: 'client-123',
+        clockInTime: new Date('2025-06-02T14:00:00Z'),
+        timezone: 'America/Chicago',
+      }),
+      getCaregiverOrganization: vi.fn().mockResolvedValue('org-123'),
+      isPinHashInUse: vi.fn().mockResolvedValue(false),
+      setCaregiverPinHash: vi.fn().mockResolvedValue(undefined),
+      findCaregiversScheduledToday: vi.fn().mockResolvedValue(['caregiver-123']),
+      recordPinFailure: vi.fn().mockResolvedValue(undefined),
+      countPinFailuresFromNumber: vi.fn().mockResolvedValue(0),
+      countPinFailuresForCaregiver: vi.fn().mockResolvedValue(0),
+    };
+
+    mockEVVService = {
+      clockIn: vi.fn().mockResolvedValue({
+        evvRecord: { id: 'evv-123', clockInTime: new Date('2025-06-02T14:05:00Z') },
+      }),
+      clockOut: vi.fn().mockResolvedValue({
+        evvRecord: { id: 'evv-123', clockOutTime: new Date('2025-06-02T16:30:00Z') },
+      }),
+    };
+
+    mockVisitProvider = {
+      getVisitForEVV: vi.fn().mockResolvedValue({
+        id: 'visit-123',
+        organizationId: 'org-123',
+        branchId: 'branch-123',
+        clientId: 'client-123',
+        serviceAddress: {
+          addressId: 'address-123',
+          line1: '123 Main St',
+          city: 'Austin',
+          state: 'TX',
+          postalCode: '78701',
+          country: 'USA',
+          latitude: 30.2672,
+          longitude: -97.7431,
+          addressVerified: true,
+        },
+        taskIds: ['task-1', 'task-2', 'task-3'],
+      }),
+    };
+
+    service = new TelephonyIVRService(
+      mockTelephonyRepository as TelephonyRepository,
+      mockEVVService as EVVService,
+      mockVisitProvider as IVisitProvider,
+      PIN_SECRET
+    );
+  });
+
+  describe('caller identification', () => {
+    it('should end the call when the number is not registered to a client', async () => {
+      mockTelephonyRepository.findClientsByPhone.mockResolvedValue([]);
+      const call = dialIn('+15125550111');
+
+      const spoken = await call.dial();
+
+      expect(spoken[0]).toContain('not registered to a client');
+      expect(call.isEnded).toBe(true);
+      expect(session(call)).toMatchObject({ state: 'FAILED', outcome: 'PHONE_NOT_REGISTERED' });
+      expect(mockTelephonyRepository.findCaregiverByPinHash).not.toHaveBeenCalled();
+    });
+
+    it('should normalize the calling number before matching clients', async () => {
+      const call = dialIn();
+
+      const spoken = await call.dial();
+
+      expect(mockTelephonyRepository.findClientsByPhone).toHaveBeenCalledWith('15125550100');
+      expect(spoken).toEqual([
+        'Welcome to the visit verification line.',
+        'Please enter your caregiver PIN, followed by the pound key.',
+      ]);
+    });
+
+    it('should look up the PIN hashed for the organization of the calling number', async () => {
+      const call = dialIn();
+      await call.dial();
+
+      await call.press(`${PIN}#`);
+
+      expect(mockTelephonyRepository.findCaregiverByPinHash).toHaveBeenCalledWith([hashTelephonyPin(PIN_SECRET, 'org-123', PIN)]);
+      expect(session(call)).toMatchObject({
+        state: 'AWAITING_ACTION',
+        caregiverId: 'caregiver-123',
+        organizationId: 'org-123',
+      });
+    });
+
+    it('should reject the caller after three incorrect PINs', async () => {
+      const call = dialIn();
+      await call.dial();
+
+      expect(await call.press('1111#')).toContain('That PIN was not recognized.');
+      await call.press('2222#');
+      const spoken = await call.press('3333#');
+
+      expect(spoken[0]).toContain('Too many incorrect PIN attempts');
+      expect(call.isEnded).toBe(true);
+      expect(session(call)).toMatchObject({ state: 'FAILED', outcome: 'PIN_REJECTED', pinAttempts: 3 });
+    });
+
+    it('should count incorrect PINs against the number and the caregivers expected at the home', async () => {
+      const call = dialIn();
+      await call.dial();
+
+      await call.press('1111#');
+
+      expect(mockTelephonyRepository.findCaregiversScheduledToday).toHaveBeenCalledWith(['client-123']);
+      expect(mockTelephonyRepository.recordPinFailure).toHaveBeenCalledWith(
+        session(call).id,
+        '15125550100',
+        ['caregiver-123']
+      );
+    });
+
+    it('should refuse calls from a number locked out by incorrect PINs on earlier calls', async () => {
+      mockTelephonyRepository.countPinFailuresFromNumber.mockResolvedValue(5);
+      const call = dialIn();
+
+      const spoken = await call.dial();
+
+      expect(spoken[0]).toContain('Too many incorrect PIN attempts');
+      expect(call.isEnded).toBe(true);
+      expect(session(call)).toMatchObject({ outcome: 'PIN_REJECTED', outcomeDetail: 'Calling number is locked out' });
+    });
+
+    it('should refuse a locked-out caregiver even with the right PIN', async () => {
+      mockTelephonyRepository.countPinFailuresForCaregiver.mockResolvedValue(10);
+      const call = dialIn();
+      await call.dial();
+
+      const spoken = await call.press(`${PIN}#`);
+
+      expect(spoken[0]).toContain('Too many incorrect PIN attempts');
+      expect(mockTelephonyRepository.countPinFailuresForCaregiver).toHaveBeenCalledWith('caregiver-123', expect.any(Date));
+      expect(session(call)).toMatchObject({ state: 'FAILED', outcome: 'PIN_REJECTED' });
+      expect(session(call).caregiverId).toBeUndefined();
+    });
+  });
+
+  describe('clock-in', () => {
+    it('should clock in by phone at the service address', async () => {
+      const call = dialIn();
+      await call.dial();
+      await call.press(`${PIN}#`);
+
+      const spoken = await call.press('1');
+
+      expect(spoken).toEqual(['You are clocked in at 9:05 AM. Goodbye.']);
+      expect(mockTelephonyRepository.findVisitToClockIn).toHaveBeenCalledWith('caregiver-123', ['client-123']);
+      expect(mockEVVService.clockIn).toHaveBeenCalledWith(
+        expect.objectContaining({
+          visitId: 'visit-123',
+          caregiverId: 'caregiver-123',
+          location: expect.objectContaining({
+            latitude: 30.2672,
+            longitude: -97.7431,
+            method: 'PHONE',
+          }),
+          deviceInfo: expect.objectContaining({ deviceId: 'ivr:15125550100' }),
+        }),
+        expect.objectContaining({
+          userId: 'caregiver-123',
+          organizationId: 'org-123',
+          branchIds: ['branch-123'],
+          permissions: expect.arrayContaining(['evv:clock_in']),
+        })
+      );
+      expect(session(call)).toMatchObject({
+        state: 'COMPLETED',
+        outcome: 'CLOCKED_IN',
+        visitId: 'visit-123',
+        evvRecordId: 'evv-123',
+      });
+    });
+
+    it('should end the call when there is no visit to clock in to', async () => {
+      mockTelephonyRepository.findVisitToClockIn.mockResolvedValue(null);
+      const call = dialIn();
+      await call.dial();
+      await call.press(`${PIN}#`);
+
+      const spoken = await call.press('1');
+
+      expect(spoken[0]).toContain('could not find a visit scheduled for you');
+      expect(mockEVVService.clockIn).not.toHaveBeenCalled();
+      expect(session(call)).toMatchObject({ state: 'FAILED', outcome: 'NO_VISIT' });
+    });
+
+    it('should tell the caller when the EVV service rejects the clock-in', async () => {
+      mockEVVService.clockIn.mockRejectedValue(new ValidationError('Visit already has EVV record'));
+      const call = dialIn();
+      await call.dial();
+      await call.press(`${PIN}#`);
+
+      const spoken = await call.press('1');
+
+      expect(spoken[0]).toContain('could not record your clock-in');
+      expect(session(call)).toMatchObject({
+        state: 'FAILED',
+        outcome: 'CLOCK_EVENT_REJECTED',
+        outcomeDetail: 'Visit already has EVV record',
+      });
+    });
+
+    it('should rethrow unexpected errors', async () => {
+      mockEVVService.clockIn.mockRejectedValue(new Error('connection reset'));
+      const call = dialIn();
+      await call.dial();
+      await call.press(`${PIN}#`);
+
+      await expect(call.press('1')).rejects.toThrow('connection reset');
+    });
+  });
+
+  describe('clock-out', () => {
+    it('should clock out with the task codes entered', async () => {
+      const call = dialIn();
+      await call.dial();
+      await call.press(`${PIN}#`);
+
+      expect(await call.press('2')).toEqual([expect.stringContaining('Enter the code for each task')]);
+      const spoken = await call.press('101*205*101#');
+
+      expect(spoken).toEqual(['You are clocked out at 11:30 AM. Goodbye.']);
+      expect(mockEVVService.clockOut).toHaveBeenCalledWith(
+        expect.objectContaining({
+          visitId: 'visit-123',
+          evvRecordId: 'evv-123',
+          caregiverId: 'caregiver-123',
+          location: expect.objectContaining({ method: 'PHONE' }),
+          tasksCompleted: 2,
+          tasksTotal: 3,
+          completionNotes: 'Task codes reported by phone: 101, 205',
+        }),
+        expect.objectContaining({ permissions: expect.arrayContaining(['evv:clock_out']) })
+      );
+      expect(session(call)).toMatchObject({
+        state: 'COMPLETED',
+        outcome: 'CLOCKED_OUT',
+        taskCodes: ['101', '205'],
+      });
+    });
+
+    it('should clock out with no tasks when 0 is entered', async () => {
+      const call = dialIn();
+      await call.dial();
+      await call.press(`${PIN}#`);
+      await call.press('2');
+
+      await call.press('0#');
+
+      const [clockOutInput] = mockEVVService.clockOut.mock.calls[0];
+      expect(clockOutInput.tasksCompleted).toBe(0);
+      expect(clockOutInput.completionNotes).toBeUndefined();
+    });
+
+    it('should re-prompt for task codes that cannot be parsed', async () => {
+      const call = dialIn();
+      await call.dial();
+      await call.press(`${PIN}#`);
+      await call.press('2');
+
+      const spoken = await call.press('12345#');
+
+      expect(spoken[0]).toBe('Sorry, we did not understand that.');
+      expect(call.isEnded).toBe(false);
+      expect(mockEVVService.clockOut).not.toHaveBeenCalled();
+    });
+
+    it('should end the call when the caregiver is not clocked in', async () => {
+      mockTelephonyRepository.findVisitToClockOut.mockResolvedValue(null);
+      const call = dialIn();
+      await call.dial();
+      await call.press(`${PIN}#`);
+
+      const spoken = await call.press('2');
+
+      expect(spoken[0]).toContain('not clocked in to a visit at this home');
+      expect(session(call)).toMatchObject({ state: 'FAILED', outcome: 'NO_VISIT' });
+    });
+
+    it('should not clock out a visit that was closed while entering task codes', async () => {
+      const call = dialIn();
+      await call.dial();
+      await call.press(`${PIN}#`);
+      await call.press('2');
+      mockTelephonyRepository.findVisitToClockOut.mockResolvedValue(null);
+
+      await call.press('101#');
+
+      expect(mockEVVService.clockOut).not.toHaveBeenCalled();
+      expect(session(call)).toMatchObject({ outcome: 'NO_VISIT' });
+    });
+  });
+
+  describe('call handling', () => {
+    it('should re-prompt on silence and give up after three attempts', async () => {
+      const call = dialIn();
+      await call.dial();
+      await call.press(`${PIN}#`);
+
+      expect(await call.wait()).toEqual([
+        'We did not receive a response.',
+        'To clock in, press 1. To clock out, press 2.',
+      ]);
+      await call.wait();
+      await call.wait();
+
+      expect(call.isEnded).toBe(true);
+      expect(session(call)).toMatchObject({ state: 'FAILED', outcome: 'NO_INPUT' });
+    });
+
+    it('should record a hang-up mid-flow as abandoned', async () => {
+      const call = dialIn();
+      await call.dial();
+      await call.press(`${PIN}#`);
+
+      await call.hangUp();
+
+      expect(session(call)).toMatchObject({ state: 'FAILED', outcome: 'ABANDONED' });
+    });
+
+    it('should not change a finished call on a later status callback', async () => {
+      const call = dialIn();
+      await call.dial();
+      await call.press(`${PIN}#`);
+      await call.press('1');
+
+      const response = await service.handleCall({
+        callSid: call.callSid,
+        from: CLIENT_PHONE,
+        to: IVR_LINE,
+        callStatus: 'completed',
+      });
+
+      expect(response.instructions).toEqual([{ verb: 'HANGUP' }]);
+      expect(session(call).outcome).toBe('CLOCKED_IN');
+    });
+  });
+
+  describe('setCaregiverPin', () => {
+    const coordinator: UserContext = {
+      userId: 'user-123',
+      organizationId: 'org-123',
+      branchIds: ['branch-123'],
+      roles: ['COORDINATOR'],
+      permissions: [],
+    };
+
+    it('should store the PIN hashed for the caregiver organization', async () => {
+      await service.setCaregiverPin('caregiver-123', { pin: '4821' }, coordinator);
+
+      expect(mockTelephonyRepository.setCaregiverPinHash).toHaveBeenCalledWith(
+        'caregiver-123',
+        hashTelephonyPin(PIN_SECRET, 'org-123', '4821'),
+        'user-123'
+      );
+    });
+
+    it('should refuse to hash PINs without the server secret', async () => {
+      service = new TelephonyIVRService(
+        mockTelephonyRepository as TelephonyRepository,
+        mockEVVService as EVVService,
+        mockVisitProvider as IVisitProvider,
+        ''
+      );
+
+      await expect(service.setCaregiverPin('caregiver-123', { pin: '4821' }, coordinator)).rejects.toThrow(
+        'TELEPHONY_PIN_SECRET is not set'
+      );
+      expect(mockTelephonyRepository.setCaregiverPinHash).not.toHaveBeenCalled();
+    });
+
+    it.each(['123', '123456789', '12a4', '1111', '1234', '9876'])('should reject PIN %s', async (pin) => {
+      await expect(service.setCaregiverPin('caregiver-123', { pin }, coordinator)).rejects.toThrow(ValidationError);
+      expect(mockTelephonyRepository.setCaregiverPinHash).not.toHaveBeenCalled();
+    });
+
+    it('should reject a PIN another caregiver already uses', async () => {
+      mockTelephonyRepository.isPinHashInUse.mockResolvedValue(true);
+
+      await expect(service.setCaregiverPin('caregiver-123', { pin: '4821' }, coordinator)).rejects.toThrow(
+        'already in use'
+      );
+    });
+
+    it('should throw when the caregiver does not exist', async () => {
+      mockTelephonyRepository.getCaregiverOrganization.mockResolvedValue(null);
+
+      await expect(service.setCaregiverPin('caregiver-404', { pin: '4821' }, coordinator)).rejects.toThrow(
+        NotFoundError
+      );
+    });
+
+    it('should require a supervisor or caregiver update permission', async () => {
+      const caregiver = { ...coordinator, roles: ['CAREGIVER'] as UserContext['roles'] };
+
+      await expect(service.setCaregiverPin('caregiver-123', { pin: '4821' }, caregiver)).rejects.toThrow(
+        PermissionError
+      );
+    });
+
+    it('should not set PINs for caregivers in another organization', async () => {
+      mockTelephonyRepository.getCaregiverOrganization.mockResolvedValue('org-456');
+
+      await expect(service.setCaregiverPin('caregiver-123', { pin: '4821' }, coordinator)).rejects.toThrow(
+        PermissionError
+      );
+    });
+  });
+});
@@ -0,0 +1,715 @@
+/**
+ * EVV Exception Queue Service
+ *
+ * Surfaces EVV records that need coordinator attention. Records that fail
+ * six-element validation or location verification are queued automatically
+ * at clock-in/clock-out; supervisors, auditors and aggregator rejections can
+ * report exceptions manually.
+ *
+ * Every exception carries an SLA deadline derived from its priority:
+ * - URGENT: 4 hours (e.g., mock location / GPS spoofing)
+ * - HIGH: 24 hours (missing required elements, geofence failure)
+ * - MEDIUM: 72 hours
+ * - LOW: 5 days
+ *
+ * Exceptions past their SLA are escalated by processSlaBreaches(), which is
+ * intended to run from a scheduled job.
+ */
+
+import {
+  UUID,
+  UserContext,
+  ValidationError,
+  NotFoundError,
+  PermissionError,
+  PaginationParams,
+  PaginatedResult,
+  getNotificationService,
+  NotificationService,
+  type NotificationEventType,
+} from '@care-commons/core';
+import { EVVExceptionQueueRepository } from '../repository/evv-exception-queue-repository';
+import { TransactionClient } from '../repository/evv-repository';
+import { EVVRecord, LocationVerification } from '../types/evv';
+import {
+  EVVExceptionQueueItem,
+  EVVExceptionQueueFilters,
+  EVVExceptionQueueStats,
+  EVVIssue,
+  ReportEVVExceptionInput,
+  AssignEVVExceptionInput,
+  ResolveEVVExceptionInput,
+  EscalateEVVExceptionInput,
+} from '../types/evv-revisions';
+import {
+  SixElementsValidator,
+  createFederalValidator,
+  createTexasValidator,
+  EVVDataInput,
+} from './six-elements-validator';
+
+type ExceptionSeverity = EVVExceptionQueueItem['exceptionSeverity'];
+type ExceptionPriority = EVVExceptionQueueItem['priority'];
+
+/**
+ * SLA window per priority, in hours
+ */
+export const EVV_EXCEPTION_SLA_HOURS: Record<ExceptionPriority, number> = {
+  URGENT: 4,
+  HIGH: 24,
+  MEDIUM: 72,
+  LOW: 120,
+};
+
+const SEVERITY_RANK: Record<ExceptionSeverity, number> = {
+  INFO: 0,
+  WARNING: 1,
+  ERROR: 2,
+  CRITICAL: 3,
+};
+
+const PRIORITY_BY_SEVERITY: Record<ExceptionSeverity, ExceptionPriority> = {
+  CRITICAL: 'URGENT',
+  ERROR: 'HIGH',
+  WARNING: 'MEDIUM',
+  INFO: 'LOW',
+};
+
+const UNRESOLVED_STATUSES: ReadonlyArray<EVVExceptionQueueItem['status']> = ['OPEN', 'IN_PROGRESS', 'ESCALATED'];
+
+export class EVVExceptionQueueService {
+  private federalValidator: SixElementsValidator;
+  private texasValidator: SixElementsValidator;
+
+  constructor(private repository: EVVExceptionQueueRepository) {
+    this.federalValidator = createFederalValidator();
+    this.texasValidator = createTexasValidator();
+  }
+
+  /**
+   * Evaluate an EVV record and queue (or refresh) an exception if it has issues
+   *
+   * Returns the queued exception, or null when the record has no issues.
+   * An unresolved exception for the same record is updated in place rather
+   * than duplicated.
+   */
+  async evaluateRecord(evvRecord: EVVRecord): Promise<EVVExceptionQueueItem | null> {
+    const issues = this.detectIssues(evvRecord);
+    if (issues.length === 0) {
+      return null;
+    }
+
+    const severity = this.highestSeverity(issues);
+    const priority = PRIORITY_BY_SEVERITY[severity];
+    const exceptionType = this.classifyException(issues);
+    const description = issues.map(issue => issue.issueDescription).join('; ');
+
+    const existing = await this.repository.getOpenExceptionForRecord(evvRecord.id);
+    if (existing) {
+      // Never lower the priority of an exception already in the queue
+      const effectivePriority = this.higherPriority(existing.priority, priority);
+      return this.repository.updateException(existing.id, {
+        exceptionType,
+        exceptionCode: exceptionType,
+        exceptionSeverity: this.higherSeverity(existing.exceptionSeverity, severity),
+        exceptionDescription: description,
+        issues,
+        issueCount: issues.length,
+        priority: effectivePriority,
+        slaDeadline: this.earlierDate(
+          existing.slaDeadline,
+          this.calculateSlaDeadline(existing.detectedAt, effectivePriority)
+        ),
+      });
+    }
+
+    const detectedAt = new Date();
+    const slaDeadline = this.calculateSlaDeadline(detectedAt, priority);
+
+    return this.repository.createException({
+      evvRecordId: evvRecord.id,
+      visitId: evvRecord.visitId,
+      organizationId: evvRecord.organizationId,
+      branchId: evvRecord.branchId,
+      exceptionType,
+      exceptionCode: exceptionType,
+      exceptionSeverity: severity,
+      exceptionDescription: description,
+      issues,
+      issueCount: issues.length,
+      detectedAt,
+      detectedBy: 'SYSTEM',
+      detectionMethod: 'SIX_ELEMENTS_AND_LOCATION_VALIDATION',
+      status: 'OPEN',
+      priority,
+      dueDate: slaDeadline,
+      slaDeadline,
+      notificationsent: false,
+    });
+  }
+
+  /**
+   * Manually report an exception for an EVV record
+   */
+  async reportException(
+    input: ReportEVVExceptionInput,
+    evvRecord: EVVRecord,
+    context: UserContext
+  ): Promise<EVVExceptionQueueItem> {
+    if (!this.hasPermission(context, 'evv:write') && !this.isSupervisor(context)) {
+      throw new PermissionError('User does not have permission to report EVV exceptions');
+    }
+
+    this.checkOrganizationAccess(evvRecord.organizationId, context);
+
+    if (input.issues.length === 0) {
+      throw new ValidationError('At least one issue is required', { evvRecordId: input.evvRecordId });
+    }
+
+    const severity = this.highestSeverity(input.issues);
+    const priority = input.priority ?? PRIORITY_BY_SEVERITY[severity];
+    const detectedAt = new Date();
+    const slaDeadline = this.calculateSlaDeadline(detectedAt, priority);
+
+    const baseItem = {
+      evvRecordId: evvRecord.id,
+      visitId: evvRecord.visitId,
+      organizationId: evvRecord.organizationId,
+      branchId: evvRecord.branchId,
+      exceptionType: input.exceptionType,
+      exceptionCode: input.exceptionCode,
+      exceptionSeverity: severity,
+      exceptionDescription: input.exceptionDescription,
+      issues: input.issues,
+      issueCount: input.issues.length,
+      detectedAt,
+      detectedBy: input.detectedBy,
+      status: 'OPEN' as const,
+      priority,
+      dueDate: slaDeadline,
+      slaDeadline,
+      notificationsent: false,
+    };
+
+    const optionalFields = {
+      detectionMethod: input.detectionMethod,
+    };
+
+    const filteredOptional = Object.fromEntries(
+      Object.entries(optionalFields).filter(([_, value]) => value !== undefined)
+    );
+
+    return this.repository.createException({ ...baseItem, ...filteredOptional });
+  }
+
+  /**
+   * Get the prioritized exception queue
+   *
+   * Non-admin users only see their own organization's queue.
+   */
+  async getQueue(
+    filters: EVVExceptionQueueFilters,
+    pagination: PaginationParams,
+    context: UserContext
+  ): Promise<PaginatedResult<EVVExceptionQueueItem>> {
+    if (!this.hasPermission(context, 'evv:read')) {
+      throw new PermissionError('User does not have permission to view EVV exceptions');
+    }
+
+    const isSuperAdmin = context.roles.includes('SUPER_ADMIN');
+    if (!isSuperAdmin && context.organizationId === undefined) {
+      throw new PermissionError('Organization context is required to view EVV exceptions');
+    }
+
+    const scopedFilters: EVVExceptionQueueFilters = isSuperAdmin
+      ? filters
+      : { ...filters, organizationId: context.organizationId };
+
+    return this.repository.searchExceptions(scopedFilters, pagination);
+  }
+
+  /**
+   * Get a single exception, recording the first view by an assignee
+   */
+  async getException(exceptionId: UUID, context: UserContext): Promise<EVVExceptionQueueItem> {
+    if (!this.hasPermission(context, 'evv:read')) {
+      throw new PermissionError('User does not have permission to view EVV exceptions');
+    }
+
+    const exception = await this.getExceptionOrThrow(exceptionId);
+    this.checkOrganizationAccess(exception.organizationId, context);
+
+    if (exception.viewedAt === undefined && exception.assignedTo === context.userId) {
+      return this.repository.updateException(exceptionId, {
+        viewedAt: new Date(),
+        viewedBy: context.userId,
+      });
+    }
+
+    return exception;
+  }
+
+  /**
+   * Assign an exception to a coordinator and notify them
+   */
+  async assignException(
+    exceptionId: UUID,
+    input: AssignEVVExceptionInput,
+    context: UserContext
+  ): Promise<EVVExceptionQueueItem> {
+    if (!this.isSupervisor(context)) {
+      throw new PermissionError('Only supervisors can assign EVV exceptions');
+    }
+
+    const exception = await this.getExceptionOrThrow(exceptionId);
+    this.checkOrganizationAccess(exception.organizationId, context);
+    this.assertUnresolved(exception);
+
+    const now = new Date();
+    const updated = await this.repository.updateException(exceptionId, {
+      assignedTo: input.assignedTo,
+      assignedToRole: input.assignedToRole,
+      assignedAt: now,
+      status: 'IN_PROGRESS',
+      dueDate: input.dueDate ?? exception.dueDate ?? exception.slaDeadline,
+    });
+
+    const notified = await this.notify('EVV_EXCEPTION_ASSIGNED', updated, input.assignedTo, {
+      priority: updated.priority,
+      slaDeadline: updated.slaDeadline?.toISOString() ?? 'N/A',
+    });
+
+    if (notified) {
+      return this.repository.updateException(exceptionId, {
+        notificationsent: true,
+        notificationSentAt: new Date(),
+      });
+    }
+
+    return updated;
+  }
+
+  /**
+   * Resolve an exception
+   */
+  async resolveException(
+    exceptionId: UUID,
+    input: ResolveEVVExceptionInput,
+    context: UserContext
+  ): Promise<EVVExceptionQueueItem> {
+    const exception = await this.getExceptionOrThrow(exceptionId);
+    this.checkOrganizationAccess(exception.organizationId, context);
+    this.assertUnresolved(exception);
+
+    if (!this.isSupervisor(context) && exception.assignedTo !== context.userId) {
+      throw new PermissionError('Only the assignee or a supervisor can resolve this exception');
+    }
+
+    if (input.resolutionNotes.trim().length === 0) {
+      throw new ValidationError('Resolution notes are required', { exceptionId });
+    }
+
+    // Overrides and waivers bypass the correction workflow and need a supervisor
+    if ((input.resolutionMethod === 'OVERRIDE' || input.resolutionMethod === 'WAIVER') && !this.isSupervisor(context)) {
+      throw new PermissionError(`Only supervisors can resolve exceptions by ${input.resolutionMethod}`);
+    }
+
+    return this.repository.updateException(exceptionId, {
+      status: 'RESOLVED',
+      resolutionMethod: input.resolutionMethod,
+      resolutionNotes: input.resolutionNotes,
+      resolvedAt: new Date(),
+      resolvedBy: context.userId,
+    });
+  }
+
+  /**
+   * Check that an exception belongs to an EVV record before a revision
+   * request references it
+   *
+   * @throws NotFoundError if the exception does not exist
+   * @throws ValidationError if it belongs to another record or organization, or is closed
+   */
+  async assertExceptionForRecord(
+    exceptionId: UUID,
+    evvRecordId: UUID,
+    organizationId: UUID
+  ): Promise<EVVExceptionQueueItem> {
+    const exception = await this.getExceptionOrThrow(exceptionId);
+    if (exception.evvRecordId !== evvRecordId || exception.organizationId !== organizationId) {
+      throw new ValidationError('Exception does not belong to this EVV record', {
+        exceptionId,
+        evvRecordId,
+      });
+    }
+    this.assertUnresolved(exception);
+    return exception;
+  }
+
+  /**
+   * Resolve any open exception for a record after an approved revision
+   *
+   * Used by the revision workflow; permissions were already checked there.
+   * An exception that belongs to another record or organization is left alone.
+   * Pass the revision's transaction client to resolve it in the same commit.
+   */
+  async resolveByRevision(
+    evvRecordId: UUID,
+    organizationId: UUID,
+    exceptionId: UUID | undefined,
+    resolutionNotes: string,
+    resolvedBy: UUID,
+    client?: TransactionClient
+  ): Promise<EVVExceptionQueueItem | null> {
+    const exception = exceptionId !== undefined
+      ? await this.repository.getExceptionById(exceptionId, client)
+      : await this.repository.getOpenExceptionForRecord(evvRecordId, client);
+
+    if (!exception || !UNRESOLVED_STATUSES.includes(exception.status)) {
+      return null;
+    }
+
+    if (exception.evvRecordId !== evvRecordId || exception.organizationId !== organizationId) {
+      return null;
+    }
+
+    const resolution = {
+      status: 'RESOLVED' as const,
+      resolutionMethod: 'REVISION' as const,
+      resolutionNotes,
+      resolvedAt: new Date(),
+      resolvedBy,
+    };
+    return this.repository.updateException(exception.id, resolution, client);
+  }
+
+  /**
+   * Escalate an exception to another user
+   */
+  async escalateException(
+    exceptionId: UUID,
+    input: EscalateEVVExceptionInput,
+    context: UserContext
+  ): Promise<EVVExceptionQueueItem> {
+    const exception = await this.getExceptionOrThrow(exceptionId);
+    this.checkOrganizationAccess(exception.organizationId, context);
+    this.assertUnresolved(exception);
+
+    if (!this.isSupervisor(context) && exception.assignedTo !== context.userId) {
+      throw new PermissionError('Only the assignee or a supervisor can escalate this exception');
+    }
+
+    return this.escalate(exception, input.escalatedTo, input.escalationReason);
+  }
+
+  /**
+   * Get queue statistics for the user's organization
+   */
+  async getQueueStats(
+    periodStart: Date,
+    periodEnd: Date,
+    context: UserContext
+  ): Promise<EVVExceptionQueueStats> {
+    if (!this.hasPermission(context, 'evv:read')) {
+      throw new PermissionError('User does not have permission to view EVV exceptions');
+    }
+
+    if (periodStart > periodEnd) {
+      throw new ValidationError('Period start must be before period end', { periodStart, periodEnd });
+    }
+
+    if (context.organizationId === undefined) {
+      throw new ValidationError('Organization context is required for queue statistics');
+    }
+
+    return this.repository.getStats(context.organizationId, periodStart, periodEnd);
+  }
+
+  /**
+   * Escalate exceptions whose SLA deadline has passed
+   *
+   * Breached exceptions are escalated to their assignee (or left for the
+   * supervisor queue if unassigned). Returns the escalated items.
+   */
+  async processSlaBreaches(asOf: Date = new Date()): Promise<EVVExceptionQueueItem[]> {
+    const breaches = await this.repository.getSlaBreaches(asOf);
+    const escalated: EVVExceptionQueueItem[] = [];
+
+    for (const exception of breaches) {
+      try {
+        const hoursOverdue = Math.round(
+          (asOf.getTime() - (exception.slaDeadline?.getTime() ?? asOf.getTime())) / 3600000
+        );
+        escalated.push(
+          await this.escalate(
+            exception,
+            exception.assignedTo,
+            `SLA deadline exceeded by ${hoursOverdue} hour(s)`
+          )
+        );
+      } catch (error) {
+        // One failure shouldn't stop the batch
+        console.error(`[EVV] Failed to escalate exception ${exception.id}:`, error);
+      }
+    }
+
+    return escalated;
+  }
+
+  /**
+   * Calculate SLA deadline for a priority
+   */
+  calculateSlaDeadline(detectedAt: Date, priority: ExceptionPriority): Date {
+    return new Date(detectedAt.getTime() + EVV_EXCEPTION_SLA_HOURS[priority] * 60 * 60 * 1000);
+  }
+
+  /**
+   * Detect issues with an EVV record
+   *
+   * Combines six-element validation (Texas-enhanced for TX service addresses)
+   * with the location verification captured at clock-in and clock-out.
+   */
+  detectIssues(evvRecord: EVVRecord): EVVIssue[] {
+    const issues: EVVIssue[] = [];
+    const isTexas = evvRecord.serviceAddress.state === 'TX';
+    const validator = isTexas ? this.texasValidator : this.federalValidator;
+
+    const result = validator.validate(this.toValidationInput(evvRecord));
+    for (const element of result.elementResults) {
+      if (element.isValid || !element.required) {
+        continue;
+      }
+      issues.push({
+        issueType: element.isPresent ? 'INVALID_ELEMENT' : 'MISSING_ELEMENT',
+        issueCode: `EVV_${element.element}`,
+        issueSeverity: 'ERROR',
+        issueDescription: element.validationMessage,
+        affectedField: element.element,
+        canBeAutoResolved: false,
+        requiresSupervisorReview: true,
+        requiresRevision: true,
+        suggestedAction: 'Submit a revision request with the corrected value',
+        ...(isTexas && element.texasEnhanced === true ? { stateSpecificCode: 'TX_HHSC' } : {}),
+      });
+    }
+
+    issues.push(...this.detectLocationIssues(evvRecord.clockInVerification, 'clockInVerification'));
+    if (evvRecord.clockOutVerification) {
+      issues.push(...this.detectLocationIssues(evvRecord.clockOutVerification, 'clockOutVerification'));
+    }
+
+    return issues;
+  }
+
+  /**
+   * Helper: Detect geofence and spoofing issues for a single location capture
+   */
+  private detectLocationIssues(verification: LocationVerification, field: string): EVVIssue[] {
+    const issues: EVVIssue[] = [];
+    const label = field === 'clockInVerification' ? 'Clock-in' : 'Clock-out';
+
+    if (verification.mockLocationDetected) {
+      issues.push({
+        issueType: 'MOCK_LOCATION',
+        issueCode: 'EVV_MOCK_LOCATION',
+        issueSeverity: 'CRITICAL',
+        issueDescription: `${label} location was reported by a mock location provider`,
+        affectedField: field,
+        canBeAutoResolved: false,
+        requiresSupervisorReview: true,
+        requiresRevision: false,
+        suggestedAction: 'Investigate possible falsification before approving the visit',
+      });
+    }
+
+    if (!verification.geofencePassed) {
+      issues.push({
+        issueType: 'GEOFENCE_VIOLATION',
+        issueCode: 'EVV_GEOFENCE',
+        issueSeverity: 'ERROR',
+        issueDescription: `${label} was ${Math.round(verification.distanceFromAddress)}m from the service address`,
+        affectedField: `${field}.geofencePassed`,
+        currentValue: verification.distanceFromAddress,
+        canBeAutoResolved: false,
+        requiresSupervisorReview: true,
+        requiresRevision: true,
+        suggestedAction: 'Correct the location or document the reason for the variance',
+      });
+    }
+
+    return issues;
+  }
+
+  /**
+   * Helper: Map an EVV record to six-element validator input
+   */
+  private toValidationInput(evvRecord: EVVRecord): EVVDataInput {
+    const baseInput = {
+      serviceTypeCode: evvRecord.serviceTypeCode,
+      serviceTypeName: evvRecord.serviceTypeName,
+      clientId: evvRecord.clientId,
+      clientName: evvRecord.clientName,
+      caregiverId: evvRecord.caregiverId,
+      caregiverName: evvRecord.caregiverName,
+      caregiverEmployeeId: evvRecord.caregiverEmployeeId,
+      serviceDate: evvRecord.serviceDate,
+      serviceLocationLatitude: evvRecord.clockInVerification.latitude,
+      serviceLocationLongitude: evvRecord.clockInVerification.longitude,
+      serviceLocationAddress: evvRecord.serviceAddress.line1,
+      locationVerificationMethod: evvRecord.clockInVerification.method,
+      clockInTime: evvRecord.clockInTime,
+    };
+
+    const optionalFields = {
+      clientMedicaidId: evvRecord.clientMedicaidId,
+      caregiverNPI: evvRecord.caregiverNationalProviderId,
+      clockOutTime: evvRecord.clockOutTime ?? undefined,
+      totalDuration: evvRecord.totalDuration,
+    };
+
+    const filteredOptional = Object.fromEntries(
+      Object.entries(optionalFields).filter(([_, value]) => value !== undefined)
+    );
+
+    return { ...baseInput, ...filteredOptional };
+  }
+
+  /**
+   * Helper: Mark an exception escalated and notify the escalation target
+   */
+  private async escalate(
+    exception: EVVExceptionQueueItem,
+    escalatedTo: UUID | undefined,
+    escalationReason: string
+  ): Promise<EVVExceptionQueueItem> {
+    const baseUpdates = {
+      status: 'ESCALATED' as const,
+      escalatedAt: new Date(),
+      escalationReason,
+      priority: this.higherPriority(exception.priority, 'HIGH'),
+    };
+
+    const updated = await this.repository.updateException(
+      exception.id,
+      escalatedTo !== undefined ? { ...baseUpdates, escalatedTo } : baseUpdates
+    );
+
+    if (escalatedTo !== undefined) {
+      await this.notify('EVV_EXCEPTION_ESCALATED', updated, escalatedTo, { escalationReason });
+    }
+
+    return updated;
+  }
+
+  /**
+   * Helper: Send an exception notification to a single user
+   *
+   * Returns whether the notification was sent. Notification failures never
+   * fail the queue operation.
+   */
+  private async notify(
+    eventType: NotificationEventType,
+    exception: EVVExceptionQueueItem,
+    recipientId: UUID,
+    extraData: Record<string, unknown>
+  ): Promise<boolean> {
+    try {
+      const data = {
+        exceptionId: exception.id,
+        evvRecordId: exception.evvRecordId,
+        visitId: exception.visitId,
+        exceptionType: exception.exceptionType,
+        exceptionDescription: exception.exceptionDescription,
+        ...extraData,
+      };
+      const template = NotificationService.getTemplate(eventType, data);
+
+      await getNotificationService().send({
+        eventType,
+        priority: exception.priority === 'URGENT' ? 'URGENT' : 'HIGH',
+        recipients: [{ userId: recipientId, preferredChannels: ['EMAIL', 'IN_APP'] }],
+        subject: template.subject,
+        message: template.message,
+        data,
+        organizationId: exception.organizationId,
+        relatedEntityType: 'visit',
+        relatedEntityId: exception.visitId,
+      });
+      return true;
+    } catch (error) {
+      console.error(`[EVV] Failed to send ${eventType} notification:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Helper: Pick the exception type from the most severe issue
+   */
+  private classifyException(issues: EVVIssue[]): string {
+    const [primary] = [...issues].sort(
+      (a, b) => SEVERITY_RANK[b.issueSeverity] - SEVERITY_RANK[a.issueSeverity]
+    );
+    return primary?.issueType ?? 'UNKNOWN';
+  }
+
+  private highestSeverity(issues: EVVIssue[]): ExceptionSeverity {
+    return issues.reduce<ExceptionSeverity>(
+      (highest, issue) => this.higherSeverity(highest, issue.issueSeverity),
+      'INFO'
+    );
+  }
+
+  private higherSeverity(a: ExceptionSeverity, b: ExceptionSeverity): ExceptionSeverity {
+    return SEVERITY_RANK[a] >= SEVERITY_RANK[b] ? a : b;
+  }
+
+  private higherPriority(a: ExceptionPriority, b: ExceptionPriority): ExceptionPriority {
+    return EVV_EXCEPTION_SLA_HOURS[a] <= EVV_EXCEPTION_SLA_HOURS[b] ? a : b;
+  }
+
+  private earlierDate(a: Date | undefined, b: Date): Date {
+    return a !== undefined && a < b ? a : b;
+  }
+
+  private async getExceptionOrThrow(exceptionId: UUID): Promise<EVVExceptionQueueItem> {
+    const exception = await this.repository.getExceptionById(exceptionId);
+    if (!exception) {
+      throw new NotFoundError('EVV exception not found', { exceptionId });
+    }
+    return exception;
+  }
+
+  private assertUnresolved(exception: EVVExceptionQueueItem): void {
+    if (!UNRESOLVED_STATUSES.includes(exception.status)) {
+      throw new ValidationError(`Exception is already ${exception.status}`, {
+        exceptionId: exception.id,
+        status: exception.status,
+      });
+    }
+  }
+
+  private checkOrganizationAccess(organizationId: UUID, context: UserContext): void {
+    if (organizationId !== context.organizationId && !context.roles.includes('SUPER_ADMIN')) {
+      throw new PermissionError('Cannot access EVV exceptions from another organization');
+    }
+  }
+
+  /**
+   * Helper: Check if user has permission
+   */
+  private hasPermission(context: UserContext, permission: string): boolean {
+    return context.permissions.includes(permission) || context.roles.includes('SUPER_ADMIN');
+  }
+
+  /**
+   * Helper: Check if user is supervisor
+   */
+  private isSupervisor(context: UserContext): boolean {
+    return (
+      context.roles.includes('SUPER_ADMIN') ||
+      context.roles.includes('ORG_ADMIN') ||
+      context.roles.includes('BRANCH_ADMIN') ||
+      context.roles.includes('COORDINATOR')
+    );
+  }
+}
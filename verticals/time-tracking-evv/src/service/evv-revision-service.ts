@@ -0,0 +1,908 @@
+/**
+ * EVV Revision Service - Approval workflow for EVV corrections
+ *
+ * EVV records are never edited in place without a trace. A correction is
+ * requested, approved by a supervisor (and by compliance if the record was
+ * already submitted to a payor), and then written to the append-only
+ * evv_revisions table before the record itself is updated.
+ *
+ * Integrity:
+ * - Original clock-in/out data is captured in evv_original_data before the
+ *   first correction and is never modified
+ * - Each revision stores a SHA-256 hash of its content chained to the
+ *   previous revision's hash, so any tampering breaks the chain
+ *
+ * Texas records older than 30 days must use the VMUR workflow instead
+ * (see VMURService).
+ */
+
+import {
+  UUID,
+  UserContext,
+  ValidationError,
+  NotFoundError,
+  PermissionError,
+  ConflictError,
+} from '@care-commons/core';
+import { EVVRepository, TransactionClient } from '../repository/evv-repository';
+import { EVVRevisionRepository } from '../repository/evv-revision-repository';
+import { EVVExceptionQueueService } from './evv-exception-queue-service';
+import { CryptoUtils } from '../utils/crypto-utils';
+import { EVVRecord, EVVRecordStatus, ComplianceFlag } from '../types/evv';
+import {
+  EVVRevision,
+  EVVRevisionType,
+  EVVRevisionRequest,
+  EVVRevisionChange,
+  EVVOriginalData,
+  EVVAuditTrail,
+  ApprovalAction,
+  CreateEVVRevisionRequestInput,
+  ReviewEVVRevisionRequestInput,
+} from '../types/evv-revisions';
+
+/**
+ * Resubmits a corrected record to the state aggregator (EVVService satisfies this)
+ */
+export interface EVVRecordResubmitter {
+  submitToStateAggregator(evvRecordId: UUID, userContext: UserContext): Promise<unknown>;
+}
+
+/**
+ * Fields that can be corrected through a revision request, with the
+ * revision type recorded for each
+ */
+const REVISABLE_FIELDS: Record<string, EVVRevisionType> = {
+  clockInTime: 'CLOCK_IN_TIME_CORRECTION',
+  clockOutTime: 'CLOCK_OUT_TIME_CORRECTION',
+  totalDuration: 'DURATION_RECALCULATION',
+  'clockInVerification.latitude': 'CLOCK_IN_LOCATION_CORRECTION',
+  'clockInVerification.longitude': 'CLOCK_IN_LOCATION_CORRECTION',
+  'clockInVerification.geofencePassed': 'LOCATION_MANUAL_OVERRIDE',
+  'clockInVerification.method': 'VERIFICATION_METHOD_CHANGE',
+  'clockOutVerification.latitude': 'CLOCK_OUT_LOCATION_CORRECTION',
+  'clockOutVerification.longitude': 'CLOCK_OUT_LOCATION_CORRECTION',
+  'clockOutVerification.geofencePassed': 'LOCATION_MANUAL_OVERRIDE',
+  'clockOutVerification.method': 'VERIFICATION_METHOD_CHANGE',
+  serviceTypeCode: 'SERVICE_TYPE_CORRECTION',
+  serviceTypeName: 'SERVICE_TYPE_CORRECTION',
+  caregiverNationalProviderId: 'CAREGIVER_CORRECTION',
+  clientMedicaidId: 'CLIENT_CORRECTION',
+  recordStatus: 'STATUS_CORRECTION',
+};
+
+const TIME_FIELDS = new Set(['clockInTime', 'clockOutTime']);
+
+/** Statuses that mean the record has left the agency and must be resubmitted */
+const SUBMITTED_STATUSES: ReadonlySet<EVVRecordStatus> = new Set(['SUBMITTED', 'APPROVED', 'REJECTED', 'AMENDED']);
+
+const REQUEST_EXPIRATION_DAYS = 14;
+const TEXAS_VMUR_THRESHOLD_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class EVVRevisionService {
+  constructor(
+    private revisionRepository: EVVRevisionRepository,
+    private evvRepository: EVVRepository,
+    private exceptionQueueService?: EVVExceptionQueueService,
+    private resubmitter?: EVVRecordResubmitter
+  ) { }
+
+  /**
+   * Request a correction to an EVV record
+   *
+   * @throws ValidationError for unknown fields or Texas records that require a VMUR
+   * @throws ConflictError if the record already has a pending request
+   */
+  async requestRevision(
+    input: CreateEVVRevisionRequestInput,
+    context: UserContext
+  ): Promise<EVVRevisionRequest> {
+    if (!this.hasPermission(context, 'evv:write') && !this.isSupervisor(context)) {
+      throw new PermissionError('User does not have permission to request EVV revisions');
+    }
+
+    const evvRecord = await this.getRecordOrThrow(input.evvRecordId);
+    this.checkOrganizationAccess(evvRecord.organizationId, context);
+
+    this.validateRequestInput(input);
+    this.assertNotVMURRequired(evvRecord);
+    await this.assertExceptionForRecord(input.exceptionId, evvRecord);
+
+    const existingRequests = await this.revisionRepository.getRevisionRequestsByRecord(evvRecord.id);
+    if (existingRequests.some(request => request.status === 'PENDING' && request.expiresAt > new Date())) {
+      throw new ConflictError('EVV record already has a pending revision request', {
+        evvRecordId: evvRecord.id,
+      });
+    }
+
+    // Original data must be locked in before anything can change
+    await this.ensureOriginalData(evvRecord, context);
+
+    const requestedChanges: EVVRevisionChange[] = input.changes.map(change => ({
+      fieldPath: change.fieldPath,
+      currentValue: this.getFieldValue(evvRecord, change.fieldPath),
+      proposedValue: change.proposedValue,
+      changeReason: change.changeReason,
+    }));
+
+    const now = new Date();
+    const baseRequest = {
+      evvRecordId: evvRecord.id,
+      visitId: evvRecord.visitId,
+      organizationId: evvRecord.organizationId,
+      requestedChanges,
+      requestReason: input.requestReason,
+      requestJustification: input.requestJustification,
+      requestedBy: context.userId,
+      requestedByName: input.requestedByName,
+      requestedByRole: this.primaryRole(context),
+      requestedAt: now,
+      status: 'PENDING' as const,
+      requiresSupervisorApproval: true,
+      // Payor-submitted records need a second, compliance-level sign-off
+      requiresComplianceApproval: evvRecord.submittedToPayor !== undefined && evvRecord.submittedToPayor !== null,
+      expiresAt: new Date(now.getTime() + REQUEST_EXPIRATION_DAYS * DAY_MS),
+    };
+
+    const optionalFields = {
+      requestReasonCode: input.requestReasonCode,
+      supportingDocuments: input.supportingDocuments,
+      exceptionId: input.exceptionId,
+    };
+
+    const filteredOptional = Object.fromEntries(
+      Object.entries(optionalFields).filter(([_, value]) => value !== undefined)
+    );
+
+    const request = await this.revisionRepository.createRevisionRequest({
+      ...baseRequest,
+      ...filteredOptional,
+    });
+
+    await this.revisionRepository.logAccess({
+      evvRecordId: evvRecord.id,
+      accessedAt: now,
+      accessedBy: context.userId,
+      accessedByName: input.requestedByName,
+      accessedByRole: this.primaryRole(context),
+      accessType: 'EDIT',
+      accessReason: `Revision requested: ${input.requestReason}`,
+      fieldsAccessed: input.changes.map(change => change.fieldPath),
+    });
+
+    return request;
+  }
+
+  /**
+   * Approve a revision request
+   *
+   * The first approval is the supervisor's. If compliance approval is
+   * required, the request stays PENDING until an org admin gives the second
+   * approval. Once fully approved, the changes are applied.
+   */
+  async approveRevisionRequest(
+    requestId: UUID,
+    input: ReviewEVVRevisionRequestInput,
+    context: UserContext
+  ): Promise<{ request: EVVRevisionRequest; revisions: EVVRevision[]; evvRecord?: EVVRecord }> {
+    const request = await this.getPendingRequestForReview(requestId, context);
+
+    const approval = this.buildApprovalAction('APPROVED', input, context);
+
+    if (request.supervisorApproval === undefined) {
+      if (request.requiresComplianceApproval) {
+        const updated = await this.revisionRepository.updateRevisionRequest(requestId, {
+          supervisorApproval: approval,
+        });
+        return { request: updated, revisions: [] };
+      }
+
+      return this.implementRequest(requestId, { supervisorApproval: approval }, input.reviewerName, context);
+    }
+
+    // Supervisor already approved; this is the compliance approval
+    if (!this.isComplianceApprover(context)) {
+      throw new PermissionError('Compliance approval requires an organization administrator');
+    }
+
+    if (request.supervisorApproval.approvedBy === context.userId) {
+      throw new ValidationError('Compliance approval must come from a different reviewer than the supervisor', {
+        requestId,
+      });
+    }
+
+    return this.implementRequest(requestId, { complianceApproval: approval }, input.reviewerName, context);
+  }
+
+  /**
+   * Deny a revision request
+   */
+  async denyRevisionRequest(
+    requestId: UUID,
+    input: ReviewEVVRevisionRequestInput,
+    context: UserContext
+  ): Promise<EVVRevisionRequest> {
+    const request = await this.getPendingRequestForReview(requestId, context);
+
+    if (input.comments === undefined || input.comments.trim().length === 0) {
+      throw new ValidationError('A reason is required when denying a revision request', { requestId });
+    }
+
+    const denial = this.buildApprovalAction('DENIED', input, context);
+    const isComplianceStage = request.supervisorApproval !== undefined;
+
+    if (isComplianceStage && !this.isComplianceApprover(context)) {
+      throw new PermissionError('Compliance review requires an organization administrator');
+    }
+
+    return this.revisionRepository.updateRevisionRequest(requestId, {
+      status: 'DENIED',
+      ...(isComplianceStage ? { complianceApproval: denial } : { supervisorApproval: denial }),
+    });
+  }
+
+  /**
+   * Cancel a pending revision request (requester only)
+   */
+  async cancelRevisionRequest(requestId: UUID, context: UserContext): Promise<EVVRevisionRequest> {
+    const request = await this.getRequestOrThrow(requestId);
+
+    if (request.requestedBy !== context.userId) {
+      throw new PermissionError('Only the requester can cancel a revision request');
+    }
+
+    if (request.status !== 'PENDING') {
+      throw new ValidationError(`Cannot cancel revision request with status: ${request.status}`, {
+        requestId,
+        status: request.status,
+      });
+    }
+
+    return this.revisionRepository.updateRevisionRequest(requestId, { status: 'CANCELLED' });
+  }
+
+  /**
+   * Get revision requests for an EVV record
+   */
+  async getRevisionRequests(evvRecordId: UUID, context: UserContext): Promise<EVVRevisionRequest[]> {
+    if (!this.hasPermission(context, 'evv:read')) {
+      throw new PermissionError('User does not have permission to view EVV revisions');
+    }
+
+    const evvRecord = await this.getRecordOrThrow(evvRecordId);
+    this.checkOrganizationAccess(evvRecord.organizationId, context);
+
+    return this.revisionRepository.getRevisionRequestsByRecord(evvRecordId);
+  }
+
+  /**
+   * Get pending revision requests awaiting review in the user's organization
+   */
+  async getPendingRevisionRequests(context: UserContext): Promise<EVVRevisionRequest[]> {
+    if (!this.isSupervisor(context)) {
+      throw new PermissionError('Only supervisors can review EVV revision requests');
+    }
+
+    if (context.organizationId === undefined) {
+      throw new ValidationError('Organization context is required to list revision requests');
+    }
+
+    return this.revisionRepository.getPendingRevisionRequests(context.organizationId);
+  }
+
+  /**
+   * Get the complete audit trail for an EVV record
+   *
+   * Verifies the revision hash chain and records the access.
+   */
+  async getAuditTrail(
+    evvRecordId: UUID,
+    accessedByName: string,
+    context: UserContext
+  ): Promise<EVVAuditTrail> {
+    if (!this.hasPermission(context, 'evv:read')) {
+      throw new PermissionError('User does not have permission to view EVV audit trails');
+    }
+
+    const evvRecord = await this.getRecordOrThrow(evvRecordId);
+    this.checkOrganizationAccess(evvRecord.organizationId, context);
+
+    const now = new Date();
+    await this.revisionRepository.logAccess({
+      evvRecordId,
+      accessedAt: now,
+      accessedBy: context.userId,
+      accessedByName,
+      accessedByRole: this.primaryRole(context),
+      accessType: 'AUDIT_REVIEW',
+    });
+
+    const [storedOriginal, revisions, accessLog] = await Promise.all([
+      this.revisionRepository.getOriginalData(evvRecordId),
+      this.revisionRepository.getRevisions(evvRecordId),
+      this.revisionRepository.getAccessLog(evvRecordId),
+    ]);
+
+    // Records that were never revised still have their clock-in/out data intact
+    const originalData = storedOriginal ?? this.buildOriginalData(evvRecord, evvRecord.recordedBy);
+    const lastRevision = revisions[revisions.length - 1];
+
+    const baseTrail = {
+      evvRecordId,
+      visitId: evvRecord.visitId,
+      organizationId: evvRecord.organizationId,
+      originalData,
+      originalDataLocked: storedOriginal !== null,
+      revisions,
+      revisionCount: revisions.length,
+      currentData: evvRecord,
+      integrityChainValid: this.verifyRevisionChain(revisions),
+      lastIntegrityCheck: now,
+      accessLog,
+    };
+
+    const optionalFields = {
+      originalDataLockedAt: storedOriginal?.capturedAt,
+      lastRevisedAt: lastRevision?.revisedAt,
+    };
+
+    const filteredOptional = Object.fromEntries(
+      Object.entries(optionalFields).filter(([_, value]) => value !== undefined)
+    );
+
+    return { ...baseTrail, ...filteredOptional };
+  }
+
+  /**
+   * Expire pending requests past their expiration date
+   */
+  async expireStaleRequests(): Promise<number> {
+    return this.revisionRepository.expireRevisionRequests();
+  }
+
+  /**
+   * Verify the revision hash chain
+   *
+   * Each revision's hash must match its content, and must be referenced as
+   * previousRevisionHash by the next revision.
+   */
+  verifyRevisionChain(revisions: EVVRevision[]): boolean {
+    let previousHash: string | undefined;
+
+    for (const revision of [...revisions].sort((a, b) => a.revisionNumber - b.revisionNumber)) {
+      if (revision.previousRevisionHash !== previousHash) {
+        return false;
+      }
+      if (this.computeRevisionHash(revision) !== revision.revisionHash) {
+        return false;
+      }
+      previousHash = revision.revisionHash;
+    }
+
+    return true;
+  }
+
+  /**
+   * Helper: Write approved changes to the revision log and the EVV record
+   *
+   * The final approval, revisions, record update and exception resolution
+   * commit together. The request and record are locked first, so a retried
+   * or concurrent approval finds the request no longer PENDING instead of
+   * appending a second set of revisions. Resubmission happens after commit.
+   */
+  private async implementRequest(
+    requestId: UUID,
+    approval: { supervisorApproval: ApprovalAction } | { complianceApproval: ApprovalAction },
+    approverName: string,
+    context: UserContext
+  ): Promise<{ request: EVVRevisionRequest; revisions: EVVRevision[]; evvRecord: EVVRecord }> {
+    const implemented = await this.revisionRepository.transaction(async (client) => {
+      const locked = await this.revisionRepository.getRevisionRequestForUpdate(requestId, client);
+      const isComplianceStage = 'complianceApproval' in approval;
+      // Another reviewer may have decided the request, or moved it to the
+      // compliance stage, since it was read
+      if (locked?.status !== 'PENDING' || (locked.supervisorApproval !== undefined) !== isComplianceStage) {
+        throw new ConflictError('Revision request was already reviewed', {
+          requestId,
+          status: locked?.status,
+        });
+      }
+      const request = { ...locked, ...approval };
+
+      const evvRecord = await this.evvRepository.getEVVRecordForUpdate(request.evvRecordId, client);
+      if (!evvRecord) {
+        throw new NotFoundError('EVV record not found', { evvRecordId: request.evvRecordId });
+      }
+      await this.ensureOriginalData(evvRecord, context, client);
+
+      const wasSubmitted = SUBMITTED_STATUSES.has(evvRecord.recordStatus) ||
+        (evvRecord.submittedToPayor !== undefined && evvRecord.submittedToPayor !== null);
+
+      const changes = this.withDurationRecalculation(evvRecord, request.requestedChanges);
+      const updates = this.buildRecordUpdates(evvRecord, changes);
+
+      if (wasSubmitted && updates.recordStatus === undefined) {
+        updates.recordStatus = 'AMENDED';
+      }
+      const flags: ComplianceFlag[] = evvRecord.complianceFlags.includes('AMENDED')
+        ? evvRecord.complianceFlags
+        : [...evvRecord.complianceFlags.filter(flag => flag !== 'COMPLIANT'), 'AMENDED'];
+      updates.complianceFlags = flags;
+      updates.integrityChecksum = CryptoUtils.generateChecksum({ ...evvRecord, ...updates });
+
+      const revisions: EVVRevision[] = [];
+      let previousHash = (await this.revisionRepository.getLatestRevision(evvRecord.id, client))?.revisionHash;
+      const revisedAt = new Date();
+
+      for (const change of changes) {
+        const revision = this.buildRevision(request, change, context, approverName, revisedAt, wasSubmitted, previousHash);
+        const stored = await this.revisionRepository.appendRevision(revision, client);
+        revisions.push(stored);
+        previousHash = stored.revisionHash;
+      }
+
+      const updatedRecord = await this.evvRepository.updateEVVRecord(evvRecord.id, updates, context.userId, client);
+
+      const implementedRequest = await this.revisionRepository.implementRevisionRequest(request.id, {
+        ...approval,
+        implementedAt: revisedAt,
+        implementedBy: context.userId,
+        implementationNotes: `${revisions.length} revision(s) applied`,
+      }, client);
+      if (!implementedRequest) {
+        throw new ConflictError('Revision request was already reviewed', { requestId });
+      }
+
+      if (this.exceptionQueueService) {
+        await this.exceptionQueueService.resolveByRevision(
+          evvRecord.id,
+          evvRecord.organizationId,
+          request.exceptionId,
+          `Resolved by revision request ${request.id}: ${request.requestReason}`,
+          context.userId,
+          client
+        );
+      }
+
+      return { request: implementedRequest, revisions, evvRecord: updatedRecord, wasSubmitted };
+    });
+
+    if (implemented.wasSubmitted) {
+      await this.resubmit(implemented.evvRecord.id, implemented.revisions, context);
+    }
+
+    return { request: implemented.request, revisions: implemented.revisions, evvRecord: implemented.evvRecord };
+  }
+
+  /**
+   * Helper: Resubmit a corrected record to the aggregator
+   *
+   * Resubmission failures are logged; the revisions keep resubmissionRequired
+   * so the submission worker can retry.
+   */
+  private async resubmit(evvRecordId: UUID, revisions: EVVRevision[], context: UserContext): Promise<void> {
+    if (!this.resubmitter) {
+      return;
+    }
+
+    try {
+      await this.resubmitter.submitToStateAggregator(evvRecordId, context);
+      await this.revisionRepository.markRevisionsResubmitted(revisions.map(revision => revision.id));
+    } catch (error) {
+      console.error(`[EVV] Failed to resubmit revised record ${evvRecordId}:`, error);
+    }
+  }
+
+  /**
+   * Helper: Build an immutable revision entry for one change
+   */
+  private buildRevision(
+    request: EVVRevisionRequest,
+    change: EVVRevisionChange,
+    context: UserContext,
+    approverName: string,
+    revisedAt: Date,
+    resubmissionRequired: boolean,
+    previousRevisionHash: string | undefined
+  ): Omit<EVVRevision, 'id' | 'revisionNumber'> {
+    const complianceApproval = request.complianceApproval;
+
+    const content = {
+      evvRecordId: request.evvRecordId,
+      visitId: request.visitId,
+      organizationId: request.organizationId,
+      revisionType: this.getRevisionType(change.fieldPath),
+      revisionReason: request.requestReason,
+      revisedBy: request.requestedBy,
+      revisedByName: request.requestedByName,
+      revisedByRole: request.requestedByRole,
+      revisedAt,
+      fieldPath: change.fieldPath,
+      originalValue: change.currentValue,
+      newValue: change.proposedValue,
+      justification: change.changeReason.trim().length > 0
+        ? `${request.requestJustification} (${change.changeReason})`
+        : request.requestJustification,
+    };
+
+    const baseRevision = {
+      ...content,
+      requiresApproval: true,
+      approvalStatus: 'APPROVED' as const,
+      approvedBy: context.userId,
+      approvedByName: approverName,
+      approvedAt: revisedAt,
+      aggregatorNotified: false,
+      resubmissionRequired,
+      revisionHash: this.computeRevisionHash({ ...content, previousRevisionHash }),
+      complianceReviewed: complianceApproval !== undefined,
+    };
+
+    const optionalFields = {
+      revisionReasonCode: request.requestReasonCode,
+      supportingDocuments: request.supportingDocuments,
+      previousRevisionHash,
+      complianceReviewedBy: complianceApproval?.approvedBy,
+      complianceReviewedAt: complianceApproval?.approvedAt,
+      complianceNotes: complianceApproval?.comments,
+    };
+
+    const filteredOptional = Object.fromEntries(
+      Object.entries(optionalFields).filter(([_, value]) => value !== undefined)
+    );
+
+    return { ...baseRevision, ...filteredOptional };
+  }
+
+  /**
+   * Helper: Hash the immutable content of a revision
+   *
+   * Values are normalized through JSON so a revision read back from the
+   * database hashes identically to the one that was written.
+   */
+  private computeRevisionHash(
+    revision: Pick<EVVRevision,
+      | 'evvRecordId'
+      | 'revisionType'
+      | 'revisedBy'
+      | 'revisedAt'
+      | 'fieldPath'
+      | 'originalValue'
+      | 'newValue'
+      | 'justification'
+      | 'previousRevisionHash'
+    >
+  ): string {
+    return CryptoUtils.generateHash({
+      evvRecordId: revision.evvRecordId,
+      revisionType: revision.revisionType,
+      revisedBy: revision.revisedBy,
+      revisedAt: new Date(revision.revisedAt).toISOString(),
+      fieldPath: revision.fieldPath,
+      originalValue: JSON.parse(JSON.stringify(revision.originalValue ?? null)) as unknown,
+      newValue: JSON.parse(JSON.stringify(revision.newValue ?? null)) as unknown,
+      justification: revision.justification,
+      previousRevisionHash: revision.previousRevisionHash ?? null,
+    });
+  }
+
+  /**
+   * Helper: Add a duration recalculation when clock times change
+   */
+  private withDurationRecalculation(evvRecord: EVVRecord, changes: EVVRevisionChange[]): EVVRevisionChange[] {
+    const changesTime = changes.some(change => TIME_FIELDS.has(change.fieldPath));
+    const changesDuration = changes.some(change => change.fieldPath === 'totalDuration');
+    if (!changesTime || changesDuration) {
+      return changes;
+    }
+
+    const proposed = (field: 'clockInTime' | 'clockOutTime'): Date | null => {
+      const change = changes.find(c => c.fieldPath === field);
+      if (change) {
+        return new Date(change.proposedValue as string | Date);
+      }
+      const current = evvRecord[field];
+      return current ? new Date(current) : null;
+    };
+
+    const clockIn = proposed('clockInTime');
+    const clockOut = proposed('clockOutTime');
+    if (!clockIn || !clockOut) {
+      return changes;
+    }
+
+    const totalDuration = Math.round((clockOut.getTime() - clockIn.getTime()) / 60000);
+    if (totalDuration === evvRecord.totalDuration) {
+      return changes;
+    }
+
+    return [
+      ...changes,
+      {
+        fieldPath: 'totalDuration',
+        currentValue: evvRecord.totalDuration ?? null,
+        proposedValue: totalDuration,
+        changeReason: 'Recalculated from corrected clock times',
+      },
+    ];
+  }
+
+  /**
+   * Helper: Translate revision changes into EVV record updates
+   */
+  private buildRecordUpdates(evvRecord: EVVRecord, changes: EVVRevisionChange[]): Partial<EVVRecord> {
+    const updates: Record<string, unknown> = {};
+
+    for (const change of changes) {
+      const [root, nested] = change.fieldPath.split('.') as [string, string | undefined];
+      const value = TIME_FIELDS.has(root) ? new Date(change.proposedValue as string | Date) : change.proposedValue;
+
+      if (nested === undefined) {
+        updates[root] = value;
+        continue;
+      }
+
+      const existing = (updates[root] ?? evvRecord[root as keyof EVVRecord]) as Record<string, unknown> | undefined;
+      if (existing === undefined || existing === null) {
+        throw new ValidationError(`Cannot correct ${change.fieldPath}: ${root} has not been recorded`, {
+          fieldPath: change.fieldPath,
+        });
+      }
+      updates[root] = { ...existing, [nested]: value };
+    }
+
+    return updates as Partial<EVVRecord>;
+  }
+
+  /**
+   * Helper: Capture original data the first time a record is revised
+   */
+  private async ensureOriginalData(
+    evvRecord: EVVRecord,
+    context: UserContext,
+    client?: TransactionClient
+  ): Promise<void> {
+    const existing = await this.revisionRepository.getOriginalData(evvRecord.id, client);
+    if (existing) {
+      return;
+    }
+
+    await this.revisionRepository.saveOriginalData(
+      evvRecord.id,
+      this.buildOriginalData(evvRecord, context.userId),
+      client
+    );
+  }
+
+  private buildOriginalData(evvRecord: EVVRecord, capturedBy: UUID): EVVOriginalData {
+    const clockIn = evvRecord.clockInVerification;
+    const clockOut = evvRecord.clockOutVerification;
+
+    const baseData = {
+      originalClockInTime: evvRecord.clockInTime,
+      originalClockInLocation: clockIn,
+      originalClockInDevice: clockIn.deviceId,
+      originalVerificationMethod: clockIn.method,
+      capturedAt: new Date(),
+      capturedBy,
+      capturedViaDevice: clockIn.deviceId,
+      capturedViaApp: clockIn.appVersion ?? 'unknown',
+      originalIntegrityHash: evvRecord.integrityHash,
+      originalChecksum: evvRecord.integrityChecksum,
+      lockedForEditing: false,
+    };
+
+    const optionalFields = {
+      originalClockOutTime: evvRecord.clockOutTime ?? undefined,
+      originalDuration: evvRecord.totalDuration,
+      originalClockOutLocation: clockOut,
+      originalClockOutDevice: clockOut?.deviceId,
+    };
+
+    const filteredOptional = Object.fromEntries(
+      Object.entries(optionalFields).filter(([_, value]) => value !== undefined)
+    );
+
+    return { ...baseData, ...filteredOptional };
+  }
+
+  /**
+   * Helper: A request may only reference an open exception on the same record
+   */
+  private async assertExceptionForRecord(exceptionId: UUID | undefined, evvRecord: EVVRecord): Promise<void> {
+    if (exceptionId === undefined) {
+      return;
+    }
+
+    if (!this.exceptionQueueService) {
+      throw new ValidationError('EVV exceptions cannot be referenced without the exception queue', {
+        exceptionId,
+      });
+    }
+
+    await this.exceptionQueueService.assertExceptionForRecord(
+      exceptionId,
+      evvRecord.id,
+      evvRecord.organizationId
+    );
+  }
+
+  /**
+   * Helper: Validate requested changes
+   */
+  private validateRequestInput(input: CreateEVVRevisionRequestInput): void {
+    if (input.changes.length === 0) {
+      throw new ValidationError('At least one change is required', { evvRecordId: input.evvRecordId });
+    }
+
+    if (input.requestJustification.trim().length === 0) {
+      throw new ValidationError('Justification is required for EVV revisions', { evvRecordId: input.evvRecordId });
+    }
+
+    const seen = new Set<string>();
+    for (const change of input.changes) {
+      if (REVISABLE_FIELDS[change.fieldPath] === undefined) {
+        throw new ValidationError(`Field cannot be revised: ${change.fieldPath}`, {
+          fieldPath: change.fieldPath,
+          revisableFields: Object.keys(REVISABLE_FIELDS),
+        });
+      }
+
+      if (seen.has(change.fieldPath)) {
+        throw new ValidationError(`Duplicate change for field: ${change.fieldPath}`, { fieldPath: change.fieldPath });
+      }
+      seen.add(change.fieldPath);
+
+      if (change.proposedValue === undefined) {
+        throw new ValidationError(`Proposed value is required for ${change.fieldPath}`, { fieldPath: change.fieldPath });
+      }
+
+      if (TIME_FIELDS.has(change.fieldPath) &&
+        isNaN(new Date(change.proposedValue as string | Date).getTime())) {
+        throw new ValidationError(`Invalid timestamp for ${change.fieldPath}`, { fieldPath: change.fieldPath });
+      }
+    }
+
+    const clockIn = input.changes.find(change => change.fieldPath === 'clockInTime');
+    const clockOut = input.changes.find(change => change.fieldPath === 'clockOutTime');
+    if (clockIn && clockOut &&
+      new Date(clockOut.proposedValue as string | Date) <= new Date(clockIn.proposedValue as string | Date)) {
+      throw new ValidationError('Clock-out time must be after clock-in time');
+    }
+  }
+
+  /**
+   * Helper: Texas records past the 30-day window must go through VMUR
+   */
+  private assertNotVMURRequired(evvRecord: EVVRecord): void {
+    if (evvRecord.serviceAddress.state !== 'TX') {
+      return;
+    }
+
+    const daysOld = Math.floor((Date.now() - new Date(evvRecord.recordedAt).getTime()) / DAY_MS);
+    if (daysOld >= TEXAS_VMUR_THRESHOLD_DAYS) {
+      throw new ValidationError(
+        `Texas EVV records older than ${TEXAS_VMUR_THRESHOLD_DAYS} days require a Visit Maintenance ` +
+        `Unlock Request (VMUR). This record is ${daysOld} days old.`,
+        { evvRecordId: evvRecord.id, daysOld }
+      );
+    }
+  }
+
+  private async getPendingRequestForReview(requestId: UUID, context: UserContext): Promise<EVVRevisionRequest> {
+    if (!this.isSupervisor(context)) {
+      throw new PermissionError('Only supervisors can review EVV revision requests');
+    }
+
+    const request = await this.getRequestOrThrow(requestId);
+    this.checkOrganizationAccess(request.organizationId, context);
+
+    if (request.status !== 'PENDING') {
+      throw new ValidationError(`Cannot review revision request with status: ${request.status}`, {
+        requestId,
+        status: request.status,
+      });
+    }
+
+    if (request.expiresAt < new Date()) {
+      await this.revisionRepository.updateRevisionRequest(requestId, { status: 'EXPIRED' });
+      throw new ValidationError('Revision request has expired', { requestId, expiresAt: request.expiresAt });
+    }
+
+    if (request.requestedBy === context.userId) {
+      throw new PermissionError('Cannot review your own revision request');
+    }
+
+    return request;
+  }
+
+  private buildApprovalAction(
+    decision: ApprovalAction['decision'],
+    input: ReviewEVVRevisionRequestInput,
+    context: UserContext
+  ): ApprovalAction {
+    const baseAction = {
+      approvedBy: context.userId,
+      approvedByName: input.reviewerName,
+      approvedAt: new Date(),
+      decision,
+    };
+
+    const optionalFields = {
+      comments: input.comments,
+      conditions: input.conditions,
+    };
+
+    const filteredOptional = Object.fromEntries(
+      Object.entries(optionalFields).filter(([_, value]) => value !== undefined)
+    );
+
+    return { ...baseAction, ...filteredOptional };
+  }
+
+  private getRevisionType(fieldPath: string): EVVRevisionType {
+    return REVISABLE_FIELDS[fieldPath] ?? 'STATUS_CORRECTION';
+  }
+
+  private getFieldValue(evvRecord: EVVRecord, fieldPath: string): unknown {
+    const [root, nested] = fieldPath.split('.') as [string, string | undefined];
+    const value = evvRecord[root as keyof EVVRecord] as unknown;
+    if (nested === undefined) {
+      return value ?? null;
+    }
+    return (value as Record<string, unknown> | undefined)?.[nested] ?? null;
+  }
+
+  private async getRecordOrThrow(evvRecordId: UUID): Promise<EVVRecord> {
+    const evvRecord = await this.evvRepository.getEVVRecordById(evvRecordId);
+    if (!evvRecord) {
+      throw new NotFoundError('EVV record not found', { evvRecordId });
+    }
+    return evvRecord;
+  }
+
+  private async getRequestOrThrow(requestId: UUID): Promise<EVVRevisionRequest> {
+    const request = await this.revisionRepository.getRevisionRequestById(requestId);
+    if (!request) {
+      throw new NotFoundError('Revision request not found', { requestId });
+    }
+    return request;
+  }
+
+  private checkOrganizationAccess(organizationId: UUID, context: UserContext): void {
+    if (organizationId !== context.organizationId && !context.roles.includes('SUPER_ADMIN')) {
+      throw new PermissionError('Cannot access EVV records from another organization');
+    }
+  }
+
+  private primaryRole(context: UserContext): string {
+    return context.roles[0] ?? 'UNKNOWN';
+  }
+
+  /**
+   * Helper: Compliance approvals are limited to organization administrators
+   */
+  private isComplianceApprover(context: UserContext): boolean {
+    return context.roles.includes('SUPER_ADMIN') || context.roles.includes('ORG_ADMIN');
+  }
+
+  /**
+   * Helper: Check if user has permission
+   */
+  private hasPermission(context: UserContext, permission: string): boolean {
+    return context.permissions.includes(permission) || context.roles.includes('SUPER_ADMIN');
+  }
+
+  /**
+   * Helper: Check if user is supervisor
+   */
+  private isSupervisor(context: UserContext): boolean {
+    return (
+      context.roles.includes('SUPER_ADMIN') ||
+      context.roles.includes('ORG_ADMIN') ||
+      context.roles.includes('BRANCH_ADMIN') ||
+      context.roles.includes('COORDINATOR')
+    );
+  }
+}
@@ -15,6 +15,7 @@ import {
   StateComplianceService,
 } from '@care-commons/core';
 import { EVVRepository } from '../repository/evv-repository';
+import { EVVExceptionQueueService } from './evv-exception-queue-service';
 import { EVVValidator } from '../validation/evv-validator';
 import { IntegrationService } from '../utils/integration-service';
 import { CryptoUtils } from '../utils/crypto-utils';
@@ -25,8 +26,11 @@ import {
   ClockInInput,
   ClockOutInput,
   CreateGeofenceInput,
+  GeofenceCheckResult,
   ManualOverrideInput,
   LocationVerification,
+  LocationSource,
+  VerificationMethod,
   VerificationResult,
   EVVRecordSearchFilters,
   ComplianceFlag,
@@ -52,7 +56,8 @@ export class EVVService {
     private clientProvider: IClientProvider,
     private caregiverProvider: ICaregiverProvider,
     private database: Database, // Used to initialize StateProviderFactory and queries
-    private validator: EVVValidator = new EVVValidator()
+    private validator: EVVValidator = new EVVValidator(),
+    private exceptionQueueService?: EVVExceptionQueueService
   ) {
     // Initialize state provider factory with database
     StateProviderFactory.initialize(database);
@@ -148,15 +153,7 @@ export class EVVService {
     );
 
     // Verify location
-    const geofenceCheck = this.validator.checkGeofence(
-      input.location.latitude,
-      input.location.longitude,
-      input.location.accuracy,
-      geofence.centerLatitude,
-      geofence.centerLongitude,
-      geofence.radiusMeters,
-      geofence.allowedVariance || 0
-    );
+    const geofenceCheck = this.checkLocationAgainstGeofence(input.location, geofence);
 
     // Update geofence statistics
     await this.repository.updateGeofenceStats(
@@ -209,7 +206,7 @@ export class EVVService {
       deviceOS: input.deviceInfo.deviceOS,
       appVersion: input.deviceInfo.appVersion,
       method: input.location.method,
-      locationSource: 'GPS_SATELLITE' as const, // Would be determined
+      locationSource: this.getLocationSource(input.location.method),
       mockLocationDetected: input.location.mockLocationDetected,
       verificationPassed: geofenceCheck.isWithinGeofence,
     };
@@ -302,7 +299,9 @@ export class EVVService {
       clockOutTime: null,
       clockInVerification: locationVerification,
       recordStatus: 'PENDING' as const,
-      verificationLevel: (geofenceCheck.isWithinGeofence ? 'FULL' : 'PARTIAL') as VerificationLevel,
+      verificationLevel: (geofenceCheck.isWithinGeofence
+        ? (input.location.method === 'PHONE' ? 'PHONE' : 'FULL')
+        : 'PARTIAL') as VerificationLevel,
       complianceFlags: (geofenceCheck.isWithinGeofence ? ['COMPLIANT'] : ['GEOFENCE_VIOLATION']) as ComplianceFlag[],
       integrityHash: this.generateCoreDataHash({
         visitId: input.visitId,
@@ -351,10 +350,11 @@ export class EVVService {
 
     // Log exception if verification failed
     if (!verification.passed) {
-      // Would store exception in database
       console.log('Clock-in verification issues detected', verification.issues);
     }
 
+    await this.queueExceptions(evvRecord);
+
     // Send notification after successful clock-in
     try {
       const notificationService = getNotificationService();
@@ -437,22 +437,16 @@ export class EVVService {
       throw new ValidationError('Visit has already been clocked out');
     }
 
-    // Get geofence
-    const geofence = await this.repository.getGeofenceByAddress('address-id-123'); // Would get from visit
+    // Get the geofence created for the visit's address at clock-in
+    const visitData = await this.visitProvider.getVisitForEVV(input.visitId);
+    const addressId = visitData.serviceAddress.addressId || this.generateFallbackAddressId(visitData.serviceAddress);
+    const geofence = await this.repository.getGeofenceByAddress(addressId);
     if (!geofence) {
       throw new NotFoundError('Geofence not found for visit location');
     }
 
     // Verify location
-    const geofenceCheck = this.validator.checkGeofence(
-      input.location.latitude,
-      input.location.longitude,
-      input.location.accuracy,
-      geofence.centerLatitude,
-      geofence.centerLongitude,
-      geofence.radiusMeters,
-      geofence.allowedVariance || 0
-    );
+    const geofenceCheck = this.checkLocationAgainstGeofence(input.location, geofence);
 
     // Update geofence statistics
     await this.repository.updateGeofenceStats(
@@ -510,7 +504,7 @@ export class EVVService {
       deviceOS: input.deviceInfo.deviceOS,
       appVersion: input.deviceInfo.appVersion,
       method: input.location.method,
-      locationSource: 'GPS_SATELLITE' as const,
+      locationSource: this.getLocationSource(input.location.method),
       mockLocationDetected: input.location.mockLocationDetected,
       verificationPassed: geofenceCheck.isWithinGeofence,
     };
@@ -632,6 +626,8 @@ export class EVVService {
       );
     }
 
+    await this.queueExceptions(updatedRecord);
+
     // Send notification after successful clock-out
     try {
       const notificationService = getNotificationService();
@@ -810,6 +806,36 @@ export class EVVService {
     return geofence;
   }
 
+  /**
+   * Helper: Check a reported location against a circular or polygon geofence
+   */
+  private checkLocationAgainstGeofence(
+    location: { latitude: number; longitude: number; accuracy: number },
+    geofence: Geofence
+  ): GeofenceCheckResult {
+    if (geofence.shape === 'POLYGON' && geofence.polygonPoints && geofence.polygonPoints.length >= 3) {
+      return this.validator.checkPolygonGeofence(
+        location.latitude,
+        location.longitude,
+        location.accuracy,
+        geofence.polygonPoints,
+        geofence.centerLatitude,
+        geofence.centerLongitude,
+        geofence.allowedVariance || 0
+      );
+    }
+
+    return this.validator.checkGeofence(
+      location.latitude,
+      location.longitude,
+      location.accuracy,
+      geofence.centerLatitude,
+      geofence.centerLongitude,
+      geofence.radiusMeters,
+      geofence.allowedVariance || 0
+    );
+  }
+
   /**
    * Get EVV records by visit
    */
@@ -847,6 +873,41 @@ export class EVVService {
     return await this.repository.searchEVVRecords(filters, pagination);
   }
 
+  /**
+   * Helper: Queue EVV exceptions for coordinator review
+   *
+   * Queue failures are logged and never block clock-in/clock-out.
+   */
+  private async queueExceptions(evvRecord: EVVRecord): Promise<void> {
+    if (!this.exceptionQueueService) {
+      return;
+    }
+
+    try {
+      await this.exceptionQueueService.evaluateRecord(evvRecord);
+    } catch (error) {
+      console.error('[EVV] Failed to queue EVV exceptions:', error);
+    }
+  }
+
+  /**
+   * Helper: Where a clock event's location came from, by verification method
+   */
+  private getLocationSource(method: VerificationMethod): LocationSource {
+    switch (method) {
+      case 'NETWORK':
+        return 'NETWORK_PROVIDER';
+      case 'WIFI':
+        return 'WIFI_TRIANGULATION';
+      case 'CELL':
+        return 'CELL_TOWER';
+      case 'PHONE':
+        return 'TELEPHONY';
+      default:
+        return 'GPS_SATELLITE';
+    }
+  }
+
   /**
    * Helper: Check if user has permission
    */
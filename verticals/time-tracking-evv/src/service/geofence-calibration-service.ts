@@ -0,0 +1,288 @@
+/**
+ * Geofence Calibration Service
+ *
+ * Proposes tightened or reshaped geofences from the distribution of past
+ * verified clock-ins, and applies them once a supervisor approves. Geofences
+ * that generate a steady stream of location mismatches (rural properties,
+ * apartment complexes) are calibrated first.
+ *
+ * runCalibrationJob() is intended to run from a scheduled job; supervisors
+ * can also request a proposal for a single geofence.
+ */
+
+import {
+  UUID,
+  UserContext,
+  ValidationError,
+  NotFoundError,
+  PermissionError,
+} from '@care-commons/core';
+import { EVVRepository } from '../repository/evv-repository';
+import { GeofenceCalibrationRepository } from '../repository/geofence-calibration-repository';
+import {
+  Geofence,
+  GeofenceCalibrationProposal,
+  ReviewGeofenceCalibrationInput,
+} from '../types/evv';
+import {
+  DEFAULT_GEOFENCE_CALIBRATION_OPTIONS,
+  proposeGeofenceCalibration,
+} from '../utils/geofence-calibration';
+
+/**
+ * Clock-ins older than this are not used as calibration evidence
+ */
+export const GEOFENCE_CALIBRATION_LOOKBACK_DAYS = 180;
+
+/**
+ * A geofence is not recalibrated, or re-proposed after a rejection, within this window
+ */
+export const GEOFENCE_RECALIBRATION_INTERVAL_DAYS = 30;
+
+const MAX_CALIBRATION_SAMPLES = 500;
+const CALIBRATION_JOB_BATCH_SIZE = 100;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class GeofenceCalibrationService {
+  constructor(
+    private calibrationRepository: GeofenceCalibrationRepository,
+    private evvRepository: EVVRepository
+  ) { }
+
+  /**
+   * Propose calibrations for geofences with enough verification history
+   *
+   * Returns the proposals created. Geofences whose clock-ins already fit
+   * are skipped.
+   */
+  async runCalibrationJob(asOf: Date = new Date()): Promise<GeofenceCalibrationProposal[]> {
+    const geofences = await this.evvRepository.getGeofencesDueForCalibration(
+      DEFAULT_GEOFENCE_CALIBRATION_OPTIONS.minSamples,
+      new Date(asOf.getTime() - GEOFENCE_RECALIBRATION_INTERVAL_DAYS * DAY_MS),
+      CALIBRATION_JOB_BATCH_SIZE
+    );
+    const proposals: GeofenceCalibrationProposal[] = [];
+
+    for (const geofence of geofences) {
+      try {
+        const proposal = await this.createProposal(geofence, asOf);
+        if (proposal) {
+          proposals.push(proposal);
+        }
+      } catch (error) {
+        // One failure shouldn't stop the batch
+        console.error(`[EVV] Failed to calibrate geofence ${geofence.id}:`, error);
+      }
+    }
+
+    return proposals;
+  }
+
+  /**
+   * Propose a calibration for a single geofence now
+   *
+   * Returns null when the clock-in history is too thin, or already fits the
+   * current geofence.
+   */
+  async proposeCalibration(geofenceId: UUID, context: UserContext): Promise<GeofenceCalibrationProposal | null> {
+    if (!this.isSupervisor(context) && !this.hasPermission(context, 'geofences:update')) {
+      throw new PermissionError('User does not have permission to calibrate geofences');
+    }
+
+    const geofence = await this.evvRepository.getGeofenceById(geofenceId);
+    if (!geofence) {
+      throw new NotFoundError('Geofence not found', { geofenceId });
+    }
+    this.checkOrganizationAccess(geofence.organizationId, context);
+
+    if (!geofence.isActive || geofence.status !== 'ACTIVE') {
+      throw new ValidationError('Only active geofences can be calibrated', { geofenceId, status: geofence.status });
+    }
+
+    const pending = await this.calibrationRepository.getPendingProposalForGeofence(geofenceId);
+    if (pending) {
+      throw new ValidationError('A calibration proposal is already pending for this geofence', {
+        geofenceId,
+        proposalId: pending.id,
+      });
+    }
+
+    return this.createProposal(geofence, new Date(), context.userId);
+  }
+
+  /**
+   * Get calibration proposals awaiting review in the user's organization
+   */
+  async getPendingProposals(context: UserContext): Promise<GeofenceCalibrationProposal[]> {
+    if (!this.isSupervisor(context) && !this.hasPermission(context, 'geofences:read')) {
+      throw new PermissionError('User does not have permission to view geofence calibrations');
+    }
+
+    const isSuperAdmin = context.roles.includes('SUPER_ADMIN');
+    if (!isSuperAdmin && context.organizationId === undefined) {
+      throw new PermissionError('Organization context is required to view geofence calibrations');
+    }
+
+    return this.calibrationRepository.getPendingProposals(isSuperAdmin ? undefined : context.organizationId);
+  }
+
+  /**
+   * Approve a proposal and apply it to the geofence
+   *
+   * A proposal computed against a geofence that has since been edited is
+   * marked superseded instead of overwriting the edit.
+   */
+  async approveProposal(
+    proposalId: UUID,
+    input: ReviewGeofenceCalibrationInput,
+    context: UserContext
+  ): Promise<{ proposal: GeofenceCalibrationProposal; geofence: Geofence }> {
+    if (!this.isSupervisor(context)) {
+      throw new PermissionError('Only supervisors can approve geofence calibrations');
+    }
+
+    const proposal = await this.getPendingProposalOrThrow(proposalId, context);
+
+    const geofence = await this.evvRepository.getGeofenceById(proposal.geofenceId);
+    if (!geofence?.isActive || geofence.status !== 'ACTIVE') {
+      throw new ValidationError('Geofence is no longer active', { proposalId, geofenceId: proposal.geofenceId });
+    }
+
+    if (this.hasGeofenceChanged(geofence, proposal)) {
+      await this.calibrationRepository.updateProposalStatus(
+        proposalId,
+        'SUPERSEDED',
+        context.userId,
+        'Geofence was changed after this calibration was proposed'
+      );
+      throw new ValidationError('Geofence has changed since this calibration was proposed', {
+        proposalId,
+        geofenceId: geofence.id,
+      });
+    }
+
+    const notes = input.notes?.trim();
+    const updatedGeofence = await this.evvRepository.applyGeofenceCalibration(
+      geofence.id,
+      {
+        shape: proposal.proposedShape,
+        radiusMeters: proposal.proposedRadiusMeters,
+        ...(proposal.proposedPolygonPoints ? { polygonPoints: proposal.proposedPolygonPoints } : {}),
+        calibrationNotes: notes ? `${proposal.rationale}\n\nReviewer notes: ${notes}` : proposal.rationale,
+      },
+      context.userId
+    );
+
+    const approved = await this.calibrationRepository.updateProposalStatus(
+      proposalId,
+      'APPROVED',
+      context.userId,
+      notes || undefined
+    );
+
+    return { proposal: approved, geofence: updatedGeofence };
+  }
+
+  /**
+   * Reject a proposal, leaving the geofence unchanged
+   */
+  async rejectProposal(
+    proposalId: UUID,
+    input: ReviewGeofenceCalibrationInput,
+    context: UserContext
+  ): Promise<GeofenceCalibrationProposal> {
+    if (!this.isSupervisor(context)) {
+      throw new PermissionError('Only supervisors can reject geofence calibrations');
+    }
+
+    const notes = input.notes?.trim();
+    if (!notes) {
+      throw new ValidationError('A reason is required to reject a geofence calibration', { proposalId });
+    }
+
+    await this.getPendingProposalOrThrow(proposalId, context);
+    return this.calibrationRepository.updateProposalStatus(proposalId, 'REJECTED', context.userId, notes);
+  }
+
+  /**
+   * Helper: Build and save a proposal from the geofence's recent clock-ins
+   */
+  private async createProposal(
+    geofence: Geofence,
+    asOf: Date,
+    requestedBy?: UUID
+  ): Promise<GeofenceCalibrationProposal | null> {
+    const lookbackStart = new Date(asOf.getTime() - GEOFENCE_CALIBRATION_LOOKBACK_DAYS * DAY_MS);
+    // Clock-ins before the last calibration were judged against a different shape
+    const since = geofence.calibratedAt && new Date(geofence.calibratedAt) > lookbackStart
+      ? new Date(geofence.calibratedAt)
+      : lookbackStart;
+
+    const samples = await this.calibrationRepository.getClockInSamples(geofence.clientId, since, MAX_CALIBRATION_SAMPLES);
+    const draft = proposeGeofenceCalibration(geofence, samples);
+    if (!draft) {
+      return null;
+    }
+
+    return this.calibrationRepository.createProposal({
+      ...draft,
+      status: 'PENDING',
+      proposedAt: asOf,
+      ...(requestedBy !== undefined ? { requestedBy } : {}),
+    });
+  }
+
+  private hasGeofenceChanged(geofence: Geofence, proposal: GeofenceCalibrationProposal): boolean {
+    return (
+      geofence.shape !== proposal.currentShape ||
+      geofence.radiusMeters !== proposal.currentRadiusMeters ||
+      JSON.stringify(geofence.shape === 'POLYGON' ? geofence.polygonPoints : undefined) !==
+        JSON.stringify(proposal.currentPolygonPoints)
+    );
+  }
+
+  private async getPendingProposalOrThrow(
+    proposalId: UUID,
+    context: UserContext
+  ): Promise<GeofenceCalibrationProposal> {
+    const proposal = await this.calibrationRepository.getProposalById(proposalId);
+    if (!proposal) {
+      throw new NotFoundError('Geofence calibration proposal not found', { proposalId });
+    }
+    this.checkOrganizationAccess(proposal.organizationId, context);
+
+    if (proposal.status !== 'PENDING') {
+      throw new ValidationError(`Calibration proposal is already ${proposal.status}`, {
+        proposalId,
+        status: proposal.status,
+      });
+    }
+
+    return proposal;
+  }
+
+  private checkOrganizationAccess(organizationId: UUID, context: UserContext): void {
+    if (organizationId !== context.organizationId && !context.roles.includes('SUPER_ADMIN')) {
+      throw new PermissionError('Cannot access geofences from another organization');
+    }
+  }
+
+  /**
+   * Helper: Check if user has permission
+   */
+  private hasPermission(context: UserContext, permission: string): boolean {
+    return context.permissions.includes(permission) || context.roles.includes('SUPER_ADMIN');
+  }
+
+  /**
+   * Helper: Check if user is supervisor
+   */
+  private isSupervisor(context: UserContext): boolean {
+    return (
+      context.roles.includes('SUPER_ADMIN') ||
+      context.roles.includes('ORG_ADMIN') ||
+      context.roles.includes('BRANCH_ADMIN') ||
+      context.roles.includes('COORDINATOR')
+    );
+  }
+}
@@ -0,0 +1,529 @@
+/**
+ * Telephony IVR Service
+ *
+ * Runs the phone clock-in/out call flow for caregivers without smartphones:
+ *
+ * 1. The calling number must be registered to an active client
+ * 2. The caregiver enters their telephony PIN; repeated incorrect PINs lock
+ *    out the calling number and the caregivers expected at that home
+ * 3. The caregiver presses 1 to clock in or 2 to clock out
+ * 4. When clocking out, the caregiver enters the codes of completed tasks
+ *
+ * Clock events go through EVVService with method 'PHONE', located at the
+ * service address. Each webhook request is one step; the call's progress is
+ * kept in an IVR call session between requests.
+ */
+
+import { createHmac } from 'crypto';
+import {
+  UUID,
+  UserContext,
+  ValidationError,
+  NotFoundError,
+  PermissionError,
+} from '@care-commons/core';
+import { EVVService } from './evv-service';
+import { TelephonyRepository } from '../repository/telephony-repository';
+import type { IVisitProvider } from '../interfaces/visit-provider';
+import { DeviceInfo, LocationVerificationInput } from '../types/evv';
+import {
+  IVRCallOutcome,
+  IVRCallSession,
+  IVRInstruction,
+  IVRResponse,
+  IVRWebhookInput,
+  SetTelephonyPinInput,
+} from '../types/telephony';
+import { normalizePhoneNumber } from '../utils/ivr-webhook';
+
+const MAX_PIN_ATTEMPTS = 3;
+// Incorrect PINs across calls within the window lock out phone clock-in
+const PIN_LOCKOUT_WINDOW_MS = 30 * 60 * 1000;
+const MAX_PIN_FAILURES_PER_NUMBER = 5;
+const MAX_PIN_FAILURES_PER_CAREGIVER = 10;
+const MAX_PROMPT_ATTEMPTS = 3;
+const MAX_TASK_CODES = 20;
+const GATHER_TIMEOUT_SECONDS = 10;
+
+// Provider call statuses that mean the caller is gone
+const ENDED_CALL_STATUSES = ['completed', 'busy', 'failed', 'no-answer', 'canceled'];
+
+const PROMPTS = {
+  greeting: 'Welcome to the visit verification line.',
+  pin: 'Please enter your caregiver PIN, followed by the pound key.',
+  action: 'To clock in, press 1. To clock out, press 2.',
+  taskCodes:
+    'Enter the code for each task you completed, pressing star after each code. ' +
+    'Press pound when you are finished. If you have no tasks to report, press 0 and then pound.',
+  notUnderstood: 'Sorry, we did not understand that.',
+  noInput: 'We did not receive a response.',
+  phoneNotRegistered:
+    "This phone number is not registered to a client. Please call from your client's home phone, or contact your coordinator.",
+  pinRejected: 'That PIN was not recognized.',
+  tooManyPinAttempts: 'Too many incorrect PIN attempts. Please contact your coordinator.',
+  noVisitToClockIn: 'We could not find a visit scheduled for you at this home today. Please contact your coordinator.',
+  noVisitToClockOut: 'You are not clocked in to a visit at this home. Please contact your coordinator.',
+  clockInRejected: 'We could not record your clock-in. Please contact your coordinator.',
+  clockOutRejected: 'We could not record your clock-out. Please contact your coordinator.',
+  goodbye: 'Goodbye.',
+};
+
+/**
+ * Hash a telephony PIN for storage and lookup
+ *
+ * PINs are short enough to brute-force from a plain hash, so the hash is an
+ * HMAC keyed with a server secret that is not stored with the data. Mixing in
+ * the organization keeps equal PINs in different organizations from sharing
+ * a hash.
+ */
+export function hashTelephonyPin(secret: string, organizationId: UUID, pin: string): string {
+  return createHmac('sha256', secret).update(`${organizationId}:${pin}`).digest('hex');
+}
+
+export class TelephonyIVRService {
+  constructor(
+    private telephonyRepository: TelephonyRepository,
+    private evvService: EVVService,
+    private visitProvider: IVisitProvider,
+    private pinSecret: string | undefined = process.env.TELEPHONY_PIN_SECRET
+  ) { }
+
+  /**
+   * Handle one webhook request from the telephony provider
+   */
+  async handleCall(input: IVRWebhookInput): Promise<IVRResponse> {
+    const callEnded = input.callStatus !== undefined && ENDED_CALL_STATUSES.includes(input.callStatus);
+    const session = await this.telephonyRepository.getCallSession(input.callSid);
+
+    if (!session) {
+      if (callEnded) {
+        return { instructions: [] };
+      }
+      return this.startCall(input);
+    }
+
+    if (session.state === 'COMPLETED' || session.state === 'FAILED') {
+      return { instructions: [{ verb: 'HANGUP' }] };
+    }
+
+    if (callEnded) {
+      await this.endCall(session, 'ABANDONED', `Caller hung up while ${session.state}`);
+      return { instructions: [] };
+    }
+
+    const digits = input.digits?.trim() ?? '';
+    if (digits === '') {
+      return this.retryPrompt(session, PROMPTS.noInput, 'NO_INPUT');
+    }
+
+    switch (session.state) {
+      case 'AWAITING_PIN':
+        return this.handlePin(session, digits);
+      case 'AWAITING_ACTION':
+        return this.handleAction(session, digits);
+      case 'AWAITING_TASK_CODES':
+        return this.handleTaskCodes(session, digits);
+    }
+  }
+
+  /**
+   * Set a caregiver's telephony PIN
+   */
+  async setCaregiverPin(caregiverId: UUID, input: SetTelephonyPinInput, context: UserContext): Promise<void> {
+    if (!this.isSupervisor(context) && !this.hasPermission(context, 'caregivers:update')) {
+      throw new PermissionError('User does not have permission to set telephony PINs');
+    }
+
+    const pin = input.pin?.trim() ?? '';
+    if (!/^\d{4,8}$/.test(pin)) {
+      throw new ValidationError('Telephony PIN must be 4 to 8 digits', { caregiverId });
+    }
+    if (this.isGuessablePin(pin)) {
+      throw new ValidationError('Telephony PIN must not be a repeated or sequential number', { caregiverId });
+    }
+
+    const organizationId = await this.telephonyRepository.getCaregiverOrganization(caregiverId);
+    if (organizationId === null) {
+      throw new NotFoundError('Caregiver not found', { caregiverId });
+    }
+    if (organizationId !== context.organizationId && !context.roles.includes('SUPER_ADMIN')) {
+      throw new PermissionError('Cannot set telephony PINs for caregivers in another organization');
+    }
+
+    const pinHash = this.hashPin(organizationId, pin);
+    if (await this.telephonyRepository.isPinHashInUse(organizationId, pinHash, caregiverId)) {
+      throw new ValidationError('Telephony PIN is already in use, choose another', { caregiverId });
+    }
+
+    await this.telephonyRepository.setCaregiverPinHash(caregiverId, pinHash, context.userId);
+  }
+
+  /**
+   * First request of a call: only numbers registered to a client get a PIN prompt
+   */
+  private async startCall(input: IVRWebhookInput): Promise<IVRResponse> {
+    const session = await this.telephonyRepository.createCallSession(
+      input.callSid,
+      normalizePhoneNumber(input.from),
+      normalizePhoneNumber(input.to)
+    );
+
+    const clients = await this.telephonyRepository.findClientsByPhone(session.fromNumber);
+    if (clients.length === 0) {
+      return this.endCall(session, 'PHONE_NOT_REGISTERED', undefined, PROMPTS.phoneNotRegistered);
+    }
+    if (await this.isNumberLockedOut(session.fromNumber)) {
+      return this.endCall(session, 'PIN_REJECTED', 'Calling number is locked out', PROMPTS.tooManyPinAttempts);
+    }
+
+    return this.gather([PROMPTS.greeting], PROMPTS.pin, { finishOnKey: '#' });
+  }
+
+  private async handlePin(session: IVRCallSession, digits: string): Promise<IVRResponse> {
+    const clients = await this.telephonyRepository.findClientsByPhone(session.fromNumber);
+    const organizationIds = [...new Set(clients.map(client => client.organizationId))];
+
+    // Other calls from the number may have used up its attempts since this one started
+    if (await this.isNumberLockedOut(session.fromNumber)) {
+      return this.endCall(session, 'PIN_REJECTED', 'Calling number is locked out', PROMPTS.tooManyPinAttempts);
+    }
+
+    const caregiver = /^\d{4,8}$/.test(digits) && organizationIds.length > 0
+      ? await this.telephonyRepository.findCaregiverByPinHash(
+        organizationIds.map(organizationId => this.hashPin(organizationId, digits))
+      )
+      : null;
+
+    if (!caregiver) {
+      await this.telephonyRepository.recordPinFailure(
+        session.id,
+        session.fromNumber,
+        await this.telephonyRepository.findCaregiversScheduledToday(clients.map(client => client.clientId))
+      );
+
+      const pinAttempts = session.pinAttempts + 1;
+      if (pinAttempts >= MAX_PIN_ATTEMPTS) {
+        await this.telephonyRepository.updateCallSession(session.id, { pinAttempts });
+        return this.endCall(session, 'PIN_REJECTED', `${pinAttempts} incorrect PIN attempts`, PROMPTS.tooManyPinAttempts);
+      }
+
+      await this.telephonyRepository.updateCallSession(session.id, { pinAttempts, lastActivityAt: new Date() });
+      return this.gather([PROMPTS.pinRejected], PROMPTS.pin, { finishOnKey: '#' });
+    }
+
+    // Same prompt as a wrong PIN, so a lockout doesn't confirm a guessed PIN
+    if (await this.isCaregiverLockedOut(caregiver.caregiverId)) {
+      return this.endCall(session, 'PIN_REJECTED', 'Caregiver is locked out', PROMPTS.tooManyPinAttempts);
+    }
+
+    await this.telephonyRepository.updateCallSession(session.id, {
+      state: 'AWAITING_ACTION',
+      attempts: 0,
+      caregiverId: caregiver.caregiverId,
+      organizationId: caregiver.organizationId,
+      lastActivityAt: new Date(),
+    });
+
+    return this.gather([], PROMPTS.action, { numDigits: 1 });
+  }
+
+  private async handleAction(session: IVRCallSession, digits: string): Promise<IVRResponse> {
+    if (digits === '1') {
+      return this.clockIn(session);
+    }
+
+    if (digits === '2') {
+      const openVisit = await this.telephonyRepository.findVisitToClockOut(
+        session.caregiverId!,
+        await this.getClientIds(session)
+      );
+      if (!openVisit) {
+        return this.endCall(session, 'NO_VISIT', 'No open visit to clock out of', PROMPTS.noVisitToClockOut);
+      }
+
+      await this.telephonyRepository.updateCallSession(session.id, {
+        state: 'AWAITING_TASK_CODES',
+        attempts: 0,
+        clientId: openVisit.clientId,
+        visitId: openVisit.visitId,
+        evvRecordId: openVisit.evvRecordId,
+        lastActivityAt: new Date(),
+      });
+      return this.gather([], PROMPTS.taskCodes, { finishOnKey: '#' });
+    }
+
+    return this.retryPrompt(session, PROMPTS.notUnderstood, 'NO_INPUT');
+  }
+
+  private async handleTaskCodes(session: IVRCallSession, digits: string): Promise<IVRResponse> {
+    const taskCodes = this.parseTaskCodes(digits);
+    if (taskCodes === null) {
+      return this.retryPrompt(session, PROMPTS.notUnderstood, 'NO_INPUT');
+    }
+
+    return this.clockOut(session, taskCodes);
+  }
+
+  private async clockIn(session: IVRCallSession): Promise<IVRResponse> {
+    const caregiverId = session.caregiverId!;
+    const visit = await this.telephonyRepository.findVisitToClockIn(caregiverId, await this.getClientIds(session));
+    if (!visit) {
+      return this.endCall(session, 'NO_VISIT', 'No visit to clock in to today', PROMPTS.noVisitToClockIn);
+    }
+
+    try {
+      const visitData = await this.visitProvider.getVisitForEVV(visit.visitId);
+      const result = await this.evvService.clockIn(
+        {
+          visitId: visit.visitId,
+          caregiverId,
+          location: this.buildLocation(visitData.serviceAddress),
+          deviceInfo: this.buildDeviceInfo(session),
+        },
+        this.buildCaregiverContext(caregiverId, visitData.organizationId, visitData.branchId)
+      );
+
+      await this.telephonyRepository.updateCallSession(session.id, {
+        clientId: visit.clientId,
+        visitId: visit.visitId,
+        evvRecordId: result.evvRecord.id,
+      });
+      return this.endCall(
+        session,
+        'CLOCKED_IN',
+        undefined,
+        `You are clocked in at ${this.formatTime(result.evvRecord.clockInTime, visit.timezone)}.`
+      );
+    } catch (error) {
+      if (this.isRejection(error)) {
+        return this.endCall(session, 'CLOCK_EVENT_REJECTED', error.message, PROMPTS.clockInRejected);
+      }
+      throw error;
+    }
+  }
+
+  private async clockOut(session: IVRCallSession, taskCodes: string[]): Promise<IVRResponse> {
+    const caregiverId = session.caregiverId!;
+    // Re-check: the visit may have been clocked out elsewhere while the caller entered task codes
+    const openVisit = await this.telephonyRepository.findVisitToClockOut(caregiverId, await this.getClientIds(session));
+    if (!openVisit || openVisit.evvRecordId !== session.evvRecordId) {
+      return this.endCall(session, 'NO_VISIT', 'Visit was no longer open at clock-out', PROMPTS.noVisitToClockOut);
+    }
+
+    try {
+      const visitData = await this.visitProvider.getVisitForEVV(openVisit.visitId);
+      const result = await this.evvService.clockOut(
+        {
+          visitId: openVisit.visitId,
+          evvRecordId: openVisit.evvRecordId,
+          caregiverId,
+          location: this.buildLocation(visitData.serviceAddress),
+          deviceInfo: this.buildDeviceInfo(session),
+          tasksCompleted: taskCodes.length,
+          ...(visitData.taskIds ? { tasksTotal: visitData.taskIds.length } : {}),
+          ...(taskCodes.length > 0 ? { completionNotes: `Task codes reported by phone: ${taskCodes.join(', ')}` } : {}),
+        },
+        this.buildCaregiverContext(caregiverId, visitData.organizationId, visitData.branchId)
+      );
+
+      await this.telephonyRepository.updateCallSession(session.id, { taskCodes });
+      const clockOutTime = result.evvRecord.clockOutTime ?? new Date();
+      return this.endCall(
+        session,
+        'CLOCKED_OUT',
+        undefined,
+        `You are clocked out at ${this.formatTime(clockOutTime, openVisit.timezone)}.`
+      );
+    } catch (error) {
+      if (this.isRejection(error)) {
+        await this.telephonyRepository.updateCallSession(session.id, { taskCodes });
+        return this.endCall(session, 'CLOCK_EVENT_REJECTED', error.message, PROMPTS.clockOutRejected);
+      }
+      throw error;
+    }
+  }
+
+  private hashPin(organizationId: UUID, pin: string): string {
+    if (this.pinSecret === undefined || this.pinSecret === '') {
+      throw new Error('TELEPHONY_PIN_SECRET is not set');
+    }
+    return hashTelephonyPin(this.pinSecret, organizationId, pin);
+  }
+
+  private async isNumberLockedOut(fromNumber: string): Promise<boolean> {
+    const since = new Date(Date.now() - PIN_LOCKOUT_WINDOW_MS);
+    const failures = await this.telephonyRepository.countPinFailuresFromNumber(fromNumber, since);
+    return failures >= MAX_PIN_FAILURES_PER_NUMBER;
+  }
+
+  private async isCaregiverLockedOut(caregiverId: UUID): Promise<boolean> {
+    const since = new Date(Date.now() - PIN_LOCKOUT_WINDOW_MS);
+    const failures = await this.telephonyRepository.countPinFailuresForCaregiver(caregiverId, since);
+    return failures >= MAX_PIN_FAILURES_PER_CAREGIVER;
+  }
+
+  /**
+   * Re-prompt after missing or invalid input, ending the call once the caller
+   * has had enough chances
+   */
+  private async retryPrompt(
+    session: IVRCallSession,
+    apology: string,
+    outcome: IVRCallOutcome
+  ): Promise<IVRResponse> {
+    const attempts = session.attempts + 1;
+    if (attempts >= MAX_PROMPT_ATTEMPTS) {
+      await this.telephonyRepository.updateCallSession(session.id, { attempts });
+      return this.endCall(session, outcome, `No valid input while ${session.state}`, apology);
+    }
+
+    await this.telephonyRepository.updateCallSession(session.id, { attempts, lastActivityAt: new Date() });
+
+    switch (session.state) {
+      case 'AWAITING_ACTION':
+        return this.gather([apology], PROMPTS.action, { numDigits: 1 });
+      case 'AWAITING_TASK_CODES':
+        return this.gather([apology], PROMPTS.taskCodes, { finishOnKey: '#' });
+      default:
+        return this.gather([apology], PROMPTS.pin, { finishOnKey: '#' });
+    }
+  }
+
+  private async endCall(
+    session: IVRCallSession,
+    outcome: IVRCallOutcome,
+    outcomeDetail?: string,
+    message?: string
+  ): Promise<IVRResponse> {
+    const now = new Date();
+    await this.telephonyRepository.updateCallSession(session.id, {
+      state: outcome === 'CLOCKED_IN' || outcome === 'CLOCKED_OUT' ? 'COMPLETED' : 'FAILED',
+      outcome,
+      ...(outcomeDetail !== undefined ? { outcomeDetail } : {}),
+      lastActivityAt: now,
+      endedAt: now,
+    });
+
+    const instructions: IVRInstruction[] = [];
+    if (message !== undefined) {
+      instructions.push({ verb: 'SAY', text: `${message} ${PROMPTS.goodbye}` });
+    }
+    instructions.push({ verb: 'HANGUP' });
+    return { instructions };
+  }
+
+  private gather(
+    preamble: string[],
+    prompt: string,
+    options: { numDigits?: number; finishOnKey?: string }
+  ): IVRResponse {
+    return {
+      instructions: [
+        ...preamble.map(text => ({ verb: 'SAY' as const, text })),
+        { verb: 'GATHER', prompt, timeoutSeconds: GATHER_TIMEOUT_SECONDS, ...options },
+      ],
+    };
+  }
+
+  /**
+   * Clients the calling number belongs to, within the caregiver's organization
+   */
+  private async getClientIds(session: IVRCallSession): Promise<UUID[]> {
+    const clients = await this.telephonyRepository.findClientsByPhone(session.fromNumber);
+    return clients
+      .filter(client => client.organizationId === session.organizationId)
+      .map(client => client.clientId);
+  }
+
+  /**
+   * Parse "101*205*" into task codes; "0" reports no tasks. Returns null for
+   * anything else.
+   */
+  private parseTaskCodes(digits: string): string[] | null {
+    if (digits === '0') {
+      return [];
+    }
+
+    const codes = digits.split('*').filter(code => code !== '');
+    if (codes.length === 0 || codes.length > MAX_TASK_CODES || !codes.every(code => /^\d{1,4}$/.test(code))) {
+      return null;
+    }
+    return [...new Set(codes)];
+  }
+
+  /**
+   * A call from a landline registered to the client places the caregiver at
+   * the service address
+   */
+  private buildLocation(serviceAddress: { latitude: number; longitude: number }): LocationVerificationInput {
+    return {
+      latitude: serviceAddress.latitude,
+      longitude: serviceAddress.longitude,
+      accuracy: 0,
+      timestamp: new Date(),
+      method: 'PHONE',
+      mockLocationDetected: false,
+    };
+  }
+
+  private buildDeviceInfo(session: IVRCallSession): DeviceInfo {
+    return {
+      deviceId: `ivr:${session.fromNumber}`,
+      deviceModel: 'Landline',
+      deviceOS: 'IVR',
+      osVersion: 'n/a',
+      appVersion: 'ivr',
+    };
+  }
+
+  /**
+   * The caregiver authenticated by PIN and calling number acts as themselves
+   */
+  private buildCaregiverContext(caregiverId: UUID, organizationId: UUID, branchId: UUID): UserContext {
+    return {
+      userId: caregiverId,
+      organizationId,
+      branchIds: [branchId],
+      roles: ['CAREGIVER'],
+      permissions: ['evv:clock_in', 'evv:clock_out'],
+    };
+  }
+
+  private formatTime(time: Date, timezone: string): string {
+    return new Date(time).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', timeZone: timezone });
+  }
+
+  /**
+   * Rejections the caller should hear about; anything else is a system failure
+   */
+  private isRejection(error: unknown): error is Error {
+    return error instanceof ValidationError || error instanceof PermissionError || error instanceof NotFoundError;
+  }
+
+  private isGuessablePin(pin: string): boolean {
+    const digits = pin.split('').map(Number);
+    const allSame = digits.every(digit => digit === digits[0]);
+    const ascending = digits.every((digit, i) => i === 0 || digit === (digits[i - 1]! + 1) % 10);
+    const descending = digits.every((digit, i) => i === 0 || digit === (digits[i - 1]! + 9) % 10);
+    return allSame || ascending || descending;
+  }
+
+  /**
+   * Helper: Check if user has permission
+   */
+  private hasPermission(context: UserContext, permission: string): boolean {
+    return context.permissions.includes(permission) || context.roles.includes('SUPER_ADMIN');
+  }
+
+  /**
+   * Helper: Check if user is supervisor
+   */
+  private isSupervisor(context: UserContext): boolean {
+    return (
+      context.roles.includes('SUPER_ADMIN') ||
+      context.roles.includes('ORG_ADMIN') ||
+      context.roles.includes('BRANCH_ADMIN') ||
+      context.roles.includes('COORDINATOR')
+    );
+  }
+}
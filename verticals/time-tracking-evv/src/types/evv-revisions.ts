@@ -227,6 +227,7 @@ export interface EVVRevisionRequest {
   requestReason: string;
   requestReasonCode?: string;
   requestJustification: string;
+  supportingDocuments?: string[]; // URLs or IDs of supporting docs
   
   // Requester info
   requestedBy: UUID;
@@ -251,6 +252,9 @@ export interface EVVRevisionRequest {
   // Expiration
   expiresAt: Timestamp;
   
+  // Exception queue item this request resolves (if any)
+  exceptionId?: UUID;
+  
   // State-specific
   stateSpecificData?: Record<string, unknown>; // e.g., Texas VMUR data
 }
@@ -383,6 +387,72 @@ export interface CreateEVVRevisionInput {
   supportingDocuments?: string[];
 }
 
+/**
+ * Request a correction to an EVV record
+ */
+export interface CreateEVVRevisionRequestInput {
+  evvRecordId: UUID;
+  changes: Array<{
+    fieldPath: string;
+    proposedValue: unknown;
+    changeReason: string;
+  }>;
+  requestReason: string;
+  requestReasonCode?: string;
+  requestJustification: string;
+  requestedByName: string;
+  supportingDocuments?: string[];
+  exceptionId?: UUID; // Exception queue item this correction resolves
+}
+
+/**
+ * Supervisor or compliance decision on a revision request
+ */
+export interface ReviewEVVRevisionRequestInput {
+  reviewerName: string;
+  comments?: string;
+  conditions?: string[];
+}
+
+/**
+ * Manually report an exception (supervisor, audit or aggregator rejection)
+ */
+export interface ReportEVVExceptionInput {
+  evvRecordId: UUID;
+  exceptionType: string;
+  exceptionCode: string;
+  exceptionDescription: string;
+  issues: EVVIssue[];
+  detectedBy: 'AGGREGATOR' | 'SUPERVISOR' | 'AUDIT';
+  detectionMethod?: string;
+  priority?: 'LOW' | 'MEDIUM' | 'HIGH' | 'URGENT';
+}
+
+/**
+ * Assign an exception to a coordinator
+ */
+export interface AssignEVVExceptionInput {
+  assignedTo: UUID;
+  assignedToRole: string;
+  dueDate?: Date;
+}
+
+/**
+ * Resolve an exception
+ */
+export interface ResolveEVVExceptionInput {
+  resolutionMethod: 'REVISION' | 'OVERRIDE' | 'RESUBMISSION' | 'WAIVER' | 'NO_ACTION';
+  resolutionNotes: string;
+}
+
+/**
+ * Escalate an exception
+ */
+export interface EscalateEVVExceptionInput {
+  escalatedTo: UUID;
+  escalationReason: string;
+}
+
 /**
  * Query filters for exception queue
  */
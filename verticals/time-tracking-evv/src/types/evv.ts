@@ -221,6 +221,7 @@ export type LocationSource =
   | 'WIFI_TRIANGULATION'
   | 'CELL_TOWER'
   | 'FUSED' // Multiple sources combined
+  | 'TELEPHONY' // Call from a phone registered to the service address
   | 'MANUAL_ENTRY';
 
 /**
@@ -376,6 +377,61 @@ export interface GeoPoint {
   longitude: number;
 }
 
+/**
+ * Geofence Calibration Proposal - Tightened or reshaped geofence suggested
+ * from past clock-in locations, applied only once a supervisor approves it
+ */
+export interface GeofenceCalibrationProposal {
+  id: UUID;
+  geofenceId: UUID;
+  organizationId: UUID;
+  clientId: UUID;
+  
+  // Geofence at the time of the proposal
+  currentShape: Geofence['shape'];
+  currentRadiusMeters: number;
+  currentPolygonPoints?: GeoPoint[];
+  
+  // Proposed geofence
+  proposedShape: Geofence['shape'];
+  proposedRadiusMeters: number; // Envelope radius for polygon proposals
+  proposedPolygonPoints?: GeoPoint[];
+  
+  // Evidence
+  sampleSize: number;
+  sampleStartDate: Timestamp;
+  sampleEndDate: Timestamp;
+  currentCoverage: number; // Share of sampled clock-ins inside the current geofence (0-1)
+  proposedCoverage: number; // Share of sampled clock-ins inside the proposed geofence (0-1)
+  currentAreaSquareMeters: number;
+  proposedAreaSquareMeters: number;
+  rationale: string;
+  
+  // Review
+  status: GeofenceCalibrationStatus;
+  proposedAt: Timestamp;
+  requestedBy?: UUID; // Absent when proposed by the calibration job
+  reviewedAt?: Timestamp;
+  reviewedBy?: UUID;
+  reviewNotes?: string;
+}
+
+export type GeofenceCalibrationStatus =
+  | 'PENDING' // Awaiting supervisor review
+  | 'APPROVED' // Applied to the geofence
+  | 'REJECTED' // Declined by a supervisor
+  | 'SUPERSEDED'; // Geofence changed before review
+
+/**
+ * Clock-in location used as calibration evidence
+ */
+export interface GeofenceCalibrationSample {
+  latitude: number;
+  longitude: number;
+  accuracy: number; // meters
+  recordedAt: Timestamp;
+}
+
 /**
  * Time Entry - Individual clock-in or clock-out event
  * 
@@ -556,6 +612,10 @@ export interface CreateGeofenceInput {
   polygonPoints?: GeoPoint[];
 }
 
+export interface ReviewGeofenceCalibrationInput {
+  notes?: string;
+}
+
 export interface EVVReportInput {
   organizationId: UUID;
   branchId?: UUID;
@@ -573,6 +633,7 @@ export interface GeofenceCheckResult {
   isWithinGeofence: boolean;
   distanceFromCenter: number; // meters
   distanceFromAddress: number; // meters
+  distanceFromBoundary?: number; // meters, negative when inside (polygon geofences)
   accuracy: number;
   requiresManualReview: boolean;
   reason?: string;
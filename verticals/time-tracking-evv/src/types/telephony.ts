@@ -0,0 +1,134 @@
+/**
+ * Telephony (IVR) Visit Verification
+ *
+ * Caregivers without smartphones clock in and out by calling the agency's
+ * IVR line from the client's home phone. The caregiver is identified by PIN
+ * and presence is established by matching the calling number (ANI) against
+ * the client's registered phones. Clock events are recorded as EVV entries
+ * with method 'PHONE'.
+ *
+ * The telephony provider (Twilio, Plivo, a carrier SIP trunk, ...) posts each
+ * step of the call to a webhook; responses are provider-agnostic instructions
+ * rendered as TwiML-style XML.
+ */
+
+import { UUID, Timestamp } from '@care-commons/core';
+
+/**
+ * Where a call is in the IVR flow
+ */
+export type IVRCallState =
+  | 'AWAITING_PIN' // Greeting played, waiting for the caregiver PIN
+  | 'AWAITING_ACTION' // Caregiver identified, waiting for clock-in/out choice
+  | 'AWAITING_TASK_CODES' // Clocking out, waiting for completed task codes
+  | 'COMPLETED' // Clock event recorded
+  | 'FAILED'; // Call ended without a clock event
+
+export type IVRCallOutcome =
+  | 'CLOCKED_IN'
+  | 'CLOCKED_OUT'
+  | 'PHONE_NOT_REGISTERED' // Calling number does not belong to a client
+  | 'PIN_REJECTED' // Too many invalid PIN attempts
+  | 'NO_INPUT' // No valid response to a prompt after repeated attempts
+  | 'NO_VISIT' // No visit to clock in to, or no open visit to clock out of
+  | 'CLOCK_EVENT_REJECTED' // EVV service refused the clock event
+  | 'ABANDONED'; // Caller hung up mid-flow
+
+/**
+ * IVR call session - persisted between webhook requests, and kept as the
+ * audit trail for telephony clock events
+ */
+export interface IVRCallSession {
+  id: UUID;
+  callSid: string; // Provider's call identifier
+  fromNumber: string; // Calling number (ANI), digits only
+  toNumber: string; // Number dialed, digits only
+  state: IVRCallState;
+  attempts: number; // Invalid or missing inputs at the current prompt
+  pinAttempts: number;
+
+  // Resolved as the call progresses
+  organizationId?: UUID;
+  caregiverId?: UUID;
+  clientId?: UUID;
+  visitId?: UUID;
+  evvRecordId?: UUID;
+  taskCodes?: string[];
+
+  outcome?: IVRCallOutcome;
+  outcomeDetail?: string;
+
+  startedAt: Timestamp;
+  lastActivityAt: Timestamp;
+  endedAt?: Timestamp;
+}
+
+/**
+ * One webhook request from the telephony provider
+ */
+export interface IVRWebhookInput {
+  callSid: string;
+  from: string;
+  to: string;
+  digits?: string; // DTMF collected by the previous <Gather>, if any
+  callStatus?: string; // Provider call status, e.g. 'in-progress' or 'completed'
+}
+
+/**
+ * Provider-agnostic IVR instruction
+ */
+export type IVRInstruction =
+  | { verb: 'SAY'; text: string }
+  | {
+    verb: 'GATHER';
+    prompt: string;
+    numDigits?: number; // Submit after this many digits
+    finishOnKey?: string; // Submit when this key is pressed
+    timeoutSeconds: number;
+  }
+  | { verb: 'HANGUP' };
+
+export interface IVRResponse {
+  instructions: IVRInstruction[];
+}
+
+/**
+ * Client whose registered phone matched the calling number
+ */
+export interface IVRClientMatch {
+  clientId: UUID;
+  organizationId: UUID;
+}
+
+/**
+ * Caregiver identified by telephony PIN
+ */
+export interface IVRCaregiverMatch {
+  caregiverId: UUID;
+  organizationId: UUID;
+}
+
+/**
+ * Visit the caregiver can clock in to by phone
+ */
+export interface IVRVisitMatch {
+  visitId: UUID;
+  clientId: UUID;
+  scheduledStart: Timestamp;
+  timezone: string;
+}
+
+/**
+ * Visit the caregiver is clocked in to and can clock out of by phone
+ */
+export interface IVROpenVisitMatch {
+  evvRecordId: UUID;
+  visitId: UUID;
+  clientId: UUID;
+  clockInTime: Timestamp;
+  timezone: string;
+}
+
+export interface SetTelephonyPinInput {
+  pin: string;
+}
@@ -0,0 +1,253 @@
+/**
+ * Geofence auto-calibration
+ *
+ * Proposes a geofence that fits where caregivers actually clock in. Clock-in
+ * locations are measured from the service address; the farthest few percent
+ * are dropped as outliers and the rest are covered, with a buffer of the
+ * median GPS accuracy, either by a circle or, when they cluster to one side
+ * of the address (a rural driveway, an apartment complex parking lot), by a
+ * polygon around them. The result is only a proposal: it is applied once a
+ * supervisor approves it.
+ */
+
+import {
+  Geofence,
+  GeoPoint,
+  GeofenceCalibrationProposal,
+  GeofenceCalibrationSample,
+} from '../types/evv';
+import {
+  PlanePoint,
+  convexHull,
+  createLocalProjection,
+  haversineDistance,
+  isPointInPolygon,
+  percentile,
+  polygonArea,
+} from './geofence-geometry';
+
+/**
+ * Radius bounds enforced on the geofences table
+ */
+export const MIN_GEOFENCE_RADIUS_METERS = 10;
+export const MAX_GEOFENCE_RADIUS_METERS = 500;
+
+export interface GeofenceCalibrationOptions {
+  /** Fewest usable clock-ins needed before proposing a change */
+  minSamples: number;
+  /** Clock-ins reported with worse GPS accuracy than this are ignored */
+  maxSampleAccuracyMeters: number;
+  /** Clock-ins farther from the address than this percentile are treated as outliers */
+  outlierPercentile: number;
+  /** A polygon is proposed only if its area is at most this share of the equivalent circle */
+  polygonAreaRatio: number;
+  /** Proposals that change the area by less than this share are not worth a review */
+  minAreaChangeRatio: number;
+}
+
+export const DEFAULT_GEOFENCE_CALIBRATION_OPTIONS: GeofenceCalibrationOptions = {
+  minSamples: 20,
+  maxSampleAccuracyMeters: 100,
+  outlierPercentile: 95,
+  polygonAreaRatio: 0.6,
+  minAreaChangeRatio: 0.15,
+};
+
+/**
+ * Proposal fields derived from the clock-in history
+ */
+export type GeofenceCalibrationDraft = Omit<
+  GeofenceCalibrationProposal,
+  'id' | 'status' | 'proposedAt' | 'requestedBy' | 'reviewedAt' | 'reviewedBy' | 'reviewNotes'
+>;
+
+interface ProjectedSample {
+  sample: GeofenceCalibrationSample;
+  point: PlanePoint;
+  distance: number;
+}
+
+/**
+ * Propose a calibrated geofence from past verified clock-ins
+ *
+ * Returns null when there are too few usable clock-ins, or when the
+ * proposal would barely differ from the current geofence.
+ */
+export function proposeGeofenceCalibration(
+  geofence: Geofence,
+  samples: readonly GeofenceCalibrationSample[],
+  options: Partial<GeofenceCalibrationOptions> = {}
+): GeofenceCalibrationDraft | null {
+  const config = { ...DEFAULT_GEOFENCE_CALIBRATION_OPTIONS, ...options };
+  const address: GeoPoint = { latitude: geofence.centerLatitude, longitude: geofence.centerLongitude };
+  const projection = createLocalProjection(address);
+
+  // Clock-ins well beyond the largest allowed radius belong to another of
+  // the client's addresses, not this one
+  const usable: ProjectedSample[] = samples
+    .filter(sample => sample.accuracy <= config.maxSampleAccuracyMeters)
+    .map(sample => ({
+      sample,
+      point: projection.toPlane(sample),
+      distance: haversineDistance(address, sample),
+    }))
+    .filter(projected => projected.distance <= MAX_GEOFENCE_RADIUS_METERS + config.maxSampleAccuracyMeters);
+
+  if (usable.length < config.minSamples) {
+    return null;
+  }
+
+  const outlierCutoff = percentile(usable.map(projected => projected.distance), config.outlierPercentile);
+  const core = usable.filter(projected => projected.distance <= outlierCutoff);
+  const buffer = Math.max(
+    MIN_GEOFENCE_RADIUS_METERS,
+    percentile(core.map(projected => projected.sample.accuracy), 50)
+  );
+
+  const farthest = Math.max(...core.map(projected => projected.distance));
+  const proposedRadiusMeters = clampRadius(Math.ceil(farthest + buffer));
+  const circleArea = Math.PI * proposedRadiusMeters ** 2;
+
+  let proposedShape: Geofence['shape'] = 'CIRCLE';
+  let proposedPolygon: PlanePoint[] | undefined;
+  let proposedAreaSquareMeters = circleArea;
+
+  const hull = convexHull(core.map(projected => projected.point));
+  if (hull.length >= 3) {
+    const buffered = expandPolygon(hull, buffer);
+    const area = polygonArea(buffered);
+    if (area <= circleArea * config.polygonAreaRatio) {
+      proposedShape = 'POLYGON';
+      proposedPolygon = buffered;
+      proposedAreaSquareMeters = area;
+    }
+  }
+
+  const currentPolygon = geofence.shape === 'POLYGON' && geofence.polygonPoints && geofence.polygonPoints.length >= 3
+    ? geofence.polygonPoints.map(point => projection.toPlane(point))
+    : undefined;
+  const currentAreaSquareMeters = currentPolygon
+    ? polygonArea(currentPolygon)
+    : Math.PI * geofence.radiusMeters ** 2;
+
+  const sameShape = proposedShape === (currentPolygon ? 'POLYGON' : 'CIRCLE');
+  const areaChange = Math.abs(proposedAreaSquareMeters - currentAreaSquareMeters) / currentAreaSquareMeters;
+  if (sameShape && areaChange < config.minAreaChangeRatio) {
+    return null;
+  }
+
+  const coverage = (isInside: (projected: ProjectedSample) => boolean): number =>
+    roundTo(usable.filter(isInside).length / usable.length, 4);
+
+  const currentCoverage = currentPolygon
+    ? coverage(projected => isPointInPolygon(projected.point, currentPolygon))
+    : coverage(projected => projected.distance <= geofence.radiusMeters);
+  const proposedCoverage = proposedPolygon
+    ? coverage(projected => isPointInPolygon(projected.point, proposedPolygon))
+    : coverage(projected => projected.distance <= proposedRadiusMeters);
+
+  const recordedTimes = usable.map(projected => new Date(projected.sample.recordedAt).getTime());
+
+  const draft: GeofenceCalibrationDraft = {
+    geofenceId: geofence.id,
+    organizationId: geofence.organizationId,
+    clientId: geofence.clientId,
+    currentShape: currentPolygon ? 'POLYGON' : 'CIRCLE',
+    currentRadiusMeters: geofence.radiusMeters,
+    proposedShape,
+    proposedRadiusMeters,
+    sampleSize: usable.length,
+    sampleStartDate: new Date(Math.min(...recordedTimes)),
+    sampleEndDate: new Date(Math.max(...recordedTimes)),
+    currentCoverage,
+    proposedCoverage,
+    currentAreaSquareMeters: Math.round(currentAreaSquareMeters),
+    proposedAreaSquareMeters: Math.round(proposedAreaSquareMeters),
+    rationale: describeProposal(geofence, {
+      sampleSize: usable.length,
+      outlierCutoff,
+      outlierPercentile: config.outlierPercentile,
+      buffer,
+      proposedShape,
+      proposedRadiusMeters,
+      proposedCoverage,
+      vertexCount: proposedPolygon?.length ?? 0,
+    }),
+  };
+
+  if (geofence.shape === 'POLYGON' && geofence.polygonPoints) {
+    draft.currentPolygonPoints = geofence.polygonPoints;
+  }
+  if (proposedPolygon) {
+    draft.proposedPolygonPoints = proposedPolygon.map(point => roundPoint(projection.toGeo(point)));
+  }
+
+  return draft;
+}
+
+/**
+ * Push each vertex of a convex polygon outward from its centroid
+ */
+function expandPolygon(polygon: readonly PlanePoint[], distance: number): PlanePoint[] {
+  const centroid = {
+    x: polygon.reduce((sum, point) => sum + point.x, 0) / polygon.length,
+    y: polygon.reduce((sum, point) => sum + point.y, 0) / polygon.length,
+  };
+
+  return polygon.map(point => {
+    const length = Math.hypot(point.x - centroid.x, point.y - centroid.y);
+    if (length === 0) {
+      return point;
+    }
+    const scale = (length + distance) / length;
+    return {
+      x: centroid.x + (point.x - centroid.x) * scale,
+      y: centroid.y + (point.y - centroid.y) * scale,
+    };
+  });
+}
+
+function describeProposal(
+  geofence: Geofence,
+  summary: {
+    sampleSize: number;
+    outlierCutoff: number;
+    outlierPercentile: number;
+    buffer: number;
+    proposedShape: Geofence['shape'];
+    proposedRadiusMeters: number;
+    proposedCoverage: number;
+    vertexCount: number;
+  }
+): string {
+  const evidence =
+    `Based on ${summary.sampleSize} verified clock-ins: ` +
+    `${summary.outlierPercentile}% were within ${Math.round(summary.outlierCutoff)} m of the service address, ` +
+    `with a median GPS accuracy of ${Math.round(summary.buffer)} m.`;
+
+  const change = summary.proposedShape === 'POLYGON'
+    ? `Clock-ins cluster to one side of the address, so a ${summary.vertexCount}-point polygon around them is proposed.`
+    : `The radius would change from ${geofence.radiusMeters} m to ${summary.proposedRadiusMeters} m.`;
+
+  const coverage = `${Math.round(summary.proposedCoverage * 100)}% of the sampled clock-ins fall inside the proposed geofence.`;
+
+  const history = geofence.verificationCount > 0
+    ? ` ${Math.round((geofence.successfulVerifications / geofence.verificationCount) * 100)}% of ` +
+      `${geofence.verificationCount} verifications have passed with the current geofence.`
+    : '';
+
+  return `${evidence} ${change} ${coverage}${history}`;
+}
+
+function clampRadius(radius: number): number {
+  return Math.min(MAX_GEOFENCE_RADIUS_METERS, Math.max(MIN_GEOFENCE_RADIUS_METERS, radius));
+}
+
+function roundTo(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+function roundPoint(point: GeoPoint): GeoPoint {
+  return { latitude: roundTo(point.latitude, 7), longitude: roundTo(point.longitude, 7) };
+}
@@ -0,0 +1,177 @@
+/**
+ * Geofence geometry helpers
+ *
+ * Geofences cover at most a few hundred meters, so shapes are evaluated on a
+ * local flat projection (equirectangular, centered on a reference point)
+ * where coordinates are in meters. The distortion at that scale is far below
+ * consumer GPS accuracy.
+ */
+
+import { GeoPoint } from '../types/evv';
+
+const EARTH_RADIUS_METERS = 6371000;
+
+/**
+ * Point on a local plane, in meters east (x) and north (y) of the origin
+ */
+export interface PlanePoint {
+  x: number;
+  y: number;
+}
+
+/**
+ * Local projection centered on an origin point
+ */
+export interface LocalProjection {
+  toPlane(point: GeoPoint): PlanePoint;
+  toGeo(point: PlanePoint): GeoPoint;
+}
+
+function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180;
+}
+
+/**
+ * Great-circle distance between two points (Haversine formula), in meters
+ */
+export function haversineDistance(a: GeoPoint, b: GeoPoint): number {
+  const φ1 = toRadians(a.latitude);
+  const φ2 = toRadians(b.latitude);
+  const Δφ = toRadians(b.latitude - a.latitude);
+  const Δλ = toRadians(b.longitude - a.longitude);
+
+  const h =
+    Math.sin(Δφ / 2) * Math.sin(Δφ / 2) +
+    Math.cos(φ1) * Math.cos(φ2) * Math.sin(Δλ / 2) * Math.sin(Δλ / 2);
+
+  return EARTH_RADIUS_METERS * 2 * Math.atan2(Math.sqrt(h), Math.sqrt(1 - h));
+}
+
+/**
+ * Create a flat projection centered on the origin
+ */
+export function createLocalProjection(origin: GeoPoint): LocalProjection {
+  const metersPerDegreeLat = (Math.PI * EARTH_RADIUS_METERS) / 180;
+  const metersPerDegreeLon = metersPerDegreeLat * Math.cos(toRadians(origin.latitude));
+
+  return {
+    toPlane: (point) => ({
+      x: (point.longitude - origin.longitude) * metersPerDegreeLon,
+      y: (point.latitude - origin.latitude) * metersPerDegreeLat,
+    }),
+    toGeo: (point) => ({
+      latitude: origin.latitude + point.y / metersPerDegreeLat,
+      longitude: origin.longitude + point.x / metersPerDegreeLon,
+    }),
+  };
+}
+
+/**
+ * Ray-casting point-in-polygon test on the plane
+ *
+ * The polygon is implicitly closed; points exactly on an edge may fall
+ * either way, which is why callers pair this with a boundary distance.
+ */
+export function isPointInPolygon(point: PlanePoint, polygon: readonly PlanePoint[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i]!;
+    const b = polygon[j]!;
+    const crosses = (a.y > point.y) !== (b.y > point.y) &&
+      point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x;
+    if (crosses) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Shortest distance from a point to a line segment on the plane
+ */
+function distanceToSegment(point: PlanePoint, a: PlanePoint, b: PlanePoint): number {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared === 0
+    ? 0
+    : Math.max(0, Math.min(1, ((point.x - a.x) * dx + (point.y - a.y) * dy) / lengthSquared));
+  return Math.hypot(point.x - (a.x + t * dx), point.y - (a.y + t * dy));
+}
+
+/**
+ * Distance from a point to the polygon boundary, in meters: negative when
+ * the point is inside the polygon, positive when outside
+ */
+export function signedDistanceToPolygon(point: GeoPoint, polygon: readonly GeoPoint[]): number {
+  const projection = createLocalProjection(point);
+  const origin: PlanePoint = { x: 0, y: 0 };
+  const vertices = polygon.map(vertex => projection.toPlane(vertex));
+
+  let nearest = Infinity;
+  for (let i = 0, j = vertices.length - 1; i < vertices.length; j = i++) {
+    nearest = Math.min(nearest, distanceToSegment(origin, vertices[j]!, vertices[i]!));
+  }
+
+  return isPointInPolygon(origin, vertices) ? -nearest : nearest;
+}
+
+/**
+ * Area of a simple polygon on the plane (shoelace formula), in square meters
+ */
+export function polygonArea(polygon: readonly PlanePoint[]): number {
+  let twiceArea = 0;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    twiceArea += polygon[j]!.x * polygon[i]!.y - polygon[i]!.x * polygon[j]!.y;
+  }
+  return Math.abs(twiceArea) / 2;
+}
+
+/**
+ * Convex hull of a set of plane points (Andrew's monotone chain), in
+ * counter-clockwise order without repeating the first point
+ */
+export function convexHull(points: readonly PlanePoint[]): PlanePoint[] {
+  const sorted = [...points].sort((a, b) => a.x - b.x || a.y - b.y);
+  if (sorted.length < 3) {
+    return sorted;
+  }
+
+  const cross = (o: PlanePoint, a: PlanePoint, b: PlanePoint): number =>
+    (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+
+  const lower: PlanePoint[] = [];
+  for (const point of sorted) {
+    while (lower.length >= 2 && cross(lower[lower.length - 2]!, lower[lower.length - 1]!, point) <= 0) {
+      lower.pop();
+    }
+    lower.push(point);
+  }
+
+  const upper: PlanePoint[] = [];
+  for (let i = sorted.length - 1; i >= 0; i--) {
+    const point = sorted[i]!;
+    while (upper.length >= 2 && cross(upper[upper.length - 2]!, upper[upper.length - 1]!, point) <= 0) {
+      upper.pop();
+    }
+    upper.push(point);
+  }
+
+  lower.pop();
+  upper.pop();
+  return [...lower, ...upper];
+}
+
+/**
+ * Value at the given percentile (0-100) using linear interpolation
+ */
+export function percentile(values: readonly number[], p: number): number {
+  if (values.length === 0) {
+    return 0;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = (Math.min(100, Math.max(0, p)) / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower]! + (sorted[upper]! - sorted[lower]!) * (rank - lower);
+}
@@ -0,0 +1,142 @@
+/**
+ * IVR Call Simulator
+ *
+ * Plays the telephony provider's side of a call against an IVR handler, for
+ * tests and local development without a phone line. Key presses are
+ * collected the way a provider's <Gather> collects them: submission happens
+ * after numDigits keys, on the finish key, or (on timeout) with whatever was
+ * typed so far.
+ *
+ * @example
+ * const call = new IVRCallSimulator(input => ivrService.handleCall(input), {
+ *   from: '+15125550100',
+ *   to: '+15125550199',
+ * });
+ * await call.dial();
+ * await call.press('4821#');
+ * await call.press('1');
+ * console.log(call.transcript);
+ */
+
+import { IVRResponse, IVRWebhookInput } from '../types/telephony';
+
+export type IVRWebhookHandler = (input: IVRWebhookInput) => Promise<IVRResponse>;
+
+export interface IVRCallSimulatorOptions {
+  from: string;
+  to: string;
+  callSid?: string;
+}
+
+interface PendingGather {
+  numDigits?: number;
+  finishOnKey?: string;
+}
+
+let simulatedCallCount = 0;
+
+export class IVRCallSimulator {
+  readonly callSid: string;
+  /** Everything the IVR said, in order */
+  readonly transcript: string[] = [];
+
+  private pendingGather: PendingGather | null = null;
+  private ended = false;
+
+  constructor(private handler: IVRWebhookHandler, private options: IVRCallSimulatorOptions) {
+    simulatedCallCount += 1;
+    this.callSid = options.callSid ?? `SIM${Date.now()}${simulatedCallCount}`;
+  }
+
+  /**
+   * Place the call. Returns what the IVR said.
+   */
+  async dial(): Promise<string[]> {
+    return this.send({ callStatus: 'in-progress' });
+  }
+
+  /**
+   * Press keys at the current prompt. Returns what the IVR said next.
+   */
+  async press(keys: string): Promise<string[]> {
+    if (this.pendingGather === null) {
+      throw new Error(this.ended ? 'Call has ended' : 'IVR is not waiting for input');
+    }
+
+    const { numDigits, finishOnKey } = this.pendingGather;
+    let digits = keys;
+    if (finishOnKey !== undefined && keys.includes(finishOnKey)) {
+      digits = keys.slice(0, keys.indexOf(finishOnKey));
+    }
+    if (numDigits !== undefined) {
+      digits = digits.slice(0, numDigits);
+    }
+
+    return this.send({ digits, callStatus: 'in-progress' });
+  }
+
+  /**
+   * Let the current prompt time out without pressing anything
+   */
+  async wait(): Promise<string[]> {
+    return this.press('');
+  }
+
+  /**
+   * Hang up, as the provider's status callback reports it
+   */
+  async hangUp(): Promise<void> {
+    if (this.ended) {
+      return;
+    }
+    this.ended = true;
+    this.pendingGather = null;
+    await this.handler({ ...this.baseInput(), callStatus: 'completed' });
+  }
+
+  /**
+   * Whether the IVR hung up (or the caller did)
+   */
+  get isEnded(): boolean {
+    return this.ended;
+  }
+
+  private async send(input: Partial<IVRWebhookInput>): Promise<string[]> {
+    if (this.ended) {
+      throw new Error('Call has ended');
+    }
+
+    const response = await this.handler({ ...this.baseInput(), ...input });
+    const spoken: string[] = [];
+    this.pendingGather = null;
+
+    for (const instruction of response.instructions) {
+      if (instruction.verb === 'SAY') {
+        spoken.push(instruction.text);
+      } else if (instruction.verb === 'GATHER') {
+        spoken.push(instruction.prompt);
+        this.pendingGather = {
+          ...(instruction.numDigits !== undefined ? { numDigits: instruction.numDigits } : {}),
+          ...(instruction.finishOnKey !== undefined ? { finishOnKey: instruction.finishOnKey } : {}),
+        };
+        // A provider stops at <Gather> until it has input
+        break;
+      } else {
+        this.ended = true;
+        break;
+      }
+    }
+
+    // A response with nothing left to do ends the call
+    if (this.pendingGather === null) {
+      this.ended = true;
+    }
+
+    this.transcript.push(...spoken);
+    return spoken;
+  }
+
+  private baseInput(): IVRWebhookInput {
+    return { callSid: this.callSid, from: this.options.from, to: this.options.to };
+  }
+}
@@ -0,0 +1,109 @@
+/**
+ * IVR webhook helpers - request parsing, signature verification and
+ * TwiML-style XML rendering
+ *
+ * Kept free of any provider SDK: the markup is the <Response>/<Say>/<Gather>
+ * dialect that Twilio introduced and most programmable-voice providers accept.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import { IVRInstruction, IVRResponse, IVRWebhookInput } from '../types/telephony';
+
+/**
+ * Map provider form parameters (CallSid, From, To, Digits, CallStatus) to
+ * webhook input. Returns null when the call identifiers are missing.
+ */
+export function parseIVRWebhookInput(params: Record<string, unknown>): IVRWebhookInput | null {
+  const callSid = params['CallSid'];
+  const from = params['From'];
+  const to = params['To'];
+
+  if (typeof callSid !== 'string' || callSid === '' || typeof from !== 'string' || typeof to !== 'string') {
+    return null;
+  }
+
+  const input: IVRWebhookInput = { callSid, from, to };
+  if (typeof params['Digits'] === 'string') {
+    input.digits = params['Digits'];
+  }
+  if (typeof params['CallStatus'] === 'string') {
+    input.callStatus = params['CallStatus'];
+  }
+  return input;
+}
+
+/**
+ * Keep only the digits of a phone number
+ */
+export function normalizePhoneNumber(phoneNumber: string): string {
+  return phoneNumber.replace(/\D/g, '');
+}
+
+/**
+ * Compute a webhook signature: base64 HMAC-SHA1 over the full request URL
+ * followed by each POST parameter name and value, sorted by name in code
+ * unit order (so CallSid sorts before Called, as the provider signs it)
+ */
+export function computeIVRWebhookSignature(
+  secret: string,
+  url: string,
+  params: Record<string, unknown>
+): string {
+  const payload = Object.keys(params)
+    .sort((a, b) => (a < b ? -1 : a > b ? 1 : 0))
+    .reduce((acc, key) => acc + key + String(params[key] ?? ''), url);
+
+  return createHmac('sha1', secret).update(payload).digest('base64');
+}
+
+/**
+ * Verify a webhook signature in constant time
+ */
+export function verifyIVRWebhookSignature(
+  secret: string,
+  url: string,
+  params: Record<string, unknown>,
+  signature: string
+): boolean {
+  const expected = Buffer.from(computeIVRWebhookSignature(secret, url, params));
+  const received = Buffer.from(signature);
+
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+/**
+ * Render IVR instructions as TwiML-style XML
+ */
+export function renderIVRResponse(response: IVRResponse): string {
+  const verbs = response.instructions.map(renderInstruction).join('');
+  return `<?xml version="1.0" encoding="UTF-8"?><Response>${verbs}</Response>`;
+}
+
+function renderInstruction(instruction: IVRInstruction): string {
+  switch (instruction.verb) {
+    case 'SAY':
+      return `<Say>${escapeXml(instruction.text)}</Say>`;
+    case 'GATHER': {
+      // actionOnEmptyResult posts back on timeout too, so the flow can re-prompt
+      const attributes = [
+        'input="dtmf"',
+        `timeout="${instruction.timeoutSeconds}"`,
+        'actionOnEmptyResult="true"',
+        ...(instruction.numDigits !== undefined ? [`numDigits="${instruction.numDigits}"`] : []),
+        ...(instruction.finishOnKey !== undefined ? [`finishOnKey="${escapeXml(instruction.finishOnKey)}"`] : []),
+      ];
+      return `<Gather ${attributes.join(' ')}><Say>${escapeXml(instruction.prompt)}</Say></Gather>`;
+    }
+    case 'HANGUP':
+      return '<Hangup/>';
+  }
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
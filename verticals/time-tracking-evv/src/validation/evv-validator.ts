@@ -16,8 +16,10 @@ import {
   VerificationLevel,
   ComplianceFlag,
   EVVRecord,
+  GeoPoint,
 } from '../types/evv';
 import { CryptoUtils } from '../utils/crypto-utils';
+import { haversineDistance, signedDistanceToPolygon } from '../utils/geofence-geometry';
 
 export class EVVValidator {
   
@@ -225,16 +227,7 @@ export class EVVValidator {
     const isWithinGeofence = minPossibleDistance <= effectiveRadius;
     const requiresManualReview = maxPossibleDistance > effectiveRadius && minPossibleDistance <= effectiveRadius;
 
-    let reason: string | undefined;
-    if (!isWithinGeofence) {
-      if (distance > effectiveRadius + 50) {
-        reason = 'Location is significantly outside geofence';
-      } else {
-        reason = 'Location is slightly outside geofence - may need manual review';
-      }
-    } else if (requiresManualReview) {
-      reason = 'GPS accuracy makes verification uncertain - manual review recommended';
-    }
+    const reason = this.describeGeofenceCheck(isWithinGeofence, requiresManualReview, distance - effectiveRadius);
 
     const resultBase = {
       isWithinGeofence,
@@ -434,7 +427,7 @@ export class EVVValidator {
     }
 
     // Determine verification level
-    let verificationLevel: VerificationLevel = 'FULL';
+    let verificationLevel: VerificationLevel = evvRecord.clockInVerification.method === 'PHONE' ? 'PHONE' : 'FULL';
     if (issues.length > 0) {
       const hasCritical = issues.some(i => i.severity === 'CRITICAL');
       const hasHigh = issues.some(i => i.severity === 'HIGH');
@@ -772,6 +765,65 @@ export class EVVValidator {
     };
   }
 
+  /**
+   * Check if location is within a polygon geofence
+   *
+   * The allowed variance extends the polygon edge outward as a soft boundary,
+   * and the location passes when its GPS accuracy circle reaches that
+   * boundary. Locations whose accuracy circle straddles the soft boundary
+   * pass but are flagged for manual review, as with circular geofences.
+   */
+  checkPolygonGeofence(
+    locationLat: number,
+    locationLon: number,
+    locationAccuracy: number,
+    polygonPoints: GeoPoint[],
+    addressLat: number,
+    addressLon: number,
+    allowedVariance: number = 0
+  ): GeofenceCheckResult {
+    const location = { latitude: locationLat, longitude: locationLon };
+    const distanceFromAddress = haversineDistance(location, { latitude: addressLat, longitude: addressLon });
+    const distanceFromBoundary = signedDistanceToPolygon(location, polygonPoints);
+    const distanceOutsideSoftBoundary = distanceFromBoundary - allowedVariance;
+
+    const isWithinGeofence = distanceOutsideSoftBoundary - locationAccuracy <= 0;
+    const requiresManualReview = isWithinGeofence && distanceOutsideSoftBoundary + locationAccuracy > 0;
+    const reason = this.describeGeofenceCheck(isWithinGeofence, requiresManualReview, distanceOutsideSoftBoundary);
+
+    return {
+      isWithinGeofence,
+      distanceFromCenter: distanceFromAddress,
+      distanceFromAddress,
+      distanceFromBoundary,
+      accuracy: locationAccuracy,
+      requiresManualReview,
+      ...(reason !== undefined ? { reason } : {}),
+    };
+  }
+
+  /**
+   * Helper: Explain a geofence check outcome
+   *
+   * distanceOutside is how far the reported location lies beyond the
+   * effective boundary (negative when inside).
+   */
+  private describeGeofenceCheck(
+    isWithinGeofence: boolean,
+    requiresManualReview: boolean,
+    distanceOutside: number
+  ): string | undefined {
+    if (!isWithinGeofence) {
+      return distanceOutside > 50
+        ? 'Location is significantly outside geofence'
+        : 'Location is slightly outside geofence - may need manual review';
+    }
+    if (requiresManualReview) {
+      return 'GPS accuracy makes verification uncertain - manual review recommended';
+    }
+    return undefined;
+  }
+
   /**
    * Validate geographic location with state-specific tolerance
    *
@@ -0,0 +1,193 @@
+/**
+ * EVV Exception SLA Worker
+ *
+ * Background worker that escalates EVV exceptions past their SLA deadline
+ * and expires revision requests nobody reviewed in time.
+ *
+ * Features:
+ * - Configurable polling interval
+ * - Overlapping runs are skipped while a run is still in progress
+ * - Graceful shutdown support
+ */
+
+import { createLogger } from '@care-commons/core';
+import { EVVExceptionQueueService } from '../service/evv-exception-queue-service.js';
+import { EVVRevisionService } from '../service/evv-revision-service.js';
+
+const log = createLogger('EVVExceptionSlaWorker');
+
+export interface EVVExceptionSlaWorkerConfig {
+  /**
+   * How often to check for SLA breaches and stale requests (in milliseconds)
+   * Default: 15 minutes (900000ms)
+   */
+  checkIntervalMs: number;
+
+  /**
+   * Whether the worker is enabled
+   * Default: true
+   */
+  enabled: boolean;
+}
+
+const DEFAULT_CONFIG: EVVExceptionSlaWorkerConfig = {
+  checkIntervalMs: 900000, // 15 minutes
+  enabled: true,
+};
+
+/**
+ * EVV Exception SLA Worker
+ *
+ * Escalates breached exceptions and expires stale revision requests.
+ */
+export class EVVExceptionSlaWorker {
+  private intervalId: ReturnType<typeof setInterval> | null = null;
+  private isRunning = false;
+  private isProcessing = false;
+  private config: EVVExceptionSlaWorkerConfig;
+
+  constructor(
+    private exceptionQueueService: EVVExceptionQueueService,
+    private revisionService: EVVRevisionService,
+    config?: Partial<EVVExceptionSlaWorkerConfig>
+  ) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * Start the worker
+   */
+  start(): void {
+    if (!this.config.enabled) {
+      log.info('EVVExceptionSlaWorker is disabled');
+      return;
+    }
+
+    if (this.isRunning) {
+      log.warn('EVVExceptionSlaWorker is already running');
+      return;
+    }
+
+    log.info({ checkIntervalMs: this.config.checkIntervalMs }, 'EVVExceptionSlaWorker starting');
+
+    this.isRunning = true;
+
+    // Run immediately on start
+    void this.process();
+
+    // Then run periodically
+    this.intervalId = setInterval(() => {
+      void this.process();
+    }, this.config.checkIntervalMs);
+  }
+
+  /**
+   * Stop the worker
+   */
+  stop(): void {
+    if (!this.isRunning) {
+      log.warn('EVVExceptionSlaWorker is not running');
+      return;
+    }
+
+    log.info('EVVExceptionSlaWorker stopping...');
+
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+
+    this.isRunning = false;
+
+    log.info('EVVExceptionSlaWorker stopped');
+  }
+
+  /**
+   * Run one escalation and expiry pass
+   */
+  private async process(): Promise<void> {
+    if (this.isProcessing) {
+      log.debug('Previous SLA run still in progress, skipping');
+      return;
+    }
+
+    this.isProcessing = true;
+    try {
+      const escalated = await this.exceptionQueueService.processSlaBreaches(new Date());
+      if (escalated.length > 0) {
+        log.info({ escalated: escalated.length }, 'EVV exceptions escalated past their SLA');
+      }
+
+      const expired = await this.revisionService.expireStaleRequests();
+      if (expired > 0) {
+        log.info({ expired }, 'Stale EVV revision requests expired');
+      }
+    } catch (error) {
+      log.error({ error }, 'Error processing EVV exception SLAs');
+      // Don't throw - let the worker continue running
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  /**
+   * Check if the worker is running
+   */
+  isActive(): boolean {
+    return this.isRunning;
+  }
+
+  /**
+   * Get current configuration
+   */
+  getConfig(): EVVExceptionSlaWorkerConfig {
+    return { ...this.config };
+  }
+}
+
+/**
+ * Singleton instance for application-wide use
+ */
+let workerInstance: EVVExceptionSlaWorker | null = null;
+
+/**
+ * Initialize and start the EVV exception SLA worker
+ *
+ * Should be called once during application startup.
+ */
+export function initializeEVVExceptionSlaWorker(
+  exceptionQueueService: EVVExceptionQueueService,
+  revisionService: EVVRevisionService,
+  config?: Partial<EVVExceptionSlaWorkerConfig>
+): EVVExceptionSlaWorker {
+  if (workerInstance) {
+    log.warn('EVVExceptionSlaWorker already initialized');
+    return workerInstance;
+  }
+
+  workerInstance = new EVVExceptionSlaWorker(exceptionQueueService, revisionService, config);
+  workerInstance.start();
+
+  // Graceful shutdown on process termination
+  process.on('SIGTERM', () => {
+    log.info('SIGTERM received, shutting down EVVExceptionSlaWorker...');
+    workerInstance?.stop();
+  });
+
+  process.on('SIGINT', () => {
+    log.info('SIGINT received, shutting down EVVExceptionSlaWorker...');
+    workerInstance?.stop();
+  });
+
+  return workerInstance;
+}
+
+/**
+ * Stop and cleanup the EVV exception SLA worker
+ */
+export function shutdownEVVExceptionSlaWorker(): void {
+  if (workerInstance) {
+    workerInstance.stop();
+    workerInstance = null;
+  }
+}
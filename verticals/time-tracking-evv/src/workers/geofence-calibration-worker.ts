@@ -0,0 +1,187 @@
+/**
+ * Geofence Calibration Worker
+ *
+ * Background worker that periodically proposes calibrated geofences from
+ * past clock-in locations. Proposals wait for supervisor approval; nothing
+ * changes a geofence automatically.
+ *
+ * Features:
+ * - Configurable polling interval
+ * - Overlapping runs are skipped while a run is still in progress
+ * - Graceful shutdown support
+ */
+
+import { createLogger } from '@care-commons/core';
+import { GeofenceCalibrationService } from '../service/geofence-calibration-service.js';
+
+const log = createLogger('GeofenceCalibrationWorker');
+
+export interface GeofenceCalibrationWorkerConfig {
+  /**
+   * How often to look for geofences to calibrate (in milliseconds)
+   * Default: 24 hours (86400000ms)
+   */
+  checkIntervalMs: number;
+
+  /**
+   * Whether the worker is enabled
+   * Default: true
+   */
+  enabled: boolean;
+}
+
+const DEFAULT_CONFIG: GeofenceCalibrationWorkerConfig = {
+  checkIntervalMs: 86400000, // 24 hours
+  enabled: true,
+};
+
+/**
+ * Geofence Calibration Worker
+ *
+ * Queues geofence calibration proposals for supervisor review.
+ */
+export class GeofenceCalibrationWorker {
+  private intervalId: ReturnType<typeof setInterval> | null = null;
+  private isRunning = false;
+  private isProcessing = false;
+  private config: GeofenceCalibrationWorkerConfig;
+
+  constructor(
+    private calibrationService: GeofenceCalibrationService,
+    config?: Partial<GeofenceCalibrationWorkerConfig>
+  ) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * Start the worker
+   */
+  start(): void {
+    if (!this.config.enabled) {
+      log.info('GeofenceCalibrationWorker is disabled');
+      return;
+    }
+
+    if (this.isRunning) {
+      log.warn('GeofenceCalibrationWorker is already running');
+      return;
+    }
+
+    log.info({ checkIntervalMs: this.config.checkIntervalMs }, 'GeofenceCalibrationWorker starting');
+
+    this.isRunning = true;
+
+    // Run immediately on start
+    void this.calibrate();
+
+    // Then run periodically
+    this.intervalId = setInterval(() => {
+      void this.calibrate();
+    }, this.config.checkIntervalMs);
+  }
+
+  /**
+   * Stop the worker
+   */
+  stop(): void {
+    if (!this.isRunning) {
+      log.warn('GeofenceCalibrationWorker is not running');
+      return;
+    }
+
+    log.info('GeofenceCalibrationWorker stopping...');
+
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+
+    this.isRunning = false;
+
+    log.info('GeofenceCalibrationWorker stopped');
+  }
+
+  /**
+   * Run one calibration pass
+   */
+  private async calibrate(): Promise<void> {
+    if (this.isProcessing) {
+      log.debug('Previous calibration run still in progress, skipping');
+      return;
+    }
+
+    this.isProcessing = true;
+    try {
+      const proposals = await this.calibrationService.runCalibrationJob(new Date());
+
+      if (proposals.length > 0) {
+        log.info({ proposed: proposals.length }, 'Geofence calibration proposals queued for review');
+      }
+    } catch (error) {
+      log.error({ error }, 'Error calibrating geofences');
+      // Don't throw - let the worker continue running
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  /**
+   * Check if the worker is running
+   */
+  isActive(): boolean {
+    return this.isRunning;
+  }
+
+  /**
+   * Get current configuration
+   */
+  getConfig(): GeofenceCalibrationWorkerConfig {
+    return { ...this.config };
+  }
+}
+
+/**
+ * Singleton instance for application-wide use
+ */
+let workerInstance: GeofenceCalibrationWorker | null = null;
+
+/**
+ * Initialize and start the geofence calibration worker
+ *
+ * Should be called once during application startup.
+ */
+export function initializeGeofenceCalibrationWorker(
+  calibrationService: GeofenceCalibrationService,
+  config?: Partial<GeofenceCalibrationWorkerConfig>
+): GeofenceCalibrationWorker {
+  if (workerInstance) {
+    log.warn('GeofenceCalibrationWorker already initialized');
+    return workerInstance;
+  }
+
+  workerInstance = new GeofenceCalibrationWorker(calibrationService, config);
+  workerInstance.start();
+
+  // Graceful shutdown on process termination
+  process.on('SIGTERM', () => {
+    log.info('SIGTERM received, shutting down GeofenceCalibrationWorker...');
+    workerInstance?.stop();
+  });
+
+  process.on('SIGINT', () => {
+    log.info('SIGINT received, shutting down GeofenceCalibrationWorker...');
+    workerInstance?.stop();
+  });
+
+  return workerInstance;
+}
+
+/**
+ * Stop and cleanup the geofence calibration worker
+ */
+export function shutdownGeofenceCalibrationWorker(): void {
+  if (workerInstance) {
+    workerInstance.stop();
+    workerInstance = null;
+  }
+}